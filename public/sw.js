@@ -0,0 +1,91 @@
+/**
+ * Service worker: keeps the app shell (HTML, JS, CSS) and product images available offline,
+ * so an order link opened once can be reopened without a connection.
+ * API data is NOT cached here – the store caches its catalog itself (src/utils/offlineCatalog.ts).
+ */
+const SHELL_CACHE = 'ordersystem-shell-v1';
+const IMAGE_CACHE = 'ordersystem-images-v1';
+const MAX_CACHED_IMAGES = 500;
+/** This build's JS and CSS, filled in by `vite build` (precacheBuildAssets in vite.config.ts). */
+const PRECACHE_ASSETS = [];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(['/index.html', ...PRECACHE_ASSETS])));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, IMAGE_CACHE];
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  if (keys.length > maxEntries) {
+    await Promise.all(keys.slice(0, keys.length - maxEntries).map((key) => cache.delete(key)));
+  }
+}
+
+/** Navigations: network first, fall back to the cached SPA shell. */
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await caches.match('/index.html');
+    return cached || Response.error();
+  }
+}
+
+/** Hashed build assets never change: cache first. */
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/** Images: network first so updated product photos show, cached copy when offline. */
+async function handleImage(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') {
+      const cache = await caches.open(IMAGE_CACHE);
+      await cache.put(request, response.clone());
+      trimCache(IMAGE_CACHE, MAX_CACHED_IMAGES);
+    }
+    return response;
+  } catch {
+    const cached = await caches.match(request);
+    return cached || Response.error();
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const isSameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === 'navigate' && isSameOrigin) {
+    event.respondWith(handleNavigation(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(handleImage(request));
+  } else if (isSameOrigin && !url.pathname.startsWith('/api/') && url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+  }
+});
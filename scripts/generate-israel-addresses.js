@@ -0,0 +1,131 @@
+/**
+ * Regenerates src/data/israelAddresses.ts from the CBS localities and streets registry published on data.gov.il
+ * (CKAN datastore API). Every locality is listed with all of its streets; `aliases` come from
+ * scripts/israel-address-aliases.json (abbreviations, older names and spellings people type, keyed by the
+ * registry name) plus the registry's own English name.
+ *
+ *   npm run generate:addresses
+ *
+ * Needs network access to data.gov.il; the output is committed, so the app itself never calls it.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+
+const API_URL = 'https://data.gov.il/api/3/action/datastore_search';
+const LOCALITIES_RESOURCE = '5c78e9fa-c2e2-4771-93ff-7f400a12f7ba';
+const STREETS_RESOURCE = 'a7296d1a-f8c9-4b70-96c2-6ebb4352f8e3';
+const PAGE_SIZE = 10000;
+const OUTPUT = new URL('../src/data/israelAddresses.ts', import.meta.url);
+const ALIASES = new URL('./israel-address-aliases.json', import.meta.url);
+const MAX_LINE = 120;
+
+async function fetchAll(resourceId) {
+  const records = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const url = `${API_URL}?resource_id=${resourceId}&limit=${PAGE_SIZE}&offset=${offset}`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+    const body = await response.json();
+    if (!body.success) throw new Error(`${url}: ${JSON.stringify(body.error)}`);
+    records.push(...body.result.records);
+    if (body.result.records.length < PAGE_SIZE) return records;
+  }
+}
+
+/** Registry names are space-padded and print parentheses reversed ("נווה )קיבוץ(" for "נווה (קיבוץ)"). */
+function cleanName(value) {
+  return String(value ?? '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\)([^()]*)\(/g, '($1)');
+}
+
+/** "TEL AVIV - YAFO" → "Tel Aviv - Yafo" */
+function titleCase(value) {
+  return cleanName(value)
+    .toLowerCase()
+    .replace(/(^|[\s\-'(])([a-z])/g, (_, before, letter) => before + letter.toUpperCase());
+}
+
+const compareHebrew = (a, b) => a.localeCompare(b, 'he');
+
+/** Prettier-style string literal: single quotes unless the text has one. */
+const quote = (text) => (text.includes("'") ? JSON.stringify(text) : `'${text.replace(/\\/g, '\\\\')}'`);
+
+function formatLocality(locality) {
+  const fields = [`name: ${quote(locality.name)}`];
+  if (locality.aliases.length > 0) fields.push(`aliases: [${locality.aliases.map(quote).join(', ')}]`);
+  const oneLine = `  { ${fields.join(', ')} },`;
+  if (locality.streets.length === 0 && oneLine.length <= MAX_LINE) return oneLine;
+  const lines = ['  {', ...fields.map((field) => `    ${field},`)];
+  if (locality.streets.length > 0) {
+    lines.push('    streets: [', ...locality.streets.map((street) => `      ${quote(street)},`), '    ],');
+  }
+  lines.push('  },');
+  return lines.join('\n');
+}
+
+async function main() {
+  const aliases = JSON.parse(await readFile(ALIASES, 'utf8'));
+  const [localityRecords, streetRecords] = await Promise.all([
+    fetchAll(LOCALITIES_RESOURCE),
+    fetchAll(STREETS_RESOURCE),
+  ]);
+
+  const byCode = new Map();
+  localityRecords.forEach((record) => {
+    const code = Number(record['סמל_ישוב']);
+    const name = cleanName(record['שם_ישוב']);
+    // Code 0 is the registry's "not recorded" row
+    if (!code || !name) return;
+    const english = titleCase(record['שם_ישוב_לועזי']);
+    byCode.set(code, { name, english, streets: new Set() });
+  });
+
+  streetRecords.forEach((record) => {
+    const locality = byCode.get(Number(record['סמל_ישוב']));
+    const street = cleanName(record['שם_רחוב']);
+    // Each locality also has a "street" named after itself, for addresses without a street
+    if (locality && street && street !== locality.name) locality.streets.add(street);
+  });
+
+  const localities = [...byCode.values()]
+    .map((locality) => ({
+      name: locality.name,
+      aliases: [...new Set([...(aliases[locality.name] ?? []), ...(locality.english ? [locality.english] : [])])],
+      streets: [...locality.streets].sort(compareHebrew),
+    }))
+    .sort((a, b) => compareHebrew(a.name, b.name));
+
+  const names = new Set(localities.map((locality) => locality.name));
+  Object.keys(aliases)
+    .filter((name) => !names.has(name))
+    .forEach((name) => console.warn(`israel-address-aliases.json: "${name}" is not a locality in the registry`));
+
+  const streetCount = localities.reduce((sum, locality) => sum + locality.streets.length, 0);
+  const output = `/**
+ * Israeli localities and their streets for address autocomplete, bundled with the app so it works offline.
+ * Generated by scripts/generate-israel-addresses.js from the CBS localities and streets registry (data.gov.il) –
+ * do not edit by hand: add aliases to scripts/israel-address-aliases.json and run \`npm run generate:addresses\`.
+ * ${localities.length} localities, ${streetCount} streets.
+ *
+ * Loaded on demand (see utils/israelAddresses) so it is not part of the main bundle.
+ */
+
+export interface IsraelLocality {
+  name: string;
+  aliases?: string[];
+  streets?: string[];
+}
+
+export const ISRAEL_LOCALITIES: IsraelLocality[] = [
+${localities.map(formatLocality).join('\n')}
+];
+`;
+  await writeFile(OUTPUT, output);
+  console.log(`Wrote ${localities.length} localities and ${streetCount} streets to src/data/israelAddresses.ts`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
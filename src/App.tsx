@@ -33,8 +33,12 @@ import BusinessDataPage from './pages/BusinessDataPage';
 import AccessibilityStatementPage from './pages/AccessibilityStatementPage';
 import CookiesPolicyPage from './pages/CookiesPolicyPage';
 import HomePage from './pages/HomePage';
+import { useLocale } from './hooks/useLocale';
 
 function App() {
+  // Re-render the app when the UI language changes, so translated text and Intl formatting update everywhere
+  useLocale();
+
   return (
     <AriaLiveProvider>
       <Router>
@@ -71,6 +75,7 @@ function App() {
         {/* Public Store Routes - more specific route first */}
         <Route path="/store/edit/:orderId" element={<StorePage />} />
         <Route path="/store/order/:orderId" element={<StorePage />} />
+        <Route path="/store/customer/:linkToken" element={<StorePage />} />
         <Route path="/store/:managerId" element={<StorePage />} />
         
         <Route 
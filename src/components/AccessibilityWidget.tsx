@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useAriaLive } from './AriaLiveRegionContext';
+import { t, type MessageKey } from '../utils/i18n';
 
 interface AccessibilitySettings {
   fontSize: 'small' | 'normal' | 'large' | 'extra-large';
@@ -15,6 +16,23 @@ const DEFAULT_SETTINGS: AccessibilitySettings = {
 
 const STORAGE_KEY = 'accessibility-settings';
 
+const FONT_SIZE_LABELS: Record<AccessibilitySettings['fontSize'], MessageKey> = {
+  small: 'a11y.level.small',
+  normal: 'a11y.level.normal',
+  large: 'a11y.level.large',
+  'extra-large': 'a11y.level.extraLarge',
+};
+
+const CONTRAST_LABELS: Record<AccessibilitySettings['contrast'], MessageKey> = {
+  normal: 'a11y.level.normal',
+  high: 'a11y.level.high',
+};
+
+const SPACING_LABELS: Record<AccessibilitySettings['spacing'], MessageKey> = {
+  normal: 'a11y.level.normal',
+  increased: 'a11y.level.increased',
+};
+
 export default function AccessibilityWidget() {
   const [isOpen, setIsOpen] = useState(false);
   const [settings, setSettings] = useState<AccessibilitySettings>(DEFAULT_SETTINGS);
@@ -64,44 +82,27 @@ export default function AccessibilityWidget() {
   const handleFontSizeChange = useCallback((size: AccessibilitySettings['fontSize']) => {
     const newSettings = { ...settings, fontSize: size };
     updateSettings(newSettings);
-    
-    const sizeLabels = {
-      small: 'קטן',
-      normal: 'רגיל',
-      large: 'גדול',
-      'extra-large': 'גדול מאוד',
-    };
-    announce(`גודל גופן שונה ל-${sizeLabels[size]}`);
+    announce(t('a11y.announce.fontSize', { level: t(FONT_SIZE_LABELS[size]) }));
   }, [settings, updateSettings, announce]);
 
   // Handle contrast change
   const handleContrastChange = useCallback((contrast: AccessibilitySettings['contrast']) => {
     const newSettings = { ...settings, contrast };
     updateSettings(newSettings);
-    
-    const contrastLabels = {
-      normal: 'רגיל',
-      high: 'גבוה',
-    };
-    announce(`ניגודיות שונתה ל-${contrastLabels[contrast]}`);
+    announce(t('a11y.announce.contrast', { level: t(CONTRAST_LABELS[contrast]) }));
   }, [settings, updateSettings, announce]);
 
   // Handle spacing change
   const handleSpacingChange = useCallback((spacing: AccessibilitySettings['spacing']) => {
     const newSettings = { ...settings, spacing };
     updateSettings(newSettings);
-    
-    const spacingLabels = {
-      normal: 'רגיל',
-      increased: 'מוגדל',
-    };
-    announce(`מרווחים שונו ל-${spacingLabels[spacing]}`);
+    announce(t('a11y.announce.spacing', { level: t(SPACING_LABELS[spacing]) }));
   }, [settings, updateSettings, announce]);
 
   // Reset to defaults
   const handleReset = useCallback(() => {
     updateSettings(DEFAULT_SETTINGS);
-    announce('הגדרות נגישות אופסו לברירת מחדל');
+    announce(t('a11y.announce.reset'));
   }, [updateSettings, announce]);
 
   // Close menu when clicking outside
@@ -151,7 +152,7 @@ export default function AccessibilityWidget() {
   }, [isOpen]);
 
   return (
-    <div ref={widgetRef} className="fixed bottom-6 left-6 z-[9999]" dir="rtl">
+    <div ref={widgetRef} className="fixed bottom-6 left-6 z-[9999]">
       {/* Toggle Button */}
       <button
         ref={buttonRef}
@@ -162,7 +163,7 @@ export default function AccessibilityWidget() {
           transition-all duration-200 flex items-center justify-center
           ${isOpen ? 'bg-indigo-700 scale-105' : ''}
         `}
-        aria-label="פתח תפריט נגישות"
+        aria-label={t('a11y.open')}
         aria-expanded={isOpen}
         aria-controls="accessibility-menu"
         aria-haspopup="true"
@@ -200,15 +201,15 @@ export default function AccessibilityWidget() {
           id="accessibility-menu"
           className="absolute bottom-20 left-0 w-80 bg-white rounded-2xl shadow-2xl border border-gray-200 p-6 space-y-6"
           role="menu"
-          aria-label="תפריט נגישות"
+          aria-label={t('a11y.menu')}
         >
           {/* Header */}
           <div className="flex items-center justify-between border-b border-gray-200 pb-4">
-            <h2 className="text-xl font-bold text-gray-800">הגדרות נגישות</h2>
+            <h2 className="text-xl font-bold text-gray-800">{t('a11y.title')}</h2>
             <button
               onClick={() => setIsOpen(false)}
               className="p-1 hover:bg-gray-100 rounded-lg transition-colors focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-              aria-label="סגור תפריט נגישות"
+              aria-label={t('a11y.close')}
             >
               <svg
                 className="w-5 h-5 text-gray-600"
@@ -230,9 +231,9 @@ export default function AccessibilityWidget() {
           {/* Font Size */}
           <div>
             <label className="block text-sm font-semibold text-gray-800 mb-3">
-              גודל גופן
+              {t('a11y.fontSize')}
             </label>
-            <div className="grid grid-cols-4 gap-2" role="group" aria-label="גודל גופן">
+            <div className="grid grid-cols-4 gap-2" role="group" aria-label={t('a11y.fontSize')}>
               {(['small', 'normal', 'large', 'extra-large'] as const).map((size) => (
                 <button
                   key={size}
@@ -249,24 +250,21 @@ export default function AccessibilityWidget() {
                   role="menuitemradio"
                   aria-checked={settings.fontSize === size}
                 >
-                  {size === 'small' && 'א'}
-                  {size === 'normal' && 'א'}
-                  {size === 'large' && 'א'}
-                  {size === 'extra-large' && 'א'}
+                  {t('a11y.fontSample')}
                 </button>
               ))}
             </div>
             <p className="text-xs text-gray-600 mt-2">
-              קטן | רגיל | גדול | גדול מאוד
+              {Object.values(FONT_SIZE_LABELS).map((key) => t(key)).join(' | ')}
             </p>
           </div>
 
           {/* Contrast */}
           <div>
             <label className="block text-sm font-semibold text-gray-800 mb-3">
-              ניגודיות
+              {t('a11y.contrast')}
             </label>
-            <div className="grid grid-cols-2 gap-2" role="group" aria-label="ניגודיות">
+            <div className="grid grid-cols-2 gap-2" role="group" aria-label={t('a11y.contrast')}>
               {(['normal', 'high'] as const).map((contrast) => (
                 <button
                   key={contrast}
@@ -283,7 +281,7 @@ export default function AccessibilityWidget() {
                   role="menuitemradio"
                   aria-checked={settings.contrast === contrast}
                 >
-                  {contrast === 'normal' ? 'רגיל' : 'גבוה'}
+                  {t(CONTRAST_LABELS[contrast])}
                 </button>
               ))}
             </div>
@@ -292,9 +290,9 @@ export default function AccessibilityWidget() {
           {/* Spacing */}
           <div>
             <label className="block text-sm font-semibold text-gray-800 mb-3">
-              מרווחים
+              {t('a11y.spacing')}
             </label>
-            <div className="grid grid-cols-2 gap-2" role="group" aria-label="מרווחים">
+            <div className="grid grid-cols-2 gap-2" role="group" aria-label={t('a11y.spacing')}>
               {(['normal', 'increased'] as const).map((spacing) => (
                 <button
                   key={spacing}
@@ -311,7 +309,7 @@ export default function AccessibilityWidget() {
                   role="menuitemradio"
                   aria-checked={settings.spacing === spacing}
                 >
-                  {spacing === 'normal' ? 'רגיל' : 'מוגדל'}
+                  {t(SPACING_LABELS[spacing])}
                 </button>
               ))}
             </div>
@@ -324,7 +322,7 @@ export default function AccessibilityWidget() {
               className="w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
               role="menuitem"
             >
-              איפוס הגדרות
+              {t('a11y.reset')}
             </button>
           </div>
 
@@ -336,7 +334,7 @@ export default function AccessibilityWidget() {
               className="block w-full text-xs text-indigo-600 hover:text-indigo-700 underline text-center focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 rounded"
               role="menuitem"
             >
-              הצהרת נגישות
+              {t('a11y.statement')}
             </a>
               <a
                 href="tel:0505566979"
@@ -344,7 +342,7 @@ export default function AccessibilityWidget() {
                 role="menuitem"
                 onClick={() => setIsOpen(false)}
               >
-                דיווח על בעיית נגישות: 050-5566979
+                {t('a11y.reportIssue', { phone: '050-5566979' })}
               </a>
           </div>
         </div>
@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
 import { useModalFocus } from '../hooks/useFocusManagement';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
+import { t } from '../utils/i18n';
 
 interface AccessibleModalProps {
   isOpen: boolean;
@@ -127,7 +128,7 @@ export default function AccessibleModal({
             ref={closeButtonRef}
             onClick={onClose}
             className="p-2 hover:bg-white/30 rounded-xl transition-all duration-200 hover:rotate-90 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-            aria-label="סגור חלון"
+            aria-label={t('common.closeWindow')}
           >
             <svg
               className="w-6 h-6 text-gray-600"
@@ -1,10 +1,12 @@
 import { useState } from 'react';
 import Spinner from './Spinner';
 import AccessibleModal from './AccessibleModal';
+import AddressAutocompleteInput from './AddressAutocompleteInput';
 import { locationAPI, type Location } from '../services/api';
 import { validateLocationForm, LOCATION_FIELD_LIMITS } from '../utils/validation';
 import type { ValidationErrors } from '../utils/validation';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 interface AddLocationModalProps {
   isOpen: boolean;
@@ -80,6 +82,13 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
     }
   };
 
+  const handleAddressChange = (name: 'streetAddress' | 'city', value: string) => {
+    setFormData({ ...formData, [name]: value });
+    if (showErrors && fieldErrors[name]) {
+      setFieldErrors({ ...fieldErrors, [name]: '' });
+    }
+  };
+
   const handleClose = () => {
     setFormData({
       name: '',
@@ -97,9 +106,9 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="הוסף סניף חדש"
+      title={t('locationForm.addTitle')}
       size="md"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -114,7 +123,7 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
         <form onSubmit={handleSubmit} noValidate className="space-y-3.5">
           <div>
             <label htmlFor="name" className="block text-xs font-medium text-gray-700 mb-1.5">
-              שם הסניף *
+              {t('field.locationName')} *
             </label>
             <input
               id="name"
@@ -126,7 +135,7 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
               className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                 showErrors && fieldErrors.name ? 'border-red-400 focus:ring-red-400/50' : ''
               }`}
-              placeholder="לדוגמה: סניף ראשי, סניף מרכז"
+              placeholder={t('locationForm.namePlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.name && (
@@ -136,19 +145,20 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
 
           <div>
             <label htmlFor="streetAddress" className="block text-xs font-medium text-gray-700 mb-1.5">
-              כתובת *
+              {t('field.address')} *
             </label>
-            <input
+            <AddressAutocompleteInput
+              kind="street"
+              city={formData.city}
               id="streetAddress"
               name="streetAddress"
-              type="text"
               value={formData.streetAddress}
-              onChange={handleChange}
+              onValueChange={(value) => handleAddressChange('streetAddress', value)}
               maxLength={LOCATION_FIELD_LIMITS.streetAddress}
               className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                 showErrors && fieldErrors.streetAddress ? 'border-red-400 focus:ring-red-400/50' : ''
               }`}
-              placeholder="רחוב ראשי 123"
+              placeholder={t('customerForm.streetPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.streetAddress && (
@@ -158,19 +168,19 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
 
           <div>
             <label htmlFor="city" className="block text-xs font-medium text-gray-700 mb-1.5">
-              עיר *
+              {t('field.city')} *
             </label>
-            <input
+            <AddressAutocompleteInput
+              kind="city"
               id="city"
               name="city"
-              type="text"
               value={formData.city}
-              onChange={handleChange}
+              onValueChange={(value) => handleAddressChange('city', value)}
               maxLength={LOCATION_FIELD_LIMITS.city}
               className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                 showErrors && fieldErrors.city ? 'border-red-400 focus:ring-red-400/50' : ''
               }`}
-              placeholder="תל אביב"
+              placeholder={t('customerForm.cityPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.city && (
@@ -180,7 +190,7 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
 
           <div>
             <label htmlFor="phoneNumber" className="block text-xs font-medium text-gray-700 mb-1.5">
-              מספר טלפון *
+              {t('field.phone')} *
             </label>
             <input
               id="phoneNumber"
@@ -211,7 +221,7 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -221,14 +231,14 @@ export default function AddLocationModal({ isOpen, onClose, onSuccess }: AddLoca
               {isLoading ? (
                 <>
                   <Spinner size="sm" />
-                  <span>יוצר...</span>
+                  <span>{t('common.creating')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>צור סניף</span>
+                  <span>{t('locationForm.create')}</span>
                 </>
               )}
             </button>
@@ -0,0 +1,136 @@
+import { useId, useMemo, useState } from 'react';
+import type { FocusEvent, InputHTMLAttributes, KeyboardEvent } from 'react';
+import { useIsraelAddresses } from '../hooks/useIsraelAddresses';
+import {
+  joinHouseNumber,
+  normalizeCity,
+  normalizeStreetAddress,
+  splitHouseNumber,
+  suggestCities,
+  suggestStreets,
+} from '../utils/israelAddresses';
+
+interface AddressAutocompleteInputProps
+  extends Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'type' | 'list'> {
+  kind: 'city' | 'street';
+  value: string;
+  onValueChange: (value: string) => void;
+  /** Street fields: the city whose streets are suggested (no suggestions while it is empty or unknown). */
+  city?: string;
+}
+
+/**
+ * Text input with Israeli city / street suggestions (data/israelAddresses). On blur a known city or street is
+ * replaced by its official spelling; anything else stays as typed. Streets keep the typed house number.
+ */
+export default function AddressAutocompleteInput({
+  kind,
+  value,
+  onValueChange,
+  city = '',
+  maxLength,
+  onBlur,
+  onKeyDown,
+  ...inputProps
+}: AddressAutocompleteInputProps) {
+  const index = useIsraelAddresses();
+  const listId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = useMemo(() => {
+    if (!index || !isOpen || !value.trim()) return [];
+    const found = kind === 'city' ? suggestCities(index, value) : suggestStreets(index, city, value);
+    const typed = kind === 'city' ? value.trim() : splitHouseNumber(value).street;
+    return found.length === 1 && found[0] === typed ? [] : found;
+  }, [index, isOpen, kind, city, value]);
+
+  const emit = (next: string) => onValueChange(maxLength != null ? next.slice(0, maxLength) : next);
+
+  const select = (suggestion: string) => {
+    emit(kind === 'city' ? suggestion : joinHouseNumber(suggestion, splitHouseNumber(value).houseNumber));
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleBlur = (e: FocusEvent<HTMLInputElement>) => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    if (index && value.trim()) {
+      const normalized = kind === 'city' ? normalizeCity(index, value) : normalizeStreetAddress(index, city, value);
+      if (normalized !== value) emit(normalized);
+    }
+    onBlur?.(e);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex((prev) => (prev + 1) % suggestions.length);
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+      } else if (e.key === 'Enter' && activeIndex >= 0) {
+        e.preventDefault();
+        select(suggestions[activeIndex]);
+      } else if (e.key === 'Escape') {
+        e.stopPropagation();
+        setIsOpen(false);
+        setActiveIndex(-1);
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  const isExpanded = suggestions.length > 0;
+
+  return (
+    <div className="relative">
+      <input
+        {...inputProps}
+        type="text"
+        value={value}
+        maxLength={maxLength}
+        onChange={(e) => {
+          emit(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={(e) => {
+          setIsOpen(true);
+          inputProps.onFocus?.(e);
+        }}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={isExpanded}
+        aria-controls={listId}
+        aria-activedescendant={isExpanded && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        autoComplete="off"
+      />
+      {isExpanded && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto rounded-xl border border-gray-200 bg-white py-1 shadow-lg text-sm text-gray-800 text-start"
+        >
+          {suggestions.map((suggestion, i) => (
+            <li
+              key={suggestion}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(suggestion)}
+              className={`px-3 py-2 cursor-pointer ${i === activeIndex ? 'bg-indigo-50 text-indigo-800' : 'hover:bg-gray-50'}`}
+            >
+              {suggestion}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
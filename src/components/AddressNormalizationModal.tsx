@@ -0,0 +1,233 @@
+import { useEffect, useMemo, useState } from 'react';
+import AccessibleModal from './AccessibleModal';
+import Spinner from './Spinner';
+import type { Customer, CustomerRequest } from '../services/api';
+import { useIsraelAddresses } from '../hooks/useIsraelAddresses';
+import { findLocality, normalizeAddress, type AddressFields } from '../utils/israelAddresses';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
+
+interface AddressNormalizationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customers: Customer[];
+  updateCustomer: (id: string, data: CustomerRequest) => Promise<Customer>;
+  onUpdated: (customer: Customer) => void;
+}
+
+interface Proposal {
+  customer: Customer;
+  next: AddressFields;
+}
+
+interface ApplyResult {
+  updated: number;
+  failures: { name: string; message: string }[];
+}
+
+/**
+ * One-time clean-up of existing customer addresses: lists every customer whose city / street differs from the
+ * dataset's official spelling and saves the selected ones. Addresses the dataset does not know are left alone.
+ */
+export default function AddressNormalizationModal({
+  isOpen,
+  onClose,
+  customers,
+  updateCustomer,
+  onUpdated,
+}: AddressNormalizationModalProps) {
+  const index = useIsraelAddresses();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ApplyResult | null>(null);
+
+  const proposals = useMemo<Proposal[]>(() => {
+    if (!index) return [];
+    return customers.flatMap((customer) => {
+      const next = normalizeAddress(index, { streetAddress: customer.streetAddress ?? '', city: customer.city ?? '' });
+      return next.city !== customer.city || next.streetAddress !== customer.streetAddress ? [{ customer, next }] : [];
+    });
+  }, [index, customers]);
+
+  const unknownCityCount = useMemo(
+    () => (index ? customers.filter((c) => c.city?.trim() && !findLocality(index, c.city)).length : 0),
+    [index, customers]
+  );
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedIds(new Set(proposals.map((p) => p.customer.id)));
+    setResult(null);
+    setProgress(0);
+    // Re-select everything only when the modal opens or the dataset finishes loading, not after each save.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, index]);
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = proposals.length > 0 && proposals.every((p) => selectedIds.has(p.customer.id));
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(proposals.map((p) => p.customer.id)));
+  };
+
+  const handleApply = async () => {
+    const toApply = proposals.filter((p) => selectedIds.has(p.customer.id));
+    if (toApply.length === 0) return;
+    setIsApplying(true);
+    setProgress(0);
+    const outcome: ApplyResult = { updated: 0, failures: [] };
+    // Sequential on purpose: a few hundred small updates, and a failure should not abort the rest.
+    for (const { customer, next } of toApply) {
+      try {
+        const updated = await updateCustomer(customer.id, {
+          name: customer.name,
+          phoneNumber: customer.phoneNumber,
+          email: customer.email,
+          streetAddress: next.streetAddress,
+          city: next.city,
+          stateId: customer.stateId,
+          discountPercentage: customer.discountPercentage,
+        });
+        onUpdated(updated);
+        outcome.updated += 1;
+      } catch (err: unknown) {
+        outcome.failures.push({ name: customer.name, message: resolveApiErr(err, 'customerUpdate') });
+      }
+      setProgress((prev) => prev + 1);
+    }
+    setResult(outcome);
+    setIsApplying(false);
+  };
+
+  const handleClose = () => {
+    if (!isApplying) onClose();
+  };
+
+  const selectedCount = proposals.filter((p) => selectedIds.has(p.customer.id)).length;
+
+  const renderChange = (before: string, after: string) =>
+    before === after ? (
+      <span className="text-gray-500">{after || '—'}</span>
+    ) : (
+      <span>
+        <span className="text-gray-400 line-through">{before || '—'}</span>
+        <span className="mx-1 text-gray-400" aria-hidden="true">
+          {getDir() === 'rtl' ? '←' : '→'}
+        </span>
+        <span className="font-semibold text-indigo-700">{after}</span>
+      </span>
+    );
+
+  return (
+    <AccessibleModal isOpen={isOpen} onClose={handleClose} title={t('addresses.title')} size="xl" dir={getDir()}>
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">{t('addresses.intro')}</p>
+
+        {!index ? (
+          <div className="flex items-center justify-center py-10">
+            <Spinner size="md" />
+          </div>
+        ) : result ? (
+          <div className="space-y-3" role="status">
+            <p className="rounded-xl border border-green-200 bg-green-50 px-4 py-3 text-sm font-semibold text-green-800">
+              {t('addresses.updated', { count: result.updated })}
+            </p>
+            {result.failures.length > 0 && (
+              <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700" role="alert">
+                <p className="font-semibold">{t('addresses.failed', { count: result.failures.length })}</p>
+                <ul className="mt-1 list-disc ps-5 space-y-0.5">
+                  {result.failures.map((failure, i) => (
+                    <li key={i}>
+                      {failure.name}: {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : proposals.length === 0 ? (
+          <p className="rounded-xl border border-gray-200 bg-gray-50 px-4 py-6 text-center text-sm text-gray-600">
+            {t('addresses.nothingToFix')}
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <label className="flex items-center gap-2 font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleAll}
+                  disabled={isApplying}
+                  className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>{t('orders.export.selectAll')}</span>
+              </label>
+              <span className="text-gray-600">
+                {t('addresses.selected', { count: selectedCount, total: proposals.length })}
+              </span>
+            </div>
+            <ul className="max-h-[50vh] overflow-y-auto divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+              {proposals.map(({ customer, next }) => (
+                <li key={customer.id}>
+                  <label className="flex items-start gap-3 px-4 py-3 cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(customer.id)}
+                      onChange={() => toggle(customer.id)}
+                      disabled={isApplying}
+                      className="mt-1 w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <div className="min-w-0 flex-1 text-sm">
+                      <p className="font-semibold text-gray-800 truncate">{customer.name}</p>
+                      <p className="mt-0.5 text-gray-700">
+                        {renderChange(customer.streetAddress, next.streetAddress)}
+                        <span className="text-gray-400">, </span>
+                        {renderChange(customer.city, next.city)}
+                      </p>
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        {index && !result && unknownCityCount > 0 && (
+          <p className="text-xs text-gray-500">{t('addresses.unknownCity', { count: unknownCityCount })}</p>
+        )}
+
+        {isApplying && (
+          <p className="flex items-center gap-2 text-sm text-gray-700" role="status">
+            <Spinner size="sm" />
+            <span>{t('addresses.progress', { done: progress, total: selectedCount })}</span>
+          </p>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          <button type="button" onClick={handleClose} disabled={isApplying} className="btn-cancel">
+            <span>{result ? t('orders.bulk.close') : t('common.cancel')}</span>
+          </button>
+          {!result && proposals.length > 0 && (
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={isApplying || selectedCount === 0}
+              className="btn-save-indigo"
+            >
+              <span>{t('addresses.apply', { count: selectedCount })}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </AccessibleModal>
+  );
+}
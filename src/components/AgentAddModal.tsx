@@ -5,14 +5,15 @@ import { agentAPI, type Agent, type NewAgentRequest } from '../services/api';
 import type { ValidationErrors } from '../utils/validation';
 import { validateAgentCreationForm, AGENT_FIELD_LIMITS } from '../utils/validation';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
-/** Map backend agent error messages (English) to Hebrew for display */
+/** Map backend agent error messages (English) to the active locale for display */
 function translateAgentError(message: string): string {
   if (message.includes('email') && message.toLowerCase().includes('already exists')) {
-    return 'כבר קיים סוכן עם כתובת אימייל זו';
+    return t('agentForm.error.emailExists');
   }
   if (message.toLowerCase().includes('limit reached') || message.toLowerCase().includes('limit exceeded')) {
-    return 'הגעת למגבלת מספר הסוכנים';
+    return t('agentForm.error.limit');
   }
   return message;
 }
@@ -127,9 +128,9 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="הוסף סוכן חדש"
+      title={t('agentForm.addTitle')}
       size="lg"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -144,14 +145,14 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
         <form onSubmit={handleSubmit} className="space-y-3.5" noValidate>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">שם פרטי *</label>
+              <label className="form-label">{t('field.firstName')} *</label>
               <input
                 name="firstName"
                 type="text"
                 value={formData.firstName}
                 onChange={handleChange}
                 className={`form-input text-center ${showErrors && fieldErrors.firstName ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: יוחנן"
+                placeholder={t('agentForm.firstNamePlaceholder')}
                 dir="ltr"
               />
               {showErrors && fieldErrors.firstName && (
@@ -159,14 +160,14 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
               )}
             </div>
             <div>
-              <label className="form-label">שם משפחה *</label>
+              <label className="form-label">{t('field.lastName')} *</label>
               <input
                 name="lastName"
                 type="text"
                 value={formData.lastName}
                 onChange={handleChange}
                 className={`form-input text-center ${showErrors && fieldErrors.lastName ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: כהן"
+                placeholder={t('agentForm.lastNamePlaceholder')}
                 dir="ltr"
               />
               {showErrors && fieldErrors.lastName && <p className="text-red-500 text-xs mt-1">{fieldErrors.lastName}</p>}
@@ -175,28 +176,28 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">אימייל *</label>
+              <label className="form-label">{t('field.email')} *</label>
               <input
                 name="email"
                 type="email"
                 value={formData.email}
                 onChange={handleChange}
                 className={`form-input text-center ${showErrors && fieldErrors.email ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: agent@example.com"
+                placeholder={t('agentForm.emailPlaceholder')}
                 autoComplete="email"
                 dir="ltr"
               />
               {showErrors && fieldErrors.email && <p className="text-red-500 text-xs mt-1">{fieldErrors.email}</p>}
             </div>
             <div>
-              <label className="form-label">סיסמה זמנית *</label>
+              <label className="form-label">{t('agentForm.tempPassword')} *</label>
               <input
                 name="password"
                 type="text"
                 value={formData.password}
                 onChange={handleChange}
                 className={`form-input text-center ${showErrors && fieldErrors.password ? 'form-input-error' : ''}`}
-                placeholder="סיסמה ראשונית לגישה"
+                placeholder={t('agentForm.passwordPlaceholder')}
                 dir="ltr"
               />
               {showErrors && fieldErrors.password && <p className="text-red-500 text-xs mt-1">{fieldErrors.password}</p>}
@@ -205,14 +206,14 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">מספר טלפון *</label>
+              <label className="form-label">{t('field.phone')} *</label>
               <input
                 name="phoneNumber"
                 type="tel"
                 value={formData.phoneNumber}
                 onChange={handleChange}
                 className={`form-input text-center ${showErrors && fieldErrors.phoneNumber ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: 0501234567"
+                placeholder={t('customerForm.phonePlaceholder')}
                 dir="ltr"
               />
               {showErrors && fieldErrors.phoneNumber && (
@@ -220,14 +221,14 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
               )}
             </div>
             <div>
-              <label className="form-label">עיר *</label>
+              <label className="form-label">{t('field.city')} *</label>
               <input
                 name="city"
                 type="text"
                 value={formData.city}
                 onChange={handleChange}
                 className={`form-input text-center ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: תל אביב"
+                placeholder={t('customerForm.cityPlaceholder')}
                 dir="ltr"
               />
               {showErrors && fieldErrors.city && <p className="text-red-500 text-xs mt-1">{fieldErrors.city}</p>}
@@ -235,14 +236,14 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
           </div>
 
           <div>
-            <label className="form-label">כתובת *</label>
+            <label className="form-label">{t('field.address')} *</label>
             <input
               name="streetAddress"
               type="text"
               value={formData.streetAddress}
               onChange={handleChange}
               className={`form-input text-center ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-              placeholder="לדוגמה: רחוב הרצל 123"
+              placeholder={t('customerForm.streetPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.streetAddress && (
@@ -260,7 +261,7 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -270,14 +271,14 @@ export default function AgentAddModal({ isOpen, onClose, onSuccess }: AgentAddMo
               {isSubmitting ? (
                 <>
                   <Spinner size="sm" />
-                  <span>מוסיף...</span>
+                  <span>{t('common.adding')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>הוסף סוכן</span>
+                  <span>{t('agents.add')}</span>
                 </>
               )}
             </button>
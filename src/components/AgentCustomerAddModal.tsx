@@ -2,9 +2,11 @@ import { useEffect, useState } from 'react';
 import { agentAPI, type Customer, type CustomerRequest } from '../services/api';
 import AccessibleModal from './AccessibleModal';
 import { resolveApiErr } from '../utils/apiErrorMessage';
-import { validateRequiredWithMaxLength, validatePhoneNumberDigitsOnly, validateEmail, validateDiscountPercentage } from '../utils/validation';
+import { validateRequiredWithMaxLength, validatePhoneNumberDigitsOnly, validateEmail, validateDiscountPercentage, validateStateIdNumber } from '../utils/validation';
 import type { ValidationErrors } from '../utils/validation';
+import { getDir, t } from '../utils/i18n';
 import Spinner from './Spinner';
+import AddressAutocompleteInput from './AddressAutocompleteInput';
 
 interface AgentCustomerAddModalProps {
   isOpen: boolean;
@@ -64,12 +66,6 @@ export default function AgentCustomerAddModal({
       case 'email':
         sanitized = value.slice(0, MAX_CUSTOMER_EMAIL_LENGTH);
         break;
-      case 'streetAddress':
-        sanitized = value.slice(0, MAX_CUSTOMER_STREET_LENGTH);
-        break;
-      case 'city':
-        sanitized = value.slice(0, MAX_CUSTOMER_CITY_LENGTH);
-        break;
       case 'stateId':
         sanitized = value.replace(/\D/g, '').slice(0, 20);
         break;
@@ -97,16 +93,23 @@ export default function AgentCustomerAddModal({
     }
   };
 
+  const handleAddressChange = (name: 'streetAddress' | 'city', value: string) => {
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (showErrors && fieldErrors[name]) {
+      setFieldErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
   const validateForm = (): ValidationErrors => {
     const errors: ValidationErrors = {};
 
-    const nameError = validateRequiredWithMaxLength(formData.name, 'Customer name', MAX_CUSTOMER_NAME_LENGTH);
+    const nameError = validateRequiredWithMaxLength(formData.name, t('field.customerName'), MAX_CUSTOMER_NAME_LENGTH);
     if (nameError) errors.name = nameError;
     
     const phoneError = validatePhoneNumberDigitsOnly(
       formData.phoneNumber,
       MAX_CUSTOMER_PHONE_LENGTH,
-      'Phone number'
+      t('field.phone')
     );
     if (phoneError) errors.phoneNumber = phoneError;
     
@@ -115,31 +118,23 @@ export default function AgentCustomerAddModal({
     
     const streetError = validateRequiredWithMaxLength(
       formData.streetAddress,
-      'Street address',
+      t('field.address'),
       MAX_CUSTOMER_STREET_LENGTH
     );
     if (streetError) errors.streetAddress = streetError;
     
-    const cityError = validateRequiredWithMaxLength(formData.city, 'City', MAX_CUSTOMER_CITY_LENGTH);
+    const cityError = validateRequiredWithMaxLength(formData.city, t('field.city'), MAX_CUSTOMER_CITY_LENGTH);
     if (cityError) errors.city = cityError;
     
     // Validate state ID: exactly 9 digits
-    let stateIdError: string | null = null;
-    const trimmedStateId = formData.stateId.trim();
-    if (!trimmedStateId) {
-      stateIdError = 'ח.פ / ע.מ הוא שדה חובה';
-    } else if (!/^\d+$/.test(trimmedStateId)) {
-      stateIdError = 'ח.פ / ע.מ חייב להכיל ספרות בלבד';
-    } else if (trimmedStateId.length !== 9) {
-      stateIdError = 'ח.פ / ע.מ חייב להכיל בדיוק 9 ספרות';
-    }
+    const stateIdError = validateStateIdNumber(formData.stateId);
     if (stateIdError) {
       errors.stateId = stateIdError;
     }
     
     const discountError = validateDiscountPercentage(
       formData.discountPercentage ?? 0,
-      'Discount percentage'
+      t('field.discountPercentage')
     );
     if (discountError) errors.discountPercentage = discountError;
 
@@ -183,9 +178,9 @@ export default function AgentCustomerAddModal({
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="הוסף לקוח חדש"
+      title={t('customerForm.addTitle')}
       size="lg"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -199,7 +194,7 @@ export default function AgentCustomerAddModal({
 
         <form onSubmit={handleSubmit} className="space-y-3.5" noValidate>
           <div>
-            <label className="form-label">שם לקוח *</label>
+            <label className="form-label">{t('field.customerName')} *</label>
             <input
               name="name"
               type="text"
@@ -207,15 +202,14 @@ export default function AgentCustomerAddModal({
               onChange={handleChange}
               maxLength={MAX_CUSTOMER_NAME_LENGTH}
               className={`form-input text-center ${showErrors && fieldErrors.name ? 'form-input-error' : ''}`}
-              placeholder="שם מלא"
-              dir="rtl"
+              placeholder={t('customerForm.namePlaceholder')}
             />
             {showErrors && fieldErrors.name && <p className="text-red-500 text-xs mt-1">{fieldErrors.name}</p>}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">מספר טלפון *</label>
+              <label className="form-label">{t('field.phone')} *</label>
               <input
                 name="phoneNumber"
                 type="tel"
@@ -231,7 +225,7 @@ export default function AgentCustomerAddModal({
               )}
             </div>
             <div>
-              <label className="form-label">כתובת אימייל *</label>
+              <label className="form-label">{t('customerForm.email')} *</label>
               <input
                 name="email"
                 type="email"
@@ -248,39 +242,38 @@ export default function AgentCustomerAddModal({
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">כתובת רחוב *</label>
-              <input
+              <label className="form-label">{t('field.address')} *</label>
+              <AddressAutocompleteInput
+                kind="street"
+                city={formData.city}
                 name="streetAddress"
-                type="text"
                 value={formData.streetAddress}
-                onChange={handleChange}
+                onValueChange={(value) => handleAddressChange('streetAddress', value)}
                 maxLength={MAX_CUSTOMER_STREET_LENGTH}
                 className={`form-input text-center ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-                placeholder="רחוב ושם רחוב"
-                dir="rtl"
+                placeholder={t('customerForm.streetPlaceholder')}
               />
               {showErrors && fieldErrors.streetAddress && (
                 <p className="text-red-500 text-xs mt-1">{fieldErrors.streetAddress}</p>
               )}
             </div>
             <div>
-              <label className="form-label">עיר *</label>
-              <input
+              <label className="form-label">{t('field.city')} *</label>
+              <AddressAutocompleteInput
+                kind="city"
                 name="city"
-                type="text"
                 value={formData.city}
-                onChange={handleChange}
+                onValueChange={(value) => handleAddressChange('city', value)}
                 maxLength={MAX_CUSTOMER_CITY_LENGTH}
                 className={`form-input text-center ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-                placeholder="תל אביב"
-                dir="rtl"
+                placeholder={t('customerForm.cityPlaceholder')}
               />
               {showErrors && fieldErrors.city && <p className="text-red-500 text-xs mt-1">{fieldErrors.city}</p>}
             </div>
           </div>
 
           <div>
-            <label className="form-label">ח.פ / ע.מ *</label>
+            <label className="form-label">{t('field.stateId')} *</label>
             <input
               name="stateId"
               type="text"
@@ -296,11 +289,11 @@ export default function AgentCustomerAddModal({
             {showErrors && fieldErrors.stateId && (
               <p className="text-red-500 text-xs mt-1">{fieldErrors.stateId}</p>
             )}
-            <p className="text-xs text-gray-600 mt-1">הזן בדיוק 9 ספרות</p>
+            <p className="text-xs text-gray-600 mt-1">{t('customerForm.stateIdHint')}</p>
           </div>
 
           <div>
-            <label className="block text-xs font-medium text-gray-700 mb-1">אחוז הנחה</label>
+            <label className="block text-xs font-medium text-gray-700 mb-1">{t('field.discountPercentage')}</label>
             <div className="space-y-2">
               <div className="flex items-center gap-2.5">
                 <span className="text-xs font-medium text-gray-600 w-5">0%</span>
@@ -313,10 +306,10 @@ export default function AgentCustomerAddModal({
                   onChange={handleChange}
                   className="flex-1 h-2.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-sky-500 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-sky-500 [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-md [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:duration-200 [&:hover::-webkit-slider-thumb]:w-6 [&:hover::-webkit-slider-thumb]:h-6 [&:active::-webkit-slider-thumb]:w-7 [&:active::-webkit-slider-thumb]:h-7 [&::-moz-range-thumb]:w-5 [&::-moz-range-thumb]:h-5 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-sky-500 [&::-moz-range-thumb]:cursor-pointer [&::-moz-range-thumb]:shadow-md [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:border-none [&::-moz-range-thumb]:transition-all [&::-moz-range-thumb]:duration-200 [&:hover::-moz-range-thumb]:w-6 [&:hover::-moz-range-thumb]:h-6 [&:active::-moz-range-thumb]:w-7 [&:active::-moz-range-thumb]:h-7"
                   style={{
-                    background: `linear-gradient(to left, #0ea5e9 0%, #0ea5e9 ${formData.discountPercentage ?? 0}%, #d1d5db ${formData.discountPercentage ?? 0}%, #d1d5db 100%)`
+                    background: `linear-gradient(to ${getDir() === 'rtl' ? 'left' : 'right'}, #0ea5e9 0%, #0ea5e9 ${formData.discountPercentage ?? 0}%, #d1d5db ${formData.discountPercentage ?? 0}%, #d1d5db 100%)`
                   }}
                 />
-                <span className="text-xs font-medium text-gray-600 w-7 text-left">100%</span>
+                <span className="text-xs font-medium text-gray-600 w-7 text-end">100%</span>
                 <div className="flex items-center gap-1.5 bg-sky-50 px-2.5 py-1.5 rounded-lg border border-sky-200 min-w-[4rem]">
                   <span className="text-xs font-medium text-sky-600">%</span>
                   <input
@@ -335,7 +328,7 @@ export default function AgentCustomerAddModal({
                 </div>
               </div>
               {showErrors && fieldErrors.discountPercentage && (
-                <p className="text-red-500 text-xs mr-7">{fieldErrors.discountPercentage}</p>
+                <p className="text-red-500 text-xs ms-7">{fieldErrors.discountPercentage}</p>
               )}
             </div>
           </div>
@@ -350,7 +343,7 @@ export default function AgentCustomerAddModal({
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -360,14 +353,14 @@ export default function AgentCustomerAddModal({
               {isSubmitting ? (
                 <>
                   <Spinner size="sm" />
-                  <span>מוסיף...</span>
+                  <span>{t('common.adding')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>הוסף לקוח</span>
+                  <span>{t('customers.add')}</span>
                 </>
               )}
             </button>
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import AccessibleModal from './AccessibleModal';
 import { agentAPI } from '../services/api';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 interface AgentCustomerDeleteModalProps {
   isOpen: boolean;
@@ -53,9 +54,9 @@ export default function AgentCustomerDeleteModal({
     <AccessibleModal
       isOpen={isOpen && !!customerId}
       onClose={handleCancel}
-      title="מחק לקוח"
+      title={t('customerDelete.title')}
       size="sm"
-      dir="rtl"
+      dir={getDir()}
     >
 
         <div className="flex items-center gap-4 mb-4">
@@ -70,13 +71,12 @@ export default function AgentCustomerDeleteModal({
             </svg>
           </div>
           <div>
-            <p className="text-sm text-gray-600 uppercase tracking-[0.25em] font-semibold mb-1">אישור</p>
+            <p className="text-sm text-gray-600 uppercase tracking-[0.25em] font-semibold mb-1">{t('common.confirmation')}</p>
             <p className="text-gray-800 text-base font-medium">
-              האם אתה בטוח שברצונך למחוק את{' '}
-              <span className="font-semibold text-gray-900">{customerName ?? 'הלקוח הזה'}</span>?
+              {t('customerDelete.confirmNamed', { name: customerName ?? t('customerDelete.thisCustomer') })}
             </p>
             <p className="text-sm text-gray-500 mt-2">
-              פעולה זו אינה ניתנת לביטול. הנתונים שלו וכל המחירים המיוחדים הקשורים יוסרו לצמיתות.
+              {t('customerDelete.agentWarning')}
             </p>
           </div>
         </div>
@@ -98,14 +98,14 @@ export default function AgentCustomerDeleteModal({
             disabled={isSubmitting}
             className="glass-button flex-1 py-2 px-4 rounded-lg text-sm font-semibold text-gray-700 bg-gray-100/80 hover:bg-gray-200/80 border border-gray-300 hover:border-gray-400 disabled:opacity-50 transition-colors focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
           >
-            ביטול
+            {t('common.cancel')}
           </button>
           <button
             type="button"
             onClick={handleConfirm}
             disabled={isSubmitting}
             className="glass-button flex-1 py-2 px-4 rounded-lg text-sm font-semibold text-white bg-red-500/90 hover:bg-red-500 border border-red-500/60 hover:border-red-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-            aria-label="מחק לקוח"
+            aria-label={t('customerDelete.title')}
           >
             {isSubmitting ? (
               <>
@@ -117,7 +117,7 @@ export default function AgentCustomerDeleteModal({
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                   ></path>
                 </svg>
-                <span>מוחק...</span>
+                <span>{t('common.deleting')}</span>
               </>
             ) : (
               <>
@@ -129,7 +129,7 @@ export default function AgentCustomerDeleteModal({
                     d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3"
                   />
                 </svg>
-                <span>מחק</span>
+                <span>{t('common.delete')}</span>
               </>
             )}
           </button>
@@ -1,8 +1,10 @@
 import { useEffect, useState, type ChangeEvent, type FormEvent } from 'react';
 import AccessibleModal from './AccessibleModal';
 import { agentAPI, type CustomerRequest, type Customer } from '../services/api';
-import { validateEmail, validatePhoneNumberDigitsOnly, validateRequiredWithMaxLength, validateDiscountPercentage, type ValidationErrors } from '../utils/validation';
+import { validateEmail, validatePhoneNumberDigitsOnly, validateRequiredWithMaxLength, validateDiscountPercentage, validateStateIdNumber, type ValidationErrors } from '../utils/validation';
+import { getDir, t } from '../utils/i18n';
 import Spinner from './Spinner';
+import AddressAutocompleteInput from './AddressAutocompleteInput';
 import { resolveApiErr } from '../utils/apiErrorMessage';
 
 interface AgentCustomerEditModalProps {
@@ -77,12 +79,6 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
       case 'email':
         sanitized = value.slice(0, MAX_CUSTOMER_EMAIL_LENGTH);
         break;
-      case 'streetAddress':
-        sanitized = value.slice(0, MAX_CUSTOMER_STREET_LENGTH);
-        break;
-      case 'city':
-        sanitized = value.slice(0, MAX_CUSTOMER_CITY_LENGTH);
-        break;
       case 'stateId':
         sanitized = value.replace(/\D/g, '').slice(0, 20);
         break;
@@ -110,13 +106,20 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
     }
   };
 
+  const handleAddressChange = (name: 'streetAddress' | 'city', value: string) => {
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (showErrors && fieldErrors[name]) {
+      setFieldErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
   const validateForm = (): ValidationErrors => {
     const errors: ValidationErrors = {};
 
-    const nameError = validateRequiredWithMaxLength(formData.name, 'Customer name', MAX_CUSTOMER_NAME_LENGTH);
+    const nameError = validateRequiredWithMaxLength(formData.name, t('field.customerName'), MAX_CUSTOMER_NAME_LENGTH);
     if (nameError) errors.name = nameError;
     
-    const phoneError = validatePhoneNumberDigitsOnly(formData.phoneNumber, MAX_CUSTOMER_PHONE_LENGTH, 'Phone number');
+    const phoneError = validatePhoneNumberDigitsOnly(formData.phoneNumber, MAX_CUSTOMER_PHONE_LENGTH, t('field.phone'));
     if (phoneError) errors.phoneNumber = phoneError;
     
     const emailError = validateEmail(formData.email);
@@ -124,31 +127,23 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
     
     const streetError = validateRequiredWithMaxLength(
       formData.streetAddress,
-      'Street address',
+      t('field.address'),
       MAX_CUSTOMER_STREET_LENGTH
     );
     if (streetError) errors.streetAddress = streetError;
     
-    const cityError = validateRequiredWithMaxLength(formData.city, 'City', MAX_CUSTOMER_CITY_LENGTH);
+    const cityError = validateRequiredWithMaxLength(formData.city, t('field.city'), MAX_CUSTOMER_CITY_LENGTH);
     if (cityError) errors.city = cityError;
     
     // Validate state ID: exactly 9 digits
-    let stateIdError: string | null = null;
-    const trimmedStateId = formData.stateId.trim();
-    if (!trimmedStateId) {
-      stateIdError = 'ח.פ / ע.מ הוא שדה חובה';
-    } else if (!/^\d+$/.test(trimmedStateId)) {
-      stateIdError = 'ח.פ / ע.מ חייב להכיל ספרות בלבד';
-    } else if (trimmedStateId.length !== 9) {
-      stateIdError = 'ח.פ / ע.מ חייב להכיל בדיוק 9 ספרות';
-    }
+    const stateIdError = validateStateIdNumber(formData.stateId);
     if (stateIdError) {
       errors.stateId = stateIdError;
     }
     
     const discountError = validateDiscountPercentage(
       formData.discountPercentage ?? 0,
-      'Discount percentage'
+      t('field.discountPercentage')
     );
     if (discountError) errors.discountPercentage = discountError;
 
@@ -206,10 +201,10 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="ערוך לקוח"
-      description={`עדכן פרטי קשר עבור ${customer?.name || ''}`}
+      title={t('customerForm.editTitle')}
+      description={t('customerForm.editDescription', { name: customer?.name || '' })}
       size="lg"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -223,7 +218,7 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
 
         <form onSubmit={handleSubmit} className="space-y-3.5" noValidate>
           <div>
-            <label className="form-label">שם לקוח *</label>
+            <label className="form-label">{t('field.customerName')} *</label>
             <input
               name="name"
               type="text"
@@ -231,15 +226,14 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
               onChange={handleChange}
               maxLength={MAX_CUSTOMER_NAME_LENGTH}
               className={`form-input ${showErrors && fieldErrors.name ? 'form-input-error' : ''}`}
-              placeholder="שם מלא"
-              dir="rtl"
+              placeholder={t('customerForm.namePlaceholder')}
             />
             {showErrors && fieldErrors.name && <p className="text-red-500 text-xs mt-1">{fieldErrors.name}</p>}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">מספר טלפון *</label>
+              <label className="form-label">{t('field.phone')} *</label>
               <input
                 name="phoneNumber"
                 type="tel"
@@ -255,7 +249,7 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
               )}
             </div>
             <div>
-              <label className="form-label">כתובת אימייל *</label>
+              <label className="form-label">{t('customerForm.email')} *</label>
               <input
                 name="email"
                 type="email"
@@ -272,39 +266,38 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">כתובת רחוב *</label>
-              <input
+              <label className="form-label">{t('field.address')} *</label>
+              <AddressAutocompleteInput
+                kind="street"
+                city={formData.city}
                 name="streetAddress"
-                type="text"
                 value={formData.streetAddress}
-                onChange={handleChange}
+                onValueChange={(value) => handleAddressChange('streetAddress', value)}
                 maxLength={MAX_CUSTOMER_STREET_LENGTH}
                 className={`form-input text-center ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-                placeholder="רחוב ושם רחוב"
-                dir="rtl"
+                placeholder={t('customerForm.streetPlaceholder')}
               />
               {showErrors && fieldErrors.streetAddress && (
                 <p className="text-red-500 text-xs mt-1">{fieldErrors.streetAddress}</p>
               )}
             </div>
             <div>
-              <label className="form-label">עיר *</label>
-              <input
+              <label className="form-label">{t('field.city')} *</label>
+              <AddressAutocompleteInput
+                kind="city"
                 name="city"
-                type="text"
                 value={formData.city}
-                onChange={handleChange}
+                onValueChange={(value) => handleAddressChange('city', value)}
                 maxLength={MAX_CUSTOMER_CITY_LENGTH}
                 className={`form-input text-center ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-                placeholder="תל אביב"
-                dir="rtl"
+                placeholder={t('customerForm.cityPlaceholder')}
               />
               {showErrors && fieldErrors.city && <p className="text-red-500 text-xs mt-1">{fieldErrors.city}</p>}
             </div>
           </div>
 
           <div>
-            <label className="form-label">ח.פ / ע.מ *</label>
+            <label className="form-label">{t('field.stateId')} *</label>
             <input
               name="stateId"
               type="text"
@@ -320,11 +313,11 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
             {showErrors && fieldErrors.stateId && (
               <p className="text-red-500 text-xs mt-1">{fieldErrors.stateId}</p>
             )}
-            <p className="text-xs text-gray-500 mt-1">הזן בדיוק 9 ספרות</p>
+            <p className="text-xs text-gray-500 mt-1">{t('customerForm.stateIdHint')}</p>
           </div>
 
           <div>
-            <label className="block text-xs font-medium text-gray-700 mb-1">אחוז הנחה</label>
+            <label className="block text-xs font-medium text-gray-700 mb-1">{t('field.discountPercentage')}</label>
             <div className="space-y-2">
               <div className="flex items-center gap-2.5">
                 <span className="text-xs font-medium text-gray-500 w-5">0%</span>
@@ -337,10 +330,10 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
                   onChange={handleChange}
                   className="flex-1 h-2.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-sky-500 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-sky-500 [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-md [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:duration-200 [&:hover::-webkit-slider-thumb]:w-6 [&:hover::-webkit-slider-thumb]:h-6 [&:active::-webkit-slider-thumb]:w-7 [&:active::-webkit-slider-thumb]:h-7 [&::-moz-range-thumb]:w-5 [&::-moz-range-thumb]:h-5 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-sky-500 [&::-moz-range-thumb]:cursor-pointer [&::-moz-range-thumb]:shadow-md [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:border-none [&::-moz-range-thumb]:transition-all [&::-moz-range-thumb]:duration-200 [&:hover::-moz-range-thumb]:w-6 [&:hover::-moz-range-thumb]:h-6 [&:active::-moz-range-thumb]:w-7 [&:active::-moz-range-thumb]:h-7"
                   style={{
-                    background: `linear-gradient(to left, #0ea5e9 0%, #0ea5e9 ${formData.discountPercentage ?? 0}%, #d1d5db ${formData.discountPercentage ?? 0}%, #d1d5db 100%)`
+                    background: `linear-gradient(to ${getDir() === 'rtl' ? 'left' : 'right'}, #0ea5e9 0%, #0ea5e9 ${formData.discountPercentage ?? 0}%, #d1d5db ${formData.discountPercentage ?? 0}%, #d1d5db 100%)`
                   }}
                 />
-                <span className="text-xs font-medium text-gray-500 w-7 text-left">100%</span>
+                <span className="text-xs font-medium text-gray-500 w-7 text-end">100%</span>
                 <div className="flex items-center gap-1.5 bg-sky-50 px-2.5 py-1.5 rounded-lg border border-sky-200 min-w-[4rem]">
                   <span className="text-xs font-medium text-sky-600">%</span>
                   <input
@@ -359,7 +352,7 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
                 </div>
               </div>
               {showErrors && fieldErrors.discountPercentage && (
-                <p className="text-red-500 text-xs mr-7">{fieldErrors.discountPercentage}</p>
+                <p className="text-red-500 text-xs ms-7">{fieldErrors.discountPercentage}</p>
               )}
             </div>
           </div>
@@ -374,7 +367,7 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -384,14 +377,14 @@ export default function AgentCustomerEditModal({ isOpen, customer, onClose, onSu
               {isSubmitting ? (
                 <>
                   <Spinner size="sm" />
-                  <span>שומר...</span>
+                  <span>{t('common.saving')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>שמור שינויים</span>
+                  <span>{t('common.saveChanges')}</span>
                 </>
               )}
             </button>
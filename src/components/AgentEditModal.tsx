@@ -5,6 +5,7 @@ import type { ValidationErrors } from '../utils/validation';
 import { validateAgentProfileForm, AGENT_FIELD_LIMITS } from '../utils/validation';
 import Spinner from './Spinner';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 interface AgentEditModalProps {
   isOpen: boolean;
@@ -128,10 +129,10 @@ export default function AgentEditModal({ isOpen, agent, onClose, onSuccess }: Ag
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="ערוך סוכן"
-      description={`עדכן פרטי קשר עבור ${agent?.firstName || ''} ${agent?.lastName || ''}`}
+      title={t('agentForm.editTitle')}
+      description={t('agentForm.editDescription', { name: `${agent?.firstName || ''} ${agent?.lastName || ''}` })}
       size="lg"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -146,28 +147,28 @@ export default function AgentEditModal({ isOpen, agent, onClose, onSuccess }: Ag
         <form onSubmit={handleSubmit} className="space-y-3.5" noValidate>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">שם פרטי *</label>
+              <label className="form-label">{t('field.firstName')} *</label>
               <input
                 name="firstName"
                 type="text"
                 value={formData.firstName}
                 onChange={handleChange}
                 className={`form-input ${showErrors && fieldErrors.firstName ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: יוחנן"
+                placeholder={t('agentForm.firstNamePlaceholder')}
               />
               {showErrors && fieldErrors.firstName && (
                 <p className="text-red-500 text-xs mt-1">{fieldErrors.firstName}</p>
               )}
             </div>
             <div>
-              <label className="form-label">שם משפחה *</label>
+              <label className="form-label">{t('field.lastName')} *</label>
               <input
                 name="lastName"
                 type="text"
                 value={formData.lastName}
                 onChange={handleChange}
                 className={`form-input ${showErrors && fieldErrors.lastName ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: כהן"
+                placeholder={t('agentForm.lastNamePlaceholder')}
               />
               {showErrors && fieldErrors.lastName && <p className="text-red-500 text-xs mt-1">{fieldErrors.lastName}</p>}
             </div>
@@ -175,14 +176,14 @@ export default function AgentEditModal({ isOpen, agent, onClose, onSuccess }: Ag
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
             <div>
-              <label className="form-label">מספר טלפון *</label>
+              <label className="form-label">{t('field.phone')} *</label>
               <input
                 name="phoneNumber"
                 type="tel"
                 value={formData.phoneNumber}
                 onChange={handleChange}
                 className={`form-input ${showErrors && fieldErrors.phoneNumber ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: 0501234567"
+                placeholder={t('customerForm.phonePlaceholder')}
                 dir="ltr"
               />
               {showErrors && fieldErrors.phoneNumber && (
@@ -190,28 +191,28 @@ export default function AgentEditModal({ isOpen, agent, onClose, onSuccess }: Ag
               )}
             </div>
             <div>
-              <label className="form-label">עיר *</label>
+              <label className="form-label">{t('field.city')} *</label>
               <input
                 name="city"
                 type="text"
                 value={formData.city}
                 onChange={handleChange}
                 className={`form-input ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-                placeholder="לדוגמה: תל אביב"
+                placeholder={t('customerForm.cityPlaceholder')}
               />
               {showErrors && fieldErrors.city && <p className="text-red-500 text-xs mt-1">{fieldErrors.city}</p>}
             </div>
           </div>
 
           <div>
-            <label className="form-label">כתובת *</label>
+            <label className="form-label">{t('field.address')} *</label>
             <input
               name="streetAddress"
               type="text"
               value={formData.streetAddress}
               onChange={handleChange}
               className={`form-input ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-              placeholder="לדוגמה: רחוב הרצל 123"
+              placeholder={t('customerForm.streetPlaceholder')}
             />
             {showErrors && fieldErrors.streetAddress && (
               <p className="text-red-500 text-xs mt-1">{fieldErrors.streetAddress}</p>
@@ -228,7 +229,7 @@ export default function AgentEditModal({ isOpen, agent, onClose, onSuccess }: Ag
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -238,14 +239,14 @@ export default function AgentEditModal({ isOpen, agent, onClose, onSuccess }: Ag
               {isSubmitting ? (
                 <>
                   <Spinner size="sm" />
-                  <span>שומר...</span>
+                  <span>{t('common.saving')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>שמור שינויים</span>
+                  <span>{t('common.saveChanges')}</span>
                 </>
               )}
             </button>
@@ -4,6 +4,7 @@ import { agentAPI } from '../services/api';
 import type { ValidationErrors } from '../utils/validation';
 import { validateAgentProfileForm } from '../utils/validation';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 interface AgentEditProfileModalProps {
   isOpen: boolean;
@@ -106,9 +107,9 @@ export default function AgentEditProfileModal({
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="ערוך פרטים אישיים"
+      title={t('profile.edit')}
       size="md"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -123,7 +124,7 @@ export default function AgentEditProfileModal({
         <form onSubmit={handleSubmit} className="space-y-3" noValidate>
           <div className="grid grid-cols-2 gap-3">
             <div>
-              <label className="block text-xs font-medium text-gray-700 mb-1">שם פרטי *</label>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{t('field.firstName')} *</label>
               <input
                 name="firstName"
                 type="text"
@@ -132,7 +133,7 @@ export default function AgentEditProfileModal({
                 className={`glass-input w-full px-2.5 py-1.5 rounded-lg text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-sky-500 ${
                   showErrors && fieldErrors.firstName ? 'border-red-400 focus:ring-red-400' : ''
                 }`}
-                placeholder="לדוגמה: יוחנן"
+                placeholder={t('agentForm.firstNamePlaceholder')}
               />
               {showErrors && fieldErrors.firstName && (
                 <p className="text-red-500 text-xs mt-0.5">{fieldErrors.firstName}</p>
@@ -140,7 +141,7 @@ export default function AgentEditProfileModal({
             </div>
 
             <div>
-              <label className="block text-xs font-medium text-gray-700 mb-1">שם משפחה *</label>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{t('field.lastName')} *</label>
               <input
                 name="lastName"
                 type="text"
@@ -149,7 +150,7 @@ export default function AgentEditProfileModal({
                 className={`glass-input w-full px-2.5 py-1.5 rounded-lg text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-sky-500 ${
                   showErrors && fieldErrors.lastName ? 'border-red-400 focus:ring-red-400' : ''
                 }`}
-                placeholder="לדוגמה: כהן"
+                placeholder={t('agentForm.lastNamePlaceholder')}
               />
               {showErrors && fieldErrors.lastName && (
                 <p className="text-red-500 text-xs mt-0.5">{fieldErrors.lastName}</p>
@@ -159,7 +160,7 @@ export default function AgentEditProfileModal({
 
           <div className="grid grid-cols-2 gap-3">
             <div>
-              <label className="block text-xs font-medium text-gray-700 mb-1">מספר טלפון *</label>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{t('field.phone')} *</label>
               <input
                 name="phoneNumber"
                 type="tel"
@@ -168,7 +169,7 @@ export default function AgentEditProfileModal({
                 className={`glass-input w-full px-2.5 py-1.5 rounded-lg text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-sky-500 ${
                   showErrors && fieldErrors.phoneNumber ? 'border-red-400 focus:ring-red-400' : ''
                 }`}
-                placeholder="לדוגמה: 0501234567"
+                placeholder={t('customerForm.phonePlaceholder')}
               />
               {showErrors && fieldErrors.phoneNumber && (
                 <p className="text-red-500 text-xs mt-0.5">{fieldErrors.phoneNumber}</p>
@@ -176,7 +177,7 @@ export default function AgentEditProfileModal({
             </div>
 
             <div>
-              <label className="block text-xs font-medium text-gray-700 mb-1">עיר *</label>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{t('field.city')} *</label>
               <input
                 name="city"
                 type="text"
@@ -185,7 +186,7 @@ export default function AgentEditProfileModal({
                 className={`glass-input w-full px-2.5 py-1.5 rounded-lg text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-sky-500 ${
                   showErrors && fieldErrors.city ? 'border-red-400 focus:ring-red-400' : ''
                 }`}
-                placeholder="לדוגמה: תל אביב"
+                placeholder={t('customerForm.cityPlaceholder')}
               />
               {showErrors && fieldErrors.city && (
                 <p className="text-red-500 text-xs mt-0.5">{fieldErrors.city}</p>
@@ -194,7 +195,7 @@ export default function AgentEditProfileModal({
           </div>
 
           <div>
-            <label className="block text-xs font-medium text-gray-700 mb-1">כתובת *</label>
+            <label className="block text-xs font-medium text-gray-700 mb-1">{t('field.address')} *</label>
             <input
               name="streetAddress"
               type="text"
@@ -203,7 +204,7 @@ export default function AgentEditProfileModal({
               className={`glass-input w-full px-2.5 py-1.5 rounded-lg text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-sky-500 ${
                 showErrors && fieldErrors.streetAddress ? 'border-red-400 focus:ring-red-400' : ''
               }`}
-              placeholder="לדוגמה: רחוב הרצל 123"
+              placeholder={t('customerForm.streetPlaceholder')}
             />
             {showErrors && fieldErrors.streetAddress && (
               <p className="text-red-500 text-xs mt-0.5">{fieldErrors.streetAddress}</p>
@@ -217,7 +218,7 @@ export default function AgentEditProfileModal({
               disabled={isSubmitting}
               className="glass-button flex-1 py-1.5 px-3 rounded-lg text-sm font-semibold text-gray-800 bg-gray-100/60 hover:bg-gray-200/70 border-gray-400 hover:border-gray-500 disabled:opacity-50"
             >
-              ביטול
+              {t('common.cancel')}
             </button>
             <button
               type="submit"
@@ -248,10 +249,10 @@ export default function AgentEditProfileModal({
                       d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                     ></path>
                   </svg>
-                  <span>שומר...</span>
+                  <span>{t('common.saving')}</span>
                 </>
               ) : (
-                <span>שמור שינויים</span>
+                <span>{t('common.saveChanges')}</span>
               )}
             </button>
           </div>
@@ -1,19 +1,24 @@
 import { useState, useEffect } from 'react';
 import { NavLink, Outlet, useNavigate } from 'react-router-dom';
 import { clearAuth } from '../utils/authUtils';
+import { getDir, t } from '../utils/i18n';
+import type { MessageKey } from '../utils/i18n';
+import { useLocale } from '../hooks/useLocale';
+import LanguagePicker from './LanguagePicker';
 
-const menuItems = [
-  { name: 'פרופיל', path: '/agent/dashboard/profile', icon: '👤' },
-  { name: 'הזמנות', path: '/agent/dashboard/orders', icon: '📦' },
-  { name: 'לקוחות', path: '/agent/dashboard/customers', icon: '🗂️' },
-  { name: 'מוצרים', path: '/agent/dashboard/products', icon: '🛍️' },
-  { name: 'מחירים מיוחדים', path: '/agent/dashboard/overrides', icon: '💰' },
+const menuItems: { labelKey: MessageKey; path: string; icon: string }[] = [
+  { labelKey: 'nav.agentProfile', path: '/agent/dashboard/profile', icon: '👤' },
+  { labelKey: 'nav.orders', path: '/agent/dashboard/orders', icon: '📦' },
+  { labelKey: 'nav.customers', path: '/agent/dashboard/customers', icon: '🗂️' },
+  { labelKey: 'nav.products', path: '/agent/dashboard/products', icon: '🛍️' },
+  { labelKey: 'nav.overrides', path: '/agent/dashboard/overrides', icon: '💰' },
 ];
 
 export default function AgentLayout() {
   // On desktop, sidebar is always open. On mobile, it starts closed.
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const navigate = useNavigate();
+  useLocale();
   
   // Set initial sidebar state on mount only; on resize to narrow, close drawer (do not auto-open when widening)
   useEffect(() => {
@@ -35,9 +40,9 @@ export default function AgentLayout() {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-sky-100 via-cyan-50 to-indigo-100" dir="rtl">
+    <div className="min-h-screen bg-gradient-to-br from-sky-100 via-cyan-50 to-indigo-100" dir={getDir()}>
       {/* Mobile Header */}
-      <div className="lg:hidden fixed top-0 right-0 left-0 z-40 glass-card border-b border-white/20 p-4">
+      <div className="lg:hidden fixed top-0 inset-x-0 z-40 glass-card border-b border-white/20 p-4">
         <div className="flex items-center justify-between gap-3">
           <button
             onClick={() => setIsSidebarOpen(!isSidebarOpen)}
@@ -48,7 +53,7 @@ export default function AgentLayout() {
               }
             }}
             className="p-2 rounded-lg hover:bg-white/20 transition-colors focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-            aria-label={isSidebarOpen ? 'סגור תפריט' : 'פתח תפריט'}
+            aria-label={isSidebarOpen ? t('layout.closeMenu') : t('layout.openMenu')}
             aria-expanded={isSidebarOpen}
             aria-controls="agent-navigation"
           >
@@ -60,7 +65,8 @@ export default function AgentLayout() {
               )}
             </svg>
           </button>
-          <h2 className="text-xl font-bold text-gray-800 flex-1">תפריט</h2>
+          <h2 className="text-xl font-bold text-gray-800 flex-1">{t('layout.menu')}</h2>
+          <LanguagePicker />
         </div>
       </div>
 
@@ -76,18 +82,18 @@ export default function AgentLayout() {
           }}
           role="button"
           tabIndex={-1}
-          aria-label="סגור תפריט"
+          aria-label={t('layout.closeMenu')}
         />
       )}
 
       {/* Sidebar */}
       <aside
         id="agent-navigation"
-        aria-label="ניווט סוכן"
+        aria-label={t('layout.agentNavigation')}
         className={`
-          fixed top-0 right-0 h-screen w-64 backdrop-blur-xl bg-white/70 border-l-2 border-white/40 shadow-2xl z-50 transition-transform duration-300
+          fixed top-0 start-0 h-screen w-64 backdrop-blur-xl bg-white/70 border-e-2 border-white/40 shadow-2xl z-50 transition-transform duration-300
           lg:translate-x-0
-          ${isSidebarOpen ? 'translate-x-0' : 'translate-x-full'}
+          ${isSidebarOpen ? 'translate-x-0' : 'rtl:translate-x-full ltr:-translate-x-full'}
         `}
         onKeyDown={(e) => {
           // Close sidebar on Escape key (only on mobile)
@@ -104,16 +110,17 @@ export default function AgentLayout() {
       >
         <div className="h-full flex flex-col">
           {/* Header */}
-          <div className="flex-shrink-0 p-6 pb-4">
+          <div className="flex-shrink-0 p-6 pb-4 flex items-center justify-between gap-3">
             <h2 className="text-2xl font-bold text-gray-800">
-              תפריט
+              {t('layout.menu')}
             </h2>
+            <LanguagePicker className="hidden lg:block" />
           </div>
 
           {/* Scrollable Menu */}
           <nav 
             className="flex-1 overflow-y-auto px-6 pb-6 scrollbar-hide"
-            aria-label="תפריט ניווט"
+            aria-label={t('layout.menuNavigation')}
           >
             <div className="space-y-2 pt-2">
               {menuItems.map((item) => (
@@ -130,7 +137,7 @@ export default function AgentLayout() {
                   }
                 >
                   <span className="text-xl" aria-hidden="true">{item.icon}</span>
-                  <span>{item.name}</span>
+                  <span>{t(item.labelKey)}</span>
                 </NavLink>
               ))}
               
@@ -144,7 +151,7 @@ export default function AgentLayout() {
                   }
                 }}
                 className="w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 select-none backdrop-blur-xl bg-red-50/90 text-red-600 hover:bg-red-100/90 border border-red-200/70 hover:border-red-300/80 shadow-xl shadow-gray-300/60 hover:shadow-2xl hover:shadow-gray-400/60 font-semibold focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-                aria-label="התנתק מהמערכת"
+                aria-label={t('layout.logoutLabel')}
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                   <path
@@ -154,7 +161,7 @@ export default function AgentLayout() {
                     d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1"
                   />
                 </svg>
-                <span>התנתק</span>
+                <span>{t('layout.logout')}</span>
               </button>
             </div>
           </nav>
@@ -164,7 +171,7 @@ export default function AgentLayout() {
       {/* Main Content */}
       <main 
         id="main-content"
-        className="lg:mr-64 min-h-screen pt-20 lg:pt-6 p-6"
+        className="lg:ms-64 min-h-screen pt-20 lg:pt-6 p-6"
         tabIndex={-1}
       >
         <Outlet />
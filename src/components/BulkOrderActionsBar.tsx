@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import AccessibleModal from './AccessibleModal';
+import Spinner from './Spinner';
+import type { Order } from '../services/api';
+import {
+  canApplyBulkAction,
+  discountAmountForPercentage,
+  getBulkActionLabel,
+  runBulkOrderAction,
+  type BulkOrderAction,
+  type BulkOrderResult,
+} from '../utils/bulkOrders';
+import { copyTextToClipboard, getOrderStoreLink } from '../utils/copyOrderLink';
+import { getDir, t } from '../utils/i18n';
+import { getStatusLabel, translateDiscountErrorMessage } from '../utils/orderUtils';
+
+interface BulkOrderActionsBarProps {
+  selectedOrders: Order[];
+  /** Manager or agent endpoints. */
+  markDone: (orderId: string) => Promise<Order>;
+  cancel: (orderId: string) => Promise<Order>;
+  updateDiscount: (orderId: string, discount: number) => Promise<Order>;
+  /** Called with the orders an action changed, to update them in the list. */
+  onOrdersUpdated: (orders: Order[]) => void;
+  /** After an action only the failed orders stay selected, so they can be retried. */
+  onSelectionChange: (orderIds: Set<string>) => void;
+}
+
+/**
+ * Floating bar for the orders selected on the list: mark done, cancel (one confirmation for all), the same
+ * discount percentage for all, and copy all store links. Every action ends with a per-order report.
+ */
+export default function BulkOrderActionsBar({
+  selectedOrders,
+  markDone,
+  cancel,
+  updateDiscount,
+  onOrdersUpdated,
+  onSelectionChange,
+}: BulkOrderActionsBarProps) {
+  const [runningAction, setRunningAction] = useState<BulkOrderAction | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [showCancelConfirm, setShowCancelConfirm] = useState(false);
+  const [showDiscount, setShowDiscount] = useState(false);
+  const [discountPercentage, setDiscountPercentage] = useState('');
+  const [result, setResult] = useState<BulkOrderResult | null>(null);
+  const [copyFailed, setCopyFailed] = useState(false);
+
+  if (selectedOrders.length === 0 && !result) return null;
+
+  const countFor = (action: BulkOrderAction) => selectedOrders.filter((order) => canApplyBulkAction(action, order)).length;
+
+  const finish = (outcome: BulkOrderResult) => {
+    if (outcome.action !== 'copyLinks' && outcome.succeeded.length > 0) onOrdersUpdated(outcome.succeeded);
+    onSelectionChange(new Set(outcome.failures.map((failure) => failure.order.id)));
+    setResult(outcome);
+    setRunningAction(null);
+  };
+
+  const run = async (action: Exclude<BulkOrderAction, 'copyLinks'>) => {
+    setRunningAction(action);
+    setProgress(0);
+    setShowCancelConfirm(false);
+    setShowDiscount(false);
+    const options = { onProgress: setProgress };
+    let outcome: BulkOrderResult;
+    if (action === 'markDone') {
+      outcome = await runBulkOrderAction(action, selectedOrders, (order) => markDone(order.id), 'orderMarkDone', options);
+    } else if (action === 'cancel') {
+      outcome = await runBulkOrderAction(action, selectedOrders, (order) => cancel(order.id), 'orderCancel', options);
+    } else {
+      const percentage = parseFloat(discountPercentage);
+      outcome = await runBulkOrderAction(
+        action,
+        selectedOrders,
+        (order) => updateDiscount(order.id, discountAmountForPercentage(order, percentage)),
+        'orderDiscount',
+        { ...options, formatError: translateDiscountErrorMessage }
+      );
+      setDiscountPercentage('');
+    }
+    finish(outcome);
+  };
+
+  const handleCopyLinks = async () => {
+    const withLinks = selectedOrders.filter((order) => canApplyBulkAction('copyLinks', order));
+    const text = withLinks
+      .map((order) => `#${order.referenceId}${order.customerName ? ` ${order.customerName}` : ''}: ${getOrderStoreLink(order.id)}`)
+      .join('\n');
+    const ok = await copyTextToClipboard(text);
+    setCopyFailed(!ok);
+    if (!ok) return;
+    setResult({
+      action: 'copyLinks',
+      succeeded: withLinks,
+      skipped: selectedOrders.filter((order) => !canApplyBulkAction('copyLinks', order)),
+      failures: [],
+    });
+  };
+
+  const percentageValue = parseFloat(discountPercentage);
+  const isDiscountValid = !isNaN(percentageValue) && percentageValue >= 0 && percentageValue <= 100;
+  const isBusy = runningAction !== null;
+  const applicableCount = runningAction ? countFor(runningAction) : 0;
+
+  const actionButton = (action: BulkOrderAction, onClick: () => void, className: string) => {
+    const count = countFor(action);
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        disabled={isBusy || count === 0}
+        className={`px-3 py-1.5 rounded-lg text-sm font-semibold border transition-all disabled:opacity-40 disabled:cursor-not-allowed ${className}`}
+      >
+        {getBulkActionLabel(action)} ({count})
+      </button>
+    );
+  };
+
+  const orderLabel = (order: Order) => `#${order.referenceId}${order.customerName ? ` · ${order.customerName}` : ''}`;
+
+  return (
+    <>
+      {selectedOrders.length > 0 && (
+        <div className="fixed bottom-20 start-0 end-0 lg:start-64 z-50 flex justify-center px-4 pointer-events-none">
+          <div
+            className="pointer-events-auto glass-card bg-white/95 rounded-2xl shadow-xl border border-indigo-200 px-4 py-3 flex flex-wrap items-center gap-2 max-w-4xl"
+            role="toolbar"
+            aria-label={t('orders.bulk.toolbar')}
+          >
+            <span className="text-sm font-bold text-gray-800 me-2">
+              {t('orders.bulk.selected', { count: selectedOrders.length })}
+            </span>
+            {actionButton('markDone', () => run('markDone'), 'bg-green-50 text-green-700 border-green-600 hover:shadow-md')}
+            {actionButton('cancel', () => setShowCancelConfirm(true), 'bg-red-50 text-red-600 border-red-600 hover:shadow-md')}
+            {actionButton('discount', () => setShowDiscount(true), 'bg-purple-50 text-purple-700 border-purple-600 hover:shadow-md')}
+            {actionButton('copyLinks', handleCopyLinks, 'bg-indigo-50 text-indigo-700 border-indigo-500 hover:shadow-md')}
+            <button
+              type="button"
+              onClick={() => onSelectionChange(new Set())}
+              disabled={isBusy}
+              className="px-3 py-1.5 rounded-lg text-sm font-semibold text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            >
+              {t('orders.bulk.clearSelection')}
+            </button>
+            {isBusy && (
+              <span className="flex items-center gap-2 text-sm text-gray-700" role="status">
+                <Spinner size="sm" />
+                <span>{t('orders.bulk.progress', { done: progress, total: applicableCount })}</span>
+              </span>
+            )}
+            {copyFailed && (
+              <span className="text-sm text-red-600" role="alert">
+                {t('orders.bulk.copyFailed')}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      <AccessibleModal
+        isOpen={showCancelConfirm}
+        onClose={() => setShowCancelConfirm(false)}
+        title={t('orders.bulk.cancelTitle', { count: countFor('cancel') })}
+        size="sm"
+        dir={getDir()}
+      >
+        <p className="text-sm text-gray-600 mb-6 leading-relaxed font-medium">{t('orders.bulk.cancelBody')}</p>
+        <div className="flex justify-start gap-3">
+          <button
+            type="button"
+            onClick={() => setShowCancelConfirm(false)}
+            className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all"
+          >
+            {t('orders.bulk.keep')}
+          </button>
+          <button
+            type="button"
+            onClick={() => run('cancel')}
+            className="glass-button px-4 py-2 rounded-xl text-sm font-semibold transition-all border text-red-600 border-red-600 bg-red-50 hover:shadow-lg"
+          >
+            {t('orders.bulk.confirmCancel')}
+          </button>
+        </div>
+      </AccessibleModal>
+
+      <AccessibleModal
+        isOpen={showDiscount}
+        onClose={() => setShowDiscount(false)}
+        title={t('orders.bulk.discountTitle', { count: countFor('discount') })}
+        size="sm"
+        dir={getDir()}
+      >
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isDiscountValid) run('discount');
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label htmlFor="bulk-discount-percentage" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('orders.bulk.discountLabel')}
+            </label>
+            <div className="relative">
+              <input
+                id="bulk-discount-percentage"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={discountPercentage}
+                onChange={(e) => setDiscountPercentage(e.target.value)}
+                className="glass-input w-full px-4 py-3 pe-10 rounded-xl"
+                dir="ltr"
+                autoFocus
+              />
+              <span className="absolute end-4 top-1/2 -translate-y-1/2 text-gray-500">%</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">{t('orders.bulk.discountHint')}</p>
+          </div>
+          <div className="flex gap-3">
+            <button type="button" onClick={() => setShowDiscount(false)} className="btn-cancel">
+              <span>{t('common.cancel')}</span>
+            </button>
+            <button type="submit" disabled={!isDiscountValid} className="btn-save-indigo">
+              <span>{t('orders.bulk.applyDiscount')}</span>
+            </button>
+          </div>
+        </form>
+      </AccessibleModal>
+
+      <AccessibleModal
+        isOpen={result !== null}
+        onClose={() => setResult(null)}
+        title={result ? t('orders.bulk.resultsTitle', { action: getBulkActionLabel(result.action) }) : ''}
+        size="md"
+        dir={getDir()}
+      >
+        {result && (
+          <div className="space-y-3">
+            <p className="rounded-xl border border-green-200 bg-green-50 px-4 py-3 text-sm font-semibold text-green-800" role="status">
+              {result.action === 'copyLinks'
+                ? t('orders.bulk.linksCopied', { count: result.succeeded.length })
+                : t('orders.bulk.updated', { count: result.succeeded.length })}
+            </p>
+            {result.failures.length > 0 && (
+              <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700" role="alert">
+                <p className="font-semibold">{t('orders.bulk.failed', { count: result.failures.length })}</p>
+                <ul className="mt-1 space-y-0.5">
+                  {result.failures.map((failure) => (
+                    <li key={failure.order.id}>
+                      <span className="font-mono font-semibold">{orderLabel(failure.order)}</span>: {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {result.skipped.length > 0 && (
+              <div className="rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-700">
+                <p className="font-semibold">{t('orders.bulk.skipped', { count: result.skipped.length })}</p>
+                <ul className="mt-1 space-y-0.5">
+                  {result.skipped.map((order) => (
+                    <li key={order.id}>
+                      <span className="font-mono">{orderLabel(order)}</span> – {getStatusLabel(order.status)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex pt-2">
+              <button type="button" onClick={() => setResult(null)} className="btn-cancel">
+                <span>{t('orders.bulk.close')}</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </AccessibleModal>
+    </>
+  );
+}
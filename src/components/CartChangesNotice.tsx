@@ -0,0 +1,46 @@
+import { formatPrice } from '../utils/formatPrice';
+import { t } from '../utils/i18n';
+import type { CartChange } from '../utils/cartPriceCheck';
+
+interface CartChangesNoticeProps {
+  changes: CartChange[];
+  /** Swap the live prices into the cart and drop the removed lines. */
+  onAccept: () => void;
+}
+
+/** Price changes and removed products since the cart was filled; the customer must accept them to continue. */
+export default function CartChangesNotice({ changes, onAccept }: CartChangesNoticeProps) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 rounded-xl p-4 border border-amber-200 text-sm" role="alert">
+      <h4 className="font-semibold text-amber-800 mb-2">{t('store.cartChanges.title')}</h4>
+      <ul className="space-y-1.5 mb-3">
+        {changes.map((change) => (
+          <li key={change.lineKey} className="flex items-start justify-between gap-3 text-gray-800">
+            <span className="min-w-0 break-words">
+              {change.name} <span className="text-gray-500">× {change.quantity}</span>
+            </span>
+            {change.kind === 'PRICE' ? (
+              <span className="whitespace-nowrap">
+                <span className="line-through text-gray-500">{formatPrice(change.oldUnitPrice)}</span>{' '}
+                <span className={`font-bold ${change.newUnitPrice > change.oldUnitPrice ? 'text-red-600' : 'text-green-700'}`}>
+                  {formatPrice(change.newUnitPrice)}
+                </span>
+              </span>
+            ) : (
+              <span className="whitespace-nowrap font-semibold text-red-600">{t('store.cartChanges.removed')}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={onAccept}
+        className="w-full bg-amber-600 text-white font-bold py-2 rounded-xl hover:bg-amber-700 transition-colors"
+      >
+        {t('store.cartChanges.accept')}
+      </button>
+    </div>
+  );
+}
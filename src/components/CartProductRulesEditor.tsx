@@ -0,0 +1,142 @@
+import { MAX_CART_PRODUCT_RULES } from '../utils/cartRules';
+import type { CartProductRuleDraft } from '../utils/cartRules';
+import { t } from '../utils/i18n';
+
+interface CartProductRulesEditorProps {
+  /** Catalog to pick products from; rules of products no longer in it keep their saved name. */
+  products: { id: string; name: string }[];
+  isLoadingProducts: boolean;
+  rules: CartProductRuleDraft[];
+  onChange: (rules: CartProductRuleDraft[]) => void;
+  error?: string;
+}
+
+/** Per-product cart rules (maximum per order, packs of N, required) edited in the business form. */
+export default function CartProductRulesEditor({
+  products,
+  isLoadingProducts,
+  rules,
+  onChange,
+  error,
+}: CartProductRulesEditorProps) {
+  const updateRule = (index: number, patch: Partial<CartProductRuleDraft>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    updateRule(index, { productId, productName: product?.name ?? '' });
+  };
+
+  const addRule = () => {
+    if (rules.length >= MAX_CART_PRODUCT_RULES) return;
+    // Start from the first product without a rule
+    const product = products.find((p) => !rules.some((rule) => rule.productId === p.id));
+    onChange([
+      ...rules,
+      { productId: product?.id ?? '', productName: product?.name ?? '', maxQuantity: '', quantityMultiple: '', required: false },
+    ]);
+  };
+
+  const fieldClass =
+    'glass-input w-full px-2 py-2 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="block text-xs font-medium text-gray-700">
+          {t('cartRule.editor.title')} <span className="text-gray-500 text-xs">{t('common.optional')}</span>
+        </span>
+        <button
+          type="button"
+          onClick={addRule}
+          disabled={isLoadingProducts || products.length === 0 || rules.length >= MAX_CART_PRODUCT_RULES}
+          className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('cartRule.editor.add')}
+        </button>
+      </div>
+
+      {isLoadingProducts ? (
+        <p className="text-xs text-gray-500">{t('cartRule.editor.loadingProducts')}</p>
+      ) : (
+        rules.length > 0 && (
+          <div className="space-y-2">
+            <div className="hidden sm:grid grid-cols-[1.6fr,0.8fr,0.8fr,auto,auto] gap-2 text-[11px] text-gray-500 text-center">
+              <span>{t('cartRule.editor.column.product')}</span>
+              <span>{t('cartRule.editor.column.max')}</span>
+              <span>{t('cartRule.editor.column.pack')}</span>
+              <span>{t('cartRule.editor.column.required')}</span>
+              <span className="w-7" />
+            </div>
+            {rules.map((rule, index) => (
+              <div key={index} className="grid grid-cols-2 sm:grid-cols-[1.6fr,0.8fr,0.8fr,auto,auto] gap-2 items-center">
+                <select
+                  value={rule.productId}
+                  onChange={(e) => selectProduct(index, e.target.value)}
+                  className="glass-select w-full px-2 py-2 rounded-xl text-sm text-gray-800 cursor-pointer col-span-2 sm:col-span-1"
+                  aria-label={t('cartRule.editor.productLabel', { number: index + 1 })}
+                >
+                  <option value="">{t('cartRule.editor.chooseProduct')}</option>
+                  {rule.productId && !products.some((p) => p.id === rule.productId) && (
+                    <option value={rule.productId}>{rule.productName}</option>
+                  )}
+                  {products.map((product) => (
+                    <option
+                      key={product.id}
+                      value={product.id}
+                      disabled={product.id !== rule.productId && rules.some((r) => r.productId === product.id)}
+                    >
+                      {product.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={rule.maxQuantity}
+                  onChange={(e) => updateRule(index, { maxQuantity: e.target.value.replace(/\D/g, '').slice(0, 6) })}
+                  className={fieldClass}
+                  dir="ltr"
+                  placeholder={t('cartRule.editor.noLimit')}
+                  aria-label={t('cartRule.editor.maxLabel', { number: index + 1 })}
+                />
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={rule.quantityMultiple}
+                  onChange={(e) => updateRule(index, { quantityMultiple: e.target.value.replace(/\D/g, '').slice(0, 6) })}
+                  className={fieldClass}
+                  dir="ltr"
+                  placeholder="1"
+                  aria-label={t('cartRule.editor.packLabel', { number: index + 1 })}
+                />
+                <label className="flex items-center justify-center gap-1 text-xs text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={rule.required}
+                    onChange={(e) => updateRule(index, { required: e.target.checked })}
+                    className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className="sm:hidden">{t('cartRule.editor.column.required')}</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                  className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 transition-colors justify-self-center"
+                  title={t('cartRule.editor.remove')}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+    </div>
+  );
+}
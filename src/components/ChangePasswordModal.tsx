@@ -4,6 +4,7 @@ import type { ValidationErrors } from '../utils/validation';
 import Spinner from './Spinner';
 import AccessibleModal from './AccessibleModal';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 interface ChangePasswordModalProps {
   isOpen: boolean;
@@ -89,9 +90,9 @@ export default function ChangePasswordModal({ isOpen, onClose, onSuccess, onUpda
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="שנה סיסמה"
+      title={t('profile.changePassword')}
       size="sm"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -106,7 +107,7 @@ export default function ChangePasswordModal({ isOpen, onClose, onSuccess, onUpda
         <form onSubmit={handleSubmit} noValidate className="space-y-3.5">
           <div>
             <label htmlFor="oldPassword" className="form-label">
-              סיסמה נוכחית *
+              {t('field.currentPassword')} *
             </label>
             <input
               id="oldPassword"
@@ -115,7 +116,7 @@ export default function ChangePasswordModal({ isOpen, onClose, onSuccess, onUpda
               value={formData.oldPassword}
               onChange={handleChange}
               className={`form-input text-center ${showErrors && fieldErrors.oldPassword ? 'form-input-error' : ''}`}
-              placeholder="הזן סיסמה נוכחית"
+              placeholder={t('passwordForm.currentPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.oldPassword && (
@@ -125,7 +126,7 @@ export default function ChangePasswordModal({ isOpen, onClose, onSuccess, onUpda
 
           <div>
             <label htmlFor="newPassword" className="form-label">
-              סיסמה חדשה *
+              {t('passwordForm.newPassword')} *
             </label>
             <input
               id="newPassword"
@@ -134,21 +135,21 @@ export default function ChangePasswordModal({ isOpen, onClose, onSuccess, onUpda
               value={formData.newPassword}
               onChange={handleChange}
               className={`form-input text-center ${showErrors && fieldErrors.newPassword ? 'form-input-error' : ''}`}
-              placeholder="הזן סיסמה חדשה"
+              placeholder={t('passwordForm.newPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.newPassword ? (
               <p className="text-red-500 text-xs mt-1">{fieldErrors.newPassword}</p>
             ) : (
               <p className="text-xs text-gray-600 mt-1">
-                חייבת להכיל אותיות גדולות, אותיות קטנות, מספרים ותווים מיוחדים
+                {t('passwordForm.requirements')}
               </p>
             )}
           </div>
 
           <div>
             <label htmlFor="newPasswordConfirmation" className="form-label">
-              אמת סיסמה חדשה *
+              {t('passwordForm.confirmNewPassword')} *
             </label>
             <input
               id="newPasswordConfirmation"
@@ -157,7 +158,7 @@ export default function ChangePasswordModal({ isOpen, onClose, onSuccess, onUpda
               value={formData.newPasswordConfirmation}
               onChange={handleChange}
               className={`form-input text-center ${showErrors && fieldErrors.newPasswordConfirmation ? 'form-input-error' : ''}`}
-              placeholder="אמת סיסמה חדשה"
+              placeholder={t('passwordForm.confirmNewPassword')}
               dir="ltr"
             />
             {showErrors && fieldErrors.newPasswordConfirmation && (
@@ -175,7 +176,7 @@ export default function ChangePasswordModal({ isOpen, onClose, onSuccess, onUpda
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -185,14 +186,14 @@ export default function ChangePasswordModal({ isOpen, onClose, onSuccess, onUpda
               {isLoading ? (
                 <>
                   <Spinner size="sm" />
-                  <span>מעדכן...</span>
+                  <span>{t('common.updating')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>עדכן סיסמה</span>
+                  <span>{t('passwordForm.submit')}</span>
                 </>
               )}
             </button>
@@ -1,22 +1,92 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { publicAPI, orderAPI, agentAPI } from '../services/api';
-import type { Location, ProductDataForOrder, OrderPublic, Order, UpdateOrderRequest } from '../services/api';
+import type {
+  CartRules,
+  CustomerStoreLinkPublic,
+  DeliveryAddress,
+  DeliverySettings,
+  FulfillmentMethod,
+  InventorySettings,
+  Location,
+  PickupSlot,
+  PlaceOrderRequest,
+  PriceTier,
+  ProductDataForOrder,
+  ProductPublic,
+  ProductVariant,
+  ProductVariantAxis,
+  OrderPublic,
+  Order,
+  StoreBusinessInfo,
+  StoreTheme,
+  UpdateOrderRequest,
+} from '../services/api';
+import OrderConfirmationView from './OrderConfirmationView';
+import AddressAutocompleteInput from './AddressAutocompleteInput';
 import { formatPrice } from '../utils/formatPrice';
+import { getDir, t } from '../utils/i18n';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
-import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getApiErrorCode, isNetworkError, isOfflineFailure, resolveApiErr } from '../utils/apiErrorMessage';
+import { fetchWithOfflineCache, offlineCacheKey } from '../utils/offlineCatalog';
+import { createClientId, enqueuePendingOrder } from '../utils/pendingOrders';
+import { formatLineName, getLineKey, getVariantLabel } from '../utils/productVariants';
+import { getLinePrice } from '../utils/priceTiers';
+import { getStoreThemeStyle } from '../utils/storeTheme';
+import {
+  MAX_DELIVERY_INSTRUCTIONS_LENGTH,
+  formatDeliveryAddress,
+  getAmountToFreeDelivery,
+  getDeliveryFee,
+  getFulfillmentIcon,
+  getFulfillmentLabel,
+  getOrderFulfillmentMethod,
+  isDeliveryAvailable,
+} from '../utils/delivery';
+import {
+  buildPickupSlots,
+  formatPickupDate,
+  formatPickupSlot,
+  getBookingWindowRange,
+  getPickupSlotKey,
+  groupSlotsByDate,
+  isPickupSchedulingActive,
+  isSamePickupSlot,
+} from '../utils/pickupSlots';
+import { getCartRuleViolations } from '../utils/cartRules';
+import { getStockLocationId, getStockViolations } from '../utils/inventory';
+import { getCartChanges } from '../utils/cartPriceCheck';
+import CartChangesNotice from './CartChangesNotice';
 
 interface CheckoutFlowProps {
   orderId?: string; // Optional - if not provided, we'll create a new order
   userId: string; // managerId - required for both cases
-  cart: Array<{ product: { id: string; name: string; price: number }; quantity: number }>;
+  cart: Array<{
+    product: {
+      id: string;
+      name: string;
+      price: number;
+      variantAxes?: ProductVariantAxis[];
+      priceTiers?: PriceTier[];
+      availableQuantity?: number | null;
+    };
+    variant?: ProductVariant | null;
+    quantity: number;
+  }>;
   order: OrderPublic | null; // Optional - will be null for public store
+  customerLink?: CustomerStoreLinkPublic | null; // Personal customer link - checkout creates a new order for the customer
   editOrder?: Order | null; // Full order for edit mode
   isEditMode?: boolean; // True if editing an existing order
+  deliverySettings?: DeliverySettings | null; // Business delivery terms; pickup only when missing or disabled
+  cartRules?: CartRules | null; // Business cart rules; the order is not sent while one is broken
+  inventorySettings?: InventorySettings | null; // Stock tracking; may block quantities above what is in stock
+  storeTheme?: StoreTheme | null; // Business store colors for the buttons; default look when missing
+  storeBusiness?: StoreBusinessInfo | null; // Business name and logo for the printable confirmation
   onClose: () => void;
+  onCartRefresh: (liveProducts: ProductPublic[]) => void; // Customer accepted the live prices - swap them into the cart
   onSuccess: () => void;
 }
 
-type Step = 'customer-info' | 'pickup-location' | 'review' | 'success';
+type Step = 'customer-info' | 'fulfillment' | 'delivery-address' | 'review' | 'success';
 
 const MAX_CHECKOUT_NAME_LENGTH = 50;
 const MAX_CHECKOUT_PHONE_LENGTH = 10;
@@ -24,17 +94,42 @@ const MAX_CHECKOUT_EMAIL_LENGTH = 50;
 const MAX_CHECKOUT_STREET_LENGTH = 50;
 const MAX_CHECKOUT_CITY_LENGTH = 50;
 
-export default function CheckoutFlow({ orderId, userId, cart, order, editOrder, isEditMode = false, onClose, onSuccess }: CheckoutFlowProps) {
+export default function CheckoutFlow({
+  orderId,
+  userId,
+  cart,
+  order,
+  customerLink = null,
+  editOrder,
+  isEditMode = false,
+  deliverySettings = null,
+  cartRules = null,
+  inventorySettings = null,
+  storeTheme = null,
+  storeBusiness = null,
+  onClose,
+  onCartRefresh,
+  onSuccess,
+}: CheckoutFlowProps) {
   // Skip customer-info step if order is linked to a customer OR if in edit mode
-  const isCustomerLinked = order?.customerId != null;
-  // In edit mode, start with pickup-location step (no customer info editing)
-  const [step, setStep] = useState<Step>(isEditMode || isCustomerLinked ? 'pickup-location' : 'customer-info');
+  const linkedCustomer = order ?? customerLink;
+  const isCustomerLinked = linkedCustomer?.customerId != null;
+  // In edit mode, start with fulfillment step (no customer info editing)
+  const [step, setStep] = useState<Step>(isEditMode || isCustomerLinked ? 'fulfillment' : 'customer-info');
   const { backdropProps, contentProps } = useModalBackdrop(onClose);
   const [locations, setLocations] = useState<Location[]>([]);
   const [isLoadingLocations, setIsLoadingLocations] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [stepDirection, setStepDirection] = useState<'forward' | 'backward'>('forward');
+  // One id per checkout: sent as the idempotency key, so a retry or offline replay is never placed twice
+  const [submissionId] = useState(() => createClientId());
+  // Order was saved on the device (offline) and will be sent when connectivity returns
+  /** Set when the order was kept on the device instead of placed; 'unconfirmed' when it may have arrived anyway. */
+  const [queuedAs, setQueuedAs] = useState<'pending' | 'unconfirmed' | null>(null);
+  // Order placed online: its printable confirmation can be shown on the success screen
+  const [placedOrderId, setPlacedOrderId] = useState<string | null>(null);
+  const [showConfirmation, setShowConfirmation] = useState(false);
 
   // Customer info form (not used in edit mode)
   const [customerName, setCustomerName] = useState('');
@@ -44,8 +139,27 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
   const [customerCity, setCustomerCity] = useState('');
   const [customerStateId, setCustomerStateId] = useState('');
 
-  // Pickup location
+  // Fulfillment: pickup location or delivery address
+  const editOrderMethod = isEditMode && editOrder ? getOrderFulfillmentMethod(editOrder) : null;
+  // A delivery order being edited keeps delivery even if the business has since turned it off
+  const canDeliver = isDeliveryAvailable(deliverySettings) || editOrderMethod === 'DELIVERY';
+  const [fulfillmentMethod, setFulfillmentMethod] = useState<FulfillmentMethod>(editOrderMethod ?? 'PICKUP');
   const [selectedLocationId, setSelectedLocationId] = useState<number | null>(null);
+  // Pickup slot, when the selected location books slots
+  const [selectedSlot, setSelectedSlot] = useState<PickupSlot | null>(null);
+  const [slotDate, setSlotDate] = useState<string | null>(null);
+  const [slotBookings, setSlotBookings] = useState<Record<string, number> | null>(null);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [slotsNotice, setSlotsNotice] = useState('');
+  // Bumped to re-read bookings after the server rejects a slot that filled up meanwhile
+  const [slotsRefresh, setSlotsRefresh] = useState(0);
+  const [deliveryStreetAddress, setDeliveryStreetAddress] = useState('');
+  const [deliveryCity, setDeliveryCity] = useState('');
+  const [deliveryInstructions, setDeliveryInstructions] = useState('');
+
+  // Live catalog read before the review step, to catch prices that changed since the cart was filled
+  const [liveProducts, setLiveProducts] = useState<ProductPublic[] | null>(null);
+  const [isCheckingPrices, setIsCheckingPrices] = useState(false);
 
   // Order details
   const [notes, setNotes] = useState('');
@@ -76,12 +190,32 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
     setCustomerStateId(sanitized);
   };
 
+  // Prefill the delivery address once: the order's own address when editing, otherwise the customer's address
+  const prefillDeliveryAddress = () => {
+    if (deliveryStreetAddress.trim() || deliveryCity.trim()) return;
+    const source: DeliveryAddress =
+      editOrder?.deliveryAddress ??
+      (isEditMode && editOrder
+        ? { streetAddress: editOrder.customerStreetAddress ?? '', city: editOrder.customerCity ?? '' }
+        : isCustomerLinked
+        ? { streetAddress: linkedCustomer?.customerStreetAddress ?? '', city: linkedCustomer?.customerCity ?? '' }
+        : { streetAddress: customerStreetAddress, city: customerCity });
+    setDeliveryStreetAddress(source.streetAddress.slice(0, MAX_CHECKOUT_STREET_LENGTH));
+    setDeliveryCity(source.city.slice(0, MAX_CHECKOUT_CITY_LENGTH));
+    if (source.instructions) {
+      setDeliveryInstructions(source.instructions.slice(0, MAX_DELIVERY_INSTRUCTIONS_LENGTH));
+    }
+  };
+
   // Fetch locations and pre-fill location/notes in edit mode
   useEffect(() => {
     const fetchLocations = async () => {
       setIsLoadingLocations(true);
       try {
-        const data = await publicAPI.locations.getAllByManagerId(userId);
+        const { data } = await fetchWithOfflineCache(
+          offlineCacheKey.locations(userId),
+          () => publicAPI.locations.getAllByManagerId(userId)
+        );
         setLocations(data);
         
         // In edit mode, pre-fill location and notes from order
@@ -110,7 +244,7 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
         }
       } catch (err) {
         console.error('Failed to fetch locations:', err);
-        setError('נכשל בטעינת מיקומי איסוף');
+        setError(t('store.checkout.locationsLoadError'));
       } finally {
         setIsLoadingLocations(false);
       }
@@ -118,29 +252,95 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
     fetchLocations();
   }, [userId, isEditMode, editOrder]);
 
+  const selectedLocation = locations.find(l => l.id === selectedLocationId);
+  const pickupScheduling = isPickupSchedulingActive(selectedLocation) ? selectedLocation!.pickupScheduling! : null;
+  // The slot the edited order already holds counts as booked by itself, so it stays selectable
+  const ownSlot =
+    isEditMode && editOrder?.pickupSlot && editOrder.selectedLocation?.locationId === selectedLocationId
+      ? editOrder.pickupSlot
+      : null;
+
+  // Read how full the selected location's slots are
+  useEffect(() => {
+    if (!pickupScheduling || selectedLocationId === null) {
+      setSlotBookings(null);
+      return;
+    }
+    let cancelled = false;
+    const { from, to } = getBookingWindowRange(pickupScheduling);
+    setIsLoadingSlots(true);
+    setSlotsNotice('');
+    publicAPI.locations
+      .getPickupSlotBookings(selectedLocationId, from, to)
+      .then((bookings) => {
+        if (!cancelled) setSlotBookings(bookings);
+      })
+      .catch((err) => {
+        console.error('Failed to fetch pickup slot bookings:', err);
+        if (cancelled) return;
+        // Offline: offer the slots anyway, the server re-checks capacity when the order is sent
+        setSlotBookings({});
+        setSlotsNotice(t('store.checkout.slotsUnchecked'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSlots(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pickupScheduling, selectedLocationId, slotsRefresh]);
+
+  const pickupSlots = useMemo(() => {
+    if (!pickupScheduling || !slotBookings) return [];
+    const bookings = { ...slotBookings };
+    if (ownSlot) {
+      const key = getPickupSlotKey(ownSlot);
+      bookings[key] = Math.max((bookings[key] ?? 0) - 1, 0);
+    }
+    return buildPickupSlots(pickupScheduling, bookings);
+  }, [pickupScheduling, slotBookings, ownSlot]);
+  const slotDays = groupSlotsByDate(pickupSlots);
+  const visibleSlotDay = slotDays.find((day) => day.date === slotDate) ?? slotDays.find((day) => day.slots.some((slot) => slot.remaining > 0));
+
+  // Keep the slot only while it is still offered with room (location changed, filled up, passed the lead time)
+  useEffect(() => {
+    if (!selectedSlot || !slotBookings) return;
+    if (!pickupSlots.some((slot) => isSamePickupSlot(slot, selectedSlot) && slot.remaining > 0)) {
+      setSelectedSlot(null);
+    }
+  }, [pickupSlots, selectedSlot, slotBookings]);
+
+  // Edit mode: start from the slot the order already has
+  useEffect(() => {
+    if (ownSlot) {
+      setSelectedSlot((prev) => prev ?? ownSlot);
+      setSlotDate((prev) => prev ?? ownSlot.date);
+    }
+  }, [ownSlot]);
+
   const validateStep1 = (): boolean => {
     if (!customerName.trim()) {
-      setError('שם הלקוח נדרש');
+      setError(t('store.checkout.nameRequired'));
       return false;
     }
     if (!customerPhone.trim()) {
-      setError('מספר טלפון נדרש');
+      setError(t('store.checkout.phoneRequired'));
       return false;
     }
     if (!customerStreetAddress.trim()) {
-      setError('כתובת רחוב נדרשת');
+      setError(t('store.checkout.streetRequired'));
       return false;
     }
     if (!customerCity.trim()) {
-      setError('עיר נדרשת');
+      setError(t('store.checkout.cityRequired'));
       return false;
     }
     if (!customerStateId.trim()) {
-      setError('ח.פ / ע.מ נדרש');
+      setError(t('store.checkout.stateIdRequired'));
       return false;
     }
     if (customerStateId.trim().length !== 9) {
-      setError('ח.פ / ע.מ חייב להיות 9 ספרות בדיוק');
+      setError(t('store.checkout.stateIdLength'));
       return false;
     }
     setError('');
@@ -148,46 +348,124 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
   };
 
   const validateStep2 = (): boolean => {
-    if (selectedLocationId === null) {
-      setError('אנא בחר מיקום איסוף');
+    if (fulfillmentMethod === 'PICKUP' && selectedLocationId === null) {
+      setError(t('store.checkout.chooseLocation'));
+      return false;
+    }
+    if (fulfillmentMethod === 'PICKUP' && pickupScheduling && !selectedSlot) {
+      setError(t('store.checkout.chooseSlot'));
       return false;
     }
     setError('');
     return true;
   };
 
+  const validateDeliveryAddress = (): boolean => {
+    if (!deliveryStreetAddress.trim()) {
+      setError(t('store.checkout.deliveryStreetRequired'));
+      return false;
+    }
+    if (!deliveryCity.trim()) {
+      setError(t('store.checkout.deliveryCityRequired'));
+      return false;
+    }
+    setError('');
+    return true;
+  };
+
+  const checkCartPrices = async () => {
+    setIsCheckingPrices(true);
+    try {
+      const products = orderId
+        ? await publicAPI.products.getAllByOrderId(orderId)
+        : customerLink
+        ? await publicAPI.customerLinks.getProducts(customerLink.token)
+        : await publicAPI.products.getAllByManagerId(userId);
+      setLiveProducts(products);
+    } catch (err: unknown) {
+      // Offline or failing: go on with the cart as is, the server checks the prices again
+      console.error('Failed to re-check cart prices:', err);
+    } finally {
+      setIsCheckingPrices(false);
+    }
+  };
+
+  const goToReview = async () => {
+    setStepDirection('forward');
+    await checkCartPrices();
+    setStep('review');
+  };
+
   const handleNext = () => {
     if (step === 'customer-info') {
       if (validateStep1()) {
         setStepDirection('forward');
-        setStep('pickup-location');
+        setStep('fulfillment');
       }
-    } else if (step === 'pickup-location') {
+    } else if (step === 'fulfillment') {
       if (validateStep2()) {
         setStepDirection('forward');
-        setStep('review');
+        if (fulfillmentMethod === 'DELIVERY') {
+          prefillDeliveryAddress();
+          setStep('delivery-address');
+        } else {
+          goToReview();
+        }
+      }
+    } else if (step === 'delivery-address') {
+      if (validateDeliveryAddress()) {
+        goToReview();
       }
     }
   };
 
   const handleBack = () => {
-    if (step === 'pickup-location') {
+    setError('');
+    if (step === 'fulfillment') {
       // In edit mode, don't go back to customer-info (not editable)
       if (!isEditMode && !isCustomerLinked) {
         setStepDirection('backward');
         setStep('customer-info');
       }
+    } else if (step === 'delivery-address') {
+      setStepDirection('backward');
+      setStep('fulfillment');
     } else if (step === 'review') {
       setStepDirection('backward');
-      setStep('pickup-location');
+      setStep(fulfillmentMethod === 'DELIVERY' ? 'delivery-address' : 'fulfillment');
     }
   };
 
   const handleSubmit = async () => {
-    if (!selectedLocationId) {
-      setError('אנא בחר מיקום איסוף');
+    if (fulfillmentMethod === 'PICKUP' ? !validateStep2() : !validateDeliveryAddress()) {
+      return;
+    }
+    if (cartChanges.length > 0) {
+      setError(t('store.checkout.acceptCartChanges'));
       return;
     }
+    if (cart.length === 0) {
+      setError(t('store.checkout.cartEmpty'));
+      return;
+    }
+    if (cartRuleViolations.length > 0) {
+      setError(cartRuleViolations[0].message);
+      return;
+    }
+    const deliveryAddress: DeliveryAddress | undefined =
+      fulfillmentMethod === 'DELIVERY'
+        ? {
+            streetAddress: deliveryStreetAddress.trim(),
+            city: deliveryCity.trim(),
+            instructions: deliveryInstructions.trim() || null,
+          }
+        : undefined;
+    const fulfillment = {
+      fulfillmentMethod,
+      pickupLocationId: fulfillmentMethod === 'PICKUP' ? selectedLocationId! : undefined,
+      pickupSlot: fulfillmentMethod === 'PICKUP' && pickupScheduling && selectedSlot ? selectedSlot : undefined,
+      deliveryAddress,
+    };
 
     setIsSubmitting(true);
     setError('');
@@ -197,16 +475,19 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
         productId: item.product.id,
         productName: item.product.name,
         quantity: item.quantity,
-        pricePerUnit: item.product.price,
+        pricePerUnit: getLinePrice(item.product, item.variant, item.quantity).unitPrice,
+        variantId: item.variant?.id ?? null,
+        variantLabel: item.variant ? getVariantLabel(item.variant, item.product.variantAxes) : null,
       }));
 
-      // Edit mode: Update existing order (only location, products, notes)
+      // Edit mode: Update existing order (only fulfillment, products, notes)
       if (isEditMode && orderId) {
         const userRole = localStorage.getItem('userRole');
         const updateRequest: UpdateOrderRequest = {
-          pickupLocationId: selectedLocationId!,
+          ...fulfillment,
           products,
           notes: notes || undefined,
+          expectedProductsVersion: editOrder?.productsVersion,
         };
 
         if (userRole === 'agent') {
@@ -214,7 +495,7 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
         } else if (userRole === 'manager') {
           await orderAPI.updateOrder(orderId, updateRequest);
         } else {
-          throw new Error('אין הרשאה לעדכן הזמנות');
+          throw new Error(t('store.checkout.noUpdatePermission'));
         }
 
         setStep('success');
@@ -229,25 +510,63 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
       const trimmedEmail = customerEmail.trim();
 
       // Prepare order request
-      const orderRequest = {
+      const orderRequest: PlaceOrderRequest = {
         customerName: isCustomerLinked ? '' : trimmedName,
         customerPhone: isCustomerLinked ? '' : customerPhone,
         customerEmail: isCustomerLinked ? undefined : (trimmedEmail || undefined),
         customerStreetAddress: isCustomerLinked ? '' : trimmedStreet,
         customerCity: isCustomerLinked ? '' : trimmedCity,
         customerStateId: isCustomerLinked ? undefined : (customerStateId.trim() || undefined),
-        pickupLocationId: selectedLocationId!,
+        ...fulfillment,
         products,
         notes: notes || undefined,
+        expectedProductsVersion: orderId ? order?.productsVersion : undefined,
+      };
+
+      // No connection: keep the order on the device and replay it later (see utils/pendingOrders)
+      const queueForSync = (status: 'pending' | 'unconfirmed' = 'pending') => {
+        enqueuePendingOrder(
+          {
+            id: submissionId,
+            managerId: userId,
+            orderId: orderId ?? null,
+            customerLinkToken: customerLink?.token ?? null,
+            request: orderRequest,
+            totalPrice,
+          },
+          status
+        );
+        setQueuedAs(status);
+        setStep('success');
+        onSuccess();
       };
 
+      if (!navigator.onLine) {
+        queueForSync();
+        return;
+      }
+
       // If orderId exists, place existing order
       // Otherwise, create and place new public order
-      if (orderId) {
-        await publicAPI.orders.placeOrder(orderId, orderRequest);
-      } else {
-        // Public store - create and place new order with PUBLIC source
-        await publicAPI.orders.createAndPlacePublicOrder(userId, orderRequest);
+      try {
+        if (orderId) {
+          await publicAPI.orders.placeOrder(orderId, orderRequest, submissionId);
+          setPlacedOrderId(orderId);
+        } else if (customerLink) {
+          setPlacedOrderId(
+            await publicAPI.customerLinks.createAndPlaceOrder(customerLink.token, orderRequest, submissionId)
+          );
+        } else {
+          // Public store - create and place new order with PUBLIC source
+          setPlacedOrderId(await publicAPI.orders.createAndPlacePublicOrder(userId, orderRequest, submissionId));
+        }
+      } catch (err: unknown) {
+        if (isNetworkError(err)) {
+          // Order links are re-checked before replay; a new order that may have been created is left to the customer
+          queueForSync(orderId || isOfflineFailure(err) ? 'pending' : 'unconfirmed');
+          return;
+        }
+        throw err;
       }
 
       setStep('success');
@@ -256,26 +575,92 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
     } catch (err: unknown) {
       console.error('Failed to place/update order:', err);
       setError(resolveApiErr(err, isEditMode ? 'orderCheckoutUpdate' : 'orderCheckoutCreate'));
+      const code = getApiErrorCode(err);
+      if (code === 'PICKUP_SLOT_FULL' || code === 'PICKUP_SLOT_UNAVAILABLE') {
+        setSlotsRefresh((n) => n + 1);
+      }
+      // Prices or the order changed under us: show what changed so the customer can accept it
+      if (code === 'PRODUCT_PRICES_CHANGED' || code === 'ORDER_VERSION_CONFLICT') {
+        checkCartPrices();
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const totalPrice = cart.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
+  const productsTotal = cart.reduce(
+    (sum, item) => sum + (getLinePrice(item.product, item.variant, item.quantity).unitPrice * item.quantity),
+    0
+  );
+  const deliveryFee = fulfillmentMethod === 'DELIVERY' ? getDeliveryFee(deliverySettings, productsTotal) : 0;
+  const amountToFreeDelivery =
+    fulfillmentMethod === 'DELIVERY' ? getAmountToFreeDelivery(deliverySettings, productsTotal) : null;
+  const totalPrice = productsTotal + deliveryFee;
+  const cartRuleViolations = [
+    ...getCartRuleViolations(cartRules, cart, productsTotal),
+    ...getStockViolations(
+      inventorySettings,
+      cart,
+      getStockLocationId(inventorySettings, fulfillmentMethod, selectedLocationId)
+    ),
+  ];
+  const cartChanges = liveProducts ? getCartChanges(cart, liveProducts) : [];
+
+  const progressSteps: { key: Step; label: string }[] = [
+    ...(isEditMode || isCustomerLinked ? [] : [{ key: 'customer-info' as const, label: t('store.checkout.step.details') }]),
+    { key: 'fulfillment', label: canDeliver ? t('store.checkout.step.receive') : t('store.checkout.step.location') },
+    ...(fulfillmentMethod === 'DELIVERY'
+      ? [{ key: 'delivery-address' as const, label: t('store.checkout.step.address') }]
+      : []),
+    { key: 'review', label: t('store.checkout.step.review') },
+  ];
+  const activeStepIndex = progressSteps.findIndex(({ key }) => key === step);
+
+  const themeStyle = getStoreThemeStyle(storeTheme);
+  const dir = getDir();
 
   if (step === 'success') {
     return (
-      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" dir="rtl">
-        <div className="backdrop-blur-xl bg-white/95 rounded-3xl p-8 md:p-12 max-w-xl w-full text-center shadow-2xl border border-white/40">
-          <div className="text-6xl mb-6">✅</div>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" dir={dir} style={themeStyle}>
+        <div
+          className={`backdrop-blur-xl bg-white/95 rounded-3xl p-8 md:p-12 w-full max-h-[90vh] overflow-y-auto text-center shadow-2xl border border-white/40 ${
+            showConfirmation ? 'max-w-3xl' : 'max-w-xl'
+          }`}
+        >
+          <div className="text-6xl mb-6">{queuedAs === 'unconfirmed' ? '⚠️' : queuedAs ? '⏳' : '✅'}</div>
           <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">
-            {isEditMode ? 'ההזמנה עודכנה!' : 'ההזמנה הושלמה!'}
+            {isEditMode
+              ? t('store.checkout.updatedTitle')
+              : queuedAs === 'unconfirmed'
+              ? t('store.pending.unconfirmed')
+              : queuedAs
+              ? t('store.queued.pendingTitle')
+              : t('store.checkout.placedTitle')}
           </h1>
           <p className="text-lg text-gray-600">
             {isEditMode
-              ? 'ההזמנה שלך עודכנה בהצלחה.'
-              : 'תודה על ההזמנה שלך. קיבלנו את ההזמנה שלך ונעדכן אותך בקרוב.'}
+              ? t('store.checkout.updated')
+              : queuedAs === 'unconfirmed'
+              ? t('store.pending.unconfirmedHint')
+              : queuedAs
+              ? t('store.checkout.queued')
+              : t('store.checkout.placed')}
           </p>
+          {!isEditMode && placedOrderId && (
+            <div className="mt-6">
+              {showConfirmation ? (
+                <OrderConfirmationView orderId={placedOrderId} business={storeBusiness} />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setShowConfirmation(true)}
+                  className="glass-button px-6 py-3 rounded-xl font-semibold text-gray-800"
+                >
+                  🧾 {t('store.checkout.printableConfirmation')}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -284,7 +669,8 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
   return (
     <div 
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" 
-      dir="rtl"
+      dir={dir}
+      style={themeStyle}
       {...backdropProps}
     >
       <div 
@@ -293,10 +679,11 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
       >
         {/* Header */}
         <div className="flex items-center justify-center mb-6 relative">
-          <h2 className="text-2xl font-bold text-gray-800">תשלום</h2>
+          <h2 className="text-2xl font-bold text-gray-800">{t('store.checkout.title')}</h2>
           <button
             onClick={onClose}
-            className="absolute left-0 text-gray-600 hover:text-gray-800 text-3xl leading-none"
+            aria-label={t('store.checkout.close')}
+            className="absolute end-0 text-gray-600 hover:text-gray-800 text-3xl leading-none"
           >
             ×
           </button>
@@ -305,54 +692,20 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
         {/* Progress Steps */}
         <div className="flex justify-center mb-7 px-4">
           <div className="flex w-[65%] items-start">
-            {(isEditMode || isCustomerLinked
-              ? [
-                  { key: 'pickup-location', label: 'מיקום', step: 1 },
-                  { key: 'review', label: 'סקירה', step: 2 },
-                ]
-              : [
-                  { key: 'customer-info', label: 'פרטים', step: 1 },
-                  { key: 'pickup-location', label: 'מיקום', step: 2 },
-                  { key: 'review', label: 'סקירה', step: 3 },
-                ]
-            ).map(({ key, label, step: stepNum }, index, array) => {
+            {progressSteps.map(({ key, label }, index, array) => {
+              const stepNum = index + 1;
               const isActive = step === key;
-              let isCompleted = false;
-              let lineColor = 'bg-gray-500';
-              
-              if (isEditMode || isCustomerLinked) {
-                // 2-step flow: location -> review (edit mode or customer linked)
-                isCompleted = step === 'review' && stepNum < 2;
-                if (step === 'pickup-location') {
-                  lineColor = stepNum === 1 ? 'bg-gray-500' : 'bg-gray-500';
-                } else if (step === 'review') {
-                  lineColor = 'bg-green-500';
-                }
-              } else {
-                // 3-step flow: info -> location -> review
-                isCompleted = 
-                  (step === 'pickup-location' && stepNum < 2) ||
-                  (step === 'review' && stepNum < 3);
-                if (step === 'customer-info') {
-                  lineColor = 'bg-gray-500';
-                } else if (step === 'pickup-location') {
-                  if (stepNum === 1) {
-                    lineColor = 'bg-green-500';
-                  } else if (stepNum === 2) {
-                    lineColor = 'bg-gray-500';
-                  }
-                } else if (step === 'review') {
-                  lineColor = 'bg-green-500';
-                }
-              }
-              
+              const isCompleted = index < activeStepIndex;
+              // Line to the next step turns green once this step is done
+              const lineColor = isCompleted ? 'bg-green-500' : 'bg-gray-500';
+
               return (
                 <div key={key} className="flex-1 flex flex-col items-center relative">
                   {/* Circle */}
                   <div
                     className={`w-10 h-10 rounded-full flex items-center justify-center font-bold transition-all shadow-lg border-2 backdrop-blur-sm relative z-10 ${
                       isActive
-                        ? 'bg-purple-600 text-white border-purple-400 shadow-purple-500/50'
+                        ? 'store-primary-bg border-purple-400 shadow-purple-500/50'
                         : isCompleted
                         ? 'bg-green-500/90 text-white border-green-400 shadow-green-500/50'
                         : 'bg-white/80 text-gray-600 border-gray-300 shadow-gray-300/50'
@@ -374,7 +727,7 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
                         className={`absolute h-1 rounded-full ${lineColor}`}
                         style={{
                           top: '1.25rem', // Center of circle
-                          right: 'calc(50% + 1.25rem + 0.375rem)', // Start after left edge of circle + padding (RTL)
+                          insetInlineStart: 'calc(50% + 1.25rem + 0.375rem)', // Start after the circle's end edge + padding
                           width: 'calc(100% - 2.5rem - 0.75rem)', // Span to next circle minus circle width and padding on both sides
                           transform: 'translateY(-50%)',
                         }}
@@ -399,30 +752,30 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
           <div className={`space-y-4 ${
             stepDirection === 'forward' ? 'animate-fade-in-left' : 'animate-fade-in-right'
           }`}>
-            <h3 className="text-xl font-bold text-gray-800 mb-4">פרטי לקוח</h3>
+            <h3 className="text-xl font-bold text-gray-800 mb-4">{t('store.checkout.customerDetails')}</h3>
             
             <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-1">שם *</label>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">{t('store.checkout.name')} *</label>
               <input
                 type="text"
                 value={customerName}
                 onChange={(e) => handleCustomerNameChange(e.target.value)}
                 className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none"
-                placeholder="הזן את שמך"
+                placeholder={t('store.checkout.namePlaceholder')}
                 maxLength={MAX_CHECKOUT_NAME_LENGTH}
-                dir="rtl"
+                dir={dir}
               />
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-1">טלפון *</label>
+                <label className="block text-sm font-semibold text-gray-700 mb-1">{t('store.checkout.phone')} *</label>
                 <input
                   type="tel"
                   value={customerPhone}
                   onChange={(e) => handleCustomerPhoneChange(e.target.value)}
                   className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none"
-                  placeholder="הזן את מספר הטלפון שלך"
+                  placeholder={t('store.checkout.phonePlaceholder')}
                   maxLength={MAX_CHECKOUT_PHONE_LENGTH}
                   inputMode="numeric"
                   pattern="[0-9]*"
@@ -431,13 +784,13 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
               </div>
 
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-1">אימייל (אופציונלי)</label>
+                <label className="block text-sm font-semibold text-gray-700 mb-1">{t('store.checkout.emailOptional')}</label>
                 <input
                   type="email"
                   value={customerEmail}
                   onChange={(e) => handleCustomerEmailChange(e.target.value)}
                   className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none"
-                  placeholder="הזן את האימייל שלך"
+                  placeholder={t('store.checkout.emailPlaceholder')}
                   maxLength={MAX_CHECKOUT_EMAIL_LENGTH}
                   dir="ltr"
                 />
@@ -446,33 +799,33 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-1">כתובת רחוב *</label>
+                <label className="block text-sm font-semibold text-gray-700 mb-1">{t('store.checkout.street')} *</label>
                 <input
                   type="text"
                   value={customerStreetAddress}
                   onChange={(e) => handleCustomerStreetAddressChange(e.target.value)}
                   className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none"
-                  placeholder="הזן כתובת רחוב"
+                  placeholder={t('store.checkout.streetPlaceholder')}
                   maxLength={MAX_CHECKOUT_STREET_LENGTH}
-                  dir="rtl"
+                  dir={dir}
                 />
               </div>
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-1">עיר *</label>
+                <label className="block text-sm font-semibold text-gray-700 mb-1">{t('store.checkout.city')} *</label>
                 <input
                   type="text"
                   value={customerCity}
                   onChange={(e) => handleCustomerCityChange(e.target.value)}
                   className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none"
-                  placeholder="הזן עיר"
+                  placeholder={t('store.checkout.cityPlaceholder')}
                   maxLength={MAX_CHECKOUT_CITY_LENGTH}
-                  dir="rtl"
+                  dir={dir}
                 />
               </div>
             </div>
 
             <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-1">ח.פ / ע.מ *</label>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">{t('store.checkout.stateId')} *</label>
               <input
                 type="text"
                 value={customerStateId}
@@ -484,69 +837,259 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
                 pattern="[0-9]*"
                 dir="ltr"
               />
-              <p className="text-xs text-gray-600 mt-1">הזן 9 ספרות בדיוק</p>
+              <p className="text-xs text-gray-600 mt-1">{t('store.checkout.stateIdHint')}</p>
             </div>
 
             <div className="mt-16">
               <button
                 onClick={handleNext}
-                className="w-full bg-purple-600 text-white font-bold py-3 rounded-xl hover:bg-purple-700 hover:shadow-2xl hover:scale-105 transition-all duration-200 border-2 border-purple-400/50 backdrop-blur-sm shadow-lg shadow-purple-500/30"
+                className="w-full store-primary-bg font-bold py-3 rounded-xl hover:shadow-2xl hover:scale-105 transition-all duration-200 border-2 border-purple-400/50 backdrop-blur-sm shadow-lg shadow-purple-500/30"
               >
-                המשך
+                {t('store.checkout.continue')}
               </button>
             </div>
           </div>
         )}
 
-        {/* Step 2: Pickup Location */}
-        {step === 'pickup-location' && (
+        {/* Step 2: Fulfillment (pickup location or delivery) */}
+        {step === 'fulfillment' && (
           <div className={`space-y-4 ${
             stepDirection === 'forward' ? 'animate-fade-in-left' : 'animate-fade-in-right'
           }`}>
-            <h3 className="text-xl font-bold text-gray-800 mb-4">בחר מיקום איסוף</h3>
-            
-            {isLoadingLocations ? (
+            <h3 className="text-xl font-bold text-gray-800 mb-4">
+              {canDeliver ? t('store.checkout.howToReceive') : t('store.checkout.choosePickupLocation')}
+            </h3>
+
+            {canDeliver && (
+              <div className="grid grid-cols-2 gap-3" role="radiogroup" aria-label={t('store.checkout.fulfillmentMethod')}>
+                {(['PICKUP', 'DELIVERY'] as const).map((method) => {
+                  const isSelected = fulfillmentMethod === method;
+                  const fee = method === 'DELIVERY' ? getDeliveryFee(deliverySettings, productsTotal) : 0;
+                  return (
+                    <button
+                      key={method}
+                      type="button"
+                      role="radio"
+                      aria-checked={isSelected}
+                      onClick={() => {
+                        setFulfillmentMethod(method);
+                        setError('');
+                      }}
+                      className={`p-4 rounded-xl border-2 text-center transition-all ${
+                        isSelected ? 'border-purple-600 bg-purple-50' : 'border-gray-200 hover:border-purple-300'
+                      }`}
+                    >
+                      <div className="text-2xl mb-1" aria-hidden="true">{getFulfillmentIcon(method)}</div>
+                      <div className="font-semibold text-gray-800">{getFulfillmentLabel(method)}</div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        {method === 'PICKUP'
+                          ? t('store.checkout.noCharge')
+                          : fee > 0
+                          ? t('store.checkout.deliveryFee', { fee: formatPrice(fee) })
+                          : t('store.checkout.freeDelivery')}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {canDeliver && fulfillmentMethod === 'DELIVERY' && deliverySettings?.freeDeliveryThreshold != null && (
+              <p className="text-sm text-gray-600 text-center">
+                {t('store.checkout.freeDeliveryOver', { threshold: formatPrice(deliverySettings.freeDeliveryThreshold) })}
+                {amountToFreeDelivery != null &&
+                  ` – ${t('store.checkout.missingForFreeDelivery', { amount: formatPrice(amountToFreeDelivery) })}`}
+              </p>
+            )}
+
+            {fulfillmentMethod === 'DELIVERY' ? null : isLoadingLocations ? (
               <div className="text-center py-8">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-purple-600 mx-auto"></div>
               </div>
             ) : locations.length === 0 ? (
               <div className="text-center py-8 text-gray-600">
-                אין מיקומי איסוף זמינים
+                {t('store.checkout.noLocations')}
               </div>
             ) : (
               <div className="space-y-3">
                 {locations.map((location) => (
                   <button
                     key={location.id}
-                    onClick={() => setSelectedLocationId(location.id)}
-                    className={`w-full p-4 rounded-xl border-2 text-right transition-all ${
+                    onClick={() => {
+                      if (location.id !== selectedLocationId) setSlotDate(null);
+                      setSelectedLocationId(location.id);
+                    }}
+                    className={`w-full p-4 rounded-xl border-2 text-start transition-all ${
                       selectedLocationId === location.id
                         ? 'border-purple-600 bg-purple-50'
                         : 'border-gray-200 hover:border-purple-300'
                     }`}
                   >
                     <div className="font-semibold text-gray-800 mb-1 break-words">{location.name}</div>
-                    <div className="text-sm text-gray-600 break-words">רחוב: {location.streetAddress}</div>
-                    <div className="text-sm text-gray-600 break-words">עיר: {location.city}</div>
-                    <div className="text-sm text-gray-600 break-words">טלפון: {location.phoneNumber}</div>
+                    <div className="text-sm text-gray-600 break-words">
+                      {t('store.checkout.streetLabel', { street: location.streetAddress })}
+                    </div>
+                    <div className="text-sm text-gray-600 break-words">{t('store.checkout.cityLabel', { city: location.city })}</div>
+                    <div className="text-sm text-gray-600 break-words">
+                      {t('store.checkout.phoneLabel', { phone: location.phoneNumber })}
+                    </div>
                   </button>
                 ))}
               </div>
             )}
 
+            {/* Pickup slot */}
+            {fulfillmentMethod === 'PICKUP' && pickupScheduling && (
+              <div className="space-y-3">
+                <h4 className="font-semibold text-gray-800">{t('store.checkout.whenPickup')}</h4>
+                {isLoadingSlots ? (
+                  <div className="text-center py-4">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-4 border-purple-600 mx-auto"></div>
+                  </div>
+                ) : slotDays.length === 0 || !visibleSlotDay ? (
+                  <p className="text-sm text-gray-600 text-center py-2">{t('store.checkout.noSlots')}</p>
+                ) : (
+                  <>
+                    {slotsNotice && <p className="text-xs text-amber-700">{slotsNotice}</p>}
+                    <div className="flex gap-2 overflow-x-auto pb-1" role="tablist" aria-label={t('store.checkout.pickupDate')}>
+                      {slotDays.map((day) => {
+                        const isFull = day.slots.every((slot) => slot.remaining === 0);
+                        return (
+                          <button
+                            key={day.date}
+                            type="button"
+                            role="tab"
+                            aria-selected={visibleSlotDay.date === day.date}
+                            disabled={isFull}
+                            onClick={() => setSlotDate(day.date)}
+                            className={`px-3 py-2 rounded-xl border-2 text-sm font-semibold whitespace-nowrap transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                              visibleSlotDay.date === day.date
+                                ? 'border-purple-600 bg-purple-50 text-purple-700'
+                                : 'border-gray-200 text-gray-700 hover:border-purple-300'
+                            }`}
+                          >
+                            {formatPickupDate(day.date)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2" role="radiogroup" aria-label={t('store.checkout.pickupTime')}>
+                      {visibleSlotDay.slots.map((slot) => {
+                        const isSelected = isSamePickupSlot(slot, selectedSlot);
+                        return (
+                          <button
+                            key={getPickupSlotKey(slot)}
+                            type="button"
+                            role="radio"
+                            aria-checked={isSelected}
+                            disabled={slot.remaining === 0}
+                            onClick={() => {
+                              setSelectedSlot({ date: slot.date, startTime: slot.startTime, endTime: slot.endTime });
+                              setError('');
+                            }}
+                            className={`px-2 py-2 rounded-xl border-2 text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:line-through ${
+                              isSelected ? 'border-purple-600 bg-purple-50 font-bold text-purple-700' : 'border-gray-200 text-gray-700 hover:border-purple-300'
+                            }`}
+                            title={slot.remaining === 0 ? t('store.checkout.slotFull') : t('store.checkout.slotRemaining', { count: slot.remaining })}
+                          >
+                            <span dir="ltr">{slot.startTime}–{slot.endTime}</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleBack}
+                className="flex-1 bg-white/80 backdrop-blur-sm hover:bg-white/90 font-semibold py-3 rounded-xl text-gray-800 transition-all border-2 border-gray-300/50 shadow-lg shadow-gray-300/30 hover:scale-105"
+              >
+                {t('store.checkout.back')}
+              </button>
+              <button
+                onClick={handleNext}
+                disabled={isCheckingPrices || (fulfillmentMethod === 'PICKUP' && (selectedLocationId === null || (!!pickupScheduling && !selectedSlot)))}
+                className="flex-1 store-primary-bg font-bold py-3 rounded-xl hover:shadow-2xl hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-purple-400/50 backdrop-blur-sm shadow-lg shadow-purple-500/30"
+              >
+                {t('store.checkout.continue')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 2b: Delivery Address */}
+        {step === 'delivery-address' && (
+          <div className={`space-y-4 ${
+            stepDirection === 'forward' ? 'animate-fade-in-left' : 'animate-fade-in-right'
+          }`}>
+            <h3 className="text-xl font-bold text-gray-800 mb-4">{t('store.checkout.deliveryAddress')}</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="checkout-delivery-street" className="block text-sm font-semibold text-gray-700 mb-1">
+                  {t('store.checkout.street')} *
+                </label>
+                <AddressAutocompleteInput
+                  kind="street"
+                  city={deliveryCity}
+                  id="checkout-delivery-street"
+                  value={deliveryStreetAddress}
+                  onValueChange={setDeliveryStreetAddress}
+                  className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none"
+                  placeholder={t('store.checkout.streetAndNumber')}
+                  maxLength={MAX_CHECKOUT_STREET_LENGTH}
+                  dir={dir}
+                />
+              </div>
+              <div>
+                <label htmlFor="checkout-delivery-city" className="block text-sm font-semibold text-gray-700 mb-1">
+                  {t('store.checkout.city')} *
+                </label>
+                <AddressAutocompleteInput
+                  kind="city"
+                  id="checkout-delivery-city"
+                  value={deliveryCity}
+                  onValueChange={setDeliveryCity}
+                  className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none"
+                  placeholder={t('store.checkout.cityPlaceholder')}
+                  maxLength={MAX_CHECKOUT_CITY_LENGTH}
+                  dir={dir}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="checkout-delivery-instructions" className="block text-sm font-semibold text-gray-700 mb-1">
+                {t('store.checkout.courierInstructions')}
+              </label>
+              <input
+                id="checkout-delivery-instructions"
+                type="text"
+                value={deliveryInstructions}
+                onChange={(e) => setDeliveryInstructions(e.target.value.slice(0, MAX_DELIVERY_INSTRUCTIONS_LENGTH))}
+                className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none"
+                placeholder={t('store.checkout.courierInstructionsPlaceholder')}
+                maxLength={MAX_DELIVERY_INSTRUCTIONS_LENGTH}
+                dir={dir}
+              />
+            </div>
+
             <div className="flex gap-3">
               <button
                 onClick={handleBack}
                 className="flex-1 bg-white/80 backdrop-blur-sm hover:bg-white/90 font-semibold py-3 rounded-xl text-gray-800 transition-all border-2 border-gray-300/50 shadow-lg shadow-gray-300/30 hover:scale-105"
               >
-                חזור
+                {t('store.checkout.back')}
               </button>
               <button
                 onClick={handleNext}
-                disabled={selectedLocationId === null}
-                className="flex-1 bg-purple-600 text-white font-bold py-3 rounded-xl hover:bg-purple-700 hover:shadow-2xl hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-purple-400/50 backdrop-blur-sm shadow-lg shadow-purple-500/30"
+                disabled={isCheckingPrices}
+                className="flex-1 store-primary-bg font-bold py-3 rounded-xl hover:shadow-2xl hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-purple-400/50 backdrop-blur-sm shadow-lg shadow-purple-500/30"
               >
-                המשך
+                {t('store.checkout.continue')}
               </button>
             </div>
           </div>
@@ -557,17 +1100,38 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
           <div className={`space-y-4 ${
             stepDirection === 'forward' ? 'animate-fade-in-left' : 'animate-fade-in-right'
           }`}>
-            <h3 className="text-xl font-bold text-gray-800 mb-4">{isEditMode ? 'סקור שינויי הזמנה' : 'סקור את ההזמנה שלך'}</h3>
+            <h3 className="text-xl font-bold text-gray-800 mb-4">{isEditMode ? t('store.checkout.reviewChanges') : t('store.checkout.reviewOrder')}</h3>
+
+            {/* Prices changed since the cart was filled - must be accepted before ordering */}
+            <CartChangesNotice
+              changes={cartChanges}
+              onAccept={() => {
+                if (liveProducts) onCartRefresh(liveProducts);
+                setError('');
+              }}
+            />
+
+            {/* Cart rules - the cart has to be fixed in the store before ordering */}
+            {cartRuleViolations.length > 0 && (
+              <div className="bg-amber-50 rounded-xl p-4 border border-amber-200" role="alert">
+                <h4 className="font-semibold text-amber-800 mb-2">{t('store.checkout.fixCart')}</h4>
+                <ul className="text-sm text-amber-800 space-y-1 list-disc ps-5">
+                  {cartRuleViolations.map((violation) => (
+                    <li key={violation.message}>{violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
             
             {/* Customer Info Summary - Only show if not linked to customer and not in edit mode */}
             {!isEditMode && !isCustomerLinked && (
               <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
-                <h4 className="font-semibold text-gray-800 mb-2">פרטי לקוח</h4>
+                <h4 className="font-semibold text-gray-800 mb-2">{t('store.checkout.customerDetails')}</h4>
                 <div className="text-sm text-gray-600 space-y-1 break-words">
-                  <div>שם: {customerName}</div>
-                  <div>טלפון: {customerPhone}</div>
-                  {customerEmail && <div>אימייל: {customerEmail}</div>}
-                  <div>כתובת: {customerStreetAddress}, {customerCity}</div>
+                  <div>{t('store.checkout.nameLabel', { name: customerName })}</div>
+                  <div>{t('store.checkout.phoneLabel', { phone: customerPhone })}</div>
+                  {customerEmail && <div>{t('store.checkout.emailLabel', { email: customerEmail })}</div>}
+                  <div>{t('store.checkout.addressLabel', { address: `${customerStreetAddress}, ${customerCity}` })}</div>
                 </div>
               </div>
             )}
@@ -575,46 +1139,99 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
             {/* In edit mode, show customer info from order (read-only) */}
             {isEditMode && editOrder && (
               <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
-                <h4 className="font-semibold text-gray-800 mb-2">פרטי לקוח</h4>
+                <h4 className="font-semibold text-gray-800 mb-2">{t('store.checkout.customerDetails')}</h4>
                 <div className="text-sm text-gray-600 space-y-1 break-words">
-                  <div>שם: {editOrder.customerName || 'לא זמין'}</div>
-                  <div>טלפון: {editOrder.customerPhone || 'לא זמין'}</div>
-                  {editOrder.customerEmail && <div>אימייל: {editOrder.customerEmail}</div>}
-                  <div>כתובת: {editOrder.customerStreetAddress || 'לא זמין'}, {editOrder.customerCity || 'לא זמין'}</div>
+                  <div>{t('store.checkout.nameLabel', { name: editOrder.customerName || t('store.checkout.notAvailable') })}</div>
+                  <div>
+                    {t('store.checkout.phoneLabel', { phone: editOrder.customerPhone || t('store.checkout.notAvailable') })}
+                  </div>
+                  {editOrder.customerEmail && <div>{t('store.checkout.emailLabel', { email: editOrder.customerEmail })}</div>}
+                  <div>
+                    {t('store.checkout.addressLabel', {
+                      address: `${editOrder.customerStreetAddress || t('store.checkout.notAvailable')}, ${
+                        editOrder.customerCity || t('store.checkout.notAvailable')
+                      }`,
+                    })}
+                  </div>
                 </div>
-                <p className="text-xs text-gray-500 mt-2 italic">פרטי הלקוח לא ניתנים לעריכה</p>
+                <p className="text-xs text-gray-500 mt-2 italic">{t('store.checkout.customerReadOnly')}</p>
               </div>
             )}
 
-            {/* Pickup Location Summary */}
-            {selectedLocationId && (
+            {/* Fulfillment Summary */}
+            {fulfillmentMethod === 'DELIVERY' ? (
               <div className="bg-gray-50 rounded-xl p-4 border border-gray-200 break-words">
-                <h4 className="font-semibold text-gray-800 mb-2">מיקום איסוף</h4>
+                <h4 className="font-semibold text-gray-800 mb-2">{getFulfillmentIcon('DELIVERY')} {getFulfillmentLabel('DELIVERY')}</h4>
                 <div className="text-sm text-gray-600 space-y-1 break-words">
-                  {locations.find(l => l.id === selectedLocationId)?.name}
-                  <div>{locations.find(l => l.id === selectedLocationId)?.streetAddress}</div>
-                  <div>{locations.find(l => l.id === selectedLocationId)?.city}</div>
+                  <div>{formatDeliveryAddress({ streetAddress: deliveryStreetAddress, city: deliveryCity })}</div>
+                  {deliveryInstructions.trim() && (
+                    <div>{t('store.checkout.instructionsLabel', { instructions: deliveryInstructions.trim() })}</div>
+                  )}
+                </div>
+              </div>
+            ) : selectedLocation && (
+              <div className="bg-gray-50 rounded-xl p-4 border border-gray-200 break-words">
+                <h4 className="font-semibold text-gray-800 mb-2">{t('store.checkout.pickupLocation')}</h4>
+                <div className="text-sm text-gray-600 space-y-1 break-words">
+                  {selectedLocation.name}
+                  <div>{selectedLocation.streetAddress}</div>
+                  <div>{selectedLocation.city}</div>
+                  {pickupScheduling && selectedSlot && (
+                    <div className="font-semibold text-purple-700">
+                      {t('store.checkout.pickupSlotLabel', { slot: formatPickupSlot(selectedSlot) })}
+                    </div>
+                  )}
                 </div>
               </div>
             )}
 
             {/* Products Summary */}
               <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
-              <h4 className="font-semibold text-gray-800 mb-2">פריטי הזמנה</h4>
+              <h4 className="font-semibold text-gray-800 mb-2">{t('store.checkout.orderItems')}</h4>
               <div className="space-y-2">
-                {cart.map((item) => (
-                  <div key={item.product.id} className="flex justify-between text-sm gap-3 items-start">
-                    <span className="text-gray-600 flex-1 min-w-0 break-words break-all pl-2">
-                      {item.product.name} × {item.quantity}
-                    </span>
-                    <span className="font-semibold text-gray-800 text-left break-words break-all">
-                      {formatPrice(item.product.price * item.quantity)}
+                {cart.map((item) => {
+                  const { unitPrice, tier } = getLinePrice(item.product, item.variant, item.quantity);
+                  return (
+                    <div key={getLineKey(item.product.id, item.variant?.id)} className="flex justify-between text-sm gap-3 items-start">
+                      <span className="text-gray-600 flex-1 min-w-0 break-words break-all pe-2">
+                        {formatLineName({
+                          productName: item.product.name,
+                          variantLabel: item.variant ? getVariantLabel(item.variant, item.product.variantAxes) : null,
+                        })} × {item.quantity}
+                        {tier && (
+                          <span className="block text-xs font-semibold text-emerald-700">
+                            {t('store.checkout.tierPrice', {
+                              quantity: tier.minQuantity,
+                              price: formatPrice(unitPrice),
+                              regular: formatPrice(item.product.price),
+                            })}
+                          </span>
+                        )}
+                      </span>
+                      <span className="font-semibold text-gray-800 text-end break-words break-all">
+                        {formatPrice(unitPrice * item.quantity)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              {fulfillmentMethod === 'DELIVERY' && (
+                <div className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t('store.checkout.deliveryFeeLabel')}</span>
+                    <span className="font-semibold text-gray-800">
+                      {deliveryFee > 0 ? formatPrice(deliveryFee) : t('store.checkout.free')}
                     </span>
                   </div>
-                ))}
-              </div>
+                  {amountToFreeDelivery != null && (
+                    <p className="text-xs text-emerald-700 font-semibold">
+                      {t('store.checkout.addForFreeDelivery', { amount: formatPrice(amountToFreeDelivery) })}
+                    </p>
+                  )}
+                </div>
+              )}
               <div className="mt-3 pt-3 border-t-2 border-gray-300 flex justify-between items-center">
-                <span className="font-bold text-gray-800">סה״כ</span>
+                <span className="font-bold text-gray-800">{t('store.checkout.total')}</span>
                 <span className="text-xl font-bold text-purple-600">
                   {formatPrice(totalPrice)}
                 </span>
@@ -623,15 +1240,15 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
 
             {/* Notes */}
             <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-1">הערות (אופציונלי)</label>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">{t('store.checkout.notesOptional')}</label>
               <textarea
                 value={notes}
                 onChange={(e) => setNotes(e.target.value.slice(0, 1000))}
                 rows={3}
                 maxLength={1000}
                 className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-purple-500 focus:outline-none resize-none"
-                placeholder="הוראות מיוחדות או הערות..."
-                dir="rtl"
+                placeholder={t('store.checkout.notesPlaceholder')}
+                dir={dir}
               />
             </div>
 
@@ -640,16 +1257,16 @@ export default function CheckoutFlow({ orderId, userId, cart, order, editOrder,
                 onClick={handleBack}
                 className="flex-1 bg-white/80 backdrop-blur-sm hover:bg-white/90 font-semibold py-3 rounded-xl text-gray-800 transition-all border-2 border-gray-300/50 shadow-lg shadow-gray-300/30 hover:scale-105"
               >
-                חזור
+                {t('store.checkout.back')}
               </button>
               <button
                 onClick={handleSubmit}
-                disabled={isSubmitting}
+                disabled={isSubmitting || cartChanges.length > 0 || cart.length === 0 || cartRuleViolations.length > 0}
                 className="flex-1 bg-green-600 text-white font-bold py-3 rounded-xl hover:bg-green-700 hover:shadow-2xl hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed border-2 border-green-400/50 backdrop-blur-sm shadow-lg shadow-green-500/30"
               >
                 {isSubmitting 
-                  ? (isEditMode ? 'מעדכן הזמנה...' : 'מזמין הזמנה...')
-                  : (isEditMode ? 'עדכן הזמנה' : 'הזמן הזמנה')}
+                  ? (isEditMode ? t('store.checkout.updating') : t('store.checkout.placing'))
+                  : (isEditMode ? t('store.checkout.update') : t('store.checkout.place'))}
               </button>
             </div>
           </div>
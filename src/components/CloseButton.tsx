@@ -1,10 +1,12 @@
+import { t } from '../utils/i18n';
+
 interface CloseButtonProps {
   onClick: () => void;
   ariaLabel?: string;
   className?: string;
 }
 
-export default function CloseButton({ onClick, ariaLabel = "סגור חלון", className = "" }: CloseButtonProps) {
+export default function CloseButton({ onClick, ariaLabel = t('common.closeWindow'), className = "" }: CloseButtonProps) {
   return (
     <button
       onClick={onClick}
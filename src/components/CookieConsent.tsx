@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Link } from 'react-router-dom';
+import { t } from '../utils/i18n';
 
 const COOKIE_CONSENT_KEY = 'cookie-consent';
 const COOKIE_CONSENT_EXPIRY_DAYS = 365; // Consent valid for 1 year
@@ -148,7 +149,6 @@ export default function CookieConsent() {
       aria-describedby="cookie-consent-description"
       aria-live="polite"
       className="fixed bottom-0 right-0 left-0 z-[10000] bg-white/95 backdrop-blur-xl border-t-2 border-gray-300 shadow-2xl"
-      dir="rtl"
       onKeyDown={(e) => {
         // Handle keyboard navigation
         if (e.key === 'Escape') {
@@ -168,19 +168,19 @@ export default function CookieConsent() {
               id="cookie-consent-title"
               className="text-lg font-semibold text-gray-900 mb-2"
             >
-              שימוש בעוגיות
+              {t('cookieConsent.title')}
             </h2>
             <p
               id="cookie-consent-description"
               className="text-sm text-gray-700 leading-relaxed"
             >
-              אנו משתמשים בעוגיות כדי לשפר את החוויה שלך באתר. על ידי המשך השימוש באתר, אתה מסכים לשימוש בעוגיות בהתאם ל{' '}
+              {t('cookieConsent.description')}{' '}
               <Link 
                 to="/cookies-policy" 
                 className="text-indigo-600 hover:text-indigo-700 underline focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 rounded"
                 onClick={(e) => e.stopPropagation()}
               >
-                מדיניות העוגיות שלנו
+                {t('cookieConsent.policyLink')}
               </Link>.
             </p>
           </div>
@@ -197,9 +197,9 @@ export default function CookieConsent() {
                 }
               }}
               className="px-6 py-2.5 rounded-xl text-sm font-semibold text-gray-700 bg-gray-100 hover:bg-gray-200 border-2 border-gray-300 hover:border-gray-400 transition-all duration-200 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-              aria-label="דחה עוגיות - דחיית כל העוגיות שאינן חיוניות"
+              aria-label={t('cookieConsent.rejectLabel')}
             >
-              דחה
+              {t('cookieConsent.reject')}
             </button>
             <button
               ref={acceptButtonRef}
@@ -212,9 +212,9 @@ export default function CookieConsent() {
                 }
               }}
               className="px-6 py-2.5 rounded-xl text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 border-2 border-indigo-700 hover:border-indigo-800 shadow-lg hover:shadow-xl transition-all duration-200 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-              aria-label="קבל עוגיות - קבלת כל סוגי העוגיות"
+              aria-label={t('cookieConsent.acceptLabel')}
             >
-              קבל
+              {t('cookieConsent.accept')}
             </button>
           </div>
         </div>
@@ -7,7 +7,9 @@ import {
   type Order,
 } from '../services/api';
 import { formatPrice } from '../utils/formatPrice';
+import { formatLineName, getLineKey } from '../utils/productVariants';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 type CreditMode = 'byAmount' | 'byOrder';
 
@@ -22,9 +24,9 @@ interface CreditNoteModalProps {
 }
 
 function sanitizeAmountInput(raw: string): string {
-  const t = raw.replace(/[^\d.]/g, '');
-  const parts = t.split('.');
-  if (parts.length <= 1) return t;
+  const cleaned = raw.replace(/[^\d.]/g, '');
+  const parts = cleaned.split('.');
+  if (parts.length <= 1) return cleaned;
   const intPart = parts[0] ?? '';
   const dec = parts.slice(1).join('');
   return `${intPart}.${dec.slice(0, 2)}`;
@@ -83,8 +85,9 @@ export default function CreditNoteModal({
   /** Net remaining on order (BE); max next credit is at most this when cap follows gross. */
   const maxAmount = Math.max(0, order.totalPrice);
   const grossOrderTotal = order.totalPrice + credited;
+  // Credited quantities per order line: the same product in two variants is credited separately
   const creditedProductsMap = new Map(
-    (order.creditedProducts ?? []).map((p) => [p.productId, p.quantity]),
+    (order.creditedProducts ?? []).map((p) => [getLineKey(p.productId, p.variantId), p.quantity]),
   );
 
   const primaryHasAllocation =
@@ -117,7 +120,7 @@ export default function CreditNoteModal({
 
   const creditAmountByProducts = order.products.reduce((sum, product, index) => {
     const key = `${product.productId}-${index}`;
-    const alreadyCreditedQty = creditedProductsMap.get(product.productId) ?? 0;
+    const alreadyCreditedQty = creditedProductsMap.get(getLineKey(product.productId, product.variantId)) ?? 0;
     const remainingQty = Math.max(0, product.quantity - alreadyCreditedQty);
     const qty = Math.max(0, Math.min(remainingQty, creditQuantities[key] ?? 0));
     return sum + (qty * product.pricePerUnit);
@@ -135,26 +138,26 @@ export default function CreditNoteModal({
         ? parseFloat(amountStr.replace(/,/g, ''))
         : Math.round(creditAmountByProducts * 100) / 100;
     if (Number.isNaN(n) || n <= 0) {
-      setError(mode === 'byAmount' ? 'יש להזין סכום חיובי' : 'יש לבחור לפחות מוצר אחד לזיכוי');
+      setError(mode === 'byAmount' ? t('creditNote.error.amount') : t('creditNote.error.noProducts'));
       return;
     }
     if (n > maxAmount + 1e-9) {
-      setError(`הסכום לא יכול לעלות על ${formatPrice(maxAmount)}`);
+      setError(t('creditNote.error.max', { max: formatPrice(maxAmount) }));
       return;
     }
     const rounded = Math.round(n * 100) / 100;
 
     if (primaryHasAllocation) {
-      const t = allocationNumber.trim();
-      if (t.length !== 9 || !/^\d{9}$/.test(t)) {
-        setError('מספר הקצאה חייב להכיל 9 ספרות');
+      const allocation = allocationNumber.trim();
+      if (allocation.length !== 9 || !/^\d{9}$/.test(allocation)) {
+        setError(t('creditNote.error.allocation'));
         return;
       }
     }
 
     const normalizedNotes = notes.trim();
     if (normalizedNotes.length > 1000) {
-      setError('הערות יכולות להכיל עד 1000 תווים');
+      setError(t('creditNote.error.notes', { max: 1000 }));
       return;
     }
 
@@ -173,7 +176,7 @@ export default function CreditNoteModal({
               products: order.products
                 .map((product, index) => {
                   const key = `${product.productId}-${index}`;
-                  const alreadyCreditedQty = creditedProductsMap.get(product.productId) ?? 0;
+                  const alreadyCreditedQty = creditedProductsMap.get(getLineKey(product.productId, product.variantId)) ?? 0;
                   const remainingQty = Math.max(0, product.quantity - alreadyCreditedQty);
                   const selectedQty = Math.max(
                     0,
@@ -181,6 +184,7 @@ export default function CreditNoteModal({
                   );
                   return {
                     productId: product.productId,
+                    variantId: product.variantId ?? null,
                     quantity: selectedQty,
                     pricePerUnit: product.pricePerUnit,
                   };
@@ -202,10 +206,10 @@ export default function CreditNoteModal({
     <AccessibleModal
       isOpen={isOpen}
       onClose={onClose}
-      title="צור זיכוי מס"
-      description={`הזמנה #${order.id.slice(0, 8)}`}
+      title={t('creditNote.title')}
+      description={t('invoice.orderNumber', { id: order.id.slice(0, 8) })}
       size="md"
-      dir="rtl"
+      dir={getDir()}
       overlayClassName="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
     >
       {error && (
@@ -219,7 +223,7 @@ export default function CreditNoteModal({
 
       <div className="flex flex-col gap-4">
         <div className="flex flex-col gap-2">
-          <span className="text-sm font-medium text-gray-700">סוג זיכוי</span>
+          <span className="text-sm font-medium text-gray-700">{t('creditNote.type')}</span>
           <div className="flex items-stretch gap-2 p-1 bg-gray-50 rounded-xl border border-gray-200">
             <button
               type="button"
@@ -233,7 +237,7 @@ export default function CreditNoteModal({
                   : 'bg-white text-gray-600 hover:bg-gray-100'
               }`}
             >
-              זיכוי לפי סכום
+              {t('creditNote.byAmount')}
             </button>
             <button
               type="button"
@@ -247,7 +251,7 @@ export default function CreditNoteModal({
                   : 'bg-white text-gray-600 hover:bg-gray-100'
               }`}
             >
-              זיכוי לפי עדכון הזמנה
+              {t('creditNote.byOrder')}
             </button>
           </div>
         </div>
@@ -256,24 +260,24 @@ export default function CreditNoteModal({
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-900">
               <div className="flex justify-between gap-2">
-                <span>סכום הזמנה (לפני זיכויים)</span>
+                <span>{t('creditNote.grossTotal')}</span>
                 <span className="font-bold">{formatPrice(grossOrderTotal)}</span>
               </div>
               {credited > 0 && (
                 <div className="flex justify-between gap-2 mt-1 text-amber-800">
-                  <span>כבר זוכה</span>
+                  <span>{t('creditNote.alreadyCredited')}</span>
                   <span>{formatPrice(credited)}</span>
                 </div>
               )}
               <div className="flex justify-between gap-2 mt-1 pt-1 border-t border-amber-200/80 font-medium">
-                <span>יתרה</span>
+                <span>{t('creditNote.balance')}</span>
                 <span dir="ltr">{formatPrice(order.totalPrice)}</span>
               </div>
             </div>
 
             <div>
               <label htmlFor="credit-amount" className="block text-sm font-medium text-gray-700 mb-2">
-                סכום הזיכוי (₪)
+                {t('creditNote.amount')}
               </label>
               <input
                 id="credit-amount"
@@ -289,15 +293,14 @@ export default function CreditNoteModal({
                 dir="ltr"
               />
               <p className="text-xs text-gray-500 mt-1">
-                ספרות ונקודה עשרונית בלבד, עד שני ספרות אחרי הנקודה. מקסימום לפי הזמנה:{' '}
-                {formatPrice(maxAmount)}
+                {t('creditNote.amountHint', { max: formatPrice(maxAmount) })}
               </p>
             </div>
 
             {primaryHasAllocation && (
               <div>
                 <label htmlFor="credit-allocation" className="block text-sm font-medium text-gray-700 mb-2">
-                  מספר הקצאה (9 ספרות)
+                  {t('creditNote.allocation')}
                 </label>
                 <input
                   id="credit-allocation"
@@ -314,7 +317,7 @@ export default function CreditNoteModal({
 
             <div>
               <label htmlFor="credit-note-notes" className="block text-sm font-medium text-gray-700 mb-2">
-                הערות לזיכוי (אופציונלי)
+                {t('creditNote.notes')}
               </label>
               <textarea
                 id="credit-note-notes"
@@ -322,11 +325,10 @@ export default function CreditNoteModal({
                 onChange={(e) => setNotes(e.target.value.slice(0, 1000))}
                 maxLength={1000}
                 rows={4}
-                placeholder="הוסף הערות שיופיעו במסמך הזיכוי..."
+                placeholder={t('creditNote.notesPlaceholder')}
                 className="w-full px-4 py-2 border border-gray-300 rounded-xl text-sm text-gray-800 resize-y"
-                dir="rtl"
               />
-              <p className="text-xs text-gray-500 mt-1 text-left" dir="ltr">
+              <p className="text-xs text-gray-500 mt-1 text-end">
                 {notes.length}/1000
               </p>
             </div>
@@ -338,7 +340,7 @@ export default function CreditNoteModal({
                 disabled={isSubmitting}
                 className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700"
               >
-                ביטול
+                {t('common.cancel')}
               </button>
               <button
                 type="submit"
@@ -348,10 +350,10 @@ export default function CreditNoteModal({
                 {isSubmitting ? (
                   <>
                     <Spinner size="sm" />
-                    <span>שולח…</span>
+                    <span>{t('creditNote.sending')}</span>
                   </>
                 ) : (
-                  'צור זיכוי'
+                  t('creditNote.create')
                 )}
               </button>
             </div>
@@ -362,16 +364,16 @@ export default function CreditNoteModal({
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-900">
               <div className="flex justify-between gap-2">
-                <span>סכום זיכוי לפי מוצרים</span>
+                <span>{t('creditNote.productsAmount')}</span>
                 <span className="font-bold">{formatPrice(creditAmountByProducts)}</span>
               </div>
               <div className="flex justify-between gap-2 mt-1 text-amber-800">
-                <span>מקסימום זיכוי להזמנה</span>
+                <span>{t('creditNote.maxForOrder')}</span>
                 <span>{formatPrice(maxAmount)}</span>
               </div>
               {creditAmountByProducts > maxAmount + 1e-9 && (
                 <p className="mt-2 text-xs text-red-700">
-                  סכום הזיכוי שנבחר גבוה מהמקסימום המותר להזמנה.
+                  {t('creditNote.overMax')}
                 </p>
               )}
             </div>
@@ -381,23 +383,23 @@ export default function CreditNoteModal({
                 <table className="min-w-full divide-y divide-gray-200">
                   <thead className="bg-gray-50">
                     <tr>
-                      <th className="px-3 py-2 text-right text-xs font-semibold text-gray-600">מוצר</th>
-                      <th className="px-3 py-2 text-center text-xs font-semibold text-gray-600">כמות בהזמנה</th>
-                      <th className="px-3 py-2 text-center text-xs font-semibold text-gray-600">כמות שזוכו</th>
-                      <th className="px-3 py-2 text-center text-xs font-semibold text-gray-600">כמות לזיכוי</th>
-                      <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600">סכום</th>
+                      <th className="px-3 py-2 text-start text-xs font-semibold text-gray-600">{t('creditNote.column.product')}</th>
+                      <th className="px-3 py-2 text-center text-xs font-semibold text-gray-600">{t('creditNote.column.ordered')}</th>
+                      <th className="px-3 py-2 text-center text-xs font-semibold text-gray-600">{t('creditNote.column.credited')}</th>
+                      <th className="px-3 py-2 text-center text-xs font-semibold text-gray-600">{t('creditNote.column.toCredit')}</th>
+                      <th className="px-3 py-2 text-end text-xs font-semibold text-gray-600">{t('creditNote.column.amount')}</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-100">
                     {order.products.map((product, index) => {
                       const key = `${product.productId}-${index}`;
-                      const alreadyCreditedQty = creditedProductsMap.get(product.productId) ?? 0;
+                      const alreadyCreditedQty = creditedProductsMap.get(getLineKey(product.productId, product.variantId)) ?? 0;
                       const remainingQty = Math.max(0, product.quantity - alreadyCreditedQty);
                       const selectedQty = Math.max(0, Math.min(remainingQty, creditQuantities[key] ?? 0));
                       const rowTotal = selectedQty * product.pricePerUnit;
                       return (
                         <tr key={key}>
-                          <td className="px-3 py-2 text-sm text-gray-800">{product.productName}</td>
+                          <td className="px-3 py-2 text-sm text-gray-800">{formatLineName(product)}</td>
                           <td className="px-3 py-2 text-center text-sm text-gray-700">{product.quantity}</td>
                           <td className="px-3 py-2 text-center text-sm text-amber-700">{alreadyCreditedQty}</td>
                           <td className="px-3 py-2 text-center">
@@ -416,9 +418,9 @@ export default function CreditNoteModal({
                               dir="ltr"
                               disabled={remainingQty === 0}
                             />
-                            <p className="text-[10px] text-gray-500 mt-1">נותר: {remainingQty}</p>
+                            <p className="text-[10px] text-gray-500 mt-1">{t('creditNote.remaining', { count: remainingQty })}</p>
                           </td>
-                          <td className="px-3 py-2 text-sm text-gray-800 text-left" dir="ltr">
+                          <td className="px-3 py-2 text-sm text-gray-800 text-end">
                             {formatPrice(rowTotal)}
                           </td>
                         </tr>
@@ -432,7 +434,7 @@ export default function CreditNoteModal({
             {primaryHasAllocation && (
               <div>
                 <label htmlFor="credit-allocation-by-order" className="block text-sm font-medium text-gray-700 mb-2">
-                  מספר הקצאה (9 ספרות)
+                  {t('creditNote.allocation')}
                 </label>
                 <input
                   id="credit-allocation-by-order"
@@ -449,7 +451,7 @@ export default function CreditNoteModal({
 
             <div>
               <label htmlFor="credit-note-notes-by-order" className="block text-sm font-medium text-gray-700 mb-2">
-                הערות לזיכוי (אופציונלי)
+                {t('creditNote.notes')}
               </label>
               <textarea
                 id="credit-note-notes-by-order"
@@ -457,11 +459,10 @@ export default function CreditNoteModal({
                 onChange={(e) => setNotes(e.target.value.slice(0, 1000))}
                 maxLength={1000}
                 rows={4}
-                placeholder="הוסף הערות שיופיעו במסמך הזיכוי..."
+                placeholder={t('creditNote.notesPlaceholder')}
                 className="w-full px-4 py-2 border border-gray-300 rounded-xl text-sm text-gray-800 resize-y"
-                dir="rtl"
               />
-              <p className="text-xs text-gray-500 mt-1 text-left" dir="ltr">
+              <p className="text-xs text-gray-500 mt-1 text-end">
                 {notes.length}/1000
               </p>
             </div>
@@ -473,7 +474,7 @@ export default function CreditNoteModal({
                 disabled={isSubmitting}
                 className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700"
               >
-                ביטול
+                {t('common.cancel')}
               </button>
               <button
                 type="submit"
@@ -483,10 +484,10 @@ export default function CreditNoteModal({
                 {isSubmitting ? (
                   <>
                     <Spinner size="sm" />
-                    <span>שולח…</span>
+                    <span>{t('creditNote.sending')}</span>
                   </>
                 ) : (
-                  'צור זיכוי לפי מוצרים'
+                  t('creditNote.createByProducts')
                 )}
               </button>
             </div>
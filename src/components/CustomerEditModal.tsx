@@ -1,8 +1,10 @@
 import { useEffect, useState, type ChangeEvent, type FormEvent } from 'react';
 import AccessibleModal from './AccessibleModal';
 import type { CustomerRequest, Customer } from '../services/api';
-import { validateEmail, validatePhoneNumberDigitsOnly, validateRequiredWithMaxLength, validateDiscountPercentage, type ValidationErrors } from '../utils/validation';
+import { validateEmail, validatePhoneNumberDigitsOnly, validateRequiredWithMaxLength, validateDiscountPercentage, validateStateIdNumber, type ValidationErrors } from '../utils/validation';
+import { getDir, t } from '../utils/i18n';
 import Spinner from './Spinner';
+import AddressAutocompleteInput from './AddressAutocompleteInput';
 import { resolveApiErr } from '../utils/apiErrorMessage';
 
 interface CustomerEditModalProps {
@@ -78,12 +80,6 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
       case 'email':
         sanitized = value.slice(0, MAX_CUSTOMER_EMAIL_LENGTH);
         break;
-      case 'streetAddress':
-        sanitized = value.slice(0, MAX_CUSTOMER_STREET_LENGTH);
-        break;
-      case 'city':
-        sanitized = value.slice(0, MAX_CUSTOMER_CITY_LENGTH);
-        break;
       case 'stateId':
         sanitized = value.replace(/\D/g, '').slice(0, 20);
         break;
@@ -104,27 +100,28 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
     }
   };
 
+  const handleAddressChange = (name: 'streetAddress' | 'city', value: string) => {
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (showErrors && fieldErrors[name]) {
+      setFieldErrors((prev) => ({ ...prev, [name]: '' }));
+    }
+  };
+
   const validateForm = (): ValidationErrors => {
     const errors: ValidationErrors = {};
-    const nameError = validateRequiredWithMaxLength(formData.name, 'שם הלקוח', MAX_CUSTOMER_NAME_LENGTH);
+    const nameError = validateRequiredWithMaxLength(formData.name, t('field.customerName'), MAX_CUSTOMER_NAME_LENGTH);
     if (nameError) errors.name = nameError;
-    const phoneError = validatePhoneNumberDigitsOnly(formData.phoneNumber, MAX_CUSTOMER_PHONE_LENGTH, 'מספר טלפון');
+    const phoneError = validatePhoneNumberDigitsOnly(formData.phoneNumber, MAX_CUSTOMER_PHONE_LENGTH, t('field.phone'));
     if (phoneError) errors.phoneNumber = phoneError;
     const emailError = validateEmail(formData.email);
     if (emailError) errors.email = emailError;
-    const streetError = validateRequiredWithMaxLength(formData.streetAddress, 'כתובת', MAX_CUSTOMER_STREET_LENGTH);
+    const streetError = validateRequiredWithMaxLength(formData.streetAddress, t('field.address'), MAX_CUSTOMER_STREET_LENGTH);
     if (streetError) errors.streetAddress = streetError;
-    const cityError = validateRequiredWithMaxLength(formData.city, 'עיר', MAX_CUSTOMER_CITY_LENGTH);
+    const cityError = validateRequiredWithMaxLength(formData.city, t('field.city'), MAX_CUSTOMER_CITY_LENGTH);
     if (cityError) errors.city = cityError;
-    const trimmedStateId = formData.stateId.trim();
-    if (!trimmedStateId) {
-      errors.stateId = 'ח.פ / ע.מ הוא שדה חובה';
-    } else if (!/^\d+$/.test(trimmedStateId)) {
-      errors.stateId = 'ח.פ / ע.מ חייב להכיל ספרות בלבד';
-    } else if (trimmedStateId.length !== 9) {
-      errors.stateId = 'ח.פ / ע.מ חייב להכיל בדיוק 9 ספרות';
-    }
-    const discountError = validateDiscountPercentage(formData.discountPercentage ?? 0, 'אחוז הנחה');
+    const stateIdError = validateStateIdNumber(formData.stateId);
+    if (stateIdError) errors.stateId = stateIdError;
+    const discountError = validateDiscountPercentage(formData.discountPercentage ?? 0, t('field.discountPercentage'));
     if (discountError) errors.discountPercentage = discountError;
     return errors;
   };
@@ -173,10 +170,10 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="ערוך לקוח"
-      description={`עדכן פרטי קשר עבור ${customer?.name ?? ''}`}
+      title={t('customerForm.editTitle')}
+      description={t('customerForm.editDescription', { name: customer?.name ?? '' })}
       size="lg"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div role="alert" className="mb-4 p-3 bg-red-50/80 border border-red-200/60 rounded-xl text-red-600 text-sm" aria-live="assertive">
@@ -185,7 +182,7 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
       )}
       <form onSubmit={handleSubmit} className="space-y-3.5" noValidate>
         <div>
-          <label className="form-label">שם לקוח *</label>
+          <label className="form-label">{t('field.customerName')} *</label>
           <input
             name="name"
             type="text"
@@ -193,14 +190,13 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
             onChange={handleChange}
             maxLength={MAX_CUSTOMER_NAME_LENGTH}
             className={`form-input ${showErrors && fieldErrors.name ? 'form-input-error' : ''}`}
-            placeholder="שם מלא"
-            dir="rtl"
+            placeholder={t('customerForm.namePlaceholder')}
           />
           {showErrors && fieldErrors.name && <p className="text-red-500 text-xs mt-1">{fieldErrors.name}</p>}
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
           <div>
-            <label className="form-label">מספר טלפון *</label>
+            <label className="form-label">{t('field.phone')} *</label>
             <input
               name="phoneNumber"
               type="tel"
@@ -214,7 +210,7 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
             {showErrors && fieldErrors.phoneNumber && <p className="text-red-500 text-xs mt-1">{fieldErrors.phoneNumber}</p>}
           </div>
           <div>
-            <label className="form-label">כתובת אימייל *</label>
+            <label className="form-label">{t('customerForm.email')} *</label>
             <input
               name="email"
               type="email"
@@ -230,36 +226,35 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3.5">
           <div>
-            <label className="form-label">כתובת רחוב *</label>
-            <input
+            <label className="form-label">{t('field.address')} *</label>
+            <AddressAutocompleteInput
+              kind="street"
+              city={formData.city}
               name="streetAddress"
-              type="text"
               value={formData.streetAddress}
-              onChange={handleChange}
+              onValueChange={(value) => handleAddressChange('streetAddress', value)}
               maxLength={MAX_CUSTOMER_STREET_LENGTH}
               className={`form-input text-center ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-              placeholder="רחוב ושם רחוב"
-              dir="rtl"
+              placeholder={t('customerForm.streetPlaceholder')}
             />
             {showErrors && fieldErrors.streetAddress && <p className="text-red-500 text-xs mt-1">{fieldErrors.streetAddress}</p>}
           </div>
           <div>
-            <label className="form-label">עיר *</label>
-            <input
+            <label className="form-label">{t('field.city')} *</label>
+            <AddressAutocompleteInput
+              kind="city"
               name="city"
-              type="text"
               value={formData.city}
-              onChange={handleChange}
+              onValueChange={(value) => handleAddressChange('city', value)}
               maxLength={MAX_CUSTOMER_CITY_LENGTH}
               className={`form-input text-center ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-              placeholder="תל אביב"
-              dir="rtl"
+              placeholder={t('customerForm.cityPlaceholder')}
             />
             {showErrors && fieldErrors.city && <p className="text-red-500 text-xs mt-1">{fieldErrors.city}</p>}
           </div>
         </div>
         <div>
-          <label className="form-label">ח.פ / ע.מ *</label>
+          <label className="form-label">{t('field.stateId')} *</label>
           <input
             name="stateId"
             type="text"
@@ -273,10 +268,10 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
             dir="ltr"
           />
           {showErrors && fieldErrors.stateId && <p className="text-red-500 text-xs mt-1">{fieldErrors.stateId}</p>}
-          <p className="text-xs text-gray-500 mt-1">הזן בדיוק 9 ספרות</p>
+          <p className="text-xs text-gray-500 mt-1">{t('customerForm.stateIdHint')}</p>
         </div>
         <div>
-          <label className="block text-xs font-medium text-gray-700 mb-1">אחוז הנחה</label>
+          <label className="block text-xs font-medium text-gray-700 mb-1">{t('field.discountPercentage')}</label>
           <div className="flex items-center gap-2.5">
             <span className="text-xs font-medium text-gray-500 w-5">0%</span>
             <input
@@ -288,7 +283,7 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
               onChange={handleChange}
               className="flex-1 h-2.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
             />
-            <span className="text-xs font-medium text-gray-500 w-7 text-left">100%</span>
+            <span className="text-xs font-medium text-gray-500 w-7 text-end">100%</span>
             <div className="flex items-center gap-1.5 bg-indigo-50 px-2.5 py-1.5 rounded-lg border border-indigo-200 min-w-[4rem]">
               <span className="text-xs font-medium text-indigo-600">%</span>
               <input
@@ -304,15 +299,15 @@ export default function CustomerEditModal({ isOpen, customer, onClose, onSuccess
               />
             </div>
           </div>
-          {showErrors && fieldErrors.discountPercentage && <p className="text-red-500 text-xs mr-7">{fieldErrors.discountPercentage}</p>}
+          {showErrors && fieldErrors.discountPercentage && <p className="text-red-500 text-xs ms-7">{fieldErrors.discountPercentage}</p>}
         </div>
         <div className="flex gap-3 pt-4">
           <button type="button" onClick={handleClose} disabled={isSubmitting} className="btn-cancel">
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-            <span>ביטול</span>
+            <span>{t('common.cancel')}</span>
           </button>
           <button type="submit" disabled={isSubmitting} className="btn-save">
-            {isSubmitting ? <><Spinner size="sm" /><span>שומר...</span></> : <><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg><span>שמור שינויים</span></>}
+            {isSubmitting ? <><Spinner size="sm" /><span>{t('common.saving')}</span></> : <><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg><span>{t('common.saveChanges')}</span></>}
           </button>
         </div>
       </form>
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import type { CustomerStoreLink } from '../services/api';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { copyTextToClipboard, getCustomerStoreLink } from '../utils/copyOrderLink';
+import { t } from '../utils/i18n';
+import { formatOrderDateShortWithTime } from '../utils/orderUtils';
+
+interface CustomerStoreLinkCardProps {
+  customerId: string;
+  /** Manager or agent endpoints for the customer's personal store link. */
+  getLink: (customerId: string) => Promise<CustomerStoreLink | null>;
+  createLink: (customerId: string) => Promise<CustomerStoreLink>;
+  revokeLink: (customerId: string) => Promise<void>;
+  /** Called with every failed request, e.g. to send the user to the login page on 401. */
+  onApiError?: (err: unknown) => void;
+}
+
+type PendingAction = 'rotate' | 'revoke';
+
+/**
+ * The customer's personal store link: one stable URL that always shows the customer's prices and opens a new
+ * order on each checkout. Rotating replaces the URL (the old one stops working); revoking turns it off.
+ */
+export default function CustomerStoreLinkCard({
+  customerId,
+  getLink,
+  createLink,
+  revokeLink,
+  onApiError,
+}: CustomerStoreLinkCardProps) {
+  const [link, setLink] = useState<CustomerStoreLink | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getLink(customerId)
+      .then((data) => {
+        if (!cancelled) setLink(data);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(resolveApiErr(err, 'customerStoreLinkLoad'));
+        onApiError?.(err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customerId]);
+
+  const url = link ? getCustomerStoreLink(link.token) : '';
+
+  const handleCopy = async (text: string) => {
+    if (await copyTextToClipboard(text)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } else {
+      setError(t('customerLink.copyFailed'));
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const created = await createLink(customerId);
+      setLink(created);
+      setPendingAction(null);
+      await handleCopy(getCustomerStoreLink(created.token));
+    } catch (err: unknown) {
+      setError(resolveApiErr(err, 'customerStoreLinkCreate'));
+      onApiError?.(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      await revokeLink(customerId);
+      setLink(null);
+      setPendingAction(null);
+    } catch (err: unknown) {
+      setError(resolveApiErr(err, 'customerStoreLinkRevoke'));
+      onApiError?.(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-3xl p-6 md:p-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-1">{t('customerLink.title')}</h2>
+      <p className="text-sm text-gray-600 mb-4">{t('customerLink.intro')}</p>
+      {error && (
+        <p className="text-red-600 text-sm mb-3" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <span className="animate-spin h-4 w-4 border-2 border-indigo-500 border-t-transparent rounded-full" />
+          {t('customerLink.loading')}
+        </div>
+      ) : !link ? (
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={isSaving}
+          className="inline-flex items-center justify-center gap-2 min-w-[15rem] h-12 rounded-xl font-semibold text-white bg-indigo-600 border-2 border-indigo-600/40 hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 transition-all disabled:opacity-60"
+        >
+          {isSaving ? t('customerLink.creating') : t('customerLink.create')}
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <label htmlFor={`customer-store-link-${customerId}`} className="sr-only">
+              {t('customerLink.label')}
+            </label>
+            <input
+              id={`customer-store-link-${customerId}`}
+              readOnly
+              value={url}
+              dir="ltr"
+              onFocus={(e) => e.target.select()}
+              className="glass-input flex-1 px-3 py-2 rounded-xl text-sm font-mono text-gray-700"
+            />
+            <button
+              type="button"
+              onClick={() => handleCopy(url)}
+              className={`px-4 py-2 rounded-xl text-sm font-semibold text-white transition-colors ${
+                copied ? 'bg-green-600' : 'bg-indigo-600 hover:bg-indigo-700'
+              }`}
+            >
+              <span aria-live="polite">{copied ? t('customerLink.copied') : t('customerLink.copy')}</span>
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {t('customerLink.createdAt', { date: formatOrderDateShortWithTime(link.createdAt) })}
+            {' · '}
+            {link.ordersPlaced === 0
+              ? t('customerLink.unused')
+              : t('customerLink.usage', {
+                  count: link.ordersPlaced,
+                  date: link.lastUsedAt ? formatOrderDateShortWithTime(link.lastUsedAt) : '—',
+                })}
+          </p>
+
+          {pendingAction ? (
+            <div className="rounded-xl border border-amber-300 bg-amber-50/80 p-3 space-y-2" role="alert">
+              <p className="text-sm text-amber-900">
+                {pendingAction === 'rotate'
+                  ? t('customerLink.rotateWarning')
+                  : t('customerLink.revokeWarning')}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={pendingAction === 'rotate' ? handleCreate : handleRevoke}
+                  disabled={isSaving}
+                  className="px-4 py-2 rounded-xl text-sm font-semibold text-white bg-red-600 hover:bg-red-700 disabled:opacity-60"
+                >
+                  {isSaving
+                    ? t('customerLink.saving')
+                    : pendingAction === 'rotate'
+                      ? t('customerLink.rotate')
+                      : t('customerLink.revoke')}
+                </button>
+                <button type="button" onClick={() => setPendingAction(null)} disabled={isSaving} className="btn-cancel">
+                  {t('customerLink.back')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setPendingAction('rotate')}
+                className="px-4 py-2 rounded-xl text-sm font-semibold glass-button text-gray-800"
+              >
+                {t('customerLink.rotate')}
+              </button>
+              <button
+                type="button"
+                onClick={() => setPendingAction('revoke')}
+                className="px-4 py-2 rounded-xl text-sm font-semibold text-red-700 border border-red-200 hover:bg-red-50"
+              >
+                {t('customerLink.revoke')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
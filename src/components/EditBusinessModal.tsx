@@ -1,11 +1,33 @@
 import { useState, useEffect } from 'react';
 import { validateBusinessForm } from '../utils/validation';
 import type { ValidationErrors } from '../utils/validation';
-import { businessAPI, type Business } from '../services/api';
+import {
+  businessAPI,
+  productAPI,
+  publicAPI,
+  type Business,
+  type CartRules,
+  type DeliverySettings,
+  type InventorySettings,
+  type Location,
+  type OrderLinkSettings,
+  type StoreTheme,
+} from '../services/api';
 import Spinner from './Spinner';
 import AccessibleModal from './AccessibleModal';
+import AddressAutocompleteInput from './AddressAutocompleteInput';
 import SparkMD5 from 'spark-md5';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
+import { isSameDeliverySettings } from '../utils/delivery';
+import { cartRulesFromDraft, isSameCartRules, productRuleDraftsFrom, validateProductRuleDrafts } from '../utils/cartRules';
+import type { CartProductRuleDraft } from '../utils/cartRules';
+import CartProductRulesEditor from './CartProductRulesEditor';
+import { isSameStoreTheme, storeThemeDraftFrom, storeThemeFromDraft, validateStoreThemeDraft } from '../utils/storeTheme';
+import type { StoreThemeDraft } from '../utils/storeTheme';
+import StoreThemeEditor from './StoreThemeEditor';
+import { isSameInventorySettings } from '../utils/inventory';
+import { formatLinkLifetime, getOrderLinkLifetimeHours, isSameOrderLinkSettings, ORDER_LINK_LIFETIME_OPTIONS } from '../utils/orderLinks';
 
 // Helper function to calculate MD5 hash of a file and return as Base64
 async function calculateFileMD5(file: File): Promise<string> {
@@ -42,7 +64,7 @@ async function calculateFileMD5(file: File): Promise<string> {
     };
 
     fileReader.onerror = function () {
-      reject(new Error('נכשל בקריאת הקובץ לחישוב הבדיקה'));
+      reject(new Error(t('image.error.read')));
     };
 
     function loadNext() {
@@ -55,6 +77,35 @@ async function calculateFileMD5(file: File): Promise<string> {
   });
 }
 
+// Business image and store banner: JPEG/PNG/WebP up to 5MB
+function getImageFileError(file: File): string {
+  const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+  if (!validTypes.includes(file.type)) {
+    return t('image.error.type');
+  }
+  const maxSize = 5 * 1024 * 1024; // 5MB in bytes
+  if (file.size > maxSize) {
+    return t('image.error.size');
+  }
+  return '';
+}
+
+// PUT the file to the presigned URL returned by the image endpoints
+async function uploadToPresignedUrl(preSignedUrl: string, file: File, fileMd5Base64: string): Promise<void> {
+  const uploadResponse = await fetch(preSignedUrl, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': file.type,
+      'Content-MD5': fileMd5Base64,
+    },
+    body: file,
+  });
+
+  if (!uploadResponse.ok) {
+    throw new Error(t('image.error.upload'));
+  }
+}
+
 interface EditBusinessModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -71,6 +122,11 @@ interface EditBusinessModalProps {
     minimumInvoiceSequenceNumber: number;
     minimumCreditNoteSequenceNumber: number;
     imageUrl?: string | null;
+    deliverySettings?: DeliverySettings | null;
+    cartRules?: CartRules | null;
+    storeTheme?: StoreTheme | null;
+    inventorySettings?: InventorySettings | null;
+    orderLinkSettings?: OrderLinkSettings | null;
   };
 }
 
@@ -91,7 +147,21 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
     city: '',
     minimumInvoiceSequenceNumber: '1',
     minimumCreditNoteSequenceNumber: '1',
+    deliveryFee: '',
+    freeDeliveryThreshold: '',
+    minimumOrderTotal: '',
   });
+  const [deliveryEnabled, setDeliveryEnabled] = useState(false);
+  const [inventoryDraft, setInventoryDraft] = useState<InventorySettings>({
+    enabled: false,
+    blockUnavailableQuantities: false,
+    deliveryLocationId: null,
+  });
+  const [linkLifetimeHours, setLinkLifetimeHours] = useState(getOrderLinkLifetimeHours(null));
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [productRules, setProductRules] = useState<CartProductRuleDraft[]>([]);
+  const [catalogProducts, setCatalogProducts] = useState<{ id: string; name: string }[]>([]);
+  const [isLoadingProducts, setIsLoadingProducts] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<ValidationErrors>({});
@@ -100,6 +170,10 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [removeImage, setRemoveImage] = useState(false);
+  const [themeDraft, setThemeDraft] = useState<StoreThemeDraft>(storeThemeDraftFrom(null));
+  const [selectedBanner, setSelectedBanner] = useState<File | null>(null);
+  const [bannerPreview, setBannerPreview] = useState<string | null>(null);
+  const [removeBanner, setRemoveBanner] = useState(false);
 
   // Initialize form with current business data
   useEffect(() => {
@@ -113,23 +187,87 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
         city: currentBusiness.city,
         minimumInvoiceSequenceNumber: String(currentBusiness.minimumInvoiceSequenceNumber),
         minimumCreditNoteSequenceNumber: String(currentBusiness.minimumCreditNoteSequenceNumber),
+        deliveryFee: currentBusiness.deliverySettings ? String(currentBusiness.deliverySettings.fee) : '',
+        freeDeliveryThreshold: currentBusiness.deliverySettings?.freeDeliveryThreshold != null
+          ? String(currentBusiness.deliverySettings.freeDeliveryThreshold)
+          : '',
+        minimumOrderTotal: currentBusiness.cartRules?.minimumOrderTotal != null
+          ? String(currentBusiness.cartRules.minimumOrderTotal)
+          : '',
+      });
+      setDeliveryEnabled(!!currentBusiness.deliverySettings?.enabled);
+      setInventoryDraft({
+        enabled: !!currentBusiness.inventorySettings?.enabled,
+        blockUnavailableQuantities: !!currentBusiness.inventorySettings?.blockUnavailableQuantities,
+        deliveryLocationId: currentBusiness.inventorySettings?.deliveryLocationId ?? null,
       });
+      setLinkLifetimeHours(getOrderLinkLifetimeHours(currentBusiness.orderLinkSettings));
+      setProductRules(productRuleDraftsFrom(currentBusiness.cartRules));
       setSelectedImage(null);
       setPreviewImage(null);
       setIsDragging(false);
       setRemoveImage(false);
+      setThemeDraft(storeThemeDraftFrom(currentBusiness.storeTheme));
+      setSelectedBanner(null);
+      setBannerPreview(null);
+      setRemoveBanner(false);
       setShowErrors(false);
       setFieldErrors({});
       setError('');
     }
   }, [isOpen, currentBusiness]);
 
+  // Products for the cart rule picker
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoadingProducts(true);
+    productAPI
+      .getAllProducts()
+      .then((products) => {
+        if (!cancelled) setCatalogProducts(products.map((product) => ({ id: product.id, name: product.name })));
+      })
+      .catch((err) => console.error('Failed to fetch products for cart rules:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoadingProducts(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  // Locations for the stock location of delivery orders
+  const managerId = fullBusiness?.managerId;
+  useEffect(() => {
+    if (!isOpen || !managerId) return;
+    let cancelled = false;
+    publicAPI.locations
+      .getAllByManagerId(managerId)
+      .then((list) => {
+        if (!cancelled) setLocations(list);
+      })
+      .catch((err) => console.error('Failed to fetch locations for inventory settings:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, managerId]);
+
   if (!isOpen) return null;
 
   const validateForm = () => {
-    const result = validateBusinessForm(formData);
-    setFieldErrors(result.errors);
-    return result.isValid;
+    const result = validateBusinessForm({
+      ...formData,
+      deliveryFee: deliveryEnabled ? formData.deliveryFee : undefined,
+      freeDeliveryThreshold: deliveryEnabled ? formData.freeDeliveryThreshold : undefined,
+    });
+    const productRulesError = validateProductRuleDrafts(productRules);
+    const storeThemeError = validateStoreThemeDraft(themeDraft);
+    setFieldErrors({
+      ...result.errors,
+      ...(productRulesError ? { productRules: productRulesError } : {}),
+      ...(storeThemeError ? { storeTheme: storeThemeError } : {}),
+    });
+    return result.isValid && !productRulesError && !storeThemeError;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -142,6 +280,22 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
       return;
     }
 
+    const deliverySettings: DeliverySettings = {
+      enabled: deliveryEnabled,
+      fee: deliveryEnabled ? Number(formData.deliveryFee.trim()) : currentBusiness.deliverySettings?.fee ?? 0,
+      freeDeliveryThreshold: deliveryEnabled
+        ? formData.freeDeliveryThreshold.trim() ? Number(formData.freeDeliveryThreshold.trim()) : null
+        : currentBusiness.deliverySettings?.freeDeliveryThreshold ?? null,
+    };
+    const hasDeliveryChanges = !isSameDeliverySettings(deliverySettings, currentBusiness.deliverySettings);
+    const cartRules = cartRulesFromDraft(formData.minimumOrderTotal, productRules);
+    const hasCartRulesChanges = !isSameCartRules(cartRules, currentBusiness.cartRules);
+    const storeTheme = storeThemeFromDraft(themeDraft);
+    const hasStoreThemeChanges = !isSameStoreTheme(storeTheme, currentBusiness.storeTheme);
+    const hasInventoryChanges = !isSameInventorySettings(inventoryDraft, currentBusiness.inventorySettings);
+    const orderLinkSettings: OrderLinkSettings = { defaultLifetimeHours: linkLifetimeHours };
+    const hasOrderLinkChanges = !isSameOrderLinkSettings(orderLinkSettings, currentBusiness.orderLinkSettings);
+
     // Check if anything has changed
     const hasChanges =
       formData.name !== currentBusiness.name ||
@@ -152,8 +306,15 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
       formData.city !== currentBusiness.city ||
       formData.minimumInvoiceSequenceNumber !== String(currentBusiness.minimumInvoiceSequenceNumber) ||
       formData.minimumCreditNoteSequenceNumber !== String(currentBusiness.minimumCreditNoteSequenceNumber) ||
+      hasDeliveryChanges ||
+      hasCartRulesChanges ||
+      hasStoreThemeChanges ||
+      hasInventoryChanges ||
+      hasOrderLinkChanges ||
       selectedImage !== null ||
-      removeImage;
+      removeImage ||
+      selectedBanner !== null ||
+      removeBanner;
 
     // If nothing changed, just close the modal without making an API call
     if (!hasChanges) {
@@ -180,6 +341,11 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
         city: formData.city.trim(),
         minimumInvoiceSequenceNumber,
         minimumCreditNoteSequenceNumber,
+        deliverySettings,
+        cartRules,
+        storeTheme,
+        inventorySettings: inventoryDraft,
+        orderLinkSettings,
       };
 
       const hasDetailsChanges =
@@ -190,7 +356,12 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
         detailsPayload.streetAddress !== currentBusiness.streetAddress ||
         detailsPayload.city !== currentBusiness.city ||
         detailsPayload.minimumInvoiceSequenceNumber !== currentBusiness.minimumInvoiceSequenceNumber ||
-        detailsPayload.minimumCreditNoteSequenceNumber !== currentBusiness.minimumCreditNoteSequenceNumber;
+        detailsPayload.minimumCreditNoteSequenceNumber !== currentBusiness.minimumCreditNoteSequenceNumber ||
+        hasDeliveryChanges ||
+        hasCartRulesChanges ||
+        hasStoreThemeChanges ||
+        hasInventoryChanges ||
+        hasOrderLinkChanges;
 
       if (hasDetailsChanges) {
         const r = await businessAPI.updateMyBusiness(detailsPayload);
@@ -217,19 +388,29 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
           fileMd5Base64,
         };
         const result = await businessAPI.setBusinessImage(imageMetadata);
+        await uploadToPresignedUrl(result.preSignedUrl, selectedImage, fileMd5Base64);
+        updatedBusiness = result.business;
+      }
 
-        const uploadResponse = await fetch(result.preSignedUrl, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': selectedImage.type,
-            'Content-MD5': fileMd5Base64,
-          },
-          body: selectedImage,
-        });
-
-        if (!uploadResponse.ok) {
-          throw new Error('נכשל בהעלאת התמונה ל-S3');
+      // 4. Remove the store banner (DELETE /businesses/me/store-banner) — returns void, merge like the image
+      if (removeBanner) {
+        await businessAPI.removeStoreBanner();
+        const base = updatedBusiness ?? fullBusiness;
+        if (base?.storeTheme) {
+          updatedBusiness = { ...base, storeTheme: { ...base.storeTheme, bannerImageUrl: null } };
         }
+      }
+
+      // 5. Set a new store banner (POST /businesses/me/store-banner + upload to S3)
+      if (selectedBanner) {
+        const fileMd5Base64 = await calculateFileMD5(selectedBanner);
+        const result = await businessAPI.setStoreBanner({
+          fileName: selectedBanner.name,
+          contentType: selectedBanner.type,
+          fileSizeBytes: selectedBanner.size,
+          fileMd5Base64,
+        });
+        await uploadToPresignedUrl(result.preSignedUrl, selectedBanner, fileMd5Base64);
         updatedBusiness = result.business;
       }
 
@@ -253,12 +434,10 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
         ? value.slice(0, MAX_EMAIL_LENGTH)
         : name === 'phoneNumber'
         ? value.replace(/\D/g, '').slice(0, MAX_PHONE_LENGTH)
-        : name === 'streetAddress'
-        ? value.slice(0, MAX_STREET_ADDRESS_LENGTH)
-        : name === 'city'
-        ? value.slice(0, MAX_CITY_LENGTH)
         : name === 'minimumInvoiceSequenceNumber' || name === 'minimumCreditNoteSequenceNumber'
         ? value.replace(/\D/g, '').slice(0, 9)
+        : name === 'deliveryFee' || name === 'freeDeliveryThreshold' || name === 'minimumOrderTotal'
+        ? value.replace(/[^\d.]/g, '').slice(0, 10)
         : value;
     setFormData({
       ...formData,
@@ -273,6 +452,13 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
     }
   };
 
+  const handleAddressChange = (name: 'streetAddress' | 'city', value: string) => {
+    setFormData({ ...formData, [name]: value });
+    if (showErrors && fieldErrors[name]) {
+      setFieldErrors({ ...fieldErrors, [name]: '' });
+    }
+  };
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -281,17 +467,9 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
   };
 
   const processImageFile = (file: File) => {
-    // Validate file type
-    const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    if (!validTypes.includes(file.type)) {
-      setError('סוג קובץ לא תקין. אנא בחר תמונה בפורמט JPEG, PNG או WebP.');
-      return;
-    }
-
-    // Validate file size (5MB)
-    const maxSize = 5 * 1024 * 1024; // 5MB in bytes
-    if (file.size > maxSize) {
-      setError('גודל הקובץ עולה על 5MB.');
+    const fileError = getImageFileError(file);
+    if (fileError) {
+      setError(fileError);
       return;
     }
 
@@ -306,6 +484,23 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
     reader.readAsDataURL(file);
   };
 
+  const processBannerFile = (file: File) => {
+    const fileError = getImageFileError(file);
+    if (fileError) {
+      setError(fileError);
+      return;
+    }
+
+    setSelectedBanner(file);
+    setRemoveBanner(false);
+    setError('');
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setBannerPreview(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
   const handleDragOver = (e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -339,11 +534,20 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
       city: '',
       minimumInvoiceSequenceNumber: '1',
       minimumCreditNoteSequenceNumber: '1',
+      deliveryFee: '',
+      freeDeliveryThreshold: '',
+      minimumOrderTotal: '',
     });
+    setDeliveryEnabled(false);
+    setProductRules([]);
     setSelectedImage(null);
     setPreviewImage(null);
     setIsDragging(false);
     setRemoveImage(false);
+    setThemeDraft(storeThemeDraftFrom(null));
+    setSelectedBanner(null);
+    setBannerPreview(null);
+    setRemoveBanner(false);
     setError('');
     setFieldErrors({});
     setShowErrors(false);
@@ -354,9 +558,9 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="עדכן פרטי עסק"
+      title={t('business.edit.title')}
       size="md"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -371,7 +575,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
         <form onSubmit={handleSubmit} noValidate className="space-y-3.5">
           <div>
             <label htmlFor="name" className="form-label">
-              שם העסק *
+              {t('field.businessName')} *
             </label>
             <input
               id="name"
@@ -381,7 +585,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
               onChange={handleChange}
               maxLength={MAX_NAME_LENGTH}
               className={`form-input text-center ${showErrors && fieldErrors.name ? 'form-input-error' : ''}`}
-              placeholder="שם העסק"
+              placeholder={t('field.businessName')}
               dir="ltr"
             />
             {showErrors && fieldErrors.name && (
@@ -391,7 +595,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
 
           <div>
             <label htmlFor="stateIdNumber" className="form-label">
-              ח.פ / ע.מ *
+              {t('field.stateId')} *
             </label>
             <input
               id="stateIdNumber"
@@ -413,7 +617,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
 
           <div>
             <label htmlFor="email" className="form-label">
-              אימייל העסק *
+              {t('business.edit.email')} *
             </label>
             <input
               id="email"
@@ -433,7 +637,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
 
           <div>
             <label htmlFor="phoneNumber" className="form-label">
-              מספר טלפון *
+              {t('field.phone')} *
             </label>
             <input
               id="phoneNumber"
@@ -454,17 +658,18 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
 
           <div>
             <label htmlFor="streetAddress" className="form-label">
-              כתובת *
+              {t('field.address')} *
             </label>
-            <input
+            <AddressAutocompleteInput
+              kind="street"
+              city={formData.city}
               id="streetAddress"
               name="streetAddress"
-              type="text"
               value={formData.streetAddress}
-              onChange={handleChange}
+              onValueChange={(value) => handleAddressChange('streetAddress', value)}
               maxLength={MAX_STREET_ADDRESS_LENGTH}
               className={`form-input text-center ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-              placeholder="רחוב ראשי 123"
+              placeholder={t('placeholder.street')}
               dir="ltr"
             />
             {showErrors && fieldErrors.streetAddress && (
@@ -474,17 +679,17 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
 
           <div>
             <label htmlFor="city" className="form-label">
-              עיר *
+              {t('field.city')} *
             </label>
-            <input
+            <AddressAutocompleteInput
+              kind="city"
               id="city"
               name="city"
-              type="text"
               value={formData.city}
-              onChange={handleChange}
+              onValueChange={(value) => handleAddressChange('city', value)}
               maxLength={MAX_CITY_LENGTH}
               className={`form-input text-center ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-              placeholder="תל אביב"
+              placeholder={t('placeholder.city')}
               dir="ltr"
             />
             {showErrors && fieldErrors.city && (
@@ -494,7 +699,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
 
           <div>
             <label htmlFor="minimumInvoiceSequenceNumber" className="form-label">
-              מספר חשבונית מינימלי *
+              {t('field.minInvoiceNumber')} *
             </label>
             <input
               id="minimumInvoiceSequenceNumber"
@@ -515,7 +720,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
 
           <div>
             <label htmlFor="minimumCreditNoteSequenceNumber" className="form-label">
-              מספר זיכוי מינימלי *
+              {t('field.minCreditNoteNumber')} *
             </label>
             <input
               id="minimumCreditNoteSequenceNumber"
@@ -534,9 +739,196 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
             )}
           </div>
 
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+              <input
+                id="deliveryEnabled"
+                type="checkbox"
+                checked={deliveryEnabled}
+                onChange={(e) => {
+                  setDeliveryEnabled(e.target.checked);
+                  if (showErrors) {
+                    setFieldErrors({ ...fieldErrors, deliveryFee: '', freeDeliveryThreshold: '' });
+                  }
+                }}
+                className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>{t('business.edit.delivery')}</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1">{t('business.edit.deliveryHint')}</p>
+          </div>
+
+          {deliveryEnabled && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="deliveryFee" className="form-label">
+                  {t('business.edit.deliveryFee')} *
+                </label>
+                <input
+                  id="deliveryFee"
+                  name="deliveryFee"
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.deliveryFee}
+                  onChange={handleChange}
+                  className={`form-input text-center ${showErrors && fieldErrors.deliveryFee ? 'form-input-error' : ''}`}
+                  placeholder="0"
+                  dir="ltr"
+                />
+                {showErrors && fieldErrors.deliveryFee && (
+                  <p className="text-red-500 text-xs mt-1">{fieldErrors.deliveryFee}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="freeDeliveryThreshold" className="form-label">
+                  {t('business.edit.freeDeliveryThreshold')}{' '}
+                  <span className="text-gray-500 text-xs">{t('common.optional')}</span>
+                </label>
+                <input
+                  id="freeDeliveryThreshold"
+                  name="freeDeliveryThreshold"
+                  type="text"
+                  inputMode="decimal"
+                  value={formData.freeDeliveryThreshold}
+                  onChange={handleChange}
+                  className={`form-input text-center ${showErrors && fieldErrors.freeDeliveryThreshold ? 'form-input-error' : ''}`}
+                  placeholder={t('business.edit.none')}
+                  dir="ltr"
+                />
+                {showErrors && fieldErrors.freeDeliveryThreshold && (
+                  <p className="text-red-500 text-xs mt-1">{fieldErrors.freeDeliveryThreshold}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="minimumOrderTotal" className="form-label">
+              {t('business.edit.minimumOrderTotal')}{' '}
+              <span className="text-gray-500 text-xs">{t('common.optional')}</span>
+            </label>
+            <input
+              id="minimumOrderTotal"
+              name="minimumOrderTotal"
+              type="text"
+              inputMode="decimal"
+              value={formData.minimumOrderTotal}
+              onChange={handleChange}
+              className={`form-input text-center ${showErrors && fieldErrors.minimumOrderTotal ? 'form-input-error' : ''}`}
+              placeholder={t('business.edit.none')}
+              dir="ltr"
+            />
+            {showErrors && fieldErrors.minimumOrderTotal && (
+              <p className="text-red-500 text-xs mt-1">{fieldErrors.minimumOrderTotal}</p>
+            )}
+          </div>
+
+          <CartProductRulesEditor
+            products={catalogProducts}
+            isLoadingProducts={isLoadingProducts}
+            rules={productRules}
+            onChange={(rules) => {
+              setProductRules(rules);
+              if (showErrors && fieldErrors.productRules) {
+                setFieldErrors({ ...fieldErrors, productRules: '' });
+              }
+            }}
+            error={showErrors ? fieldErrors.productRules : undefined}
+          />
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+              <input
+                id="inventoryEnabled"
+                type="checkbox"
+                checked={inventoryDraft.enabled}
+                onChange={(e) => setInventoryDraft({ ...inventoryDraft, enabled: e.target.checked })}
+                className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>{t('business.edit.inventory')}</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              {t('business.edit.inventoryHint')}
+            </p>
+          </div>
+
+          {inventoryDraft.enabled && (
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={inventoryDraft.blockUnavailableQuantities}
+                  onChange={(e) => setInventoryDraft({ ...inventoryDraft, blockUnavailableQuantities: e.target.checked })}
+                  className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>{t('business.edit.blockUnavailable')}</span>
+              </label>
+              <div>
+                <label htmlFor="inventoryDeliveryLocation" className="form-label">
+                  {t('business.edit.deliveryLocation')}
+                </label>
+                <select
+                  id="inventoryDeliveryLocation"
+                  value={inventoryDraft.deliveryLocationId ?? ''}
+                  onChange={(e) =>
+                    setInventoryDraft({
+                      ...inventoryDraft,
+                      deliveryLocationId: e.target.value ? Number(e.target.value) : null,
+                    })
+                  }
+                  className="glass-select w-full px-3 py-2 rounded-xl text-sm text-gray-800 cursor-pointer"
+                >
+                  <option value="">{t('business.edit.noDeliveryLocation')}</option>
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="orderLinkLifetime" className="form-label">
+              {t('business.edit.linkLifetime')}
+            </label>
+            <select
+              id="orderLinkLifetime"
+              value={linkLifetimeHours}
+              onChange={(e) => setLinkLifetimeHours(Number(e.target.value))}
+              className="glass-select w-full px-3 py-2 rounded-xl text-sm text-gray-800 cursor-pointer"
+            >
+              {ORDER_LINK_LIFETIME_OPTIONS.map((hours) => (
+                <option key={hours} value={hours}>
+                  {formatLinkLifetime(hours)}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {t('business.edit.linkLifetimeHint')}
+            </p>
+          </div>
+
+          <StoreThemeEditor
+            draft={themeDraft}
+            onChange={(draft) => {
+              setThemeDraft(draft);
+              if (showErrors && fieldErrors.storeTheme) {
+                setFieldErrors({ ...fieldErrors, storeTheme: '' });
+              }
+            }}
+            bannerUrl={bannerPreview ?? (removeBanner ? null : currentBusiness.storeTheme?.bannerImageUrl ?? null)}
+            onBannerSelect={processBannerFile}
+            onBannerRemove={() => {
+              setSelectedBanner(null);
+              setBannerPreview(null);
+              setRemoveBanner(!!currentBusiness.storeTheme?.bannerImageUrl);
+            }}
+            error={showErrors ? fieldErrors.storeTheme : undefined}
+          />
+
           <div>
             <label htmlFor="businessImage" className="form-label">
-              תמונת העסק <span className="text-gray-500 text-xs">(אופציונלי)</span>
+              {t('business.edit.image')} <span className="text-gray-500 text-xs">{t('common.optional')}</span>
             </label>
             <div className="space-y-3">
               <div className="relative">
@@ -559,15 +951,15 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
                       : 'border-indigo-300 hover:border-indigo-500 hover:bg-indigo-50/30'
                   }`}
                 >
-                  <svg className="w-5 h-5 mr-2 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <svg className="w-5 h-5 me-2 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                   </svg>
                   <span className="text-sm font-medium">
-                    {isDragging 
-                      ? 'שחרר תמונה כאן' 
+                    {isDragging
+                      ? t('image.dropHere')
                       : currentBusiness.imageUrl && !removeImage
-                        ? 'שנה תמונה'
-                        : 'בחר תמונה או גרור ושחרר'}
+                        ? t('image.change')
+                        : t('image.choose')}
                   </span>
                 </label>
               </div>
@@ -575,12 +967,12 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
               {/* Current Image */}
               {currentBusiness.imageUrl && !previewImage && !removeImage && (
                 <div className="flex flex-col items-center">
-                  <p className="text-xs text-gray-500 mb-2">תמונה נוכחית:</p>
+                  <p className="text-xs text-gray-500 mb-2">{t('image.current')}</p>
                   <div className="relative group">
                     <div className="w-full max-w-xs h-48 flex items-center justify-center bg-white rounded-lg border-2 border-gray-200 p-2">
                       <img
                         src={currentBusiness.imageUrl}
-                        alt="תמונת העסק הנוכחית"
+                        alt={t('business.edit.currentImageAlt')}
                         className="max-h-full max-w-full object-contain"
                       />
                     </div>
@@ -591,8 +983,8 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
                         setSelectedImage(null);
                         setPreviewImage(null);
                       }}
-                      className="absolute top-2 right-2 p-1.5 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg hover:bg-red-600"
-                      title="הסר תמונה"
+                      className="absolute top-2 end-2 p-1.5 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg hover:bg-red-600"
+                      title={t('image.remove')}
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -608,7 +1000,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
                     }}
                     className="mt-2 px-4 py-2 text-sm text-white bg-red-500 hover:bg-red-600 font-medium rounded-lg shadow-md transition-colors"
                   >
-                    הסר תמונה
+                    {t('image.remove')}
                   </button>
                 </div>
               )}
@@ -621,7 +1013,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
                       <svg className="w-12 h-12 mx-auto text-gray-400 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                       </svg>
-                      <p className="text-sm text-gray-600">התמונה תוסר</p>
+                      <p className="text-sm text-gray-600">{t('image.willBeRemoved')}</p>
                     </div>
                   </div>
                   <button
@@ -631,7 +1023,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
                     }}
                     className="mt-2 text-sm text-indigo-600 hover:text-indigo-700 font-medium"
                   >
-                    ביטול הסרה
+                    {t('image.undoRemove')}
                   </button>
                 </div>
               )}
@@ -643,7 +1035,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
                     <div className="w-full max-w-xs h-48 flex items-center justify-center bg-white rounded-lg border-2 border-gray-200 p-2">
                       <img
                         src={previewImage}
-                        alt="תצוגה מקדימה של תמונת העסק"
+                        alt={t('business.edit.previewImageAlt')}
                         className="max-h-full max-w-full object-contain"
                       />
                     </div>
@@ -654,8 +1046,8 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
                         setPreviewImage(null);
                         setRemoveImage(false);
                       }}
-                      className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-                      title="הסר תמונה"
+                      className="absolute top-2 end-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
+                      title={t('image.remove')}
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -666,7 +1058,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
               )}
 
               <p className="text-xs text-gray-500 text-center">
-                JPEG, PNG, WebP. גודל מקסימלי: 5MB.
+                {t('image.hint')}
               </p>
             </div>
           </div>
@@ -681,7 +1073,7 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -691,14 +1083,14 @@ export default function EditBusinessModal({ isOpen, onClose, onSuccess, fullBusi
               {isLoading ? (
                 <>
                   <Spinner size="sm" />
-                  <span>שומר...</span>
+                  <span>{t('common.saving')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>שמור שינויים</span>
+                  <span>{t('common.saveChanges')}</span>
                 </>
               )}
             </button>
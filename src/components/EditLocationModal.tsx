@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import AccessibleModal from './AccessibleModal';
+import AddressAutocompleteInput from './AddressAutocompleteInput';
 import Spinner from './Spinner';
 import { locationAPI, type Location } from '../services/api';
 import { validateLocationForm, LOCATION_FIELD_LIMITS } from '../utils/validation';
 import type { ValidationErrors } from '../utils/validation';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 interface EditLocationModalProps {
   isOpen: boolean;
@@ -102,6 +104,13 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
     }
   };
 
+  const handleAddressChange = (name: 'streetAddress' | 'city', value: string) => {
+    setFormData({ ...formData, [name]: value });
+    if (showErrors && fieldErrors[name]) {
+      setFieldErrors({ ...fieldErrors, [name]: '' });
+    }
+  };
+
   const handleClose = () => {
     setFormData({
       name: '',
@@ -119,9 +128,9 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="ערוך סניף"
+      title={t('locations.edit')}
       size="md"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -136,7 +145,7 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
         <form onSubmit={handleSubmit} noValidate className="space-y-3.5">
           <div>
             <label htmlFor="name" className="block text-xs font-medium text-gray-700 mb-1.5">
-              שם הסניף *
+              {t('field.locationName')} *
             </label>
             <input
               id="name"
@@ -148,7 +157,7 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
               className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                 showErrors && fieldErrors.name ? 'border-red-400 focus:ring-red-400/50' : ''
               }`}
-              placeholder="לדוגמה: סניף ראשי, סניף מרכז"
+              placeholder={t('locationForm.namePlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.name && (
@@ -158,19 +167,20 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
 
           <div>
             <label htmlFor="streetAddress" className="block text-xs font-medium text-gray-700 mb-1.5">
-              כתובת *
+              {t('field.address')} *
             </label>
-            <input
+            <AddressAutocompleteInput
+              kind="street"
+              city={formData.city}
               id="streetAddress"
               name="streetAddress"
-              type="text"
               value={formData.streetAddress}
-              onChange={handleChange}
+              onValueChange={(value) => handleAddressChange('streetAddress', value)}
               maxLength={LOCATION_FIELD_LIMITS.streetAddress}
               className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                 showErrors && fieldErrors.streetAddress ? 'border-red-400 focus:ring-red-400/50' : ''
               }`}
-              placeholder="רחוב ראשי 123"
+              placeholder={t('customerForm.streetPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.streetAddress && (
@@ -180,19 +190,19 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
 
           <div>
             <label htmlFor="city" className="block text-xs font-medium text-gray-700 mb-1.5">
-              עיר *
+              {t('field.city')} *
             </label>
-            <input
+            <AddressAutocompleteInput
+              kind="city"
               id="city"
               name="city"
-              type="text"
               value={formData.city}
-              onChange={handleChange}
+              onValueChange={(value) => handleAddressChange('city', value)}
               maxLength={LOCATION_FIELD_LIMITS.city}
               className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                 showErrors && fieldErrors.city ? 'border-red-400 focus:ring-red-400/50' : ''
               }`}
-              placeholder="תל אביב"
+              placeholder={t('customerForm.cityPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.city && (
@@ -202,7 +212,7 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
 
           <div>
             <label htmlFor="phoneNumber" className="block text-xs font-medium text-gray-700 mb-1.5">
-              מספר טלפון *
+              {t('field.phone')} *
             </label>
             <input
               id="phoneNumber"
@@ -233,7 +243,7 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -243,14 +253,14 @@ export default function EditLocationModal({ isOpen, onClose, onSuccess, location
               {isLoading ? (
                 <>
                   <Spinner size="sm" />
-                  <span>שומר...</span>
+                  <span>{t('common.saving')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>שמור שינויים</span>
+                  <span>{t('common.saveChanges')}</span>
                 </>
               )}
             </button>
@@ -5,6 +5,7 @@ import { managerAPI, type Manager } from '../services/api';
 import Spinner from './Spinner';
 import AccessibleModal from './AccessibleModal';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 interface EditProfileModalProps {
   isOpen: boolean;
@@ -152,9 +153,9 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
     <AccessibleModal
       isOpen={isOpen}
       onClose={handleClose}
-      title="ערוך פרטים אישיים"
+      title={t('profile.edit')}
       size="md"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -170,7 +171,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
           <div className="grid grid-cols-2 gap-2.5">
             <div>
               <label htmlFor="firstName" className="form-label">
-                שם פרטי *
+                {t('field.firstName')} *
               </label>
               <input
                 id="firstName"
@@ -180,7 +181,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
                 onChange={handleChange}
                 maxLength={MAX_NAME_LENGTH}
                 className={`form-input text-center ${showErrors && fieldErrors.firstName ? 'form-input-error' : ''}`}
-                placeholder="יוחנן"
+                placeholder={t('agentForm.firstNamePlaceholder')}
                 dir="ltr"
               />
               {showErrors && fieldErrors.firstName && (
@@ -190,7 +191,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
 
             <div>
               <label htmlFor="lastName" className="form-label">
-                שם משפחה *
+                {t('field.lastName')} *
               </label>
               <input
                 id="lastName"
@@ -200,7 +201,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
                 onChange={handleChange}
                 maxLength={MAX_NAME_LENGTH}
                 className={`form-input text-center ${showErrors && fieldErrors.lastName ? 'form-input-error' : ''}`}
-                placeholder="כהן"
+                placeholder={t('agentForm.lastNamePlaceholder')}
                 dir="ltr"
               />
               {showErrors && fieldErrors.lastName && (
@@ -211,7 +212,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
 
           <div>
             <label htmlFor="phoneNumber" className="form-label">
-              מספר טלפון *
+              {t('field.phone')} *
             </label>
             <input
               id="phoneNumber"
@@ -232,7 +233,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
 
           <div>
             <label htmlFor="dateOfBirth" className="form-label">
-              תאריך לידה *
+              {t('field.dateOfBirth')} *
             </label>
             <input
               id="dateOfBirth"
@@ -250,7 +251,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
 
           <div>
             <label htmlFor="streetAddress" className="form-label">
-              כתובת *
+              {t('field.address')} *
             </label>
             <input
               id="streetAddress"
@@ -260,7 +261,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
               onChange={handleChange}
               maxLength={MAX_STREET_ADDRESS_LENGTH}
               className={`form-input text-center ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-              placeholder="רחוב ראשי 123"
+              placeholder={t('customerForm.streetPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.streetAddress && (
@@ -270,7 +271,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
 
           <div>
             <label htmlFor="city" className="form-label">
-              עיר *
+              {t('field.city')} *
             </label>
             <input
               id="city"
@@ -280,7 +281,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
               onChange={handleChange}
               maxLength={MAX_CITY_LENGTH}
               className={`form-input text-center ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-              placeholder="תל אביב"
+              placeholder={t('customerForm.cityPlaceholder')}
               dir="ltr"
             />
             {showErrors && fieldErrors.city && (
@@ -298,7 +299,7 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -308,14 +309,14 @@ export default function EditProfileModal({ isOpen, onClose, onSuccess, currentPr
               {isLoading ? (
                 <>
                   <Spinner size="sm" />
-                  <span>שומר...</span>
+                  <span>{t('common.saving')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>שמור שינויים</span>
+                  <span>{t('common.saveChanges')}</span>
                 </>
               )}
             </button>
@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import type { ExtendOrderLinksRequest, Order, OrderLinkExpiryOverview } from '../services/api';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { t } from '../utils/i18n';
+import {
+  DEFAULT_ORDER_LINK_LIFETIME_HOURS,
+  EXPIRING_SOON_HOURS,
+  formatLinkLifetime,
+  ORDER_LINK_LIFETIME_OPTIONS,
+} from '../utils/orderLinks';
+import { formatOrderDateShortWithTime } from '../utils/orderUtils';
+
+interface ExpiringLinksPanelProps {
+  /** Manager or agent endpoints. */
+  getOverview: (withinHours: number) => Promise<OrderLinkExpiryOverview>;
+  extendLinks: (data: ExtendOrderLinksRequest) => Promise<Order[]>;
+  /** Called with the orders whose links were extended, to update them in the list. */
+  onExtended: (orders: Order[]) => void;
+  onView: (order: Order) => void;
+}
+
+type Tab = 'expiringSoon' | 'expired';
+
+/**
+ * Order links that need attention: links expiring in the next 24 hours and recently expired ones (customers'
+ * extension requests first). Links are extended one by one or together; expired links open again. Hidden when
+ * both lists are empty.
+ */
+export default function ExpiringLinksPanel({ getOverview, extendLinks, onExtended, onView }: ExpiringLinksPanelProps) {
+  const [overview, setOverview] = useState<OrderLinkExpiryOverview | null>(null);
+  const [tab, setTab] = useState<Tab>('expiringSoon');
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [hours, setHours] = useState(DEFAULT_ORDER_LINK_LIFETIME_HOURS);
+  const [savingIds, setSavingIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState('');
+
+  const load = () =>
+    getOverview(EXPIRING_SOON_HOURS)
+      .then((data) => {
+        setOverview(data);
+        setError('');
+      })
+      .catch((err: unknown) => setError(resolveApiErr(err, 'orderLinkExpiryLoad')));
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  if (!overview && !error) return null;
+  const expiringSoon = overview?.expiringSoon ?? [];
+  const expired = overview?.expired ?? [];
+  if (overview && expiringSoon.length === 0 && expired.length === 0) return null;
+
+  const requestedCount = expired.filter((order) => order.linkExtensionRequestedAt).length;
+  const list = tab === 'expiringSoon' ? expiringSoon : expired;
+  const selectedInTab = list.filter((order) => selectedIds.has(order.id));
+  const allSelected = list.length > 0 && selectedInTab.length === list.length;
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) next.delete(orderId);
+      else next.add(orderId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      list.forEach((order) => (allSelected ? next.delete(order.id) : next.add(order.id)));
+      return next;
+    });
+  };
+
+  const handleExtend = async (orderIds: string[]) => {
+    if (orderIds.length === 0) return;
+    setSavingIds((prev) => new Set([...prev, ...orderIds]));
+    setError('');
+    try {
+      const updated = await extendLinks({ orderIds, hours });
+      onExtended(updated);
+      setSelectedIds((prev) => new Set([...prev].filter((id) => !orderIds.includes(id))));
+      await load();
+    } catch (err: unknown) {
+      setError(resolveApiErr(err, 'orderLinkExtend'));
+    } finally {
+      setSavingIds((prev) => new Set([...prev].filter((id) => !orderIds.includes(id))));
+    }
+  };
+
+  const tabButton = (value: Tab, label: string, count: number) => (
+    <button
+      type="button"
+      role="tab"
+      aria-selected={tab === value}
+      onClick={() => setTab(value)}
+      className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${
+        tab === value ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-white/60'
+      }`}
+    >
+      {label} ({count})
+    </button>
+  );
+
+  return (
+    <div className="glass-card rounded-2xl p-4 mb-6 border border-amber-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between gap-3 text-start"
+      >
+        <span className="font-semibold text-gray-800">
+          ⏰ {t('orders.expiringLinks.title', { hours: EXPIRING_SOON_HOURS, count: expiringSoon.length })}
+          {requestedCount > 0 && (
+            <span className="ms-2 text-xs font-semibold text-amber-800 bg-amber-100 rounded-full px-2 py-0.5">
+              {t('orders.expiringLinks.requests', { count: requestedCount })}
+            </span>
+          )}
+        </span>
+        <span className="text-sm text-indigo-700">{isOpen ? t('orders.expiringLinks.hide') : t('orders.expiringLinks.show')}</span>
+      </button>
+
+      {error && (
+        <p className="text-sm text-red-600 mt-3" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isOpen && overview && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex gap-1" role="tablist">
+              {tabButton('expiringSoon', t('orders.expiringLinks.expiringSoonTab'), expiringSoon.length)}
+              {tabButton('expired', t('orders.expiringLinks.expiredTab'), expired.length)}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="expiring-links-hours" className="text-sm text-gray-600">
+                {t('orders.expiringLinks.extendBy')}
+              </label>
+              <select
+                id="expiring-links-hours"
+                value={hours}
+                onChange={(e) => setHours(Number(e.target.value))}
+                className="glass-select px-2 py-1.5 rounded-lg text-sm text-gray-800 cursor-pointer"
+              >
+                {ORDER_LINK_LIFETIME_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {formatLinkLifetime(option)}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => handleExtend(selectedInTab.map((order) => order.id))}
+                disabled={selectedInTab.length === 0 || savingIds.size > 0}
+                className="px-3 py-1.5 rounded-lg text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {t(tab === 'expired' ? 'orders.expiringLinks.reopenSelected' : 'orders.expiringLinks.extendSelected', {
+                  count: selectedInTab.length,
+                })}
+              </button>
+            </div>
+          </div>
+
+          {list.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {tab === 'expiringSoon'
+                ? t('orders.expiringLinks.noneExpiringSoon', { hours: EXPIRING_SOON_HOURS })
+                : t('orders.expiringLinks.noneExpired')}
+            </p>
+          ) : (
+            <>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleAll}
+                  className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>{t('orders.export.selectAll')}</span>
+              </label>
+              <ul className="divide-y divide-gray-200/70 max-h-80 overflow-y-auto">
+                {list.map((order) => (
+                  <li key={order.id} className="flex flex-wrap items-center gap-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(order.id)}
+                      onChange={() => toggleSelected(order.id)}
+                      aria-label={t('orders.selectOrder', { reference: order.referenceId })}
+                      className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => onView(order)}
+                      className="flex-1 min-w-[10rem] text-start text-sm hover:underline"
+                    >
+                      <span className="font-mono font-bold text-gray-800">#{order.referenceId}</span>
+                      <span className="text-gray-700"> · {order.customerName || t('orders.expiringLinks.noCustomer')}</span>
+                    </button>
+                    {order.linkExtensionRequestedAt && (
+                      <span className="text-xs font-semibold text-amber-800 bg-amber-100 rounded-full px-2 py-0.5">
+                        {t('orders.expiringLinks.requested')}
+                      </span>
+                    )}
+                    <span className="text-xs text-orange-700">
+                      {t(tab === 'expired' ? 'orders.expiringLinks.expiredAt' : 'orders.expiringLinks.expiresAt', {
+                        date: formatOrderDateShortWithTime(order.linkExpiresAt),
+                      })}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleExtend([order.id])}
+                      disabled={savingIds.has(order.id)}
+                      className="px-3 py-1 rounded-lg text-xs font-semibold glass-button text-gray-800 disabled:opacity-50"
+                    >
+                      {savingIds.has(order.id)
+                        ? t('orders.expiringLinks.saving')
+                        : tab === 'expired'
+                          ? t('orders.expiringLinks.reopen')
+                          : t('orders.expiringLinks.extend')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { getHighlightRanges } from '../utils/hebrewSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+/** Renders `text` with the parts matched by a search `query` wrapped in <mark>. */
+export default function HighlightedText({ text, query }: HighlightedTextProps) {
+  const ranges = query.trim() ? getHighlightRanges(text, query) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(
+      <mark key={index} className="search-highlight">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
@@ -4,6 +4,7 @@ import AccessibleModal from './AccessibleModal';
 import { invoiceAPI, type CreateInvoiceRequest, type CreateInvoiceResponse } from '../services/api';
 import { formatPrice } from '../utils/formatPrice';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { formatDate, getDir, t } from '../utils/i18n';
 import type { Order } from '../services/api';
 
 /** Must match backend InvoiceHelper: allocation required when net total is strictly above this (ILS). */
@@ -82,17 +83,17 @@ export default function InvoiceCreationModal({
       // Validate allocation number if required
       if (allocationRequired) {
         if (!allocationNumber.trim()) {
-          setError('מספר הקצאה הוא שדה חובה');
+          setError(t('invoice.error.allocationRequired'));
           setIsSubmitting(false);
           return;
         }
         if (allocationNumber.trim().length !== 9) {
-          setError('מספר הקצאה חייב להכיל 9 ספרות בדיוק');
+          setError(t('invoice.error.allocationLength'));
           setIsSubmitting(false);
           return;
         }
         if (!/^\d{9}$/.test(allocationNumber.trim())) {
-          setError('מספר הקצאה חייב להכיל ספרות בלבד');
+          setError(t('invoice.error.allocationDigits'));
           setIsSubmitting(false);
           return;
         }
@@ -102,12 +103,12 @@ export default function InvoiceCreationModal({
       let paymentProof = '';
       if (paymentMethod === 'CREDIT_CARD') {
         if (!creditCardLast4.trim() || creditCardLast4.trim().length !== 4) {
-          setError('יש להזין 4 ספרות אחרונות של כרטיס האשראי');
+          setError(t('invoice.error.cardLast4'));
           setIsSubmitting(false);
           return;
         }
         if (!/^\d{4}$/.test(creditCardLast4.trim())) {
-          setError('4 הספרות האחרונות חייבות להיות מספרים בלבד');
+          setError(t('invoice.error.cardDigits'));
           setIsSubmitting(false);
           return;
         }
@@ -142,10 +143,10 @@ export default function InvoiceCreationModal({
     <AccessibleModal
       isOpen={isOpen}
       onClose={onClose}
-      title="צור חשבונית"
-      description={`הזמנה #${order.id.slice(0, 8)}`}
+      title={t('invoice.title')}
+      description={t('invoice.orderNumber', { id: order.id.slice(0, 8) })}
       size="md"
-      dir="rtl"
+      dir={getDir()}
     >
       {error && (
         <div 
@@ -160,12 +161,12 @@ export default function InvoiceCreationModal({
         {/* Order Summary */}
         <div className="mb-6 glass-card rounded-xl p-4 border border-gray-200/50">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-sm text-gray-600">סה״כ הזמנה</span>
+            <span className="text-sm text-gray-600">{t('invoice.orderTotal')}</span>
             <span className="text-lg font-bold text-indigo-600">{formatPrice(order.totalPrice)}</span>
           </div>
           {allocationRequired && (
             <div className="mt-2 pt-2 border-t border-gray-200/50">
-              <p className="text-xs text-orange-600 font-medium">מספר הקצאה נדרש עבור הזמנה זו</p>
+              <p className="text-xs text-orange-600 font-medium">{t('invoice.allocationNeeded')}</p>
             </div>
           )}
         </div>
@@ -174,7 +175,7 @@ export default function InvoiceCreationModal({
           {/* Payment Method */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              אמצעי תשלום
+              {t('invoice.paymentMethod')}
             </label>
             <select
               value={paymentMethod}
@@ -184,34 +185,36 @@ export default function InvoiceCreationModal({
                 setError('');
               }}
               className="glass-select w-full pl-3 pr-10 py-2.5 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
-              dir="rtl"
               disabled={isSubmitting}
               required
             >
-              <option value="CASH">מזומן</option>
-              <option value="CREDIT_CARD">כרטיס אשראי</option>
+              <option value="CASH">{t('invoice.cash')}</option>
+              <option value="CREDIT_CARD">{t('invoice.creditCard')}</option>
             </select>
           </div>
 
           {/* Required Data for Tax Authority - Only shown when allocation is required */}
           {allocationRequired && (
             <div className="glass-card rounded-xl p-4 border border-gray-200/50">
-              <p className="text-sm font-bold text-gray-700 mb-2">נתונתים להנפקת מספר הקצאה</p>
+              <p className="text-sm font-bold text-gray-700 mb-2">{t('invoice.allocationData')}</p>
               <textarea
                 readOnly
                 value={(() => {
-                  const currentDate = new Date().toLocaleDateString('he-IL', {
+                  const currentDate = formatDate(new Date(), {
                     year: 'numeric',
                     month: '2-digit',
                     day: '2-digit'
                   });
                   const vatRate = (100 + order.vat) / 100;
-                  const priceWithoutVat = (order.totalPrice / vatRate).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-                  return `מספר אסמכתה: ${order.referenceId}\nמספר מזהה של לקוח: ${order.customerStateId || 'לא זמין'}\nתאריך: ${currentDate}\nסכום העסקה ללא מעמ: ${priceWithoutVat} ₪`;
+                  return [
+                    t('invoice.data.reference', { value: order.referenceId }),
+                    t('invoice.data.customerId', { value: order.customerStateId || t('invoice.data.notAvailable') }),
+                    t('invoice.data.date', { value: currentDate }),
+                    t('invoice.data.amountBeforeVat', { value: formatPrice(order.totalPrice / vatRate) }),
+                  ].join('\n');
                 })()}
                 className="w-full px-3 py-2 text-sm font-bold text-gray-700 bg-gray-50 border border-gray-200 rounded-lg font-mono resize-none focus:outline-none"
                 rows={4}
-                dir="rtl"
               />
             </div>
           )}
@@ -220,7 +223,7 @@ export default function InvoiceCreationModal({
           {paymentMethod === 'CREDIT_CARD' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                4 הספרות האחרונות של כרטיס האשראי
+                {t('invoice.cardLast4')}
               </label>
               <input
                 type="text"
@@ -237,7 +240,7 @@ export default function InvoiceCreationModal({
                 required
                 maxLength={4}
               />
-              <p className="text-xs text-gray-500 mt-1">הזן 4 ספרות בלבד</p>
+              <p className="text-xs text-gray-500 mt-1">{t('invoice.cardLast4Hint')}</p>
             </div>
           )}
 
@@ -245,7 +248,7 @@ export default function InvoiceCreationModal({
           <div>
             <div className="flex items-center gap-2 mb-2">
               <label className="block text-sm font-medium text-gray-700">
-                מספר הקצאה {allocationRequired && <span className="text-red-500">*</span>}
+                {t('invoice.allocationNumber')} {allocationRequired && <span className="text-red-500">*</span>}
               </label>
               <div ref={helpTooltipRef} className="relative">
                 <button
@@ -256,7 +259,7 @@ export default function InvoiceCreationModal({
                     setShowAllocationHelp(!showAllocationHelp);
                   }}
                   className="w-5 h-5 rounded-full bg-indigo-100 hover:bg-indigo-200 text-indigo-600 flex items-center justify-center text-xs font-bold transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1"
-                  aria-label="מידע נוסף על מספר הקצאה"
+                  aria-label={t('invoice.allocationHelp')}
                   aria-expanded={showAllocationHelp}
                 >
                   ?
@@ -264,16 +267,16 @@ export default function InvoiceCreationModal({
                 {showAllocationHelp && (
                   <>
                     {/* Bridge area to prevent gap */}
-                    <div className="absolute right-0 top-5 w-full h-2" />
+                    <div className="absolute start-0 top-5 w-full h-2" />
                     <div 
-                      className="absolute right-0 top-6 z-50 w-72 p-3 bg-white border border-gray-200 rounded-lg shadow-lg text-sm text-gray-700"
+                      className="absolute start-0 top-6 z-50 w-72 p-3 bg-white border border-gray-200 rounded-lg shadow-lg text-sm text-gray-700"
                       onClick={(e) => e.stopPropagation()}
                       onMouseDown={(e) => e.stopPropagation()}
                     >
                       {(() => (
                           <>
                             <p className="mb-2 text-gray-700">
-                              הזמנות עם סכום כולל מעל {formatPrice(ALLOCATION_NUMBER_TOTAL_THRESHOLD)} נדרשות למספר הקצאה.
+                              {t('invoice.allocationHelpText', { amount: formatPrice(ALLOCATION_NUMBER_TOTAL_THRESHOLD) })}
                             </p>
                             <a
                               href="https://www.youtube.com/watch?v=rQKsFJ9ug1g&t=139s"
@@ -282,7 +285,7 @@ export default function InvoiceCreationModal({
                               className="text-indigo-600 hover:text-indigo-800 underline"
                               onClick={(e) => e.stopPropagation()}
                             >
-                              קישור להסבר הנפקת מספר הקצאה
+                              {t('invoice.allocationHelpLink')}
                             </a>
                           </>
                         ))()}
@@ -299,7 +302,7 @@ export default function InvoiceCreationModal({
                 setAllocationNumber(value);
                 setError('');
               }}
-              placeholder={allocationRequired ? "הזן 9 ספרות" : ""}
+              placeholder={allocationRequired ? t('invoice.allocationPlaceholder') : ''}
               className={`glass-input w-full px-4 py-2.5 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
                 !allocationRequired ? 'bg-gray-100/50 cursor-not-allowed' : ''
               }`}
@@ -308,10 +311,10 @@ export default function InvoiceCreationModal({
               maxLength={9}
             />
             {!allocationRequired && (
-              <p className="text-xs text-gray-500 mt-1">מספר הקצאה לא נדרש עבור הזמנה זו</p>
+              <p className="text-xs text-gray-500 mt-1">{t('invoice.allocationNotNeeded')}</p>
             )}
             {allocationRequired && (
-              <p className="text-xs text-gray-500 mt-1">הזן 9 ספרות בדיוק</p>
+              <p className="text-xs text-gray-500 mt-1">{t('invoice.allocationHint')}</p>
             )}
           </div>
 
@@ -325,7 +328,7 @@ export default function InvoiceCreationModal({
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
-              <span>ביטול</span>
+              <span>{t('common.cancel')}</span>
             </button>
             <button
               type="submit"
@@ -335,14 +338,14 @@ export default function InvoiceCreationModal({
               {isSubmitting ? (
                 <>
                   <Spinner size="sm" />
-                  <span>יוצר...</span>
+                  <span>{t('invoice.creating')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
-                  <span>צור חשבונית</span>
+                  <span>{t('invoice.title')}</span>
                 </>
               )}
             </button>
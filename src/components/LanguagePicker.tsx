@@ -0,0 +1,27 @@
+import { LOCALES, setLocale, t } from '../utils/i18n';
+import type { Locale } from '../utils/i18n';
+import { useLocale } from '../hooks/useLocale';
+
+interface LanguagePickerProps {
+  className?: string;
+}
+
+/** UI language select; the choice is saved on this device. */
+export default function LanguagePicker({ className = '' }: LanguagePickerProps) {
+  const locale = useLocale();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      className={`glass-select rounded-lg py-1.5 pl-2 pr-9 cursor-pointer text-sm font-medium text-gray-800 ${className}`}
+      aria-label={t('language.label')}
+    >
+      {(Object.keys(LOCALES) as Locale[]).map((code) => (
+        <option key={code} value={code} lang={code}>
+          {LOCALES[code].nativeName}
+        </option>
+      ))}
+    </select>
+  );
+}
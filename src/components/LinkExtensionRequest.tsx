@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { publicAPI } from '../services/api';
+import { t } from '../utils/i18n';
+
+interface LinkExtensionRequestProps {
+  orderId: string;
+  /** Set when the customer already asked (on this or another device). */
+  requestedAt: string | null | undefined;
+}
+
+/** Expired order link: lets the customer ask the seller to extend it instead of asking for a new link. */
+export default function LinkExtensionRequest({ orderId, requestedAt }: LinkExtensionRequestProps) {
+  const [isSending, setIsSending] = useState(false);
+  const [isSent, setIsSent] = useState(!!requestedAt);
+  const [hasError, setHasError] = useState(false);
+
+  const handleRequest = async () => {
+    setIsSending(true);
+    setHasError(false);
+    try {
+      await publicAPI.orders.requestLinkExtension(orderId);
+      setIsSent(true);
+    } catch (err: unknown) {
+      console.error('Failed to request a link extension:', err);
+      setHasError(true);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (isSent) {
+    return (
+      <p className="mt-6 rounded-xl border border-green-200 bg-green-50 px-4 py-3 text-sm font-semibold text-green-800" role="status">
+        {t('store.linkExpiry.requested')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-6 space-y-2">
+      <button
+        type="button"
+        onClick={handleRequest}
+        disabled={isSending}
+        className="store-primary-bg px-6 py-3 rounded-xl font-semibold disabled:opacity-60"
+      >
+        {isSending ? t('store.linkExpiry.requesting') : t('store.linkExpiry.request')}
+      </button>
+      {hasError && (
+        <p className="text-sm text-red-700" role="alert">
+          {t('store.linkExpiry.requestError')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import type { PendingOrder } from '../utils/pendingOrders';
+import { formatPrice } from '../utils/formatPrice';
+import { t } from '../utils/i18n';
+import type { MessageKey } from '../utils/i18n';
+import { formatOrderDateShortWithTime } from '../utils/orderUtils';
+
+interface OfflineStoreBannerProps {
+  isOnline: boolean;
+  /** Set when the catalog on screen was served from the device cache. */
+  catalogCachedAt: string | null;
+  pendingOrders: PendingOrder[];
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const STATUS_TEXT: Record<PendingOrder['status'], MessageKey> = {
+  pending: 'store.pending.pending',
+  sending: 'store.pending.sending',
+  synced: 'store.pending.synced',
+  failed: 'store.pending.failed',
+  unconfirmed: 'store.pending.unconfirmed',
+};
+
+const STATUS_STYLE: Record<PendingOrder['status'], string> = {
+  pending: 'bg-amber-50 border-amber-300 text-amber-900',
+  sending: 'bg-blue-50 border-blue-300 text-blue-900',
+  synced: 'bg-green-50 border-green-300 text-green-900',
+  failed: 'bg-red-50 border-red-300 text-red-900',
+  unconfirmed: 'bg-orange-50 border-orange-300 text-orange-900',
+};
+
+/**
+ * Offline notice and the list of store orders queued on this device (pending sync / synced / failed /
+ * unconfirmed – sent without an answer, so the customer chooses between sending again and dropping it).
+ */
+export default function OfflineStoreBanner({
+  isOnline,
+  catalogCachedAt,
+  pendingOrders,
+  onRetry,
+  onDismiss,
+}: OfflineStoreBannerProps) {
+  if (isOnline && !catalogCachedAt && pendingOrders.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2" role="status" aria-live="polite">
+      {(!isOnline || catalogCachedAt) && (
+        <div className="rounded-xl border-2 border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900 flex items-start gap-2">
+          <span aria-hidden="true">📡</span>
+          <span>
+            {isOnline ? t('store.pending.serverUnreachable') : t('store.pending.offline')}
+            {catalogCachedAt &&
+              ` ${t('store.pending.cachedCatalog', { date: formatOrderDateShortWithTime(catalogCachedAt) })}`}
+            {` ${t('store.pending.keepOrdering')}`}
+          </span>
+        </div>
+      )}
+
+      {pendingOrders.map((order) => (
+        <div
+          key={order.id}
+          className={`rounded-xl border-2 px-4 py-3 text-sm flex flex-wrap items-center gap-x-3 gap-y-1 ${STATUS_STYLE[order.status]}`}
+        >
+          <span className="font-semibold">
+            {order.status === 'synced' ? '✅' : order.status === 'failed' || order.status === 'unconfirmed' ? '⚠️' : '⏳'}{' '}
+            {t(STATUS_TEXT[order.status])}
+          </span>
+          <span className="opacity-80">
+            {formatOrderDateShortWithTime(order.createdAt)} · {formatPrice(order.totalPrice)}
+          </span>
+          {order.status === 'failed' && order.error && <span className="w-full sm:w-auto">{order.error}</span>}
+          {order.status === 'unconfirmed' && (
+            <span className="w-full sm:w-auto">{t('store.pending.unconfirmedHint')}</span>
+          )}
+          <div className="flex gap-2 sm:ms-auto">
+            {(order.status === 'failed' || order.status === 'unconfirmed') && (
+              <button
+                type="button"
+                onClick={() => onRetry(order.id)}
+                className="px-3 py-1 rounded-lg bg-white/80 border border-current font-semibold hover:bg-white"
+              >
+                {order.status === 'failed' ? t('common.tryAgain') : t('store.pending.sendAgain')}
+              </button>
+            )}
+            {order.status !== 'pending' && order.status !== 'sending' && (
+              <button
+                type="button"
+                onClick={() => onDismiss(order.id)}
+                className="px-3 py-1 rounded-lg bg-white/80 border border-current font-semibold hover:bg-white"
+              >
+                {order.status === 'failed'
+                  ? t('store.queued.cancel')
+                  : order.status === 'unconfirmed'
+                  ? t('store.pending.remove')
+                  : t('store.pending.close')}
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from 'react';
+import Spinner from './Spinner';
+import type { InvoiceDto, Order, OrderActivityEvent } from '../services/api';
+import { formatPrice } from '../utils/formatPrice';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { t } from '../utils/i18n';
+import { formatOrderDateShortWithTime } from '../utils/orderUtils';
+import {
+  buildOrderTimeline,
+  getActorLabel,
+  type OrderLineChange,
+  type OrderTimelineTone,
+} from '../utils/orderActivity';
+
+interface OrderActivityTimelineProps {
+  order: Order;
+  /** Manager or agent endpoint. */
+  loadActivity: (orderId: string) => Promise<OrderActivityEvent[]>;
+  /** The order's invoices and credit notes, when the page loads them. */
+  invoices: InvoiceDto[];
+}
+
+const TONE_DOT: Record<OrderTimelineTone, string> = {
+  created: 'bg-gray-400',
+  status: 'bg-blue-500',
+  products: 'bg-indigo-500',
+  discount: 'bg-purple-500',
+  invoice: 'bg-green-500',
+  creditNote: 'bg-amber-500',
+};
+
+function describeLineChange(change: OrderLineChange): string {
+  if (change.change === 'added') {
+    return t('orderActivity.lineAdded', { quantity: change.toQuantity ?? 0, price: formatPrice(change.toPrice ?? 0) });
+  }
+  if (change.change === 'removed') return t('orderActivity.lineRemoved', { quantity: change.fromQuantity ?? 0 });
+  const parts: string[] = [];
+  if (change.fromQuantity !== change.toQuantity) {
+    parts.push(
+      t('orderActivity.quantityChange', {
+        change: t('orderActivity.change', { from: change.fromQuantity ?? 0, to: change.toQuantity ?? 0 }),
+      })
+    );
+  }
+  if (change.fromPrice !== change.toPrice) {
+    parts.push(
+      t('orderActivity.priceChange', {
+        change: t('orderActivity.change', {
+          from: formatPrice(change.fromPrice ?? 0),
+          to: formatPrice(change.toPrice ?? 0),
+        }),
+      })
+    );
+  }
+  return parts.join(' · ');
+}
+
+const LINE_CHANGE_COLORS: Record<OrderLineChange['change'], string> = {
+  added: 'text-green-700',
+  removed: 'text-red-600',
+  changed: 'text-gray-700',
+};
+
+/**
+ * Collapsible "order history" of OrderViewModal: status, product, discount and invoice events with who made each
+ * change. Loaded when first opened and again whenever the order changes while open.
+ */
+export default function OrderActivityTimeline({ order, loadActivity, invoices }: OrderActivityTimelineProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [events, setEvents] = useState<OrderActivityEvent[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    setError('');
+    loadActivity(order.id)
+      .then((result) => {
+        if (request === requestRef.current) setEvents(result);
+      })
+      .catch((err: unknown) => {
+        if (request === requestRef.current) setError(resolveApiErr(err, 'orderActivityLoad'));
+      })
+      .finally(() => {
+        if (request === requestRef.current) setIsLoading(false);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, order.id, order.updatedAt]);
+
+  const entries = events ? buildOrderTimeline(events, invoices) : [];
+
+  return (
+    <div className="mb-6">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between text-sm font-semibold text-gray-700 mb-3"
+      >
+        <span>{t('orderActivity.title')}</span>
+        <svg
+          className={`w-4 h-4 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="glass-card rounded-xl p-4">
+          {isLoading && !events ? (
+            <div className="py-4 flex justify-center">
+              <Spinner size="sm" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center">{t('orderActivity.empty')}</p>
+          ) : (
+            <ol className="relative border-s border-gray-200 ms-1.5 space-y-4">
+              {entries.map((entry) => (
+                <li key={entry.key} className="ps-4 relative">
+                  <span
+                    className={`absolute -start-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${TONE_DOT[entry.tone]}`}
+                    aria-hidden
+                  />
+                  <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+                    <p className="text-sm font-semibold text-gray-800">{entry.title}</p>
+                    <span className="text-xs text-gray-500 tabular-nums">{formatOrderDateShortWithTime(entry.at)}</span>
+                  </div>
+                  <p className="text-xs text-gray-600">{getActorLabel(entry.actor)}</p>
+                  {entry.detail && <p className="text-xs text-gray-700 mt-1">{entry.detail}</p>}
+                  {entry.lineChanges && entry.lineChanges.length > 0 && (
+                    <ul className="mt-1 space-y-0.5">
+                      {entry.lineChanges.map((change, index) => (
+                        <li key={index} className={`text-xs ${LINE_CHANGE_COLORS[change.change]}`}>
+                          <span className="font-medium">{change.name}</span> – {describeLineChange(change)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {entry.pdfUrl && (
+                    <button
+                      type="button"
+                      onClick={() => window.open(entry.pdfUrl, '_blank', 'noopener,noreferrer')}
+                      className="mt-1 text-xs font-semibold text-indigo-700 hover:underline"
+                    >
+                      {t('orderActivity.openPdf')}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { publicAPI } from '../services/api';
+import type { OrderConfirmation, StoreBusinessInfo } from '../services/api';
+import { t } from '../utils/i18n';
+import {
+  buildOrderConfirmationHtml,
+  downloadOrderConfirmation,
+  getOrderConfirmationFileName,
+} from '../utils/orderConfirmation';
+
+interface OrderConfirmationViewProps {
+  orderId: string;
+  /** Store header (name and logo) for the document. */
+  business: StoreBusinessInfo | null;
+}
+
+/** The printable confirmation of a placed order, with print and download buttons (see utils/orderConfirmation). */
+export default function OrderConfirmationView({ orderId, business }: OrderConfirmationViewProps) {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [confirmation, setConfirmation] = useState<OrderConfirmation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setHasError(false);
+    publicAPI.orders
+      .getConfirmation(orderId)
+      .then((data) => {
+        if (!cancelled) setConfirmation(data);
+      })
+      .catch((err: unknown) => {
+        console.error('Failed to load order confirmation:', err);
+        if (!cancelled) setHasError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  const html = useMemo(
+    () => (confirmation ? buildOrderConfirmationHtml(confirmation, business) : ''),
+    [confirmation, business]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-600" role="status">
+        <span className="animate-spin h-5 w-5 border-2 border-purple-500 border-t-transparent rounded-full" />
+        {t('store.confirmation.loading')}
+      </div>
+    );
+  }
+
+  if (hasError || !confirmation) {
+    return (
+      <p className="py-4 text-sm text-red-700" role="alert">
+        {t('store.confirmation.loadError')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap justify-center gap-2">
+        <button
+          type="button"
+          onClick={() => frameRef.current?.contentWindow?.print()}
+          className="store-primary-bg px-5 py-2.5 rounded-xl font-semibold"
+        >
+          🖨️ {t('store.confirmation.print')}
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadOrderConfirmation(html, getOrderConfirmationFileName(confirmation))}
+          className="glass-button px-5 py-2.5 rounded-xl font-semibold text-gray-800"
+        >
+          ⬇️ {t('store.confirmation.download')}
+        </button>
+      </div>
+      <iframe
+        ref={frameRef}
+        srcDoc={html}
+        title={t('store.confirmation.title', { reference: confirmation.referenceId })}
+        className="w-full h-[60vh] rounded-xl border border-gray-200 bg-white"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from 'react';
+import AccessibleModal from './AccessibleModal';
+import type { Order, PageResponse } from '../services/api';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t, type MessageKey } from '../utils/i18n';
+import { downloadBlob } from '../utils/spreadsheet';
+import {
+  DEFAULT_ORDER_EXPORT_COLUMN_IDS,
+  buildOrderExportFile,
+  buildOrderExportRows,
+  fetchAllOrdersForExport,
+  getExportColumns,
+  getOrderExportFileName,
+  type OrderExportFormat,
+  type OrderExportGranularity,
+} from '../utils/orderExport';
+
+interface OrderExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** One page of the orders, with the page's active filters applied. */
+  fetchPage: (page: number, pageSize: number) => Promise<PageResponse<Order>>;
+  /** Agent id → display name, for the agent column. */
+  agentNames: Map<string, string>;
+}
+
+const FORMAT_LABELS: Record<OrderExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+};
+
+const GRANULARITY_LABELS: Record<OrderExportGranularity, MessageKey> = {
+  order: 'orders.export.rowPerOrder',
+  line: 'orders.export.rowPerLine',
+};
+
+/**
+ * Exports every order matching the page's filters to CSV or XLSX: format, one row per order or per order line, and
+ * the columns to include. Orders are loaded page by page with a progress bar; cancelling stops before the next page.
+ */
+export default function OrderExportModal({ isOpen, onClose, fetchPage, agentNames }: OrderExportModalProps) {
+  const [format, setFormat] = useState<OrderExportFormat>('xlsx');
+  const [granularity, setGranularity] = useState<OrderExportGranularity>('order');
+  const [columnIds, setColumnIds] = useState<Set<string>>(() => new Set(DEFAULT_ORDER_EXPORT_COLUMN_IDS));
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+  const cancelledRef = useRef(false);
+
+  // Closing the dialog cancels a running export
+  useEffect(() => {
+    if (!isOpen) {
+      cancelledRef.current = true;
+      setError('');
+      setProgress(null);
+    }
+  }, [isOpen]);
+
+  const columns = getExportColumns(granularity);
+  const selectedCount = columns.filter((column) => columnIds.has(column.id)).length;
+
+  const toggleColumn = (id: string) => {
+    setColumnIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    cancelledRef.current = false;
+    setIsExporting(true);
+    setError('');
+    setProgress({ loaded: 0, total: 0 });
+    try {
+      const orders = await fetchAllOrdersForExport(
+        fetchPage,
+        (loaded, total) => setProgress({ loaded, total }),
+        () => cancelledRef.current
+      );
+      if (!orders) return;
+      const rows = buildOrderExportRows(orders, [...columnIds], granularity, { agentNames });
+      downloadBlob(buildOrderExportFile(rows, format), getOrderExportFileName(format));
+      onClose();
+    } catch (err: unknown) {
+      console.error('Error exporting orders:', err);
+      setError(resolveApiErr(err, 'ordersLoad'));
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <AccessibleModal isOpen={isOpen} onClose={onClose} title={t('orders.export.title')} size="lg" dir={getDir()}>
+      <div className="space-y-5">
+        <p className="text-sm text-gray-600">{t('orders.export.intro')}</p>
+
+        <fieldset disabled={isExporting} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <span className="block text-sm font-semibold text-gray-700 mb-2">{t('orders.export.format')}</span>
+            <div className="space-y-1">
+              {(Object.keys(FORMAT_LABELS) as OrderExportFormat[]).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm text-gray-800 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="order-export-format"
+                    checked={format === option}
+                    onChange={() => setFormat(option)}
+                    className="accent-indigo-600"
+                  />
+                  {FORMAT_LABELS[option]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <span className="block text-sm font-semibold text-gray-700 mb-2">{t('orders.export.rows')}</span>
+            <div className="space-y-1">
+              {(Object.keys(GRANULARITY_LABELS) as OrderExportGranularity[]).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm text-gray-800 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="order-export-granularity"
+                    checked={granularity === option}
+                    onChange={() => setGranularity(option)}
+                    className="accent-indigo-600"
+                  />
+                  {t(GRANULARITY_LABELS[option])}
+                </label>
+              ))}
+            </div>
+          </div>
+        </fieldset>
+
+        <fieldset disabled={isExporting}>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-semibold text-gray-700">
+              {t('orders.export.columns', { count: selectedCount })}
+            </span>
+            <div className="flex gap-3 text-xs font-semibold">
+              <button
+                type="button"
+                onClick={() => setColumnIds(new Set(columns.map((column) => column.id)))}
+                className="text-indigo-700 hover:underline"
+              >
+                {t('orders.export.selectAll')}
+              </button>
+              <button
+                type="button"
+                onClick={() => setColumnIds(new Set(DEFAULT_ORDER_EXPORT_COLUMN_IDS))}
+                className="text-gray-600 hover:underline"
+              >
+                {t('orders.export.defaults')}
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 max-h-60 overflow-y-auto rounded-xl border border-gray-200 bg-white/60 p-3">
+            {columns.map((column) => (
+              <label key={column.id} className="flex items-center gap-2 text-sm text-gray-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={columnIds.has(column.id)}
+                  onChange={() => toggleColumn(column.id)}
+                  className="accent-indigo-600"
+                />
+                {t(column.labelKey)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {progress && (
+          <div role="status" aria-live="polite">
+            <div className="flex justify-between text-sm text-gray-700 mb-1">
+              <span>{t('orders.export.loading')}</span>
+              <span dir="ltr">
+                {progress.loaded} / {progress.total || '…'}
+              </span>
+            </div>
+            <div
+              className="h-2 rounded-full bg-gray-200 overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={percent}
+            >
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-start gap-3">
+          {isExporting ? (
+            <button type="button" onClick={() => {
+                cancelledRef.current = true;
+              }} className="btn-cancel">
+              {t('orders.export.stop')}
+            </button>
+          ) : (
+            <>
+              <button type="button" onClick={handleExport} disabled={selectedCount === 0} className="btn-save-indigo">
+                {t('orders.export.export')}
+              </button>
+              <button type="button" onClick={onClose} className="btn-cancel">
+                {t('common.cancel')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </AccessibleModal>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { formatDateTime, t } from '../utils/i18n';
+import type { MessageKey } from '../utils/i18n';
+import { getLinkMsLeft, getLinkTimeLeft, isOrderLinkExpiringSoon } from '../utils/orderLinks';
+import type { LinkTimeLeftUnit } from '../utils/orderLinks';
+
+interface OrderLinkCountdownProps {
+  expiresAt: string;
+  /** Called once when the countdown reaches zero while the store is open. */
+  onExpired: () => void;
+}
+
+const TIME_LEFT_KEYS: Record<LinkTimeLeftUnit, MessageKey> = {
+  days: 'store.linkExpiry.daysLeft',
+  hours: 'store.linkExpiry.hoursLeft',
+  minutes: 'store.linkExpiry.minutesLeft',
+};
+
+const TICK_MS = 30 * 1000;
+
+/** Time left on the customer's order link; turns amber in the last 24 hours. */
+export default function OrderLinkCountdown({ expiresAt, onExpired }: OrderLinkCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const hasExpired = getLinkMsLeft(expiresAt, now) <= 0;
+  useEffect(() => {
+    if (hasExpired) onExpired();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasExpired]);
+
+  const timeLeft = getLinkTimeLeft(expiresAt, now);
+  if (!timeLeft) return null;
+  const isUrgent = isOrderLinkExpiringSoon(expiresAt, now);
+
+  return (
+    <div
+      className={`mb-6 rounded-xl border-2 px-4 py-3 text-sm flex flex-wrap items-center gap-x-2 gap-y-1 ${
+        isUrgent ? 'border-amber-300 bg-amber-50 text-amber-900' : 'border-blue-200 bg-blue-50/70 text-blue-900'
+      }`}
+      role="status"
+    >
+      <span aria-hidden="true">⏰</span>
+      <span className="font-semibold">{t(TIME_LEFT_KEYS[timeLeft.unit], { count: timeLeft.count })}</span>
+      <span className="opacity-80">
+        ({t('store.linkExpiry.until', { date: formatDateTime(expiresAt, { dateStyle: 'short', timeStyle: 'short' }) })})
+      </span>
+    </div>
+  );
+}
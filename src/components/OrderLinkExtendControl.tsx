@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import type { ExtendOrderLinksRequest, Order } from '../services/api';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { t } from '../utils/i18n';
+import { canExtendOrderLink, DEFAULT_ORDER_LINK_LIFETIME_HOURS, formatLinkLifetime, ORDER_LINK_LIFETIME_OPTIONS } from '../utils/orderLinks';
+import { formatOrderDateShortWithTime } from '../utils/orderUtils';
+
+interface OrderLinkExtendControlProps {
+  order: Order;
+  /** Manager or agent endpoint. */
+  extendLinks: (data: ExtendOrderLinksRequest) => Promise<Order[]>;
+  onExtended: (order: Order) => void;
+  /** Called with every failed request, e.g. to send the user to the login page on 401. */
+  onApiError?: (err: unknown) => void;
+}
+
+/** Extend an open order link, or reopen an expired one, from the order details. */
+export default function OrderLinkExtendControl({ order, extendLinks, onExtended, onApiError }: OrderLinkExtendControlProps) {
+  const [hours, setHours] = useState(DEFAULT_ORDER_LINK_LIFETIME_HOURS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!canExtendOrderLink(order)) return null;
+
+  const isExpired = order.status === 'EXPIRED';
+
+  const handleExtend = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const [updated] = await extendLinks({ orderIds: [order.id], hours });
+      if (updated) onExtended(updated);
+    } catch (err: unknown) {
+      setError(resolveApiErr(err, 'orderLinkExtend'));
+      onApiError?.(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="pt-2 mt-2 border-t border-gray-200/70 space-y-2">
+      {order.linkExtensionRequestedAt && (
+        <p className="text-xs font-semibold text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-2 py-1">
+          {t('orders.linkExtend.requested', { date: formatOrderDateShortWithTime(order.linkExtensionRequestedAt) })}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor={`link-extend-${order.id}`} className="text-sm text-gray-600">
+          {isExpired ? t('orders.linkExtend.reopenFor') : t('orders.expiringLinks.extendBy')}
+        </label>
+        <select
+          id={`link-extend-${order.id}`}
+          value={hours}
+          onChange={(e) => setHours(Number(e.target.value))}
+          className="glass-select px-2 py-1.5 rounded-lg text-sm text-gray-800 cursor-pointer"
+        >
+          {ORDER_LINK_LIFETIME_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {formatLinkLifetime(option)}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleExtend}
+          disabled={isSaving}
+          className="px-3 py-1.5 rounded-lg text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60"
+        >
+          {isSaving
+            ? t('orders.expiringLinks.saving')
+            : isExpired
+            ? t('orders.linkExtend.reopen')
+            : t('orders.linkExtend.extend')}
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
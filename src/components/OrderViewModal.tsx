@@ -1,9 +1,15 @@
 import { useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import type { InvoiceDto, Order } from '../services/api';
+import type { ExtendOrderLinksRequest, InvoiceDto, Order, OrderActivityEvent } from '../services/api';
 import Spinner from './Spinner';
 import { formatPrice, formatPriceNegative } from '../utils/formatPrice';
 import { getStatusLabel, getStatusColor, formatOrderDate, formatOrderDateShortWithTime } from '../utils/orderUtils';
+import { formatLineName } from '../utils/productVariants';
+import { getOrderFulfillmentMethod } from '../utils/delivery';
+import { formatPickupSlot } from '../utils/pickupSlots';
+import { getDir, t } from '../utils/i18n';
+import OrderLinkExtendControl from './OrderLinkExtendControl';
+import OrderActivityTimeline from './OrderActivityTimeline';
 
 export interface OrderViewModalActions {
   onCancel: () => void;
@@ -30,6 +36,11 @@ export interface OrderViewModalProps {
   openInOrdersLabel?: string;
   /** DONE orders: tax invoices + credit notes (e.g. manager orders page). */
   invoiceDocuments?: { loading: boolean; items: InvoiceDto[] } | null;
+  /** Open and expired links: extend / reopen the link from the details (manager or agent endpoint). */
+  extendLinks?: (data: ExtendOrderLinksRequest) => Promise<Order[]>;
+  onLinkExtended?: (order: Order) => void;
+  /** Order history (manager or agent endpoint); the timeline section is shown when set. */
+  loadActivity?: (orderId: string) => Promise<OrderActivityEvent[]>;
 }
 
 function sortInvoicesForDisplay(items: InvoiceDto[]): InvoiceDto[] {
@@ -42,8 +53,11 @@ export default function OrderViewModal({
   actions,
   children,
   onOpenInOrders,
-  openInOrdersLabel = 'פתח בהזמנות',
+  openInOrdersLabel = t('orderView.openInOrders'),
   invoiceDocuments = null,
+  extendLinks,
+  onLinkExtended,
+  loadActivity,
 }: OrderViewModalProps) {
   const mousedownOnBackdropRef = useRef(false);
   const credited = order.totalCreditedAmount ?? 0;
@@ -62,7 +76,7 @@ export default function OrderViewModal({
       className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
       role="dialog"
       aria-modal="true"
-      aria-label="פרטי הזמנה"
+      aria-label={t('orderView.title')}
       onMouseDown={(e) => {
         if (e.target === e.currentTarget) mousedownOnBackdropRef.current = true;
         else mousedownOnBackdropRef.current = false;
@@ -79,18 +93,18 @@ export default function OrderViewModal({
           e.stopPropagation();
           mousedownOnBackdropRef.current = false;
         }}
-        dir="rtl"
+        dir={getDir()}
       >
         <div className="flex items-center justify-between mb-6">
           <div>
-            <h2 className="text-lg font-bold text-gray-800">פרטי הזמנה</h2>
-            <p className="text-sm text-gray-600">מספר מזהה #{order.id}</p>
+            <h2 className="text-lg font-bold text-gray-800">{t('orderView.title')}</h2>
+            <p className="text-sm text-gray-600">{t('orderView.id', { id: order.id })}</p>
           </div>
           <button
             type="button"
             onClick={onClose}
             className="p-2 hover:bg-white/20 rounded-lg transition-colors"
-            aria-label="סגור"
+            aria-label={t('common.close')}
           >
             <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -108,101 +122,132 @@ export default function OrderViewModal({
 
         {/* Customer */}
         <div className="mb-6">
-          <h3 className="text-sm font-semibold text-gray-700 mb-3">פרטי לקוח</h3>
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.customer')}</h3>
           <div className="glass-card rounded-xl p-4 space-y-2">
             {order.customerName ? (
               <>
                 <div className="flex items-start justify-between gap-3">
-                  <span className="text-sm text-gray-600">שם</span>
-                  <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.customerName}</span>
+                  <span className="text-sm text-gray-600">{t('orderView.name')}</span>
+                  <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.customerName}</span>
                 </div>
                 {order.customerPhone && (
                   <div className="flex items-start justify-between gap-3">
-                    <span className="text-sm text-gray-600">טלפון</span>
-                    <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.customerPhone}</span>
+                    <span className="text-sm text-gray-600">{t('orderView.phone')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.customerPhone}</span>
                   </div>
                 )}
                 {order.customerEmail && (
                   <div className="flex items-start justify-between gap-3">
-                    <span className="text-sm text-gray-600">אימייל</span>
-                    <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.customerEmail}</span>
+                    <span className="text-sm text-gray-600">{t('orderView.email')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.customerEmail}</span>
                   </div>
                 )}
                 {order.customerStreetAddress && (
                   <div className="flex items-start justify-between gap-3">
-                    <span className="text-sm text-gray-600">כתובת</span>
-                    <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.customerStreetAddress}</span>
+                    <span className="text-sm text-gray-600">{t('orderView.address')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.customerStreetAddress}</span>
                   </div>
                 )}
                 {order.customerCity && (
                   <div className="flex items-start justify-between gap-3">
-                    <span className="text-sm text-gray-600">עיר</span>
-                    <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.customerCity}</span>
+                    <span className="text-sm text-gray-600">{t('orderView.city')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.customerCity}</span>
                   </div>
                 )}
               </>
             ) : (
-              <p className="text-sm text-gray-500 italic">אין פרטי לקוח עדיין</p>
+              <p className="text-sm text-gray-500 italic">{t('orderView.noCustomer')}</p>
             )}
           </div>
         </div>
 
-        {/* Pickup */}
+        {/* Pickup / Delivery */}
         <div className="mb-6">
-          <h3 className="text-sm font-semibold text-gray-700 mb-3">סניף</h3>
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">
+            {getOrderFulfillmentMethod(order) === 'DELIVERY' ? t('fulfillment.DELIVERY') : t('orderView.location')}
+          </h3>
           <div className="glass-card rounded-xl p-4 space-y-2">
-            {order.selectedLocation ? (
+            {getOrderFulfillmentMethod(order) === 'DELIVERY' ? (
+              order.deliveryAddress ? (
+                <>
+                  <div className="flex items-start justify-between gap-3">
+                    <span className="text-sm text-gray-600">{t('orderView.address')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.deliveryAddress.streetAddress}</span>
+                  </div>
+                  <div className="flex items-start justify-between gap-3">
+                    <span className="text-sm text-gray-600">{t('orderView.city')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.deliveryAddress.city}</span>
+                  </div>
+                  {order.deliveryAddress.instructions && (
+                    <div className="flex items-start justify-between gap-3">
+                      <span className="text-sm text-gray-600">{t('orderView.instructions')}</span>
+                      <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.deliveryAddress.instructions}</span>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-gray-500 italic">{t('orderView.noDeliveryAddress')}</p>
+              )
+            ) : order.selectedLocation ? (
               <>
                 {order.selectedLocation.name && (
                   <div className="flex items-start justify-between gap-3">
-                    <span className="text-sm text-gray-600">שם</span>
-                    <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.selectedLocation.name}</span>
+                    <span className="text-sm text-gray-600">{t('orderView.name')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.selectedLocation.name}</span>
                   </div>
                 )}
                 {order.selectedLocation.streetAddress && (
                   <div className="flex items-start justify-between gap-3">
-                    <span className="text-sm text-gray-600">כתובת</span>
-                    <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.selectedLocation.streetAddress}</span>
+                    <span className="text-sm text-gray-600">{t('orderView.address')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.selectedLocation.streetAddress}</span>
                   </div>
                 )}
                 {order.selectedLocation.city && (
                   <div className="flex items-start justify-between gap-3">
-                    <span className="text-sm text-gray-600">עיר</span>
-                    <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.selectedLocation.city}</span>
+                    <span className="text-sm text-gray-600">{t('orderView.city')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.selectedLocation.city}</span>
                   </div>
                 )}
                 {order.selectedLocation.phoneNumber && (
                   <div className="flex items-start justify-between gap-3">
-                    <span className="text-sm text-gray-600">טלפון</span>
-                    <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{order.selectedLocation.phoneNumber}</span>
+                    <span className="text-sm text-gray-600">{t('orderView.phone')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{order.selectedLocation.phoneNumber}</span>
+                  </div>
+                )}
+                {order.pickupSlot && (
+                  <div className="flex items-start justify-between gap-3">
+                    <span className="text-sm text-gray-600">{t('orderView.pickupSlot')}</span>
+                    <span className="text-sm font-medium text-gray-800 text-end break-words">{formatPickupSlot(order.pickupSlot)}</span>
                   </div>
                 )}
               </>
             ) : (
-              <p className="text-sm text-gray-500 italic">סניף לא נבחר עדיין</p>
+              <p className="text-sm text-gray-500 italic">{t('orderView.noLocation')}</p>
             )}
           </div>
         </div>
 
         {/* Products */}
         <div className="mb-6">
-          <h3 className="text-sm font-semibold text-gray-700 mb-3">מוצרים</h3>
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.products')}</h3>
           <div className="glass-card rounded-xl overflow-hidden">
             {order.products.length === 0 ? (
-              <p className="text-sm text-gray-500 italic p-4">אין מוצרים עדיין</p>
+              <p className="text-sm text-gray-500 italic p-4">{t('orderView.noProducts')}</p>
             ) : (
               <div className="divide-y divide-gray-200/50">
                 {order.products.map((product, index) => (
                   <div key={index} className="p-3 flex items-start justify-between gap-3 hover:bg-white/20 transition-colors">
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-gray-800 break-words break-all">{product.productName}</p>
-                      <p className="text-xs text-gray-600 break-words break-all">כמות: {product.quantity}</p>
+                      <p className="text-sm font-medium text-gray-800 break-words break-all">{formatLineName(product)}</p>
+                      <p className="text-xs text-gray-600 break-words break-all">{t('orderView.quantity', { quantity: product.quantity })}</p>
                     </div>
-                    <div className="text-left break-words break-all">
+                    <div className="text-end break-words break-all">
                       <p className="text-sm font-semibold text-gray-800 break-words break-all">
                         {formatPrice(product.pricePerUnit * product.quantity)}
                       </p>
-                      <p className="text-xs text-gray-600 break-words break-all">{formatPrice(product.pricePerUnit)} לכל יחידה</p>
+                      <p className="text-xs text-gray-600 break-words break-all">
+                        {t('orderView.perUnit', { price: formatPrice(product.pricePerUnit) })}
+                      </p>
                     </div>
                   </div>
                 ))}
@@ -213,23 +258,25 @@ export default function OrderViewModal({
 
         {/* Returned / Credited Products */}
         <div className="mb-6">
-          <h3 className="text-sm font-semibold text-gray-700 mb-3">מוצרים שזוכו</h3>
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.creditedProducts')}</h3>
           <div className="glass-card rounded-xl overflow-hidden">
             {(order.creditedProducts ?? []).length === 0 ? (
-              <p className="text-sm text-gray-500 italic p-4">אין מוצרים שזוכו עדיין</p>
+              <p className="text-sm text-gray-500 italic p-4">{t('orderView.noCreditedProducts')}</p>
             ) : (
               <div className="divide-y divide-gray-200/50">
                 {(order.creditedProducts ?? []).map((product, index) => (
                   <div key={`${product.productId}-${index}`} className="p-3 flex items-start justify-between gap-3 hover:bg-white/20 transition-colors">
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-gray-800 break-words break-all">{product.productName}</p>
-                      <p className="text-xs text-amber-700 break-words break-all">כמות שזוכה: {product.quantity}</p>
+                      <p className="text-sm font-medium text-gray-800 break-words break-all">{formatLineName(product)}</p>
+                      <p className="text-xs text-amber-700 break-words break-all">{t('orderView.creditedQuantity', { quantity: product.quantity })}</p>
                     </div>
-                    <div className="text-left break-words break-all">
+                    <div className="text-end break-words break-all">
                       <p className="text-sm font-semibold text-amber-800 break-words break-all">
                         {formatPrice(product.pricePerUnit * product.quantity)}
                       </p>
-                      <p className="text-xs text-gray-600 break-words break-all">{formatPrice(product.pricePerUnit)} לכל יחידה</p>
+                      <p className="text-xs text-gray-600 break-words break-all">
+                        {t('orderView.perUnit', { price: formatPrice(product.pricePerUnit) })}
+                      </p>
                     </div>
                   </div>
                 ))}
@@ -240,14 +287,14 @@ export default function OrderViewModal({
 
         {/* Summary */}
         <div className="mb-6">
-          <h3 className="text-sm font-semibold text-gray-700 mb-3">סיכום הזמנה</h3>
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.summary')}</h3>
           <div className="glass-card rounded-xl p-4 space-y-2">
             <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600">סה״כ פריטים</span>
+              <span className="text-sm text-gray-600">{t('orderView.totalItems')}</span>
               <span className="text-sm font-medium text-gray-800">{order.products.length}</span>
             </div>
             <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600">סה״כ כמות</span>
+              <span className="text-sm text-gray-600">{t('orderView.totalQuantity')}</span>
               <span className="text-sm font-medium text-gray-800">
                 {order.products.reduce((sum, p) => sum + p.quantity, 0)}
               </span>
@@ -258,7 +305,7 @@ export default function OrderViewModal({
               );
               return (
                 <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
-                  <span className="text-sm text-gray-600">מחיר</span>
+                  <span className="text-sm text-gray-600">{t('orderView.price')}</span>
                   <span className="text-sm font-medium text-gray-800">{formatPrice(productsTotal)}</span>
                 </div>
               );
@@ -272,23 +319,29 @@ export default function OrderViewModal({
                 : '0.0';
               return (
                 <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
-                  <span className="text-sm text-gray-600">הנחה</span>
-                  <span className="text-sm font-semibold text-red-600">
-                    {order.discount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}-₪ ({discountPercentage}%)
+                  <span className="text-sm text-gray-600">{t('orderView.discount')}</span>
+                  <span dir="ltr" className="text-sm font-semibold text-red-600">
+                    {formatPriceNegative(order.discount)} ({discountPercentage}%)
                   </span>
                 </div>
               );
             })()}
+            {(order.deliveryFee ?? 0) > 0 && (
+              <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
+                <span className="text-sm text-gray-600">{t('orderView.deliveryFee')}</span>
+                <span className="text-sm font-medium text-gray-800">{formatPrice(order.deliveryFee!)}</span>
+              </div>
+            )}
             {credited > 0 && (
               <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
-                <span className="text-sm text-gray-600">זיכויים</span>
+                <span className="text-sm text-gray-600">{t('orderView.credits')}</span>
                 <span dir="ltr" className="text-sm font-semibold text-amber-800 tabular-nums">
                   {formatPriceNegative(credited)}
                 </span>
               </div>
             )}
             <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
-              <span className="text-base font-semibold text-gray-800">מחיר כולל</span>
+              <span className="text-base font-semibold text-gray-800">{t('orderView.total')}</span>
               <span dir="ltr" className="text-lg font-bold text-indigo-600 tabular-nums">
                 {formatPrice(order.totalPrice)}
               </span>
@@ -298,45 +351,48 @@ export default function OrderViewModal({
 
         {/* Notes */}
         <div className="mb-6">
-          <h3 className="text-sm font-semibold text-gray-700 mb-3">הערות</h3>
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.notes')}</h3>
           <div className="glass-card rounded-xl p-4">
             {order.notes && order.notes.trim() ? (
               <p className="text-sm font-bold text-orange-600 whitespace-pre-wrap break-words">{order.notes}</p>
             ) : (
-              <p className="text-sm text-gray-500 italic">אין הערות</p>
+              <p className="text-sm text-gray-500 italic">{t('orderView.noNotes')}</p>
             )}
           </div>
         </div>
 
         {/* Dates */}
         <div className="mb-6">
-          <h3 className="text-sm font-semibold text-gray-700 mb-3">מידע נוסף</h3>
+          <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.moreInfo')}</h3>
           <div className="glass-card rounded-xl p-4 space-y-2">
             <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600">מספר אסמכתא</span>
+              <span className="text-sm text-gray-600">{t('orderView.reference')}</span>
               <span className="text-xs font-mono font-bold text-gray-800">{order.referenceId}</span>
             </div>
             <div className="pt-2 border-t border-gray-200/50 space-y-2">
               <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">נוצר ב:</span>
+                <span className="text-sm text-gray-600">{t('orderView.createdAt')}</span>
                 <span className="text-sm font-medium text-gray-600">{formatOrderDate(order.createdAt)}</span>
               </div>
               {order.placedAt && (
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">הוזמן ב:</span>
+                  <span className="text-sm text-gray-600">{t('orderView.placedAt')}</span>
                   <span className="text-sm font-medium text-blue-600">{formatOrderDate(order.placedAt)}</span>
                 </div>
               )}
               {order.doneAt && (
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">הושלם ב:</span>
+                  <span className="text-sm text-gray-600">{t('orderView.doneAt')}</span>
                   <span className="text-sm font-medium text-green-600">{formatOrderDate(order.doneAt)}</span>
                 </div>
               )}
               <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">פג תוקף ב:</span>
+                <span className="text-sm text-gray-600">{t('orderView.expiresAt')}</span>
                 <span className="text-sm font-medium text-orange-600">{formatOrderDate(order.linkExpiresAt)}</span>
               </div>
+              {extendLinks && onLinkExtended && (
+                <OrderLinkExtendControl order={order} extendLinks={extendLinks} onExtended={onLinkExtended} />
+              )}
             </div>
           </div>
         </div>
@@ -344,14 +400,14 @@ export default function OrderViewModal({
         {/* Invoices & credit notes (manager / DONE) */}
         {invoiceDocuments != null && order.status === 'DONE' && (
           <div className="mb-6">
-            <h3 className="text-sm font-semibold text-gray-700 mb-3">חשבוניות ומסמכים</h3>
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.documents')}</h3>
             <div className="glass-card rounded-xl overflow-hidden">
               {invoiceDocuments.loading ? (
                 <div className="py-6 flex justify-center">
                   <Spinner size="sm" />
                 </div>
               ) : sortInvoicesForDisplay(invoiceDocuments.items).length === 0 ? (
-                <p className="px-4 py-3 text-sm text-gray-500 italic text-center">אין חשבוניות עדיין</p>
+                <p className="px-4 py-3 text-sm text-gray-500 italic text-center">{t('orderView.noDocuments')}</p>
               ) : (
                 <ul className="divide-y divide-gray-200/50">
                   {sortInvoicesForDisplay(invoiceDocuments.items).map((inv) => {
@@ -359,7 +415,7 @@ export default function OrderViewModal({
                     const badge = isCredit
                       ? 'bg-amber-100/80 text-amber-900'
                       : 'bg-indigo-100/80 text-indigo-900';
-                    const label = isCredit ? 'זיכוי' : 'חשבונית';
+                    const label = isCredit ? t('orderView.creditNote') : t('orderView.invoice');
                     return (
                       <li
                         key={inv.id}
@@ -387,15 +443,15 @@ export default function OrderViewModal({
                               type="button"
                               onClick={() => window.open(inv.pdfUrl, '_blank', 'noopener,noreferrer')}
                               className="p-1.5 rounded-lg text-gray-600 hover:bg-white/60 hover:text-indigo-700 transition-colors flex items-center justify-center"
-                              title="פתח PDF"
-                              aria-label="פתח PDF"
+                              title={t('orderView.openPdf')}
+                              aria-label={t('orderView.openPdf')}
                             >
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden>
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
                               </svg>
                             </button>
                           ) : (
-                            <span className="text-xs text-gray-400 tabular-nums flex items-center justify-center min-h-[28px]" title="אין PDF">
+                            <span className="text-xs text-gray-400 tabular-nums flex items-center justify-center min-h-[28px]" title={t('orderView.noPdf')}>
                               —
                             </span>
                           )}
@@ -409,6 +465,10 @@ export default function OrderViewModal({
           </div>
         )}
 
+        {loadActivity && (
+          <OrderActivityTimeline order={order} loadActivity={loadActivity} invoices={invoiceDocuments?.items ?? []} />
+        )}
+
         <div className="flex flex-wrap justify-center gap-3 items-center">
           {children !== undefined ? (
             children
@@ -423,7 +483,7 @@ export default function OrderViewModal({
                     actions.cancellingOrderId ? 'text-gray-400 border-gray-300 cursor-not-allowed' : 'text-red-600 border-red-600 bg-red-50 hover:shadow-lg'
                   }`}
                 >
-                  {actions.cancellingOrderId ? 'מבטל...' : 'בטל הזמנה'}
+                  {actions.cancellingOrderId ? t('orderView.cancelling') : t('orderView.cancel')}
                 </button>
               )}
               {order.status === 'PLACED' && (
@@ -436,7 +496,7 @@ export default function OrderViewModal({
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                     </svg>
-                    <span>ערוך הזמנה</span>
+                    <span>{t('orderView.edit')}</span>
                   </button>
                   <button
                     type="button"
@@ -446,7 +506,7 @@ export default function OrderViewModal({
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
-                    <span>הוסף הנחה</span>
+                    <span>{t('orderView.addDiscount')}</span>
                   </button>
                   {actions.onMarkDone && (
                     <button
@@ -457,12 +517,12 @@ export default function OrderViewModal({
                         actions.updatingOrderId ? 'text-gray-400 border-gray-300 cursor-not-allowed' : 'text-green-600 border-green-700 bg-green-50 hover:shadow-lg'
                       }`}
                     >
-                      {actions.updatingOrderId ? 'מסמן...' : (
+                      {actions.updatingOrderId ? t('orderView.marking') : (
                         <>
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                           </svg>
-                          <span>סמן כהושלם</span>
+                          <span>{t('orderView.markDone')}</span>
                         </>
                       )}
                     </button>
@@ -476,8 +536,8 @@ export default function OrderViewModal({
                   disabled={!!actions.createCreditNoteDisabled}
                   title={
                     actions.createCreditNoteDisabled
-                      ? 'טוען נתוני חשבונית…'
-                      : 'צור זיכוי מס'
+                      ? t('orderView.loadingInvoice')
+                      : t('orderView.createCreditNoteTitle')
                   }
                   className={`glass-button px-6 py-2 rounded-xl text-sm font-semibold transition-all flex items-center gap-2 border-2 ${
                     actions.createCreditNoteDisabled
@@ -495,7 +555,7 @@ export default function OrderViewModal({
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                     </svg>
                   )}
-                  <span>צור זיכוי</span>
+                  <span>{t('orderView.createCreditNote')}</span>
                 </button>
               )}
               <button
@@ -503,7 +563,7 @@ export default function OrderViewModal({
                 onClick={actions.onClose}
                 className="glass-button px-6 py-2 rounded-xl text-sm font-semibold text-gray-800 hover:shadow-md transition-all"
               >
-                סגור
+                {t('common.close')}
               </button>
             </>
           ) : (
@@ -522,7 +582,7 @@ export default function OrderViewModal({
                 onClick={onClose}
                 className="glass-button px-6 py-2 rounded-xl text-sm font-semibold text-gray-800 hover:shadow-md transition-all"
               >
-                סגור
+                {t('common.close')}
               </button>
             </>
           )}
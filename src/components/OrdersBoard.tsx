@@ -0,0 +1,409 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DragEvent, ReactNode } from 'react';
+import AccessibleModal from './AccessibleModal';
+import Spinner from './Spinner';
+import type { Order, PageResponse } from '../services/api';
+import { formatPrice } from '../utils/formatPrice';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
+import {
+  BOARD_COLUMNS,
+  BOARD_PAGE_SIZE,
+  canMoveOrder,
+  describeRejectedMove,
+  getOrderMoveTargets,
+  type BoardTransitions,
+} from '../utils/orderBoard';
+import {
+  formatOrderDateShortWithTime,
+  getCardStyles,
+  getLabelStyles,
+  getOrderCardDate,
+  getStatusLabel,
+  type OrderStatus,
+} from '../utils/orderUtils';
+
+interface OrdersBoardProps {
+  /** One page of a column; the page applies its agent / customer / branch filters and sort. */
+  fetchColumn: (status: OrderStatus, page: number, pageSize: number) => Promise<PageResponse<Order>>;
+  transitions: BoardTransitions;
+  /** Called with orders moved on the board, to update the list and the view modal. */
+  onOrdersUpdated: (orders: Order[]) => void;
+  onView: (order: Order) => void;
+  /** The order open in the view modal; changes made there (status, discount) are reflected on the board. */
+  activeOrder?: Order | null;
+}
+
+interface ColumnState {
+  orders: Order[];
+  /**
+   * How far into the column's server-side list the loaded pages reach. Orders moved out of the column shift the
+   * list up, so the offset goes down with them; orders moved in leave it as is – where they land in the sort is
+   * unknown, and a page that overlaps what is loaded only costs the duplicates it drops.
+   */
+  offset: number;
+  isLoaded: boolean;
+  total: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string;
+}
+
+const emptyColumn = (): ColumnState => ({
+  orders: [],
+  offset: 0,
+  isLoaded: false,
+  total: 0,
+  hasMore: true,
+  isLoading: false,
+  error: '',
+});
+
+const initialColumns = () =>
+  Object.fromEntries(BOARD_COLUMNS.map((status) => [status, emptyColumn()])) as Record<OrderStatus, ColumnState>;
+
+/**
+ * Kanban view of the orders: a column per status, each loading its pages only when scrolled into view. Cards are
+ * dragged between columns (or moved with the card's menu) to mark orders done or cancel them; cancelling asks
+ * for confirmation and illegal drops are refused with the reason. Remount (change `key`) when filters change.
+ */
+export default function OrdersBoard({ fetchColumn, transitions, onOrdersUpdated, onView, activeOrder }: OrdersBoardProps) {
+  const [columns, setColumns] = useState(initialColumns);
+  const [draggingOrder, setDraggingOrder] = useState<Order | null>(null);
+  const [overColumn, setOverColumn] = useState<OrderStatus | null>(null);
+  const [movingOrderId, setMovingOrderId] = useState<string | null>(null);
+  const [pendingCancel, setPendingCancel] = useState<Order | null>(null);
+  const [error, setError] = useState('');
+  const columnsRef = useRef(columns);
+  columnsRef.current = columns;
+  // Guards against a second fetch of the same column before the loading state has rendered.
+  const loadingRef = useRef(new Set<OrderStatus>());
+
+  const updateColumn = (status: OrderStatus, update: (column: ColumnState) => ColumnState) =>
+    setColumns((prev) => ({ ...prev, [status]: update(prev[status]) }));
+
+  const loadMore = async (status: OrderStatus) => {
+    const column = columnsRef.current[status];
+    if (loadingRef.current.has(status) || !column.hasMore) return;
+    loadingRef.current.add(status);
+    updateColumn(status, (c) => ({ ...c, isLoading: true, error: '' }));
+    try {
+      // The page holding the next unread order; orders before the offset on it are already on the board
+      const page = Math.floor(column.offset / BOARD_PAGE_SIZE);
+      const response = await fetchColumn(status, page, BOARD_PAGE_SIZE);
+      updateColumn(status, (c) => {
+        const known = new Set(c.orders.map((order) => order.id));
+        return {
+          ...c,
+          orders: [...c.orders, ...response.content.filter((order) => !known.has(order.id))],
+          // Less any orders moved out of the column while the page was loading
+          offset: page * BOARD_PAGE_SIZE + response.content.length - (column.offset - c.offset),
+          isLoaded: true,
+          total: response.totalElements,
+          hasMore: !response.last,
+          isLoading: false,
+        };
+      });
+    } catch (err: unknown) {
+      updateColumn(status, (c) => ({ ...c, isLoading: false, error: resolveApiErr(err, 'ordersLoad') }));
+    } finally {
+      loadingRef.current.delete(status);
+    }
+  };
+
+  /** Moves an order that changed status into its new column (in place when the status is unchanged). */
+  const placeOrder = (updated: Order) => {
+    setColumns((prev) => {
+      const next = { ...prev };
+      BOARD_COLUMNS.forEach((status) => {
+        const column = prev[status];
+        const had = column.orders.some((order) => order.id === updated.id);
+        if (status === updated.status) {
+          next[status] = had
+            ? { ...column, orders: column.orders.map((order) => (order.id === updated.id ? updated : order)) }
+            : { ...column, orders: [updated, ...column.orders], total: column.total + 1 };
+        } else if (had) {
+          next[status] = {
+            ...column,
+            orders: column.orders.filter((order) => order.id !== updated.id),
+            offset: Math.max(0, column.offset - 1),
+            total: Math.max(0, column.total - 1),
+          };
+        }
+      });
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    if (activeOrder) placeOrder(activeOrder);
+  }, [activeOrder]);
+
+  const moveOrder = async (order: Order, to: OrderStatus) => {
+    const transition = transitions[to];
+    if (!transition || !canMoveOrder(order, to, transitions)) {
+      setError(describeRejectedMove(order, to, transitions));
+      return;
+    }
+    setMovingOrderId(order.id);
+    setError('');
+    try {
+      const updated = await transition(order.id);
+      placeOrder(updated);
+      onOrdersUpdated([updated]);
+    } catch (err: unknown) {
+      setError(`#${order.referenceId}: ${resolveApiErr(err, to === 'DONE' ? 'orderMarkDone' : 'orderCancel')}`);
+    } finally {
+      setMovingOrderId(null);
+    }
+  };
+
+  const requestMove = (order: Order, to: OrderStatus) => {
+    if (to === 'CANCELLED') setPendingCancel(order);
+    else moveOrder(order, to);
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLElement>, order: Order) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', order.id);
+    setDraggingOrder(order);
+    setError('');
+  };
+
+  const handleDragEnd = () => {
+    setDraggingOrder(null);
+    setOverColumn(null);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLElement>, status: OrderStatus) => {
+    if (!draggingOrder) return;
+    setOverColumn(status);
+    // Only legal targets accept the drop; elsewhere the browser shows the "not allowed" cursor.
+    if (canMoveOrder(draggingOrder, status, transitions)) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    } else {
+      e.dataTransfer.dropEffect = 'none';
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLElement>, status: OrderStatus) => {
+    e.preventDefault();
+    const order = draggingOrder;
+    handleDragEnd();
+    if (order && order.status !== status) requestMove(order, status);
+  };
+
+  return (
+    <div>
+      {error && (
+        <p className="mb-3 rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700" role="alert">
+          {error}
+        </p>
+      )}
+      <div className="flex gap-3 overflow-x-auto pb-4 snap-x">
+        {BOARD_COLUMNS.map((status) => (
+          <BoardColumn
+            key={status}
+            status={status}
+            column={columns[status]}
+            onLoadMore={() => loadMore(status)}
+            dropState={
+              !draggingOrder || overColumn !== status || draggingOrder.status === status
+                ? null
+                : canMoveOrder(draggingOrder, status, transitions)
+                  ? { allowed: true }
+                  : { allowed: false, reason: describeRejectedMove(draggingOrder, status, transitions) }
+            }
+            onDragOver={(e) => handleDragOver(e, status)}
+            onDragLeave={() => setOverColumn((prev) => (prev === status ? null : prev))}
+            onDrop={(e) => handleDrop(e, status)}
+          >
+            {columns[status].orders.map((order) => (
+              <BoardCard
+                key={order.id}
+                order={order}
+                isMoving={movingOrderId === order.id}
+                moveTargets={getOrderMoveTargets(order, transitions)}
+                onView={() => onView(order)}
+                onMove={(to) => requestMove(order, to)}
+                onDragStart={(e) => handleDragStart(e, order)}
+                onDragEnd={handleDragEnd}
+              />
+            ))}
+          </BoardColumn>
+        ))}
+      </div>
+
+      <AccessibleModal
+        isOpen={pendingCancel !== null}
+        onClose={() => setPendingCancel(null)}
+        title={t('orders.cancel.title')}
+        size="sm"
+        dir={getDir()}
+      >
+        <p className="text-sm text-gray-600 mb-6 leading-relaxed font-medium">
+          {t('orders.board.cancelBody', { reference: pendingCancel?.referenceId ?? '' })}
+        </p>
+        <div className="flex justify-start gap-3">
+          <button
+            type="button"
+            onClick={() => setPendingCancel(null)}
+            className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all"
+          >
+            {t('orders.cancel.keep')}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              const order = pendingCancel;
+              setPendingCancel(null);
+              if (order) moveOrder(order, 'CANCELLED');
+            }}
+            className="glass-button px-4 py-2 rounded-xl text-sm font-semibold transition-all border text-red-600 border-red-600 bg-red-50 hover:shadow-lg"
+          >
+            {t('orders.cancel.confirm')}
+          </button>
+        </div>
+      </AccessibleModal>
+    </div>
+  );
+}
+
+interface BoardColumnProps {
+  status: OrderStatus;
+  column: ColumnState;
+  onLoadMore: () => void;
+  /** Set while a card is dragged over this column. */
+  dropState: { allowed: true } | { allowed: false; reason: string } | null;
+  onDragOver: (e: DragEvent<HTMLElement>) => void;
+  onDragLeave: () => void;
+  onDrop: (e: DragEvent<HTMLElement>) => void;
+  children: ReactNode;
+}
+
+function BoardColumn({ status, column, onLoadMore, dropState, onDragOver, onDragLeave, onDrop, children }: BoardColumnProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const labelStyles = getLabelStyles(status);
+  const loadMoreRef = useRef(onLoadMore);
+  loadMoreRef.current = onLoadMore;
+
+  // The next page loads when the bottom of the column scrolls into view – also the column's first load. A page
+  // of orders that are all on the board already adds no card, so a new offset re-checks the sentinel as well.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !column.hasMore || column.error) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      loadMoreRef.current();
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadMoreRef.current();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [column.hasMore, column.error, column.orders.length, column.offset]);
+
+  return (
+    <section
+      aria-label={getStatusLabel(status)}
+      onDragOver={onDragOver}
+      onDragLeave={onDragLeave}
+      onDrop={onDrop}
+      className={`snap-start flex-shrink-0 w-[260px] flex flex-col rounded-2xl border-2 transition-colors ${labelStyles.border} ${
+        dropState?.allowed ? 'ring-2 ring-indigo-400 bg-indigo-50/60' : dropState ? 'bg-gray-100/80 opacity-70' : 'bg-white/40'
+      }`}
+    >
+      <header className={`px-3 py-2 rounded-t-2xl ${labelStyles.bg} flex items-center justify-between`}>
+        <h2 className={`text-sm font-bold ${labelStyles.text}`}>{getStatusLabel(status)}</h2>
+        <span className={`text-xs font-semibold ${labelStyles.text}`}>{column.isLoaded ? column.total : '…'}</span>
+      </header>
+      {dropState && !dropState.allowed && (
+        <p className="px-3 py-2 text-xs font-semibold text-red-700 bg-red-50" role="status">
+          {dropState.reason}
+        </p>
+      )}
+      <div className="flex-1 min-h-[8rem] max-h-[70vh] overflow-y-auto p-2 space-y-2">
+        {children}
+        {column.isLoaded && column.orders.length === 0 && !column.isLoading && (
+          <p className="py-6 text-center text-xs text-gray-500">{t('orders.board.empty')}</p>
+        )}
+        {column.error && (
+          <div className="text-center text-xs text-red-600 space-y-1" role="alert">
+            <p>{column.error}</p>
+            <button type="button" onClick={onLoadMore} className="font-semibold text-indigo-700 hover:underline">
+              {t('common.tryAgain')}
+            </button>
+          </div>
+        )}
+        {column.isLoading && (
+          <div className="flex justify-center py-3">
+            <Spinner size="sm" />
+          </div>
+        )}
+        <div ref={sentinelRef} className="h-1" aria-hidden="true" />
+      </div>
+    </section>
+  );
+}
+
+interface BoardCardProps {
+  order: Order;
+  isMoving: boolean;
+  moveTargets: OrderStatus[];
+  onView: () => void;
+  onMove: (to: OrderStatus) => void;
+  onDragStart: (e: DragEvent<HTMLElement>) => void;
+  onDragEnd: () => void;
+}
+
+function BoardCard({ order, isMoving, moveTargets, onView, onMove, onDragStart, onDragEnd }: BoardCardProps) {
+  const cardStyles = getCardStyles(order.status);
+  const cardDate = getOrderCardDate(order);
+
+  return (
+    <article
+      draggable={!isMoving && moveTargets.length > 0}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      className={`${cardStyles.container} relative overflow-hidden rounded-xl p-3 text-sm ${
+        moveTargets.length > 0 ? 'cursor-grab active:cursor-grabbing' : ''
+      } ${isMoving ? 'opacity-50' : ''}`}
+    >
+      <div className={`absolute top-0 start-0 end-0 h-1 ${cardStyles.accent}`}></div>
+      <button type="button" onClick={onView} className="block w-full text-start">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-semibold text-gray-800 truncate">{order.customerName || t('orders.board.noCustomer')}</span>
+          <span className="text-xs font-mono text-gray-600">#{order.referenceId}</span>
+        </div>
+        <div className="mt-1 flex items-center justify-between gap-2 text-xs text-gray-600">
+          <span>{cardDate ? formatOrderDateShortWithTime(cardDate.date) : ''}</span>
+          <span dir="ltr" className="font-bold text-indigo-700">
+            {formatPrice(order.totalPrice)}
+          </span>
+        </div>
+      </button>
+      {moveTargets.length > 0 && (
+        <div className="mt-2 flex items-center gap-1.5">
+          {isMoving ? (
+            <Spinner size="sm" />
+          ) : (
+            <select
+              value=""
+              onChange={(e) => e.target.value && onMove(e.target.value as OrderStatus)}
+              aria-label={t('orders.board.moveOrder', { reference: order.referenceId })}
+              className="glass-select flex-1 px-2 py-1 rounded-lg text-xs text-gray-700 cursor-pointer"
+            >
+              <option value="">{t('orders.board.moveTo')}</option>
+              {moveTargets.map((status) => (
+                <option key={status} value={status}>
+                  {getStatusLabel(status)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </article>
+  );
+}
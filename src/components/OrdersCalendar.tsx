@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Spinner from './Spinner';
+import type { Order, OrderDateField, OrderDateRange, PageResponse } from '../services/api';
+import { formatPrice } from '../utils/formatPrice';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { formatDate, getDir, t } from '../utils/i18n';
+import { getStatusColor, getStatusLabel } from '../utils/orderUtils';
+import { toDateKey } from '../utils/pickupSlots';
+import {
+  CALENDAR_DATE_FIELDS,
+  CALENDAR_VIEWS,
+  fetchOrdersInRange,
+  formatCalendarTitle,
+  getCalendarDateFieldLabel,
+  getCalendarRange,
+  getCalendarViewLabel,
+  getDayTotal,
+  groupOrdersByDay,
+  shiftCalendarAnchor,
+  toOrderDateRange,
+  type CalendarView,
+} from '../utils/orderCalendar';
+
+interface OrdersCalendarProps {
+  /** One page of the orders in a date range; the page applies its own filters (agent, customer, status...). */
+  fetchOrders: (range: OrderDateRange, page: number, pageSize: number) => Promise<PageResponse<Order>>;
+  onView: (order: Order) => void;
+  /** The order open in the view modal; changes made there are reflected on the calendar. */
+  activeOrder?: Order | null;
+}
+
+/** Month cells list this many orders; the rest open in the day view. */
+const MONTH_CELL_LIMIT = 3;
+
+function formatTime(value: string): string {
+  const date = new Date(value);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Month / week / day calendar of the orders, placed by order date, completion date or link expiry. Each day shows
+ * its order count and total (cancelled orders excluded); clicking an order opens it. Remount (change `key`) when
+ * the page's filters change.
+ */
+export default function OrdersCalendar({ fetchOrders, onView, activeOrder }: OrdersCalendarProps) {
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [field, setField] = useState<OrderDateField>('placedAt');
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [truncated, setTruncated] = useState(false);
+  const [error, setError] = useState('');
+  const requestRef = useRef(0);
+
+  const range = useMemo(() => getCalendarRange(view, anchor), [view, anchor]);
+  const rangeKey = `${toDateKey(range.start)}|${toDateKey(range.end)}`;
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    setError('');
+    const dateRange = toOrderDateRange(field, range);
+    fetchOrdersInRange((page, pageSize) => fetchOrders(dateRange, page, pageSize))
+      .then((result) => {
+        if (request !== requestRef.current) return;
+        setOrders(result.orders);
+        setTruncated(result.truncated);
+      })
+      .catch((err: unknown) => {
+        if (request !== requestRef.current) return;
+        setOrders([]);
+        setError(resolveApiErr(err, 'ordersLoad'));
+      })
+      .finally(() => {
+        if (request === requestRef.current) setIsLoading(false);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rangeKey, field]);
+
+  useEffect(() => {
+    if (!activeOrder) return;
+    setOrders((prev) =>
+      prev.some((order) => order.id === activeOrder.id)
+        ? prev.map((order) => (order.id === activeOrder.id ? activeOrder : order))
+        : prev
+    );
+  }, [activeOrder]);
+
+  const byDay = useMemo(() => groupOrdersByDay(orders, field), [orders, field]);
+  const rangeOrders = useMemo(() => [...byDay.values()].flat(), [byDay]);
+  const todayKey = toDateKey(new Date());
+  const isRtl = getDir() === 'rtl';
+  const anchorDayOrders = byDay.get(toDateKey(anchor)) ?? [];
+
+  const openDay = (day: Date) => {
+    setView('day');
+    setAnchor(day);
+  };
+
+  const orderChip = (order: Order, compact: boolean) => {
+    const at = order[field];
+    return (
+      <button
+        key={order.id}
+        type="button"
+        onClick={() => onView(order)}
+        title={`${getStatusLabel(order.status)} · #${order.referenceId}${order.customerName ? ` · ${order.customerName}` : ''}`}
+        className={`w-full rounded-lg px-1.5 py-0.5 text-start text-xs font-semibold truncate hover:shadow-md transition-shadow ${getStatusColor(order.status)}`}
+      >
+        {at && <span dir="ltr">{formatTime(at)} </span>}
+        <span>#{order.referenceId}</span>
+        {!compact && order.customerName && <span className="font-normal"> · {order.customerName}</span>}
+        {!compact && (
+          <span dir="ltr" className="float-end font-bold">
+            {formatPrice(order.totalPrice)}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const dayTotals = (dayOrders: Order[]) =>
+    dayOrders.length > 0 && (
+      <span className="text-[11px] text-gray-600">
+        {dayOrders.length} ·{' '}
+        <span dir="ltr" className="font-semibold text-indigo-700">
+          {formatPrice(getDayTotal(dayOrders))}
+        </span>
+      </span>
+    );
+
+  return (
+    <div className="glass-card rounded-2xl p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setAnchor((prev) => shiftCalendarAnchor(view, prev, -1))}
+            className="glass-button px-3 py-1.5 rounded-lg text-sm font-semibold text-gray-800"
+            aria-label={t('orders.calendar.previous')}
+          >
+            {isRtl ? '→' : '←'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor(new Date())}
+            className="glass-button px-3 py-1.5 rounded-lg text-sm font-semibold text-gray-800"
+          >
+            {t('orders.calendar.today')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor((prev) => shiftCalendarAnchor(view, prev, 1))}
+            className="glass-button px-3 py-1.5 rounded-lg text-sm font-semibold text-gray-800"
+            aria-label={t('orders.calendar.next')}
+          >
+            {isRtl ? '←' : '→'}
+          </button>
+          <h2 className="text-lg font-bold text-gray-800 ms-2" aria-live="polite">
+            {formatCalendarTitle(view, anchor, range)}
+          </h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="orders-calendar-field" className="text-sm text-gray-600">
+            {t('orders.calendar.by')}
+          </label>
+          <select
+            id="orders-calendar-field"
+            value={field}
+            onChange={(e) => setField(e.target.value as OrderDateField)}
+            className="glass-select px-2 py-1.5 rounded-lg text-sm text-gray-800 cursor-pointer"
+          >
+            {CALENDAR_DATE_FIELDS.map((option) => (
+              <option key={option} value={option}>
+                {getCalendarDateFieldLabel(option)}
+              </option>
+            ))}
+          </select>
+          <div className="flex rounded-lg bg-white/40 p-1 gap-1" role="group" aria-label={t('orders.calendar.range')}>
+            {CALENDAR_VIEWS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                aria-pressed={view === option}
+                className={`px-3 py-1 rounded-md text-sm font-semibold transition-colors ${
+                  view === option ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-white/60'
+                }`}
+              >
+                {getCalendarViewLabel(option)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-gray-700" role="status">
+        {isLoading ? (
+          <Spinner size="sm" />
+        ) : (
+          <>
+            <span>
+              {t('orders.calendar.summary', { count: rangeOrders.length })}{' '}
+              <span dir="ltr" className="font-bold text-indigo-700">
+                {formatPrice(getDayTotal(rangeOrders))}
+              </span>
+            </span>
+            {truncated && <span className="text-amber-700">{t('orders.calendar.truncated')}</span>}
+          </>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-3 rounded-xl border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700" role="alert">
+          {error}
+        </p>
+      )}
+
+      {view === 'day' ? (
+        <div className="space-y-2">
+          {anchorDayOrders.length === 0 ? (
+            <p className="py-10 text-center text-sm text-gray-500">{t('orders.calendar.emptyDay')}</p>
+          ) : (
+            <>
+              <div className="flex justify-end">{dayTotals(anchorDayOrders)}</div>
+              {anchorDayOrders.map((order) => orderChip(order, false))}
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="grid grid-cols-7 gap-1 min-w-[640px]">
+            {range.days.slice(0, 7).map((day) => (
+              <div key={day.getDay()} className="px-1 py-1 text-center text-xs font-semibold text-gray-600">
+                {formatDate(day, { weekday: 'long' })}
+              </div>
+            ))}
+            {range.days.map((day) => {
+              const key = toDateKey(day);
+              const dayOrders = byDay.get(key) ?? [];
+              const isOtherMonth = view === 'month' && day.getMonth() !== anchor.getMonth();
+              const shown = view === 'month' ? dayOrders.slice(0, MONTH_CELL_LIMIT) : dayOrders;
+              return (
+                <div
+                  key={key}
+                  className={`rounded-xl border p-1.5 flex flex-col gap-1 ${view === 'month' ? 'min-h-[7rem]' : 'min-h-[16rem]'} ${
+                    key === todayKey ? 'border-indigo-400 bg-indigo-50/60' : 'border-gray-200/70 bg-white/50'
+                  } ${isOtherMonth ? 'opacity-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-1">
+                    <button
+                      type="button"
+                      onClick={() => openDay(day)}
+                      className="text-sm font-bold text-gray-800 hover:text-indigo-700"
+                      aria-label={formatCalendarTitle('day', day, getCalendarRange('day', day))}
+                    >
+                      {day.getDate()}
+                    </button>
+                    {dayTotals(dayOrders)}
+                  </div>
+                  {shown.map((order) => orderChip(order, true))}
+                  {dayOrders.length > shown.length && (
+                    <button
+                      type="button"
+                      onClick={() => openDay(day)}
+                      className="text-xs font-semibold text-indigo-700 hover:underline text-start"
+                    >
+                      {t('orders.calendar.more', { count: dayOrders.length - shown.length })}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { t } from '../utils/i18n';
+import type { MessageKey } from '../utils/i18n';
+
+export type OrdersViewMode = 'list' | 'board' | 'calendar';
+
+const VIEW_MODE_LABELS: Record<OrdersViewMode, MessageKey> = {
+  list: 'orders.viewMode.list',
+  board: 'orders.viewMode.board',
+  calendar: 'orders.viewMode.calendar',
+};
+
+interface OrdersViewModeToggleProps {
+  value: OrdersViewMode;
+  onChange: (mode: OrdersViewMode) => void;
+}
+
+/** List / board / calendar switch of OrdersPage and AgentOrdersPage (sits with the filters). */
+export default function OrdersViewModeToggle({ value, onChange }: OrdersViewModeToggleProps) {
+  return (
+    <div>
+      <span className="block text-xs font-medium text-gray-600 mb-1" id="orders-view-mode-label">
+        {t('orders.viewMode.label')}
+      </span>
+      <div className="glass-button flex rounded-xl p-1 gap-1" role="group" aria-labelledby="orders-view-mode-label">
+        {(Object.keys(VIEW_MODE_LABELS) as OrdersViewMode[]).map((mode) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onChange(mode)}
+            aria-pressed={value === mode}
+            className={`px-3 py-1 rounded-lg text-sm font-semibold transition-colors ${
+              value === mode ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-white/60'
+            }`}
+          >
+            {t(VIEW_MODE_LABELS[mode])}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import { t } from '../utils/i18n';
+
 interface PaginationBarProps {
   currentPage: number; // 0-based
   totalPages: number;
@@ -75,7 +77,7 @@ export default function PaginationBar({
           {/* Page Info - Above */}
           {fixed && (
             <div className="text-xs text-gray-600 font-medium">
-              דף
+              {t('list.page')}
             </div>
           )}
 
@@ -0,0 +1,304 @@
+import { useEffect, useState } from 'react';
+import AccessibleModal from './AccessibleModal';
+import Spinner from './Spinner';
+import { locationAPI, type Location } from '../services/api';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
+import {
+  getDayName,
+  NEW_PICKUP_TEMPLATE,
+  SLOT_LENGTH_OPTIONS,
+  formatPickupDate,
+  pickupSchedulingDraftFrom,
+  pickupSchedulingFromDraft,
+  toDateKey,
+  validatePickupSchedulingDraft,
+} from '../utils/pickupSlots';
+import type { PickupSchedulingDraft, PickupTemplateDraft } from '../utils/pickupSlots';
+
+interface PickupSchedulingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (updatedLocation: Location) => void;
+  location: Location;
+}
+
+/** Pickup slot templates of one location: weekly windows, slot length and capacity, lead time and blackout dates. */
+export default function PickupSchedulingModal({ isOpen, onClose, onSuccess, location }: PickupSchedulingModalProps) {
+  const [draft, setDraft] = useState<PickupSchedulingDraft>(() => pickupSchedulingDraftFrom(location.pickupScheduling));
+  const [blackoutInput, setBlackoutInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(pickupSchedulingDraftFrom(location.pickupScheduling));
+      setBlackoutInput('');
+      setError('');
+      setValidationError('');
+    }
+  }, [isOpen, location]);
+
+  if (!isOpen) return null;
+
+  const updateDraft = (patch: Partial<PickupSchedulingDraft>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+    setValidationError('');
+  };
+
+  const updateTemplate = (index: number, patch: Partial<PickupTemplateDraft>) => {
+    updateDraft({ templates: draft.templates.map((template, i) => (i === index ? { ...template, ...patch } : template)) });
+  };
+
+  const addTemplate = () => {
+    // Next day after the last window, so adding a week of windows is a few clicks
+    const last = draft.templates[draft.templates.length - 1];
+    const template = last ? { ...last, dayOfWeek: (last.dayOfWeek + 1) % 7 } : NEW_PICKUP_TEMPLATE;
+    updateDraft({ templates: [...draft.templates, template] });
+  };
+
+  const addBlackoutDate = () => {
+    if (!blackoutInput || draft.blackoutDates.includes(blackoutInput)) return;
+    updateDraft({ blackoutDates: [...draft.blackoutDates, blackoutInput].sort() });
+    setBlackoutInput('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const problem = validatePickupSchedulingDraft(draft);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const updatedLocation = await locationAPI.updatePickupScheduling(location.id, pickupSchedulingFromDraft(draft));
+      onSuccess(updatedLocation);
+      onClose();
+    } catch (err: unknown) {
+      setError(resolveApiErr(err, 'locationPickupSchedulingUpdate'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fieldClass =
+    'glass-input w-full px-2 py-2 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all';
+
+  return (
+    <AccessibleModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('pickupScheduling.title', { name: location.name })}
+      size="lg"
+      dir={getDir()}
+    >
+      {error && (
+        <div
+          role="alert"
+          className="mb-4 p-3 bg-red-50/80 border border-red-200/60 rounded-xl text-red-600 text-sm"
+          aria-live="assertive"
+        >
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(e) => updateDraft({ enabled: e.target.checked })}
+            className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>{t('pickupScheduling.enabled')}</span>
+        </label>
+
+        {draft.enabled && (
+          <>
+            <div>
+              <div className="flex items-center justify-between mb-1.5">
+                <span className="block text-xs font-medium text-gray-700">{t('pickupScheduling.windows')}</span>
+                <button
+                  type="button"
+                  onClick={addTemplate}
+                  className="text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+                >
+                  {t('pickupScheduling.addWindow')}
+                </button>
+              </div>
+              {draft.templates.length === 0 ? (
+                <p className="text-xs text-gray-500">{t('pickupScheduling.noWindows')}</p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="hidden sm:grid grid-cols-[1.2fr,1fr,1fr,1fr,0.8fr,auto] gap-2 text-[11px] text-gray-500 text-center">
+                    <span>{t('pickupScheduling.column.day')}</span>
+                    <span>{t('pickupScheduling.column.from')}</span>
+                    <span>{t('pickupScheduling.column.to')}</span>
+                    <span>{t('pickupScheduling.column.slotLength')}</span>
+                    <span>{t('pickupScheduling.column.capacity')}</span>
+                    <span className="w-7" />
+                  </div>
+                  {draft.templates.map((template, index) => (
+                    <div key={index} className="grid grid-cols-2 sm:grid-cols-[1.2fr,1fr,1fr,1fr,0.8fr,auto] gap-2 items-center">
+                      <select
+                        value={template.dayOfWeek}
+                        onChange={(e) => updateTemplate(index, { dayOfWeek: Number(e.target.value) })}
+                        className="glass-select w-full px-2 py-2 rounded-xl text-sm text-gray-800 cursor-pointer"
+                        aria-label={t('pickupScheduling.dayLabel', { number: index + 1 })}
+                      >
+                        {[0, 1, 2, 3, 4, 5, 6].map((day) => (
+                          <option key={day} value={day}>{getDayName(day)}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="time"
+                        value={template.startTime}
+                        onChange={(e) => updateTemplate(index, { startTime: e.target.value })}
+                        className={fieldClass}
+                        dir="ltr"
+                        aria-label={t('pickupScheduling.startLabel', { number: index + 1 })}
+                      />
+                      <input
+                        type="time"
+                        value={template.endTime}
+                        onChange={(e) => updateTemplate(index, { endTime: e.target.value })}
+                        className={fieldClass}
+                        dir="ltr"
+                        aria-label={t('pickupScheduling.endLabel', { number: index + 1 })}
+                      />
+                      <select
+                        value={template.slotMinutes}
+                        onChange={(e) => updateTemplate(index, { slotMinutes: Number(e.target.value) })}
+                        className="glass-select w-full px-2 py-2 rounded-xl text-sm text-gray-800 cursor-pointer"
+                        aria-label={t('pickupScheduling.slotLengthLabel', { number: index + 1 })}
+                      >
+                        {SLOT_LENGTH_OPTIONS.map((minutes) => (
+                          <option key={minutes} value={minutes}>{t('pickupScheduling.minutes', { minutes })}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={template.capacity}
+                        onChange={(e) => updateTemplate(index, { capacity: e.target.value.replace(/\D/g, '').slice(0, 4) })}
+                        className={fieldClass}
+                        dir="ltr"
+                        aria-label={t('pickupScheduling.capacityLabel', { number: index + 1 })}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updateDraft({ templates: draft.templates.filter((_, i) => i !== index) })}
+                        className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 transition-colors justify-self-center"
+                        title={t('pickupScheduling.removeWindow')}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="pickup-lead-time" className="block text-xs font-medium text-gray-700 mb-1.5">
+                  {t('pickupScheduling.leadTime')}
+                </label>
+                <input
+                  id="pickup-lead-time"
+                  type="text"
+                  inputMode="numeric"
+                  value={draft.leadTimeHours}
+                  onChange={(e) => updateDraft({ leadTimeHours: e.target.value.replace(/\D/g, '').slice(0, 3) })}
+                  className={fieldClass}
+                  dir="ltr"
+                />
+                <p className="text-[11px] text-gray-500 mt-1">{t('pickupScheduling.leadTimeHint')}</p>
+              </div>
+              <div>
+                <label htmlFor="pickup-booking-window" className="block text-xs font-medium text-gray-700 mb-1.5">
+                  {t('pickupScheduling.bookingWindow')}
+                </label>
+                <input
+                  id="pickup-booking-window"
+                  type="text"
+                  inputMode="numeric"
+                  value={draft.bookingWindowDays}
+                  onChange={(e) => updateDraft({ bookingWindowDays: e.target.value.replace(/\D/g, '').slice(0, 2) })}
+                  className={fieldClass}
+                  dir="ltr"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="pickup-blackout-date" className="block text-xs font-medium text-gray-700 mb-1.5">
+                {t('pickupScheduling.blackoutDates')}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="pickup-blackout-date"
+                  type="date"
+                  value={blackoutInput}
+                  min={toDateKey(new Date())}
+                  onChange={(e) => setBlackoutInput(e.target.value)}
+                  className={fieldClass}
+                  dir="ltr"
+                />
+                <button
+                  type="button"
+                  onClick={addBlackoutDate}
+                  disabled={!blackoutInput}
+                  className="glass-button px-4 rounded-xl text-sm font-semibold text-indigo-600 disabled:opacity-40"
+                >
+                  {t('common.add')}
+                </button>
+              </div>
+              {draft.blackoutDates.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {draft.blackoutDates.map((date) => (
+                    <span key={date} className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-gray-100 text-xs text-gray-700">
+                      {formatPickupDate(date)} <span dir="ltr" className="text-gray-500">({date})</span>
+                      <button
+                        type="button"
+                        onClick={() => updateDraft({ blackoutDates: draft.blackoutDates.filter((d) => d !== date) })}
+                        className="text-red-600 hover:text-red-800"
+                        aria-label={t('pickupScheduling.removeDate', { date })}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {validationError && <p className="text-red-500 text-xs">{validationError}</p>}
+
+        <div className="flex gap-3 pt-2">
+          <button type="button" onClick={onClose} disabled={isLoading} className="btn-cancel">
+            <span>{t('common.cancel')}</span>
+          </button>
+          <button type="submit" disabled={isLoading} className="btn-save-indigo">
+            {isLoading ? (
+              <>
+                <Spinner size="sm" />
+                <span>{t('common.saving')}</span>
+              </>
+            ) : (
+              <span>{t('common.save')}</span>
+            )}
+          </button>
+        </div>
+      </form>
+    </AccessibleModal>
+  );
+}
@@ -0,0 +1,123 @@
+import { formatPrice } from '../utils/formatPrice';
+import { t } from '../utils/i18n';
+import { MAX_PRICE_TIERS, describeTiers } from '../utils/priceTiers';
+import type { PriceTierDraft } from '../utils/priceTiers';
+
+interface PriceTiersEditorProps {
+  /** Prefix for input ids, so the add and edit modals never share ids. */
+  idPrefix: string;
+  tiers: PriceTierDraft[];
+  onChange: (tiers: PriceTierDraft[]) => void;
+  /** Product price as typed – the price of the first band (1 unit and up). */
+  basePrice: string;
+  error?: string;
+}
+
+/** Volume price rows ("from 10 units ₪11") edited next to price and minimum price. */
+export default function PriceTiersEditor({ idPrefix, tiers, onChange, basePrice, error }: PriceTiersEditorProps) {
+  const updateTier = (index: number, field: keyof PriceTierDraft, value: string) => {
+    let nextValue = value;
+    if (field === 'minQuantity') {
+      nextValue = value.replace(/[^0-9]/g, '').slice(0, 6);
+    } else {
+      const decimalIndex = nextValue.indexOf('.');
+      if (decimalIndex !== -1 && nextValue.length - decimalIndex - 1 > 2) {
+        nextValue = nextValue.substring(0, decimalIndex + 3); // Keep only 2 decimal places
+      }
+    }
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, [field]: nextValue } : tier)));
+  };
+
+  const addTier = () => {
+    if (tiers.length >= MAX_PRICE_TIERS) return;
+    onChange([...tiers, { minQuantity: '', price: '' }]);
+  };
+
+  const removeTier = (index: number) => {
+    onChange(tiers.filter((_, i) => i !== index));
+  };
+
+  // Preview only once every row has numbers in it
+  const isComplete =
+    basePrice !== '' && tiers.length > 0 && tiers.every((tier) => tier.minQuantity !== '' && tier.price !== '');
+  const preview = isComplete
+    ? describeTiers({
+        price: Number(basePrice),
+        priceTiers: tiers.map((tier) => ({ minQuantity: Number(tier.minQuantity), price: Number(tier.price) })),
+      })
+    : [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="block text-xs font-medium text-gray-700">
+          {t('priceTier.editor.title')} <span className="text-gray-500 text-xs">{t('common.optional')}</span>
+        </span>
+        <button
+          type="button"
+          onClick={addTier}
+          disabled={tiers.length >= MAX_PRICE_TIERS}
+          className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('priceTier.editor.add')}
+        </button>
+      </div>
+
+      {tiers.length > 0 && (
+        <div className="space-y-2">
+          {tiers.map((tier, index) => (
+            <div key={index} className="grid grid-cols-[1fr,1fr,auto] gap-2 items-center">
+              <div className="relative">
+                <span className="absolute start-3 top-2 text-gray-600 text-xs z-10">{t('priceTier.editor.from')}</span>
+                <input
+                  id={`${idPrefix}-tier-quantity-${index}`}
+                  type="text"
+                  inputMode="numeric"
+                  value={tier.minQuantity}
+                  onChange={(e) => updateTier(index, 'minQuantity', e.target.value)}
+                  className="glass-input w-full px-8 py-2 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all"
+                  dir="ltr"
+                  placeholder="10"
+                  aria-label={t('priceTier.editor.quantityLabel', { number: index + 1 })}
+                />
+                <span className="absolute end-3 top-2 text-gray-600 text-xs z-10">{t('priceTier.editor.units')}</span>
+              </div>
+              <div className="relative">
+                <span className="absolute start-3 top-2 text-gray-700 text-sm font-semibold z-10">₪</span>
+                <input
+                  id={`${idPrefix}-tier-price-${index}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={tier.price}
+                  onChange={(e) => updateTier(index, 'price', e.target.value)}
+                  className="glass-input w-full px-7 py-2 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all"
+                  dir="ltr"
+                  placeholder="0.00"
+                  aria-label={t('priceTier.editor.priceLabel', { number: index + 1 })}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeTier(index)}
+                className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                title={t('priceTier.editor.remove')}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+          {preview.length > 0 && (
+            <p className="text-xs text-gray-500 text-center">
+              {preview.map((row) => `${row.label}: ${formatPrice(row.price)}`).join(' · ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+    </div>
+  );
+}
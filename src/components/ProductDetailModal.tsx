@@ -1,8 +1,14 @@
 import { useState, useEffect, useRef } from 'react';
 import { useModalFocus } from '../hooks/useFocusManagement';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
-import type { ProductPublic, Category, Brand } from '../services/api';
+import type { ProductPublic, ProductVariant, Category, Brand, CartProductRule } from '../services/api';
 import { formatPrice } from '../utils/formatPrice';
+import { getDir, t } from '../utils/i18n';
+import { findVariantByOptions, getPriceRange, hasVariants, isOptionAvailable } from '../utils/productVariants';
+import { describeTiers, getLinePrice } from '../utils/priceTiers';
+import { describeProductRule, getQuantityStep, stepQuantity } from '../utils/cartRules';
+import { FEW_LEFT_QUANTITY, getAvailableQuantity } from '../utils/inventory';
+import HighlightedText from './HighlightedText';
 
 interface ProductDetailModalProps {
   product: ProductPublic | null;
@@ -11,11 +17,17 @@ interface ProductDetailModalProps {
   brands: Brand[];
   isOpen: boolean;
   onClose: () => void;
-  onAddToCart?: (product: ProductPublic, quantity: number) => void;
-  currentQuantity?: number;
+  onAddToCart?: (product: ProductPublic, quantity: number, variant?: ProductVariant | null) => void;
+  /** Quantity of the product (or of one of its variants) already in the cart. */
+  getCartQuantity?: (productId: string, variantId: string | null) => number;
   getPendingQuantity?: (productId: string) => number;
-  updateQuantity?: (productId: string, quantity: number) => void;
-  inCart?: boolean;
+  updateQuantity?: (productId: string, quantity: number, variantId?: string | null) => void;
+  /** Business cart rule of the product: +/- move by its pack size and stop at its maximum. */
+  quantityRule?: CartProductRule | null;
+  /** The business blocks ordering more than is in stock: a sold-out product or variant can't be added. */
+  blockUnavailable?: boolean;
+  /** Active store search; matches are highlighted in the name, description, category and brand. */
+  searchQuery?: string;
 }
 
 export default function ProductDetailModal({
@@ -26,13 +38,23 @@ export default function ProductDetailModal({
   isOpen,
   onClose,
   onAddToCart,
-  currentQuantity = 0,
+  getCartQuantity,
   getPendingQuantity,
   updateQuantity,
-  inCart = false,
+  quantityRule = null,
+  blockUnavailable = false,
+  searchQuery = '',
 }: ProductDetailModalProps) {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [quantityInput, setQuantityInput] = useState('1');
+  // Variant picker: axis name -> chosen value
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
+  const isVariantProduct = !!product && hasVariants(product);
+  const selectedVariant = product && isVariantProduct ? findVariantByOptions(product, selectedOptions) : undefined;
+  const selectedVariantId = selectedVariant?.id ?? null;
+  const currentQuantity =
+    product && getCartQuantity && (!isVariantProduct || selectedVariant) ? getCartQuantity(product.id, selectedVariantId) : 0;
+  const inCart = currentQuantity > 0;
   const isUpdatingCartRef = useRef(false);
   const { backdropProps, contentProps } = useModalBackdrop(onClose);
   const modalRef = useRef<HTMLDivElement>(null);
@@ -70,7 +92,13 @@ export default function ProductDetailModal({
   }, [isOpen]);
 
   useEffect(() => {
-    // Only sync from props when product changes (initial mount or product switch)
+    // New product: preselect the only variant, otherwise let the customer choose
+    const variants = product?.variants ?? [];
+    setSelectedOptions(variants.length === 1 ? { ...variants[0].options } : {});
+  }, [product?.id, product?.variants]);
+
+  useEffect(() => {
+    // Only sync from props when product (or chosen variant) changes
     if (product && !isUpdatingCartRef.current) {
       if (currentQuantity > 0) {
         // Product is in cart - use currentQuantity
@@ -84,7 +112,7 @@ export default function ProductDetailModal({
         setQuantityInput('1');
       }
     }
-  }, [product?.id, isOpen]); // Only run when product ID changes or modal opens
+  }, [product?.id, isOpen, selectedVariantId]); // Only run when product/variant changes or modal opens
 
   useEffect(() => {
     // Only sync from currentQuantity if it changed externally (not from our button click)
@@ -132,9 +160,10 @@ export default function ProductDetailModal({
     setCurrentImageIndex((prev) => (prev === productImages.length - 1 ? 0 : prev + 1));
   };
 
-  const handleQuantityChange = (delta: number) => {
-    const currentQty = parseInt(quantityInput, 10) || 1;
-    const newQty = Math.max(1, Math.min(1000, currentQty + delta));
+  const handleQuantityChange = (delta: 1 | -1) => {
+    const step = getQuantityStep(quantityRule);
+    const currentQty = parseInt(quantityInput, 10) || step;
+    const newQty = Math.max(step, Math.min(1000, stepQuantity(quantityRule, currentQty, delta)));
     setQuantityInput(newQty.toString());
     // Don't update cart - only update local state
   };
@@ -170,7 +199,31 @@ export default function ProductDetailModal({
     }
   };
 
+  const handleOptionClick = (axisName: string, value: string) => {
+    setSelectedOptions((prev) => {
+      if (prev[axisName] === value) {
+        const next = { ...prev };
+        delete next[axisName];
+        return next;
+      }
+      return { ...prev, [axisName]: value };
+    });
+  };
+
+  const missingAxis = isVariantProduct ? product.variantAxes?.find((axis) => !selectedOptions[axis.name]) : undefined;
+  // Stock of the chosen variant, or of all variants until one is chosen; null when stock is not tracked
+  const available = getAvailableQuantity(product, selectedVariant);
+  const isSoldOut = available != null && available <= 0;
+  const canAddToCart = (!isVariantProduct || !!selectedVariant) && !(blockUnavailable && isSoldOut);
+  const priceRange = getPriceRange(product);
+  // Unit price for the quantity typed, so crossing a volume tier shows right away
+  const linePrice = !isVariantProduct || selectedVariant
+    ? getLinePrice(product, selectedVariant, parseInt(quantityInput, 10) || 1)
+    : null;
+  const tierRows = selectedVariant?.price != null ? [] : describeTiers(product);
+
   const handleAddToCart = () => {
+    if (!canAddToCart) return;
     const qty = parseInt(quantityInput, 10) || 1;
     
     // Set flag to prevent useEffect from resetting the input
@@ -179,9 +232,9 @@ export default function ProductDetailModal({
     // If product is already in cart (currentQuantity > 0), SET the quantity
     // Otherwise, add it to cart with the specified quantity
     if (currentQuantity > 0 && updateQuantity) {
-      updateQuantity(product.id, qty);
+      updateQuantity(product.id, qty, selectedVariantId);
     } else if (onAddToCart) {
-      onAddToCart(product, qty);
+      onAddToCart(product, qty, selectedVariant ?? null);
     }
     
     // Reset flag after a short delay to allow cart to update
@@ -204,7 +257,7 @@ export default function ProductDetailModal({
       {/* Modal */}
       <div 
         className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none" 
-        dir="rtl"
+        dir={getDir()}
         role="dialog"
         aria-modal="true"
         aria-labelledby="product-modal-title"
@@ -222,11 +275,11 @@ export default function ProductDetailModal({
           <button
             ref={closeButtonRef}
             onClick={onClose}
-            className="absolute top-4 left-4 w-10 h-10 rounded-full bg-white/80 backdrop-blur-md hover:bg-white transition-all shadow-lg flex items-center justify-center z-10 border border-white/60 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
+            className="absolute top-4 end-4 w-10 h-10 rounded-full bg-white/80 backdrop-blur-md hover:bg-white transition-all shadow-lg flex items-center justify-center z-10 border border-white/60 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
             style={{
               boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
             }}
-            aria-label="סגור חלון"
+            aria-label={t('store.product.close')}
           >
             <svg className="w-5 h-5 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -258,7 +311,7 @@ export default function ProductDetailModal({
                           <button
                             onClick={handlePrevImage}
                             className="absolute right-3 top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-black/60 hover:bg-black/80 backdrop-blur-md text-white flex items-center justify-center transition-all shadow-lg"
-                            title="תמונה קודמת"
+                            title={t('store.product.previousImage')}
                           >
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -267,7 +320,7 @@ export default function ProductDetailModal({
                           <button
                             onClick={handleNextImage}
                             className="absolute left-3 top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-black/60 hover:bg-black/80 backdrop-blur-md text-white flex items-center justify-center transition-all shadow-lg"
-                            title="תמונה הבאה"
+                            title={t('store.product.nextImage')}
                           >
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
@@ -319,12 +372,12 @@ export default function ProductDetailModal({
                   <div className="flex flex-wrap gap-2">
                     {category && (
                       <span className="px-2.5 py-1 rounded-full text-xs font-semibold bg-purple-100/80 backdrop-blur-sm text-purple-700 border border-purple-200/50">
-                        {category.name}
+                        <HighlightedText text={category.name} query={searchQuery} />
                       </span>
                     )}
                     {brand && (
                       <span className="px-2.5 py-1 rounded-full text-xs font-semibold bg-indigo-100/80 backdrop-blur-sm text-indigo-700 border border-indigo-200/50">
-                        {brand.name}
+                        <HighlightedText text={brand.name} query={searchQuery} />
                       </span>
                     )}
                   </div>
@@ -332,31 +385,98 @@ export default function ProductDetailModal({
                   {/* Price */}
                   <div className="space-y-1">
                     <span className="text-3xl font-bold text-purple-600">
-                      {formatPrice(product.price)}
+                      {linePrice
+                        ? formatPrice(linePrice.unitPrice)
+                        : priceRange.min !== priceRange.max
+                        ? `${formatPrice(priceRange.min)} – ${formatPrice(priceRange.max)}`
+                        : formatPrice(priceRange.min)}
                     </span>
+                    {linePrice?.tier && (
+                      <span className="block text-xs font-semibold text-emerald-700">
+                        {t('store.cart.tierPrice', { quantity: linePrice.tier.minQuantity })}
+                      </span>
+                    )}
                   </div>
 
+                  {/* Volume Price Table */}
+                  {tierRows.length > 0 && (
+                    <div className="rounded-xl border border-emerald-200 bg-emerald-50/60 overflow-hidden">
+                      <p className="px-3 py-1.5 text-xs font-semibold text-emerald-800 border-b border-emerald-200">
+                        {t('store.product.volumePrices')}
+                      </p>
+                      <div className="grid grid-cols-2 text-sm">
+                        {tierRows.map((row) => {
+                          const isActive = (linePrice?.tier?.minQuantity ?? 1) === row.minQuantity;
+                          return (
+                            <div key={row.minQuantity} className={`contents ${isActive ? 'font-bold text-emerald-900' : 'text-gray-700'}`}>
+                              <span className={`px-3 py-1 ${isActive ? 'bg-emerald-100' : ''}`}>{t('store.product.units', { range: row.label })}</span>
+                              <span className={`px-3 py-1 text-end ${isActive ? 'bg-emerald-100' : ''}`}>{formatPrice(row.price)}</span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Product Name */}
                   <h2 id="product-modal-title" className="text-2xl md:text-3xl font-bold text-gray-900">
-                    {product.name}
+                    <HighlightedText text={product.name} query={searchQuery} />
                   </h2>
 
                   {/* Description */}
                   {product.description && (
-                    <div className="max-h-48 overflow-y-auto pl-1">
+                    <div className="max-h-48 overflow-y-auto pe-1">
                       <p className="text-sm text-gray-600 leading-relaxed whitespace-pre-line">
-                        {product.description}
+                        <HighlightedText text={product.description} query={searchQuery} />
                       </p>
                     </div>
                   )}
                 </div>
 
+                {/* Variant Picker */}
+                {isVariantProduct && (
+                  <div className="space-y-3 py-3">
+                    {(product.variantAxes ?? []).map((axis) => (
+                      <div key={axis.name} role="group" aria-label={axis.name}>
+                        <p className="text-xs font-semibold text-gray-700 mb-1.5">
+                          {axis.name}
+                          {selectedOptions[axis.name] && <span className="font-normal text-gray-500">: {selectedOptions[axis.name]}</span>}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {axis.values.map((value) => {
+                            const isSelected = selectedOptions[axis.name] === value;
+                            const isAvailable = isOptionAvailable(product, selectedOptions, axis.name, value);
+                            return (
+                              <button
+                                key={value}
+                                type="button"
+                                onClick={() => handleOptionClick(axis.name, value)}
+                                disabled={!isAvailable && !isSelected}
+                                aria-pressed={isSelected}
+                                className={`px-3 py-1.5 rounded-lg text-sm font-semibold border-2 transition-all ${
+                                  isSelected
+                                    ? 'border-purple-600 bg-purple-600 text-white shadow-md'
+                                    : isAvailable
+                                    ? 'border-gray-300 bg-white/80 text-gray-800 hover:border-purple-400'
+                                    : 'border-gray-200 bg-gray-100 text-gray-400 line-through cursor-not-allowed'
+                                }`}
+                              >
+                                {value}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Add to Cart Section */}
                 {onAddToCart && (
                   <div className="mt-0 space-y-2 pt-1 border-t border-gray-200/40">
                     <div className="flex items-center gap-3 flex-wrap sm:flex-nowrap">
                       <div className="flex items-center gap-2">
-                        <span className="text-xs font-semibold text-gray-700">כמות:</span>
+                        <span className="text-xs font-semibold text-gray-700">{t('store.product.quantity')}</span>
                         <div className="flex items-center glass-button rounded-lg overflow-hidden border border-gray-300">
                           <button
                             onClick={() => handleQuantityChange(-1)}
@@ -384,25 +504,45 @@ export default function ProductDetailModal({
                         </div>
                       </div>
                       {inCart && currentQuantity > 0 && (
-                        <div className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-green-100/80 backdrop-blur-sm border border-green-200/50 mr-auto">
+                        <div className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-green-100/80 backdrop-blur-sm border border-green-200/50 ms-auto">
                           <svg className="w-3.5 h-3.5 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                           </svg>
                           <span className="text-xs font-bold text-green-700 whitespace-nowrap">
-                            {currentQuantity} בעגלה
+                            {t('store.product.inCart', { count: currentQuantity })}
                           </span>
                         </div>
                       )}
                     </div>
+                    {describeProductRule(quantityRule) && (
+                      <p className="text-xs font-semibold text-amber-700">{describeProductRule(quantityRule)}</p>
+                    )}
+                    {isSoldOut ? (
+                      <p className="text-xs font-semibold text-red-700">{t('store.stock.outOfStock')}</p>
+                    ) : (
+                      available != null &&
+                      available <= FEW_LEFT_QUANTITY && (
+                        <p className="text-xs font-semibold text-amber-700">
+                          {t('store.stock.fewLeft', { count: available })}
+                        </p>
+                      )
+                    )}
 
                     <button
                       onClick={handleAddToCart}
-                      className="w-full bg-purple-600 text-white font-bold py-3 rounded-xl hover:bg-purple-700 hover:shadow-xl transition-all duration-200 shadow-lg flex items-center justify-center gap-2"
+                      disabled={!canAddToCart}
+                      className="w-full bg-purple-600 text-white font-bold py-3 rounded-xl hover:bg-purple-700 hover:shadow-xl transition-all duration-200 shadow-lg flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-purple-600"
                     >
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
                       </svg>
-                      <span>הוסף</span>
+                      <span>
+                        {missingAxis
+                          ? t('store.product.choose', { name: missingAxis.name })
+                          : blockUnavailable && isSoldOut
+                          ? t('store.stock.outOfStock')
+                          : t('store.product.add')}
+                      </span>
                     </button>
                   </div>
                 )}
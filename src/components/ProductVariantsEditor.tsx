@@ -0,0 +1,143 @@
+import { useMemo } from 'react';
+import {
+  MAX_VARIANT_AXES,
+  MAX_VARIANT_AXIS_NAME_LENGTH,
+  buildVariantCombinations,
+  getDraftAxes,
+  getOptionsKey,
+  getVariantLabel,
+} from '../utils/productVariants';
+import type { VariantsDraft } from '../utils/productVariants';
+import { t } from '../utils/i18n';
+
+interface ProductVariantsEditorProps {
+  /** Prefix for input ids, so the add and edit modals never share ids. */
+  idPrefix: string;
+  draft: VariantsDraft;
+  onChange: (draft: VariantsDraft) => void;
+  /** Product price as typed, shown as the placeholder of variant prices. */
+  basePrice: string;
+  error?: string;
+}
+
+/** Variant axes (e.g. מידה: S, M, L) and an optional price per generated combination. */
+export default function ProductVariantsEditor({ idPrefix, draft, onChange, basePrice, error }: ProductVariantsEditorProps) {
+  const axes = useMemo(() => getDraftAxes(draft), [draft]);
+  const combinations = useMemo(() => buildVariantCombinations(axes), [axes]);
+
+  const updateAxis = (index: number, patch: Partial<VariantsDraft['axes'][number]>) => {
+    onChange({ ...draft, axes: draft.axes.map((axis, i) => (i === index ? { ...axis, ...patch } : axis)) });
+  };
+
+  const addAxis = () => {
+    if (draft.axes.length >= MAX_VARIANT_AXES) return;
+    onChange({ ...draft, axes: [...draft.axes, { name: '', valuesText: '' }] });
+  };
+
+  const removeAxis = (index: number) => {
+    onChange({ ...draft, axes: draft.axes.filter((_, i) => i !== index) });
+  };
+
+  const updatePrice = (key: string, value: string) => {
+    let nextValue = value;
+    const decimalIndex = nextValue.indexOf('.');
+    if (decimalIndex !== -1 && nextValue.length - decimalIndex - 1 > 2) {
+      nextValue = nextValue.substring(0, decimalIndex + 3); // Keep only 2 decimal places
+    }
+    onChange({ ...draft, prices: { ...draft.prices, [key]: nextValue } });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="block text-xs font-medium text-gray-700">
+          {t('variant.editor.title')} <span className="text-gray-500 text-xs">{t('variant.editor.hint')}</span>
+        </span>
+        <button
+          type="button"
+          onClick={addAxis}
+          disabled={draft.axes.length >= MAX_VARIANT_AXES}
+          className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('variant.editor.addAxis')}
+        </button>
+      </div>
+
+      {draft.axes.length === 0 ? (
+        <p className="text-xs text-gray-500">{t('variant.editor.empty')}</p>
+      ) : (
+        <div className="space-y-2">
+          {draft.axes.map((axis, index) => (
+            <div key={index} className="grid grid-cols-[1fr,2fr,auto] gap-2 items-center">
+              <input
+                id={`${idPrefix}-variant-axis-${index}`}
+                type="text"
+                value={axis.name}
+                onChange={(e) => updateAxis(index, { name: e.target.value.slice(0, MAX_VARIANT_AXIS_NAME_LENGTH) })}
+                maxLength={MAX_VARIANT_AXIS_NAME_LENGTH}
+                className="glass-input w-full px-3 py-2 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all"
+                placeholder={t('variant.editor.axisPlaceholder')}
+                aria-label={t('variant.editor.axisLabel', { number: index + 1 })}
+              />
+              <input
+                id={`${idPrefix}-variant-values-${index}`}
+                type="text"
+                value={axis.valuesText}
+                onChange={(e) => updateAxis(index, { valuesText: e.target.value })}
+                className="glass-input w-full px-3 py-2 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all"
+                placeholder="S, M, L"
+                aria-label={t('variant.editor.valuesLabel', { number: index + 1 })}
+              />
+              <button
+                type="button"
+                onClick={() => removeAxis(index)}
+                className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 transition-colors"
+                title={t('variant.editor.removeAxis')}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+
+          {combinations.length > 0 && (
+            <div className="rounded-xl border border-gray-200 overflow-hidden">
+              <div className="px-3 py-1.5 bg-gray-50/80 text-xs text-gray-600 flex justify-between">
+                <span>{t('variant.editor.count', { count: combinations.length })}</span>
+                <span>{t('variant.editor.priceHeader')}</span>
+              </div>
+              <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                {combinations.map((combination) => {
+                  const key = getOptionsKey(combination.options, axes);
+                  const label = getVariantLabel(combination, axes);
+                  return (
+                    <div key={key} className="px-3 py-1.5 flex items-center justify-between gap-3">
+                      <span className="text-sm text-gray-800 truncate" title={label}>{label}</span>
+                      <div className="relative w-28 flex-shrink-0">
+                        <span className="absolute start-2 top-1.5 text-gray-700 text-xs font-semibold z-10">₪</span>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={draft.prices[key] ?? ''}
+                          onChange={(e) => updatePrice(key, e.target.value)}
+                          className="glass-input w-full px-6 py-1 rounded-lg text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all"
+                          dir="ltr"
+                          placeholder={basePrice || '0.00'}
+                          aria-label={t('variant.editor.priceLabel', { label })}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useMemo, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import AccessibleModal from './AccessibleModal';
+import type { CartRules, ProductPublic } from '../services/api';
+import { getProductRule } from '../utils/cartRules';
+import { getDir, t } from '../utils/i18n';
+import type { MessageKey } from '../utils/i18n';
+import { getVariantLabel, hasVariants } from '../utils/productVariants';
+import {
+  MAX_QUICK_ORDER_FILE_BYTES,
+  MAX_QUICK_ORDER_LINES,
+  getQuickOrderLines,
+  getQuickOrderRowStatus,
+  matchQuickOrderRow,
+  parseQuickOrder,
+  parseQuickOrderQuantity,
+} from '../utils/quickOrder';
+import type { QuickOrderRow, QuickOrderRowStatus } from '../utils/quickOrder';
+import { fitQuantityToRule } from '../utils/storeHistory';
+import type { ShelfLine } from '../utils/storeHistory';
+
+interface QuickOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  catalog: ProductPublic[];
+  cartRules: CartRules | null | undefined;
+  onAddLines: (lines: ShelfLine[]) => void;
+}
+
+const STATUS_LABELS: Record<QuickOrderRowStatus, MessageKey> = {
+  ready: 'store.quickOrder.status.ready',
+  chooseProduct: 'store.quickOrder.status.chooseProduct',
+  chooseVariant: 'store.quickOrder.status.chooseVariant',
+  notFound: 'store.quickOrder.status.notFound',
+  badQuantity: 'store.quickOrder.status.badQuantity',
+};
+
+/** Paste or upload `sku,quantity` / `name,quantity` lines, fix the rows that didn't match, add them to the cart. */
+export default function QuickOrderModal({ isOpen, onClose, catalog, cartRules, onAddLines }: QuickOrderModalProps) {
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<QuickOrderRow[] | null>(null);
+  const [error, setError] = useState('');
+
+  const lines = useMemo(() => (rows ? getQuickOrderLines(rows) : []), [rows]);
+  const readyCount = rows ? rows.filter((row) => getQuickOrderRowStatus(row) === 'ready').length : 0;
+
+  const handleClose = () => {
+    setText('');
+    setRows(null);
+    setError('');
+    onClose();
+  };
+
+  const matchText = (source: string) => {
+    let parsed: QuickOrderRow[];
+    try {
+      parsed = parseQuickOrder(source, catalog);
+    } catch {
+      setError(t('store.quickOrder.tooManyLines', { max: MAX_QUICK_ORDER_LINES }));
+      return;
+    }
+    if (parsed.length === 0) {
+      setError(t('store.quickOrder.empty'));
+      return;
+    }
+    setError('');
+    setRows(parsed);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_QUICK_ORDER_FILE_BYTES) {
+      setError(t('store.quickOrder.fileTooLarge'));
+      return;
+    }
+    try {
+      const content = await file.text();
+      setText(content);
+      matchText(content);
+    } catch {
+      setError(t('store.quickOrder.fileError'));
+    }
+  };
+
+  const updateRow = (lineNumber: number, changes: Partial<QuickOrderRow>) => {
+    setRows((prev) => prev && prev.map((row) => (row.lineNumber === lineNumber ? { ...row, ...changes } : row)));
+  };
+
+  const rematchRow = (row: QuickOrderRow) => {
+    setRows((prev) => prev && prev.map((r) => (r.lineNumber === row.lineNumber ? matchQuickOrderRow(r, catalog) : r)));
+  };
+
+  const removeRow = (lineNumber: number) => {
+    setRows((prev) => prev && prev.filter((row) => row.lineNumber !== lineNumber));
+  };
+
+  const handleAdd = () => {
+    if (lines.length === 0) return;
+    onAddLines(lines);
+    handleClose();
+  };
+
+  return (
+    <AccessibleModal isOpen={isOpen} onClose={handleClose} title={t('store.quickOrder.title')} size="xl" dir={getDir()}>
+      {error && (
+        <div role="alert" className="mb-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm font-semibold text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!rows ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">{t('store.quickOrder.hint')}</p>
+          <label htmlFor="quick-order-text" className="sr-only">
+            {t('store.quickOrder.textLabel')}
+          </label>
+          <textarea
+            id="quick-order-text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={10}
+            dir="auto"
+            placeholder={t('store.quickOrder.placeholder')}
+            className="glass-input w-full px-4 py-3 rounded-xl font-mono text-sm"
+          />
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <label className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer focus-within:ring-2 focus-within:ring-purple-400">
+              {t('store.quickOrder.upload')}
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="sr-only" />
+            </label>
+            <div className="flex gap-2">
+              <button type="button" onClick={handleClose} className="btn-cancel">
+                {t('common.cancel')}
+              </button>
+              <button
+                type="button"
+                onClick={() => matchText(text)}
+                disabled={!text.trim()}
+                className="store-primary-bg px-5 py-2 rounded-xl font-semibold disabled:opacity-50"
+              >
+                {t('store.quickOrder.match')}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm font-semibold text-gray-700" role="status">
+            {t('store.quickOrder.summary', { ready: readyCount, total: rows.length })}
+          </p>
+          <ul className="space-y-3 max-h-[55vh] overflow-y-auto pe-1">
+            {rows.map((row) => {
+              const status = getQuickOrderRowStatus(row);
+              const product = row.candidates.find((candidate) => candidate.id === row.productId);
+              const quantity = parseQuickOrderQuantity(row.quantityText);
+              const cartQuantity =
+                product && quantity != null ? fitQuantityToRule(getProductRule(cartRules, product.id), quantity) : null;
+              const fieldId = `quick-order-${row.lineNumber}`;
+              return (
+                <li
+                  key={row.lineNumber}
+                  className={`rounded-xl border p-3 ${
+                    status === 'ready' ? 'border-green-200 bg-green-50/60' : 'border-amber-300 bg-amber-50/70'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <div className="min-w-0">
+                      <span className="block text-xs text-gray-500 font-mono truncate" dir="auto">
+                        {row.lineNumber}: {row.source}
+                      </span>
+                      <span className={`text-xs font-semibold ${status === 'ready' ? 'text-green-700' : 'text-amber-800'}`}>
+                        {t(STATUS_LABELS[status])}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeRow(row.lineNumber)}
+                      className="shrink-0 text-gray-500 hover:text-red-600 px-2"
+                      aria-label={t('store.quickOrder.removeRow', { line: row.lineNumber })}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-[2fr_2fr_1fr] gap-2">
+                    {row.candidates.length > 1 ? (
+                      <div>
+                        <label htmlFor={`${fieldId}-product`} className="block text-xs text-gray-600 mb-1">
+                          {t('store.quickOrder.product')}
+                        </label>
+                        <select
+                          id={`${fieldId}-product`}
+                          value={row.productId ?? ''}
+                          onChange={(e) => updateRow(row.lineNumber, { productId: e.target.value || null, variantId: null })}
+                          className="glass-select w-full px-3 py-2 rounded-xl text-sm"
+                        >
+                          <option value="">{t('store.quickOrder.chooseProduct')}</option>
+                          {row.candidates.map((candidate) => (
+                            <option key={candidate.id} value={candidate.id}>
+                              {candidate.name}
+                              {candidate.sku ? ` (${candidate.sku})` : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : (
+                      <div>
+                        <label htmlFor={`${fieldId}-query`} className="block text-xs text-gray-600 mb-1">
+                          {t('store.quickOrder.query')}
+                        </label>
+                        <input
+                          id={`${fieldId}-query`}
+                          value={row.query}
+                          onChange={(e) => updateRow(row.lineNumber, { query: e.target.value })}
+                          onBlur={() => rematchRow(row)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              rematchRow(row);
+                            }
+                          }}
+                          dir="auto"
+                          className="glass-input w-full px-3 py-2 rounded-xl text-sm"
+                        />
+                        {product && <span className="block text-xs text-gray-700 mt-1">{product.name}</span>}
+                      </div>
+                    )}
+                    {product && hasVariants(product) ? (
+                      <div>
+                        <label htmlFor={`${fieldId}-variant`} className="block text-xs text-gray-600 mb-1">
+                          {t('store.quickOrder.variant')}
+                        </label>
+                        <select
+                          id={`${fieldId}-variant`}
+                          value={row.variantId ?? ''}
+                          onChange={(e) => updateRow(row.lineNumber, { variantId: e.target.value || null })}
+                          className="glass-select w-full px-3 py-2 rounded-xl text-sm"
+                        >
+                          <option value="">{t('store.quickOrder.chooseVariant')}</option>
+                          {product.variants!.map((variant) => (
+                            <option key={variant.id} value={variant.id}>
+                              {getVariantLabel(variant, product.variantAxes)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : (
+                      <div className="hidden sm:block" aria-hidden="true" />
+                    )}
+                    <div>
+                      <label htmlFor={`${fieldId}-quantity`} className="block text-xs text-gray-600 mb-1">
+                        {t('store.quickOrder.quantity')}
+                      </label>
+                      <input
+                        id={`${fieldId}-quantity`}
+                        type="number"
+                        inputMode="numeric"
+                        min={1}
+                        value={row.quantityText}
+                        onChange={(e) => updateRow(row.lineNumber, { quantityText: e.target.value })}
+                        className="glass-input w-full px-3 py-2 rounded-xl text-sm"
+                      />
+                    </div>
+                  </div>
+                  {cartQuantity != null && cartQuantity !== quantity && (
+                    <p className="text-xs text-gray-600 mt-1">
+                      {cartQuantity === 0
+                        ? t('store.quickOrder.notAllowed')
+                        : t('store.quickOrder.packAdjusted', { quantity: cartQuantity })}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <span className="text-xs text-gray-600">
+              {rows.length > readyCount && t('store.quickOrder.skipped', { count: rows.length - readyCount })}
+            </span>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setRows(null)} className="btn-cancel">
+                {t('store.quickOrder.back')}
+              </button>
+              <button
+                type="button"
+                onClick={handleAdd}
+                disabled={lines.length === 0}
+                className="store-primary-bg px-5 py-2 rounded-xl font-semibold disabled:opacity-50"
+              >
+                {t('store.quickOrder.addToCart', { count: lines.length })}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </AccessibleModal>
+  );
+}
@@ -1,3 +1,5 @@
+import { t } from '../utils/i18n';
+
 export default function SkipLinks() {
   const handleSkipToMain = (e: React.MouseEvent<HTMLAnchorElement>) => {
     e.preventDefault();
@@ -83,7 +85,7 @@ export default function SkipLinks() {
   };
 
   return (
-    <div className="skip-links" dir="rtl">
+    <div className="skip-links">
       <a
         href="#main-content"
         onClick={handleSkipToMain}
@@ -94,9 +96,9 @@ export default function SkipLinks() {
           }
         }}
         className="skip-link"
-        aria-label="דלג לתוכן הראשי"
+        aria-label={t('skipLinks.main')}
       >
-        דלג לתוכן הראשי
+        {t('skipLinks.main')}
       </a>
       <a
         href="#navigation"
@@ -108,9 +110,9 @@ export default function SkipLinks() {
           }
         }}
         className="skip-link"
-        aria-label="דלג לניווט"
+        aria-label={t('skipLinks.navigation')}
       >
-        דלג לניווט
+        {t('skipLinks.navigation')}
       </a>
     </div>
   );
@@ -0,0 +1,377 @@
+import { useEffect, useState } from 'react';
+import AccessibleModal from './AccessibleModal';
+import Spinner from './Spinner';
+import { inventoryAPI } from '../services/api';
+import type { Location, Product, StockAdjustment, StockAdjustmentReason, StockLevel } from '../services/api';
+import { resolveApiErr } from '../utils/apiErrorMessage';
+import { formatDateTime, getDir, t } from '../utils/i18n';
+import {
+  MAX_STOCK_NOTE_LENGTH,
+  STOCK_ADJUSTMENT_REASONS,
+  getLocationName,
+  getStockAdjustmentReasonLabel,
+  getStockQuantity,
+  getStockRows,
+  isLowStock,
+  validateLowStockThreshold,
+  validateStockAdjustment,
+} from '../utils/inventory';
+import { findVariant, getVariantLabel } from '../utils/productVariants';
+
+interface StockModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: Product;
+  locations: Location[];
+  /** All stock levels of the business; the modal reads this product's rows. */
+  stockLevels: StockLevel[];
+  onStockChange: (level: StockLevel) => void;
+  onProductChange: (product: Product) => void;
+}
+
+type AdjustmentReason = Exclude<StockAdjustmentReason, 'ORDER_DONE'>;
+
+/** Stock of one product per location: manual adjustments with a reason, the low-stock threshold and recent changes. */
+export default function StockModal({
+  isOpen,
+  onClose,
+  product,
+  locations,
+  stockLevels,
+  onStockChange,
+  onProductChange,
+}: StockModalProps) {
+  const rows = getStockRows(product);
+  const [variantId, setVariantId] = useState<string | null>(rows[0].variantId);
+  const [locationId, setLocationId] = useState<number | null>(locations[0]?.id ?? null);
+  const [reason, setReason] = useState<AdjustmentReason>('RECEIVED');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [isLoadingAdjustments, setIsLoadingAdjustments] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSavingThreshold, setIsSavingThreshold] = useState(false);
+  const [error, setError] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const [thresholdError, setThresholdError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setVariantId(getStockRows(product)[0].variantId);
+    setLocationId(locations[0]?.id ?? null);
+    setReason('RECEIVED');
+    setQuantity('');
+    setNote('');
+    setThreshold(product.lowStockThreshold != null ? String(product.lowStockThreshold) : '');
+    setError('');
+    setValidationError('');
+    setThresholdError('');
+    // Re-initialise only when the modal opens for a product; saving the threshold must not reset the form
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, product.id]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoadingAdjustments(true);
+    inventoryAPI
+      .getAdjustments(product.id)
+      .then((list) => {
+        if (!cancelled) setAdjustments(list);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(resolveApiErr(err, 'stockLoad'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingAdjustments(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, product.id]);
+
+  if (!isOpen) return null;
+
+  const currentQuantity = locationId != null ? getStockQuantity(stockLevels, product.id, variantId, locationId) : 0;
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (locationId == null) return;
+    const problem = validateStockAdjustment(reason, quantity, note);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+    // A count sends the counted level (the server works out the difference); every other reason adds or removes units
+    const value = Number(quantity.trim());
+
+    setIsSaving(true);
+    try {
+      const level = await inventoryAPI.adjustStock({
+        productId: product.id,
+        variantId,
+        locationId,
+        ...(reason === 'COUNT' ? { countedQuantity: value } : { delta: value }),
+        reason,
+        note: note.trim() || null,
+      });
+      onStockChange(level);
+      setQuantity('');
+      setNote('');
+      setAdjustments(await inventoryAPI.getAdjustments(product.id));
+    } catch (err: unknown) {
+      setError(resolveApiErr(err, 'stockAdjust'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    const problem = validateLowStockThreshold(threshold);
+    if (problem) {
+      setThresholdError(problem);
+      return;
+    }
+    setError('');
+    setIsSavingThreshold(true);
+    try {
+      const updated = await inventoryAPI.setLowStockThreshold(product.id, threshold.trim() ? Number(threshold.trim()) : null);
+      onProductChange(updated);
+    } catch (err: unknown) {
+      setError(resolveApiErr(err, 'lowStockThresholdUpdate'));
+    } finally {
+      setIsSavingThreshold(false);
+    }
+  };
+
+  const describeRow = (rowVariantId: string | null) => {
+    if (!rowVariantId) return '';
+    const variant = findVariant(product, rowVariantId);
+    return variant ? getVariantLabel(variant, product.variantAxes) : t('stock.deletedVariant');
+  };
+
+  const fieldClass =
+    'glass-input w-full px-3 py-2 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all';
+  const selectClass = 'glass-select w-full px-3 py-2 rounded-xl text-sm text-gray-800 cursor-pointer';
+
+  return (
+    <AccessibleModal isOpen={isOpen} onClose={onClose} title={t('stock.title', { name: product.name })} size="lg" dir={getDir()}>
+      {error && (
+        <div
+          role="alert"
+          className="mb-4 p-3 bg-red-50/80 border border-red-200/60 rounded-xl text-red-600 text-sm"
+          aria-live="assertive"
+        >
+          {error}
+        </div>
+      )}
+
+      {locations.length === 0 ? (
+        <p className="text-sm text-gray-600">{t('stock.noLocations')}</p>
+      ) : (
+        <div className="space-y-5">
+          {/* Levels: one row per variant (or the product), one column per location */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="text-start font-medium py-1.5 pe-2">{rows.length > 1 ? t('stock.variant') : t('stock.product')}</th>
+                  {locations.map((location) => (
+                    <th key={location.id} className="font-medium py-1.5 px-2 text-center">{location.name}</th>
+                  ))}
+                  <th className="font-medium py-1.5 ps-2 text-center">{t('stock.total')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.variantId ?? 'product'} className="border-t border-gray-200/70">
+                    <td className="py-1.5 pe-2 text-gray-800">{row.label}</td>
+                    {locations.map((location) => {
+                      const value = getStockQuantity(stockLevels, product.id, row.variantId, location.id);
+                      return (
+                        <td key={location.id} className={`py-1.5 px-2 text-center font-mono ${value < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                          {value}
+                        </td>
+                      );
+                    })}
+                    <td className="py-1.5 ps-2 text-center font-mono font-bold text-gray-900">
+                      {getStockQuantity(stockLevels, product.id, row.variantId)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {isLowStock(product, stockLevels) && (
+              <p className="text-xs font-semibold text-amber-700 mt-2">
+                {t('stock.lowStock', {
+                  total: getStockQuantity(stockLevels, product.id),
+                  threshold: product.lowStockThreshold ?? 0,
+                })}
+              </p>
+            )}
+          </div>
+
+          {/* Manual adjustment */}
+          <form onSubmit={handleAdjust} noValidate className="space-y-3 rounded-2xl border border-gray-200/70 p-4">
+            <h3 className="text-sm font-bold text-gray-800">{t('stock.adjustTitle')}</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {rows.length > 1 && (
+                <div>
+                  <label htmlFor="stock-variant" className="block text-xs font-medium text-gray-700 mb-1.5">{t('stock.variant')}</label>
+                  <select
+                    id="stock-variant"
+                    value={variantId ?? ''}
+                    onChange={(e) => setVariantId(e.target.value || null)}
+                    className={selectClass}
+                  >
+                    {rows.map((row) => (
+                      <option key={row.variantId ?? ''} value={row.variantId ?? ''}>{row.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label htmlFor="stock-location" className="block text-xs font-medium text-gray-700 mb-1.5">{t('stock.location')}</label>
+                <select
+                  id="stock-location"
+                  value={locationId ?? ''}
+                  onChange={(e) => setLocationId(Number(e.target.value))}
+                  className={selectClass}
+                >
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="stock-reason" className="block text-xs font-medium text-gray-700 mb-1.5">{t('stock.reason')}</label>
+                <select
+                  id="stock-reason"
+                  value={reason}
+                  onChange={(e) => {
+                    setReason(e.target.value as AdjustmentReason);
+                    setValidationError('');
+                  }}
+                  className={selectClass}
+                >
+                  {STOCK_ADJUSTMENT_REASONS.map((option) => (
+                    <option key={option} value={option}>{getStockAdjustmentReasonLabel(option)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="stock-quantity" className="block text-xs font-medium text-gray-700 mb-1.5">
+                  {reason === 'COUNT' ? t('stock.countedQuantity') : t('stock.delta')}
+                </label>
+                <input
+                  id="stock-quantity"
+                  type="text"
+                  inputMode="numeric"
+                  value={quantity}
+                  onChange={(e) => {
+                    setQuantity(e.target.value.replace(/[^\d-]/g, '').slice(0, 8));
+                    setValidationError('');
+                  }}
+                  className={`${fieldClass} text-center`}
+                  dir="ltr"
+                />
+                <p className="text-[11px] text-gray-500 mt-1">{t('stock.current', { quantity: currentQuantity })}</p>
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor="stock-note" className="block text-xs font-medium text-gray-700 mb-1.5">
+                  {t('stock.note')} {reason !== 'OTHER' && <span className="text-gray-500">{t('stock.optional')}</span>}
+                </label>
+                <input
+                  id="stock-note"
+                  type="text"
+                  value={note}
+                  maxLength={MAX_STOCK_NOTE_LENGTH}
+                  onChange={(e) => {
+                    setNote(e.target.value);
+                    setValidationError('');
+                  }}
+                  className={fieldClass}
+                />
+              </div>
+            </div>
+            {validationError && <p className="text-red-500 text-xs">{validationError}</p>}
+            <button type="submit" disabled={isSaving} className="btn-save-indigo">
+              {isSaving ? (
+                <>
+                  <Spinner size="sm" />
+                  <span>{t('stock.saving')}</span>
+                </>
+              ) : (
+                <span>{t('stock.adjust')}</span>
+              )}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Low-stock threshold */}
+      <div className="mt-5">
+        <label htmlFor="low-stock-threshold" className="block text-xs font-medium text-gray-700 mb-1.5">
+          {t('stock.thresholdLabel')} <span className="text-gray-500">{t('stock.thresholdHint')}</span>
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="low-stock-threshold"
+            type="text"
+            inputMode="numeric"
+            value={threshold}
+            onChange={(e) => {
+              setThreshold(e.target.value.replace(/\D/g, '').slice(0, 7));
+              setThresholdError('');
+            }}
+            className={`${fieldClass} text-center max-w-[8rem]`}
+            placeholder={t('stock.thresholdNone')}
+            dir="ltr"
+          />
+          <button
+            type="button"
+            onClick={handleSaveThreshold}
+            disabled={isSavingThreshold}
+            className="glass-button px-4 rounded-xl text-sm font-semibold text-indigo-600 disabled:opacity-40"
+          >
+            {isSavingThreshold ? t('stock.saving') : t('stock.saveThreshold')}
+          </button>
+        </div>
+        {thresholdError && <p className="text-red-500 text-xs mt-1">{thresholdError}</p>}
+      </div>
+
+      {/* Recent changes, including stock taken by orders marked done */}
+      <div className="mt-5">
+        <h3 className="text-sm font-bold text-gray-800 mb-2">{t('stock.recentChanges')}</h3>
+        {isLoadingAdjustments ? (
+          <Spinner size="sm" color="rgb(79, 70, 229)" />
+        ) : adjustments.length === 0 ? (
+          <p className="text-xs text-gray-500">{t('stock.noChanges')}</p>
+        ) : (
+          <ul className="space-y-1.5 text-xs">
+            {adjustments.map((adjustment) => (
+              <li key={adjustment.id} className="flex flex-wrap items-baseline gap-x-2 text-gray-700">
+                <span className={`font-mono font-bold ${adjustment.delta < 0 ? 'text-red-600' : 'text-green-700'}`} dir="ltr">
+                  {adjustment.delta > 0 ? `+${adjustment.delta}` : adjustment.delta}
+                </span>
+                <span>{getStockAdjustmentReasonLabel(adjustment.reason)}</span>
+                {adjustment.orderReferenceId != null && <span>#{adjustment.orderReferenceId}</span>}
+                <span className="text-gray-500">
+                  {getLocationName(locations, adjustment.locationId)}
+                  {adjustment.variantId && ` · ${describeRow(adjustment.variantId)}`}
+                  {` · ${t('stock.left', { quantity: adjustment.quantityAfter })}`}
+                </span>
+                {adjustment.note && <span className="text-gray-500">– {adjustment.note}</span>}
+                <span className="text-gray-400 ms-auto">
+                  {formatDateTime(adjustment.createdAt, { dateStyle: 'short', timeStyle: 'short' })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </AccessibleModal>
+  );
+}
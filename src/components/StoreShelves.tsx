@@ -0,0 +1,133 @@
+import type { ProductPublic } from '../services/api';
+import type { ShelfLine } from '../utils/storeHistory';
+import { formatPrice } from '../utils/formatPrice';
+import { getLinePrice } from '../utils/priceTiers';
+import { getPriceRange, getVariantLabel, hasVariants } from '../utils/productVariants';
+import { t } from '../utils/i18n';
+
+interface StoreShelvesProps {
+  favorites: ProductPublic[];
+  /** Favourites that can go to the cart without choosing a variant. */
+  favoriteLines: ShelfLine[];
+  buyAgainLines: ShelfLine[];
+  /** Past lines that are no longer in the catalog. */
+  unavailableCount: number;
+  isCustomerLinked: boolean;
+  onAddLines: (lines: ShelfLine[]) => void;
+  onOpenProduct: (product: ProductPublic) => void;
+}
+
+function ShelfItem({
+  product,
+  caption,
+  price,
+  onClick,
+}: {
+  product: ProductPublic;
+  caption: string | null;
+  price: string;
+  onClick: () => void;
+}) {
+  const imageUrl = product.images?.[0]?.url;
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="w-32 shrink-0 snap-start rounded-xl border border-gray-200/70 bg-white/70 p-2 text-start hover:shadow-lg transition-shadow"
+    >
+      <div className="h-20 mb-1.5 rounded-lg bg-gradient-to-br from-purple-100 to-pink-100 flex items-center justify-center overflow-hidden">
+        {imageUrl ? (
+          <img src={imageUrl} alt="" loading="lazy" decoding="async" className="h-full w-full object-contain" />
+        ) : (
+          <span className="text-2xl opacity-40" aria-hidden="true">📦</span>
+        )}
+      </div>
+      <span className="block text-xs font-semibold text-gray-800 line-clamp-2">{product.name}</span>
+      {caption && <span className="block text-[11px] text-gray-500 truncate">{caption}</span>}
+      <span className="block text-sm font-bold text-purple-600">{price}</span>
+    </button>
+  );
+}
+
+/** "Buy again" and favourites shelves above the product grid; each can fill the cart in one click. */
+export default function StoreShelves({
+  favorites,
+  favoriteLines,
+  buyAgainLines,
+  unavailableCount,
+  isCustomerLinked,
+  onAddLines,
+  onOpenProduct,
+}: StoreShelvesProps) {
+  if (buyAgainLines.length === 0 && favorites.length === 0) return null;
+
+  return (
+    <section className="glass-card rounded-3xl p-4 sm:p-5 mb-6 space-y-5" aria-label={t('store.shelves.label')}>
+      {buyAgainLines.length > 0 && (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <div>
+              <h2 className="text-lg font-bold text-gray-800">{t('store.shelves.buyAgainTitle')}</h2>
+              <p className="text-xs text-gray-500">
+                {isCustomerLinked ? t('store.shelves.fromCustomerHistory') : t('store.shelves.fromDeviceHistory')}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onAddLines(buyAgainLines)}
+              className="store-primary-bg rounded-xl px-4 py-2 text-sm font-semibold hover:shadow-xl transition-all duration-200"
+            >
+              {t('store.shelves.addAll', { count: buyAgainLines.length })}
+            </button>
+          </div>
+          <div className="flex gap-3 overflow-x-auto pb-2 snap-x">
+            {buyAgainLines.map((line) => {
+              const variantLabel = line.variant ? getVariantLabel(line.variant, line.product.variantAxes) : '';
+              const { unitPrice } = getLinePrice(line.product, line.variant, line.quantity);
+              return (
+                <ShelfItem
+                  key={`${line.product.id}:${line.variant?.id ?? ''}`}
+                  product={line.product}
+                  caption={[variantLabel, `× ${line.quantity}`].filter(Boolean).join(' · ')}
+                  price={formatPrice(unitPrice)}
+                  onClick={() => onOpenProduct(line.product)}
+                />
+              );
+            })}
+          </div>
+          {unavailableCount > 0 && (
+            <p className="text-xs text-amber-700 mt-1">{t('store.shelves.unavailable', { count: unavailableCount })}</p>
+          )}
+        </div>
+      )}
+
+      {favorites.length > 0 && (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h2 className="text-lg font-bold text-gray-800">{t('store.shelves.favoritesTitle')}</h2>
+            {favoriteLines.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onAddLines(favoriteLines)}
+                className="store-primary-bg rounded-xl px-4 py-2 text-sm font-semibold hover:shadow-xl transition-all duration-200"
+              >
+                {t('store.shelves.addAll', { count: favoriteLines.length })}
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3 overflow-x-auto pb-2 snap-x">
+            {favorites.map((product) => (
+              <ShelfItem
+                key={product.id}
+                product={product}
+                caption={hasVariants(product) ? t('store.shelves.chooseOptions') : null}
+                price={formatPrice(getPriceRange(product).min)}
+                onClick={() => onOpenProduct(product)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
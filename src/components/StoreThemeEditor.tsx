@@ -0,0 +1,214 @@
+import type { ChangeEvent } from 'react';
+import {
+  MAX_CONTACT_ADDRESS_LENGTH,
+  MAX_CONTACT_EMAIL_LENGTH,
+  MAX_CONTACT_PHONE_LENGTH,
+  MAX_FOOTER_TEXT_LENGTH,
+  MAX_WELCOME_TEXT_LENGTH,
+  getStoreThemeStyle,
+  isColorAdjusted,
+  isHexColor,
+} from '../utils/storeTheme';
+import type { StoreThemeDraft } from '../utils/storeTheme';
+import { t } from '../utils/i18n';
+
+interface StoreThemeEditorProps {
+  draft: StoreThemeDraft;
+  onChange: (draft: StoreThemeDraft) => void;
+  /** Banner shown now: the pending upload's preview or the saved banner; null when there is none. */
+  bannerUrl: string | null;
+  onBannerSelect: (file: File) => void;
+  onBannerRemove: () => void;
+  error?: string;
+}
+
+/** Default colors of the store, shown in the pickers while no theme color is set. */
+const DEFAULT_COLORS = { primaryColor: '#9333ea', accentColor: '#4f46e5' } as const;
+
+/** Store theme fields of the business form: colors, banner, welcome text and footer contact details. */
+export default function StoreThemeEditor({
+  draft,
+  onChange,
+  bannerUrl,
+  onBannerSelect,
+  onBannerRemove,
+  error,
+}: StoreThemeEditorProps) {
+  const update = (patch: Partial<StoreThemeDraft>) => onChange({ ...draft, ...patch });
+
+  const handleBannerChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onBannerSelect(file);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const previewStyle = getStoreThemeStyle({
+    primaryColor: isHexColor(draft.primaryColor) ? draft.primaryColor : null,
+    accentColor: isHexColor(draft.accentColor) ? draft.accentColor : null,
+    bannerImageUrl: null,
+    welcomeText: null,
+    footerText: null,
+    contactPhone: null,
+    contactEmail: null,
+    contactAddress: null,
+  });
+  const isAdjusted = (['primaryColor', 'accentColor'] as const).some(
+    (field) => isHexColor(draft[field]) && isColorAdjusted(draft[field])
+  );
+
+  return (
+    <fieldset className="space-y-3 rounded-xl border border-gray-200/70 p-3">
+      <legend className="px-1 text-xs font-semibold text-gray-700">{t('storeTheme.editor.title')}</legend>
+
+      <div className="grid grid-cols-2 gap-3">
+        {(['primaryColor', 'accentColor'] as const).map((field) => (
+          <div key={field}>
+            <label htmlFor={`store-${field}`} className="form-label">
+              {t(`storeTheme.editor.${field}`)}
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id={`store-${field}`}
+                type="color"
+                value={isHexColor(draft[field]) ? draft[field] : DEFAULT_COLORS[field]}
+                onChange={(e) => update({ [field]: e.target.value })}
+                className="h-9 w-10 shrink-0 cursor-pointer rounded-lg border border-gray-300 bg-white p-0.5"
+              />
+              <input
+                type="text"
+                value={draft[field]}
+                onChange={(e) => update({ [field]: e.target.value.trim().slice(0, 7) })}
+                className="form-input text-center font-mono"
+                placeholder={t('storeTheme.summary.default')}
+                dir="ltr"
+                aria-label={t('storeTheme.editor.colorHex', { color: t(`storeTheme.editor.${field}`) })}
+              />
+              {draft[field] && (
+                <button
+                  type="button"
+                  onClick={() => update({ [field]: '' })}
+                  className="shrink-0 text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+                >
+                  {t('storeTheme.editor.reset')}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Preview with the colors the store will actually use */}
+      <div style={previewStyle} className="flex flex-wrap items-center gap-2">
+        <span className="store-primary-bg rounded-lg px-3 py-1.5 text-sm font-semibold">{t('store.product.addToCart')}</span>
+        <span className="store-accent-bg rounded-lg px-3 py-1.5 text-sm font-semibold">{t('storeTheme.editor.previewSort')}</span>
+        {isAdjusted && <span className="text-xs text-gray-500">{t('storeTheme.editor.adjusted')}</span>}
+      </div>
+
+      <div>
+        <span className="form-label">{t('storeTheme.editor.banner')}</span>
+        {bannerUrl ? (
+          <div className="space-y-2">
+            <img src={bannerUrl} alt={t('storeTheme.editor.banner')} className="h-24 w-full rounded-xl border border-gray-200 object-cover" />
+            <div className="flex gap-3 text-xs font-semibold">
+              <label htmlFor="storeBanner" className="cursor-pointer text-indigo-600 hover:text-indigo-800">
+                {t('storeTheme.editor.replaceBanner')}
+              </label>
+              <button type="button" onClick={onBannerRemove} className="text-red-600 hover:text-red-700">
+                {t('storeTheme.editor.removeBanner')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <label
+            htmlFor="storeBanner"
+            className="glass-input flex w-full cursor-pointer items-center justify-center rounded-xl border-2 border-dashed border-indigo-300 px-3 py-3 text-sm font-medium text-gray-800 transition-all hover:border-indigo-500 hover:bg-indigo-50/30"
+          >
+            {t('storeTheme.editor.chooseBanner')}
+          </label>
+        )}
+        <input
+          id="storeBanner"
+          type="file"
+          accept="image/jpeg,image/jpg,image/png,image/webp"
+          onChange={handleBannerChange}
+          className="hidden"
+        />
+        <p className="mt-1 text-xs text-gray-500">{t('storeTheme.editor.bannerHint')}</p>
+      </div>
+
+      <div>
+        <label htmlFor="storeWelcomeText" className="form-label">
+          {t('storeTheme.editor.welcomeText')}
+        </label>
+        <textarea
+          id="storeWelcomeText"
+          value={draft.welcomeText}
+          onChange={(e) => update({ welcomeText: e.target.value.slice(0, MAX_WELCOME_TEXT_LENGTH) })}
+          rows={2}
+          className="form-textarea"
+          placeholder={t('storeTheme.editor.welcomePlaceholder')}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="storeFooterText" className="form-label">
+          {t('storeTheme.editor.footerText')}
+        </label>
+        <textarea
+          id="storeFooterText"
+          value={draft.footerText}
+          onChange={(e) => update({ footerText: e.target.value.slice(0, MAX_FOOTER_TEXT_LENGTH) })}
+          rows={2}
+          className="form-textarea"
+          placeholder={t('storeTheme.editor.footerPlaceholder')}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="storeContactPhone" className="form-label">
+            {t('storeTheme.editor.contactPhone')}
+          </label>
+          <input
+            id="storeContactPhone"
+            type="tel"
+            inputMode="numeric"
+            value={draft.contactPhone}
+            onChange={(e) => update({ contactPhone: e.target.value.replace(/\D/g, '').slice(0, MAX_CONTACT_PHONE_LENGTH) })}
+            className="form-input text-center"
+            dir="ltr"
+          />
+        </div>
+        <div>
+          <label htmlFor="storeContactEmail" className="form-label">
+            {t('storeTheme.editor.contactEmail')}
+          </label>
+          <input
+            id="storeContactEmail"
+            type="email"
+            value={draft.contactEmail}
+            onChange={(e) => update({ contactEmail: e.target.value.slice(0, MAX_CONTACT_EMAIL_LENGTH) })}
+            className="form-input text-center"
+            dir="ltr"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="storeContactAddress" className="form-label">
+          {t('storeTheme.editor.contactAddress')}
+        </label>
+        <input
+          id="storeContactAddress"
+          type="text"
+          value={draft.contactAddress}
+          onChange={(e) => update({ contactAddress: e.target.value.slice(0, MAX_CONTACT_ADDRESS_LENGTH) })}
+          className="form-input text-center"
+        />
+      </div>
+
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+    </fieldset>
+  );
+}
@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react';
 import { NavLink, Outlet, useNavigate } from 'react-router-dom';
 import { clearAuth } from '../utils/authUtils';
+import { getDir, t } from '../utils/i18n';
+import { useLocale } from '../hooks/useLocale';
+import LanguagePicker from './LanguagePicker';
 
 export default function UserLayout() {
   // On desktop, sidebar is always open. On mobile, it starts closed.
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  useLocale();
   
   // Set initial sidebar state on mount only; on resize to narrow, close drawer (do not auto-open when widening)
   useEffect(() => {
@@ -27,24 +31,24 @@ export default function UserLayout() {
   };
 
   const menuItems = [
-    { name: 'פרופיל מנהל', path: '/dashboard/profile', icon: '👤' },
-    { name: 'פרופיל עסק', path: '/dashboard/business-data', icon: '🏢' },
-    { name: 'הזמנות', path: '/dashboard/orders', icon: '📦' },
-    { name: 'דוחות ומסמכים', path: '/dashboard/documents', icon: '📄' },
-    { name: 'מידע עסקי', path: '/dashboard/business-info', icon: '📊' },
-    { name: 'סוכנים', path: '/dashboard/agents', icon: '🧑‍🤝‍🧑' },
-    { name: 'לקוחות', path: '/dashboard/customers', icon: '👥' },
-    { name: 'מוצרים', path: '/dashboard/products', icon: '🛍️' },
-    { name: 'מחירים מיוחדים', path: '/dashboard/overrides', icon: '💰' },
-    { name: 'קטגוריות', path: '/dashboard/categories', icon: '📂' },
-    { name: 'מותגים', path: '/dashboard/brands', icon: '🏢' },
-    { name: 'סניפים', path: '/dashboard/locations', icon: '📍' },
+    { name: t('nav.managerProfile'), path: '/dashboard/profile', icon: '👤' },
+    { name: t('nav.businessProfile'), path: '/dashboard/business-data', icon: '🏢' },
+    { name: t('nav.orders'), path: '/dashboard/orders', icon: '📦' },
+    { name: t('nav.documents'), path: '/dashboard/documents', icon: '📄' },
+    { name: t('nav.businessInfo'), path: '/dashboard/business-info', icon: '📊' },
+    { name: t('nav.agents'), path: '/dashboard/agents', icon: '🧑‍🤝‍🧑' },
+    { name: t('nav.customers'), path: '/dashboard/customers', icon: '👥' },
+    { name: t('nav.products'), path: '/dashboard/products', icon: '🛍️' },
+    { name: t('nav.overrides'), path: '/dashboard/overrides', icon: '💰' },
+    { name: t('nav.categories'), path: '/dashboard/categories', icon: '📂' },
+    { name: t('nav.brands'), path: '/dashboard/brands', icon: '🏢' },
+    { name: t('nav.locations'), path: '/dashboard/locations', icon: '📍' },
   ];
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100" dir="rtl">
+    <div className="min-h-screen bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100" dir={getDir()}>
       {/* Mobile Header */}
-      <div className="lg:hidden fixed top-0 right-0 left-0 z-40 glass-card border-b border-white/20 p-4">
+      <div className="lg:hidden fixed top-0 inset-x-0 z-40 glass-card border-b border-white/20 p-4">
         <div className="flex items-center justify-between gap-3">
           <button
             onClick={() => setIsSidebarOpen(!isSidebarOpen)}
@@ -55,7 +59,7 @@ export default function UserLayout() {
               }
             }}
             className="p-2 rounded-lg hover:bg-white/20 transition-colors focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-            aria-label={isSidebarOpen ? 'סגור תפריט' : 'פתח תפריט'}
+            aria-label={isSidebarOpen ? t('layout.closeMenu') : t('layout.openMenu')}
             aria-expanded={isSidebarOpen}
             aria-controls="main-navigation"
           >
@@ -67,7 +71,8 @@ export default function UserLayout() {
               )}
             </svg>
           </button>
-          <h2 className="text-xl font-bold text-gray-800 flex-1">תפריט</h2>
+          <h2 className="text-xl font-bold text-gray-800 flex-1">{t('layout.menu')}</h2>
+          <LanguagePicker />
         </div>
       </div>
 
@@ -83,18 +88,18 @@ export default function UserLayout() {
           }}
           role="button"
           tabIndex={-1}
-          aria-label="סגור תפריט"
+          aria-label={t('layout.closeMenu')}
         />
       )}
 
       {/* Sidebar */}
       <aside
         id="main-navigation"
-        aria-label="ניווט ראשי"
+        aria-label={t('layout.mainNavigation')}
         className={`
-          fixed top-0 right-0 h-screen w-64 backdrop-blur-xl bg-white/70 border-l-2 border-white/40 shadow-2xl z-50 transition-transform duration-300
+          fixed top-0 start-0 h-screen w-64 backdrop-blur-xl bg-white/70 border-e-2 border-white/40 shadow-2xl z-50 transition-transform duration-300
           lg:translate-x-0
-          ${isSidebarOpen ? 'translate-x-0' : 'translate-x-full'}
+          ${isSidebarOpen ? 'translate-x-0' : 'rtl:translate-x-full ltr:-translate-x-full'}
         `}
         onKeyDown={(e) => {
           // Close sidebar on Escape key (only on mobile)
@@ -111,16 +116,17 @@ export default function UserLayout() {
       >
         <div className="h-full flex flex-col">
           {/* Header */}
-          <div className="flex-shrink-0 p-6 pb-4">
+          <div className="flex-shrink-0 p-6 pb-4 flex items-center justify-between gap-3">
             <h2 className="text-2xl font-bold text-gray-800">
-              תפריט
+              {t('layout.menu')}
             </h2>
+            <LanguagePicker className="hidden lg:block" />
           </div>
 
           {/* Scrollable Menu */}
           <nav 
             className="flex-1 overflow-y-auto px-6 pb-6 scrollbar-hide"
-            aria-label="תפריט ניווט"
+            aria-label={t('layout.menuNavigation')}
           >
             <div className="space-y-2 pt-2">
               {menuItems.map((item) => (
@@ -151,7 +157,7 @@ export default function UserLayout() {
                   }
                 }}
                 className="w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 select-none backdrop-blur-xl bg-red-50/90 text-red-600 hover:bg-red-100/90 border border-red-200/70 hover:border-red-300/80 shadow-xl shadow-gray-300/60 hover:shadow-2xl hover:shadow-gray-400/60 font-semibold focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-                aria-label="התנתק מהמערכת"
+                aria-label={t('layout.logoutLabel')}
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                   <path
@@ -161,7 +167,7 @@ export default function UserLayout() {
                     d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1"
                   />
                 </svg>
-                <span>התנתק</span>
+                <span>{t('layout.logout')}</span>
               </button>
             </div>
           </nav>
@@ -171,7 +177,7 @@ export default function UserLayout() {
       {/* Main Content */}
       <main 
         id="main-content"
-        className="lg:mr-64 min-h-screen pt-20 lg:pt-6 p-6"
+        className="lg:ms-64 min-h-screen pt-20 lg:pt-6 p-6"
         tabIndex={-1}
       >
         <Outlet />
@@ -0,0 +1,296 @@
+/**
+ * Israeli localities (and streets of the larger cities) for address autocomplete, bundled with the app so it
+ * works offline. Names follow the CBS / data.gov.il localities and streets registry; `aliases` are the
+ * abbreviations, older names and spellings people actually type. Streets are listed for the larger cities only –
+ * elsewhere the street stays free text.
+ *
+ * This is a hand-kept subset until the file is regenerated from the full registry with
+ * `npm run generate:addresses` (scripts/generate-israel-addresses.js, needs access to data.gov.il). The aliases
+ * live in scripts/israel-address-aliases.json so they survive regeneration.
+ *
+ * Loaded on demand (see utils/israelAddresses) so it is not part of the main bundle.
+ */
+
+export interface IsraelLocality {
+  name: string;
+  aliases?: string[];
+  streets?: string[];
+}
+
+export const ISRAEL_LOCALITIES: IsraelLocality[] = [
+  {
+    name: 'תל אביב-יפו',
+    aliases: ['ת"א', 'ת"א-יפו', 'תל אביב', 'תל-אביב', 'תל אביב יפו', 'תלאביב', 'יפו', 'Tel Aviv', 'Tel Aviv-Yafo'],
+    streets: [
+      'אבן גבירול',
+      'אחד העם',
+      'אלנבי',
+      'ארלוזורוב',
+      'בזל',
+      'ביאליק',
+      'בן יהודה',
+      'גורדון',
+      'דיזנגוף',
+      'דרך מנחם בגין',
+      'דרך נמיר',
+      'הארבעה',
+      'הירקון',
+      'המסגר',
+      'הרצל',
+      'ויצמן',
+      "ז'בוטינסקי",
+      'יגאל אלון',
+      'יהודה הלוי',
+      'יפת',
+      'לבונטין',
+      'לילינבלום',
+      'נחלת בנימין',
+      'פנקס',
+      'פרישמן',
+      'קפלן',
+      "קינג ג'ורג'",
+      'שאול המלך',
+      'שדרות ירושלים',
+      'שדרות נורדאו',
+      'שדרות רוטשילד',
+      'שינקין',
+    ],
+  },
+  {
+    name: 'ירושלים',
+    aliases: ['י-ם', 'Jerusalem'],
+    streets: [
+      'אגריפס',
+      'בצלאל',
+      'בן יהודה',
+      'בר אילן',
+      'דרך בית לחם',
+      'דרך חברון',
+      'הנביאים',
+      'הפלמ"ח',
+      'הרב קוק',
+      'המלך דוד',
+      "המלך ג'ורג'",
+      'יד חרוצים',
+      'יפו',
+      'כנפי נשרים',
+      'מלכי ישראל',
+      'עזה',
+      'עמק רפאים',
+      'קרן היסוד',
+      'רמב"ן',
+      'שדרות גולדה מאיר',
+      'שדרות הרצל',
+      'שטראוס',
+      'שמואל הנביא',
+      'שלמה המלך',
+    ],
+  },
+  {
+    name: 'חיפה',
+    aliases: ['Haifa'],
+    streets: [
+      'אלנבי',
+      'בלפור',
+      'דרך הים',
+      'דרך העצמאות',
+      'החלוץ',
+      'הנביאים',
+      'הרצל',
+      'חורב',
+      'יפו',
+      'מסדה',
+      'נורדאו',
+      'פבזנר',
+      'שדרות אבא חושי',
+      'שדרות בן גוריון',
+      'שדרות ההגנה',
+      'שדרות הנשיא',
+      'שדרות הציונות',
+      'שדרות מוריה',
+    ],
+  },
+  {
+    name: 'ראשון לציון',
+    aliases: ['ראשל"צ', 'ראשון', 'Rishon LeZion'],
+    streets: ['אחד העם', 'ביאליק', 'הרצל', 'ויצמן', "ז'בוטינסקי", 'רוטשילד', 'סחרוב'],
+  },
+  {
+    name: 'פתח תקווה',
+    aliases: ['פ"ת', 'פתח תקוה', 'פתח-תקווה', 'Petah Tikva'],
+    streets: [
+      'אחד העם',
+      'בר כוכבא',
+      'ביאליק',
+      'ההסתדרות',
+      'הרצל',
+      'ויצמן',
+      "ז'בוטינסקי",
+      'חיים עוזר',
+      'מוהליבר',
+      'סטמפר',
+      'קפלן',
+      'רוטשילד',
+    ],
+  },
+  {
+    name: 'אשדוד',
+    aliases: ['Ashdod'],
+    streets: ['העצמאות', "ז'בוטינסקי", 'רוגוזין', 'שבטי ישראל', 'שדרות בני ברית', 'שדרות הרצל', 'שדרות ירושלים', 'שדרות מנחם בגין'],
+  },
+  {
+    name: 'נתניה',
+    aliases: ['Netanya'],
+    streets: ['אחד העם', 'בן יהודה', 'דיזנגוף', 'הרצל', 'ויצמן', "ז'בוטינסקי", 'סמילנסקי', 'פינסקר', 'קפלן', 'רזיאל', 'שדרות בנימין', 'שדרות ניצה'],
+  },
+  {
+    name: 'באר שבע',
+    aliases: ['ב"ש', 'באר-שבע', 'Beer Sheva', "Be'er Sheva"],
+    streets: ['הרצל', 'העצמאות', 'יהודה הלוי', 'קרן קיימת לישראל', 'שדרות בן גוריון', 'שדרות טוביהו', 'שדרות יצחק רגר'],
+  },
+  {
+    name: 'חולון',
+    aliases: ['Holon'],
+    streets: ['אילת', 'ביאליק', 'גולדה מאיר', 'הרצל', 'ויצמן', 'סוקולוב', 'פנחס אילון', 'שדרות קוגל', 'שנקר'],
+  },
+  {
+    name: 'בני ברק',
+    aliases: ['ב"ב', 'Bnei Brak'],
+    streets: ['אהרונוביץ', 'ביאליק', 'הרב כהנמן', 'הרב שך', "ז'בוטינסקי", 'חזון איש', 'ירושלים', 'רבי עקיבא'],
+  },
+  {
+    name: 'רמת גן',
+    aliases: ['ר"ג', 'רמת-גן', 'Ramat Gan'],
+    streets: ['ארלוזורוב', 'ביאליק', 'דרך אבא הלל', 'הרא"ה', "ז'בוטינסקי", 'ירושלים', 'קריניצי'],
+  },
+  {
+    name: 'רחובות',
+    aliases: ['Rehovot'],
+    streets: ['בילו', 'הרצל', 'ויצמן', 'יעקב'],
+  },
+  {
+    name: 'הרצליה',
+    aliases: ['Herzliya'],
+    streets: ['בן גוריון', 'הנדיב', 'סוקולוב'],
+  },
+  {
+    name: 'כפר סבא',
+    aliases: ['כ"ס', 'Kfar Saba'],
+    streets: ['התע"ש', 'ויצמן', 'טשרניחובסקי', 'ירושלים', 'רוטשילד'],
+  },
+  {
+    name: 'רעננה',
+    aliases: ["Ra'anana", 'Raanana'],
+    streets: ['אוסטרובסקי', 'אחוזה', 'החרושת', 'ויצמן'],
+  },
+  {
+    name: 'בת ים',
+    aliases: ['Bat Yam'],
+    streets: ['בלפור', 'העצמאות', "ז'בוטינסקי", 'יוספטל', 'רוטשילד'],
+  },
+  { name: 'אבן יהודה' },
+  { name: 'אום אל-פחם', aliases: ['אום אל פחם', 'אום אלפחם'] },
+  { name: 'אופקים' },
+  { name: 'אור יהודה' },
+  { name: 'אור עקיבא' },
+  { name: 'אורנית' },
+  { name: 'אזור' },
+  { name: 'אילת', aliases: ['Eilat'] },
+  { name: 'אלעד' },
+  { name: 'אלפי מנשה' },
+  { name: 'אפרת' },
+  { name: 'אריאל' },
+  { name: 'אשקלון', aliases: ['Ashkelon'] },
+  { name: 'באקה אל-גרביה', aliases: ['באקה אל גרביה', 'באקה'] },
+  { name: 'באר יעקב' },
+  { name: 'בית דגן' },
+  { name: 'בית שאן' },
+  { name: 'בית שמש' },
+  { name: 'ביתר עילית' },
+  { name: 'בנימינה-גבעת עדה', aliases: ['בנימינה', 'גבעת עדה'] },
+  { name: 'גבעת זאב' },
+  { name: 'גבעת שמואל' },
+  { name: 'גבעתיים', aliases: ['Givatayim'] },
+  { name: 'גדרה' },
+  { name: 'גן יבנה' },
+  { name: 'גני תקווה', aliases: ['גני תקוה'] },
+  { name: 'דאלית אל-כרמל', aliases: ['דאלית אל כרמל'] },
+  { name: 'דימונה' },
+  { name: 'הוד השרון' },
+  { name: 'זכרון יעקב', aliases: ['זיכרון יעקב'] },
+  { name: 'חדרה' },
+  { name: 'חצור הגלילית' },
+  { name: 'חריש' },
+  { name: 'טבריה' },
+  { name: 'טייבה' },
+  { name: 'טירה' },
+  { name: 'טירת כרמל' },
+  { name: 'טמרה' },
+  { name: 'יבנאל' },
+  { name: 'יבנה' },
+  { name: 'יהוד-מונוסון', aliases: ['יהוד', 'יהוד מונוסון'] },
+  { name: 'יקנעם עילית', aliases: ['יקנעם'] },
+  { name: 'ירוחם' },
+  { name: 'כוכב יאיר-צור יגאל', aliases: ['כוכב יאיר', 'צור יגאל'] },
+  { name: 'כפר ורדים' },
+  { name: 'כפר יונה' },
+  { name: 'כפר קאסם' },
+  { name: 'כפר שמריהו' },
+  { name: 'כפר תבור' },
+  { name: 'כרמיאל' },
+  { name: 'להבים' },
+  { name: 'לוד' },
+  { name: 'מבשרת ציון' },
+  { name: 'מגדל העמק' },
+  { name: 'מודיעין עילית' },
+  { name: 'מודיעין-מכבים-רעות', aliases: ['מודיעין', 'מכבים', 'רעות', 'Modiin'] },
+  { name: 'מזכרת בתיה' },
+  { name: 'מטולה' },
+  { name: 'מיתר' },
+  { name: 'מעלה אדומים' },
+  { name: 'מעלות-תרשיחא', aliases: ['מעלות', 'תרשיחא'] },
+  { name: 'מצפה רמון' },
+  { name: 'נהריה' },
+  { name: 'נוף הגליל', aliases: ['נצרת עילית'] },
+  { name: 'נס ציונה' },
+  { name: 'נצרת' },
+  { name: 'נשר' },
+  { name: 'נתיבות' },
+  { name: 'סביון' },
+  { name: "סח'נין", aliases: ['סחנין'] },
+  { name: 'עומר' },
+  { name: 'עוספיא' },
+  { name: 'עכו' },
+  { name: 'עפולה' },
+  { name: 'עראבה' },
+  { name: 'ערד' },
+  { name: 'עתלית' },
+  { name: 'פרדס חנה-כרכור', aliases: ['פרדס חנה', 'כרכור'] },
+  { name: 'צפת' },
+  { name: 'קדימה-צורן', aliases: ['קדימה', 'צורן'] },
+  { name: 'קלנסווה' },
+  { name: 'קצרין' },
+  { name: 'קריית אונו', aliases: ['קרית אונו'] },
+  { name: 'קריית ארבע', aliases: ['קרית ארבע'] },
+  { name: 'קריית אתא', aliases: ['קרית אתא'] },
+  { name: 'קריית ביאליק', aliases: ['קרית ביאליק'] },
+  { name: 'קריית גת', aliases: ['קרית גת'] },
+  { name: 'קריית טבעון', aliases: ['קרית טבעון'] },
+  { name: 'קריית ים', aliases: ['קרית ים'] },
+  { name: 'קריית יערים', aliases: ['קרית יערים'] },
+  { name: 'קריית מוצקין', aliases: ['קרית מוצקין'] },
+  { name: 'קריית מלאכי', aliases: ['קרית מלאכי'] },
+  { name: 'קריית עקרון', aliases: ['קרית עקרון'] },
+  { name: 'קריית שמונה', aliases: ['קרית שמונה', 'ק"ש'] },
+  { name: 'קרני שומרון' },
+  { name: 'ראש העין' },
+  { name: 'ראש פינה' },
+  { name: 'רהט' },
+  { name: 'רמלה' },
+  { name: 'רמת השרון' },
+  { name: 'רמת ישי' },
+  { name: 'שדרות' },
+  { name: 'שוהם' },
+  { name: 'שפרעם' },
+  { name: 'תל מונד' },
+];
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+
+/** Keyboard-wedge scanners "type" a code much faster than a person, then press Enter (some send Tab). */
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Calls `onScan` with each code read by a keyboard-wedge barcode scanner while `enabled`. Keys typed into a
+ * form field are left alone, so a code scanned into the search box just searches (codes are searchable).
+ */
+export function useBarcodeScanner(enabled: boolean, onScan: (code: string) => void): void {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey || isEditableTarget(e.target)) return;
+      const isFast = e.timeStamp - lastKeyAt <= MAX_KEY_GAP_MS;
+      lastKeyAt = e.timeStamp;
+
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        if (isFast && buffer.length >= MIN_CODE_LENGTH) {
+          // Don't let the terminator also click the focused button
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+        return;
+      }
+      if (e.key.length !== 1) return;
+      buffer = isFast ? buffer + e.key : e.key;
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled]);
+}
@@ -76,7 +76,8 @@ export function useFocusManagement() {
    */
   const returnFocus = () => {
     if (previousActiveElementRef.current) {
-      previousActiveElementRef.current.focus();
+      // Don't scroll the page to the element - the page keeps its own position (see usePreserveScroll)
+      previousActiveElementRef.current.focus({ preventScroll: true });
       previousActiveElementRef.current = null;
     }
   };
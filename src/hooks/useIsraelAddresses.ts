@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { loadIsraelAddressIndex } from '../utils/israelAddresses';
+import type { IsraelAddressIndex } from '../utils/israelAddresses';
+
+/** The localities/streets index once its chunk has loaded; null before that (or when loading failed). */
+export function useIsraelAddresses(): IsraelAddressIndex | null {
+  const [index, setIndex] = useState<IsraelAddressIndex | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadIsraelAddressIndex()
+      .then((loaded) => {
+        if (!cancelled) setIndex(loaded);
+      })
+      .catch((err: unknown) => console.error('Failed to load the address dataset:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return index;
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, subscribeLocale } from '../utils/i18n';
+import type { Locale } from '../utils/i18n';
+
+/** Current UI language; re-renders the caller when the user switches it (so `t()` and Intl formatting update). */
+export function useLocale(): Locale {
+  return useSyncExternalStore(subscribeLocale, getLocale);
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getPendingOrders,
+  removePendingOrder,
+  replayPendingOrders,
+  retryPendingOrder,
+  subscribePendingOrders,
+} from '../utils/pendingOrders';
+import type { PendingOrder } from '../utils/pendingOrders';
+import { useOnlineStatus } from './useOnlineStatus';
+
+/**
+ * Offline-queued store orders for one store, kept in sync across tabs.
+ * Replays the queue on mount and whenever the browser comes back online.
+ */
+export function usePendingOrders(managerId: string | null) {
+  const isOnline = useOnlineStatus();
+  const [allOrders, setAllOrders] = useState<PendingOrder[]>(() => getPendingOrders());
+
+  useEffect(() => subscribePendingOrders(() => setAllOrders(getPendingOrders())), []);
+
+  useEffect(() => {
+    if (isOnline) replayPendingOrders();
+  }, [isOnline]);
+
+  const retry = useCallback((id: string) => {
+    retryPendingOrder(id);
+    replayPendingOrders();
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    removePendingOrder(id);
+  }, []);
+
+  const pendingOrders = managerId ? allOrders.filter((o) => o.managerId === managerId) : [];
+
+  return { isOnline, pendingOrders, retry, dismiss };
+}
@@ -0,0 +1,24 @@
+import { useLayoutEffect, useRef } from 'react';
+
+/**
+ * Keeps the page scroll position across an overlay (e.g. ProductDetailModal): the position is saved when
+ * `isOpen` turns true and put back when it turns false. Locking body scroll and returning focus to a card
+ * can otherwise move the page, and in a windowed grid the card may no longer be rendered.
+ */
+export function usePreserveScroll(isOpen: boolean) {
+  const savedScrollY = useRef<number | null>(null);
+
+  useLayoutEffect(() => {
+    if (isOpen) {
+      savedScrollY.current = window.scrollY;
+      return;
+    }
+    if (savedScrollY.current == null) return;
+    const y = savedScrollY.current;
+    savedScrollY.current = null;
+    window.scrollTo(0, y);
+    // Once more after focus is returned and the grid has re-measured
+    const frame = window.requestAnimationFrame(() => window.scrollTo(0, y));
+    return () => window.cancelAnimationFrame(frame);
+  }, [isOpen]);
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react';
+import { publicAPI } from '../services/api';
+import type { PurchasedProduct } from '../services/api';
+import {
+  getLocalFavorites,
+  getLocalPurchases,
+  recordLocalPurchase,
+  saveLocalFavorites,
+  toggleFavoriteId,
+} from '../utils/storeHistory';
+
+interface StoreShelvesOptions {
+  managerId: string | null;
+  orderId: string | undefined;
+  /** Personal customer link token (`/store/customer/:token`), used instead of an order. */
+  customerLinkToken: string | undefined;
+  /** Set for customer-linked order links and personal links: history and favourites come from the server. */
+  customerId: string | null | undefined;
+  /** Off in edit mode (staff editing an order). */
+  enabled: boolean;
+}
+
+/**
+ * Past purchases and favourites behind the store's "buy again" and favourites shelves (see utils/storeHistory).
+ * A favourite toggled on a customer-linked order is saved to the server and rolled back if that fails.
+ */
+export function useStoreShelves({ managerId, orderId, customerLinkToken, customerId, enabled }: StoreShelvesOptions) {
+  const [purchases, setPurchases] = useState<PurchasedProduct[]>([]);
+  const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+  const isCustomerLinked = !!customerId && (!!orderId || !!customerLinkToken);
+
+  useEffect(() => {
+    if (!enabled || !managerId) {
+      setPurchases([]);
+      setFavoriteIds([]);
+      return;
+    }
+    if (!isCustomerLinked) {
+      setPurchases(getLocalPurchases(managerId));
+      setFavoriteIds(getLocalFavorites(managerId));
+      return;
+    }
+    let cancelled = false;
+    (customerLinkToken
+      ? publicAPI.customerLinks.getCustomerHistory(customerLinkToken)
+      : publicAPI.orders.getCustomerHistory(orderId!)
+    )
+      .then((history) => {
+        if (cancelled) return;
+        setPurchases(history.purchases);
+        setFavoriteIds(history.favoriteProductIds);
+      })
+      .catch((err: unknown) => {
+        // The shelves are optional; the store works without them
+        console.error('Failed to load customer history:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, managerId, orderId, customerLinkToken, isCustomerLinked]);
+
+  const toggleFavorite = useCallback(
+    (productId: string) => {
+      if (!managerId) return;
+      const previous = favoriteIds;
+      const next = toggleFavoriteId(previous, productId);
+      setFavoriteIds(next);
+      if (!isCustomerLinked) {
+        saveLocalFavorites(managerId, next);
+        return;
+      }
+      const save = customerLinkToken
+        ? publicAPI.customerLinks.setCustomerFavorites(customerLinkToken, next)
+        : publicAPI.orders.setCustomerFavorites(orderId!, next);
+      save.catch((err: unknown) => {
+        console.error('Failed to save favourites:', err);
+        setFavoriteIds(previous);
+      });
+    },
+    [managerId, orderId, customerLinkToken, isCustomerLinked, favoriteIds]
+  );
+
+  /** Remember an order placed on this device; customer-linked history is kept by the server. */
+  const recordPurchase = useCallback(
+    (lines: { productId: string; variantId: string | null; quantity: number }[]) => {
+      if (!enabled || !managerId || isCustomerLinked || lines.length === 0) return;
+      recordLocalPurchase(managerId, lines);
+      setPurchases(getLocalPurchases(managerId));
+    },
+    [enabled, managerId, isCustomerLinked]
+  );
+
+  return { purchases, favoriteIds, toggleFavorite, recordPurchase, isCustomerLinked };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { applyStoreView, parseStoreView } from '../utils/storeViewParams';
+import type { StoreSortBy, StoreSortDirection, StoreViewState } from '../utils/storeViewParams';
+
+/**
+ * Store browsing state backed by the URL query string.
+ * The URL is the single source of truth, so reloads, shared links and browser back/forward all restore the view.
+ * Filter and sort changes push a history entry; typing in the search box replaces the current one.
+ */
+export function useStoreViewParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const parsed = parseStoreView(searchParams);
+  const categoriesKey = parsed.categoryIds.join(',');
+  const brandsKey = parsed.brandIds.join(',');
+
+  // Keep array identities stable per parameter, so typing a search does not look like a filter change to effects
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const categoryIds = useMemo(() => parsed.categoryIds, [categoriesKey]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const brandIds = useMemo(() => parsed.brandIds, [brandsKey]);
+  const view: StoreViewState = { ...parsed, categoryIds, brandIds };
+
+  const updateView = useCallback(
+    (update: (prev: StoreViewState) => StoreViewState, replace: boolean = false) => {
+      setSearchParams((prev) => applyStoreView(prev, update(parseStoreView(prev))), { replace });
+    },
+    [setSearchParams]
+  );
+
+  const setSearchQuery = useCallback(
+    (searchQuery: string) => updateView((prev) => ({ ...prev, searchQuery }), true),
+    [updateView]
+  );
+
+  const toggleCategory = useCallback(
+    (categoryId: number) =>
+      updateView((prev) => ({
+        ...prev,
+        categoryIds: prev.categoryIds.includes(categoryId)
+          ? prev.categoryIds.filter((id) => id !== categoryId)
+          : [...prev.categoryIds, categoryId],
+      })),
+    [updateView]
+  );
+
+  const toggleBrand = useCallback(
+    (brandId: number) =>
+      updateView((prev) => ({
+        ...prev,
+        brandIds: prev.brandIds.includes(brandId)
+          ? prev.brandIds.filter((id) => id !== brandId)
+          : [...prev.brandIds, brandId],
+      })),
+    [updateView]
+  );
+
+  const setSort = useCallback(
+    (sortBy: StoreSortBy, sortDirection: StoreSortDirection) =>
+      updateView((prev) => ({ ...prev, sortBy, sortDirection })),
+    [updateView]
+  );
+
+  const clearFilters = useCallback(
+    () => updateView((prev) => ({ ...prev, searchQuery: '', categoryIds: [], brandIds: [] })),
+    [updateView]
+  );
+
+  return { view, setSearchQuery, toggleCategory, toggleBrand, setSort, clearFilters };
+}
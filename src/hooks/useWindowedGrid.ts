@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useLayoutEffect, useState } from 'react';
+import type { CSSProperties } from 'react';
+
+/** Rows rendered above and below the viewport, so fast scrolling does not show empty space. */
+const OVERSCAN_ROWS = 3;
+/** Row height used until a row is rendered and measured. */
+const ESTIMATED_ROW_HEIGHT = 320;
+
+interface GridWindow {
+  startIndex: number;
+  endIndex: number;
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/**
+ * Windowed rendering of a CSS grid scrolled by the page (window). Only the rows near the viewport are
+ * rendered; the grid's top/bottom padding stands in for the rows above and below, so the scrollbar and
+ * positions stay as if every card was there. Columns come from the grid's computed template, so the
+ * responsive Tailwind classes keep working; rows off screen are assumed to be as tall as the average
+ * rendered row.
+ *
+ * Pass `gridRef` as the grid element's ref, spread `gridStyle` on it and render `items.slice(startIndex, endIndex)`.
+ * `windowing: false` renders every item (the grid benchmark's baseline, see utils/gridBenchmark).
+ */
+export function useWindowedGrid(itemCount: number, { windowing = true }: { windowing?: boolean } = {}) {
+  // Callback ref: the grid mounts after loading, and measuring has to start then
+  const [grid, setGrid] = useState<HTMLDivElement | null>(null);
+  const [range, setRange] = useState<GridWindow>({
+    startIndex: 0,
+    endIndex: Math.min(itemCount, 24),
+    paddingTop: 0,
+    paddingBottom: 0,
+  });
+
+  const update = useCallback(() => {
+    if (!windowing) {
+      setRange((prev) =>
+        prev.startIndex === 0 && prev.endIndex === itemCount && prev.paddingTop === 0 && prev.paddingBottom === 0
+          ? prev
+          : { startIndex: 0, endIndex: itemCount, paddingTop: 0, paddingBottom: 0 }
+      );
+      return;
+    }
+    if (!grid) return;
+    const style = window.getComputedStyle(grid);
+    const columns = Math.max(style.gridTemplateColumns.split(' ').filter(Boolean).length, 1);
+    const rowGap = parseFloat(style.rowGap) || 0;
+    // Average height of the rows rendered now (cards stretch to their row), gap included
+    const renderedRows = Math.ceil(grid.childElementCount / columns);
+    const renderedHeight = grid.clientHeight - (parseFloat(style.paddingTop) || 0) - (parseFloat(style.paddingBottom) || 0);
+    const rowHeight = renderedRows > 0 && renderedHeight > 0 ? (renderedHeight + rowGap) / renderedRows : ESTIMATED_ROW_HEIGHT;
+    const rowCount = Math.ceil(itemCount / columns);
+
+    // Row 0 starts at the grid's top edge; the padding we set stands in for the rows above the window
+    const contentTop = grid.getBoundingClientRect().top;
+    const firstRow = Math.max(Math.floor(-contentTop / rowHeight) - OVERSCAN_ROWS, 0);
+    const lastRow = Math.min(Math.ceil((window.innerHeight - contentTop) / rowHeight) + OVERSCAN_ROWS, rowCount);
+
+    const next: GridWindow = {
+      startIndex: Math.min(firstRow * columns, itemCount),
+      endIndex: Math.min(Math.max(lastRow, firstRow) * columns, itemCount),
+      paddingTop: firstRow * rowHeight,
+      paddingBottom: Math.max(rowCount - Math.max(lastRow, firstRow), 0) * rowHeight,
+    };
+    setRange((prev) =>
+      prev.startIndex === next.startIndex &&
+      prev.endIndex === next.endIndex &&
+      prev.paddingTop === next.paddingTop &&
+      prev.paddingBottom === next.paddingBottom
+        ? prev
+        : next
+    );
+  }, [grid, itemCount, windowing]);
+
+  // Recompute before paint when the list or the layout changes
+  useLayoutEffect(() => {
+    update();
+  }, [update]);
+
+  useEffect(() => {
+    let frame = 0;
+    const schedule = () => {
+      if (frame) return;
+      frame = window.requestAnimationFrame(() => {
+        frame = 0;
+        update();
+      });
+    };
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(schedule);
+    if (observer && grid) observer.observe(grid);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      observer?.disconnect();
+      if (frame) window.cancelAnimationFrame(frame);
+    };
+  }, [grid, update]);
+
+  const gridStyle: CSSProperties = { paddingTop: range.paddingTop, paddingBottom: range.paddingBottom };
+  return { gridRef: setGrid, gridElement: grid, startIndex: range.startIndex, endIndex: range.endIndex, gridStyle };
+}
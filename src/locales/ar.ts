@@ -0,0 +1,2025 @@
+import type { MessageCatalog } from '../utils/i18n';
+import type { ApiErrorCode, FallbackHeKey } from '../utils/apiErrorMessage';
+
+export const ar: MessageCatalog = {
+  'language.label': 'اللغة',
+
+  'layout.menu': 'القائمة',
+  'layout.openMenu': 'فتح القائمة',
+  'layout.closeMenu': 'إغلاق القائمة',
+  'layout.mainNavigation': 'التنقل الرئيسي',
+  'layout.agentNavigation': 'تنقل الوكيل',
+  'layout.menuNavigation': 'قائمة التنقل',
+  'layout.logout': 'تسجيل الخروج',
+  'layout.logoutLabel': 'تسجيل الخروج من النظام',
+
+  'nav.managerProfile': 'ملف المدير',
+  'nav.agentProfile': 'الملف الشخصي',
+  'nav.businessProfile': 'ملف المصلحة',
+  'nav.orders': 'الطلبات',
+  'nav.documents': 'تقارير ومستندات',
+  'nav.businessInfo': 'معلومات المصلحة',
+  'nav.agents': 'الوكلاء',
+  'nav.customers': 'الزبائن',
+  'nav.products': 'المنتجات',
+  'nav.overrides': 'أسعار خاصة',
+  'nav.categories': 'الفئات',
+  'nav.brands': 'العلامات التجارية',
+  'nav.locations': 'الفروع',
+
+  'orderStatus.EMPTY': 'فارغ',
+  'orderStatus.PLACED': 'تم الطلب',
+  'orderStatus.DONE': 'مكتمل',
+  'orderStatus.EXPIRED': 'منتهي الصلاحية',
+  'orderStatus.CANCELLED': 'ملغى',
+
+  'orderDate.created': 'أُنشئ في:',
+  'orderDate.placed': 'طُلب في:',
+  'orderDate.done': 'اكتمل في:',
+  'orderDate.expired': 'انتهت صلاحيته في:',
+
+  'discountError.decimalPlaces': 'يمكن أن يحتوي الخصم على منزلتين عشريتين كحد أقصى',
+  'discountError.exceedsTotal': 'لا يمكن أن يتجاوز الخصم مبلغ الطلب',
+  'discountError.negative': 'يجب أن يكون الخصم رقمًا موجبًا',
+
+  'error.default': 'حدث خطأ. حاول مرة أخرى لاحقًا.',
+  'error.requestFailed': 'فشل الطلب. حاول مرة أخرى.',
+  'error.requestFailedWithStatus': 'فشل الطلب (رمز {status}). حاول مرة أخرى.',
+  'error.network': 'خطأ في الشبكة',
+
+  'common.cancel': 'إلغاء',
+  'common.tryAgain': 'حاول مرة أخرى',
+  'common.understood': 'فهمت',
+  'common.showLess': 'عرض أقل',
+  'common.showAll': 'عرض الكل ({count})',
+  'common.optional': '(اختياري)',
+  'common.add': 'إضافة',
+  'common.adding': 'جارٍ الإضافة...',
+  'common.confirmation': 'تأكيد',
+  'common.save': 'حفظ',
+  'common.saving': 'جارٍ الحفظ...',
+  'common.saveChanges': 'حفظ التغييرات',
+  'common.close': 'إغلاق',
+  'common.closeWindow': 'إغلاق النافذة',
+  'common.deleting': 'جارٍ الحذف...',
+  'common.creating': 'جارٍ الإنشاء...',
+  'common.updating': 'جارٍ التحديث...',
+  'common.edit': 'تعديل',
+  'common.delete': 'حذف',
+  'common.error': 'خطأ',
+  'common.copyFailed': 'فشل النسخ',
+
+  'store.error.loginToEdit': 'يرجى تسجيل الدخول لتعديل الطلبات',
+  'store.error.noEditPermission': 'لا تملك صلاحية تعديل الطلبات',
+  'store.error.onlyPlacedEditable': 'يمكن تعديل الطلبات المرسلة فقط',
+  'store.error.noOrderPermission': 'لا تملك صلاحية تعديل هذا الطلب',
+  'store.error.orderNotFound': 'الطلب غير موجود',
+  'store.error.orderLoad': 'فشل تحميل الطلب',
+  'store.error.customerLinkInactive': 'رابط المتجر الشخصي هذا لم يعد فعالًا – اطلب رابطًا جديدًا من المتجر',
+  'store.error.customerLinkLoad': 'فشل تحميل رابط المتجر',
+  'store.error.invalidStoreUrl': 'عنوان المتجر غير صالح',
+
+  'store.queued.syncedTitle': 'تم إرسال الطلب بنجاح',
+  'store.queued.failedTitle': 'فشل إرسال الطلب',
+  'store.queued.pendingTitle': 'الطلب بانتظار المزامنة',
+  'store.queued.synced': 'تم إرسال الطلب المحفوظ على الجهاز إلى البائع.',
+  'store.queued.sending': 'تم حفظ الطلب على الجهاز ويجري إرساله الآن...',
+  'store.queued.offline':
+    'تم حفظ الطلب على الجهاز وسيُرسل تلقائيًا عند عودة الاتصال بالإنترنت. لا حاجة للطلب مرة أخرى.',
+  'store.queued.cancel': 'إلغاء الطلب',
+
+  'store.link.expiredTitle': 'انتهت صلاحية الرابط',
+  'store.link.expired': 'انتهت صلاحية رابط الطلب هذا. يرجى التواصل مع البائع للحصول على رابط جديد أو التحقق من حالة طلبك.',
+  'store.link.cancelledTitle': 'تم إلغاء الطلب',
+  'store.link.cancelled': 'تم إلغاء هذا الطلب. يرجى التواصل مع البائع إذا كانت لديك أسئلة أو تحتاج إلى مساعدة.',
+  'store.link.doneTitle': 'اكتمل الطلب',
+  'store.link.done': 'هذا الطلب مكتمل بالفعل.',
+  'store.link.placedTitle': 'تم إرسال هذا الطلب بالفعل',
+  'store.linkExpiry.daysLeft': {
+    one: 'رابط الطلب صالح ليوم واحد آخر',
+    two: 'رابط الطلب صالح ليومين آخرين',
+    few: 'رابط الطلب صالح لـ {count} أيام أخرى',
+    many: 'رابط الطلب صالح لـ {count} يومًا آخر',
+    other: 'رابط الطلب صالح لـ {count} يوم آخر',
+  },
+  'store.linkExpiry.hoursLeft': {
+    one: 'رابط الطلب صالح لساعة واحدة أخرى',
+    two: 'رابط الطلب صالح لساعتين أخريين',
+    few: 'رابط الطلب صالح لـ {count} ساعات أخرى',
+    many: 'رابط الطلب صالح لـ {count} ساعة أخرى',
+    other: 'رابط الطلب صالح لـ {count} ساعة أخرى',
+  },
+  'store.linkExpiry.minutesLeft': {
+    one: 'رابط الطلب صالح لدقيقة واحدة أخرى',
+    two: 'رابط الطلب صالح لدقيقتين أخريين',
+    few: 'رابط الطلب صالح لـ {count} دقائق أخرى',
+    many: 'رابط الطلب صالح لـ {count} دقيقة أخرى',
+    other: 'رابط الطلب صالح لـ {count} دقيقة أخرى',
+  },
+  'store.linkExpiry.until': 'حتى {date}',
+  'store.linkExpiry.request': 'اطلب تمديد الرابط',
+  'store.linkExpiry.requesting': 'جارٍ إرسال الطلب...',
+  'store.linkExpiry.requested': 'تم إرسال طلبك إلى البائع. سيُفتح الرابط من جديد عندما يمدده البائع.',
+  'store.linkExpiry.requestError': 'تعذر إرسال الطلب. حاول مرة أخرى.',
+  'store.confirmation.title': 'تأكيد الطلب رقم {reference}',
+  'store.confirmation.loading': 'جارٍ تحميل تأكيد الطلب...',
+  'store.confirmation.loadError': 'تعذر تحميل تأكيد الطلب حاليًا',
+  'store.confirmation.print': 'طباعة',
+  'store.confirmation.download': 'تنزيل',
+  'store.confirmation.reference': 'رقم الطلب',
+  'store.confirmation.placedAt': 'التاريخ',
+  'store.confirmation.customer': 'العميل',
+  'store.confirmation.lines': 'الأصناف',
+  'store.confirmation.product': 'المنتج',
+  'store.confirmation.quantity': 'الكمية',
+  'store.confirmation.unitPrice': 'سعر الوحدة',
+  'store.confirmation.lineTotal': 'المجموع',
+  'store.confirmation.productsTotal': 'مجموع المنتجات',
+  'store.confirmation.discount': 'خصم',
+  'store.confirmation.deliveryFee': 'رسوم التوصيل',
+  'store.confirmation.vatIncluded': 'منها ضريبة القيمة المضافة ({rate}%)',
+  'store.confirmation.total': 'المبلغ المستحق',
+  'store.confirmation.pickup': 'استلام',
+  'store.confirmation.pickupSlot': 'موعد الاستلام',
+  'store.confirmation.delivery': 'توصيل',
+  'store.confirmation.notes': 'ملاحظات',
+  'store.confirmation.footer': 'هذا التأكيد ليس فاتورة ضريبية.',
+
+  'store.load.genericTitle': 'عذرًا!',
+  'store.load.generic': 'حدث خطأ ما',
+  'store.load.notFoundTitle': 'المتجر غير موجود',
+  'store.load.notFound': 'هذا المتجر غير موجود أو تمت إزالته. يرجى التحقق من الرابط والمحاولة مرة أخرى.',
+  'store.load.forbiddenTitle': 'المتجر غير متاح',
+  'store.load.forbidden': 'هذا المتجر غير متاح حاليًا. يرجى التواصل مع صاحب المتجر.',
+  'store.load.offlineTitle': 'لا يوجد اتصال بالإنترنت',
+  'store.load.offline':
+    'لم يُحفظ المتجر على هذا الجهاز بعد. اتصل بالإنترنت وحاول مرة أخرى – بعد التحميل الأول يمكنك تصفحه دون اتصال أيضًا.',
+  'store.load.failedTitle': 'تعذر تحميل المتجر',
+  'store.load.failed': 'نواجه مشكلة في تحميل هذا المتجر. يرجى المحاولة مرة أخرى لاحقًا.',
+
+  'store.filters': 'عوامل التصفية',
+  'store.cart': 'السلة',
+  'store.clearFilters': 'مسح كل عوامل التصفية',
+  'store.sortBy': 'ترتيب:',
+  'store.sort.name': 'الاسم',
+  'store.sort.price': 'السعر',
+  'store.categories': 'الفئات',
+  'store.brands': 'العلامات التجارية',
+  'store.welcome': 'أهلًا وسهلًا',
+
+  'store.search.placeholder': 'ابحث عن منتج أو علامة تجارية أو فئة أو رمز منتج...',
+  'store.search.label': 'البحث عن منتجات',
+  'store.search.clear': 'مسح البحث',
+  'store.search.results': {
+    zero: 'لم يُعثر على منتجات',
+    one: 'تم العثور على منتج واحد',
+    two: 'تم العثور على منتجين',
+    few: 'تم العثور على {count} منتجات',
+    many: 'تم العثور على {count} منتجًا',
+    other: 'تم العثور على {count} منتج',
+  },
+  'store.viewLink.copy': 'نسخ رابط هذا العرض',
+  'store.viewLink.copied': 'تم نسخ الرابط!',
+
+  'store.empty.title': 'لم يُعثر على منتجات',
+  'store.empty.noResults': 'لا توجد نتائج لـ "{query}"',
+  'store.empty.adjustFilters': 'جرّب تعديل عوامل التصفية',
+  'store.empty.checkLater': 'عد لاحقًا لرؤية منتجات جديدة!',
+
+  'store.product.previousImage': 'الصورة السابقة',
+  'store.product.nextImage': 'الصورة التالية',
+  'store.product.priceFrom': 'ابتداءً من ',
+  'store.product.tierPrice': 'سعر الكمية: {price} من {quantity} وحدات',
+  'store.product.chooseOptions': 'اختيار الخيارات',
+  'store.stock.outOfStock': 'نفد من المخزون',
+  'store.stock.fewLeft': {
+    one: 'بقيت قطعة واحدة فقط',
+    two: 'بقيت قطعتان فقط',
+    few: 'بقيت {count} قطع فقط',
+    many: 'بقيت {count} قطعة فقط',
+    other: 'بقيت {count} قطعة فقط',
+  },
+  'store.scanner.title': 'وضع الماسح',
+  'store.scanner.hint': 'امسح الباركود لإضافة المنتج إلى السلة؛ المسح مرة أخرى يزيد الكمية',
+  'store.scanner.enable': 'تشغيل الماسح',
+  'store.scanner.disable': 'إيقاف الماسح',
+  'store.scanner.added': '{name} – {quantity} في السلة',
+  'store.scanner.notFound': 'لا يوجد منتج بالرمز {code}',
+  'store.scanner.chooseVariant': '{name} – يجب اختيار خيار',
+  'store.scanner.maxReached': 'لا يمكن إضافة المزيد من {name}',
+  'store.edit.droppedLinesTitle': 'بنود أُزيلت من الطلب',
+  'store.edit.droppedLinesHint': 'حُذفت هذه المنتجات أو الخيارات من الكتالوج ولذلك ليست في السلة. حفظ الطلب سيزيلها منه.',
+  'store.product.addToCart': 'أضف إلى السلة',
+  'store.product.add': 'أضف',
+  'store.product.added': 'تمت الإضافة!',
+
+  'store.cart.title': 'سلتك',
+  'store.cart.empty': 'سلتك فارغة',
+  'store.cart.removeItem': 'إزالة المنتج',
+  'store.cart.tierPrice': 'سعر الكمية ({quantity}+)',
+  'store.cart.nextTier': {
+    one: 'وحدة واحدة أخرى بسعر {price} للوحدة',
+    two: 'وحدتان أخريان بسعر {price} للوحدة',
+    few: '{count} وحدات أخرى بسعر {price} للوحدة',
+    many: '{count} وحدة أخرى بسعر {price} للوحدة',
+    other: '{count} وحدة أخرى بسعر {price} للوحدة',
+  },
+  'store.cart.total': 'المجموع:',
+  'store.cart.items': 'المنتجات:',
+  'store.cart.cannotCheckout': 'لا يمكن المتابعة إلى الدفع',
+  'store.cart.checkout': 'المتابعة إلى الدفع',
+
+  'store.favorites.add': 'أضف إلى المفضلة',
+  'store.favorites.remove': 'إزالة من المفضلة',
+  'store.shelves.label': 'طلب سريع',
+  'store.shelves.buyAgainTitle': 'اشترِ مرة أخرى',
+  'store.shelves.fromCustomerHistory': 'من طلباتك السابقة',
+  'store.shelves.fromDeviceHistory': 'من الطلبات التي أُرسلت من هذا الجهاز',
+  'store.shelves.favoritesTitle': 'المفضلة لدي',
+  'store.shelves.addAll': 'أضف الكل إلى السلة ({count})',
+  'store.shelves.chooseOptions': 'يجب اختيار الخيارات',
+  'store.shelves.unavailable': {
+    one: 'منتج واحد طُلب سابقًا لم يعد متوفرًا',
+    two: 'منتجان طُلبا سابقًا لم يعودا متوفرين',
+    few: '{count} منتجات طُلبت سابقًا لم تعد متوفرة',
+    many: '{count} منتجًا طُلب سابقًا لم يعد متوفرًا',
+    other: '{count} منتج طُلب سابقًا لم يعد متوفرًا',
+  },
+  'store.shelves.added': {
+    one: 'تمت إضافة منتج واحد إلى السلة',
+    two: 'تمت إضافة منتجين إلى السلة',
+    few: 'تمت إضافة {count} منتجات إلى السلة',
+    many: 'تمت إضافة {count} منتجًا إلى السلة',
+    other: 'تمت إضافة {count} منتج إلى السلة',
+  },
+  'store.shelves.outOfStock': {
+    one: 'منتج واحد نفد من المخزون ولم تتم إضافته',
+    two: 'منتجان نفدا من المخزون ولم تتم إضافتهما',
+    few: '{count} منتجات نفدت من المخزون ولم تتم إضافتها',
+    many: '{count} منتجًا نفد من المخزون ولم تتم إضافته',
+    other: '{count} منتج نفد من المخزون ولم تتم إضافته',
+  },
+  'store.quickOrder.open': 'طلب من قائمة',
+  'store.quickOrder.title': 'طلب من قائمة',
+  'store.quickOrder.hint': 'الصق صفوفًا من جدول بيانات أو ارفع ملف CSV: رمز المنتج أو الباركود أو اسم المنتج، ثم الكمية. تُضاف المنتجات إلى ما هو موجود في السلة.',
+  'store.quickOrder.textLabel': 'المنتجات والكميات',
+  'store.quickOrder.placeholder': 'SKU-100, 12\nحليب 3%, 6',
+  'store.quickOrder.upload': 'رفع ملف CSV',
+  'store.quickOrder.fileTooLarge': 'الملف كبير جدًا',
+  'store.quickOrder.fileError': 'تعذرت قراءة الملف',
+  'store.quickOrder.tooManyLines': 'حتى {max} سطر في كل مرة',
+  'store.quickOrder.empty': 'أدخل سطرًا واحدًا على الأقل',
+  'store.quickOrder.match': 'مطابقة المنتجات',
+  'store.quickOrder.summary': '{ready} من {total} صفوف جاهزة',
+  'store.quickOrder.status.ready': 'جاهز',
+  'store.quickOrder.status.chooseProduct': 'عدة منتجات مطابقة – اختر واحدًا',
+  'store.quickOrder.status.chooseVariant': 'يجب اختيار خيار',
+  'store.quickOrder.status.notFound': 'لا يوجد منتج مطابق – عدّل النص',
+  'store.quickOrder.status.badQuantity': 'يجب أن تكون الكمية عددًا صحيحًا من 1',
+  'store.quickOrder.query': 'الرمز أو الاسم',
+  'store.quickOrder.product': 'المنتج',
+  'store.quickOrder.chooseProduct': 'اختر منتجًا',
+  'store.quickOrder.variant': 'الخيار',
+  'store.quickOrder.chooseVariant': 'اختر خيارًا',
+  'store.quickOrder.quantity': 'الكمية',
+  'store.quickOrder.packAdjusted': 'ستُضاف الكمية {quantity} (حسب حجم العبوة)',
+  'store.quickOrder.notAllowed': 'لا يمكن طلب هذا المنتج',
+  'store.quickOrder.removeRow': 'إزالة الصف {line}',
+  'store.quickOrder.back': 'رجوع',
+  'store.quickOrder.skipped': {
+    one: 'سيتم تخطي صف واحد غير جاهز',
+    two: 'سيتم تخطي صفين غير جاهزين',
+    few: 'سيتم تخطي {count} صفوف غير جاهزة',
+    many: 'سيتم تخطي {count} صفًا غير جاهز',
+    other: 'سيتم تخطي {count} صف غير جاهز',
+  },
+  'store.quickOrder.addToCart': {
+    one: 'إضافة منتج واحد إلى السلة',
+    two: 'إضافة منتجين إلى السلة',
+    few: 'إضافة {count} منتجات إلى السلة',
+    many: 'إضافة {count} منتجًا إلى السلة',
+    other: 'إضافة {count} منتج إلى السلة',
+  },
+
+  'fulfillment.PICKUP': 'استلام ذاتي',
+  'fulfillment.DELIVERY': 'توصيل',
+  'pickupDate.today': 'اليوم',
+  'pickupDate.tomorrow': 'غدًا',
+
+  'cartRule.packsOf': 'بعبوات من {step}',
+  'cartRule.upTo': 'حتى {max} وحدة للطلب',
+  'cartRule.minimumTotal': 'الحد الأدنى للطلب هو {minimum} – ينقص {missing}',
+  'cartRule.required': 'يجب إضافة {name} إلى الطلب',
+  'cartRule.overMax': 'يمكن طلب حتى {max} وحدة من {name} (في السلة {quantity})',
+  'cartRule.notWholePacks': 'يُباع {name} بعبوات من {step} – يجب طلب كمية من مضاعفات {step} (مثلًا {example})',
+  'stock.soldOutInCart': 'نفد {name} من المخزون – يجب إزالته من السلة',
+  'stock.onlyLeftInCart': {
+    one: 'تبقّت وحدة واحدة فقط من {name} في المخزون (في السلة {quantity})',
+    two: 'تبقّت وحدتان فقط من {name} في المخزون (في السلة {quantity})',
+    few: 'تبقّت {count} وحدات فقط من {name} في المخزون (في السلة {quantity})',
+    other: 'تبقّى {count} وحدة فقط من {name} في المخزون (في السلة {quantity})',
+  },
+
+  'store.checkout.title': 'الدفع',
+  'store.checkout.close': 'إغلاق',
+  'store.checkout.step.details': 'التفاصيل',
+  'store.checkout.step.receive': 'الاستلام',
+  'store.checkout.step.location': 'الموقع',
+  'store.checkout.step.address': 'العنوان',
+  'store.checkout.step.review': 'المراجعة',
+  'store.checkout.back': 'رجوع',
+  'store.checkout.continue': 'متابعة',
+  'store.checkout.locationsLoadError': 'فشل تحميل مواقع الاستلام',
+  'store.checkout.slotsUnchecked': 'لا يمكن التحقق الآن من المواعيد الممتلئة – سيتم التحقق من الموعد عند إرسال الطلب.',
+  'store.checkout.nameRequired': 'الاسم مطلوب',
+  'store.checkout.phoneRequired': 'رقم الهاتف مطلوب',
+  'store.checkout.streetRequired': 'عنوان الشارع مطلوب',
+  'store.checkout.cityRequired': 'المدينة مطلوبة',
+  'store.checkout.stateIdRequired': 'رقم الشركة / المشتغل مطلوب',
+  'store.checkout.stateIdLength': 'يجب أن يتكون رقم الشركة / المشتغل من 9 أرقام بالضبط',
+  'store.checkout.chooseLocation': 'يرجى اختيار موقع الاستلام',
+  'store.checkout.chooseSlot': 'يرجى اختيار موعد الاستلام',
+  'store.checkout.deliveryStreetRequired': 'عنوان التوصيل مطلوب',
+  'store.checkout.deliveryCityRequired': 'مدينة التوصيل مطلوبة',
+  'store.checkout.acceptCartChanges': 'يجب الموافقة على التغييرات في السلة قبل إرسال الطلب',
+  'store.checkout.cartEmpty': 'السلة فارغة',
+  'store.checkout.noUpdatePermission': 'لا تملك صلاحية تحديث الطلبات',
+  'store.checkout.updatedTitle': 'تم تحديث الطلب!',
+  'store.checkout.placedTitle': 'تم إرسال الطلب!',
+  'store.checkout.updated': 'تم تحديث طلبك بنجاح.',
+  'store.checkout.queued':
+    'لا يوجد اتصال بالإنترنت حاليًا. تم حفظ الطلب على الجهاز وسيُرسل تلقائيًا عند عودة الاتصال – لا حاجة للطلب مرة أخرى.',
+  'store.checkout.placed': 'شكرًا على طلبك. استلمنا طلبك وسنبلغك بالمستجدات قريبًا.',
+  'store.checkout.printableConfirmation': 'تأكيد الطلب للطباعة',
+  'store.checkout.customerDetails': 'بيانات العميل',
+  'store.checkout.name': 'الاسم',
+  'store.checkout.namePlaceholder': 'أدخل اسمك',
+  'store.checkout.phone': 'الهاتف',
+  'store.checkout.phonePlaceholder': 'أدخل رقم هاتفك',
+  'store.checkout.emailOptional': 'البريد الإلكتروني (اختياري)',
+  'store.checkout.emailPlaceholder': 'أدخل بريدك الإلكتروني',
+  'store.checkout.street': 'عنوان الشارع',
+  'store.checkout.streetPlaceholder': 'أدخل عنوان الشارع',
+  'store.checkout.streetAndNumber': 'الشارع ورقم المبنى',
+  'store.checkout.city': 'المدينة',
+  'store.checkout.cityPlaceholder': 'أدخل المدينة',
+  'store.checkout.stateId': 'رقم الشركة / المشتغل',
+  'store.checkout.stateIdHint': 'أدخل 9 أرقام بالضبط',
+  'store.checkout.howToReceive': 'كيف تريد استلام الطلب؟',
+  'store.checkout.choosePickupLocation': 'اختر موقع الاستلام',
+  'store.checkout.fulfillmentMethod': 'طريقة استلام الطلب',
+  'store.checkout.noCharge': 'بدون تكلفة',
+  'store.checkout.deliveryFee': 'رسوم التوصيل {fee}',
+  'store.checkout.freeDelivery': 'توصيل مجاني',
+  'store.checkout.freeDeliveryOver': 'توصيل مجاني للطلبات التي تزيد عن {threshold}',
+  'store.checkout.missingForFreeDelivery': 'ينقص {amount}',
+  'store.checkout.noLocations': 'لا توجد مواقع استلام متاحة',
+  'store.checkout.streetLabel': 'الشارع: {street}',
+  'store.checkout.cityLabel': 'المدينة: {city}',
+  'store.checkout.phoneLabel': 'الهاتف: {phone}',
+  'store.checkout.whenPickup': 'متى ستأتي للاستلام؟',
+  'store.checkout.noSlots': 'لا توجد مواعيد استلام متاحة في هذا الفرع حاليًا',
+  'store.checkout.pickupDate': 'تاريخ الاستلام',
+  'store.checkout.pickupTime': 'ساعة الاستلام',
+  'store.checkout.slotFull': 'ممتلئ',
+  'store.checkout.slotRemaining': {
+    one: 'تبقّى مكان واحد',
+    two: 'تبقّى مكانان',
+    few: 'تبقّت {count} أماكن',
+    many: 'تبقّى {count} مكانًا',
+    other: 'تبقّى {count} مكان',
+  },
+  'store.checkout.deliveryAddress': 'عنوان التوصيل',
+  'store.checkout.courierInstructions': 'تعليمات لعامل التوصيل (اختياري)',
+  'store.checkout.courierInstructionsPlaceholder': 'الطابق، الشقة، رمز البوابة...',
+  'store.checkout.reviewChanges': 'مراجعة تغييرات الطلب',
+  'store.checkout.reviewOrder': 'راجع طلبك',
+  'store.checkout.fixCart': 'يجب تحديث السلة قبل إرسال الطلب',
+  'store.checkout.nameLabel': 'الاسم: {name}',
+  'store.checkout.emailLabel': 'البريد الإلكتروني: {email}',
+  'store.checkout.addressLabel': 'العنوان: {address}',
+  'store.checkout.notAvailable': 'غير متوفر',
+  'store.checkout.customerReadOnly': 'لا يمكن تعديل بيانات العميل',
+  'store.checkout.instructionsLabel': 'التعليمات: {instructions}',
+  'store.checkout.pickupLocation': 'موقع الاستلام',
+  'store.checkout.pickupSlotLabel': 'موعد الاستلام: {slot}',
+  'store.checkout.orderItems': 'عناصر الطلب',
+  'store.checkout.tierPrice': 'سعر الكمية من {quantity} وحدة: {price} للوحدة (بدلًا من {regular})',
+  'store.checkout.deliveryFeeLabel': 'رسوم التوصيل',
+  'store.checkout.free': 'مجانًا',
+  'store.checkout.addForFreeDelivery': 'أضف {amount} أخرى للحصول على توصيل مجاني',
+  'store.checkout.total': 'المجموع',
+  'store.checkout.notesOptional': 'ملاحظات (اختياري)',
+  'store.checkout.notesPlaceholder': 'تعليمات خاصة أو ملاحظات...',
+  'store.checkout.updating': 'جارٍ تحديث الطلب...',
+  'store.checkout.placing': 'جارٍ إرسال الطلب...',
+  'store.checkout.update': 'تحديث الطلب',
+  'store.checkout.place': 'إرسال الطلب',
+
+  'store.product.close': 'إغلاق النافذة',
+  'store.product.volumePrices': 'أسعار الكمية',
+  'store.product.units': '{range} وحدة',
+  'store.product.quantity': 'الكمية:',
+  'store.product.inCart': '{count} في السلة',
+  'store.product.choose': 'اختر {name}',
+  'store.cartChanges.title': 'طرأت تغييرات على منتجات في السلة',
+  'store.cartChanges.removed': 'أزيل من المتجر',
+  'store.cartChanges.accept': 'الموافقة وتحديث السلة',
+
+  'store.pending.pending': 'طلب بانتظار المزامنة',
+  'store.pending.sending': 'جارٍ إرسال الطلب...',
+  'store.pending.synced': 'تم إرسال الطلب بنجاح',
+  'store.pending.failed': 'فشل إرسال الطلب',
+  'store.pending.unconfirmed': 'غير معروف إن كان الطلب قد وصل',
+  'store.pending.serverUnreachable': 'تعذّر الاتصال بالخادم.',
+  'store.pending.offline': 'لا يوجد اتصال بالإنترنت.',
+  'store.pending.cachedCatalog': 'يُعرض الكتالوج المحفوظ من {date}.',
+  'store.pending.keepOrdering': 'يمكنك متابعة اختيار المنتجات وإرسال الطلب – سيُرسل تلقائيًا عند عودة الاتصال.',
+  'store.pending.unconfirmedHint':
+    'أُرسل الطلب لكن لم يصل رد. إذا لم يصلك تأكيد من المتجر فأرسله مرة أخرى – وإلا فأزله حتى لا تطلب مرتين.',
+  'store.pending.sendAgain': 'أرسل مرة أخرى',
+  'store.pending.remove': 'إزالة',
+  'store.pending.close': 'إغلاق',
+
+  'bulkAction.markDone': 'تعليم كمكتمل',
+  'bulkAction.cancel': 'إلغاء',
+  'bulkAction.discount': 'خصم',
+  'bulkAction.copyLinks': 'نسخ الروابط',
+
+  'calendarView.month': 'شهر',
+  'calendarView.week': 'أسبوع',
+  'calendarView.day': 'يوم',
+  'calendarDateField.placedAt': 'تاريخ الطلب',
+  'calendarDateField.doneAt': 'تاريخ الإكمال',
+  'calendarDateField.linkExpiresAt': 'انتهاء الرابط',
+
+  'orderMove.sameColumn': 'الطلب موجود في هذا العمود بالفعل',
+  'orderMove.notAllowed': 'لا يمكن نقل الطلبات إلى "{to}"',
+  'orderMove.onlyFrom': 'يمكن نقل الطلبات ذات الحالة {from} فقط إلى "{to}"',
+
+  'orderActivity.actor.MANAGER': 'مدير',
+  'orderActivity.actor.AGENT': 'وكيل',
+  'orderActivity.actor.PUBLIC': 'زبون (رابط الطلب)',
+  'orderActivity.created': 'تم إنشاء الطلب',
+  'orderActivity.status': 'الحالة: {status}',
+  'orderActivity.statusChanged': 'تغيير الحالة',
+  'orderActivity.previousStatus': 'سابقًا: {status}',
+  'orderActivity.products': 'تحديث المنتجات',
+  'orderActivity.productsVersion': 'تحديث المنتجات (الإصدار {version})',
+  'orderActivity.discount': 'تغيير الخصم',
+  'orderActivity.change': '{from} ← {to}',
+  'orderActivity.invoice': 'صدرت فاتورة #{number}',
+  'orderActivity.creditNote': 'صدر إشعار دائن #{number}',
+
+  'linkLifetime.weeks': {
+    one: 'أسبوع',
+    two: 'أسبوعان',
+    few: '{count} أسابيع',
+    many: '{count} أسبوعًا',
+    other: '{count} أسبوع',
+  },
+  'linkLifetime.days': {
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'linkLifetime.hours': {
+    one: 'ساعة واحدة',
+    two: 'ساعتان',
+    few: '{count} ساعات',
+    many: '{count} ساعة',
+    other: '{count} ساعة',
+  },
+  'linkLifetime.default': 'مدة الصلاحية الافتراضية: {lifetime}',
+
+  'orderSource.MANAGER': 'مدير',
+  'orderSource.AGENT': 'وكيل',
+  'orderSource.PUBLIC': 'أونلاين',
+  'orderExport.sheetName': 'الطلبات',
+  'orderExport.fileName': 'الطلبات',
+  'orderExport.column.referenceId': 'رقم الطلب',
+  'orderExport.column.status': 'الحالة',
+  'orderExport.column.source': 'المصدر',
+  'orderExport.column.agent': 'الوكيل',
+  'orderExport.column.customerName': 'الزبون',
+  'orderExport.column.customerPhone': 'الهاتف',
+  'orderExport.column.customerEmail': 'البريد الإلكتروني',
+  'orderExport.column.customerStateId': 'رقم الشركة / المشتغل',
+  'orderExport.column.customerAddress': 'العنوان',
+  'orderExport.column.customerCity': 'المدينة',
+  'orderExport.column.fulfillment': 'طريقة الاستلام',
+  'orderExport.column.createdAt': 'أُنشئ',
+  'orderExport.column.placedAt': 'طُلب',
+  'orderExport.column.doneAt': 'اكتمل',
+  'orderExport.column.productsTotal': 'مجموع المنتجات',
+  'orderExport.column.discount': 'الخصم',
+  'orderExport.column.deliveryFee': 'رسوم التوصيل',
+  'orderExport.column.credited': 'مبلغ الإشعار الدائن',
+  'orderExport.column.totalPrice': 'المجموع',
+  'orderExport.column.notes': 'ملاحظات',
+  'orderExport.column.productName': 'المنتج',
+  'orderExport.column.quantity': 'الكمية',
+  'orderExport.column.pricePerUnit': 'سعر الوحدة',
+  'orderExport.column.lineTotal': 'مجموع السطر',
+  'orderActivity.title': 'سجل الطلب',
+  'orderActivity.empty': 'لا يوجد نشاط مسجل لهذا الطلب',
+  'orderActivity.openPdf': 'فتح PDF',
+  'orderActivity.lineAdded': 'أُضيف: {quantity} × {price}',
+  'orderActivity.lineRemoved': 'أُزيل (كان {quantity})',
+  'orderActivity.quantityChange': 'الكمية {change}',
+  'orderActivity.priceChange': 'السعر {change}',
+
+  'orders.bulk.toolbar': 'إجراءات على الطلبات المحددة',
+  'orders.bulk.selected': '{count} محدد',
+  'orders.bulk.clearSelection': 'مسح التحديد',
+  'orders.bulk.progress': '{done} من {total}',
+  'orders.bulk.copyFailed': 'فشل نسخ الروابط',
+  'orders.bulk.cancelTitle': {
+    one: 'إلغاء طلب واحد؟',
+    two: 'إلغاء طلبين؟',
+    few: 'إلغاء {count} طلبات؟',
+    many: 'إلغاء {count} طلبًا؟',
+    other: 'إلغاء {count} طلب؟',
+  },
+  'orders.bulk.cancelBody':
+    'الإلغاء يزيل الطلبات من قائمة الانتظار النشطة. الطلبات المكتملة أو الملغاة أو المنتهية لن تتغير.',
+  'orders.bulk.keep': 'الاحتفاظ بالطلبات',
+  'orders.bulk.confirmCancel': 'إلغاء الطلبات',
+  'orders.bulk.discountTitle': {
+    one: 'خصم لطلب واحد',
+    two: 'خصم لطلبين',
+    few: 'خصم لـ {count} طلبات',
+    many: 'خصم لـ {count} طلبًا',
+    other: 'خصم لـ {count} طلب',
+  },
+  'orders.bulk.discountLabel': 'نسبة الخصم من مجموع منتجات كل طلب',
+  'orders.bulk.discountHint': 'سيُستبدل الخصم الحالي لكل طلب. 0% يزيل الخصم.',
+  'orders.bulk.applyDiscount': 'تطبيق الخصم',
+  'orders.bulk.resultsTitle': 'النتائج: {action}',
+  'orders.bulk.linksCopied': {
+    one: 'تم نسخ رابط واحد',
+    two: 'تم نسخ رابطين',
+    few: 'تم نسخ {count} روابط',
+    many: 'تم نسخ {count} رابطًا',
+    other: 'تم نسخ {count} رابط',
+  },
+  'orders.bulk.updated': {
+    one: 'تم تحديث طلب واحد',
+    two: 'تم تحديث طلبين',
+    few: 'تم تحديث {count} طلبات',
+    many: 'تم تحديث {count} طلبًا',
+    other: 'تم تحديث {count} طلب',
+  },
+  'orders.bulk.failed': 'فشل {count} (بقيت محددة):',
+  'orders.bulk.skipped': 'تم تخطي {count} (الإجراء لا يناسب الحالة):',
+  'orders.bulk.close': 'إغلاق',
+
+  'orders.cancel.title': 'إلغاء الطلب؟',
+  'orders.cancel.keep': 'الاحتفاظ بالطلب',
+  'orders.cancel.confirm': 'إلغاء الطلب',
+  'orders.board.cancelBody':
+    'الإلغاء يزيل الطلب #{reference} من قائمة الانتظار النشطة. يمكنك دائمًا إنشاء طلب جديد لاحقًا.',
+  'orders.board.empty': 'لا توجد طلبات',
+  'orders.board.noCustomer': 'بدون تفاصيل الزبون',
+  'orders.board.moveOrder': 'نقل الطلب {reference}',
+  'orders.board.moveTo': 'نقل إلى...',
+
+  'orders.calendar.previous': 'السابق',
+  'orders.calendar.next': 'التالي',
+  'orders.calendar.today': 'اليوم',
+  'orders.calendar.by': 'حسب:',
+  'orders.calendar.range': 'نطاق العرض',
+  'orders.calendar.summary': {
+    one: 'طلب واحد · المجموع',
+    two: 'طلبان · المجموع',
+    few: '{count} طلبات · المجموع',
+    many: '{count} طلبًا · المجموع',
+    other: '{count} طلب · المجموع',
+  },
+  'orders.calendar.truncated': 'تُعرض بعض الطلبات فقط في هذا النطاق – ضيّق النطاق أو أضف عوامل تصفية',
+  'orders.calendar.emptyDay': 'لا توجد طلبات في هذا اليوم',
+  'orders.calendar.more': '+{count} أخرى',
+
+  'orders.export.title': 'تصدير الطلبات',
+  'orders.export.intro': 'سيتم تصدير كل الطلبات المطابقة لعوامل التصفية النشطة، من كل الصفحات.',
+  'orders.export.format': 'التنسيق',
+  'orders.export.rows': 'الصفوف',
+  'orders.export.rowPerOrder': 'صف لكل طلب',
+  'orders.export.rowPerLine': 'صف لكل منتج في الطلب',
+  'orders.export.columns': 'الأعمدة ({count})',
+  'orders.export.selectAll': 'تحديد الكل',
+  'orders.export.defaults': 'الافتراضي',
+  'orders.export.loading': 'جارٍ تحميل الطلبات...',
+  'orders.export.stop': 'إيقاف التصدير',
+  'orders.export.export': 'تصدير',
+
+  'orders.selectOrder': 'تحديد الطلب {reference}',
+  'orders.expiringLinks.title': 'روابط تنتهي خلال {hours} ساعة القادمة: {count}',
+  'orders.expiringLinks.requests': {
+    one: 'طلب تمديد واحد',
+    two: 'طلبا تمديد',
+    few: '{count} طلبات تمديد',
+    many: '{count} طلب تمديد',
+    other: '{count} طلب تمديد',
+  },
+  'orders.expiringLinks.show': 'عرض',
+  'orders.expiringLinks.hide': 'إخفاء',
+  'orders.expiringLinks.expiringSoonTab': 'تنتهي قريبًا',
+  'orders.expiringLinks.expiredTab': 'منتهية',
+  'orders.expiringLinks.extendBy': 'التمديد بـ:',
+  'orders.expiringLinks.extendSelected': 'تمديد المحدد ({count})',
+  'orders.expiringLinks.reopenSelected': 'إعادة فتح المحدد ({count})',
+  'orders.expiringLinks.noneExpiringSoon': 'لا توجد روابط تنتهي خلال {hours} ساعة القادمة',
+  'orders.expiringLinks.noneExpired': 'لا توجد روابط انتهت مؤخرًا',
+  'orders.expiringLinks.noCustomer': 'بدون زبون',
+  'orders.expiringLinks.requested': 'طلب التمديد',
+  'orders.expiringLinks.expiredAt': 'انتهى في {date}',
+  'orders.expiringLinks.expiresAt': 'ينتهي في {date}',
+  'orders.expiringLinks.saving': 'جارٍ الحفظ...',
+  'orders.expiringLinks.reopen': 'إعادة فتح',
+  'orders.expiringLinks.extend': 'تمديد',
+
+  'stockReason.RECEIVED': 'استلام بضاعة',
+  'stockReason.COUNT': 'جرد المخزون',
+  'stockReason.DAMAGED': 'تالف / مفقود',
+  'stockReason.RETURNED': 'إرجاع من زبون',
+  'stockReason.OTHER': 'أخرى',
+  'stockReason.ORDER_DONE': 'اكتمل الطلب',
+  'stock.locationFallback': 'موقع #{id}',
+  'stock.error.wholeNumber': 'أدخل كمية بعدد صحيح',
+  'stock.error.countRange': 'يجب أن تكون الكمية المعدودة بين 0 و{max}',
+  'stock.error.deltaRange': 'يجب أن يكون التغيير غير 0 وحتى {max} وحدة',
+  'stock.error.noteRequired': 'يرجى توضيح سبب التغيير',
+  'stock.error.noteTooLong': 'يمكن أن تحتوي الملاحظة على {max} حرف كحد أقصى',
+  'stock.error.thresholdRange': 'يجب أن يكون حد المخزون المنخفض عددًا صحيحًا بين 0 و{max}',
+  'stock.settings.off': 'غير مفعّل',
+  'stock.settings.blocking': 'مفعّل · يمنع طلب كميات غير متوفرة',
+  'stock.settings.badgesOnly': 'مفعّل · شارات المخزون في المتجر فقط',
+  'stock.title': 'المخزون – {name}',
+  'stock.noLocations': 'لإدارة المخزون أضف فرعًا في صفحة الفروع.',
+  'stock.deletedVariant': 'متغير محذوف',
+  'stock.variant': 'المتغير',
+  'stock.product': 'المنتج',
+  'stock.total': 'المجموع',
+  'stock.lowStock': 'بلغ إجمالي المخزون ({total}) حد المخزون المنخفض ({threshold})',
+  'stock.adjustTitle': 'تحديث المخزون',
+  'stock.location': 'الفرع',
+  'stock.reason': 'السبب',
+  'stock.countedQuantity': 'الكمية المعدودة',
+  'stock.delta': 'التغيير (مثلًا 10 أو ‎-3)',
+  'stock.current': 'حاليًا في الفرع: {quantity}',
+  'stock.note': 'ملاحظة',
+  'stock.optional': '(اختياري)',
+  'stock.saving': 'جارٍ الحفظ...',
+  'stock.adjust': 'تحديث المخزون',
+  'stock.thresholdLabel': 'تنبيه مخزون منخفض عندما ينخفض إجمالي المخزون إلى',
+  'stock.thresholdHint': '(فارغ = بلا تنبيه)',
+  'stock.thresholdNone': 'بلا',
+  'stock.saveThreshold': 'حفظ الحد',
+  'stock.recentChanges': 'التغييرات الأخيرة',
+  'stock.noChanges': 'لا توجد تغييرات في المخزون بعد.',
+  'stock.left': 'تبقى {quantity}',
+
+  'addresses.title': 'تصحيح عناوين الزبائن',
+  'addresses.intro':
+    'العناوين المكتوبة بتهجئة مختلفة (مثل "ת"א" أو "קרית גת") ستُحدَّث إلى الاسم الرسمي للبلدة والشارع. العناوين غير الموجودة في السجل تبقى كما هي.',
+  'addresses.updated': {
+    one: 'تم تحديث زبون واحد.',
+    two: 'تم تحديث زبونين.',
+    few: 'تم تحديث {count} زبائن.',
+    many: 'تم تحديث {count} زبونًا.',
+    other: 'تم تحديث {count} زبون.',
+  },
+  'addresses.failed': 'لم يتم تحديث {count} من الزبائن:',
+  'addresses.nothingToFix': 'كل العناوين المعروفة مكتوبة بشكل موحد بالفعل.',
+  'addresses.selected': 'تم تحديد {count} من {total}',
+  'addresses.unknownCity': 'لن يتغير {count} من الزبائن الذين بلدتهم غير موجودة في السجل.',
+  'addresses.progress': 'جارٍ تحديث {done} من {total}...',
+  'addresses.apply': {
+    one: 'تحديث عنوان واحد',
+    two: 'تحديث عنوانين',
+    few: 'تحديث {count} عناوين',
+    many: 'تحديث {count} عنوانًا',
+    other: 'تحديث {count} عنوان',
+  },
+
+  'customerLink.title': 'رابط متجر شخصي',
+  'customerLink.intro': 'رابط دائم للزبون: يعرض دائمًا أسعاره الخاصة، وكل طلب عبره يُفتح كطلب جديد.',
+  'customerLink.loading': 'جارٍ التحميل...',
+  'customerLink.creating': 'جارٍ إنشاء الرابط...',
+  'customerLink.create': 'إنشاء رابط متجر شخصي',
+  'customerLink.label': 'رابط المتجر الشخصي',
+  'customerLink.copied': 'تم النسخ ✓',
+  'customerLink.copy': 'نسخ الرابط',
+  'customerLink.copyFailed': 'فشل النسخ',
+  'customerLink.createdAt': 'أُنشئ {date}',
+  'customerLink.unused': 'لم يُطلب عبره بعد',
+  'customerLink.usage': {
+    one: 'طلب واحد · آخرها {date}',
+    two: 'طلبان · آخرها {date}',
+    few: '{count} طلبات · آخرها {date}',
+    many: '{count} طلبًا · آخرها {date}',
+    other: '{count} طلب · آخرها {date}',
+  },
+  'customerLink.rotateWarning': 'سيتوقف الرابط الحالي عن العمل ويُستبدل برابط جديد. أرسل الرابط الجديد إلى الزبون.',
+  'customerLink.revokeWarning':
+    'سيتوقف الرابط عن العمل ولن يتمكن الزبون من الطلب عبره. يمكن إنشاء رابط جديد في أي وقت.',
+  'customerLink.saving': 'جارٍ الحفظ...',
+  'customerLink.rotate': 'استبدال الرابط',
+  'customerLink.revoke': 'إلغاء الرابط',
+  'customerLink.back': 'رجوع',
+
+  'orders.page.loadFailed': 'تعذر تحميل الطلبات',
+  'orders.page.invalidValue': 'يرجى إدخال قيمة صالحة',
+  'orders.page.title': 'الطلبات',
+  'orders.page.subtitle': 'أدر طلباتك وشارك الروابط مع العملاء',
+  'orders.page.export': 'تصدير',
+  'orders.page.newOrder': 'إنشاء طلب جديد',
+  'orders.page.createOrder': 'إنشاء طلب',
+  'orders.page.filter.agent': 'المندوب:',
+  'orders.page.filter.customer': 'العميل:',
+  'orders.page.filter.location': 'فرع الاستلام:',
+  'orders.page.filter.status': 'الحالة:',
+  'orders.page.filter.sortBy': 'ترتيب حسب:',
+  'orders.page.filter.pageSize': 'عرض:',
+  'orders.page.filter.all': 'الكل',
+  'orders.page.filter.todayPickups': 'استلامات اليوم',
+  'orders.page.sort.createdAt': 'تاريخ الإنشاء',
+  'orders.page.sort.totalPrice': 'السعر الإجمالي',
+  'orders.page.sort.pickupSlot': 'موعد الاستلام',
+  'orders.page.sort.ascending': 'أ ← ي',
+  'orders.page.sort.descending': 'أ → ي',
+  'orders.page.me': 'أنا',
+  'orders.page.online': '- أونلاين -',
+  'orders.page.empty.title': 'لا توجد طلبات بعد',
+  'orders.page.empty.body': 'أنشئ طلبك الأول للبدء',
+  'orders.page.selectPage': 'تحديد كل الطلبات في هذه الصفحة',
+  'orders.page.copied': 'تم النسخ!',
+  'orders.page.noCustomerYet': 'لا توجد تفاصيل عميل بعد',
+  'orders.page.awaitingDetails': 'بانتظار تفاصيل الطلب',
+  'orders.page.noCustomerDetails': 'لا توجد تفاصيل عميل',
+  'orders.page.discount': 'الخصم:',
+  'orders.page.credited': 'المسترد:',
+  'orders.page.total': 'المجموع',
+  'orders.page.pickup': 'الاستلام: {slot}',
+  'orders.page.sendWhatsApp': 'إرسال الرابط عبر واتساب',
+  'orders.page.linkCopied': 'تم نسخ الرابط',
+  'orders.page.copyLink': 'نسخ رابط الطلب',
+  'orders.page.openInNewTab': 'فتح الطلب في علامة تبويب جديدة',
+  'orders.page.edit': 'تعديل الطلب',
+  'orders.page.markDone': 'تحديد كمكتمل',
+  'orders.page.taxInvoice': 'فاتورة ضريبية وإيصال',
+  'orders.page.createTaxInvoice': 'إنشاء فاتورة ضريبية وإيصال',
+  'orders.page.create.linkExpiry': 'ينتهي رابط الطلب في نهاية مدة الصلاحية التي تختارها هنا. يمكنك تمديده لاحقًا.',
+  'orders.page.create.linkLifetime': 'صلاحية الرابط',
+  'orders.page.create.businessDefault': 'الإعداد الافتراضي للنشاط',
+  'orders.page.create.customer': 'اختيار عميل',
+  'orders.page.create.noCustomer': 'بدون عميل',
+  'orders.page.create.noCustomerHint': 'سيُدخل العميل بياناته عبر الرابط',
+  'orders.page.create.linkExisting': 'أو اربطه بعميل موجود',
+  'orders.page.create.search': 'ابحث عن عملاء...',
+  'orders.page.create.noResults': 'لم يتم العثور على عملاء',
+  'orders.page.create.clearSearch': 'مسح البحث',
+  'orders.page.create.creating': 'جارٍ الإنشاء...',
+  'orders.page.cancelBody':
+    'يؤدي الإلغاء إلى إزالة الطلب من قائمة الانتظار النشطة. يمكنك دائمًا إنشاء طلب جديد لاحقًا إذا غيرت رأيك.',
+  'orders.page.cancelling': 'جارٍ الإلغاء...',
+  'orders.page.discountModal.title': 'إضافة خصم',
+  'orders.page.discountModal.order': 'الطلب #{id}',
+  'orders.page.discountModal.orderTotal': 'إجمالي الطلب:',
+  'orders.page.discountModal.amountMode': 'مبلغ (₪)',
+  'orders.page.discountModal.percentMode': 'نسبة (%)',
+  'orders.page.discountModal.amountLabel': 'مبلغ الخصم (₪)',
+  'orders.page.discountModal.percentLabel': 'نسبة الخصم (%)',
+  'orders.page.discountModal.hint': 'حتى منزلتين عشريتين، بحد أقصى {max}',
+  'orders.page.discountModal.amount': 'مبلغ الخصم:',
+  'orders.page.discountModal.saving': 'جارٍ الحفظ...',
+  'orders.page.discountModal.save': 'حفظ',
+
+  'orders.viewMode.label': 'العرض:',
+  'orders.viewMode.list': 'قائمة',
+  'orders.viewMode.board': 'لوحة',
+  'orders.viewMode.calendar': 'تقويم',
+
+  'orders.linkExtend.requested': 'طلب العميل تمديد الرابط في {date}',
+  'orders.linkExtend.reopenFor': 'إعادة الفتح لمدة:',
+  'orders.linkExtend.reopen': 'إعادة فتح الرابط',
+  'orders.linkExtend.extend': 'تمديد الرابط',
+
+  'agentOrders.placedOn': 'تم الطلب {date}',
+  'agentOrders.createdOn': 'أُنشئ {date}',
+  'agentOrders.linkInfo': 'معلومات الرابط',
+  'agentOrders.linkExpiresAt': 'تاريخ الانتهاء',
+
+  'field.firstName': 'الاسم الأول',
+  'field.lastName': 'اسم العائلة',
+  'field.phone': 'رقم الهاتف',
+  'field.address': 'العنوان',
+  'field.city': 'المدينة',
+  'field.email': 'البريد الإلكتروني',
+  'field.password': 'كلمة المرور',
+  'field.currentPassword': 'كلمة المرور الحالية',
+  'field.dateOfBirth': 'تاريخ الميلاد',
+  'field.date': 'التاريخ',
+  'field.businessName': 'اسم النشاط التجاري',
+  'field.stateId': 'رقم الشركة / المشغّل',
+  'field.customerName': 'اسم العميل',
+  'field.discountPercentage': 'نسبة الخصم',
+  'field.locationName': 'اسم الفرع',
+  'field.minInvoiceNumber': 'الحد الأدنى لرقم الفاتورة',
+  'field.minCreditNoteNumber': 'الحد الأدنى لرقم إشعار الدائن',
+  'field.deliveryFee': 'رسوم التوصيل',
+  'field.freeDeliveryThreshold': 'الحد الأدنى للتوصيل المجاني',
+  'field.minimumOrderTotal': 'الحد الأدنى لمبلغ الطلب',
+
+  'validation.required': '{field} مطلوب',
+  'validation.maxLength': 'يجب ألا يتجاوز {field} {max} حرفًا',
+  'validation.digitsOnly': 'يجب أن يحتوي {field} على أرقام فقط',
+  'validation.exactDigits': 'يجب أن يتكون {field} من {count} أرقام بالضبط',
+  'validation.emailInvalid': 'يرجى إدخال بريد إلكتروني صالح',
+  'validation.number': 'يجب أن يكون {field} رقمًا صالحًا',
+  'validation.percentRange': 'يجب أن يكون {field} بين 0 و100',
+  'validation.passwordMinLength': 'يجب أن تتكون كلمة المرور من {min} أحرف على الأقل',
+  'validation.confirmPassword': 'يرجى تأكيد كلمة المرور',
+  'validation.passwordMismatch': 'كلمتا المرور غير متطابقتين',
+  'validation.minOne': 'يجب أن يكون {field} 1 على الأقل',
+  'validation.moneyAmount': 'يجب أن يكون {field} مبلغًا صالحًا (0 أو أكثر) بحد أقصى منزلتين عشريتين',
+  'validation.moneyMax': 'لا يمكن أن يتجاوز {field} {max}',
+
+  'pickupScheduling.error.noTemplates': 'يجب تحديد نافذة استلام واحدة على الأقل',
+  'pickupScheduling.error.missingHours': 'يجب إدخال ساعات البدء والانتهاء ليوم {day}',
+  'pickupScheduling.error.endBeforeStart': 'يجب أن يكون وقت الانتهاء يوم {day} بعد وقت البدء',
+  'pickupScheduling.error.windowTooShort': 'النافذة يوم {day} أقصر من موعد واحد ({minutes} دقيقة)',
+  'pickupScheduling.error.capacity': 'يجب أن يكون عدد الطلبات لكل موعد يوم {day} عددًا صحيحًا بين 1 و{max}',
+  'pickupScheduling.error.overlap': 'نوافذ الاستلام يوم {day} متداخلة',
+  'pickupScheduling.error.leadTime': 'يجب أن يكون وقت التحضير عددًا صحيحًا من الساعات بين 0 و{max}',
+  'pickupScheduling.error.bookingWindow': 'يجب أن تكون مدة الحجز المسبق بين 1 و{max} يومًا',
+
+  'priceTier.error.tooMany': 'يمكن تحديد {max} شرائح أسعار كحد أقصى',
+  'priceTier.error.quantity': 'يجب أن تكون الكمية الدنيا للشريحة عددًا صحيحًا، 2 أو أكثر',
+  'priceTier.error.quantityOrder': 'يجب أن تزداد كميات الشرائح من شريحة إلى أخرى',
+  'priceTier.error.price': 'يجب أن يكون سعر الشريحة من {quantity} وحدات رقمًا موجبًا',
+  'priceTier.error.priceMax': 'لا يمكن أن يتجاوز سعر الشريحة من {quantity} وحدات {max}',
+  'priceTier.error.belowMinimum': 'لا يمكن أن يقل سعر الشريحة من {quantity} وحدات عن الحد الأدنى للسعر',
+  'priceTier.error.notLower': 'يجب أن يكون سعر الشريحة من {quantity} وحدات أقل من الشريحة السابقة',
+
+  'variant.error.axisName': 'يجب إدخال اسم لكل خيار من خيارات التنويع',
+  'variant.error.axisNamesUnique': 'يجب أن تكون أسماء خيارات التنويع مختلفة',
+  'variant.error.axisValues': 'يجب إدخال قيمة واحدة على الأقل لكل خيار (مفصولة بفواصل)',
+  'variant.error.tooManyValues': 'يمكن تحديد {max} قيمة كحد أقصى لكل خيار',
+  'variant.error.tooManyVariants': 'يمكن تحديد {max} تنويعًا كحد أقصى لكل منتج',
+  'variant.error.price': 'يجب أن يكون سعر التنويع {label} رقمًا موجبًا',
+  'variant.error.priceMax': 'لا يمكن أن يتجاوز سعر التنويع {label} {max}',
+  'variant.error.belowMinimum': 'لا يمكن أن يقل سعر التنويع {label} عن الحد الأدنى للسعر',
+
+  'cartRule.summary.minimum': 'الحد الأدنى {amount}',
+  'cartRule.summary.productRules': {
+    one: 'قاعدة منتج واحدة',
+    two: 'قاعدتا منتج',
+    few: '{count} قواعد منتجات',
+    many: '{count} قاعدة منتج',
+    other: '{count} قاعدة منتج',
+  },
+  'cartRule.summary.none': 'لا يوجد',
+  'cartRule.error.tooMany': 'يمكن تحديد {max} قاعدة منتج كحد أقصى',
+  'cartRule.error.noProduct': 'يجب اختيار منتج في كل قاعدة',
+  'cartRule.error.duplicate': 'تم تحديد أكثر من قاعدة واحدة لـ {name}',
+  'cartRule.error.maxQuantity': 'يجب أن تكون الكمية القصوى لـ {name} عددًا صحيحًا بين 1 و{max}',
+  'cartRule.error.packSize': 'يجب أن يكون حجم العبوة لـ {name} عددًا صحيحًا، 2 أو أكثر',
+  'cartRule.error.maxBelowPack': 'الكمية القصوى لـ {name} أقل من عبوة واحدة ({step})',
+  'cartRule.error.empty': 'لم يتم تحديد أي قاعدة لـ {name}',
+
+  'storeTheme.summary.default': 'افتراضي',
+  'storeTheme.summary.colors': 'ألوان مخصصة',
+  'storeTheme.summary.banner': 'لافتة',
+  'storeTheme.summary.welcomeText': 'نص ترحيبي',
+  'storeTheme.summary.footer': 'تذييل',
+  'storeTheme.error.primaryColor': 'اللون الأساسي غير صالح',
+  'storeTheme.error.accentColor': 'اللون الثانوي غير صالح',
+  'storeTheme.error.welcomeTextLength': 'يجب ألا يتجاوز النص الترحيبي {max} حرفًا',
+  'storeTheme.error.footerTextLength': 'يجب ألا يتجاوز نص التذييل {max} حرفًا',
+  'storeTheme.error.contactPhone': 'يجب أن يتكون هاتف التواصل من 9-10 أرقام',
+  'storeTheme.error.contactAddressLength': 'يجب ألا يتجاوز العنوان {max} حرفًا',
+
+  'delivery.summary.off': 'غير مفعّل',
+  'delivery.summary.fee': 'رسوم التوصيل {fee}',
+  'delivery.summary.free': 'توصيل مجاني',
+  'delivery.summary.freeAbove': '{fee} · مجاني فوق {threshold}',
+
+  'priceTier.editor.title': 'أسعار الكميات',
+  'priceTier.editor.add': '+ إضافة شريحة',
+  'priceTier.editor.from': 'من',
+  'priceTier.editor.units': 'وحدة',
+  'priceTier.editor.quantityLabel': 'الكمية الدنيا للشريحة {number}',
+  'priceTier.editor.priceLabel': 'سعر الوحدة في الشريحة {number}',
+  'priceTier.editor.remove': 'إزالة الشريحة',
+
+  'variant.editor.title': 'التنويعات',
+  'variant.editor.hint': '(المقاس، اللون، العبوة... اختياري)',
+  'variant.editor.addAxis': '+ إضافة خيار',
+  'variant.editor.empty': 'المنتج بدون تنويعات يُباع بسعر واحد.',
+  'variant.editor.axisPlaceholder': 'مثال: المقاس',
+  'variant.editor.axisLabel': 'اسم خيار التنويع {number}',
+  'variant.editor.valuesLabel': 'قيم خيار التنويع {number}، مفصولة بفواصل',
+  'variant.editor.removeAxis': 'إزالة الخيار',
+  'variant.editor.count': {
+    one: 'تنويع واحد',
+    two: 'تنويعان',
+    few: '{count} تنويعات',
+    many: '{count} تنويعًا',
+    other: '{count} تنويع',
+  },
+  'variant.editor.priceHeader': 'السعر (فارغ = سعر المنتج)',
+  'variant.editor.priceLabel': 'السعر لـ {label}',
+
+  'pickupScheduling.title': 'مواعيد الاستلام – {name}',
+  'pickupScheduling.enabled': 'يختار العملاء موعد الاستلام في هذا الفرع',
+  'pickupScheduling.windows': 'نوافذ الاستلام الأسبوعية',
+  'pickupScheduling.addWindow': '+ إضافة نافذة',
+  'pickupScheduling.noWindows': 'لم يتم تحديد نوافذ استلام.',
+  'pickupScheduling.column.day': 'اليوم',
+  'pickupScheduling.column.from': 'من الساعة',
+  'pickupScheduling.column.to': 'حتى الساعة',
+  'pickupScheduling.column.slotLength': 'مدة الموعد',
+  'pickupScheduling.column.capacity': 'طلبات لكل موعد',
+  'pickupScheduling.dayLabel': 'يوم النافذة {number}',
+  'pickupScheduling.startLabel': 'وقت بدء النافذة {number}',
+  'pickupScheduling.endLabel': 'وقت انتهاء النافذة {number}',
+  'pickupScheduling.slotLengthLabel': 'مدة الموعد في النافذة {number}',
+  'pickupScheduling.minutes': '{minutes} د',
+  'pickupScheduling.capacityLabel': 'عدد الطلبات لكل موعد في النافذة {number}',
+  'pickupScheduling.removeWindow': 'إزالة النافذة',
+  'pickupScheduling.leadTime': 'وقت التحضير (ساعات)',
+  'pickupScheduling.leadTimeHint': 'أقرب موعد يمكن اختياره',
+  'pickupScheduling.bookingWindow': 'الحجز المسبق حتى (أيام)',
+  'pickupScheduling.blackoutDates': 'أيام الإغلاق (أعياد، عطلات)',
+  'pickupScheduling.removeDate': 'إزالة {date}',
+
+  'cartRule.editor.title': 'قواعد المنتجات',
+  'cartRule.editor.add': '+ إضافة قاعدة',
+  'cartRule.editor.loadingProducts': 'جارٍ تحميل المنتجات...',
+  'cartRule.editor.column.product': 'المنتج',
+  'cartRule.editor.column.max': 'الحد الأقصى للطلب',
+  'cartRule.editor.column.pack': 'عبوة من',
+  'cartRule.editor.column.required': 'إلزامي',
+  'cartRule.editor.productLabel': 'منتج القاعدة {number}',
+  'cartRule.editor.chooseProduct': 'اختر منتجًا',
+  'cartRule.editor.noLimit': 'بلا حد',
+  'cartRule.editor.maxLabel': 'الكمية القصوى للقاعدة {number}',
+  'cartRule.editor.packLabel': 'حجم العبوة للقاعدة {number}',
+  'cartRule.editor.remove': 'إزالة القاعدة',
+
+  'storeTheme.editor.title': 'تصميم المتجر',
+  'storeTheme.editor.primaryColor': 'اللون الأساسي',
+  'storeTheme.editor.accentColor': 'اللون الثانوي',
+  'storeTheme.editor.colorHex': '{color} (hex)',
+  'storeTheme.editor.reset': 'إعادة تعيين',
+  'storeTheme.editor.previewSort': 'ترتيب نشط',
+  'storeTheme.editor.adjusted': 'تم تعديل الدرجة ليبقى النص مقروءًا',
+  'storeTheme.editor.banner': 'لافتة المتجر',
+  'storeTheme.editor.replaceBanner': 'استبدال اللافتة',
+  'storeTheme.editor.removeBanner': 'إزالة اللافتة',
+  'storeTheme.editor.chooseBanner': 'اختر صورة اللافتة',
+  'storeTheme.editor.bannerHint': 'JPEG, PNG, WebP. الحجم الأقصى: 5MB. يُنصح بنسبة عرض إلى ارتفاع 4:1.',
+  'storeTheme.editor.welcomeText': 'نص ترحيبي',
+  'storeTheme.editor.welcomePlaceholder': 'أهلًا بكم في متجرنا!',
+  'storeTheme.editor.footerText': 'نص التذييل',
+  'storeTheme.editor.footerPlaceholder': 'ساعات العمل: الأحد–الخميس 8:00-17:00',
+  'storeTheme.editor.contactPhone': 'هاتف التواصل',
+  'storeTheme.editor.contactEmail': 'بريد التواصل الإلكتروني',
+  'storeTheme.editor.contactAddress': 'العنوان المعروض',
+
+  'orderView.title': 'تفاصيل الطلب',
+  'orderView.id': 'المعرّف #{id}',
+  'orderView.customer': 'بيانات العميل',
+  'orderView.name': 'الاسم',
+  'orderView.phone': 'الهاتف',
+  'orderView.email': 'البريد الإلكتروني',
+  'orderView.address': 'العنوان',
+  'orderView.city': 'المدينة',
+  'orderView.noCustomer': 'لا توجد بيانات عميل بعد',
+  'orderView.location': 'الفرع',
+  'orderView.instructions': 'تعليمات',
+  'orderView.noDeliveryAddress': 'لم يتم إدخال عنوان التوصيل',
+  'orderView.pickupSlot': 'موعد الاستلام',
+  'orderView.noLocation': 'لم يتم اختيار فرع بعد',
+  'orderView.products': 'المنتجات',
+  'orderView.noProducts': 'لا توجد منتجات بعد',
+  'orderView.quantity': 'الكمية: {quantity}',
+  'orderView.perUnit': '{price} للوحدة',
+  'orderView.creditedProducts': 'المنتجات المُرتجعة',
+  'orderView.noCreditedProducts': 'لا توجد منتجات مُرتجعة بعد',
+  'orderView.creditedQuantity': 'الكمية المُرتجعة: {quantity}',
+  'orderView.summary': 'ملخص الطلب',
+  'orderView.totalItems': 'إجمالي الأصناف',
+  'orderView.totalQuantity': 'إجمالي الكمية',
+  'orderView.price': 'السعر',
+  'orderView.discount': 'الخصم',
+  'orderView.deliveryFee': 'رسوم التوصيل',
+  'orderView.credits': 'الأرصدة الدائنة',
+  'orderView.total': 'السعر الإجمالي',
+  'orderView.notes': 'ملاحظات',
+  'orderView.noNotes': 'لا توجد ملاحظات',
+  'orderView.moreInfo': 'معلومات إضافية',
+  'orderView.reference': 'الرقم المرجعي',
+  'orderView.createdAt': 'تاريخ الإنشاء:',
+  'orderView.placedAt': 'تاريخ الطلب:',
+  'orderView.doneAt': 'تاريخ الإكمال:',
+  'orderView.expiresAt': 'تاريخ الانتهاء:',
+  'orderView.documents': 'الفواتير والمستندات',
+  'orderView.noDocuments': 'لا توجد فواتير بعد',
+  'orderView.creditNote': 'إشعار دائن',
+  'orderView.invoice': 'فاتورة',
+  'orderView.openPdf': 'فتح PDF',
+  'orderView.noPdf': 'لا يوجد PDF',
+  'orderView.cancel': 'إلغاء الطلب',
+  'orderView.cancelling': 'جارٍ الإلغاء...',
+  'orderView.edit': 'تعديل الطلب',
+  'orderView.addDiscount': 'إضافة خصم',
+  'orderView.markDone': 'تحديد كمكتمل',
+  'orderView.marking': 'جارٍ التحديد...',
+  'orderView.loadingInvoice': 'جارٍ تحميل بيانات الفاتورة…',
+  'orderView.createCreditNoteTitle': 'إنشاء إشعار دائن ضريبي',
+  'orderView.createCreditNote': 'إنشاء إشعار دائن',
+  'orderView.openInOrders': 'فتح في الطلبات',
+
+  'invoice.orderNumber': 'الطلب #{id}',
+  'invoice.title': 'إنشاء فاتورة',
+  'invoice.creating': 'جارٍ الإنشاء...',
+  'invoice.orderTotal': 'إجمالي الطلب',
+  'invoice.allocationNeeded': 'هذا الطلب يتطلب رقم تخصيص',
+  'invoice.allocationNotNeeded': 'هذا الطلب لا يتطلب رقم تخصيص',
+  'invoice.paymentMethod': 'طريقة الدفع',
+  'invoice.cash': 'نقدًا',
+  'invoice.creditCard': 'بطاقة ائتمان',
+  'invoice.allocationData': 'بيانات لإصدار رقم التخصيص',
+  'invoice.data.reference': 'الرقم المرجعي: {value}',
+  'invoice.data.customerId': 'رقم هوية العميل: {value}',
+  'invoice.data.notAvailable': 'غير متوفر',
+  'invoice.data.date': 'التاريخ: {value}',
+  'invoice.data.amountBeforeVat': 'مبلغ الصفقة بدون ضريبة القيمة المضافة: {value}',
+  'invoice.cardLast4': 'آخر 4 أرقام من بطاقة الائتمان',
+  'invoice.cardLast4Hint': 'أدخل 4 أرقام فقط',
+  'invoice.allocationNumber': 'رقم التخصيص',
+  'invoice.allocationHelp': 'مزيد من المعلومات عن رقم التخصيص',
+  'invoice.allocationHelpText': 'الطلبات التي يتجاوز إجماليها {amount} تتطلب رقم تخصيص.',
+  'invoice.allocationHelpLink': 'شرح إصدار رقم التخصيص (فيديو)',
+  'invoice.allocationPlaceholder': 'أدخل 9 أرقام',
+  'invoice.allocationHint': 'أدخل 9 أرقام بالضبط',
+  'invoice.error.allocationRequired': 'رقم التخصيص حقل إلزامي',
+  'invoice.error.allocationLength': 'يجب أن يتكون رقم التخصيص من 9 أرقام بالضبط',
+  'invoice.error.allocationDigits': 'يجب أن يحتوي رقم التخصيص على أرقام فقط',
+  'invoice.error.cardLast4': 'يجب إدخال آخر 4 أرقام من بطاقة الائتمان',
+  'invoice.error.cardDigits': 'يجب أن تكون الأرقام الأربعة الأخيرة أرقامًا فقط',
+
+  'creditNote.title': 'إنشاء إشعار دائن ضريبي',
+  'creditNote.type': 'نوع الإشعار الدائن',
+  'creditNote.byAmount': 'إشعار دائن حسب المبلغ',
+  'creditNote.byOrder': 'إشعار دائن حسب تعديل الطلب',
+  'creditNote.grossTotal': 'مبلغ الطلب (قبل الإشعارات الدائنة)',
+  'creditNote.alreadyCredited': 'تم إرجاعه بالفعل',
+  'creditNote.balance': 'الرصيد',
+  'creditNote.amount': 'مبلغ الإشعار الدائن (₪)',
+  'creditNote.amountHint': 'أرقام وفاصلة عشرية فقط، حتى منزلتين عشريتين. الحد الأقصى لهذا الطلب: {max}',
+  'creditNote.allocation': 'رقم التخصيص (9 أرقام)',
+  'creditNote.notes': 'ملاحظات الإشعار الدائن (اختياري)',
+  'creditNote.notesPlaceholder': 'أضف ملاحظات تظهر في مستند الإشعار الدائن...',
+  'creditNote.sending': 'جارٍ الإرسال…',
+  'creditNote.create': 'إنشاء إشعار دائن',
+  'creditNote.createByProducts': 'إنشاء إشعار دائن حسب المنتجات',
+  'creditNote.productsAmount': 'مبلغ الإشعار الدائن حسب المنتجات',
+  'creditNote.maxForOrder': 'الحد الأقصى للإشعار الدائن للطلب',
+  'creditNote.overMax': 'مبلغ الإشعار الدائن المختار أعلى من الحد الأقصى المسموح للطلب.',
+  'creditNote.column.product': 'المنتج',
+  'creditNote.column.ordered': 'الكمية في الطلب',
+  'creditNote.column.credited': 'الكمية المُرتجعة',
+  'creditNote.column.toCredit': 'الكمية للإرجاع',
+  'creditNote.column.amount': 'المبلغ',
+  'creditNote.remaining': 'المتبقي: {count}',
+  'creditNote.error.amount': 'يجب إدخال مبلغ موجب',
+  'creditNote.error.noProducts': 'يجب اختيار منتج واحد على الأقل للإرجاع',
+  'creditNote.error.max': 'لا يمكن أن يتجاوز المبلغ {max}',
+  'creditNote.error.allocation': 'يجب أن يتكون رقم التخصيص من 9 أرقام',
+  'creditNote.error.notes': 'يمكن أن تحتوي الملاحظات على {max} حرف كحد أقصى',
+
+  'placeholder.street': 'الشارع الرئيسي 123',
+  'placeholder.city': 'تل أبيب',
+
+  'image.choose': 'اختر صورة أو اسحبها وأفلتها',
+  'image.dropHere': 'أفلت الصورة هنا',
+  'image.change': 'تغيير الصورة',
+  'image.replace': 'استبدل الصورة أو اسحبها وأفلتها',
+  'image.current': 'الصورة الحالية:',
+  'image.remove': 'إزالة الصورة',
+  'image.willBeRemoved': 'ستتم إزالة الصورة',
+  'image.undoRemove': 'إلغاء الإزالة',
+  'image.hint': 'JPEG, PNG, WebP. الحجم الأقصى: 5MB.',
+  'image.error.type': 'نوع الملف غير صالح. يرجى اختيار صورة بصيغة JPEG أو PNG أو WebP.',
+  'image.error.size': 'حجم الملف يتجاوز 5MB.',
+  'image.error.read': 'فشل قراءة الملف لحساب المجموع الاختباري',
+  'image.error.upload': 'فشل رفع الصورة إلى S3',
+
+  'business.edit.title': 'تحديث بيانات النشاط التجاري',
+  'business.edit.email': 'البريد الإلكتروني للنشاط التجاري',
+  'business.edit.delivery': 'التوصيل للعملاء',
+  'business.edit.deliveryHint': 'عند التفعيل، يمكن للعملاء اختيار التوصيل بدلًا من الاستلام الذاتي عند الطلب.',
+  'business.edit.deliveryFee': 'رسوم التوصيل (₪)',
+  'business.edit.freeDeliveryThreshold': 'توصيل مجاني فوق (₪)',
+  'business.edit.minimumOrderTotal': 'الحد الأدنى لمبلغ الطلب (₪)',
+  'business.edit.none': 'بلا',
+  'business.edit.inventory': 'تتبع المخزون',
+  'business.edit.inventoryHint':
+    'عند التفعيل، يُدار المخزون لكل فرع في صفحة المنتجات، وينخفض تلقائيًا عند تحديد الطلب كمكتمل، ويعرض المتجر "نفد من المخزون" / "بقيت … فقط".',
+  'business.edit.blockUnavailable': 'عدم السماح بطلب كمية أكبر من المخزون',
+  'business.edit.deliveryLocation': 'الفرع الذي تخرج منه التوصيلات',
+  'business.edit.noDeliveryLocation': 'بلا – التوصيلات لا تخفض المخزون',
+  'business.edit.linkLifetime': 'المدة الافتراضية لصلاحية رابط الطلب',
+  'business.edit.linkLifetimeHint':
+    'تنتهي صلاحية الروابط الجديدة في نهاية هذه المدة، ما لم تُختر مدة أخرى عند إنشاء الطلب.',
+  'business.edit.image': 'صورة النشاط التجاري',
+  'business.edit.currentImageAlt': 'صورة النشاط التجاري الحالية',
+  'business.edit.previewImageAlt': 'معاينة صورة النشاط التجاري',
+  'business.loading': 'جارٍ تحميل بيانات النشاط التجاري...',
+  'business.loadError': 'خطأ في تحميل بيانات النشاط التجاري',
+  'business.notFound': 'لم يتم العثور على بيانات النشاط التجاري',
+  'business.notFoundHint': 'لا يوجد نشاط تجاري مسجل لهذا الحساب',
+  'business.noImage': 'لا توجد صورة',
+  'business.subtitle': 'تفاصيل النشاط التجاري',
+  'business.delivery': 'التوصيل',
+  'business.cartRules': 'قواعد السلة',
+  'business.orderLinks': 'روابط الطلب',
+  'business.registeredAt': 'تاريخ التسجيل',
+  'business.updatedAt': 'تاريخ آخر تحديث',
+
+  'businessInfo.statsFor': 'إحصائيات {month}',
+  'businessInfo.orderLinks': 'الطلبات لكل مندوب',
+  'businessInfo.manager': 'المدير',
+  'businessInfo.total': 'الإجمالي',
+  'businessInfo.income': 'الإيرادات',
+  'businessInfo.completedOrders': 'الطلبات المكتملة',
+  'businessInfo.yearlyOverview': 'نظرة سنوية - {year}',
+  'businessInfo.chart.ordersTooltip': {
+    one: '{month}: طلب واحد',
+    two: '{month}: طلبان',
+    few: '{month}: {count} طلبات',
+    many: '{month}: {count} طلبًا',
+    other: '{month}: {count} طلب',
+  },
+  'businessInfo.chart.revenue': 'الإيرادات: {amount}',
+  'businessInfo.chart.orders': 'الطلبات: {count}',
+  'businessInfo.chart.revenueLegend': 'الإيرادات',
+  'businessInfo.error.links': 'فشل تحميل الروابط التي تم إنشاؤها',
+  'businessInfo.error.income': 'فشل تحميل الإيرادات الشهرية',
+  'businessInfo.error.completedOrders': 'فشل تحميل عدد الطلبات المكتملة',
+  'businessInfo.error.yearly': 'فشل تحميل البيانات السنوية',
+
+  'login.required': 'حقل إلزامي',
+  'login.rememberMe': 'تذكرني',
+  'login.submit': 'تسجيل الدخول',
+  'login.signingIn': 'جارٍ تسجيل الدخول...',
+  'login.success': 'تم تسجيل الدخول بنجاح',
+  'login.signInHere': 'سجّل الدخول هنا',
+  'login.backHome': '← العودة إلى الصفحة الرئيسية',
+  'login.backHomeLabel': 'العودة إلى الصفحة الرئيسية',
+  'login.error.emailRequired': 'يرجى إدخال بريدك الإلكتروني',
+  'login.error.passwordRequired': 'يرجى إدخال كلمة المرور',
+  'login.error.invalid': 'البريد الإلكتروني أو كلمة المرور غير صحيحة',
+  'login.manager.title': 'بوابة المدير',
+  'login.manager.subtitle': 'سجّل الدخول إلى حسابك',
+  'login.manager.wantAccount': 'تريد حسابًا؟',
+  'login.manager.contact': 'اتصل بنا',
+  'login.manager.contactLabel': 'اتصل بمسؤول النظام على الرقم {phone}',
+  'login.manager.adminPhone': 'هاتف مسؤول النظام: {phone}',
+  'login.manager.phoneCopied': 'تم نسخ رقم الهاتف!',
+  'login.manager.isAgent': 'مندوب؟',
+  'login.manager.agentLoginLabel': 'تسجيل دخول المندوب',
+  'login.agent.title': 'بوابة المندوب',
+  'login.agent.subtitle': 'سجّل الدخول لعرض مهامك',
+  'login.agent.submitLabel': 'تسجيل الدخول إلى حساب المندوب',
+  'login.agent.backToManager': 'العودة إلى تسجيل دخول المدير؟',
+  'login.agent.backToManagerLabel': 'العودة إلى تسجيل دخول المدير',
+
+  'skipLinks.main': 'انتقل إلى المحتوى الرئيسي',
+  'skipLinks.navigation': 'انتقل إلى التنقل',
+  'cookieConsent.title': 'استخدام ملفات تعريف الارتباط',
+  'cookieConsent.description':
+    'نستخدم ملفات تعريف الارتباط لتحسين تجربتك على الموقع. بمتابعة استخدام الموقع، فإنك توافق على استخدام ملفات تعريف الارتباط وفقًا لـ',
+  'cookieConsent.policyLink': 'سياسة ملفات تعريف الارتباط الخاصة بنا',
+  'cookieConsent.reject': 'رفض',
+  'cookieConsent.rejectLabel': 'رفض ملفات تعريف الارتباط - رفض جميع الملفات غير الضرورية',
+  'cookieConsent.accept': 'قبول',
+  'cookieConsent.acceptLabel': 'قبول ملفات تعريف الارتباط - قبول جميع الأنواع',
+
+  'a11y.open': 'فتح قائمة إمكانية الوصول',
+  'a11y.menu': 'قائمة إمكانية الوصول',
+  'a11y.close': 'إغلاق قائمة إمكانية الوصول',
+  'a11y.title': 'إعدادات إمكانية الوصول',
+  'a11y.fontSize': 'حجم الخط',
+  'a11y.fontSample': 'أ',
+  'a11y.contrast': 'التباين',
+  'a11y.spacing': 'التباعد',
+  'a11y.level.small': 'صغير',
+  'a11y.level.normal': 'عادي',
+  'a11y.level.large': 'كبير',
+  'a11y.level.extraLarge': 'كبير جدًا',
+  'a11y.level.high': 'عالٍ',
+  'a11y.level.increased': 'مُوسَّع',
+  'a11y.announce.fontSize': 'تم تغيير حجم الخط إلى {level}',
+  'a11y.announce.contrast': 'تم تغيير التباين إلى {level}',
+  'a11y.announce.spacing': 'تم تغيير التباعد إلى {level}',
+  'a11y.announce.reset': 'تمت إعادة تعيين إعدادات إمكانية الوصول إلى الوضع الافتراضي',
+  'a11y.reset': 'إعادة تعيين الإعدادات',
+  'a11y.statement': 'بيان إمكانية الوصول',
+  'a11y.reportIssue': 'الإبلاغ عن مشكلة في إمكانية الوصول: {phone}',
+
+  'home.logoAlt': 'אורדרית - نظام إدارة الطلبات',
+  'home.title': 'نظام إدارة الطلبات',
+  'home.subtitle': 'إدارة النشاط التجاري والعملاء والمنتجات والطلبات',
+  'home.managerHint': 'سجّل الدخول لإدارة نشاطك التجاري',
+  'home.agentHint': 'سجّل الدخول إلى حساب المندوب',
+  'home.features.title': 'كل ما تحتاجه لإدارة نشاطك التجاري',
+  'home.features.subtitle': 'حل شامل واحترافي في مكان واحد',
+  'home.dashboard.imageAlt': 'لوحة التحكم - إدارة الملف الشخصي والبيانات الشخصية',
+  'home.dashboard.title': 'لوحة تحكم متكاملة',
+  'home.dashboard.description': 'أدر جميع جوانب نشاطك التجاري من مكان واحد - كل الأدوات اللازمة لإدارة احترافية',
+  'home.orders.imageAlt': 'إدارة الطلبات - إنشاء وتعديل وتتبع',
+  'home.orders.title': 'إدارة الطلبات',
+  'home.orders.description': 'أنشئ طلبات جديدة وتابع الحالات وشارك الروابط مع العملاء وأصدر الفواتير',
+  'home.orders.create': 'إنشاء طلبات جديدة وإدارة الطلبات الحالية',
+  'home.orders.statuses': 'تتبع الحالات - فارغ، تم الطلب، مكتمل، ملغى',
+  'home.orders.links': 'مشاركة الروابط مع العملاء لإكمال الطلبات',
+  'home.orders.invoices': 'إصدار الفواتير والخصومات المخصصة',
+  'home.catalog.imageAlt': 'إدارة المنتجات - كتالوج كامل بالصور والأسعار',
+  'home.catalog.title': 'كتالوج المنتجات',
+  'home.catalog.description': 'أدر الكتالوج وأضف منتجات جديدة وحدّث الأسعار ورتّب حسب الفئات',
+  'home.catalog.products': 'إدارة المنتجات - إضافة وتعديل وحذف',
+  'home.catalog.categories': 'الفئات والعلامات التجارية - تنظيم المنتجات بشكل مرتب',
+  'home.catalog.prices': 'أسعار خاصة - خصومات للعملاء والمندوبين',
+  'home.catalog.images': 'صور المنتجات - إدارة معرض صور لكل منتج',
+  'home.contact.title': 'اتصل بنا',
+  'home.contact.subtitle': 'يسعدنا مساعدتك في أي سؤال',
+  'home.contact.callLabel': 'اتصل بالرقم {phone}',
+
+  'legal.lastUpdated': 'آخر تحديث: {date}',
+  'legal.phone': 'الهاتف:',
+  'legal.website': 'الموقع:',
+  'legal.hours': 'ساعات العمل: الأحد-الخميس 09:00-17:00',
+  'legal.backHome': 'العودة إلى الصفحة الرئيسية',
+  'legal.purpose': 'الغرض:',
+  'legal.validity': 'مدة الصلاحية:',
+  'accessibilityStatement.intro.title': 'مقدمة',
+  'accessibilityStatement.intro.law':
+    'يلتزم نظام إدارة الطلبات بتقديم خدمة متاحة ومتساوية لجميع المستخدمين، وفقًا لقانون المساواة في الحقوق للأشخاص ذوي الإعاقة (1998) وأنظمة إتاحة الخدمات (2013).',
+  'accessibilityStatement.intro.wcag':
+    'يستوفي الموقع معيار WCAG 2.2 Level AA الصادر عن W3C، وهو المعيار الدولي لإتاحة المواقع.',
+  'accessibilityStatement.features.title': 'ميزات إمكانية الوصول',
+  'accessibilityStatement.features.intro': 'يتضمن الموقع الميزات التالية لتحسين إمكانية الوصول:',
+  'accessibilityStatement.features.keyboard': 'تنقل كامل بلوحة المفاتيح - جميع الوظائف متاحة عبر لوحة المفاتيح',
+  'accessibilityStatement.features.screenReaders': 'دعم قارئات الشاشة - دعم كامل لـ NVDA وJAWS وVoiceOver',
+  'accessibilityStatement.features.skipLinks': 'روابط التخطي - للانتقال مباشرة إلى المحتوى الرئيسي أو التنقل',
+  'accessibilityStatement.features.fontSize': 'تعديل حجم الخط - إمكانية تكبير النص (صغير، عادي، كبير، كبير جدًا)',
+  'accessibilityStatement.features.contrast': 'تعديل التباين - إمكانية زيادة التباين بين النص والخلفية',
+  'accessibilityStatement.features.spacing': 'تعديل التباعد - إمكانية زيادة المسافات بين الأحرف والكلمات والعناصر',
+  'accessibilityStatement.features.altText': 'صور بنص بديل - جميع الصور تتضمن وصفًا نصيًا',
+  'accessibilityStatement.features.tables': 'جداول متاحة - جداول بعناوين وأوصاف وبنية صحيحة',
+  'accessibilityStatement.features.forms': 'نماذج متاحة - جميع الحقول تتضمن تسميات ورسائل خطأ وتعليمات',
+  'accessibilityStatement.features.modals': 'نوافذ حوار متاحة - نوافذ منبثقة مع حصر التركيز والتنقل بلوحة المفاتيح',
+  'accessibilityStatement.standards.title': 'الامتثال للمعايير',
+  'accessibilityStatement.standards.intro': 'يستوفي الموقع المتطلبات التالية:',
+  'accessibilityStatement.standards.wcag': 'المعيار الدولي لإتاحة المواقع',
+  'accessibilityStatement.standards.israeliStandard': 'المعيار الإسرائيلي 5568',
+  'accessibilityStatement.standards.israeliStandardDescription': 'إرشادات إتاحة المحتوى على الإنترنت',
+  'accessibilityStatement.standards.law': 'قانون المساواة في الحقوق للأشخاص ذوي الإعاقة',
+  'accessibilityStatement.standards.lawYear': '1998',
+  'accessibilityStatement.standards.regulations': 'أنظمة إتاحة الخدمات',
+  'accessibilityStatement.standards.regulationsYear': '2013',
+  'accessibilityStatement.knownIssues.title': 'مشكلات معروفة',
+  'accessibilityStatement.knownIssues.text':
+    'حتى تاريخ هذا التحديث، لم يتم رصد مشكلات جوهرية في إمكانية الوصول إلى الموقع. إذا واجهت مشكلة، يرجى التواصل معنا عبر التفاصيل أدناه.',
+  'accessibilityStatement.contact.title': 'الإبلاغ عن مشكلات إمكانية الوصول',
+  'accessibilityStatement.contact.text':
+    'إذا واجهت مشكلة في إمكانية الوصول إلى الموقع، أو لديك اقتراحات للتحسين، يرجى التواصل معنا:',
+  'accessibilityStatement.contact.response': 'نسعى للرد على كل طلب خلال 5 أيام عمل.',
+  'accessibilityStatement.enforcement.title': 'إجراءات الإنفاذ',
+  'accessibilityStatement.enforcement.intro': 'إذا لم تتلقَّ ردًا مرضيًا، يمكنك التوجه إلى:',
+  'accessibilityStatement.enforcement.commission': 'مفوضية المساواة في الحقوق للأشخاص ذوي الإعاقة',
+  'accessibilityStatement.widget.title': 'أداة إمكانية الوصول',
+  'accessibilityStatement.widget.intro': 'يتضمن الموقع أداة إمكانية وصول تتيح تخصيص:',
+  'accessibilityStatement.widget.fontSize': 'حجم الخط (صغير، عادي، كبير، كبير جدًا)',
+  'accessibilityStatement.widget.contrast': 'مستوى التباين (عادي، عالٍ)',
+  'accessibilityStatement.widget.spacing': 'التباعد (عادي، مُوسَّع)',
+  'accessibilityStatement.widget.location':
+    'توجد الأداة في الزاوية السفلية اليسرى من الشاشة. يمكنك أيضًا فتحها باختصار لوحة المفاتيح Alt + A (أو Option + A على Mac).',
+  'cookiesPolicy.title': 'سياسة ملفات تعريف الارتباط',
+  'cookiesPolicy.what.title': 'ما هي ملفات تعريف الارتباط؟',
+  'cookiesPolicy.what.text':
+    'ملفات تعريف الارتباط (Cookies) هي ملفات نصية صغيرة تُخزَّن على جهازك (حاسوب، هاتف، جهاز لوحي) عند زيارتك للمواقع. تتيح هذه الملفات للموقع تذكّر تفضيلاتك وتحسين تجربة الاستخدام.',
+  'cookiesPolicy.types.title': 'أنواع ملفات تعريف الارتباط التي نستخدمها',
+  'cookiesPolicy.essential.title': 'ملفات تعريف الارتباط الضرورية',
+  'cookiesPolicy.essential.text':
+    'هذه الملفات ضرورية لعمل الموقع ولا يمكن تشغيله بدونها. يتم تعيينها عادةً استجابةً لإجراءات قمت بها، مثل ضبط تفضيلات الخصوصية أو تسجيل الدخول أو تعبئة النماذج.',
+  'cookiesPolicy.essential.purpose': 'حفظ تفضيلات إمكانية الوصول، وحفظ حالة تسجيل الدخول، وحفظ سلة التسوق',
+  'cookiesPolicy.essential.validity': 'حتى سنة أو حتى الحذف اليدوي',
+  'cookiesPolicy.performance.title': 'ملفات تعريف الارتباط الخاصة بالأداء',
+  'cookiesPolicy.performance.text':
+    'تتيح لنا هذه الملفات عدّ الزيارات وتحديد مصادر الزيارات لتحسين أداء الموقع. وتساعدنا على معرفة الصفحات الأكثر والأقل شعبية، ورؤية كيفية تنقل المستخدمين في الموقع.',
+  'cookiesPolicy.performance.purpose': 'تحسين أداء الموقع، وفهم أنماط الاستخدام',
+  'cookiesPolicy.functional.title': 'ملفات تعريف الارتباط الوظيفية',
+  'cookiesPolicy.functional.text':
+    'تتيح هذه الملفات للموقع تقديم وظائف وخدمات محسّنة. إذا لم تسمح بها، فقد لا تعمل بعض الخدمات.',
+  'cookiesPolicy.functional.purpose': 'حفظ تفضيلات المستخدم وإعدادات إمكانية الوصول',
+  'cookiesPolicy.validity.year': 'حتى سنة',
+  'cookiesPolicy.usage.title': 'كيف نستخدم ملفات تعريف الارتباط',
+  'cookiesPolicy.usage.accessibility': 'لحفظ تفضيلات إمكانية الوصول (حجم الخط، التباين، التباعد)',
+  'cookiesPolicy.usage.session': 'لحفظ حالة تسجيل الدخول',
+  'cookiesPolicy.usage.cart': 'لحفظ سلة التسوق',
+  'cookiesPolicy.usage.performance': 'لتحسين أداء الموقع',
+  'cookiesPolicy.usage.analytics': 'لفهم أنماط الاستخدام',
+  'cookiesPolicy.manage.title': 'إدارة ملفات تعريف الارتباط',
+  'cookiesPolicy.manage.intro': 'يمكنك التحكم في ملفات تعريف الارتباط وإدارتها بالطرق التالية:',
+  'cookiesPolicy.manage.browser': 'إعدادات المتصفح:',
+  'cookiesPolicy.manage.browserText':
+    'تتيح لك معظم المتصفحات التحكم في ملفات تعريف الارتباط من قائمة الإعدادات. يمكنك حذف الملفات الموجودة أو منع استقبالها.',
+  'cookiesPolicy.manage.widget': 'أداة إمكانية الوصول:',
+  'cookiesPolicy.manage.widgetText':
+    'يمكنك إدارة ملفات تعريف الارتباط من خلال أداة إمكانية الوصول في الموقع (الزاوية السفلية اليسرى).',
+  'cookiesPolicy.manage.manual': 'الحذف اليدوي:',
+  'cookiesPolicy.manage.manualText': 'يمكنك حذف ملفات تعريف الارتباط في أي وقت من إعدادات المتصفح.',
+  'cookiesPolicy.manage.note': 'يرجى الانتباه:',
+  'cookiesPolicy.manage.noteText':
+    'قد يؤثر حذف ملفات تعريف الارتباط على عمل الموقع. على سبيل المثال، قد تحتاج إلى تسجيل الدخول مجددًا أو قد تُفقد تفضيلات إمكانية الوصول الخاصة بك.',
+  'cookiesPolicy.thirdParty.title': 'ملفات تعريف الارتباط التابعة لجهات خارجية',
+  'cookiesPolicy.thirdParty.text':
+    'لا يستخدم موقعنا حاليًا ملفات تعريف ارتباط تابعة لجهات خارجية. إذا أضفنا خدمات لجهات خارجية مستقبلًا، فسنحدّث هذه السياسة وفقًا لذلك.',
+  'cookiesPolicy.updates.title': 'تحديثات السياسة',
+  'cookiesPolicy.updates.text':
+    'قد نقوم بتحديث هذه السياسة من وقت لآخر. سيُنشر أي تغيير في هذه الصفحة مع تاريخ التحديث. ننصح بمراجعة هذه الصفحة من حين لآخر للبقاء على اطلاع.',
+  'cookiesPolicy.contact.title': 'التواصل',
+  'cookiesPolicy.contact.text': 'إذا كانت لديك أسئلة حول سياسة ملفات تعريف الارتباط الخاصة بنا، يرجى التواصل معنا:',
+
+  'locations.title': 'الفروع',
+  'locations.subtitle': 'إدارة فروع نشاطك التجاري',
+  'locations.loading': 'جارٍ تحميل الفروع...',
+  'locations.loadError': 'خطأ في تحميل الفروع',
+  'locations.add': 'إضافة فرع',
+  'locations.empty': 'لا توجد فروع بعد',
+  'locations.emptyHint': 'ابدأ بإضافة أول فرع لنشاطك التجاري',
+  'locations.addFirst': 'أضف فرعك الأول',
+  'locations.pickupWindows': {
+    one: 'مواعيد الاستلام: نافذة أسبوعية واحدة',
+    two: 'مواعيد الاستلام: نافذتان أسبوعيتان',
+    few: 'مواعيد الاستلام: {count} نوافذ أسبوعية',
+    many: 'مواعيد الاستلام: {count} نافذة أسبوعية',
+    other: 'مواعيد الاستلام: {count} نافذة أسبوعية',
+  },
+  'locations.pickupAnyTime': 'الاستلام في أي وقت',
+  'locations.pickupTimes': 'مواعيد الاستلام',
+  'locations.edit': 'تعديل الفرع',
+  'locations.delete': 'حذف الفرع',
+  'locations.deleteConfirm': 'هل أنت متأكد أنك تريد حذف {name}؟ لا يمكن التراجع عن هذا الإجراء.',
+  'locations.deleteWarning': 'لن تعود الطلبات والمنتجات والعملاء المرتبطون بهذا الفرع مرتبطين به.',
+  'locations.error.lastLocation': 'يجب أن يكون هناك فرع واحد على الأقل. لا يمكن حذف الفرع الأخير.',
+  'locationForm.addTitle': 'إضافة فرع جديد',
+  'locationForm.namePlaceholder': 'مثال: الفرع الرئيسي، فرع المركز',
+  'locationForm.create': 'إنشاء فرع',
+
+  'list.pageSize': 'عرض:',
+  'list.page': 'صفحة',
+  'list.sortBy': 'ترتيب:',
+  'list.sort.ascending': 'أ ← ي',
+  'list.sort.descending': 'أ → ي',
+  'list.filter.agent': 'المندوب:',
+  'list.filter.all': 'الكل',
+  'list.me': 'أنا',
+  'list.unknownAgent': 'مندوب غير معروف',
+  'list.clearSearch': 'مسح البحث',
+
+  'customers.title': 'العملاء',
+  'customers.subtitle': {
+    one: 'إدارة عميل واحد عبر فريق المبيعات لديك.',
+    two: 'إدارة عميلين عبر فريق المبيعات لديك.',
+    few: 'إدارة {count} عملاء عبر فريق المبيعات لديك.',
+    many: 'إدارة {count} عميلًا عبر فريق المبيعات لديك.',
+    other: 'إدارة {count} عميل عبر فريق المبيعات لديك.',
+  },
+  'customers.loading': 'جارٍ تحميل العملاء...',
+  'customers.loadError': 'خطأ في تحميل العملاء',
+  'customers.normalizeAddresses': 'تصحيح العناوين',
+  'customers.add': 'إضافة عميل',
+  'customers.sortAscending': 'ترتيب العملاء تصاعديًا',
+  'customers.sortDescending': 'ترتيب العملاء تنازليًا',
+  'customers.searchPlaceholder': 'ابحث عن العملاء بالاسم أو البريد الإلكتروني أو الهاتف أو المندوب...',
+  'customers.empty.filtered': 'لا يوجد عملاء يطابقون عوامل التصفية',
+  'customers.empty.filteredHint': 'جرّب تعديل كلمات البحث أو إعادة تعيين عوامل التصفية.',
+  'customers.empty.none': 'لا يوجد عملاء بعد',
+  'customers.empty.noneHint': 'لم تضف أي عملاء بعد. ابدأ بإنشاء عميلك الأول.',
+  'customers.table.label': 'جدول العملاء',
+  'customers.table.caption':
+    'جدول العملاء مع الاسم والبريد الإلكتروني والهاتف والمدينة والمندوب ونسبة الخصم والإجراءات',
+  'customers.column.name': 'الاسم',
+  'customers.column.email': 'البريد الإلكتروني',
+  'customers.column.phone': 'الهاتف',
+  'customers.column.city': 'المدينة',
+  'customers.column.address': 'العنوان',
+  'customers.column.agent': 'المندوب',
+  'customers.column.discount': 'نسبة الخصم',
+  'customers.column.actions': 'الإجراءات',
+  'customers.actionsFor': 'إجراءات للعميل {name}',
+  'customers.editNamed': 'تعديل العميل {name}',
+  'customers.deleteNamed': 'حذف العميل {name}',
+
+  'customerForm.addTitle': 'إضافة عميل جديد',
+  'customerForm.editTitle': 'تعديل العميل',
+  'customerForm.editDescription': 'تحديث بيانات الاتصال لـ {name}',
+  'customerForm.email': 'عنوان البريد الإلكتروني',
+  'customerForm.namePlaceholder': 'مثال: يوحنا كوهين',
+  'customerForm.phonePlaceholder': 'مثال: 0501234567',
+  'customerForm.emailPlaceholder': 'مثال: yohanan@example.com',
+  'customerForm.streetPlaceholder': 'مثال: شارع هرتسل 123',
+  'customerForm.cityPlaceholder': 'مثال: تل أبيب',
+  'customerForm.stateIdHint': 'أدخل 9 أرقام بالضبط',
+  'customerForm.create': 'إنشاء عميل',
+  'customerForm.update': 'تحديث العميل',
+
+  'customerDelete.title': 'حذف العميل',
+  'customerDelete.about': 'أنت على وشك حذف العميل:',
+  'customerDelete.warning': '⚠️ لا يمكن التراجع عن هذا الإجراء. ستتأثر جميع الطلبات والأسعار الخاصة لهذا العميل.',
+  'customerDelete.prompt': 'اكتب "{phrase}" لتأكيد الحذف:',
+  'customerDelete.phrase': 'أفهم',
+  'customerDelete.confirmNamed': 'هل أنت متأكد أنك تريد حذف {name}؟',
+  'customerDelete.thisCustomer': 'هذا العميل',
+  'customerDelete.agentWarning':
+    'لا يمكن التراجع عن هذا الإجراء. ستتم إزالة بياناته وجميع الأسعار الخاصة المرتبطة به نهائيًا.',
+
+  'customerDetail.missingId': 'معرّف العميل مفقود.',
+  'customerDetail.error.notFound': 'لم يتم العثور على العميل أو لا توجد صلاحية',
+  'customerDetail.error.load': 'خطأ في تحميل العميل',
+  'customerDetail.backToList': 'العودة إلى قائمة العملاء',
+  'customerDetail.back': 'العودة إلى العملاء',
+  'customerDetail.email': 'البريد الإلكتروني:',
+  'customerDetail.phone': 'الهاتف:',
+  'customerDetail.city': 'المدينة:',
+  'customerDetail.discount': 'نسبة الخصم:',
+  'customerDetail.newLink.title': 'رابط لطلب جديد',
+  'customerDetail.newLink.creating': 'جارٍ إنشاء الطلب',
+  'customerDetail.newLink.created': 'تم إنشاء الطلب ✓ تم النسخ!',
+  'customerDetail.newLink.createAnother': 'إنشاء رابط جديد',
+  'customerDetail.newLink.create': 'إنشاء رابط لطلب جديد',
+  'customerDetail.orders.title': 'طلبات العميل',
+  'customerDetail.orders.empty': 'لا توجد طلبات لهذا العميل.',
+  'customerDetail.orders.tableLabel': 'طلبات العميل',
+  'customerDetail.orders.column.status': 'الحالة',
+  'customerDetail.orders.column.source': 'المصدر',
+  'customerDetail.orders.column.createdAt': 'تاريخ الإنشاء',
+  'customerDetail.orders.column.total': 'المجموع',
+  'customerDetail.orders.column.actions': 'الإجراءات',
+  'customerDetail.orders.discount': '(خصم {amount})',
+  'customerDetail.orders.discountLabel': 'خصم {amount}',
+  'customerDetail.orders.credited': '(رصيد دائن {amount})',
+  'customerDetail.orders.creditedLabel': 'رصيد دائن {amount}',
+  'customerDetail.orders.viewInvoice': 'عرض الفاتورة',
+  'customerDetail.orders.createInvoice': 'إنشاء فاتورة',
+  'customerDetail.updateDiscount': 'تحديث الخصم',
+  'customerDetail.overrides.title': 'أسعار خاصة للعميل',
+  'customerDetail.overrides.subtitle': 'أسعار منتجات مخصصة لهذا العميل',
+  'customerDetail.overrides.empty': 'لا توجد أسعار خاصة محددة لهذا العميل.',
+
+  'override.add': 'إضافة سعر خاص',
+  'override.create': 'إنشاء سعر خاص',
+  'override.editTitle': 'تعديل السعر الخاص',
+  'override.editLabel': 'تعديل السعر الخاص',
+  'override.delete': 'حذف السعر الخاص',
+  'override.deleteConfirm': 'هل أنت متأكد أنك تريد حذف هذا السعر الخاص؟',
+  'override.column.agent': 'المندوب',
+  'override.column.product': 'المنتج',
+  'override.column.minimumPrice': 'السعر الأدنى',
+  'override.column.overridePrice': 'السعر المخصص',
+  'override.column.actions': 'الإجراءات',
+  'override.customer': 'العميل:',
+  'override.product': 'المنتج',
+  'override.productLabel': 'المنتج:',
+  'override.originalPrice': 'السعر الأصلي:',
+  'override.overridePriceLabel': 'السعر المخصص:',
+  'override.minimumPrice': 'السعر الأدنى: {price}',
+  'override.basePrice': 'السعر الأساسي: {price}',
+  'override.price': 'السعر المخصص',
+  'override.newPrice': 'السعر المخصص الجديد',
+  'override.searchProducts': 'ابحث عن منتجات...',
+  'override.searchProductsLabel': 'البحث عن منتجات',
+  'override.noProducts': 'لم يتم العثور على منتجات',
+  'override.loadingProducts': 'جارٍ تحميل المنتجات...',
+  'override.noProductsToShow': 'لا توجد منتجات للعرض',
+  'override.error.productRequired': 'يجب اختيار منتج',
+  'override.error.priceRequired': 'يجب إدخال سعر مخصص',
+  'override.error.priceInvalid': 'يجب أن يكون السعر المخصص رقمًا موجبًا صالحًا',
+  'override.error.priceMax': 'لا يمكن أن يتجاوز السعر المخصص {max}',
+  'override.error.priceDecimals': 'يمكن أن يتضمن السعر المخصص منزلتين عشريتين كحد أقصى',
+  'override.error.load': 'فشل تحميل الأسعار الخاصة',
+  'override.error.update': 'فشل التحديث',
+  'override.error.delete': 'فشل الحذف',
+  'override.error.create': 'فشل الإنشاء',
+  'override.column.customer': 'العميل',
+  'override.customerField': 'العميل',
+  'override.customerLabel': 'العميل:',
+  'override.selectCustomer': 'اختر عميلًا',
+  'override.appliesTo': 'ينطبق على',
+  'override.allVariants': 'جميع الأصناف',
+  'override.variantHint': 'السعر الخاص بصنف معيّن يتقدّم على السعر الخاص بالمنتج كله.',
+  'override.update': 'تحديث السعر الخاص',
+  'override.error.customerRequired': 'يجب اختيار عميل',
+
+  'overrides.title': 'الأسعار الخاصة',
+  'overrides.subtitle': 'إدارة الأسعار المخصصة لعملائك',
+  'overrides.note': 'تُحتسب الأسعار الخاصة قبل خصم النسبة المئوية للعميل.',
+  'overrides.loading': 'جارٍ تحميل الأسعار الخاصة...',
+  'overrides.empty.filtered': 'لا توجد أسعار خاصة مطابقة',
+  'overrides.empty.filteredHint': 'لم يتم العثور على أسعار خاصة لعوامل التصفية المحددة.',
+  'overrides.clearFilter': 'مسح عامل التصفية',
+  'overrides.empty.none': 'لا توجد أسعار خاصة بعد',
+  'overrides.empty.noneHint': 'لم تحدد بعد أي أسعار مخصصة لعملائك. انقر على الزر أدناه لإنشاء أول سعر خاص.',
+  'overrides.addFirst': 'أضف أول سعر خاص',
+  'overrides.table.label': 'جدول الأسعار الخاصة',
+  'overrides.table.caption': 'جدول الأسعار الخاصة مع العميل والمندوب والمنتج والسعر الأدنى والسعر المخصص والإجراءات',
+  'overrides.actionsFor': 'إجراءات السعر الخاص للعميل {customer}',
+  'overrides.editNamed': 'تعديل السعر الخاص للعميل {customer} - {target}',
+  'overrides.deleteNamed': 'حذف السعر الخاص للعميل {customer} - {target}',
+
+  'agentOverrides.title': 'أسعاري الخاصة',
+  'agentOverrides.subtitle': 'خصّص الأسعار لعملائك',
+  'agentOverrides.empty.noneHint': 'لم تحدد أي أسعار مخصصة لعملائك بعد. انقر على الزر أعلاه لإنشاء أول سعر خاص لك.',
+  'agentOverrides.table.caption': 'جدول الأسعار الخاصة مع العميل والمنتج والسعر الأدنى والسعر المخصص والإجراءات',
+  'agentOverrides.basePrice': 'السعر الأساسي',
+  'agentOverrides.minimumPriceLabel': 'السعر الأدنى:',
+  'agentOverrides.basePriceLabel': 'السعر الأساسي:',
+  'agentOverrides.save': 'حفظ السعر الخاص',
+  'agentOverrides.deleteConfirm': 'هل أنت متأكد أنك تريد حذف السعر الخاص بـ {customer}؟',
+
+  'documents.title': 'التقارير والمستندات',
+  'documents.subtitle': 'اختر نطاقًا زمنيًا، وابحث عن الفواتير، أو صدّرها إلى ملف منظم مع روابط وملخص.',
+  'documents.fromDate': 'من تاريخ:',
+  'documents.toDate': 'إلى تاريخ:',
+  'documents.customerFilter': 'التصفية حسب العميل',
+  'documents.customerFilterLabel': 'تصفية العملاء',
+  'documents.clearCustomer': 'مسح العميل المحدد',
+  'documents.clearSelection': 'مسح التحديد',
+  'documents.allCustomers': 'جميع العملاء',
+  'documents.specificCustomer': 'عميل محدد',
+  'documents.searchPlaceholder': 'اكتب للبحث…',
+  'documents.searchCustomer': 'البحث عن عميل',
+  'documents.noCustomers': 'لا يوجد عملاء يطابقون البحث. جرّب نصًا آخر.',
+  'documents.searching': 'جارٍ البحث...',
+  'documents.search': 'بحث',
+  'documents.downloading': 'جارٍ التنزيل...',
+  'documents.export': 'تصدير إلى ملف',
+  'documents.empty': 'لا توجد نتائج لعرضها.',
+  'documents.table.label': 'نتائج البحث عن الفواتير',
+  'documents.column.number': 'رقم الفاتورة',
+  'documents.column.type': 'النوع',
+  'documents.column.orderId': 'معرّف الطلب',
+  'documents.column.date': 'التاريخ',
+  'documents.column.amount': 'مبلغ الطلب',
+  'documents.column.actions': 'الإجراءات',
+  'documents.viewDocument': 'عرض المستند',
+  'documents.fileName': 'فواتير_{from}_{to}.xlsx',
+  'documents.error.download': 'فشل تنزيل الملف. حاول مرة أخرى.',
+  'documents.error.customerRequired': 'يرجى اختيار عميل من القائمة (أو التبديل إلى "جميع العملاء").',
+  'documents.error.search': 'فشل البحث عن الفواتير. حاول مرة أخرى.',
+
+  'agentCustomers.title': 'عملاؤك',
+  'agentCustomers.subtitle': {
+    one: 'أدر عميلك.',
+    two: 'أدر عميليك.',
+    few: 'أدر عملاءك الـ {count}.',
+    many: 'أدر عملاءك الـ {count}.',
+    other: 'أدر عملاءك الـ {count}.',
+  },
+  'agentCustomers.searchPlaceholder': 'ابحث عن العملاء بالاسم أو البريد الإلكتروني أو الهاتف أو المدينة...',
+  'agentCustomers.loadError': 'تعذّر تحميل العملاء',
+  'agentCustomers.empty': 'لم يتم العثور على عملاء',
+  'agentCustomers.empty.filteredHint': 'لا يوجد عملاء يطابقون بحثك. جرّب كلمات مفتاحية أخرى.',
+  'agentCustomers.empty.noneHint': 'لم تضف أي عملاء بعد. أنشئ عميلك الأول للبدء.',
+
+  'agents.title': 'مندوبوك',
+  'agents.subtitle': 'تابع مندوبيك النشطين وتأكد من تحديث بيانات الاتصال الخاصة بهم.',
+  'agents.add': 'إضافة مندوب',
+  'agents.sortAscending': 'ترتيب المندوبين تصاعديًا',
+  'agents.sortDescending': 'ترتيب المندوبين تنازليًا',
+  'agents.searchPlaceholder': 'ابحث عن المندوبين...',
+  'agents.loading': 'جارٍ تحميل المندوبين...',
+  'agents.table.label': 'جدول المندوبين',
+  'agents.table.caption': 'جدول المندوبين مع الاسم والبريد الإلكتروني والهاتف والموقع وتاريخ الإضافة والإجراءات',
+  'agents.column.name': 'الاسم',
+  'agents.column.email': 'البريد الإلكتروني',
+  'agents.column.phone': 'الهاتف',
+  'agents.column.location': 'الموقع',
+  'agents.column.added': 'تاريخ الإضافة',
+  'agents.column.actions': 'الإجراءات',
+  'agents.empty': 'لا يوجد مندوبون يطابقون عوامل التصفية الحالية.',
+  'agents.actionsFor': 'إجراءات المندوب {name}',
+  'agents.editNamed': 'تعديل المندوب {name}',
+  'agents.deleteNamed': 'حذف المندوب {name}',
+  'agentForm.addTitle': 'إضافة مندوب جديد',
+  'agentForm.editTitle': 'تعديل المندوب',
+  'agentForm.editDescription': 'تحديث بيانات الاتصال لـ {name}',
+  'agentForm.firstNamePlaceholder': 'مثال: يوحنا',
+  'agentForm.lastNamePlaceholder': 'مثال: كوهين',
+  'agentForm.emailPlaceholder': 'مثال: agent@example.com',
+  'agentForm.tempPassword': 'كلمة مرور مؤقتة',
+  'agentForm.passwordPlaceholder': 'كلمة المرور الأولية للدخول',
+  'agentForm.error.emailExists': 'يوجد مندوب بهذا البريد الإلكتروني بالفعل',
+  'agentForm.error.limit': 'لقد وصلت إلى الحد الأقصى لعدد المندوبين',
+  'agentDelete.title': 'حذف المندوب',
+  'agentDelete.confirmNamed': 'هل أنت متأكد أنك تريد حذف {name}؟',
+  'agentDelete.thisAgent': 'هذا المندوب',
+  'agentDelete.warning': 'لا يمكن التراجع عن هذا الإجراء. سيتم حذف جميع عملاء المندوب نهائيًا معه.',
+
+  'profile.greeting': 'مرحبًا {name}!',
+  'profile.greetingAnonymous': 'مرحبًا',
+  'profile.subtitle': 'بياناتك الشخصية ومعلومات حسابك',
+  'profile.edit': 'تعديل البيانات الشخصية',
+  'profile.loading': 'جارٍ تحميل الملف الشخصي...',
+  'profile.loadingOwn': 'جارٍ تحميل ملفك الشخصي...',
+  'profile.loadError': 'خطأ في تحميل الملف الشخصي',
+  'profile.accountCreated': 'تاريخ إنشاء الحساب',
+  'profile.security': 'إعدادات الأمان',
+  'profile.passwordHint': 'حدّث كلمة المرور الخاصة بك',
+  'profile.changePassword': 'تغيير كلمة المرور',
+  'profile.agentMissing': 'لا تتوفر معلومات عن المندوب.',
+  'passwordForm.newPassword': 'كلمة المرور الجديدة',
+  'passwordForm.confirmNewPassword': 'تأكيد كلمة المرور الجديدة',
+  'passwordForm.currentPlaceholder': 'أدخل كلمة المرور الحالية',
+  'passwordForm.newPlaceholder': 'أدخل كلمة مرور جديدة',
+  'passwordForm.requirements': 'يجب أن تحتوي على أحرف كبيرة وأحرف صغيرة وأرقام ورموز خاصة',
+  'passwordForm.submit': 'تحديث كلمة المرور',
+
+  'productCode.error.skuLength': 'يمكن أن يحتوي رمز المنتج على {max} حرفًا كحد أقصى',
+  'productCode.error.skuPattern': 'يمكن أن يحتوي رمز المنتج على أحرف إنجليزية وأرقام و . _ - /',
+  'productCode.error.barcodeLength': 'يمكن أن يحتوي الباركود على {max} حرفًا كحد أقصى',
+  'productCode.error.barcodePattern': 'يمكن أن يحتوي الباركود على أحرف إنجليزية وأرقام و - و .',
+  'productCode.error.inUse': 'هذا الرمز مستخدم بالفعل للمنتج {name}',
+
+  'products.title': 'المنتجات',
+  'products.subtitle': {
+    one: 'كتالوج منتجاتك (منتج واحد)',
+    two: 'كتالوج منتجاتك (منتجان)',
+    few: 'كتالوج منتجاتك ({count} منتجات)',
+    many: 'كتالوج منتجاتك ({count} منتجًا)',
+    other: 'كتالوج منتجاتك ({count} منتج)',
+  },
+  'products.loading': 'جارٍ تحميل المنتجات...',
+  'products.loadError': 'خطأ في تحميل المنتجات',
+  'products.showAll': 'عرض جميع المنتجات',
+  'products.lowStockCount': {
+    one: 'منتج واحد مخزونه منخفض',
+    two: 'منتجان مخزونهما منخفض',
+    few: '{count} منتجات مخزونها منخفض',
+    many: '{count} منتجًا مخزونها منخفض',
+    other: '{count} منتج مخزونها منخفض',
+  },
+  'products.add': 'إضافة منتج',
+  'products.filter.category': 'الفئة:',
+  'products.filter.brand': 'العلامة التجارية:',
+  'products.sortBy': 'ترتيب حسب:',
+  'products.sort.name': 'الاسم',
+  'products.sort.price': 'السعر',
+  'products.empty.filtered': 'لا توجد منتجات تطابق عوامل التصفية',
+  'products.empty.filteredHint': 'لا توجد منتجات تطابق عوامل التصفية المحددة.',
+  'products.empty.none': 'لا توجد منتجات بعد',
+  'products.empty.noneHint': 'لم تضف أي منتجات إلى الكتالوج بعد.',
+  'products.addFirst': 'أضف منتجك الأول',
+  'products.edit': 'تعديل المنتج',
+  'products.delete': 'حذف المنتج',
+  'products.priceTierCount': {
+    one: 'شريحة سعر واحدة',
+    two: 'شريحتا سعر',
+    few: '{count} شرائح سعر',
+    many: '{count} شريحة سعر',
+    other: '{count} شريحة سعر',
+  },
+  'products.minimumPrice': 'الحد الأدنى {price}',
+  'products.manageStock': 'إدارة المخزون',
+  'products.stock': 'المخزون: {quantity}',
+  'products.stock.out': 'نفد',
+  'products.stock.low': 'مخزون منخفض',
+  'products.deleteConfirm': 'هل أنت متأكد أنك تريد حذف {name}؟ لا يمكن التراجع عن هذا الإجراء.',
+  'products.deleteWarning': 'ستتم إزالة هذا المنتج من الكتالوج. تُحفظ البيانات التاريخية في النظام.',
+  'agentProducts.subtitle': {
+    one: 'عرض {shown} من منتج واحد متاح لك.',
+    two: 'عرض {shown} من منتجين متاحين لك.',
+    few: 'عرض {shown} من {count} منتجات متاحة لك.',
+    many: 'عرض {shown} من {count} منتجًا متاحًا لك.',
+    other: 'عرض {shown} من {count} منتج متاح لك.',
+  },
+  'agentProducts.searchPlaceholder': 'ابحث بالاسم أو الوصف أو العلامة التجارية أو رمز المنتج أو الباركود...',
+  'agentProducts.empty': 'لا توجد منتجات تطابق عوامل التصفية',
+  'agentProducts.emptyHint': 'جرّب تعديل عوامل التصفية أو مسح البحث لعرض المزيد من المنتجات.',
+  'agentProducts.clearFilters': 'مسح عوامل التصفية',
+
+  'productForm.addTitle': 'إضافة منتج جديد',
+  'productForm.editTitle': 'تعديل المنتج',
+  'productForm.name': 'اسم المنتج',
+  'productForm.namePlaceholder': 'مثال: حبوب قهوة فاخرة',
+  'productForm.category': 'الفئة',
+  'productForm.brand': 'العلامة التجارية',
+  'productForm.none': 'بدون',
+  'productForm.sku': 'رمز المنتج',
+  'productForm.barcode': 'الباركود',
+  'productForm.minimumPrice': 'السعر الأدنى',
+  'productForm.price': 'السعر',
+  'productForm.description': 'الوصف',
+  'productForm.descriptionPlaceholder': 'وصف المنتج (اختياري)',
+  'productForm.images': 'الصور',
+  'productForm.imagesHint': '(حتى 5، اختياري)',
+  'productForm.imagesTotalHint': '(حتى 5 إجمالًا)',
+  'productForm.existingImages': 'الصور الحالية:',
+  'productForm.imagesToDelete': 'صور للحذف ({count}):',
+  'productForm.newImages': 'صور جديدة للإضافة:',
+  'productForm.maxImagesReached': 'تم الوصول إلى الحد الأقصى وهو 5 صور',
+  'productForm.dropImages': 'أفلت الصور هنا',
+  'productForm.chooseImages': 'اختر صورًا أو اسحبها وأفلتها ({count}/5)',
+  'productForm.addMoreImages': 'أضف المزيد من الصور أو اسحبها وأفلتها ({count}/5)',
+  'productForm.imageOrder': 'تُرتَّب الصور حسب أسماء ملفاتها',
+  'productForm.imageHint': 'JPEG, PNG, WebP. الحجم الأقصى: 5MB لكل صورة.',
+  'productForm.deleteImage': 'حذف الصورة',
+  'productForm.undoDelete': 'التراجع عن الحذف',
+  'productForm.previewAlt': 'معاينة صورة المنتج {name} - الصورة {number}',
+  'productForm.previewAltUnnamed': 'معاينة صورة منتج - الصورة {number}',
+  'productForm.newPreviewAlt': 'معاينة صورة المنتج {name} - صورة جديدة {number}',
+  'productForm.newPreviewAltUnnamed': 'معاينة صورة منتج - صورة جديدة {number}',
+  'productForm.imageAlt': 'صورة المنتج {name} - {file}',
+  'productForm.imageAltUnnamed': 'صورة منتج - {file}',
+  'productForm.deletedImageAlt': 'صورة المنتج {name} للحذف - {file}',
+  'productForm.deletedImageAltUnnamed': 'صورة منتج للحذف - {file}',
+  'productForm.create': 'إنشاء المنتج',
+  'productForm.update': 'تحديث المنتج',
+  'productForm.error.nameRequired': 'اسم المنتج مطلوب',
+  'productForm.error.minimumPriceRequired': 'السعر الأدنى مطلوب',
+  'productForm.error.minimumPricePositive': 'يجب أن يكون السعر الأدنى رقمًا موجبًا',
+  'productForm.error.minimumPriceMax': 'لا يمكن أن يتجاوز السعر الأدنى {max}',
+  'productForm.error.priceRequired': 'السعر مطلوب',
+  'productForm.error.pricePositive': 'يجب أن يكون السعر رقمًا موجبًا',
+  'productForm.error.priceMax': 'لا يمكن أن يتجاوز السعر {max}',
+  'productForm.error.priceBelowMinimum': 'لا يمكن أن يكون السعر أقل من السعر الأدنى',
+  'productForm.error.tooManyImages': 'يمكن رفع 5 صور كحد أقصى لكل منتج',
+  'productForm.error.tooManySelected': {
+    one: 'يمكن رفع 5 صور كحد أقصى. تم اختيار صورة واحدة بالفعل.',
+    two: 'يمكن رفع 5 صور كحد أقصى. تم اختيار صورتين بالفعل.',
+    few: 'يمكن رفع 5 صور كحد أقصى. تم اختيار {count} صور بالفعل.',
+    many: 'يمكن رفع 5 صور كحد أقصى. تم اختيار {count} صورة بالفعل.',
+    other: 'يمكن رفع 5 صور كحد أقصى. تم اختيار {count} صورة بالفعل.',
+  },
+  'productForm.error.tooManyAdded': 'يمكن رفع 5 صور كحد أقصى. الحالي: {current}، قيد الإضافة: {adding}',
+  'productForm.error.imageType': '{name}: نوع ملف غير صالح. يُسمح فقط بـ JPEG أو PNG أو WebP.',
+  'productForm.error.imageSize': '{name}: حجم الملف يتجاوز 5MB.',
+  'productForm.error.imageUpload': 'فشل رفع الصورة {name} إلى S3',
+
+  'category.error.exists': 'الفئة موجودة بالفعل',
+  'category.error.notFound': 'لم يتم العثور على الفئة',
+  'category.error.limit': 'تم الوصول إلى الحد الأقصى لعدد الفئات',
+  'categories.title': 'الفئات',
+  'categories.subtitle': {
+    one: 'اعرض فئات منتجاتك وأدرها (فئة واحدة)',
+    two: 'اعرض فئات منتجاتك وأدرها (فئتان)',
+    few: 'اعرض فئات منتجاتك وأدرها ({count} فئات)',
+    many: 'اعرض فئات منتجاتك وأدرها ({count} فئة)',
+    other: 'اعرض فئات منتجاتك وأدرها ({count} فئة)',
+  },
+  'categories.loading': 'جارٍ تحميل الفئات...',
+  'categories.loadError': 'خطأ في تحميل الفئات',
+  'categories.add': 'إضافة فئة',
+  'categories.empty.none': 'لا توجد فئات بعد',
+  'categories.empty.noneHint': 'لم تنشئ أي فئات بعد. تساعدك الفئات على تنظيم منتجاتك.',
+  'categories.addFirst': 'أضف فئتك الأولى',
+  'categories.sortAscending': 'ترتيب الفئات تصاعديًا',
+  'categories.sortDescending': 'ترتيب الفئات تنازليًا',
+  'categories.searchPlaceholder': 'ابحث عن الفئات...',
+  'categories.empty.filtered': 'لم يتم العثور على فئات',
+  'categories.empty.filteredHint': 'جرّب تعديل البحث أو مسح عوامل التصفية لعرض جميع الفئات.',
+  'categories.productCount': {
+    one: 'منتج واحد',
+    two: 'منتجان',
+    few: '{count} منتجات',
+    many: '{count} منتجًا',
+    other: '{count} منتج',
+  },
+  'categories.edit': 'تعديل الفئة',
+  'categories.delete': 'حذف الفئة',
+  'categories.deleteConfirm': 'هل أنت متأكد أنك تريد حذف الفئة {name}؟ لا يمكن التراجع عن هذا الإجراء.',
+  'categories.deleteWarning': 'ستصبح المنتجات المرتبطة بهذه الفئة بلا فئة.',
+  'categoryForm.addTitle': 'إضافة فئة جديدة',
+  'categoryForm.editTitle': 'تعديل الفئة',
+  'categoryForm.name': 'الاسم *',
+  'categoryForm.namePlaceholder': 'مثال: مشروبات، وجبات خفيفة، إلكترونيات',
+  'categoryForm.create': 'إنشاء الفئة',
+  'categoryForm.update': 'تحديث الفئة',
+  'categoryForm.error.nameRequired': 'اسم الفئة مطلوب',
+
+  'brand.error.notFound': 'لم يتم العثور على العلامة التجارية',
+  'brand.error.exists': 'العلامة التجارية موجودة بالفعل',
+  'brand.error.limit': 'لقد تجاوزت العدد المسموح به من العلامات التجارية',
+  'brand.error.delete': 'فشل حذف العلامة التجارية',
+  'brands.title': 'العلامات التجارية',
+  'brands.subtitle': {
+    one: 'أدر العلامات التجارية لمنتجاتك (علامة واحدة)',
+    two: 'أدر العلامات التجارية لمنتجاتك (علامتان)',
+    few: 'أدر العلامات التجارية لمنتجاتك ({count} علامات)',
+    many: 'أدر العلامات التجارية لمنتجاتك ({count} علامة)',
+    other: 'أدر العلامات التجارية لمنتجاتك ({count} علامة)',
+  },
+  'brands.loading': 'جارٍ تحميل العلامات التجارية...',
+  'brands.loadError': 'خطأ في تحميل العلامات التجارية',
+  'brands.add': 'إضافة علامة تجارية',
+  'brands.empty.none': 'لا توجد علامات تجارية بعد',
+  'brands.empty.noneHint': 'لم تنشئ أي علامات تجارية بعد. تساعدك العلامات التجارية على تنظيم منتجاتك.',
+  'brands.addFirst': 'أضف علامتك التجارية الأولى',
+  'brands.sortAscending': 'ترتيب العلامات التجارية تصاعديًا',
+  'brands.sortDescending': 'ترتيب العلامات التجارية تنازليًا',
+  'brands.searchPlaceholder': 'ابحث عن العلامات التجارية...',
+  'brands.empty.filtered': 'لم يتم العثور على علامات تجارية',
+  'brands.empty.filteredHint': 'جرّب تعديل البحث أو مسح عوامل التصفية لعرض جميع العلامات التجارية.',
+  'brands.productCount': {
+    one: 'منتج واحد',
+    two: 'منتجان',
+    few: '{count} منتجات',
+    many: '{count} منتجًا',
+    other: '{count} منتج',
+  },
+  'brands.edit': 'تعديل العلامة التجارية',
+  'brands.delete': 'حذف العلامة التجارية',
+  'brands.deleteConfirm': 'هل أنت متأكد أنك تريد حذف العلامة التجارية {name}؟ لا يمكن التراجع عن هذا الإجراء.',
+  'brands.deleteWarning': 'ستصبح المنتجات المرتبطة بهذه العلامة التجارية بلا علامة تجارية.',
+  'brandForm.addTitle': 'إضافة علامة تجارية جديدة',
+  'brandForm.editTitle': 'تعديل العلامة التجارية',
+  'brandForm.name': 'اسم العلامة التجارية *',
+  'brandForm.namePlaceholder': 'مثال: نايكي، آبل، سامسونج',
+  'brandForm.image': 'الصورة',
+  'brandForm.previewAlt': 'معاينة صورة العلامة التجارية {name}',
+  'brandForm.previewAltUnnamed': 'معاينة صورة علامة تجارية',
+  'brandForm.newPreview': 'معاينة الصورة الجديدة:',
+  'brandForm.create': 'إنشاء العلامة التجارية',
+  'brandForm.update': 'تحديث العلامة التجارية',
+  'brandForm.error.nameRequired': 'اسم العلامة التجارية مطلوب',
+};
+
+export const arApiErrors: Record<ApiErrorCode, string> = {
+  INVALID_EMAIL_FORMAT: 'صيغة البريد الإلكتروني غير صالحة',
+  INVALID_PHONE_NUMBER: 'رقم الهاتف غير صالح (8–10 أرقام)',
+  FIXED_DIGIT_LENGTH_REQUIRED: 'يجب أن تكون القيمة رقمًا بالطول المطلوب تمامًا',
+  FIELD_CANNOT_BE_BLANK: 'حقل إلزامي فارغ',
+  DATE_CANNOT_BE_IN_FUTURE: 'لا يمكن أن يكون التاريخ في المستقبل',
+  VALUE_MUST_BE_NON_NEGATIVE: 'يجب أن تكون القيمة صفرًا أو موجبة',
+  DECIMAL_PLACES_EXCEEDED: 'منازل عشرية كثيرة جدًا (حد أقصى 2)',
+  PRICE_NOT_IN_RANGE: 'السعر خارج النطاق المسموح',
+  PASSWORD_CONFIRMATION_MISMATCH: 'كلمة المرور الجديدة والتأكيد غير متطابقين',
+  NEW_PASSWORD_EQUALS_OLD_PASSWORD: 'لا يمكن أن تكون كلمة المرور الجديدة مطابقة للقديمة',
+  LOGIN_INVALID_EMAIL_OR_PASSWORD: 'البريد الإلكتروني أو كلمة المرور غير صحيحة',
+  ADMIN_LOGIN_INVALID_CREDENTIALS: 'بيانات المسؤول غير صالحة',
+  ORDER_NOT_FOUND: 'الطلب غير موجود',
+  ORDER_STATUS_NOT_DONE: 'يجب أن يكون الطلب مكتملًا',
+  ORDER_STATUS_NOT_PLACED: 'يجب أن يكون الطلب مرسلًا',
+  ORDER_STATUS_NOT_CANCELLED: 'يجب أن يكون الطلب ملغى',
+  ORDER_STATUS_NOT_AS_EXPECTED: 'حالة الطلب لا تسمح بهذا الإجراء',
+  ORDER_STATUS_NOT_ALLOWED: 'حالة الطلب لا تسمح بهذا الإجراء',
+  INVOICE_ALREADY_EXISTS_FOR_ORDER: 'توجد فاتورة لهذا الطلب بالفعل',
+  INVOICE_TOTAL_MUST_BE_POSITIVE: 'يجب أن يكون مبلغ الفاتورة موجبًا',
+  CREDIT_NOTE_TOTAL_MUST_BE_NEGATIVE: 'يجب أن يكون مبلغ إشعار الدائن سالبًا',
+  INVOICE_ORDER_IDS_BATCH_SIZE_EXCEEDED: 'عدد كبير جدًا من معرّفات الطلبات في الطلب',
+  INVALID_DATE_RANGE: 'نطاق تواريخ غير صالح',
+  CREDIT_AMOUNT_EXCEEDS_ORDER_TOTAL: 'مبلغ الإشعار الدائن يتجاوز المبلغ المسموح',
+  CREDIT_AMOUNT_MUST_BE_POSITIVE: 'يجب أن يكون مبلغ الإشعار الدائن موجبًا',
+  CREDIT_NOTE_DUPLICATE_PRODUCTS: 'المنتج نفسه يظهر أكثر من مرة في إشعار الدائن',
+  CREDIT_NOTE_PRODUCT_NOT_IN_ORDER: 'منتج في إشعار الدائن غير موجود في الطلب',
+  CREDIT_NOTE_UNIT_PRICE_MISMATCH: 'سعر الوحدة لا يطابق الطلب',
+  CREDIT_NOTE_QUANTITY_EXCEEDS_REMAINING: 'الكمية الدائنة تتجاوز الكمية المتاحة',
+  CREDIT_NOTE_NOTES_TOO_LONG: 'الملاحظات طويلة جدًا (حد أقصى 1000 حرف)',
+  CREDIT_NOTE_AT_LEAST_ONE_PRODUCT_REQUIRED: 'يجب اختيار منتج واحد على الأقل لإشعار الدائن',
+  CREDIT_NOTE_QUANTITY_MUST_BE_POSITIVE: 'يجب أن تكون الكمية الدائنة موجبة',
+  CREDIT_NOTE_PRODUCT_ID_REQUIRED: 'معرّف المنتج مفقود',
+  PRICE_CANT_BE_UNDER_PRODUCT_MIN_PRICE: 'لا يمكن أن يكون السعر أقل من الحد الأدنى لسعر المنتج',
+  MANAGER_NOT_FOUND: 'المدير غير موجود',
+  AGENT_NOT_FOUND: 'الوكيل غير موجود',
+  PRODUCT_NOT_FOUND: 'المنتج غير موجود',
+  CATEGORY_NOT_FOUND: 'الفئة غير موجودة',
+  BRAND_NOT_FOUND: 'العلامة التجارية غير موجودة',
+  BRAND_ALREADY_EXISTS: 'توجد علامة تجارية بهذا الاسم بالفعل',
+  BRAND_LIMIT_EXCEEDED: 'وصلت إلى الحد الأقصى للعلامات التجارية',
+  BUSINESS_NOT_FOUND: 'لم يُعثر على بيانات المصلحة',
+  CUSTOMER_NOT_FOUND: 'الزبون غير موجود',
+  INVOICE_NOT_FOUND: 'الفاتورة غير موجودة',
+  CATEGORY_ALREADY_EXISTS: 'توجد فئة بهذا الاسم بالفعل',
+  CATEGORY_LIMIT_EXCEEDED: 'وصلت إلى الحد الأقصى للفئات',
+  BUSINESS_ALREADY_EXISTS: 'لهذا المدير مصلحة بالفعل',
+  CUSTOMER_LIMIT_EXCEEDED: 'وصلت إلى الحد الأقصى للزبائن',
+  LOCATION_NOT_FOUND: 'الفرع غير موجود',
+  NO_LOCATIONS: 'يجب إضافة فرع واحد على الأقل',
+  TOO_MANY_LOCATIONS: 'وصلت إلى الحد الأقصى للفروع',
+  CANNOT_DELETE_LAST_LOCATION: 'لا يمكن حذف الفرع الأخير',
+  AGENTS_LIMIT_REACHED: 'وصلت إلى الحد الأقصى للوكلاء',
+  PRODUCT_LIMIT_REACHED: 'وصلت إلى الحد الأقصى للمنتجات',
+  PRODUCT_IMAGES_LIMIT_REACHED: 'وصلت إلى الحد الأقصى لصور المنتج',
+  EMAIL_ALREADY_EXISTS: 'عنوان البريد الإلكتروني مسجل بالفعل',
+  PASSWORD_MISMATCH: 'كلمة المرور غير صحيحة',
+  PASSWORD_TOO_WEAK: 'كلمة المرور ضعيفة جدًا',
+  MIME_TYPE_NOT_SUPPORTED: 'نوع الملف غير مدعوم',
+  FILE_SIZE_NEED_TO_BE_POSITIVE: 'حجم الملف غير صالح',
+  FILE_NAME_CANT_BE_EMPTY: 'اسم الملف مفقود',
+  FILE_TOO_LARGE: 'الملف كبير جدًا',
+  INTERNAL_ERROR: 'خطأ في الخادم. حاول مرة أخرى لاحقًا',
+  ALLOCATION_NUMBER_REQUIRED: 'رقم التخصيص مطلوب',
+  PAYMENT_PROOF_REQUIRED: 'مرجع الدفع مطلوب',
+  CREDIT_NOTE_ALLOCATION_MISMATCH: 'رقم تخصيص إشعار الدائن لا يطابق الفاتورة الأصلية',
+  NO_PRODUCTS_IN_ORDER: 'لا توجد منتجات في الطلب',
+  ERROR_GENERATING_UPLOAD_URL: 'فشل إنشاء رابط الرفع',
+  FAILED_UPLOAD_FILE: 'فشل رفع الملف',
+  OVERRIDE_PRICE_LESS_THAN_MIN_PRICE: 'السعر الخاص أقل من الحد الأدنى لسعر المنتج',
+  PRODUCT_OVERRIDE_NOT_FOUND: 'السعر الخاص غير موجود',
+  PRODUCT_OVERRIDE_ALREADY_EXISTS: 'يوجد سعر خاص لهذا المنتج والزبون بالفعل',
+  ORDER_CREDIT_EXCEEDS_PRODUCTS_TOTAL: 'مبلغ الإشعار الدائن أكبر من مجموع المنتجات',
+  MINIMUM_SEQUENCE_NUMBER_INVALID: 'يجب أن يكون الرقم التسلسلي الأدنى 1 على الأقل',
+  PICKUP_SLOT_REQUIRED: 'يرجى اختيار موعد الاستلام',
+  PICKUP_SLOT_UNAVAILABLE: 'موعد الاستلام المختار غير متاح',
+  PICKUP_SLOT_FULL: 'امتلأ موعد الاستلام المختار للتو. يرجى اختيار موعد آخر',
+  CART_MINIMUM_NOT_REACHED: 'مبلغ الطلب أقل من الحد الأدنى للمصلحة',
+  CART_RULES_VIOLATED: 'السلة لا تستوفي قواعد الطلب للمصلحة. يرجى تحديث السلة والمحاولة مرة أخرى',
+  PRODUCT_PRICES_CHANGED: 'تغيرت أسعار بعض المنتجات. يرجى تأكيد الأسعار المحدثة والمحاولة مرة أخرى',
+  ORDER_VERSION_CONFLICT: 'تم تحديث الطلب في هذه الأثناء. يرجى مراجعة السلة والمحاولة مرة أخرى',
+  INSUFFICIENT_STOCK: 'بعض المنتجات في السلة غير متوفرة في المخزون بالكمية المطلوبة. يرجى تحديث السلة والمحاولة مرة أخرى',
+  PRODUCT_SKU_ALREADY_EXISTS: 'رمز المنتج مستخدم بالفعل لمنتج آخر',
+  PRODUCT_BARCODE_ALREADY_EXISTS: 'الباركود مستخدم بالفعل لمنتج آخر',
+};
+
+export const arApiFallbacks: Record<FallbackHeKey, string> = {
+  adminLoadManagers: 'فشل تحميل قائمة المدراء',
+  adminDeleteManager: 'فشل حذف المدير',
+  adminResetPassword: 'فشل إعادة تعيين كلمة المرور',
+  createManagerAndBusiness: 'فشل إنشاء المدير والمصلحة',
+  loadAgentsList: 'فشل تحميل قائمة الوكلاء',
+  agentCreate: 'فشل إنشاء الوكيل',
+  agentUpdate: 'فشل تحديث الوكيل',
+  agentDelete: 'فشل حذف الوكيل',
+  agentLoadProfile: 'فشل تحميل ملف الوكيل',
+  agentLoadForProducts: 'فشل تحميل بيانات الوكيل',
+  agentCustomersLoad: 'فشل تحميل الزبائن',
+  agentProductsLoad: 'فشل تحميل المنتجات',
+  overridesLoad: 'فشل تحميل الأسعار الخاصة',
+  overridesCreate: 'فشل إنشاء السعر الخاص',
+  overridesUpdate: 'فشل تحديث السعر الخاص',
+  overridesDelete: 'فشل حذف السعر الخاص',
+  agentPriceOverrideCreate: 'فشل إنشاء السعر الخاص',
+  agentPriceOverrideUpdate: 'فشل تحديث السعر الخاص',
+  agentPriceOverrideDelete: 'فشل حذف السعر الخاص',
+  customersLoad: 'فشل تحميل الزبائن',
+  customerDelete: 'فشل حذف الزبون',
+  customerCreate: 'فشل إنشاء الزبون',
+  customerUpdate: 'فشل تحديث الزبون',
+  customerModalUpdate: 'فشل تحديث الزبون',
+  agentCustomerCreate: 'فشل إنشاء الزبون',
+  productLoad: 'فشل تحميل المنتجات',
+  productCreate: 'فشل إنشاء المنتج',
+  productUpdate: 'فشل تحديث المنتج',
+  productDelete: 'فشل حذف المنتج',
+  stockLoad: 'فشل تحميل المخزون',
+  stockAdjust: 'فشل تحديث المخزون',
+  lowStockThresholdUpdate: 'فشل تحديث حد المخزون المنخفض',
+  brandsLoad: 'فشل تحميل العلامات التجارية',
+  brandCreate: 'فشل إنشاء العلامة التجارية',
+  brandUpdate: 'فشل تحديث العلامة التجارية',
+  brandDelete: 'فشل حذف العلامة التجارية',
+  businessUpdate: 'فشل تحديث بيانات المصلحة',
+  managerProfileLoad: 'فشل تحميل الملف الشخصي',
+  managerProfileUpdate: 'فشل تحديث الملف الشخصي',
+  changePassword: 'فشل تحديث كلمة المرور',
+  agentProfileUpdate: 'فشل تحديث الملف الشخصي',
+  businessDataLoad: 'فشل تحميل بيانات المصلحة',
+  categoriesLoad: 'فشل تحميل الفئات',
+  categoryCreate: 'فشل إنشاء الفئة',
+  categoryUpdate: 'فشل تحديث الفئة',
+  categoryDelete: 'فشل حذف الفئة',
+  locationsLoad: 'فشل تحميل الفروع',
+  locationCreate: 'فشل إنشاء الفرع',
+  locationUpdate: 'فشل تحديث الفرع',
+  locationDelete: 'فشل حذف الفرع',
+  locationPickupSchedulingUpdate: 'فشل تحديث مواعيد الاستلام',
+  orderCreate: 'فشل إنشاء الطلب',
+  orderCancel: 'فشل إلغاء الطلب',
+  orderMarkDone: 'فشل وضع علامة مكتمل على الطلب',
+  orderDiscount: 'فشل تحديث الخصم',
+  orderLoadDetails: 'فشل تحميل تفاصيل الطلب',
+  orderLoadStore: 'فشل تحميل الطلب',
+  orderLinkGenerate: 'فشل إنشاء الرابط',
+  customerStoreLinkLoad: 'فشل تحميل رابط المتجر الشخصي',
+  customerStoreLinkCreate: 'فشل إنشاء رابط المتجر الشخصي',
+  customerStoreLinkRevoke: 'فشل إلغاء رابط المتجر الشخصي',
+  orderLinkExpiryLoad: 'فشل تحميل الروابط المنتهية أو التي ستنتهي قريبًا',
+  orderLinkExtend: 'فشل تمديد صلاحية الرابط',
+  ordersLoad: 'فشل تحميل الطلبات',
+  orderActivityLoad: 'فشل تحميل سجل الطلب',
+  orderCheckoutCreate: 'فشل إنشاء الطلب',
+  orderCheckoutUpdate: 'فشل تحديث الطلب',
+  invoiceCreate: 'فشل إنشاء الفاتورة',
+  creditNoteCreate: 'فشل إنشاء إشعار الدائن',
+  overrideEditFailed: 'فشل التحديث',
+  overrideCreateFailed: 'فشل الإنشاء',
+};
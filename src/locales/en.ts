@@ -0,0 +1,1830 @@
+import type { MessageCatalog } from '../utils/i18n';
+import type { ApiErrorCode, FallbackHeKey } from '../utils/apiErrorMessage';
+
+export const en: MessageCatalog = {
+  'language.label': 'Language',
+
+  'layout.menu': 'Menu',
+  'layout.openMenu': 'Open menu',
+  'layout.closeMenu': 'Close menu',
+  'layout.mainNavigation': 'Main navigation',
+  'layout.agentNavigation': 'Agent navigation',
+  'layout.menuNavigation': 'Navigation menu',
+  'layout.logout': 'Log out',
+  'layout.logoutLabel': 'Log out of the system',
+
+  'nav.managerProfile': 'Manager profile',
+  'nav.agentProfile': 'Profile',
+  'nav.businessProfile': 'Business profile',
+  'nav.orders': 'Orders',
+  'nav.documents': 'Reports & documents',
+  'nav.businessInfo': 'Business insights',
+  'nav.agents': 'Agents',
+  'nav.customers': 'Customers',
+  'nav.products': 'Products',
+  'nav.overrides': 'Special prices',
+  'nav.categories': 'Categories',
+  'nav.brands': 'Brands',
+  'nav.locations': 'Branches',
+
+  'orderStatus.EMPTY': 'Empty',
+  'orderStatus.PLACED': 'Placed',
+  'orderStatus.DONE': 'Done',
+  'orderStatus.EXPIRED': 'Expired',
+  'orderStatus.CANCELLED': 'Cancelled',
+
+  'orderDate.created': 'Created:',
+  'orderDate.placed': 'Placed:',
+  'orderDate.done': 'Completed:',
+  'orderDate.expired': 'Expired:',
+
+  'discountError.decimalPlaces': 'A discount can have at most 2 decimal places',
+  'discountError.exceedsTotal': 'A discount cannot exceed the order total',
+  'discountError.negative': 'A discount must be a positive number',
+
+  'error.default': 'Something went wrong. Please try again later.',
+  'error.requestFailed': 'The request failed. Please try again.',
+  'error.requestFailedWithStatus': 'The request failed (code {status}). Please try again.',
+  'error.network': 'Network error',
+
+  'common.cancel': 'Cancel',
+  'common.tryAgain': 'Try again',
+  'common.understood': 'Got it',
+  'common.showLess': 'Show less',
+  'common.showAll': 'Show all ({count})',
+  'common.optional': '(optional)',
+  'common.add': 'Add',
+  'common.adding': 'Adding...',
+  'common.confirmation': 'Confirmation',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.saveChanges': 'Save changes',
+  'common.close': 'Close',
+  'common.closeWindow': 'Close window',
+  'common.deleting': 'Deleting...',
+  'common.creating': 'Creating...',
+  'common.updating': 'Updating...',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.error': 'Error',
+  'common.copyFailed': 'Copying failed',
+
+  'store.error.loginToEdit': 'Please log in to edit orders',
+  'store.error.noEditPermission': 'You are not allowed to edit orders',
+  'store.error.onlyPlacedEditable': 'Only placed orders can be edited',
+  'store.error.noOrderPermission': 'You are not allowed to edit this order',
+  'store.error.orderNotFound': 'Order not found',
+  'store.error.orderLoad': 'Failed to load the order',
+  'store.error.customerLinkInactive': 'This personal store link is no longer active – ask the business for a new one',
+  'store.error.customerLinkLoad': 'Failed to load the store link',
+  'store.error.invalidStoreUrl': 'Invalid store address',
+
+  'store.queued.syncedTitle': 'Order sent',
+  'store.queued.failedTitle': 'Sending the order failed',
+  'store.queued.pendingTitle': 'Order waiting to sync',
+  'store.queued.synced': 'The order saved on this device was sent to the seller.',
+  'store.queued.sending': 'The order is saved on this device and is being sent...',
+  'store.queued.offline':
+    'The order is saved on this device and will be sent automatically when the connection is back. No need to order again.',
+  'store.queued.cancel': 'Cancel order',
+
+  'store.link.expiredTitle': 'Link expired',
+  'store.link.expired': 'This order link has expired. Please contact the seller for a new link or check your order status.',
+  'store.link.cancelledTitle': 'Order cancelled',
+  'store.link.cancelled': 'This order was cancelled. Please contact the seller if you have questions or need help.',
+  'store.link.doneTitle': 'Order completed',
+  'store.link.done': 'This order has already been completed.',
+  'store.link.placedTitle': 'This order has already been placed',
+  'store.linkExpiry.daysLeft': { one: 'This order link is valid for one more day', other: 'This order link is valid for {count} more days' },
+  'store.linkExpiry.hoursLeft': { one: 'This order link is valid for one more hour', other: 'This order link is valid for {count} more hours' },
+  'store.linkExpiry.minutesLeft': {
+    one: 'This order link is valid for one more minute',
+    other: 'This order link is valid for {count} more minutes',
+  },
+  'store.linkExpiry.until': 'until {date}',
+  'store.linkExpiry.request': 'Ask to extend the link',
+  'store.linkExpiry.requesting': 'Sending request...',
+  'store.linkExpiry.requested': 'Your request was sent to the seller. The link will open again once the seller extends it.',
+  'store.linkExpiry.requestError': 'Could not send the request. Please try again.',
+  'store.confirmation.title': 'Order confirmation #{reference}',
+  'store.confirmation.loading': 'Loading the order confirmation...',
+  'store.confirmation.loadError': 'The order confirmation cannot be loaded right now',
+  'store.confirmation.print': 'Print',
+  'store.confirmation.download': 'Download',
+  'store.confirmation.reference': 'Order number',
+  'store.confirmation.placedAt': 'Date',
+  'store.confirmation.customer': 'Customer',
+  'store.confirmation.lines': 'Items',
+  'store.confirmation.product': 'Product',
+  'store.confirmation.quantity': 'Qty',
+  'store.confirmation.unitPrice': 'Unit price',
+  'store.confirmation.lineTotal': 'Total',
+  'store.confirmation.productsTotal': 'Products total',
+  'store.confirmation.discount': 'Discount',
+  'store.confirmation.deliveryFee': 'Delivery fee',
+  'store.confirmation.vatIncluded': 'Including VAT ({rate}%)',
+  'store.confirmation.total': 'Total to pay',
+  'store.confirmation.pickup': 'Pickup',
+  'store.confirmation.pickupSlot': 'Pickup time',
+  'store.confirmation.delivery': 'Delivery',
+  'store.confirmation.notes': 'Notes',
+  'store.confirmation.footer': 'This confirmation is not a tax invoice.',
+
+  'store.load.genericTitle': 'Oops!',
+  'store.load.generic': 'Something went wrong',
+  'store.load.notFoundTitle': 'Store not found',
+  'store.load.notFound': 'This store does not exist or was removed. Please check the link and try again.',
+  'store.load.forbiddenTitle': 'Store unavailable',
+  'store.load.forbidden': 'This store is currently unavailable. Please contact the store owner.',
+  'store.load.offlineTitle': 'No internet connection',
+  'store.load.offline':
+    'This store is not saved on this device yet. Connect to the internet and try again – after the first visit you can browse it offline too.',
+  'store.load.failedTitle': 'The store could not be loaded',
+  'store.load.failed': 'We are having trouble loading this store. Please try again later.',
+
+  'store.filters': 'Filters',
+  'store.cart': 'Cart',
+  'store.clearFilters': 'Clear all filters',
+  'store.sortBy': 'Sort:',
+  'store.sort.name': 'Name',
+  'store.sort.price': 'Price',
+  'store.categories': 'Categories',
+  'store.brands': 'Brands',
+  'store.welcome': 'Welcome',
+
+  'store.search.placeholder': 'Search a product, brand, category or SKU...',
+  'store.search.label': 'Search products',
+  'store.search.clear': 'Clear search',
+  'store.search.results': { one: '1 product found', other: '{count} products found' },
+  'store.viewLink.copy': 'Copy link to this view',
+  'store.viewLink.copied': 'Link copied!',
+
+  'store.empty.title': 'No products found',
+  'store.empty.noResults': 'No results for "{query}"',
+  'store.empty.adjustFilters': 'Try adjusting your filters',
+  'store.empty.checkLater': 'Check back later for new products!',
+
+  'store.product.previousImage': 'Previous image',
+  'store.product.nextImage': 'Next image',
+  'store.product.priceFrom': 'From ',
+  'store.product.tierPrice': 'Bulk price: {price} from {quantity} units',
+  'store.product.chooseOptions': 'Choose options',
+  'store.stock.outOfStock': 'Out of stock',
+  'store.stock.fewLeft': { one: 'Only 1 left', other: 'Only {count} left' },
+  'store.scanner.title': 'Scanner mode',
+  'store.scanner.hint': 'Scan a barcode to add the product to the cart; scanning it again increases the quantity',
+  'store.scanner.enable': 'Turn scanner on',
+  'store.scanner.disable': 'Turn scanner off',
+  'store.scanner.added': '{name} – {quantity} in the cart',
+  'store.scanner.notFound': 'No product with the code {code}',
+  'store.scanner.chooseVariant': '{name} – choose an option',
+  'store.scanner.maxReached': 'No more {name} can be added',
+  'store.edit.droppedLinesTitle': 'Lines removed from the order',
+  'store.edit.droppedLinesHint': 'These products or options were deleted from the catalog, so they are not in the cart. Saving the order will remove them from it.',
+  'store.product.addToCart': 'Add to cart',
+  'store.product.add': 'Add',
+  'store.product.added': 'Added!',
+
+  'store.cart.title': 'Your cart',
+  'store.cart.empty': 'Your cart is empty',
+  'store.cart.removeItem': 'Remove item',
+  'store.cart.tierPrice': 'Bulk price ({quantity}+)',
+  'store.cart.nextTier': { one: '1 more for {price} each', other: '{count} more for {price} each' },
+  'store.cart.total': 'Total:',
+  'store.cart.items': 'Items:',
+  'store.cart.cannotCheckout': 'Cannot continue to checkout',
+  'store.cart.checkout': 'Continue to checkout',
+
+  'store.favorites.add': 'Add to favourites',
+  'store.favorites.remove': 'Remove from favourites',
+  'store.shelves.label': 'Quick order',
+  'store.shelves.buyAgainTitle': 'Buy again',
+  'store.shelves.fromCustomerHistory': 'From your previous orders',
+  'store.shelves.fromDeviceHistory': 'From orders placed on this device',
+  'store.shelves.favoritesTitle': 'My favourites',
+  'store.shelves.addAll': 'Add all to cart ({count})',
+  'store.shelves.chooseOptions': 'Choose options',
+  'store.shelves.unavailable': {
+    one: '1 previously ordered product is no longer available',
+    other: '{count} previously ordered products are no longer available',
+  },
+  'store.shelves.added': { one: '1 product added to the cart', other: '{count} products added to the cart' },
+  'store.shelves.outOfStock': {
+    one: '1 product is out of stock and was not added',
+    other: '{count} products are out of stock and were not added',
+  },
+  'store.quickOrder.open': 'Order from a list',
+  'store.quickOrder.title': 'Order from a list',
+  'store.quickOrder.hint': 'Paste rows from a spreadsheet or upload a CSV file: the SKU, barcode or product name, then the quantity. The products are added to what is already in the cart.',
+  'store.quickOrder.textLabel': 'Products and quantities',
+  'store.quickOrder.placeholder': 'SKU-100, 12\nMilk 3%, 6',
+  'store.quickOrder.upload': 'Upload CSV file',
+  'store.quickOrder.fileTooLarge': 'The file is too large',
+  'store.quickOrder.fileError': 'The file could not be read',
+  'store.quickOrder.tooManyLines': 'Up to {max} lines at a time',
+  'store.quickOrder.empty': 'Enter at least one line',
+  'store.quickOrder.match': 'Match products',
+  'store.quickOrder.summary': '{ready} of {total} rows ready',
+  'store.quickOrder.status.ready': 'Ready',
+  'store.quickOrder.status.chooseProduct': 'Several products match – choose one',
+  'store.quickOrder.status.chooseVariant': 'Choose an option',
+  'store.quickOrder.status.notFound': 'No matching product – edit the text',
+  'store.quickOrder.status.badQuantity': 'The quantity must be a whole number from 1',
+  'store.quickOrder.query': 'SKU or name',
+  'store.quickOrder.product': 'Product',
+  'store.quickOrder.chooseProduct': 'Choose a product',
+  'store.quickOrder.variant': 'Option',
+  'store.quickOrder.chooseVariant': 'Choose an option',
+  'store.quickOrder.quantity': 'Quantity',
+  'store.quickOrder.packAdjusted': 'Will be added as {quantity} (pack size)',
+  'store.quickOrder.notAllowed': 'This product cannot be ordered',
+  'store.quickOrder.removeRow': 'Remove row {line}',
+  'store.quickOrder.back': 'Back',
+  'store.quickOrder.skipped': { one: '1 row that is not ready will be skipped', other: '{count} rows that are not ready will be skipped' },
+  'store.quickOrder.addToCart': { one: 'Add 1 product to the cart', other: 'Add {count} products to the cart' },
+
+  'fulfillment.PICKUP': 'Pickup',
+  'fulfillment.DELIVERY': 'Delivery',
+  'pickupDate.today': 'Today',
+  'pickupDate.tomorrow': 'Tomorrow',
+
+  'cartRule.packsOf': 'In packs of {step}',
+  'cartRule.upTo': 'Up to {max} units per order',
+  'cartRule.minimumTotal': 'The minimum order is {minimum} – {missing} to go',
+  'cartRule.required': 'Add {name} to the order',
+  'cartRule.overMax': 'You can order up to {max} units of {name} ({quantity} in the cart)',
+  'cartRule.notWholePacks': '{name} is sold in packs of {step} – order a multiple of {step} (e.g. {example})',
+  'stock.soldOutInCart': '{name} is out of stock – remove it from the cart',
+  'stock.onlyLeftInCart': {
+    one: 'Only 1 unit of {name} is left in stock ({quantity} in the cart)',
+    other: 'Only {count} units of {name} are left in stock ({quantity} in the cart)',
+  },
+
+  'store.checkout.title': 'Checkout',
+  'store.checkout.close': 'Close',
+  'store.checkout.step.details': 'Details',
+  'store.checkout.step.receive': 'Receive',
+  'store.checkout.step.location': 'Location',
+  'store.checkout.step.address': 'Address',
+  'store.checkout.step.review': 'Review',
+  'store.checkout.back': 'Back',
+  'store.checkout.continue': 'Continue',
+  'store.checkout.locationsLoadError': 'Failed to load the pickup locations',
+  'store.checkout.slotsUnchecked':
+    "Can't check which times are full right now – your time will be checked when the order is sent.",
+  'store.checkout.nameRequired': 'Name is required',
+  'store.checkout.phoneRequired': 'Phone number is required',
+  'store.checkout.streetRequired': 'Street address is required',
+  'store.checkout.cityRequired': 'City is required',
+  'store.checkout.stateIdRequired': 'Company / business ID is required',
+  'store.checkout.stateIdLength': 'The company / business ID must be exactly 9 digits',
+  'store.checkout.chooseLocation': 'Please choose a pickup location',
+  'store.checkout.chooseSlot': 'Please choose a pickup time',
+  'store.checkout.deliveryStreetRequired': 'Delivery address is required',
+  'store.checkout.deliveryCityRequired': 'Delivery city is required',
+  'store.checkout.acceptCartChanges': 'Accept the changes to your cart before sending the order',
+  'store.checkout.cartEmpty': 'The cart is empty',
+  'store.checkout.noUpdatePermission': 'You are not allowed to update orders',
+  'store.checkout.updatedTitle': 'Order updated!',
+  'store.checkout.placedTitle': 'Order placed!',
+  'store.checkout.updated': 'Your order was updated.',
+  'store.checkout.queued':
+    "There's no internet connection right now. The order was saved on this device and will be sent automatically when the connection is back – no need to order again.",
+  'store.checkout.placed': 'Thank you for your order. We have received it and will be in touch soon.',
+  'store.checkout.printableConfirmation': 'Printable order confirmation',
+  'store.checkout.customerDetails': 'Customer details',
+  'store.checkout.name': 'Name',
+  'store.checkout.namePlaceholder': 'Enter your name',
+  'store.checkout.phone': 'Phone',
+  'store.checkout.phonePlaceholder': 'Enter your phone number',
+  'store.checkout.emailOptional': 'Email (optional)',
+  'store.checkout.emailPlaceholder': 'Enter your email',
+  'store.checkout.street': 'Street address',
+  'store.checkout.streetPlaceholder': 'Enter a street address',
+  'store.checkout.streetAndNumber': 'Street and house number',
+  'store.checkout.city': 'City',
+  'store.checkout.cityPlaceholder': 'Enter a city',
+  'store.checkout.stateId': 'Company / business ID',
+  'store.checkout.stateIdHint': 'Enter exactly 9 digits',
+  'store.checkout.howToReceive': 'How would you like to receive the order?',
+  'store.checkout.choosePickupLocation': 'Choose a pickup location',
+  'store.checkout.fulfillmentMethod': 'How to receive the order',
+  'store.checkout.noCharge': 'Free',
+  'store.checkout.deliveryFee': 'Delivery fee {fee}',
+  'store.checkout.freeDelivery': 'Free delivery',
+  'store.checkout.freeDeliveryOver': 'Free delivery on orders over {threshold}',
+  'store.checkout.missingForFreeDelivery': '{amount} to go',
+  'store.checkout.noLocations': 'No pickup locations available',
+  'store.checkout.streetLabel': 'Street: {street}',
+  'store.checkout.cityLabel': 'City: {city}',
+  'store.checkout.phoneLabel': 'Phone: {phone}',
+  'store.checkout.whenPickup': 'When will you pick up?',
+  'store.checkout.noSlots': 'No pickup times are available at this branch right now',
+  'store.checkout.pickupDate': 'Pickup date',
+  'store.checkout.pickupTime': 'Pickup time',
+  'store.checkout.slotFull': 'Full',
+  'store.checkout.slotRemaining': { one: '1 place left', other: '{count} places left' },
+  'store.checkout.deliveryAddress': 'Delivery address',
+  'store.checkout.courierInstructions': 'Instructions for the courier (optional)',
+  'store.checkout.courierInstructionsPlaceholder': 'Floor, apartment, gate code...',
+  'store.checkout.reviewChanges': 'Review the order changes',
+  'store.checkout.reviewOrder': 'Review your order',
+  'store.checkout.fixCart': 'Update the cart before sending the order',
+  'store.checkout.nameLabel': 'Name: {name}',
+  'store.checkout.emailLabel': 'Email: {email}',
+  'store.checkout.addressLabel': 'Address: {address}',
+  'store.checkout.notAvailable': 'Not available',
+  'store.checkout.customerReadOnly': 'Customer details cannot be edited',
+  'store.checkout.instructionsLabel': 'Instructions: {instructions}',
+  'store.checkout.pickupLocation': 'Pickup location',
+  'store.checkout.pickupSlotLabel': 'Pickup time: {slot}',
+  'store.checkout.orderItems': 'Order items',
+  'store.checkout.tierPrice': 'Volume price from {quantity} units: {price} per unit (instead of {regular})',
+  'store.checkout.deliveryFeeLabel': 'Delivery fee',
+  'store.checkout.free': 'Free',
+  'store.checkout.addForFreeDelivery': 'Add {amount} more for free delivery',
+  'store.checkout.total': 'Total',
+  'store.checkout.notesOptional': 'Notes (optional)',
+  'store.checkout.notesPlaceholder': 'Special instructions or notes...',
+  'store.checkout.updating': 'Updating order...',
+  'store.checkout.placing': 'Placing order...',
+  'store.checkout.update': 'Update order',
+  'store.checkout.place': 'Place order',
+
+  'store.product.close': 'Close',
+  'store.product.volumePrices': 'Volume prices',
+  'store.product.units': '{range} units',
+  'store.product.quantity': 'Quantity:',
+  'store.product.inCart': '{count} in the cart',
+  'store.product.choose': 'Choose {name}',
+  'store.cartChanges.title': 'Some products in your cart have changed',
+  'store.cartChanges.removed': 'Removed from the store',
+  'store.cartChanges.accept': 'Accept and update the cart',
+
+  'store.pending.pending': 'Order waiting to sync',
+  'store.pending.sending': 'Sending order...',
+  'store.pending.synced': 'Order sent',
+  'store.pending.failed': 'Sending the order failed',
+  'store.pending.unconfirmed': 'Not known whether the order arrived',
+  'store.pending.serverUnreachable': "Can't connect to the server.",
+  'store.pending.offline': 'No internet connection.',
+  'store.pending.cachedCatalog': 'Showing the catalog saved on {date}.',
+  'store.pending.keepOrdering':
+    'You can keep choosing products and order – the order is sent automatically when the connection is back.',
+  'store.pending.unconfirmedHint':
+    "The order was sent but no answer came back. If the business hasn't confirmed it, send it again – otherwise remove it so you don't order twice.",
+  'store.pending.sendAgain': 'Send again',
+  'store.pending.remove': 'Remove',
+  'store.pending.close': 'Close',
+
+  'bulkAction.markDone': 'Mark as done',
+  'bulkAction.cancel': 'Cancel',
+  'bulkAction.discount': 'Discount',
+  'bulkAction.copyLinks': 'Copy links',
+
+  'calendarView.month': 'Month',
+  'calendarView.week': 'Week',
+  'calendarView.day': 'Day',
+  'calendarDateField.placedAt': 'Order date',
+  'calendarDateField.doneAt': 'Completion date',
+  'calendarDateField.linkExpiresAt': 'Link expiry',
+
+  'orderMove.sameColumn': 'The order is already in this column',
+  'orderMove.notAllowed': "Orders can't be moved to \"{to}\"",
+  'orderMove.onlyFrom': 'Only orders with status {from} can be moved to "{to}"',
+
+  'orderActivity.actor.MANAGER': 'Manager',
+  'orderActivity.actor.AGENT': 'Agent',
+  'orderActivity.actor.PUBLIC': 'Customer (order link)',
+  'orderActivity.created': 'Order created',
+  'orderActivity.status': 'Status: {status}',
+  'orderActivity.statusChanged': 'Status changed',
+  'orderActivity.previousStatus': 'Before: {status}',
+  'orderActivity.products': 'Products updated',
+  'orderActivity.productsVersion': 'Products updated (version {version})',
+  'orderActivity.discount': 'Discount changed',
+  'orderActivity.change': '{from} → {to}',
+  'orderActivity.invoice': 'Invoice #{number} issued',
+  'orderActivity.creditNote': 'Credit note #{number} issued',
+
+  'linkLifetime.weeks': { one: '1 week', other: '{count} weeks' },
+  'linkLifetime.days': { one: '1 day', other: '{count} days' },
+  'linkLifetime.hours': { one: '1 hour', other: '{count} hours' },
+  'linkLifetime.default': 'Default lifetime: {lifetime}',
+
+  'orderSource.MANAGER': 'Manager',
+  'orderSource.AGENT': 'Agent',
+  'orderSource.PUBLIC': 'Online',
+  'orderExport.sheetName': 'Orders',
+  'orderExport.fileName': 'orders',
+  'orderExport.column.referenceId': 'Order no.',
+  'orderExport.column.status': 'Status',
+  'orderExport.column.source': 'Source',
+  'orderExport.column.agent': 'Agent',
+  'orderExport.column.customerName': 'Customer',
+  'orderExport.column.customerPhone': 'Phone',
+  'orderExport.column.customerEmail': 'Email',
+  'orderExport.column.customerStateId': 'Company / dealer no.',
+  'orderExport.column.customerAddress': 'Address',
+  'orderExport.column.customerCity': 'City',
+  'orderExport.column.fulfillment': 'Fulfillment',
+  'orderExport.column.createdAt': 'Created',
+  'orderExport.column.placedAt': 'Ordered',
+  'orderExport.column.doneAt': 'Completed',
+  'orderExport.column.productsTotal': 'Products total',
+  'orderExport.column.discount': 'Discount',
+  'orderExport.column.deliveryFee': 'Delivery fee',
+  'orderExport.column.credited': 'Credited',
+  'orderExport.column.totalPrice': 'Total',
+  'orderExport.column.notes': 'Notes',
+  'orderExport.column.productName': 'Product',
+  'orderExport.column.quantity': 'Quantity',
+  'orderExport.column.pricePerUnit': 'Unit price',
+  'orderExport.column.lineTotal': 'Line total',
+  'orderActivity.title': 'Order history',
+  'orderActivity.empty': 'No activity recorded for this order',
+  'orderActivity.openPdf': 'Open PDF',
+  'orderActivity.lineAdded': 'Added: {quantity} × {price}',
+  'orderActivity.lineRemoved': 'Removed (was {quantity})',
+  'orderActivity.quantityChange': 'Quantity {change}',
+  'orderActivity.priceChange': 'Price {change}',
+
+  'orders.bulk.toolbar': 'Actions on selected orders',
+  'orders.bulk.selected': '{count} selected',
+  'orders.bulk.clearSelection': 'Clear selection',
+  'orders.bulk.progress': '{done} of {total}',
+  'orders.bulk.copyFailed': 'Copying the links failed',
+  'orders.bulk.cancelTitle': { one: 'Cancel 1 order?', other: 'Cancel {count} orders?' },
+  'orders.bulk.cancelBody':
+    'Cancelling removes the orders from the active queue. Orders that are done, cancelled or expired are not changed.',
+  'orders.bulk.keep': 'Keep orders',
+  'orders.bulk.confirmCancel': 'Cancel orders',
+  'orders.bulk.discountTitle': { one: 'Discount for 1 order', other: 'Discount for {count} orders' },
+  'orders.bulk.discountLabel': "Discount percentage of each order's products total",
+  'orders.bulk.discountHint': "Each order's current discount is replaced. 0% removes the discount.",
+  'orders.bulk.applyDiscount': 'Apply discount',
+  'orders.bulk.resultsTitle': 'Results: {action}',
+  'orders.bulk.linksCopied': { one: '1 link copied', other: '{count} links copied' },
+  'orders.bulk.updated': { one: '1 order updated', other: '{count} orders updated' },
+  'orders.bulk.failed': '{count} failed (still selected):',
+  'orders.bulk.skipped': "{count} skipped (the action doesn't apply to their status):",
+  'orders.bulk.close': 'Close',
+
+  'orders.cancel.title': 'Cancel order?',
+  'orders.cancel.keep': 'Keep order',
+  'orders.cancel.confirm': 'Cancel order',
+  'orders.board.cancelBody':
+    'Cancelling removes order #{reference} from the active queue. You can always create a new order later.',
+  'orders.board.empty': 'No orders',
+  'orders.board.noCustomer': 'No customer details',
+  'orders.board.moveOrder': 'Move order {reference}',
+  'orders.board.moveTo': 'Move to...',
+
+  'orders.calendar.previous': 'Previous',
+  'orders.calendar.next': 'Next',
+  'orders.calendar.today': 'Today',
+  'orders.calendar.by': 'By:',
+  'orders.calendar.range': 'View range',
+  'orders.calendar.summary': { one: '1 order · Total', other: '{count} orders · Total' },
+  'orders.calendar.truncated': 'Only some of the orders in the range are shown – narrow the range or add filters',
+  'orders.calendar.emptyDay': 'No orders on this day',
+  'orders.calendar.more': '+{count} more',
+
+  'orders.export.title': 'Export orders',
+  'orders.export.intro': 'Every order matching the active filters is exported, from all pages.',
+  'orders.export.format': 'Format',
+  'orders.export.rows': 'Rows',
+  'orders.export.rowPerOrder': 'One row per order',
+  'orders.export.rowPerLine': 'One row per product in the order',
+  'orders.export.columns': 'Columns ({count})',
+  'orders.export.selectAll': 'Select all',
+  'orders.export.defaults': 'Defaults',
+  'orders.export.loading': 'Loading orders...',
+  'orders.export.stop': 'Stop export',
+  'orders.export.export': 'Export',
+
+  'orders.selectOrder': 'Select order {reference}',
+  'orders.expiringLinks.title': 'Links expiring in the next {hours} hours: {count}',
+  'orders.expiringLinks.requests': { one: '1 extension request', other: '{count} extension requests' },
+  'orders.expiringLinks.show': 'Show',
+  'orders.expiringLinks.hide': 'Hide',
+  'orders.expiringLinks.expiringSoonTab': 'Expiring soon',
+  'orders.expiringLinks.expiredTab': 'Expired',
+  'orders.expiringLinks.extendBy': 'Extend by:',
+  'orders.expiringLinks.extendSelected': 'Extend selected ({count})',
+  'orders.expiringLinks.reopenSelected': 'Reopen selected ({count})',
+  'orders.expiringLinks.noneExpiringSoon': 'No links expire in the next {hours} hours',
+  'orders.expiringLinks.noneExpired': 'No recently expired links',
+  'orders.expiringLinks.noCustomer': 'No customer',
+  'orders.expiringLinks.requested': 'Asked for extension',
+  'orders.expiringLinks.expiredAt': 'Expired {date}',
+  'orders.expiringLinks.expiresAt': 'Expires {date}',
+  'orders.expiringLinks.saving': 'Saving...',
+  'orders.expiringLinks.reopen': 'Reopen',
+  'orders.expiringLinks.extend': 'Extend',
+
+  'stockReason.RECEIVED': 'Goods received',
+  'stockReason.COUNT': 'Stock count',
+  'stockReason.DAMAGED': 'Damaged / lost',
+  'stockReason.RETURNED': 'Customer return',
+  'stockReason.OTHER': 'Other',
+  'stockReason.ORDER_DONE': 'Order completed',
+  'stock.locationFallback': 'Location #{id}',
+  'stock.error.wholeNumber': 'Enter a whole number',
+  'stock.error.countRange': 'The counted quantity must be between 0 and {max}',
+  'stock.error.deltaRange': 'The change must be other than 0 and up to {max} units',
+  'stock.error.noteRequired': 'Describe the reason for the change',
+  'stock.error.noteTooLong': 'The note can have up to {max} characters',
+  'stock.error.thresholdRange': 'The low-stock threshold must be a whole number between 0 and {max}',
+  'stock.settings.off': 'Off',
+  'stock.settings.blocking': 'On · blocks ordering quantities not in stock',
+  'stock.settings.badgesOnly': 'On · stock badges in the store only',
+  'stock.title': 'Stock – {name}',
+  'stock.noLocations': 'To manage stock, add a location on the locations page.',
+  'stock.deletedVariant': 'Deleted variant',
+  'stock.variant': 'Variant',
+  'stock.product': 'Product',
+  'stock.total': 'Total',
+  'stock.lowStock': 'Total stock ({total}) reached the low-stock threshold ({threshold})',
+  'stock.adjustTitle': 'Update stock',
+  'stock.location': 'Location',
+  'stock.reason': 'Reason',
+  'stock.countedQuantity': 'Counted quantity',
+  'stock.delta': 'Change (e.g. 10 or -3)',
+  'stock.current': 'Now at this location: {quantity}',
+  'stock.note': 'Note',
+  'stock.optional': '(optional)',
+  'stock.saving': 'Saving...',
+  'stock.adjust': 'Update stock',
+  'stock.thresholdLabel': 'Low-stock alert when the total stock drops to',
+  'stock.thresholdHint': '(empty = no alert)',
+  'stock.thresholdNone': 'None',
+  'stock.saveThreshold': 'Save threshold',
+  'stock.recentChanges': 'Recent changes',
+  'stock.noChanges': 'No stock changes yet.',
+  'stock.left': '{quantity} left',
+
+  'addresses.title': 'Fix customer addresses',
+  'addresses.intro':
+    'Addresses typed with a different spelling (e.g. "ת"א" or "קרית גת") are updated to the official locality and street name. Addresses that are not in the registry stay as they are.',
+  'addresses.updated': { one: '1 customer updated.', other: '{count} customers updated.' },
+  'addresses.failed': '{count} customers were not updated:',
+  'addresses.nothingToFix': 'All known addresses are already written consistently.',
+  'addresses.selected': '{count} of {total} selected',
+  'addresses.unknownCity': "{count} customers with a locality that isn't in the registry won't change.",
+  'addresses.progress': 'Updating {done} of {total}...',
+  'addresses.apply': { one: 'Update 1 address', other: 'Update {count} addresses' },
+
+  'customerLink.title': 'Personal store link',
+  'customerLink.intro':
+    'A permanent link for the customer: it always shows their special prices, and every order through it opens as a new order.',
+  'customerLink.loading': 'Loading...',
+  'customerLink.creating': 'Creating link...',
+  'customerLink.create': 'Create personal store link',
+  'customerLink.label': 'Personal store link',
+  'customerLink.copied': 'Copied ✓',
+  'customerLink.copy': 'Copy link',
+  'customerLink.copyFailed': 'Copying failed',
+  'customerLink.createdAt': 'Created {date}',
+  'customerLink.unused': 'No orders through it yet',
+  'customerLink.usage': { one: '1 order · last {date}', other: '{count} orders · last {date}' },
+  'customerLink.rotateWarning':
+    'The current link stops working and is replaced by a new one. Send the customer the new link.',
+  'customerLink.revokeWarning':
+    "The link stops working and the customer can't order through it. You can create a new link at any time.",
+  'customerLink.saving': 'Saving...',
+  'customerLink.rotate': 'Replace link',
+  'customerLink.revoke': 'Revoke link',
+  'customerLink.back': 'Back',
+
+  'orders.page.loadFailed': 'Failed to load orders',
+  'orders.page.invalidValue': 'Please enter a valid value',
+  'orders.page.title': 'Orders',
+  'orders.page.subtitle': 'Manage your orders and share links with customers',
+  'orders.page.export': 'Export',
+  'orders.page.newOrder': 'Create new order',
+  'orders.page.createOrder': 'Create order',
+  'orders.page.filter.agent': 'Agent:',
+  'orders.page.filter.customer': 'Customer:',
+  'orders.page.filter.location': 'Pickup location:',
+  'orders.page.filter.status': 'Status:',
+  'orders.page.filter.sortBy': 'Sort by:',
+  'orders.page.filter.pageSize': 'Show:',
+  'orders.page.filter.all': 'All',
+  'orders.page.filter.todayPickups': "Today's pickups",
+  'orders.page.sort.createdAt': 'Created date',
+  'orders.page.sort.totalPrice': 'Total price',
+  'orders.page.sort.pickupSlot': 'Pickup time',
+  'orders.page.sort.ascending': 'A → Z',
+  'orders.page.sort.descending': 'Z → A',
+  'orders.page.me': 'Me',
+  'orders.page.online': '- Online -',
+  'orders.page.empty.title': 'No orders yet',
+  'orders.page.empty.body': 'Create your first order to get started',
+  'orders.page.selectPage': 'Select all orders on this page',
+  'orders.page.copied': 'Copied!',
+  'orders.page.noCustomerYet': 'No customer details yet',
+  'orders.page.awaitingDetails': 'Waiting for the order details',
+  'orders.page.noCustomerDetails': 'No customer details',
+  'orders.page.discount': 'Discount:',
+  'orders.page.credited': 'Credited:',
+  'orders.page.total': 'Total',
+  'orders.page.pickup': 'Pickup: {slot}',
+  'orders.page.sendWhatsApp': 'Send link on WhatsApp',
+  'orders.page.linkCopied': 'Link copied',
+  'orders.page.copyLink': 'Copy order link',
+  'orders.page.openInNewTab': 'Open order in a new tab',
+  'orders.page.edit': 'Edit order',
+  'orders.page.markDone': 'Mark as done',
+  'orders.page.taxInvoice': 'Tax invoice receipt',
+  'orders.page.createTaxInvoice': 'Create tax invoice receipt',
+  'orders.page.create.linkExpiry':
+    'The order link expires at the end of the validity period you choose here. You can extend it later.',
+  'orders.page.create.linkLifetime': 'Link validity',
+  'orders.page.create.businessDefault': 'Business default',
+  'orders.page.create.customer': 'Choose a customer',
+  'orders.page.create.noCustomer': 'No customer',
+  'orders.page.create.noCustomerHint': 'The customer will fill in their details through the link',
+  'orders.page.create.linkExisting': 'Or link to an existing customer',
+  'orders.page.create.search': 'Search customers...',
+  'orders.page.create.noResults': 'No customers found',
+  'orders.page.create.clearSearch': 'Clear search',
+  'orders.page.create.creating': 'Creating...',
+  'orders.page.cancelBody':
+    'Cancelling removes the order from the active queue. You can always create a new order later if you change your mind.',
+  'orders.page.cancelling': 'Cancelling...',
+  'orders.page.discountModal.title': 'Add discount',
+  'orders.page.discountModal.order': 'Order #{id}',
+  'orders.page.discountModal.orderTotal': 'Order total:',
+  'orders.page.discountModal.amountMode': 'Amount (₪)',
+  'orders.page.discountModal.percentMode': 'Percentage (%)',
+  'orders.page.discountModal.amountLabel': 'Discount amount (₪)',
+  'orders.page.discountModal.percentLabel': 'Discount percentage (%)',
+  'orders.page.discountModal.hint': 'Up to 2 decimal places, at most {max}',
+  'orders.page.discountModal.amount': 'Discount amount:',
+  'orders.page.discountModal.saving': 'Saving...',
+  'orders.page.discountModal.save': 'Save',
+
+  'orders.viewMode.label': 'View:',
+  'orders.viewMode.list': 'List',
+  'orders.viewMode.board': 'Board',
+  'orders.viewMode.calendar': 'Calendar',
+
+  'orders.linkExtend.requested': 'The customer asked to extend the link on {date}',
+  'orders.linkExtend.reopenFor': 'Reopen for:',
+  'orders.linkExtend.reopen': 'Reopen link',
+  'orders.linkExtend.extend': 'Extend link',
+
+  'agentOrders.placedOn': 'Placed {date}',
+  'agentOrders.createdOn': 'Created {date}',
+  'agentOrders.linkInfo': 'Link details',
+  'agentOrders.linkExpiresAt': 'Expiry date',
+
+  'field.firstName': 'First name',
+  'field.lastName': 'Last name',
+  'field.phone': 'Phone number',
+  'field.address': 'Address',
+  'field.city': 'City',
+  'field.email': 'Email',
+  'field.password': 'Password',
+  'field.currentPassword': 'Current password',
+  'field.dateOfBirth': 'Date of birth',
+  'field.date': 'Date',
+  'field.businessName': 'Business name',
+  'field.stateId': 'Company / business ID',
+  'field.customerName': 'Customer name',
+  'field.discountPercentage': 'Discount percentage',
+  'field.locationName': 'Location name',
+  'field.minInvoiceNumber': 'Minimum invoice number',
+  'field.minCreditNoteNumber': 'Minimum credit note number',
+  'field.deliveryFee': 'Delivery fee',
+  'field.freeDeliveryThreshold': 'Free delivery threshold',
+  'field.minimumOrderTotal': 'Minimum order total',
+
+  'validation.required': '{field} is required',
+  'validation.maxLength': '{field} must be {max} characters or fewer',
+  'validation.digitsOnly': '{field} must contain digits only',
+  'validation.exactDigits': '{field} must be exactly {count} digits',
+  'validation.emailInvalid': 'Please enter a valid email',
+  'validation.number': '{field} must be a valid number',
+  'validation.percentRange': '{field} must be between 0 and 100',
+  'validation.passwordMinLength': 'Password must be at least {min} characters',
+  'validation.confirmPassword': 'Please confirm your password',
+  'validation.passwordMismatch': 'Passwords do not match',
+  'validation.minOne': '{field} must be at least 1',
+  'validation.moneyAmount': '{field} must be a valid amount (0 or more) with up to 2 decimal places',
+  'validation.moneyMax': '{field} cannot exceed {max}',
+
+  'pickupScheduling.error.noTemplates': 'Add at least one pickup window',
+  'pickupScheduling.error.missingHours': 'Enter opening and closing times for {day}',
+  'pickupScheduling.error.endBeforeStart': 'The end time on {day} must be after the start time',
+  'pickupScheduling.error.windowTooShort': 'The window on {day} is shorter than one slot ({minutes} minutes)',
+  'pickupScheduling.error.capacity': 'Orders per slot on {day} must be a whole number from 1 to {max}',
+  'pickupScheduling.error.overlap': 'The pickup windows on {day} overlap',
+  'pickupScheduling.error.leadTime': 'Preparation time must be a whole number of hours from 0 to {max}',
+  'pickupScheduling.error.bookingWindow': 'Advance booking must be between 1 and {max} days',
+
+  'priceTier.error.tooMany': 'You can define up to {max} price tiers',
+  'priceTier.error.quantity': 'A tier minimum quantity must be a whole number of 2 or more',
+  'priceTier.error.quantityOrder': 'Tier quantities must increase from tier to tier',
+  'priceTier.error.price': 'The price for {quantity} units or more must be a positive number',
+  'priceTier.error.priceMax': 'The price for {quantity} units or more cannot exceed {max}',
+  'priceTier.error.belowMinimum': 'The price for {quantity} units or more cannot be below the minimum price',
+  'priceTier.error.notLower': 'The price for {quantity} units or more must be lower than the previous tier',
+
+  'variant.error.axisName': 'Enter a name for every variant option',
+  'variant.error.axisNamesUnique': 'Variant option names must be different',
+  'variant.error.axisValues': 'Enter at least one value for every option (separated by commas)',
+  'variant.error.tooManyValues': 'You can define up to {max} values per option',
+  'variant.error.tooManyVariants': 'You can define up to {max} variants per product',
+  'variant.error.price': 'The price of variant {label} must be a positive number',
+  'variant.error.priceMax': 'The price of variant {label} cannot exceed {max}',
+  'variant.error.belowMinimum': 'The price of variant {label} cannot be below the minimum price',
+
+  'cartRule.summary.minimum': 'Minimum {amount}',
+  'cartRule.summary.productRules': { one: 'One product rule', other: '{count} product rules' },
+  'cartRule.summary.none': 'None',
+  'cartRule.error.tooMany': 'You can define up to {max} product rules',
+  'cartRule.error.noProduct': 'Choose a product in every rule',
+  'cartRule.error.duplicate': 'There is more than one rule for {name}',
+  'cartRule.error.maxQuantity': 'The maximum quantity for {name} must be a whole number from 1 to {max}',
+  'cartRule.error.packSize': 'The pack size for {name} must be a whole number of 2 or more',
+  'cartRule.error.maxBelowPack': 'The maximum quantity for {name} is less than one pack ({step})',
+  'cartRule.error.empty': 'No rule is set for {name}',
+
+  'storeTheme.summary.default': 'Default',
+  'storeTheme.summary.colors': 'Custom colors',
+  'storeTheme.summary.banner': 'Banner',
+  'storeTheme.summary.welcomeText': 'Welcome text',
+  'storeTheme.summary.footer': 'Footer',
+  'storeTheme.error.primaryColor': 'Invalid primary color',
+  'storeTheme.error.accentColor': 'Invalid accent color',
+  'storeTheme.error.welcomeTextLength': 'The welcome text must be {max} characters or fewer',
+  'storeTheme.error.footerTextLength': 'The footer text must be {max} characters or fewer',
+  'storeTheme.error.contactPhone': 'The contact phone must have 9-10 digits',
+  'storeTheme.error.contactAddressLength': 'The address must be {max} characters or fewer',
+
+  'delivery.summary.off': 'Off',
+  'delivery.summary.fee': 'Delivery fee {fee}',
+  'delivery.summary.free': 'Free delivery',
+  'delivery.summary.freeAbove': '{fee} · free over {threshold}',
+
+  'priceTier.editor.title': 'Volume prices',
+  'priceTier.editor.add': '+ Add tier',
+  'priceTier.editor.from': 'from',
+  'priceTier.editor.units': 'pcs',
+  'priceTier.editor.quantityLabel': 'Minimum quantity for tier {number}',
+  'priceTier.editor.priceLabel': 'Unit price for tier {number}',
+  'priceTier.editor.remove': 'Remove tier',
+
+  'variant.editor.title': 'Variants',
+  'variant.editor.hint': '(size, color, pack... optional)',
+  'variant.editor.addAxis': '+ Add option',
+  'variant.editor.empty': 'A product without variants is sold at one price.',
+  'variant.editor.axisPlaceholder': 'e.g. Size',
+  'variant.editor.axisLabel': 'Variant option {number} name',
+  'variant.editor.valuesLabel': 'Values of variant option {number}, separated by commas',
+  'variant.editor.removeAxis': 'Remove option',
+  'variant.editor.count': { one: 'One variant', other: '{count} variants' },
+  'variant.editor.priceHeader': 'Price (empty = product price)',
+  'variant.editor.priceLabel': 'Price for {label}',
+
+  'pickupScheduling.title': 'Pickup times – {name}',
+  'pickupScheduling.enabled': 'Customers choose a pickup time at this location',
+  'pickupScheduling.windows': 'Weekly pickup windows',
+  'pickupScheduling.addWindow': '+ Add window',
+  'pickupScheduling.noWindows': 'No pickup windows yet.',
+  'pickupScheduling.column.day': 'Day',
+  'pickupScheduling.column.from': 'From',
+  'pickupScheduling.column.to': 'To',
+  'pickupScheduling.column.slotLength': 'Slot length',
+  'pickupScheduling.column.capacity': 'Orders per slot',
+  'pickupScheduling.dayLabel': 'Day of window {number}',
+  'pickupScheduling.startLabel': 'Start time of window {number}',
+  'pickupScheduling.endLabel': 'End time of window {number}',
+  'pickupScheduling.slotLengthLabel': 'Slot length in window {number}',
+  'pickupScheduling.minutes': '{minutes} min',
+  'pickupScheduling.capacityLabel': 'Orders per slot in window {number}',
+  'pickupScheduling.removeWindow': 'Remove window',
+  'pickupScheduling.leadTime': 'Preparation time (hours)',
+  'pickupScheduling.leadTimeHint': 'The earliest time customers can choose',
+  'pickupScheduling.bookingWindow': 'Book ahead up to (days)',
+  'pickupScheduling.blackoutDates': 'Closed days (holidays, vacations)',
+  'pickupScheduling.removeDate': 'Remove {date}',
+
+  'cartRule.editor.title': 'Product rules',
+  'cartRule.editor.add': '+ Add rule',
+  'cartRule.editor.loadingProducts': 'Loading products...',
+  'cartRule.editor.column.product': 'Product',
+  'cartRule.editor.column.max': 'Max per order',
+  'cartRule.editor.column.pack': 'Pack of',
+  'cartRule.editor.column.required': 'Required',
+  'cartRule.editor.productLabel': 'Product of rule {number}',
+  'cartRule.editor.chooseProduct': 'Choose a product',
+  'cartRule.editor.noLimit': 'No limit',
+  'cartRule.editor.maxLabel': 'Maximum quantity of rule {number}',
+  'cartRule.editor.packLabel': 'Pack size of rule {number}',
+  'cartRule.editor.remove': 'Remove rule',
+
+  'storeTheme.editor.title': 'Store design',
+  'storeTheme.editor.primaryColor': 'Primary color',
+  'storeTheme.editor.accentColor': 'Accent color',
+  'storeTheme.editor.colorHex': '{color} (hex)',
+  'storeTheme.editor.reset': 'Reset',
+  'storeTheme.editor.previewSort': 'Active sort',
+  'storeTheme.editor.adjusted': 'The shade was adjusted to keep the text readable',
+  'storeTheme.editor.banner': 'Store banner',
+  'storeTheme.editor.replaceBanner': 'Replace banner',
+  'storeTheme.editor.removeBanner': 'Remove banner',
+  'storeTheme.editor.chooseBanner': 'Choose a banner image',
+  'storeTheme.editor.bannerHint': 'JPEG, PNG, WebP. Maximum size: 5MB. A 4:1 aspect ratio is recommended.',
+  'storeTheme.editor.welcomeText': 'Welcome text',
+  'storeTheme.editor.welcomePlaceholder': 'Welcome to our store!',
+  'storeTheme.editor.footerText': 'Footer text',
+  'storeTheme.editor.footerPlaceholder': 'Opening hours: Sun–Thu 8:00-17:00',
+  'storeTheme.editor.contactPhone': 'Contact phone',
+  'storeTheme.editor.contactEmail': 'Contact email',
+  'storeTheme.editor.contactAddress': 'Displayed address',
+
+  'orderView.title': 'Order details',
+  'orderView.id': 'ID #{id}',
+  'orderView.customer': 'Customer details',
+  'orderView.name': 'Name',
+  'orderView.phone': 'Phone',
+  'orderView.email': 'Email',
+  'orderView.address': 'Address',
+  'orderView.city': 'City',
+  'orderView.noCustomer': 'No customer details yet',
+  'orderView.location': 'Location',
+  'orderView.instructions': 'Instructions',
+  'orderView.noDeliveryAddress': 'No delivery address entered',
+  'orderView.pickupSlot': 'Pickup time',
+  'orderView.noLocation': 'No location chosen yet',
+  'orderView.products': 'Products',
+  'orderView.noProducts': 'No products yet',
+  'orderView.quantity': 'Quantity: {quantity}',
+  'orderView.perUnit': '{price} per unit',
+  'orderView.creditedProducts': 'Credited products',
+  'orderView.noCreditedProducts': 'No credited products yet',
+  'orderView.creditedQuantity': 'Credited quantity: {quantity}',
+  'orderView.summary': 'Order summary',
+  'orderView.totalItems': 'Total items',
+  'orderView.totalQuantity': 'Total quantity',
+  'orderView.price': 'Price',
+  'orderView.discount': 'Discount',
+  'orderView.deliveryFee': 'Delivery fee',
+  'orderView.credits': 'Credits',
+  'orderView.total': 'Total price',
+  'orderView.notes': 'Notes',
+  'orderView.noNotes': 'No notes',
+  'orderView.moreInfo': 'More information',
+  'orderView.reference': 'Reference number',
+  'orderView.createdAt': 'Created:',
+  'orderView.placedAt': 'Ordered:',
+  'orderView.doneAt': 'Completed:',
+  'orderView.expiresAt': 'Expires:',
+  'orderView.documents': 'Invoices and documents',
+  'orderView.noDocuments': 'No invoices yet',
+  'orderView.creditNote': 'Credit',
+  'orderView.invoice': 'Invoice',
+  'orderView.openPdf': 'Open PDF',
+  'orderView.noPdf': 'No PDF',
+  'orderView.cancel': 'Cancel order',
+  'orderView.cancelling': 'Cancelling...',
+  'orderView.edit': 'Edit order',
+  'orderView.addDiscount': 'Add discount',
+  'orderView.markDone': 'Mark as done',
+  'orderView.marking': 'Marking...',
+  'orderView.loadingInvoice': 'Loading invoice data…',
+  'orderView.createCreditNoteTitle': 'Create a tax credit note',
+  'orderView.createCreditNote': 'Create credit',
+  'orderView.openInOrders': 'Open in orders',
+
+  'invoice.orderNumber': 'Order #{id}',
+  'invoice.title': 'Create invoice',
+  'invoice.creating': 'Creating...',
+  'invoice.orderTotal': 'Order total',
+  'invoice.allocationNeeded': 'This order needs an allocation number',
+  'invoice.allocationNotNeeded': 'This order does not need an allocation number',
+  'invoice.paymentMethod': 'Payment method',
+  'invoice.cash': 'Cash',
+  'invoice.creditCard': 'Credit card',
+  'invoice.allocationData': 'Details for requesting an allocation number',
+  'invoice.data.reference': 'Reference number: {value}',
+  'invoice.data.customerId': 'Customer ID: {value}',
+  'invoice.data.notAvailable': 'Not available',
+  'invoice.data.date': 'Date: {value}',
+  'invoice.data.amountBeforeVat': 'Transaction amount before VAT: {value}',
+  'invoice.cardLast4': 'Last 4 digits of the credit card',
+  'invoice.cardLast4Hint': 'Enter 4 digits only',
+  'invoice.allocationNumber': 'Allocation number',
+  'invoice.allocationHelp': 'More about allocation numbers',
+  'invoice.allocationHelpText': 'Orders with a total above {amount} need an allocation number.',
+  'invoice.allocationHelpLink': 'How to get an allocation number (video)',
+  'invoice.allocationPlaceholder': 'Enter 9 digits',
+  'invoice.allocationHint': 'Enter exactly 9 digits',
+  'invoice.error.allocationRequired': 'An allocation number is required',
+  'invoice.error.allocationLength': 'The allocation number must be exactly 9 digits',
+  'invoice.error.allocationDigits': 'The allocation number must contain digits only',
+  'invoice.error.cardLast4': 'Enter the last 4 digits of the credit card',
+  'invoice.error.cardDigits': 'The last 4 digits must be numbers only',
+
+  'creditNote.title': 'Create a tax credit note',
+  'creditNote.type': 'Credit type',
+  'creditNote.byAmount': 'Credit by amount',
+  'creditNote.byOrder': 'Credit by order update',
+  'creditNote.grossTotal': 'Order total (before credits)',
+  'creditNote.alreadyCredited': 'Already credited',
+  'creditNote.balance': 'Balance',
+  'creditNote.amount': 'Credit amount (₪)',
+  'creditNote.amountHint': 'Digits and a decimal point only, up to two decimal places. Maximum for this order: {max}',
+  'creditNote.allocation': 'Allocation number (9 digits)',
+  'creditNote.notes': 'Credit notes (optional)',
+  'creditNote.notesPlaceholder': 'Add notes to show on the credit note...',
+  'creditNote.sending': 'Sending…',
+  'creditNote.create': 'Create credit',
+  'creditNote.createByProducts': 'Create credit for products',
+  'creditNote.productsAmount': 'Credit amount for products',
+  'creditNote.maxForOrder': 'Maximum credit for the order',
+  'creditNote.overMax': 'The selected credit amount is above the maximum allowed for the order.',
+  'creditNote.column.product': 'Product',
+  'creditNote.column.ordered': 'Ordered',
+  'creditNote.column.credited': 'Credited',
+  'creditNote.column.toCredit': 'To credit',
+  'creditNote.column.amount': 'Amount',
+  'creditNote.remaining': 'Left: {count}',
+  'creditNote.error.amount': 'Enter a positive amount',
+  'creditNote.error.noProducts': 'Choose at least one product to credit',
+  'creditNote.error.max': 'The amount cannot exceed {max}',
+  'creditNote.error.allocation': 'The allocation number must have 9 digits',
+  'creditNote.error.notes': 'Notes can have up to {max} characters',
+
+  'placeholder.street': '123 Main Street',
+  'placeholder.city': 'Tel Aviv',
+
+  'image.choose': 'Choose an image or drag and drop',
+  'image.dropHere': 'Drop the image here',
+  'image.change': 'Change image',
+  'image.replace': 'Replace the image or drag and drop',
+  'image.current': 'Current image:',
+  'image.remove': 'Remove image',
+  'image.willBeRemoved': 'The image will be removed',
+  'image.undoRemove': 'Undo remove',
+  'image.hint': 'JPEG, PNG, WebP. Maximum size: 5MB.',
+  'image.error.type': 'Invalid file type. Please choose a JPEG, PNG or WebP image.',
+  'image.error.size': 'The file is larger than 5MB.',
+  'image.error.read': 'Failed to read the file to compute its checksum',
+  'image.error.upload': 'Failed to upload the image to S3',
+
+  'business.edit.title': 'Update business details',
+  'business.edit.email': 'Business email',
+  'business.edit.delivery': 'Delivery to customers',
+  'business.edit.deliveryHint': 'When on, customers can choose delivery instead of pickup when they order.',
+  'business.edit.deliveryFee': 'Delivery fee (₪)',
+  'business.edit.freeDeliveryThreshold': 'Free delivery over (₪)',
+  'business.edit.minimumOrderTotal': 'Minimum order total (₪)',
+  'business.edit.none': 'None',
+  'business.edit.inventory': 'Stock tracking',
+  'business.edit.inventoryHint':
+    'When on, stock is managed per location on the products page, goes down automatically when an order is marked done, and the store shows "Out of stock" / "Only … left".',
+  'business.edit.blockUnavailable': 'Do not allow ordering more than the stock',
+  'business.edit.deliveryLocation': 'Location that ships deliveries',
+  'business.edit.noDeliveryLocation': 'None – deliveries do not reduce stock',
+  'business.edit.linkLifetime': 'Default order link validity',
+  'business.edit.linkLifetimeHint':
+    'New links expire at the end of this period unless another validity is chosen when the order is created.',
+  'business.edit.image': 'Business image',
+  'business.edit.currentImageAlt': 'Current business image',
+  'business.edit.previewImageAlt': 'Business image preview',
+  'business.loading': 'Loading business data...',
+  'business.loadError': 'Error loading the business data',
+  'business.notFound': 'No business data found',
+  'business.notFoundHint': 'No business is registered for this account',
+  'business.noImage': 'No image',
+  'business.subtitle': 'Business details',
+  'business.delivery': 'Delivery',
+  'business.cartRules': 'Cart rules',
+  'business.orderLinks': 'Order links',
+  'business.registeredAt': 'Registered on',
+  'business.updatedAt': 'Last updated',
+
+  'businessInfo.statsFor': 'Statistics for {month}',
+  'businessInfo.orderLinks': 'Orders per agent',
+  'businessInfo.manager': 'Manager',
+  'businessInfo.total': 'Total',
+  'businessInfo.income': 'Revenue',
+  'businessInfo.completedOrders': 'Completed orders',
+  'businessInfo.yearlyOverview': 'Yearly overview - {year}',
+  'businessInfo.chart.ordersTooltip': { one: '{month}: {count} order', other: '{month}: {count} orders' },
+  'businessInfo.chart.revenue': 'Revenue: {amount}',
+  'businessInfo.chart.orders': 'Orders: {count}',
+  'businessInfo.chart.revenueLegend': 'Revenue',
+  'businessInfo.error.links': 'Failed to load the created links',
+  'businessInfo.error.income': 'Failed to load the monthly revenue',
+  'businessInfo.error.completedOrders': 'Failed to load the completed order count',
+  'businessInfo.error.yearly': 'Failed to load the yearly data',
+
+  'login.required': 'Required field',
+  'login.rememberMe': 'Remember me',
+  'login.submit': 'Sign in',
+  'login.signingIn': 'Signing in...',
+  'login.success': 'Signed in successfully',
+  'login.signInHere': 'Sign in here',
+  'login.backHome': '← Back to homepage',
+  'login.backHomeLabel': 'Back to homepage',
+  'login.error.emailRequired': 'Please enter your email address',
+  'login.error.passwordRequired': 'Please enter your password',
+  'login.error.invalid': 'Invalid email or password',
+  'login.manager.title': 'Manager portal',
+  'login.manager.subtitle': 'Sign in to your account',
+  'login.manager.wantAccount': 'Want an account?',
+  'login.manager.contact': 'Contact us',
+  'login.manager.contactLabel': 'Contact the system administrator at {phone}',
+  'login.manager.adminPhone': 'System administrator phone: {phone}',
+  'login.manager.phoneCopied': 'Phone number copied!',
+  'login.manager.isAgent': 'Agent?',
+  'login.manager.agentLoginLabel': 'Agent sign-in',
+  'login.agent.title': 'Agent portal',
+  'login.agent.subtitle': 'Sign in to see your tasks',
+  'login.agent.submitLabel': 'Sign in to your agent account',
+  'login.agent.backToManager': 'Back to manager sign-in?',
+  'login.agent.backToManagerLabel': 'Back to manager sign-in',
+
+  'skipLinks.main': 'Skip to main content',
+  'skipLinks.navigation': 'Skip to navigation',
+  'cookieConsent.title': 'Use of cookies',
+  'cookieConsent.description':
+    'We use cookies to improve your experience on the site. By continuing to use the site, you agree to the use of cookies in accordance with',
+  'cookieConsent.policyLink': 'our cookie policy',
+  'cookieConsent.reject': 'Reject',
+  'cookieConsent.rejectLabel': 'Reject cookies - reject all non-essential cookies',
+  'cookieConsent.accept': 'Accept',
+  'cookieConsent.acceptLabel': 'Accept cookies - accept all types of cookies',
+
+  'a11y.open': 'Open accessibility menu',
+  'a11y.menu': 'Accessibility menu',
+  'a11y.close': 'Close accessibility menu',
+  'a11y.title': 'Accessibility settings',
+  'a11y.fontSize': 'Font size',
+  'a11y.fontSample': 'A',
+  'a11y.contrast': 'Contrast',
+  'a11y.spacing': 'Spacing',
+  'a11y.level.small': 'Small',
+  'a11y.level.normal': 'Normal',
+  'a11y.level.large': 'Large',
+  'a11y.level.extraLarge': 'Extra large',
+  'a11y.level.high': 'High',
+  'a11y.level.increased': 'Increased',
+  'a11y.announce.fontSize': 'Font size changed to {level}',
+  'a11y.announce.contrast': 'Contrast changed to {level}',
+  'a11y.announce.spacing': 'Spacing changed to {level}',
+  'a11y.announce.reset': 'Accessibility settings were reset to their defaults',
+  'a11y.reset': 'Reset settings',
+  'a11y.statement': 'Accessibility statement',
+  'a11y.reportIssue': 'Report an accessibility issue: {phone}',
+
+  'home.logoAlt': 'אורדרית - order management system',
+  'home.title': 'Order management system',
+  'home.subtitle': 'Manage your business, customers, products and orders',
+  'home.managerHint': 'Sign in to manage your business',
+  'home.agentHint': 'Sign in to your agent account',
+  'home.features.title': 'Everything you need to run your business',
+  'home.features.subtitle': 'A complete, professional solution in one place',
+  'home.dashboard.imageAlt': 'Dashboard - profile and personal details',
+  'home.dashboard.title': 'A complete dashboard',
+  'home.dashboard.description':
+    'Manage every aspect of your business from one place - all the tools you need to run it professionally',
+  'home.orders.imageAlt': 'Order management - create, edit and track',
+  'home.orders.title': 'Order management',
+  'home.orders.description': 'Create new orders, track statuses, share links with customers and issue invoices',
+  'home.orders.create': 'Create new orders and manage existing ones',
+  'home.orders.statuses': 'Status tracking - empty, ordered, completed, cancelled',
+  'home.orders.links': 'Share links with customers to complete orders',
+  'home.orders.invoices': 'Invoices and custom discounts',
+  'home.catalog.imageAlt': 'Product management - a full catalog with images and prices',
+  'home.catalog.title': 'Product catalog',
+  'home.catalog.description': 'Manage your catalog, add new products, update prices and sort by category',
+  'home.catalog.products': 'Product management - add, edit and delete',
+  'home.catalog.categories': 'Categories and brands - keep products organized',
+  'home.catalog.prices': 'Special prices - discounts for customers and agents',
+  'home.catalog.images': 'Product images - an image gallery for every product',
+  'home.contact.title': 'Contact us',
+  'home.contact.subtitle': "We'd be happy to help with any question",
+  'home.contact.callLabel': 'Call {phone}',
+
+  'legal.lastUpdated': 'Last updated: {date}',
+  'legal.phone': 'Phone:',
+  'legal.website': 'Website:',
+  'legal.hours': 'Business hours: Sunday-Thursday 09:00-17:00',
+  'legal.backHome': 'Back to the home page',
+  'legal.purpose': 'Purpose:',
+  'legal.validity': 'Expiry:',
+  'accessibilityStatement.intro.title': 'Introduction',
+  'accessibilityStatement.intro.law':
+    'The order management system is committed to providing an accessible and equal service to all users, in accordance with the Equal Rights for Persons with Disabilities Law (1998) and the Service Accessibility Regulations (2013).',
+  'accessibilityStatement.intro.wcag':
+    'The site meets the W3C WCAG 2.2 Level AA standard, the international standard for web accessibility.',
+  'accessibilityStatement.features.title': 'Accessibility features',
+  'accessibilityStatement.features.intro': 'The site includes the following features to improve accessibility:',
+  'accessibilityStatement.features.keyboard':
+    'Full keyboard navigation - all functionality is available from the keyboard',
+  'accessibilityStatement.features.screenReaders': 'Screen reader support - full support for NVDA, JAWS and VoiceOver',
+  'accessibilityStatement.features.skipLinks': 'Skip links - jump straight to the main content or the navigation',
+  'accessibilityStatement.features.fontSize':
+    'Font size adjustment - enlarge the text (small, normal, large, extra large)',
+  'accessibilityStatement.features.contrast': 'Contrast adjustment - increase the contrast between text and background',
+  'accessibilityStatement.features.spacing':
+    'Spacing adjustment - increase the spacing between letters, words and elements',
+  'accessibilityStatement.features.altText': 'Images with alternative text - every image has a text description',
+  'accessibilityStatement.features.tables': 'Accessible tables - tables with headers, captions and a correct structure',
+  'accessibilityStatement.features.forms':
+    'Accessible forms - every field has a label, error messages and instructions',
+  'accessibilityStatement.features.modals':
+    'Accessible dialogs - modal windows with focus trapping and keyboard navigation',
+  'accessibilityStatement.standards.title': 'Standards compliance',
+  'accessibilityStatement.standards.intro': 'The site meets the following requirements:',
+  'accessibilityStatement.standards.wcag': 'International web accessibility standard',
+  'accessibilityStatement.standards.israeliStandard': 'Israeli Standard 5568',
+  'accessibilityStatement.standards.israeliStandardDescription': 'Guidelines for web content accessibility',
+  'accessibilityStatement.standards.law': 'Equal Rights for Persons with Disabilities Law',
+  'accessibilityStatement.standards.lawYear': '1998',
+  'accessibilityStatement.standards.regulations': 'Service Accessibility Regulations',
+  'accessibilityStatement.standards.regulationsYear': '2013',
+  'accessibilityStatement.knownIssues.title': 'Known issues',
+  'accessibilityStatement.knownIssues.text':
+    'As of this update, no significant accessibility issues have been identified on the site. If you find a problem, please contact us using the details below.',
+  'accessibilityStatement.contact.title': 'Reporting accessibility issues',
+  'accessibilityStatement.contact.text':
+    'If you have run into an accessibility issue on the site, or have suggestions for improvement, please contact us:',
+  'accessibilityStatement.contact.response': 'We aim to respond to every request within 5 business days.',
+  'accessibilityStatement.enforcement.title': 'Enforcement procedure',
+  'accessibilityStatement.enforcement.intro': 'If you did not receive a satisfactory answer, you can contact:',
+  'accessibilityStatement.enforcement.commission': 'Commission for Equal Rights of Persons with Disabilities',
+  'accessibilityStatement.widget.title': 'Accessibility widget',
+  'accessibilityStatement.widget.intro': 'The site includes an accessibility widget that lets you customize:',
+  'accessibilityStatement.widget.fontSize': 'Font size (small, normal, large, extra large)',
+  'accessibilityStatement.widget.contrast': 'Contrast level (normal, high)',
+  'accessibilityStatement.widget.spacing': 'Spacing (normal, increased)',
+  'accessibilityStatement.widget.location':
+    'The widget is in the bottom-left corner of the screen. You can also open it with the keyboard shortcut Alt + A (or Option + A on a Mac).',
+  'cookiesPolicy.title': 'Cookie policy',
+  'cookiesPolicy.what.title': 'What are cookies?',
+  'cookiesPolicy.what.text':
+    'Cookies are small text files stored on your device (computer, phone, tablet) when you visit websites. Cookies let the site remember your preferences and improve your experience.',
+  'cookiesPolicy.types.title': 'Types of cookies we use',
+  'cookiesPolicy.essential.title': 'Essential cookies',
+  'cookiesPolicy.essential.text':
+    'These cookies are required for the site to work and it cannot run without them. They are usually set in response to actions you take, such as setting privacy preferences, signing in or filling in forms.',
+  'cookiesPolicy.essential.purpose':
+    'Saving accessibility preferences, keeping you signed in, saving the shopping cart',
+  'cookiesPolicy.essential.validity': 'Up to a year, or until deleted manually',
+  'cookiesPolicy.performance.title': 'Performance cookies',
+  'cookiesPolicy.performance.text':
+    "These cookies let us count visits and identify traffic sources so we can improve the site's performance. They help us know which pages are the most and least popular, and see how users move around the site.",
+  'cookiesPolicy.performance.purpose': 'Improving site performance, understanding usage patterns',
+  'cookiesPolicy.functional.title': 'Functional cookies',
+  'cookiesPolicy.functional.text':
+    'These cookies let the site provide enhanced functionality and services. If you do not allow them, some services may not work.',
+  'cookiesPolicy.functional.purpose': 'Saving user preferences and accessibility settings',
+  'cookiesPolicy.validity.year': 'Up to a year',
+  'cookiesPolicy.usage.title': 'How we use cookies',
+  'cookiesPolicy.usage.accessibility': 'To save accessibility preferences (font size, contrast, spacing)',
+  'cookiesPolicy.usage.session': 'To keep you signed in',
+  'cookiesPolicy.usage.cart': 'To save the shopping cart',
+  'cookiesPolicy.usage.performance': 'To improve site performance',
+  'cookiesPolicy.usage.analytics': 'To understand usage patterns',
+  'cookiesPolicy.manage.title': 'Managing cookies',
+  'cookiesPolicy.manage.intro': 'You can control and manage cookies in the following ways:',
+  'cookiesPolicy.manage.browser': 'Browser settings:',
+  'cookiesPolicy.manage.browserText':
+    'Most browsers let you control cookies from their settings menu. You can delete existing cookies or block new ones.',
+  'cookiesPolicy.manage.widget': 'Accessibility widget:',
+  'cookiesPolicy.manage.widgetText':
+    "You can manage the cookies through the site's accessibility widget (bottom-left corner).",
+  'cookiesPolicy.manage.manual': 'Manual deletion:',
+  'cookiesPolicy.manage.manualText': 'You can delete cookies at any time from your browser settings.',
+  'cookiesPolicy.manage.note': 'Please note:',
+  'cookiesPolicy.manage.noteText':
+    'Deleting cookies may affect how the site works. For example, you may need to sign in again, or your accessibility preferences may be lost.',
+  'cookiesPolicy.thirdParty.title': 'Third-party cookies',
+  'cookiesPolicy.thirdParty.text':
+    'Our site does not currently use third-party cookies. If we add third-party services in the future, we will update this policy accordingly.',
+  'cookiesPolicy.updates.title': 'Policy updates',
+  'cookiesPolicy.updates.text':
+    'We may update this policy from time to time. Any change will be published on this page with the date of the update. We recommend checking this page occasionally to stay informed.',
+  'cookiesPolicy.contact.title': 'Contact',
+  'cookiesPolicy.contact.text': 'If you have any questions about our cookie policy, please contact us:',
+
+  'locations.title': 'Locations',
+  'locations.subtitle': 'Manage your business locations',
+  'locations.loading': 'Loading locations...',
+  'locations.loadError': 'Error loading the locations',
+  'locations.add': 'Add location',
+  'locations.empty': 'No locations yet',
+  'locations.emptyHint': 'Start by adding your first business location',
+  'locations.addFirst': 'Add your first location',
+  'locations.pickupWindows': { one: 'Pickup times: 1 weekly window', other: 'Pickup times: {count} weekly windows' },
+  'locations.pickupAnyTime': 'Pickup at any time',
+  'locations.pickupTimes': 'Pickup times',
+  'locations.edit': 'Edit location',
+  'locations.delete': 'Delete location',
+  'locations.deleteConfirm': 'Are you sure you want to delete {name}? This cannot be undone.',
+  'locations.deleteWarning': 'Orders, products and customers linked to this location will no longer be linked to it.',
+  'locations.error.lastLocation': 'There must be at least one location. The last location cannot be deleted.',
+  'locationForm.addTitle': 'Add a new location',
+  'locationForm.namePlaceholder': 'For example: Main branch, Central branch',
+  'locationForm.create': 'Create location',
+
+  'list.pageSize': 'Show:',
+  'list.page': 'Page',
+  'list.sortBy': 'Sort:',
+  'list.sort.ascending': 'A → Z',
+  'list.sort.descending': 'Z → A',
+  'list.filter.agent': 'Agent:',
+  'list.filter.all': 'All',
+  'list.me': 'Me',
+  'list.unknownAgent': 'Unknown agent',
+  'list.clearSearch': 'Clear search',
+
+  'customers.title': 'Customers',
+  'customers.subtitle': {
+    one: 'Manage 1 customer across your sales team.',
+    other: 'Manage {count} customers across your sales team.',
+  },
+  'customers.loading': 'Loading customers...',
+  'customers.loadError': 'Error loading customers',
+  'customers.normalizeAddresses': 'Fix addresses',
+  'customers.add': 'Add customer',
+  'customers.sortAscending': 'Sort customers ascending',
+  'customers.sortDescending': 'Sort customers descending',
+  'customers.searchPlaceholder': 'Search customers by name, email, phone or agent...',
+  'customers.empty.filtered': 'No customers match your filters',
+  'customers.empty.filteredHint': 'Try adjusting your search or resetting the filters.',
+  'customers.empty.none': 'No customers yet',
+  'customers.empty.noneHint': "You haven't added any customers yet. Start by creating your first customer.",
+  'customers.table.label': 'Customers table',
+  'customers.table.caption': 'Customers table with name, email, phone, city, agent, discount percentage and actions',
+  'customers.column.name': 'Name',
+  'customers.column.email': 'Email',
+  'customers.column.phone': 'Phone',
+  'customers.column.city': 'City',
+  'customers.column.address': 'Address',
+  'customers.column.agent': 'Agent',
+  'customers.column.discount': 'Discount',
+  'customers.column.actions': 'Actions',
+  'customers.actionsFor': 'Actions for customer {name}',
+  'customers.editNamed': 'Edit customer {name}',
+  'customers.deleteNamed': 'Delete customer {name}',
+
+  'customerForm.addTitle': 'Add a new customer',
+  'customerForm.editTitle': 'Edit customer',
+  'customerForm.editDescription': 'Update contact details for {name}',
+  'customerForm.email': 'Email address',
+  'customerForm.namePlaceholder': 'e.g. John Smith',
+  'customerForm.phonePlaceholder': 'e.g. 0501234567',
+  'customerForm.emailPlaceholder': 'e.g. john@example.com',
+  'customerForm.streetPlaceholder': 'e.g. 123 Herzl Street',
+  'customerForm.cityPlaceholder': 'e.g. Tel Aviv',
+  'customerForm.stateIdHint': 'Enter exactly 9 digits',
+  'customerForm.create': 'Create customer',
+  'customerForm.update': 'Update customer',
+
+  'customerDelete.title': 'Delete customer',
+  'customerDelete.about': 'You are about to delete the customer:',
+  'customerDelete.warning':
+    '⚠️ This cannot be undone. All orders and special prices for this customer will be affected.',
+  'customerDelete.prompt': 'Type "{phrase}" to confirm the deletion:',
+  'customerDelete.phrase': 'I understand',
+  'customerDelete.confirmNamed': 'Are you sure you want to delete {name}?',
+  'customerDelete.thisCustomer': 'this customer',
+  'customerDelete.agentWarning':
+    'This action cannot be undone. Their data and all related special prices will be permanently removed.',
+
+  'customerDetail.missingId': 'The customer ID is missing.',
+  'customerDetail.error.notFound': 'The customer was not found or you have no access',
+  'customerDetail.error.load': 'Error loading the customer',
+  'customerDetail.backToList': 'Back to the customer list',
+  'customerDetail.back': 'Back to customers',
+  'customerDetail.email': 'Email:',
+  'customerDetail.phone': 'Phone:',
+  'customerDetail.city': 'City:',
+  'customerDetail.discount': 'Discount:',
+  'customerDetail.newLink.title': 'New order link',
+  'customerDetail.newLink.creating': 'Creating order',
+  'customerDetail.newLink.created': 'Order created ✓ Copied!',
+  'customerDetail.newLink.createAnother': 'Create a new link',
+  'customerDetail.newLink.create': 'Create a new order link',
+  'customerDetail.orders.title': "Customer's orders",
+  'customerDetail.orders.empty': 'This customer has no orders.',
+  'customerDetail.orders.tableLabel': 'Customer orders',
+  'customerDetail.orders.column.status': 'Status',
+  'customerDetail.orders.column.source': 'Source',
+  'customerDetail.orders.column.createdAt': 'Created',
+  'customerDetail.orders.column.total': 'Total',
+  'customerDetail.orders.column.actions': 'Actions',
+  'customerDetail.orders.discount': '({amount} discount)',
+  'customerDetail.orders.discountLabel': 'Discount {amount}',
+  'customerDetail.orders.credited': '({amount} credited)',
+  'customerDetail.orders.creditedLabel': 'Credited {amount}',
+  'customerDetail.orders.viewInvoice': 'View invoice',
+  'customerDetail.orders.createInvoice': 'Create invoice',
+  'customerDetail.updateDiscount': 'Update discount',
+  'customerDetail.overrides.title': 'Special prices for the customer',
+  'customerDetail.overrides.subtitle': 'Custom product prices for this customer',
+  'customerDetail.overrides.empty': 'No special prices are set for this customer.',
+
+  'override.add': 'Add special price',
+  'override.create': 'Create special price',
+  'override.editTitle': 'Edit special price',
+  'override.editLabel': 'Edit special price',
+  'override.delete': 'Delete special price',
+  'override.deleteConfirm': 'Are you sure you want to delete this special price?',
+  'override.column.agent': 'Agent',
+  'override.column.product': 'Product',
+  'override.column.minimumPrice': 'Minimum price',
+  'override.column.overridePrice': 'Custom price',
+  'override.column.actions': 'Actions',
+  'override.customer': 'Customer:',
+  'override.product': 'Product',
+  'override.productLabel': 'Product:',
+  'override.originalPrice': 'Original price:',
+  'override.overridePriceLabel': 'Custom price:',
+  'override.minimumPrice': 'Minimum price: {price}',
+  'override.basePrice': 'Base price: {price}',
+  'override.price': 'Custom price',
+  'override.newPrice': 'New custom price',
+  'override.searchProducts': 'Search products...',
+  'override.searchProductsLabel': 'Search products',
+  'override.noProducts': 'No products found',
+  'override.loadingProducts': 'Loading products...',
+  'override.noProductsToShow': 'No products to show',
+  'override.error.productRequired': 'Please choose a product',
+  'override.error.priceRequired': 'Please enter a custom price',
+  'override.error.priceInvalid': 'The custom price must be a valid positive number',
+  'override.error.priceMax': 'The custom price cannot exceed {max}',
+  'override.error.priceDecimals': 'The custom price can have up to 2 decimal places',
+  'override.error.load': 'Failed to load the special prices',
+  'override.error.update': 'Update failed',
+  'override.error.delete': 'Delete failed',
+  'override.error.create': 'Create failed',
+  'override.column.customer': 'Customer',
+  'override.customerField': 'Customer',
+  'override.customerLabel': 'Customer:',
+  'override.selectCustomer': 'Select a customer',
+  'override.appliesTo': 'Applies to',
+  'override.allVariants': 'All variants',
+  'override.variantHint': 'A price for a specific variant takes precedence over a price for the whole product.',
+  'override.update': 'Update special price',
+  'override.error.customerRequired': 'Please choose a customer',
+
+  'overrides.title': 'Special prices',
+  'overrides.subtitle': 'Manage custom prices for your customers',
+  'overrides.note': "Special prices are applied before the customer's percentage discount.",
+  'overrides.loading': 'Loading special prices...',
+  'overrides.empty.filtered': 'No matching special prices',
+  'overrides.empty.filteredHint': 'No special prices were found for the selected filters.',
+  'overrides.clearFilter': 'Clear filter',
+  'overrides.empty.none': 'No special prices yet',
+  'overrides.empty.noneHint':
+    "You haven't set any custom prices for your customers yet. Click the button below to create your first special price.",
+  'overrides.addFirst': 'Add your first special price',
+  'overrides.table.label': 'Special prices table',
+  'overrides.table.caption':
+    'Special prices table with customer, agent, product, minimum price, custom price and actions',
+  'overrides.actionsFor': 'Actions for the special price for {customer}',
+  'overrides.editNamed': 'Edit special price for {customer} - {target}',
+  'overrides.deleteNamed': 'Delete special price for {customer} - {target}',
+
+  'agentOverrides.title': 'My special prices',
+  'agentOverrides.subtitle': 'Adjust prices for your customers',
+  'agentOverrides.empty.noneHint':
+    "You haven't set any custom prices for your customers yet. Click the button above to create your first special price.",
+  'agentOverrides.table.caption':
+    'Special prices table with customer, product, minimum price, custom price and actions',
+  'agentOverrides.basePrice': 'Base price',
+  'agentOverrides.minimumPriceLabel': 'Minimum price:',
+  'agentOverrides.basePriceLabel': 'Base price:',
+  'agentOverrides.save': 'Save special price',
+  'agentOverrides.deleteConfirm': 'Are you sure you want to delete the special price for {customer}?',
+
+  'documents.title': 'Reports & documents',
+  'documents.subtitle':
+    'Choose a date range, search invoices, or export to an organized file with links and a summary.',
+  'documents.fromDate': 'From date:',
+  'documents.toDate': 'To date:',
+  'documents.customerFilter': 'Filter by customer',
+  'documents.customerFilterLabel': 'Customer filter',
+  'documents.clearCustomer': 'Clear the selected customer',
+  'documents.clearSelection': 'Clear selection',
+  'documents.allCustomers': 'All customers',
+  'documents.specificCustomer': 'Specific customer',
+  'documents.searchPlaceholder': 'Type to search…',
+  'documents.searchCustomer': 'Search customers',
+  'documents.noCustomers': 'No customers match your search. Try different text.',
+  'documents.searching': 'Searching...',
+  'documents.search': 'Search',
+  'documents.downloading': 'Downloading...',
+  'documents.export': 'Export to file',
+  'documents.empty': 'No results to show.',
+  'documents.table.label': 'Invoice search results',
+  'documents.column.number': 'Invoice no.',
+  'documents.column.type': 'Type',
+  'documents.column.orderId': 'Order ID',
+  'documents.column.date': 'Date',
+  'documents.column.amount': 'Order amount',
+  'documents.column.actions': 'Actions',
+  'documents.viewDocument': 'View document',
+  'documents.fileName': 'invoices_{from}_{to}.xlsx',
+  'documents.error.download': 'Failed to download the file. Please try again.',
+  'documents.error.customerRequired': 'Please choose a customer from the list (or switch to "All customers").',
+  'documents.error.search': 'Failed to search invoices. Please try again.',
+
+  'agentCustomers.title': 'Your customers',
+  'agentCustomers.subtitle': { one: 'Manage your customer.', other: 'Manage your {count} customers.' },
+  'agentCustomers.searchPlaceholder': 'Search customers by name, email, phone or city...',
+  'agentCustomers.loadError': 'Unable to load customers',
+  'agentCustomers.empty': 'No customers found',
+  'agentCustomers.empty.filteredHint': 'No customers match your search. Try different keywords.',
+  'agentCustomers.empty.noneHint': "You haven't added any customers yet. Create your first customer to get started.",
+
+  'agents.title': 'Your agents',
+  'agents.subtitle': 'Keep track of your active agents and make sure their contact details are up to date.',
+  'agents.add': 'Add agent',
+  'agents.sortAscending': 'Sort agents ascending',
+  'agents.sortDescending': 'Sort agents descending',
+  'agents.searchPlaceholder': 'Search agents...',
+  'agents.loading': 'Loading agents...',
+  'agents.table.label': 'Agents table',
+  'agents.table.caption': 'Agents table with name, email, phone, location, date added and actions',
+  'agents.column.name': 'Name',
+  'agents.column.email': 'Email',
+  'agents.column.phone': 'Phone',
+  'agents.column.location': 'Location',
+  'agents.column.added': 'Added',
+  'agents.column.actions': 'Actions',
+  'agents.empty': 'No agents match your current filters.',
+  'agents.actionsFor': 'Actions for agent {name}',
+  'agents.editNamed': 'Edit agent {name}',
+  'agents.deleteNamed': 'Delete agent {name}',
+  'agentForm.addTitle': 'Add a new agent',
+  'agentForm.editTitle': 'Edit agent',
+  'agentForm.editDescription': 'Update contact details for {name}',
+  'agentForm.firstNamePlaceholder': 'For example: John',
+  'agentForm.lastNamePlaceholder': 'For example: Cohen',
+  'agentForm.emailPlaceholder': 'For example: agent@example.com',
+  'agentForm.tempPassword': 'Temporary password',
+  'agentForm.passwordPlaceholder': 'Initial sign-in password',
+  'agentForm.error.emailExists': 'An agent with this email address already exists',
+  'agentForm.error.limit': 'You have reached the agent limit',
+  'agentDelete.title': 'Delete agent',
+  'agentDelete.confirmNamed': 'Are you sure you want to delete {name}?',
+  'agentDelete.thisAgent': 'this agent',
+  'agentDelete.warning':
+    "This action cannot be undone. All of the agent's customers will be permanently deleted along with them.",
+
+  'profile.greeting': 'Hello {name}!',
+  'profile.greetingAnonymous': 'Hello',
+  'profile.subtitle': 'Your personal details and account information',
+  'profile.edit': 'Edit personal details',
+  'profile.loading': 'Loading profile...',
+  'profile.loadingOwn': 'Loading your profile...',
+  'profile.loadError': 'Error loading the profile',
+  'profile.accountCreated': 'Account created',
+  'profile.security': 'Security settings',
+  'profile.passwordHint': 'Update your password',
+  'profile.changePassword': 'Change password',
+  'profile.agentMissing': 'No agent information is available.',
+  'passwordForm.newPassword': 'New password',
+  'passwordForm.confirmNewPassword': 'Confirm new password',
+  'passwordForm.currentPlaceholder': 'Enter your current password',
+  'passwordForm.newPlaceholder': 'Enter a new password',
+  'passwordForm.requirements': 'Must contain uppercase letters, lowercase letters, numbers and special characters',
+  'passwordForm.submit': 'Update password',
+
+  'productCode.error.skuLength': 'The SKU can have up to {max} characters',
+  'productCode.error.skuPattern': 'The SKU can contain English letters, digits and . _ - /',
+  'productCode.error.barcodeLength': 'The barcode can have up to {max} characters',
+  'productCode.error.barcodePattern': 'The barcode can contain English letters, digits, - and .',
+  'productCode.error.inUse': 'This code is already used by {name}',
+
+  'products.title': 'Products',
+  'products.subtitle': { one: 'Your product catalog (1 product)', other: 'Your product catalog ({count} products)' },
+  'products.loading': 'Loading products...',
+  'products.loadError': 'Error loading products',
+  'products.showAll': 'Show all products',
+  'products.lowStockCount': { one: '1 product low on stock', other: '{count} products low on stock' },
+  'products.add': 'Add product',
+  'products.filter.category': 'Category:',
+  'products.filter.brand': 'Brand:',
+  'products.sortBy': 'Sort by:',
+  'products.sort.name': 'Name',
+  'products.sort.price': 'Price',
+  'products.empty.filtered': 'No products match the filters',
+  'products.empty.filteredHint': 'No products match the selected filters.',
+  'products.empty.none': 'No products yet',
+  'products.empty.noneHint': "You haven't added any products to your catalog yet.",
+  'products.addFirst': 'Add your first product',
+  'products.edit': 'Edit product',
+  'products.delete': 'Delete product',
+  'products.priceTierCount': { one: '1 price tier', other: '{count} price tiers' },
+  'products.minimumPrice': 'Min {price}',
+  'products.manageStock': 'Manage stock',
+  'products.stock': 'Stock: {quantity}',
+  'products.stock.out': 'Out',
+  'products.stock.low': 'Low stock',
+  'products.deleteConfirm': 'Are you sure you want to delete {name}? This action cannot be undone.',
+  'products.deleteWarning': 'This product will be removed from your catalog. Historical data is kept in the system.',
+  'agentProducts.subtitle': {
+    one: 'Showing {shown} of {count} product available to you.',
+    other: 'Showing {shown} of {count} products available to you.',
+  },
+  'agentProducts.searchPlaceholder': 'Search by name, description, brand, SKU or barcode...',
+  'agentProducts.empty': 'No products match your filters',
+  'agentProducts.emptyHint': 'Try adjusting your filters or clearing the search to see more products.',
+  'agentProducts.clearFilters': 'Clear filters',
+
+  'productForm.addTitle': 'Add a new product',
+  'productForm.editTitle': 'Edit product',
+  'productForm.name': 'Product name',
+  'productForm.namePlaceholder': 'e.g. Premium coffee beans',
+  'productForm.category': 'Category',
+  'productForm.brand': 'Brand',
+  'productForm.none': 'None',
+  'productForm.sku': 'SKU',
+  'productForm.barcode': 'Barcode',
+  'productForm.minimumPrice': 'Minimum price',
+  'productForm.price': 'Price',
+  'productForm.description': 'Description',
+  'productForm.descriptionPlaceholder': 'Product description (optional)',
+  'productForm.images': 'Images',
+  'productForm.imagesHint': '(up to 5, optional)',
+  'productForm.imagesTotalHint': '(up to 5 in total)',
+  'productForm.existingImages': 'Current images:',
+  'productForm.imagesToDelete': 'Images to delete ({count}):',
+  'productForm.newImages': 'New images to add:',
+  'productForm.maxImagesReached': 'Maximum of 5 images reached',
+  'productForm.dropImages': 'Drop the images here',
+  'productForm.chooseImages': 'Choose images or drag and drop ({count}/5)',
+  'productForm.addMoreImages': 'Add more images or drag and drop ({count}/5)',
+  'productForm.imageOrder': 'Images are ordered by their file names',
+  'productForm.imageHint': 'JPEG, PNG, WebP. Maximum size: 5MB per image.',
+  'productForm.deleteImage': 'Delete image',
+  'productForm.undoDelete': 'Undo delete',
+  'productForm.previewAlt': 'Preview of the image of product {name} - image {number}',
+  'productForm.previewAltUnnamed': 'Preview of a product image - image {number}',
+  'productForm.newPreviewAlt': 'Preview of the image of product {name} - new image {number}',
+  'productForm.newPreviewAltUnnamed': 'Preview of a product image - new image {number}',
+  'productForm.imageAlt': 'Image of product {name} - {file}',
+  'productForm.imageAltUnnamed': 'Product image - {file}',
+  'productForm.deletedImageAlt': 'Image of product {name} to delete - {file}',
+  'productForm.deletedImageAltUnnamed': 'Product image to delete - {file}',
+  'productForm.create': 'Create product',
+  'productForm.update': 'Update product',
+  'productForm.error.nameRequired': 'The product name is required',
+  'productForm.error.minimumPriceRequired': 'The minimum price is required',
+  'productForm.error.minimumPricePositive': 'The minimum price must be a positive number',
+  'productForm.error.minimumPriceMax': 'The minimum price cannot exceed {max}',
+  'productForm.error.priceRequired': 'The price is required',
+  'productForm.error.pricePositive': 'The price must be a positive number',
+  'productForm.error.priceMax': 'The price cannot exceed {max}',
+  'productForm.error.priceBelowMinimum': 'The price cannot be lower than the minimum price',
+  'productForm.error.tooManyImages': 'You can upload up to 5 images per product',
+  'productForm.error.tooManySelected': {
+    one: 'You can upload up to 5 images. 1 image is already selected.',
+    other: 'You can upload up to 5 images. {count} images are already selected.',
+  },
+  'productForm.error.tooManyAdded': 'You can upload up to 5 images. Current: {current}, adding: {adding}',
+  'productForm.error.imageType': '{name}: invalid file type. Only JPEG, PNG or WebP are allowed.',
+  'productForm.error.imageSize': '{name}: the file is larger than 5MB.',
+  'productForm.error.imageUpload': 'Failed to upload the image {name} to S3',
+
+  'category.error.exists': 'The category already exists',
+  'category.error.notFound': 'The category was not found',
+  'category.error.limit': 'The maximum number of categories has been reached',
+  'categories.title': 'Categories',
+  'categories.subtitle': {
+    one: 'View and manage your product categories (1 total)',
+    other: 'View and manage your product categories ({count} total)',
+  },
+  'categories.loading': 'Loading categories...',
+  'categories.loadError': 'Error loading categories',
+  'categories.add': 'Add category',
+  'categories.empty.none': 'No categories yet',
+  'categories.empty.noneHint': "You haven't created any categories yet. Categories help organize your products.",
+  'categories.addFirst': 'Add your first category',
+  'categories.sortAscending': 'Sort categories ascending',
+  'categories.sortDescending': 'Sort categories descending',
+  'categories.searchPlaceholder': 'Search categories...',
+  'categories.empty.filtered': 'No categories found',
+  'categories.empty.filteredHint': 'Try adjusting your search or clear the filters to see all categories.',
+  'categories.productCount': { one: '{count} product', other: '{count} products' },
+  'categories.edit': 'Edit category',
+  'categories.delete': 'Delete category',
+  'categories.deleteConfirm': 'Are you sure you want to delete the category {name}? This action cannot be undone.',
+  'categories.deleteWarning': 'Products assigned to this category will be left without a category.',
+  'categoryForm.addTitle': 'Add a new category',
+  'categoryForm.editTitle': 'Edit category',
+  'categoryForm.name': 'Name *',
+  'categoryForm.namePlaceholder': 'For example: drinks, snacks, electronics',
+  'categoryForm.create': 'Create category',
+  'categoryForm.update': 'Update category',
+  'categoryForm.error.nameRequired': 'The category name is required',
+
+  'brand.error.notFound': 'The brand was not found',
+  'brand.error.exists': 'The brand already exists',
+  'brand.error.limit': 'You have exceeded the allowed number of brands',
+  'brand.error.delete': 'Failed to delete the brand',
+  'brands.title': 'Brands',
+  'brands.subtitle': {
+    one: 'Manage your product brands (1 total)',
+    other: 'Manage your product brands ({count} total)',
+  },
+  'brands.loading': 'Loading brands...',
+  'brands.loadError': 'Error loading brands',
+  'brands.add': 'Add brand',
+  'brands.empty.none': 'No brands yet',
+  'brands.empty.noneHint': "You haven't created any brands yet. Brands help organize your products.",
+  'brands.addFirst': 'Add your first brand',
+  'brands.sortAscending': 'Sort brands ascending',
+  'brands.sortDescending': 'Sort brands descending',
+  'brands.searchPlaceholder': 'Search brands...',
+  'brands.empty.filtered': 'No brands found',
+  'brands.empty.filteredHint': 'Try adjusting your search or clear the filters to see all brands.',
+  'brands.productCount': { one: '{count} product', other: '{count} products' },
+  'brands.edit': 'Edit brand',
+  'brands.delete': 'Delete brand',
+  'brands.deleteConfirm': 'Are you sure you want to delete the brand {name}? This action cannot be undone.',
+  'brands.deleteWarning': 'Products assigned to this brand will be left without a brand.',
+  'brandForm.addTitle': 'Add a new brand',
+  'brandForm.editTitle': 'Edit brand',
+  'brandForm.name': 'Brand name *',
+  'brandForm.namePlaceholder': 'For example: Nike, Apple, Samsung',
+  'brandForm.image': 'Image',
+  'brandForm.previewAlt': 'Preview of the brand image {name}',
+  'brandForm.previewAltUnnamed': 'Preview of a brand image',
+  'brandForm.newPreview': 'New image preview:',
+  'brandForm.create': 'Create brand',
+  'brandForm.update': 'Update brand',
+  'brandForm.error.nameRequired': 'The brand name is required',
+};
+
+export const enApiErrors: Record<ApiErrorCode, string> = {
+  INVALID_EMAIL_FORMAT: 'Invalid email format',
+  INVALID_PHONE_NUMBER: 'Invalid phone number (8–10 digits)',
+  FIXED_DIGIT_LENGTH_REQUIRED: 'The value must be a number of the exact required length',
+  FIELD_CANNOT_BE_BLANK: 'A required field is empty',
+  DATE_CANNOT_BE_IN_FUTURE: 'The date cannot be in the future',
+  VALUE_MUST_BE_NON_NEGATIVE: 'The value must be zero or positive',
+  DECIMAL_PLACES_EXCEEDED: 'Too many decimal places (maximum 2)',
+  PRICE_NOT_IN_RANGE: 'The price is out of the allowed range',
+  PASSWORD_CONFIRMATION_MISMATCH: 'The new password and the confirmation do not match',
+  NEW_PASSWORD_EQUALS_OLD_PASSWORD: 'The new password cannot be the same as the old one',
+  LOGIN_INVALID_EMAIL_OR_PASSWORD: 'Wrong email or password',
+  ADMIN_LOGIN_INVALID_CREDENTIALS: 'Invalid admin credentials',
+  ORDER_NOT_FOUND: 'Order not found',
+  ORDER_STATUS_NOT_DONE: 'The order must be completed',
+  ORDER_STATUS_NOT_PLACED: 'The order must be placed',
+  ORDER_STATUS_NOT_CANCELLED: 'The order must be cancelled',
+  ORDER_STATUS_NOT_AS_EXPECTED: 'The order status does not allow this action',
+  ORDER_STATUS_NOT_ALLOWED: 'The order status does not allow this action',
+  INVOICE_ALREADY_EXISTS_FOR_ORDER: 'An invoice already exists for this order',
+  INVOICE_TOTAL_MUST_BE_POSITIVE: 'The invoice total must be positive',
+  CREDIT_NOTE_TOTAL_MUST_BE_NEGATIVE: 'The credit note total must be negative',
+  INVOICE_ORDER_IDS_BATCH_SIZE_EXCEEDED: 'Too many order IDs in the request',
+  INVALID_DATE_RANGE: 'Invalid date range',
+  CREDIT_AMOUNT_EXCEEDS_ORDER_TOTAL: 'The credit amount exceeds what can be credited',
+  CREDIT_AMOUNT_MUST_BE_POSITIVE: 'The credit amount must be positive',
+  CREDIT_NOTE_DUPLICATE_PRODUCTS: 'The same product appears more than once in the credit note',
+  CREDIT_NOTE_PRODUCT_NOT_IN_ORDER: 'A product in the credit note is not in the order',
+  CREDIT_NOTE_UNIT_PRICE_MISMATCH: 'The unit price does not match the order',
+  CREDIT_NOTE_QUANTITY_EXCEEDS_REMAINING: 'The credited quantity exceeds the available quantity',
+  CREDIT_NOTE_NOTES_TOO_LONG: 'Notes are too long (maximum 1000 characters)',
+  CREDIT_NOTE_AT_LEAST_ONE_PRODUCT_REQUIRED: 'At least one product is required for a credit note',
+  CREDIT_NOTE_QUANTITY_MUST_BE_POSITIVE: 'The credited quantity must be positive',
+  CREDIT_NOTE_PRODUCT_ID_REQUIRED: 'Product ID is missing',
+  PRICE_CANT_BE_UNDER_PRODUCT_MIN_PRICE: 'The price cannot be below the product minimum price',
+  MANAGER_NOT_FOUND: 'Manager not found',
+  AGENT_NOT_FOUND: 'Agent not found',
+  PRODUCT_NOT_FOUND: 'Product not found',
+  CATEGORY_NOT_FOUND: 'Category not found',
+  BRAND_NOT_FOUND: 'Brand not found',
+  BRAND_ALREADY_EXISTS: 'A brand with this name already exists',
+  BRAND_LIMIT_EXCEEDED: 'You have reached the brand limit',
+  BUSINESS_NOT_FOUND: 'Business details not found',
+  CUSTOMER_NOT_FOUND: 'Customer not found',
+  INVOICE_NOT_FOUND: 'Invoice not found',
+  CATEGORY_ALREADY_EXISTS: 'A category with this name already exists',
+  CATEGORY_LIMIT_EXCEEDED: 'You have reached the category limit',
+  BUSINESS_ALREADY_EXISTS: 'This manager already has a business',
+  CUSTOMER_LIMIT_EXCEEDED: 'You have reached the customer limit',
+  LOCATION_NOT_FOUND: 'Location not found',
+  NO_LOCATIONS: 'Add at least one location',
+  TOO_MANY_LOCATIONS: 'You have reached the location limit',
+  CANNOT_DELETE_LAST_LOCATION: 'The last location cannot be deleted',
+  AGENTS_LIMIT_REACHED: 'You have reached the agent limit',
+  PRODUCT_LIMIT_REACHED: 'You have reached the product limit',
+  PRODUCT_IMAGES_LIMIT_REACHED: 'You have reached the product image limit',
+  EMAIL_ALREADY_EXISTS: 'This email address is already registered',
+  PASSWORD_MISMATCH: 'Wrong password',
+  PASSWORD_TOO_WEAK: 'The password is too weak',
+  MIME_TYPE_NOT_SUPPORTED: 'File type not supported',
+  FILE_SIZE_NEED_TO_BE_POSITIVE: 'Invalid file size',
+  FILE_NAME_CANT_BE_EMPTY: 'File name is missing',
+  FILE_TOO_LARGE: 'The file is too large',
+  INTERNAL_ERROR: 'Server error. Please try again later',
+  ALLOCATION_NUMBER_REQUIRED: 'An allocation number is required',
+  PAYMENT_PROOF_REQUIRED: 'A payment reference is required',
+  CREDIT_NOTE_ALLOCATION_MISMATCH: 'The credit note allocation number does not match the original invoice',
+  NO_PRODUCTS_IN_ORDER: 'There are no products in the order',
+  ERROR_GENERATING_UPLOAD_URL: 'Failed to create an upload link',
+  FAILED_UPLOAD_FILE: 'The file upload failed',
+  OVERRIDE_PRICE_LESS_THAN_MIN_PRICE: 'The special price is below the product minimum price',
+  PRODUCT_OVERRIDE_NOT_FOUND: 'Special price not found',
+  PRODUCT_OVERRIDE_ALREADY_EXISTS: 'A special price already exists for this product and customer',
+  ORDER_CREDIT_EXCEEDS_PRODUCTS_TOTAL: 'The credit amount is larger than the products total',
+  MINIMUM_SEQUENCE_NUMBER_INVALID: 'The minimum sequence number must be at least 1',
+  PICKUP_SLOT_REQUIRED: 'Please choose a pickup time',
+  PICKUP_SLOT_UNAVAILABLE: 'The chosen pickup time is not available',
+  PICKUP_SLOT_FULL: 'The chosen pickup time has just filled up. Please choose another time',
+  CART_MINIMUM_NOT_REACHED: 'The order total is below the business minimum',
+  CART_RULES_VIOLATED: 'The cart does not meet the business order rules. Please update the cart and try again',
+  PRODUCT_PRICES_CHANGED: 'Some product prices have changed. Please confirm the updated prices and try again',
+  ORDER_VERSION_CONFLICT: 'The order was updated in the meantime. Please check the cart and try again',
+  INSUFFICIENT_STOCK: 'Some products in the cart are not in stock in the ordered quantity. Please update the cart and try again',
+  PRODUCT_SKU_ALREADY_EXISTS: 'The SKU is already used by another product',
+  PRODUCT_BARCODE_ALREADY_EXISTS: 'The barcode is already used by another product',
+};
+
+export const enApiFallbacks: Record<FallbackHeKey, string> = {
+  adminLoadManagers: 'Failed to load the managers',
+  adminDeleteManager: 'Failed to delete the manager',
+  adminResetPassword: 'Failed to reset the password',
+  createManagerAndBusiness: 'Failed to create the manager and business',
+  loadAgentsList: 'Failed to load the agents',
+  agentCreate: 'Failed to create the agent',
+  agentUpdate: 'Failed to update the agent',
+  agentDelete: 'Failed to delete the agent',
+  agentLoadProfile: 'Failed to load the agent profile',
+  agentLoadForProducts: 'Failed to load the agent details',
+  agentCustomersLoad: 'Failed to load customers',
+  agentProductsLoad: 'Failed to load products',
+  overridesLoad: 'Failed to load the special prices',
+  overridesCreate: 'Failed to create the special price',
+  overridesUpdate: 'Failed to update the special price',
+  overridesDelete: 'Failed to delete the special price',
+  agentPriceOverrideCreate: 'Failed to create the special price',
+  agentPriceOverrideUpdate: 'Failed to update the special price',
+  agentPriceOverrideDelete: 'Failed to delete the special price',
+  customersLoad: 'Failed to load the customers',
+  customerDelete: 'Failed to delete the customer',
+  customerCreate: 'Failed to create the customer',
+  customerUpdate: 'Failed to update the customer',
+  customerModalUpdate: 'Failed to update the customer',
+  agentCustomerCreate: 'Failed to create the customer',
+  productLoad: 'Failed to load the products',
+  productCreate: 'Failed to create the product',
+  productUpdate: 'Failed to update the product',
+  productDelete: 'Failed to delete the product',
+  stockLoad: 'Failed to load the stock',
+  stockAdjust: 'Failed to update the stock',
+  lowStockThresholdUpdate: 'Failed to update the low-stock threshold',
+  brandsLoad: 'Failed to load the brands',
+  brandCreate: 'Failed to create the brand',
+  brandUpdate: 'Failed to update the brand',
+  brandDelete: 'Failed to delete the brand',
+  businessUpdate: 'Failed to update the business details',
+  managerProfileLoad: 'Failed to load the profile',
+  managerProfileUpdate: 'Failed to update the profile',
+  changePassword: 'Failed to update the password',
+  agentProfileUpdate: 'Failed to update the profile',
+  businessDataLoad: 'Failed to load the business data',
+  categoriesLoad: 'Failed to load the categories',
+  categoryCreate: 'Failed to create the category',
+  categoryUpdate: 'Failed to update the category',
+  categoryDelete: 'Failed to delete the category',
+  locationsLoad: 'Failed to load the branches',
+  locationCreate: 'Failed to create the branch',
+  locationUpdate: 'Failed to update the branch',
+  locationDelete: 'Failed to delete the branch',
+  locationPickupSchedulingUpdate: 'Failed to update the pickup times',
+  orderCreate: 'Failed to create the order',
+  orderCancel: 'Failed to cancel the order',
+  orderMarkDone: 'Failed to mark the order as completed',
+  orderDiscount: 'Failed to update the discount',
+  orderLoadDetails: 'Failed to load the order details',
+  orderLoadStore: 'Failed to load the order',
+  orderLinkGenerate: 'Failed to create the link',
+  customerStoreLinkLoad: 'Failed to load the personal store link',
+  customerStoreLinkCreate: 'Failed to create the personal store link',
+  customerStoreLinkRevoke: 'Failed to revoke the personal store link',
+  orderLinkExpiryLoad: 'Failed to load expiring and expired links',
+  orderLinkExtend: 'Failed to extend the link',
+  ordersLoad: 'Failed to load orders',
+  orderActivityLoad: 'Failed to load the order history',
+  orderCheckoutCreate: 'Failed to create the order',
+  orderCheckoutUpdate: 'Failed to update the order',
+  invoiceCreate: 'Failed to create the invoice',
+  creditNoteCreate: 'Failed to create the credit note',
+  overrideEditFailed: 'Update failed',
+  overrideCreateFailed: 'Creation failed',
+};
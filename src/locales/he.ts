@@ -0,0 +1,1636 @@
+/**
+ * Hebrew UI messages – the source catalog: keys are defined here and every other locale must provide all of
+ * them. `{name}` is a placeholder; objects are plural forms (see utils/i18n).
+ */
+export const he = {
+  'language.label': 'שפה',
+
+  'layout.menu': 'תפריט',
+  'layout.openMenu': 'פתח תפריט',
+  'layout.closeMenu': 'סגור תפריט',
+  'layout.mainNavigation': 'ניווט ראשי',
+  'layout.agentNavigation': 'ניווט סוכן',
+  'layout.menuNavigation': 'תפריט ניווט',
+  'layout.logout': 'התנתק',
+  'layout.logoutLabel': 'התנתק מהמערכת',
+
+  'nav.managerProfile': 'פרופיל מנהל',
+  'nav.agentProfile': 'פרופיל',
+  'nav.businessProfile': 'פרופיל עסק',
+  'nav.orders': 'הזמנות',
+  'nav.documents': 'דוחות ומסמכים',
+  'nav.businessInfo': 'מידע עסקי',
+  'nav.agents': 'סוכנים',
+  'nav.customers': 'לקוחות',
+  'nav.products': 'מוצרים',
+  'nav.overrides': 'מחירים מיוחדים',
+  'nav.categories': 'קטגוריות',
+  'nav.brands': 'מותגים',
+  'nav.locations': 'סניפים',
+
+  'orderStatus.EMPTY': 'ריק',
+  'orderStatus.PLACED': 'הוזמן',
+  'orderStatus.DONE': 'הושלם',
+  'orderStatus.EXPIRED': 'פג תוקף',
+  'orderStatus.CANCELLED': 'בוטל',
+
+  'orderDate.created': 'נוצר ב:',
+  'orderDate.placed': 'הוזמן ב:',
+  'orderDate.done': 'הושלם ב:',
+  'orderDate.expired': 'פג תוקף ב:',
+
+  'discountError.decimalPlaces': 'הנחה יכולה לכלול עד 2 ספרות אחרי הנקודה',
+  'discountError.exceedsTotal': 'הנחה לא יכולה לעלות על סכום ההזמנה',
+  'discountError.negative': 'הנחה חייבת להיות מספר חיובי',
+
+  'error.default': 'אירעה שגיאה. נסה שוב מאוחר יותר.',
+  'error.requestFailed': 'הבקשה נכשלה. נסה שוב.',
+  'error.requestFailedWithStatus': 'הבקשה נכשלה (קוד {status}). נסה שוב.',
+  'error.network': 'שגיאת רשת',
+
+  'common.cancel': 'ביטול',
+  'common.tryAgain': 'נסה שוב',
+  'common.understood': 'הבנתי',
+  'common.showLess': 'הצג פחות',
+  'common.showAll': 'הצג הכל ({count})',
+  'common.optional': '(אופציונלי)',
+  'common.add': 'הוסף',
+  'common.adding': 'מוסיף...',
+  'common.confirmation': 'אישור',
+  'common.save': 'שמור',
+  'common.saving': 'שומר...',
+  'common.saveChanges': 'שמור שינויים',
+  'common.close': 'סגור',
+  'common.closeWindow': 'סגור חלון',
+  'common.deleting': 'מוחק...',
+  'common.creating': 'יוצר...',
+  'common.updating': 'מעדכן...',
+  'common.edit': 'ערוך',
+  'common.delete': 'מחק',
+  'common.error': 'שגיאה',
+  'common.copyFailed': 'העתקה נכשלה',
+
+  'store.error.loginToEdit': 'אנא התחבר כדי לערוך הזמנות',
+  'store.error.noEditPermission': 'אין הרשאה לערוך הזמנות',
+  'store.error.onlyPlacedEditable': 'ניתן לערוך רק הזמנות שהוזמנו',
+  'store.error.noOrderPermission': 'אין הרשאה לערוך את ההזמנה הזו',
+  'store.error.orderNotFound': 'הזמנה לא נמצאה',
+  'store.error.orderLoad': 'נכשל בטעינת ההזמנה',
+  'store.error.customerLinkInactive': 'קישור החנות האישי אינו פעיל עוד – בקשו מבית העסק קישור חדש',
+  'store.error.customerLinkLoad': 'נכשל בטעינת קישור החנות',
+  'store.error.invalidStoreUrl': 'כתובת חנות לא תקינה',
+
+  'store.queued.syncedTitle': 'ההזמנה נשלחה בהצלחה',
+  'store.queued.failedTitle': 'שליחת ההזמנה נכשלה',
+  'store.queued.pendingTitle': 'ההזמנה ממתינה לסנכרון',
+  'store.queued.synced': 'ההזמנה שנשמרה במכשיר נשלחה למוכר.',
+  'store.queued.sending': 'ההזמנה נשמרה במכשיר ונשלחת כעת...',
+  'store.queued.offline': 'ההזמנה נשמרה במכשיר ותישלח אוטומטית כשהחיבור לאינטרנט יחזור. אין צורך להזמין שוב.',
+  'store.queued.cancel': 'בטל הזמנה',
+
+  'store.link.expiredTitle': 'קישור פג תוקף',
+  'store.link.expired': 'קישור ההזמנה הזה פג תוקף. אנא צור קשר עם המוכר לקבלת קישור חדש או בדוק את סטטוס ההזמנה שלך.',
+  'store.link.cancelledTitle': 'הזמנה בוטלה',
+  'store.link.cancelled': 'ההזמנה הזו בוטלה. אנא צור קשר עם המוכר אם יש לך שאלות או שאתה צריך עזרה.',
+  'store.link.doneTitle': 'הזמנה הושלמה',
+  'store.link.done': 'ההזמנה הזו כבר הושלמה.',
+  'store.link.placedTitle': 'ההזמנה הזו כבר הוזמנה',
+  'store.linkExpiry.daysLeft': { one: 'הקישור להזמנה בתוקף עוד יום אחד', other: 'הקישור להזמנה בתוקף עוד {count} ימים' },
+  'store.linkExpiry.hoursLeft': { one: 'הקישור להזמנה בתוקף עוד שעה אחת', other: 'הקישור להזמנה בתוקף עוד {count} שעות' },
+  'store.linkExpiry.minutesLeft': { one: 'הקישור להזמנה בתוקף עוד דקה אחת', other: 'הקישור להזמנה בתוקף עוד {count} דקות' },
+  'store.linkExpiry.until': 'עד {date}',
+  'store.linkExpiry.request': 'בקש הארכת תוקף',
+  'store.linkExpiry.requesting': 'שולח בקשה...',
+  'store.linkExpiry.requested': 'הבקשה להארכת הקישור נשלחה למוכר. הקישור ייפתח מחדש כשהמוכר יאריך אותו.',
+  'store.linkExpiry.requestError': 'שליחת הבקשה נכשלה. נסה שוב.',
+  'store.confirmation.title': 'אישור הזמנה מס׳ {reference}',
+  'store.confirmation.loading': 'טוען את אישור ההזמנה...',
+  'store.confirmation.loadError': 'לא ניתן לטעון את אישור ההזמנה כרגע',
+  'store.confirmation.print': 'הדפסה',
+  'store.confirmation.download': 'הורדה',
+  'store.confirmation.reference': 'מספר הזמנה',
+  'store.confirmation.placedAt': 'תאריך',
+  'store.confirmation.customer': 'לקוח',
+  'store.confirmation.lines': 'פריטים',
+  'store.confirmation.product': 'מוצר',
+  'store.confirmation.quantity': 'כמות',
+  'store.confirmation.unitPrice': 'מחיר ליחידה',
+  'store.confirmation.lineTotal': 'סה״כ',
+  'store.confirmation.productsTotal': 'סה״כ מוצרים',
+  'store.confirmation.discount': 'הנחה',
+  'store.confirmation.deliveryFee': 'דמי משלוח',
+  'store.confirmation.vatIncluded': 'מתוכו מע״מ ({rate}%)',
+  'store.confirmation.total': 'סה״כ לתשלום',
+  'store.confirmation.pickup': 'איסוף',
+  'store.confirmation.pickupSlot': 'מועד איסוף',
+  'store.confirmation.delivery': 'משלוח',
+  'store.confirmation.notes': 'הערות',
+  'store.confirmation.footer': 'אישור זה אינו חשבונית מס.',
+
+  'store.load.genericTitle': 'אופס!',
+  'store.load.generic': 'משהו השתבש',
+  'store.load.notFoundTitle': 'חנות לא נמצאה',
+  'store.load.notFound': 'החנות הזו לא קיימת או הוסרה. אנא בדוק את הקישור ונסה שוב.',
+  'store.load.forbiddenTitle': 'חנות לא נגישה',
+  'store.load.forbidden': 'החנות הזו כרגע לא נגישה. אנא צור קשר עם בעל החנות.',
+  'store.load.offlineTitle': 'אין חיבור לאינטרנט',
+  'store.load.offline':
+    'החנות עדיין לא נשמרה במכשיר זה. התחבר לאינטרנט ונסה שוב – לאחר הטעינה הראשונה ניתן לגלוש בה גם ללא חיבור.',
+  'store.load.failedTitle': 'לא ניתן לטעון את החנות',
+  'store.load.failed': 'יש לנו בעיה בטעינת החנות הזו. אנא נסה שוב מאוחר יותר.',
+
+  'store.filters': 'מסננים',
+  'store.cart': 'עגלה',
+  'store.clearFilters': 'נקה כל המסננים',
+  'store.sortBy': 'מיין:',
+  'store.sort.name': 'שם',
+  'store.sort.price': 'מחיר',
+  'store.categories': 'קטגוריות',
+  'store.brands': 'מותגים',
+  'store.welcome': 'ברוכים הבאים',
+
+  'store.search.placeholder': 'חפש מוצר, מותג, קטגוריה או מק״ט...',
+  'store.search.label': 'חיפוש מוצרים',
+  'store.search.clear': 'נקה חיפוש',
+  'store.search.results': { one: 'נמצא מוצר אחד', other: 'נמצאו {count} מוצרים' },
+  'store.viewLink.copy': 'העתק קישור לתצוגה',
+  'store.viewLink.copied': 'הקישור הועתק!',
+
+  'store.empty.title': 'לא נמצאו מוצרים',
+  'store.empty.noResults': 'לא נמצאו תוצאות עבור "{query}"',
+  'store.empty.adjustFilters': 'נסה להתאים את המסננים שלך',
+  'store.empty.checkLater': 'בדוק מאוחר יותר למוצרים חדשים!',
+
+  'store.product.previousImage': 'תמונה קודמת',
+  'store.product.nextImage': 'תמונה הבאה',
+  'store.product.priceFrom': 'החל מ-',
+  'store.product.tierPrice': 'מחיר כמות: {price} מ-{quantity} יח׳',
+  'store.product.chooseOptions': 'בחירת אפשרויות',
+  'store.stock.outOfStock': 'אזל מהמלאי',
+  'store.stock.fewLeft': { one: 'נותרה רק יחידה אחת', other: 'נותרו רק {count} יח׳' },
+  'store.scanner.title': 'מצב סורק',
+  'store.scanner.hint': 'סרקו ברקוד כדי להוסיף את המוצר לעגלה; סריקה נוספת מגדילה את הכמות',
+  'store.scanner.enable': 'הפעל סורק',
+  'store.scanner.disable': 'כבה סורק',
+  'store.scanner.added': '{name} – {quantity} בעגלה',
+  'store.scanner.notFound': 'לא נמצא מוצר עם הקוד {code}',
+  'store.scanner.chooseVariant': '{name} – יש לבחור אפשרות',
+  'store.scanner.maxReached': 'לא ניתן להוסיף עוד {name}',
+  'store.edit.droppedLinesTitle': 'שורות שהוסרו מההזמנה',
+  'store.edit.droppedLinesHint': 'המוצרים או האפשרויות האלה נמחקו מהקטלוג ולכן אינם בעגלה. שמירת ההזמנה תסיר אותם ממנה.',
+  'store.product.addToCart': 'הוסף לעגלה',
+  'store.product.add': 'הוסף',
+  'store.product.added': 'נוסף!',
+
+  'store.cart.title': 'העגלה שלך',
+  'store.cart.empty': 'העגלה שלך ריקה',
+  'store.cart.removeItem': 'הסר פריט',
+  'store.cart.tierPrice': 'מחיר כמות ({quantity}+)',
+  'store.cart.nextTier': { one: 'עוד יחידה אחת ליח׳ ב-{price}', other: 'עוד {count} ליח׳ ב-{price}' },
+  'store.cart.total': 'סה״כ:',
+  'store.cart.items': 'פריטים:',
+  'store.cart.cannotCheckout': 'לא ניתן להמשיך לתשלום',
+  'store.cart.checkout': 'המשך לתשלום',
+
+  'store.favorites.add': 'הוסף למועדפים',
+  'store.favorites.remove': 'הסר מהמועדפים',
+  'store.shelves.label': 'הזמנה מהירה',
+  'store.shelves.buyAgainTitle': 'קנו שוב',
+  'store.shelves.fromCustomerHistory': 'מההזמנות הקודמות שלך',
+  'store.shelves.fromDeviceHistory': 'מהזמנות שבוצעו במכשיר זה',
+  'store.shelves.favoritesTitle': 'המועדפים שלי',
+  'store.shelves.addAll': 'הוסף הכל לעגלה ({count})',
+  'store.shelves.chooseOptions': 'יש לבחור אפשרויות',
+  'store.shelves.unavailable': {
+    one: 'מוצר אחד שהוזמן בעבר כבר לא זמין',
+    other: '{count} מוצרים שהוזמנו בעבר כבר לא זמינים',
+  },
+  'store.shelves.added': { one: 'מוצר אחד נוסף לעגלה', other: '{count} מוצרים נוספו לעגלה' },
+  'store.shelves.outOfStock': { one: 'מוצר אחד אזל מהמלאי ולא נוסף', other: '{count} מוצרים אזלו מהמלאי ולא נוספו' },
+  'store.quickOrder.open': 'הזמנה מרשימה',
+  'store.quickOrder.title': 'הזמנה מרשימה',
+  'store.quickOrder.hint': 'הדביקו שורות מגיליון או העלו קובץ CSV: מק״ט, ברקוד או שם המוצר, ואחריו הכמות. המוצרים יתווספו למה שכבר בעגלה.',
+  'store.quickOrder.textLabel': 'רשימת מוצרים וכמויות',
+  'store.quickOrder.placeholder': 'SKU-100, 12\nחלב 3%, 6',
+  'store.quickOrder.upload': 'העלאת קובץ CSV',
+  'store.quickOrder.fileTooLarge': 'הקובץ גדול מדי',
+  'store.quickOrder.fileError': 'לא ניתן לקרוא את הקובץ',
+  'store.quickOrder.tooManyLines': 'ניתן להזין עד {max} שורות בכל פעם',
+  'store.quickOrder.empty': 'יש להזין לפחות שורה אחת',
+  'store.quickOrder.match': 'התאמת מוצרים',
+  'store.quickOrder.summary': '{ready} מתוך {total} שורות מוכנות',
+  'store.quickOrder.status.ready': 'מוכן',
+  'store.quickOrder.status.chooseProduct': 'כמה מוצרים מתאימים – יש לבחור אחד',
+  'store.quickOrder.status.chooseVariant': 'יש לבחור אפשרות',
+  'store.quickOrder.status.notFound': 'לא נמצא מוצר מתאים – יש לתקן את הטקסט',
+  'store.quickOrder.status.badQuantity': 'הכמות חייבת להיות מספר שלם מ-1',
+  'store.quickOrder.query': 'מק״ט או שם',
+  'store.quickOrder.product': 'מוצר',
+  'store.quickOrder.chooseProduct': 'בחרו מוצר',
+  'store.quickOrder.variant': 'אפשרות',
+  'store.quickOrder.chooseVariant': 'בחרו אפשרות',
+  'store.quickOrder.quantity': 'כמות',
+  'store.quickOrder.packAdjusted': 'יתווסף כ-{quantity} (לפי גודל האריזה)',
+  'store.quickOrder.notAllowed': 'לא ניתן להזמין מוצר זה',
+  'store.quickOrder.removeRow': 'הסרת שורה {line}',
+  'store.quickOrder.back': 'חזרה',
+  'store.quickOrder.skipped': { one: 'שורה אחת שאינה מוכנה תדולג', other: '{count} שורות שאינן מוכנות ידולגו' },
+  'store.quickOrder.addToCart': { one: 'הוספת מוצר אחד לעגלה', other: 'הוספת {count} מוצרים לעגלה' },
+
+  'fulfillment.PICKUP': 'איסוף עצמי',
+  'fulfillment.DELIVERY': 'משלוח',
+  'pickupDate.today': 'היום',
+  'pickupDate.tomorrow': 'מחר',
+
+  'cartRule.packsOf': 'באריזות של {step}',
+  'cartRule.upTo': 'עד {max} יח׳ להזמנה',
+  'cartRule.minimumTotal': 'סכום ההזמנה המינימלי הוא {minimum} – חסרים עוד {missing}',
+  'cartRule.required': 'יש להוסיף להזמנה את {name}',
+  'cartRule.overMax': 'ניתן להזמין עד {max} יח׳ של {name} (בעגלה {quantity})',
+  'cartRule.notWholePacks': '{name} נמכר באריזות של {step} – יש להזמין כמות שמתחלקת ב-{step} (למשל {example})',
+  'stock.soldOutInCart': '{name} אזל מהמלאי – יש להסיר אותו מהעגלה',
+  'stock.onlyLeftInCart': {
+    one: 'נותרה במלאי רק יחידה אחת של {name} (בעגלה {quantity})',
+    other: 'נותרו במלאי רק {count} יח׳ של {name} (בעגלה {quantity})',
+  },
+
+  'store.checkout.title': 'תשלום',
+  'store.checkout.close': 'סגור',
+  'store.checkout.step.details': 'פרטים',
+  'store.checkout.step.receive': 'קבלה',
+  'store.checkout.step.location': 'מיקום',
+  'store.checkout.step.address': 'כתובת',
+  'store.checkout.step.review': 'סקירה',
+  'store.checkout.back': 'חזור',
+  'store.checkout.continue': 'המשך',
+  'store.checkout.locationsLoadError': 'נכשל בטעינת מיקומי איסוף',
+  'store.checkout.slotsUnchecked': 'לא ניתן לבדוק כרגע אילו מועדים מלאים – המועד ייבדק בעת שליחת ההזמנה.',
+  'store.checkout.nameRequired': 'שם הלקוח נדרש',
+  'store.checkout.phoneRequired': 'מספר טלפון נדרש',
+  'store.checkout.streetRequired': 'כתובת רחוב נדרשת',
+  'store.checkout.cityRequired': 'עיר נדרשת',
+  'store.checkout.stateIdRequired': 'ח.פ / ע.מ נדרש',
+  'store.checkout.stateIdLength': 'ח.פ / ע.מ חייב להיות 9 ספרות בדיוק',
+  'store.checkout.chooseLocation': 'אנא בחר מיקום איסוף',
+  'store.checkout.chooseSlot': 'אנא בחר מועד איסוף',
+  'store.checkout.deliveryStreetRequired': 'כתובת למשלוח נדרשת',
+  'store.checkout.deliveryCityRequired': 'עיר למשלוח נדרשת',
+  'store.checkout.acceptCartChanges': 'יש לאשר את השינויים בעגלה לפני שליחת ההזמנה',
+  'store.checkout.cartEmpty': 'העגלה ריקה',
+  'store.checkout.noUpdatePermission': 'אין הרשאה לעדכן הזמנות',
+  'store.checkout.updatedTitle': 'ההזמנה עודכנה!',
+  'store.checkout.placedTitle': 'ההזמנה הושלמה!',
+  'store.checkout.updated': 'ההזמנה שלך עודכנה בהצלחה.',
+  'store.checkout.queued':
+    'אין כרגע חיבור לאינטרנט. ההזמנה נשמרה במכשיר ותישלח אוטומטית כשהחיבור יחזור – אין צורך להזמין שוב.',
+  'store.checkout.placed': 'תודה על ההזמנה שלך. קיבלנו את ההזמנה שלך ונעדכן אותך בקרוב.',
+  'store.checkout.printableConfirmation': 'אישור הזמנה להדפסה',
+  'store.checkout.customerDetails': 'פרטי לקוח',
+  'store.checkout.name': 'שם',
+  'store.checkout.namePlaceholder': 'הזן את שמך',
+  'store.checkout.phone': 'טלפון',
+  'store.checkout.phonePlaceholder': 'הזן את מספר הטלפון שלך',
+  'store.checkout.emailOptional': 'אימייל (אופציונלי)',
+  'store.checkout.emailPlaceholder': 'הזן את האימייל שלך',
+  'store.checkout.street': 'כתובת רחוב',
+  'store.checkout.streetPlaceholder': 'הזן כתובת רחוב',
+  'store.checkout.streetAndNumber': 'רחוב ומספר בית',
+  'store.checkout.city': 'עיר',
+  'store.checkout.cityPlaceholder': 'הזן עיר',
+  'store.checkout.stateId': 'ח.פ / ע.מ',
+  'store.checkout.stateIdHint': 'הזן 9 ספרות בדיוק',
+  'store.checkout.howToReceive': 'איך תרצו לקבל את ההזמנה?',
+  'store.checkout.choosePickupLocation': 'בחר מיקום איסוף',
+  'store.checkout.fulfillmentMethod': 'אופן קבלת ההזמנה',
+  'store.checkout.noCharge': 'ללא עלות',
+  'store.checkout.deliveryFee': 'דמי משלוח {fee}',
+  'store.checkout.freeDelivery': 'משלוח חינם',
+  'store.checkout.freeDeliveryOver': 'משלוח חינם בהזמנה מעל {threshold}',
+  'store.checkout.missingForFreeDelivery': 'חסרים עוד {amount}',
+  'store.checkout.noLocations': 'אין מיקומי איסוף זמינים',
+  'store.checkout.streetLabel': 'רחוב: {street}',
+  'store.checkout.cityLabel': 'עיר: {city}',
+  'store.checkout.phoneLabel': 'טלפון: {phone}',
+  'store.checkout.whenPickup': 'מתי תגיעו לאסוף?',
+  'store.checkout.noSlots': 'אין מועדי איסוף פנויים בסניף זה כרגע',
+  'store.checkout.pickupDate': 'תאריך איסוף',
+  'store.checkout.pickupTime': 'שעת איסוף',
+  'store.checkout.slotFull': 'מלא',
+  'store.checkout.slotRemaining': { one: 'נותר מקום אחד', other: 'נותרו {count} מקומות' },
+  'store.checkout.deliveryAddress': 'כתובת למשלוח',
+  'store.checkout.courierInstructions': 'הוראות לשליח (אופציונלי)',
+  'store.checkout.courierInstructionsPlaceholder': 'קומה, דירה, קוד לשער...',
+  'store.checkout.reviewChanges': 'סקור שינויי הזמנה',
+  'store.checkout.reviewOrder': 'סקור את ההזמנה שלך',
+  'store.checkout.fixCart': 'יש לעדכן את העגלה לפני שליחת ההזמנה',
+  'store.checkout.nameLabel': 'שם: {name}',
+  'store.checkout.emailLabel': 'אימייל: {email}',
+  'store.checkout.addressLabel': 'כתובת: {address}',
+  'store.checkout.notAvailable': 'לא זמין',
+  'store.checkout.customerReadOnly': 'פרטי הלקוח לא ניתנים לעריכה',
+  'store.checkout.instructionsLabel': 'הוראות: {instructions}',
+  'store.checkout.pickupLocation': 'מיקום איסוף',
+  'store.checkout.pickupSlotLabel': 'מועד איסוף: {slot}',
+  'store.checkout.orderItems': 'פריטי הזמנה',
+  'store.checkout.tierPrice': 'מחיר כמות מ-{quantity} יח׳: {price} ליח׳ (במקום {regular})',
+  'store.checkout.deliveryFeeLabel': 'דמי משלוח',
+  'store.checkout.free': 'חינם',
+  'store.checkout.addForFreeDelivery': 'הוסיפו עוד {amount} למשלוח חינם',
+  'store.checkout.total': 'סה״כ',
+  'store.checkout.notesOptional': 'הערות (אופציונלי)',
+  'store.checkout.notesPlaceholder': 'הוראות מיוחדות או הערות...',
+  'store.checkout.updating': 'מעדכן הזמנה...',
+  'store.checkout.placing': 'מזמין הזמנה...',
+  'store.checkout.update': 'עדכן הזמנה',
+  'store.checkout.place': 'הזמן הזמנה',
+
+  'store.product.close': 'סגור חלון',
+  'store.product.volumePrices': 'מחירי כמות',
+  'store.product.units': '{range} יח׳',
+  'store.product.quantity': 'כמות:',
+  'store.product.inCart': '{count} בעגלה',
+  'store.product.choose': 'בחרו {name}',
+  'store.cartChanges.title': 'חלו שינויים במוצרים שבעגלה',
+  'store.cartChanges.removed': 'הוסר מהחנות',
+  'store.cartChanges.accept': 'אישור ועדכון העגלה',
+
+  'store.pending.pending': 'הזמנה ממתינה לסנכרון',
+  'store.pending.sending': 'הזמנה נשלחת...',
+  'store.pending.synced': 'הזמנה נשלחה בהצלחה',
+  'store.pending.failed': 'שליחת ההזמנה נכשלה',
+  'store.pending.unconfirmed': 'לא ידוע אם ההזמנה התקבלה',
+  'store.pending.serverUnreachable': 'לא ניתן להתחבר לשרת.',
+  'store.pending.offline': 'אין חיבור לאינטרנט.',
+  'store.pending.cachedCatalog': 'מוצג קטלוג שמור מ-{date}.',
+  'store.pending.keepOrdering': 'ניתן להמשיך לבחור מוצרים ולבצע הזמנה – היא תישלח אוטומטית כשהחיבור יחזור.',
+  'store.pending.unconfirmedHint':
+    'ההזמנה נשלחה אך לא התקבלה תשובה. אם לא קיבלתם אישור מהעסק, שלחו שוב – אחרת הסירו אותה כדי לא להזמין פעמיים.',
+  'store.pending.sendAgain': 'שלח שוב',
+  'store.pending.remove': 'הסר',
+  'store.pending.close': 'סגור',
+
+  'bulkAction.markDone': 'סימון כהושלם',
+  'bulkAction.cancel': 'ביטול',
+  'bulkAction.discount': 'הנחה',
+  'bulkAction.copyLinks': 'העתקת קישורים',
+
+  'calendarView.month': 'חודש',
+  'calendarView.week': 'שבוע',
+  'calendarView.day': 'יום',
+  'calendarDateField.placedAt': 'תאריך הזמנה',
+  'calendarDateField.doneAt': 'תאריך השלמה',
+  'calendarDateField.linkExpiresAt': 'תפוגת קישור',
+
+  'orderMove.sameColumn': 'ההזמנה כבר בעמודה זו',
+  'orderMove.notAllowed': 'לא ניתן להעביר הזמנות ל"{to}"',
+  'orderMove.onlyFrom': 'רק הזמנות בסטטוס {from} ניתן להעביר ל"{to}"',
+
+  'orderActivity.actor.MANAGER': 'מנהל',
+  'orderActivity.actor.AGENT': 'סוכן',
+  'orderActivity.actor.PUBLIC': 'לקוח (קישור הזמנה)',
+  'orderActivity.created': 'ההזמנה נוצרה',
+  'orderActivity.status': 'סטטוס: {status}',
+  'orderActivity.statusChanged': 'שינוי סטטוס',
+  'orderActivity.previousStatus': 'קודם: {status}',
+  'orderActivity.products': 'עדכון מוצרים',
+  'orderActivity.productsVersion': 'עדכון מוצרים (גרסה {version})',
+  'orderActivity.discount': 'שינוי הנחה',
+  'orderActivity.change': '{from} ← {to}',
+  'orderActivity.invoice': 'הופקה חשבונית #{number}',
+  'orderActivity.creditNote': 'הופק זיכוי #{number}',
+
+  'linkLifetime.weeks': { one: 'שבוע', two: 'שבועיים', other: '{count} שבועות' },
+  'linkLifetime.days': { one: 'יום אחד', two: 'יומיים', other: '{count} ימים' },
+  'linkLifetime.hours': { one: 'שעה אחת', other: '{count} שעות' },
+  'linkLifetime.default': 'תוקף ברירת מחדל: {lifetime}',
+
+  'orderSource.MANAGER': 'מנהל',
+  'orderSource.AGENT': 'סוכן',
+  'orderSource.PUBLIC': 'אונליין',
+  'orderExport.sheetName': 'הזמנות',
+  'orderExport.fileName': 'הזמנות',
+  'orderExport.column.referenceId': 'מס׳ הזמנה',
+  'orderExport.column.status': 'סטטוס',
+  'orderExport.column.source': 'מקור',
+  'orderExport.column.agent': 'סוכן',
+  'orderExport.column.customerName': 'לקוח',
+  'orderExport.column.customerPhone': 'טלפון',
+  'orderExport.column.customerEmail': 'אימייל',
+  'orderExport.column.customerStateId': 'ח.פ / ע.מ',
+  'orderExport.column.customerAddress': 'כתובת',
+  'orderExport.column.customerCity': 'עיר',
+  'orderExport.column.fulfillment': 'אופן קבלה',
+  'orderExport.column.createdAt': 'נוצרה',
+  'orderExport.column.placedAt': 'הוזמנה',
+  'orderExport.column.doneAt': 'הושלמה',
+  'orderExport.column.productsTotal': 'סכום מוצרים',
+  'orderExport.column.discount': 'הנחה',
+  'orderExport.column.deliveryFee': 'דמי משלוח',
+  'orderExport.column.credited': 'זיכוי',
+  'orderExport.column.totalPrice': 'סה״כ',
+  'orderExport.column.notes': 'הערות',
+  'orderExport.column.productName': 'מוצר',
+  'orderExport.column.quantity': 'כמות',
+  'orderExport.column.pricePerUnit': 'מחיר ליחידה',
+  'orderExport.column.lineTotal': 'סה״כ שורה',
+  'orderActivity.title': 'היסטוריית הזמנה',
+  'orderActivity.empty': 'אין פעילות רשומה להזמנה זו',
+  'orderActivity.openPdf': 'פתח PDF',
+  'orderActivity.lineAdded': 'נוסף: {quantity} × {price}',
+  'orderActivity.lineRemoved': 'הוסר (היו {quantity})',
+  'orderActivity.quantityChange': 'כמות {change}',
+  'orderActivity.priceChange': 'מחיר {change}',
+
+  'orders.bulk.toolbar': 'פעולות על הזמנות נבחרות',
+  'orders.bulk.selected': '{count} נבחרו',
+  'orders.bulk.clearSelection': 'נקה בחירה',
+  'orders.bulk.progress': '{done} מתוך {total}',
+  'orders.bulk.copyFailed': 'העתקת הקישורים נכשלה',
+  'orders.bulk.cancelTitle': { one: 'לבטל הזמנה אחת?', other: 'לבטל {count} הזמנות?' },
+  'orders.bulk.cancelBody': 'ביטול יסיר את ההזמנות מהתור הפעיל. הזמנות שהושלמו, בוטלו או פג תוקפן לא ישתנו.',
+  'orders.bulk.keep': 'שמור הזמנות',
+  'orders.bulk.confirmCancel': 'בטל הזמנות',
+  'orders.bulk.discountTitle': { one: 'הנחה להזמנה אחת', other: 'הנחה ל-{count} הזמנות' },
+  'orders.bulk.discountLabel': 'אחוז הנחה מסכום המוצרים של כל הזמנה',
+  'orders.bulk.discountHint': 'ההנחה הקיימת של כל הזמנה תוחלף. 0% מסיר את ההנחה.',
+  'orders.bulk.applyDiscount': 'החל הנחה',
+  'orders.bulk.resultsTitle': 'תוצאות: {action}',
+  'orders.bulk.linksCopied': { one: 'קישור אחד הועתק', other: '{count} קישורים הועתקו' },
+  'orders.bulk.updated': { one: 'הזמנה אחת עודכנה', other: '{count} הזמנות עודכנו' },
+  'orders.bulk.failed': '{count} נכשלו (נשארו מסומנות):',
+  'orders.bulk.skipped': '{count} דולגו (הפעולה לא מתאימה לסטטוס):',
+  'orders.bulk.close': 'סגור',
+
+  'orders.cancel.title': 'בטל הזמנה?',
+  'orders.cancel.keep': 'שמור הזמנה',
+  'orders.cancel.confirm': 'בטל הזמנה',
+  'orders.board.cancelBody': 'ביטול יסיר את הזמנה #{reference} מהתור הפעיל. אתה תמיד יכול ליצור הזמנה חדשה מאוחר יותר.',
+  'orders.board.empty': 'אין הזמנות',
+  'orders.board.noCustomer': 'ללא פרטי לקוח',
+  'orders.board.moveOrder': 'העבר הזמנה {reference}',
+  'orders.board.moveTo': 'העבר ל...',
+
+  'orders.calendar.previous': 'הקודם',
+  'orders.calendar.next': 'הבא',
+  'orders.calendar.today': 'היום',
+  'orders.calendar.by': 'לפי:',
+  'orders.calendar.range': 'טווח תצוגה',
+  'orders.calendar.summary': { one: 'הזמנה אחת · סה״כ', other: '{count} הזמנות · סה״כ' },
+  'orders.calendar.truncated': 'מוצגות רק חלק מההזמנות בטווח – צמצם את הטווח או הוסף מסננים',
+  'orders.calendar.emptyDay': 'אין הזמנות ביום זה',
+  'orders.calendar.more': '+{count} נוספות',
+
+  'orders.export.title': 'ייצוא הזמנות',
+  'orders.export.intro': 'כל ההזמנות התואמות את המסננים הפעילים ייוצאו, מכל העמודים.',
+  'orders.export.format': 'פורמט',
+  'orders.export.rows': 'שורות',
+  'orders.export.rowPerOrder': 'שורה לכל הזמנה',
+  'orders.export.rowPerLine': 'שורה לכל מוצר בהזמנה',
+  'orders.export.columns': 'עמודות ({count})',
+  'orders.export.selectAll': 'בחר הכל',
+  'orders.export.defaults': 'ברירת מחדל',
+  'orders.export.loading': 'טוען הזמנות...',
+  'orders.export.stop': 'עצור ייצוא',
+  'orders.export.export': 'ייצא',
+
+  'orders.selectOrder': 'בחר הזמנה {reference}',
+  'orders.expiringLinks.title': 'קישורים שפגים ב-{hours} השעות הקרובות: {count}',
+  'orders.expiringLinks.requests': { one: 'בקשת הארכה אחת', other: '{count} בקשות הארכה' },
+  'orders.expiringLinks.show': 'הצג',
+  'orders.expiringLinks.hide': 'הסתר',
+  'orders.expiringLinks.expiringSoonTab': 'פגים בקרוב',
+  'orders.expiringLinks.expiredTab': 'פג תוקף',
+  'orders.expiringLinks.extendBy': 'הארכה ב:',
+  'orders.expiringLinks.extendSelected': 'הארך נבחרים ({count})',
+  'orders.expiringLinks.reopenSelected': 'פתח מחדש נבחרים ({count})',
+  'orders.expiringLinks.noneExpiringSoon': 'אין קישורים שפגים ב-{hours} השעות הקרובות',
+  'orders.expiringLinks.noneExpired': 'אין קישורים שפג תוקפם לאחרונה',
+  'orders.expiringLinks.noCustomer': 'ללא לקוח',
+  'orders.expiringLinks.requested': 'ביקש הארכה',
+  'orders.expiringLinks.expiredAt': 'פג ב-{date}',
+  'orders.expiringLinks.expiresAt': 'יפוג ב-{date}',
+  'orders.expiringLinks.saving': 'שומר...',
+  'orders.expiringLinks.reopen': 'פתח מחדש',
+  'orders.expiringLinks.extend': 'הארך',
+
+  'stockReason.RECEIVED': 'קבלת סחורה',
+  'stockReason.COUNT': 'ספירת מלאי',
+  'stockReason.DAMAGED': 'פגום / אבד',
+  'stockReason.RETURNED': 'החזרה מלקוח',
+  'stockReason.OTHER': 'אחר',
+  'stockReason.ORDER_DONE': 'הזמנה הושלמה',
+  'stock.locationFallback': 'מיקום #{id}',
+  'stock.error.wholeNumber': 'יש להזין כמות במספר שלם',
+  'stock.error.countRange': 'הכמות שנספרה חייבת להיות בין 0 ל-{max}',
+  'stock.error.deltaRange': 'השינוי חייב להיות שונה מ-0 ועד {max} יח׳',
+  'stock.error.noteRequired': 'יש לפרט את סיבת השינוי',
+  'stock.error.noteTooLong': 'ההערה יכולה להכיל עד {max} תווים',
+  'stock.error.thresholdRange': 'סף המלאי הנמוך חייב להיות מספר שלם בין 0 ל-{max}',
+  'stock.settings.off': 'לא פעיל',
+  'stock.settings.blocking': 'פעיל · חוסם הזמנת כמויות שאינן במלאי',
+  'stock.settings.badgesOnly': 'פעיל · תגיות מלאי בחנות בלבד',
+  'stock.title': 'מלאי – {name}',
+  'stock.noLocations': 'כדי לנהל מלאי יש להוסיף סניף בעמוד הסניפים.',
+  'stock.deletedVariant': 'וריאציה שנמחקה',
+  'stock.variant': 'וריאציה',
+  'stock.product': 'מוצר',
+  'stock.total': 'סה״כ',
+  'stock.lowStock': 'המלאי הכולל ({total}) הגיע לסף המלאי הנמוך ({threshold})',
+  'stock.adjustTitle': 'עדכון מלאי',
+  'stock.location': 'סניף',
+  'stock.reason': 'סיבה',
+  'stock.countedQuantity': 'כמות שנספרה',
+  'stock.delta': 'שינוי (למשל 10 או ‎-3)',
+  'stock.current': 'כרגע בסניף: {quantity}',
+  'stock.note': 'הערה',
+  'stock.optional': '(אופציונלי)',
+  'stock.saving': 'שומר...',
+  'stock.adjust': 'עדכן מלאי',
+  'stock.thresholdLabel': 'התראת מלאי נמוך כשהמלאי הכולל יורד אל',
+  'stock.thresholdHint': '(ריק = ללא התראה)',
+  'stock.thresholdNone': 'ללא',
+  'stock.saveThreshold': 'שמור סף',
+  'stock.recentChanges': 'שינויים אחרונים',
+  'stock.noChanges': 'אין שינויי מלאי עדיין.',
+  'stock.left': 'נותרו {quantity}',
+
+  'addresses.title': 'תיקון כתובות לקוחות',
+  'addresses.intro':
+    'כתובות שהוזנו בכתיב שונה (למשל "ת"א" או "קרית גת") יעודכנו לשם הרשמי של היישוב והרחוב. כתובות שאינן במאגר נשארות כפי שהן.',
+  'addresses.updated': { one: 'עודכן לקוח אחד.', other: 'עודכנו {count} לקוחות.' },
+  'addresses.failed': '{count} לקוחות לא עודכנו:',
+  'addresses.nothingToFix': 'כל הכתובות המוכרות כבר כתובות בצורה אחידה.',
+  'addresses.selected': '{count} מתוך {total} נבחרו',
+  'addresses.unknownCity': '{count} לקוחות עם יישוב שאינו במאגר לא ישתנו.',
+  'addresses.progress': 'מעדכן {done} מתוך {total}...',
+  'addresses.apply': { one: 'עדכן כתובת אחת', other: 'עדכן {count} כתובות' },
+
+  'customerLink.title': 'קישור חנות אישי',
+  'customerLink.intro': 'קישור קבוע ללקוח: מציג תמיד את המחירים המיוחדים שלו, וכל הזמנה דרכו נפתחת כהזמנה חדשה.',
+  'customerLink.loading': 'טוען...',
+  'customerLink.creating': 'יוצר קישור...',
+  'customerLink.create': 'צור קישור חנות אישי',
+  'customerLink.label': 'קישור החנות האישי',
+  'customerLink.copied': 'הועתק ✓',
+  'customerLink.copy': 'העתק קישור',
+  'customerLink.copyFailed': 'העתקה נכשלה',
+  'customerLink.createdAt': 'נוצר {date}',
+  'customerLink.unused': 'עדיין לא הוזמן דרכו',
+  'customerLink.usage': { one: 'הזמנה אחת · אחרונה {date}', other: '{count} הזמנות · אחרונה {date}' },
+  'customerLink.rotateWarning': 'הקישור הנוכחי יפסיק לעבוד ויוחלף בקישור חדש. יש לשלוח ללקוח את הקישור החדש.',
+  'customerLink.revokeWarning': 'הקישור יפסיק לעבוד והלקוח לא יוכל להזמין דרכו. ניתן ליצור קישור חדש בכל עת.',
+  'customerLink.saving': 'שומר...',
+  'customerLink.rotate': 'החלף קישור',
+  'customerLink.revoke': 'בטל קישור',
+  'customerLink.back': 'חזור',
+
+  'orders.page.loadFailed': 'נכשל בטעינת הזמנות',
+  'orders.page.invalidValue': 'אנא הזן ערך תקין',
+  'orders.page.title': 'הזמנות',
+  'orders.page.subtitle': 'נהל את ההזמנות שלך ושתף קישורים עם לקוחות',
+  'orders.page.export': 'ייצוא',
+  'orders.page.newOrder': 'צור הזמנה חדשה',
+  'orders.page.createOrder': 'צור הזמנה',
+  'orders.page.filter.agent': 'סוכן:',
+  'orders.page.filter.customer': 'לקוח:',
+  'orders.page.filter.location': 'סניף איסוף:',
+  'orders.page.filter.status': 'סטטוס:',
+  'orders.page.filter.sortBy': 'מיין לפי:',
+  'orders.page.filter.pageSize': 'הצג:',
+  'orders.page.filter.all': 'הכל',
+  'orders.page.filter.todayPickups': 'איסופים היום',
+  'orders.page.sort.createdAt': 'תאריך יצירה',
+  'orders.page.sort.totalPrice': 'מחיר כולל',
+  'orders.page.sort.pickupSlot': 'מועד איסוף',
+  'orders.page.sort.ascending': 'א ← ת',
+  'orders.page.sort.descending': 'א → ת',
+  'orders.page.me': 'אני',
+  'orders.page.online': '- אונליין -',
+  'orders.page.empty.title': 'אין הזמנות עדיין',
+  'orders.page.empty.body': 'צור את ההזמנה הראשונה שלך כדי להתחיל',
+  'orders.page.selectPage': 'בחר את כל ההזמנות בעמוד',
+  'orders.page.copied': 'הועתק!',
+  'orders.page.noCustomerYet': 'אין פרטי לקוח עדיין',
+  'orders.page.awaitingDetails': 'ממתין לפרטי ההזמנה',
+  'orders.page.noCustomerDetails': 'אין פרטי לקוח',
+  'orders.page.discount': 'הנחה:',
+  'orders.page.credited': 'זיכוי:',
+  'orders.page.total': 'סה״כ',
+  'orders.page.pickup': 'איסוף: {slot}',
+  'orders.page.sendWhatsApp': 'שלח קישור בוואטסאפ',
+  'orders.page.linkCopied': 'קישור הועתק',
+  'orders.page.copyLink': 'העתק קישור הזמנה',
+  'orders.page.openInNewTab': 'פתח הזמנה בטאב חדש',
+  'orders.page.edit': 'ערוך הזמנה',
+  'orders.page.markDone': 'סמן כהושלם',
+  'orders.page.taxInvoice': 'חשבונית מס קבלה',
+  'orders.page.createTaxInvoice': 'צור חשבונית מס קבלה',
+  'orders.page.create.linkExpiry': 'קישור להזמנה יפקע בתום תקופת התוקף שתיבחר כאן. ניתן להאריך אותו גם לאחר מכן.',
+  'orders.page.create.linkLifetime': 'תוקף הקישור',
+  'orders.page.create.businessDefault': 'ברירת המחדל של העסק',
+  'orders.page.create.customer': 'בחירת לקוח',
+  'orders.page.create.noCustomer': 'ללא לקוח',
+  'orders.page.create.noCustomerHint': 'הלקוח יספק את הפרטים שלו דרך הקישור',
+  'orders.page.create.linkExisting': 'או קשר ללקוח קיים',
+  'orders.page.create.search': 'חפש לקוחות...',
+  'orders.page.create.noResults': 'לא נמצאו לקוחות',
+  'orders.page.create.clearSearch': 'נקה חיפוש',
+  'orders.page.create.creating': 'יוצר...',
+  'orders.page.cancelBody':
+    'ביטול יסיר את ההזמנה מהתור הפעיל. אתה תמיד יכול ליצור הזמנה חדשה מאוחר יותר אם תשנה את דעתך.',
+  'orders.page.cancelling': 'מבטל...',
+  'orders.page.discountModal.title': 'הוסף הנחה',
+  'orders.page.discountModal.order': 'הזמנה #{id}',
+  'orders.page.discountModal.orderTotal': 'סכום הזמנה:',
+  'orders.page.discountModal.amountMode': 'סכום (₪)',
+  'orders.page.discountModal.percentMode': 'אחוז (%)',
+  'orders.page.discountModal.amountLabel': 'סכום הנחה (₪)',
+  'orders.page.discountModal.percentLabel': 'אחוז הנחה (%)',
+  'orders.page.discountModal.hint': 'עד 2 ספרות אחרי הנקודה, מקסימום {max}',
+  'orders.page.discountModal.amount': 'סכום הנחה:',
+  'orders.page.discountModal.saving': 'שומר...',
+  'orders.page.discountModal.save': 'שמור',
+
+  'orders.viewMode.label': 'תצוגה:',
+  'orders.viewMode.list': 'רשימה',
+  'orders.viewMode.board': 'לוח',
+  'orders.viewMode.calendar': 'יומן',
+
+  'orders.linkExtend.requested': 'הלקוח ביקש להאריך את הקישור ב-{date}',
+  'orders.linkExtend.reopenFor': 'פתח מחדש ל:',
+  'orders.linkExtend.reopen': 'פתח קישור מחדש',
+  'orders.linkExtend.extend': 'הארך קישור',
+
+  'agentOrders.placedOn': 'הוזמן {date}',
+  'agentOrders.createdOn': 'נוצר {date}',
+  'agentOrders.linkInfo': 'מידע על קישור',
+  'agentOrders.linkExpiresAt': 'תאריך תפוגה',
+
+  'field.firstName': 'שם פרטי',
+  'field.lastName': 'שם משפחה',
+  'field.phone': 'מספר טלפון',
+  'field.address': 'כתובת',
+  'field.city': 'עיר',
+  'field.email': 'אימייל',
+  'field.password': 'סיסמה',
+  'field.currentPassword': 'סיסמה נוכחית',
+  'field.dateOfBirth': 'תאריך לידה',
+  'field.date': 'תאריך',
+  'field.businessName': 'שם העסק',
+  'field.stateId': 'ח.פ / ע.מ',
+  'field.customerName': 'שם הלקוח',
+  'field.discountPercentage': 'אחוז הנחה',
+  'field.locationName': 'שם הסניף',
+  'field.minInvoiceNumber': 'מספר חשבונית מינימלי',
+  'field.minCreditNoteNumber': 'מספר זיכוי מינימלי',
+  'field.deliveryFee': 'דמי משלוח',
+  'field.freeDeliveryThreshold': 'סף משלוח חינם',
+  'field.minimumOrderTotal': 'סכום הזמנה מינימלי',
+
+  'validation.required': '{field} נדרש',
+  'validation.maxLength': '{field} חייב להיות {max} תווים או פחות',
+  'validation.digitsOnly': '{field} חייב להכיל ספרות בלבד',
+  'validation.exactDigits': '{field} חייב להכיל בדיוק {count} ספרות',
+  'validation.emailInvalid': 'אנא הזן אימייל תקין',
+  'validation.number': '{field} חייב להיות מספר תקין',
+  'validation.percentRange': '{field} חייב להיות בין 0 ל-100',
+  'validation.passwordMinLength': 'סיסמה חייבת להיות לפחות {min} תווים',
+  'validation.confirmPassword': 'אנא אשר את הסיסמה',
+  'validation.passwordMismatch': 'הסיסמאות אינן תואמות',
+  'validation.minOne': '{field} חייב להיות לפחות 1',
+  'validation.moneyAmount': '{field} חייב להיות סכום תקין (0 ומעלה) עם עד 2 ספרות אחרי הנקודה',
+  'validation.moneyMax': '{field} אינו יכול לעלות על {max}',
+
+  'pickupScheduling.error.noTemplates': 'יש להגדיר לפחות חלון איסוף אחד',
+  'pickupScheduling.error.missingHours': 'יש להזין שעות פתיחה וסגירה ל{day}',
+  'pickupScheduling.error.endBeforeStart': 'שעת הסיום ב{day} חייבת להיות אחרי שעת ההתחלה',
+  'pickupScheduling.error.windowTooShort': 'החלון ב{day} קצר ממשך מועד אחד ({minutes} דקות)',
+  'pickupScheduling.error.capacity': 'מספר ההזמנות למועד ב{day} חייב להיות מספר שלם בין 1 ל-{max}',
+  'pickupScheduling.error.overlap': 'חלונות האיסוף ב{day} חופפים',
+  'pickupScheduling.error.leadTime': 'זמן ההכנה חייב להיות מספר שעות שלם בין 0 ל-{max}',
+  'pickupScheduling.error.bookingWindow': 'טווח ההזמנה מראש חייב להיות בין 1 ל-{max} ימים',
+
+  'priceTier.error.tooMany': 'ניתן להגדיר עד {max} מדרגות מחיר',
+  'priceTier.error.quantity': 'כמות מינימלית במדרגה חייבת להיות מספר שלם, 2 ומעלה',
+  'priceTier.error.quantityOrder': 'כמויות המדרגות חייבות לעלות ממדרגה למדרגה',
+  'priceTier.error.price': 'מחיר המדרגה מ-{quantity} יחידות חייב להיות מספר חיובי',
+  'priceTier.error.priceMax': 'מחיר המדרגה מ-{quantity} יחידות אינו יכול לעלות על {max}',
+  'priceTier.error.belowMinimum': 'מחיר המדרגה מ-{quantity} יחידות אינו יכול להיות נמוך ממחיר מינימלי',
+  'priceTier.error.notLower': 'מחיר המדרגה מ-{quantity} יחידות חייב להיות נמוך מהמדרגה הקודמת',
+
+  'variant.error.axisName': 'יש להזין שם לכל ציר וריאציה',
+  'variant.error.axisNamesUnique': 'שמות צירי הווריאציות חייבים להיות שונים',
+  'variant.error.axisValues': 'יש להזין לפחות ערך אחד לכל ציר (מופרדים בפסיקים)',
+  'variant.error.tooManyValues': 'ניתן להגדיר עד {max} ערכים לכל ציר',
+  'variant.error.tooManyVariants': 'ניתן להגדיר עד {max} וריאציות למוצר',
+  'variant.error.price': 'מחיר הווריאציה {label} חייב להיות מספר חיובי',
+  'variant.error.priceMax': 'מחיר הווריאציה {label} אינו יכול לעלות על {max}',
+  'variant.error.belowMinimum': 'מחיר הווריאציה {label} אינו יכול להיות נמוך ממחיר מינימלי',
+
+  'cartRule.summary.minimum': 'מינימום {amount}',
+  'cartRule.summary.productRules': { one: 'כלל מוצר אחד', other: '{count} כללי מוצר' },
+  'cartRule.summary.none': 'ללא',
+  'cartRule.error.tooMany': 'ניתן להגדיר עד {max} כללי מוצר',
+  'cartRule.error.noProduct': 'יש לבחור מוצר בכל כלל',
+  'cartRule.error.duplicate': 'הוגדר יותר מכלל אחד עבור {name}',
+  'cartRule.error.maxQuantity': 'כמות מקסימלית ל{name} חייבת להיות מספר שלם בין 1 ל-{max}',
+  'cartRule.error.packSize': 'גודל אריזה ל{name} חייב להיות מספר שלם, 2 ומעלה',
+  'cartRule.error.maxBelowPack': 'הכמות המקסימלית ל{name} קטנה מאריזה אחת ({step})',
+  'cartRule.error.empty': 'לא הוגדר אף כלל עבור {name}',
+
+  'storeTheme.summary.default': 'ברירת מחדל',
+  'storeTheme.summary.colors': 'צבעים מותאמים',
+  'storeTheme.summary.banner': 'באנר',
+  'storeTheme.summary.welcomeText': 'טקסט פתיחה',
+  'storeTheme.summary.footer': 'כותרת תחתונה',
+  'storeTheme.error.primaryColor': 'צבע ראשי לא תקין',
+  'storeTheme.error.accentColor': 'צבע משני לא תקין',
+  'storeTheme.error.welcomeTextLength': 'טקסט הפתיחה חייב להיות {max} תווים או פחות',
+  'storeTheme.error.footerTextLength': 'טקסט הכותרת התחתונה חייב להיות {max} תווים או פחות',
+  'storeTheme.error.contactPhone': 'טלפון ליצירת קשר חייב להכיל 9-10 ספרות',
+  'storeTheme.error.contactAddressLength': 'הכתובת חייבת להיות {max} תווים או פחות',
+
+  'delivery.summary.off': 'לא פעיל',
+  'delivery.summary.fee': 'דמי משלוח {fee}',
+  'delivery.summary.free': 'משלוח חינם',
+  'delivery.summary.freeAbove': '{fee} · חינם מעל {threshold}',
+
+  'priceTier.editor.title': 'מחירי כמות',
+  'priceTier.editor.add': '+ הוסף מדרגה',
+  'priceTier.editor.from': 'מ-',
+  'priceTier.editor.units': 'יח׳',
+  'priceTier.editor.quantityLabel': 'כמות מינימלית למדרגה {number}',
+  'priceTier.editor.priceLabel': 'מחיר ליחידה במדרגה {number}',
+  'priceTier.editor.remove': 'הסר מדרגה',
+
+  'variant.editor.title': 'וריאציות',
+  'variant.editor.hint': '(מידה, צבע, מארז... אופציונלי)',
+  'variant.editor.addAxis': '+ הוסף ציר',
+  'variant.editor.empty': 'מוצר ללא וריאציות נמכר במחיר אחד.',
+  'variant.editor.axisPlaceholder': 'לדוגמה: מידה',
+  'variant.editor.axisLabel': 'שם ציר וריאציה {number}',
+  'variant.editor.valuesLabel': 'ערכי ציר וריאציה {number}, מופרדים בפסיקים',
+  'variant.editor.removeAxis': 'הסר ציר',
+  'variant.editor.count': { one: 'וריאציה אחת', other: '{count} וריאציות' },
+  'variant.editor.priceHeader': 'מחיר (ריק = מחיר המוצר)',
+  'variant.editor.priceLabel': 'מחיר עבור {label}',
+
+  'pickupScheduling.title': 'מועדי איסוף – {name}',
+  'pickupScheduling.enabled': 'לקוחות בוחרים מועד איסוף בסניף זה',
+  'pickupScheduling.windows': 'חלונות איסוף שבועיים',
+  'pickupScheduling.addWindow': '+ הוסף חלון',
+  'pickupScheduling.noWindows': 'לא הוגדרו חלונות איסוף.',
+  'pickupScheduling.column.day': 'יום',
+  'pickupScheduling.column.from': 'משעה',
+  'pickupScheduling.column.to': 'עד שעה',
+  'pickupScheduling.column.slotLength': 'משך מועד',
+  'pickupScheduling.column.capacity': 'הזמנות למועד',
+  'pickupScheduling.dayLabel': 'יום לחלון {number}',
+  'pickupScheduling.startLabel': 'שעת התחלה לחלון {number}',
+  'pickupScheduling.endLabel': 'שעת סיום לחלון {number}',
+  'pickupScheduling.slotLengthLabel': 'משך מועד בחלון {number}',
+  'pickupScheduling.minutes': '{minutes} דק׳',
+  'pickupScheduling.capacityLabel': 'מספר הזמנות למועד בחלון {number}',
+  'pickupScheduling.removeWindow': 'הסר חלון',
+  'pickupScheduling.leadTime': 'זמן הכנה (שעות)',
+  'pickupScheduling.leadTimeHint': 'המועד המוקדם ביותר שניתן לבחור',
+  'pickupScheduling.bookingWindow': 'הזמנה מראש עד (ימים)',
+  'pickupScheduling.blackoutDates': 'ימים סגורים (חגים, חופשות)',
+  'pickupScheduling.removeDate': 'הסר {date}',
+
+  'cartRule.editor.title': 'כללי מוצר',
+  'cartRule.editor.add': '+ הוסף כלל',
+  'cartRule.editor.loadingProducts': 'טוען מוצרים...',
+  'cartRule.editor.column.product': 'מוצר',
+  'cartRule.editor.column.max': 'מקסימום להזמנה',
+  'cartRule.editor.column.pack': 'אריזה של',
+  'cartRule.editor.column.required': 'חובה',
+  'cartRule.editor.productLabel': 'מוצר לכלל {number}',
+  'cartRule.editor.chooseProduct': 'בחר מוצר',
+  'cartRule.editor.noLimit': 'ללא',
+  'cartRule.editor.maxLabel': 'כמות מקסימלית לכלל {number}',
+  'cartRule.editor.packLabel': 'גודל אריזה לכלל {number}',
+  'cartRule.editor.remove': 'הסר כלל',
+
+  'storeTheme.editor.title': 'עיצוב החנות',
+  'storeTheme.editor.primaryColor': 'צבע ראשי',
+  'storeTheme.editor.accentColor': 'צבע משני',
+  'storeTheme.editor.colorHex': '{color} (hex)',
+  'storeTheme.editor.reset': 'איפוס',
+  'storeTheme.editor.previewSort': 'מיון פעיל',
+  'storeTheme.editor.adjusted': 'הגוון הותאם כדי שהטקסט יהיה קריא',
+  'storeTheme.editor.banner': 'באנר החנות',
+  'storeTheme.editor.replaceBanner': 'החלף באנר',
+  'storeTheme.editor.removeBanner': 'הסר באנר',
+  'storeTheme.editor.chooseBanner': 'בחר תמונת באנר',
+  'storeTheme.editor.bannerHint': 'JPEG, PNG, WebP. גודל מקסימלי: 5MB. מומלץ יחס רוחב-גובה של 4:1.',
+  'storeTheme.editor.welcomeText': 'טקסט פתיחה',
+  'storeTheme.editor.welcomePlaceholder': 'ברוכים הבאים לחנות שלנו!',
+  'storeTheme.editor.footerText': 'טקסט תחתון',
+  'storeTheme.editor.footerPlaceholder': 'שעות פעילות: א׳-ה׳ 8:00-17:00',
+  'storeTheme.editor.contactPhone': 'טלפון ליצירת קשר',
+  'storeTheme.editor.contactEmail': 'אימייל ליצירת קשר',
+  'storeTheme.editor.contactAddress': 'כתובת להצגה',
+
+  'orderView.title': 'פרטי הזמנה',
+  'orderView.id': 'מספר מזהה #{id}',
+  'orderView.customer': 'פרטי לקוח',
+  'orderView.name': 'שם',
+  'orderView.phone': 'טלפון',
+  'orderView.email': 'אימייל',
+  'orderView.address': 'כתובת',
+  'orderView.city': 'עיר',
+  'orderView.noCustomer': 'אין פרטי לקוח עדיין',
+  'orderView.location': 'סניף',
+  'orderView.instructions': 'הוראות',
+  'orderView.noDeliveryAddress': 'כתובת משלוח לא הוזנה',
+  'orderView.pickupSlot': 'מועד איסוף',
+  'orderView.noLocation': 'סניף לא נבחר עדיין',
+  'orderView.products': 'מוצרים',
+  'orderView.noProducts': 'אין מוצרים עדיין',
+  'orderView.quantity': 'כמות: {quantity}',
+  'orderView.perUnit': '{price} לכל יחידה',
+  'orderView.creditedProducts': 'מוצרים שזוכו',
+  'orderView.noCreditedProducts': 'אין מוצרים שזוכו עדיין',
+  'orderView.creditedQuantity': 'כמות שזוכה: {quantity}',
+  'orderView.summary': 'סיכום הזמנה',
+  'orderView.totalItems': 'סה״כ פריטים',
+  'orderView.totalQuantity': 'סה״כ כמות',
+  'orderView.price': 'מחיר',
+  'orderView.discount': 'הנחה',
+  'orderView.deliveryFee': 'דמי משלוח',
+  'orderView.credits': 'זיכויים',
+  'orderView.total': 'מחיר כולל',
+  'orderView.notes': 'הערות',
+  'orderView.noNotes': 'אין הערות',
+  'orderView.moreInfo': 'מידע נוסף',
+  'orderView.reference': 'מספר אסמכתא',
+  'orderView.createdAt': 'נוצר ב:',
+  'orderView.placedAt': 'הוזמן ב:',
+  'orderView.doneAt': 'הושלם ב:',
+  'orderView.expiresAt': 'פג תוקף ב:',
+  'orderView.documents': 'חשבוניות ומסמכים',
+  'orderView.noDocuments': 'אין חשבוניות עדיין',
+  'orderView.creditNote': 'זיכוי',
+  'orderView.invoice': 'חשבונית',
+  'orderView.openPdf': 'פתח PDF',
+  'orderView.noPdf': 'אין PDF',
+  'orderView.cancel': 'בטל הזמנה',
+  'orderView.cancelling': 'מבטל...',
+  'orderView.edit': 'ערוך הזמנה',
+  'orderView.addDiscount': 'הוסף הנחה',
+  'orderView.markDone': 'סמן כהושלם',
+  'orderView.marking': 'מסמן...',
+  'orderView.loadingInvoice': 'טוען נתוני חשבונית…',
+  'orderView.createCreditNoteTitle': 'צור זיכוי מס',
+  'orderView.createCreditNote': 'צור זיכוי',
+  'orderView.openInOrders': 'פתח בהזמנות',
+
+  'invoice.orderNumber': 'הזמנה #{id}',
+  'invoice.title': 'צור חשבונית',
+  'invoice.creating': 'יוצר...',
+  'invoice.orderTotal': 'סה״כ הזמנה',
+  'invoice.allocationNeeded': 'מספר הקצאה נדרש עבור הזמנה זו',
+  'invoice.allocationNotNeeded': 'מספר הקצאה לא נדרש עבור הזמנה זו',
+  'invoice.paymentMethod': 'אמצעי תשלום',
+  'invoice.cash': 'מזומן',
+  'invoice.creditCard': 'כרטיס אשראי',
+  'invoice.allocationData': 'נתונים להנפקת מספר הקצאה',
+  'invoice.data.reference': 'מספר אסמכתה: {value}',
+  'invoice.data.customerId': 'מספר מזהה של לקוח: {value}',
+  'invoice.data.notAvailable': 'לא זמין',
+  'invoice.data.date': 'תאריך: {value}',
+  'invoice.data.amountBeforeVat': 'סכום העסקה ללא מע״מ: {value}',
+  'invoice.cardLast4': '4 הספרות האחרונות של כרטיס האשראי',
+  'invoice.cardLast4Hint': 'הזן 4 ספרות בלבד',
+  'invoice.allocationNumber': 'מספר הקצאה',
+  'invoice.allocationHelp': 'מידע נוסף על מספר הקצאה',
+  'invoice.allocationHelpText': 'הזמנות עם סכום כולל מעל {amount} נדרשות למספר הקצאה.',
+  'invoice.allocationHelpLink': 'קישור להסבר הנפקת מספר הקצאה',
+  'invoice.allocationPlaceholder': 'הזן 9 ספרות',
+  'invoice.allocationHint': 'הזן 9 ספרות בדיוק',
+  'invoice.error.allocationRequired': 'מספר הקצאה הוא שדה חובה',
+  'invoice.error.allocationLength': 'מספר הקצאה חייב להכיל 9 ספרות בדיוק',
+  'invoice.error.allocationDigits': 'מספר הקצאה חייב להכיל ספרות בלבד',
+  'invoice.error.cardLast4': 'יש להזין 4 ספרות אחרונות של כרטיס האשראי',
+  'invoice.error.cardDigits': '4 הספרות האחרונות חייבות להיות מספרים בלבד',
+
+  'creditNote.title': 'צור זיכוי מס',
+  'creditNote.type': 'סוג זיכוי',
+  'creditNote.byAmount': 'זיכוי לפי סכום',
+  'creditNote.byOrder': 'זיכוי לפי עדכון הזמנה',
+  'creditNote.grossTotal': 'סכום הזמנה (לפני זיכויים)',
+  'creditNote.alreadyCredited': 'כבר זוכה',
+  'creditNote.balance': 'יתרה',
+  'creditNote.amount': 'סכום הזיכוי (₪)',
+  'creditNote.amountHint': 'ספרות ונקודה עשרונית בלבד, עד שני ספרות אחרי הנקודה. מקסימום לפי הזמנה: {max}',
+  'creditNote.allocation': 'מספר הקצאה (9 ספרות)',
+  'creditNote.notes': 'הערות לזיכוי (אופציונלי)',
+  'creditNote.notesPlaceholder': 'הוסף הערות שיופיעו במסמך הזיכוי...',
+  'creditNote.sending': 'שולח…',
+  'creditNote.create': 'צור זיכוי',
+  'creditNote.createByProducts': 'צור זיכוי לפי מוצרים',
+  'creditNote.productsAmount': 'סכום זיכוי לפי מוצרים',
+  'creditNote.maxForOrder': 'מקסימום זיכוי להזמנה',
+  'creditNote.overMax': 'סכום הזיכוי שנבחר גבוה מהמקסימום המותר להזמנה.',
+  'creditNote.column.product': 'מוצר',
+  'creditNote.column.ordered': 'כמות בהזמנה',
+  'creditNote.column.credited': 'כמות שזוכו',
+  'creditNote.column.toCredit': 'כמות לזיכוי',
+  'creditNote.column.amount': 'סכום',
+  'creditNote.remaining': 'נותר: {count}',
+  'creditNote.error.amount': 'יש להזין סכום חיובי',
+  'creditNote.error.noProducts': 'יש לבחור לפחות מוצר אחד לזיכוי',
+  'creditNote.error.max': 'הסכום לא יכול לעלות על {max}',
+  'creditNote.error.allocation': 'מספר הקצאה חייב להכיל 9 ספרות',
+  'creditNote.error.notes': 'הערות יכולות להכיל עד {max} תווים',
+
+  'placeholder.street': 'רחוב ראשי 123',
+  'placeholder.city': 'תל אביב',
+
+  'image.choose': 'בחר תמונה או גרור ושחרר',
+  'image.dropHere': 'שחרר תמונה כאן',
+  'image.change': 'שנה תמונה',
+  'image.replace': 'החלף תמונה או גרור ושחרר',
+  'image.current': 'תמונה נוכחית:',
+  'image.remove': 'הסר תמונה',
+  'image.willBeRemoved': 'התמונה תוסר',
+  'image.undoRemove': 'ביטול הסרה',
+  'image.hint': 'JPEG, PNG, WebP. גודל מקסימלי: 5MB.',
+  'image.error.type': 'סוג קובץ לא תקין. אנא בחר תמונה בפורמט JPEG, PNG או WebP.',
+  'image.error.size': 'גודל הקובץ עולה על 5MB.',
+  'image.error.read': 'נכשל בקריאת הקובץ לחישוב הבדיקה',
+  'image.error.upload': 'נכשל בהעלאת התמונה ל-S3',
+
+  'business.edit.title': 'עדכן פרטי עסק',
+  'business.edit.email': 'אימייל העסק',
+  'business.edit.delivery': 'משלוחים ללקוחות',
+  'business.edit.deliveryHint': 'כשפעיל, לקוחות יכולים לבחור משלוח במקום איסוף עצמי בעת ההזמנה.',
+  'business.edit.deliveryFee': 'דמי משלוח (₪)',
+  'business.edit.freeDeliveryThreshold': 'משלוח חינם מעל (₪)',
+  'business.edit.minimumOrderTotal': 'סכום הזמנה מינימלי (₪)',
+  'business.edit.none': 'ללא',
+  'business.edit.inventory': 'מעקב מלאי',
+  'business.edit.inventoryHint':
+    'כשפעיל, המלאי מנוהל לכל סניף בעמוד המוצרים, יורד אוטומטית כשהזמנה מסומנת כהושלמה, והחנות מציגה "אזל" / "נותרו רק".',
+  'business.edit.blockUnavailable': 'לא לאפשר הזמנה של כמות גדולה מהמלאי',
+  'business.edit.deliveryLocation': 'סניף שממנו יוצאים משלוחים',
+  'business.edit.noDeliveryLocation': 'ללא – משלוחים לא מורידים מלאי',
+  'business.edit.linkLifetime': 'תוקף ברירת מחדל לקישור הזמנה',
+  'business.edit.linkLifetimeHint': 'קישורים חדשים יפקעו בתום התקופה, אלא אם נבחר תוקף אחר ביצירת ההזמנה.',
+  'business.edit.image': 'תמונת העסק',
+  'business.edit.currentImageAlt': 'תמונת העסק הנוכחית',
+  'business.edit.previewImageAlt': 'תצוגה מקדימה של תמונת העסק',
+  'business.loading': 'טוען נתוני עסק...',
+  'business.loadError': 'שגיאה בטעינת נתוני העסק',
+  'business.notFound': 'לא נמצאו נתוני עסק',
+  'business.notFoundHint': 'לא נרשם עסק עבור חשבון זה',
+  'business.noImage': 'אין תמונה',
+  'business.subtitle': 'פרטי העסק',
+  'business.delivery': 'משלוחים',
+  'business.cartRules': 'כללי עגלה',
+  'business.orderLinks': 'קישורי הזמנה',
+  'business.registeredAt': 'תאריך רישום',
+  'business.updatedAt': 'תאריך עדכון אחרון',
+
+  'businessInfo.statsFor': 'סטטיסטיקות עבור {month}',
+  'businessInfo.orderLinks': 'הזמנות לסוכן',
+  'businessInfo.manager': 'מנהל',
+  'businessInfo.total': 'סה״כ',
+  'businessInfo.income': 'הכנסות',
+  'businessInfo.completedOrders': 'הזמנות שהושלמו',
+  'businessInfo.yearlyOverview': 'סקירה שנתית - {year}',
+  'businessInfo.chart.ordersTooltip': { one: '{month}: הזמנה אחת', other: '{month}: {count} הזמנות' },
+  'businessInfo.chart.revenue': 'הכנסה: {amount}',
+  'businessInfo.chart.orders': 'הזמנות: {count}',
+  'businessInfo.chart.revenueLegend': 'הכנסה',
+  'businessInfo.error.links': 'נכשל בטעינת קישורים שנוצרו',
+  'businessInfo.error.income': 'נכשל בטעינת הכנסה חודשית',
+  'businessInfo.error.completedOrders': 'נכשל בטעינת מספר הזמנות שהושלמו',
+  'businessInfo.error.yearly': 'נכשל בטעינת נתונים שנתיים',
+
+  'login.required': 'שדה חובה',
+  'login.rememberMe': 'זכור אותי',
+  'login.submit': 'התחבר',
+  'login.signingIn': 'מתחבר...',
+  'login.success': 'התחברות בוצעה בהצלחה',
+  'login.signInHere': 'התחבר כאן',
+  'login.backHome': '← חזרה לדף הבית',
+  'login.backHomeLabel': 'חזרה לדף הבית',
+  'login.error.emailRequired': 'אנא הזן את כתובת האימייל שלך',
+  'login.error.passwordRequired': 'אנא הזן את הסיסמה שלך',
+  'login.error.invalid': 'אימייל או סיסמה לא תקינים',
+  'login.manager.title': 'פורטל מנהל',
+  'login.manager.subtitle': 'התחבר לחשבון',
+  'login.manager.wantAccount': 'רוצה חשבון?',
+  'login.manager.contact': 'צור קשר',
+  'login.manager.contactLabel': 'צור קשר עם מנהל המערכת בטלפון {phone}',
+  'login.manager.adminPhone': 'טלפון מנהל מערכת: {phone}',
+  'login.manager.phoneCopied': 'מספר טלפון הועתק!',
+  'login.manager.isAgent': 'סוכן?',
+  'login.manager.agentLoginLabel': 'התחברות לסוכן',
+  'login.agent.title': 'פורטל סוכן',
+  'login.agent.subtitle': 'התחבר כדי לראות את המשימות שלך',
+  'login.agent.submitLabel': 'התחבר לחשבון סוכן',
+  'login.agent.backToManager': 'חזרה להתחברות מנהל?',
+  'login.agent.backToManagerLabel': 'חזרה להתחברות מנהל',
+
+  'skipLinks.main': 'דלג לתוכן הראשי',
+  'skipLinks.navigation': 'דלג לניווט',
+  'cookieConsent.title': 'שימוש בעוגיות',
+  'cookieConsent.description':
+    'אנו משתמשים בעוגיות כדי לשפר את החוויה שלך באתר. על ידי המשך השימוש באתר, אתה מסכים לשימוש בעוגיות בהתאם ל',
+  'cookieConsent.policyLink': 'מדיניות העוגיות שלנו',
+  'cookieConsent.reject': 'דחה',
+  'cookieConsent.rejectLabel': 'דחה עוגיות - דחיית כל העוגיות שאינן חיוניות',
+  'cookieConsent.accept': 'קבל',
+  'cookieConsent.acceptLabel': 'קבל עוגיות - קבלת כל סוגי העוגיות',
+
+  'a11y.open': 'פתח תפריט נגישות',
+  'a11y.menu': 'תפריט נגישות',
+  'a11y.close': 'סגור תפריט נגישות',
+  'a11y.title': 'הגדרות נגישות',
+  'a11y.fontSize': 'גודל גופן',
+  'a11y.fontSample': 'א',
+  'a11y.contrast': 'ניגודיות',
+  'a11y.spacing': 'מרווחים',
+  'a11y.level.small': 'קטן',
+  'a11y.level.normal': 'רגיל',
+  'a11y.level.large': 'גדול',
+  'a11y.level.extraLarge': 'גדול מאוד',
+  'a11y.level.high': 'גבוה',
+  'a11y.level.increased': 'מוגדל',
+  'a11y.announce.fontSize': 'גודל גופן שונה ל-{level}',
+  'a11y.announce.contrast': 'ניגודיות שונתה ל-{level}',
+  'a11y.announce.spacing': 'מרווחים שונו ל-{level}',
+  'a11y.announce.reset': 'הגדרות נגישות אופסו לברירת מחדל',
+  'a11y.reset': 'איפוס הגדרות',
+  'a11y.statement': 'הצהרת נגישות',
+  'a11y.reportIssue': 'דיווח על בעיית נגישות: {phone}',
+
+  'home.logoAlt': 'אורדרית - מערכת ניהול הזמנות',
+  'home.title': 'מערכת ניהול הזמנות',
+  'home.subtitle': 'ניהול עסק, לקוחות, מוצרים והזמנות',
+  'home.managerHint': 'התחבר לניהול העסק שלך',
+  'home.agentHint': 'התחבר לחשבון הסוכן',
+  'home.features.title': 'כל מה שצריך לניהול העסק שלך',
+  'home.features.subtitle': 'פתרון מקיף ומקצועי במקום אחד',
+  'home.dashboard.imageAlt': 'לוח בקרה - ניהול פרופיל ומידע אישי',
+  'home.dashboard.title': 'לוח בקרה מלא',
+  'home.dashboard.description': 'נהל את כל היבטי העסק שלך ממקום אחד - כל הכלים הנדרשים לניהול מקצועי',
+  'home.orders.imageAlt': 'ניהול הזמנות - יצירה, עריכה ומעקב',
+  'home.orders.title': 'ניהול הזמנות',
+  'home.orders.description': 'צור הזמנות חדשות, עקוב אחר סטטוסים, שתף קישורים עם לקוחות וצור חשבוניות',
+  'home.orders.create': 'יצירת הזמנות חדשות וניהול הזמנות קיימות',
+  'home.orders.statuses': 'מעקב אחר סטטוסים - ריק, הוזמן, הושלם, בוטל',
+  'home.orders.links': 'שיתוף קישורים עם לקוחות להשלמת הזמנות',
+  'home.orders.invoices': 'יצירת חשבוניות והנחות מותאמות אישית',
+  'home.catalog.imageAlt': 'ניהול מוצרים - קטלוג מלא עם תמונות ומחירים',
+  'home.catalog.title': 'קטלוג מוצרים',
+  'home.catalog.description': 'נהל את הקטלוג שלך, הוסף מוצרים חדשים, עדכן מחירים ומיין לפי קטגוריות',
+  'home.catalog.products': 'ניהול מוצרים - הוספה, עריכה ומחיקה',
+  'home.catalog.categories': 'קטגוריות ומותגים - ארגון מוצרים בצורה מסודרת',
+  'home.catalog.prices': 'מחירים מיוחדים - הנחות ללקוחות וסוכנים',
+  'home.catalog.images': 'תמונות מוצרים - ניהול גלריית תמונות לכל מוצר',
+  'home.contact.title': 'צור קשר',
+  'home.contact.subtitle': 'נשמח לעזור לך בכל שאלה',
+  'home.contact.callLabel': 'התקשר למספר {phone}',
+
+  'legal.lastUpdated': 'תאריך עדכון אחרון: {date}',
+  'legal.phone': 'טלפון:',
+  'legal.website': 'אתר:',
+  'legal.hours': "שעות פעילות: ימים א'-ה' 09:00-17:00",
+  'legal.backHome': 'חזרה לעמוד הראשי',
+  'legal.purpose': 'מטרה:',
+  'legal.validity': 'תוקף:',
+  'accessibilityStatement.intro.title': 'מבוא',
+  'accessibilityStatement.intro.law':
+    'מערכת ניהול ההזמנות מחויבת לספק שירות נגיש ושוויוני לכל המשתמשים, בהתאם לחוק שוויון זכויות לאנשים עם מוגבלות (התשנ"ח-1998) ולחוק התקנות לנגישות השירות (התשע"ג-2013).',
+  'accessibilityStatement.intro.wcag':
+    'האתר עומד בתקן WCAG 2.2 Level AA של ארגון ה-W3C, המהווה את התקן הבינלאומי לנגישות אתרים.',
+  'accessibilityStatement.features.title': 'תכונות נגישות',
+  'accessibilityStatement.features.intro': 'האתר כולל את התכונות הבאות לשיפור הנגישות:',
+  'accessibilityStatement.features.keyboard': 'ניווט מקלדת מלא - כל הפונקציונליות נגישה באמצעות מקלדת',
+  'accessibilityStatement.features.screenReaders': 'תמיכה בקוראי מסך - תמיכה מלאה ב-NVDA, JAWS, VoiceOver',
+  'accessibilityStatement.features.skipLinks': 'קישורי דילוג לתוכן - מאפשרים לדלג ישירות לתוכן הראשי או לניווט',
+  'accessibilityStatement.features.fontSize': 'התאמת גודל גופן - אפשרות להגדיל את הטקסט (קטן, רגיל, גדול, גדול מאוד)',
+  'accessibilityStatement.features.contrast': 'התאמת ניגודיות - אפשרות להגדיל את הניגודיות בין טקסט לרקע',
+  'accessibilityStatement.features.spacing': 'התאמת מרווחים - אפשרות להגדיל מרווחים בין אותיות, מילים ואלמנטים',
+  'accessibilityStatement.features.altText': 'תמונות עם טקסט חלופי - כל התמונות כוללות תיאור טקסטואלי',
+  'accessibilityStatement.features.tables': 'טבלאות נגישות - טבלאות עם כותרות, תיאורים ומבנה נכון',
+  'accessibilityStatement.features.forms': 'טפסים נגישים - כל השדות כוללים תוויות, הודעות שגיאה והוראות',
+  'accessibilityStatement.features.modals': 'מודלים נגישים - חלונות מודליים עם לכידת מוקד וניווט מקלדת',
+  'accessibilityStatement.standards.title': 'תאימות לתקנים',
+  'accessibilityStatement.standards.intro': 'האתר עומד בדרישות הבאות:',
+  'accessibilityStatement.standards.wcag': 'תקן נגישות אתרים בינלאומי',
+  'accessibilityStatement.standards.israeliStandard': 'תקן ישראלי 5568',
+  'accessibilityStatement.standards.israeliStandardDescription': 'הנחיות לנגישות תוכן באינטרנט',
+  'accessibilityStatement.standards.law': 'חוק שוויון זכויות לאנשים עם מוגבלות',
+  'accessibilityStatement.standards.lawYear': 'התשנ"ח-1998',
+  'accessibilityStatement.standards.regulations': 'תקנות נגישות השירות',
+  'accessibilityStatement.standards.regulationsYear': 'התשע"ג-2013',
+  'accessibilityStatement.knownIssues.title': 'בעיות ידועות',
+  'accessibilityStatement.knownIssues.text':
+    'נכון לתאריך עדכון זה, לא זוהו בעיות נגישות משמעותיות באתר. במידה ותגלו בעיה, אנא צרו קשר באמצעות הפרטים למטה.',
+  'accessibilityStatement.contact.title': 'דיווח על בעיות נגישות',
+  'accessibilityStatement.contact.text': 'אם נתקלתם בבעיית נגישות באתר, או שיש לכם הצעות לשיפור, אנא צרו קשר עמנו:',
+  'accessibilityStatement.contact.response': 'נשתדל להגיב לכל פנייה תוך 5 ימי עסקים.',
+  'accessibilityStatement.enforcement.title': 'הליך אכיפה',
+  'accessibilityStatement.enforcement.intro': 'במידה שלא קיבלתם תשובה מספקת, ניתן לפנות ל:',
+  'accessibilityStatement.enforcement.commission': 'נציבות שוויון זכויות לאנשים עם מוגבלות',
+  'accessibilityStatement.widget.title': "ווידג'ט נגישות",
+  'accessibilityStatement.widget.intro': "האתר כולל ווידג'ט נגישות המאפשר התאמה אישית של:",
+  'accessibilityStatement.widget.fontSize': 'גודל גופן (קטן, רגיל, גדול, גדול מאוד)',
+  'accessibilityStatement.widget.contrast': 'רמת ניגודיות (רגיל, גבוה)',
+  'accessibilityStatement.widget.spacing': 'מרווחים (רגיל, מוגדל)',
+  'accessibilityStatement.widget.location':
+    "הווידג'ט נמצא בפינה השמאלית התחתונה של המסך. ניתן גם לפתוח אותו באמצעות קיצור המקלדת: Alt + A (או Option + A ב-Mac).",
+  'cookiesPolicy.title': 'מדיניות עוגיות',
+  'cookiesPolicy.what.title': 'מה הן עוגיות?',
+  'cookiesPolicy.what.text':
+    'עוגיות (Cookies) הן קבצי טקסט קטנים המאוחסנים במכשיר שלכם (מחשב, טלפון, טאבלט) כאשר אתם מבקרים באתרים. העוגיות מאפשרות לאתר לזכור את ההעדפות שלכם ולשפר את חוויית השימוש.',
+  'cookiesPolicy.types.title': 'סוגי עוגיות שאנו משתמשים',
+  'cookiesPolicy.essential.title': 'עוגיות הכרחיות',
+  'cookiesPolicy.essential.text':
+    'עוגיות אלה הכרחיות לפעולת האתר ואי אפשר להפעיל את האתר בלעדיהן. הן מוגדרות בדרך כלל כתגובה לפעולות שביצעתם, כגון הגדרת העדפות פרטיות, התחברות או מילוי טפסים.',
+  'cookiesPolicy.essential.purpose': 'שמירת העדפות נגישות, שמירת מצב התחברות, שמירת עגלת קניות',
+  'cookiesPolicy.essential.validity': 'עד שנה או עד מחיקה ידנית',
+  'cookiesPolicy.performance.title': 'עוגיות ביצועים',
+  'cookiesPolicy.performance.text':
+    'עוגיות אלה מאפשרות לנו לספור ביקורים ולזהות מקורות תנועה כדי לשפר את ביצועי האתר. הן עוזרות לנו לדעת אילו דפים הכי פופולריים ואילו הכי פחות, ולראות איך משתמשים נעים באתר.',
+  'cookiesPolicy.performance.purpose': 'שיפור ביצועי האתר, הבנת דפוסי שימוש',
+  'cookiesPolicy.functional.title': 'עוגיות פונקציונליות',
+  'cookiesPolicy.functional.text':
+    'עוגיות אלה מאפשרות לאתר לספק פונקציונליות ושירותים משופרים. אם לא תאפשרו עוגיות אלה, חלק מהשירותים עשויים לא לעבוד.',
+  'cookiesPolicy.functional.purpose': 'שמירת העדפות משתמש, שמירת הגדרות נגישות',
+  'cookiesPolicy.validity.year': 'עד שנה',
+  'cookiesPolicy.usage.title': 'איך אנו משתמשים בעוגיות',
+  'cookiesPolicy.usage.accessibility': 'לשמירת העדפות נגישות (גודל גופן, ניגודיות, מרווחים)',
+  'cookiesPolicy.usage.session': 'לשמירת מצב התחברות',
+  'cookiesPolicy.usage.cart': 'לשמירת עגלת קניות',
+  'cookiesPolicy.usage.performance': 'לשיפור ביצועי האתר',
+  'cookiesPolicy.usage.analytics': 'להבנת דפוסי שימוש',
+  'cookiesPolicy.manage.title': 'ניהול עוגיות',
+  'cookiesPolicy.manage.intro': 'אתם יכולים לשלוט ולנהל עוגיות בדרכים הבאות:',
+  'cookiesPolicy.manage.browser': 'הגדרות דפדפן:',
+  'cookiesPolicy.manage.browserText':
+    'רוב הדפדפנים מאפשרים לכם לשלוט בעוגיות דרך תפריט ההגדרות. תוכלו למחוק עוגיות קיימות או למנוע את קבלתן.',
+  'cookiesPolicy.manage.widget': "ווידג'ט נגישות:",
+  'cookiesPolicy.manage.widgetText': "תוכלו לנהל את העוגיות דרך הווידג'ט הנגישות באתר (פינה שמאלית תחתונה).",
+  'cookiesPolicy.manage.manual': 'מחיקה ידנית:',
+  'cookiesPolicy.manage.manualText': 'תוכלו למחוק עוגיות בכל עת דרך הגדרות הדפדפן.',
+  'cookiesPolicy.manage.note': 'שימו לב:',
+  'cookiesPolicy.manage.noteText':
+    'מחיקת עוגיות עשויה להשפיע על תפקוד האתר. לדוגמה, ייתכן שתצטרכו להתחבר מחדש או שהעדפות הנגישות שלכם יאבדו.',
+  'cookiesPolicy.thirdParty.title': 'עוגיות של צדדים שלישיים',
+  'cookiesPolicy.thirdParty.text':
+    'כרגע, האתר שלנו לא משתמש בעוגיות של צדדים שלישיים. במידה ונוסיף שירותים של צדדים שלישיים בעתיד, נעדכן מדיניות זו בהתאם.',
+  'cookiesPolicy.updates.title': 'עדכונים למדיניות',
+  'cookiesPolicy.updates.text':
+    'אנו עשויים לעדכן מדיניות זו מעת לעת. כל שינוי יפורסם בדף זה עם תאריך העדכון. מומלץ לבדוק דף זה מדי פעם כדי להישאר מעודכנים.',
+  'cookiesPolicy.contact.title': 'יצירת קשר',
+  'cookiesPolicy.contact.text': 'אם יש לכם שאלות לגבי מדיניות העוגיות שלנו, אנא צרו קשר:',
+
+  'locations.title': 'סניפים',
+  'locations.subtitle': 'נהל את סניפי העסק שלך',
+  'locations.loading': 'טוען סניפים...',
+  'locations.loadError': 'שגיאה בטעינת הסניפים',
+  'locations.add': 'הוסף סניף',
+  'locations.empty': 'אין סניפים עדיין',
+  'locations.emptyHint': 'התחל בהוספת סניף העסק הראשון שלך',
+  'locations.addFirst': 'הוסף את הסניף הראשון שלך',
+  'locations.pickupWindows': { one: 'מועדי איסוף: חלון שבועי אחד', other: 'מועדי איסוף: {count} חלונות שבועיים' },
+  'locations.pickupAnyTime': 'איסוף בכל שעה',
+  'locations.pickupTimes': 'מועדי איסוף',
+  'locations.edit': 'ערוך סניף',
+  'locations.delete': 'מחק סניף',
+  'locations.deleteConfirm': 'האם אתה בטוח שברצונך למחוק את {name}? פעולה זו לא ניתנת לביטול.',
+  'locations.deleteWarning': 'כל ההזמנות, המוצרים והלקוחות המשויכים לסניף זה לא יהיו עוד מקושרים אליו.',
+  'locations.error.lastLocation': 'חייב להיות לפחות סניף אחד. לא ניתן למחוק את הסניף האחרון.',
+  'locationForm.addTitle': 'הוסף סניף חדש',
+  'locationForm.namePlaceholder': 'לדוגמה: סניף ראשי, סניף מרכז',
+  'locationForm.create': 'צור סניף',
+
+  'list.pageSize': 'הצג:',
+  'list.page': 'דף',
+  'list.sortBy': 'מיין:',
+  'list.sort.ascending': 'א ← ת',
+  'list.sort.descending': 'א → ת',
+  'list.filter.agent': 'סוכן:',
+  'list.filter.all': 'הכל',
+  'list.me': 'אני',
+  'list.unknownAgent': 'סוכן לא ידוע',
+  'list.clearSearch': 'נקה חיפוש',
+
+  'customers.title': 'לקוחות',
+  'customers.subtitle': {
+    one: 'נהל לקוח אחד ברחבי צוות המכירות שלך.',
+    other: 'נהל {count} לקוחות ברחבי צוות המכירות שלך.',
+  },
+  'customers.loading': 'טוען לקוחות...',
+  'customers.loadError': 'שגיאה בטעינת לקוחות',
+  'customers.normalizeAddresses': 'תיקון כתובות',
+  'customers.add': 'הוסף לקוח',
+  'customers.sortAscending': 'מיין לקוחות בסדר עולה',
+  'customers.sortDescending': 'מיין לקוחות בסדר יורד',
+  'customers.searchPlaceholder': 'חפש לקוחות לפי שם, אימייל, טלפון או סוכן...',
+  'customers.empty.filtered': 'אין לקוחות התואמים למסננים שלך',
+  'customers.empty.filteredHint': 'נסה להתאים את מילות החיפוש או לאפס את המסננים.',
+  'customers.empty.none': 'אין לקוחות עדיין',
+  'customers.empty.noneHint': 'עדיין לא הוספת לקוחות. התחל ביצירת הלקוח הראשון שלך.',
+  'customers.table.label': 'טבלת לקוחות',
+  'customers.table.caption': 'טבלת לקוחות עם פרטי שם, אימייל, טלפון, עיר, סוכן, אחוז הנחה ופעולות',
+  'customers.column.name': 'שם',
+  'customers.column.email': 'אימייל',
+  'customers.column.phone': 'טלפון',
+  'customers.column.city': 'עיר',
+  'customers.column.address': 'כתובת',
+  'customers.column.agent': 'סוכן',
+  'customers.column.discount': 'אחוז הנחה',
+  'customers.column.actions': 'פעולות',
+  'customers.actionsFor': 'פעולות עבור לקוח {name}',
+  'customers.editNamed': 'ערוך לקוח {name}',
+  'customers.deleteNamed': 'מחק לקוח {name}',
+
+  'customerForm.addTitle': 'הוסף לקוח חדש',
+  'customerForm.editTitle': 'ערוך לקוח',
+  'customerForm.editDescription': 'עדכן פרטי קשר עבור {name}',
+  'customerForm.email': 'כתובת אימייל',
+  'customerForm.namePlaceholder': 'לדוגמה: יוחנן כהן',
+  'customerForm.phonePlaceholder': 'לדוגמה: 0501234567',
+  'customerForm.emailPlaceholder': 'לדוגמה: yohanan@example.com',
+  'customerForm.streetPlaceholder': 'לדוגמה: רחוב הרצל 123',
+  'customerForm.cityPlaceholder': 'לדוגמה: תל אביב',
+  'customerForm.stateIdHint': 'הזן בדיוק 9 ספרות',
+  'customerForm.create': 'צור לקוח',
+  'customerForm.update': 'עדכן לקוח',
+
+  'customerDelete.title': 'מחק לקוח',
+  'customerDelete.about': 'אתה עומד למחוק את הלקוח:',
+  'customerDelete.warning': '⚠️ פעולה זו לא ניתנת לביטול. כל ההזמנות ומחירים מיוחדים עבור לקוח זה יושפעו.',
+  'customerDelete.prompt': 'הקלד "{phrase}" כדי לאשר מחיקה:',
+  'customerDelete.phrase': 'אני מבין',
+  'customerDelete.confirmNamed': 'האם אתה בטוח שברצונך למחוק את {name}?',
+  'customerDelete.thisCustomer': 'הלקוח הזה',
+  'customerDelete.agentWarning': 'פעולה זו אינה ניתנת לביטול. הנתונים שלו וכל המחירים המיוחדים הקשורים יוסרו לצמיתות.',
+
+  'customerDetail.missingId': 'מזהה לקוח חסר.',
+  'customerDetail.error.notFound': 'הלקוח לא נמצא או שאין הרשאה',
+  'customerDetail.error.load': 'שגיאה בטעינת הלקוח',
+  'customerDetail.backToList': 'חזרה לרשימת הלקוחות',
+  'customerDetail.back': 'חזרה ללקוחות',
+  'customerDetail.email': 'אימייל:',
+  'customerDetail.phone': 'טלפון:',
+  'customerDetail.city': 'עיר:',
+  'customerDetail.discount': 'אחוז הנחה:',
+  'customerDetail.newLink.title': 'קישור להזמנה חדשה',
+  'customerDetail.newLink.creating': 'יוצר הזמנה',
+  'customerDetail.newLink.created': 'הזמנה נוצרה ✓ הועתק!',
+  'customerDetail.newLink.createAnother': 'צור קישור חדש',
+  'customerDetail.newLink.create': 'צור קישור להזמנה חדשה',
+  'customerDetail.orders.title': 'הזמנות של הלקוח',
+  'customerDetail.orders.empty': 'אין הזמנות ללקוח זה.',
+  'customerDetail.orders.tableLabel': 'הזמנות הלקוח',
+  'customerDetail.orders.column.status': 'סטטוס',
+  'customerDetail.orders.column.source': 'מקור',
+  'customerDetail.orders.column.createdAt': 'תאריך יצירה',
+  'customerDetail.orders.column.total': 'סה״כ',
+  'customerDetail.orders.column.actions': 'פעולות',
+  'customerDetail.orders.discount': '({amount} הנחה)',
+  'customerDetail.orders.discountLabel': 'הנחה {amount}',
+  'customerDetail.orders.credited': '({amount} זיכוי)',
+  'customerDetail.orders.creditedLabel': 'זיכוי {amount}',
+  'customerDetail.orders.viewInvoice': 'צפה בחשבונית',
+  'customerDetail.orders.createInvoice': 'צור חשבונית',
+  'customerDetail.updateDiscount': 'עדכן הנחה',
+  'customerDetail.overrides.title': 'מחירים מיוחדים ללקוח',
+  'customerDetail.overrides.subtitle': 'מחירים מותאמים למוצרים עבור לקוח זה',
+  'customerDetail.overrides.empty': 'אין מחירים מיוחדים מוגדרים ללקוח זה.',
+
+  'override.add': 'הוסף מחיר מיוחד',
+  'override.create': 'צור מחיר מיוחד',
+  'override.editTitle': 'עריכת מחיר מיוחד',
+  'override.editLabel': 'ערוך מחיר מיוחד',
+  'override.delete': 'מחק מחיר מיוחד',
+  'override.deleteConfirm': 'האם אתה בטוח שברצונך למחוק את המחיר המיוחד הזה?',
+  'override.column.agent': 'סוכן',
+  'override.column.product': 'מוצר',
+  'override.column.minimumPrice': 'מחיר מינימלי',
+  'override.column.overridePrice': 'מחיר מותאם',
+  'override.column.actions': 'פעולות',
+  'override.customer': 'הלקוח:',
+  'override.product': 'מוצר',
+  'override.productLabel': 'מוצר:',
+  'override.originalPrice': 'מחיר מקורי:',
+  'override.overridePriceLabel': 'מחיר מותאם:',
+  'override.minimumPrice': 'מחיר מינימלי: {price}',
+  'override.basePrice': 'מחיר בסיס: {price}',
+  'override.price': 'מחיר מותאם',
+  'override.newPrice': 'מחיר מותאם חדש',
+  'override.searchProducts': 'חפש מוצרים...',
+  'override.searchProductsLabel': 'חפש מוצרים',
+  'override.noProducts': 'לא נמצאו מוצרים',
+  'override.loadingProducts': 'טוען מוצרים...',
+  'override.noProductsToShow': 'אין מוצרים להצגה',
+  'override.error.productRequired': 'נדרש לבחור מוצר',
+  'override.error.priceRequired': 'נדרש להזין מחיר מותאם',
+  'override.error.priceInvalid': 'מחיר מותאם חייב להיות מספר חיובי תקין',
+  'override.error.priceMax': 'מחיר מותאם לא יכול לעלות על {max}',
+  'override.error.priceDecimals': 'מחיר מותאם יכול לכלול עד 2 ספרות אחרי הנקודה',
+  'override.error.load': 'נכשל בטעינת התאמות המחיר',
+  'override.error.update': 'עדכון נכשל',
+  'override.error.delete': 'מחיקה נכשלה',
+  'override.error.create': 'יצירה נכשלה',
+  'override.column.customer': 'לקוח',
+  'override.customerField': 'לקוח',
+  'override.customerLabel': 'לקוח:',
+  'override.selectCustomer': 'בחר לקוח',
+  'override.appliesTo': 'חל על',
+  'override.allVariants': 'כל הווריאציות',
+  'override.variantHint': 'מחיר לווריאציה מסוימת גובר על מחיר לכל המוצר.',
+  'override.update': 'עדכן מחיר מיוחד',
+  'override.error.customerRequired': 'נדרש לבחור לקוח',
+
+  'overrides.title': 'מחירים מיוחדים',
+  'overrides.subtitle': 'נהל מחירים מותאמים אישית ללקוחות',
+  'overrides.note': 'מחירים מיוחדים מחושבים לפני הנחת האחוזים של הלקוח.',
+  'overrides.loading': 'טוען מחירים מיוחדים...',
+  'overrides.empty.filtered': 'לא נמצאו מחירים מיוחדים תואמים',
+  'overrides.empty.filteredHint': 'לא נמצאו מחירים מיוחדים עבור המסננים שנבחרו.',
+  'overrides.clearFilter': 'נקה מסנן',
+  'overrides.empty.none': 'אין מחירים מיוחדים עדיין',
+  'overrides.empty.noneHint':
+    'עדיין לא הגדרת מחירים מותאמים אישית ללקוחות שלך. לחץ על הכפתור למטה כדי ליצור את המחיר המיוחד הראשון שלך.',
+  'overrides.addFirst': 'הוסף את המחיר המיוחד הראשון שלך',
+  'overrides.table.label': 'טבלת מחירים מיוחדים',
+  'overrides.table.caption': 'טבלת מחירים מיוחדים עם פרטי לקוח, סוכן, מוצר, מחיר מינימלי, מחיר מותאם ופעולות',
+  'overrides.actionsFor': 'פעולות עבור מחיר מיוחד עבור {customer}',
+  'overrides.editNamed': 'ערוך מחיר מיוחד עבור {customer} - {target}',
+  'overrides.deleteNamed': 'מחק מחיר מיוחד עבור {customer} - {target}',
+
+  'agentOverrides.title': 'המחירים המיוחדים שלי',
+  'agentOverrides.subtitle': 'התאם מחירים ללקוחות שלך',
+  'agentOverrides.empty.noneHint':
+    'עדיין לא הגדרת מחירים מותאמים אישית ללקוחות שלך. לחץ על הכפתור למעלה כדי ליצור את המחיר המיוחד הראשון שלך.',
+  'agentOverrides.table.caption': 'טבלת מחירים מיוחדים עם פרטי לקוח, מוצר, מחיר מינימלי, מחיר מותאם ופעולות',
+  'agentOverrides.basePrice': 'מחיר בסיס',
+  'agentOverrides.minimumPriceLabel': 'מחיר מינימלי:',
+  'agentOverrides.basePriceLabel': 'מחיר בסיס:',
+  'agentOverrides.save': 'שמור מחיר מיוחד',
+  'agentOverrides.deleteConfirm': 'האם אתה בטוח שברצונך למחוק את המחיר המיוחד עבור {customer}?',
+
+  'documents.title': 'דוחות ומסמכים',
+  'documents.subtitle': 'בחר טווח תאריכים, חפש חשבוניות, או ייצא לקובץ מסודר עם קישורים וסיכום.',
+  'documents.fromDate': 'מתאריך:',
+  'documents.toDate': 'עד תאריך:',
+  'documents.customerFilter': 'סינון לפי לקוח',
+  'documents.customerFilterLabel': 'סינון לקוח',
+  'documents.clearCustomer': 'נקה בחירת לקוח',
+  'documents.clearSelection': 'נקה בחירה',
+  'documents.allCustomers': 'כל הלקוחות',
+  'documents.specificCustomer': 'לקוח מסוים',
+  'documents.searchPlaceholder': 'הקלד לחיפוש…',
+  'documents.searchCustomer': 'חיפוש לקוח',
+  'documents.noCustomers': 'לא נמצאו לקוחות התואמים לחיפוש. נסה טקסט אחר.',
+  'documents.searching': 'מחפש...',
+  'documents.search': 'חפש',
+  'documents.downloading': 'מוריד...',
+  'documents.export': 'ייצא לקובץ',
+  'documents.empty': 'אין תוצאות להצגה.',
+  'documents.table.label': 'תוצאות חיפוש חשבוניות',
+  'documents.column.number': 'מס׳ חשבונית',
+  'documents.column.type': 'סוג',
+  'documents.column.orderId': 'מזהה הזמנה',
+  'documents.column.date': 'תאריך',
+  'documents.column.amount': 'סכום הזמנה',
+  'documents.column.actions': 'פעולות',
+  'documents.viewDocument': 'הצג מסמך',
+  'documents.fileName': 'חשבוניות_{from}_{to}.xlsx',
+  'documents.error.download': 'נכשל בהורדת הקובץ. נסה שוב.',
+  'documents.error.customerRequired': 'נא לבחור לקוח מהרשימה (או לעבור ל״כל הלקוחות״).',
+  'documents.error.search': 'נכשל בחיפוש חשבוניות. נסה שוב.',
+
+  'agentCustomers.title': 'הלקוחות שלך',
+  'agentCustomers.subtitle': { one: 'נהל את הלקוח שלך.', other: 'נהל את {count} הלקוחות שלך.' },
+  'agentCustomers.searchPlaceholder': 'חפש לקוחות לפי שם, אימייל, טלפון או עיר...',
+  'agentCustomers.loadError': 'לא ניתן לטעון לקוחות',
+  'agentCustomers.empty': 'לא נמצאו לקוחות',
+  'agentCustomers.empty.filteredHint': 'אין לקוחות התואמים לחיפוש שלך. נסה לשנות את מילות המפתח.',
+  'agentCustomers.empty.noneHint': 'עדיין לא הוספת לקוחות. צור את הלקוח הראשון שלך כדי להתחיל.',
+
+  'agents.title': 'הסוכנים שלך',
+  'agents.subtitle': 'עקוב אחר הסוכנים הפעילים שלך ודאג שפרטי הקשר שלהם מעודכנים.',
+  'agents.add': 'הוסף סוכן',
+  'agents.sortAscending': 'מיין סוכנים בסדר עולה',
+  'agents.sortDescending': 'מיין סוכנים בסדר יורד',
+  'agents.searchPlaceholder': 'חפש סוכנים...',
+  'agents.loading': 'טוען סוכנים...',
+  'agents.table.label': 'טבלת סוכנים',
+  'agents.table.caption': 'טבלת סוכנים עם פרטי שם, אימייל, טלפון, מיקום, תאריך הוספה ופעולות',
+  'agents.column.name': 'שם',
+  'agents.column.email': 'אימייל',
+  'agents.column.phone': 'טלפון',
+  'agents.column.location': 'מיקום',
+  'agents.column.added': 'נוסף',
+  'agents.column.actions': 'פעולות',
+  'agents.empty': 'אין סוכנים התואמים למסננים הנוכחיים שלך.',
+  'agents.actionsFor': 'פעולות עבור סוכן {name}',
+  'agents.editNamed': 'ערוך סוכן {name}',
+  'agents.deleteNamed': 'מחק סוכן {name}',
+  'agentForm.addTitle': 'הוסף סוכן חדש',
+  'agentForm.editTitle': 'ערוך סוכן',
+  'agentForm.editDescription': 'עדכן פרטי קשר עבור {name}',
+  'agentForm.firstNamePlaceholder': 'לדוגמה: יוחנן',
+  'agentForm.lastNamePlaceholder': 'לדוגמה: כהן',
+  'agentForm.emailPlaceholder': 'לדוגמה: agent@example.com',
+  'agentForm.tempPassword': 'סיסמה זמנית',
+  'agentForm.passwordPlaceholder': 'סיסמה ראשונית לגישה',
+  'agentForm.error.emailExists': 'כבר קיים סוכן עם כתובת אימייל זו',
+  'agentForm.error.limit': 'הגעת למגבלת מספר הסוכנים',
+  'agentDelete.title': 'מחק סוכן',
+  'agentDelete.confirmNamed': 'האם אתה בטוח שברצונך למחוק את {name}?',
+  'agentDelete.thisAgent': 'הסוכן הזה',
+  'agentDelete.warning': 'פעולה זו לא ניתנת לביטול. כל הלקוחות של הסוכן יימחקו לצמיתות יחד איתו.',
+
+  'profile.greeting': 'שלום {name}!',
+  'profile.greetingAnonymous': 'שלום',
+  'profile.subtitle': 'פרטים אישיים ומידע על החשבון שלך',
+  'profile.edit': 'ערוך פרטים אישיים',
+  'profile.loading': 'טוען פרופיל...',
+  'profile.loadingOwn': 'טוען את הפרופיל שלך...',
+  'profile.loadError': 'שגיאה בטעינת הפרופיל',
+  'profile.accountCreated': 'תאריך יצירת חשבון',
+  'profile.security': 'הגדרות אבטחה',
+  'profile.passwordHint': 'עדכן את הסיסמה שלך',
+  'profile.changePassword': 'שנה סיסמה',
+  'profile.agentMissing': 'אין מידע על הסוכן זמין.',
+  'passwordForm.newPassword': 'סיסמה חדשה',
+  'passwordForm.confirmNewPassword': 'אמת סיסמה חדשה',
+  'passwordForm.currentPlaceholder': 'הזן סיסמה נוכחית',
+  'passwordForm.newPlaceholder': 'הזן סיסמה חדשה',
+  'passwordForm.requirements': 'חייבת להכיל אותיות גדולות, אותיות קטנות, מספרים ותווים מיוחדים',
+  'passwordForm.submit': 'עדכן סיסמה',
+
+  'productCode.error.skuLength': 'מק״ט יכול להכיל עד {max} תווים',
+  'productCode.error.skuPattern': 'מק״ט יכול להכיל אותיות באנגלית, ספרות ו- . _ - /',
+  'productCode.error.barcodeLength': 'ברקוד יכול להכיל עד {max} תווים',
+  'productCode.error.barcodePattern': 'ברקוד יכול להכיל אותיות באנגלית, ספרות, - ו-.',
+  'productCode.error.inUse': 'הקוד כבר משמש את {name}',
+
+  'products.title': 'מוצרים',
+  'products.subtitle': { one: 'קטלוג המוצרים שלך (מוצר אחד)', other: 'קטלוג המוצרים שלך ({count} מוצרים)' },
+  'products.loading': 'טוען מוצרים...',
+  'products.loadError': 'שגיאה בטעינת מוצרים',
+  'products.showAll': 'הצג את כל המוצרים',
+  'products.lowStockCount': { one: 'מוצר אחד במלאי נמוך', other: '{count} מוצרים במלאי נמוך' },
+  'products.add': 'הוסף מוצר',
+  'products.filter.category': 'קטגוריה:',
+  'products.filter.brand': 'מותג:',
+  'products.sortBy': 'מיין לפי:',
+  'products.sort.name': 'שם',
+  'products.sort.price': 'מחיר',
+  'products.empty.filtered': 'אין מוצרים התואמים את המסננים',
+  'products.empty.filteredHint': 'אין מוצרים התואמים את המסננים שנבחרו.',
+  'products.empty.none': 'אין מוצרים עדיין',
+  'products.empty.noneHint': 'עדיין לא הוספת מוצרים לקטלוג שלך.',
+  'products.addFirst': 'הוסף את המוצר הראשון שלך',
+  'products.edit': 'ערוך מוצר',
+  'products.delete': 'מחק מוצר',
+  'products.priceTierCount': { one: 'מדרגת מחיר אחת', other: '{count} מדרגות מחיר' },
+  'products.minimumPrice': 'מינימום {price}',
+  'products.manageStock': 'ניהול מלאי',
+  'products.stock': 'מלאי: {quantity}',
+  'products.stock.out': 'אזל',
+  'products.stock.low': 'מלאי נמוך',
+  'products.deleteConfirm': 'האם אתה בטוח שברצונך למחוק את {name}? פעולה זו לא ניתנת לביטול.',
+  'products.deleteWarning': 'מוצר זה יוסר מהקטלוג שלך. נתונים היסטוריים יישמרו במערכת.',
+  'agentProducts.subtitle': {
+    one: 'מציג {shown} מתוך מוצר אחד זמין עבורך.',
+    other: 'מציג {shown} מתוך {count} מוצרים זמינים עבורך.',
+  },
+  'agentProducts.searchPlaceholder': 'חפש לפי שם, תיאור, מותג, מק״ט או ברקוד...',
+  'agentProducts.empty': 'אין מוצרים התואמים למסננים שלך',
+  'agentProducts.emptyHint': 'נסה להתאים את המסננים שלך או לנקות את החיפוש כדי לראות עוד מוצרים.',
+  'agentProducts.clearFilters': 'נקה מסננים',
+
+  'productForm.addTitle': 'הוסף מוצר חדש',
+  'productForm.editTitle': 'ערוך מוצר',
+  'productForm.name': 'שם המוצר',
+  'productForm.namePlaceholder': 'לדוגמה: פולי קפה פרמיום',
+  'productForm.category': 'קטגוריה',
+  'productForm.brand': 'מותג',
+  'productForm.none': 'ללא',
+  'productForm.sku': 'מק״ט',
+  'productForm.barcode': 'ברקוד',
+  'productForm.minimumPrice': 'מחיר מינימלי',
+  'productForm.price': 'מחיר',
+  'productForm.description': 'תיאור',
+  'productForm.descriptionPlaceholder': 'תיאור המוצר (אופציונלי)',
+  'productForm.images': 'תמונות',
+  'productForm.imagesHint': '(עד 5, אופציונלי)',
+  'productForm.imagesTotalHint': '(עד 5 סה״כ)',
+  'productForm.existingImages': 'תמונות קיימות:',
+  'productForm.imagesToDelete': 'תמונות למחיקה ({count}):',
+  'productForm.newImages': 'תמונות חדשות להוספה:',
+  'productForm.maxImagesReached': 'הושג מקסימום 5 תמונות',
+  'productForm.dropImages': 'שחרר תמונות כאן',
+  'productForm.chooseImages': 'בחר תמונות או גרור ושחרר ({count}/5)',
+  'productForm.addMoreImages': 'הוסף עוד תמונות או גרור ושחרר ({count}/5)',
+  'productForm.imageOrder': 'סדר התמונות לפי השמות שלהם',
+  'productForm.imageHint': 'JPEG, PNG, WebP. גודל מקסימלי: 5MB לכל תמונה.',
+  'productForm.deleteImage': 'מחק תמונה',
+  'productForm.undoDelete': 'בטל מחיקה',
+  'productForm.previewAlt': 'תצוגה מקדימה של תמונת המוצר {name} - תמונה {number}',
+  'productForm.previewAltUnnamed': 'תצוגה מקדימה של תמונת מוצר - תמונה {number}',
+  'productForm.newPreviewAlt': 'תצוגה מקדימה של תמונת המוצר {name} - תמונה חדשה {number}',
+  'productForm.newPreviewAltUnnamed': 'תצוגה מקדימה של תמונת מוצר - תמונה חדשה {number}',
+  'productForm.imageAlt': 'תמונת המוצר {name} - {file}',
+  'productForm.imageAltUnnamed': 'תמונת מוצר - {file}',
+  'productForm.deletedImageAlt': 'תמונת המוצר {name} למחיקה - {file}',
+  'productForm.deletedImageAltUnnamed': 'תמונת מוצר למחיקה - {file}',
+  'productForm.create': 'צור מוצר',
+  'productForm.update': 'עדכן מוצר',
+  'productForm.error.nameRequired': 'שם המוצר נדרש',
+  'productForm.error.minimumPriceRequired': 'מחיר מינימלי נדרש',
+  'productForm.error.minimumPricePositive': 'מחיר מינימלי חייב להיות מספר חיובי',
+  'productForm.error.minimumPriceMax': 'מחיר מינימלי אינו יכול לעלות על {max}',
+  'productForm.error.priceRequired': 'מחיר נדרש',
+  'productForm.error.pricePositive': 'מחיר חייב להיות מספר חיובי',
+  'productForm.error.priceMax': 'מחיר אינו יכול לעלות על {max}',
+  'productForm.error.priceBelowMinimum': 'מחיר אינו יכול להיות נמוך ממחיר מינימלי',
+  'productForm.error.tooManyImages': 'ניתן להעלות עד 5 תמונות לכל מוצר',
+  'productForm.error.tooManySelected': {
+    one: 'ניתן להעלות עד 5 תמונות. כבר נבחרה תמונה אחת.',
+    other: 'ניתן להעלות עד 5 תמונות. כבר נבחרו {count} תמונות.',
+  },
+  'productForm.error.tooManyAdded': 'ניתן להעלות עד 5 תמונות. כרגע: {current}, מנסים להוסיף: {adding}',
+  'productForm.error.imageType': '{name}: סוג קובץ לא תקין. מותרים JPEG, PNG או WebP בלבד.',
+  'productForm.error.imageSize': '{name}: גודל הקובץ חורג מ-5MB.',
+  'productForm.error.imageUpload': 'נכשל בהעלאת התמונה {name} ל-S3',
+
+  'category.error.exists': 'הקטגוריה כבר קיימת',
+  'category.error.notFound': 'הקטגוריה לא נמצאה',
+  'category.error.limit': 'הוגדר מכסה מקסימלית של קטגוריות',
+  'categories.title': 'קטגוריות',
+  'categories.subtitle': {
+    one: 'צפה ונהל את קטגוריות המוצרים שלך (קטגוריה אחת)',
+    other: 'צפה ונהל את קטגוריות המוצרים שלך ({count} סה״כ)',
+  },
+  'categories.loading': 'טוען קטגוריות...',
+  'categories.loadError': 'שגיאה בטעינת קטגוריות',
+  'categories.add': 'הוסף קטגוריה',
+  'categories.empty.none': 'אין קטגוריות עדיין',
+  'categories.empty.noneHint': 'עדיין לא יצרת קטגוריות. קטגוריות עוזרות לארגן את המוצרים שלך.',
+  'categories.addFirst': 'הוסף את הקטגוריה הראשונה שלך',
+  'categories.sortAscending': 'מיין קטגוריות בסדר עולה',
+  'categories.sortDescending': 'מיין קטגוריות בסדר יורד',
+  'categories.searchPlaceholder': 'חפש קטגוריות...',
+  'categories.empty.filtered': 'לא נמצאו קטגוריות',
+  'categories.empty.filteredHint': 'נסה לשנות את החיפוש או לנקות את המסננים כדי לראות את כל הקטגוריות.',
+  'categories.productCount': { one: '{count} מוצר', other: '{count} מוצרים' },
+  'categories.edit': 'ערוך קטגוריה',
+  'categories.delete': 'מחק קטגוריה',
+  'categories.deleteConfirm': 'האם אתה בטוח שברצונך למחוק את הקטגוריה {name}? פעולה זו לא ניתנת לביטול.',
+  'categories.deleteWarning': 'מוצרים המשויכים לקטגוריה זו יהפכו ללא קטגוריה.',
+  'categoryForm.addTitle': 'הוסף קטגוריה חדשה',
+  'categoryForm.editTitle': 'ערוך קטגוריה',
+  'categoryForm.name': 'שם *',
+  'categoryForm.namePlaceholder': 'לדוגמה: משקאות, חטיפים, אלקטרוניקה',
+  'categoryForm.create': 'צור קטגוריה',
+  'categoryForm.update': 'עדכן קטגוריה',
+  'categoryForm.error.nameRequired': 'שם הקטגוריה נדרש',
+
+  'brand.error.notFound': 'המותג לא נמצא',
+  'brand.error.exists': 'המותג כבר קיים',
+  'brand.error.limit': 'חרגת ממכסת המותגים המותרת',
+  'brand.error.delete': 'נכשל במחיקת המותג',
+  'brands.title': 'מותגים',
+  'brands.subtitle': { one: 'נהל את מותגי המוצרים שלך (מותג אחד)', other: 'נהל את מותגי המוצרים שלך ({count} סה״כ)' },
+  'brands.loading': 'טוען מותגים...',
+  'brands.loadError': 'שגיאה בטעינת המותגים',
+  'brands.add': 'הוסף מותג',
+  'brands.empty.none': 'אין מותגים עדיין',
+  'brands.empty.noneHint': 'עדיין לא יצרת מותגים. מותגים עוזרים לארגן את המוצרים שלך.',
+  'brands.addFirst': 'הוסף את המותג הראשון שלך',
+  'brands.sortAscending': 'מיין מותגים בסדר עולה',
+  'brands.sortDescending': 'מיין מותגים בסדר יורד',
+  'brands.searchPlaceholder': 'חפש מותגים...',
+  'brands.empty.filtered': 'לא נמצאו מותגים',
+  'brands.empty.filteredHint': 'נסה לשנות את החיפוש או נקה את המסננים כדי לראות את כל המותגים.',
+  'brands.productCount': { one: '{count} מוצר', other: '{count} מוצרים' },
+  'brands.edit': 'ערוך מותג',
+  'brands.delete': 'מחק מותג',
+  'brands.deleteConfirm': 'האם אתה בטוח שברצונך למחוק את המותג {name}? פעולה זו לא ניתנת לביטול.',
+  'brands.deleteWarning': 'מוצרים המשויכים למותג זה יהפכו ללא מותג.',
+  'brandForm.addTitle': 'הוסף מותג חדש',
+  'brandForm.editTitle': 'ערוך מותג',
+  'brandForm.name': 'שם המותג *',
+  'brandForm.namePlaceholder': 'לדוגמה: נייק, אפל, סמסונג',
+  'brandForm.image': 'תמונה',
+  'brandForm.previewAlt': 'תצוגה מקדימה של תמונת המותג {name}',
+  'brandForm.previewAltUnnamed': 'תצוגה מקדימה של תמונת מותג',
+  'brandForm.newPreview': 'תצוגה מקדימה של תמונה חדשה:',
+  'brandForm.create': 'צור מותג',
+  'brandForm.update': 'עדכן מותג',
+  'brandForm.error.nameRequired': 'שם המותג נדרש',
+};
@@ -0,0 +1,1995 @@
+import type { MessageCatalog } from '../utils/i18n';
+import type { ApiErrorCode, FallbackHeKey } from '../utils/apiErrorMessage';
+
+export const ru: MessageCatalog = {
+  'language.label': 'Язык',
+
+  'layout.menu': 'Меню',
+  'layout.openMenu': 'Открыть меню',
+  'layout.closeMenu': 'Закрыть меню',
+  'layout.mainNavigation': 'Основная навигация',
+  'layout.agentNavigation': 'Навигация агента',
+  'layout.menuNavigation': 'Меню навигации',
+  'layout.logout': 'Выйти',
+  'layout.logoutLabel': 'Выйти из системы',
+
+  'nav.managerProfile': 'Профиль менеджера',
+  'nav.agentProfile': 'Профиль',
+  'nav.businessProfile': 'Профиль бизнеса',
+  'nav.orders': 'Заказы',
+  'nav.documents': 'Отчёты и документы',
+  'nav.businessInfo': 'Бизнес-аналитика',
+  'nav.agents': 'Агенты',
+  'nav.customers': 'Клиенты',
+  'nav.products': 'Товары',
+  'nav.overrides': 'Специальные цены',
+  'nav.categories': 'Категории',
+  'nav.brands': 'Бренды',
+  'nav.locations': 'Филиалы',
+
+  'orderStatus.EMPTY': 'Пустой',
+  'orderStatus.PLACED': 'Оформлен',
+  'orderStatus.DONE': 'Выполнен',
+  'orderStatus.EXPIRED': 'Истёк',
+  'orderStatus.CANCELLED': 'Отменён',
+
+  'orderDate.created': 'Создан:',
+  'orderDate.placed': 'Оформлен:',
+  'orderDate.done': 'Выполнен:',
+  'orderDate.expired': 'Истёк:',
+
+  'discountError.decimalPlaces': 'Скидка может содержать не более 2 знаков после запятой',
+  'discountError.exceedsTotal': 'Скидка не может превышать сумму заказа',
+  'discountError.negative': 'Скидка должна быть положительным числом',
+
+  'error.default': 'Произошла ошибка. Попробуйте позже.',
+  'error.requestFailed': 'Запрос не выполнен. Попробуйте ещё раз.',
+  'error.requestFailedWithStatus': 'Запрос не выполнен (код {status}). Попробуйте ещё раз.',
+  'error.network': 'Ошибка сети',
+
+  'common.cancel': 'Отмена',
+  'common.tryAgain': 'Попробовать снова',
+  'common.understood': 'Понятно',
+  'common.showLess': 'Свернуть',
+  'common.showAll': 'Показать все ({count})',
+  'common.optional': '(необязательно)',
+  'common.add': 'Добавить',
+  'common.adding': 'Добавление...',
+  'common.confirmation': 'Подтверждение',
+  'common.save': 'Сохранить',
+  'common.saving': 'Сохранение...',
+  'common.saveChanges': 'Сохранить изменения',
+  'common.close': 'Закрыть',
+  'common.closeWindow': 'Закрыть окно',
+  'common.deleting': 'Удаление...',
+  'common.creating': 'Создание...',
+  'common.updating': 'Обновление...',
+  'common.edit': 'Изменить',
+  'common.delete': 'Удалить',
+  'common.error': 'Ошибка',
+  'common.copyFailed': 'Не удалось скопировать',
+
+  'store.error.loginToEdit': 'Войдите, чтобы редактировать заказы',
+  'store.error.noEditPermission': 'Нет прав на редактирование заказов',
+  'store.error.onlyPlacedEditable': 'Редактировать можно только оформленные заказы',
+  'store.error.noOrderPermission': 'Нет прав на редактирование этого заказа',
+  'store.error.orderNotFound': 'Заказ не найден',
+  'store.error.orderLoad': 'Не удалось загрузить заказ',
+  'store.error.customerLinkInactive': 'Эта персональная ссылка на магазин больше не действует – попросите у продавца новую',
+  'store.error.customerLinkLoad': 'Не удалось загрузить ссылку на магазин',
+  'store.error.invalidStoreUrl': 'Неверный адрес магазина',
+
+  'store.queued.syncedTitle': 'Заказ отправлен',
+  'store.queued.failedTitle': 'Не удалось отправить заказ',
+  'store.queued.pendingTitle': 'Заказ ожидает синхронизации',
+  'store.queued.synced': 'Заказ, сохранённый на устройстве, отправлен продавцу.',
+  'store.queued.sending': 'Заказ сохранён на устройстве и сейчас отправляется...',
+  'store.queued.offline':
+    'Заказ сохранён на устройстве и будет отправлен автоматически, когда появится интернет. Повторно заказывать не нужно.',
+  'store.queued.cancel': 'Отменить заказ',
+
+  'store.link.expiredTitle': 'Срок действия ссылки истёк',
+  'store.link.expired':
+    'Срок действия этой ссылки на заказ истёк. Свяжитесь с продавцом, чтобы получить новую ссылку, или проверьте статус заказа.',
+  'store.link.cancelledTitle': 'Заказ отменён',
+  'store.link.cancelled': 'Этот заказ был отменён. Свяжитесь с продавцом, если у вас есть вопросы или нужна помощь.',
+  'store.link.doneTitle': 'Заказ выполнен',
+  'store.link.done': 'Этот заказ уже выполнен.',
+  'store.link.placedTitle': 'Этот заказ уже оформлен',
+  'store.linkExpiry.daysLeft': {
+    one: 'Ссылка на заказ действительна ещё {count} день',
+    few: 'Ссылка на заказ действительна ещё {count} дня',
+    many: 'Ссылка на заказ действительна ещё {count} дней',
+    other: 'Ссылка на заказ действительна ещё {count} дня',
+  },
+  'store.linkExpiry.hoursLeft': {
+    one: 'Ссылка на заказ действительна ещё {count} час',
+    few: 'Ссылка на заказ действительна ещё {count} часа',
+    many: 'Ссылка на заказ действительна ещё {count} часов',
+    other: 'Ссылка на заказ действительна ещё {count} часа',
+  },
+  'store.linkExpiry.minutesLeft': {
+    one: 'Ссылка на заказ действительна ещё {count} минуту',
+    few: 'Ссылка на заказ действительна ещё {count} минуты',
+    many: 'Ссылка на заказ действительна ещё {count} минут',
+    other: 'Ссылка на заказ действительна ещё {count} минуты',
+  },
+  'store.linkExpiry.until': 'до {date}',
+  'store.linkExpiry.request': 'Попросить продлить ссылку',
+  'store.linkExpiry.requesting': 'Отправка запроса...',
+  'store.linkExpiry.requested': 'Запрос отправлен продавцу. Ссылка снова откроется, когда продавец её продлит.',
+  'store.linkExpiry.requestError': 'Не удалось отправить запрос. Попробуйте ещё раз.',
+  'store.confirmation.title': 'Подтверждение заказа № {reference}',
+  'store.confirmation.loading': 'Загрузка подтверждения заказа...',
+  'store.confirmation.loadError': 'Сейчас не удаётся загрузить подтверждение заказа',
+  'store.confirmation.print': 'Печать',
+  'store.confirmation.download': 'Скачать',
+  'store.confirmation.reference': 'Номер заказа',
+  'store.confirmation.placedAt': 'Дата',
+  'store.confirmation.customer': 'Покупатель',
+  'store.confirmation.lines': 'Позиции',
+  'store.confirmation.product': 'Товар',
+  'store.confirmation.quantity': 'Кол-во',
+  'store.confirmation.unitPrice': 'Цена за единицу',
+  'store.confirmation.lineTotal': 'Сумма',
+  'store.confirmation.productsTotal': 'Сумма товаров',
+  'store.confirmation.discount': 'Скидка',
+  'store.confirmation.deliveryFee': 'Доставка',
+  'store.confirmation.vatIncluded': 'В том числе НДС ({rate}%)',
+  'store.confirmation.total': 'Итого к оплате',
+  'store.confirmation.pickup': 'Самовывоз',
+  'store.confirmation.pickupSlot': 'Время самовывоза',
+  'store.confirmation.delivery': 'Доставка',
+  'store.confirmation.notes': 'Примечания',
+  'store.confirmation.footer': 'Это подтверждение не является налоговым счётом.',
+
+  'store.load.genericTitle': 'Упс!',
+  'store.load.generic': 'Что-то пошло не так',
+  'store.load.notFoundTitle': 'Магазин не найден',
+  'store.load.notFound': 'Этот магазин не существует или был удалён. Проверьте ссылку и попробуйте ещё раз.',
+  'store.load.forbiddenTitle': 'Магазин недоступен',
+  'store.load.forbidden': 'Этот магазин сейчас недоступен. Свяжитесь с владельцем магазина.',
+  'store.load.offlineTitle': 'Нет подключения к интернету',
+  'store.load.offline':
+    'Магазин ещё не сохранён на этом устройстве. Подключитесь к интернету и попробуйте снова – после первой загрузки его можно просматривать и без подключения.',
+  'store.load.failedTitle': 'Не удалось загрузить магазин',
+  'store.load.failed': 'Возникла проблема при загрузке магазина. Попробуйте позже.',
+
+  'store.filters': 'Фильтры',
+  'store.cart': 'Корзина',
+  'store.clearFilters': 'Сбросить все фильтры',
+  'store.sortBy': 'Сортировка:',
+  'store.sort.name': 'Название',
+  'store.sort.price': 'Цена',
+  'store.categories': 'Категории',
+  'store.brands': 'Бренды',
+  'store.welcome': 'Добро пожаловать',
+
+  'store.search.placeholder': 'Поиск товара, бренда, категории или артикула...',
+  'store.search.label': 'Поиск товаров',
+  'store.search.clear': 'Очистить поиск',
+  'store.search.results': {
+    one: 'Найден {count} товар',
+    few: 'Найдено {count} товара',
+    many: 'Найдено {count} товаров',
+    other: 'Найдено {count} товара',
+  },
+  'store.viewLink.copy': 'Скопировать ссылку на этот вид',
+  'store.viewLink.copied': 'Ссылка скопирована!',
+
+  'store.empty.title': 'Товары не найдены',
+  'store.empty.noResults': 'Нет результатов по запросу «{query}»',
+  'store.empty.adjustFilters': 'Попробуйте изменить фильтры',
+  'store.empty.checkLater': 'Загляните позже – появятся новые товары!',
+
+  'store.product.previousImage': 'Предыдущее изображение',
+  'store.product.nextImage': 'Следующее изображение',
+  'store.product.priceFrom': 'От ',
+  'store.product.tierPrice': 'Оптовая цена: {price} от {quantity} шт.',
+  'store.product.chooseOptions': 'Выбрать параметры',
+  'store.stock.outOfStock': 'Нет в наличии',
+  'store.stock.fewLeft': {
+    one: 'Остался всего {count} шт.',
+    few: 'Осталось всего {count} шт.',
+    many: 'Осталось всего {count} шт.',
+    other: 'Осталось всего {count} шт.',
+  },
+  'store.scanner.title': 'Режим сканера',
+  'store.scanner.hint': 'Отсканируйте штрихкод, чтобы добавить товар в корзину; повторное сканирование увеличивает количество',
+  'store.scanner.enable': 'Включить сканер',
+  'store.scanner.disable': 'Выключить сканер',
+  'store.scanner.added': '{name} – {quantity} в корзине',
+  'store.scanner.notFound': 'Товар с кодом {code} не найден',
+  'store.scanner.chooseVariant': '{name} – выберите параметр',
+  'store.scanner.maxReached': 'Больше нельзя добавить {name}',
+  'store.edit.droppedLinesTitle': 'Строки, удалённые из заказа',
+  'store.edit.droppedLinesHint': 'Эти товары или варианты удалены из каталога, поэтому их нет в корзине. При сохранении заказа они будут из него удалены.',
+  'store.product.addToCart': 'В корзину',
+  'store.product.add': 'Добавить',
+  'store.product.added': 'Добавлено!',
+
+  'store.cart.title': 'Ваша корзина',
+  'store.cart.empty': 'Ваша корзина пуста',
+  'store.cart.removeItem': 'Удалить товар',
+  'store.cart.tierPrice': 'Оптовая цена ({quantity}+)',
+  'store.cart.nextTier': {
+    one: 'Ещё {count} шт. – по {price} за штуку',
+    few: 'Ещё {count} шт. – по {price} за штуку',
+    many: 'Ещё {count} шт. – по {price} за штуку',
+    other: 'Ещё {count} шт. – по {price} за штуку',
+  },
+  'store.cart.total': 'Итого:',
+  'store.cart.items': 'Товаров:',
+  'store.cart.cannotCheckout': 'Нельзя перейти к оплате',
+  'store.cart.checkout': 'Перейти к оплате',
+
+  'store.favorites.add': 'Добавить в избранное',
+  'store.favorites.remove': 'Убрать из избранного',
+  'store.shelves.label': 'Быстрый заказ',
+  'store.shelves.buyAgainTitle': 'Купить снова',
+  'store.shelves.fromCustomerHistory': 'Из ваших прошлых заказов',
+  'store.shelves.fromDeviceHistory': 'Из заказов, оформленных на этом устройстве',
+  'store.shelves.favoritesTitle': 'Моё избранное',
+  'store.shelves.addAll': 'Добавить всё в корзину ({count})',
+  'store.shelves.chooseOptions': 'Нужно выбрать параметры',
+  'store.shelves.unavailable': {
+    one: '{count} ранее заказанный товар больше недоступен',
+    few: '{count} ранее заказанных товара больше недоступны',
+    many: '{count} ранее заказанных товаров больше недоступны',
+    other: '{count} ранее заказанного товара больше недоступны',
+  },
+  'store.shelves.added': {
+    one: '{count} товар добавлен в корзину',
+    few: '{count} товара добавлены в корзину',
+    many: '{count} товаров добавлено в корзину',
+    other: '{count} товара добавлено в корзину',
+  },
+  'store.shelves.outOfStock': {
+    one: '{count} товар закончился и не добавлен',
+    few: '{count} товара закончились и не добавлены',
+    many: '{count} товаров закончились и не добавлены',
+    other: '{count} товара закончились и не добавлены',
+  },
+  'store.quickOrder.open': 'Заказ по списку',
+  'store.quickOrder.title': 'Заказ по списку',
+  'store.quickOrder.hint': 'Вставьте строки из таблицы или загрузите CSV-файл: артикул, штрихкод или название товара, затем количество. Товары добавятся к тому, что уже есть в корзине.',
+  'store.quickOrder.textLabel': 'Товары и количества',
+  'store.quickOrder.placeholder': 'SKU-100, 12\nМолоко 3%, 6',
+  'store.quickOrder.upload': 'Загрузить CSV-файл',
+  'store.quickOrder.fileTooLarge': 'Файл слишком большой',
+  'store.quickOrder.fileError': 'Не удалось прочитать файл',
+  'store.quickOrder.tooManyLines': 'Не более {max} строк за раз',
+  'store.quickOrder.empty': 'Введите хотя бы одну строку',
+  'store.quickOrder.match': 'Сопоставить товары',
+  'store.quickOrder.summary': 'Готово строк: {ready} из {total}',
+  'store.quickOrder.status.ready': 'Готово',
+  'store.quickOrder.status.chooseProduct': 'Подходит несколько товаров – выберите один',
+  'store.quickOrder.status.chooseVariant': 'Выберите параметр',
+  'store.quickOrder.status.notFound': 'Подходящий товар не найден – исправьте текст',
+  'store.quickOrder.status.badQuantity': 'Количество должно быть целым числом от 1',
+  'store.quickOrder.query': 'Артикул или название',
+  'store.quickOrder.product': 'Товар',
+  'store.quickOrder.chooseProduct': 'Выберите товар',
+  'store.quickOrder.variant': 'Параметр',
+  'store.quickOrder.chooseVariant': 'Выберите параметр',
+  'store.quickOrder.quantity': 'Количество',
+  'store.quickOrder.packAdjusted': 'Будет добавлено {quantity} (по размеру упаковки)',
+  'store.quickOrder.notAllowed': 'Этот товар нельзя заказать',
+  'store.quickOrder.removeRow': 'Удалить строку {line}',
+  'store.quickOrder.back': 'Назад',
+  'store.quickOrder.skipped': {
+    one: '{count} неготовая строка будет пропущена',
+    few: '{count} неготовые строки будут пропущены',
+    many: '{count} неготовых строк будут пропущены',
+    other: '{count} неготовой строки будут пропущены',
+  },
+  'store.quickOrder.addToCart': {
+    one: 'Добавить {count} товар в корзину',
+    few: 'Добавить {count} товара в корзину',
+    many: 'Добавить {count} товаров в корзину',
+    other: 'Добавить {count} товара в корзину',
+  },
+
+  'fulfillment.PICKUP': 'Самовывоз',
+  'fulfillment.DELIVERY': 'Доставка',
+  'pickupDate.today': 'Сегодня',
+  'pickupDate.tomorrow': 'Завтра',
+
+  'cartRule.packsOf': 'Упаковками по {step}',
+  'cartRule.upTo': 'До {max} шт. на заказ',
+  'cartRule.minimumTotal': 'Минимальная сумма заказа {minimum} – не хватает {missing}',
+  'cartRule.required': 'Добавьте в заказ {name}',
+  'cartRule.overMax': 'Можно заказать не более {max} шт. товара {name} (в корзине {quantity})',
+  'cartRule.notWholePacks':
+    '{name} продаётся упаковками по {step} – закажите количество, кратное {step} (например, {example})',
+  'stock.soldOutInCart': '{name} закончился – удалите его из корзины',
+  'stock.onlyLeftInCart': {
+    one: 'На складе осталась только {count} шт. товара {name} (в корзине {quantity})',
+    other: 'На складе осталось только {count} шт. товара {name} (в корзине {quantity})',
+  },
+
+  'store.checkout.title': 'Оформление заказа',
+  'store.checkout.close': 'Закрыть',
+  'store.checkout.step.details': 'Данные',
+  'store.checkout.step.receive': 'Получение',
+  'store.checkout.step.location': 'Пункт',
+  'store.checkout.step.address': 'Адрес',
+  'store.checkout.step.review': 'Проверка',
+  'store.checkout.back': 'Назад',
+  'store.checkout.continue': 'Далее',
+  'store.checkout.locationsLoadError': 'Не удалось загрузить пункты самовывоза',
+  'store.checkout.slotsUnchecked':
+    'Сейчас не удаётся проверить, какие интервалы заняты, – время проверят при отправке заказа.',
+  'store.checkout.nameRequired': 'Укажите имя',
+  'store.checkout.phoneRequired': 'Укажите номер телефона',
+  'store.checkout.streetRequired': 'Укажите улицу',
+  'store.checkout.cityRequired': 'Укажите город',
+  'store.checkout.stateIdRequired': 'Укажите номер компании / ИП',
+  'store.checkout.stateIdLength': 'Номер компании / ИП должен состоять ровно из 9 цифр',
+  'store.checkout.chooseLocation': 'Выберите пункт самовывоза',
+  'store.checkout.chooseSlot': 'Выберите время самовывоза',
+  'store.checkout.deliveryStreetRequired': 'Укажите адрес доставки',
+  'store.checkout.deliveryCityRequired': 'Укажите город доставки',
+  'store.checkout.acceptCartChanges': 'Подтвердите изменения в корзине перед отправкой заказа',
+  'store.checkout.cartEmpty': 'Корзина пуста',
+  'store.checkout.noUpdatePermission': 'Нет прав на изменение заказов',
+  'store.checkout.updatedTitle': 'Заказ обновлён!',
+  'store.checkout.placedTitle': 'Заказ оформлен!',
+  'store.checkout.updated': 'Ваш заказ успешно обновлён.',
+  'store.checkout.queued':
+    'Сейчас нет подключения к интернету. Заказ сохранён на устройстве и будет отправлен автоматически, когда связь восстановится, – заказывать повторно не нужно.',
+  'store.checkout.placed': 'Спасибо за заказ. Мы его получили и скоро свяжемся с вами.',
+  'store.checkout.printableConfirmation': 'Подтверждение заказа для печати',
+  'store.checkout.customerDetails': 'Данные клиента',
+  'store.checkout.name': 'Имя',
+  'store.checkout.namePlaceholder': 'Введите имя',
+  'store.checkout.phone': 'Телефон',
+  'store.checkout.phonePlaceholder': 'Введите номер телефона',
+  'store.checkout.emailOptional': 'Эл. почта (необязательно)',
+  'store.checkout.emailPlaceholder': 'Введите эл. почту',
+  'store.checkout.street': 'Улица',
+  'store.checkout.streetPlaceholder': 'Введите улицу',
+  'store.checkout.streetAndNumber': 'Улица и номер дома',
+  'store.checkout.city': 'Город',
+  'store.checkout.cityPlaceholder': 'Введите город',
+  'store.checkout.stateId': 'Номер компании / ИП',
+  'store.checkout.stateIdHint': 'Введите ровно 9 цифр',
+  'store.checkout.howToReceive': 'Как вы хотите получить заказ?',
+  'store.checkout.choosePickupLocation': 'Выберите пункт самовывоза',
+  'store.checkout.fulfillmentMethod': 'Способ получения заказа',
+  'store.checkout.noCharge': 'Бесплатно',
+  'store.checkout.deliveryFee': 'Доставка {fee}',
+  'store.checkout.freeDelivery': 'Бесплатная доставка',
+  'store.checkout.freeDeliveryOver': 'Бесплатная доставка при заказе от {threshold}',
+  'store.checkout.missingForFreeDelivery': 'не хватает {amount}',
+  'store.checkout.noLocations': 'Нет доступных пунктов самовывоза',
+  'store.checkout.streetLabel': 'Улица: {street}',
+  'store.checkout.cityLabel': 'Город: {city}',
+  'store.checkout.phoneLabel': 'Телефон: {phone}',
+  'store.checkout.whenPickup': 'Когда вы заберёте заказ?',
+  'store.checkout.noSlots': 'Сейчас в этом филиале нет свободного времени самовывоза',
+  'store.checkout.pickupDate': 'Дата самовывоза',
+  'store.checkout.pickupTime': 'Время самовывоза',
+  'store.checkout.slotFull': 'Занято',
+  'store.checkout.slotRemaining': {
+    one: 'Осталось {count} место',
+    few: 'Осталось {count} места',
+    many: 'Осталось {count} мест',
+    other: 'Осталось {count} места',
+  },
+  'store.checkout.deliveryAddress': 'Адрес доставки',
+  'store.checkout.courierInstructions': 'Указания для курьера (необязательно)',
+  'store.checkout.courierInstructionsPlaceholder': 'Этаж, квартира, код домофона...',
+  'store.checkout.reviewChanges': 'Проверьте изменения заказа',
+  'store.checkout.reviewOrder': 'Проверьте заказ',
+  'store.checkout.fixCart': 'Исправьте корзину перед отправкой заказа',
+  'store.checkout.nameLabel': 'Имя: {name}',
+  'store.checkout.emailLabel': 'Эл. почта: {email}',
+  'store.checkout.addressLabel': 'Адрес: {address}',
+  'store.checkout.notAvailable': 'Нет данных',
+  'store.checkout.customerReadOnly': 'Данные клиента нельзя изменить',
+  'store.checkout.instructionsLabel': 'Указания: {instructions}',
+  'store.checkout.pickupLocation': 'Пункт самовывоза',
+  'store.checkout.pickupSlotLabel': 'Время самовывоза: {slot}',
+  'store.checkout.orderItems': 'Товары в заказе',
+  'store.checkout.tierPrice': 'Цена от {quantity} шт.: {price} за шт. (вместо {regular})',
+  'store.checkout.deliveryFeeLabel': 'Стоимость доставки',
+  'store.checkout.free': 'Бесплатно',
+  'store.checkout.addForFreeDelivery': 'Добавьте ещё {amount} для бесплатной доставки',
+  'store.checkout.total': 'Итого',
+  'store.checkout.notesOptional': 'Комментарий (необязательно)',
+  'store.checkout.notesPlaceholder': 'Особые указания или комментарии...',
+  'store.checkout.updating': 'Обновление заказа...',
+  'store.checkout.placing': 'Оформление заказа...',
+  'store.checkout.update': 'Обновить заказ',
+  'store.checkout.place': 'Оформить заказ',
+
+  'store.product.close': 'Закрыть окно',
+  'store.product.volumePrices': 'Цены за количество',
+  'store.product.units': '{range} шт.',
+  'store.product.quantity': 'Количество:',
+  'store.product.inCart': '{count} в корзине',
+  'store.product.choose': 'Выберите: {name}',
+  'store.cartChanges.title': 'Товары в корзине изменились',
+  'store.cartChanges.removed': 'Удалён из магазина',
+  'store.cartChanges.accept': 'Принять и обновить корзину',
+
+  'store.pending.pending': 'Заказ ожидает синхронизации',
+  'store.pending.sending': 'Заказ отправляется...',
+  'store.pending.synced': 'Заказ отправлен',
+  'store.pending.failed': 'Не удалось отправить заказ',
+  'store.pending.unconfirmed': 'Неизвестно, получен ли заказ',
+  'store.pending.serverUnreachable': 'Не удаётся подключиться к серверу.',
+  'store.pending.offline': 'Нет подключения к интернету.',
+  'store.pending.cachedCatalog': 'Показан каталог, сохранённый {date}.',
+  'store.pending.keepOrdering':
+    'Можно продолжать выбирать товары и оформить заказ – он отправится автоматически, когда связь восстановится.',
+  'store.pending.unconfirmedHint':
+    'Заказ отправлен, но ответ не пришёл. Если магазин не подтвердил заказ, отправьте его снова, иначе удалите, чтобы не заказать дважды.',
+  'store.pending.sendAgain': 'Отправить снова',
+  'store.pending.remove': 'Удалить',
+  'store.pending.close': 'Закрыть',
+
+  'bulkAction.markDone': 'Отметить выполненными',
+  'bulkAction.cancel': 'Отмена',
+  'bulkAction.discount': 'Скидка',
+  'bulkAction.copyLinks': 'Копировать ссылки',
+
+  'calendarView.month': 'Месяц',
+  'calendarView.week': 'Неделя',
+  'calendarView.day': 'День',
+  'calendarDateField.placedAt': 'Дата заказа',
+  'calendarDateField.doneAt': 'Дата выполнения',
+  'calendarDateField.linkExpiresAt': 'Срок действия ссылки',
+
+  'orderMove.sameColumn': 'Заказ уже в этой колонке',
+  'orderMove.notAllowed': 'Заказы нельзя переместить в "{to}"',
+  'orderMove.onlyFrom': 'В "{to}" можно переместить только заказы со статусом {from}',
+
+  'orderActivity.actor.MANAGER': 'Менеджер',
+  'orderActivity.actor.AGENT': 'Агент',
+  'orderActivity.actor.PUBLIC': 'Клиент (ссылка на заказ)',
+  'orderActivity.created': 'Заказ создан',
+  'orderActivity.status': 'Статус: {status}',
+  'orderActivity.statusChanged': 'Смена статуса',
+  'orderActivity.previousStatus': 'Ранее: {status}',
+  'orderActivity.products': 'Товары изменены',
+  'orderActivity.productsVersion': 'Товары изменены (версия {version})',
+  'orderActivity.discount': 'Скидка изменена',
+  'orderActivity.change': '{from} → {to}',
+  'orderActivity.invoice': 'Выставлен счёт №{number}',
+  'orderActivity.creditNote': 'Выставлен кредит-ноут №{number}',
+
+  'linkLifetime.weeks': {
+    one: '{count} неделя',
+    few: '{count} недели',
+    many: '{count} недель',
+    other: '{count} недели',
+  },
+  'linkLifetime.days': { one: '{count} день', few: '{count} дня', many: '{count} дней', other: '{count} дня' },
+  'linkLifetime.hours': { one: '{count} час', few: '{count} часа', many: '{count} часов', other: '{count} часа' },
+  'linkLifetime.default': 'Срок действия по умолчанию: {lifetime}',
+
+  'orderSource.MANAGER': 'Менеджер',
+  'orderSource.AGENT': 'Агент',
+  'orderSource.PUBLIC': 'Онлайн',
+  'orderExport.sheetName': 'Заказы',
+  'orderExport.fileName': 'заказы',
+  'orderExport.column.referenceId': '№ заказа',
+  'orderExport.column.status': 'Статус',
+  'orderExport.column.source': 'Источник',
+  'orderExport.column.agent': 'Агент',
+  'orderExport.column.customerName': 'Клиент',
+  'orderExport.column.customerPhone': 'Телефон',
+  'orderExport.column.customerEmail': 'Эл. почта',
+  'orderExport.column.customerStateId': 'ИНН / № плательщика',
+  'orderExport.column.customerAddress': 'Адрес',
+  'orderExport.column.customerCity': 'Город',
+  'orderExport.column.fulfillment': 'Способ получения',
+  'orderExport.column.createdAt': 'Создан',
+  'orderExport.column.placedAt': 'Оформлен',
+  'orderExport.column.doneAt': 'Выполнен',
+  'orderExport.column.productsTotal': 'Сумма товаров',
+  'orderExport.column.discount': 'Скидка',
+  'orderExport.column.deliveryFee': 'Стоимость доставки',
+  'orderExport.column.credited': 'Возвращено',
+  'orderExport.column.totalPrice': 'Итого',
+  'orderExport.column.notes': 'Примечания',
+  'orderExport.column.productName': 'Товар',
+  'orderExport.column.quantity': 'Количество',
+  'orderExport.column.pricePerUnit': 'Цена за единицу',
+  'orderExport.column.lineTotal': 'Сумма строки',
+  'orderActivity.title': 'История заказа',
+  'orderActivity.empty': 'Для этого заказа нет записанных действий',
+  'orderActivity.openPdf': 'Открыть PDF',
+  'orderActivity.lineAdded': 'Добавлено: {quantity} × {price}',
+  'orderActivity.lineRemoved': 'Удалено (было {quantity})',
+  'orderActivity.quantityChange': 'Количество {change}',
+  'orderActivity.priceChange': 'Цена {change}',
+
+  'orders.bulk.toolbar': 'Действия с выбранными заказами',
+  'orders.bulk.selected': 'Выбрано: {count}',
+  'orders.bulk.clearSelection': 'Снять выбор',
+  'orders.bulk.progress': '{done} из {total}',
+  'orders.bulk.copyFailed': 'Не удалось скопировать ссылки',
+  'orders.bulk.cancelTitle': {
+    one: 'Отменить {count} заказ?',
+    few: 'Отменить {count} заказа?',
+    many: 'Отменить {count} заказов?',
+    other: 'Отменить {count} заказа?',
+  },
+  'orders.bulk.cancelBody':
+    'Отмена уберёт заказы из активной очереди. Выполненные, отменённые и просроченные заказы не изменятся.',
+  'orders.bulk.keep': 'Оставить заказы',
+  'orders.bulk.confirmCancel': 'Отменить заказы',
+  'orders.bulk.discountTitle': {
+    one: 'Скидка на {count} заказ',
+    few: 'Скидка на {count} заказа',
+    many: 'Скидка на {count} заказов',
+    other: 'Скидка на {count} заказа',
+  },
+  'orders.bulk.discountLabel': 'Процент скидки от суммы товаров каждого заказа',
+  'orders.bulk.discountHint': 'Текущая скидка каждого заказа будет заменена. 0% убирает скидку.',
+  'orders.bulk.applyDiscount': 'Применить скидку',
+  'orders.bulk.resultsTitle': 'Результаты: {action}',
+  'orders.bulk.linksCopied': {
+    one: 'Скопирована {count} ссылка',
+    few: 'Скопировано {count} ссылки',
+    many: 'Скопировано {count} ссылок',
+    other: 'Скопировано {count} ссылки',
+  },
+  'orders.bulk.updated': {
+    one: 'Обновлён {count} заказ',
+    few: 'Обновлено {count} заказа',
+    many: 'Обновлено {count} заказов',
+    other: 'Обновлено {count} заказа',
+  },
+  'orders.bulk.failed': 'Не выполнено: {count} (остались выбранными):',
+  'orders.bulk.skipped': 'Пропущено: {count} (действие не подходит для статуса):',
+  'orders.bulk.close': 'Закрыть',
+
+  'orders.cancel.title': 'Отменить заказ?',
+  'orders.cancel.keep': 'Оставить заказ',
+  'orders.cancel.confirm': 'Отменить заказ',
+  'orders.board.cancelBody':
+    'Отмена уберёт заказ #{reference} из активной очереди. Новый заказ всегда можно создать позже.',
+  'orders.board.empty': 'Нет заказов',
+  'orders.board.noCustomer': 'Нет данных клиента',
+  'orders.board.moveOrder': 'Переместить заказ {reference}',
+  'orders.board.moveTo': 'Переместить в...',
+
+  'orders.calendar.previous': 'Назад',
+  'orders.calendar.next': 'Вперёд',
+  'orders.calendar.today': 'Сегодня',
+  'orders.calendar.by': 'По:',
+  'orders.calendar.range': 'Период',
+  'orders.calendar.summary': {
+    one: '{count} заказ · Итого',
+    few: '{count} заказа · Итого',
+    many: '{count} заказов · Итого',
+    other: '{count} заказа · Итого',
+  },
+  'orders.calendar.truncated': 'Показана только часть заказов за период – сократите период или добавьте фильтры',
+  'orders.calendar.emptyDay': 'В этот день заказов нет',
+  'orders.calendar.more': 'ещё {count}',
+
+  'orders.export.title': 'Экспорт заказов',
+  'orders.export.intro': 'Будут выгружены все заказы, подходящие под текущие фильтры, со всех страниц.',
+  'orders.export.format': 'Формат',
+  'orders.export.rows': 'Строки',
+  'orders.export.rowPerOrder': 'Строка на заказ',
+  'orders.export.rowPerLine': 'Строка на каждый товар заказа',
+  'orders.export.columns': 'Столбцы ({count})',
+  'orders.export.selectAll': 'Выбрать все',
+  'orders.export.defaults': 'По умолчанию',
+  'orders.export.loading': 'Загрузка заказов...',
+  'orders.export.stop': 'Остановить экспорт',
+  'orders.export.export': 'Экспортировать',
+
+  'orders.selectOrder': 'Выбрать заказ {reference}',
+  'orders.expiringLinks.title': 'Ссылки, истекающие в ближайшие {hours} ч: {count}',
+  'orders.expiringLinks.requests': {
+    one: '{count} запрос на продление',
+    few: '{count} запроса на продление',
+    many: '{count} запросов на продление',
+    other: '{count} запроса на продление',
+  },
+  'orders.expiringLinks.show': 'Показать',
+  'orders.expiringLinks.hide': 'Скрыть',
+  'orders.expiringLinks.expiringSoonTab': 'Скоро истекают',
+  'orders.expiringLinks.expiredTab': 'Истекли',
+  'orders.expiringLinks.extendBy': 'Продлить на:',
+  'orders.expiringLinks.extendSelected': 'Продлить выбранные ({count})',
+  'orders.expiringLinks.reopenSelected': 'Открыть заново выбранные ({count})',
+  'orders.expiringLinks.noneExpiringSoon': 'В ближайшие {hours} ч ссылки не истекают',
+  'orders.expiringLinks.noneExpired': 'Недавно истёкших ссылок нет',
+  'orders.expiringLinks.noCustomer': 'Без клиента',
+  'orders.expiringLinks.requested': 'Запрошено продление',
+  'orders.expiringLinks.expiredAt': 'Истекла {date}',
+  'orders.expiringLinks.expiresAt': 'Истекает {date}',
+  'orders.expiringLinks.saving': 'Сохранение...',
+  'orders.expiringLinks.reopen': 'Открыть заново',
+  'orders.expiringLinks.extend': 'Продлить',
+
+  'stockReason.RECEIVED': 'Поступление товара',
+  'stockReason.COUNT': 'Инвентаризация',
+  'stockReason.DAMAGED': 'Брак / потеря',
+  'stockReason.RETURNED': 'Возврат от клиента',
+  'stockReason.OTHER': 'Другое',
+  'stockReason.ORDER_DONE': 'Заказ выполнен',
+  'stock.locationFallback': 'Точка #{id}',
+  'stock.error.wholeNumber': 'Введите целое число',
+  'stock.error.countRange': 'Подсчитанное количество должно быть от 0 до {max}',
+  'stock.error.deltaRange': 'Изменение должно быть ненулевым и не больше {max} шт.',
+  'stock.error.noteRequired': 'Укажите причину изменения',
+  'stock.error.noteTooLong': 'Примечание может содержать не более {max} символов',
+  'stock.error.thresholdRange': 'Порог низкого остатка должен быть целым числом от 0 до {max}',
+  'stock.settings.off': 'Выключено',
+  'stock.settings.blocking': 'Включено · блокирует заказ сверх остатка',
+  'stock.settings.badgesOnly': 'Включено · только метки остатка в магазине',
+  'stock.title': 'Остаток – {name}',
+  'stock.noLocations': 'Чтобы вести учёт остатков, добавьте точку на странице точек.',
+  'stock.deletedVariant': 'Удалённый вариант',
+  'stock.variant': 'Вариант',
+  'stock.product': 'Товар',
+  'stock.total': 'Итого',
+  'stock.lowStock': 'Общий остаток ({total}) достиг порога низкого остатка ({threshold})',
+  'stock.adjustTitle': 'Изменение остатка',
+  'stock.location': 'Точка',
+  'stock.reason': 'Причина',
+  'stock.countedQuantity': 'Подсчитанное количество',
+  'stock.delta': 'Изменение (например 10 или -3)',
+  'stock.current': 'Сейчас в точке: {quantity}',
+  'stock.note': 'Примечание',
+  'stock.optional': '(необязательно)',
+  'stock.saving': 'Сохранение...',
+  'stock.adjust': 'Изменить остаток',
+  'stock.thresholdLabel': 'Предупреждать о низком остатке, когда общий остаток опустится до',
+  'stock.thresholdHint': '(пусто = без предупреждения)',
+  'stock.thresholdNone': 'Нет',
+  'stock.saveThreshold': 'Сохранить порог',
+  'stock.recentChanges': 'Последние изменения',
+  'stock.noChanges': 'Изменений остатка пока нет.',
+  'stock.left': 'осталось {quantity}',
+
+  'addresses.title': 'Исправление адресов клиентов',
+  'addresses.intro':
+    'Адреса, введённые в другом написании (например "ת"א" или "קרית גת"), будут приведены к официальному названию населённого пункта и улицы. Адреса, которых нет в реестре, не изменятся.',
+  'addresses.updated': {
+    one: 'Обновлён {count} клиент.',
+    few: 'Обновлено {count} клиента.',
+    many: 'Обновлено {count} клиентов.',
+    other: 'Обновлено {count} клиента.',
+  },
+  'addresses.failed': 'Не обновлены клиенты ({count}):',
+  'addresses.nothingToFix': 'Все известные адреса уже записаны единообразно.',
+  'addresses.selected': 'Выбрано {count} из {total}',
+  'addresses.unknownCity': 'Клиенты с населённым пунктом не из реестра ({count}) не изменятся.',
+  'addresses.progress': 'Обновление {done} из {total}...',
+  'addresses.apply': {
+    one: 'Обновить {count} адрес',
+    few: 'Обновить {count} адреса',
+    many: 'Обновить {count} адресов',
+    other: 'Обновить {count} адреса',
+  },
+
+  'customerLink.title': 'Личная ссылка на магазин',
+  'customerLink.intro':
+    'Постоянная ссылка для клиента: всегда показывает его специальные цены, а каждый заказ по ней оформляется как новый.',
+  'customerLink.loading': 'Загрузка...',
+  'customerLink.creating': 'Создание ссылки...',
+  'customerLink.create': 'Создать личную ссылку',
+  'customerLink.label': 'Личная ссылка на магазин',
+  'customerLink.copied': 'Скопировано ✓',
+  'customerLink.copy': 'Копировать ссылку',
+  'customerLink.copyFailed': 'Не удалось скопировать',
+  'customerLink.createdAt': 'Создана {date}',
+  'customerLink.unused': 'Заказов по ней ещё не было',
+  'customerLink.usage': {
+    one: '{count} заказ · последний {date}',
+    few: '{count} заказа · последний {date}',
+    many: '{count} заказов · последний {date}',
+    other: '{count} заказа · последний {date}',
+  },
+  'customerLink.rotateWarning':
+    'Текущая ссылка перестанет работать и будет заменена новой. Отправьте клиенту новую ссылку.',
+  'customerLink.revokeWarning':
+    'Ссылка перестанет работать, и клиент не сможет заказывать по ней. Новую ссылку можно создать в любой момент.',
+  'customerLink.saving': 'Сохранение...',
+  'customerLink.rotate': 'Заменить ссылку',
+  'customerLink.revoke': 'Отключить ссылку',
+  'customerLink.back': 'Назад',
+
+  'orders.page.loadFailed': 'Не удалось загрузить заказы',
+  'orders.page.invalidValue': 'Введите корректное значение',
+  'orders.page.title': 'Заказы',
+  'orders.page.subtitle': 'Управляйте заказами и делитесь ссылками с клиентами',
+  'orders.page.export': 'Экспорт',
+  'orders.page.newOrder': 'Создать новый заказ',
+  'orders.page.createOrder': 'Создать заказ',
+  'orders.page.filter.agent': 'Агент:',
+  'orders.page.filter.customer': 'Клиент:',
+  'orders.page.filter.location': 'Пункт выдачи:',
+  'orders.page.filter.status': 'Статус:',
+  'orders.page.filter.sortBy': 'Сортировать по:',
+  'orders.page.filter.pageSize': 'Показать:',
+  'orders.page.filter.all': 'Все',
+  'orders.page.filter.todayPickups': 'Выдачи сегодня',
+  'orders.page.sort.createdAt': 'Дата создания',
+  'orders.page.sort.totalPrice': 'Общая сумма',
+  'orders.page.sort.pickupSlot': 'Время выдачи',
+  'orders.page.sort.ascending': 'А → Я',
+  'orders.page.sort.descending': 'Я → А',
+  'orders.page.me': 'Я',
+  'orders.page.online': '- Онлайн -',
+  'orders.page.empty.title': 'Заказов пока нет',
+  'orders.page.empty.body': 'Создайте первый заказ, чтобы начать',
+  'orders.page.selectPage': 'Выбрать все заказы на странице',
+  'orders.page.copied': 'Скопировано!',
+  'orders.page.noCustomerYet': 'Данных клиента пока нет',
+  'orders.page.awaitingDetails': 'Ожидание данных заказа',
+  'orders.page.noCustomerDetails': 'Нет данных клиента',
+  'orders.page.discount': 'Скидка:',
+  'orders.page.credited': 'Возврат:',
+  'orders.page.total': 'Итого',
+  'orders.page.pickup': 'Выдача: {slot}',
+  'orders.page.sendWhatsApp': 'Отправить ссылку в WhatsApp',
+  'orders.page.linkCopied': 'Ссылка скопирована',
+  'orders.page.copyLink': 'Копировать ссылку на заказ',
+  'orders.page.openInNewTab': 'Открыть заказ в новой вкладке',
+  'orders.page.edit': 'Редактировать заказ',
+  'orders.page.markDone': 'Отметить как выполненный',
+  'orders.page.taxInvoice': 'Налоговый счёт-квитанция',
+  'orders.page.createTaxInvoice': 'Создать налоговый счёт-квитанцию',
+  'orders.page.create.linkExpiry':
+    'Ссылка на заказ истечёт в конце выбранного здесь срока. Его можно продлить и позже.',
+  'orders.page.create.linkLifetime': 'Срок действия ссылки',
+  'orders.page.create.businessDefault': 'По умолчанию для бизнеса',
+  'orders.page.create.customer': 'Выбор клиента',
+  'orders.page.create.noCustomer': 'Без клиента',
+  'orders.page.create.noCustomerHint': 'Клиент заполнит свои данные по ссылке',
+  'orders.page.create.linkExisting': 'Или привяжите к существующему клиенту',
+  'orders.page.create.search': 'Поиск клиентов...',
+  'orders.page.create.noResults': 'Клиенты не найдены',
+  'orders.page.create.clearSearch': 'Очистить поиск',
+  'orders.page.create.creating': 'Создание...',
+  'orders.page.cancelBody':
+    'Отмена уберёт заказ из активной очереди. Если передумаете, всегда можно создать новый заказ.',
+  'orders.page.cancelling': 'Отмена...',
+  'orders.page.discountModal.title': 'Добавить скидку',
+  'orders.page.discountModal.order': 'Заказ #{id}',
+  'orders.page.discountModal.orderTotal': 'Сумма заказа:',
+  'orders.page.discountModal.amountMode': 'Сумма (₪)',
+  'orders.page.discountModal.percentMode': 'Процент (%)',
+  'orders.page.discountModal.amountLabel': 'Сумма скидки (₪)',
+  'orders.page.discountModal.percentLabel': 'Процент скидки (%)',
+  'orders.page.discountModal.hint': 'До 2 знаков после запятой, не более {max}',
+  'orders.page.discountModal.amount': 'Сумма скидки:',
+  'orders.page.discountModal.saving': 'Сохранение...',
+  'orders.page.discountModal.save': 'Сохранить',
+
+  'orders.viewMode.label': 'Вид:',
+  'orders.viewMode.list': 'Список',
+  'orders.viewMode.board': 'Доска',
+  'orders.viewMode.calendar': 'Календарь',
+
+  'orders.linkExtend.requested': 'Клиент попросил продлить ссылку {date}',
+  'orders.linkExtend.reopenFor': 'Открыть снова на:',
+  'orders.linkExtend.reopen': 'Открыть ссылку снова',
+  'orders.linkExtend.extend': 'Продлить ссылку',
+
+  'agentOrders.placedOn': 'Оформлен {date}',
+  'agentOrders.createdOn': 'Создан {date}',
+  'agentOrders.linkInfo': 'Информация о ссылке',
+  'agentOrders.linkExpiresAt': 'Дата истечения',
+
+  'field.firstName': 'Имя',
+  'field.lastName': 'Фамилия',
+  'field.phone': 'Номер телефона',
+  'field.address': 'Адрес',
+  'field.city': 'Город',
+  'field.email': 'Email',
+  'field.password': 'Пароль',
+  'field.currentPassword': 'Текущий пароль',
+  'field.dateOfBirth': 'Дата рождения',
+  'field.date': 'Дата',
+  'field.businessName': 'Название бизнеса',
+  'field.stateId': 'Номер компании / ИП',
+  'field.customerName': 'Имя клиента',
+  'field.discountPercentage': 'Процент скидки',
+  'field.locationName': 'Название филиала',
+  'field.minInvoiceNumber': 'Минимальный номер счёта',
+  'field.minCreditNoteNumber': 'Минимальный номер кредит-ноты',
+  'field.deliveryFee': 'Стоимость доставки',
+  'field.freeDeliveryThreshold': 'Порог бесплатной доставки',
+  'field.minimumOrderTotal': 'Минимальная сумма заказа',
+
+  'validation.required': '{field}: обязательное поле',
+  'validation.maxLength': '{field}: не более {max} символов',
+  'validation.digitsOnly': '{field}: только цифры',
+  'validation.exactDigits': '{field}: ровно {count} цифр',
+  'validation.emailInvalid': 'Введите корректный email',
+  'validation.number': '{field}: введите корректное число',
+  'validation.percentRange': '{field}: от 0 до 100',
+  'validation.passwordMinLength': 'Пароль должен содержать не менее {min} символов',
+  'validation.confirmPassword': 'Подтвердите пароль',
+  'validation.passwordMismatch': 'Пароли не совпадают',
+  'validation.minOne': '{field}: не меньше 1',
+  'validation.moneyAmount': '{field}: корректная сумма (0 или больше), не более 2 знаков после запятой',
+  'validation.moneyMax': '{field}: не более {max}',
+
+  'pickupScheduling.error.noTemplates': 'Добавьте хотя бы одно окно самовывоза',
+  'pickupScheduling.error.missingHours': 'Укажите время начала и окончания: {day}',
+  'pickupScheduling.error.endBeforeStart': '{day}: время окончания должно быть позже времени начала',
+  'pickupScheduling.error.windowTooShort': '{day}: окно короче одного слота ({minutes} мин)',
+  'pickupScheduling.error.capacity': '{day}: число заказов на слот должно быть целым от 1 до {max}',
+  'pickupScheduling.error.overlap': '{day}: окна самовывоза пересекаются',
+  'pickupScheduling.error.leadTime': 'Время подготовки должно быть целым числом часов от 0 до {max}',
+  'pickupScheduling.error.bookingWindow': 'Срок предварительного заказа должен быть от 1 до {max} дней',
+
+  'priceTier.error.tooMany': 'Можно задать не более {max} ценовых уровней',
+  'priceTier.error.quantity': 'Минимальное количество уровня должно быть целым числом от 2',
+  'priceTier.error.quantityOrder': 'Количества должны расти от уровня к уровню',
+  'priceTier.error.price': 'Цена от {quantity} шт. должна быть положительным числом',
+  'priceTier.error.priceMax': 'Цена от {quantity} шт. не может превышать {max}',
+  'priceTier.error.belowMinimum': 'Цена от {quantity} шт. не может быть ниже минимальной цены',
+  'priceTier.error.notLower': 'Цена от {quantity} шт. должна быть ниже предыдущего уровня',
+
+  'variant.error.axisName': 'Укажите название для каждого параметра варианта',
+  'variant.error.axisNamesUnique': 'Названия параметров вариантов должны различаться',
+  'variant.error.axisValues': 'Укажите хотя бы одно значение для каждого параметра (через запятую)',
+  'variant.error.tooManyValues': 'Не более {max} значений для одного параметра',
+  'variant.error.tooManyVariants': 'Не более {max} вариантов для одного товара',
+  'variant.error.price': 'Цена варианта {label} должна быть положительным числом',
+  'variant.error.priceMax': 'Цена варианта {label} не может превышать {max}',
+  'variant.error.belowMinimum': 'Цена варианта {label} не может быть ниже минимальной цены',
+
+  'cartRule.summary.minimum': 'Минимум {amount}',
+  'cartRule.summary.productRules': {
+    one: '{count} правило для товара',
+    few: '{count} правила для товаров',
+    many: '{count} правил для товаров',
+    other: '{count} правила для товаров',
+  },
+  'cartRule.summary.none': 'Нет',
+  'cartRule.error.tooMany': 'Можно задать не более {max} правил для товаров',
+  'cartRule.error.noProduct': 'Выберите товар в каждом правиле',
+  'cartRule.error.duplicate': 'Для «{name}» задано больше одного правила',
+  'cartRule.error.maxQuantity': 'Максимальное количество для «{name}» должно быть целым числом от 1 до {max}',
+  'cartRule.error.packSize': 'Размер упаковки для «{name}» должен быть целым числом от 2',
+  'cartRule.error.maxBelowPack': 'Максимальное количество для «{name}» меньше одной упаковки ({step})',
+  'cartRule.error.empty': 'Для «{name}» не задано ни одного правила',
+
+  'storeTheme.summary.default': 'По умолчанию',
+  'storeTheme.summary.colors': 'Свои цвета',
+  'storeTheme.summary.banner': 'Баннер',
+  'storeTheme.summary.welcomeText': 'Приветствие',
+  'storeTheme.summary.footer': 'Подвал',
+  'storeTheme.error.primaryColor': 'Некорректный основной цвет',
+  'storeTheme.error.accentColor': 'Некорректный дополнительный цвет',
+  'storeTheme.error.welcomeTextLength': 'Приветствие: не более {max} символов',
+  'storeTheme.error.footerTextLength': 'Текст подвала: не более {max} символов',
+  'storeTheme.error.contactPhone': 'Контактный телефон должен содержать 9–10 цифр',
+  'storeTheme.error.contactAddressLength': 'Адрес: не более {max} символов',
+
+  'delivery.summary.off': 'Выключена',
+  'delivery.summary.fee': 'Доставка {fee}',
+  'delivery.summary.free': 'Бесплатная доставка',
+  'delivery.summary.freeAbove': '{fee} · бесплатно от {threshold}',
+
+  'priceTier.editor.title': 'Цены за количество',
+  'priceTier.editor.add': '+ Добавить уровень',
+  'priceTier.editor.from': 'от',
+  'priceTier.editor.units': 'шт.',
+  'priceTier.editor.quantityLabel': 'Минимальное количество для уровня {number}',
+  'priceTier.editor.priceLabel': 'Цена за единицу для уровня {number}',
+  'priceTier.editor.remove': 'Удалить уровень',
+
+  'variant.editor.title': 'Варианты',
+  'variant.editor.hint': '(размер, цвет, упаковка... необязательно)',
+  'variant.editor.addAxis': '+ Добавить параметр',
+  'variant.editor.empty': 'Товар без вариантов продаётся по одной цене.',
+  'variant.editor.axisPlaceholder': 'Например: размер',
+  'variant.editor.axisLabel': 'Название параметра варианта {number}',
+  'variant.editor.valuesLabel': 'Значения параметра варианта {number} через запятую',
+  'variant.editor.removeAxis': 'Удалить параметр',
+  'variant.editor.count': {
+    one: '{count} вариант',
+    few: '{count} варианта',
+    many: '{count} вариантов',
+    other: '{count} варианта',
+  },
+  'variant.editor.priceHeader': 'Цена (пусто = цена товара)',
+  'variant.editor.priceLabel': 'Цена для {label}',
+
+  'pickupScheduling.title': 'Время самовывоза – {name}',
+  'pickupScheduling.enabled': 'Клиенты выбирают время самовывоза в этом филиале',
+  'pickupScheduling.windows': 'Еженедельные окна самовывоза',
+  'pickupScheduling.addWindow': '+ Добавить окно',
+  'pickupScheduling.noWindows': 'Окна самовывоза не заданы.',
+  'pickupScheduling.column.day': 'День',
+  'pickupScheduling.column.from': 'С',
+  'pickupScheduling.column.to': 'До',
+  'pickupScheduling.column.slotLength': 'Длина слота',
+  'pickupScheduling.column.capacity': 'Заказов на слот',
+  'pickupScheduling.dayLabel': 'День окна {number}',
+  'pickupScheduling.startLabel': 'Начало окна {number}',
+  'pickupScheduling.endLabel': 'Конец окна {number}',
+  'pickupScheduling.slotLengthLabel': 'Длина слота в окне {number}',
+  'pickupScheduling.minutes': '{minutes} мин',
+  'pickupScheduling.capacityLabel': 'Заказов на слот в окне {number}',
+  'pickupScheduling.removeWindow': 'Удалить окно',
+  'pickupScheduling.leadTime': 'Время подготовки (часы)',
+  'pickupScheduling.leadTimeHint': 'Самое раннее время, которое можно выбрать',
+  'pickupScheduling.bookingWindow': 'Заказ заранее до (дней)',
+  'pickupScheduling.blackoutDates': 'Нерабочие дни (праздники, отпуск)',
+  'pickupScheduling.removeDate': 'Удалить {date}',
+
+  'cartRule.editor.title': 'Правила для товаров',
+  'cartRule.editor.add': '+ Добавить правило',
+  'cartRule.editor.loadingProducts': 'Загрузка товаров...',
+  'cartRule.editor.column.product': 'Товар',
+  'cartRule.editor.column.max': 'Макс. на заказ',
+  'cartRule.editor.column.pack': 'Упаковка по',
+  'cartRule.editor.column.required': 'Обязательно',
+  'cartRule.editor.productLabel': 'Товар правила {number}',
+  'cartRule.editor.chooseProduct': 'Выберите товар',
+  'cartRule.editor.noLimit': 'Без ограничения',
+  'cartRule.editor.maxLabel': 'Максимальное количество правила {number}',
+  'cartRule.editor.packLabel': 'Размер упаковки правила {number}',
+  'cartRule.editor.remove': 'Удалить правило',
+
+  'storeTheme.editor.title': 'Оформление магазина',
+  'storeTheme.editor.primaryColor': 'Основной цвет',
+  'storeTheme.editor.accentColor': 'Дополнительный цвет',
+  'storeTheme.editor.colorHex': '{color} (hex)',
+  'storeTheme.editor.reset': 'Сбросить',
+  'storeTheme.editor.previewSort': 'Активная сортировка',
+  'storeTheme.editor.adjusted': 'Оттенок скорректирован, чтобы текст был читаемым',
+  'storeTheme.editor.banner': 'Баннер магазина',
+  'storeTheme.editor.replaceBanner': 'Заменить баннер',
+  'storeTheme.editor.removeBanner': 'Удалить баннер',
+  'storeTheme.editor.chooseBanner': 'Выберите изображение баннера',
+  'storeTheme.editor.bannerHint': 'JPEG, PNG, WebP. Максимальный размер: 5MB. Рекомендуемое соотношение сторон 4:1.',
+  'storeTheme.editor.welcomeText': 'Приветствие',
+  'storeTheme.editor.welcomePlaceholder': 'Добро пожаловать в наш магазин!',
+  'storeTheme.editor.footerText': 'Текст подвала',
+  'storeTheme.editor.footerPlaceholder': 'Часы работы: вс–чт 8:00-17:00',
+  'storeTheme.editor.contactPhone': 'Контактный телефон',
+  'storeTheme.editor.contactEmail': 'Контактный email',
+  'storeTheme.editor.contactAddress': 'Адрес для показа',
+
+  'orderView.title': 'Детали заказа',
+  'orderView.id': 'ID #{id}',
+  'orderView.customer': 'Данные клиента',
+  'orderView.name': 'Имя',
+  'orderView.phone': 'Телефон',
+  'orderView.email': 'Email',
+  'orderView.address': 'Адрес',
+  'orderView.city': 'Город',
+  'orderView.noCustomer': 'Данных клиента пока нет',
+  'orderView.location': 'Филиал',
+  'orderView.instructions': 'Инструкции',
+  'orderView.noDeliveryAddress': 'Адрес доставки не указан',
+  'orderView.pickupSlot': 'Время самовывоза',
+  'orderView.noLocation': 'Филиал ещё не выбран',
+  'orderView.products': 'Товары',
+  'orderView.noProducts': 'Товаров пока нет',
+  'orderView.quantity': 'Количество: {quantity}',
+  'orderView.perUnit': '{price} за единицу',
+  'orderView.creditedProducts': 'Возвращённые товары',
+  'orderView.noCreditedProducts': 'Возвращённых товаров пока нет',
+  'orderView.creditedQuantity': 'Возвращено: {quantity}',
+  'orderView.summary': 'Итоги заказа',
+  'orderView.totalItems': 'Всего позиций',
+  'orderView.totalQuantity': 'Общее количество',
+  'orderView.price': 'Цена',
+  'orderView.discount': 'Скидка',
+  'orderView.deliveryFee': 'Стоимость доставки',
+  'orderView.credits': 'Возвраты',
+  'orderView.total': 'Итоговая цена',
+  'orderView.notes': 'Примечания',
+  'orderView.noNotes': 'Примечаний нет',
+  'orderView.moreInfo': 'Дополнительно',
+  'orderView.reference': 'Номер ссылки',
+  'orderView.createdAt': 'Создан:',
+  'orderView.placedAt': 'Оформлен:',
+  'orderView.doneAt': 'Выполнен:',
+  'orderView.expiresAt': 'Истекает:',
+  'orderView.documents': 'Счета и документы',
+  'orderView.noDocuments': 'Счетов пока нет',
+  'orderView.creditNote': 'Возврат',
+  'orderView.invoice': 'Счёт',
+  'orderView.openPdf': 'Открыть PDF',
+  'orderView.noPdf': 'Нет PDF',
+  'orderView.cancel': 'Отменить заказ',
+  'orderView.cancelling': 'Отмена...',
+  'orderView.edit': 'Изменить заказ',
+  'orderView.addDiscount': 'Добавить скидку',
+  'orderView.markDone': 'Отметить выполненным',
+  'orderView.marking': 'Сохранение...',
+  'orderView.loadingInvoice': 'Загрузка данных счёта…',
+  'orderView.createCreditNoteTitle': 'Создать налоговую кредит-ноту',
+  'orderView.createCreditNote': 'Оформить возврат',
+  'orderView.openInOrders': 'Открыть в заказах',
+
+  'invoice.orderNumber': 'Заказ #{id}',
+  'invoice.title': 'Создать счёт',
+  'invoice.creating': 'Создание...',
+  'invoice.orderTotal': 'Сумма заказа',
+  'invoice.allocationNeeded': 'Для этого заказа нужен номер распределения',
+  'invoice.allocationNotNeeded': 'Для этого заказа номер распределения не нужен',
+  'invoice.paymentMethod': 'Способ оплаты',
+  'invoice.cash': 'Наличные',
+  'invoice.creditCard': 'Кредитная карта',
+  'invoice.allocationData': 'Данные для получения номера распределения',
+  'invoice.data.reference': 'Номер ссылки: {value}',
+  'invoice.data.customerId': 'ID клиента: {value}',
+  'invoice.data.notAvailable': 'Нет данных',
+  'invoice.data.date': 'Дата: {value}',
+  'invoice.data.amountBeforeVat': 'Сумма сделки без НДС: {value}',
+  'invoice.cardLast4': 'Последние 4 цифры карты',
+  'invoice.cardLast4Hint': 'Введите только 4 цифры',
+  'invoice.allocationNumber': 'Номер распределения',
+  'invoice.allocationHelp': 'Подробнее о номере распределения',
+  'invoice.allocationHelpText': 'Для заказов на сумму больше {amount} нужен номер распределения.',
+  'invoice.allocationHelpLink': 'Как получить номер распределения (видео)',
+  'invoice.allocationPlaceholder': 'Введите 9 цифр',
+  'invoice.allocationHint': 'Введите ровно 9 цифр',
+  'invoice.error.allocationRequired': 'Номер распределения обязателен',
+  'invoice.error.allocationLength': 'Номер распределения должен содержать ровно 9 цифр',
+  'invoice.error.allocationDigits': 'Номер распределения должен содержать только цифры',
+  'invoice.error.cardLast4': 'Введите последние 4 цифры карты',
+  'invoice.error.cardDigits': 'Последние 4 символа должны быть цифрами',
+
+  'creditNote.title': 'Создать налоговую кредит-ноту',
+  'creditNote.type': 'Тип возврата',
+  'creditNote.byAmount': 'Возврат суммы',
+  'creditNote.byOrder': 'Возврат по товарам заказа',
+  'creditNote.grossTotal': 'Сумма заказа (до возвратов)',
+  'creditNote.alreadyCredited': 'Уже возвращено',
+  'creditNote.balance': 'Остаток',
+  'creditNote.amount': 'Сумма возврата (₪)',
+  'creditNote.amountHint':
+    'Только цифры и десятичная точка, не более двух знаков после точки. Максимум для заказа: {max}',
+  'creditNote.allocation': 'Номер распределения (9 цифр)',
+  'creditNote.notes': 'Примечания к возврату (необязательно)',
+  'creditNote.notesPlaceholder': 'Добавьте примечания для документа возврата...',
+  'creditNote.sending': 'Отправка…',
+  'creditNote.create': 'Оформить возврат',
+  'creditNote.createByProducts': 'Оформить возврат по товарам',
+  'creditNote.productsAmount': 'Сумма возврата по товарам',
+  'creditNote.maxForOrder': 'Максимальный возврат по заказу',
+  'creditNote.overMax': 'Выбранная сумма возврата превышает допустимый максимум по заказу.',
+  'creditNote.column.product': 'Товар',
+  'creditNote.column.ordered': 'В заказе',
+  'creditNote.column.credited': 'Возвращено',
+  'creditNote.column.toCredit': 'К возврату',
+  'creditNote.column.amount': 'Сумма',
+  'creditNote.remaining': 'Осталось: {count}',
+  'creditNote.error.amount': 'Введите положительную сумму',
+  'creditNote.error.noProducts': 'Выберите хотя бы один товар для возврата',
+  'creditNote.error.max': 'Сумма не может превышать {max}',
+  'creditNote.error.allocation': 'Номер распределения должен содержать 9 цифр',
+  'creditNote.error.notes': 'Примечания: не более {max} символов',
+
+  'placeholder.street': 'ул. Главная, 123',
+  'placeholder.city': 'Тель-Авив',
+
+  'image.choose': 'Выберите изображение или перетащите его',
+  'image.dropHere': 'Отпустите изображение здесь',
+  'image.change': 'Сменить изображение',
+  'image.replace': 'Замените изображение или перетащите новое',
+  'image.current': 'Текущее изображение:',
+  'image.remove': 'Удалить изображение',
+  'image.willBeRemoved': 'Изображение будет удалено',
+  'image.undoRemove': 'Отменить удаление',
+  'image.hint': 'JPEG, PNG, WebP. Максимальный размер: 5MB.',
+  'image.error.type': 'Недопустимый тип файла. Выберите изображение JPEG, PNG или WebP.',
+  'image.error.size': 'Размер файла превышает 5MB.',
+  'image.error.read': 'Не удалось прочитать файл для вычисления контрольной суммы',
+  'image.error.upload': 'Не удалось загрузить изображение в S3',
+
+  'business.edit.title': 'Изменить данные бизнеса',
+  'business.edit.email': 'Email бизнеса',
+  'business.edit.delivery': 'Доставка клиентам',
+  'business.edit.deliveryHint': 'Если включено, клиенты могут выбрать доставку вместо самовывоза при заказе.',
+  'business.edit.deliveryFee': 'Стоимость доставки (₪)',
+  'business.edit.freeDeliveryThreshold': 'Бесплатная доставка от (₪)',
+  'business.edit.minimumOrderTotal': 'Минимальная сумма заказа (₪)',
+  'business.edit.none': 'Нет',
+  'business.edit.inventory': 'Учёт остатков',
+  'business.edit.inventoryHint':
+    'Если включено, остатки ведутся по филиалам на странице товаров, автоматически уменьшаются при выполнении заказа, а магазин показывает «Нет в наличии» / «Осталось всего …».',
+  'business.edit.blockUnavailable': 'Не разрешать заказ больше остатка',
+  'business.edit.deliveryLocation': 'Филиал, откуда отправляются доставки',
+  'business.edit.noDeliveryLocation': 'Нет – доставки не уменьшают остатки',
+  'business.edit.linkLifetime': 'Срок действия ссылки на заказ по умолчанию',
+  'business.edit.linkLifetimeHint':
+    'Новые ссылки истекают в конце этого срока, если при создании заказа не выбран другой.',
+  'business.edit.image': 'Изображение бизнеса',
+  'business.edit.currentImageAlt': 'Текущее изображение бизнеса',
+  'business.edit.previewImageAlt': 'Предпросмотр изображения бизнеса',
+  'business.loading': 'Загрузка данных бизнеса...',
+  'business.loadError': 'Ошибка загрузки данных бизнеса',
+  'business.notFound': 'Данные бизнеса не найдены',
+  'business.notFoundHint': 'Для этой учётной записи не зарегистрирован бизнес',
+  'business.noImage': 'Нет изображения',
+  'business.subtitle': 'Сведения о бизнесе',
+  'business.delivery': 'Доставка',
+  'business.cartRules': 'Правила корзины',
+  'business.orderLinks': 'Ссылки на заказ',
+  'business.registeredAt': 'Дата регистрации',
+  'business.updatedAt': 'Последнее обновление',
+
+  'businessInfo.statsFor': 'Статистика за {month}',
+  'businessInfo.orderLinks': 'Заказы по агентам',
+  'businessInfo.manager': 'Менеджер',
+  'businessInfo.total': 'Итого',
+  'businessInfo.income': 'Выручка',
+  'businessInfo.completedOrders': 'Выполненные заказы',
+  'businessInfo.yearlyOverview': 'Обзор за год - {year}',
+  'businessInfo.chart.ordersTooltip': {
+    one: '{month}: {count} заказ',
+    few: '{month}: {count} заказа',
+    many: '{month}: {count} заказов',
+    other: '{month}: {count} заказа',
+  },
+  'businessInfo.chart.revenue': 'Выручка: {amount}',
+  'businessInfo.chart.orders': 'Заказы: {count}',
+  'businessInfo.chart.revenueLegend': 'Выручка',
+  'businessInfo.error.links': 'Не удалось загрузить созданные ссылки',
+  'businessInfo.error.income': 'Не удалось загрузить месячную выручку',
+  'businessInfo.error.completedOrders': 'Не удалось загрузить количество выполненных заказов',
+  'businessInfo.error.yearly': 'Не удалось загрузить годовые данные',
+
+  'login.required': 'Обязательное поле',
+  'login.rememberMe': 'Запомнить меня',
+  'login.submit': 'Войти',
+  'login.signingIn': 'Вход...',
+  'login.success': 'Вход выполнен',
+  'login.signInHere': 'Войти здесь',
+  'login.backHome': '← На главную',
+  'login.backHomeLabel': 'Вернуться на главную',
+  'login.error.emailRequired': 'Введите ваш email',
+  'login.error.passwordRequired': 'Введите ваш пароль',
+  'login.error.invalid': 'Неверный email или пароль',
+  'login.manager.title': 'Портал менеджера',
+  'login.manager.subtitle': 'Войдите в учётную запись',
+  'login.manager.wantAccount': 'Нужна учётная запись?',
+  'login.manager.contact': 'Свяжитесь с нами',
+  'login.manager.contactLabel': 'Свяжитесь с администратором по телефону {phone}',
+  'login.manager.adminPhone': 'Телефон администратора: {phone}',
+  'login.manager.phoneCopied': 'Номер телефона скопирован!',
+  'login.manager.isAgent': 'Вы агент?',
+  'login.manager.agentLoginLabel': 'Вход для агентов',
+  'login.agent.title': 'Портал агента',
+  'login.agent.subtitle': 'Войдите, чтобы увидеть свои задачи',
+  'login.agent.submitLabel': 'Войти в учётную запись агента',
+  'login.agent.backToManager': 'Вернуться ко входу для менеджеров?',
+  'login.agent.backToManagerLabel': 'Вернуться ко входу для менеджеров',
+
+  'skipLinks.main': 'Перейти к основному содержимому',
+  'skipLinks.navigation': 'Перейти к навигации',
+  'cookieConsent.title': 'Использование файлов cookie',
+  'cookieConsent.description':
+    'Мы используем файлы cookie, чтобы сделать работу с сайтом удобнее. Продолжая пользоваться сайтом, вы соглашаетесь на использование файлов cookie в соответствии с',
+  'cookieConsent.policyLink': 'нашей политикой использования файлов cookie',
+  'cookieConsent.reject': 'Отклонить',
+  'cookieConsent.rejectLabel': 'Отклонить cookie - отказаться от всех необязательных файлов cookie',
+  'cookieConsent.accept': 'Принять',
+  'cookieConsent.acceptLabel': 'Принять cookie - разрешить все типы файлов cookie',
+
+  'a11y.open': 'Открыть меню доступности',
+  'a11y.menu': 'Меню доступности',
+  'a11y.close': 'Закрыть меню доступности',
+  'a11y.title': 'Настройки доступности',
+  'a11y.fontSize': 'Размер шрифта',
+  'a11y.fontSample': 'А',
+  'a11y.contrast': 'Контраст',
+  'a11y.spacing': 'Интервалы',
+  'a11y.level.small': 'Мелкий',
+  'a11y.level.normal': 'Обычный',
+  'a11y.level.large': 'Крупный',
+  'a11y.level.extraLarge': 'Очень крупный',
+  'a11y.level.high': 'Высокий',
+  'a11y.level.increased': 'Увеличенный',
+  'a11y.announce.fontSize': 'Размер шрифта изменён: {level}',
+  'a11y.announce.contrast': 'Контраст изменён: {level}',
+  'a11y.announce.spacing': 'Интервалы изменены: {level}',
+  'a11y.announce.reset': 'Настройки доступности сброшены по умолчанию',
+  'a11y.reset': 'Сбросить настройки',
+  'a11y.statement': 'Заявление о доступности',
+  'a11y.reportIssue': 'Сообщить о проблеме доступности: {phone}',
+
+  'home.logoAlt': 'אורדרית - система управления заказами',
+  'home.title': 'Система управления заказами',
+  'home.subtitle': 'Управление бизнесом, клиентами, товарами и заказами',
+  'home.managerHint': 'Войдите, чтобы управлять своим бизнесом',
+  'home.agentHint': 'Войдите в учётную запись агента',
+  'home.features.title': 'Всё необходимое для управления бизнесом',
+  'home.features.subtitle': 'Комплексное профессиональное решение в одном месте',
+  'home.dashboard.imageAlt': 'Панель управления - профиль и личные данные',
+  'home.dashboard.title': 'Полноценная панель управления',
+  'home.dashboard.description':
+    'Управляйте всеми аспектами бизнеса из одного места - все инструменты для профессиональной работы',
+  'home.orders.imageAlt': 'Управление заказами - создание, редактирование и отслеживание',
+  'home.orders.title': 'Управление заказами',
+  'home.orders.description':
+    'Создавайте заказы, отслеживайте статусы, делитесь ссылками с клиентами и выставляйте счета',
+  'home.orders.create': 'Создание новых и управление существующими заказами',
+  'home.orders.statuses': 'Отслеживание статусов - пустой, заказан, выполнен, отменён',
+  'home.orders.links': 'Ссылки для клиентов, чтобы они завершали заказы',
+  'home.orders.invoices': 'Счета и индивидуальные скидки',
+  'home.catalog.imageAlt': 'Управление товарами - полный каталог с фото и ценами',
+  'home.catalog.title': 'Каталог товаров',
+  'home.catalog.description': 'Ведите каталог, добавляйте товары, обновляйте цены и распределяйте по категориям',
+  'home.catalog.products': 'Управление товарами - добавление, изменение и удаление',
+  'home.catalog.categories': 'Категории и бренды - порядок в товарах',
+  'home.catalog.prices': 'Специальные цены - скидки для клиентов и агентов',
+  'home.catalog.images': 'Фото товаров - галерея изображений для каждого товара',
+  'home.contact.title': 'Связаться с нами',
+  'home.contact.subtitle': 'С радостью ответим на любой вопрос',
+  'home.contact.callLabel': 'Позвонить по номеру {phone}',
+
+  'legal.lastUpdated': 'Последнее обновление: {date}',
+  'legal.phone': 'Телефон:',
+  'legal.website': 'Сайт:',
+  'legal.hours': 'Часы работы: воскресенье-четверг 09:00-17:00',
+  'legal.backHome': 'Вернуться на главную',
+  'legal.purpose': 'Назначение:',
+  'legal.validity': 'Срок действия:',
+  'accessibilityStatement.intro.title': 'Введение',
+  'accessibilityStatement.intro.law':
+    'Система управления заказами обязуется предоставлять доступный и равный сервис всем пользователям в соответствии с Законом о равных правах людей с инвалидностью (1998) и Положениями о доступности услуг (2013).',
+  'accessibilityStatement.intro.wcag':
+    'Сайт соответствует стандарту W3C WCAG 2.2 Level AA - международному стандарту доступности веб-сайтов.',
+  'accessibilityStatement.features.title': 'Функции доступности',
+  'accessibilityStatement.features.intro': 'Сайт включает следующие функции для улучшения доступности:',
+  'accessibilityStatement.features.keyboard': 'Полная навигация с клавиатуры - все функции доступны с клавиатуры',
+  'accessibilityStatement.features.screenReaders':
+    'Поддержка экранных дикторов - полная поддержка NVDA, JAWS и VoiceOver',
+  'accessibilityStatement.features.skipLinks': 'Ссылки пропуска - переход сразу к основному содержимому или навигации',
+  'accessibilityStatement.features.fontSize':
+    'Настройка размера шрифта - увеличение текста (мелкий, обычный, крупный, очень крупный)',
+  'accessibilityStatement.features.contrast': 'Настройка контраста - усиление контраста между текстом и фоном',
+  'accessibilityStatement.features.spacing':
+    'Настройка интервалов - увеличение расстояния между буквами, словами и элементами',
+  'accessibilityStatement.features.altText':
+    'Изображения с альтернативным текстом - у каждого изображения есть описание',
+  'accessibilityStatement.features.tables': 'Доступные таблицы - с заголовками, подписями и правильной структурой',
+  'accessibilityStatement.features.forms':
+    'Доступные формы - у всех полей есть подписи, сообщения об ошибках и инструкции',
+  'accessibilityStatement.features.modals':
+    'Доступные диалоги - модальные окна с удержанием фокуса и навигацией с клавиатуры',
+  'accessibilityStatement.standards.title': 'Соответствие стандартам',
+  'accessibilityStatement.standards.intro': 'Сайт соответствует следующим требованиям:',
+  'accessibilityStatement.standards.wcag': 'Международный стандарт доступности веб-сайтов',
+  'accessibilityStatement.standards.israeliStandard': 'Израильский стандарт 5568',
+  'accessibilityStatement.standards.israeliStandardDescription': 'Рекомендации по доступности веб-контента',
+  'accessibilityStatement.standards.law': 'Закон о равных правах людей с инвалидностью',
+  'accessibilityStatement.standards.lawYear': '1998',
+  'accessibilityStatement.standards.regulations': 'Положения о доступности услуг',
+  'accessibilityStatement.standards.regulationsYear': '2013',
+  'accessibilityStatement.knownIssues.title': 'Известные проблемы',
+  'accessibilityStatement.knownIssues.text':
+    'На дату этого обновления существенных проблем доступности на сайте не выявлено. Если вы обнаружите проблему, свяжитесь с нами по контактам ниже.',
+  'accessibilityStatement.contact.title': 'Сообщить о проблемах доступности',
+  'accessibilityStatement.contact.text':
+    'Если вы столкнулись с проблемой доступности на сайте или у вас есть предложения по улучшению, свяжитесь с нами:',
+  'accessibilityStatement.contact.response': 'Мы стараемся отвечать на каждое обращение в течение 5 рабочих дней.',
+  'accessibilityStatement.enforcement.title': 'Порядок обжалования',
+  'accessibilityStatement.enforcement.intro': 'Если вы не получили удовлетворительного ответа, вы можете обратиться в:',
+  'accessibilityStatement.enforcement.commission': 'Комиссия по равным правам людей с инвалидностью',
+  'accessibilityStatement.widget.title': 'Виджет доступности',
+  'accessibilityStatement.widget.intro': 'На сайте есть виджет доступности, который позволяет настроить:',
+  'accessibilityStatement.widget.fontSize': 'Размер шрифта (мелкий, обычный, крупный, очень крупный)',
+  'accessibilityStatement.widget.contrast': 'Уровень контраста (обычный, высокий)',
+  'accessibilityStatement.widget.spacing': 'Интервалы (обычные, увеличенные)',
+  'accessibilityStatement.widget.location':
+    'Виджет находится в левом нижнем углу экрана. Его также можно открыть сочетанием клавиш Alt + A (или Option + A на Mac).',
+  'cookiesPolicy.title': 'Политика использования файлов cookie',
+  'cookiesPolicy.what.title': 'Что такое файлы cookie?',
+  'cookiesPolicy.what.text':
+    'Файлы cookie - это небольшие текстовые файлы, которые сохраняются на вашем устройстве (компьютере, телефоне, планшете) при посещении сайтов. Они позволяют сайту запоминать ваши предпочтения и делать работу с ним удобнее.',
+  'cookiesPolicy.types.title': 'Какие файлы cookie мы используем',
+  'cookiesPolicy.essential.title': 'Необходимые файлы cookie',
+  'cookiesPolicy.essential.text':
+    'Эти файлы cookie необходимы для работы сайта, без них он не может функционировать. Обычно они устанавливаются в ответ на ваши действия, например настройку конфиденциальности, вход или заполнение форм.',
+  'cookiesPolicy.essential.purpose': 'Сохранение настроек доступности, состояния входа и корзины',
+  'cookiesPolicy.essential.validity': 'До года или до удаления вручную',
+  'cookiesPolicy.performance.title': 'Файлы cookie производительности',
+  'cookiesPolicy.performance.text':
+    'Эти файлы cookie позволяют нам подсчитывать посещения и определять источники трафика, чтобы улучшать работу сайта. Они помогают понять, какие страницы популярнее всего, а какие - меньше всего, и как пользователи перемещаются по сайту.',
+  'cookiesPolicy.performance.purpose': 'Улучшение работы сайта, анализ сценариев использования',
+  'cookiesPolicy.functional.title': 'Функциональные файлы cookie',
+  'cookiesPolicy.functional.text':
+    'Эти файлы cookie позволяют сайту предоставлять расширенные функции и услуги. Если вы их запретите, некоторые функции могут не работать.',
+  'cookiesPolicy.functional.purpose': 'Сохранение пользовательских настроек и настроек доступности',
+  'cookiesPolicy.validity.year': 'До года',
+  'cookiesPolicy.usage.title': 'Как мы используем файлы cookie',
+  'cookiesPolicy.usage.accessibility': 'Для сохранения настроек доступности (размер шрифта, контраст, интервалы)',
+  'cookiesPolicy.usage.session': 'Для сохранения состояния входа',
+  'cookiesPolicy.usage.cart': 'Для сохранения корзины',
+  'cookiesPolicy.usage.performance': 'Для улучшения работы сайта',
+  'cookiesPolicy.usage.analytics': 'Для анализа сценариев использования',
+  'cookiesPolicy.manage.title': 'Управление файлами cookie',
+  'cookiesPolicy.manage.intro': 'Вы можете управлять файлами cookie следующими способами:',
+  'cookiesPolicy.manage.browser': 'Настройки браузера:',
+  'cookiesPolicy.manage.browserText':
+    'Большинство браузеров позволяют управлять файлами cookie в меню настроек. Вы можете удалить существующие файлы или запретить их сохранение.',
+  'cookiesPolicy.manage.widget': 'Виджет доступности:',
+  'cookiesPolicy.manage.widgetText':
+    'Вы можете управлять файлами cookie через виджет доступности на сайте (левый нижний угол).',
+  'cookiesPolicy.manage.manual': 'Удаление вручную:',
+  'cookiesPolicy.manage.manualText': 'Вы можете удалить файлы cookie в любое время в настройках браузера.',
+  'cookiesPolicy.manage.note': 'Обратите внимание:',
+  'cookiesPolicy.manage.noteText':
+    'Удаление файлов cookie может повлиять на работу сайта. Например, вам может понадобиться снова войти в систему, а настройки доступности могут быть сброшены.',
+  'cookiesPolicy.thirdParty.title': 'Сторонние файлы cookie',
+  'cookiesPolicy.thirdParty.text':
+    'Сейчас наш сайт не использует сторонние файлы cookie. Если в будущем мы подключим сторонние сервисы, мы обновим эту политику.',
+  'cookiesPolicy.updates.title': 'Изменения политики',
+  'cookiesPolicy.updates.text':
+    'Мы можем время от времени обновлять эту политику. Все изменения будут публиковаться на этой странице с датой обновления. Рекомендуем периодически проверять эту страницу.',
+  'cookiesPolicy.contact.title': 'Контакты',
+  'cookiesPolicy.contact.text':
+    'Если у вас есть вопросы о нашей политике использования файлов cookie, свяжитесь с нами:',
+
+  'locations.title': 'Филиалы',
+  'locations.subtitle': 'Управляйте филиалами вашего бизнеса',
+  'locations.loading': 'Загрузка филиалов...',
+  'locations.loadError': 'Ошибка при загрузке филиалов',
+  'locations.add': 'Добавить филиал',
+  'locations.empty': 'Филиалов пока нет',
+  'locations.emptyHint': 'Начните с добавления первого филиала',
+  'locations.addFirst': 'Добавьте первый филиал',
+  'locations.pickupWindows': {
+    one: 'Время самовывоза: {count} окно в неделю',
+    few: 'Время самовывоза: {count} окна в неделю',
+    many: 'Время самовывоза: {count} окон в неделю',
+    other: 'Время самовывоза: {count} окна в неделю',
+  },
+  'locations.pickupAnyTime': 'Самовывоз в любое время',
+  'locations.pickupTimes': 'Время самовывоза',
+  'locations.edit': 'Изменить филиал',
+  'locations.delete': 'Удалить филиал',
+  'locations.deleteConfirm': 'Вы уверены, что хотите удалить {name}? Это действие нельзя отменить.',
+  'locations.deleteWarning': 'Заказы, товары и клиенты, связанные с этим филиалом, больше не будут к нему привязаны.',
+  'locations.error.lastLocation': 'Должен остаться хотя бы один филиал. Последний филиал удалить нельзя.',
+  'locationForm.addTitle': 'Новый филиал',
+  'locationForm.namePlaceholder': 'Например: Главный филиал, Центральный филиал',
+  'locationForm.create': 'Создать филиал',
+
+  'list.pageSize': 'Показать:',
+  'list.page': 'Страница',
+  'list.sortBy': 'Сортировка:',
+  'list.sort.ascending': 'А → Я',
+  'list.sort.descending': 'Я → А',
+  'list.filter.agent': 'Агент:',
+  'list.filter.all': 'Все',
+  'list.me': 'Я',
+  'list.unknownAgent': 'Неизвестный агент',
+  'list.clearSearch': 'Очистить поиск',
+
+  'customers.title': 'Клиенты',
+  'customers.subtitle': {
+    one: 'Управляйте {count} клиентом вашей команды продаж.',
+    few: 'Управляйте {count} клиентами вашей команды продаж.',
+    many: 'Управляйте {count} клиентами вашей команды продаж.',
+    other: 'Управляйте {count} клиентами вашей команды продаж.',
+  },
+  'customers.loading': 'Загрузка клиентов...',
+  'customers.loadError': 'Ошибка при загрузке клиентов',
+  'customers.normalizeAddresses': 'Исправить адреса',
+  'customers.add': 'Добавить клиента',
+  'customers.sortAscending': 'Сортировать клиентов по возрастанию',
+  'customers.sortDescending': 'Сортировать клиентов по убыванию',
+  'customers.searchPlaceholder': 'Поиск клиентов по имени, email, телефону или агенту...',
+  'customers.empty.filtered': 'Нет клиентов, подходящих под фильтры',
+  'customers.empty.filteredHint': 'Попробуйте изменить запрос или сбросить фильтры.',
+  'customers.empty.none': 'Клиентов пока нет',
+  'customers.empty.noneHint': 'Вы ещё не добавили клиентов. Начните с создания первого клиента.',
+  'customers.table.label': 'Таблица клиентов',
+  'customers.table.caption':
+    'Таблица клиентов с именем, email, телефоном, городом, агентом, процентом скидки и действиями',
+  'customers.column.name': 'Имя',
+  'customers.column.email': 'Email',
+  'customers.column.phone': 'Телефон',
+  'customers.column.city': 'Город',
+  'customers.column.address': 'Адрес',
+  'customers.column.agent': 'Агент',
+  'customers.column.discount': 'Скидка',
+  'customers.column.actions': 'Действия',
+  'customers.actionsFor': 'Действия для клиента {name}',
+  'customers.editNamed': 'Изменить клиента {name}',
+  'customers.deleteNamed': 'Удалить клиента {name}',
+
+  'customerForm.addTitle': 'Новый клиент',
+  'customerForm.editTitle': 'Изменить клиента',
+  'customerForm.editDescription': 'Обновите контактные данные: {name}',
+  'customerForm.email': 'Адрес email',
+  'customerForm.namePlaceholder': 'например: Иван Коэн',
+  'customerForm.phonePlaceholder': 'например: 0501234567',
+  'customerForm.emailPlaceholder': 'например: ivan@example.com',
+  'customerForm.streetPlaceholder': 'например: ул. Герцля, 123',
+  'customerForm.cityPlaceholder': 'например: Тель-Авив',
+  'customerForm.stateIdHint': 'Введите ровно 9 цифр',
+  'customerForm.create': 'Создать клиента',
+  'customerForm.update': 'Обновить клиента',
+
+  'customerDelete.title': 'Удалить клиента',
+  'customerDelete.about': 'Вы собираетесь удалить клиента:',
+  'customerDelete.warning':
+    '⚠️ Это действие нельзя отменить. Все заказы и специальные цены этого клиента будут затронуты.',
+  'customerDelete.prompt': 'Введите «{phrase}», чтобы подтвердить удаление:',
+  'customerDelete.phrase': 'Я понимаю',
+  'customerDelete.confirmNamed': 'Вы уверены, что хотите удалить {name}?',
+  'customerDelete.thisCustomer': 'этого клиента',
+  'customerDelete.agentWarning':
+    'Это действие нельзя отменить. Его данные и все связанные специальные цены будут удалены навсегда.',
+
+  'customerDetail.missingId': 'Не указан идентификатор клиента.',
+  'customerDetail.error.notFound': 'Клиент не найден или нет доступа',
+  'customerDetail.error.load': 'Ошибка при загрузке клиента',
+  'customerDetail.backToList': 'Назад к списку клиентов',
+  'customerDetail.back': 'Назад к клиентам',
+  'customerDetail.email': 'Email:',
+  'customerDetail.phone': 'Телефон:',
+  'customerDetail.city': 'Город:',
+  'customerDetail.discount': 'Скидка:',
+  'customerDetail.newLink.title': 'Ссылка на новый заказ',
+  'customerDetail.newLink.creating': 'Создание заказа',
+  'customerDetail.newLink.created': 'Заказ создан ✓ Скопировано!',
+  'customerDetail.newLink.createAnother': 'Создать новую ссылку',
+  'customerDetail.newLink.create': 'Создать ссылку на новый заказ',
+  'customerDetail.orders.title': 'Заказы клиента',
+  'customerDetail.orders.empty': 'У этого клиента нет заказов.',
+  'customerDetail.orders.tableLabel': 'Заказы клиента',
+  'customerDetail.orders.column.status': 'Статус',
+  'customerDetail.orders.column.source': 'Источник',
+  'customerDetail.orders.column.createdAt': 'Дата создания',
+  'customerDetail.orders.column.total': 'Итого',
+  'customerDetail.orders.column.actions': 'Действия',
+  'customerDetail.orders.discount': '(скидка {amount})',
+  'customerDetail.orders.discountLabel': 'Скидка {amount}',
+  'customerDetail.orders.credited': '(возврат {amount})',
+  'customerDetail.orders.creditedLabel': 'Возврат {amount}',
+  'customerDetail.orders.viewInvoice': 'Открыть счёт',
+  'customerDetail.orders.createInvoice': 'Создать счёт',
+  'customerDetail.updateDiscount': 'Обновить скидку',
+  'customerDetail.overrides.title': 'Специальные цены клиента',
+  'customerDetail.overrides.subtitle': 'Индивидуальные цены на товары для этого клиента',
+  'customerDetail.overrides.empty': 'Для этого клиента не заданы специальные цены.',
+
+  'override.add': 'Добавить специальную цену',
+  'override.create': 'Создать специальную цену',
+  'override.editTitle': 'Изменение специальной цены',
+  'override.editLabel': 'Изменить специальную цену',
+  'override.delete': 'Удалить специальную цену',
+  'override.deleteConfirm': 'Вы уверены, что хотите удалить эту специальную цену?',
+  'override.column.agent': 'Агент',
+  'override.column.product': 'Товар',
+  'override.column.minimumPrice': 'Минимальная цена',
+  'override.column.overridePrice': 'Индивидуальная цена',
+  'override.column.actions': 'Действия',
+  'override.customer': 'Клиент:',
+  'override.product': 'Товар',
+  'override.productLabel': 'Товар:',
+  'override.originalPrice': 'Исходная цена:',
+  'override.overridePriceLabel': 'Индивидуальная цена:',
+  'override.minimumPrice': 'Минимальная цена: {price}',
+  'override.basePrice': 'Базовая цена: {price}',
+  'override.price': 'Индивидуальная цена',
+  'override.newPrice': 'Новая индивидуальная цена',
+  'override.searchProducts': 'Поиск товаров...',
+  'override.searchProductsLabel': 'Поиск товаров',
+  'override.noProducts': 'Товары не найдены',
+  'override.loadingProducts': 'Загрузка товаров...',
+  'override.noProductsToShow': 'Нет товаров для показа',
+  'override.error.productRequired': 'Выберите товар',
+  'override.error.priceRequired': 'Введите индивидуальную цену',
+  'override.error.priceInvalid': 'Индивидуальная цена должна быть корректным положительным числом',
+  'override.error.priceMax': 'Индивидуальная цена не может превышать {max}',
+  'override.error.priceDecimals': 'Индивидуальная цена может иметь не более 2 знаков после запятой',
+  'override.error.load': 'Не удалось загрузить специальные цены',
+  'override.error.update': 'Не удалось обновить',
+  'override.error.delete': 'Не удалось удалить',
+  'override.error.create': 'Не удалось создать',
+  'override.column.customer': 'Клиент',
+  'override.customerField': 'Клиент',
+  'override.customerLabel': 'Клиент:',
+  'override.selectCustomer': 'Выберите клиента',
+  'override.appliesTo': 'Применяется к',
+  'override.allVariants': 'Все варианты',
+  'override.variantHint': 'Цена для конкретного варианта имеет приоритет над ценой для всего товара.',
+  'override.update': 'Обновить специальную цену',
+  'override.error.customerRequired': 'Выберите клиента',
+
+  'overrides.title': 'Специальные цены',
+  'overrides.subtitle': 'Управляйте индивидуальными ценами для клиентов',
+  'overrides.note': 'Специальные цены применяются до процентной скидки клиента.',
+  'overrides.loading': 'Загрузка специальных цен...',
+  'overrides.empty.filtered': 'Подходящих специальных цен не найдено',
+  'overrides.empty.filteredHint': 'Для выбранных фильтров специальные цены не найдены.',
+  'overrides.clearFilter': 'Сбросить фильтр',
+  'overrides.empty.none': 'Специальных цен пока нет',
+  'overrides.empty.noneHint':
+    'Вы ещё не задали индивидуальные цены для клиентов. Нажмите кнопку ниже, чтобы создать первую специальную цену.',
+  'overrides.addFirst': 'Добавьте первую специальную цену',
+  'overrides.table.label': 'Таблица специальных цен',
+  'overrides.table.caption':
+    'Таблица специальных цен с клиентом, агентом, товаром, минимальной ценой, индивидуальной ценой и действиями',
+  'overrides.actionsFor': 'Действия со специальной ценой для {customer}',
+  'overrides.editNamed': 'Изменить специальную цену для {customer} - {target}',
+  'overrides.deleteNamed': 'Удалить специальную цену для {customer} - {target}',
+
+  'agentOverrides.title': 'Мои специальные цены',
+  'agentOverrides.subtitle': 'Настраивайте цены для своих клиентов',
+  'agentOverrides.empty.noneHint':
+    'Вы ещё не задали индивидуальные цены для своих клиентов. Нажмите кнопку выше, чтобы создать первую специальную цену.',
+  'agentOverrides.table.caption':
+    'Таблица специальных цен: клиент, товар, минимальная цена, специальная цена и действия',
+  'agentOverrides.basePrice': 'Базовая цена',
+  'agentOverrides.minimumPriceLabel': 'Минимальная цена:',
+  'agentOverrides.basePriceLabel': 'Базовая цена:',
+  'agentOverrides.save': 'Сохранить специальную цену',
+  'agentOverrides.deleteConfirm': 'Вы уверены, что хотите удалить специальную цену для {customer}?',
+
+  'documents.title': 'Отчёты и документы',
+  'documents.subtitle': 'Выберите период, найдите счета или экспортируйте их в файл со ссылками и сводкой.',
+  'documents.fromDate': 'С даты:',
+  'documents.toDate': 'По дату:',
+  'documents.customerFilter': 'Фильтр по клиенту',
+  'documents.customerFilterLabel': 'Фильтр клиентов',
+  'documents.clearCustomer': 'Сбросить выбранного клиента',
+  'documents.clearSelection': 'Сбросить выбор',
+  'documents.allCustomers': 'Все клиенты',
+  'documents.specificCustomer': 'Конкретный клиент',
+  'documents.searchPlaceholder': 'Начните вводить…',
+  'documents.searchCustomer': 'Поиск клиента',
+  'documents.noCustomers': 'Клиенты по запросу не найдены. Попробуйте другой текст.',
+  'documents.searching': 'Поиск...',
+  'documents.search': 'Найти',
+  'documents.downloading': 'Загрузка...',
+  'documents.export': 'Экспорт в файл',
+  'documents.empty': 'Нет результатов.',
+  'documents.table.label': 'Результаты поиска счетов',
+  'documents.column.number': '№ счёта',
+  'documents.column.type': 'Тип',
+  'documents.column.orderId': 'ID заказа',
+  'documents.column.date': 'Дата',
+  'documents.column.amount': 'Сумма заказа',
+  'documents.column.actions': 'Действия',
+  'documents.viewDocument': 'Открыть документ',
+  'documents.fileName': 'счета_{from}_{to}.xlsx',
+  'documents.error.download': 'Не удалось скачать файл. Попробуйте ещё раз.',
+  'documents.error.customerRequired': 'Выберите клиента из списка (или переключитесь на «Все клиенты»).',
+  'documents.error.search': 'Не удалось найти счета. Попробуйте ещё раз.',
+
+  'agentCustomers.title': 'Ваши клиенты',
+  'agentCustomers.subtitle': {
+    one: 'Управляйте своим {count} клиентом.',
+    few: 'Управляйте своими {count} клиентами.',
+    many: 'Управляйте своими {count} клиентами.',
+    other: 'Управляйте своими {count} клиентами.',
+  },
+  'agentCustomers.searchPlaceholder': 'Поиск клиентов по имени, email, телефону или городу...',
+  'agentCustomers.loadError': 'Не удалось загрузить клиентов',
+  'agentCustomers.empty': 'Клиенты не найдены',
+  'agentCustomers.empty.filteredHint': 'Нет клиентов, подходящих под запрос. Попробуйте другие ключевые слова.',
+  'agentCustomers.empty.noneHint': 'Вы ещё не добавили клиентов. Создайте первого клиента, чтобы начать.',
+
+  'agents.title': 'Ваши агенты',
+  'agents.subtitle': 'Следите за активными агентами и поддерживайте их контактные данные в актуальном состоянии.',
+  'agents.add': 'Добавить агента',
+  'agents.sortAscending': 'Сортировать агентов по возрастанию',
+  'agents.sortDescending': 'Сортировать агентов по убыванию',
+  'agents.searchPlaceholder': 'Поиск агентов...',
+  'agents.loading': 'Загрузка агентов...',
+  'agents.table.label': 'Таблица агентов',
+  'agents.table.caption': 'Таблица агентов: имя, email, телефон, местоположение, дата добавления и действия',
+  'agents.column.name': 'Имя',
+  'agents.column.email': 'Email',
+  'agents.column.phone': 'Телефон',
+  'agents.column.location': 'Местоположение',
+  'agents.column.added': 'Добавлен',
+  'agents.column.actions': 'Действия',
+  'agents.empty': 'Нет агентов, подходящих под текущие фильтры.',
+  'agents.actionsFor': 'Действия для агента {name}',
+  'agents.editNamed': 'Изменить агента {name}',
+  'agents.deleteNamed': 'Удалить агента {name}',
+  'agentForm.addTitle': 'Новый агент',
+  'agentForm.editTitle': 'Изменить агента',
+  'agentForm.editDescription': 'Обновите контактные данные: {name}',
+  'agentForm.firstNamePlaceholder': 'Например: Иван',
+  'agentForm.lastNamePlaceholder': 'Например: Коэн',
+  'agentForm.emailPlaceholder': 'Например: agent@example.com',
+  'agentForm.tempPassword': 'Временный пароль',
+  'agentForm.passwordPlaceholder': 'Начальный пароль для входа',
+  'agentForm.error.emailExists': 'Агент с таким email уже существует',
+  'agentForm.error.limit': 'Достигнут лимит количества агентов',
+  'agentDelete.title': 'Удалить агента',
+  'agentDelete.confirmNamed': 'Вы уверены, что хотите удалить {name}?',
+  'agentDelete.thisAgent': 'этого агента',
+  'agentDelete.warning': 'Это действие нельзя отменить. Все клиенты агента будут удалены навсегда вместе с ним.',
+
+  'profile.greeting': 'Здравствуйте, {name}!',
+  'profile.greetingAnonymous': 'Здравствуйте',
+  'profile.subtitle': 'Ваши личные данные и сведения об учётной записи',
+  'profile.edit': 'Изменить личные данные',
+  'profile.loading': 'Загрузка профиля...',
+  'profile.loadingOwn': 'Загрузка вашего профиля...',
+  'profile.loadError': 'Ошибка загрузки профиля',
+  'profile.accountCreated': 'Дата создания учётной записи',
+  'profile.security': 'Настройки безопасности',
+  'profile.passwordHint': 'Обновите свой пароль',
+  'profile.changePassword': 'Изменить пароль',
+  'profile.agentMissing': 'Информация об агенте недоступна.',
+  'passwordForm.newPassword': 'Новый пароль',
+  'passwordForm.confirmNewPassword': 'Подтвердите новый пароль',
+  'passwordForm.currentPlaceholder': 'Введите текущий пароль',
+  'passwordForm.newPlaceholder': 'Введите новый пароль',
+  'passwordForm.requirements': 'Должен содержать заглавные и строчные буквы, цифры и специальные символы',
+  'passwordForm.submit': 'Обновить пароль',
+
+  'productCode.error.skuLength': 'Артикул может содержать до {max} символов',
+  'productCode.error.skuPattern': 'Артикул может содержать латинские буквы, цифры и . _ - /',
+  'productCode.error.barcodeLength': 'Штрихкод может содержать до {max} символов',
+  'productCode.error.barcodePattern': 'Штрихкод может содержать латинские буквы, цифры, - и .',
+  'productCode.error.inUse': 'Этот код уже используется для {name}',
+
+  'products.title': 'Товары',
+  'products.subtitle': {
+    one: 'Ваш каталог товаров ({count} товар)',
+    few: 'Ваш каталог товаров ({count} товара)',
+    many: 'Ваш каталог товаров ({count} товаров)',
+    other: 'Ваш каталог товаров ({count} товара)',
+  },
+  'products.loading': 'Загрузка товаров...',
+  'products.loadError': 'Ошибка загрузки товаров',
+  'products.showAll': 'Показать все товары',
+  'products.lowStockCount': {
+    one: '{count} товар с низким остатком',
+    few: '{count} товара с низким остатком',
+    many: '{count} товаров с низким остатком',
+    other: '{count} товара с низким остатком',
+  },
+  'products.add': 'Добавить товар',
+  'products.filter.category': 'Категория:',
+  'products.filter.brand': 'Бренд:',
+  'products.sortBy': 'Сортировать по:',
+  'products.sort.name': 'Название',
+  'products.sort.price': 'Цена',
+  'products.empty.filtered': 'Нет товаров, подходящих под фильтры',
+  'products.empty.filteredHint': 'Нет товаров, подходящих под выбранные фильтры.',
+  'products.empty.none': 'Товаров пока нет',
+  'products.empty.noneHint': 'Вы ещё не добавили товары в каталог.',
+  'products.addFirst': 'Добавьте первый товар',
+  'products.edit': 'Изменить товар',
+  'products.delete': 'Удалить товар',
+  'products.priceTierCount': {
+    one: '{count} ценовой уровень',
+    few: '{count} ценовых уровня',
+    many: '{count} ценовых уровней',
+    other: '{count} ценового уровня',
+  },
+  'products.minimumPrice': 'Мин. {price}',
+  'products.manageStock': 'Управление остатками',
+  'products.stock': 'Остаток: {quantity}',
+  'products.stock.out': 'Нет',
+  'products.stock.low': 'Мало',
+  'products.deleteConfirm': 'Вы уверены, что хотите удалить {name}? Это действие нельзя отменить.',
+  'products.deleteWarning': 'Товар будет удалён из каталога. Исторические данные сохранятся в системе.',
+  'agentProducts.subtitle': {
+    one: 'Показано {shown} из {count} доступного вам товара.',
+    few: 'Показано {shown} из {count} доступных вам товаров.',
+    many: 'Показано {shown} из {count} доступных вам товаров.',
+    other: 'Показано {shown} из {count} доступных вам товаров.',
+  },
+  'agentProducts.searchPlaceholder': 'Поиск по названию, описанию, бренду, артикулу или штрихкоду...',
+  'agentProducts.empty': 'Нет товаров, подходящих под ваши фильтры',
+  'agentProducts.emptyHint': 'Попробуйте изменить фильтры или очистить поиск, чтобы увидеть больше товаров.',
+  'agentProducts.clearFilters': 'Сбросить фильтры',
+
+  'productForm.addTitle': 'Добавить новый товар',
+  'productForm.editTitle': 'Изменить товар',
+  'productForm.name': 'Название товара',
+  'productForm.namePlaceholder': 'например: кофе в зёрнах премиум',
+  'productForm.category': 'Категория',
+  'productForm.brand': 'Бренд',
+  'productForm.none': 'Нет',
+  'productForm.sku': 'Артикул',
+  'productForm.barcode': 'Штрихкод',
+  'productForm.minimumPrice': 'Минимальная цена',
+  'productForm.price': 'Цена',
+  'productForm.description': 'Описание',
+  'productForm.descriptionPlaceholder': 'Описание товара (необязательно)',
+  'productForm.images': 'Изображения',
+  'productForm.imagesHint': '(до 5, необязательно)',
+  'productForm.imagesTotalHint': '(всего до 5)',
+  'productForm.existingImages': 'Текущие изображения:',
+  'productForm.imagesToDelete': 'Изображения для удаления ({count}):',
+  'productForm.newImages': 'Новые изображения:',
+  'productForm.maxImagesReached': 'Достигнут максимум в 5 изображений',
+  'productForm.dropImages': 'Отпустите изображения здесь',
+  'productForm.chooseImages': 'Выберите изображения или перетащите их ({count}/5)',
+  'productForm.addMoreImages': 'Добавьте ещё изображения или перетащите их ({count}/5)',
+  'productForm.imageOrder': 'Изображения упорядочены по именам файлов',
+  'productForm.imageHint': 'JPEG, PNG, WebP. Максимальный размер: 5MB на изображение.',
+  'productForm.deleteImage': 'Удалить изображение',
+  'productForm.undoDelete': 'Отменить удаление',
+  'productForm.previewAlt': 'Предпросмотр изображения товара {name} - изображение {number}',
+  'productForm.previewAltUnnamed': 'Предпросмотр изображения товара - изображение {number}',
+  'productForm.newPreviewAlt': 'Предпросмотр изображения товара {name} - новое изображение {number}',
+  'productForm.newPreviewAltUnnamed': 'Предпросмотр изображения товара - новое изображение {number}',
+  'productForm.imageAlt': 'Изображение товара {name} - {file}',
+  'productForm.imageAltUnnamed': 'Изображение товара - {file}',
+  'productForm.deletedImageAlt': 'Изображение товара {name} для удаления - {file}',
+  'productForm.deletedImageAltUnnamed': 'Изображение товара для удаления - {file}',
+  'productForm.create': 'Создать товар',
+  'productForm.update': 'Обновить товар',
+  'productForm.error.nameRequired': 'Укажите название товара',
+  'productForm.error.minimumPriceRequired': 'Укажите минимальную цену',
+  'productForm.error.minimumPricePositive': 'Минимальная цена должна быть положительным числом',
+  'productForm.error.minimumPriceMax': 'Минимальная цена не может превышать {max}',
+  'productForm.error.priceRequired': 'Укажите цену',
+  'productForm.error.pricePositive': 'Цена должна быть положительным числом',
+  'productForm.error.priceMax': 'Цена не может превышать {max}',
+  'productForm.error.priceBelowMinimum': 'Цена не может быть ниже минимальной цены',
+  'productForm.error.tooManyImages': 'Можно загрузить до 5 изображений на товар',
+  'productForm.error.tooManySelected': {
+    one: 'Можно загрузить до 5 изображений. Уже выбрано {count} изображение.',
+    few: 'Можно загрузить до 5 изображений. Уже выбрано {count} изображения.',
+    many: 'Можно загрузить до 5 изображений. Уже выбрано {count} изображений.',
+    other: 'Можно загрузить до 5 изображений. Уже выбрано {count} изображения.',
+  },
+  'productForm.error.tooManyAdded': 'Можно загрузить до 5 изображений. Сейчас: {current}, добавляется: {adding}',
+  'productForm.error.imageType': '{name}: недопустимый тип файла. Разрешены только JPEG, PNG или WebP.',
+  'productForm.error.imageSize': '{name}: файл больше 5MB.',
+  'productForm.error.imageUpload': 'Не удалось загрузить изображение {name} в S3',
+
+  'category.error.exists': 'Категория уже существует',
+  'category.error.notFound': 'Категория не найдена',
+  'category.error.limit': 'Достигнуто максимальное количество категорий',
+  'categories.title': 'Категории',
+  'categories.subtitle': {
+    one: 'Просматривайте категории товаров и управляйте ими ({count} категория)',
+    few: 'Просматривайте категории товаров и управляйте ими ({count} категории)',
+    many: 'Просматривайте категории товаров и управляйте ими ({count} категорий)',
+    other: 'Просматривайте категории товаров и управляйте ими ({count} категории)',
+  },
+  'categories.loading': 'Загрузка категорий...',
+  'categories.loadError': 'Ошибка загрузки категорий',
+  'categories.add': 'Добавить категорию',
+  'categories.empty.none': 'Категорий пока нет',
+  'categories.empty.noneHint': 'Вы ещё не создали ни одной категории. Категории помогают упорядочить товары.',
+  'categories.addFirst': 'Добавьте первую категорию',
+  'categories.sortAscending': 'Сортировать категории по возрастанию',
+  'categories.sortDescending': 'Сортировать категории по убыванию',
+  'categories.searchPlaceholder': 'Поиск категорий...',
+  'categories.empty.filtered': 'Категории не найдены',
+  'categories.empty.filteredHint': 'Попробуйте изменить запрос или сбросить фильтры, чтобы увидеть все категории.',
+  'categories.productCount': {
+    one: '{count} товар',
+    few: '{count} товара',
+    many: '{count} товаров',
+    other: '{count} товара',
+  },
+  'categories.edit': 'Изменить категорию',
+  'categories.delete': 'Удалить категорию',
+  'categories.deleteConfirm': 'Вы уверены, что хотите удалить категорию {name}? Это действие нельзя отменить.',
+  'categories.deleteWarning': 'Товары из этой категории останутся без категории.',
+  'categoryForm.addTitle': 'Новая категория',
+  'categoryForm.editTitle': 'Изменить категорию',
+  'categoryForm.name': 'Название *',
+  'categoryForm.namePlaceholder': 'Например: напитки, снеки, электроника',
+  'categoryForm.create': 'Создать категорию',
+  'categoryForm.update': 'Обновить категорию',
+  'categoryForm.error.nameRequired': 'Укажите название категории',
+
+  'brand.error.notFound': 'Бренд не найден',
+  'brand.error.exists': 'Бренд уже существует',
+  'brand.error.limit': 'Превышено допустимое количество брендов',
+  'brand.error.delete': 'Не удалось удалить бренд',
+  'brands.title': 'Бренды',
+  'brands.subtitle': {
+    one: 'Управляйте брендами товаров ({count} бренд)',
+    few: 'Управляйте брендами товаров ({count} бренда)',
+    many: 'Управляйте брендами товаров ({count} брендов)',
+    other: 'Управляйте брендами товаров ({count} бренда)',
+  },
+  'brands.loading': 'Загрузка брендов...',
+  'brands.loadError': 'Ошибка загрузки брендов',
+  'brands.add': 'Добавить бренд',
+  'brands.empty.none': 'Брендов пока нет',
+  'brands.empty.noneHint': 'Вы ещё не создали ни одного бренда. Бренды помогают упорядочить товары.',
+  'brands.addFirst': 'Добавьте первый бренд',
+  'brands.sortAscending': 'Сортировать бренды по возрастанию',
+  'brands.sortDescending': 'Сортировать бренды по убыванию',
+  'brands.searchPlaceholder': 'Поиск брендов...',
+  'brands.empty.filtered': 'Бренды не найдены',
+  'brands.empty.filteredHint': 'Попробуйте изменить запрос или сбросить фильтры, чтобы увидеть все бренды.',
+  'brands.productCount': {
+    one: '{count} товар',
+    few: '{count} товара',
+    many: '{count} товаров',
+    other: '{count} товара',
+  },
+  'brands.edit': 'Изменить бренд',
+  'brands.delete': 'Удалить бренд',
+  'brands.deleteConfirm': 'Вы уверены, что хотите удалить бренд {name}? Это действие нельзя отменить.',
+  'brands.deleteWarning': 'Товары этого бренда останутся без бренда.',
+  'brandForm.addTitle': 'Новый бренд',
+  'brandForm.editTitle': 'Изменить бренд',
+  'brandForm.name': 'Название бренда *',
+  'brandForm.namePlaceholder': 'Например: Nike, Apple, Samsung',
+  'brandForm.image': 'Изображение',
+  'brandForm.previewAlt': 'Предпросмотр изображения бренда {name}',
+  'brandForm.previewAltUnnamed': 'Предпросмотр изображения бренда',
+  'brandForm.newPreview': 'Предпросмотр нового изображения:',
+  'brandForm.create': 'Создать бренд',
+  'brandForm.update': 'Обновить бренд',
+  'brandForm.error.nameRequired': 'Укажите название бренда',
+};
+
+export const ruApiErrors: Record<ApiErrorCode, string> = {
+  INVALID_EMAIL_FORMAT: 'Неверный формат email',
+  INVALID_PHONE_NUMBER: 'Неверный номер телефона (8–10 цифр)',
+  FIXED_DIGIT_LENGTH_REQUIRED: 'Значение должно быть числом точной требуемой длины',
+  FIELD_CANNOT_BE_BLANK: 'Обязательное поле не заполнено',
+  DATE_CANNOT_BE_IN_FUTURE: 'Дата не может быть в будущем',
+  VALUE_MUST_BE_NON_NEGATIVE: 'Значение должно быть нулём или положительным',
+  DECIMAL_PLACES_EXCEEDED: 'Слишком много знаков после запятой (максимум 2)',
+  PRICE_NOT_IN_RANGE: 'Цена вне допустимого диапазона',
+  PASSWORD_CONFIRMATION_MISMATCH: 'Новый пароль и подтверждение не совпадают',
+  NEW_PASSWORD_EQUALS_OLD_PASSWORD: 'Новый пароль не может совпадать со старым',
+  LOGIN_INVALID_EMAIL_OR_PASSWORD: 'Неверный email или пароль',
+  ADMIN_LOGIN_INVALID_CREDENTIALS: 'Неверные данные администратора',
+  ORDER_NOT_FOUND: 'Заказ не найден',
+  ORDER_STATUS_NOT_DONE: 'Заказ должен быть выполнен',
+  ORDER_STATUS_NOT_PLACED: 'Заказ должен быть оформлен',
+  ORDER_STATUS_NOT_CANCELLED: 'Заказ должен быть отменён',
+  ORDER_STATUS_NOT_AS_EXPECTED: 'Статус заказа не позволяет выполнить это действие',
+  ORDER_STATUS_NOT_ALLOWED: 'Статус заказа не позволяет выполнить это действие',
+  INVOICE_ALREADY_EXISTS_FOR_ORDER: 'Для этого заказа уже есть счёт',
+  INVOICE_TOTAL_MUST_BE_POSITIVE: 'Сумма счёта должна быть положительной',
+  CREDIT_NOTE_TOTAL_MUST_BE_NEGATIVE: 'Сумма кредит-ноты должна быть отрицательной',
+  INVOICE_ORDER_IDS_BATCH_SIZE_EXCEEDED: 'Слишком много номеров заказов в запросе',
+  INVALID_DATE_RANGE: 'Неверный диапазон дат',
+  CREDIT_AMOUNT_EXCEEDS_ORDER_TOTAL: 'Сумма возврата превышает допустимую',
+  CREDIT_AMOUNT_MUST_BE_POSITIVE: 'Сумма возврата должна быть положительной',
+  CREDIT_NOTE_DUPLICATE_PRODUCTS: 'Один и тот же товар указан в кредит-ноте несколько раз',
+  CREDIT_NOTE_PRODUCT_NOT_IN_ORDER: 'Товар из кредит-ноты отсутствует в заказе',
+  CREDIT_NOTE_UNIT_PRICE_MISMATCH: 'Цена за единицу не совпадает с заказом',
+  CREDIT_NOTE_QUANTITY_EXCEEDS_REMAINING: 'Количество к возврату превышает доступное',
+  CREDIT_NOTE_NOTES_TOO_LONG: 'Примечание слишком длинное (максимум 1000 символов)',
+  CREDIT_NOTE_AT_LEAST_ONE_PRODUCT_REQUIRED: 'Для кредит-ноты нужен хотя бы один товар',
+  CREDIT_NOTE_QUANTITY_MUST_BE_POSITIVE: 'Количество к возврату должно быть положительным',
+  CREDIT_NOTE_PRODUCT_ID_REQUIRED: 'Не указан идентификатор товара',
+  PRICE_CANT_BE_UNDER_PRODUCT_MIN_PRICE: 'Цена не может быть ниже минимальной цены товара',
+  MANAGER_NOT_FOUND: 'Менеджер не найден',
+  AGENT_NOT_FOUND: 'Агент не найден',
+  PRODUCT_NOT_FOUND: 'Товар не найден',
+  CATEGORY_NOT_FOUND: 'Категория не найдена',
+  BRAND_NOT_FOUND: 'Бренд не найден',
+  BRAND_ALREADY_EXISTS: 'Бренд с таким названием уже существует',
+  BRAND_LIMIT_EXCEEDED: 'Достигнут лимит брендов',
+  BUSINESS_NOT_FOUND: 'Данные бизнеса не найдены',
+  CUSTOMER_NOT_FOUND: 'Клиент не найден',
+  INVOICE_NOT_FOUND: 'Счёт не найден',
+  CATEGORY_ALREADY_EXISTS: 'Категория с таким названием уже существует',
+  CATEGORY_LIMIT_EXCEEDED: 'Достигнут лимит категорий',
+  BUSINESS_ALREADY_EXISTS: 'У этого менеджера уже есть бизнес',
+  CUSTOMER_LIMIT_EXCEEDED: 'Достигнут лимит клиентов',
+  LOCATION_NOT_FOUND: 'Филиал не найден',
+  NO_LOCATIONS: 'Добавьте хотя бы один филиал',
+  TOO_MANY_LOCATIONS: 'Достигнут лимит филиалов',
+  CANNOT_DELETE_LAST_LOCATION: 'Нельзя удалить последний филиал',
+  AGENTS_LIMIT_REACHED: 'Достигнут лимит агентов',
+  PRODUCT_LIMIT_REACHED: 'Достигнут лимит товаров',
+  PRODUCT_IMAGES_LIMIT_REACHED: 'Достигнут лимит изображений товара',
+  EMAIL_ALREADY_EXISTS: 'Этот email уже зарегистрирован',
+  PASSWORD_MISMATCH: 'Неверный пароль',
+  PASSWORD_TOO_WEAK: 'Слишком слабый пароль',
+  MIME_TYPE_NOT_SUPPORTED: 'Тип файла не поддерживается',
+  FILE_SIZE_NEED_TO_BE_POSITIVE: 'Неверный размер файла',
+  FILE_NAME_CANT_BE_EMPTY: 'Не указано имя файла',
+  FILE_TOO_LARGE: 'Файл слишком большой',
+  INTERNAL_ERROR: 'Ошибка сервера. Попробуйте позже',
+  ALLOCATION_NUMBER_REQUIRED: 'Требуется номер распределения',
+  PAYMENT_PROOF_REQUIRED: 'Требуется подтверждение оплаты',
+  CREDIT_NOTE_ALLOCATION_MISMATCH: 'Номер распределения кредит-ноты не совпадает с исходным счётом',
+  NO_PRODUCTS_IN_ORDER: 'В заказе нет товаров',
+  ERROR_GENERATING_UPLOAD_URL: 'Не удалось создать ссылку для загрузки',
+  FAILED_UPLOAD_FILE: 'Не удалось загрузить файл',
+  OVERRIDE_PRICE_LESS_THAN_MIN_PRICE: 'Специальная цена ниже минимальной цены товара',
+  PRODUCT_OVERRIDE_NOT_FOUND: 'Специальная цена не найдена',
+  PRODUCT_OVERRIDE_ALREADY_EXISTS: 'Для этого товара и клиента уже есть специальная цена',
+  ORDER_CREDIT_EXCEEDS_PRODUCTS_TOTAL: 'Сумма возврата больше суммы товаров',
+  MINIMUM_SEQUENCE_NUMBER_INVALID: 'Минимальный порядковый номер должен быть не меньше 1',
+  PICKUP_SLOT_REQUIRED: 'Выберите время самовывоза',
+  PICKUP_SLOT_UNAVAILABLE: 'Выбранное время самовывоза недоступно',
+  PICKUP_SLOT_FULL: 'Выбранное время самовывоза только что заполнилось. Выберите другое время',
+  CART_MINIMUM_NOT_REACHED: 'Сумма заказа ниже минимальной суммы бизнеса',
+  CART_RULES_VIOLATED: 'Корзина не соответствует правилам заказа. Обновите корзину и попробуйте ещё раз',
+  PRODUCT_PRICES_CHANGED: 'Цены некоторых товаров изменились. Подтвердите новые цены и попробуйте ещё раз',
+  ORDER_VERSION_CONFLICT: 'Заказ был изменён. Проверьте корзину и попробуйте ещё раз',
+  INSUFFICIENT_STOCK: 'Некоторых товаров из корзины нет на складе в заказанном количестве. Обновите корзину и попробуйте ещё раз',
+  PRODUCT_SKU_ALREADY_EXISTS: 'Этот артикул уже используется другим товаром',
+  PRODUCT_BARCODE_ALREADY_EXISTS: 'Этот штрихкод уже используется другим товаром',
+};
+
+export const ruApiFallbacks: Record<FallbackHeKey, string> = {
+  adminLoadManagers: 'Не удалось загрузить список менеджеров',
+  adminDeleteManager: 'Не удалось удалить менеджера',
+  adminResetPassword: 'Не удалось сбросить пароль',
+  createManagerAndBusiness: 'Не удалось создать менеджера и бизнес',
+  loadAgentsList: 'Не удалось загрузить список агентов',
+  agentCreate: 'Не удалось создать агента',
+  agentUpdate: 'Не удалось обновить агента',
+  agentDelete: 'Не удалось удалить агента',
+  agentLoadProfile: 'Не удалось загрузить профиль агента',
+  agentLoadForProducts: 'Не удалось загрузить данные агента',
+  agentCustomersLoad: 'Не удалось загрузить клиентов',
+  agentProductsLoad: 'Не удалось загрузить товары',
+  overridesLoad: 'Не удалось загрузить специальные цены',
+  overridesCreate: 'Не удалось создать специальную цену',
+  overridesUpdate: 'Не удалось обновить специальную цену',
+  overridesDelete: 'Не удалось удалить специальную цену',
+  agentPriceOverrideCreate: 'Не удалось создать специальную цену',
+  agentPriceOverrideUpdate: 'Не удалось обновить специальную цену',
+  agentPriceOverrideDelete: 'Не удалось удалить специальную цену',
+  customersLoad: 'Не удалось загрузить клиентов',
+  customerDelete: 'Не удалось удалить клиента',
+  customerCreate: 'Не удалось создать клиента',
+  customerUpdate: 'Не удалось обновить клиента',
+  customerModalUpdate: 'Не удалось обновить клиента',
+  agentCustomerCreate: 'Не удалось создать клиента',
+  productLoad: 'Не удалось загрузить товары',
+  productCreate: 'Не удалось создать товар',
+  productUpdate: 'Не удалось обновить товар',
+  productDelete: 'Не удалось удалить товар',
+  stockLoad: 'Не удалось загрузить остатки',
+  stockAdjust: 'Не удалось обновить остатки',
+  lowStockThresholdUpdate: 'Не удалось обновить порог низкого остатка',
+  brandsLoad: 'Не удалось загрузить бренды',
+  brandCreate: 'Не удалось создать бренд',
+  brandUpdate: 'Не удалось обновить бренд',
+  brandDelete: 'Не удалось удалить бренд',
+  businessUpdate: 'Не удалось обновить данные бизнеса',
+  managerProfileLoad: 'Не удалось загрузить профиль',
+  managerProfileUpdate: 'Не удалось обновить профиль',
+  changePassword: 'Не удалось обновить пароль',
+  agentProfileUpdate: 'Не удалось обновить профиль',
+  businessDataLoad: 'Не удалось загрузить данные бизнеса',
+  categoriesLoad: 'Не удалось загрузить категории',
+  categoryCreate: 'Не удалось создать категорию',
+  categoryUpdate: 'Не удалось обновить категорию',
+  categoryDelete: 'Не удалось удалить категорию',
+  locationsLoad: 'Не удалось загрузить филиалы',
+  locationCreate: 'Не удалось создать филиал',
+  locationUpdate: 'Не удалось обновить филиал',
+  locationDelete: 'Не удалось удалить филиал',
+  locationPickupSchedulingUpdate: 'Не удалось обновить время самовывоза',
+  orderCreate: 'Не удалось создать заказ',
+  orderCancel: 'Не удалось отменить заказ',
+  orderMarkDone: 'Не удалось отметить заказ как выполненный',
+  orderDiscount: 'Не удалось обновить скидку',
+  orderLoadDetails: 'Не удалось загрузить детали заказа',
+  orderLoadStore: 'Не удалось загрузить заказ',
+  orderLinkGenerate: 'Не удалось создать ссылку',
+  customerStoreLinkLoad: 'Не удалось загрузить персональную ссылку на магазин',
+  customerStoreLinkCreate: 'Не удалось создать персональную ссылку на магазин',
+  customerStoreLinkRevoke: 'Не удалось отключить персональную ссылку на магазин',
+  orderLinkExpiryLoad: 'Не удалось загрузить истекающие и истёкшие ссылки',
+  orderLinkExtend: 'Не удалось продлить ссылку',
+  ordersLoad: 'Не удалось загрузить заказы',
+  orderActivityLoad: 'Не удалось загрузить историю заказа',
+  orderCheckoutCreate: 'Не удалось создать заказ',
+  orderCheckoutUpdate: 'Не удалось обновить заказ',
+  invoiceCreate: 'Не удалось создать счёт',
+  creditNoteCreate: 'Не удалось создать кредит-ноту',
+  overrideEditFailed: 'Не удалось обновить',
+  overrideCreateFailed: 'Не удалось создать',
+};
@@ -56,7 +56,7 @@ export default function AdminLoginPage() {
     let hasError = false;
 
     if (!trimmedAdminUserName) {
-      setAdminUserNameError('נא להזין שם משתמש מנהל');
+      setAdminUserNameError('Please enter your admin username');
       hasError = true;
     }
     
@@ -69,7 +69,7 @@ export default function AdminLoginPage() {
     if (trimmedUserEmail) {
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
       if (!emailRegex.test(trimmedUserEmail)) {
-        setUserEmailError('נא להזין כתובת אימייל משתמש תקינה');
+        setUserEmailError('Please enter a valid user email address');
         hasError = true;
       }
     }
@@ -88,11 +88,11 @@ export default function AdminLoginPage() {
       });
       localStorage.setItem('authToken', response.token);
       localStorage.setItem('userRole', 'admin');
-      announce('התחברות בוצעה בהצלחה', 'polite');
+      announce('Signed in successfully', 'polite');
       navigate('/admin/dashboard');
     } catch {
       // Always show the same message for security (prevent user enumeration)
-      const errorMsg = 'פרטי מנהל לא תקינים';
+      const errorMsg = 'Invalid admin credentials';
       setError(errorMsg);
       announce(errorMsg, 'assertive');
     } finally {
@@ -4,8 +4,10 @@ import { agentAPI, type Customer } from '../services/api';
 import AgentCustomerAddModal from '../components/AgentCustomerAddModal';
 import AgentCustomerDeleteModal from '../components/AgentCustomerDeleteModal';
 import AgentCustomerEditModal from '../components/AgentCustomerEditModal';
+import AddressNormalizationModal from '../components/AddressNormalizationModal';
 import PaginationBar from '../components/PaginationBar';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 const PAGE_SIZE_OPTIONS = [5, 10, 20, 50] as const;
 
@@ -20,6 +22,7 @@ export default function AgentCustomersPage() {
   const [pageSize, setPageSize] = useState<(typeof PAGE_SIZE_OPTIONS)[number]>(PAGE_SIZE_OPTIONS[0]);
   const [currentPage, setCurrentPage] = useState(0);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isNormalizeModalOpen, setIsNormalizeModalOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [deletingCustomer, setDeletingCustomer] = useState<Customer | null>(null);
   const navigate = useNavigate();
@@ -143,31 +146,41 @@ export default function AgentCustomersPage() {
   };
 
   return (
-    <div className="max-w-7xl mx-auto space-y-6 pb-24" dir="rtl">
+    <div className="max-w-7xl mx-auto space-y-6 pb-24">
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">הלקוחות שלך</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">{t('agentCustomers.title')}</h1>
             <p className="text-gray-600 text-sm mt-2">
-              נהל את {customers.length} הלקוחות שלך.
+              {t('agentCustomers.subtitle', { count: customers.length })}
             </p>
           </div>
-          <button
-            onClick={handleOpenModal}
-            className="glass-button px-6 py-2 rounded-xl font-medium text-gray-800 hover:bg-white/40 flex items-center gap-2 border border-sky-200 hover:border-sky-300 transition-colors"
-          >
-            <span>הוסף לקוח</span>
-            <svg className="w-5 h-5 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-          </button>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setIsNormalizeModalOpen(true)}
+              disabled={customers.length === 0}
+              className="glass-button px-4 py-2 rounded-xl text-sm font-medium text-gray-800 hover:bg-white/40 border border-sky-200 hover:border-sky-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('customers.normalizeAddresses')}
+            </button>
+            <button
+              onClick={handleOpenModal}
+              className="glass-button px-6 py-2 rounded-xl font-medium text-gray-800 hover:bg-white/40 flex items-center gap-2 border border-sky-200 hover:border-sky-300 transition-colors"
+            >
+              <span>{t('customers.add')}</span>
+              <svg className="w-5 h-5 text-sky-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+            </button>
+          </div>
         </div>
       </div>
 
       <div className="glass-card rounded-3xl p-6 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2">
-            <span className="text-xs font-medium text-gray-600 uppercase tracking-wide" dir="rtl">הצג:</span>
+            <span className="text-xs font-medium text-gray-600 uppercase tracking-wide">{t('list.pageSize')}</span>
             <select
               value={pageSize}
               onChange={handlePageSizeChange}
@@ -183,7 +196,7 @@ export default function AgentCustomersPage() {
           </div>
 
           <div className="flex items-center gap-2">
-            <span className="text-xs font-medium uppercase tracking-wide text-gray-600" dir="rtl">מיין:</span>
+            <span className="text-xs font-medium uppercase tracking-wide text-gray-600">{t('list.sortBy')}</span>
             <button
               type="button"
               onClick={handleSortToggle}
@@ -191,7 +204,7 @@ export default function AgentCustomersPage() {
               style={{ backgroundImage: 'none' }}
               dir="ltr"
             >
-              <span>{sortDirection === 'asc' ? 'א ← ת' : 'א → ת'}</span>
+              <span>{sortDirection === 'asc' ? t('list.sort.ascending') : t('list.sort.descending')}</span>
               <svg
                 className={`w-4 h-4 text-sky-600 transition-transform duration-200 ${sortDirection === 'asc' ? 'rotate-180' : ''}`}
                 fill="none"
@@ -209,12 +222,11 @@ export default function AgentCustomersPage() {
             type="text"
             value={searchQuery}
             onChange={handleSearchChange}
-            placeholder="חפש לקוחות לפי שם, אימייל, טלפון או עיר..."
+            placeholder={t('agentCustomers.searchPlaceholder')}
             maxLength={100}
-            className="glass-input w-full pr-11 pl-10 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-sky-500 border border-gray-300"
-            dir="rtl"
+            className="glass-input w-full pe-10 ps-11 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-sky-500 border border-gray-300"
           />
-          <div className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">
+          <div className="absolute start-3 top-1/2 -translate-y-1/2 text-gray-400">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
             </svg>
@@ -223,8 +235,8 @@ export default function AgentCustomersPage() {
             <button
               type="button"
               onClick={() => setSearchQuery('')}
-              className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-              aria-label="נקה חיפוש"
+              className="absolute end-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label={t('list.clearSearch')}
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -250,18 +262,18 @@ export default function AgentCustomersPage() {
                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
               ></path>
             </svg>
-            <span className="font-medium">טוען לקוחות...</span>
+            <span className="font-medium">{t('customers.loading')}</span>
           </div>
         </div>
       ) : error ? (
         <div className="glass-card rounded-3xl p-8 bg-red-50/60 border border-red-200">
-          <h2 className="text-xl font-semibold text-red-800 mb-2">לא ניתן לטעון לקוחות</h2>
+          <h2 className="text-xl font-semibold text-red-800 mb-2">{t('agentCustomers.loadError')}</h2>
           <p className="text-red-600 text-sm">{error}</p>
           <button
             onClick={handleRetry}
             className="glass-button mt-4 px-6 py-2 rounded-xl font-medium text-gray-800 bg-white/70 hover:bg-white transition-colors"
           >
-            נסה שוב
+            {t('common.tryAgain')}
           </button>
         </div>
       ) : filteredAndSortedCustomers.length === 0 ? (
@@ -277,17 +289,17 @@ export default function AgentCustomersPage() {
                 />
               </svg>
             </div>
-            <h2 className="text-2xl font-bold text-gray-800">לא נמצאו לקוחות</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('agentCustomers.empty')}</h2>
             <p className="text-gray-600 max-w-md">
               {searchQuery
-                ? 'אין לקוחות התואמים לחיפוש שלך. נסה לשנות את מילות המפתח.'
-                : 'עדיין לא הוספת לקוחות. צור את הלקוח הראשון שלך כדי להתחיל.'}
+                ? t('agentCustomers.empty.filteredHint')
+                : t('agentCustomers.empty.noneHint')}
             </p>
             <button
               onClick={handleOpenModal}
               className="glass-button px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
             >
-              הוסף לקוח
+              {t('customers.add')}
             </button>
           </div>
         </div>
@@ -298,22 +310,22 @@ export default function AgentCustomersPage() {
               <thead className="bg-white/30 border-b border-gray-200/50">
                 <tr>
                   <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700">
-                    שם
+                    {t('customers.column.name')}
                   </th>
-                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-l border-gray-200">
-                    אימייל
+                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-e border-gray-200">
+                    {t('customers.column.email')}
                   </th>
-                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-l border-gray-200">
-                    טלפון
+                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-e border-gray-200">
+                    {t('customers.column.phone')}
                   </th>
-                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-l border-gray-200">
-                    עיר
+                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-e border-gray-200">
+                    {t('customers.column.city')}
                   </th>
-                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-l border-gray-200">
-                    כתובת
+                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-e border-gray-200">
+                    {t('customers.column.address')}
                   </th>
-                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-l border-gray-200 w-24">
-                    פעולות
+                  <th scope="col" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-e border-gray-200 w-24">
+                    {t('customers.column.actions')}
                   </th>
                 </tr>
               </thead>
@@ -329,32 +341,32 @@ export default function AgentCustomersPage() {
                         {customer.name}
                       </span>
                     </td>
-                    <td className="px-6 py-4 text-sm text-gray-800 border-l border-gray-200">
+                    <td className="px-6 py-4 text-sm text-gray-800 border-e border-gray-200">
                       <span className="inline-block max-w-[200px] truncate" title={customer.email}>
                         {customer.email}
                       </span>
                     </td>
-                    <td className="px-6 py-4 text-sm text-gray-800 border-l border-gray-200">
+                    <td className="px-6 py-4 text-sm text-gray-800 border-e border-gray-200">
                       {formatPhoneNumber(customer.phoneNumber)}
                     </td>
-                    <td className="px-6 py-4 text-sm text-gray-800 border-l border-gray-200">
+                    <td className="px-6 py-4 text-sm text-gray-800 border-e border-gray-200">
                       <span className="inline-block max-w-[150px] truncate" title={customer.city}>
                         {customer.city}
                       </span>
                     </td>
-                    <td className="px-6 py-4 text-sm text-gray-800 border-l border-gray-200">
+                    <td className="px-6 py-4 text-sm text-gray-800 border-e border-gray-200">
                       <span className="inline-block max-w-[200px] truncate" title={customer.streetAddress}>
                         {customer.streetAddress}
                       </span>
                     </td>
-                    <td className="px-6 py-4 text-center border-l border-gray-200">
+                    <td className="px-6 py-4 text-center border-e border-gray-200">
                       <div className="flex items-center justify-center gap-2">
                         <button
                           type="button"
                           onClick={(e) => { e.stopPropagation(); handleStartEdit(customer); }}
                           className="glass-button p-2 rounded-lg hover:shadow-md transition-all"
-                          aria-label={`ערוך ${customer.name}`}
-                          title="ערוך לקוח"
+                          aria-label={t('customers.editNamed', { name: customer.name })}
+                          title={t('customerForm.editTitle')}
                         >
                           <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path
@@ -369,8 +381,8 @@ export default function AgentCustomersPage() {
                           type="button"
                           onClick={(e) => { e.stopPropagation(); handleStartDelete(customer); }}
                           className="glass-button p-2 rounded-lg hover:shadow-md transition-all border-red-500 hover:border-red-600"
-                          aria-label={`מחק ${customer.name}`}
-                          title="מחק לקוח"
+                          aria-label={t('customers.deleteNamed', { name: customer.name })}
+                          title={t('customerDelete.title')}
                         >
                           <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path
@@ -397,7 +409,7 @@ export default function AgentCustomersPage() {
         onPageChange={setCurrentPage}
         maxWidth="max-w-5xl"
         showCondition={filteredAndSortedCustomers.length > pageSize}
-        rtl={true}
+        rtl={getDir() === 'rtl'}
       />
 
       <AgentCustomerAddModal isOpen={isAddModalOpen} onClose={handleCloseModal} onSuccess={handleAddSuccess} />
@@ -414,6 +426,13 @@ export default function AgentCustomersPage() {
         onClose={handleCloseDelete}
         onDeleted={handleDeleteSuccess}
       />
+      <AddressNormalizationModal
+        isOpen={isNormalizeModalOpen}
+        onClose={() => setIsNormalizeModalOpen(false)}
+        customers={customers}
+        updateCustomer={agentAPI.updateCustomerForAgent}
+        onUpdated={(updated) => setCustomers((prev) => prev.map((c) => (c.id === updated.id ? updated : c)))}
+      />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { authAPI } from '../services/api';
 import { useAriaLive } from '../components/AriaLiveRegionContext';
+import { t } from '../utils/i18n';
 
 export default function AgentLoginPage() {
   const [email, setEmail] = useState('');
@@ -44,18 +45,18 @@ export default function AgentLoginPage() {
     let hasError = false;
 
     if (!trimmedEmail) {
-      setEmailError('אנא הזן את כתובת האימייל שלך');
+      setEmailError(t('login.error.emailRequired'));
       hasError = true;
     } else {
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
       if (!emailRegex.test(trimmedEmail)) {
-        setEmailError('אנא הזן כתובת אימייל תקינה');
+        setEmailError(t('validation.emailInvalid'));
         hasError = true;
       }
     }
 
     if (!trimmedPassword) {
-      setPasswordError('אנא הזן את הסיסמה שלך');
+      setPasswordError(t('login.error.passwordRequired'));
       hasError = true;
     }
 
@@ -69,10 +70,10 @@ export default function AgentLoginPage() {
       const response = await authAPI.loginAgent({ email: trimmedEmail, password: trimmedPassword });
       localStorage.setItem('authToken', response.token);
       localStorage.setItem('userRole', 'agent');
-      announce('התחברות בוצעה בהצלחה', 'polite');
+      announce(t('login.success'), 'polite');
       navigate('/agent/dashboard/profile');
     } catch (err: any) {
-      const errorMsg = 'אימייל או סיסמה לא תקינים';
+      const errorMsg = t('login.error.invalid');
       setError(errorMsg);
       announce(errorMsg, 'assertive');
     } finally {
@@ -81,7 +82,7 @@ export default function AgentLoginPage() {
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center p-4" dir="rtl">
+    <div className="min-h-screen flex items-center justify-center p-4">
       {/* Background decoration */}
       <div className="absolute inset-0 overflow-hidden pointer-events-none">
         <div className="absolute -top-40 -right-40 w-80 h-80 bg-blue-400 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob"></div>
@@ -109,8 +110,8 @@ export default function AgentLoginPage() {
               />
             </svg>
           </div>
-          <h1 className="text-3xl font-bold text-gray-800 mb-2">פורטל סוכן</h1>
-          <p className="text-gray-600">התחבר כדי לראות את המשימות שלך</p>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">{t('login.agent.title')}</h1>
+          <p className="text-gray-600">{t('login.agent.subtitle')}</p>
         </div>
 
         <form onSubmit={handleLogin} className="space-y-5" method="post" autoComplete="on" noValidate>
@@ -126,7 +127,7 @@ export default function AgentLoginPage() {
 
           <div>
             <label htmlFor="agent-email" className="block text-sm font-medium text-gray-700 mb-2">
-              אימייל <span className="text-red-500" aria-label="שדה חובה">*</span>
+              {t('field.email')} <span className="text-red-500" aria-label={t('login.required')}>*</span>
             </label>
             <input
               id="agent-email"
@@ -155,7 +156,7 @@ export default function AgentLoginPage() {
 
           <div>
             <label htmlFor="agent-password" className="block text-sm font-medium text-gray-700 mb-2">
-              סיסמה <span className="text-red-500" aria-label="שדה חובה">*</span>
+              {t('field.password')} <span className="text-red-500" aria-label={t('login.required')}>*</span>
             </label>
             <input
               id="agent-password"
@@ -188,7 +189,7 @@ export default function AgentLoginPage() {
             className="glass-button w-full py-3 px-4 rounded-xl font-semibold text-gray-800 
                      hover:shadow-sky-200 disabled:opacity-50 disabled:cursor-not-allowed
                      flex items-center justify-center space-x-2 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-            aria-label={isLoading ? 'מתחבר...' : 'התחבר לחשבון סוכן'}
+            aria-label={isLoading ? t('login.signingIn') : t('login.agent.submitLabel')}
           >
             {isLoading ? (
               <>
@@ -213,32 +214,32 @@ export default function AgentLoginPage() {
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                   ></path>
                 </svg>
-                <span>מתחבר...</span>
+                <span>{t('login.signingIn')}</span>
               </>
             ) : (
-              <span>התחבר</span>
+              <span>{t('login.submit')}</span>
             )}
           </button>
         </form>
 
         <div className="mt-6 space-y-2 text-center text-sm text-gray-600 -mb-4">
           <div>
-            חזרה להתחברות מנהל?{' '}
+            {t('login.agent.backToManager')}{' '}
             <Link 
               to="/login/manager" 
               className="text-sky-600 hover:text-sky-700 font-medium focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 rounded"
-              aria-label="חזרה להתחברות מנהל"
+              aria-label={t('login.agent.backToManagerLabel')}
             >
-              התחבר כאן
+              {t('login.signInHere')}
             </Link>
           </div>
           <div className="pt-3 border-t border-gray-300/50">
             <Link 
               to="/home" 
               className="text-sky-600 hover:text-sky-700 font-medium focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 rounded"
-              aria-label="חזרה לדף הבית"
+              aria-label={t('login.backHomeLabel')}
             >
-              ← חזרה לדף הבית
+              {t('login.backHome')}
             </Link>
           </div>
         </div>
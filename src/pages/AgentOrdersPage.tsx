@@ -1,12 +1,22 @@
 import { useState, useEffect, useRef } from 'react';
 import Spinner from '../components/Spinner';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { agentAPI, type Order, type Customer } from '../services/api';
+import { agentAPI, type Order, type Customer, type OrderDateRange } from '../services/api';
 import PaginationBar from '../components/PaginationBar';
+import ExpiringLinksPanel from '../components/ExpiringLinksPanel';
+import OrderLinkExtendControl from '../components/OrderLinkExtendControl';
+import OrdersBoard from '../components/OrdersBoard';
+import OrdersCalendar from '../components/OrdersCalendar';
+import OrdersViewModeToggle, { type OrdersViewMode } from '../components/OrdersViewModeToggle';
 import { formatPrice, formatPriceNegative } from '../utils/formatPrice';
-import { getStatusLabel, getStatusColor, getCardStyles, formatOrderDate, formatOrderDateShortWithTime, getOrderCardDate, translateDiscountErrorMessage } from '../utils/orderUtils';
+import { getStatusLabel, getStatusColor, getCardStyles, formatOrderDate, formatOrderDateShortWithTime, getOrderCardDate, translateDiscountErrorMessage, type OrderStatus } from '../utils/orderUtils';
+import { formatLineName } from '../utils/productVariants';
+import { getOrderFulfillmentMethod } from '../utils/delivery';
+import { formatPickupSlot } from '../utils/pickupSlots';
 import { copyOrderLink, getOrderStoreLink } from '../utils/copyOrderLink';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { formatLinkLifetime, ORDER_LINK_LIFETIME_OPTIONS } from '../utils/orderLinks';
+import { getDir, t } from '../utils/i18n';
 
 export default function AgentOrdersPage() {
   const [orders, setOrders] = useState<Order[]>([]);
@@ -16,6 +26,8 @@ export default function AgentOrdersPage() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  /** Null = the business default lifetime. */
+  const [linkLifetimeHours, setLinkLifetimeHours] = useState<number | null>(null);
   const [customerSearchQuery, setCustomerSearchQuery] = useState('');
   const [viewingOrder, setViewingOrder] = useState<Order | null>(null);
   const [copiedOrderId, setCopiedOrderId] = useState<string | null>(null);
@@ -42,29 +54,30 @@ export default function AgentOrdersPage() {
 
   // Filter state
   const [statusFilter, setStatusFilter] = useState<string>('');
+  const [customerFilter, setCustomerFilter] = useState<string>(''); // '' = all customers
+  const [viewMode, setViewMode] = useState<OrdersViewMode>('list');
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
 
   useEffect(() => {
-    fetchOrders(currentPage);
-  }, [currentPage, sortBy, sortDirection, pageSize, statusFilter]);
+    // The board and the calendar load their own orders
+    if (viewMode === 'list') fetchOrders(currentPage);
+  }, [currentPage, sortBy, sortDirection, pageSize, statusFilter, customerFilter, viewMode]);
+
+  // Orders of the current filters (list page, board column or calendar range); status comes from the list filter or the column
+  const fetchFilteredOrders = (page: number, size: number, status: string | undefined, dateRange?: OrderDateRange) =>
+    agentAPI.getAllOrders(page, size, sortBy, sortDirection, status, customerFilter || null, dateRange);
 
   const fetchOrders = async (page: number = 0) => {
     setIsLoading(true);
     setError('');
     try {
-      const pageResponse = await agentAPI.getAllOrders(
-        page,
-        pageSize,
-        sortBy,
-        sortDirection,
-        statusFilter || undefined
-      );
+      const pageResponse = await fetchFilteredOrders(page, pageSize, statusFilter || undefined);
       const fetchedOrders = pageResponse?.content || [];
       setOrders(fetchedOrders);
       setTotalPages(pageResponse?.totalPages || 0);
     } catch (err: any) {
-      setError('נכשל בטעינת הזמנות');
+      setError(t('orders.page.loadFailed'));
       setOrders([]); // Reset to empty array on error
       setTotalPages(0);
       console.error('Error fetching orders:', err);
@@ -134,9 +147,11 @@ export default function AgentOrdersPage() {
     try {
       const newOrder = await agentAPI.createOrder({
         customerId: selectedCustomerId || null,
+        linkLifetimeHours: linkLifetimeHours ?? undefined,
       });
       setShowCreateModal(false);
       setSelectedCustomerId(null);
+      setLinkLifetimeHours(null);
       setCurrentPage(0);
       setOrders((prev) => [newOrder, ...prev]);
     } catch (err: unknown) {
@@ -153,6 +168,7 @@ export default function AgentOrdersPage() {
   const closeCreateModal = () => {
     setShowCreateModal(false);
     setSelectedCustomerId(null);
+    setLinkLifetimeHours(null);
     setCustomerSearchQuery('');
     setError('');
   };
@@ -190,7 +206,7 @@ export default function AgentOrdersPage() {
     const inputValue = parseFloat(discountValue);
     
     if (isNaN(inputValue) || inputValue < 0) {
-      setDiscountError('אנא הזן ערך תקין');
+      setDiscountError(t('orders.page.invalidValue'));
       return;
     }
 
@@ -230,6 +246,17 @@ export default function AgentOrdersPage() {
 
   const closeViewModal = () => setViewingOrder(null);
 
+  const handleOrdersUpdated = (updated: Order[]) => {
+    const byId = new Map(updated.map((order) => [order.id, order]));
+    setOrders((prev) => prev.map((o) => byId.get(o.id) ?? o));
+    setViewingOrder((prev) => (prev ? byId.get(prev.id) ?? prev : prev));
+  };
+
+  const handleViewModeChange = (mode: OrdersViewMode) => {
+    setViewMode(mode);
+    setCurrentPage(0);
+  };
+
   const toggleSortDirection = () => {
     setSortDirection(prev => prev === 'ASC' ? 'DESC' : 'ASC');
     setCurrentPage(0);
@@ -260,21 +287,21 @@ export default function AgentOrdersPage() {
 }
 
   return (
-    <div className="max-w-7xl mx-auto pb-32" dir="rtl">
+    <div className="max-w-7xl mx-auto pb-32">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8 mb-6">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">הזמנות</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">{t('orders.page.title')}</h1>
             <p className="text-gray-600 text-sm mt-2">
-              נהל את ההזמנות שלך ושתף קישורים עם לקוחות
+              {t('orders.page.subtitle')}
             </p>
           </div>
           <button
             onClick={openCreateModal}
             className="mt-2 md:mt-0 px-6 py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 shadow-lg hover:shadow-xl transition-all flex items-center gap-2 border-0"
           >
-            <span>צור הזמנה חדשה</span>
+            <span>{t('orders.page.newOrder')}</span>
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
@@ -282,14 +309,46 @@ export default function AgentOrdersPage() {
         </div>
       </div>
 
+      <ExpiringLinksPanel
+        getOverview={agentAPI.getLinkExpiryOverview}
+        extendLinks={agentAPI.extendOrderLinks}
+        onExtended={handleOrdersUpdated}
+        onView={handleViewOrder}
+      />
+
       {/* Filters and Sorting */}
       <div className="glass-card rounded-2xl p-4 mb-6">
         <div className="flex flex-col md:flex-row gap-4 items-start md:items-center">
           {/* Right side: Filters */}
-          <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto md:ml-auto">
-            {/* Status Filter */}
+          <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto md:me-auto">
+            <OrdersViewModeToggle value={viewMode} onChange={handleViewModeChange} />
+
+            {/* Customer Filter */}
+            <div className="w-[180px]">
+              <label htmlFor="agent-orders-customer-filter" className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.customer')}</label>
+              <select
+                id="agent-orders-customer-filter"
+                value={customerFilter}
+                onChange={(e) => {
+                  setCustomerFilter(e.target.value);
+                  setCurrentPage(0);
+                }}
+                className="glass-select w-full pl-3 pr-8 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
+                dir="ltr"
+              >
+                <option value="">{t('orders.page.filter.all')}</option>
+                {customers.map((customer) => (
+                  <option key={customer.id} value={customer.id}>
+                    {customer.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Status Filter - the board has a column per status */}
+            {viewMode !== 'board' && (
             <div className="w-[140px]">
-              <label className="block text-xs font-medium text-gray-600 mb-1">סטטוס:</label>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.status')}</label>
               <select
                 value={statusFilter}
                 onChange={(e) => {
@@ -299,18 +358,19 @@ export default function AgentOrdersPage() {
                 className="glass-select w-full pl-3 pr-8 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
                 dir="ltr"
               >
-                <option value="">הכל</option>
-                <option value="EMPTY">ריק</option>
-                <option value="PLACED">הוזמן</option>
-                <option value="DONE">הושלם</option>
-                <option value="EXPIRED">פג תוקף</option>
-                <option value="CANCELLED">בוטל</option>
+                <option value="">{t('orders.page.filter.all')}</option>
+                <option value="EMPTY">{getStatusLabel('EMPTY')}</option>
+                <option value="PLACED">{getStatusLabel('PLACED')}</option>
+                <option value="DONE">{getStatusLabel('DONE')}</option>
+                <option value="EXPIRED">{getStatusLabel('EXPIRED')}</option>
+                <option value="CANCELLED">{getStatusLabel('CANCELLED')}</option>
               </select>
             </div>
+            )}
 
             {/* Sort By */}
             <div className="w-[140px]">
-              <label className="block text-xs font-medium text-gray-600 mb-1">מיין לפי:</label>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.sortBy')}</label>
               <select
                 value={sortBy}
                 onChange={(e) => {
@@ -320,8 +380,8 @@ export default function AgentOrdersPage() {
                 className="glass-select w-full pl-3 pr-8 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
                 dir="ltr"
               >
-                <option value="createdAt">תאריך יצירה</option>
-                <option value="totalPrice">מחיר כולל</option>
+                <option value="createdAt">{t('orders.page.sort.createdAt')}</option>
+                <option value="totalPrice">{t('orders.page.sort.totalPrice')}</option>
               </select>
             </div>
 
@@ -332,7 +392,7 @@ export default function AgentOrdersPage() {
                 onClick={toggleSortDirection}
                 className="glass-button w-full px-3 py-2 rounded-xl text-sm font-semibold text-gray-800 hover:shadow-md transition-all flex items-center justify-between"
               >
-                <span>{sortDirection === 'ASC' ? 'א ← ת' : 'א → ת'}</span>
+                <span>{sortDirection === 'ASC' ? t('orders.page.sort.ascending') : t('orders.page.sort.descending')}</span>
                 {sortDirection === 'ASC' ? (
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -346,8 +406,9 @@ export default function AgentOrdersPage() {
             </div>
 
             {/* Page Size */}
+            {viewMode === 'list' && (
             <div className="w-[90px]">
-              <label className="block text-xs font-medium text-gray-600 mb-1">הצג:</label>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.pageSize')}</label>
               <select
                 value={pageSize}
                 onChange={(e) => {
@@ -364,12 +425,29 @@ export default function AgentOrdersPage() {
                 <option value="100">100</option>
               </select>
             </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Orders List */}
-      {!orders || orders.length === 0 ? (
+      {viewMode === 'board' ? (
+        <OrdersBoard
+          key={[customerFilter, sortBy, sortDirection].join('|')}
+          fetchColumn={(status: OrderStatus, page, size) => fetchFilteredOrders(page, size, status)}
+          transitions={{ CANCELLED: agentAPI.markOrderCancelled }}
+          onOrdersUpdated={handleOrdersUpdated}
+          onView={handleViewOrder}
+          activeOrder={viewingOrder}
+        />
+      ) : viewMode === 'calendar' ? (
+        <OrdersCalendar
+          key={[customerFilter, statusFilter].join('|')}
+          fetchOrders={(range, page, size) => fetchFilteredOrders(page, size, statusFilter || undefined, range)}
+          onView={handleViewOrder}
+          activeOrder={viewingOrder}
+        />
+      ) : !orders || orders.length === 0 ? (
         <div className="glass-card rounded-2xl p-12 text-center">
           <svg
             className="w-16 h-16 text-gray-400 mx-auto mb-4"
@@ -385,13 +463,13 @@ export default function AgentOrdersPage() {
               d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
             />
           </svg>
-          <h2 className="text-xl font-semibold text-gray-700 mb-2">אין הזמנות עדיין</h2>
-          <p className="text-gray-600 mb-6">צור את ההזמנה הראשונה שלך כדי להתחיל</p>
+          <h2 className="text-xl font-semibold text-gray-700 mb-2">{t('orders.page.empty.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('orders.page.empty.body')}</p>
           <button
             onClick={openCreateModal}
             className="glass-button px-6 py-3 rounded-xl font-semibold text-indigo-600 hover:shadow-md transition-all"
           >
-            צור הזמנה
+            {t('orders.page.createOrder')}
           </button>
         </div>
       ) : (
@@ -415,7 +493,7 @@ export default function AgentOrdersPage() {
               className={`${cardStyles.container} backdrop-blur-sm rounded-2xl p-4 transition-all duration-300 cursor-pointer group flex flex-col relative w-full sm:max-w-[260px] overflow-hidden`}
             >
               {/* Status Accent Bar - with rounded top to match card */}
-              <div className={`absolute top-0 left-0 right-0 h-1.5 ${cardStyles.accent} rounded-t-2xl`}></div>
+              <div className={`absolute top-0 start-0 end-0 h-1.5 ${cardStyles.accent} rounded-t-2xl`}></div>
               
               {/* Order Header - Status & ID */}
               <div className="flex items-center justify-between mb-3 mt-1">
@@ -470,10 +548,10 @@ export default function AgentOrdersPage() {
                         <span className={`transition-opacity duration-300 ${
                           copiedPhoneNumber === displayCustomerPhone ? 'opacity-100' : 'opacity-0 absolute'
                         }`}>
-                          <svg className="w-4 h-4 inline-block mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <svg className="w-4 h-4 inline-block me-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                           </svg>
-                          הועתק!
+                          {t('orders.page.copied')}
                         </span>
                         <span className={`transition-opacity duration-300 flex items-center gap-1.5 ${
                           copiedPhoneNumber === displayCustomerPhone ? 'opacity-0 absolute' : 'opacity-100'
@@ -489,12 +567,12 @@ export default function AgentOrdersPage() {
                 ) : order.status === 'EMPTY' ? (
                   <div className="w-full flex items-center justify-center h-full">
                     <div className="text-center space-y-1">
-                      <p className="text-sm font-medium text-gray-600">אין פרטי לקוח עדיין</p>
-                      <p className="text-xs text-gray-600">ממתין לפרטי ההזמנה</p>
+                      <p className="text-sm font-medium text-gray-600">{t('orders.page.noCustomerYet')}</p>
+                      <p className="text-xs text-gray-600">{t('orders.page.awaitingDetails')}</p>
                     </div>
                   </div>
                 ) : (
-                  !linkedCustomer && <p className="text-sm text-gray-600 italic font-medium text-center">אין פרטי לקוח</p>
+                  !linkedCustomer && <p className="text-sm text-gray-600 italic font-medium text-center">{t('orders.page.noCustomerDetails')}</p>
                 )}
 
               </div>
@@ -510,7 +588,7 @@ export default function AgentOrdersPage() {
                     : '0.0';
                   return (
                     <div className="flex items-center justify-between gap-2 mb-2">
-                      <span className="text-xs text-gray-500">הנחה</span>
+                      <span className="text-xs text-gray-500">{t('orderView.discount')}</span>
                       <span className="text-sm font-semibold text-red-600">
                         {order.discount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}-₪ ({discountPercentage}%)
                       </span>
@@ -518,7 +596,7 @@ export default function AgentOrdersPage() {
                   );
                 })()}
                 <div className="flex items-baseline justify-between gap-2 min-w-0">
-                  <span className="hidden sm:block text-xs font-medium text-gray-600 uppercase tracking-wide flex-shrink-0">סה״כ</span>
+                  <span className="hidden sm:block text-xs font-medium text-gray-600 uppercase tracking-wide flex-shrink-0">{t('orders.page.total')}</span>
                   <span dir="ltr" className="text-lg sm:text-xl md:text-2xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent truncate min-w-0 w-full sm:w-auto text-center sm:text-right inline-block">
                     {formatPrice(order.totalPrice)}
                   </span>
@@ -544,7 +622,7 @@ export default function AgentOrdersPage() {
                         window.open(`https://wa.me/?text=${encodeURIComponent(getOrderStoreLink(order.id))}`, '_blank');
                       }}
                       className="w-9 h-9 rounded-full border-2 flex items-center justify-center transition-all shadow-sm flex-shrink-0 bg-[#25D366]/10 text-[#25D366] border-[#25D366] hover:shadow-md"
-                      title="שלח קישור בוואטסאפ"
+                      title={t('orders.page.sendWhatsApp')}
                     >
                       <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
                         <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893a11.821 11.821 0 00-3.48-8.413z" />
@@ -560,7 +638,7 @@ export default function AgentOrdersPage() {
                           ? 'bg-indigo-200 text-indigo-700 border-indigo-700'
                           : 'bg-indigo-50 text-indigo-600 border-indigo-500 hover:shadow-md'
                       }`}
-                      title={copiedOrderId === order.id ? 'קישור הועתק' : 'העתק קישור הזמנה'}
+                      title={copiedOrderId === order.id ? t('orders.page.linkCopied') : t('orders.page.copyLink')}
                     >
                       <span
                         className={`absolute inset-0 flex items-center justify-center transition-all duration-200 transform ${
@@ -587,7 +665,7 @@ export default function AgentOrdersPage() {
                         window.open(getOrderStoreLink(order.id), '_blank');
                       }}
                       className="w-9 h-9 rounded-full border-2 flex items-center justify-center transition-all shadow-sm flex-shrink-0 bg-indigo-50 text-indigo-600 border-indigo-500 hover:shadow-md"
-                      title="פתח הזמנה בטאב חדש"
+                      title={t('orders.page.openInNewTab')}
                     >
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
@@ -601,7 +679,7 @@ export default function AgentOrdersPage() {
                       navigate(`/store/edit/${order.id}`);
                     }}
                     className="w-8 h-8 sm:w-9 sm:h-9 rounded-full border-2 flex items-center justify-center transition-all shadow-sm flex-shrink-0 bg-blue-100 text-blue-700 border-blue-700 hover:shadow-lg"
-                    title="ערוך הזמנה"
+                    title={t('orders.page.edit')}
                   >
                     <svg className="w-4 h-4 sm:w-5 sm:h-5 text-blue-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -622,8 +700,8 @@ export default function AgentOrdersPage() {
         totalPages={totalPages}
         onPageChange={setCurrentPage}
         maxWidth="max-w-7xl"
-        showCondition={orders && orders.length > 0 && totalPages > 0}
-        rtl={true}
+        showCondition={viewMode === 'list' && orders && orders.length > 0 && totalPages > 0}
+        rtl={getDir() === 'rtl'}
       />
 
       {/* Create Order Modal */}
@@ -639,11 +717,10 @@ export default function AgentOrdersPage() {
         >
           <div 
             className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-lg bg-white/85" 
-            dir="rtl"
             onClick={(e) => e.stopPropagation()}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-bold text-gray-800">צור הזמנה חדשה</h2>
+              <h2 className="text-lg font-bold text-gray-800">{t('orders.page.newOrder')}</h2>
               <button
                 onClick={closeCreateModal}
                 className="p-2 hover:bg-white/20 rounded-lg transition-colors"
@@ -669,10 +746,29 @@ export default function AgentOrdersPage() {
                 <svg className="w-5 h-5 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <span>קישור להזמנה יהיה תקף למשך שבוע אחד ויפקע לאחר מכן</span>
+                <span>{t('orders.page.create.linkExpiry')}</span>
               </div>
             </div>
 
+            <div className="mb-4">
+              <label htmlFor="create-order-link-lifetime" className="block text-sm font-medium text-gray-700 mb-1">
+                {t('orders.page.create.linkLifetime')}
+              </label>
+              <select
+                id="create-order-link-lifetime"
+                value={linkLifetimeHours ?? ''}
+                onChange={(e) => setLinkLifetimeHours(e.target.value ? Number(e.target.value) : null)}
+                className="glass-select w-full px-3 py-2 rounded-xl text-sm text-gray-800 cursor-pointer"
+              >
+                <option value="">{t('orders.page.create.businessDefault')}</option>
+                {ORDER_LINK_LIFETIME_OPTIONS.map((hours) => (
+                  <option key={hours} value={hours}>
+                    {formatLinkLifetime(hours)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {error && (
               <div className="glass-card bg-red-50/50 border-red-200 rounded-xl p-3 mb-4 text-red-600 text-sm">
                 {error}
@@ -681,13 +777,13 @@ export default function AgentOrdersPage() {
 
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-3">
-                בחירת לקוח
+                {t('orders.page.create.customer')}
               </label>
 
               {/* Standalone Order Option */}
               <button
                 onClick={() => setSelectedCustomerId(null)}
-                className={`w-full text-right px-4 py-2.5 rounded-xl transition-all mb-3 flex items-center gap-3 ${
+                className={`w-full text-start px-4 py-2.5 rounded-xl transition-all mb-3 flex items-center gap-3 ${
                   selectedCustomerId === null
                     ? 'glass-button shadow-md border-2 border-indigo-500 bg-indigo-50/30'
                     : 'glass-input hover:shadow-sm'
@@ -703,20 +799,20 @@ export default function AgentOrdersPage() {
                   )}
                 </div>
                 <div className="flex-1">
-                  <div className="font-medium text-gray-800 text-sm">ללא לקוח</div>
-                  <div className="text-xs text-gray-600">הלקוח יספק את הפרטים שלו דרך הקישור</div>
+                  <div className="font-medium text-gray-800 text-sm">{t('orders.page.create.noCustomer')}</div>
+                  <div className="text-xs text-gray-600">{t('orders.page.create.noCustomerHint')}</div>
                 </div>
               </button>
 
               {/* Link to Customer Section */}
               {customers.length > 0 && (
                 <>
-                  <div className="text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">או קשר ללקוח קיים</div>
+                  <div className="text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">{t('orders.page.create.linkExisting')}</div>
                   
                   {/* Customer Search */}
                   <div className="relative mb-2">
                     <svg
-                      className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
+                      className="absolute start-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
                       fill="none"
                       stroke="currentColor"
                       viewBox="0 0 24 24"
@@ -730,16 +826,15 @@ export default function AgentOrdersPage() {
                     </svg>
                     <input
                       type="text"
-                      placeholder="חפש לקוחות..."
+                      placeholder={t('orders.page.create.search')}
                       value={customerSearchQuery}
                       onChange={(e) => setCustomerSearchQuery(e.target.value)}
-                      className="glass-input w-full pr-10 pl-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                      dir="rtl"
+                      className="glass-input w-full ps-10 pe-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                     />
                     {customerSearchQuery && (
                       <button
                         onClick={() => setCustomerSearchQuery('')}
-                        className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                        className="absolute end-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -755,12 +850,12 @@ export default function AgentOrdersPage() {
                         <svg className="w-10 h-10 mx-auto mb-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                         </svg>
-                        <p className="text-xs">לא נמצאו לקוחות</p>
+                        <p className="text-xs">{t('orders.page.create.noResults')}</p>
                         <button
                           onClick={() => setCustomerSearchQuery('')}
                           className="text-xs text-indigo-600 hover:text-indigo-700 mt-1"
                         >
-                          נקה חיפוש
+                          {t('orders.page.create.clearSearch')}
                         </button>
                       </div>
                     ) : (
@@ -768,7 +863,7 @@ export default function AgentOrdersPage() {
                         <button
                           key={customer.id}
                           onClick={() => setSelectedCustomerId(customer.id)}
-                          className={`w-full text-right px-3 py-2 rounded-lg transition-all flex items-center gap-2.5 ${
+                          className={`w-full text-start px-3 py-2 rounded-lg transition-all flex items-center gap-2.5 ${
                             selectedCustomerId === customer.id
                               ? 'glass-button shadow-md border-2 border-indigo-500 bg-indigo-50/30'
                               : 'glass-input hover:shadow-sm'
@@ -805,7 +900,7 @@ export default function AgentOrdersPage() {
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                 </svg>
-                <span>ביטול</span>
+                <span>{t('common.cancel')}</span>
               </button>
               <button
                 type="button"
@@ -816,14 +911,14 @@ export default function AgentOrdersPage() {
                 {isCreating ? (
                   <>
                     <Spinner size="sm" />
-                    <span>יוצר...</span>
+                    <span>{t('orders.page.create.creating')}</span>
                   </>
                 ) : (
                   <>
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                     </svg>
-                    <span>צור הזמנה</span>
+                    <span>{t('orders.page.createOrder')}</span>
                   </>
                 )}
               </button>
@@ -862,12 +957,11 @@ export default function AgentOrdersPage() {
               // Clear the backdrop flag if mousedown is on modal content
               mousedownOnBackdropRef.current = false;
             }}
-            dir="rtl"
           >
             <div className="flex items-center justify-between mb-6">
               <div>
-                <h2 className="text-lg font-bold text-gray-800">פרטי הזמנה</h2>
-                <p className="text-sm text-gray-600">מספר מזהה #{viewingOrder.id}</p>
+                <h2 className="text-lg font-bold text-gray-800">{t('orderView.title')}</h2>
+                <p className="text-sm text-gray-600">{t('orderView.id', { id: viewingOrder.id })}</p>
               </div>
               <button
                 onClick={closeViewModal}
@@ -893,111 +987,140 @@ export default function AgentOrdersPage() {
             <div className="mb-6">
               <div className="flex items-center gap-3">
                 <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getStatusColor(viewingOrder.status)}`}>
-                  {viewingOrder.status === 'EMPTY' ? 'ריק' : viewingOrder.status === 'PLACED' ? 'הוזמן' : viewingOrder.status === 'DONE' ? 'הושלם' : viewingOrder.status === 'EXPIRED' ? 'פג תוקף' : viewingOrder.status === 'CANCELLED' ? 'בוטל' : viewingOrder.status}
+                  {getStatusLabel(viewingOrder.status)}
                 </span>
                 <span className="text-sm text-gray-600">
-                  {viewingOrder.placedAt ? 'הוזמן' : 'נוצר'} {formatOrderDate(viewingOrder.placedAt ?? viewingOrder.createdAt)}
+                  {t(viewingOrder.placedAt ? 'agentOrders.placedOn' : 'agentOrders.createdOn', {
+                    date: formatOrderDate(viewingOrder.placedAt ?? viewingOrder.createdAt),
+                  })}
                 </span>
               </div>
             </div>
 
             {/* Customer Information */}
             <div className="mb-6">
-              <h3 className="text-sm font-semibold text-gray-700 mb-3">פרטי לקוח</h3>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.customer')}</h3>
               <div className="glass-card rounded-xl p-4 space-y-2">
                 {viewingOrder.customerName ? (
                   <>
                     <div className="flex items-start justify-between gap-3">
-                      <span className="text-sm text-gray-600">שם</span>
-                      <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.customerName}</span>
+                      <span className="text-sm text-gray-600">{t('orderView.name')}</span>
+                      <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.customerName}</span>
                     </div>
                     {viewingOrder.customerPhone && (
                       <div className="flex items-start justify-between gap-3">
-                        <span className="text-sm text-gray-600">טלפון</span>
-                        <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.customerPhone}</span>
+                        <span className="text-sm text-gray-600">{t('orderView.phone')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.customerPhone}</span>
                       </div>
                     )}
                     {viewingOrder.customerEmail && (
                       <div className="flex items-start justify-between gap-3">
-                        <span className="text-sm text-gray-600">אימייל</span>
-                        <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.customerEmail}</span>
+                        <span className="text-sm text-gray-600">{t('orderView.email')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.customerEmail}</span>
                       </div>
                     )}
                     {viewingOrder.customerStreetAddress && (
                       <div className="flex items-start justify-between gap-3">
-                        <span className="text-sm text-gray-600">כתובת</span>
-                        <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.customerStreetAddress}</span>
+                        <span className="text-sm text-gray-600">{t('orderView.address')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.customerStreetAddress}</span>
                       </div>
                     )}
                     {viewingOrder.customerCity && (
                       <div className="flex items-start justify-between gap-3">
-                        <span className="text-sm text-gray-600">עיר</span>
-                        <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.customerCity}</span>
+                        <span className="text-sm text-gray-600">{t('orderView.city')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.customerCity}</span>
                       </div>
                     )}
                   </>
                 ) : (
-                  <p className="text-sm text-gray-500 italic">אין פרטי לקוח עדיין</p>
+                  <p className="text-sm text-gray-500 italic">{t('orderView.noCustomer')}</p>
                 )}
               </div>
             </div>
 
-            {/* Pickup Location */}
+            {/* Pickup / Delivery */}
             <div className="mb-6">
-              <h3 className="text-sm font-semibold text-gray-700 mb-3">סניף</h3>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">{getOrderFulfillmentMethod(viewingOrder) === 'DELIVERY' ? t('fulfillment.DELIVERY') : t('orderView.location')}</h3>
               <div className="glass-card rounded-xl p-4 space-y-2">
-                {viewingOrder.selectedLocation ? (
+                {getOrderFulfillmentMethod(viewingOrder) === 'DELIVERY' ? (
+                  viewingOrder.deliveryAddress ? (
+                    <>
+                      <div className="flex items-start justify-between gap-3">
+                        <span className="text-sm text-gray-600">{t('orderView.address')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.deliveryAddress.streetAddress}</span>
+                      </div>
+                      <div className="flex items-start justify-between gap-3">
+                        <span className="text-sm text-gray-600">{t('orderView.city')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.deliveryAddress.city}</span>
+                      </div>
+                      {viewingOrder.deliveryAddress.instructions && (
+                        <div className="flex items-start justify-between gap-3">
+                          <span className="text-sm text-gray-600">{t('orderView.instructions')}</span>
+                          <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.deliveryAddress.instructions}</span>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 italic">{t('orderView.noDeliveryAddress')}</p>
+                  )
+                ) : viewingOrder.selectedLocation ? (
                   <>
                     {viewingOrder.selectedLocation.name && (
                       <div className="flex items-start justify-between gap-3">
-                        <span className="text-sm text-gray-600">שם</span>
-                        <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.selectedLocation.name}</span>
+                        <span className="text-sm text-gray-600">{t('orderView.name')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.selectedLocation.name}</span>
                       </div>
                     )}
                     {viewingOrder.selectedLocation.streetAddress && (
                       <div className="flex items-start justify-between gap-3">
-                        <span className="text-sm text-gray-600">כתובת</span>
-                        <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.selectedLocation.streetAddress}</span>
+                        <span className="text-sm text-gray-600">{t('orderView.address')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.selectedLocation.streetAddress}</span>
                       </div>
                     )}
                     {viewingOrder.selectedLocation.city && (
                       <div className="flex items-start justify-between gap-3">
-                        <span className="text-sm text-gray-600">עיר</span>
-                        <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.selectedLocation.city}</span>
+                        <span className="text-sm text-gray-600">{t('orderView.city')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.selectedLocation.city}</span>
                       </div>
                     )}
                     {viewingOrder.selectedLocation.phoneNumber && (
                       <div className="flex items-start justify-between gap-3">
-                        <span className="text-sm text-gray-600">טלפון</span>
-                        <span className="text-sm font-medium text-gray-800 text-left break-words break-all">{viewingOrder.selectedLocation.phoneNumber}</span>
+                        <span className="text-sm text-gray-600">{t('orderView.phone')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words break-all">{viewingOrder.selectedLocation.phoneNumber}</span>
+                      </div>
+                    )}
+                    {viewingOrder.pickupSlot && (
+                      <div className="flex items-start justify-between gap-3">
+                        <span className="text-sm text-gray-600">{t('orderView.pickupSlot')}</span>
+                        <span className="text-sm font-medium text-gray-800 text-end break-words">{formatPickupSlot(viewingOrder.pickupSlot)}</span>
                       </div>
                     )}
                   </>
                 ) : (
-                  <p className="text-sm text-gray-500 italic">סניף לא נבחר עדיין</p>
+                  <p className="text-sm text-gray-500 italic">{t('orderView.noLocation')}</p>
                 )}
               </div>
             </div>
 
             {/* Products */}
             <div className="mb-6">
-              <h3 className="text-sm font-semibold text-gray-700 mb-3">מוצרים</h3>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.products')}</h3>
               <div className="glass-card rounded-xl overflow-hidden">
                 {viewingOrder.products.length === 0 ? (
-                  <p className="text-sm text-gray-500 italic p-4">אין מוצרים עדיין</p>
+                  <p className="text-sm text-gray-500 italic p-4">{t('orderView.noProducts')}</p>
                 ) : (
                   <div className="divide-y divide-gray-200/50">
                     {viewingOrder.products.map((product, index) => (
                       <div key={index} className="p-3 flex items-start justify-between gap-3 hover:bg-white/20 transition-colors">
                         <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium text-gray-800 break-words break-all">{product.productName}</p>
-                          <p className="text-xs text-gray-600 break-words break-all">כמות: {product.quantity}</p>
+                          <p className="text-sm font-medium text-gray-800 break-words break-all">{formatLineName(product)}</p>
+                          <p className="text-xs text-gray-600 break-words break-all">{t('orderView.quantity', { quantity: product.quantity })}</p>
                         </div>
-                        <div className="text-left break-words break-all">
+                        <div className="text-end break-words break-all">
                           <p className="text-sm font-semibold text-gray-800 break-words break-all">
                             {formatPrice(product.pricePerUnit * product.quantity)}
                           </p>
-                          <p className="text-xs text-gray-600 break-words break-all">{formatPrice(product.pricePerUnit)} לכל יחידה</p>
+                          <p className="text-xs text-gray-600 break-words break-all">{t('orderView.perUnit', { price: formatPrice(product.pricePerUnit) })}</p>
                         </div>
                       </div>
                     ))}
@@ -1008,14 +1131,14 @@ export default function AgentOrdersPage() {
 
             {/* Order Summary */}
             <div className="mb-6">
-              <h3 className="text-sm font-semibold text-gray-700 mb-3">סיכום הזמנה</h3>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.summary')}</h3>
               <div className="glass-card rounded-xl p-4 space-y-2">
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">סה״כ פריטים</span>
+                  <span className="text-sm text-gray-600">{t('orderView.totalItems')}</span>
                   <span className="text-sm font-medium text-gray-800">{viewingOrder.products.length}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">סה״כ כמות</span>
+                  <span className="text-sm text-gray-600">{t('orderView.totalQuantity')}</span>
                   <span className="text-sm font-medium text-gray-800">
                     {viewingOrder.products.reduce((sum, p) => sum + p.quantity, 0)}
                   </span>
@@ -1026,14 +1149,14 @@ export default function AgentOrdersPage() {
                   );
                   return (
                     <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
-                      <span className="text-sm text-gray-600">מחיר</span>
+                      <span className="text-sm text-gray-600">{t('orderView.price')}</span>
                       <span className="text-sm font-medium text-gray-800">{formatPrice(productsTotal)}</span>
                     </div>
                   );
                 })()}
                 {viewingOrder.doneAt && (
                   <div className="flex items-center justify-between">
-                    <span className="text-sm text-gray-600">הושלם</span>
+                    <span className="text-sm text-gray-600">{getStatusLabel('DONE')}</span>
                     <span className="text-sm font-medium text-gray-800">{formatOrderDate(viewingOrder.doneAt)}</span>
                   </div>
                 )}
@@ -1046,27 +1169,33 @@ export default function AgentOrdersPage() {
                     : '0.0';
                   return (
                     <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
-                      <span className="text-sm text-gray-600">הנחה</span>
+                      <span className="text-sm text-gray-600">{t('orderView.discount')}</span>
                       <span className="text-sm font-semibold text-red-600">
                         {viewingOrder.discount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}-₪ ({discountPercentage}%)
                       </span>
                     </div>
                   );
                 })()}
+                {(viewingOrder.deliveryFee ?? 0) > 0 && (
+                  <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
+                    <span className="text-sm text-gray-600">{t('orderView.deliveryFee')}</span>
+                    <span className="text-sm font-medium text-gray-800">{formatPrice(viewingOrder.deliveryFee!)}</span>
+                  </div>
+                )}
                 {(() => {
                   const credited = viewingOrder.totalCreditedAmount ?? 0;
                   return (
                     <>
                       {credited > 0 && (
                         <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
-                          <span className="text-sm text-gray-600">זיכויים</span>
+                          <span className="text-sm text-gray-600">{t('orderView.credits')}</span>
                           <span dir="ltr" className="text-sm font-semibold text-amber-800 tabular-nums">
                             {formatPriceNegative(credited)}
                           </span>
                         </div>
                       )}
                       <div className="flex items-center justify-between pt-2 border-t border-gray-200/50">
-                        <span className="text-base font-semibold text-gray-800">מחיר כולל</span>
+                        <span className="text-base font-semibold text-gray-800">{t('orderView.total')}</span>
                         <span dir="ltr" className="text-lg font-bold text-indigo-600 tabular-nums">
                           {formatPrice(viewingOrder.totalPrice)}
                         </span>
@@ -1079,28 +1208,33 @@ export default function AgentOrdersPage() {
 
             {/* Notes */}
             <div className="mb-6">
-              <h3 className="text-sm font-semibold text-gray-700 mb-3">הערות</h3>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('orderView.notes')}</h3>
               <div className="glass-card rounded-xl p-4">
                 {viewingOrder.notes && viewingOrder.notes.trim() ? (
                   <p className="text-sm font-bold text-orange-600 whitespace-pre-wrap break-words">{viewingOrder.notes}</p>
                 ) : (
-                  <p className="text-sm text-gray-500 italic">אין הערות</p>
+                  <p className="text-sm text-gray-500 italic">{t('orderView.noNotes')}</p>
                 )}
               </div>
             </div>
 
             {/* Link Info */}
             <div className="mb-6">
-              <h3 className="text-sm font-semibold text-gray-700 mb-3">מידע על קישור</h3>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">{t('agentOrders.linkInfo')}</h3>
               <div className="glass-card rounded-xl p-4 space-y-2">
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">תאריך תפוגה</span>
+                  <span className="text-sm text-gray-600">{t('agentOrders.linkExpiresAt')}</span>
                   <span className="text-sm font-medium text-gray-800">{formatOrderDate(viewingOrder.linkExpiresAt)}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">מספר אסמכתא</span>
+                  <span className="text-sm text-gray-600">{t('orderView.reference')}</span>
                   <span className="text-xs font-mono font-bold text-gray-800">{viewingOrder.referenceId}</span>
                 </div>
+                <OrderLinkExtendControl
+                  order={viewingOrder}
+                  extendLinks={agentAPI.extendOrderLinks}
+                  onExtended={(order) => handleOrdersUpdated([order])}
+                />
               </div>
             </div>
 
@@ -1119,7 +1253,7 @@ export default function AgentOrdersPage() {
                       : 'text-red-600 border-red-600 bg-red-50 hover:shadow-lg'
                   }`}
                 >
-                  {cancellingOrderId === viewingOrder.id ? 'מבטל...' : 'בטל הזמנה'}
+                  {cancellingOrderId === viewingOrder.id ? t('orderView.cancelling') : t('orderView.cancel')}
                 </button>
               )}
               {viewingOrder.status === 'PLACED' && (
@@ -1134,7 +1268,7 @@ export default function AgentOrdersPage() {
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                     </svg>
-                    <span>ערוך הזמנה</span>
+                    <span>{t('orderView.edit')}</span>
                   </button>
                   <button
                     onClick={() => {
@@ -1147,7 +1281,7 @@ export default function AgentOrdersPage() {
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
-                    <span>הוסף הנחה</span>
+                    <span>{t('orderView.addDiscount')}</span>
                   </button>
                 </>
               )}
@@ -1155,7 +1289,7 @@ export default function AgentOrdersPage() {
                 onClick={closeViewModal}
                 className="glass-button px-6 py-2 rounded-xl text-sm font-semibold text-gray-800 hover:shadow-md transition-all"
               >
-                סגור
+                {t('common.close')}
               </button>
             </div>
           </div>
@@ -1177,12 +1311,11 @@ export default function AgentOrdersPage() {
           <div
             className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90 shadow-xl border border-purple-100"
             onClick={(e) => e.stopPropagation()}
-            dir="rtl"
           >
             <div className="flex items-center justify-between mb-4">
               <div>
-                <h2 className="text-lg font-semibold text-gray-900">הוסף הנחה</h2>
-                <p className="text-sm text-gray-600 mt-1">הזמנה #{discountOrder.id.slice(0, 8)}</p>
+                <h2 className="text-lg font-semibold text-gray-900">{t('orders.page.discountModal.title')}</h2>
+                <p className="text-sm text-gray-600 mt-1">{t('orders.page.discountModal.order', { id: discountOrder.id.slice(0, 8) })}</p>
               </div>
               <button
                 onClick={() => {
@@ -1210,7 +1343,7 @@ export default function AgentOrdersPage() {
                 return (
                   <div className="p-3 bg-indigo-50 border border-indigo-200 rounded-xl">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium text-indigo-700">סכום הזמנה:</span>
+                      <span className="text-sm font-medium text-indigo-700">{t('orders.page.discountModal.orderTotal')}</span>
                       <span className="text-lg font-bold text-indigo-900">{formatPrice(productsTotal)}</span>
                     </div>
                   </div>
@@ -1232,7 +1365,7 @@ export default function AgentOrdersPage() {
                       : 'bg-white text-gray-600 hover:bg-gray-100'
                   }`}
                 >
-                  סכום (₪)
+                  {t('orders.page.discountModal.amountMode')}
                 </button>
                 <button
                   type="button"
@@ -1247,13 +1380,13 @@ export default function AgentOrdersPage() {
                       : 'bg-white text-gray-600 hover:bg-gray-100'
                   }`}
                 >
-                  אחוז (%)
+                  {t('orders.page.discountModal.percentMode')}
                 </button>
               </div>
 
               <div>
                 <label htmlFor="discount-input" className="block text-sm font-medium text-gray-700 mb-2">
-                  {discountMode === 'number' ? 'סכום הנחה (₪)' : 'אחוז הנחה (%)'}
+                  {discountMode === 'number' ? t('orders.page.discountModal.amountLabel') : t('orders.page.discountModal.percentLabel')}
                 </label>
                 <div className="relative">
                   <input
@@ -1324,15 +1457,17 @@ export default function AgentOrdersPage() {
                   return (
                     <>
                       {discountMode === 'number' ? (
-                        <p className="text-xs text-gray-500 mt-1">עד 2 ספרות אחרי הנקודה, מקסימום {formatPrice(productsTotal)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {t('orders.page.discountModal.hint', { max: formatPrice(productsTotal) })}
+                        </p>
                       ) : (
-                        <p className="text-xs text-gray-500 mt-1">עד 2 ספרות אחרי הנקודה, מקסימום 100%</p>
+                        <p className="text-xs text-gray-500 mt-1">{t('orders.page.discountModal.hint', { max: '100%' })}</p>
                       )}
                       {/* Show calculated discount amount when in percentage mode */}
                       {discountMode === 'percentage' && discountValue && !isNaN(parseFloat(discountValue)) && (
                         <div className="mt-2 p-2 bg-purple-50 border border-purple-200 rounded-lg">
                           <p className="text-xs text-purple-700">
-                            סכום הנחה: <span className="font-bold">{formatPrice((parseFloat(discountValue) / 100) * productsTotal)}</span>
+                            {t('orders.page.discountModal.amount')} <span className="font-bold">{formatPrice((parseFloat(discountValue) / 100) * productsTotal)}</span>
                           </p>
                         </div>
                       )}
@@ -1359,7 +1494,7 @@ export default function AgentOrdersPage() {
                   disabled={isUpdatingDiscount}
                   className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all disabled:opacity-50"
                 >
-                  ביטול
+                  {t('common.cancel')}
                 </button>
                 <button
                   onClick={handleUpdateDiscount}
@@ -1376,10 +1511,10 @@ export default function AgentOrdersPage() {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V2C6.477 2 2 6.477 2 12h2zm2 5.291A7.962 7.962 0 014 12H2c0 3.042 1.135 5.824 3 7.938l1-2.647z" />
                       </svg>
-                      <span>שומר...</span>
+                      <span>{t('orders.page.discountModal.saving')}</span>
                     </>
                   ) : (
-                    'שמור'
+                    t('orders.page.discountModal.save')
                   )}
                 </button>
               </div>
@@ -1396,11 +1531,10 @@ export default function AgentOrdersPage() {
           <div
             className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90 shadow-xl border border-red-100"
             onClick={(e) => e.stopPropagation()}
-            dir="rtl"
           >
             <div className="flex items-center justify-between mb-4">
               <div>
-                <h2 className="text-lg font-semibold text-gray-900">בטל הזמנה?</h2>
+                <h2 className="text-lg font-semibold text-gray-900">{t('orders.cancel.title')}</h2>
               </div>
               <button
                 onClick={() => !cancellingOrderId && setShowCancelConfirm(false)}
@@ -1413,7 +1547,7 @@ export default function AgentOrdersPage() {
             </div>
 
             <p className="text-sm text-gray-600 mb-6 leading-relaxed font-medium">
-              ביטול יסיר את ההזמנה מהתור הפעיל. תמיד תוכל ליצור הזמנה חדשה מאוחר יותר אם תשנה את דעתך.
+              {t('orders.page.cancelBody')}
             </p>
 
             <div className="border-t border-gray-200/70 -mx-6 md:-mx-8 mb-4"></div>
@@ -1423,7 +1557,7 @@ export default function AgentOrdersPage() {
                 onClick={() => !cancellingOrderId && setShowCancelConfirm(false)}
                 className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all"
               >
-                שמור הזמנה
+                {t('orders.cancel.keep')}
               </button>
               <button
                 onClick={() => handleCancelOrder(orderIdPendingCancel)}
@@ -1434,7 +1568,7 @@ export default function AgentOrdersPage() {
                     : 'text-red-600 border-red-600 bg-red-50 hover:shadow-lg'
                 }`}
               >
-                {cancellingOrderId ? 'מבטל...' : 'בטל הזמנה'}
+                {cancellingOrderId ? t('orders.page.cancelling') : t('orders.cancel.confirm')}
               </button>
             </div>
           </div>
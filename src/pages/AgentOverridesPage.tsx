@@ -7,6 +7,7 @@ import { formatPrice } from '../utils/formatPrice';
 import type { ProductListItem, CustomerListItem, ProductOverride, ProductOverrideWithPrice } from '../utils/types';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
 import { msgFromBody, resolveApiErr } from '../utils/apiErrorMessage';
+import { formatNumber, getDir, t } from '../utils/i18n';
 
 const MAX_PRICE = 1_000_000;
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
@@ -110,7 +111,7 @@ export default function AgentOverridesPage() {
       setOverrides(data.content || []);
       setTotalPages(data.totalPages || 0);
     } catch (err: any) {
-      const message = err?.message || 'נכשל בטעינת מחירים מיוחדים';
+      const message = err?.message || t('override.error.load');
       setError(message);
       if (message.includes('401')) {
         navigate('/login/agent');
@@ -196,21 +197,21 @@ export default function AgentOverridesPage() {
   const validateOverrideForm = (priceValue: string, { requireSelection }: { requireSelection: boolean }) => {
     const errors: Record<string, string> = {};
     if (requireSelection) {
-      if (!formData.productId) errors.productId = 'נדרש לבחור מוצר';
-      if (!formData.customerId) errors.customerId = 'נדרש לבחור לקוח';
+      if (!formData.productId) errors.productId = t('override.error.productRequired');
+      if (!formData.customerId) errors.customerId = t('override.error.customerRequired');
     }
 
     if (!priceValue.trim()) {
-      errors.overridePrice = 'נדרש להזין מחיר מותאם';
+      errors.overridePrice = t('override.error.priceRequired');
     } else if (isNaN(Number(priceValue)) || Number(priceValue) < 0) {
-      errors.overridePrice = 'מחיר מותאם חייב להיות מספר חיובי תקין';
+      errors.overridePrice = t('override.error.priceInvalid');
     } else if (Number(priceValue) > MAX_PRICE) {
-      errors.overridePrice = 'מחיר מותאם לא יכול לעלות על 1,000,000';
+      errors.overridePrice = t('override.error.priceMax', { max: formatNumber(MAX_PRICE) });
     } else {
       // Check decimal places
       const decimalParts = priceValue.split('.');
       if (decimalParts.length > 1 && decimalParts[1].length > 2) {
-        errors.overridePrice = 'מחיר מותאם יכול לכלול עד 2 ספרות אחרי הנקודה';
+        errors.overridePrice = t('override.error.priceDecimals');
       }
     }
     return errors;
@@ -371,37 +372,37 @@ export default function AgentOverridesPage() {
 
   if (isLoading) {
     return (
-      <div className="flex items-center justify-center min-h-[60vh]" dir="rtl">
+      <div className="flex items-center justify-center min-h-[60vh]">
         <div className="flex flex-col items-center space-y-4">
           <svg className="animate-spin h-12 w-12 text-sky-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
           </svg>
-          <p className="text-gray-600 font-medium">... טוען מחירים מיוחדים</p>
+          <p className="text-gray-600 font-medium">{t('overrides.loading')}</p>
         </div>
       </div>
     );
   }
 
   return (
-    <div className="max-w-6xl mx-auto space-y-4 pb-32" dir="rtl">
+    <div className="max-w-6xl mx-auto space-y-4 pb-32">
       <div className="glass-card rounded-3xl p-6">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
-            <h1 className="text-3xl font-bold text-gray-800">המחירים המיוחדים שלי</h1>
-            <p className="text-gray-600 mt-1">התאם מחירים ללקוחות שלך</p>
+            <h1 className="text-3xl font-bold text-gray-800">{t('agentOverrides.title')}</h1>
+            <p className="text-gray-600 mt-1">{t('agentOverrides.subtitle')}</p>
             <p
               className="mt-3 px-3 py-2 text-sm font-bold text-orange-800 bg-orange-50 border border-orange-200 rounded-lg max-w-md"
               role="note"
             >
-              מחירים מיוחדים מחושבים לפני הנחת האחוזים של הלקוח.
+              {t('overrides.note')}
             </p>
           </div>
           <button
             onClick={handleOpenModal}
             className="px-6 py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-sky-500 to-indigo-600 hover:from-sky-600 hover:to-indigo-700 shadow-lg hover:shadow-xl transition-all flex items-center gap-2 border-0"
           >
-            <span>הוסף מחיר מיוחד</span>
+            <span>{t('override.add')}</span>
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
@@ -412,17 +413,17 @@ export default function AgentOverridesPage() {
       {(overrides.length > 0 || productFilter || customerFilter) && (
         <div className="glass-card rounded-3xl p-6">
           <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-end">
-            <div className="flex flex-col sm:flex-row sm:items-center gap-3 md:ml-auto">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 md:me-auto">
               {/* Product Filter */}
               <div className="flex items-center gap-2">
-                <span className="text-sm font-medium text-gray-700" dir="rtl">מוצר:</span>
+                <span className="text-sm font-medium text-gray-700">{t('override.productLabel')}</span>
                 <select
                   value={productFilter}
                   onChange={(e) => handleProductFilterChange(e.target.value)}
                   className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer w-48"
                   dir="ltr"
                 >
-                  <option value="">הכל</option>
+                  <option value="">{t('list.filter.all')}</option>
                   {products.map((product) => (
                     <option key={product.id} value={product.id}>
                       {product.name} - {formatPrice(product.price)}
@@ -433,14 +434,14 @@ export default function AgentOverridesPage() {
 
               {/* Customer Filter */}
               <div className="flex items-center gap-2">
-                <span className="text-sm font-medium text-gray-700" dir="rtl">לקוח:</span>
+                <span className="text-sm font-medium text-gray-700">{t('override.customerLabel')}</span>
                 <select
                   value={customerFilter}
                   onChange={(e) => handleCustomerFilterChange(e.target.value)}
                   className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer w-48"
                   dir="ltr"
                 >
-                  <option value="">הכל</option>
+                  <option value="">{t('list.filter.all')}</option>
                   {customers.map((customer) => (
                     <option key={customer.id} value={customer.id}>
                       {customer.name}
@@ -451,7 +452,7 @@ export default function AgentOverridesPage() {
 
               {/* Page Size */}
               <div className="flex items-center gap-2">
-                <span className="text-sm font-medium text-gray-700" dir="rtl">הצג:</span>
+                <span className="text-sm font-medium text-gray-700">{t('list.pageSize')}</span>
                 <select
                   value={pageSize}
                   onChange={(e) => handlePageSizeChange(Number(e.target.value))}
@@ -481,9 +482,9 @@ export default function AgentOverridesPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                   </svg>
                 </div>
-                <h2 className="text-2xl font-bold text-gray-800">לא נמצאו מחירים מיוחדים תואמים</h2>
+                <h2 className="text-2xl font-bold text-gray-800">{t('overrides.empty.filtered')}</h2>
                 <p className="text-gray-600 max-w-md">
-                  לא נמצאו מחירים מיוחדים עבור המסננים שנבחרו.
+                  {t('overrides.empty.filteredHint')}
                 </p>
                 <button
                   onClick={() => {
@@ -492,7 +493,7 @@ export default function AgentOverridesPage() {
                   }}
                   className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
                 >
-                  נקה מסנן
+                  {t('overrides.clearFilter')}
                 </button>
               </>
             ) : (
@@ -502,15 +503,15 @@ export default function AgentOverridesPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                 </div>
-                <h2 className="text-2xl font-bold text-gray-800">אין מחירים מיוחדים עדיין</h2>
+                <h2 className="text-2xl font-bold text-gray-800">{t('overrides.empty.none')}</h2>
                 <p className="text-gray-600 max-w-md">
-                  עדיין לא הגדרת מחירים מותאמים אישית ללקוחות שלך. לחץ על הכפתור למעלה כדי ליצור את המחיר המיוחד הראשון שלך.
+                  {t('agentOverrides.empty.noneHint')}
                 </p>
                 <button
                   onClick={handleOpenModal}
                   className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
                 >
-                  הוסף את המחיר המיוחד הראשון שלך
+                  {t('overrides.addFirst')}
                 </button>
               </>
             )}
@@ -521,19 +522,19 @@ export default function AgentOverridesPage() {
           <div className="overflow-x-auto">
             <table 
               className="w-full"
-              aria-label="טבלת מחירים מיוחדים"
+              aria-label={t('overrides.table.label')}
               role="table"
             >
               <caption className="sr-only">
-                טבלת מחירים מיוחדים עם פרטי לקוח, מוצר, מחיר מינימלי, מחיר מותאם ופעולות
+                {t('agentOverrides.table.caption')}
               </caption>
               <thead className="bg-white/30 border-b border-gray-200/50">
                 <tr>
-                  <th scope="col" id="agent-override-customer" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 w-64">לקוח</th>
-                  <th scope="col" id="agent-override-product" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 w-48 border-l border-gray-200">מוצר</th>
-                  <th scope="col" id="agent-override-min-price" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-l border-gray-200">מחיר מינימלי</th>
-                  <th scope="col" id="agent-override-override-price" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-l border-gray-200">מחיר מותאם</th>
-                  <th scope="col" id="agent-override-actions" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-l border-gray-200 w-24">פעולות</th>
+                  <th scope="col" id="agent-override-customer" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 w-64">{t('override.column.customer')}</th>
+                  <th scope="col" id="agent-override-product" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 w-48 border-e border-gray-200">{t('override.column.product')}</th>
+                  <th scope="col" id="agent-override-min-price" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-e border-gray-200">{t('override.column.minimumPrice')}</th>
+                  <th scope="col" id="agent-override-override-price" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-e border-gray-200">{t('override.column.overridePrice')}</th>
+                  <th scope="col" id="agent-override-actions" className="px-6 py-4 text-center text-sm font-semibold text-gray-700 border-e border-gray-200 w-24">{t('override.column.actions')}</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200/50">
@@ -547,23 +548,23 @@ export default function AgentOverridesPage() {
                           {customerName}
                         </span>
                       </td>
-                      <td className="px-6 py-4 text-sm text-gray-800 border-l border-gray-200" headers="agent-override-product">
+                      <td className="px-6 py-4 text-sm text-gray-800 border-e border-gray-200" headers="agent-override-product">
                         <span className="inline-block max-w-[220px] truncate align-middle" title={productName}>
                           {productName}
                         </span>
                       </td>
-                      <td className="px-6 py-4 text-sm text-gray-800 border-l border-gray-200" headers="agent-override-min-price">
+                      <td className="px-6 py-4 text-sm text-gray-800 border-e border-gray-200" headers="agent-override-min-price">
                         {formatPrice(override.productMinimumPrice ?? override.productPrice)}
                       </td>
-                      <td className="px-6 py-4 text-sm text-gray-800 font-semibold border-l border-gray-200" headers="agent-override-override-price">
+                      <td className="px-6 py-4 text-sm text-gray-800 font-semibold border-e border-gray-200" headers="agent-override-override-price">
                         {formatPrice(override.overridePrice)}
                       </td>
-                      <td className="px-6 py-4 text-right border-l border-gray-200" headers="agent-override-actions">
-                        <div className="flex items-center justify-end gap-2" role="group" aria-label={`פעולות עבור מחיר מיוחד עבור ${customerName}`}>
+                      <td className="px-6 py-4 text-end border-e border-gray-200" headers="agent-override-actions">
+                        <div className="flex items-center justify-end gap-2" role="group" aria-label={t('overrides.actionsFor', { customer: customerName })}>
                           <button
                             className="glass-button p-2 rounded-lg hover:shadow-md transition-all focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
                             onClick={() => handleEditOverride(override)}
-                            aria-label={`ערוך מחיר מיוחד עבור ${customerName} - ${productName}`}
+                            aria-label={t('overrides.editNamed', { customer: customerName, target: productName })}
                           >
                             <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -572,7 +573,7 @@ export default function AgentOverridesPage() {
                           <button
                             className="glass-button p-2 rounded-lg hover:shadow-md transition-all border-red-500 hover:border-red-600 focus-visible:outline-3 focus-visible:outline-red-600 focus-visible:outline-offset-2"
                             onClick={() => setOverrideToDelete(override)}
-                            aria-label={`מחק מחיר מיוחד עבור ${customerName} - ${productName}`}
+                            aria-label={t('overrides.deleteNamed', { customer: customerName, target: productName })}
                           >
                             <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -595,14 +596,13 @@ export default function AgentOverridesPage() {
         onPageChange={setCurrentPage}
         maxWidth="max-w-5xl"
         showCondition={overrides.length > 0 && totalPages > 1}
-        rtl={true}
+        rtl={getDir() === 'rtl'}
       />
 
       {/* Add Modal */}
       {isAddModalOpen && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...addModalBackdropProps}
         >
@@ -611,7 +611,7 @@ export default function AgentOverridesPage() {
             {...addModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">הוסף מחיר מיוחד</h2>
+              <h2 className="modal-header-title">{t('override.add')}</h2>
               <CloseButton onClick={handleCloseModal} />
             </div>
 
@@ -624,11 +624,11 @@ export default function AgentOverridesPage() {
             <form onSubmit={handleAddSubmit} className="space-y-3.5" noValidate>
               <div>
                 <label htmlFor="add-modal-product-search" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מוצר *
+                  {t('override.product')} *
                 </label>
                 <div className="relative mb-2">
                   <svg
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
+                    className="absolute start-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
                     fill="none"
                     stroke="currentColor"
                     viewBox="0 0 24 24"
@@ -638,19 +638,18 @@ export default function AgentOverridesPage() {
                   <input
                     id="add-modal-product-search"
                     type="text"
-                    placeholder="חפש מוצרים..."
+                    placeholder={t('override.searchProducts')}
                     value={addModalProductSearch}
                     onChange={(e) => setAddModalProductSearch(e.target.value)}
                     className="glass-input w-full pr-10 pl-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
-                    dir="rtl"
-                    aria-label="חפש מוצרים"
+                    aria-label={t('override.searchProductsLabel')}
                   />
                   {addModalProductSearch && (
                     <button
                       type="button"
                       onClick={() => setAddModalProductSearch('')}
-                      className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                      aria-label="נקה חיפוש"
+                      className="absolute end-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      aria-label={t('list.clearSearch')}
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -665,21 +664,21 @@ export default function AgentOverridesPage() {
                         <svg className="w-10 h-10 mx-auto mb-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                         </svg>
-                        <p className="text-xs">לא נמצאו מוצרים</p>
+                        <p className="text-xs">{t('override.noProducts')}</p>
                         <button
                           type="button"
                           onClick={() => setAddModalProductSearch('')}
                           className="text-xs text-indigo-600 hover:text-indigo-700 mt-1"
                         >
-                          נקה חיפוש
+                          {t('list.clearSearch')}
                         </button>
                       </div>
                     ) : filteredProductsForAdd.length === 0 && !addModalProductSearch ? (
                       <div className="text-center py-6 text-gray-500">
                         {isLoading ? (
-                          <p className="text-xs">טוען מוצרים...</p>
+                          <p className="text-xs">{t('override.loadingProducts')}</p>
                         ) : (
-                          <p className="text-xs">אין מוצרים להצגה</p>
+                          <p className="text-xs">{t('override.noProductsToShow')}</p>
                         )}
                       </div>
                     ) : (
@@ -691,7 +690,7 @@ export default function AgentOverridesPage() {
                             setFormData((prev) => ({ ...prev, productId: product.id }));
                             if (showErrors && fieldErrors.productId) setFieldErrors((prev) => ({ ...prev, productId: '' }));
                           }}
-                          className={`w-full text-right px-3 py-2.5 rounded-lg transition-all flex items-center gap-2.5 ${
+                          className={`w-full text-start px-3 py-2.5 rounded-lg transition-all flex items-center gap-2.5 ${
                             formData.productId === product.id
                               ? 'bg-indigo-100 border-2 border-indigo-500 shadow-sm'
                               : 'bg-white hover:bg-gray-50 border border-transparent'
@@ -724,11 +723,11 @@ export default function AgentOverridesPage() {
                       <p className="font-bold text-gray-900 text-base mb-3">{product.name}</p>
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
-                          <span className="text-xs font-semibold text-sky-700 uppercase tracking-wide">מחיר מינימלי</span>
+                          <span className="text-xs font-semibold text-sky-700 uppercase tracking-wide">{t('override.column.minimumPrice')}</span>
                           <span className="text-sm font-bold text-sky-900">{formatPrice(product.minimumPrice ?? 0)}</span>
                         </div>
                         <div className="flex items-center justify-between border-t border-sky-200 pt-2">
-                          <span className="text-xs font-semibold text-sky-700 uppercase tracking-wide">מחיר בסיס</span>
+                          <span className="text-xs font-semibold text-sky-700 uppercase tracking-wide">{t('agentOverrides.basePrice')}</span>
                           <span className="text-sm font-bold text-sky-900">{formatPrice(product.price ?? 0)}</span>
                         </div>
                       </div>
@@ -739,7 +738,7 @@ export default function AgentOverridesPage() {
 
               <div>
                 <label htmlFor="customerId" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  לקוח *
+                  {t('override.customerField')} *
                 </label>
                 <select
                   id="customerId"
@@ -756,7 +755,7 @@ export default function AgentOverridesPage() {
                   }`}
                   dir="ltr"
                 >
-                  <option value="">בחר לקוח</option>
+                  <option value="">{t('override.selectCustomer')}</option>
                   {customers.map((customer) => (
                     <option key={customer.id} value={customer.id}>
                       {customer.name}
@@ -768,10 +767,10 @@ export default function AgentOverridesPage() {
 
               <div>
                 <label htmlFor="overridePrice" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מחיר מותאם *
+                  {t('override.price')} *
                 </label>
                 <div className="relative">
-                  <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                  <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                   <input
                     id="overridePrice"
                     name="overridePrice"
@@ -798,7 +797,7 @@ export default function AgentOverridesPage() {
                         setFieldErrors({ ...fieldErrors, overridePrice: '' });
                       }
                     }}
-                    className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                    className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
                       showErrors && fieldErrors.overridePrice ? 'border-red-400 focus:ring-red-400/50' : ''
                     }`}
                     placeholder="0.00"
@@ -818,7 +817,7 @@ export default function AgentOverridesPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -835,14 +834,14 @@ export default function AgentOverridesPage() {
                           d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                         ></path>
                       </svg>
-                      <span>שומר...</span>
+                      <span>{t('common.saving')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>שמור מחיר מיוחד</span>
+                      <span>{t('agentOverrides.save')}</span>
                     </>
                   )}
                 </button>
@@ -856,7 +855,6 @@ export default function AgentOverridesPage() {
       {isEditModalOpen && overrideToEdit && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...editModalBackdropProps}
         >
@@ -865,7 +863,7 @@ export default function AgentOverridesPage() {
             {...editModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">עדכן מחיר מיוחד</h2>
+              <h2 className="modal-header-title">{t('override.update')}</h2>
               <CloseButton onClick={handleCloseEditModal} />
             </div>
 
@@ -877,23 +875,23 @@ export default function AgentOverridesPage() {
               return (
                 <div className="mb-5 rounded-2xl bg-gradient-to-br from-sky-50 via-white to-sky-100/60 border border-white/40 shadow-inner divide-y divide-sky-100">
                   <div className="p-3 flex items-center justify-between">
-                    <span className="text-xs font-semibold text-sky-600 uppercase tracking-wide">לקוח:</span>
+                    <span className="text-xs font-semibold text-sky-600 uppercase tracking-wide">{t('override.customerLabel')}</span>
                     <span className="text-sm font-semibold text-gray-900">
                       {customerMap.get(overrideToEdit.customerId)?.name ?? overrideToEdit.customerId}
                     </span>
                   </div>
                   <div className="p-3 flex items-center justify-between">
-                    <span className="text-xs font-semibold text-sky-600 uppercase tracking-wide">מוצר:</span>
+                    <span className="text-xs font-semibold text-sky-600 uppercase tracking-wide">{t('override.productLabel')}</span>
                     <span className="text-sm font-semibold text-gray-900">
                       {productMap.get(overrideToEdit.productId)?.name ?? overrideToEdit.productId}
                     </span>
                   </div>
                   <div className="p-3 flex items-center justify-between">
-                    <span className="text-xs font-semibold text-sky-600 uppercase tracking-wide">מחיר מינימלי:</span>
+                    <span className="text-xs font-semibold text-sky-600 uppercase tracking-wide">{t('agentOverrides.minimumPriceLabel')}</span>
                     <span className="text-sm font-semibold text-gray-900">{formatPrice(productMinimumPrice)}</span>
                   </div>
                   <div className="p-3 flex items-center justify-between">
-                    <span className="text-xs font-semibold text-sky-600 uppercase tracking-wide">מחיר בסיס:</span>
+                    <span className="text-xs font-semibold text-sky-600 uppercase tracking-wide">{t('agentOverrides.basePriceLabel')}</span>
                     <span className="text-sm font-semibold text-gray-900">{formatPrice(productPrice)}</span>
                   </div>
                 </div>
@@ -909,10 +907,10 @@ export default function AgentOverridesPage() {
             <form onSubmit={handleEditSubmit} className="space-y-3.5" noValidate>
               <div>
                 <label htmlFor="edit-overridePrice" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מחיר מותאם *
+                  {t('override.price')} *
                 </label>
                 <div className="relative">
-                  <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                  <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                   <input
                     id="edit-overridePrice"
                     type="number"
@@ -938,7 +936,7 @@ export default function AgentOverridesPage() {
                         setFieldErrors({ ...fieldErrors, overridePrice: '' });
                       }
                     }}
-                    className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                    className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
                       showErrors && fieldErrors.overridePrice ? 'border-red-400 focus:ring-red-400/50' : ''
                     }`}
                     placeholder="0.00"
@@ -960,7 +958,7 @@ export default function AgentOverridesPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -977,14 +975,14 @@ export default function AgentOverridesPage() {
                           d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                         ></path>
                       </svg>
-                      <span>מעדכן...</span>
+                      <span>{t('common.updating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>עדכן מחיר מיוחד</span>
+                      <span>{t('override.update')}</span>
                     </>
                   )}
                 </button>
@@ -998,20 +996,17 @@ export default function AgentOverridesPage() {
       {overrideToDelete && (
         <div 
           className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl"
           {...deleteModalBackdropProps}
         >
           <div 
             className="glass-card rounded-3xl p-6 w-full max-w-md bg-white/85"
             {...deleteModalContentProps}
           >
-            <h2 className="text-lg font-bold text-gray-800 mb-3">מחק מחיר מיוחד</h2>
+            <h2 className="text-lg font-bold text-gray-800 mb-3">{t('override.delete')}</h2>
             <p className="text-sm text-gray-600">
-              האם אתה בטוח שברצונך למחוק את המחיר המיוחד עבור{' '}
-              <span className="font-semibold text-gray-800">
-                {customerMap.get(overrideToDelete.customerId)?.name ?? overrideToDelete.customerId}
-              </span>
-              ?
+              {t('agentOverrides.deleteConfirm', {
+                customer: customerMap.get(overrideToDelete.customerId)?.name ?? overrideToDelete.customerId,
+              })}
             </p>
 
             {error && <p className="text-sm text-red-500 mt-3">{error}</p>}
@@ -1022,14 +1017,14 @@ export default function AgentOverridesPage() {
                 className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700"
                 disabled={isDeleting}
               >
-                ביטול
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleDeleteOverride}
                 className="px-4 py-2 rounded-xl text-sm font-semibold text-white bg-red-500 hover:bg-red-600 disabled:opacity-60 disabled:cursor-not-allowed"
                 disabled={isDeleting}
               >
-                {isDeleting ? 'מוחק...' : 'מחק'}
+                {isDeleting ? t('common.deleting') : t('common.delete')}
               </button>
             </div>
           </div>
@@ -4,6 +4,8 @@ import { agentAPI, publicAPI } from '../services/api';
 import type { ProductPublic, Product, Category, Brand } from '../services/api';
 import { formatPrice } from '../utils/formatPrice';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { useWindowedGrid } from '../hooks/useWindowedGrid';
+import { t } from '../utils/i18n';
 
 type SortDirection = 'ASC' | 'DESC';
 
@@ -142,7 +144,14 @@ export default function AgentProductsPage() {
     const query = searchQuery.trim().toLowerCase();
     if (!query) return products;
     return products.filter((product) => {
-      const haystack = [product.name, product.description, product.brandName ?? '', product.categoryName ?? '']
+      const haystack = [
+        product.name,
+        product.description,
+        product.brandName ?? '',
+        product.categoryName ?? '',
+        product.sku ?? '',
+        product.barcode ?? '',
+      ]
         .join(' ')
         .toLowerCase();
       return haystack.includes(query);
@@ -150,15 +159,17 @@ export default function AgentProductsPage() {
   }, [products, searchQuery]);
 
   const totalElements = products.length;
+  // Large catalogs: only the cards near the viewport are rendered
+  const productGrid = useWindowedGrid(filteredProducts.length);
 
   return (
-    <div className="max-w-7xl mx-auto space-y-6 pb-24" dir="rtl">
+    <div className="max-w-7xl mx-auto space-y-6 pb-24">
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">מוצרים</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">{t('products.title')}</h1>
             <p className="text-gray-600 text-sm mt-2">
-              מציג {filteredProducts.length} מתוך {totalElements} מוצרים זמינים עבורך.
+              {t('agentProducts.subtitle', { shown: filteredProducts.length, count: totalElements })}
             </p>
           </div>
         </div>
@@ -168,7 +179,7 @@ export default function AgentProductsPage() {
         <div className="flex flex-col xl:flex-row xl:items-center xl:justify-between gap-4">
           <div className="flex flex-wrap items-center gap-3">
             <div className="flex items-center gap-2">
-              <span className="text-xs font-medium uppercase tracking-wide text-gray-600" dir="rtl">מיין:</span>
+              <span className="text-xs font-medium uppercase tracking-wide text-gray-600">{t('list.sortBy')}</span>
               <button
                 type="button"
                 onClick={handleSortToggle}
@@ -176,7 +187,7 @@ export default function AgentProductsPage() {
                 style={{ backgroundImage: 'none' }}
                 dir="ltr"
               >
-                <span>{sortDirection === 'ASC' ? 'א ← ת' : 'א → ת'}</span>
+                <span>{sortDirection === 'ASC' ? t('list.sort.ascending') : t('list.sort.descending')}</span>
                 <svg
                   className={`w-4 h-4 text-sky-600 transition-transform duration-200 ${sortDirection === 'ASC' ? 'rotate-180' : ''}`}
                   fill="none"
@@ -189,14 +200,14 @@ export default function AgentProductsPage() {
             </div>
 
             <div className="flex items-center gap-2">
-              <span className="text-xs font-medium uppercase tracking-wide text-gray-600" dir="rtl">קטגוריה:</span>
+              <span className="text-xs font-medium uppercase tracking-wide text-gray-600">{t('products.filter.category')}</span>
               <select
                 value={selectedCategory}
                 onChange={(event) => setSelectedCategory(event.target.value)}
                 className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm text-gray-800 cursor-pointer w-36"
                 dir="ltr"
               >
-                <option value="">הכל</option>
+                <option value="">{t('list.filter.all')}</option>
                 {categories.map((category) => (
                   <option key={category.id} value={category.id}>
                     {category.name}
@@ -206,14 +217,14 @@ export default function AgentProductsPage() {
             </div>
 
             <div className="flex items-center gap-2">
-              <span className="text-xs font-medium uppercase tracking-wide text-gray-600" dir="rtl">מותג:</span>
+              <span className="text-xs font-medium uppercase tracking-wide text-gray-600">{t('products.filter.brand')}</span>
               <select
                 value={selectedBrand}
                 onChange={(event) => setSelectedBrand(event.target.value)}
                 className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm text-gray-800 cursor-pointer w-36"
                 dir="ltr"
               >
-                <option value="">הכל</option>
+                <option value="">{t('list.filter.all')}</option>
                 {brands.map((brand) => (
                   <option key={brand.id} value={brand.id}>
                     {brand.name}
@@ -224,19 +235,18 @@ export default function AgentProductsPage() {
           </div>
 
           <div className="relative w-full xl:w-80">
-            <label className="sr-only" htmlFor="agent-products-search">חפש מוצרים</label>
+            <label className="sr-only" htmlFor="agent-products-search">{t('override.searchProductsLabel')}</label>
             <input
               id="agent-products-search"
               type="search"
               value={searchQuery}
               onChange={handleSearchChange}
-              placeholder="חפש לפי שם, תיאור או מותג..."
+              placeholder={t('agentProducts.searchPlaceholder')}
               maxLength={100}
-              className="glass-input w-full pr-10 pl-4 py-2.5 rounded-xl text-sm text-gray-800 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-sky-500"
-              dir="rtl"
+              className="glass-input w-full pe-4 ps-10 py-2.5 rounded-xl text-sm text-gray-800 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-sky-500"
             />
             <svg
-              className="w-4 h-4 text-gray-400 absolute right-3 top-1/2 -translate-y-1/2"
+              className="w-4 h-4 text-gray-400 absolute start-3 top-1/2 -translate-y-1/2"
               fill="none"
               stroke="currentColor"
               viewBox="0 0 24 24"
@@ -255,14 +265,14 @@ export default function AgentProductsPage() {
             </svg>
           </div>
           <div>
-            <h2 className="text-xl font-semibold text-gray-800 mb-2">נכשל בטעינת מוצרים</h2>
+            <h2 className="text-xl font-semibold text-gray-800 mb-2">{t('products.loadError')}</h2>
             <p className="text-gray-600">{error}</p>
           </div>
           <button
             onClick={() => fetchProducts()}
             className="glass-button px-6 py-2 rounded-xl font-medium text-gray-800 hover:bg-white/40 border border-sky-200 hover:border-sky-300 transition-colors"
           >
-            נסה שוב
+            {t('common.tryAgain')}
           </button>
         </div>
       ) : isLoading ? (
@@ -271,7 +281,7 @@ export default function AgentProductsPage() {
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
           </svg>
-          <p className="text-gray-600 font-medium">... טוען מוצרים</p>
+          <p className="text-gray-600 font-medium">{t('products.loading')}</p>
         </div>
       ) : filteredProducts.length === 0 ? (
         <div className="glass-card rounded-3xl p-12 flex flex-col items-center justify-center text-center space-y-4">
@@ -280,9 +290,9 @@ export default function AgentProductsPage() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
             </svg>
           </div>
-          <h2 className="text-2xl font-bold text-gray-800">אין מוצרים התואמים למסננים שלך</h2>
+          <h2 className="text-2xl font-bold text-gray-800">{t('agentProducts.empty')}</h2>
           <p className="text-gray-600 max-w-md">
-            נסה להתאים את המסננים שלך או לנקות את החיפוש כדי לראות עוד מוצרים.
+            {t('agentProducts.emptyHint')}
           </p>
           <div className="flex flex-wrap gap-3">
             <button
@@ -293,13 +303,17 @@ export default function AgentProductsPage() {
               }}
               className="glass-button px-6 py-2 rounded-xl font-semibold text-gray-800 hover:bg-white/40 border border-sky-200 hover:border-sky-300 transition-colors"
             >
-              נקה מסננים
+              {t('agentProducts.clearFilters')}
             </button>
           </div>
         </div>
       ) : (
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3 sm:gap-4 md:gap-6">
-          {filteredProducts.map((product) => {
+        <div
+          ref={productGrid.gridRef}
+          style={productGrid.gridStyle}
+          className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3 sm:gap-4 md:gap-6"
+        >
+          {filteredProducts.slice(productGrid.startIndex, productGrid.endIndex).map((product) => {
             const images = productImages[product.id] || [];
             const currentImageIndex = productImageIndices[product.id] || 0;
             const previousImageIndex = productPrevImageIndices[product.id];
@@ -328,6 +342,8 @@ export default function AgentProductsPage() {
                         key={`${product.id}-current-${currentImageIndex}`}
                         src={images[currentImageIndex]}
                         alt={product.name}
+                        loading="lazy"
+                        decoding="async"
                         className={`absolute inset-0 w-full h-full object-contain transition-transform duration-500 ${
                           direction === 'prev'
                             ? 'animate-slide-in-right'
@@ -352,7 +368,7 @@ export default function AgentProductsPage() {
                               handlePrevProductImage(product.id, images);
                             }}
                             className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/60 hover:bg-black/80 text-white opacity-0 group-hover/image:opacity-100 transition-opacity backdrop-blur-sm z-10"
-                            title="תמונה קודמת"
+                            title={t('store.product.previousImage')}
                             type="button"
                           >
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -365,7 +381,7 @@ export default function AgentProductsPage() {
                               handleNextProductImage(product.id, images);
                             }}
                             className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/60 hover:bg-black/80 text-white opacity-0 group-hover/image:opacity-100 transition-opacity backdrop-blur-sm z-10"
-                            title="תמונה הבאה"
+                            title={t('store.product.nextImage')}
                             type="button"
                           >
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -405,7 +421,7 @@ export default function AgentProductsPage() {
                         (product as Product).minimumPrice != null &&
                         product.price > (product as Product).minimumPrice && (
                         <span className="text-xs text-gray-400">
-                          מינימום {formatPrice((product as Product).minimumPrice)}
+                          {t('products.minimumPrice', { price: formatPrice((product as Product).minimumPrice) })}
                         </span>
                       )}
                     </div>
@@ -4,6 +4,7 @@ import { agentAPI, type Agent } from '../services/api';
 import AgentEditProfileModal from '../components/AgentEditProfileModal';
 import ChangePasswordModal from '../components/ChangePasswordModal';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { t } from '../utils/i18n';
 
 export default function AgentProfilePage() {
   const [agent, setAgent] = useState<Agent | null>(null);
@@ -38,16 +39,16 @@ export default function AgentProfilePage() {
   }, [loadAgentProfile]);
 
   return (
-    <div className="max-w-4xl mx-auto space-y-4" dir="rtl">
+    <div className="max-w-4xl mx-auto space-y-4">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:flex-wrap md:items-start md:justify-between gap-4 md:gap-6">
           <div className="max-w-full md:flex-1">
             <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2 break-words leading-tight max-w-full">
-              {agent ? `שלום ${agent.firstName}!` : 'שלום'}
+              {agent ? t('profile.greeting', { name: agent.firstName }) : t('profile.greetingAnonymous')}
             </h1>
             <p className="text-gray-600 text-sm">
-              פרטים אישיים ומידע על החשבון שלך
+              {t('profile.subtitle')}
             </p>
           </div>
           <div className="mt-4 md:mt-0 w-full md:w-auto">
@@ -55,7 +56,7 @@ export default function AgentProfilePage() {
               onClick={() => setIsEditModalOpen(true)}
               className="glass-button w-full md:w-auto px-6 py-2 rounded-xl font-medium text-gray-800 hover:bg-white/40 flex items-center justify-center gap-3"
             >
-              <span>ערוך פרטים אישיים</span>
+              <span>{t('profile.edit')}</span>
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
               </svg>
@@ -80,7 +81,7 @@ export default function AgentProfilePage() {
                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
               ></path>
             </svg>
-            <span>טוען את הפרופיל שלך...</span>
+            <span>{t('profile.loadingOwn')}</span>
           </div>
         </div>
       ) : error ? (
@@ -95,7 +96,7 @@ export default function AgentProfilePage() {
             {/* First Name */}
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">
-                שם פרטי
+                {t('field.firstName')}
               </label>
               <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
                 {agent.firstName}
@@ -105,7 +106,7 @@ export default function AgentProfilePage() {
             {/* Last Name */}
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">
-                שם משפחה
+                {t('field.lastName')}
               </label>
               <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
                 {agent.lastName}
@@ -115,7 +116,7 @@ export default function AgentProfilePage() {
             {/* Email */}
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">
-                אימייל
+                {t('field.email')}
               </label>
               <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
                 {agent.email}
@@ -125,7 +126,7 @@ export default function AgentProfilePage() {
             {/* Phone Number */}
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">
-                מספר טלפון
+                {t('field.phone')}
               </label>
               <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
                 {agent.phoneNumber}
@@ -135,7 +136,7 @@ export default function AgentProfilePage() {
             {/* Street Address */}
             <div className="max-w-full">
               <label className="block text-xs font-medium text-gray-600 mb-1">
-                כתובת
+                {t('field.address')}
               </label>
               <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
                 {agent.streetAddress}
@@ -145,7 +146,7 @@ export default function AgentProfilePage() {
             {/* City */}
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">
-                עיר
+                {t('field.city')}
               </label>
               <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
                 {agent.city}
@@ -156,19 +157,19 @@ export default function AgentProfilePage() {
 
         {/* Security Section */}
         <div className="glass-card rounded-3xl p-6 md:p-8">
-          <h2 className="text-2xl font-bold text-gray-800 mb-4">הגדרות אבטחה</h2>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">{t('profile.security')}</h2>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
             <div>
-              <p className="font-medium text-gray-800">סיסמה</p>
+              <p className="font-medium text-gray-800">{t('field.password')}</p>
               <p className="text-sm text-gray-600">
-                עדכן את הסיסמה שלך
+                {t('profile.passwordHint')}
               </p>
             </div>
             <button 
               onClick={() => setIsChangePasswordModalOpen(true)}
               className="glass-button px-6 py-2 rounded-xl font-medium text-gray-800 hover:bg-white/40 flex items-center gap-3"
             >
-              <span>שנה סיסמה</span>
+              <span>{t('profile.changePassword')}</span>
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
               </svg>
@@ -178,7 +179,7 @@ export default function AgentProfilePage() {
         </>
       ) : (
         <div className="glass-card rounded-3xl p-6 text-center text-gray-600">
-          אין מידע על הסוכן זמין.
+          {t('profile.agentMissing')}
         </div>
       )}
       {agent && (
@@ -5,6 +5,7 @@ import AgentAddModal from '../components/AgentAddModal';
 import AgentEditModal from '../components/AgentEditModal';
 import AgentDeleteModal from '../components/AgentDeleteModal';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { formatDate, t } from '../utils/i18n';
 
 export default function AgentsPage() {
   const [agents, setAgents] = useState<Agent[]>([]);
@@ -103,12 +104,12 @@ export default function AgentsPage() {
   };
 
   return (
-    <div className="space-y-6" dir="rtl">
+    <div className="space-y-6">
       <div className="glass-card rounded-3xl p-6 md:p-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
         <div>
-          <h1 className="text-3xl md:text-4xl font-bold text-gray-800">הסוכנים שלך</h1>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-800">{t('agents.title')}</h1>
           <p className="text-gray-600 mt-2">
-            עקוב אחר הסוכנים הפעילים שלך ודאג שפרטי הקשר שלהם מעודכנים.
+            {t('agents.subtitle')}
           </p>
         </div>
         <button
@@ -119,7 +120,7 @@ export default function AgentsPage() {
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
           </svg>
-          <span>הוסף סוכן</span>
+          <span>{t('agents.add')}</span>
         </button>
       </div>
 
@@ -127,7 +128,7 @@ export default function AgentsPage() {
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <div className="flex flex-col sm:flex-row sm:items-center gap-3 justify-end">
             <div className="flex items-center gap-2">
-              <span className="text-sm font-medium text-gray-700">הצג:</span>
+              <span className="text-sm font-medium text-gray-700">{t('list.pageSize')}</span>
               <select
                 value={pageSize}
                 onChange={(e) => setPageSize(Number(e.target.value))}
@@ -141,23 +142,23 @@ export default function AgentsPage() {
             </div>
 
             <div className="flex items-center gap-2">
-              <span className="text-sm font-medium text-gray-700">מיין:</span>
+              <span className="text-sm font-medium text-gray-700">{t('list.sortBy')}</span>
               <button
                 onClick={() => setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'))}
                 className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800 flex items-center gap-2 justify-center sm:justify-start whitespace-nowrap"
                 aria-pressed={sortDirection === 'desc'}
-                aria-label={`Sort agents ${sortDirection === 'asc' ? 'ascending' : 'descending'}`}
+                aria-label={sortDirection === 'asc' ? t('agents.sortAscending') : t('agents.sortDescending')}
               >
                 {sortDirection === 'asc' ? (
                   <>
-                    <span>א ← ת</span>
+                    <span>{t('list.sort.ascending')}</span>
                     <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                     </svg>
                   </>
                 ) : (
                   <>
-                    <span>א → ת</span>
+                    <span>{t('list.sort.descending')}</span>
                     <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
                     </svg>
@@ -169,7 +170,7 @@ export default function AgentsPage() {
 
           <div className="relative w-full sm:w-80 sm:max-w-xs">
             <svg
-              className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400"
+              className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400"
               fill="none"
               stroke="currentColor"
               viewBox="0 0 24 24"
@@ -186,16 +187,15 @@ export default function AgentsPage() {
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               maxLength={100}
-              placeholder="חפש סוכנים..."
+              placeholder={t('agents.searchPlaceholder')}
               className="glass-input w-full pr-10 pl-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 border-2 border-gray-400/80 hover:border-gray-500 focus:border-gray-400 bg-white/50 focus:bg-white/60 shadow-lg hover:shadow-xl"
-              dir="rtl"
             />
             {searchQuery && (
               <button
                 type="button"
                 onClick={() => setSearchQuery('')}
-                className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-                aria-label="Clear search"
+                className="absolute end-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label={t('list.clearSearch')}
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -222,7 +222,7 @@ export default function AgentsPage() {
                 d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
               ></path>
             </svg>
-            <span className="font-medium">... טוען סוכנים</span>
+            <span className="font-medium">{t('agents.loading')}</span>
           </div>
         </div>
       ) : error ? (
@@ -234,31 +234,31 @@ export default function AgentsPage() {
           <div className="overflow-x-auto">
             <table 
               className="min-w-full divide-y divide-indigo-100/70"
-              aria-label="טבלת סוכנים"
+              aria-label={t('agents.table.label')}
               role="table"
             >
               <caption className="sr-only">
-                טבלת סוכנים עם פרטי שם, אימייל, טלפון, מיקום, תאריך הוספה ופעולות
+                {t('agents.table.caption')}
               </caption>
               <thead className="bg-purple-200/95 text-gray-700">
                 <tr>
-                  <th scope="col" id="agent-name" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-l border-gray-200">
-                    שם
+                  <th scope="col" id="agent-name" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-e border-gray-200">
+                    {t('agents.column.name')}
                   </th>
-                  <th scope="col" id="agent-email" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-l border-gray-200">
-                    אימייל
+                  <th scope="col" id="agent-email" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-e border-gray-200">
+                    {t('agents.column.email')}
                   </th>
-                  <th scope="col" id="agent-phone" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-l border-gray-200">
-                    טלפון
+                  <th scope="col" id="agent-phone" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-e border-gray-200">
+                    {t('agents.column.phone')}
                   </th>
-                  <th scope="col" id="agent-location" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-l border-gray-200">
-                    מיקום
+                  <th scope="col" id="agent-location" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-e border-gray-200">
+                    {t('agents.column.location')}
                   </th>
-                  <th scope="col" id="agent-added" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-l border-gray-200">
-                    נוסף
+                  <th scope="col" id="agent-added" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-e border-gray-200">
+                    {t('agents.column.added')}
                   </th>
-                  <th scope="col" id="agent-actions" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-l border-gray-200 w-24">
-                    פעולות
+                  <th scope="col" id="agent-actions" className="px-6 py-4 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide border-e border-gray-200 w-24">
+                    {t('agents.column.actions')}
                   </th>
                 </tr>
               </thead>
@@ -266,7 +266,7 @@ export default function AgentsPage() {
                 {displayAgents.length === 0 ? (
                   <tr>
                     <td colSpan={6} className="px-6 py-10 text-center text-gray-500">
-                      אין סוכנים התואמים למסננים הנוכחיים שלך.
+                      {t('agents.empty')}
                     </td>
                   </tr>
                 ) : (
@@ -275,31 +275,31 @@ export default function AgentsPage() {
                       key={agent.id}
                       className="transition-colors bg-white hover:bg-indigo-50/50"
                     >
-                      <td className="px-6 py-4 text-right border-l border-gray-200" headers="agent-name">
+                      <td className="px-6 py-4 text-start border-e border-gray-200" headers="agent-name">
                         <p className="text-sm font-semibold text-gray-800">
                           {agent.firstName} {agent.lastName}
                         </p>
                       </td>
-                      <td className="px-6 py-4 text-right border-l border-gray-200" headers="agent-email">
+                      <td className="px-6 py-4 text-start border-e border-gray-200" headers="agent-email">
                         <p className="text-sm text-gray-800 break-words truncate max-w-[16rem]" title={agent.email}>{agent.email}</p>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 text-right border-l border-gray-200" headers="agent-phone">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 text-start border-e border-gray-200" headers="agent-phone">
                         {agent.phoneNumber}
                       </td>
-                      <td className="px-6 py-4 text-right border-l border-gray-200" headers="agent-location">
+                      <td className="px-6 py-4 text-start border-e border-gray-200" headers="agent-location">
                         <p className="text-sm text-gray-800 break-words truncate max-w-[12rem]" title={agent.streetAddress}>{agent.streetAddress}</p>
                         <p className="text-xs text-gray-500 mt-0.5">{agent.city}</p>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-center border-l border-gray-200" headers="agent-added">
-                        {new Date(agent.createdAt).toLocaleDateString('he-IL')}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-center border-e border-gray-200" headers="agent-added">
+                        {formatDate(agent.createdAt)}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-left border-l border-gray-200" headers="agent-actions">
-                        <div className="inline-flex items-center gap-2" role="group" aria-label={`פעולות עבור סוכן ${agent.firstName} ${agent.lastName}`}>
+                      <td className="px-6 py-4 whitespace-nowrap text-end border-e border-gray-200" headers="agent-actions">
+                        <div className="inline-flex items-center gap-2" role="group" aria-label={t('agents.actionsFor', { name: `${agent.firstName} ${agent.lastName}` })}>
                           <button
                             type="button"
                             onClick={() => handleEditAgent(agent)}
                             className="glass-button p-2 rounded-lg text-sm font-semibold text-gray-800 border border-indigo-200 hover:border-indigo-300 transition-colors inline-flex items-center justify-center focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-                            aria-label={`ערוך סוכן ${agent.firstName} ${agent.lastName}`}
+                            aria-label={t('agents.editNamed', { name: `${agent.firstName} ${agent.lastName}` })}
                           >
                             <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 4H6a2 2 0 00-2 2v12a2 2 0 002 2h12a2 2 0 002-2v-5M18.5 2.5a2.121 2.121 0 113 3L12 15l-4 1 1-4 9.5-9.5z" />
@@ -309,7 +309,7 @@ export default function AgentsPage() {
                             type="button"
                             onClick={() => handleDeleteAgent(agent)}
                             className="glass-button p-2 rounded-lg text-sm font-semibold text-gray-800 border border-red-200 hover:border-red-300 transition-colors inline-flex items-center justify-center focus-visible:outline-3 focus-visible:outline-red-600 focus-visible:outline-offset-2"
-                            aria-label={`מחק סוכן ${agent.firstName} ${agent.lastName}`}
+                            aria-label={t('agents.deleteNamed', { name: `${agent.firstName} ${agent.lastName}` })}
                           >
                             <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
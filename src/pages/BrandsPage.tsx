@@ -9,17 +9,19 @@ import SparkMD5 from 'spark-md5';
 import Spinner from '../components/Spinner';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
 import { messageFromFailureBody, resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t, type MessageKey } from '../utils/i18n';
 
-/** Map backend BrandFailureReason userMessage (English) to Hebrew for display */
+const BRAND_MESSAGE_MAP: Record<string, MessageKey> = {
+  'Brand not found': 'brand.error.notFound',
+  'Brand already exists': 'brand.error.exists',
+  'Brand limit exceeded': 'brand.error.limit',
+};
+
+/** Map backend BrandFailureReason userMessage (English) to the active locale for display */
 function translateBrandError(message: string): string {
   if (!message || typeof message !== 'string') return message;
-  const trimmed = message.trim();
-  const t: Record<string, string> = {
-    'Brand not found': 'המותג לא נמצא',
-    'Brand already exists': 'המותג כבר קיים',
-    'Brand limit exceeded': 'חרגת ממכסת המותגים המותרת',
-  };
-  return t[trimmed] ?? message;
+  const key = BRAND_MESSAGE_MAP[message.trim()];
+  return key ? t(key) : message;
 }
 
 // Helper function to calculate MD5 hash of a file and return as Base64
@@ -57,7 +59,7 @@ async function calculateFileMD5(file: File): Promise<string> {
     };
 
     fileReader.onerror = function () {
-      reject(new Error('נכשל בקריאת הקובץ לחישוב הבדיקה'));
+      reject(new Error(t('image.error.read')));
     };
 
     function loadNext() {
@@ -251,14 +253,14 @@ export default function BrandsPage() {
     // Validate file type
     const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
     if (!validTypes.includes(file.type)) {
-      setFormError('סוג קובץ לא תקין. אנא בחר תמונה בפורמט JPEG, PNG או WebP.');
+      setFormError(t('image.error.type'));
       return;
     }
 
     // Validate file size (5MB)
     const maxSize = 5 * 1024 * 1024; // 5MB in bytes
     if (file.size > maxSize) {
-      setFormError('גודל הקובץ עולה על 5MB.');
+      setFormError(t('image.error.size'));
       return;
     }
 
@@ -304,7 +306,7 @@ export default function BrandsPage() {
 
     const errors: Record<string, string> = {};
     if (!brandName.trim()) {
-      errors.name = 'שם המותג נדרש';
+      errors.name = t('brandForm.error.nameRequired');
     }
 
     setFieldErrors(errors);
@@ -340,7 +342,7 @@ export default function BrandsPage() {
         });
 
         if (!uploadResponse.ok) {
-          throw new Error('נכשל בהעלאת התמונה ל-S3');
+          throw new Error(t('image.error.upload'));
         }
       }
 
@@ -361,7 +363,7 @@ export default function BrandsPage() {
 
     const errors: Record<string, string> = {};
     if (!brandName.trim()) {
-      errors.name = 'שם המותג נדרש';
+      errors.name = t('brandForm.error.nameRequired');
     }
 
     setFieldErrors(errors);
@@ -411,7 +413,7 @@ export default function BrandsPage() {
           });
 
           if (!uploadResponse.ok) {
-            throw new Error('נכשל בהעלאת התמונה ל-S3');
+            throw new Error(t('image.error.upload'));
           }
         }
         updatedBrand = result.brand;
@@ -444,7 +446,7 @@ export default function BrandsPage() {
 
       if (!response.ok) {
         const errorText = await response.text();
-        let errorMessage = 'נכשל במחיקת המותג';
+        let errorMessage = t('brand.error.delete');
         try {
           const errorData = JSON.parse(errorText);
           errorMessage = translateBrandError(messageFromFailureBody(errorData, errorMessage));
@@ -458,7 +460,7 @@ export default function BrandsPage() {
       setBrandToDelete(null);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : resolveApiErr(err, 'brandDelete');
-      setError(translateBrandError(msg) || 'נכשל במחיקת המותג');
+      setError(translateBrandError(msg) || t('brand.error.delete'));
     } finally {
       setIsDeleting(false);
     }
@@ -488,7 +490,7 @@ export default function BrandsPage() {
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
-          <p className="text-gray-600 font-medium">טוען מותגים...</p>
+          <p className="text-gray-600 font-medium">{t('brands.loading')}</p>
         </div>
       </div>
     );
@@ -498,7 +500,7 @@ export default function BrandsPage() {
     return (
       <div className="max-w-4xl mx-auto">
         <div className="glass-card rounded-3xl p-8 bg-red-50/50 border-red-200">
-          <h2 className="text-xl font-bold text-red-800 mb-2">שגיאה בטעינת המותגים</h2>
+          <h2 className="text-xl font-bold text-red-800 mb-2">{t('brands.loadError')}</h2>
           <p className="text-red-600">{error}</p>
         </div>
       </div>
@@ -506,14 +508,14 @@ export default function BrandsPage() {
   }
 
   return (
-    <div className="max-w-4xl mx-auto space-y-4 pb-32" dir="rtl">
+    <div className="max-w-4xl mx-auto space-y-4 pb-32">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">מותגים</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">{t('brands.title')}</h1>
             <p className="text-gray-600">
-              נהל את מותגי המוצרים שלך ({brands.length} סה״כ)
+              {t('brands.subtitle', { count: brands.length })}
             </p>
           </div>
           <button
@@ -523,7 +525,7 @@ export default function BrandsPage() {
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
-            <span>הוסף מותג</span>
+            <span>{t('brands.add')}</span>
           </button>
         </div>
       </div>
@@ -537,15 +539,15 @@ export default function BrandsPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
               </svg>
             </div>
-            <h2 className="text-2xl font-bold text-gray-800">אין מותגים עדיין</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('brands.empty.none')}</h2>
             <p className="text-gray-600 max-w-md">
-              עדיין לא יצרת מותגים. מותגים עוזרים לארגן את המוצרים שלך.
+              {t('brands.empty.noneHint')}
             </p>
             <button
               onClick={() => setIsAddModalOpen(true)}
               className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
             >
-              הוסף את המותג הראשון שלך
+              {t('brands.addFirst')}
             </button>
           </div>
         </div>
@@ -557,7 +559,7 @@ export default function BrandsPage() {
               <div className="flex flex-col sm:flex-row sm:items-center gap-3">
                 {/* Page Size Selector */}
                 <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium text-gray-700">הצג:</span>
+                  <span className="text-sm font-medium text-gray-700">{t('list.pageSize')}</span>
                   <select
                     value={pageSize}
                     onChange={(e) => {
@@ -575,13 +577,13 @@ export default function BrandsPage() {
                 </div>
 
                 <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium text-gray-700">מיין:</span>
+                  <span className="text-sm font-medium text-gray-700">{t('list.sortBy')}</span>
                   <button
                     type="button"
                     onClick={() => setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'))}
                     className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800 flex items-center gap-2"
                     aria-pressed={sortDirection === 'desc'}
-                    aria-label={`Sort by name ${sortDirection === 'asc' ? 'ascending' : 'descending'}`}
+                    aria-label={sortDirection === 'asc' ? t('brands.sortAscending') : t('brands.sortDescending')}
                   >
                     {sortDirection === 'asc' ? (
                       <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -592,14 +594,14 @@ export default function BrandsPage() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
                       </svg>
                     )}
-                    <span>{sortDirection === 'asc' ? 'א ← ת' : 'א → ת'}</span>
+                    <span>{sortDirection === 'asc' ? t('list.sort.ascending') : t('list.sort.descending')}</span>
                   </button>
                 </div>
               </div>
 
               <div className="relative w-full sm:w-80 sm:max-w-xs">
                 <svg
-                  className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400"
+                  className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400"
                   fill="none"
                   stroke="currentColor"
                   viewBox="0 0 24 24"
@@ -615,7 +617,7 @@ export default function BrandsPage() {
                   type="text"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="חפש מותגים..."
+                  placeholder={t('brands.searchPlaceholder')}
                   maxLength={100}
                   className="glass-input w-full pr-10 pl-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 border-2 border-gray-400/80 hover:border-gray-500 focus:border-gray-400 bg-white/50 focus:bg-white/60 shadow-lg hover:shadow-xl"
                 />
@@ -623,8 +625,8 @@ export default function BrandsPage() {
                   <button
                     type="button"
                     onClick={() => setSearchQuery('')}
-                    className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-                    aria-label="נקה חיפוש"
+                    className="absolute end-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                    aria-label={t('list.clearSearch')}
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -644,16 +646,16 @@ export default function BrandsPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                   </svg>
                 </div>
-                <h2 className="text-xl font-semibold text-gray-800">לא נמצאו מותגים</h2>
+                <h2 className="text-xl font-semibold text-gray-800">{t('brands.empty.filtered')}</h2>
                 <p className="text-gray-600 max-w-sm">
-                  נסה לשנות את החיפוש או נקה את המסננים כדי לראות את כל המותגים.
+                  {t('brands.empty.filteredHint')}
                 </p>
                 {searchQuery && (
                   <button
                     onClick={() => setSearchQuery('')}
                     className="glass-button px-6 py-2 rounded-xl font-semibold text-indigo-600 hover:shadow-md transition-all"
                   >
-                    נקה חיפוש
+                    {t('list.clearSearch')}
                   </button>
                 )}
               </div>
@@ -702,7 +704,7 @@ export default function BrandsPage() {
                     {/* Product Count */}
                     <div className="mb-3">
                       <span className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold">
-                        {productCountByBrand.get(brand.id) || 0} {productCountByBrand.get(brand.id) === 1 ? 'מוצר' : 'מוצרים'}
+                        {t('brands.productCount', { count: productCountByBrand.get(brand.id) || 0 })}
                       </span>
                     </div>
 
@@ -711,7 +713,7 @@ export default function BrandsPage() {
                       <button
                         onClick={() => handleEditBrand(brand)}
                         className="glass-button p-2 rounded-lg hover:shadow-md transition-all"
-                        title="ערוך מותג"
+                        title={t('brands.edit')}
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -720,7 +722,7 @@ export default function BrandsPage() {
                       <button
                         onClick={() => setBrandToDelete(brand)}
                         className="glass-button p-2 rounded-lg hover:shadow-md transition-all border-red-500 hover:border-red-600"
-                        title="מחק מותג"
+                        title={t('brands.delete')}
                       >
                         <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -740,7 +742,7 @@ export default function BrandsPage() {
         currentPage={currentPage}
         totalPages={totalPages}
         onPageChange={setCurrentPage}
-        rtl={true}
+        rtl={getDir() === 'rtl'}
         maxWidth="max-w-4xl"
         showCondition={filteredCount > 0 && totalPages > 0}
       />
@@ -749,7 +751,6 @@ export default function BrandsPage() {
       {isAddModalOpen && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...addModalBackdropProps}
         >
@@ -758,7 +759,7 @@ export default function BrandsPage() {
             {...addModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">הוסף מותג חדש</h2>
+              <h2 className="modal-header-title">{t('brandForm.addTitle')}</h2>
               <CloseButton onClick={handleCloseModal} />
             </div>
 
@@ -771,7 +772,7 @@ export default function BrandsPage() {
             <form onSubmit={handleSubmit} className="space-y-3.5">
               <div>
                 <label htmlFor="brandName" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  שם המותג *
+                  {t('brandForm.name')}
                 </label>
                 <input
                   id="brandName"
@@ -788,7 +789,7 @@ export default function BrandsPage() {
                   className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                     showErrors && fieldErrors.name ? 'border-red-400 focus:ring-red-400/50' : ''
                   }`}
-                  placeholder="לדוגמה: נייק, אפל, סמסונג"
+                  placeholder={t('brandForm.namePlaceholder')}
                   autoFocus
                   dir="ltr"
                 />
@@ -799,7 +800,7 @@ export default function BrandsPage() {
 
               <div>
                 <label htmlFor="brandImage" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  תמונה <span className="text-gray-500 text-xs">(אופציונלי)</span>
+                  {t('brandForm.image')} <span className="text-gray-500 text-xs">{t('common.optional')}</span>
                 </label>
                 <div className="space-y-3">
                   <div className="relative">
@@ -822,11 +823,11 @@ export default function BrandsPage() {
                           : 'border-indigo-300 hover:border-indigo-500 hover:bg-indigo-50/30'
                       }`}
                     >
-                      <svg className="w-5 h-5 mr-2 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <svg className="w-5 h-5 me-2 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                       </svg>
                       <span className="text-sm font-medium">
-                        {isDragging ? 'שחרר תמונה כאן' : selectedImage ? 'שנה תמונה' : 'בחר תמונה או גרור ושחרר'}
+                        {isDragging ? t('image.dropHere') : selectedImage ? t('image.change') : t('image.choose')}
                       </span>
                     </label>
                   </div>
@@ -838,7 +839,7 @@ export default function BrandsPage() {
                         <div className="w-full max-w-xs h-48 flex items-center justify-center bg-white rounded-lg border-2 border-gray-200 p-2">
                           <img
                             src={previewImage}
-                            alt={brandName ? `תצוגה מקדימה של תמונת המותג ${brandName}` : "תצוגה מקדימה של תמונת מותג"}
+                            alt={brandName ? t('brandForm.previewAlt', { name: brandName }) : t('brandForm.previewAltUnnamed')}
                             className="max-h-full max-w-full object-contain"
                           />
                         </div>
@@ -848,8 +849,8 @@ export default function BrandsPage() {
                             setSelectedImage(null);
                             setPreviewImage(null);
                           }}
-                          className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-                          title="הסר תמונה"
+                          className="absolute top-2 end-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
+                          title={t('image.remove')}
                         >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -860,7 +861,7 @@ export default function BrandsPage() {
                   )}
 
                   <p className="text-xs text-gray-500 text-center">
-                    JPEG, PNG, WebP. גודל מקסימלי: 5MB.
+                    {t('image.hint')}
                   </p>
                 </div>
               </div>
@@ -875,7 +876,7 @@ export default function BrandsPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -885,14 +886,14 @@ export default function BrandsPage() {
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>יוצר...</span>
+                      <span>{t('common.creating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>צור מותג</span>
+                      <span>{t('brandForm.create')}</span>
                     </>
                   )}
                 </button>
@@ -906,7 +907,6 @@ export default function BrandsPage() {
       {isEditModalOpen && brandToEdit && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...editModalBackdropProps}
         >
@@ -915,7 +915,7 @@ export default function BrandsPage() {
             {...editModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">ערוך מותג</h2>
+              <h2 className="modal-header-title">{t('brandForm.editTitle')}</h2>
               <CloseButton onClick={handleCloseEditModal} />
             </div>
 
@@ -928,7 +928,7 @@ export default function BrandsPage() {
             <form onSubmit={handleEditSubmit} className="space-y-3.5">
               <div>
                 <label htmlFor="editBrandName" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  שם המותג *
+                  {t('brandForm.name')}
                 </label>
                 <input
                   id="editBrandName"
@@ -945,7 +945,7 @@ export default function BrandsPage() {
                   className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                     showErrors && fieldErrors.name ? 'border-red-400 focus:ring-red-400/50' : ''
                   }`}
-                  placeholder="לדוגמה: נייק, אפל, סמסונג"
+                  placeholder={t('brandForm.namePlaceholder')}
                   autoFocus
                   dir="ltr"
                 />
@@ -956,13 +956,13 @@ export default function BrandsPage() {
 
               <div>
                 <label htmlFor="editBrandImage" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  תמונה <span className="text-gray-500 text-xs">(אופציונלי)</span>
+                  {t('brandForm.image')} <span className="text-gray-500 text-xs">{t('common.optional')}</span>
                 </label>
                 <div className="space-y-3">
                   {/* Current Image - hide when removeImage or new preview */}
                   {brandToEdit?.imageUrl && !previewImage && !removeImage && (
                     <div className="flex flex-col items-center">
-                      <p className="text-xs text-gray-500 mb-2">תמונה נוכחית:</p>
+                      <p className="text-xs text-gray-500 mb-2">{t('image.current')}</p>
                       <div className="relative group">
                         <div className="w-full max-w-xs h-48 flex items-center justify-center bg-white rounded-lg border-2 border-gray-200 p-2">
                           <img
@@ -981,8 +981,8 @@ export default function BrandsPage() {
                             setSelectedImage(null);
                             setPreviewImage(null);
                           }}
-                          className="absolute top-2 right-2 p-1.5 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg hover:bg-red-600"
-                          title="הסר תמונה"
+                          className="absolute top-2 end-2 p-1.5 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg hover:bg-red-600"
+                          title={t('image.remove')}
                         >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -998,7 +998,7 @@ export default function BrandsPage() {
                         }}
                         className="mt-2 px-4 py-2 text-sm text-white bg-red-500 hover:bg-red-600 font-medium rounded-lg shadow-md transition-colors"
                       >
-                        הסר תמונה
+                        {t('image.remove')}
                       </button>
                     </div>
                   )}
@@ -1011,7 +1011,7 @@ export default function BrandsPage() {
                           <svg className="w-12 h-12 mx-auto text-gray-400 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                           </svg>
-                          <p className="text-sm text-gray-600">התמונה תוסר</p>
+                          <p className="text-sm text-gray-600">{t('image.willBeRemoved')}</p>
                         </div>
                       </div>
                       <button
@@ -1019,7 +1019,7 @@ export default function BrandsPage() {
                         onClick={() => setRemoveImage(false)}
                         className="mt-2 text-sm text-indigo-600 hover:text-indigo-700 font-medium"
                       >
-                        ביטול הסרה
+                        {t('image.undoRemove')}
                       </button>
                     </div>
                   )}
@@ -1044,17 +1044,17 @@ export default function BrandsPage() {
                           : 'border-indigo-300 hover:border-indigo-500 hover:bg-indigo-50/30'
                       }`}
                     >
-                      <svg className="w-5 h-5 mr-2 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <svg className="w-5 h-5 me-2 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                       </svg>
                       <span className="text-sm font-medium">
                         {isDragging
-                          ? 'שחרר תמונה כאן'
+                          ? t('image.dropHere')
                           : previewImage
-                            ? 'שנה תמונה'
+                            ? t('image.change')
                             : brandToEdit?.imageUrl && !removeImage
-                              ? 'החלף תמונה או גרור ושחרר'
-                              : 'בחר תמונה או גרור ושחרר'}
+                              ? t('image.replace')
+                              : t('image.choose')}
                       </span>
                     </label>
                   </div>
@@ -1062,12 +1062,12 @@ export default function BrandsPage() {
                   {/* New Image Preview */}
                   {previewImage && (
                     <div className="flex flex-col items-center">
-                      <p className="text-xs text-gray-500 mb-2">תצוגה מקדימה של תמונה חדשה:</p>
+                      <p className="text-xs text-gray-500 mb-2">{t('brandForm.newPreview')}</p>
                       <div className="relative group">
                         <div className="w-full max-w-xs h-48 flex items-center justify-center bg-white rounded-lg border-2 border-gray-200 p-2">
                           <img
                             src={previewImage}
-                            alt={brandToEdit ? `תצוגה מקדימה של תמונת המותג ${brandToEdit.name}` : "תצוגה מקדימה של תמונת מותג"}
+                            alt={brandToEdit ? t('brandForm.previewAlt', { name: brandToEdit.name }) : t('brandForm.previewAltUnnamed')}
                             className="max-h-full max-w-full object-contain"
                           />
                         </div>
@@ -1077,8 +1077,8 @@ export default function BrandsPage() {
                             setSelectedImage(null);
                             setPreviewImage(null);
                           }}
-                          className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-                          title="הסר תמונה"
+                          className="absolute top-2 end-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
+                          title={t('image.remove')}
                         >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -1089,7 +1089,7 @@ export default function BrandsPage() {
                   )}
 
                   <p className="text-xs text-gray-500 text-center">
-                    JPEG, PNG, WebP. גודל מקסימלי: 5MB.
+                    {t('image.hint')}
                   </p>
                 </div>
               </div>
@@ -1104,7 +1104,7 @@ export default function BrandsPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -1114,14 +1114,14 @@ export default function BrandsPage() {
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>מעדכן...</span>
+                      <span>{t('common.updating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>עדכן מותג</span>
+                      <span>{t('brandForm.update')}</span>
                     </>
                   )}
                 </button>
@@ -1134,8 +1134,7 @@ export default function BrandsPage() {
       {/* Delete Brand Modal */}
       {brandToDelete && (
         <div 
-          className="fixed top-0 left-0 right-0 bottom-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" 
-          dir="rtl" 
+          className="fixed top-0 start-0 end-0 bottom-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" 
           style={{ position: 'fixed' }}
           {...deleteModalBackdropProps}
         >
@@ -1144,7 +1143,7 @@ export default function BrandsPage() {
             {...deleteModalContentProps}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-bold text-gray-800">מחק מותג</h2>
+              <h2 className="text-xl font-bold text-gray-800">{t('brands.delete')}</h2>
               <button
                 onClick={() => setBrandToDelete(null)}
                 className="p-2 hover:bg-white/20 rounded-lg transition-colors"
@@ -1167,7 +1166,7 @@ export default function BrandsPage() {
 
             <div className="mb-6">
               <p className="text-gray-700 mb-4">
-                האם אתה בטוח שברצונך למחוק את המותג <span className="font-semibold">{brandToDelete.name}</span>? פעולה זו לא ניתנת לביטול.
+                {t('brands.deleteConfirm', { name: brandToDelete.name })}
               </p>
               <div className="glass-card bg-yellow-50/50 border-yellow-200 rounded-xl p-4">
                 <div className="flex items-start gap-2">
@@ -1175,7 +1174,7 @@ export default function BrandsPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                   </svg>
                   <p className="text-sm text-yellow-800">
-                    מוצרים המשויכים למותג זה יהפכו ללא מותג.
+                    {t('brands.deleteWarning')}
                   </p>
                 </div>
               </div>
@@ -1187,7 +1186,7 @@ export default function BrandsPage() {
                 disabled={isDeleting}
                 className="glass-button flex-1 py-2.5 px-4 rounded-xl font-semibold text-gray-800 bg-gray-100/60 hover:bg-gray-200/70 border-gray-400 hover:border-gray-500 disabled:opacity-50"
               >
-                ביטול
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleDeleteBrand}
@@ -1216,10 +1215,10 @@ export default function BrandsPage() {
                         d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                       ></path>
                     </svg>
-                    <span>מוחק...</span>
+                    <span>{t('common.deleting')}</span>
                   </>
                 ) : (
-                  <span>מחק מותג</span>
+                  <span>{t('brands.delete')}</span>
                 )}
               </button>
             </div>
@@ -5,6 +5,14 @@ import { businessAPI } from '../services/api';
 import type { Business } from '../services/api';
 import EditBusinessModal from '../components/EditBusinessModal';
 import { preferHebrewNetworkMessage, resolveApiErr } from '../utils/apiErrorMessage';
+import { describeDeliverySettings } from '../utils/delivery';
+import { describeCartRules } from '../utils/cartRules';
+import { describeStoreTheme } from '../utils/storeTheme';
+import { describeInventorySettings } from '../utils/inventory';
+import { describeOrderLinkSettings } from '../utils/orderLinks';
+import { formatDate, t } from '../utils/i18n';
+
+const LONG_DATE: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
 
 export default function BusinessDataPage() {
   const [business, setBusiness] = useState<Business | null>(null);
@@ -37,14 +45,6 @@ export default function BusinessDataPage() {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('he-IL', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-  };
-
   const formatPhoneNumber = (phone: string) => {
     if (phone.length <= 3) return phone;
     return `${phone.slice(0, 3)}-${phone.slice(3)}`;
@@ -55,7 +55,7 @@ export default function BusinessDataPage() {
       <div className="flex items-center justify-center min-h-[60vh]">
         <div className="flex flex-col items-center space-y-4">
           <Spinner size="lg" color="rgb(79, 70, 229)" />
-          <p className="text-gray-600 font-medium">טוען נתוני עסק...</p>
+          <p className="text-gray-600 font-medium">{t('business.loading')}</p>
         </div>
       </div>
     );
@@ -78,13 +78,13 @@ export default function BusinessDataPage() {
               d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
             />
           </svg>
-          <h2 className="text-lg font-semibold mb-2">שגיאה בטעינת נתוני העסק</h2>
+          <h2 className="text-lg font-semibold mb-2">{t('business.loadError')}</h2>
           <p className="text-gray-600">{error}</p>
           <button
             onClick={fetchBusiness}
             className="glass-button mt-4 px-6 py-2 rounded-xl font-medium"
           >
-            נסה שוב
+            {t('common.tryAgain')}
           </button>
         </div>
       </div>
@@ -108,15 +108,15 @@ export default function BusinessDataPage() {
               d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4"
             />
           </svg>
-          <h2 className="text-lg font-semibold mb-2">לא נמצאו נתוני עסק</h2>
-          <p className="text-gray-600">לא נרשם עסק עבור חשבון זה</p>
+          <h2 className="text-lg font-semibold mb-2">{t('business.notFound')}</h2>
+          <p className="text-gray-600">{t('business.notFoundHint')}</p>
         </div>
       </div>
     );
   }
 
   return (
-    <div className="max-w-4xl mx-auto space-y-4" dir="rtl">
+    <div className="max-w-4xl mx-auto space-y-4">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:flex-wrap md:items-start md:justify-between gap-4 md:gap-6">
@@ -132,7 +132,7 @@ export default function BusinessDataPage() {
               ) : (
                 <div
                   className="w-24 h-24 md:w-32 md:h-32 rounded-xl border-2 border-dashed border-gray-300 bg-gray-50 flex items-center justify-center"
-                  aria-label="אין תמונה"
+                  aria-label={t('business.noImage')}
                 >
                   <svg
                     className="w-10 h-10 md:w-12 md:h-12 text-gray-400"
@@ -155,7 +155,7 @@ export default function BusinessDataPage() {
                 {business.name}
               </h1>
               <p className="text-gray-600 text-sm">
-                פרטי העסק
+                {t('business.subtitle')}
               </p>
             </div>
           </div>
@@ -167,7 +167,7 @@ export default function BusinessDataPage() {
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
               </svg>
-              <span>עדכן פרטי עסק</span>
+              <span>{t('business.edit.title')}</span>
             </button>
           </div>
         </div>
@@ -179,7 +179,7 @@ export default function BusinessDataPage() {
           {/* Business Name */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              שם העסק
+              {t('field.businessName')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {business.name}
@@ -189,7 +189,7 @@ export default function BusinessDataPage() {
           {/* State ID Number */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              ח.פ / ע.מ
+              {t('field.stateId')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
               {business.stateIdNumber}
@@ -199,7 +199,7 @@ export default function BusinessDataPage() {
           {/* Business Email */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              אימייל העסק
+              {t('business.edit.email')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {business.email}
@@ -209,7 +209,7 @@ export default function BusinessDataPage() {
           {/* Phone Number */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              מספר טלפון
+              {t('field.phone')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
               {formatPhoneNumber(business.phoneNumber)}
@@ -219,7 +219,7 @@ export default function BusinessDataPage() {
           {/* Street Address */}
           <div className="max-w-full">
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              כתובת
+              {t('field.address')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {business.streetAddress}
@@ -229,7 +229,7 @@ export default function BusinessDataPage() {
           {/* City */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              עיר
+              {t('field.city')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {business.city}
@@ -239,7 +239,7 @@ export default function BusinessDataPage() {
           {/* Minimum invoice sequence number */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              מספר חשבונית מינימלי
+              {t('field.minInvoiceNumber')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm font-mono">
               {business.minimumInvoiceSequenceNumber}
@@ -249,30 +249,80 @@ export default function BusinessDataPage() {
           {/* Minimum credit note sequence number */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              מספר זיכוי מינימלי
+              {t('field.minCreditNoteNumber')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm font-mono">
               {business.minimumCreditNoteSequenceNumber}
             </div>
           </div>
 
+          {/* Delivery */}
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              {t('business.delivery')}
+            </label>
+            <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
+              {describeDeliverySettings(business.deliverySettings)}
+            </div>
+          </div>
+
+          {/* Cart rules */}
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              {t('business.cartRules')}
+            </label>
+            <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
+              {describeCartRules(business.cartRules)}
+            </div>
+          </div>
+
+          {/* Inventory */}
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              {t('business.edit.inventory')}
+            </label>
+            <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
+              {describeInventorySettings(business.inventorySettings)}
+            </div>
+          </div>
+
+          {/* Order links */}
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              {t('business.orderLinks')}
+            </label>
+            <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
+              {describeOrderLinkSettings(business.orderLinkSettings)}
+            </div>
+          </div>
+
+          {/* Store theme */}
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              {t('storeTheme.editor.title')}
+            </label>
+            <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
+              {describeStoreTheme(business.storeTheme)}
+            </div>
+          </div>
+
           {/* Created At */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              תאריך רישום
+              {t('business.registeredAt')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
-              {formatDate(business.createdAt)}
+              {formatDate(business.createdAt, LONG_DATE)}
             </div>
           </div>
 
           {/* Updated At */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              תאריך עדכון אחרון
+              {t('business.updatedAt')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
-              {formatDate(business.updatedAt)}
+              {formatDate(business.updatedAt, LONG_DATE)}
             </div>
           </div>
         </div>
@@ -298,6 +348,11 @@ export default function BusinessDataPage() {
             minimumInvoiceSequenceNumber: business.minimumInvoiceSequenceNumber,
             minimumCreditNoteSequenceNumber: business.minimumCreditNoteSequenceNumber,
             imageUrl: business.imageUrl,
+            deliverySettings: business.deliverySettings,
+            cartRules: business.cartRules,
+            storeTheme: business.storeTheme,
+            inventorySettings: business.inventorySettings,
+            orderLinkSettings: business.orderLinkSettings,
           }}
         />
       )}
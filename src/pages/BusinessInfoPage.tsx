@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { orderAPI } from '../services/api';
 import type { LinksCreatedStats, MonthlyData } from '../services/api';
 import { formatPrice } from '../utils/formatPrice';
+import { formatDate, t } from '../utils/i18n';
 
 export default function BusinessInfoPage() {
   // Individual state for each card
@@ -85,7 +86,7 @@ export default function BusinessInfoPage() {
       const data = await orderAPI.getLinksCreatedStats(selectedYear, selectedMonth);
       setLinksCreated(data);
     } catch (err: any) {
-      setErrorLinks('נכשל בטעינת קישורים שנוצרו');
+      setErrorLinks(t('businessInfo.error.links'));
       console.error('Error fetching links created:', err);
     } finally {
       setLoadingLinks(false);
@@ -99,7 +100,7 @@ export default function BusinessInfoPage() {
       const data = await orderAPI.getMonthlyIncome(selectedYear, selectedMonth);
       setMonthlyIncome(data);
     } catch (err: any) {
-      setErrorIncome('נכשל בטעינת הכנסה חודשית');
+      setErrorIncome(t('businessInfo.error.income'));
       console.error('Error fetching monthly income:', err);
     } finally {
       setLoadingIncome(false);
@@ -113,7 +114,7 @@ export default function BusinessInfoPage() {
       const data = await orderAPI.getCompletedOrdersCount(selectedYear, selectedMonth);
       setCompletedOrdersCount(data);
     } catch (err: any) {
-      setErrorCompletedOrders('נכשל בטעינת מספר הזמנות שהושלמו');
+      setErrorCompletedOrders(t('businessInfo.error.completedOrders'));
       console.error('Error fetching completed orders count:', err);
     } finally {
       setLoadingCompletedOrders(false);
@@ -127,7 +128,7 @@ export default function BusinessInfoPage() {
       const data = await orderAPI.getYearlyData(selectedYear);
       setYearlyData(data);
     } catch (err: any) {
-      setErrorYearly('נכשל בטעינת נתונים שנתיים');
+      setErrorYearly(t('businessInfo.error.yearly'));
       console.error('Error fetching yearly data:', err);
     } finally {
       setLoadingYearly(false);
@@ -135,8 +136,7 @@ export default function BusinessInfoPage() {
   };
 
   const getSelectedMonthName = () => {
-    const date = new Date(selectedYear, selectedMonth - 1, 1);
-    return date.toLocaleString('he-IL', { month: 'long', year: 'numeric' });
+    return formatDate(new Date(selectedYear, selectedMonth - 1, 1), { month: 'long', year: 'numeric' });
   };
 
   const getMonthOptions = () => {
@@ -149,8 +149,7 @@ export default function BusinessInfoPage() {
       if (selectedYear === currentYear && i > currentMonth) {
         break;
       }
-      const date = new Date(selectedYear, i - 1, 1);
-      months.push({ value: i, label: date.toLocaleString('he-IL', { month: 'long' }) });
+      months.push({ value: i, label: formatDate(new Date(selectedYear, i - 1, 1), { month: 'long' }) });
     }
     return months;
   };
@@ -198,7 +197,7 @@ export default function BusinessInfoPage() {
       ordersY, 
       revenue: data.revenue, 
       orders: data.completedOrders, 
-      month: data.monthName 
+      month: formatDate(new Date(selectedYear, data.month - 1, 1), { month: 'long' })
     };
   });
 
@@ -210,13 +209,13 @@ export default function BusinessInfoPage() {
   const ordersPath = ordersPoints.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
 
   return (
-    <div className="space-y-4" dir="rtl">
+    <div className="space-y-4">
       {/* Header */}
       <div className="backdrop-blur-2xl bg-white/60 border border-white/40 rounded-2xl shadow-xl p-4">
         <div className="flex items-center justify-between flex-wrap gap-4">
           <div>
-            <h1 className="text-2xl font-bold text-gray-800 mb-1">מידע עסקי</h1>
-            <p className="text-gray-600 text-sm">סטטיסטיקות עבור {getSelectedMonthName()}</p>
+            <h1 className="text-2xl font-bold text-gray-800 mb-1">{t('nav.businessInfo')}</h1>
+            <p className="text-gray-600 text-sm">{t('businessInfo.statsFor', { month: getSelectedMonthName() })}</p>
           </div>
           <div className="flex items-center gap-3">
             <div className="relative">
@@ -268,20 +267,20 @@ export default function BusinessInfoPage() {
           {/* Links Created */}
           <div className="backdrop-blur-2xl bg-gradient-to-br from-indigo-400/30 to-purple-400/30 border border-white/40 rounded-2xl shadow-xl p-4 hover:shadow-2xl transition-all duration-300 flex flex-col">
             <div className="flex items-center justify-between mb-3">
-              <h2 className="text-base font-bold text-gray-800">הזמנות לסוכן</h2>
+              <h2 className="text-base font-bold text-gray-800">{t('businessInfo.orderLinks')}</h2>
               <div className="text-xl">🔗</div>
             </div>
             
             <div className="flex flex-col space-y-2.5 flex-1 min-h-0 overflow-hidden">
               {/* Manager Row */}
               <div className="flex justify-between items-center py-2 px-3 bg-white/20 rounded-lg backdrop-blur-sm">
-                <span className="text-sm font-medium text-gray-800">מנהל</span>
+                <span className="text-sm font-medium text-gray-800">{t('businessInfo.manager')}</span>
                 <span className="text-lg font-bold text-indigo-700">{linksCreated?.managerLinks ?? 0}</span>
               </div>
 
               {/* Agents List - Scrollable */}
               {linksCreated && Object.keys(linksCreated.linksPerAgent).length > 0 && (
-                <div className="flex-1 overflow-y-auto min-h-0 space-y-1.5 pl-1">
+                <div className="flex-1 overflow-y-auto min-h-0 space-y-1.5 pe-1">
                   {Object.values(linksCreated.linksPerAgent)
                     .sort((a, b) => b.linkCount - a.linkCount)
                     .map((agentInfo) => (
@@ -289,7 +288,7 @@ export default function BusinessInfoPage() {
                         key={agentInfo.agentId} 
                         className="flex justify-between items-center py-1.5 px-2.5 bg-white/20 rounded-lg backdrop-blur-sm hover:bg-white/30 transition-colors"
                       >
-                        <span className={`text-xs font-medium truncate pl-1.5 flex-1 ${agentInfo.linkCount === 0 ? 'text-gray-900' : 'text-gray-800'}`} title={agentInfo.agentName}>
+                        <span className={`text-xs font-medium truncate pe-1.5 flex-1 ${agentInfo.linkCount === 0 ? 'text-gray-900' : 'text-gray-800'}`} title={agentInfo.agentName}>
                           {agentInfo.agentName}
                         </span>
                         <span className={`text-sm font-bold whitespace-nowrap ${agentInfo.linkCount === 0 ? 'text-gray-600' : 'text-purple-700'}`}>
@@ -302,7 +301,7 @@ export default function BusinessInfoPage() {
 
               {/* Total Row */}
               <div className="flex justify-between items-center py-2 px-3 bg-white/30 rounded-lg backdrop-blur-sm border border-white/40 mt-auto">
-                <span className="text-sm font-bold text-gray-900">סה״כ</span>
+                <span className="text-sm font-bold text-gray-900">{t('businessInfo.total')}</span>
                 <span className="text-lg font-bold text-gray-900">{linksCreated?.total ?? 0}</span>
               </div>
             </div>
@@ -316,7 +315,7 @@ export default function BusinessInfoPage() {
             {/* Monthly Income - Small Cube */}
             <div className="backdrop-blur-2xl bg-gradient-to-br from-green-400/30 to-emerald-400/30 border border-white/40 rounded-xl shadow-lg p-5 hover:shadow-xl transition-all duration-300 flex flex-col justify-center items-center w-44 h-40 flex-shrink-0">
               <div className="text-4xl mb-2 text-center">💰</div>
-              <h2 className="text-base font-semibold text-gray-800 mb-2 text-center">הכנסות</h2>
+              <h2 className="text-base font-semibold text-gray-800 mb-2 text-center">{t('businessInfo.income')}</h2>
               <div className={`font-bold text-green-700 text-center ${monthlyIncome >= 1000000 ? 'text-lg' : monthlyIncome >= 100000 ? 'text-xl' : 'text-2xl'}`}>
                 {loadingIncome ? '...' : formatPrice(monthlyIncome)}
               </div>
@@ -325,7 +324,7 @@ export default function BusinessInfoPage() {
             {/* Completed Orders - Small Cube */}
             <div className="backdrop-blur-2xl bg-gradient-to-br from-pink-400/30 to-rose-400/30 border border-white/40 rounded-xl shadow-lg p-5 hover:shadow-xl transition-all duration-300 flex flex-col justify-center items-center w-44 h-40 flex-shrink-0">
               <div className="text-4xl mb-2 text-center">📦</div>
-              <h2 className="text-base font-semibold text-gray-800 mb-2 text-center">הזמנות שהושלמו</h2>
+              <h2 className="text-base font-semibold text-gray-800 mb-2 text-center">{t('businessInfo.completedOrders')}</h2>
               <div className="text-2xl font-bold text-pink-700 text-center">
                 {loadingCompletedOrders ? '...' : completedOrdersCount}
               </div>
@@ -334,7 +333,7 @@ export default function BusinessInfoPage() {
 
           {/* Yearly Chart */}
           <div className="backdrop-blur-2xl bg-white/60 border border-white/40 rounded-2xl shadow-xl p-4">
-            <h2 className="text-base font-bold text-gray-800 mb-3 text-center">סקירה שנתית - {selectedYear}</h2>
+            <h2 className="text-base font-bold text-gray-800 mb-3 text-center">{t('businessInfo.yearlyOverview', { year: selectedYear })}</h2>
             <div ref={chartContainerRef} className="w-full overflow-x-auto">
             <svg width={isMobile ? chartWidth : "100%"} height={chartHeight} viewBox={`0 0 ${chartWidth} ${chartHeight}`} preserveAspectRatio="xMidYMid meet" className={isMobile ? "" : "w-full"}>
               {/* Grid lines */}
@@ -434,7 +433,7 @@ export default function BusinessInfoPage() {
                         month: chartPoint.month
                       })}
                     />
-                    <title>{`${point.month}: ${point.value} הזמנות`}</title>
+                    <title>{t('businessInfo.chart.ordersTooltip', { month: point.month, count: point.value })}</title>
                   </g>
                 );
               })}
@@ -468,7 +467,7 @@ export default function BusinessInfoPage() {
                       textAnchor="middle"
                       className="text-xs fill-green-300 font-medium"
                     >
-                      הכנסה: {formatPrice(hoveredPoint.revenue)}
+                      {t('businessInfo.chart.revenue', { amount: formatPrice(hoveredPoint.revenue) })}
                     </text>
                     <text
                       x={hoveredPoint.x}
@@ -476,7 +475,7 @@ export default function BusinessInfoPage() {
                       textAnchor="middle"
                       className="text-xs fill-blue-300 font-medium"
                     >
-                      הזמנות: {hoveredPoint.orders}
+                      {t('businessInfo.chart.orders', { count: hoveredPoint.orders })}
                     </text>
                   </g>
                 );
@@ -493,7 +492,7 @@ export default function BusinessInfoPage() {
                     textAnchor="middle"
                     className="text-xs fill-gray-600"
                   >
-                    {data.monthName.substring(0, 3)}
+                    {formatDate(new Date(selectedYear, data.month - 1, 1), { month: 'short' })}
                   </text>
                 );
               })}
@@ -536,11 +535,11 @@ export default function BusinessInfoPage() {
             <div className="flex items-center justify-center gap-6 mt-4">
               <div className="flex items-center gap-2">
                 <div className="w-3 h-3 rounded-full bg-green-500"></div>
-                <span className="text-xs text-gray-700">הכנסה</span>
+                <span className="text-xs text-gray-700">{t('businessInfo.chart.revenueLegend')}</span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                <span className="text-xs text-gray-700">הזמנות שהושלמו</span>
+                <span className="text-xs text-gray-700">{t('businessInfo.completedOrders')}</span>
               </div>
             </div>
           </div>
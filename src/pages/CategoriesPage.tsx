@@ -9,6 +9,7 @@ import Spinner from '../components/Spinner';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
 import { toHebrewCategoryMessage } from '../utils/categoryErrorMessages';
 import { preferHebrewNetworkMessage, resolveApiErr } from '../utils/apiErrorMessage';
+import { getDir, t } from '../utils/i18n';
 
 export default function CategoriesPage() {
   const [categories, setCategories] = useState<Category[]>([]);
@@ -114,7 +115,7 @@ export default function CategoriesPage() {
 
       const base = resolveApiErr(err, 'categoriesLoad');
       const afterNet = preferHebrewNetworkMessage(err, base);
-      setError(afterNet === 'שגיאת רשת' ? afterNet : toHebrewCategoryMessage(afterNet));
+      setError(afterNet === t('error.network') ? afterNet : toHebrewCategoryMessage(afterNet));
     } finally {
       setIsLoading(false);
     }
@@ -173,7 +174,7 @@ export default function CategoriesPage() {
 
     const errors: Record<string, string> = {};
     if (!categoryName.trim()) {
-      errors.name = 'שם הקטגוריה נדרש';
+      errors.name = t('categoryForm.error.nameRequired');
     }
 
     setFieldErrors(errors);
@@ -208,7 +209,7 @@ export default function CategoriesPage() {
 
     const errors: Record<string, string> = {};
     if (!categoryName.trim()) {
-      errors.name = 'שם הקטגוריה נדרש';
+      errors.name = t('categoryForm.error.nameRequired');
     }
 
     setFieldErrors(errors);
@@ -282,7 +283,7 @@ export default function CategoriesPage() {
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
-          <p className="text-gray-600 font-medium">... טוען קטגוריות</p>
+          <p className="text-gray-600 font-medium">{t('categories.loading')}</p>
         </div>
       </div>
     );
@@ -292,7 +293,7 @@ export default function CategoriesPage() {
     return (
       <div className="max-w-4xl mx-auto">
         <div className="glass-card rounded-3xl p-8 bg-red-50/50 border-red-200">
-          <h2 className="text-xl font-bold text-red-800 mb-2">שגיאה בטעינת קטגוריות</h2>
+          <h2 className="text-xl font-bold text-red-800 mb-2">{t('categories.loadError')}</h2>
           <p className="text-red-600">{error}</p>
         </div>
       </div>
@@ -300,14 +301,14 @@ export default function CategoriesPage() {
   }
 
   return (
-    <div className="max-w-4xl mx-auto space-y-4 pb-32" dir="rtl">
+    <div className="max-w-4xl mx-auto space-y-4 pb-32">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">קטגוריות</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">{t('categories.title')}</h1>
             <p className="text-gray-600">
-              צפה ונהל את קטגוריות המוצרים שלך ({categories.length} סה״כ)
+              {t('categories.subtitle', { count: categories.length })}
             </p>
           </div>
           <button
@@ -317,7 +318,7 @@ export default function CategoriesPage() {
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
-            <span>הוסף קטגוריה</span>
+            <span>{t('categories.add')}</span>
           </button>
         </div>
       </div>
@@ -331,15 +332,15 @@ export default function CategoriesPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
               </svg>
             </div>
-            <h2 className="text-2xl font-bold text-gray-800">No Categories Yet</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('categories.empty.none')}</h2>
             <p className="text-gray-600 max-w-md">
-              You haven't created any categories yet. Categories help organize your products.
+              {t('categories.empty.noneHint')}
             </p>
             <button
               onClick={() => setIsAddModalOpen(true)}
               className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
             >
-              Add Your First Category
+              {t('categories.addFirst')}
             </button>
           </div>
         </div>
@@ -350,7 +351,7 @@ export default function CategoriesPage() {
             <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
               <div className="flex flex-col sm:flex-row sm:items-center gap-3">
                 <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium text-gray-700">הצג:</span>
+                  <span className="text-sm font-medium text-gray-700">{t('list.pageSize')}</span>
                   <select
                     value={pageSize}
                     onChange={(e) => {
@@ -368,13 +369,13 @@ export default function CategoriesPage() {
                 </div>
 
                 <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium text-gray-700">מיין:</span>
+                  <span className="text-sm font-medium text-gray-700">{t('list.sortBy')}</span>
                   <button
                     type="button"
                     onClick={() => setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'))}
                     className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800 flex items-center gap-2"
                     aria-pressed={sortDirection === 'desc'}
-                    aria-label={`Sort categories ${sortDirection === 'asc' ? 'ascending' : 'descending'}`}
+                    aria-label={sortDirection === 'asc' ? t('categories.sortAscending') : t('categories.sortDescending')}
                   >
                     {sortDirection === 'asc' ? (
                       <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -385,14 +386,14 @@ export default function CategoriesPage() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
                       </svg>
                     )}
-                    <span>{sortDirection === 'asc' ? 'א ← ת' : 'א → ת'}</span>
+                    <span>{sortDirection === 'asc' ? t('list.sort.ascending') : t('list.sort.descending')}</span>
                   </button>
                 </div>
               </div>
 
               <div className="relative w-full sm:w-80 sm:max-w-xs">
                 <svg
-                  className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400"
+                  className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400"
                   fill="none"
                   stroke="currentColor"
                   viewBox="0 0 24 24"
@@ -408,7 +409,7 @@ export default function CategoriesPage() {
                   type="text"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="חפש קטגוריות..."
+                  placeholder={t('categories.searchPlaceholder')}
                   maxLength={100}
                   className="glass-input w-full pr-10 pl-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 border-2 border-gray-400/80 hover:border-gray-500 focus:border-gray-400 bg-white/50 focus:bg-white/60 shadow-lg hover:shadow-xl"
                 />
@@ -416,8 +417,8 @@ export default function CategoriesPage() {
                   <button
                     type="button"
                     onClick={() => setSearchQuery('')}
-                    className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-                    aria-label="נקה חיפוש"
+                    className="absolute end-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                    aria-label={t('list.clearSearch')}
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -438,16 +439,16 @@ export default function CategoriesPage() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                       </svg>
                     </div>
-                    <h2 className="text-xl font-semibold text-gray-800">No categories found</h2>
+                    <h2 className="text-xl font-semibold text-gray-800">{t('categories.empty.filtered')}</h2>
                     <p className="text-gray-600 max-w-sm">
-                      Try adjusting your search or clear the filters to see all categories.
+                      {t('categories.empty.filteredHint')}
                     </p>
                     {searchQuery && (
                       <button
                         onClick={() => setSearchQuery('')}
                         className="glass-button px-6 py-2 rounded-xl font-semibold text-indigo-600 hover:shadow-md transition-all"
                       >
-                        Clear search
+                        {t('list.clearSearch')}
                       </button>
                     )}
                   </div>
@@ -466,15 +467,15 @@ export default function CategoriesPage() {
                           {category.name}
                         </h3>
                         <span className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold">
-                          {productCountByCategory.get(category.id) || 0} {productCountByCategory.get(category.id) === 1 ? 'מוצר' : 'מוצרים'}
+                          {t('categories.productCount', { count: productCountByCategory.get(category.id) || 0 })}
                         </span>
                       </div>
                     </div>
-                    <div className="flex gap-4 mr-4">
+                    <div className="flex gap-4 ms-4">
                       <button
                         onClick={() => handleEditCategory(category)}
                         className="glass-button p-2 rounded-xl hover:shadow-md transition-all"
-                        title="ערוך קטגוריה"
+                        title={t('categories.edit')}
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -483,7 +484,7 @@ export default function CategoriesPage() {
                       <button
                         onClick={() => setCategoryToDelete(category)}
                         className="glass-button p-2 rounded-xl hover:shadow-md transition-all border-red-500 hover:border-red-600"
-                        title="מחק קטגוריה"
+                        title={t('categories.delete')}
                       >
                         <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -505,14 +506,13 @@ export default function CategoriesPage() {
         onPageChange={setCurrentPage}
         maxWidth="max-w-4xl"
         showCondition={filteredCount > 0 && totalPages > 0}
-        rtl={true}
+        rtl={getDir() === 'rtl'}
       />
 
       {/* Add Category Modal */}
       {isAddModalOpen && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...addModalBackdropProps}
         >
@@ -521,7 +521,7 @@ export default function CategoriesPage() {
             {...addModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">הוסף קטגוריה חדשה</h2>
+              <h2 className="modal-header-title">{t('categoryForm.addTitle')}</h2>
               <CloseButton onClick={handleCloseModal} />
             </div>
 
@@ -534,7 +534,7 @@ export default function CategoriesPage() {
             <form onSubmit={handleSubmit} className="space-y-3.5">
               <div>
                 <label htmlFor="categoryName" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  שם *
+                  {t('categoryForm.name')}
                 </label>
                 <input
                   id="categoryName"
@@ -552,7 +552,7 @@ export default function CategoriesPage() {
                     showErrors && fieldErrors.name ? 'border-red-400 focus:ring-red-400/50' : ''
                   }`}
                   dir="ltr"
-                  placeholder="לדוגמה: משקאות, חטיפים, אלקטרוניקה"
+                  placeholder={t('categoryForm.namePlaceholder')}
                   autoFocus
                 />
                 {showErrors && fieldErrors.name && (
@@ -570,7 +570,7 @@ export default function CategoriesPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -580,14 +580,14 @@ export default function CategoriesPage() {
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>יוצר...</span>
+                      <span>{t('common.creating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>צור קטגוריה</span>
+                      <span>{t('categoryForm.create')}</span>
                     </>
                   )}
                 </button>
@@ -601,7 +601,6 @@ export default function CategoriesPage() {
       {isEditModalOpen && categoryToEdit && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...editModalBackdropProps}
         >
@@ -610,7 +609,7 @@ export default function CategoriesPage() {
             {...editModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">ערוך קטגוריה</h2>
+              <h2 className="modal-header-title">{t('categoryForm.editTitle')}</h2>
               <CloseButton onClick={handleCloseEditModal} />
             </div>
 
@@ -623,7 +622,7 @@ export default function CategoriesPage() {
             <form onSubmit={handleEditSubmit} className="space-y-3.5">
               <div>
                 <label htmlFor="editCategoryName" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  שם *
+                  {t('categoryForm.name')}
                 </label>
                 <input
                   id="editCategoryName"
@@ -641,7 +640,7 @@ export default function CategoriesPage() {
                     showErrors && fieldErrors.name ? 'border-red-400 focus:ring-red-400/50' : ''
                   }`}
                   dir="ltr"
-                  placeholder="לדוגמה: משקאות, חטיפים, אלקטרוניקה"
+                  placeholder={t('categoryForm.namePlaceholder')}
                   autoFocus
                 />
                 {showErrors && fieldErrors.name && (
@@ -659,7 +658,7 @@ export default function CategoriesPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -669,14 +668,14 @@ export default function CategoriesPage() {
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>מעדכן...</span>
+                      <span>{t('common.updating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>עדכן קטגוריה</span>
+                      <span>{t('categoryForm.update')}</span>
                     </>
                   )}
                 </button>
@@ -695,11 +694,10 @@ export default function CategoriesPage() {
         >
           <div 
             className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90" 
-            dir="rtl"
             {...deleteModalContentProps}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-bold text-gray-800">מחק קטגוריה</h2>
+              <h2 className="text-xl font-bold text-gray-800">{t('categories.delete')}</h2>
               <button
                 onClick={() => setCategoryToDelete(null)}
                 className="p-2 hover:bg-white/20 rounded-lg transition-colors"
@@ -722,7 +720,7 @@ export default function CategoriesPage() {
 
             <div className="mb-6">
               <p className="text-gray-700 mb-4 break-words">
-                האם אתה בטוח שברצונך למחוק את הקטגוריה <span className="font-semibold">{categoryToDelete.name}</span>? פעולה זו לא ניתנת לביטול.
+                {t('categories.deleteConfirm', { name: categoryToDelete.name })}
               </p>
               <div className="glass-card bg-yellow-50/50 border-yellow-200 rounded-xl p-4">
                 <div className="flex items-start gap-2">
@@ -730,7 +728,7 @@ export default function CategoriesPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                   </svg>
                   <p className="text-sm text-yellow-800">
-                    מוצרים המשויכים לקטגוריה זו יהפכו ללא קטגוריה.
+                    {t('categories.deleteWarning')}
                   </p>
                 </div>
               </div>
@@ -742,7 +740,7 @@ export default function CategoriesPage() {
                 disabled={isDeleting}
                 className="glass-button flex-1 py-2.5 px-4 rounded-xl font-semibold text-gray-800 bg-gray-100/60 hover:bg-gray-200/70 border-gray-400 hover:border-gray-500 disabled:opacity-50"
               >
-                ביטול
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleDeleteCategory}
@@ -771,10 +769,10 @@ export default function CategoriesPage() {
                         d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                       ></path>
                     </svg>
-                    <span>מוחק...</span>
+                    <span>{t('common.deleting')}</span>
                   </>
                 ) : (
-                  <span>מחק קטגוריה</span>
+                  <span>{t('categories.delete')}</span>
                 )}
               </button>
             </div>
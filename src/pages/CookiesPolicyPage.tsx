@@ -1,75 +1,68 @@
 import { Link } from 'react-router-dom';
+import { formatDate, t } from '../utils/i18n';
 
 export default function CookiesPolicyPage() {
   return (
-    <div className="min-h-screen bg-gradient-to-br from-sky-100 via-cyan-50 to-indigo-100" dir="rtl">
+    <div className="min-h-screen bg-gradient-to-br from-sky-100 via-cyan-50 to-indigo-100">
       <div className="max-w-4xl mx-auto px-4 py-8 md:py-12">
         <div className="glass-card rounded-3xl p-6 md:p-8 space-y-6">
           {/* Header */}
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">מדיניות עוגיות</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">{t('cookiesPolicy.title')}</h1>
             <p className="text-gray-600">
-              תאריך עדכון אחרון: {new Date().toLocaleDateString('he-IL')}
+              {t('legal.lastUpdated', { date: formatDate(new Date()) })}
             </p>
           </div>
 
           {/* Introduction */}
           <section className="space-y-4">
-            <h2 className="text-2xl font-bold text-gray-800">מה הן עוגיות?</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('cookiesPolicy.what.title')}</h2>
             <p className="text-gray-700 leading-relaxed">
-              עוגיות (Cookies) הן קבצי טקסט קטנים המאוחסנים במכשיר שלכם (מחשב, טלפון, טאבלט) 
-              כאשר אתם מבקרים באתרים. העוגיות מאפשרות לאתר לזכור את ההעדפות שלכם ולשפר את 
-              חוויית השימוש.
+              {t('cookiesPolicy.what.text')}
             </p>
           </section>
 
           {/* Types of Cookies */}
           <section className="space-y-4">
-            <h2 className="text-2xl font-bold text-gray-800">סוגי עוגיות שאנו משתמשים</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('cookiesPolicy.types.title')}</h2>
             
             <div className="space-y-4">
               <div className="bg-gray-50 rounded-xl p-4">
-                <h3 className="text-xl font-semibold text-gray-800 mb-2">עוגיות הכרחיות</h3>
+                <h3 className="text-xl font-semibold text-gray-800 mb-2">{t('cookiesPolicy.essential.title')}</h3>
                 <p className="text-gray-700 leading-relaxed mb-2">
-                  עוגיות אלה הכרחיות לפעולת האתר ואי אפשר להפעיל את האתר בלעדיהן. 
-                  הן מוגדרות בדרך כלל כתגובה לפעולות שביצעתם, כגון הגדרת העדפות פרטיות, 
-                  התחברות או מילוי טפסים.
+                  {t('cookiesPolicy.essential.text')}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <strong>מטרה:</strong> שמירת העדפות נגישות, שמירת מצב התחברות, 
-                  שמירת עגלת קניות
+                  <strong>{t('legal.purpose')}</strong> {t('cookiesPolicy.essential.purpose')}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <strong>תוקף:</strong> עד שנה או עד מחיקה ידנית
+                  <strong>{t('legal.validity')}</strong> {t('cookiesPolicy.essential.validity')}
                 </p>
               </div>
 
               <div className="bg-gray-50 rounded-xl p-4">
-                <h3 className="text-xl font-semibold text-gray-800 mb-2">עוגיות ביצועים</h3>
+                <h3 className="text-xl font-semibold text-gray-800 mb-2">{t('cookiesPolicy.performance.title')}</h3>
                 <p className="text-gray-700 leading-relaxed mb-2">
-                  עוגיות אלה מאפשרות לנו לספור ביקורים ולזהות מקורות תנועה כדי לשפר את ביצועי האתר. 
-                  הן עוזרות לנו לדעת אילו דפים הכי פופולריים ואילו הכי פחות, ולראות איך משתמשים 
-                  נעים באתר.
+                  {t('cookiesPolicy.performance.text')}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <strong>מטרה:</strong> שיפור ביצועי האתר, הבנת דפוסי שימוש
+                  <strong>{t('legal.purpose')}</strong> {t('cookiesPolicy.performance.purpose')}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <strong>תוקף:</strong> עד שנה
+                  <strong>{t('legal.validity')}</strong> {t('cookiesPolicy.validity.year')}
                 </p>
               </div>
 
               <div className="bg-gray-50 rounded-xl p-4">
-                <h3 className="text-xl font-semibold text-gray-800 mb-2">עוגיות פונקציונליות</h3>
+                <h3 className="text-xl font-semibold text-gray-800 mb-2">{t('cookiesPolicy.functional.title')}</h3>
                 <p className="text-gray-700 leading-relaxed mb-2">
-                  עוגיות אלה מאפשרות לאתר לספק פונקציונליות ושירותים משופרים. 
-                  אם לא תאפשרו עוגיות אלה, חלק מהשירותים עשויים לא לעבוד.
+                  {t('cookiesPolicy.functional.text')}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <strong>מטרה:</strong> שמירת העדפות משתמש, שמירת הגדרות נגישות
+                  <strong>{t('legal.purpose')}</strong> {t('cookiesPolicy.functional.purpose')}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <strong>תוקף:</strong> עד שנה
+                  <strong>{t('legal.validity')}</strong> {t('cookiesPolicy.validity.year')}
                 </p>
               </div>
             </div>
@@ -77,70 +70,65 @@ export default function CookiesPolicyPage() {
 
           {/* How We Use Cookies */}
           <section className="space-y-4">
-            <h2 className="text-2xl font-bold text-gray-800">איך אנו משתמשים בעוגיות</h2>
-            <ul className="list-disc list-inside space-y-2 text-gray-700 mr-4">
-              <li>לשמירת העדפות נגישות (גודל גופן, ניגודיות, מרווחים)</li>
-              <li>לשמירת מצב התחברות</li>
-              <li>לשמירת עגלת קניות</li>
-              <li>לשיפור ביצועי האתר</li>
-              <li>להבנת דפוסי שימוש</li>
+            <h2 className="text-2xl font-bold text-gray-800">{t('cookiesPolicy.usage.title')}</h2>
+            <ul className="list-disc list-inside space-y-2 text-gray-700 ms-4">
+              <li>{t('cookiesPolicy.usage.accessibility')}</li>
+              <li>{t('cookiesPolicy.usage.session')}</li>
+              <li>{t('cookiesPolicy.usage.cart')}</li>
+              <li>{t('cookiesPolicy.usage.performance')}</li>
+              <li>{t('cookiesPolicy.usage.analytics')}</li>
             </ul>
           </section>
 
           {/* Managing Cookies */}
           <section className="space-y-4">
-            <h2 className="text-2xl font-bold text-gray-800">ניהול עוגיות</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('cookiesPolicy.manage.title')}</h2>
             <p className="text-gray-700 leading-relaxed">
-              אתם יכולים לשלוט ולנהל עוגיות בדרכים הבאות:
+              {t('cookiesPolicy.manage.intro')}
             </p>
-            <ul className="list-disc list-inside space-y-2 text-gray-700 mr-4">
+            <ul className="list-disc list-inside space-y-2 text-gray-700 ms-4">
               <li>
-                <strong>הגדרות דפדפן:</strong> רוב הדפדפנים מאפשרים לכם לשלוט בעוגיות 
-                דרך תפריט ההגדרות. תוכלו למחוק עוגיות קיימות או למנוע את קבלתן.
+                <strong>{t('cookiesPolicy.manage.browser')}</strong> {t('cookiesPolicy.manage.browserText')}
               </li>
               <li>
-                <strong>ווידג'ט נגישות:</strong> תוכלו לנהל את העוגיות דרך הווידג'ט 
-                הנגישות באתר (פינה שמאלית תחתונה).
+                <strong>{t('cookiesPolicy.manage.widget')}</strong> {t('cookiesPolicy.manage.widgetText')}
               </li>
               <li>
-                <strong>מחיקה ידנית:</strong> תוכלו למחוק עוגיות בכל עת דרך הגדרות הדפדפן.
+                <strong>{t('cookiesPolicy.manage.manual')}</strong> {t('cookiesPolicy.manage.manualText')}
               </li>
             </ul>
             <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
               <p className="text-yellow-800 text-sm">
-                <strong>שימו לב:</strong> מחיקת עוגיות עשויה להשפיע על תפקוד האתר. 
-                לדוגמה, ייתכן שתצטרכו להתחבר מחדש או שהעדפות הנגישות שלכם יאבדו.
+                <strong>{t('cookiesPolicy.manage.note')}</strong> {t('cookiesPolicy.manage.noteText')}
               </p>
             </div>
           </section>
 
           {/* Third-Party Cookies */}
           <section className="space-y-4">
-            <h2 className="text-2xl font-bold text-gray-800">עוגיות של צדדים שלישיים</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('cookiesPolicy.thirdParty.title')}</h2>
             <p className="text-gray-700 leading-relaxed">
-              כרגע, האתר שלנו לא משתמש בעוגיות של צדדים שלישיים. במידה ונוסיף שירותים 
-              של צדדים שלישיים בעתיד, נעדכן מדיניות זו בהתאם.
+              {t('cookiesPolicy.thirdParty.text')}
             </p>
           </section>
 
           {/* Updates */}
           <section className="space-y-4">
-            <h2 className="text-2xl font-bold text-gray-800">עדכונים למדיניות</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('cookiesPolicy.updates.title')}</h2>
             <p className="text-gray-700 leading-relaxed">
-              אנו עשויים לעדכן מדיניות זו מעת לעת. כל שינוי יפורסם בדף זה עם תאריך 
-              העדכון. מומלץ לבדוק דף זה מדי פעם כדי להישאר מעודכנים.
+              {t('cookiesPolicy.updates.text')}
             </p>
           </section>
 
           {/* Contact */}
           <section className="space-y-4">
-            <h2 className="text-2xl font-bold text-gray-800">יצירת קשר</h2>
+            <h2 className="text-2xl font-bold text-gray-800">{t('cookiesPolicy.contact.title')}</h2>
             <p className="text-gray-700 leading-relaxed">
-              אם יש לכם שאלות לגבי מדיניות העוגיות שלנו, אנא צרו קשר:
+              {t('cookiesPolicy.contact.text')}
             </p>
             <div className="bg-gray-50 rounded-xl p-4 space-y-2">
               <p className="text-gray-700">
-                <strong>טלפון:</strong>{' '}
+                <strong>{t('legal.phone')}</strong>{' '}
                 <a 
                   href="tel:0505566979"
                   className="text-indigo-600 hover:text-indigo-700 underline focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 rounded"
@@ -149,7 +137,7 @@ export default function CookiesPolicyPage() {
                 </a>
               </p>
               <p className="text-sm text-gray-600">
-                שעות פעילות: ימים א'-ה' 09:00-17:00
+                {t('legal.hours')}
               </p>
             </div>
           </section>
@@ -163,7 +151,7 @@ export default function CookiesPolicyPage() {
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
               </svg>
-              חזרה לעמוד הראשי
+              {t('legal.backHome')}
             </Link>
           </div>
         </div>
@@ -8,6 +8,7 @@ import CustomerEditModal from '../components/CustomerEditModal';
 import OrderViewModal from '../components/OrderViewModal';
 import InvoiceCreationModal from '../components/InvoiceCreationModal';
 import CreditNoteModal from '../components/CreditNoteModal';
+import CustomerStoreLinkCard from '../components/CustomerStoreLinkCard';
 import { formatPrice } from '../utils/formatPrice';
 import { getStatusLabel, getStatusColor, formatOrderDateShortWithTime, getOrderRowClass, translateDiscountErrorMessage } from '../utils/orderUtils';
 import { copyOrderLink, getOrderStoreLink } from '../utils/copyOrderLink';
@@ -15,6 +16,7 @@ import { useModalBackdrop } from '../hooks/useModalBackdrop';
 import CloseButton from '../components/CloseButton';
 import { primaryInvoicePdfUrl, primaryTaxInvoiceMeta } from '../utils/invoiceUtils';
 import { msgFromBody, resolveApiErr } from '../utils/apiErrorMessage';
+import { formatNumber, getDir, t } from '../utils/i18n';
 
 const PAGE_SIZE_OPTIONS = [5, 10, 20];
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
@@ -116,9 +118,9 @@ export default function CustomerDetailPage() {
     } catch (err: unknown) {
       const e = err as { response?: { status: number }; message?: string };
       if (e?.response?.status === 404 || e?.response?.status === 403) {
-        setError('הלקוח לא נמצא או שאין הרשאה');
+        setError(t('customerDetail.error.notFound'));
       } else {
-        setError((e?.message as string) || 'שגיאה בטעינת הלקוח');
+        setError((e?.message as string) || t('customerDetail.error.load'));
       }
       if (e?.response?.status === 401) navigate('/login/manager');
     } finally {
@@ -165,7 +167,7 @@ export default function CustomerDetailPage() {
       const response = await fetch(`${API_BASE_URL}/product-overrides?${params.toString()}`, {
         headers: { Authorization: `Bearer ${token}` },
       });
-      if (!response.ok) throw new Error('נכשל בטעינת התאמות המחיר');
+      if (!response.ok) throw new Error(t('override.error.load'));
       const data: PageResponse<ProductOverrideWithPrice> = await response.json();
       setOverridesPage({ content: data.content, totalPages: data.totalPages });
     } catch (err: unknown) {
@@ -233,19 +235,19 @@ export default function CustomerDetailPage() {
   };
 
   const getAgentLabel = (agentId: string | null) => {
-    if (agentId == null) return 'אני';
+    if (agentId == null) return t('list.me');
     const agent = agents.find((a) => a.id === agentId);
-    if (!agent) return 'סוכן';
+    if (!agent) return t('orderSource.AGENT');
     return `${agent.firstName} ${agent.lastName}`.trim();
   };
 
   const validateEditOverridePrice = (value: string): string => {
-    if (!value.trim()) return 'נדרש להזין מחיר מותאם';
-    if (isNaN(Number(value)) || Number(value) < 0) return 'מחיר מותאם חייב להיות מספר חיובי תקין';
-    if (Number(value) > MAX_PRICE) return 'מחיר מותאם לא יכול לעלות על 1,000,000';
+    if (!value.trim()) return t('override.error.priceRequired');
+    if (isNaN(Number(value)) || Number(value) < 0) return t('override.error.priceInvalid');
+    if (Number(value) > MAX_PRICE) return t('override.error.priceMax', { max: formatNumber(MAX_PRICE) });
     const decimalParts = value.split('.');
     if (decimalParts.length > 1 && decimalParts[1].length > 2) {
-      return 'מחיר מותאם יכול לכלול עד 2 ספרות אחרי הנקודה';
+      return t('override.error.priceDecimals');
     }
     return '';
   };
@@ -291,7 +293,7 @@ export default function CustomerDetailPage() {
       handleCloseOverrideEditModal();
       await fetchOverrides();
     } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : 'עדכון נכשל';
+      const msg = err instanceof Error ? err.message : t('override.error.update');
       setOverrideEditFormError(msg);
     } finally {
       setIsSubmittingOverride(false);
@@ -307,11 +309,11 @@ export default function CustomerDetailPage() {
         method: 'DELETE',
         headers: { Authorization: `Bearer ${token}` },
       });
-      if (!response.ok) throw new Error('מחיקה נכשלה');
+      if (!response.ok) throw new Error(t('override.error.delete'));
       setOverrideToDelete(null);
       await fetchOverrides();
     } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : 'מחיקה נכשלה';
+      const msg = err instanceof Error ? err.message : t('override.error.delete');
       setError(msg);
     } finally {
       setIsDeletingOverride(false);
@@ -325,7 +327,7 @@ export default function CustomerDetailPage() {
     setShowAddOverrideErrors(true);
 
     const errors: Record<string, string> = {};
-    if (!addOverrideForm.productId) errors.productId = 'נדרש לבחור מוצר';
+    if (!addOverrideForm.productId) errors.productId = t('override.error.productRequired');
     const priceErr = validateEditOverridePrice(addOverrideForm.overridePrice);
     if (priceErr) errors.overridePrice = priceErr;
 
@@ -355,7 +357,7 @@ export default function CustomerDetailPage() {
       setOverridesPageNum(0);
       await fetchOverrides();
     } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : 'יצירה נכשלה';
+      const msg = err instanceof Error ? err.message : t('override.error.create');
       setAddOverrideFormError(msg);
     } finally {
       setIsSubmittingAddOverride(false);
@@ -550,7 +552,7 @@ export default function CustomerDetailPage() {
       setCopiedOrderId(orderId);
       setTimeout(() => setCopiedOrderId(null), 2000);
     } else {
-      setError('העתקה נכשלה');
+      setError(t('common.copyFailed'));
     }
   };
 
@@ -600,7 +602,7 @@ export default function CustomerDetailPage() {
     const productsTotal = discountOrder.products.reduce((sum, p) => sum + p.pricePerUnit * p.quantity, 0);
     const inputValue = discountMode === 'percentage' ? parseFloat(discountValue) : parseFloat(discountValue);
     if (isNaN(inputValue) || inputValue < 0) {
-      setError('אנא הזן ערך תקין');
+      setError(t('orders.page.invalidValue'));
       return;
     }
     let discountNum = discountMode === 'percentage' ? (inputValue / 100) * productsTotal : inputValue;
@@ -628,15 +630,15 @@ export default function CustomerDetailPage() {
 
   if (!customerId) {
     return (
-      <div className="max-w-4xl mx-auto p-6" dir="rtl">
-        <p className="text-gray-600">מזהה לקוח חסר.</p>
+      <div className="max-w-4xl mx-auto p-6">
+        <p className="text-gray-600">{t('customerDetail.missingId')}</p>
       </div>
     );
   }
 
   if (isLoadingCustomer) {
     return (
-      <div className="flex items-center justify-center min-h-[40vh]" dir="rtl">
+      <div className="flex items-center justify-center min-h-[40vh]">
         <div className="animate-spin h-12 w-12 border-4 border-indigo-600 border-t-transparent rounded-full" />
       </div>
     );
@@ -644,16 +646,16 @@ export default function CustomerDetailPage() {
 
   if (error && !customer) {
     return (
-      <div className="max-w-4xl mx-auto p-6" dir="rtl">
+      <div className="max-w-4xl mx-auto p-6">
         <div className="glass-card rounded-3xl p-8 bg-red-50/50 border-red-200">
-          <h2 className="text-xl font-bold text-red-800 mb-2">שגיאה</h2>
+          <h2 className="text-xl font-bold text-red-800 mb-2">{t('common.error')}</h2>
           <p className="text-red-600 mb-4">{error}</p>
           <button
             type="button"
             onClick={() => navigate('/dashboard/customers')}
             className="glass-button px-4 py-2 rounded-xl text-gray-800"
           >
-            חזרה לרשימת הלקוחות
+            {t('customerDetail.backToList')}
           </button>
         </div>
       </div>
@@ -665,7 +667,7 @@ export default function CustomerDetailPage() {
   }
 
   return (
-    <div className="max-w-7xl mx-auto space-y-6 pb-28" dir="rtl">
+    <div className="max-w-7xl mx-auto space-y-6 pb-28">
       <button
         type="button"
         onClick={() => navigate('/dashboard/customers')}
@@ -674,7 +676,7 @@ export default function CustomerDetailPage() {
         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
         </svg>
-        חזרה ללקוחות
+        {t('customerDetail.back')}
       </button>
 
       <div className="glass-card rounded-3xl p-6 md:p-8">
@@ -682,19 +684,19 @@ export default function CustomerDetailPage() {
         <div className="flex flex-col gap-3 md:flex-row md:flex-wrap md:items-center md:gap-4">
           <div className="flex flex-1 flex-col gap-2 text-sm md:flex-row md:flex-wrap md:items-center md:gap-x-6 md:gap-y-1">
             <div className="flex gap-1.5">
-              <span className="font-bold text-gray-600">אימייל:</span>
+              <span className="font-bold text-gray-600">{t('customerDetail.email')}</span>
               <span className="font-semibold text-gray-900">{customer.email}</span>
             </div>
             <div className="flex gap-1.5">
-              <span className="font-bold text-gray-600">טלפון:</span>
+              <span className="font-bold text-gray-600">{t('customerDetail.phone')}</span>
               <span className="font-semibold text-gray-900" dir="ltr">{formatPhone(customer.phoneNumber)}</span>
             </div>
             <div className="flex gap-1.5">
-              <span className="font-bold text-gray-600">עיר:</span>
+              <span className="font-bold text-gray-600">{t('customerDetail.city')}</span>
               <span className="font-semibold text-gray-900">{customer.city}</span>
             </div>
             <div className="flex gap-1.5">
-              <span className="font-bold text-gray-600">אחוז הנחה:</span>
+              <span className="font-bold text-gray-600">{t('customerDetail.discount')}</span>
               <span className="font-semibold text-gray-900">{customer.discountPercentage}%</span>
             </div>
           </div>
@@ -703,19 +705,31 @@ export default function CustomerDetailPage() {
               type="button"
               onClick={() => setIsEditOpen(true)}
               className="w-fit shrink-0 glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800 border border-indigo-200 hover:border-indigo-300 inline-flex items-center gap-2"
-              aria-label="ערוך לקוח"
+              aria-label={t('customerForm.editTitle')}
             >
               <svg className="w-5 h-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 4H6a2 2 0 00-2 2v12a2 2 0 002 2h12a2 2 0 002-2v-5M18.5 2.5a2.121 2.121 0 113 3L12 15l-4 1 1-4 9.5-9.5z" />
               </svg>
-              ערוך לקוח
+              {t('customerForm.editTitle')}
             </button>
           )}
         </div>
       </div>
 
+      {customerId && (
+        <CustomerStoreLinkCard
+          customerId={customerId}
+          getLink={customerAPI.getStoreLink}
+          createLink={customerAPI.createStoreLink}
+          revokeLink={customerAPI.revokeStoreLink}
+          onApiError={(err) => {
+            if ((err as { response?: { status?: number } })?.response?.status === 401) navigate('/login/manager');
+          }}
+        />
+      )}
+
       <div className="glass-card rounded-3xl p-6 md:p-8">
-        <h2 className="text-xl font-bold text-gray-800 mb-4">קישור להזמנה חדשה</h2>
+        <h2 className="text-xl font-bold text-gray-800 mb-4">{t('customerDetail.newLink.title')}</h2>
         {error && !generatedLink && (
           <p className="text-red-600 text-sm mb-2">{error}</p>
         )}
@@ -733,32 +747,32 @@ export default function CustomerDetailPage() {
           {isGeneratingLink ? (
             <>
               <span className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full" />
-              יוצר הזמנה
+              {t('customerDetail.newLink.creating')}
             </>
           ) : generatedLink && !showCreateNew ? (
-            'הזמנה נוצרה ✓ הועתק!'
+            t('customerDetail.newLink.created')
           ) : generatedLink && showCreateNew ? (
             <>
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
               </svg>
-              צור קישור חדש
+              {t('customerDetail.newLink.createAnother')}
             </>
           ) : (
             <>
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
               </svg>
-              צור קישור להזמנה חדשה
+              {t('customerDetail.newLink.create')}
             </>
           )}
         </button>
 
         <div className="border-t border-gray-200 pt-6 mt-6">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
-            <h2 className="text-xl font-bold text-gray-800">הזמנות של הלקוח</h2>
+            <h2 className="text-xl font-bold text-gray-800">{t('customerDetail.orders.title')}</h2>
             <div className="flex items-center gap-2">
-              <span className="text-sm text-gray-600">הצג:</span>
+              <span className="text-sm text-gray-600">{t('list.pageSize')}</span>
               <select
                 value={ordersPageSize}
                 onChange={(e) => { setOrdersPageSize(Number(e.target.value)); setOrdersPageNum(0); }}
@@ -777,19 +791,19 @@ export default function CustomerDetailPage() {
             <div className="animate-spin h-10 w-10 border-2 border-indigo-600 border-t-transparent rounded-full" />
           </div>
         ) : ordersPage.content.length === 0 ? (
-          <p className="text-gray-500 text-center py-8">אין הזמנות ללקוח זה.</p>
+          <p className="text-gray-500 text-center py-8">{t('customerDetail.orders.empty')}</p>
         ) : (
           <>
             <div className="overflow-x-auto rounded-t-xl border border-gray-200">
-              <table className="min-w-full divide-y divide-gray-200" aria-label="הזמנות הלקוח">
+              <table className="min-w-full divide-y divide-gray-200" aria-label={t('customerDetail.orders.tableLabel')}>
                 <thead className="bg-indigo-50/70">
                   <tr>
                     <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">ID</th>
-                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">סטטוס</th>
-                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">מקור</th>
-                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">תאריך יצירה</th>
-                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">סה״כ</th>
-                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600 w-32">פעולות</th>
+                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('customerDetail.orders.column.status')}</th>
+                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('customerDetail.orders.column.source')}</th>
+                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('customerDetail.orders.column.createdAt')}</th>
+                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('customerDetail.orders.column.total')}</th>
+                    <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600 w-32">{t('customerDetail.orders.column.actions')}</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-100">
@@ -815,14 +829,14 @@ export default function CustomerDetailPage() {
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-800 text-center">
                         {order.orderSource === 'MANAGER'
-                          ? 'אני'
+                          ? t('list.me')
                           : order.orderSource === 'AGENT' && order.agentId
                             ? (() => {
                                 const agent = agents.find((a) => a.id === order.agentId);
-                                return agent ? `${agent.firstName} ${agent.lastName}` : 'סוכן';
+                                return agent ? `${agent.firstName} ${agent.lastName}` : t('orderSource.AGENT');
                               })()
                             : order.orderSource === 'PUBLIC'
-                              ? 'אונליין'
+                              ? t('orderSource.PUBLIC')
                               : '—'}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-800 text-center">
@@ -831,16 +845,19 @@ export default function CustomerDetailPage() {
                       <td className="px-4 py-3 text-sm font-medium text-gray-800 text-center">
                         {formatPrice(order.totalPrice)}
                         {order.discount > 0 && (
-                          <span className="text-red-600 text-xs mr-1" aria-label={`הנחה ${formatPrice(order.discount)}`}>
-                            {' '}({formatPrice(order.discount)} הנחה)
+                          <span
+                            className="text-red-600 text-xs ms-1"
+                            aria-label={t('customerDetail.orders.discountLabel', { amount: formatPrice(order.discount) })}
+                          >
+                            {' '}{t('customerDetail.orders.discount', { amount: formatPrice(order.discount) })}
                           </span>
                         )}
                         {(order.totalCreditedAmount ?? 0) > 0 && (
                           <span
-                            className="text-amber-700 text-xs mr-1"
-                            aria-label={`זיכוי ${formatPrice(order.totalCreditedAmount ?? 0)}`}
+                            className="text-amber-700 text-xs ms-1"
+                            aria-label={t('customerDetail.orders.creditedLabel', { amount: formatPrice(order.totalCreditedAmount ?? 0) })}
                           >
-                            {' '}({formatPrice(order.totalCreditedAmount ?? 0)} זיכוי)
+                            {' '}{t('customerDetail.orders.credited', { amount: formatPrice(order.totalCreditedAmount ?? 0) })}
                           </span>
                         )}
                       </td>
@@ -855,8 +872,8 @@ export default function CustomerDetailPage() {
                                   window.open(`https://wa.me/?text=${encodeURIComponent(getOrderStoreLink(order.id))}`, '_blank');
                                 }}
                                 className="p-2 rounded-full border-2 border-[#25D366] bg-[#25D366]/10 text-[#25D366] hover:shadow-md transition-all flex-shrink-0"
-                                title="שלח קישור בוואטסאפ"
-                                aria-label="שלח קישור בוואטסאפ"
+                                title={t('orders.page.sendWhatsApp')}
+                                aria-label={t('orders.page.sendWhatsApp')}
                               >
                                 <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
                                   <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893a11.821 11.821 0 00-3.48-8.413z" />
@@ -870,8 +887,8 @@ export default function CustomerDetailPage() {
                                     ? 'bg-indigo-200 text-indigo-700 border-indigo-700'
                                     : 'bg-indigo-50 text-indigo-600 border-indigo-500 hover:shadow-md'
                                 }`}
-                                title={copiedOrderId === order.id ? 'קישור הועתק' : 'העתק קישור'}
-                                aria-label={copiedOrderId === order.id ? 'קישור הועתק' : 'העתק קישור'}
+                                title={copiedOrderId === order.id ? t('orders.page.linkCopied') : t('orders.page.copyLink')}
+                                aria-label={copiedOrderId === order.id ? t('orders.page.linkCopied') : t('orders.page.copyLink')}
                               >
                                 {copiedOrderId === order.id ? (
                                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -887,8 +904,8 @@ export default function CustomerDetailPage() {
                                 type="button"
                                 onClick={(e) => { e.stopPropagation(); window.open(getOrderStoreLink(order.id), '_blank'); }}
                                 className="p-2 rounded-full border-2 bg-indigo-50 text-indigo-600 border-indigo-500 hover:shadow-md transition-all flex-shrink-0"
-                                title="פתח הזמנה בטאב חדש"
-                                aria-label="פתח הזמנה בטאב חדש"
+                                title={t('orders.page.openInNewTab')}
+                                aria-label={t('orders.page.openInNewTab')}
                               >
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
@@ -902,8 +919,8 @@ export default function CustomerDetailPage() {
                                 type="button"
                                 onClick={(e) => { e.stopPropagation(); setViewingOrder(null); navigate(`/store/edit/${order.id}`); }}
                                 className="p-2 rounded-full border-2 bg-blue-100 text-blue-700 border-blue-700 hover:shadow-md transition-all"
-                                title="ערוך הזמנה"
-                                aria-label="ערוך הזמנה"
+                                title={t('orders.page.edit')}
+                                aria-label={t('orders.page.edit')}
                               >
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -918,8 +935,8 @@ export default function CustomerDetailPage() {
                                     ? 'bg-gray-100 text-gray-400 border-gray-300 cursor-not-allowed'
                                     : 'bg-green-100 text-green-700 border-green-700 hover:shadow-md'
                                 }`}
-                                title="סמן כהושלם"
-                                aria-label="סמן כהושלם"
+                                title={t('orders.page.markDone')}
+                                aria-label={t('orders.page.markDone')}
                               >
                                 {updatingOrderId === order.id ? (
                                   <svg className="w-4 h-4 animate-spin" viewBox="0 0 24 24">
@@ -944,8 +961,8 @@ export default function CustomerDetailPage() {
                                   if (url) window.open(url, '_blank');
                                 }}
                                 className="p-2 rounded-full border-2 bg-green-50 text-green-600 border-green-500 hover:bg-green-100 hover:shadow-md transition-all"
-                                title="צפה בחשבונית"
-                                aria-label="צפה בחשבונית"
+                                title={t('customerDetail.orders.viewInvoice')}
+                                aria-label={t('customerDetail.orders.viewInvoice')}
                               >
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
@@ -958,8 +975,8 @@ export default function CustomerDetailPage() {
                                 onClick={(e) => { e.stopPropagation(); setInvoiceOrder(order); }}
                                 disabled={loadingInvoiceUrls.has(order.id)}
                                 className="p-2 rounded-full border-2 bg-green-100 text-green-700 border-green-600 hover:bg-green-200 hover:shadow-md transition-all disabled:opacity-60"
-                                title="צור חשבונית"
-                                aria-label="צור חשבונית"
+                                title={t('customerDetail.orders.createInvoice')}
+                                aria-label={t('customerDetail.orders.createInvoice')}
                               >
                                 {loadingInvoiceUrls.has(order.id) ? (
                                   <svg className="w-4 h-4 animate-spin" viewBox="0 0 24 24">
@@ -987,7 +1004,7 @@ export default function CustomerDetailPage() {
               onPageChange={setOrdersPageNum}
               showCondition={ordersPage.totalPages > 1}
               fixed={false}
-              rtl
+              rtl={getDir() === 'rtl'}
             />
           </>
         )}
@@ -997,8 +1014,8 @@ export default function CustomerDetailPage() {
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
           <div>
-            <h2 className="text-xl font-bold text-gray-800">מחירים מיוחדים ללקוח</h2>
-            <p className="text-sm text-gray-600 mt-1">מחירים מותאמים למוצרים עבור לקוח זה</p>
+            <h2 className="text-xl font-bold text-gray-800">{t('customerDetail.overrides.title')}</h2>
+            <p className="text-sm text-gray-600 mt-1">{t('customerDetail.overrides.subtitle')}</p>
           </div>
           <div className="flex flex-wrap items-center gap-3 justify-end sm:justify-start">
             <button
@@ -1009,10 +1026,10 @@ export default function CustomerDetailPage() {
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
               </svg>
-              הוסף מחיר מיוחד
+              {t('override.add')}
             </button>
             <div className="flex items-center gap-2">
-              <span className="text-sm text-gray-600">הצג:</span>
+              <span className="text-sm text-gray-600">{t('list.pageSize')}</span>
               <select
                 value={overridesPageSize}
                 onChange={(e) => {
@@ -1037,27 +1054,27 @@ export default function CustomerDetailPage() {
             <div className="animate-spin h-10 w-10 border-2 border-indigo-600 border-t-transparent rounded-full" />
           </div>
         ) : overridesPage.content.length === 0 ? (
-          <p className="text-gray-500 text-center py-8">אין מחירים מיוחדים מוגדרים ללקוח זה.</p>
+          <p className="text-gray-500 text-center py-8">{t('customerDetail.overrides.empty')}</p>
         ) : (
           <>
             <div className="overflow-x-auto rounded-t-xl border border-gray-200">
-              <table className="min-w-full divide-y divide-gray-200" aria-label="מחירים מיוחדים ללקוח">
+              <table className="min-w-full divide-y divide-gray-200" aria-label={t('customerDetail.overrides.title')}>
                 <thead className="bg-indigo-50/70">
                   <tr>
                     <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">
-                      סוכן
+                      {t('override.column.agent')}
                     </th>
                     <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">
-                      מוצר
+                      {t('override.column.product')}
                     </th>
                     <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">
-                      מחיר מינימלי
+                      {t('override.column.minimumPrice')}
                     </th>
                     <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">
-                      מחיר מותאם
+                      {t('override.column.overridePrice')}
                     </th>
                     <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600 w-28">
-                      פעולות
+                      {t('override.column.actions')}
                     </th>
                   </tr>
                 </thead>
@@ -1082,8 +1099,8 @@ export default function CustomerDetailPage() {
                             type="button"
                             onClick={() => handleOpenOverrideEdit(row)}
                             className="glass-button p-2 rounded-lg hover:shadow-md transition-all"
-                            title="ערוך"
-                            aria-label="ערוך מחיר מיוחד"
+                            title={t('common.edit')}
+                            aria-label={t('override.editLabel')}
                           >
                             <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -1093,8 +1110,8 @@ export default function CustomerDetailPage() {
                             type="button"
                             onClick={() => setOverrideToDelete(row)}
                             className="glass-button p-2 rounded-lg hover:shadow-md transition-all border-red-500 hover:border-red-600"
-                            title="מחק"
-                            aria-label="מחק מחיר מיוחד"
+                            title={t('common.delete')}
+                            aria-label={t('override.delete')}
                           >
                             <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -1113,7 +1130,7 @@ export default function CustomerDetailPage() {
               onPageChange={setOverridesPageNum}
               showCondition={overridesPage.totalPages > 1}
               fixed={false}
-              rtl
+              rtl={getDir() === 'rtl'}
             />
           </>
         )}
@@ -1122,7 +1139,6 @@ export default function CustomerDetailPage() {
       {isAddOverrideModalOpen && (
         <div
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm"
-          dir="rtl"
           {...addOverrideBackdropProps}
         >
           <div
@@ -1130,11 +1146,11 @@ export default function CustomerDetailPage() {
             {...addOverrideContentProps}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-bold text-gray-800">הוסף מחיר מיוחד</h2>
+              <h2 className="text-lg font-bold text-gray-800">{t('override.add')}</h2>
               <CloseButton onClick={handleCloseAddOverrideModal} />
             </div>
             <p className="text-sm text-gray-600 mb-4">
-              הלקוח: <span className="font-semibold text-gray-800">{customer?.name ?? '—'}</span>
+              {t('override.customer')} <span className="font-semibold text-gray-800">{customer?.name ?? '—'}</span>
             </p>
 
             {addOverrideFormError && (
@@ -1146,11 +1162,11 @@ export default function CustomerDetailPage() {
             <form onSubmit={handleAddOverrideSubmit} className="space-y-3.5" noValidate>
               <div>
                 <label htmlFor="customer-detail-add-override-product-search" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מוצר *
+                  {t('override.product')} *
                 </label>
                 <div className="relative mb-2">
                   <svg
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
+                    className="absolute start-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
                     fill="none"
                     stroke="currentColor"
                     viewBox="0 0 24 24"
@@ -1161,19 +1177,18 @@ export default function CustomerDetailPage() {
                   <input
                     id="customer-detail-add-override-product-search"
                     type="text"
-                    placeholder="חפש מוצרים..."
+                    placeholder={t('override.searchProducts')}
                     value={addModalProductSearch}
                     onChange={(e) => setAddModalProductSearch(e.target.value)}
                     className="glass-input w-full pr-10 pl-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                    dir="rtl"
-                    aria-label="חפש מוצרים"
+                    aria-label={t('override.searchProductsLabel')}
                   />
                   {addModalProductSearch && (
                     <button
                       type="button"
                       onClick={() => setAddModalProductSearch('')}
-                      className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                      aria-label="נקה חיפוש"
+                      className="absolute end-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      aria-label={t('list.clearSearch')}
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -1189,18 +1204,18 @@ export default function CustomerDetailPage() {
                   <div className="space-y-1 max-h-40 overflow-y-auto p-1.5 bg-gray-50/50">
                     {filteredProductsForAddModal.length === 0 && addModalProductSearch ? (
                       <div className="text-center py-6 text-gray-500">
-                        <p className="text-xs">לא נמצאו מוצרים</p>
+                        <p className="text-xs">{t('override.noProducts')}</p>
                         <button
                           type="button"
                           onClick={() => setAddModalProductSearch('')}
                           className="text-xs text-indigo-600 hover:text-indigo-700 mt-1"
                         >
-                          נקה חיפוש
+                          {t('list.clearSearch')}
                         </button>
                       </div>
                     ) : filteredProductsForAddModal.length === 0 && !addModalProductSearch ? (
                       <div className="text-center py-6 text-gray-500">
-                        <p className="text-xs">{overrideProducts.length === 0 ? 'טוען מוצרים...' : 'אין מוצרים להצגה'}</p>
+                        <p className="text-xs">{overrideProducts.length === 0 ? t('override.loadingProducts') : t('override.noProductsToShow')}</p>
                       </div>
                     ) : (
                       filteredProductsForAddModal.map((product) => (
@@ -1213,7 +1228,7 @@ export default function CustomerDetailPage() {
                               setAddOverrideFieldErrors((prev) => ({ ...prev, productId: '' }));
                             }
                           }}
-                          className={`w-full text-right px-3 py-2.5 rounded-lg transition-all flex items-center gap-2.5 ${
+                          className={`w-full text-start px-3 py-2.5 rounded-lg transition-all flex items-center gap-2.5 ${
                             addOverrideForm.productId === product.id
                               ? 'bg-indigo-100 border-2 border-indigo-500 shadow-sm'
                               : 'bg-white hover:bg-gray-50 border border-transparent'
@@ -1247,19 +1262,21 @@ export default function CustomerDetailPage() {
                   <div className="mt-3 p-3 bg-indigo-50/60 border border-indigo-200 rounded-xl text-sm text-indigo-800">
                     <p className="font-semibold">{selectedProductForAddOverride.name}</p>
                     <p className="mt-1 text-xs text-indigo-700">
-                      מחיר מינימלי: {formatPrice(selectedProductForAddOverride.minimumPrice)}
+                      {t('override.minimumPrice', { price: formatPrice(selectedProductForAddOverride.minimumPrice) })}
+                    </p>
+                    <p className="mt-1 text-xs text-indigo-700">
+                      {t('override.basePrice', { price: formatPrice(selectedProductForAddOverride.price) })}
                     </p>
-                    <p className="mt-1 text-xs text-indigo-700">מחיר בסיס: {formatPrice(selectedProductForAddOverride.price)}</p>
                   </div>
                 )}
               </div>
 
               <div>
                 <label htmlFor="customer-detail-add-override-price" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מחיר מותאם *
+                  {t('override.price')} *
                 </label>
                 <div className="relative">
-                  <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                  <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                   <input
                     id="customer-detail-add-override-price"
                     name="overridePrice"
@@ -1285,7 +1302,7 @@ export default function CustomerDetailPage() {
                         setAddOverrideFieldErrors((prev) => ({ ...prev, overridePrice: '' }));
                       }
                     }}
-                    className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all ${
+                    className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all ${
                       showAddOverrideErrors && addOverrideFieldErrors.overridePrice ? 'border-red-400 focus:ring-red-400/50' : ''
                     }`}
                     placeholder="0.00"
@@ -1305,14 +1322,14 @@ export default function CustomerDetailPage() {
                   disabled={isSubmittingAddOverride}
                   className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800"
                 >
-                  ביטול
+                  {t('common.cancel')}
                 </button>
                 <button
                   type="submit"
                   disabled={isSubmittingAddOverride}
                   className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 border border-indigo-700 disabled:opacity-50"
                 >
-                  {isSubmittingAddOverride ? 'יוצר...' : 'צור מחיר מיוחד'}
+                  {isSubmittingAddOverride ? t('common.creating') : t('override.create')}
                 </button>
               </div>
             </form>
@@ -1323,7 +1340,6 @@ export default function CustomerDetailPage() {
       {overrideToEdit && (
         <div
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm"
-          dir="rtl"
           {...overrideEditBackdropProps}
         >
           <div
@@ -1331,16 +1347,16 @@ export default function CustomerDetailPage() {
             {...overrideEditContentProps}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-bold text-gray-800">עריכת מחיר מיוחד</h2>
+              <h2 className="text-lg font-bold text-gray-800">{t('override.editTitle')}</h2>
               <CloseButton onClick={handleCloseOverrideEditModal} />
             </div>
 
             <div className="mb-4 p-4 bg-gray-100/50 rounded-xl space-y-2">
               <p className="text-sm text-gray-700">
-                <span className="font-semibold">מוצר:</span> {getOverrideProductName(overrideToEdit.productId)}
+                <span className="font-semibold">{t('override.productLabel')}</span> {getOverrideProductName(overrideToEdit.productId)}
               </p>
               <p className="text-sm text-gray-700">
-                <span className="font-semibold">מחיר מקורי:</span>{' '}
+                <span className="font-semibold">{t('override.originalPrice')}</span>{' '}
                 {formatPrice(getOverrideCatalogPrice(overrideToEdit.productId, overrideToEdit.productPrice))}
               </p>
             </div>
@@ -1354,10 +1370,10 @@ export default function CustomerDetailPage() {
             <form onSubmit={handleSubmitOverrideEdit} className="space-y-3.5" noValidate>
               <div>
                 <label htmlFor="customer-detail-override-price" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מחיר מותאם חדש *
+                  {t('override.newPrice')} *
                 </label>
                 <div className="relative">
-                  <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                  <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                   <input
                     id="customer-detail-override-price"
                     name="overridePrice"
@@ -1383,7 +1399,7 @@ export default function CustomerDetailPage() {
                         setOverridePriceFieldError('');
                       }
                     }}
-                    className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all ${
+                    className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all ${
                       showOverrideEditErrors && overridePriceFieldError ? 'border-red-400 focus:ring-red-400/50' : ''
                     }`}
                     placeholder="0.00"
@@ -1403,14 +1419,14 @@ export default function CustomerDetailPage() {
                   disabled={isSubmittingOverride}
                   className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800"
                 >
-                  ביטול
+                  {t('common.cancel')}
                 </button>
                 <button
                   type="submit"
                   disabled={isSubmittingOverride}
                   className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 border border-indigo-700 disabled:opacity-50"
                 >
-                  {isSubmittingOverride ? 'מעדכן...' : 'שמור'}
+                  {isSubmittingOverride ? t('common.updating') : t('common.save')}
                 </button>
               </div>
             </form>
@@ -1423,9 +1439,9 @@ export default function CustomerDetailPage() {
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
           {...overrideDeleteBackdropProps}
         >
-          <div className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/85" {...overrideDeleteContentProps} dir="rtl">
+          <div className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/85" {...overrideDeleteContentProps}>
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-bold text-gray-800">מחק מחיר מיוחד</h2>
+              <h2 className="text-lg font-bold text-gray-800">{t('override.delete')}</h2>
               <button
                 type="button"
                 onClick={() => setOverrideToDelete(null)}
@@ -1439,17 +1455,17 @@ export default function CustomerDetailPage() {
             </div>
 
             <div className="mb-6">
-              <p className="text-gray-700 mb-4">האם אתה בטוח שברצונך למחוק את המחיר המיוחד הזה?</p>
+              <p className="text-gray-700 mb-4">{t('override.deleteConfirm')}</p>
               <div className="p-4 bg-gray-100/50 rounded-xl space-y-2 text-sm text-gray-600">
                 <p>
-                  <span className="font-semibold">מוצר:</span> {getOverrideProductName(overrideToDelete.productId)}
+                  <span className="font-semibold">{t('override.productLabel')}</span> {getOverrideProductName(overrideToDelete.productId)}
                 </p>
                 <p>
-                  <span className="font-semibold">מחיר מקורי:</span>{' '}
+                  <span className="font-semibold">{t('override.originalPrice')}</span>{' '}
                   {formatPrice(getOverrideCatalogPrice(overrideToDelete.productId, overrideToDelete.productPrice))}
                 </p>
                 <p>
-                  <span className="font-semibold">מחיר מותאם:</span> {formatPrice(overrideToDelete.overridePrice)}
+                  <span className="font-semibold">{t('override.overridePriceLabel')}</span> {formatPrice(overrideToDelete.overridePrice)}
                 </p>
               </div>
             </div>
@@ -1461,7 +1477,7 @@ export default function CustomerDetailPage() {
                 disabled={isDeletingOverride}
                 className="glass-button flex-1 py-2 px-4 rounded-xl text-sm font-semibold text-gray-800 disabled:opacity-50"
               >
-                ביטול
+                {t('common.cancel')}
               </button>
               <button
                 type="button"
@@ -1469,7 +1485,7 @@ export default function CustomerDetailPage() {
                 disabled={isDeletingOverride}
                 className="glass-button flex-1 py-2 px-4 rounded-xl text-sm font-semibold text-white bg-red-600 hover:bg-red-700 border-red-700 disabled:opacity-50"
               >
-                {isDeletingOverride ? 'מוחק...' : 'מחק'}
+                {isDeletingOverride ? t('common.deleting') : t('common.delete')}
               </button>
             </div>
           </div>
@@ -1480,6 +1496,7 @@ export default function CustomerDetailPage() {
         <OrderViewModal
           order={viewingOrder}
           onClose={() => setViewingOrder(null)}
+          loadActivity={orderAPI.getOrderActivity}
           invoiceDocuments={
             viewingOrder.status === 'DONE'
               ? {
@@ -1519,19 +1536,21 @@ export default function CustomerDetailPage() {
 
       {showCancelConfirm && orderIdPendingCancel && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" {...cancelConfirmBackdropProps}>
-          <div className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90 shadow-xl border border-red-100" {...cancelConfirmContentProps} dir="rtl">
+          <div className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90 shadow-xl border border-red-100" {...cancelConfirmContentProps}>
             <div className="flex items-center justify-between mb-4">
-              <div><h2 className="text-lg font-semibold text-gray-900">בטל הזמנה?</h2></div>
+              <div><h2 className="text-lg font-semibold text-gray-900">{t('orders.cancel.title')}</h2></div>
               <button onClick={() => !cancellingOrderId && setShowCancelConfirm(false)} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
                 <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
               </button>
             </div>
-            <p className="text-sm text-gray-600 mb-6 leading-relaxed font-medium">ביטול יסיר את ההזמנה מהתור הפעיל. אתה תמיד יכול ליצור הזמנה חדשה מאוחר יותר אם תשנה את דעתך.</p>
+            <p className="text-sm text-gray-600 mb-6 leading-relaxed font-medium">{t('orders.page.cancelBody')}</p>
             <div className="border-t border-gray-200/70 -mx-6 md:-mx-8 mb-4" />
             <div className="flex justify-start gap-3">
-              <button onClick={() => !cancellingOrderId && setShowCancelConfirm(false)} className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all">שמור הזמנה</button>
+              <button onClick={() => !cancellingOrderId && setShowCancelConfirm(false)} className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all">
+                {t('orders.cancel.keep')}
+              </button>
               <button onClick={() => handleCancelOrder(orderIdPendingCancel)} disabled={!!cancellingOrderId} className={`glass-button px-4 py-2 rounded-xl text-sm font-semibold transition-all flex items-center gap-2 border ${cancellingOrderId ? 'text-gray-400 border-gray-300 cursor-not-allowed' : 'text-red-600 border-red-600 bg-red-50 hover:shadow-lg'}`}>
-                {cancellingOrderId ? 'מבטל...' : 'בטל הזמנה'}
+                {cancellingOrderId ? t('orders.page.cancelling') : t('orders.cancel.confirm')}
               </button>
             </div>
           </div>
@@ -1540,11 +1559,13 @@ export default function CustomerDetailPage() {
 
       {discountOrder && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" {...discountModalBackdropProps}>
-          <div className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90 shadow-xl border border-purple-100" {...discountModalContentProps} dir="rtl">
+          <div className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90 shadow-xl border border-purple-100" {...discountModalContentProps}>
             <div className="flex items-center justify-between mb-4">
               <div>
-                <h2 className="text-lg font-semibold text-gray-900">הוסף הנחה</h2>
-                <p className="text-sm text-gray-600 mt-1">הזמנה #{discountOrder.id.slice(0, 8)}</p>
+                <h2 className="text-lg font-semibold text-gray-900">{t('orders.page.discountModal.title')}</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  {t('orders.page.discountModal.order', { id: discountOrder.id.slice(0, 8) })}
+                </p>
               </div>
               <button onClick={() => { if (!isUpdatingDiscount) { setDiscountOrder(null); setDiscountValue(''); setDiscountMode('number'); } }} disabled={isUpdatingDiscount} className="p-2 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-50">
                 <svg className="w-6 h-6 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
@@ -1556,18 +1577,26 @@ export default function CustomerDetailPage() {
                 return (
                   <div className="p-3 bg-indigo-50 border border-indigo-200 rounded-xl">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium text-indigo-700">סכום הזמנה:</span>
+                      <span className="text-sm font-medium text-indigo-700">{t('orders.page.discountModal.orderTotal')}</span>
                       <span className="text-lg font-bold text-indigo-900">{formatPrice(productsTotal)}</span>
                     </div>
                   </div>
                 );
               })()}
               <div className="flex items-center justify-center gap-3 p-2 bg-gray-50 rounded-xl border border-gray-200">
-                <button type="button" onClick={() => { setDiscountMode('number'); setDiscountValue(''); setError(''); }} className={`flex-1 px-4 py-2 rounded-lg font-semibold text-sm transition-all ${discountMode === 'number' ? 'bg-purple-600 text-white shadow-md' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>סכום (₪)</button>
-                <button type="button" onClick={() => { setDiscountMode('percentage'); setDiscountValue(''); setError(''); }} className={`flex-1 px-4 py-2 rounded-lg font-semibold text-sm transition-all ${discountMode === 'percentage' ? 'bg-purple-600 text-white shadow-md' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>אחוז (%)</button>
+                <button type="button" onClick={() => { setDiscountMode('number'); setDiscountValue(''); setError(''); }} className={`flex-1 px-4 py-2 rounded-lg font-semibold text-sm transition-all ${discountMode === 'number' ? 'bg-purple-600 text-white shadow-md' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>
+                  {t('orders.page.discountModal.amountMode')}
+                </button>
+                <button type="button" onClick={() => { setDiscountMode('percentage'); setDiscountValue(''); setError(''); }} className={`flex-1 px-4 py-2 rounded-lg font-semibold text-sm transition-all ${discountMode === 'percentage' ? 'bg-purple-600 text-white shadow-md' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>
+                  {t('orders.page.discountModal.percentMode')}
+                </button>
               </div>
               <div>
-                <label htmlFor="discount-input-customer" className="block text-sm font-medium text-gray-700 mb-2">{discountMode === 'number' ? 'סכום הנחה (₪)' : 'אחוז הנחה (%)'}</label>
+                <label htmlFor="discount-input-customer" className="block text-sm font-medium text-gray-700 mb-2">
+                  {discountMode === 'number'
+                    ? t('orders.page.discountModal.amountLabel')
+                    : t('orders.page.discountModal.percentLabel')}
+                </label>
                 <div className="relative">
                   <input id="discount-input-customer" type="number" step={discountMode === 'number' ? '0.01' : '0.1'} min="0" value={discountValue} onChange={(e) => {
                     const value = e.target.value;
@@ -1597,9 +1626,11 @@ export default function CustomerDetailPage() {
               </div>
               {error && <div className="p-3 bg-red-50 border border-red-200 rounded-xl"><p className="text-sm text-red-600">{error}</p></div>}
               <div className="flex justify-start gap-3">
-                <button onClick={() => { if (!isUpdatingDiscount) { setDiscountOrder(null); setDiscountValue(''); setDiscountMode('number'); } }} disabled={isUpdatingDiscount} className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all disabled:opacity-50">ביטול</button>
+                <button onClick={() => { if (!isUpdatingDiscount) { setDiscountOrder(null); setDiscountValue(''); setDiscountMode('number'); } }} disabled={isUpdatingDiscount} className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all disabled:opacity-50">
+                  {t('common.cancel')}
+                </button>
                 <button onClick={handleUpdateDiscount} disabled={isUpdatingDiscount || !discountValue || parseFloat(discountValue) < 0 || (discountMode === 'percentage' && parseFloat(discountValue) > 100)} className={`glass-button px-4 py-2 rounded-xl text-sm font-semibold transition-all flex items-center gap-2 border ${isUpdatingDiscount || !discountValue || parseFloat(discountValue) < 0 || (discountMode === 'percentage' && parseFloat(discountValue) > 100) ? 'text-gray-400 border-gray-300 cursor-not-allowed' : 'text-purple-600 border-purple-600 bg-purple-50 hover:shadow-lg'}`}>
-                  {isUpdatingDiscount ? 'מעדכן...' : 'עדכן הנחה'}
+                  {isUpdatingDiscount ? t('common.updating') : t('customerDetail.updateDiscount')}
                 </button>
               </div>
             </div>
@@ -5,12 +5,16 @@ import { useNavigate } from 'react-router-dom';
 import { customerAPI, agentAPI } from '../services/api';
 import type { Customer, Agent } from '../services/api';
 import PaginationBar from '../components/PaginationBar';
+import AddressAutocompleteInput from '../components/AddressAutocompleteInput';
+import AddressNormalizationModal from '../components/AddressNormalizationModal';
 import {
   validateEmail,
   validateRequiredWithMaxLength,
   validatePhoneNumberDigitsOnly,
   validateDiscountPercentage,
+  validateStateIdNumber,
 } from '../utils/validation';
+import { getDir, t } from '../utils/i18n';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
 import { resolveApiErr } from '../utils/apiErrorMessage';
 
@@ -31,6 +35,7 @@ export default function CustomersPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isNormalizeModalOpen, setIsNormalizeModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [customerToEdit, setCustomerToEdit] = useState<Customer | null>(null);
@@ -221,7 +226,7 @@ export default function CustomersPage() {
   };
 
   const handleConfirmDelete = async () => {
-    if (!customerToDelete || deleteConfirmText !== 'אני מבין') {
+    if (!customerToDelete || deleteConfirmText !== t('customerDelete.phrase')) {
       return;
     }
 
@@ -278,13 +283,27 @@ export default function CustomersPage() {
     }
   };
 
+  const handleAddressChange = (name: 'streetAddress' | 'city', value: string) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (showErrors && fieldErrors[name]) {
+      setFieldErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const handleEditAddressChange = (name: 'streetAddress' | 'city', value: string) => {
+    setEditFormData(prev => ({ ...prev, [name]: value }));
+    if (showErrors && fieldErrors[name]) {
+      setFieldErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setFormError('');
     setShowErrors(true);
 
     const errors: Record<string, string> = {};
-    const nameError = validateRequiredWithMaxLength(formData.name, 'שם הלקוח', MAX_CUSTOMER_NAME_LENGTH);
+    const nameError = validateRequiredWithMaxLength(formData.name, t('field.customerName'), MAX_CUSTOMER_NAME_LENGTH);
     if (nameError) {
       errors.name = nameError;
     }
@@ -292,7 +311,7 @@ export default function CustomersPage() {
     const phoneError = validatePhoneNumberDigitsOnly(
       formData.phoneNumber,
       MAX_CUSTOMER_PHONE_LENGTH,
-      'מספר טלפון'
+      t('field.phone')
     );
     if (phoneError) {
       errors.phoneNumber = phoneError;
@@ -305,33 +324,24 @@ export default function CustomersPage() {
 
     const streetError = validateRequiredWithMaxLength(
       formData.streetAddress,
-      'כתובת',
+      t('field.address'),
       MAX_CUSTOMER_STREET_LENGTH
     );
     if (streetError) {
       errors.streetAddress = streetError;
     }
 
-    const cityError = validateRequiredWithMaxLength(formData.city, 'עיר', MAX_CUSTOMER_CITY_LENGTH);
+    const cityError = validateRequiredWithMaxLength(formData.city, t('field.city'), MAX_CUSTOMER_CITY_LENGTH);
     if (cityError) {
       errors.city = cityError;
     }
 
-    // Validate state ID: exactly 9 digits
-    let stateIdError: string | null = null;
-    const trimmedStateId = formData.stateId.trim();
-    if (!trimmedStateId) {
-      stateIdError = 'ח.פ / ע.מ הוא שדה חובה';
-    } else if (!/^\d+$/.test(trimmedStateId)) {
-      stateIdError = 'ח.פ / ע.מ חייב להכיל ספרות בלבד';
-    } else if (trimmedStateId.length !== 9) {
-      stateIdError = 'ח.פ / ע.מ חייב להכיל בדיוק 9 ספרות';
-    }
+    const stateIdError = validateStateIdNumber(formData.stateId);
     if (stateIdError) {
       errors.stateId = stateIdError;
     }
 
-    const discountError = validateDiscountPercentage(formData.discountPercentage, 'אחוז הנחה');
+    const discountError = validateDiscountPercentage(formData.discountPercentage, t('field.discountPercentage'));
     if (discountError) {
       errors.discountPercentage = discountError;
     }
@@ -368,7 +378,7 @@ export default function CustomersPage() {
     setShowErrors(true);
 
     const errors: Record<string, string> = {};
-    const nameError = validateRequiredWithMaxLength(editFormData.name, 'שם הלקוח', MAX_CUSTOMER_NAME_LENGTH);
+    const nameError = validateRequiredWithMaxLength(editFormData.name, t('field.customerName'), MAX_CUSTOMER_NAME_LENGTH);
     if (nameError) {
       errors.name = nameError;
     }
@@ -376,7 +386,7 @@ export default function CustomersPage() {
     const phoneError = validatePhoneNumberDigitsOnly(
       editFormData.phoneNumber,
       MAX_CUSTOMER_PHONE_LENGTH,
-      'מספר טלפון'
+      t('field.phone')
     );
     if (phoneError) {
       errors.phoneNumber = phoneError;
@@ -389,29 +399,24 @@ export default function CustomersPage() {
 
     const streetError = validateRequiredWithMaxLength(
       editFormData.streetAddress,
-      'כתובת',
+      t('field.address'),
       MAX_CUSTOMER_STREET_LENGTH
     );
     if (streetError) {
       errors.streetAddress = streetError;
     }
 
-    const cityError = validateRequiredWithMaxLength(editFormData.city, 'עיר', MAX_CUSTOMER_CITY_LENGTH);
+    const cityError = validateRequiredWithMaxLength(editFormData.city, t('field.city'), MAX_CUSTOMER_CITY_LENGTH);
     if (cityError) {
       errors.city = cityError;
     }
 
-    // Validate state ID: exactly 9 digits
-    const trimmedEditStateId = editFormData.stateId.trim();
-    if (!trimmedEditStateId) {
-      errors.stateId = 'ח.פ / ע.מ הוא שדה חובה';
-    } else if (!/^\d+$/.test(trimmedEditStateId)) {
-      errors.stateId = 'ח.פ / ע.מ חייב להכיל ספרות בלבד';
-    } else if (trimmedEditStateId.length !== 9) {
-      errors.stateId = 'ח.פ / ע.מ חייב להכיל בדיוק 9 ספרות';
+    const stateIdError = validateStateIdNumber(editFormData.stateId);
+    if (stateIdError) {
+      errors.stateId = stateIdError;
     }
 
-    const discountError = validateDiscountPercentage(editFormData.discountPercentage, 'אחוז הנחה');
+    const discountError = validateDiscountPercentage(editFormData.discountPercentage, t('field.discountPercentage'));
     if (discountError) {
       errors.discountPercentage = discountError;
     }
@@ -484,7 +489,7 @@ export default function CustomersPage() {
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
-          <p className="text-gray-600 font-medium">... טוען לקוחות</p>
+          <p className="text-gray-600 font-medium">{t('customers.loading')}</p>
         </div>
       </div>
     );
@@ -492,9 +497,9 @@ export default function CustomersPage() {
 
   if (error) {
     return (
-      <div className="max-w-4xl mx-auto" dir="rtl">
+      <div className="max-w-4xl mx-auto">
         <div className="glass-card rounded-3xl p-8 bg-red-50/50 border-red-200">
-          <h2 className="text-xl font-bold text-red-800 mb-2">שגיאה בטעינת לקוחות</h2>
+          <h2 className="text-xl font-bold text-red-800 mb-2">{t('customers.loadError')}</h2>
           <p className="text-red-600">{error}</p>
         </div>
       </div>
@@ -502,31 +507,41 @@ export default function CustomersPage() {
   }
 
   return (
-    <div className="max-w-7xl mx-auto space-y-6 pb-28" dir="rtl">
+    <div className="max-w-7xl mx-auto space-y-6 pb-28">
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">לקוחות</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">{t('customers.title')}</h1>
             <p className="text-gray-600 text-sm mt-2">
-              נהל {customers.length} לקוחות ברחבי צוות המכירות שלך.
+              {t('customers.subtitle', { count: customers.length })}
             </p>
           </div>
-          <button
-            onClick={() => setIsAddModalOpen(true)}
-            className="mt-2 md:mt-0 btn-add-indigo"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            <span>הוסף לקוח</span>
-          </button>
+          <div className="mt-2 md:mt-0 flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setIsNormalizeModalOpen(true)}
+              disabled={customers.length === 0}
+              className="glass-button px-4 py-2 rounded-xl text-sm font-medium text-gray-800 hover:bg-white/40 border border-indigo-200 hover:border-indigo-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('customers.normalizeAddresses')}
+            </button>
+            <button
+              onClick={() => setIsAddModalOpen(true)}
+              className="btn-add-indigo"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              <span>{t('customers.add')}</span>
+            </button>
+          </div>
         </div>
       </div>
 
       <div className="glass-card rounded-3xl p-6 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
         <div className="flex flex-wrap items-center gap-4 justify-end">
           <div className="flex items-center gap-2">
-            <span className="text-sm font-medium text-gray-700">הצג:</span>
+            <span className="text-sm font-medium text-gray-700">{t('list.pageSize')}</span>
             <select
               value={pageSize}
               onChange={(e) => handlePageSizeChange(Number(e.target.value))}
@@ -542,23 +557,23 @@ export default function CustomersPage() {
           </div>
 
           <div className="flex items-center gap-2">
-            <span className="text-sm font-medium text-gray-700">מיין:</span>
+            <span className="text-sm font-medium text-gray-700">{t('list.sortBy')}</span>
             <button
               onClick={toggleSortDirection}
               className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800 flex items-center gap-2 border-2 border-gray-400/80 hover:border-gray-500 transition-colors justify-center sm:justify-start whitespace-nowrap"
               aria-pressed={sortDirection === 'DESC'}
-              aria-label={`Sort customers ${sortDirection === 'ASC' ? 'ascending' : 'descending'}`}
+              aria-label={sortDirection === 'ASC' ? t('customers.sortAscending') : t('customers.sortDescending')}
             >
               {sortDirection === 'ASC' ? (
                 <>
-                  <span>א ← ת</span>
+                  <span>{t('list.sort.ascending')}</span>
                   <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                   </svg>
                 </>
               ) : (
                 <>
-                  <span>א → ת</span>
+                  <span>{t('list.sort.descending')}</span>
                   <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
                   </svg>
@@ -568,15 +583,15 @@ export default function CustomersPage() {
           </div>
 
           <div className="flex items-center gap-2">
-            <span className="text-sm font-medium text-gray-700">סוכן:</span>
+            <span className="text-sm font-medium text-gray-700">{t('list.filter.agent')}</span>
             <select
               value={agentFilter}
               onChange={(e) => handleAgentFilterChange(e.target.value)}
               className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer min-w-[12rem]"
               dir="ltr"
             >
-              <option value="all">הכל</option>
-              <option value="manager">אני</option>
+              <option value="all">{t('list.filter.all')}</option>
+              <option value="manager">{t('list.me')}</option>
               {agents.map((agent) => (
                 <option key={agent.id} value={agent.id}>
                   {agent.firstName} {agent.lastName}
@@ -592,11 +607,10 @@ export default function CustomersPage() {
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             maxLength={100}
-            placeholder="חפש לקוחות לפי שם, אימייל, טלפון או סוכן..."
-            className="glass-input w-full pr-11 pl-10 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-gray-300"
-            dir="rtl"
+            placeholder={t('customers.searchPlaceholder')}
+            className="glass-input w-full pe-10 ps-11 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 border border-gray-300"
           />
-          <div className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">
+          <div className="absolute start-3 top-1/2 -translate-y-1/2 text-gray-400">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
             </svg>
@@ -605,8 +619,8 @@ export default function CustomersPage() {
             <button
               type="button"
               onClick={() => setSearchQuery('')}
-              className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-              aria-label="Clear search"
+              className="absolute end-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+              aria-label={t('list.clearSearch')}
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -625,18 +639,18 @@ export default function CustomersPage() {
               </svg>
             </div>
             <h2 className="text-2xl font-bold text-gray-800">
-              {searchQuery || agentFilter !== 'all' ? 'אין לקוחות התואמים למסננים שלך' : 'אין לקוחות עדיין'}
+              {searchQuery || agentFilter !== 'all' ? t('customers.empty.filtered') : t('customers.empty.none')}
             </h2>
             <p className="text-gray-600 max-w-md">
               {searchQuery || agentFilter !== 'all'
-                ? 'נסה להתאים את מילות החיפוש או לאפס את המסננים.'
-                : 'עדיין לא הוספת לקוחות. התחל ביצירת הלקוח הראשון שלך.'}
+                ? t('customers.empty.filteredHint')
+                : t('customers.empty.noneHint')}
             </p>
             <button
               onClick={() => setIsAddModalOpen(true)}
               className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
             >
-              הוסף לקוח
+              {t('customers.add')}
             </button>
           </div>
         </div>
@@ -646,21 +660,21 @@ export default function CustomersPage() {
             <div className="overflow-x-auto">
               <table 
                 className="min-w-full divide-y divide-gray-200"
-                aria-label="טבלת לקוחות"
+                aria-label={t('customers.table.label')}
                 role="table"
               >
                 <caption className="sr-only">
-                  טבלת לקוחות עם פרטי שם, אימייל, טלפון, עיר, סוכן, אחוז הנחה ופעולות
+                  {t('customers.table.caption')}
                 </caption>
                 <thead className="bg-indigo-50/70 backdrop-blur-sm">
                   <tr>
-                    <th scope="col" id="customer-name" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-48 border-l border-gray-200">שם</th>
-                    <th scope="col" id="customer-email" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-64 border-l border-gray-200">אימייל</th>
-                    <th scope="col" id="customer-phone" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-32 border-l border-gray-200">טלפון</th>
-                    <th scope="col" id="customer-city" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-40 border-l border-gray-200">עיר</th>
-                    <th scope="col" id="customer-agent" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-40 border-l border-gray-200">סוכן</th>
-                    <th scope="col" id="customer-discount" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-28 border-l border-gray-200">אחוז הנחה</th>
-                    <th scope="col" id="customer-actions" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-32 border-l border-gray-200">פעולות</th>
+                    <th scope="col" id="customer-name" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-48 border-e border-gray-200">{t('customers.column.name')}</th>
+                    <th scope="col" id="customer-email" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-64 border-e border-gray-200">{t('customers.column.email')}</th>
+                    <th scope="col" id="customer-phone" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-32 border-e border-gray-200">{t('customers.column.phone')}</th>
+                    <th scope="col" id="customer-city" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-40 border-e border-gray-200">{t('customers.column.city')}</th>
+                    <th scope="col" id="customer-agent" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-40 border-e border-gray-200">{t('customers.column.agent')}</th>
+                    <th scope="col" id="customer-discount" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-28 border-e border-gray-200">{t('customers.column.discount')}</th>
+                    <th scope="col" id="customer-actions" className="px-6 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wide w-32 border-e border-gray-200">{t('customers.column.actions')}</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-100">
@@ -671,42 +685,42 @@ export default function CustomersPage() {
                         className="hover:bg-indigo-50/50 transition-colors cursor-pointer"
                         onClick={() => navigate(`/dashboard/customers/${customer.id}`)}
                       >
-                        <td className="px-6 py-4 text-right border-l border-gray-200" headers="customer-name">
+                        <td className="px-6 py-4 text-start border-e border-gray-200" headers="customer-name">
                           <span className="text-sm font-semibold text-gray-900 truncate block max-w-[12rem]" title={customer.name}>
                             {customer.name}
                           </span>
                         </td>
-                        <td className="px-6 py-4 text-sm text-gray-700 text-right border-l border-gray-200" headers="customer-email">
+                        <td className="px-6 py-4 text-sm text-gray-700 text-start border-e border-gray-200" headers="customer-email">
                           <span className="truncate block max-w-[16rem]" title={customer.email}>
                             {customer.email}
                           </span>
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right border-l border-gray-200" headers="customer-phone">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-start border-e border-gray-200" headers="customer-phone">
                           {formatPhoneNumber(customer.phoneNumber)}
                         </td>
-                        <td className="px-6 py-4 text-sm text-gray-700 text-right border-l border-gray-200" headers="customer-city">
+                        <td className="px-6 py-4 text-sm text-gray-700 text-start border-e border-gray-200" headers="customer-city">
                           <span className="truncate block max-w-[10rem]" title={customer.city}>
                             {customer.city}
                           </span>
                         </td>
-                        <td className="px-6 py-4 text-sm text-gray-700 text-right border-l border-gray-200" headers="customer-agent">
-                          <span className="truncate block max-w-[10rem]" title={customer.agentId != null ? (agentNameMap.get(customer.agentId) ?? 'סוכן לא ידוע') : 'אני'}>
+                        <td className="px-6 py-4 text-sm text-gray-700 text-start border-e border-gray-200" headers="customer-agent">
+                          <span className="truncate block max-w-[10rem]" title={customer.agentId != null ? (agentNameMap.get(customer.agentId) ?? t('list.unknownAgent')) : t('list.me')}>
                             {customer.agentId != null
-                              ? agentNameMap.get(customer.agentId) ?? 'סוכן לא ידוע'
-                              : 'אני'}
+                              ? agentNameMap.get(customer.agentId) ?? t('list.unknownAgent')
+                              : t('list.me')}
                           </span>
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-center font-medium border-l border-gray-200" headers="customer-discount">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-center font-medium border-e border-gray-200" headers="customer-discount">
                           {customer.discountPercentage}%
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-center border-l border-gray-200" headers="customer-actions">
+                        <td className="px-6 py-4 whitespace-nowrap text-center border-e border-gray-200" headers="customer-actions">
                           {customer.agentId == null ? (
-                            <div className="inline-flex items-center gap-2" role="group" aria-label={`פעולות עבור לקוח ${customer.name}`}>
+                            <div className="inline-flex items-center gap-2" role="group" aria-label={t('customers.actionsFor', { name: customer.name })}>
                               <button
                                 type="button"
                                 onClick={(e) => { e.stopPropagation(); handleEditCustomer(customer); }}
                                 className="glass-button p-2 rounded-lg text-sm font-semibold text-gray-800 border border-indigo-200 hover:border-indigo-300 transition-colors inline-flex items-center justify-center focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-                                aria-label={`ערוך לקוח ${customer.name}`}
+                                aria-label={t('customers.editNamed', { name: customer.name })}
                               >
                                 <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 4H6a2 2 0 00-2 2v12a2 2 0 002 2h12a2 2 0 002-2v-5M18.5 2.5a2.121 2.121 0 113 3L12 15l-4 1 1-4 9.5-9.5z" />
@@ -716,7 +730,7 @@ export default function CustomersPage() {
                                 type="button"
                                 onClick={(e) => { e.stopPropagation(); handleDeleteCustomer(customer); }}
                                 className="glass-button p-2 rounded-lg text-sm font-semibold text-red-600 border border-red-200 hover:border-red-300 transition-colors inline-flex items-center justify-center focus-visible:outline-3 focus-visible:outline-red-600 focus-visible:outline-offset-2"
-                                aria-label={`מחק לקוח ${customer.name}`}
+                                aria-label={t('customers.deleteNamed', { name: customer.name })}
                               >
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3" />
@@ -744,14 +758,21 @@ export default function CustomersPage() {
         onPageChange={setCurrentPage}
         maxWidth="max-w-5xl"
         showCondition={filteredCustomers.length > pageSize}
-        rtl={true}
+        rtl={getDir() === 'rtl'}
+      />
+
+      <AddressNormalizationModal
+        isOpen={isNormalizeModalOpen}
+        onClose={() => setIsNormalizeModalOpen(false)}
+        customers={customers}
+        updateCustomer={customerAPI.updateCustomer}
+        onUpdated={(updated) => setCustomers((prev) => prev.map((c) => (c.id === updated.id ? updated : c)))}
       />
 
       {/* Add Customer Modal */}
       {isAddModalOpen && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...addModalBackdropProps}
         >
@@ -760,7 +781,7 @@ export default function CustomersPage() {
             {...addModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">הוסף לקוח חדש</h2>
+              <h2 className="modal-header-title">{t('customerForm.addTitle')}</h2>
               <CloseButton onClick={handleCloseModal} />
             </div>
 
@@ -773,7 +794,7 @@ export default function CustomersPage() {
             <form onSubmit={handleSubmit} noValidate className="space-y-3.5">
               <div>
                 <label htmlFor="name" className="form-label">
-                  שם הלקוח *
+                  {t('field.customerName')} *
                 </label>
                 <input
                   id="name"
@@ -783,7 +804,7 @@ export default function CustomersPage() {
                   onChange={handleInputChange}
                   maxLength={MAX_CUSTOMER_NAME_LENGTH}
                   className={`form-input text-center ${showErrors && fieldErrors.name ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: יוחנן כהן"
+                  placeholder={t('customerForm.namePlaceholder')}
                   autoFocus
                 />
                 {showErrors && fieldErrors.name && (
@@ -793,7 +814,7 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="phoneNumber" className="form-label">
-                  מספר טלפון *
+                  {t('field.phone')} *
                 </label>
                 <input
                   id="phoneNumber"
@@ -805,7 +826,7 @@ export default function CustomersPage() {
                   inputMode="numeric"
                   pattern="[0-9]*"
                   className={`form-input text-center ${showErrors && fieldErrors.phoneNumber ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: 0501234567"
+                  placeholder={t('customerForm.phonePlaceholder')}
                   dir="ltr"
                 />
                 {showErrors && fieldErrors.phoneNumber && (
@@ -815,7 +836,7 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="email" className="form-label">
-                  כתובת אימייל *
+                  {t('customerForm.email')} *
                 </label>
                 <input
                   id="email"
@@ -825,7 +846,7 @@ export default function CustomersPage() {
                   onChange={handleInputChange}
                   maxLength={MAX_CUSTOMER_EMAIL_LENGTH}
                   className={`form-input text-center ${showErrors && fieldErrors.email ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: yohanan@example.com"
+                  placeholder={t('customerForm.emailPlaceholder')}
                   dir="ltr"
                 />
                 {showErrors && fieldErrors.email && (
@@ -835,17 +856,18 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="streetAddress" className="form-label">
-                  כתובת *
+                  {t('field.address')} *
                 </label>
-                <input
+                <AddressAutocompleteInput
+                  kind="street"
+                  city={formData.city}
                   id="streetAddress"
                   name="streetAddress"
-                  type="text"
                   value={formData.streetAddress}
-                  onChange={handleInputChange}
+                  onValueChange={(value) => handleAddressChange('streetAddress', value)}
                   maxLength={MAX_CUSTOMER_STREET_LENGTH}
                   className={`form-input text-center ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: רחוב הרצל 123"
+                  placeholder={t('customerForm.streetPlaceholder')}
                 />
                 {showErrors && fieldErrors.streetAddress && (
                   <p className="text-red-500 text-xs mt-1">{fieldErrors.streetAddress}</p>
@@ -854,17 +876,17 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="city" className="form-label">
-                  עיר *
+                  {t('field.city')} *
                 </label>
-                <input
+                <AddressAutocompleteInput
+                  kind="city"
                   id="city"
                   name="city"
-                  type="text"
                   value={formData.city}
-                  onChange={handleInputChange}
+                  onValueChange={(value) => handleAddressChange('city', value)}
                   maxLength={MAX_CUSTOMER_CITY_LENGTH}
                   className={`form-input text-center ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: תל אביב"
+                  placeholder={t('customerForm.cityPlaceholder')}
                 />
                 {showErrors && fieldErrors.city && (
                   <p className="text-red-500 text-xs mt-1">{fieldErrors.city}</p>
@@ -873,7 +895,7 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="stateId" className="form-label">
-                  ח.פ / ע.מ *
+                  {t('field.stateId')} *
                 </label>
                 <input
                   id="stateId"
@@ -891,12 +913,12 @@ export default function CustomersPage() {
                 {showErrors && fieldErrors.stateId && (
                   <p className="text-red-500 text-xs mt-1">{fieldErrors.stateId}</p>
                 )}
-                <p className="text-xs text-gray-500 mt-1">הזן בדיוק 9 ספרות</p>
+                <p className="text-xs text-gray-500 mt-1">{t('customerForm.stateIdHint')}</p>
               </div>
 
               <div>
                 <label htmlFor="discountPercentage" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  אחוז הנחה
+                  {t('field.discountPercentage')}
                 </label>
                 <div className="space-y-2">
                   <div className="flex items-center gap-3">
@@ -904,7 +926,7 @@ export default function CustomersPage() {
                     <div className="flex-1 relative h-2.5">
                       <div className="absolute top-0 left-0 w-full h-full rounded-lg bg-gray-200 -z-10" />
                       <div 
-                        className="absolute top-0 right-0 h-full rounded-lg bg-indigo-600"
+                        className="absolute top-0 start-0 h-full rounded-lg bg-indigo-600"
                         style={{
                           width: `${formData.discountPercentage}%`
                         }}
@@ -920,7 +942,7 @@ export default function CustomersPage() {
                         className="absolute top-0 left-0 w-full h-full bg-transparent appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-indigo-600 [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-md [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:duration-200 [&:hover::-webkit-slider-thumb]:w-6 [&:hover::-webkit-slider-thumb]:h-6 [&:active::-webkit-slider-thumb]:w-7 [&:active::-webkit-slider-thumb]:h-7 [&::-moz-range-thumb]:w-5 [&::-moz-range-thumb]:h-5 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-indigo-600 [&::-moz-range-thumb]:cursor-pointer [&::-moz-range-thumb]:shadow-md [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:border-none [&::-moz-range-thumb]:transition-all [&::-moz-range-thumb]:duration-200 [&:hover::-moz-range-thumb]:w-6 [&:hover::-moz-range-thumb]:h-6 [&:active::-moz-range-thumb]:w-7 [&:active::-moz-range-thumb]:h-7"
                       />
                     </div>
-                    <span className="text-xs font-medium text-gray-500 w-8 text-right">100%</span>
+                    <span className="text-xs font-medium text-gray-500 w-8 text-end">100%</span>
                     <div className="flex items-center gap-1.5 bg-indigo-50 px-3 py-1.5 rounded-lg border border-indigo-200 min-w-[4.5rem]">
                       <input
                         name="discountPercentage"
@@ -938,7 +960,7 @@ export default function CustomersPage() {
                     </div>
                   </div>
                   {showErrors && fieldErrors.discountPercentage && (
-                    <p className="text-red-500 text-xs ml-9">{fieldErrors.discountPercentage}</p>
+                    <p className="text-red-500 text-xs ms-9">{fieldErrors.discountPercentage}</p>
                   )}
                 </div>
               </div>
@@ -953,7 +975,7 @@ export default function CustomersPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -963,14 +985,14 @@ export default function CustomersPage() {
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>יוצר...</span>
+                      <span>{t('common.creating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>צור לקוח</span>
+                      <span>{t('customerForm.create')}</span>
                     </>
                   )}
                 </button>
@@ -984,7 +1006,6 @@ export default function CustomersPage() {
       {isEditModalOpen && customerToEdit && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...editModalBackdropProps}
         >
@@ -993,7 +1014,7 @@ export default function CustomersPage() {
             {...editModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">ערוך לקוח</h2>
+              <h2 className="modal-header-title">{t('customerForm.editTitle')}</h2>
               <CloseButton onClick={handleCloseEditModal} />
             </div>
 
@@ -1006,7 +1027,7 @@ export default function CustomersPage() {
             <form onSubmit={handleEditSubmit} noValidate className="space-y-3.5">
               <div>
                 <label htmlFor="editName" className="form-label">
-                  שם הלקוח *
+                  {t('field.customerName')} *
                 </label>
                 <input
                   id="editName"
@@ -1016,7 +1037,7 @@ export default function CustomersPage() {
                   onChange={handleEditInputChange}
                   maxLength={MAX_CUSTOMER_NAME_LENGTH}
                   className={`form-input text-center ${showErrors && fieldErrors.name ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: יוחנן כהן"
+                  placeholder={t('customerForm.namePlaceholder')}
                   autoFocus
                 />
                 {showErrors && fieldErrors.name && (
@@ -1026,7 +1047,7 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="editPhoneNumber" className="form-label">
-                  מספר טלפון *
+                  {t('field.phone')} *
                 </label>
                 <input
                   id="editPhoneNumber"
@@ -1038,7 +1059,7 @@ export default function CustomersPage() {
                   inputMode="numeric"
                   pattern="[0-9]*"
                   className={`form-input text-center ${showErrors && fieldErrors.phoneNumber ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: 0501234567"
+                  placeholder={t('customerForm.phonePlaceholder')}
                   dir="ltr"
                 />
                 {showErrors && fieldErrors.phoneNumber && (
@@ -1048,7 +1069,7 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="editEmail" className="form-label">
-                  כתובת אימייל *
+                  {t('customerForm.email')} *
                 </label>
                 <input
                   id="editEmail"
@@ -1058,7 +1079,7 @@ export default function CustomersPage() {
                   onChange={handleEditInputChange}
                   maxLength={MAX_CUSTOMER_EMAIL_LENGTH}
                   className={`form-input text-center ${showErrors && fieldErrors.email ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: yohanan@example.com"
+                  placeholder={t('customerForm.emailPlaceholder')}
                   dir="ltr"
                 />
                 {showErrors && fieldErrors.email && (
@@ -1068,17 +1089,18 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="editStreetAddress" className="form-label">
-                  כתובת *
+                  {t('field.address')} *
                 </label>
-                <input
+                <AddressAutocompleteInput
+                  kind="street"
+                  city={editFormData.city}
                   id="editStreetAddress"
                   name="streetAddress"
-                  type="text"
                   value={editFormData.streetAddress}
-                  onChange={handleEditInputChange}
+                  onValueChange={(value) => handleEditAddressChange('streetAddress', value)}
                   maxLength={MAX_CUSTOMER_STREET_LENGTH}
                   className={`form-input text-center ${showErrors && fieldErrors.streetAddress ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: רחוב הרצל 123"
+                  placeholder={t('customerForm.streetPlaceholder')}
                 />
                 {showErrors && fieldErrors.streetAddress && (
                   <p className="text-red-500 text-xs mt-1">{fieldErrors.streetAddress}</p>
@@ -1087,17 +1109,17 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="editCity" className="form-label">
-                  עיר *
+                  {t('field.city')} *
                 </label>
-                <input
+                <AddressAutocompleteInput
+                  kind="city"
                   id="editCity"
                   name="city"
-                  type="text"
                   value={editFormData.city}
-                  onChange={handleEditInputChange}
+                  onValueChange={(value) => handleEditAddressChange('city', value)}
                   maxLength={MAX_CUSTOMER_CITY_LENGTH}
                   className={`form-input text-center ${showErrors && fieldErrors.city ? 'form-input-error' : ''}`}
-                  placeholder="לדוגמה: תל אביב"
+                  placeholder={t('customerForm.cityPlaceholder')}
                 />
                 {showErrors && fieldErrors.city && (
                   <p className="text-red-500 text-xs mt-1">{fieldErrors.city}</p>
@@ -1106,7 +1128,7 @@ export default function CustomersPage() {
 
               <div>
                 <label htmlFor="editStateId" className="form-label">
-                  ח.פ / ע.מ *
+                  {t('field.stateId')} *
                 </label>
                 <input
                   id="editStateId"
@@ -1124,12 +1146,12 @@ export default function CustomersPage() {
                 {showErrors && fieldErrors.stateId && (
                   <p className="text-red-500 text-xs mt-1">{fieldErrors.stateId}</p>
                 )}
-                <p className="text-xs text-gray-500 mt-1">הזן בדיוק 9 ספרות</p>
+                <p className="text-xs text-gray-500 mt-1">{t('customerForm.stateIdHint')}</p>
               </div>
 
               <div>
                 <label htmlFor="editDiscountPercentage" className="block text-sm font-medium text-gray-700 mb-2">
-                  אחוז הנחה
+                  {t('field.discountPercentage')}
                 </label>
                 <div className="space-y-2">
                   <div className="flex items-center gap-3">
@@ -1137,7 +1159,7 @@ export default function CustomersPage() {
                     <div className="flex-1 relative h-2.5">
                       <div className="absolute top-0 left-0 w-full h-full rounded-lg bg-gray-200 -z-10" />
                       <div 
-                        className="absolute top-0 right-0 h-full rounded-lg bg-indigo-600"
+                        className="absolute top-0 start-0 h-full rounded-lg bg-indigo-600"
                         style={{
                           width: `${editFormData.discountPercentage}%`
                         }}
@@ -1153,7 +1175,7 @@ export default function CustomersPage() {
                         className="absolute top-0 left-0 w-full h-full bg-transparent appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-indigo-600 [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-md [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-white [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:duration-200 [&:hover::-webkit-slider-thumb]:w-6 [&:hover::-webkit-slider-thumb]:h-6 [&:active::-webkit-slider-thumb]:w-7 [&:active::-webkit-slider-thumb]:h-7 [&::-moz-range-thumb]:w-5 [&::-moz-range-thumb]:h-5 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-indigo-600 [&::-moz-range-thumb]:cursor-pointer [&::-moz-range-thumb]:shadow-md [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-white [&::-moz-range-thumb]:border-none [&::-moz-range-thumb]:transition-all [&::-moz-range-thumb]:duration-200 [&:hover::-moz-range-thumb]:w-6 [&:hover::-moz-range-thumb]:h-6 [&:active::-moz-range-thumb]:w-7 [&:active::-moz-range-thumb]:h-7"
                       />
                     </div>
-                    <span className="text-xs font-medium text-gray-500 w-8 text-right">100%</span>
+                    <span className="text-xs font-medium text-gray-500 w-8 text-end">100%</span>
                     <div className="flex items-center gap-1.5 bg-indigo-50 px-3 py-1.5 rounded-lg border border-indigo-200 min-w-[4.5rem]">
                       <input
                         name="discountPercentage"
@@ -1171,7 +1193,7 @@ export default function CustomersPage() {
                     </div>
                   </div>
                   {showErrors && fieldErrors.discountPercentage && (
-                    <p className="text-red-500 text-xs ml-9">{fieldErrors.discountPercentage}</p>
+                    <p className="text-red-500 text-xs ms-9">{fieldErrors.discountPercentage}</p>
                   )}
                 </div>
               </div>
@@ -1186,7 +1208,7 @@ export default function CustomersPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -1196,14 +1218,14 @@ export default function CustomersPage() {
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>מעדכן...</span>
+                      <span>{t('common.updating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>עדכן לקוח</span>
+                      <span>{t('customerForm.update')}</span>
                     </>
                   )}
                 </button>
@@ -1221,33 +1243,32 @@ export default function CustomersPage() {
         >
           <div 
             className="bg-white/85 backdrop-blur-xl rounded-3xl p-6 max-w-md w-full shadow-2xl border border-white/20" 
-            dir="rtl"
             {...deleteModalContentProps}
           >
-            <h2 className="text-2xl font-bold text-gray-800 mb-4">מחק לקוח</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">{t('customerDelete.title')}</h2>
             
             <div className="space-y-4">
               <div className="glass-card rounded-xl p-4 bg-red-50/50 border-red-200">
                 <p className="text-sm text-gray-700 mb-2">
-                  אתה עומד למחוק את הלקוח:
+                  {t('customerDelete.about')}
                 </p>
                 <p className="font-bold text-gray-900">{customerToDelete.name}</p>
                 <p className="text-sm text-gray-600">{customerToDelete.email}</p>
                 <p className="text-sm text-red-600 mt-3">
-                  ⚠️ פעולה זו לא ניתנת לביטול. כל ההזמנות ומחירים מיוחדים עבור לקוח זה יושפעו.
+                  {t('customerDelete.warning')}
                 </p>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  הקלד "אני מבין" כדי לאשר מחיקה:
+                  {t('customerDelete.prompt', { phrase: t('customerDelete.phrase') })}
                 </label>
                 <input
                   type="text"
                   value={deleteConfirmText}
                   onChange={(e) => setDeleteConfirmText(e.target.value)}
                   className="w-full px-3 py-2 border-2 border-gray-300 rounded-xl focus:outline-none focus:border-indigo-500"
-                  placeholder="אני מבין"
+                  placeholder={t('customerDelete.phrase')}
                 />
               </div>
 
@@ -1264,21 +1285,21 @@ export default function CustomersPage() {
                   disabled={isSubmitting}
                   className="glass-button flex-1 py-2 px-4 rounded-xl text-sm font-semibold text-gray-800 bg-gray-100/60 hover:bg-gray-200/70 border-gray-500 hover:border-gray-600 disabled:opacity-50"
                 >
-                  ביטול
+                  {t('common.cancel')}
                 </button>
                 <button
                   type="button"
                   onClick={handleConfirmDelete}
-                  disabled={deleteConfirmText !== 'אני מבין' || isSubmitting}
+                  disabled={deleteConfirmText !== t('customerDelete.phrase') || isSubmitting}
                   className="glass-button flex-1 py-2 px-4 rounded-xl text-sm font-semibold text-white bg-red-600 hover:bg-red-700 border-red-700 hover:border-red-800 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>מוחק...</span>
+                      <span>{t('common.deleting')}</span>
                     </>
                   ) : (
-                    <span>מחק לקוח</span>
+                    <span>{t('customerDelete.title')}</span>
                   )}
                 </button>
               </div>
@@ -4,6 +4,7 @@ import PaginationBar from '../components/PaginationBar';
 import Spinner from '../components/Spinner';
 import { formatPrice, formatPriceNegative } from '../utils/formatPrice';
 import { formatOrderDateShortWithTime } from '../utils/orderUtils';
+import { getDir, t } from '../utils/i18n';
 
 function toDateInputValue(date: Date): string {
   const y = date.getFullYear();
@@ -15,13 +16,13 @@ function toDateInputValue(date: Date): string {
 function getInvoiceTypeMeta(invoiceType: InvoiceDto['invoiceType']) {
   if (invoiceType === 'CREDIT_NOTE') {
     return {
-      label: 'זיכוי',
+      label: t('orderView.creditNote'),
       className: 'bg-amber-100 text-amber-800 border border-amber-300',
       rowClassName: 'bg-amber-50/60 hover:bg-amber-100/70',
     };
   }
   return {
-    label: 'חשבונית',
+    label: t('orderView.invoice'),
     className: 'bg-indigo-100 text-indigo-800 border border-indigo-300',
     rowClassName: 'bg-indigo-50/50 hover:bg-indigo-100/70',
   };
@@ -116,14 +117,14 @@ export default function DocumentsReportsPage() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `חשבוניות_${fromDate}_${toDate}.xlsx`;
+      a.download = t('documents.fileName', { from: fromDate, to: toDate });
       document.body.appendChild(a);
       a.click();
       a.remove();
       window.URL.revokeObjectURL(url);
     } catch (err: any) {
       console.error('Failed to download invoices document:', err);
-      setError('נכשל בהורדת הקובץ. נסה שוב.');
+      setError(t('documents.error.download'));
     } finally {
       setIsDownloading(false);
     }
@@ -132,7 +133,7 @@ export default function DocumentsReportsPage() {
   const runSearch = async (nextPageNumber: number = 0) => {
     if (!fromDate || !toDate) return;
     if (customerScope === 'pick' && !pickedCustomer) {
-      setError('נא לבחור לקוח מהרשימה (או לעבור ל״כל הלקוחות״).');
+      setError(t('documents.error.customerRequired'));
       return;
     }
     setIsSearching(true);
@@ -153,7 +154,7 @@ export default function DocumentsReportsPage() {
       setHasSearched(true);
     } catch (err: any) {
       console.error('Failed to search invoices:', err);
-      setError('נכשל בחיפוש חשבוניות. נסה שוב.');
+      setError(t('documents.error.search'));
       setResults([]);
       setTotalPages(0);
     } finally {
@@ -178,11 +179,11 @@ export default function DocumentsReportsPage() {
   }, [pageSize]);
 
   return (
-    <div className="max-w-4xl mx-auto pb-32" dir="rtl">
+    <div className="max-w-4xl mx-auto pb-32">
       <div className="glass-card rounded-3xl p-6 md:p-8 mb-6">
-        <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">דוחות ומסמכים</h1>
+        <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">{t('documents.title')}</h1>
         <p className="text-gray-600 text-sm mt-2">
-          בחר טווח תאריכים, חפש חשבוניות, או ייצא לקובץ מסודר עם קישורים וסיכום.
+          {t('documents.subtitle')}
         </p>
       </div>
 
@@ -195,7 +196,7 @@ export default function DocumentsReportsPage() {
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">מתאריך:</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('documents.fromDate')}</label>
             <input
               type="date"
               value={fromDate}
@@ -206,7 +207,7 @@ export default function DocumentsReportsPage() {
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">עד תאריך:</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('documents.toDate')}</label>
             <input
               type="date"
               value={toDate}
@@ -217,7 +218,7 @@ export default function DocumentsReportsPage() {
           </div>
         </div>
 
-        <h2 className="mt-6 text-sm font-semibold text-gray-800">סינון לפי לקוח</h2>
+        <h2 className="mt-6 text-sm font-semibold text-gray-800">{t('documents.customerFilter')}</h2>
         <div className="mt-2 rounded-2xl border border-gray-200/70 bg-gradient-to-b from-white/70 to-white/40 backdrop-blur-sm p-5 md:p-7 shadow-sm ring-1 ring-gray-900/5">
           <div ref={customerPickerRef}>
             {/* LTR row: chip on the left, toggle on the right; whole group centered */}
@@ -228,7 +229,7 @@ export default function DocumentsReportsPage() {
               {customerScope === 'pick' && pickedCustomer && (
                 <div
                   className="flex w-fit max-w-[min(100%,20rem)] shrink-0 items-center gap-2 rounded-2xl border border-indigo-200/80 bg-white px-2 py-1.5 shadow-sm ring-1 ring-indigo-900/5"
-                  dir="rtl"
+                  dir={getDir()}
                 >
                   <span className="min-w-0 max-w-[14rem] truncate py-0.5 ps-1 text-sm font-medium leading-snug text-gray-900 sm:max-w-[18rem]">
                     {pickedCustomer.name}
@@ -242,8 +243,8 @@ export default function DocumentsReportsPage() {
                       setPageNumber(0);
                     }}
                     className="ms-0.5 shrink-0 rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-indigo-50 hover:text-indigo-700"
-                    aria-label="נקה בחירת לקוח"
-                    title="נקה בחירה"
+                    aria-label={t('documents.clearCustomer')}
+                    title={t('documents.clearSelection')}
                   >
                     <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden>
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -254,7 +255,7 @@ export default function DocumentsReportsPage() {
               <div
                 className="inline-flex rounded-2xl border border-gray-200/90 bg-white/80 p-1 gap-0.5 shadow-sm"
                 role="group"
-                aria-label="סינון לקוח"
+                aria-label={t('documents.customerFilterLabel')}
               >
                 <button
                   type="button"
@@ -271,7 +272,7 @@ export default function DocumentsReportsPage() {
                       : 'text-gray-600 hover:bg-gray-50/90'
                   }`}
                 >
-                  כל הלקוחות
+                  {t('documents.allCustomers')}
                 </button>
                 <button
                   type="button"
@@ -288,7 +289,7 @@ export default function DocumentsReportsPage() {
                       : 'text-gray-600 hover:bg-gray-50/90'
                   }`}
                 >
-                  לקוח מסוים
+                  {t('documents.specificCustomer')}
                 </button>
               </div>
             </div>
@@ -304,7 +305,7 @@ export default function DocumentsReportsPage() {
                         }`}
                       >
                         <svg
-                          className="absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none"
+                          className="absolute start-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none"
                           fill="none"
                           stroke="currentColor"
                           viewBox="0 0 24 24"
@@ -321,7 +322,7 @@ export default function DocumentsReportsPage() {
                           id="invoice-customer-search"
                           type="text"
                           autoComplete="off"
-                          placeholder="הקלד לחיפוש…"
+                          placeholder={t('documents.searchPlaceholder')}
                           value={customerSearch}
                           onChange={(e) => {
                             setCustomerSearch(e.target.value);
@@ -329,9 +330,8 @@ export default function DocumentsReportsPage() {
                             setPageNumber(0);
                           }}
                           onFocus={() => setCustomerListOpen(true)}
-                          className="w-full border-0 rounded-none pr-12 pl-4 py-3.5 text-base text-gray-800 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500/80 bg-transparent"
-                          dir="rtl"
-                          aria-label="חיפוש לקוח"
+                          className="w-full border-0 rounded-none ps-12 pe-4 py-3.5 text-base text-gray-800 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500/80 bg-transparent"
+                          aria-label={t('documents.searchCustomer')}
                           aria-autocomplete="list"
                           aria-expanded={customerListOpen}
                           aria-controls="invoice-customer-suggestions"
@@ -368,7 +368,7 @@ export default function DocumentsReportsPage() {
                       filteredCustomersForPicker.length === 0 &&
                       customers.length > 0 && (
                         <p className="w-full text-center text-sm text-amber-800 bg-amber-50/90 border border-amber-200/80 rounded-xl px-4 py-3">
-                          לא נמצאו לקוחות התואמים לחיפוש. נסה טקסט אחר.
+                          {t('documents.noCustomers')}
                         </p>
                       )}
                 </div>
@@ -394,14 +394,14 @@ export default function DocumentsReportsPage() {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V2C6.477 2 2 6.477 2 12h2zm2 5.291A7.962 7.962 0 014 12H2c0 3.042 1.135 5.824 3 7.938l1-2.647z" />
                   </svg>
-                  <span>מחפש...</span>
+                  <span>{t('documents.searching')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                   </svg>
-                  <span>חפש</span>
+                  <span>{t('documents.search')}</span>
                 </>
               )}
             </button>
@@ -421,21 +421,21 @@ export default function DocumentsReportsPage() {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V2C6.477 2 2 6.477 2 12h2zm2 5.291A7.962 7.962 0 014 12H2c0 3.042 1.135 5.824 3 7.938l1-2.647z" />
                   </svg>
-                  <span>מוריד...</span>
+                  <span>{t('documents.downloading')}</span>
                 </>
               ) : (
                 <>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v12m0 0l4-4m-4 4l-4-4M4 17v3a1 1 0 001 1h14a1 1 0 001-1v-3" />
                   </svg>
-                  <span>ייצא לקובץ</span>
+                  <span>{t('documents.export')}</span>
                 </>
               )}
             </button>
           </div>
 
           <div className="flex items-center justify-center sm:justify-end gap-2 w-full sm:w-auto">
-            <label className="text-xs text-gray-600">הצג:</label>
+            <label className="text-xs text-gray-600">{t('list.pageSize')}</label>
             <select
               value={pageSize}
               onChange={(e) => setPageSize(Number(e.target.value))}
@@ -457,19 +457,19 @@ export default function DocumentsReportsPage() {
               <Spinner />
             </div>
           ) : results.length === 0 ? (
-            <p className="text-gray-500 text-center py-8">אין תוצאות להצגה.</p>
+            <p className="text-gray-500 text-center py-8">{t('documents.empty')}</p>
           ) : (
             <>
               <div className="overflow-x-auto rounded-xl border border-gray-200">
-                <table className="min-w-full divide-y divide-gray-200" aria-label="תוצאות חיפוש חשבוניות">
+                <table className="min-w-full divide-y divide-gray-200" aria-label={t('documents.table.label')}>
                   <thead className="bg-indigo-50/70">
                     <tr>
-                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">מס׳ חשבונית</th>
-                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">סוג</th>
-                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">מזהה הזמנה</th>
-                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">תאריך</th>
-                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">סכום הזמנה</th>
-                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">פעולות</th>
+                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('documents.column.number')}</th>
+                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('documents.column.type')}</th>
+                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('documents.column.orderId')}</th>
+                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('documents.column.date')}</th>
+                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('documents.column.amount')}</th>
+                      <th scope="col" className="px-4 py-3 text-center text-xs font-semibold text-gray-600">{t('documents.column.actions')}</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-100">
@@ -501,7 +501,7 @@ export default function DocumentsReportsPage() {
                               onClick={() => window.open(row.pdfUrl, '_blank')}
                               className="glass-button px-3 py-2 rounded-xl text-xs font-semibold border border-indigo-300 bg-indigo-50 text-indigo-700 hover:shadow-md transition-all"
                             >
-                              הצג מסמך
+                              {t('documents.viewDocument')}
                             </button>
                           </td>
                         </tr>
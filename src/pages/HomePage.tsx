@@ -1,8 +1,9 @@
 import { Link } from 'react-router-dom';
+import { t } from '../utils/i18n';
 
 export default function HomePage() {
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4" dir="rtl">
+    <div className="min-h-screen flex flex-col items-center justify-center p-4">
       {/* Background decoration */}
       <div className="absolute inset-0 overflow-hidden pointer-events-none">
         <div className="absolute -top-40 -right-40 w-80 h-80 bg-purple-400 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob"></div>
@@ -17,12 +18,12 @@ export default function HomePage() {
           <div className="mb-6 flex justify-center">
             <img 
               src="/logo.png" 
-              alt="אורדרית - מערכת ניהול הזמנות" 
+              alt={t('home.logoAlt')} 
               className="h-48 md:h-56 w-auto rounded-3xl shadow-2xl shadow-purple-500/20 px-8"
             />
           </div>
-          <h1 className="text-5xl font-bold text-gray-800 mb-4">מערכת ניהול הזמנות</h1>
-          <p className="text-xl text-gray-600 mb-2">ניהול עסק, לקוחות, מוצרים והזמנות</p>
+          <h1 className="text-5xl font-bold text-gray-800 mb-4">{t('home.title')}</h1>
+          <p className="text-xl text-gray-600 mb-2">{t('home.subtitle')}</p>
         </div>
 
         {/* Action Cards */}
@@ -49,8 +50,8 @@ export default function HomePage() {
                   />
                 </svg>
               </div>
-              <h2 className="text-2xl font-bold text-gray-800 mb-2">פורטל מנהל</h2>
-              <p className="text-gray-600">התחבר לניהול העסק שלך</p>
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">{t('login.manager.title')}</h2>
+              <p className="text-gray-600">{t('home.managerHint')}</p>
             </Link>
 
             {/* Agent Login Card */}
@@ -74,8 +75,8 @@ export default function HomePage() {
                   />
                 </svg>
               </div>
-              <h2 className="text-2xl font-bold text-gray-800 mb-2">פורטל סוכן</h2>
-              <p className="text-gray-600">התחבר לחשבון הסוכן</p>
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">{t('login.agent.title')}</h2>
+              <p className="text-gray-600">{t('home.agentHint')}</p>
             </Link>
           </div>
         </div>
@@ -83,8 +84,8 @@ export default function HomePage() {
         {/* Dashboard Showcase Section */}
         <div className="mt-12 mb-8">
           <div className="text-center mb-10">
-            <h2 className="text-4xl font-bold text-gray-800 mb-3">כל מה שצריך לניהול העסק שלך</h2>
-            <p className="text-xl text-gray-600">פתרון מקיף ומקצועי במקום אחד</p>
+            <h2 className="text-4xl font-bold text-gray-800 mb-3">{t('home.features.title')}</h2>
+            <p className="text-xl text-gray-600">{t('home.features.subtitle')}</p>
           </div>
           <div className="grid grid-cols-1 gap-10">
             {/* Dashboard/Profile Showcase */}
@@ -92,56 +93,56 @@ export default function HomePage() {
               <div className="mb-6 rounded-2xl overflow-hidden shadow-xl">
                 <img 
                   src="/dashboard.png" 
-                  alt="לוח בקרה - ניהול פרופיל ומידע אישי" 
+                  alt={t('home.dashboard.imageAlt')} 
                   className="w-full h-auto"
                 />
               </div>
-              <h3 className="text-3xl font-bold text-gray-800 mb-3 text-center">לוח בקרה מלא</h3>
-              <p className="text-lg text-gray-600 text-center mb-6">נהל את כל היבטי העסק שלך ממקום אחד - כל הכלים הנדרשים לניהול מקצועי</p>
+              <h3 className="text-3xl font-bold text-gray-800 mb-3 text-center">{t('home.dashboard.title')}</h3>
+              <p className="text-lg text-gray-600 text-center mb-6">{t('home.dashboard.description')}</p>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-base text-gray-700 max-w-4xl mx-auto">
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>פרופיל מנהל</span>
+                  <span>{t('nav.managerProfile')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>פרופיל עסק</span>
+                  <span>{t('nav.businessProfile')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>הזמנות</span>
+                  <span>{t('nav.orders')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>מידע עסקי</span>
+                  <span>{t('nav.businessInfo')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>סוכנים</span>
+                  <span>{t('nav.agents')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>לקוחות</span>
+                  <span>{t('nav.customers')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>מוצרים</span>
+                  <span>{t('nav.products')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>מחירים מיוחדים</span>
+                  <span>{t('nav.overrides')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>קטגוריות</span>
+                  <span>{t('nav.categories')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>מותגים</span>
+                  <span>{t('nav.brands')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-purple-500 mt-2 flex-shrink-0"></div>
-                  <span>סניפים</span>
+                  <span>{t('nav.locations')}</span>
                 </div>
               </div>
             </div>
@@ -151,28 +152,28 @@ export default function HomePage() {
               <div className="mb-6 rounded-2xl overflow-hidden shadow-xl">
                 <img 
                   src="/orders.png" 
-                  alt="ניהול הזמנות - יצירה, עריכה ומעקב" 
+                  alt={t('home.orders.imageAlt')} 
                   className="w-full h-auto"
                 />
               </div>
-              <h3 className="text-3xl font-bold text-gray-800 mb-3 text-center">ניהול הזמנות</h3>
-              <p className="text-lg text-gray-600 text-center mb-6">צור הזמנות חדשות, עקוב אחר סטטוסים, שתף קישורים עם לקוחות וצור חשבוניות</p>
+              <h3 className="text-3xl font-bold text-gray-800 mb-3 text-center">{t('home.orders.title')}</h3>
+              <p className="text-lg text-gray-600 text-center mb-6">{t('home.orders.description')}</p>
               <div className="space-y-3 text-base text-gray-700 max-w-2xl mx-auto">
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-blue-500 mt-2 flex-shrink-0"></div>
-                  <span>יצירת הזמנות חדשות וניהול הזמנות קיימות</span>
+                  <span>{t('home.orders.create')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-blue-500 mt-2 flex-shrink-0"></div>
-                  <span>מעקב אחר סטטוסים - ריק, הוזמן, הושלם, בוטל</span>
+                  <span>{t('home.orders.statuses')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-blue-500 mt-2 flex-shrink-0"></div>
-                  <span>שיתוף קישורים עם לקוחות להשלמת הזמנות</span>
+                  <span>{t('home.orders.links')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-blue-500 mt-2 flex-shrink-0"></div>
-                  <span>יצירת חשבוניות והנחות מותאמות אישית</span>
+                  <span>{t('home.orders.invoices')}</span>
                 </div>
               </div>
             </div>
@@ -182,28 +183,28 @@ export default function HomePage() {
               <div className="mb-6 rounded-2xl overflow-hidden shadow-xl">
                 <img 
                   src="/products.png" 
-                  alt="ניהול מוצרים - קטלוג מלא עם תמונות ומחירים" 
+                  alt={t('home.catalog.imageAlt')} 
                   className="w-full h-auto"
                 />
               </div>
-              <h3 className="text-3xl font-bold text-gray-800 mb-3 text-center">קטלוג מוצרים</h3>
-              <p className="text-lg text-gray-600 text-center mb-6">נהל את הקטלוג שלך, הוסף מוצרים חדשים, עדכן מחירים ומיין לפי קטגוריות</p>
+              <h3 className="text-3xl font-bold text-gray-800 mb-3 text-center">{t('home.catalog.title')}</h3>
+              <p className="text-lg text-gray-600 text-center mb-6">{t('home.catalog.description')}</p>
               <div className="space-y-3 text-base text-gray-700 max-w-2xl mx-auto">
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-pink-500 mt-2 flex-shrink-0"></div>
-                  <span>ניהול מוצרים - הוספה, עריכה ומחיקה</span>
+                  <span>{t('home.catalog.products')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-pink-500 mt-2 flex-shrink-0"></div>
-                  <span>קטגוריות ומותגים - ארגון מוצרים בצורה מסודרת</span>
+                  <span>{t('home.catalog.categories')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-pink-500 mt-2 flex-shrink-0"></div>
-                  <span>מחירים מיוחדים - הנחות ללקוחות וסוכנים</span>
+                  <span>{t('home.catalog.prices')}</span>
                 </div>
-                <div className="flex items-start space-x-3 space-x-reverse">
+                <div className="flex items-start gap-3">
                   <div className="w-2.5 h-2.5 rounded-full bg-pink-500 mt-2 flex-shrink-0"></div>
-                  <span>תמונות מוצרים - ניהול גלריית תמונות לכל מוצר</span>
+                  <span>{t('home.catalog.images')}</span>
                 </div>
               </div>
             </div>
@@ -230,12 +231,12 @@ export default function HomePage() {
                 />
               </svg>
             </div>
-            <h2 className="text-xl font-bold text-gray-800 mb-2">צור קשר</h2>
-            <p className="text-gray-600 text-sm mb-3">נשמח לעזור לך בכל שאלה</p>
+            <h2 className="text-xl font-bold text-gray-800 mb-2">{t('home.contact.title')}</h2>
+            <p className="text-gray-600 text-sm mb-3">{t('home.contact.subtitle')}</p>
             <a
               href="tel:0505566979"
-              className="inline-flex items-center justify-center space-x-2 space-x-reverse glass-button px-5 py-2.5 rounded-xl font-semibold text-gray-800 hover:shadow-purple-200 transition-all duration-200 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 text-sm"
-              aria-label="התקשר למספר 050-5566979"
+              className="inline-flex items-center justify-center gap-2 glass-button px-5 py-2.5 rounded-xl font-semibold text-gray-800 hover:shadow-purple-200 transition-all duration-200 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 text-sm"
+              aria-label={t('home.contact.callLabel', { phone: '050-5566979' })}
             >
               <svg
                 className="w-4 h-4"
@@ -2,18 +2,13 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import AddLocationModal from '../components/AddLocationModal';
 import EditLocationModal from '../components/EditLocationModal';
+import PickupSchedulingModal from '../components/PickupSchedulingModal';
 import { managerAPI, publicAPI, locationAPI } from '../services/api';
+import type { Location } from '../services/api';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
 import { resolveApiErr } from '../utils/apiErrorMessage';
-
-interface Location {
-  id: number;
-  managerId: string;
-  name: string;
-  streetAddress: string;
-  city: string;
-  phoneNumber: string;
-}
+import { t } from '../utils/i18n';
+import { isPickupSchedulingActive } from '../utils/pickupSlots';
 
 export default function LocationsPage() {
   const [locations, setLocations] = useState<Location[]>([]);
@@ -23,6 +18,7 @@ export default function LocationsPage() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [locationToEdit, setLocationToEdit] = useState<Location | null>(null);
   const [locationToDelete, setLocationToDelete] = useState<Location | null>(null);
+  const [locationToSchedule, setLocationToSchedule] = useState<Location | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState('');
   const navigate = useNavigate();
@@ -72,7 +68,7 @@ export default function LocationsPage() {
 
     // Check if this is the last location
     if (locations.length <= 1) {
-      setDeleteError('חייב להיות לפחות סניף אחד. לא ניתן למחוק את הסניף האחרון.');
+      setDeleteError(t('locations.error.lastLocation'));
       return;
     }
 
@@ -114,7 +110,7 @@ export default function LocationsPage() {
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
-          <p className="text-gray-600 font-medium">... טוען סניפים</p>
+          <p className="text-gray-600 font-medium">{t('locations.loading')}</p>
         </div>
       </div>
     );
@@ -137,13 +133,13 @@ export default function LocationsPage() {
               d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
             />
           </svg>
-          <h2 className="text-lg font-semibold mb-2">שגיאה בטעינת הסניפים</h2>
+          <h2 className="text-lg font-semibold mb-2">{t('locations.loadError')}</h2>
           <p className="text-gray-600">{error}</p>
           <button
             onClick={fetchLocations}
             className="glass-button mt-4 px-6 py-2 rounded-xl font-medium"
           >
-            נסה שוב
+            {t('common.tryAgain')}
           </button>
         </div>
       </div>
@@ -151,16 +147,16 @@ export default function LocationsPage() {
   }
 
   return (
-    <div className="max-w-5xl mx-auto space-y-4" dir="rtl">
+    <div className="max-w-5xl mx-auto space-y-4">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between">
           <div>
             <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">
-              סניפים
+              {t('locations.title')}
             </h1>
             <p className="text-gray-600">
-              נהל את סניפי העסק שלך
+              {t('locations.subtitle')}
             </p>
           </div>
           <div className="mt-4 md:mt-0">
@@ -171,7 +167,7 @@ export default function LocationsPage() {
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
               </svg>
-              <span>הוסף סניף</span>
+              <span>{t('locations.add')}</span>
             </button>
           </div>
         </div>
@@ -199,15 +195,15 @@ export default function LocationsPage() {
               d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
             />
           </svg>
-          <h2 className="text-lg font-semibold text-gray-800 mb-2">אין סניפים עדיין</h2>
+          <h2 className="text-lg font-semibold text-gray-800 mb-2">{t('locations.empty')}</h2>
           <p className="text-gray-600 mb-4">
-            התחל בהוספת סניף העסק הראשון שלך
+            {t('locations.emptyHint')}
           </p>
           <button 
             onClick={() => setIsAddModalOpen(true)}
             className="glass-button px-6 py-2 rounded-xl font-medium text-gray-800 hover:bg-white/40"
           >
-            הוסף את הסניף הראשון שלך
+            {t('locations.addFirst')}
           </button>
         </div>
       ) : (
@@ -219,7 +215,7 @@ export default function LocationsPage() {
               </div>
 
               <div className="space-y-4 flex-1">
-                <div className="flex items-start space-x-2">
+                <div className="flex items-start gap-2">
                   <svg className="w-5 h-5 text-gray-500 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
@@ -234,19 +230,39 @@ export default function LocationsPage() {
                   </div>
                 </div>
 
-                <div className="flex items-center space-x-2">
+                <div className="flex items-center gap-2">
                   <svg className="w-5 h-5 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
                   </svg>
                   <p className="text-sm text-gray-700">{formatPhoneNumber(location.phoneNumber)}</p>
                 </div>
+
+                <div className="flex items-center gap-2">
+                  <svg className="w-5 h-5 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <p className="text-sm text-gray-700">
+                    {isPickupSchedulingActive(location)
+                      ? t('locations.pickupWindows', { count: location.pickupScheduling!.templates.length })
+                      : t('locations.pickupAnyTime')}
+                  </p>
+                </div>
                 </div>
 
               <div className="flex gap-5 mt-2 pt-2 border-t border-gray-200/50">
+                <button
+                  onClick={() => setLocationToSchedule(location)}
+                  className="glass-button flex-1 p-1.5 rounded-lg hover:bg-white/40 transition-colors"
+                  title={t('locations.pickupTimes')}
+                >
+                  <svg className="w-4 h-4 text-gray-600 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                  </svg>
+                </button>
                 <button 
                   onClick={() => handleEditLocation(location)}
                   className="glass-button flex-1 p-1.5 rounded-lg hover:bg-white/40 transition-colors"
-                  title="ערוך סניף"
+                  title={t('locations.edit')}
                 >
                   <svg className="w-4 h-4 text-gray-600 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -258,7 +274,7 @@ export default function LocationsPage() {
                     setDeleteError('');
                   }}
                   className="glass-button flex-1 p-1.5 rounded-lg hover:bg-red-50/40 transition-colors border-red-500 hover:border-red-600"
-                  title="מחק סניף"
+                  title={t('locations.delete')}
                 >
                   <svg className="w-4 h-4 text-red-600 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -295,11 +311,23 @@ export default function LocationsPage() {
         />
       )}
 
+      {locationToSchedule && (
+        <PickupSchedulingModal
+          isOpen={true}
+          onClose={() => setLocationToSchedule(null)}
+          onSuccess={(updatedLocation) => {
+            setLocations((prev) =>
+              prev.map((l) => (l.id === updatedLocation.id ? updatedLocation : l))
+            );
+          }}
+          location={locationToSchedule}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {locationToDelete && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...deleteModalBackdropProps}
         >
@@ -308,7 +336,7 @@ export default function LocationsPage() {
             {...deleteModalContentProps}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-bold text-gray-800">מחק סניף</h2>
+              <h2 className="text-xl font-bold text-gray-800">{t('locations.delete')}</h2>
               <button
                 onClick={() => {
                   setLocationToDelete(null);
@@ -335,7 +363,7 @@ export default function LocationsPage() {
             {deleteError ? (
               <div className="mb-6">
                 <div className="glass-card bg-red-50/50 border-red-200 rounded-xl p-4">
-                  <div className="flex items-start space-x-2">
+                  <div className="flex items-start gap-2">
                     <svg className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
@@ -346,15 +374,15 @@ export default function LocationsPage() {
             ) : (
             <div className="mb-6">
               <p className="text-gray-700 mb-4 break-words">
-                האם אתה בטוח שברצונך למחוק את <span className="font-semibold break-words">{locationToDelete.name}</span>? פעולה זו לא ניתנת לביטול.
+                {t('locations.deleteConfirm', { name: locationToDelete.name })}
               </p>
               <div className="glass-card bg-yellow-50/50 border-yellow-200 rounded-xl p-4">
-                <div className="flex items-start space-x-2">
+                <div className="flex items-start gap-2">
                   <svg className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                   </svg>
                   <p className="text-sm text-yellow-800">
-                    כל ההזמנות, המוצרים והלקוחות המשויכים לסניף זה לא יהיו עוד מקושרים אליו.
+                    {t('locations.deleteWarning')}
                   </p>
                 </div>
               </div>
@@ -370,13 +398,13 @@ export default function LocationsPage() {
                 disabled={isDeleting}
                 className="glass-button flex-1 py-2.5 px-4 rounded-xl font-semibold text-gray-800 bg-gray-100/60 hover:bg-gray-200/70 border-gray-400 hover:border-gray-500 disabled:opacity-50"
               >
-                {deleteError ? 'סגור' : 'ביטול'}
+                {deleteError ? t('common.close') : t('common.cancel')}
               </button>
               {!deleteError && (
               <button
                 onClick={handleDeleteLocation}
                 disabled={isDeleting}
-                className="glass-button flex-1 py-2.5 px-4 rounded-xl font-semibold text-white bg-red-600 hover:bg-red-700 border-red-700 hover:border-red-800 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                className="glass-button flex-1 py-2.5 px-4 rounded-xl font-semibold text-white bg-red-600 hover:bg-red-700 border-red-700 hover:border-red-800 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
                 {isDeleting ? (
                   <>
@@ -400,10 +428,10 @@ export default function LocationsPage() {
                         d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                       ></path>
                     </svg>
-                    <span>מוחק...</span>
+                    <span>{t('common.deleting')}</span>
                   </>
                 ) : (
-                  <span>מחק סניף</span>
+                  <span>{t('locations.delete')}</span>
                 )}
               </button>
               )}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { authAPI } from '../services/api';
 import { useAriaLive } from '../components/AriaLiveRegionContext';
+import { t } from '../utils/i18n';
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
@@ -65,7 +66,7 @@ export default function LoginPage() {
           }, 1500);
         } catch (fallbackErr) {
           // Show popup with phone number if copy fails
-          alert(`טלפון מנהל מערכת: ${ADMIN_PHONE}`);
+          alert(t('login.manager.adminPhone', { phone: ADMIN_PHONE }));
         }
         document.body.removeChild(textArea);
       }
@@ -105,19 +106,19 @@ export default function LoginPage() {
     let hasError = false;
     
     if (!trimmedEmail) {
-      setEmailError('אנא הזן את כתובת האימייל שלך');
+      setEmailError(t('login.error.emailRequired'));
       hasError = true;
     } else {
       // Validate email format
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
       if (!emailRegex.test(trimmedEmail)) {
-        setEmailError('אנא הזן כתובת אימייל תקינה');
+        setEmailError(t('validation.emailInvalid'));
         hasError = true;
       }
     }
     
     if (!trimmedPassword) {
-      setPasswordError('אנא הזן את הסיסמה שלך');
+      setPasswordError(t('login.error.passwordRequired'));
       hasError = true;
     }
 
@@ -131,11 +132,11 @@ export default function LoginPage() {
       const response = await authAPI.loginManager({ email: trimmedEmail, password: trimmedPassword });
       localStorage.setItem('authToken', response.token);
       localStorage.setItem('userRole', 'manager');
-      announce('התחברות בוצעה בהצלחה', 'polite');
+      announce(t('login.success'), 'polite');
       navigate('/dashboard');
     } catch (err: any) {
       // Always show the same message for security (prevent user enumeration)
-      const errorMsg = 'אימייל או סיסמה לא תקינים';
+      const errorMsg = t('login.error.invalid');
       setError(errorMsg);
       announce(errorMsg, 'assertive');
     } finally {
@@ -144,7 +145,7 @@ export default function LoginPage() {
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center p-4" dir="rtl">
+    <div className="min-h-screen flex items-center justify-center p-4">
       {/* Background decoration */}
       <div className="absolute inset-0 overflow-hidden pointer-events-none">
         <div className="absolute -top-40 -right-40 w-80 h-80 bg-purple-400 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob"></div>
@@ -172,8 +173,8 @@ export default function LoginPage() {
               />
             </svg>
           </div>
-          <h1 className="text-3xl font-bold text-gray-800 mb-2">פורטל מנהל</h1>
-          <p className="text-gray-600">התחבר לחשבון</p>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">{t('login.manager.title')}</h1>
+          <p className="text-gray-600">{t('login.manager.subtitle')}</p>
         </div>
 
         <form onSubmit={handleLogin} className="space-y-5" method="post" autoComplete="on" noValidate>
@@ -189,7 +190,7 @@ export default function LoginPage() {
 
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-              אימייל <span className="text-red-500" aria-label="שדה חובה">*</span>
+              {t('field.email')} <span className="text-red-500" aria-label={t('login.required')}>*</span>
             </label>
             <input
               id="email"
@@ -218,7 +219,7 @@ export default function LoginPage() {
 
           <div>
             <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              סיסמה <span className="text-red-500" aria-label="שדה חובה">*</span>
+              {t('field.password')} <span className="text-red-500" aria-label={t('login.required')}>*</span>
             </label>
             <input
               id="password"
@@ -252,7 +253,7 @@ export default function LoginPage() {
                 id="remember-me"
                 className="w-4 h-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
               />
-              <span className="mr-2 text-gray-600">זכור אותי</span>
+              <span className="ms-2 text-gray-600">{t('login.rememberMe')}</span>
             </label>
           </div>
 
@@ -262,7 +263,7 @@ export default function LoginPage() {
             className="glass-button w-full py-3 px-4 rounded-xl font-semibold text-gray-800 
                      hover:shadow-purple-200 disabled:opacity-50 disabled:cursor-not-allowed
                      flex items-center justify-center space-x-2 focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-            aria-label={isLoading ? 'מתחבר...' : 'התחבר לחשבון'}
+            aria-label={isLoading ? t('login.signingIn') : t('login.manager.subtitle')}
           >
             {isLoading ? (
               <>
@@ -287,43 +288,43 @@ export default function LoginPage() {
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                   ></path>
                 </svg>
-                <span>מתחבר...</span>
+                <span>{t('login.signingIn')}</span>
               </>
             ) : (
-              <span>התחבר</span>
+              <span>{t('login.submit')}</span>
             )}
           </button>
         </form>
 
         <div className="mt-6 space-y-2 text-center text-sm text-gray-600 -mb-4">
           <div>
-            רוצה חשבון?{' '}
+            {t('login.manager.wantAccount')}{' '}
             <a 
               href={`tel:${ADMIN_PHONE_TEL}`}
               onClick={handleContactAdmin}
               className="text-purple-600 hover:text-purple-700 font-medium cursor-pointer focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 rounded"
-              aria-label={`צור קשר עם מנהל המערכת בטלפון ${ADMIN_PHONE}`}
+              aria-label={t('login.manager.contactLabel', { phone: ADMIN_PHONE })}
             >
-              צור קשר
+              {t('login.manager.contact')}
             </a>
           </div>
           <div>
-            סוכן?{' '}
+            {t('login.manager.isAgent')}{' '}
             <Link 
               to="/login/agent" 
               className="text-purple-600 hover:text-purple-700 font-medium focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 rounded"
-              aria-label="התחברות לסוכן"
+              aria-label={t('login.manager.agentLoginLabel')}
             >
-              התחבר כאן
+              {t('login.signInHere')}
             </Link>
           </div>
           <div className="pt-3 border-t border-gray-300/50">
             <Link 
               to="/home" 
               className="text-purple-600 hover:text-purple-700 font-medium focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2 rounded"
-              aria-label="חזרה לדף הבית"
+              aria-label={t('login.backHomeLabel')}
             >
-              ← חזרה לדף הבית
+              {t('login.backHome')}
             </Link>
           </div>
         </div>
@@ -341,7 +342,7 @@ export default function LoginPage() {
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
             </svg>
-            <span>מספר טלפון הועתק!</span>
+            <span>{t('login.manager.phoneCopied')}</span>
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
             </svg>
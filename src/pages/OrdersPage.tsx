@@ -1,27 +1,41 @@
 import { useState, useEffect } from 'react';
 import Spinner from '../components/Spinner';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { orderAPI, customerAPI, agentAPI, invoiceAPI, type Order, type Customer, type Agent, type InvoiceDto } from '../services/api';
+import { orderAPI, customerAPI, agentAPI, invoiceAPI, managerAPI, publicAPI, type Order, type Customer, type Agent, type InvoiceDto, type Location, type OrderDateRange } from '../services/api';
 import PaginationBar from '../components/PaginationBar';
 import OrderViewModal from '../components/OrderViewModal';
-import { formatPrice } from '../utils/formatPrice';
+import ExpiringLinksPanel from '../components/ExpiringLinksPanel';
+import BulkOrderActionsBar from '../components/BulkOrderActionsBar';
+import OrdersBoard from '../components/OrdersBoard';
+import OrdersCalendar from '../components/OrdersCalendar';
+import OrdersViewModeToggle, { type OrdersViewMode } from '../components/OrdersViewModeToggle';
+import OrderExportModal from '../components/OrderExportModal';
+import { formatPrice, formatPriceNegative } from '../utils/formatPrice';
+import { getDir, t } from '../utils/i18n';
 import { getStatusLabel, getStatusColor, getCardStyles, getLabelStyles, formatOrderDateShortWithTime, getOrderCardDate, translateDiscountErrorMessage } from '../utils/orderUtils';
 import { copyOrderLink, getOrderStoreLink } from '../utils/copyOrderLink';
+import { getFulfillmentIcon, getFulfillmentLabel, getOrderFulfillmentMethod } from '../utils/delivery';
+import { formatPickupSlot, toDateKey } from '../utils/pickupSlots';
+import type { OrderStatus } from '../utils/orderUtils';
 import InvoiceCreationModal from '../components/InvoiceCreationModal';
 import CreditNoteModal from '../components/CreditNoteModal';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
 import { primaryInvoicePdfUrl, primaryTaxInvoiceMeta } from '../utils/invoiceUtils';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import { formatLinkLifetime, ORDER_LINK_LIFETIME_OPTIONS } from '../utils/orderLinks';
 
 export default function OrdersPage() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [agents, setAgents] = useState<Agent[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  /** Null = the business default lifetime. */
+  const [linkLifetimeHours, setLinkLifetimeHours] = useState<number | null>(null);
   const [customerSearchQuery, setCustomerSearchQuery] = useState('');
   const [viewingOrder, setViewingOrder] = useState<Order | null>(null);
   const [copiedOrderId, setCopiedOrderId] = useState<string | null>(null);
@@ -45,6 +59,7 @@ export default function OrdersPage() {
   const [discountValue, setDiscountValue] = useState<string>('');
   const [discountMode, setDiscountMode] = useState<'number' | 'percentage'>('number');
   const [isUpdatingDiscount, setIsUpdatingDiscount] = useState(false);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<Set<string>>(new Set()); // Bulk actions; current page only
   const { backdropProps: createModalBackdropProps, contentProps: createModalContentProps } = useModalBackdrop(() => setShowCreateModal(false));
   const { backdropProps: cancelConfirmBackdropProps, contentProps: cancelConfirmContentProps } = useModalBackdrop(() => setShowCancelConfirm(false));
   const { backdropProps: discountModalBackdropProps, contentProps: discountModalContentProps } = useModalBackdrop(() => setDiscountOrder(null));
@@ -61,12 +76,18 @@ export default function OrdersPage() {
   // Filter state
   const [statusFilter, setStatusFilter] = useState<string>('');
   const [agentFilter, setAgentFilter] = useState<string>(''); // '' = all, 'manager' = manager only, 'agentId' = specific agent
+  const [locationFilter, setLocationFilter] = useState<string>(''); // '' = all branches, otherwise pickup location id
+  const [todayPickupsOnly, setTodayPickupsOnly] = useState(false);
+  const [customerFilter, setCustomerFilter] = useState<string>(''); // '' = all customers
+  const [viewMode, setViewMode] = useState<OrdersViewMode>('list');
+  const [showExportModal, setShowExportModal] = useState(false);
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
 
   useEffect(() => {
-    fetchOrders(currentPage);
-  }, [currentPage, sortBy, sortDirection, pageSize, statusFilter, agentFilter]);
+    // The board and the calendar load their own orders
+    if (viewMode === 'list') fetchOrders(currentPage);
+  }, [currentPage, sortBy, sortDirection, pageSize, statusFilter, agentFilter, locationFilter, todayPickupsOnly, customerFilter, viewMode]);
 
   // Check invoice status for DONE orders (batch check)
   useEffect(() => {
@@ -177,29 +198,39 @@ export default function OrdersPage() {
     };
   }, [viewingOrder?.id, viewingOrder?.status]);
 
+  // Orders of the current filters (list page, board column or calendar range); status comes from the list filter or the column
+  const fetchFilteredOrders = (page: number, size: number, status: string | undefined, dateRange?: OrderDateRange) => {
+    // Determine orderSource and agentId based on agentFilter
+    // '' = all (orderSource=null), 'manager' = manager only (MANAGER), otherwise = specific agent (AGENT + agentId)
+    const orderSource = agentFilter === '' ? null : agentFilter === 'manager' ? 'MANAGER' : 'AGENT';
+    const agentId = orderSource === 'AGENT' ? agentFilter : null;
+
+    return orderAPI.getAllOrders(
+      page,
+      size,
+      sortBy,
+      sortDirection,
+      status,
+      orderSource,
+      agentId,
+      customerFilter || null,
+      locationFilter ? Number(locationFilter) : null,
+      todayPickupsOnly ? toDateKey(new Date()) : null,
+      dateRange
+    );
+  };
+
   const fetchOrders = async (page: number = 0) => {
     setIsLoading(true);
     setError('');
     try {
-      // Determine orderSource and agentId based on agentFilter
-      // '' = all (orderSource=null), 'manager' = manager only (MANAGER), otherwise = specific agent (AGENT + agentId)
-      const orderSource = agentFilter === '' ? null : agentFilter === 'manager' ? 'MANAGER' : 'AGENT';
-      const agentId = orderSource === 'AGENT' ? agentFilter : null;
-
-      const pageResponse = await orderAPI.getAllOrders(
-        page,
-        pageSize,
-        sortBy,
-        sortDirection,
-        statusFilter || undefined,
-        orderSource,
-        agentId
-      );
+      const pageResponse = await fetchFilteredOrders(page, pageSize, statusFilter || undefined);
       const fetchedOrders = pageResponse?.content || [];
       setOrders(fetchedOrders);
+      setSelectedOrderIds(new Set());
       setTotalPages(pageResponse?.totalPages || 0);
     } catch (err: any) {
-      setError('נכשל בטעינת הזמנות');
+      setError(t('orders.page.loadFailed'));
       setOrders([]); // Reset to empty array on error
       setTotalPages(0);
       console.error('Error fetching orders:', err);
@@ -226,9 +257,20 @@ export default function OrdersPage() {
     }
   };
 
+  const fetchLocations = async () => {
+    try {
+      const manager = await managerAPI.getCurrentManager();
+      const data = await publicAPI.locations.getAllByManagerId(manager.id);
+      setLocations(data);
+    } catch (err: unknown) {
+      console.error('Error fetching locations:', err);
+    }
+  };
+
   useEffect(() => {
     fetchCustomers();
     fetchAgents();
+    fetchLocations();
   }, []);
 
   // Check URL params for orderId after orders are loaded
@@ -270,9 +312,11 @@ export default function OrdersPage() {
     try {
       const newOrder = await orderAPI.createOrder({
         customerId: selectedCustomerId || null,
+        linkLifetimeHours: linkLifetimeHours ?? undefined,
       });
       setShowCreateModal(false);
       setSelectedCustomerId(null);
+      setLinkLifetimeHours(null);
       setCurrentPage(0);
       setOrders((prev) => [newOrder, ...prev]);
     } catch (err: unknown) {
@@ -289,6 +333,7 @@ export default function OrdersPage() {
   const closeCreateModal = () => {
     setShowCreateModal(false);
     setSelectedCustomerId(null);
+    setLinkLifetimeHours(null);
     setCustomerSearchQuery('');
     setError('');
   };
@@ -324,7 +369,7 @@ export default function OrdersPage() {
     const inputValue = parseFloat(discountValue);
     
     if (isNaN(inputValue) || inputValue < 0) {
-      setError('אנא הזן ערך תקין');
+      setError(t('orders.page.invalidValue'));
       return;
     }
 
@@ -375,11 +420,48 @@ export default function OrdersPage() {
 
   const closeViewModal = () => setViewingOrder(null);
 
+  const handleOrdersUpdated = (updated: Order[]) => {
+    const byId = new Map(updated.map((order) => [order.id, order]));
+    setOrders((prev) => prev.map((o) => byId.get(o.id) ?? o));
+    setViewingOrder((prev) => (prev ? byId.get(prev.id) ?? prev : prev));
+  };
+
+  const handleViewModeChange = (mode: OrdersViewMode) => {
+    setViewMode(mode);
+    setSelectedOrderIds(new Set());
+    setCurrentPage(0);
+  };
+
+  const toggleOrderSelected = (orderId: string) => {
+    setSelectedOrderIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) next.delete(orderId);
+      else next.add(orderId);
+      return next;
+    });
+  };
+
+  const allOrdersSelected = orders.length > 0 && orders.every((order) => selectedOrderIds.has(order.id));
+
+  const toggleAllOrdersSelected = () => {
+    setSelectedOrderIds(allOrdersSelected ? new Set() : new Set(orders.map((order) => order.id)));
+  };
+
   const toggleSortDirection = () => {
     setSortDirection(prev => prev === 'ASC' ? 'DESC' : 'ASC');
     setCurrentPage(0);
   };
 
+  // Today's pickups are worked through by slot, earliest first
+  const toggleTodayPickups = () => {
+    if (!todayPickupsOnly) {
+      setSortBy('pickupSlot');
+      setSortDirection('ASC');
+    }
+    setTodayPickupsOnly(prev => !prev);
+    setCurrentPage(0);
+  };
+
   // Filter customers in modal based on search query
   const filteredCustomers = customers.filter((customer) => {
     if (!customerSearchQuery.trim()) return true;
@@ -405,36 +487,64 @@ export default function OrdersPage() {
 }
 
   return (
-    <div className="max-w-7xl mx-auto pb-32" dir="rtl">
+    <div className="max-w-7xl mx-auto pb-32">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8 mb-6">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">הזמנות</h1>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 leading-tight">{t('orders.page.title')}</h1>
             <p className="text-gray-600 text-sm mt-2">
-              נהל את ההזמנות שלך ושתף קישורים עם לקוחות
+              {t('orders.page.subtitle')}
             </p>
           </div>
-          <button
-            onClick={openCreateModal}
-            className="mt-2 md:mt-0 btn-add-indigo"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            <span>צור הזמנה חדשה</span>
-          </button>
+          <div className="mt-2 md:mt-0 flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={() => setShowExportModal(true)}
+              className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-800 hover:shadow-md transition-all flex items-center gap-2"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5m0 0l5-5m-5 5V4" />
+              </svg>
+              <span>{t('orders.page.export')}</span>
+            </button>
+            <button
+              onClick={openCreateModal}
+              className="btn-add-indigo"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              <span>{t('orders.page.newOrder')}</span>
+            </button>
+          </div>
         </div>
       </div>
 
+      <OrderExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        fetchPage={(page, size) => fetchFilteredOrders(page, size, viewMode === 'board' ? undefined : statusFilter || undefined)}
+        agentNames={new Map(agents.map((agent) => [agent.id, `${agent.firstName} ${agent.lastName}`]))}
+      />
+
+      <ExpiringLinksPanel
+        getOverview={orderAPI.getLinkExpiryOverview}
+        extendLinks={orderAPI.extendOrderLinks}
+        onExtended={handleOrdersUpdated}
+        onView={handleViewOrder}
+      />
+
       {/* Filters and Sorting */}
       <div className="glass-card rounded-2xl p-4 mb-6">
         <div className="flex flex-col md:flex-row gap-4 items-start md:items-center">
           {/* Right side: Filters */}
-          <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto md:ml-auto">
+          <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto md:me-auto">
+            <OrdersViewModeToggle value={viewMode} onChange={handleViewModeChange} />
+
             {/* Agent Filter */}
             <div className="w-[180px]">
-              <label className="block text-xs font-medium text-gray-600 mb-1">סוכן:</label>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.agent')}</label>
               <select
                 value={agentFilter}
                 onChange={(e) => {
@@ -444,8 +554,8 @@ export default function OrdersPage() {
                 className="glass-select w-full pl-3 pr-8 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
                 dir="ltr"
               >
-                <option value="">הכל</option>
-                <option value="manager">אני</option>
+                <option value="">{t('orders.page.filter.all')}</option>
+                <option value="manager">{t('orders.page.me')}</option>
                 {agents.map((agent) => (
                   <option key={agent.id} value={agent.id}>
                     {agent.firstName} {agent.lastName}
@@ -454,9 +564,69 @@ export default function OrdersPage() {
               </select>
             </div>
 
-            {/* Status Filter */}
+            {/* Customer Filter */}
+            <div className="w-[180px]">
+              <label htmlFor="orders-customer-filter" className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.customer')}</label>
+              <select
+                id="orders-customer-filter"
+                value={customerFilter}
+                onChange={(e) => {
+                  setCustomerFilter(e.target.value);
+                  setCurrentPage(0);
+                }}
+                className="glass-select w-full pl-3 pr-8 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
+                dir="ltr"
+              >
+                <option value="">{t('orders.page.filter.all')}</option>
+                {customers.map((customer) => (
+                  <option key={customer.id} value={customer.id}>
+                    {customer.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Branch Filter */}
+            {locations.length > 0 && (
+              <div className="w-[160px]">
+                <label className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.location')}</label>
+                <select
+                  value={locationFilter}
+                  onChange={(e) => {
+                    setLocationFilter(e.target.value);
+                    setCurrentPage(0);
+                  }}
+                  className="glass-select w-full pl-3 pr-8 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
+                  dir="ltr"
+                >
+                  <option value="">{t('orders.page.filter.all')}</option>
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Today's Pickups Toggle */}
+            <div className="w-[130px]">
+              <label className="block text-xs font-medium text-gray-600 mb-1">&nbsp;</label>
+              <button
+                onClick={toggleTodayPickups}
+                aria-pressed={todayPickupsOnly}
+                className={`glass-button w-full px-3 py-2 rounded-xl text-sm font-semibold hover:shadow-md transition-all ${
+                  todayPickupsOnly ? 'text-indigo-700 ring-2 ring-indigo-400' : 'text-gray-800'
+                }`}
+              >
+                🕒 {t('orders.page.filter.todayPickups')}
+              </button>
+            </div>
+
+            {/* Status Filter - the board has a column per status */}
+            {viewMode !== 'board' && (
             <div className="w-[140px]">
-              <label className="block text-xs font-medium text-gray-600 mb-1">סטטוס:</label>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.status')}</label>
               <select
                 value={statusFilter}
                 onChange={(e) => {
@@ -466,18 +636,19 @@ export default function OrdersPage() {
                 className="glass-select w-full pl-3 pr-8 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
                 dir="ltr"
               >
-                <option value="">הכל</option>
-                <option value="EMPTY">ריק</option>
-                <option value="PLACED">הוזמן</option>
-                <option value="DONE">הושלם</option>
-                <option value="EXPIRED">פג תוקף</option>
-                <option value="CANCELLED">בוטל</option>
+                <option value="">{t('orders.page.filter.all')}</option>
+                <option value="EMPTY">{getStatusLabel('EMPTY')}</option>
+                <option value="PLACED">{getStatusLabel('PLACED')}</option>
+                <option value="DONE">{getStatusLabel('DONE')}</option>
+                <option value="EXPIRED">{getStatusLabel('EXPIRED')}</option>
+                <option value="CANCELLED">{getStatusLabel('CANCELLED')}</option>
               </select>
             </div>
+            )}
 
             {/* Sort By */}
             <div className="w-[140px]">
-              <label className="block text-xs font-medium text-gray-600 mb-1">מיין לפי:</label>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.sortBy')}</label>
               <select
                 value={sortBy}
                 onChange={(e) => {
@@ -487,8 +658,9 @@ export default function OrdersPage() {
                 className="glass-select w-full pl-3 pr-8 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer"
                 dir="ltr"
               >
-                <option value="createdAt">תאריך יצירה</option>
-                <option value="totalPrice">מחיר כולל</option>
+                <option value="createdAt">{t('orders.page.sort.createdAt')}</option>
+                <option value="totalPrice">{t('orders.page.sort.totalPrice')}</option>
+                <option value="pickupSlot">{t('orders.page.sort.pickupSlot')}</option>
               </select>
             </div>
 
@@ -499,7 +671,7 @@ export default function OrdersPage() {
                 onClick={toggleSortDirection}
                 className="glass-button w-full px-3 py-2 rounded-xl text-sm font-semibold text-gray-800 hover:shadow-md transition-all flex items-center justify-between"
               >
-                <span>{sortDirection === 'ASC' ? 'א ← ת' : 'א → ת'}</span>
+                <span>{sortDirection === 'ASC' ? t('orders.page.sort.ascending') : t('orders.page.sort.descending')}</span>
                 {sortDirection === 'ASC' ? (
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -513,8 +685,9 @@ export default function OrdersPage() {
             </div>
 
             {/* Page Size */}
+            {viewMode === 'list' && (
             <div className="w-[90px]">
-              <label className="block text-xs font-medium text-gray-600 mb-1">הצג:</label>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{t('orders.page.filter.pageSize')}</label>
               <select
                 value={pageSize}
                 onChange={(e) => {
@@ -531,12 +704,29 @@ export default function OrdersPage() {
                 <option value="100">100</option>
               </select>
             </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Orders List */}
-      {!orders || orders.length === 0 ? (
+      {viewMode === 'board' ? (
+        <OrdersBoard
+          key={[agentFilter, customerFilter, locationFilter, todayPickupsOnly, sortBy, sortDirection].join('|')}
+          fetchColumn={(status: OrderStatus, page, size) => fetchFilteredOrders(page, size, status)}
+          transitions={{ DONE: orderAPI.markOrderDone, CANCELLED: orderAPI.markOrderCancelled }}
+          onOrdersUpdated={handleOrdersUpdated}
+          onView={handleViewOrder}
+          activeOrder={viewingOrder}
+        />
+      ) : viewMode === 'calendar' ? (
+        <OrdersCalendar
+          key={[agentFilter, customerFilter, locationFilter, todayPickupsOnly, statusFilter].join('|')}
+          fetchOrders={(range, page, size) => fetchFilteredOrders(page, size, statusFilter || undefined, range)}
+          onView={handleViewOrder}
+          activeOrder={viewingOrder}
+        />
+      ) : !orders || orders.length === 0 ? (
         <div className="glass-card rounded-2xl p-12 text-center">
           <svg
             className="w-16 h-16 text-gray-400 mx-auto mb-4"
@@ -551,16 +741,27 @@ export default function OrdersPage() {
               d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
             />
           </svg>
-          <h2 className="text-xl font-semibold text-gray-700 mb-2">אין הזמנות עדיין</h2>
-          <p className="text-gray-600 mb-6">צור את ההזמנה הראשונה שלך כדי להתחיל</p>
+          <h2 className="text-xl font-semibold text-gray-700 mb-2">{t('orders.page.empty.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('orders.page.empty.body')}</p>
           <button
             onClick={openCreateModal}
             className="glass-button px-6 py-3 rounded-xl font-semibold text-indigo-600 hover:shadow-md transition-all"
           >
-            צור הזמנה
+            {t('orders.page.createOrder')}
           </button>
         </div>
       ) : (
+        <>
+        <label className="flex items-center gap-2 mb-3 text-sm font-medium text-gray-700 cursor-pointer w-fit">
+          <input
+            type="checkbox"
+            checked={allOrdersSelected}
+            onChange={toggleAllOrdersSelected}
+            className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500"
+          />
+          <span>{t('orders.page.selectPage')}</span>
+          {selectedOrderIds.size > 0 && <span className="text-indigo-700 font-semibold">({t('orders.bulk.selected', { count: selectedOrderIds.size })})</span>}
+        </label>
         <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-3 justify-items-center">
           {orders && orders.map((order) => {
             const linkedCustomer = order.customerId
@@ -575,18 +776,18 @@ export default function OrdersPage() {
             const cardStyles = getCardStyles(order.status);
             const labelStyles = getLabelStyles(order.status);
             const orderAgent = order.agentId ? agents.find(agent => agent.id === order.agentId) : null;
-            // "אני" only for manager's own orders (orderSource === 'MANAGER' and no agent)
+            // "Me" only for manager's own orders (orderSource === 'MANAGER' and no agent)
             const isManagerOrder = order.orderSource === 'MANAGER' && order.agentId == null;
             const isPublicOrder = order.orderSource === 'PUBLIC';
-            const agentLabel = isManagerOrder ? 'אני' : (orderAgent ? `${orderAgent.firstName} ${orderAgent.lastName}` : null);
+            const agentLabel = isManagerOrder ? t('orders.page.me') : (orderAgent ? `${orderAgent.firstName} ${orderAgent.lastName}` : null);
 
             return (
             <div key={order.id} className="flex flex-col w-full sm:max-w-[260px] items-center group">
               {/* Agent/Manager/Public Label - Outside and attached at top */}
               {(agentLabel || isPublicOrder) && (
-                <div className={`w-[80%] px-3 py-1.5 ${labelStyles.bg} border-l-2 border-r-2 border-t-2 ${labelStyles.border} ${labelStyles.borderHover} rounded-t-xl backdrop-blur-sm transition-all duration-300 -mb-[2px]`}>
+                <div className={`w-[80%] px-3 py-1.5 ${labelStyles.bg} border-s-2 border-e-2 border-t-2 ${labelStyles.border} ${labelStyles.borderHover} rounded-t-xl backdrop-blur-sm transition-all duration-300 -mb-[2px]`}>
                   <p className={`text-xs font-semibold ${labelStyles.text} text-center truncate`}>
-                    {isPublicOrder ? '- אונליין -' : agentLabel}
+                    {isPublicOrder ? t('orders.page.online') : agentLabel}
                   </p>
                 </div>
               )}
@@ -594,16 +795,37 @@ export default function OrdersPage() {
               {/* Card */}
               <div
                 onClick={() => handleViewOrder(order)}
-                className={`${cardStyles.container} backdrop-blur-sm rounded-2xl p-4 transition-all duration-300 cursor-pointer flex flex-col relative w-full overflow-hidden h-[280px]`}
+                className={`${cardStyles.container} backdrop-blur-sm rounded-2xl p-4 transition-all duration-300 cursor-pointer flex flex-col relative w-full overflow-hidden h-[280px] ${
+                  selectedOrderIds.has(order.id) ? 'ring-2 ring-indigo-500' : ''
+                }`}
               >
                 {/* Status Accent Bar - with rounded top to match card */}
-                <div className={`absolute top-0 left-0 right-0 h-1.5 ${cardStyles.accent} rounded-t-2xl`}></div>
+                <div className={`absolute top-0 start-0 end-0 h-1.5 ${cardStyles.accent} rounded-t-2xl`}></div>
                 
                 {/* Order Header - Status & ID */}
                 <div className="flex items-center justify-between mb-2 mt-0.5">
-                <span className={`px-3 py-1 rounded-full text-xs font-bold ${getStatusColor(order.status)} shadow-sm`}>
-                  {getStatusLabel(order.status)}
-                </span>
+                <div className="flex items-center gap-1.5 min-w-0">
+                  <input
+                    type="checkbox"
+                    checked={selectedOrderIds.has(order.id)}
+                    onChange={() => toggleOrderSelected(order.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    aria-label={t('orders.selectOrder', { reference: order.referenceId })}
+                    className="w-4 h-4 rounded text-indigo-600 focus:ring-indigo-500 cursor-pointer flex-shrink-0"
+                  />
+                  <span className={`px-3 py-1 rounded-full text-xs font-bold ${getStatusColor(order.status)} shadow-sm`}>
+                    {getStatusLabel(order.status)}
+                  </span>
+                  {order.status !== 'EMPTY' && (
+                    <span
+                      className="text-sm leading-none"
+                      title={getFulfillmentLabel(getOrderFulfillmentMethod(order))}
+                      aria-label={getFulfillmentLabel(getOrderFulfillmentMethod(order))}
+                    >
+                      {getFulfillmentIcon(getOrderFulfillmentMethod(order))}
+                    </span>
+                  )}
+                </div>
                 <p className="text-xs font-mono text-gray-600 font-medium">#{order.id}</p>
               </div>
 
@@ -652,10 +874,10 @@ export default function OrdersPage() {
                         <span className={`transition-opacity duration-300 ${
                           copiedPhoneNumber === displayCustomerPhone ? 'opacity-100' : 'opacity-0 absolute'
                         }`}>
-                          <svg className="w-4 h-4 inline-block mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <svg className="w-4 h-4 inline-block me-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                           </svg>
-                          הועתק!
+                          {t('orders.page.copied')}
                         </span>
                         <span className={`transition-opacity duration-300 flex items-center gap-1.5 ${
                           copiedPhoneNumber === displayCustomerPhone ? 'opacity-0 absolute' : 'opacity-100'
@@ -671,12 +893,12 @@ export default function OrdersPage() {
                 ) : order.status === 'EMPTY' ? (
                   <div className="w-full flex items-center justify-center h-full">
                     <div className="text-center space-y-1">
-                      <p className="text-sm font-medium text-gray-600">אין פרטי לקוח עדיין</p>
-                      <p className="text-xs text-gray-600">ממתין לפרטי ההזמנה</p>
+                      <p className="text-sm font-medium text-gray-600">{t('orders.page.noCustomerYet')}</p>
+                      <p className="text-xs text-gray-600">{t('orders.page.awaitingDetails')}</p>
                     </div>
                   </div>
                 ) : (
-                  !linkedCustomer && <p className="text-sm text-gray-600 italic font-medium text-center">אין פרטי לקוח</p>
+                  !linkedCustomer && <p className="text-sm text-gray-600 italic font-medium text-center">{t('orders.page.noCustomerDetails')}</p>
                 )}
 
               </div>
@@ -696,18 +918,18 @@ export default function OrdersPage() {
                     return (
                       <>
                         <div className="flex items-center justify-between gap-2 text-xs text-gray-600">
-                          <span>הנחה:</span>
-                          <span className="text-red-600 font-semibold">
+                          <span>{t('orders.page.discount')}</span>
+                          <span dir="ltr" className="text-red-600 font-semibold">
                             {order.discount > 0
-                              ? `${order.discount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}-₪ (${discountPercentage}%)`
+                              ? `${formatPriceNegative(order.discount)} (${discountPercentage}%)`
                               : '-'}
                           </span>
                         </div>
                         <div className="flex items-center justify-between gap-2 text-xs text-gray-600">
-                          <span>זיכוי:</span>
-                          <span className="text-amber-700 font-semibold">
+                          <span>{t('orders.page.credited')}</span>
+                          <span dir="ltr" className="text-amber-700 font-semibold">
                             {totalCreditedAmount > 0
-                              ? `${totalCreditedAmount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}-₪`
+                              ? formatPriceNegative(totalCreditedAmount)
                               : '-'}
                           </span>
                         </div>
@@ -715,7 +937,7 @@ export default function OrdersPage() {
                     );
                   })()}
                   <div className="flex items-baseline justify-between gap-2 min-w-0">
-                    <span className="hidden sm:block text-xs font-medium text-gray-600 uppercase tracking-wide flex-shrink-0">סה״כ</span>
+                    <span className="hidden sm:block text-xs font-medium text-gray-600 uppercase tracking-wide flex-shrink-0">{t('orders.page.total')}</span>
                     <span dir="ltr" className="text-base sm:text-lg md:text-xl font-bold bg-gradient-to-r from-indigo-600 to-purple-600 bg-clip-text text-transparent truncate min-w-0 w-full sm:w-auto text-center sm:text-right inline-block">
                       {formatPrice(order.totalPrice)}
                     </span>
@@ -725,7 +947,11 @@ export default function OrdersPage() {
 
               {/* Date & Floating Actions */}
               <div className="mt-auto pt-2.5 pb-1 flex flex-col items-center justify-start gap-2 min-h-[36px]">
-                {getOrderCardDate(order) ? (
+                {order.status === 'PLACED' && order.pickupSlot ? (
+                  <p className="text-xs text-indigo-700 font-semibold text-center">
+                    <span className="truncate">🕒 {t('orders.page.pickup', { slot: formatPickupSlot(order.pickupSlot) })}</span>
+                  </p>
+                ) : getOrderCardDate(order) ? (
                   <p className="text-xs text-gray-500 font-medium text-center">
                     <span className="truncate">
                       <span>{getOrderCardDate(order)!.label}</span>
@@ -743,7 +969,7 @@ export default function OrdersPage() {
                         window.open(url, '_blank');
                       }}
                       className="w-8 h-8 rounded-full border-2 flex items-center justify-center transition-all shadow-sm flex-shrink-0 bg-[#25D366]/10 text-[#25D366] border-[#25D366] hover:shadow-md"
-                      title="שלח קישור בוואטסאפ"
+                      title={t('orders.page.sendWhatsApp')}
                     >
                       <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
                         <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893a11.821 11.821 0 00-3.48-8.413z" />
@@ -759,7 +985,7 @@ export default function OrdersPage() {
                           ? 'bg-indigo-200 text-indigo-700 border-indigo-700'
                           : 'bg-indigo-50 text-indigo-600 border-indigo-500 hover:shadow-md'
                       }`}
-                      title={copiedOrderId === order.id ? 'קישור הועתק' : 'העתק קישור הזמנה'}
+                      title={copiedOrderId === order.id ? t('orders.page.linkCopied') : t('orders.page.copyLink')}
                     >
                       <span
                         className={`absolute inset-0 flex items-center justify-center transition-all duration-200 transform ${
@@ -786,7 +1012,7 @@ export default function OrdersPage() {
                         window.open(getOrderStoreLink(order.id), '_blank');
                       }}
                       className="w-8 h-8 rounded-full border-2 flex items-center justify-center transition-all shadow-sm flex-shrink-0 bg-indigo-50 text-indigo-600 border-indigo-500 hover:shadow-md"
-                      title="פתח הזמנה בטאב חדש"
+                      title={t('orders.page.openInNewTab')}
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
@@ -801,7 +1027,7 @@ export default function OrdersPage() {
                         navigate(`/store/edit/${order.id}`);
                       }}
                       className="w-7 h-7 sm:w-8 sm:h-8 rounded-full border-2 flex items-center justify-center transition-all shadow-sm flex-shrink-0 bg-blue-100 text-blue-700 border-blue-700 hover:shadow-lg"
-                      title="ערוך הזמנה"
+                      title={t('orders.page.edit')}
                     >
                       <svg className="w-4 h-4 sm:w-5 sm:h-5 text-blue-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -818,7 +1044,7 @@ export default function OrdersPage() {
                           ? 'bg-gray-100 text-gray-400 border-gray-300 cursor-not-allowed'
                           : 'bg-green-100 text-green-700 border-green-700 hover:shadow-lg'
                       }`}
-                      title="סמן כהושלם"
+                      title={t('orders.page.markDone')}
                     >
                       {updatingOrderId === order.id ? (
                         <svg className="w-4 h-4 sm:w-5 sm:h-5 animate-spin" viewBox="0 0 24 24">
@@ -844,23 +1070,23 @@ export default function OrdersPage() {
                         }
                       }}
                     className="h-8 flex items-center justify-center gap-1 sm:gap-1.5 px-1.5 sm:px-2 rounded-full border-2 transition-all shadow-sm flex-shrink-0 bg-green-50 text-green-600 border-green-500 hover:bg-green-100 hover:shadow-lg whitespace-nowrap"
-                      title="חשבונית מס קבלה"
-                      aria-label="חשבונית מס קבלה"
+                      title={t('orders.page.taxInvoice')}
+                      aria-label={t('orders.page.taxInvoice')}
                     >
-                      <span className="text-[11px] sm:text-xs font-semibold leading-none text-green-700">חשבונית מס קבלה</span>
+                      <span className="text-[11px] sm:text-xs font-semibold leading-none text-green-700">{t('orders.page.taxInvoice')}</span>
                       <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
                       </svg>
                     </button>
                   ) : (
-                    // No invoice - show text "צור" + file icon
+                    // No invoice - show the create label + file icon
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
                         setInvoiceOrder(order);
                       }}
                     className="h-8 flex items-center justify-center gap-1 sm:gap-1.5 px-1.5 sm:px-2 rounded-full border-2 transition-all shadow-sm flex-shrink-0 bg-green-100 text-green-700 border-green-600 hover:bg-green-200 hover:shadow-lg whitespace-nowrap"
-                      title="צור חשבונית מס קבלה"
+                      title={t('orders.page.createTaxInvoice')}
                       disabled={loadingInvoiceUrls.has(order.id)}
                     >
                       {loadingInvoiceUrls.has(order.id) ? (
@@ -870,7 +1096,7 @@ export default function OrdersPage() {
                         </svg>
                       ) : (
                         <>
-                          <span className="text-[11px] sm:text-xs font-semibold leading-none text-green-700">צור חשבונית מס קבלה</span>
+                          <span className="text-[11px] sm:text-xs font-semibold leading-none text-green-700">{t('orders.page.createTaxInvoice')}</span>
                           <svg className="w-4 h-4 sm:w-5 sm:h-5 text-green-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                           </svg>
@@ -886,16 +1112,26 @@ export default function OrdersPage() {
             );
           })}
         </div>
+        </>
       )}
 
+      <BulkOrderActionsBar
+        selectedOrders={orders.filter((order) => selectedOrderIds.has(order.id))}
+        markDone={orderAPI.markOrderDone}
+        cancel={orderAPI.markOrderCancelled}
+        updateDiscount={orderAPI.updateOrderDiscount}
+        onOrdersUpdated={handleOrdersUpdated}
+        onSelectionChange={setSelectedOrderIds}
+      />
+
       {/* Pagination Controls - Bottom */}
       <PaginationBar
         currentPage={currentPage}
         totalPages={totalPages}
         onPageChange={setCurrentPage}
         maxWidth="max-w-7xl"
-        showCondition={orders && orders.length > 0 && totalPages > 0}
-        rtl={true}
+        showCondition={viewMode === 'list' && orders && orders.length > 0 && totalPages > 0}
+        rtl={getDir() === 'rtl'}
       />
 
       {/* Create Order Modal */}
@@ -906,11 +1142,10 @@ export default function OrdersPage() {
         >
           <div 
             className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-lg bg-white/85" 
-            dir="rtl"
             {...createModalContentProps}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-bold text-gray-800">צור הזמנה חדשה</h2>
+              <h2 className="text-lg font-bold text-gray-800">{t('orders.page.newOrder')}</h2>
               <button
                 onClick={closeCreateModal}
                 className="p-2 hover:bg-white/20 rounded-lg transition-colors"
@@ -936,10 +1171,29 @@ export default function OrdersPage() {
                 <svg className="w-5 h-5 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <span>קישור להזמנה יהיה תקף למשך שבוע אחד ויפקע לאחר מכן</span>
+                <span>{t('orders.page.create.linkExpiry')}</span>
               </div>
             </div>
 
+            <div className="mb-4">
+              <label htmlFor="create-order-link-lifetime" className="block text-sm font-medium text-gray-700 mb-1">
+                {t('orders.page.create.linkLifetime')}
+              </label>
+              <select
+                id="create-order-link-lifetime"
+                value={linkLifetimeHours ?? ''}
+                onChange={(e) => setLinkLifetimeHours(e.target.value ? Number(e.target.value) : null)}
+                className="glass-select w-full px-3 py-2 rounded-xl text-sm text-gray-800 cursor-pointer"
+              >
+                <option value="">{t('orders.page.create.businessDefault')}</option>
+                {ORDER_LINK_LIFETIME_OPTIONS.map((hours) => (
+                  <option key={hours} value={hours}>
+                    {formatLinkLifetime(hours)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {error && (
               <div className="glass-card bg-red-50/50 border-red-200 rounded-xl p-3 mb-4 text-red-600 text-sm">
                 {error}
@@ -948,13 +1202,13 @@ export default function OrdersPage() {
 
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-3">
-                בחירת לקוח
+                {t('orders.page.create.customer')}
               </label>
 
               {/* Standalone Order Option */}
               <button
                 onClick={() => setSelectedCustomerId(null)}
-                className={`w-full text-right px-4 py-2.5 rounded-xl transition-all mb-3 flex items-center gap-3 ${
+                className={`w-full text-start px-4 py-2.5 rounded-xl transition-all mb-3 flex items-center gap-3 ${
                   selectedCustomerId === null
                     ? 'glass-button shadow-md border-2 border-indigo-500 bg-indigo-50/30'
                     : 'glass-input hover:shadow-sm'
@@ -970,20 +1224,20 @@ export default function OrdersPage() {
                   )}
                 </div>
                 <div className="flex-1">
-                  <div className="font-medium text-gray-800 text-sm">ללא לקוח</div>
-                  <div className="text-xs text-gray-600">הלקוח יספק את הפרטים שלו דרך הקישור</div>
+                  <div className="font-medium text-gray-800 text-sm">{t('orders.page.create.noCustomer')}</div>
+                  <div className="text-xs text-gray-600">{t('orders.page.create.noCustomerHint')}</div>
                 </div>
               </button>
 
               {/* Link to Customer Section */}
               {customers.length > 0 && (
                 <>
-                  <div className="text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">או קשר ללקוח קיים</div>
+                  <div className="text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">{t('orders.page.create.linkExisting')}</div>
                   
                   {/* Customer Search */}
                   <div className="relative mb-2">
                     <svg
-                      className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
+                      className="absolute start-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
                       fill="none"
                       stroke="currentColor"
                       viewBox="0 0 24 24"
@@ -997,16 +1251,15 @@ export default function OrdersPage() {
                     </svg>
                     <input
                       type="text"
-                      placeholder="חפש לקוחות..."
+                      placeholder={t('orders.page.create.search')}
                       value={customerSearchQuery}
                       onChange={(e) => setCustomerSearchQuery(e.target.value)}
-                      className="glass-input w-full pr-10 pl-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                      dir="rtl"
+                      className="glass-input w-full ps-10 pe-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                     />
                     {customerSearchQuery && (
                       <button
                         onClick={() => setCustomerSearchQuery('')}
-                        className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                        className="absolute end-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -1022,12 +1275,12 @@ export default function OrdersPage() {
                         <svg className="w-10 h-10 mx-auto mb-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                         </svg>
-                        <p className="text-xs">לא נמצאו לקוחות</p>
+                        <p className="text-xs">{t('orders.page.create.noResults')}</p>
                         <button
                           onClick={() => setCustomerSearchQuery('')}
                           className="text-xs text-indigo-600 hover:text-indigo-700 mt-1"
                         >
-                          נקה חיפוש
+                          {t('orders.page.create.clearSearch')}
                         </button>
                       </div>
                     ) : (
@@ -1035,7 +1288,7 @@ export default function OrdersPage() {
                         <button
                           key={customer.id}
                           onClick={() => setSelectedCustomerId(customer.id)}
-                          className={`w-full text-right px-3 py-2 rounded-lg transition-all flex items-center gap-2.5 ${
+                          className={`w-full text-start px-3 py-2 rounded-lg transition-all flex items-center gap-2.5 ${
                             selectedCustomerId === customer.id
                               ? 'glass-button shadow-md border-2 border-indigo-500 bg-indigo-50/30'
                               : 'glass-input hover:shadow-sm'
@@ -1072,7 +1325,7 @@ export default function OrdersPage() {
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                 </svg>
-                <span>ביטול</span>
+                <span>{t('common.cancel')}</span>
               </button>
               <button
                 type="button"
@@ -1083,14 +1336,14 @@ export default function OrdersPage() {
                 {isCreating ? (
                   <>
                     <Spinner size="sm" />
-                    <span>יוצר...</span>
+                    <span>{t('orders.page.create.creating')}</span>
                   </>
                 ) : (
                   <>
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                     </svg>
-                    <span>צור הזמנה</span>
+                    <span>{t('orders.page.createOrder')}</span>
                   </>
                 )}
               </button>
@@ -1104,6 +1357,9 @@ export default function OrdersPage() {
         <OrderViewModal
           order={viewingOrder}
           onClose={closeViewModal}
+          extendLinks={orderAPI.extendOrderLinks}
+          onLinkExtended={(order) => handleOrdersUpdated([order])}
+          loadActivity={orderAPI.getOrderActivity}
           invoiceDocuments={
             viewingOrder.status === 'DONE'
               ? {
@@ -1150,11 +1406,10 @@ export default function OrdersPage() {
           <div
             className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90 shadow-xl border border-red-100"
             {...cancelConfirmContentProps}
-            dir="rtl"
           >
             <div className="flex items-center justify-between mb-4">
               <div>
-                <h2 className="text-lg font-semibold text-gray-900">בטל הזמנה?</h2>
+                <h2 className="text-lg font-semibold text-gray-900">{t('orders.cancel.title')}</h2>
               </div>
               <button
                 onClick={() => !cancellingOrderId && setShowCancelConfirm(false)}
@@ -1167,7 +1422,7 @@ export default function OrdersPage() {
             </div>
 
             <p className="text-sm text-gray-600 mb-6 leading-relaxed font-medium">
-              ביטול יסיר את ההזמנה מהתור הפעיל. אתה תמיד יכול ליצור הזמנה חדשה מאוחר יותר אם תשנה את דעתך.
+              {t('orders.page.cancelBody')}
             </p>
 
             <div className="border-t border-gray-200/70 -mx-6 md:-mx-8 mb-4"></div>
@@ -1177,7 +1432,7 @@ export default function OrdersPage() {
                 onClick={() => !cancellingOrderId && setShowCancelConfirm(false)}
                 className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all"
               >
-                שמור הזמנה
+                {t('orders.cancel.keep')}
               </button>
               <button
                 onClick={() => handleCancelOrder(orderIdPendingCancel)}
@@ -1188,7 +1443,7 @@ export default function OrdersPage() {
                     : 'text-red-600 border-red-600 bg-red-50 hover:shadow-lg'
                 }`}
               >
-                {cancellingOrderId ? 'מבטל...' : 'בטל הזמנה'}
+                {cancellingOrderId ? t('orders.page.cancelling') : t('orders.cancel.confirm')}
               </button>
             </div>
           </div>
@@ -1204,12 +1459,11 @@ export default function OrdersPage() {
           <div
             className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90 shadow-xl border border-purple-100"
             {...discountModalContentProps}
-            dir="rtl"
           >
             <div className="flex items-center justify-between mb-4">
               <div>
-                <h2 className="text-lg font-semibold text-gray-900">הוסף הנחה</h2>
-                <p className="text-sm text-gray-600 mt-1">הזמנה #{discountOrder.id.slice(0, 8)}</p>
+                <h2 className="text-lg font-semibold text-gray-900">{t('orders.page.discountModal.title')}</h2>
+                <p className="text-sm text-gray-600 mt-1">{t('orders.page.discountModal.order', { id: discountOrder.id.slice(0, 8) })}</p>
               </div>
               <button
                 onClick={() => {
@@ -1237,7 +1491,7 @@ export default function OrdersPage() {
                 return (
                   <div className="p-3 bg-indigo-50 border border-indigo-200 rounded-xl">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm font-medium text-indigo-700">סכום הזמנה:</span>
+                      <span className="text-sm font-medium text-indigo-700">{t('orders.page.discountModal.orderTotal')}</span>
                       <span className="text-lg font-bold text-indigo-900">{formatPrice(productsTotal)}</span>
                     </div>
                   </div>
@@ -1259,7 +1513,7 @@ export default function OrdersPage() {
                       : 'bg-white text-gray-600 hover:bg-gray-100'
                   }`}
                 >
-                  סכום (₪)
+                  {t('orders.page.discountModal.amountMode')}
                 </button>
                 <button
                   type="button"
@@ -1274,13 +1528,15 @@ export default function OrdersPage() {
                       : 'bg-white text-gray-600 hover:bg-gray-100'
                   }`}
                 >
-                  אחוז (%)
+                  {t('orders.page.discountModal.percentMode')}
                 </button>
               </div>
 
               <div>
                 <label htmlFor="discount-input" className="block text-sm font-medium text-gray-700 mb-2">
-                  {discountMode === 'number' ? 'סכום הנחה (₪)' : 'אחוז הנחה (%)'}
+                  {discountMode === 'number'
+                    ? t('orders.page.discountModal.amountLabel')
+                    : t('orders.page.discountModal.percentLabel')}
                 </label>
                 <div className="relative">
                   <input
@@ -1351,15 +1607,17 @@ export default function OrdersPage() {
                   return (
                     <>
                       {discountMode === 'number' ? (
-                        <p className="text-xs text-gray-500 mt-1">עד 2 ספרות אחרי הנקודה, מקסימום {formatPrice(productsTotal)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {t('orders.page.discountModal.hint', { max: formatPrice(productsTotal) })}
+                        </p>
                       ) : (
-                        <p className="text-xs text-gray-500 mt-1">עד 2 ספרות אחרי הנקודה, מקסימום 100%</p>
+                        <p className="text-xs text-gray-500 mt-1">{t('orders.page.discountModal.hint', { max: '100%' })}</p>
                       )}
                       {/* Show calculated discount amount when in percentage mode */}
                       {discountMode === 'percentage' && discountValue && !isNaN(parseFloat(discountValue)) && (
                         <div className="mt-2 p-2 bg-purple-50 border border-purple-200 rounded-lg">
                           <p className="text-xs text-purple-700">
-                            סכום הנחה: <span className="font-bold">{formatPrice((parseFloat(discountValue) / 100) * productsTotal)}</span>
+                            {t('orders.page.discountModal.amount')} <span className="font-bold">{formatPrice((parseFloat(discountValue) / 100) * productsTotal)}</span>
                           </p>
                         </div>
                       )}
@@ -1386,7 +1644,7 @@ export default function OrdersPage() {
                   disabled={isUpdatingDiscount}
                   className="glass-button px-4 py-2 rounded-xl text-sm font-semibold text-gray-700 hover:shadow-md transition-all disabled:opacity-50"
                 >
-                  ביטול
+                  {t('common.cancel')}
                 </button>
                 <button
                   onClick={handleUpdateDiscount}
@@ -1403,10 +1661,10 @@ export default function OrdersPage() {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V2C6.477 2 2 6.477 2 12h2zm2 5.291A7.962 7.962 0 014 12H2c0 3.042 1.135 5.824 3 7.938l1-2.647z" />
                       </svg>
-                      <span>שומר...</span>
+                      <span>{t('orders.page.discountModal.saving')}</span>
                     </>
                   ) : (
-                    'שמור'
+                    t('orders.page.discountModal.save')
                   )}
                 </button>
               </div>
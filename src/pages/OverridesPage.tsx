@@ -8,6 +8,8 @@ import type { ProductOverrideWithPrice, ProductListItem, CustomerListItem, Produ
 import { formatPrice } from '../utils/formatPrice';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
 import { msgFromBody, resolveApiErr } from '../utils/apiErrorMessage';
+import { findVariant, formatLineName, getVariantLabel, getVariantPrice, hasVariants } from '../utils/productVariants';
+import { formatNumber, t } from '../utils/i18n';
 
 const MAX_PRICE = 1_000_000;
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
@@ -38,6 +40,8 @@ export default function OverridesPage() {
   // Form states
   const [formData, setFormData] = useState({
     productId: '',
+    // '' = whole product (all variants)
+    variantId: '',
     customerId: '',
     overridePrice: '',
   });
@@ -136,7 +140,16 @@ export default function OverridesPage() {
     if (!managerId) return;
     try {
       const data = await productAPI.getAllProducts();
-      setProducts(data.map((p) => ({ id: p.id, name: p.name, price: p.price, minimumPrice: p.minimumPrice })));
+      setProducts(
+        data.map((p) => ({
+          id: p.id,
+          name: p.name,
+          price: p.price,
+          minimumPrice: p.minimumPrice,
+          variantAxes: p.variantAxes,
+          variants: p.variants,
+        }))
+      );
     } catch (err) {
       console.error('Failed to fetch products:', err);
     }
@@ -177,17 +190,34 @@ export default function OverridesPage() {
     return productMap.get(productId)?.name ?? productId;
   };
 
+  /** Product name, plus the variant when the override targets a single variant. */
+  const getOverrideTargetName = (override: ProductOverride) => {
+    const product = productMap.get(override.productId);
+    const variant = product ? findVariant(product, override.variantId) : undefined;
+    return formatLineName({
+      productName: getProductName(override.productId),
+      variantLabel: variant ? getVariantLabel(variant, product?.variantAxes) : override.variantId ? t('stock.deletedVariant') : null,
+    });
+  };
+
+  /** Base price the override replaces: the variant price for variant overrides, otherwise the product price. */
+  const getOverrideBasePrice = (productId: string, variantId?: string | null) => {
+    const product = productMap.get(productId);
+    if (!product) return 0;
+    return getVariantPrice(product, findVariant(product, variantId));
+  };
+
   const getCustomerName = (customerId: string) => {
     return customerMap.get(customerId)?.name ?? customerId;
   };
 
   const getAgentLabel = (agentId: string | null) => {
     if (agentId == null) {
-      return 'אני';
+      return t('list.me');
     }
     const agent = agentMap.get(agentId);
     if (!agent) {
-      return 'סוכן';
+      return t('orderSource.AGENT');
     }
     return `${agent.firstName} ${agent.lastName}`.trim();
   };
@@ -220,6 +250,7 @@ export default function OverridesPage() {
     setAddModalProductSearch('');
     setFormData({
       productId: '',
+      variantId: '',
       customerId: '',
       overridePrice: '',
     });
@@ -234,19 +265,19 @@ export default function OverridesPage() {
     setShowErrors(true);
 
     const errors: Record<string, string> = {};
-    if (!formData.productId) errors.productId = 'נדרש לבחור מוצר';
-    if (!formData.customerId) errors.customerId = 'נדרש לבחור לקוח';
+    if (!formData.productId) errors.productId = t('override.error.productRequired');
+    if (!formData.customerId) errors.customerId = t('override.error.customerRequired');
     if (!formData.overridePrice.trim()) {
-      errors.overridePrice = 'נדרש להזין מחיר מותאם';
+      errors.overridePrice = t('override.error.priceRequired');
     } else if (isNaN(Number(formData.overridePrice)) || Number(formData.overridePrice) < 0) {
-      errors.overridePrice = 'מחיר מותאם חייב להיות מספר חיובי תקין';
+      errors.overridePrice = t('override.error.priceInvalid');
     } else if (Number(formData.overridePrice) > MAX_PRICE) {
-      errors.overridePrice = 'מחיר מותאם לא יכול לעלות על 1,000,000';
+      errors.overridePrice = t('override.error.priceMax', { max: formatNumber(MAX_PRICE) });
     } else {
       // Check decimal places
       const decimalParts = formData.overridePrice.split('.');
       if (decimalParts.length > 1 && decimalParts[1].length > 2) {
-        errors.overridePrice = 'מחיר מותאם יכול לכלול עד 2 ספרות אחרי הנקודה';
+        errors.overridePrice = t('override.error.priceDecimals');
       }
     }
 
@@ -266,6 +297,7 @@ export default function OverridesPage() {
         },
         body: JSON.stringify({
           productId: formData.productId,
+          variantId: formData.variantId || null,
           customerId: formData.customerId,
           overridePrice: Math.min(Number(formData.overridePrice), MAX_PRICE),
         }),
@@ -281,7 +313,7 @@ export default function OverridesPage() {
       const withPrice: ProductOverrideWithPrice = {
         ...created,
         overridePrice: Number(created.overridePrice),
-        productPrice: product?.price ?? 0,
+        productPrice: getOverrideBasePrice(formData.productId, formData.variantId || null),
         productMinimumPrice: product?.minimumPrice ?? 0,
       };
       setOverrides((prev) => [withPrice, ...prev]);
@@ -322,16 +354,16 @@ export default function OverridesPage() {
 
     const errors: Record<string, string> = {};
     if (!editFormData.overridePrice.trim()) {
-      errors.overridePrice = 'נדרש להזין מחיר מותאם';
+      errors.overridePrice = t('override.error.priceRequired');
     } else if (isNaN(Number(editFormData.overridePrice)) || Number(editFormData.overridePrice) < 0) {
-      errors.overridePrice = 'מחיר מותאם חייב להיות מספר חיובי תקין';
+      errors.overridePrice = t('override.error.priceInvalid');
     } else if (Number(editFormData.overridePrice) > MAX_PRICE) {
-      errors.overridePrice = 'מחיר מותאם לא יכול לעלות על 1,000,000';
+      errors.overridePrice = t('override.error.priceMax', { max: formatNumber(MAX_PRICE) });
     } else {
       // Check decimal places
       const decimalParts = editFormData.overridePrice.split('.');
       if (decimalParts.length > 1 && decimalParts[1].length > 2) {
-        errors.overridePrice = 'מחיר מותאם יכול לכלול עד 2 ספרות אחרי הנקודה';
+        errors.overridePrice = t('override.error.priceDecimals');
       }
     }
 
@@ -378,7 +410,7 @@ export default function OverridesPage() {
       const withPrice: ProductOverrideWithPrice = {
         ...updated,
         overridePrice: Number(updated.overridePrice),
-        productPrice: product?.price ?? 0,
+        productPrice: getOverrideBasePrice(overrideToEdit.productId, overrideToEdit.variantId),
         productMinimumPrice: product?.minimumPrice ?? 0,
       };
       setOverrides((prev) => prev.map((o) => (o.id === withPrice.id ? withPrice : o)));
@@ -442,7 +474,7 @@ export default function OverridesPage() {
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             />
           </svg>
-          <p className="text-gray-600 font-medium">... טוען מחירים מיוחדים</p>
+          <p className="text-gray-600 font-medium">{t('overrides.loading')}</p>
         </div>
       </div>
     );
@@ -464,13 +496,13 @@ export default function OverridesPage() {
       <div className="glass-card rounded-3xl p-6">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800">מחירים מיוחדים</h1>
-            <p className="text-gray-600 mt-1">נהל מחירים מותאמים אישית ללקוחות</p>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800">{t('overrides.title')}</h1>
+            <p className="text-gray-600 mt-1">{t('overrides.subtitle')}</p>
             <p
               className="mt-3 px-3 py-2 text-sm font-bold text-orange-800 bg-orange-50 border border-orange-200 rounded-lg max-w-md"
               role="note"
             >
-              מחירים מיוחדים מחושבים לפני הנחת האחוזים של הלקוח.
+              {t('overrides.note')}
             </p>
           </div>
           <button
@@ -480,7 +512,7 @@ export default function OverridesPage() {
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
-            <span>הוסף מחיר מיוחד</span>
+            <span>{t('override.add')}</span>
           </button>
         </div>
       </div>
@@ -492,14 +524,14 @@ export default function OverridesPage() {
             <div className="flex flex-col sm:flex-row sm:items-center gap-3">
               {/* Product Filter */}
               <div className="flex items-center gap-2">
-                <span className="text-sm font-medium text-gray-700" dir="rtl">מוצר:</span>
+                <span className="text-sm font-medium text-gray-700">{t('override.productLabel')}</span>
                 <select
                   value={productFilter}
                   onChange={(e) => handleProductFilterChange(e.target.value)}
                   className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer w-48"
                   dir="ltr"
                 >
-                  <option value="">הכל</option>
+                  <option value="">{t('list.filter.all')}</option>
                   {products.map((product) => (
                     <option key={product.id} value={product.id}>
                       {product.name} - {formatPrice(product.price)}
@@ -510,14 +542,14 @@ export default function OverridesPage() {
 
               {/* Customer Filter */}
               <div className="flex items-center gap-2">
-                <span className="text-sm font-medium text-gray-700" dir="rtl">לקוח:</span>
+                <span className="text-sm font-medium text-gray-700">{t('override.customerLabel')}</span>
                 <select
                   value={customerFilter}
                   onChange={(e) => handleCustomerFilterChange(e.target.value)}
                   className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer w-48"
                   dir="ltr"
                 >
-                  <option value="">הכל</option>
+                  <option value="">{t('list.filter.all')}</option>
                   {customers.map((customer) => (
                     <option key={customer.id} value={customer.id}>
                       {customer.name}
@@ -528,7 +560,7 @@ export default function OverridesPage() {
 
               {/* Page Size */}
               <div className="flex items-center gap-2">
-                <span className="text-sm font-medium text-gray-700" dir="rtl">הצג:</span>
+                <span className="text-sm font-medium text-gray-700">{t('list.pageSize')}</span>
                 <select
                   value={pageSize}
                   onChange={(e) => handlePageSizeChange(Number(e.target.value))}
@@ -558,9 +590,9 @@ export default function OverridesPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                   </svg>
                 </div>
-                <h2 className="text-2xl font-bold text-gray-800">לא נמצאו מחירים מיוחדים תואמים</h2>
+                <h2 className="text-2xl font-bold text-gray-800">{t('overrides.empty.filtered')}</h2>
                 <p className="text-gray-600 max-w-md">
-                  לא נמצאו מחירים מיוחדים עבור המסננים שנבחרו.
+                  {t('overrides.empty.filteredHint')}
                 </p>
                 <button
                   onClick={() => {
@@ -569,7 +601,7 @@ export default function OverridesPage() {
                   }}
                   className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
                 >
-                  נקה מסנן
+                  {t('overrides.clearFilter')}
                 </button>
               </>
             ) : (
@@ -579,15 +611,15 @@ export default function OverridesPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                 </div>
-                <h2 className="text-2xl font-bold text-gray-800">אין מחירים מיוחדים עדיין</h2>
+                <h2 className="text-2xl font-bold text-gray-800">{t('overrides.empty.none')}</h2>
                 <p className="text-gray-600 max-w-md">
-                  עדיין לא הגדרת מחירים מותאמים אישית ללקוחות שלך. לחץ על הכפתור למטה כדי ליצור את המחיר המיוחד הראשון שלך.
+                  {t('overrides.empty.noneHint')}
                 </p>
                 <button
                   onClick={() => setIsAddModalOpen(true)}
                   className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
                 >
-                  הוסף את המחיר המיוחד הראשון שלך
+                  {t('overrides.addFirst')}
                 </button>
               </>
             )}
@@ -598,20 +630,20 @@ export default function OverridesPage() {
           <div className="overflow-x-auto">
             <table 
               className="w-full"
-              aria-label="טבלת מחירים מיוחדים"
+              aria-label={t('overrides.table.label')}
               role="table"
             >
               <caption className="sr-only">
-                טבלת מחירים מיוחדים עם פרטי לקוח, סוכן, מוצר, מחיר מינימלי, מחיר מותאם ופעולות
+                {t('overrides.table.caption')}
               </caption>
               <thead className="bg-white/30 border-b border-gray-200/50">
                 <tr>
-                  <th scope="col" id="override-customer" className="px-6 py-4 text-left text-sm font-semibold text-gray-700 w-64">לקוח</th>
-                  <th scope="col" id="override-agent" className="px-6 py-4 text-left text-sm font-semibold text-gray-700 w-48">סוכן</th>
-                  <th scope="col" id="override-product" className="px-6 py-4 text-left text-sm font-semibold text-gray-700">מוצר</th>
-                  <th scope="col" id="override-min-price" className="px-6 py-4 text-left text-sm font-semibold text-gray-700">מחיר מינימלי</th>
-                  <th scope="col" id="override-override-price" className="px-6 py-4 text-left text-sm font-semibold text-gray-700">מחיר מותאם</th>
-                  <th scope="col" id="override-actions" className="px-6 py-4 text-right text-sm font-semibold text-gray-700">פעולות</th>
+                  <th scope="col" id="override-customer" className="px-6 py-4 text-start text-sm font-semibold text-gray-700 w-64">{t('override.column.customer')}</th>
+                  <th scope="col" id="override-agent" className="px-6 py-4 text-start text-sm font-semibold text-gray-700 w-48">{t('override.column.agent')}</th>
+                  <th scope="col" id="override-product" className="px-6 py-4 text-start text-sm font-semibold text-gray-700">{t('override.column.product')}</th>
+                  <th scope="col" id="override-min-price" className="px-6 py-4 text-start text-sm font-semibold text-gray-700">{t('override.column.minimumPrice')}</th>
+                  <th scope="col" id="override-override-price" className="px-6 py-4 text-start text-sm font-semibold text-gray-700">{t('override.column.overridePrice')}</th>
+                  <th scope="col" id="override-actions" className="px-6 py-4 text-end text-sm font-semibold text-gray-700">{t('override.column.actions')}</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200/50">
@@ -628,9 +660,9 @@ export default function OverridesPage() {
                     <td className="px-6 py-4 text-sm text-gray-800" headers="override-product">
                       <span
                         className="inline-block max-w-[220px] truncate align-middle"
-                        title={getProductName(override.productId)}
+                        title={getOverrideTargetName(override)}
                       >
-                        {getProductName(override.productId)}
+                        {getOverrideTargetName(override)}
                       </span>
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-800" headers="override-min-price">
@@ -639,12 +671,15 @@ export default function OverridesPage() {
                     <td className="px-6 py-4 text-sm text-gray-800 font-semibold" headers="override-override-price">
                       {formatPrice(override.overridePrice)}
                     </td>
-                    <td className="px-6 py-4 text-right" headers="override-actions">
-                      <div className="flex items-center justify-end gap-2" role="group" aria-label={`פעולות עבור מחיר מיוחד עבור ${getCustomerName(override.customerId)}`}>
+                    <td className="px-6 py-4 text-end" headers="override-actions">
+                      <div className="flex items-center justify-end gap-2" role="group" aria-label={t('overrides.actionsFor', { customer: getCustomerName(override.customerId) })}>
                         <button
                           onClick={() => handleEditOverride(override)}
                           className="glass-button p-2 rounded-lg hover:shadow-md transition-all focus-visible:outline-3 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
-                          aria-label={`ערוך מחיר מיוחד עבור ${getCustomerName(override.customerId)} - ${getProductName(override.productId)}`}
+                          aria-label={t('overrides.editNamed', {
+                            customer: getCustomerName(override.customerId),
+                            target: getOverrideTargetName(override),
+                          })}
                         >
                           <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -653,7 +688,10 @@ export default function OverridesPage() {
                         <button
                           onClick={() => setOverrideToDelete(override)}
                           className="glass-button p-2 rounded-lg hover:shadow-md transition-all border-red-500 hover:border-red-600 focus-visible:outline-3 focus-visible:outline-red-600 focus-visible:outline-offset-2"
-                          aria-label={`מחק מחיר מיוחד עבור ${getCustomerName(override.customerId)} - ${getProductName(override.productId)}`}
+                          aria-label={t('overrides.deleteNamed', {
+                            customer: getCustomerName(override.customerId),
+                            target: getOverrideTargetName(override),
+                          })}
                         >
                           <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -682,7 +720,6 @@ export default function OverridesPage() {
       {isAddModalOpen && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...addModalBackdropProps}
         >
@@ -691,7 +728,7 @@ export default function OverridesPage() {
             {...addModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">הוסף מחיר מיוחד</h2>
+              <h2 className="modal-header-title">{t('override.add')}</h2>
               <CloseButton onClick={handleCloseModal} />
             </div>
 
@@ -705,11 +742,11 @@ export default function OverridesPage() {
               {/* Product */}
               <div>
                 <label htmlFor="add-modal-product-search" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מוצר *
+                  {t('override.product')} *
                 </label>
                 <div className="relative mb-2">
                   <svg
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
+                    className="absolute start-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400"
                     fill="none"
                     stroke="currentColor"
                     viewBox="0 0 24 24"
@@ -719,19 +756,18 @@ export default function OverridesPage() {
                   <input
                     id="add-modal-product-search"
                     type="text"
-                    placeholder="חפש מוצרים..."
+                    placeholder={t('override.searchProducts')}
                     value={addModalProductSearch}
                     onChange={(e) => setAddModalProductSearch(e.target.value)}
                     className="glass-input w-full pr-10 pl-10 py-2 rounded-xl text-sm text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
-                    dir="rtl"
-                    aria-label="חפש מוצרים"
+                    aria-label={t('override.searchProductsLabel')}
                   />
                   {addModalProductSearch && (
                     <button
                       type="button"
                       onClick={() => setAddModalProductSearch('')}
-                      className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                      aria-label="נקה חיפוש"
+                      className="absolute end-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      aria-label={t('list.clearSearch')}
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -746,21 +782,21 @@ export default function OverridesPage() {
                         <svg className="w-10 h-10 mx-auto mb-2 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                         </svg>
-                        <p className="text-xs">לא נמצאו מוצרים</p>
+                        <p className="text-xs">{t('override.noProducts')}</p>
                         <button
                           type="button"
                           onClick={() => setAddModalProductSearch('')}
                           className="text-xs text-indigo-600 hover:text-indigo-700 mt-1"
                         >
-                          נקה חיפוש
+                          {t('list.clearSearch')}
                         </button>
                       </div>
                     ) : filteredProductsForAdd.length === 0 && !addModalProductSearch ? (
                       <div className="text-center py-6 text-gray-500">
                         {isLoading ? (
-                          <p className="text-xs">טוען מוצרים...</p>
+                          <p className="text-xs">{t('override.loadingProducts')}</p>
                         ) : (
-                          <p className="text-xs">אין מוצרים להצגה</p>
+                          <p className="text-xs">{t('override.noProductsToShow')}</p>
                         )}
                       </div>
                     ) : (
@@ -769,10 +805,10 @@ export default function OverridesPage() {
                           key={product.id}
                           type="button"
                           onClick={() => {
-                            setFormData((prev) => ({ ...prev, productId: product.id }));
+                            setFormData((prev) => ({ ...prev, productId: product.id, variantId: '' }));
                             if (showErrors && fieldErrors.productId) setFieldErrors((prev) => ({ ...prev, productId: '' }));
                           }}
-                          className={`w-full text-right px-3 py-2.5 rounded-lg transition-all flex items-center gap-2.5 ${
+                          className={`w-full text-start px-3 py-2.5 rounded-lg transition-all flex items-center gap-2.5 ${
                             formData.productId === product.id
                               ? 'bg-indigo-100 border-2 border-indigo-500 shadow-sm'
                               : 'bg-white hover:bg-gray-50 border border-transparent'
@@ -802,9 +838,35 @@ export default function OverridesPage() {
                   <div className="mt-3 p-3 bg-indigo-50/60 border border-indigo-200 rounded-xl text-sm text-indigo-800">
                     <p className="font-semibold">{selectedProductForAdd.name}</p>
                     <p className="mt-1 text-xs text-indigo-700">
-                      מחיר מינימלי: {formatPrice(selectedProductForAdd.minimumPrice)}
+                      {t('override.minimumPrice', { price: formatPrice(selectedProductForAdd.minimumPrice) })}
                     </p>
-                    <p className="mt-1 text-xs text-indigo-700">מחיר בסיס: {formatPrice(selectedProductForAdd.price)}</p>
+                    <p className="mt-1 text-xs text-indigo-700">
+                      {t('override.basePrice', {
+                        price: formatPrice(getOverrideBasePrice(selectedProductForAdd.id, formData.variantId || null)),
+                      })}
+                    </p>
+                  </div>
+                )}
+                {selectedProductForAdd && hasVariants(selectedProductForAdd) && (
+                  <div className="mt-3">
+                    <label htmlFor="variantId" className="block text-xs font-medium text-gray-700 mb-1.5">
+                      {t('override.appliesTo')}
+                    </label>
+                    <select
+                      id="variantId"
+                      name="variantId"
+                      value={formData.variantId}
+                      onChange={(e) => setFormData({ ...formData, variantId: e.target.value })}
+                      className="glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all"
+                    >
+                      <option value="">{t('override.allVariants')}</option>
+                      {selectedProductForAdd.variants!.map((variant) => (
+                        <option key={variant.id} value={variant.id}>
+                          {getVariantLabel(variant, selectedProductForAdd.variantAxes)}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">{t('override.variantHint')}</p>
                   </div>
                 )}
               </div>
@@ -812,7 +874,7 @@ export default function OverridesPage() {
               {/* Customer */}
               <div>
                 <label htmlFor="customerId" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  לקוח *
+                  {t('override.customerField')} *
                 </label>
                 <select
                   id="customerId"
@@ -829,7 +891,7 @@ export default function OverridesPage() {
                   }`}
                   dir="ltr"
                 >
-                  <option value="">בחר לקוח</option>
+                  <option value="">{t('override.selectCustomer')}</option>
                   {customers.map((customer) => (
                     <option key={customer.id} value={customer.id}>
                       {customer.name}
@@ -844,10 +906,10 @@ export default function OverridesPage() {
               {/* Override Price */}
               <div>
                 <label htmlFor="overridePrice" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מחיר מותאם *
+                  {t('override.price')} *
                 </label>
                 <div className="relative">
-                  <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                  <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                   <input
                     id="overridePrice"
                     name="overridePrice"
@@ -875,7 +937,7 @@ export default function OverridesPage() {
                         setFieldErrors({ ...fieldErrors, overridePrice: '' });
                       }
                     }}
-                    className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                    className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
                       showErrors && fieldErrors.overridePrice ? 'border-red-400 focus:ring-red-400/50' : ''
                     }`}
                     placeholder="0.00"
@@ -897,7 +959,7 @@ export default function OverridesPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -910,14 +972,14 @@ export default function OverridesPage() {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
-                      <span>יוצר...</span>
+                      <span>{t('common.creating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>צור מחיר מיוחד</span>
+                      <span>{t('override.create')}</span>
                     </>
                   )}
                 </button>
@@ -931,7 +993,6 @@ export default function OverridesPage() {
       {isEditModalOpen && overrideToEdit && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...editModalBackdropProps}
         >
@@ -940,17 +1001,17 @@ export default function OverridesPage() {
             {...editModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">ערוך מחיר מיוחד</h2>
+              <h2 className="modal-header-title">{t('override.editLabel')}</h2>
               <CloseButton onClick={handleCloseEditModal} />
             </div>
 
             {/* Show product and customer info (read-only) */}
             <div className="mb-4 p-4 bg-gray-100/50 rounded-xl space-y-2">
               <p className="text-sm text-gray-600">
-                <span className="font-semibold">מוצר:</span> {getProductName(overrideToEdit.productId)}
+                <span className="font-semibold">{t('override.productLabel')}</span> {getOverrideTargetName(overrideToEdit)}
               </p>
               <p className="text-sm text-gray-600">
-                <span className="font-semibold">לקוח:</span> {getCustomerName(overrideToEdit.customerId)}
+                <span className="font-semibold">{t('override.customerLabel')}</span> {getCustomerName(overrideToEdit.customerId)}
               </p>
             </div>
 
@@ -964,10 +1025,10 @@ export default function OverridesPage() {
               {/* Override Price */}
               <div>
                 <label htmlFor="edit-overridePrice" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מחיר מותאם *
+                  {t('override.price')} *
                 </label>
                 <div className="relative">
-                  <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                  <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                   <input
                     id="edit-overridePrice"
                     name="overridePrice"
@@ -995,7 +1056,7 @@ export default function OverridesPage() {
                         setFieldErrors({ ...fieldErrors, overridePrice: '' });
                       }
                     }}
-                    className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                    className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
                       showErrors && fieldErrors.overridePrice ? 'border-red-400 focus:ring-red-400/50' : ''
                     }`}
                     placeholder="0.00"
@@ -1017,7 +1078,7 @@ export default function OverridesPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -1030,14 +1091,14 @@ export default function OverridesPage() {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
-                      <span>מעדכן...</span>
+                      <span>{t('common.updating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>עדכן מחיר מיוחד</span>
+                      <span>{t('override.update')}</span>
                     </>
                   )}
                 </button>
@@ -1058,7 +1119,7 @@ export default function OverridesPage() {
             {...deleteModalContentProps}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-bold text-gray-800">מחק מחיר מיוחד</h2>
+              <h2 className="text-lg font-bold text-gray-800">{t('override.delete')}</h2>
               <button
                 onClick={() => setOverrideToDelete(null)}
                 className="p-2 hover:bg-white/20 rounded-lg transition-colors"
@@ -1071,38 +1132,38 @@ export default function OverridesPage() {
 
             <div className="mb-6">
               <p className="text-gray-700 mb-4">
-                האם אתה בטוח שברצונך למחוק את המחיר המיוחד הזה?
+                {t('override.deleteConfirm')}
               </p>
               <div className="p-4 bg-gray-100/50 rounded-xl space-y-2">
                 <p className="text-sm text-gray-600">
-                  <span className="font-semibold">לקוח:</span> {getCustomerName(overrideToDelete.customerId)}
+                  <span className="font-semibold">{t('override.customerLabel')}</span> {getCustomerName(overrideToDelete.customerId)}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <span className="font-semibold">מוצר:</span> {getProductName(overrideToDelete.productId)}
+                  <span className="font-semibold">{t('override.productLabel')}</span> {getOverrideTargetName(overrideToDelete)}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <span className="font-semibold">מחיר מקורי:</span> {formatPrice(productMap.get(overrideToDelete.productId)?.price ?? 0)}
+                  <span className="font-semibold">{t('override.originalPrice')}</span> {formatPrice(getOverrideBasePrice(overrideToDelete.productId, overrideToDelete.variantId))}
                 </p>
                 <p className="text-sm text-gray-600">
-                  <span className="font-semibold">מחיר מותאם:</span> {formatPrice(overrideToDelete.overridePrice)}
+                  <span className="font-semibold">{t('override.overridePriceLabel')}</span> {formatPrice(overrideToDelete.overridePrice)}
                 </p>
               </div>
             </div>
 
-            <div className="flex space-x-3">
+            <div className="flex gap-3">
               <button
                 onClick={() => setOverrideToDelete(null)}
                 disabled={isDeleting}
                 className="glass-button flex-1 py-2 px-4 rounded-xl text-sm font-semibold text-gray-800 disabled:opacity-50"
               >
-                ביטול
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleDeleteOverride}
                 disabled={isDeleting}
                 className="glass-button flex-1 py-2 px-4 rounded-xl text-sm font-semibold text-white bg-red-600 hover:bg-red-700 border-red-700 disabled:opacity-50"
               >
-                {isDeleting ? 'מוחק...' : 'מחק'}
+                {isDeleting ? t('common.deleting') : t('common.delete')}
               </button>
             </div>
           </div>
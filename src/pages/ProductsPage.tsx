@@ -1,13 +1,32 @@
 import { useEffect, useState } from 'react';
 import CloseButton from '../components/CloseButton';
 import { useNavigate } from 'react-router-dom';
-import { managerAPI, productAPI, publicAPI } from '../services/api';
-import type { Product, Category, Brand, CreateProductRequest, ProductInfo, ProductImage } from '../services/api';
+import { businessAPI, inventoryAPI, managerAPI, productAPI, publicAPI } from '../services/api';
+import type { Product, Category, Brand, CreateProductRequest, ProductInfo, ProductImage, Location, StockLevel } from '../services/api';
 import { formatPrice } from '../utils/formatPrice';
 import SparkMD5 from 'spark-md5';
 import Spinner from '../components/Spinner';
 import { useModalBackdrop } from '../hooks/useModalBackdrop';
+import { useWindowedGrid } from '../hooks/useWindowedGrid';
+import { usePreserveScroll } from '../hooks/usePreserveScroll';
 import { resolveApiErr } from '../utils/apiErrorMessage';
+import ProductVariantsEditor from '../components/ProductVariantsEditor';
+import {
+  EMPTY_VARIANTS_DRAFT,
+  getPriceRange,
+  hasVariants,
+  validateVariantsDraft,
+  variantInfoFromDraft,
+  variantsDraftFromProduct,
+} from '../utils/productVariants';
+import type { VariantsDraft } from '../utils/productVariants';
+import PriceTiersEditor from '../components/PriceTiersEditor';
+import { hasPriceTiers, priceTiersFromDrafts, tierDraftsFromProduct, validatePriceTierDrafts } from '../utils/priceTiers';
+import type { PriceTierDraft } from '../utils/priceTiers';
+import { MAX_BARCODE_LENGTH, MAX_SKU_LENGTH, productCodeFromInput, validateProductCodes } from '../utils/productCodes';
+import StockModal from '../components/StockModal';
+import { getStockQuantity, isInventoryEnabled, isLowStock } from '../utils/inventory';
+import { formatNumber, t } from '../utils/i18n';
 
 // Helper function to calculate MD5 hash of a file and return as Base64
 async function calculateFileMD5(file: File): Promise<string> {
@@ -44,7 +63,7 @@ async function calculateFileMD5(file: File): Promise<string> {
     };
 
     fileReader.onerror = function () {
-      reject(new Error('נכשל בקריאת הקובץ לחישוב הבדיקה'));
+      reject(new Error(t('image.error.read')));
     };
 
     function loadNext() {
@@ -63,6 +82,8 @@ const MAX_PRODUCT_DESCRIPTION_LENGTH = 1000;
 
 export default function ProductsPage() {
   const [products, setProducts] = useState<Product[]>([]);
+  // Unfiltered catalog, for SKU/barcode uniqueness checks
+  const [allProducts, setAllProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [brands, setBrands] = useState<Brand[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -94,7 +115,11 @@ export default function ProductsPage() {
     minimumPrice: '',
     price: '',
     description: '',
+    sku: '',
+    barcode: '',
   });
+  const [variantsDraft, setVariantsDraft] = useState<VariantsDraft>(EMPTY_VARIANTS_DRAFT);
+  const [tierDrafts, setTierDrafts] = useState<PriceTierDraft[]>([]);
   const [selectedImages, setSelectedImages] = useState<File[]>([]);
   const [formError, setFormError] = useState('');
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
@@ -119,8 +144,18 @@ export default function ProductsPage() {
     minimumPrice: '',
     price: '',
     description: '',
+    sku: '',
+    barcode: '',
   });
+  const [editVariantsDraft, setEditVariantsDraft] = useState<VariantsDraft>(EMPTY_VARIANTS_DRAFT);
+  const [editTierDrafts, setEditTierDrafts] = useState<PriceTierDraft[]>([]);
   const [managerId, setManagerId] = useState<string | null>(null);
+  // Stock: loaded only when the business tracks inventory
+  const [inventoryEnabled, setInventoryEnabled] = useState(false);
+  const [stockLevels, setStockLevels] = useState<StockLevel[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [stockProduct, setStockProduct] = useState<Product | null>(null);
+  const [lowStockOnly, setLowStockOnly] = useState(false);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -132,6 +167,7 @@ export default function ProductsPage() {
     if (managerId) {
       fetchCategories();
       fetchBrands();
+      fetchInventory();
     }
   }, [managerId]);
 
@@ -160,6 +196,7 @@ export default function ProductsPage() {
       setIsLoading(true);
       setError('');
       const list = await productAPI.getAllProducts();
+      setAllProducts(list);
       // Filter and sort client-side (BE returns all)
       let filtered = list;
       if (categoryFilter) filtered = filtered.filter((p) => p.categoryId === Number(categoryFilter));
@@ -218,6 +255,40 @@ export default function ProductsPage() {
     }
   };
 
+  const fetchInventory = async () => {
+    if (!managerId) return;
+    try {
+      const business = await businessAPI.getMyBusiness();
+      if (!isInventoryEnabled(business.inventorySettings)) {
+        setInventoryEnabled(false);
+        return;
+      }
+      const [levels, locationList] = await Promise.all([
+        inventoryAPI.getStockLevels(),
+        publicAPI.locations.getAllByManagerId(managerId),
+      ]);
+      setStockLevels(levels);
+      setLocations(locationList);
+      setInventoryEnabled(true);
+    } catch (err) {
+      console.error('Failed to fetch stock levels:', err);
+    }
+  };
+
+  const handleStockChange = (level: StockLevel) => {
+    setStockLevels((prev) => [
+      ...prev.filter(
+        (l) => !(l.productId === level.productId && l.variantId === level.variantId && l.locationId === level.locationId)
+      ),
+      level,
+    ]);
+  };
+
+  const handleStockProductChange = (updated: Product) => {
+    setProducts((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+    setStockProduct(updated);
+  };
+
   const handleSortChange = (newSortBy: string) => {
     if (newSortBy === sortBy) {
       setSortDirection(sortDirection === 'ASC' ? 'DESC' : 'ASC');
@@ -243,6 +314,10 @@ export default function ProductsPage() {
       value = value.slice(0, MAX_PRODUCT_NAME_LENGTH);
     } else if (name === 'description') {
       value = value.slice(0, MAX_PRODUCT_DESCRIPTION_LENGTH);
+    } else if (name === 'sku') {
+      value = value.slice(0, MAX_SKU_LENGTH);
+    } else if (name === 'barcode') {
+      value = value.slice(0, MAX_BARCODE_LENGTH);
     } else if ((name === 'minimumPrice' || name === 'price') && value !== '') {
       // Limit to 2 decimal places
       const decimalIndex = value.indexOf('.');
@@ -284,7 +359,11 @@ export default function ProductsPage() {
       minimumPrice: '',
       price: '',
       description: '',
+      sku: '',
+      barcode: '',
     });
+    setVariantsDraft(EMPTY_VARIANTS_DRAFT);
+    setTierDrafts([]);
     setSelectedImages([]);
     setFormError('');
     setFieldErrors({});
@@ -310,7 +389,7 @@ export default function ProductsPage() {
 
     // Check total count (existing + new)
     if (currentImages.length + newFiles.length > 5) {
-      setFormError(`ניתן להעלות עד 5 תמונות. כבר נבחרו ${currentImages.length} תמונות.`);
+      setFormError(t('productForm.error.tooManySelected', { count: currentImages.length }));
       return;
     }
 
@@ -319,14 +398,14 @@ export default function ProductsPage() {
       // Check file type
       const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
       if (!validTypes.includes(file.type)) {
-        errors.push(`${file.name}: סוג קובץ לא תקין. מותרים JPEG, PNG או WebP בלבד.`);
+        errors.push(t('productForm.error.imageType', { name: file.name }));
         return;
       }
 
       // Check file size (5MB = 5 * 1024 * 1024 bytes)
       const maxSize = 5 * 1024 * 1024;
       if (file.size > maxSize) {
-        errors.push(`${file.name}: גודל הקובץ חורג מ-5MB.`);
+        errors.push(t('productForm.error.imageSize', { name: file.name }));
         return;
       }
 
@@ -390,7 +469,7 @@ export default function ProductsPage() {
       // Check total count (existing visible + new to add)
       const currentImageCount = existingImages.length + newImagesToAdd.length;
       if (currentImageCount + newFiles.length > 5) {
-        setFormError(`ניתן להעלות עד 5 תמונות. כרגע: ${currentImageCount}, מנסים להוסיף: ${newFiles.length}`);
+        setFormError(t('productForm.error.tooManyAdded', { current: currentImageCount, adding: newFiles.length }));
         return;
       }
 
@@ -398,13 +477,13 @@ export default function ProductsPage() {
       newFiles.forEach((file) => {
         const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
         if (!validTypes.includes(file.type)) {
-          errors.push(`${file.name}: סוג קובץ לא תקין. מותרים JPEG, PNG או WebP בלבד.`);
+          errors.push(t('productForm.error.imageType', { name: file.name }));
           return;
         }
 
         const maxSize = 5 * 1024 * 1024;
         if (file.size > maxSize) {
-          errors.push(`${file.name}: גודל הקובץ חורג מ-5MB.`);
+          errors.push(t('productForm.error.imageSize', { name: file.name }));
           return;
         }
 
@@ -453,7 +532,7 @@ export default function ProductsPage() {
     // Check total count (existing visible + new to add)
     const currentImageCount = existingImages.length + newImagesToAdd.length;
     if (currentImageCount + newFiles.length > 5) {
-      setFormError(`ניתן להעלות עד 5 תמונות. כרגע: ${currentImageCount}, מנסים להוסיף: ${newFiles.length}`);
+      setFormError(t('productForm.error.tooManyAdded', { current: currentImageCount, adding: newFiles.length }));
       e.target.value = '';
       return;
     }
@@ -462,13 +541,13 @@ export default function ProductsPage() {
     newFiles.forEach((file) => {
       const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
       if (!validTypes.includes(file.type)) {
-        errors.push(`${file.name}: סוג קובץ לא תקין. מותרים JPEG, PNG או WebP בלבד.`);
+        errors.push(t('productForm.error.imageType', { name: file.name }));
         return;
       }
 
       const maxSize = 5 * 1024 * 1024;
       if (file.size > maxSize) {
-        errors.push(`${file.name}: גודל הקובץ חורג מ-5MB.`);
+        errors.push(t('productForm.error.imageSize', { name: file.name }));
         return;
       }
 
@@ -498,7 +577,11 @@ export default function ProductsPage() {
       minimumPrice: product.minimumPrice.toString(),
       price: product.price.toString(),
       description: (product.description || '').slice(0, MAX_PRODUCT_DESCRIPTION_LENGTH),
+      sku: product.sku ?? '',
+      barcode: product.barcode ?? '',
     });
+    setEditVariantsDraft(variantsDraftFromProduct(product));
+    setEditTierDrafts(tierDraftsFromProduct(product));
     setImagesToDelete([]);
     setNewImagesToAdd([]);
     // Use images already on product (include id for delete)
@@ -550,7 +633,11 @@ export default function ProductsPage() {
       minimumPrice: '',
       price: '',
       description: '',
+      sku: '',
+      barcode: '',
     });
+    setEditVariantsDraft(EMPTY_VARIANTS_DRAFT);
+    setEditTierDrafts([]);
     setExistingImages([]);
     setOriginalImages([]);
     setImagesToDelete([]);
@@ -569,6 +656,10 @@ export default function ProductsPage() {
       value = value.slice(0, MAX_PRODUCT_NAME_LENGTH);
     } else if (name === 'description') {
       value = value.slice(0, MAX_PRODUCT_DESCRIPTION_LENGTH);
+    } else if (name === 'sku') {
+      value = value.slice(0, MAX_SKU_LENGTH);
+    } else if (name === 'barcode') {
+      value = value.slice(0, MAX_BARCODE_LENGTH);
     } else if ((name === 'minimumPrice' || name === 'price') && value !== '') {
       // Limit to 2 decimal places
       const decimalIndex = value.indexOf('.');
@@ -606,29 +697,43 @@ export default function ProductsPage() {
     const errors: Record<string, string> = {};
     
     if (!editFormData.name.trim()) {
-      errors.name = 'שם המוצר נדרש';
+      errors.name = t('productForm.error.nameRequired');
     }
     if (!editFormData.minimumPrice) {
-      errors.minimumPrice = 'מחיר מינימלי נדרש';
+      errors.minimumPrice = t('productForm.error.minimumPriceRequired');
     } else if (isNaN(Number(editFormData.minimumPrice)) || Number(editFormData.minimumPrice) <= 0) {
-      errors.minimumPrice = 'מחיר מינימלי חייב להיות מספר חיובי';
+      errors.minimumPrice = t('productForm.error.minimumPricePositive');
     } else if (Number(editFormData.minimumPrice) > MAX_PRICE) {
-      errors.minimumPrice = 'מחיר מינימלי אינו יכול לעלות על 1,000,000';
+      errors.minimumPrice = t('productForm.error.minimumPriceMax', { max: formatNumber(MAX_PRICE) });
     }
     if (!editFormData.price) {
-      errors.price = 'מחיר נדרש';
+      errors.price = t('productForm.error.priceRequired');
     } else if (isNaN(Number(editFormData.price)) || Number(editFormData.price) <= 0) {
-      errors.price = 'מחיר חייב להיות מספר חיובי';
+      errors.price = t('productForm.error.pricePositive');
     } else if (Number(editFormData.price) > MAX_PRICE) {
-      errors.price = 'מחיר אינו יכול לעלות על 1,000,000';
+      errors.price = t('productForm.error.priceMax', { max: formatNumber(MAX_PRICE) });
     } else if (Number(editFormData.price) < Number(editFormData.minimumPrice || 0)) {
-      errors.price = 'מחיר אינו יכול להיות נמוך ממחיר מינימלי';
+      errors.price = t('productForm.error.priceBelowMinimum');
+    }
+    Object.assign(errors, validateProductCodes(editFormData.sku, editFormData.barcode, allProducts, productToEdit.id));
+    const editVariantsError = validateVariantsDraft(editVariantsDraft, Number(editFormData.minimumPrice || 0), MAX_PRICE);
+    if (editVariantsError) {
+      errors.variants = editVariantsError;
+    }
+    const editTiersError = validatePriceTierDrafts(
+      editTierDrafts,
+      Number(editFormData.price || 0),
+      Number(editFormData.minimumPrice || 0),
+      MAX_PRICE
+    );
+    if (editTiersError) {
+      errors.priceTiers = editTiersError;
     }
 
     // Validate image count (existing visible + new to add)
     const currentImageCount = existingImages.length + newImagesToAdd.length;
     if (currentImageCount > 5) {
-      setFormError('ניתן להעלות עד 5 תמונות לכל מוצר');
+      setFormError(t('productForm.error.tooManyImages'));
       return;
     }
 
@@ -641,6 +746,13 @@ export default function ProductsPage() {
     // Check if anything has changed
     const minimumPriceValue = Math.round(Math.min(Number(editFormData.minimumPrice), MAX_PRICE) * 100) / 100;
     const finalPrice = Math.round(Math.min(Number(editFormData.price), MAX_PRICE) * 100) / 100;
+    const variantInfo = variantInfoFromDraft(editVariantsDraft, productToEdit.variants);
+    const originalVariantInfo = {
+      variantAxes: productToEdit.variantAxes ?? [],
+      variants: (productToEdit.variants ?? []).map(({ id, options, price }) => ({ id, options, price })),
+    };
+    const priceTiers = priceTiersFromDrafts(editTierDrafts);
+    const originalPriceTiers = priceTiersFromDrafts(tierDraftsFromProduct(productToEdit));
     
     // Compare product data fields
     const productDataChanged =
@@ -649,7 +761,11 @@ export default function ProductsPage() {
       (editFormData.categoryId ? Number(editFormData.categoryId) : null) !== productToEdit.categoryId ||
       Math.abs(minimumPriceValue - productToEdit.minimumPrice) > 0.001 ||
       Math.abs(finalPrice - productToEdit.price) > 0.001 ||
-      (editFormData.description || '') !== (productToEdit.description || '');
+      (editFormData.description || '') !== (productToEdit.description || '') ||
+      productCodeFromInput(editFormData.sku) !== (productToEdit.sku ?? null) ||
+      productCodeFromInput(editFormData.barcode) !== (productToEdit.barcode ?? null) ||
+      JSON.stringify(variantInfo) !== JSON.stringify(originalVariantInfo) ||
+      JSON.stringify(priceTiers) !== JSON.stringify(originalPriceTiers);
     
     // Check if images changed
     const imagesChanged = imagesToDelete.length > 0 || newImagesToAdd.length > 0;
@@ -672,6 +788,10 @@ export default function ProductsPage() {
           minimumPrice: minimumPriceValue,
           price: finalPrice,
           description: editFormData.description ?? '',
+          sku: productCodeFromInput(editFormData.sku),
+          barcode: productCodeFromInput(editFormData.barcode),
+          ...variantInfo,
+          priceTiers,
         };
         await productAPI.updateProductInfo(productToEdit.id, productInfo);
       }
@@ -707,7 +827,7 @@ export default function ProductsPage() {
                 body: imageFile,
               });
               if (!s3Res.ok) {
-                throw new Error(`נכשל בהעלאת התמונה ${imageFile.name} ל-S3`);
+                throw new Error(t('productForm.error.imageUpload', { name: imageFile.name }));
               }
             })
           );
@@ -754,28 +874,42 @@ export default function ProductsPage() {
     const errors: Record<string, string> = {};
     
     if (!formData.name.trim()) {
-      errors.name = 'שם המוצר נדרש';
+      errors.name = t('productForm.error.nameRequired');
     }
     if (!formData.minimumPrice) {
-      errors.minimumPrice = 'מחיר מינימלי נדרש';
+      errors.minimumPrice = t('productForm.error.minimumPriceRequired');
     } else if (isNaN(Number(formData.minimumPrice)) || Number(formData.minimumPrice) <= 0) {
-      errors.minimumPrice = 'מחיר מינימלי חייב להיות מספר חיובי';
+      errors.minimumPrice = t('productForm.error.minimumPricePositive');
     } else if (Number(formData.minimumPrice) > MAX_PRICE) {
-      errors.minimumPrice = 'מחיר מינימלי אינו יכול לעלות על 1,000,000';
+      errors.minimumPrice = t('productForm.error.minimumPriceMax', { max: formatNumber(MAX_PRICE) });
     }
     if (!formData.price) {
-      errors.price = 'מחיר נדרש';
+      errors.price = t('productForm.error.priceRequired');
     } else if (isNaN(Number(formData.price)) || Number(formData.price) <= 0) {
-      errors.price = 'מחיר חייב להיות מספר חיובי';
+      errors.price = t('productForm.error.pricePositive');
     } else if (Number(formData.price) > MAX_PRICE) {
-      errors.price = 'מחיר אינו יכול לעלות על 1,000,000';
+      errors.price = t('productForm.error.priceMax', { max: formatNumber(MAX_PRICE) });
     } else if (Number(formData.price) < Number(formData.minimumPrice || 0)) {
-      errors.price = 'מחיר אינו יכול להיות נמוך ממחיר מינימלי';
+      errors.price = t('productForm.error.priceBelowMinimum');
+    }
+    Object.assign(errors, validateProductCodes(formData.sku, formData.barcode, allProducts, null));
+    const variantsError = validateVariantsDraft(variantsDraft, Number(formData.minimumPrice || 0), MAX_PRICE);
+    if (variantsError) {
+      errors.variants = variantsError;
+    }
+    const tiersError = validatePriceTierDrafts(
+      tierDrafts,
+      Number(formData.price || 0),
+      Number(formData.minimumPrice || 0),
+      MAX_PRICE
+    );
+    if (tiersError) {
+      errors.priceTiers = tiersError;
     }
 
     // Validate image count
     if (selectedImages.length > 5) {
-      setFormError('ניתן להעלות עד 5 תמונות לכל מוצר');
+      setFormError(t('productForm.error.tooManyImages'));
       return;
     }
 
@@ -812,6 +946,10 @@ export default function ProductsPage() {
           minimumPrice: minimumPriceValue,
           price: finalPrice,
           description: formData.description || '',
+          sku: productCodeFromInput(formData.sku),
+          barcode: productCodeFromInput(formData.barcode),
+          ...variantInfoFromDraft(variantsDraft),
+          priceTiers: priceTiersFromDrafts(tierDrafts),
         },
         imagesMetadata,
       };
@@ -835,7 +973,7 @@ export default function ProductsPage() {
             });
 
             if (!uploadResponse.ok) {
-              throw new Error(`נכשל בהעלאת התמונה ${imageFile.name} ל-S3`);
+              throw new Error(t('productForm.error.imageUpload', { name: imageFile.name }));
             }
           })
         );
@@ -856,6 +994,15 @@ export default function ProductsPage() {
     }
   };
 
+  const lowStockCount = inventoryEnabled ? products.filter((p) => isLowStock(p, stockLevels)).length : 0;
+  // The filter turns itself off once nothing is low any more
+  const visibleProducts =
+    lowStockOnly && lowStockCount > 0 ? products.filter((p) => isLowStock(p, stockLevels)) : products;
+
+  // Large catalogs: only the cards near the viewport are rendered
+  const productGrid = useWindowedGrid(visibleProducts.length);
+  usePreserveScroll(isEditModalOpen);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -880,7 +1027,7 @@ export default function ProductsPage() {
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
-          <p className="text-gray-600 font-medium">... טוען מוצרים</p>
+          <p className="text-gray-600 font-medium">{t('products.loading')}</p>
         </div>
       </div>
     );
@@ -888,9 +1035,9 @@ export default function ProductsPage() {
 
   if (error) {
     return (
-      <div className="max-w-4xl mx-auto" dir="rtl">
+      <div className="max-w-4xl mx-auto">
         <div className="glass-card rounded-3xl p-8 bg-red-50/50 border-red-200">
-          <h2 className="text-xl font-bold text-red-800 mb-2">שגיאה בטעינת מוצרים</h2>
+          <h2 className="text-xl font-bold text-red-800 mb-2">{t('products.loadError')}</h2>
           <p className="text-red-600">{error}</p>
         </div>
       </div>
@@ -898,13 +1045,26 @@ export default function ProductsPage() {
   }
 
   return (
-    <div className="max-w-6xl mx-auto space-y-4 pb-32" dir="rtl">
+    <div className="max-w-6xl mx-auto space-y-4 pb-32">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between">
           <div>
-            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">מוצרים</h1>
-            <p className="text-gray-600">קטלוג המוצרים שלך ({products.length} מוצרים)</p>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-2">{t('products.title')}</h1>
+            <p className="text-gray-600">{t('products.subtitle', { count: products.length })}</p>
+            {lowStockCount > 0 && (
+              <button
+                type="button"
+                onClick={() => setLowStockOnly((prev) => !prev)}
+                aria-pressed={lowStockOnly}
+                className={`mt-2 inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+                  lowStockOnly ? 'bg-amber-600 text-white' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                }`}
+              >
+                <span aria-hidden="true">⚠</span>
+                <span>{lowStockOnly ? t('products.showAll') : t('products.lowStockCount', { count: lowStockCount })}</span>
+              </button>
+            )}
           </div>
           <button
             onClick={() => setIsAddModalOpen(true)}
@@ -913,7 +1073,7 @@ export default function ProductsPage() {
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
-            <span>הוסף מוצר</span>
+            <span>{t('products.add')}</span>
           </button>
         </div>
       </div>
@@ -922,17 +1082,17 @@ export default function ProductsPage() {
       {(products.length > 0 || categoryFilter || brandFilter) && (
         <div className="glass-card rounded-3xl p-6">
           <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-start">
-            <div className="flex flex-col sm:flex-row sm:items-center gap-3 ml-auto">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 me-auto">
                 {/* Category Filter */}
                 <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium text-gray-700">קטגוריה:</span>
+                  <span className="text-sm font-medium text-gray-700">{t('products.filter.category')}</span>
                   <select
                     value={categoryFilter}
                     onChange={(e) => handleCategoryFilterChange(e.target.value)}
                     className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer w-32"
                     dir="ltr"
                   >
-                    <option value="">הכל</option>
+                    <option value="">{t('list.filter.all')}</option>
                     {categories.map((category) => (
                       <option key={category.id} value={category.id}>
                         {category.name}
@@ -943,14 +1103,14 @@ export default function ProductsPage() {
 
                 {/* Brand Filter */}
                 <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium text-gray-700">מותג:</span>
+                  <span className="text-sm font-medium text-gray-700">{t('products.filter.brand')}</span>
                   <select
                     value={brandFilter}
                     onChange={(e) => handleBrandFilterChange(e.target.value)}
                     className="glass-select pl-8 pr-4 py-2 rounded-xl text-sm font-semibold text-gray-800 cursor-pointer w-32"
                     dir="ltr"
                   >
-                    <option value="">הכל</option>
+                    <option value="">{t('list.filter.all')}</option>
                     {brands.map((brand) => (
                       <option key={brand.id} value={brand.id}>
                         {brand.name}
@@ -961,7 +1121,7 @@ export default function ProductsPage() {
 
                 {/* Sort Controls */}
                 <div className="flex flex-wrap items-center gap-2">
-                  <span className="text-sm font-medium text-gray-700">מיין לפי:</span>
+                  <span className="text-sm font-medium text-gray-700">{t('products.sortBy')}</span>
                   <button
                     onClick={() => handleSortChange('name')}
                     className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all flex items-center gap-2 ${
@@ -970,7 +1130,7 @@ export default function ProductsPage() {
                         : 'glass-button text-gray-800 hover:shadow-md'
                     }`}
                   >
-                    <span>שם</span>
+                    <span>{t('products.sort.name')}</span>
                     {sortBy === 'name' && (
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         {sortDirection === 'ASC' ? (
@@ -989,7 +1149,7 @@ export default function ProductsPage() {
                         : 'glass-button text-gray-800 hover:shadow-md'
                     }`}
                   >
-                    <span>מחיר</span>
+                    <span>{t('products.sort.price')}</span>
                     {sortBy === 'price' && (
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         {sortDirection === 'ASC' ? (
@@ -1021,10 +1181,10 @@ export default function ProductsPage() {
                   </svg>
                 </div>
                 <h2 className="text-2xl font-bold text-gray-800">
-                  אין מוצרים התואמים את המסננים
+                  {t('products.empty.filtered')}
                 </h2>
                 <p className="text-gray-600 max-w-md">
-                  אין מוצרים התואמים את המסננים שנבחרו.
+                  {t('products.empty.filteredHint')}
                 </p>
                 <button
                   onClick={() => {
@@ -1033,7 +1193,7 @@ export default function ProductsPage() {
                   }}
                   className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
                 >
-                  הצג את כל המוצרים
+                  {t('products.showAll')}
                 </button>
               </>
             ) : (
@@ -1044,27 +1204,34 @@ export default function ProductsPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
                   </svg>
                 </div>
-                <h2 className="text-2xl font-bold text-gray-800">אין מוצרים עדיין</h2>
+                <h2 className="text-2xl font-bold text-gray-800">{t('products.empty.none')}</h2>
                 <p className="text-gray-600 max-w-md">
-                  עדיין לא הוספת מוצרים לקטלוג שלך.
+                  {t('products.empty.noneHint')}
                 </p>
                 <button
                   onClick={() => setIsAddModalOpen(true)}
                   className="glass-button mt-4 px-8 py-3 rounded-xl font-semibold text-gray-800 hover:shadow-lg transition-all"
                 >
-                  הוסף את המוצר הראשון שלך
+                  {t('products.addFirst')}
                 </button>
               </>
             )}
           </div>
         </div>
       ) : (
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3 sm:gap-4 md:gap-6">
-          {products.map((product) => {
+        <div
+          ref={productGrid.gridRef}
+          style={productGrid.gridStyle}
+          className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3 sm:gap-4 md:gap-6"
+        >
+          {visibleProducts.slice(productGrid.startIndex, productGrid.endIndex).map((product) => {
             const images = productImages[product.id] || [];
             const currentImageIndex = productImageIndices[product.id] || 0;
+            const priceRange = getPriceRange(product);
             const previousImageIndex = productPrevImageIndices[product.id];
             const direction = productImageDirections[product.id];
+            const stockTotal = inventoryEnabled ? getStockQuantity(stockLevels, product.id) : null;
+            const lowStock = inventoryEnabled && isLowStock(product, stockLevels);
             return (
               <div key={product.id} className="glass-card rounded-xl overflow-hidden hover:shadow-2xl transition-all duration-300 group border border-gray-200/50 flex flex-col">
                 {/* Product Image */}
@@ -1122,6 +1289,8 @@ export default function ProductsPage() {
                         key={`${product.id}-current-${currentImageIndex}`}
                         src={images[currentImageIndex]}
                         alt={product.name}
+                        loading="lazy"
+                        decoding="async"
                         className={`absolute inset-0 w-full h-full object-contain transition-transform duration-500 ${
                           direction === 'prev'
                             ? 'animate-slide-in-right'
@@ -1147,7 +1316,7 @@ export default function ProductsPage() {
                               handlePrevProductImage(product.id, images);
                             }}
                             className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/60 hover:bg-black/80 text-white opacity-0 group-hover/image:opacity-100 transition-opacity backdrop-blur-sm z-10"
-                            title="Previous image"
+                            title={t('store.product.previousImage')}
                           >
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
@@ -1160,7 +1329,7 @@ export default function ProductsPage() {
                               handleNextProductImage(product.id, images);
                             }}
                             className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/60 hover:bg-black/80 text-white opacity-0 group-hover/image:opacity-100 transition-opacity backdrop-blur-sm z-10"
-                            title="Next image"
+                            title={t('store.product.nextImage')}
                           >
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -1192,7 +1361,7 @@ export default function ProductsPage() {
                         handleEditProduct(product);
                       }}
                       className="p-2 md:p-1.5 rounded-lg bg-white/90 hover:bg-white transition-colors shadow-md backdrop-blur-sm touch-manipulation"
-                      title="ערוך מוצר"
+                      title={t('products.edit')}
                     >
                       <svg className="w-5 h-5 md:w-4 md:h-4 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
@@ -1204,7 +1373,7 @@ export default function ProductsPage() {
                         setProductToDelete(product);
                       }}
                       className="p-2 md:p-1.5 rounded-lg bg-white/90 hover:bg-red-50 transition-colors shadow-md backdrop-blur-sm touch-manipulation"
-                      title="מחק מוצר"
+                      title={t('products.delete')}
                     >
                       <svg className="w-5 h-5 md:w-4 md:h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -1219,6 +1388,11 @@ export default function ProductsPage() {
                   <h3 className="text-base font-bold text-gray-900 mb-1 line-clamp-1">
                     {product.name}
                   </h3>
+                  {(product.sku || product.barcode) && (
+                    <p className="text-[11px] text-gray-500 font-mono mb-1 truncate text-start">
+                      <span dir="ltr">{[product.sku, product.barcode].filter(Boolean).join(' · ')}</span>
+                    </p>
+                  )}
 
                   {/* Description */}
                   <p className="text-xs text-gray-600 mb-1 whitespace-pre-line line-clamp-2">
@@ -1231,13 +1405,42 @@ export default function ProductsPage() {
                       <span className="text-xl font-bold text-purple-600">
                         {formatPrice(product.price)}
                       </span>
+                      {hasVariants(product) && (
+                        <span className="text-xs text-indigo-600 font-medium">
+                          {t('variant.editor.count', { count: product.variants!.length })}
+                          {priceRange.min !== priceRange.max &&
+                            ` · ${formatPrice(priceRange.min)}–${formatPrice(priceRange.max)}`}
+                        </span>
+                      )}
+                      {hasPriceTiers(product) && (
+                        <span className="text-xs text-emerald-700 font-medium">
+                          {t('products.priceTierCount', { count: product.priceTiers!.length })}
+                        </span>
+                      )}
                       {product.price > product.minimumPrice && (
                         <span className="text-xs text-gray-400">
-                          Min {formatPrice(product.minimumPrice)}
+                          {t('products.minimumPrice', { price: formatPrice(product.minimumPrice) })}
                         </span>
                       )}
                     </div>
                   </div>
+
+                  {/* Stock */}
+                  {stockTotal != null && (
+                    <button
+                      type="button"
+                      onClick={() => setStockProduct(product)}
+                      className={`mt-auto flex items-center justify-between gap-1 px-2 py-1 rounded-lg text-xs font-semibold transition-colors ${
+                        lowStock
+                          ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                      title={t('products.manageStock')}
+                    >
+                      <span>{t('products.stock', { quantity: stockTotal })}</span>
+                      {lowStock && <span>{stockTotal <= 0 ? t('products.stock.out') : t('products.stock.low')}</span>}
+                    </button>
+                  )}
                 </div>
               </div>
             );
@@ -1245,11 +1448,22 @@ export default function ProductsPage() {
         </div>
       )}
 
+      {stockProduct && (
+        <StockModal
+          isOpen={!!stockProduct}
+          onClose={() => setStockProduct(null)}
+          product={stockProduct}
+          locations={locations}
+          stockLevels={stockLevels}
+          onStockChange={handleStockChange}
+          onProductChange={handleStockProductChange}
+        />
+      )}
+
       {/* Add Product Modal */}
       {isAddModalOpen && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...addModalBackdropProps}
         >
@@ -1258,7 +1472,7 @@ export default function ProductsPage() {
             {...addModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">הוסף מוצר חדש</h2>
+              <h2 className="modal-header-title">{t('productForm.addTitle')}</h2>
               <CloseButton onClick={handleCloseModal} />
             </div>
 
@@ -1271,7 +1485,7 @@ export default function ProductsPage() {
             <form onSubmit={handleSubmit} noValidate className="space-y-3.5">
               <div>
                 <label htmlFor="name" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  שם המוצר *
+                  {t('productForm.name')} *
                 </label>
                 <input
                   id="name"
@@ -1284,7 +1498,7 @@ export default function ProductsPage() {
                     showErrors && fieldErrors.name ? 'border-red-400 focus:ring-red-400/50' : ''
                   }`}
                   dir="ltr"
-                  placeholder="לדוגמה: פולי קפה פרמיום"
+                  placeholder={t('productForm.namePlaceholder')}
                 />
                 {showErrors && fieldErrors.name && (
                   <p className="text-red-500 text-xs mt-1">{fieldErrors.name}</p>
@@ -1293,7 +1507,7 @@ export default function ProductsPage() {
 
               <div>
                 <label htmlFor="categoryId" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  קטגוריה
+                  {t('productForm.category')}
                 </label>
                 <select
                   id="categoryId"
@@ -1303,7 +1517,7 @@ export default function ProductsPage() {
                   className="glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all"
                   dir="ltr"
                 >
-                  <option value="">ללא</option>
+                  <option value="">{t('productForm.none')}</option>
                   {categories.map((category) => (
                     <option key={category.id} value={category.id}>
                       {category.name}
@@ -1314,7 +1528,7 @@ export default function ProductsPage() {
 
               <div>
                 <label htmlFor="brandId" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מותג
+                  {t('productForm.brand')}
                 </label>
                 <select
                   id="brandId"
@@ -1324,7 +1538,7 @@ export default function ProductsPage() {
                   className="glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all"
                   dir="ltr"
                 >
-                  <option value="">ללא</option>
+                  <option value="">{t('productForm.none')}</option>
                   {brands.map((brand) => (
                     <option key={brand.id} value={brand.id}>
                       {brand.name}
@@ -1333,13 +1547,59 @@ export default function ProductsPage() {
                 </select>
               </div>
 
+              <div className="grid grid-cols-2 gap-3.5">
+                <div>
+                  <label htmlFor="sku" className="block text-xs font-medium text-gray-700 mb-1.5">
+                    {t('productForm.sku')}
+                  </label>
+                  <input
+                    id="sku"
+                    name="sku"
+                    type="text"
+                    value={formData.sku}
+                    onChange={handleInputChange}
+                    className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center font-mono focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                      showErrors && fieldErrors.sku ? 'border-red-400 focus:ring-red-400/50' : ''
+                    }`}
+                    dir="ltr"
+                    placeholder={t('productForm.none')}
+                    autoComplete="off"
+                  />
+                  {showErrors && fieldErrors.sku && (
+                    <p className="text-red-500 text-xs mt-1">{fieldErrors.sku}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="barcode" className="block text-xs font-medium text-gray-700 mb-1.5">
+                    {t('productForm.barcode')}
+                  </label>
+                  <input
+                    id="barcode"
+                    name="barcode"
+                    type="text"
+                    value={formData.barcode}
+                    onChange={handleInputChange}
+                    className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center font-mono focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                      showErrors && fieldErrors.barcode ? 'border-red-400 focus:ring-red-400/50' : ''
+                    }`}
+                    dir="ltr"
+                    placeholder={t('productForm.none')}
+                    autoComplete="off"
+                  />
+                  {showErrors && fieldErrors.barcode && (
+                    <p className="text-red-500 text-xs mt-1">{fieldErrors.barcode}</p>
+                  )}
+                </div>
+              </div>
+
               <div className="grid grid-cols-2 gap-3.5">
                 <div>
                   <label htmlFor="minimumPrice" className="block text-xs font-medium text-gray-700 mb-1.5">
-                    מחיר מינימלי *
+                    {t('productForm.minimumPrice')} *
                   </label>
                   <div className="relative">
-                    <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                    <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                     <input
                       id="minimumPrice"
                       name="minimumPrice"
@@ -1349,7 +1609,7 @@ export default function ProductsPage() {
                       max={MAX_PRICE}
                       value={formData.minimumPrice}
                       onChange={handleInputChange}
-                      className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                      className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
                         showErrors && fieldErrors.minimumPrice ? 'border-red-400 focus:ring-red-400/50' : ''
                       }`}
                       dir="ltr"
@@ -1363,10 +1623,10 @@ export default function ProductsPage() {
 
                 <div>
                   <label htmlFor="price" className="block text-xs font-medium text-gray-700 mb-1.5">
-                    מחיר *
+                    {t('productForm.price')} *
                   </label>
                   <div className="relative">
-                    <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                    <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                     <input
                       id="price"
                       name="price"
@@ -1376,7 +1636,7 @@ export default function ProductsPage() {
                       max={MAX_PRICE}
                       value={formData.price}
                       onChange={handleInputChange}
-                      className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                      className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 text-center focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
                         showErrors && fieldErrors.price ? 'border-red-400 focus:ring-red-400/50' : ''
                       }`}
                       dir="ltr"
@@ -1389,9 +1649,20 @@ export default function ProductsPage() {
                 </div>
               </div>
 
+              <PriceTiersEditor
+                idPrefix="add"
+                tiers={tierDrafts}
+                onChange={(next) => {
+                  setTierDrafts(next);
+                  if (showErrors && fieldErrors.priceTiers) setFieldErrors({ ...fieldErrors, priceTiers: '' });
+                }}
+                basePrice={formData.price}
+                error={showErrors ? fieldErrors.priceTiers : undefined}
+              />
+
               <div>
                 <label htmlFor="description" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  תיאור
+                  {t('productForm.description')}
                 </label>
                 <textarea
                   id="description"
@@ -1400,15 +1671,26 @@ export default function ProductsPage() {
                   onChange={handleInputChange}
                   maxLength={MAX_PRODUCT_DESCRIPTION_LENGTH}
                   className="glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-none transition-all"
-                  placeholder="תיאור המוצר (אופציונלי)"
+                  placeholder={t('productForm.descriptionPlaceholder')}
                   rows={3}
                 />
               </div>
 
+              <ProductVariantsEditor
+                idPrefix="add"
+                draft={variantsDraft}
+                onChange={(draft) => {
+                  setVariantsDraft(draft);
+                  if (showErrors && fieldErrors.variants) setFieldErrors({ ...fieldErrors, variants: '' });
+                }}
+                basePrice={formData.price}
+                error={showErrors ? fieldErrors.variants : undefined}
+              />
+
               {/* Image Upload Section */}
               <div>
                 <label htmlFor="images" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  תמונות <span className="text-gray-500 text-xs">(עד 5, אופציונלי)</span>
+                  {t('productForm.images')} <span className="text-gray-500 text-xs">{t('productForm.imagesHint')}</span>
                 </label>
                 <div className="space-y-3">
                   <div className="relative">
@@ -1439,10 +1721,10 @@ export default function ProductsPage() {
                       </svg>
                       <span className="text-sm font-medium">
                         {selectedImages.length >= 5
-                          ? 'הושג מקסימום 5 תמונות'
+                          ? t('productForm.maxImagesReached')
                           : isDragging
-                            ? 'שחרר תמונות כאן'
-                            : `בחר תמונות או גרור ושחרר (${selectedImages.length}/5)`}
+                            ? t('productForm.dropImages')
+                            : t('productForm.chooseImages', { count: selectedImages.length })}
                       </span>
                     </label>
                   </div>
@@ -1455,14 +1737,18 @@ export default function ProductsPage() {
                           <div className="relative group bg-gray-100 rounded-lg border-2 border-gray-200 p-2 flex items-center justify-center">
                             <img
                               src={URL.createObjectURL(image)}
-                              alt={formData.name ? `תצוגה מקדימה של תמונת המוצר ${formData.name} - תמונה ${index + 1}` : `תצוגה מקדימה של תמונת מוצר - תמונה ${index + 1}`}
+                              alt={
+                                formData.name
+                                  ? t('productForm.previewAlt', { name: formData.name, number: index + 1 })
+                                  : t('productForm.previewAltUnnamed', { number: index + 1 })
+                              }
                               className="max-w-full max-h-24 object-contain rounded-lg"
                             />
                             <button
                               type="button"
                               onClick={() => handleRemoveImage(index)}
-                              className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-                              title="Remove image"
+                              className="absolute top-1 end-1 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
+                              title={t('image.remove')}
                             >
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -1478,10 +1764,10 @@ export default function ProductsPage() {
                   )}
 
                   <p className="text-xs text-gray-500 text-center">
-                    סדר התמונות לפי השמות שלהם
+                    {t('productForm.imageOrder')}
                   </p>
                   <p className="text-xs text-gray-500 text-center">
-                    JPEG, PNG, WebP. גודל מקסימלי: 5MB לכל תמונה.
+                    {t('productForm.imageHint')}
                   </p>
                 </div>
               </div>
@@ -1496,7 +1782,7 @@ export default function ProductsPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -1506,14 +1792,14 @@ export default function ProductsPage() {
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>יוצר...</span>
+                      <span>{t('common.creating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>צור מוצר</span>
+                      <span>{t('productForm.create')}</span>
                     </>
                   )}
                 </button>
@@ -1527,7 +1813,6 @@ export default function ProductsPage() {
       {isEditModalOpen && productToEdit && (
         <div 
           className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" 
-          dir="rtl" 
           style={{ margin: 0, top: 0 }}
           {...editModalBackdropProps}
         >
@@ -1536,7 +1821,7 @@ export default function ProductsPage() {
             {...editModalContentProps}
           >
             <div className="modal-header">
-              <h2 className="modal-header-title">ערוך מוצר</h2>
+              <h2 className="modal-header-title">{t('productForm.editTitle')}</h2>
               <CloseButton onClick={handleCloseEditModal} />
             </div>
 
@@ -1549,7 +1834,7 @@ export default function ProductsPage() {
             <form onSubmit={handleEditSubmit} noValidate className="space-y-3.5">
               <div>
                 <label htmlFor="edit-name" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  שם המוצר *
+                  {t('productForm.name')} *
                 </label>
                 <input
                   id="edit-name"
@@ -1562,7 +1847,7 @@ export default function ProductsPage() {
                     showErrors && fieldErrors.name ? 'border-red-400 focus:ring-red-400/50' : ''
                   }`}
                   dir="ltr"
-                  placeholder="לדוגמה: פולי קפה פרמיום"
+                  placeholder={t('productForm.namePlaceholder')}
                 />
                 {showErrors && fieldErrors.name && (
                   <p className="text-red-500 text-xs mt-1">{fieldErrors.name}</p>
@@ -1571,7 +1856,7 @@ export default function ProductsPage() {
 
               <div>
                 <label htmlFor="edit-categoryId" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  קטגוריה
+                  {t('productForm.category')}
                 </label>
                 <select
                   id="edit-categoryId"
@@ -1581,7 +1866,7 @@ export default function ProductsPage() {
                   className="glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center"
                   dir="ltr"
                 >
-                  <option value="">ללא</option>
+                  <option value="">{t('productForm.none')}</option>
                   {categories.map((category) => (
                     <option key={category.id} value={category.id}>
                       {category.name}
@@ -1592,7 +1877,7 @@ export default function ProductsPage() {
 
               <div>
                 <label htmlFor="edit-brandId" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  מותג
+                  {t('productForm.brand')}
                 </label>
                 <select
                   id="edit-brandId"
@@ -1602,7 +1887,7 @@ export default function ProductsPage() {
                   className="glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center"
                   dir="ltr"
                 >
-                  <option value="">ללא</option>
+                  <option value="">{t('productForm.none')}</option>
                   {brands.map((brand) => (
                     <option key={brand.id} value={brand.id}>
                       {brand.name}
@@ -1611,13 +1896,59 @@ export default function ProductsPage() {
                 </select>
               </div>
 
+              <div className="grid grid-cols-2 gap-3.5">
+                <div>
+                  <label htmlFor="edit-sku" className="block text-xs font-medium text-gray-700 mb-1.5">
+                    {t('productForm.sku')}
+                  </label>
+                  <input
+                    id="edit-sku"
+                    name="sku"
+                    type="text"
+                    value={editFormData.sku}
+                    onChange={handleEditInputChange}
+                    className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center font-mono focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                      showErrors && fieldErrors.sku ? 'border-red-400 focus:ring-red-400/50' : ''
+                    }`}
+                    dir="ltr"
+                    placeholder={t('productForm.none')}
+                    autoComplete="off"
+                  />
+                  {showErrors && fieldErrors.sku && (
+                    <p className="text-red-500 text-xs mt-1">{fieldErrors.sku}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="edit-barcode" className="block text-xs font-medium text-gray-700 mb-1.5">
+                    {t('productForm.barcode')}
+                  </label>
+                  <input
+                    id="edit-barcode"
+                    name="barcode"
+                    type="text"
+                    value={editFormData.barcode}
+                    onChange={handleEditInputChange}
+                    className={`glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 text-center font-mono focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all ${
+                      showErrors && fieldErrors.barcode ? 'border-red-400 focus:ring-red-400/50' : ''
+                    }`}
+                    dir="ltr"
+                    placeholder={t('productForm.none')}
+                    autoComplete="off"
+                  />
+                  {showErrors && fieldErrors.barcode && (
+                    <p className="text-red-500 text-xs mt-1">{fieldErrors.barcode}</p>
+                  )}
+                </div>
+              </div>
+
               <div className="grid grid-cols-2 gap-3.5">
                 <div>
                   <label htmlFor="edit-minimumPrice" className="block text-xs font-medium text-gray-700 mb-1.5">
-                    מחיר מינימלי *
+                    {t('productForm.minimumPrice')} *
                   </label>
                   <div className="relative">
-                    <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                    <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                     <input
                       id="edit-minimumPrice"
                       name="minimumPrice"
@@ -1627,7 +1958,7 @@ export default function ProductsPage() {
                       max={MAX_PRICE}
                       value={editFormData.minimumPrice}
                       onChange={handleEditInputChange}
-                      className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
+                      className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                         showErrors && fieldErrors.minimumPrice ? 'border-red-400 focus:ring-red-400/50' : ''
                       }`}
                       dir="ltr"
@@ -1641,10 +1972,10 @@ export default function ProductsPage() {
 
                 <div>
                   <label htmlFor="edit-price" className="block text-xs font-medium text-gray-700 mb-1.5">
-                    מחיר *
+                    {t('productForm.price')} *
                   </label>
                   <div className="relative">
-                    <span className="absolute right-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
+                    <span className="absolute start-3 top-2.5 text-gray-700 text-sm font-semibold z-10">₪</span>
                     <input
                       id="edit-price"
                       name="price"
@@ -1654,7 +1985,7 @@ export default function ProductsPage() {
                       max={MAX_PRICE}
                       value={editFormData.price}
                       onChange={handleEditInputChange}
-                      className={`glass-input w-full pr-7 pl-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
+                      className={`glass-input w-full px-7 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all text-center ${
                         showErrors && fieldErrors.price ? 'border-red-400 focus:ring-red-400/50' : ''
                       }`}
                       dir="ltr"
@@ -1667,9 +1998,20 @@ export default function ProductsPage() {
                 </div>
               </div>
 
+              <PriceTiersEditor
+                idPrefix="edit"
+                tiers={editTierDrafts}
+                onChange={(next) => {
+                  setEditTierDrafts(next);
+                  if (showErrors && fieldErrors.priceTiers) setFieldErrors({ ...fieldErrors, priceTiers: '' });
+                }}
+                basePrice={editFormData.price}
+                error={showErrors ? fieldErrors.priceTiers : undefined}
+              />
+
               <div>
                 <label htmlFor="edit-description" className="block text-xs font-medium text-gray-700 mb-1.5">
-                  תיאור
+                  {t('productForm.description')}
                 </label>
                 <textarea
                   id="edit-description"
@@ -1678,35 +2020,50 @@ export default function ProductsPage() {
                   onChange={handleEditInputChange}
                   maxLength={MAX_PRODUCT_DESCRIPTION_LENGTH}
                   className="glass-input w-full px-3.5 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500/50 transition-all resize-none"
-                  placeholder="תיאור המוצר (אופציונלי)"
+                  placeholder={t('productForm.descriptionPlaceholder')}
                   rows={3}
                 />
               </div>
 
+              <ProductVariantsEditor
+                idPrefix="edit"
+                draft={editVariantsDraft}
+                onChange={(draft) => {
+                  setEditVariantsDraft(draft);
+                  if (showErrors && fieldErrors.variants) setFieldErrors({ ...fieldErrors, variants: '' });
+                }}
+                basePrice={editFormData.price}
+                error={showErrors ? fieldErrors.variants : undefined}
+              />
+
               {/* Image Management Section */}
               <div>
                 <label className="block text-xs font-medium text-gray-700 mb-1.5">
-                  תמונות <span className="text-gray-500 text-xs">(עד 5 סה״כ)</span>
+                  {t('productForm.images')} <span className="text-gray-500 text-xs">{t('productForm.imagesTotalHint')}</span>
                 </label>
                 <div className="space-y-3">
                   {/* Existing Images */}
                   {existingImages.length > 0 && (
                     <div>
-                      <p className="text-xs font-medium text-gray-600 mb-2">תמונות קיימות:</p>
+                      <p className="text-xs font-medium text-gray-600 mb-2">{t('productForm.existingImages')}</p>
                       <div className="grid grid-cols-3 gap-2">
                         {[...existingImages].sort((a, b) => a.fileName.localeCompare(b.fileName, undefined, { numeric: true, sensitivity: 'base' })).map((image) => (
                           <div key={image.id} className="flex flex-col">
                             <div className="relative group bg-gray-100 rounded-lg border-2 border-gray-200 p-2 flex items-center justify-center">
                               <img
                                 src={image.url}
-                                alt={productToEdit ? `תמונת המוצר ${productToEdit.name} - ${image.fileName}` : `תמונת מוצר - ${image.fileName}`}
+                                alt={
+                                  productToEdit
+                                    ? t('productForm.imageAlt', { name: productToEdit.name, file: image.fileName })
+                                    : t('productForm.imageAltUnnamed', { file: image.fileName })
+                                }
                                 className="max-w-full max-h-24 object-contain rounded-lg"
                               />
                               <button
                                 type="button"
                                 onClick={() => handleDeleteExistingImage(image.id)}
-                                className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-                                title="מחק תמונה"
+                                className="absolute top-1 end-1 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
+                                title={t('productForm.deleteImage')}
                               >
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -1725,7 +2082,9 @@ export default function ProductsPage() {
                   {/* Images Marked for Deletion */}
                   {imagesToDelete.length > 0 && (
                     <div>
-                      <p className="text-xs font-medium text-red-600 mb-2">תמונות למחיקה ({imagesToDelete.length}):</p>
+                      <p className="text-xs font-medium text-red-600 mb-2">
+                        {t('productForm.imagesToDelete', { count: imagesToDelete.length })}
+                      </p>
                       <div className="flex flex-wrap gap-2">
                         {imagesToDelete.map((imageId) => {
                           const deletedImage = originalImages.find(img => img.id === imageId);
@@ -1734,14 +2093,18 @@ export default function ProductsPage() {
                             <div key={imageId} className="relative opacity-50 border-2 border-red-300 rounded-lg p-1">
                               <img
                                 src={deletedImage.url}
-                                alt={productToEdit ? `תמונת המוצר ${productToEdit.name} למחיקה - ${deletedImage.fileName}` : `תמונת מוצר למחיקה - ${deletedImage.fileName}`}
+                                alt={
+                                  productToEdit
+                                    ? t('productForm.deletedImageAlt', { name: productToEdit.name, file: deletedImage.fileName })
+                                    : t('productForm.deletedImageAltUnnamed', { file: deletedImage.fileName })
+                                }
                                 className="w-16 h-16 object-cover rounded"
                               />
                               <button
                                 type="button"
                                 onClick={() => handleUndoDeleteImage(imageId)}
-                                className="absolute -top-1 -right-1 p-1 bg-green-500 text-white rounded-full shadow-lg"
-                                title="בטל מחיקה"
+                                className="absolute -top-1 -end-1 p-1 bg-green-500 text-white rounded-full shadow-lg"
+                                title={t('productForm.undoDelete')}
                               >
                                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -1757,21 +2120,25 @@ export default function ProductsPage() {
                   {/* New Images to Add */}
                   {newImagesToAdd.length > 0 && (
                     <div>
-                      <p className="text-xs font-medium text-green-600 mb-2">תמונות חדשות להוספה:</p>
+                      <p className="text-xs font-medium text-green-600 mb-2">{t('productForm.newImages')}</p>
                       <div className="grid grid-cols-3 gap-2">
                         {[...newImagesToAdd].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })).map((image, index) => (
                           <div key={index} className="flex flex-col">
                             <div className="relative group bg-gray-100 rounded-lg border-2 border-green-200 p-2 flex items-center justify-center">
                               <img
                                 src={URL.createObjectURL(image)}
-                                alt={productToEdit ? `תצוגה מקדימה של תמונת המוצר ${productToEdit.name} - תמונה חדשה ${index + 1}` : `תצוגה מקדימה של תמונת מוצר - תמונה חדשה ${index + 1}`}
+                                alt={
+                                  productToEdit
+                                    ? t('productForm.newPreviewAlt', { name: productToEdit.name, number: index + 1 })
+                                    : t('productForm.newPreviewAltUnnamed', { number: index + 1 })
+                                }
                                 className="max-w-full max-h-24 object-contain rounded-lg"
                               />
                               <button
                                 type="button"
                                 onClick={() => handleRemoveNewImage(index)}
-                                className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
-                                title="Remove image"
+                                className="absolute top-1 end-1 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity shadow-lg"
+                                title={t('image.remove')}
                               >
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -1816,19 +2183,19 @@ export default function ProductsPage() {
                       </svg>
                       <span className="text-sm font-medium">
                         {(existingImages.length + newImagesToAdd.length) >= 5
-                          ? 'הושג מקסימום 5 תמונות'
+                          ? t('productForm.maxImagesReached')
                           : isDraggingEdit
-                            ? 'שחרר תמונות כאן'
-                            : `הוסף עוד תמונות או גרור ושחרר (${existingImages.length + newImagesToAdd.length}/5)`}
+                            ? t('productForm.dropImages')
+                            : t('productForm.addMoreImages', { count: existingImages.length + newImagesToAdd.length })}
                       </span>
                     </label>
                   </div>
 
                   <p className="text-xs text-gray-500 text-center">
-                    סדר התמונות לפי השמות שלהם
+                    {t('productForm.imageOrder')}
                   </p>
                   <p className="text-xs text-gray-500 text-center">
-                    JPEG, PNG, WebP. גודל מקסימלי: 5MB לכל תמונה.
+                    {t('productForm.imageHint')}
                   </p>
                 </div>
               </div>
@@ -1843,7 +2210,7 @@ export default function ProductsPage() {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                   </svg>
-                  <span>ביטול</span>
+                  <span>{t('common.cancel')}</span>
                 </button>
                 <button
                   type="submit"
@@ -1853,14 +2220,14 @@ export default function ProductsPage() {
                   {isSubmitting ? (
                     <>
                       <Spinner size="sm" />
-                      <span>מעדכן...</span>
+                      <span>{t('common.updating')}</span>
                     </>
                   ) : (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
-                      <span>עדכן מוצר</span>
+                      <span>{t('productForm.update')}</span>
                     </>
                   )}
                 </button>
@@ -1879,11 +2246,10 @@ export default function ProductsPage() {
         >
           <div 
             className="glass-card rounded-3xl p-6 md:p-8 w-full max-w-md bg-white/90" 
-            dir="rtl"
             {...deleteModalContentProps}
           >
             <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-bold text-gray-800">מחק מוצר</h2>
+              <h2 className="text-xl font-bold text-gray-800">{t('products.delete')}</h2>
               <button
                 onClick={() => setProductToDelete(null)}
                 className="p-2 hover:bg-white/20 rounded-lg transition-colors"
@@ -1906,7 +2272,7 @@ export default function ProductsPage() {
 
             <div className="mb-6">
               <p className="text-gray-700 mb-4 break-words">
-                האם אתה בטוח שברצונך למחוק את <span className="font-semibold">{productToDelete.name}</span>? פעולה זו לא ניתנת לביטול.
+                {t('products.deleteConfirm', { name: productToDelete.name })}
               </p>
               <div className="glass-card bg-yellow-50/50 border-yellow-200 rounded-xl p-4">
                 <div className="flex items-start gap-2">
@@ -1914,7 +2280,7 @@ export default function ProductsPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                   </svg>
                   <p className="text-sm text-yellow-800">
-                    מוצר זה יוסר מהקטלוג שלך. נתונים היסטוריים יישמרו במערכת.
+                    {t('products.deleteWarning')}
                   </p>
                 </div>
               </div>
@@ -1926,7 +2292,7 @@ export default function ProductsPage() {
                 disabled={isDeleting}
                 className="glass-button flex-1 py-2.5 px-4 rounded-xl font-semibold text-gray-800 bg-gray-100/60 hover:bg-gray-200/70 border-gray-400 hover:border-gray-500 disabled:opacity-50"
               >
-                ביטול
+                {t('common.cancel')}
               </button>
               <button
                 onClick={handleDeleteProduct}
@@ -1955,10 +2321,10 @@ export default function ProductsPage() {
                         d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                       ></path>
                     </svg>
-                    <span>מוחק...</span>
+                    <span>{t('common.deleting')}</span>
                   </>
                 ) : (
-                  <span>מחק מוצר</span>
+                  <span>{t('products.delete')}</span>
                 )}
               </button>
             </div>
@@ -6,6 +6,9 @@ import ChangePasswordModal from '../components/ChangePasswordModal';
 import { managerAPI } from '../services/api';
 import type { Manager } from '../services/api';
 import { preferHebrewNetworkMessage, resolveApiErr } from '../utils/apiErrorMessage';
+import { formatDate, t } from '../utils/i18n';
+
+const LONG_DATE: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
 
 export default function ProfilePage() {
   const [profile, setProfile] = useState<Manager | null>(null);
@@ -39,14 +42,6 @@ export default function ProfilePage() {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('he-IL', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-  };
-
   const formatPhoneNumber = (phone: string) => {
     if (phone.length <= 3) return phone;
     return `${phone.slice(0, 3)}-${phone.slice(3)}`;
@@ -57,7 +52,7 @@ export default function ProfilePage() {
       <div className="flex items-center justify-center min-h-[60vh]">
         <div className="flex flex-col items-center space-y-4">
           <Spinner size="lg" color="rgb(79, 70, 229)" />
-          <p className="text-gray-600 font-medium">טוען פרופיל...</p>
+          <p className="text-gray-600 font-medium">{t('profile.loading')}</p>
         </div>
       </div>
     );
@@ -80,13 +75,13 @@ export default function ProfilePage() {
               d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
             />
           </svg>
-          <h2 className="text-lg font-semibold mb-2">שגיאה בטעינת הפרופיל</h2>
+          <h2 className="text-lg font-semibold mb-2">{t('profile.loadError')}</h2>
           <p className="text-gray-600">{error}</p>
           <button
             onClick={fetchProfile}
             className="glass-button mt-4 px-6 py-2 rounded-xl font-medium"
           >
-            נסה שוב
+            {t('common.tryAgain')}
           </button>
         </div>
       </div>
@@ -96,16 +91,16 @@ export default function ProfilePage() {
   if (!profile) return null;
 
   return (
-    <div className="max-w-4xl mx-auto space-y-4" dir="rtl">
+    <div className="max-w-4xl mx-auto space-y-4">
       {/* Header */}
       <div className="glass-card rounded-3xl p-6 md:p-8">
           <div className="flex flex-col md:flex-row md:flex-wrap md:items-start md:justify-between gap-4 md:gap-6">
           <div className="max-w-full md:flex-1">
             <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-2 break-words leading-tight max-w-full">
-              שלום {profile.firstName} {profile.lastName}!
+              {t('profile.greeting', { name: `${profile.firstName} ${profile.lastName}` })}
             </h1>
             <p className="text-gray-600 text-sm">
-              פרטים אישיים ומידע על החשבון שלך
+              {t('profile.subtitle')}
             </p>
           </div>
           <div className="mt-4 md:mt-0 w-full md:w-auto">
@@ -116,7 +111,7 @@ export default function ProfilePage() {
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
               </svg>
-              <span>ערוך פרטים אישיים</span>
+              <span>{t('profile.edit')}</span>
             </button>
           </div>
         </div>
@@ -128,7 +123,7 @@ export default function ProfilePage() {
           {/* First Name */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              שם פרטי
+              {t('field.firstName')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {profile.firstName}
@@ -138,7 +133,7 @@ export default function ProfilePage() {
           {/* Last Name */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              שם משפחה
+              {t('field.lastName')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {profile.lastName}
@@ -158,7 +153,7 @@ export default function ProfilePage() {
           {/* Email */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              אימייל
+              {t('field.email')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {profile.email}
@@ -168,7 +163,7 @@ export default function ProfilePage() {
           {/* Phone Number */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              מספר טלפון
+              {t('field.phone')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
               {formatPhoneNumber(profile.phoneNumber)}
@@ -178,7 +173,7 @@ export default function ProfilePage() {
           {/* Street Address */}
           <div className="max-w-full">
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              כתובת
+              {t('field.address')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {profile.streetAddress}
@@ -188,7 +183,7 @@ export default function ProfilePage() {
           {/* City */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              עיר
+              {t('field.city')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm break-words">
               {profile.city}
@@ -198,20 +193,20 @@ export default function ProfilePage() {
           {/* Date of Birth */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              תאריך לידה
+              {t('field.dateOfBirth')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
-              {formatDate(profile.dateOfBirth)}
+              {formatDate(profile.dateOfBirth, LONG_DATE)}
             </div>
           </div>
 
           {/* Account Created */}
           <div>
             <label className="block text-xs font-medium text-gray-600 mb-1">
-              תאריך יצירת חשבון
+              {t('profile.accountCreated')}
             </label>
             <div className="glass-input px-3 py-2 rounded-lg text-gray-800 text-sm">
-              {formatDate(profile.createdAt)}
+              {formatDate(profile.createdAt, LONG_DATE)}
             </div>
           </div>
         </div>
@@ -219,12 +214,12 @@ export default function ProfilePage() {
 
       {/* Security Section */}
       <div className="glass-card rounded-3xl p-6 md:p-8">
-        <h2 className="text-2xl font-bold text-gray-800 mb-4">הגדרות אבטחה</h2>
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">{t('profile.security')}</h2>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
           <div>
-            <p className="font-medium text-gray-800">סיסמה</p>
+            <p className="font-medium text-gray-800">{t('field.password')}</p>
             <p className="text-sm text-gray-600">
-              עדכן את הסיסמה שלך
+              {t('profile.passwordHint')}
             </p>
           </div>
           <button 
@@ -234,7 +229,7 @@ export default function ProfilePage() {
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
             </svg>
-            <span>שנה סיסמה</span>
+            <span>{t('profile.changePassword')}</span>
           </button>
         </div>
       </div>
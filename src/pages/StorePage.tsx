@@ -1,21 +1,81 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { publicAPI, orderAPI, agentAPI } from '../services/api';
-import type { ProductPublic, Category, Brand, OrderPublic, Order } from '../services/api';
+import type {
+  ProductPublic,
+  ProductVariant,
+  Category,
+  Brand,
+  OrderPublic,
+  Order,
+  StoreBusinessInfo,
+  CustomerStoreLinkPublic,
+} from '../services/api';
 import CheckoutFlow from '../components/CheckoutFlow';
 import ProductDetailModal from '../components/ProductDetailModal';
+import HighlightedText from '../components/HighlightedText';
+import OfflineStoreBanner from '../components/OfflineStoreBanner';
+import OrderLinkCountdown from '../components/OrderLinkCountdown';
+import LinkExtensionRequest from '../components/LinkExtensionRequest';
+import CartChangesNotice from '../components/CartChangesNotice';
+import StoreShelves from '../components/StoreShelves';
+import QuickOrderModal from '../components/QuickOrderModal';
+import OrderConfirmationView from '../components/OrderConfirmationView';
+import { useAriaLive } from '../components/AriaLiveRegionContext';
 import { formatPrice } from '../utils/formatPrice';
-import { resolveApiErr } from '../utils/apiErrorMessage';
+import { isNetworkError, resolveApiErr } from '../utils/apiErrorMessage';
+import { buildProductSearchIndex, searchProducts } from '../utils/productSearch';
+import { useStoreViewParams } from '../hooks/useStoreViewParams';
+import type { StoreSortBy } from '../utils/storeViewParams';
+import { copyTextToClipboard } from '../utils/copyOrderLink';
+import { fetchWithOfflineCache, offlineCacheKey } from '../utils/offlineCatalog';
+import { usePendingOrders } from '../hooks/usePendingOrders';
+import { useWindowedGrid } from '../hooks/useWindowedGrid';
+import { usePreserveScroll } from '../hooks/usePreserveScroll';
+import { findVariant, formatLineName, getLineKey, getPriceRange, getVariantLabel, hasVariants } from '../utils/productVariants';
+import { getBestTier, getLinePrice, getNextTier } from '../utils/priceTiers';
+import { getCartChanges, refreshCartLines } from '../utils/cartPriceCheck';
+import { describeProductRule, getCartRuleViolations, getProductRule, getQuantityStep, stepQuantity } from '../utils/cartRules';
+import { getStoreThemeStyle, hasStoreFooter } from '../utils/storeTheme';
+import { detectBrowserLocale, getDir, hasSavedLocale, setLocale, t } from '../utils/i18n';
+import { useLocale } from '../hooks/useLocale';
+import LanguagePicker from '../components/LanguagePicker';
+import { useStoreShelves } from '../hooks/useStoreShelves';
+import { fitQuantityToRule, getBuyAgainLines, getFavoriteLines, getFavoriteProducts } from '../utils/storeHistory';
+import { FEW_LEFT_QUANTITY, getAvailableQuantity, getStockViolations } from '../utils/inventory';
+import { findProductByCode } from '../utils/productCodes';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { createProductFixture, readGridBenchmarkParams, reportGridRender } from '../utils/gridBenchmark';
+import type { ShelfLine } from '../utils/storeHistory';
 
 interface CartItem {
   product: ProductPublic;
+  /** Chosen variant; a product in two variants is two cart lines. */
+  variant?: ProductVariant | null;
   quantity: number;
 }
 
+const isSameLine = (item: CartItem, productId: string, variantId: string | null) =>
+  item.product.id === productId && (item.variant?.id ?? null) === variantId;
+
 export default function StorePage() {
-  const { managerId: managerIdParam, orderId } = useParams<{ managerId?: string; orderId?: string }>();
+  const { managerId: managerIdParam, orderId, linkToken } = useParams<{
+    managerId?: string;
+    orderId?: string;
+    linkToken?: string;
+  }>();
   const location = useLocation();
+  // Dev-only generated catalog for measuring the product grid (utils/gridBenchmark)
+  const [gridBenchmark] = useState(() => readGridBenchmarkParams(location.search));
+  const gridRenderStartRef = useRef(0);
   const navigate = useNavigate();
+  useLocale();
+  const dir = getDir();
+
+  // Customers see the store in their browser language until they pick one
+  useEffect(() => {
+    if (!hasSavedLocale()) setLocale(detectBrowserLocale(), { persist: false });
+  }, []);
   
   // Detect edit mode from URL path
   const isEditMode = location.pathname.includes('/edit/');
@@ -23,7 +83,11 @@ export default function StorePage() {
   const [managerId, setManagerId] = useState<string | null>(null);
   const [order, setOrder] = useState<OrderPublic | null>(null);
   const [editOrder, setEditOrder] = useState<Order | null>(null); // Full order for edit mode
+  // Personal customer link (`/store/customer/:linkToken`): the customer's prices, a new order on each checkout
+  const [customerLink, setCustomerLink] = useState<CustomerStoreLinkPublic | null>(null);
   const [products, setProducts] = useState<ProductPublic[]>([]);
+  // Whole catalog, before category/brand filters (favourites and "buy again" are resolved against it)
+  const [catalog, setCatalog] = useState<ProductPublic[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [brands, setBrands] = useState<Brand[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -34,16 +98,21 @@ export default function StorePage() {
   // Store current image index for each product: productId -> currentIndex
   const [productImageIndices, setProductImageIndices] = useState<Record<string, number>>({});
   
-  // Sorting state
-  const [sortBy, setSortBy] = useState('name');
-  const [sortDirection, setSortDirection] = useState<'ASC' | 'DESC'>('ASC');
+  // Search, filters and sort live in the URL query string (shareable store views)
+  const { view, setSearchQuery, toggleCategory, toggleBrand, setSort, clearFilters } = useStoreViewParams();
+  const {
+    searchQuery,
+    categoryIds: selectedCategories,
+    brandIds: selectedBrands,
+    sortBy,
+    sortDirection,
+  } = view;
   
   const [cart, setCart] = useState<CartItem[]>([]);
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
+  const [isQuickOrderOpen, setIsQuickOrderOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<ProductPublic | null>(null);
-  const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
-  const [selectedBrands, setSelectedBrands] = useState<number[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isCategoriesExpanded, setIsCategoriesExpanded] = useState(true);
   const [isBrandsExpanded, setIsBrandsExpanded] = useState(true);
@@ -56,14 +125,32 @@ export default function StorePage() {
   // Track which products just got added (for success animation)
   const [justAdded, setJustAdded] = useState<Set<string>>(new Set());
   const [hasLoadedCart, setHasLoadedCart] = useState(false);
+  // Edit mode: order lines left out of the cart because their product or variant no longer exists
+  const [droppedEditLines, setDroppedEditLines] = useState<string[]>([]);
+  const [viewLinkCopied, setViewLinkCopied] = useState(false);
   // Store business (name + image) for header - from public API
-  const [storeBusiness, setStoreBusiness] = useState<{ name: string; imageUrl: string | null } | null>(null);
+  const [storeBusiness, setStoreBusiness] = useState<StoreBusinessInfo | null>(null);
+  // Set when the products on screen came from the offline cache (time of the cached copy)
+  const [catalogCachedAt, setCatalogCachedAt] = useState<string | null>(null);
+  // Full live catalog (null while showing the offline copy), to re-check a saved cart's prices against
+  const [liveCatalog, setLiveCatalog] = useState<ProductPublic[] | null>(null);
+  // Orders placed offline on this device, replayed when connectivity returns
+  const { isOnline, pendingOrders, retry: retryPendingOrder, dismiss: dismissPendingOrder } = usePendingOrders(managerId);
+
+  // Saved cart per order link, personal link or public store
+  const cartKey = orderId
+    ? `cart_${orderId}`
+    : linkToken
+    ? `cart_link_${linkToken}`
+    : managerId
+    ? `cart_${managerId}`
+    : null;
 
   // Load cart from localStorage on mount
   useEffect(() => {
-    if (!managerId && !orderId) return; // Wait for managerId or orderId to be set
+    if (!cartKey) return; // Wait for managerId or orderId to be set
     
-    const key = orderId ? `cart_${orderId}` : `cart_${managerId}`;
+    const key = cartKey;
     const savedCartData = localStorage.getItem(key);
     if (savedCartData) {
       try {
@@ -95,14 +182,14 @@ export default function StorePage() {
       }
     }
     setHasLoadedCart(true);
-  }, [orderId, managerId]);
+  }, [cartKey]);
 
   // Save cart to localStorage whenever it changes (but only after initial load)
   useEffect(() => {
     if (!hasLoadedCart) return; // Don't save until we've tried to load
-    if (!managerId && !orderId) return; // Don't save if managerId/orderId not set yet
+    if (!cartKey) return; // Don't save if managerId/orderId not set yet
     
-    const key = orderId ? `cart_${orderId}` : `cart_${managerId}`;
+    const key = cartKey;
     if (cart.length > 0) {
       // Save with expiration date (7 days from now)
       const expiresAt = new Date();
@@ -118,7 +205,7 @@ export default function StorePage() {
       // If cart is empty, remove from localStorage
       localStorage.removeItem(key);
     }
-  }, [cart, orderId, managerId, hasLoadedCart]);
+  }, [cart, cartKey, hasLoadedCart]);
 
   // Fetch managerId from order if orderId is provided, otherwise use managerIdParam
   // Handle edit mode: load order via authenticated API and populate cart
@@ -132,7 +219,7 @@ export default function StorePage() {
           setIsLoading(true);
           const token = localStorage.getItem('authToken');
           if (!token) {
-            setError('אנא התחבר כדי לערוך הזמנות');
+            setError(t('store.error.loginToEdit'));
             navigate('/login/manager');
             setIsLoading(false);
             return;
@@ -147,7 +234,7 @@ export default function StorePage() {
           } else if (userRole === 'manager') {
             fetchedOrder = await orderAPI.getOrderById(orderId);
           } else {
-            setError('אין הרשאה לערוך הזמנות');
+            setError(t('store.error.noEditPermission'));
             navigate('/login/manager');
             setIsLoading(false);
             return;
@@ -155,7 +242,7 @@ export default function StorePage() {
           
           // Validate order is PLACED
           if (fetchedOrder.status !== 'PLACED') {
-            setError('ניתן לערוך רק הזמנות שהוזמנו');
+            setError(t('store.error.onlyPlacedEditable'));
             setIsLoading(false);
             return;
           }
@@ -170,30 +257,36 @@ export default function StorePage() {
           
           // Build cart from order products, only including products that still exist
           const cartItems: CartItem[] = [];
+          const dropped: string[] = [];
           for (const orderProduct of fetchedOrder.products) {
             const product = allProducts.find(p => p.id === orderProduct.productId);
-            if (product && availableProductIds.has(product.id)) {
-              cartItems.push({
-                product: product,
-                quantity: orderProduct.quantity
-              });
+            const variant = product ? findVariant(product, orderProduct.variantId) : undefined;
+            // Deleted product, or a variant removed since the order was placed: list it for the notice
+            if (!product || !availableProductIds.has(product.id) || (hasVariants(product) && !variant)) {
+              dropped.push(`${formatLineName(orderProduct)} × ${orderProduct.quantity}`);
+              continue;
             }
-            // If product doesn't exist, skip it (deleted product)
+            cartItems.push({
+              product: product,
+              variant: variant ?? null,
+              quantity: orderProduct.quantity
+            });
           }
           
           setCart(cartItems);
+          setDroppedEditLines(dropped);
           setHasLoadedCart(true);
           
           // Don't set loading to false here - fetchProducts will handle loading state
         } catch (err: any) {
           console.error('Error fetching order for edit:', err);
           if (err.response?.status === 401 || err.response?.status === 403) {
-            setError('אין הרשאה לערוך את ההזמנה הזו');
+            setError(t('store.error.noOrderPermission'));
             localStorage.removeItem('authToken');
             localStorage.removeItem('userRole');
             navigate('/login/manager');
           } else if (err.response?.status === 404) {
-            setError('הזמנה לא נמצאה');
+            setError(t('store.error.orderNotFound'));
           } else {
             setError(resolveApiErr(err, 'orderLoadStore'));
           }
@@ -205,29 +298,51 @@ export default function StorePage() {
       } else if (orderId) {
         try {
           setIsLoading(true);
-          const fetchedOrder = await publicAPI.orders.getById(orderId);
+          const { data: fetchedOrder } = await fetchWithOfflineCache(
+            offlineCacheKey.order(orderId),
+            () => publicAPI.orders.getById(orderId)
+          );
           setOrder(fetchedOrder);
           setManagerId(fetchedOrder.managerId);
           // Don't set loading to false here - fetchProducts will handle loading state
         } catch (err: any) {
           console.error('Error fetching order:', err);
-          setError('נכשל בטעינת ההזמנה');
+          setError(t('store.error.orderLoad'));
+          setIsLoading(false);
+        }
+      } else if (linkToken) {
+        try {
+          setIsLoading(true);
+          const { data: link } = await fetchWithOfflineCache(
+            offlineCacheKey.customerLink(linkToken),
+            () => publicAPI.customerLinks.getByToken(linkToken)
+          );
+          setCustomerLink(link);
+          setManagerId(link.managerId);
+          // Don't set loading to false here - fetchProducts will handle loading state
+        } catch (err: unknown) {
+          console.error('Error fetching customer link:', err);
+          const status = (err as { response?: { status?: number } })?.response?.status;
+          setError(status === 404 ? t('store.error.customerLinkInactive') : t('store.error.customerLinkLoad'));
           setIsLoading(false);
         }
       } else {
         // No managerId or orderId in URL - invalid route
-        setError('כתובת חנות לא תקינה');
+        setError(t('store.error.invalidStoreUrl'));
         setIsLoading(false);
       }
     };
     fetchManagerId();
-  }, [managerIdParam, orderId, isEditMode, navigate]);
+  }, [managerIdParam, orderId, linkToken, isEditMode, navigate]);
 
   const fetchCategories = useCallback(async () => {
     if (!managerId) return;
     
     try {
-      const data = await publicAPI.categories.getAllByManagerId(managerId);
+      const { data } = await fetchWithOfflineCache(
+        offlineCacheKey.categories(managerId),
+        () => publicAPI.categories.getAllByManagerId(managerId)
+      );
       setCategories(data);
     } catch (err) {
       console.error('Failed to fetch categories:', err);
@@ -238,7 +353,10 @@ export default function StorePage() {
     if (!managerId) return;
     
     try {
-      const data = await publicAPI.brands.getAllByManagerId(managerId);
+      const { data } = await fetchWithOfflineCache(
+        offlineCacheKey.brands(managerId),
+        () => publicAPI.brands.getAllByManagerId(managerId)
+      );
       setBrands(data);
     } catch (err) {
       console.error('Failed to fetch brands:', err);
@@ -248,7 +366,10 @@ export default function StorePage() {
   const fetchStoreBusiness = useCallback(async () => {
     if (!managerId) return;
     try {
-      const data = await publicAPI.business.getByManagerId(managerId);
+      const { data } = await fetchWithOfflineCache(
+        offlineCacheKey.business(managerId),
+        () => publicAPI.business.getByManagerId(managerId)
+      );
       setStoreBusiness(data);
     } catch (err: unknown) {
       console.error('Failed to fetch store business:', err);
@@ -265,21 +386,58 @@ export default function StorePage() {
 
       let allProducts: ProductPublic[];
       if (orderId) {
-        allProducts = await publicAPI.products.getAllByOrderId(orderId);
+        if (isEditMode) {
+          // Edit mode is authenticated staff work - always live data, never the offline cache
+          allProducts = await publicAPI.products.getAllByOrderId(orderId);
+          setCatalogCachedAt(null);
+          setLiveCatalog(allProducts);
+        } else {
+          const result = await fetchWithOfflineCache(
+            offlineCacheKey.productsByOrder(orderId),
+            () => publicAPI.products.getAllByOrderId(orderId)
+          );
+          allProducts = result.data;
+          setCatalogCachedAt(result.fromCache ? result.cachedAt : null);
+          setLiveCatalog(result.fromCache ? null : allProducts);
+        }
         if (isEditMode) {
           setCart(prevCart => {
             if (prevCart.length === 0) return prevCart;
             return prevCart.map(cartItem => {
               const updatedProduct = allProducts.find(p => p.id === cartItem.product.id);
-              if (updatedProduct) return { ...cartItem, product: updatedProduct };
-              return cartItem;
+              if (!updatedProduct) return cartItem;
+              const updatedVariant = cartItem.variant ? findVariant(updatedProduct, cartItem.variant.id) : null;
+              // A deleted variant keeps the old line as is; the effect below drops it and lists it in the notice
+              if (cartItem.variant && !updatedVariant) return cartItem;
+              return { ...cartItem, product: updatedProduct, variant: updatedVariant ?? null };
             });
           });
         }
+      } else if (linkToken) {
+        const result = await fetchWithOfflineCache(
+          offlineCacheKey.productsByCustomerLink(linkToken),
+          () => publicAPI.customerLinks.getProducts(linkToken)
+        );
+        allProducts = result.data;
+        setCatalogCachedAt(result.fromCache ? result.cachedAt : null);
+        setLiveCatalog(result.fromCache ? null : allProducts);
+      } else if (gridBenchmark) {
+        allProducts = createProductFixture(gridBenchmark.productCount, managerId);
+        setCatalogCachedAt(null);
+        setLiveCatalog(allProducts);
+        gridRenderStartRef.current = performance.now();
       } else {
-        allProducts = await publicAPI.products.getAllByManagerId(managerId);
+        const result = await fetchWithOfflineCache(
+          offlineCacheKey.productsByManager(managerId),
+          () => publicAPI.products.getAllByManagerId(managerId)
+        );
+        allProducts = result.data;
+        setCatalogCachedAt(result.fromCache ? result.cachedAt : null);
+        setLiveCatalog(result.fromCache ? null : allProducts);
       }
 
+      setCatalog(allProducts);
+
       // Filter by categories and brands client-side if selected
       let filtered = allProducts;
       if (selectedCategories.length > 0) {
@@ -310,13 +468,15 @@ export default function StorePage() {
         setError('STORE_NOT_FOUND');
       } else if (err.response?.status === 403 || err.message?.includes('403')) {
         setError('STORE_NOT_ACCESSIBLE');
+      } else if (isNetworkError(err)) {
+        setError('STORE_OFFLINE');
       } else {
         setError('STORE_ERROR');
       }
     } finally {
       setIsLoading(false);
     }
-  }, [managerId, orderId, isEditMode, sortBy, sortDirection, selectedCategories, selectedBrands]);
+  }, [managerId, orderId, linkToken, isEditMode, sortBy, sortDirection, selectedCategories, selectedBrands, gridBenchmark]);
 
   // Categories, brands, store business only depend on managerId
   useEffect(() => {
@@ -336,18 +496,19 @@ export default function StorePage() {
     }
   }, [managerId, fetchProducts]);
 
-  const addToCart = (product: ProductPublic, quantity: number = 1) => {
+  const addToCart = (product: ProductPublic, quantity: number = 1, variant: ProductVariant | null = null) => {
+    const variantId = variant?.id ?? null;
     setCart(prevCart => {
-      const existingItem = prevCart.find(item => item.product.id === product.id);
+      const existingItem = prevCart.find(item => isSameLine(item, product.id, variantId));
       if (existingItem) {
         // Set cart quantity to the selected number (not add)
         return prevCart.map(item =>
-          item.product.id === product.id
+          isSameLine(item, product.id, variantId)
             ? { ...item, quantity }
             : item
         );
       }
-      return [...prevCart, { product, quantity }];
+      return [...prevCart, { product, variant, quantity }];
     });
     // Keep selector at current value (do not reset to 1)
 
@@ -364,59 +525,161 @@ export default function StorePage() {
     }, 800);
   };
 
+  // Quantity of one cart line (product + variant)
+  const getCartQuantity = (productId: string, variantId: string | null): number => {
+    return cart.find(item => isSameLine(item, productId, variantId))?.quantity ?? 0;
+  };
+
+  const cartRules = storeBusiness?.cartRules ?? null;
+  const inventorySettings = storeBusiness?.inventorySettings ?? null;
+  // Sold-out products can't be added at all when the business blocks unavailable quantities
+  const blockUnavailable = !!inventorySettings?.enabled && inventorySettings.blockUnavailableQuantities;
+  const storeTheme = storeBusiness?.storeTheme ?? null;
+  const themeStyle = useMemo(() => getStoreThemeStyle(storeTheme), [storeTheme]);
+
+  // Favourites and "buy again": server history for customer-linked links, this device's history otherwise
+  const { announce } = useAriaLive();
+  const shelves = useStoreShelves({
+    managerId,
+    orderId,
+    customerLinkToken: linkToken,
+    customerId: order?.customerId ?? customerLink?.customerId,
+    enabled: !isEditMode,
+  });
+  const buyAgain = useMemo(
+    () => getBuyAgainLines(shelves.purchases, catalog, cartRules, blockUnavailable),
+    [shelves.purchases, catalog, cartRules, blockUnavailable]
+  );
+  const favoriteProducts = useMemo(
+    () => getFavoriteProducts(shelves.favoriteIds, catalog),
+    [shelves.favoriteIds, catalog]
+  );
+  const favoriteLines = useMemo(
+    () => getFavoriteLines(favoriteProducts, cartRules, blockUnavailable),
+    [favoriteProducts, cartRules, blockUnavailable]
+  );
+
+  // Scanner mode (order edit): each scan adds the product or steps its cart line up by one pack
+  const [isScannerOn, setIsScannerOn] = useState(false);
+  const [scanNotice, setScanNotice] = useState<{ tone: 'success' | 'error'; message: string } | null>(null);
+  const handleScan = (code: string) => {
+    const product = findProductByCode(catalog, code);
+    let notice: { tone: 'success' | 'error'; message: string };
+    if (!product) {
+      notice = { tone: 'error', message: t('store.scanner.notFound', { code }) };
+    } else if (hasVariants(product)) {
+      setSelectedProduct(product);
+      notice = { tone: 'success', message: t('store.scanner.chooseVariant', { name: product.name }) };
+    } else {
+      const current = getCartQuantity(product.id, null);
+      const next = stepQuantity(getProductRule(cartRules, product.id), current, 1);
+      const available = getAvailableQuantity(product);
+      if (blockUnavailable && available != null && next > available) {
+        notice = { tone: 'error', message: `${product.name} – ${t('store.stock.outOfStock')}` };
+      } else if (next === current) {
+        notice = { tone: 'error', message: t('store.scanner.maxReached', { name: product.name }) };
+      } else {
+        addToCart(product, next);
+        notice = { tone: 'success', message: t('store.scanner.added', { name: product.name, quantity: next }) };
+      }
+    }
+    setScanNotice(notice);
+    announce(notice.message, notice.tone === 'error' ? 'assertive' : 'polite');
+  };
+  useBarcodeScanner(isEditMode && isScannerOn, handleScan);
+
+  // Fill the cart from a shelf in one click; a line already in the cart keeps the larger quantity.
+  // A quick order (`sum`) adds to what is in the cart, fitted to the product's pack size and maximum.
+  // When the business blocks unavailable quantities, lines are capped at the stock (like a scan) and
+  // products without a single pack in stock are left out.
+  const addLinesToCart = (lines: ShelfLine[], combine: 'max' | 'sum' = 'max') => {
+    const getLineStock = (line: ShelfLine) =>
+      blockUnavailable ? getAvailableQuantity(line.product, line.variant) : null;
+    const inStock = lines.filter(
+      line => fitQuantityToRule(getProductRule(cartRules, line.product.id), 1, getLineStock(line)) > 0
+    );
+    setCart(prevCart => {
+      const nextCart = [...prevCart];
+      for (const line of inStock) {
+        const index = nextCart.findIndex(item => isSameLine(item, line.product.id, line.variant?.id ?? null));
+        const inCart = index === -1 ? 0 : nextCart[index].quantity;
+        const rule = getProductRule(cartRules, line.product.id);
+        const quantity =
+          combine === 'sum'
+            ? fitQuantityToRule(rule, inCart + line.quantity, getLineStock(line))
+            : Math.max(inCart, fitQuantityToRule(rule, line.quantity, getLineStock(line)));
+        if (quantity <= 0) continue;
+        if (index === -1) {
+          nextCart.push({ product: line.product, variant: line.variant, quantity });
+        } else {
+          nextCart[index] = { product: line.product, variant: line.variant, quantity };
+        }
+      }
+      return nextCart;
+    });
+    const outOfStock = lines.length - inStock.length;
+    announce(
+      outOfStock > 0
+        ? `${t('store.shelves.added', { count: inStock.length })} ${t('store.shelves.outOfStock', { count: outOfStock })}`
+        : t('store.shelves.added', { count: inStock.length })
+    );
+    setIsCartOpen(true);
+  };
+
   const getPendingQuantity = (productId: string): number => {
     if (pendingQuantities[productId] != null) return pendingQuantities[productId];
-    const inCart = cart.find(item => item.product.id === productId)?.quantity;
-    return inCart ?? 1;
+    const inCart = getCartQuantity(productId, null);
+    return inCart || getQuantityStep(getProductRule(cartRules, productId));
   };
 
-  const updatePendingQuantity = (productId: string, delta: number) => {
+  // Steps by the product's pack size and stops at its maximum (see utils/cartRules)
+  const updatePendingQuantity = (productId: string, delta: 1 | -1) => {
+    const rule = getProductRule(cartRules, productId);
+    const step = getQuantityStep(rule);
     setPendingQuantities(prev => {
-      const currentQty = prev[productId] || 1;
-      const newQty = Math.max(1, currentQty + delta);
+      const currentQty = prev[productId] || step;
+      const newQty = Math.max(step, stepQuantity(rule, currentQty, delta));
       return { ...prev, [productId]: newQty };
     });
   };
 
-  const handleSortChange = (newSortBy: string) => {
+  const handleSortChange = (newSortBy: StoreSortBy) => {
     // If clicking the same sort field, toggle direction
     if (newSortBy === sortBy) {
-      setSortDirection(sortDirection === 'ASC' ? 'DESC' : 'ASC');
+      setSort(sortBy, sortDirection === 'ASC' ? 'DESC' : 'ASC');
     } else {
       // New sort field, default to ASC
-      setSortBy(newSortBy);
-      setSortDirection('ASC');
+      setSort(newSortBy, 'ASC');
     }
   };
 
   const handleCategoryToggle = (categoryId: number) => {
-    setSelectedCategories(prev =>
-      prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]
-    );
+    toggleCategory(categoryId);
   };
 
   const handleBrandToggle = (brandId: number) => {
-    setSelectedBrands(prev => {
-      if (prev.includes(brandId)) {
-        return prev.filter(id => id !== brandId);
-      } else {
-        return [...prev, brandId];
-      }
-    });
+    toggleBrand(brandId);
   };
 
   const clearAllFilters = () => {
-    setSelectedCategories([]);
-    setSelectedBrands([]);
+    clearFilters();
   };
 
-  const updateQuantity = (productId: string, newQuantity: number) => {
+  // Copy the current URL (including search/filters/sort) so this store view can be shared
+  const handleCopyViewLink = async () => {
+    const copied = await copyTextToClipboard(window.location.href);
+    if (!copied) return;
+    setViewLinkCopied(true);
+    setTimeout(() => setViewLinkCopied(false), 2000);
+  };
+
+  const updateQuantity = (productId: string, newQuantity: number, variantId: string | null = null) => {
     if (newQuantity === 0) {
-      setCart(prevCart => prevCart.filter(item => item.product.id !== productId));
+      setCart(prevCart => prevCart.filter(item => !isSameLine(item, productId, variantId)));
     } else {
       setCart(prevCart =>
         prevCart.map(item =>
-          item.product.id === productId
+          isSameLine(item, productId, variantId)
             ? { ...item, quantity: newQuantity }
             : item
         )
@@ -424,36 +687,130 @@ export default function StorePage() {
     }
   };
 
-  const removeFromCart = (productId: string) => {
-    setCart(prevCart => prevCart.filter(item => item.product.id !== productId));
+  const removeFromCart = (productId: string, variantId: string | null = null) => {
+    setCart(prevCart => prevCart.filter(item => !isSameLine(item, productId, variantId)));
   };
 
   const getTotalPrice = () => {
-    return cart.reduce((total, item) => total + (item.product.price * item.quantity), 0);
+    // Lines are re-priced from their quantity, so crossing a volume tier updates the total immediately
+    return cart.reduce((total, item) => total + (getLinePrice(item.product, item.variant, item.quantity).unitPrice * item.quantity), 0);
   };
 
   const getTotalItems = () => {
     return cart.reduce((total, item) => total + item.quantity, 0);
   };
 
-  // Client-side filtering (currently only category filter, search removed as unused)
-  const filteredProducts = products || [];
+  const cartRuleViolations = [
+    ...getCartRuleViolations(cartRules, cart, getTotalPrice()),
+    ...getStockViolations(inventorySettings, cart),
+  ];
+
+  // A cart saved days ago may carry old prices; edit mode swaps live products in as they load (see fetchProducts)
+  const cartChanges = useMemo(
+    () => (liveCatalog && hasLoadedCart && !isEditMode ? getCartChanges(cart, liveCatalog) : []),
+    [liveCatalog, hasLoadedCart, isEditMode, cart]
+  );
+
+  // Edit mode: a variant deleted while the order is open must not be saved from its stale copy
+  useEffect(() => {
+    if (!isEditMode || !liveCatalog) return;
+    const isStale = (item: CartItem) => {
+      const liveProduct = liveCatalog.find(p => p.id === item.product.id);
+      return !!item.variant && !!liveProduct && !findVariant(liveProduct, item.variant.id);
+    };
+    const stale = cart.filter(isStale);
+    if (stale.length === 0) return;
+    setCart(prevCart => prevCart.filter(item => !isStale(item)));
+    setDroppedEditLines(prev => [
+      ...prev,
+      ...stale.map(item => {
+        const name = formatLineName({
+          productName: item.product.name,
+          variantLabel: item.variant ? getVariantLabel(item.variant, item.product.variantAxes) : null,
+        });
+        return `${name} × ${item.quantity}`;
+      }),
+    ]);
+  }, [isEditMode, liveCatalog, cart]);
+
+  const acceptLivePrices = (liveProducts: ProductPublic[]) => {
+    setCart(prevCart => refreshCartLines(prevCart, liveProducts));
+  };
+
+  // Client-side search on top of the category/brand filtered and sorted products
+  const searchIndex = useMemo(() => buildProductSearchIndex(products), [products]);
+  const filteredProducts = useMemo(() => searchProducts(searchIndex, searchQuery), [searchIndex, searchQuery]);
+  const isSearching = searchQuery.trim() !== '';
+  // Large catalogs: only the cards near the viewport are rendered
+  const productGrid = useWindowedGrid(filteredProducts.length, { windowing: gridBenchmark?.windowing ?? true });
+  useEffect(() => {
+    if (gridBenchmark && productGrid.gridElement && products.length > 0) {
+      reportGridRender(productGrid.gridElement, gridBenchmark, gridRenderStartRef.current);
+    }
+  }, [gridBenchmark, productGrid.gridElement, products]);
+  usePreserveScroll(!!selectedProduct);
 
   // Check if order status is EXPIRED, CANCELLED, DONE, or PLACED (only if we have an orderId in the URL)
   const isLinkExpired = orderId && order && order.status === 'EXPIRED';
   const isLinkCancelled = orderId && order && order.status === 'CANCELLED';
   const isOrderDone = orderId && order && order.status === 'DONE';
   const isOrderPlaced = orderId && order && order.status === 'PLACED';
+  // Order link placed offline on this device: show its sync state instead of letting it be ordered again
+  const queuedOrderForLink = orderId && !isEditMode ? pendingOrders.find(o => o.orderId === orderId) : undefined;
+  const storePendingOrders = pendingOrders.filter(
+    o => o.orderId === null && (o.customerLinkToken ?? null) === (linkToken ?? null)
+  );
+
+  if (queuedOrderForLink && !isCheckoutOpen) {
+    const isSynced = queuedOrderForLink.status === 'synced';
+    const isFailed = queuedOrderForLink.status === 'failed';
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir={dir}>
+        <div className="glass-card rounded-3xl p-8 md:p-12 max-w-2xl w-full text-center" role="status" aria-live="polite">
+          <div className="text-6xl mb-6">{isSynced ? '📋' : isFailed ? '⚠️' : '⏳'}</div>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">
+            {isSynced ? t('store.queued.syncedTitle') : isFailed ? t('store.queued.failedTitle') : t('store.queued.pendingTitle')}
+          </h1>
+          <p className="text-lg text-gray-600">
+            {isSynced
+              ? t('store.queued.synced')
+              : isFailed
+              ? queuedOrderForLink.error
+              : isOnline
+              ? t('store.queued.sending')
+              : t('store.queued.offline')}
+          </p>
+          {isFailed && (
+            <div className="flex gap-3 justify-center mt-6">
+              <button
+                onClick={() => retryPendingOrder(queuedOrderForLink.id)}
+                className="glass-button px-6 py-3 rounded-xl font-semibold text-gray-800"
+              >
+                {t('common.tryAgain')}
+              </button>
+              <button
+                onClick={() => dismissPendingOrder(queuedOrderForLink.id)}
+                className="px-6 py-3 rounded-xl font-semibold text-red-700 border-2 border-red-300 hover:bg-red-50"
+              >
+                {t('store.queued.cancel')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
 
   if (isLinkExpired) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir="rtl">
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir={dir}>
         <div className="glass-card rounded-3xl p-8 md:p-12 max-w-2xl w-full text-center">
           <div className="text-6xl mb-6">⏰</div>
-          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">קישור פג תוקף</h1>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">{t('store.link.expiredTitle')}</h1>
           <p className="text-lg text-gray-600">
-            קישור ההזמנה הזה פג תוקף. אנא צור קשר עם המוכר לקבלת קישור חדש או בדוק את סטטוס ההזמנה שלך.
+            {t('store.link.expired')}
           </p>
+          <LinkExtensionRequest orderId={orderId} requestedAt={order.linkExtensionRequestedAt} />
         </div>
       </div>
     );
@@ -461,12 +818,12 @@ export default function StorePage() {
 
   if (isLinkCancelled) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir="rtl">
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir={dir}>
         <div className="glass-card rounded-3xl p-8 md:p-12 max-w-2xl w-full text-center">
           <div className="text-6xl mb-6">🚫</div>
-          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">הזמנה בוטלה</h1>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">{t('store.link.cancelledTitle')}</h1>
           <p className="text-lg text-gray-600">
-            ההזמנה הזו בוטלה. אנא צור קשר עם המוכר אם יש לך שאלות או שאתה צריך עזרה.
+            {t('store.link.cancelled')}
           </p>
         </div>
       </div>
@@ -475,13 +832,16 @@ export default function StorePage() {
 
   if (isOrderDone) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir="rtl">
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir={dir}>
         <div className="glass-card rounded-3xl p-8 md:p-12 max-w-2xl w-full text-center">
           <div className="text-6xl mb-6">✅</div>
-          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">הזמנה הושלמה</h1>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">{t('store.link.doneTitle')}</h1>
           <p className="text-lg text-gray-600">
-            ההזמנה הזו כבר הושלמה.
+            {t('store.link.done')}
           </p>
+          <div className="mt-6">
+            <OrderConfirmationView orderId={orderId} business={storeBusiness} />
+          </div>
         </div>
       </div>
     );
@@ -489,10 +849,13 @@ export default function StorePage() {
 
   if (isOrderPlaced) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir="rtl">
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 p-4" dir={dir}>
         <div className="glass-card rounded-3xl p-8 md:p-12 max-w-2xl w-full text-center">
           <div className="text-6xl mb-6">📋</div>
-          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">ההזמנה הזו כבר הוזמנה</h1>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">{t('store.link.placedTitle')}</h1>
+          <div className="mt-6">
+            <OrderConfirmationView orderId={orderId} business={storeBusiness} />
+          </div>
         </div>
       </div>
     );
@@ -500,7 +863,7 @@ export default function StorePage() {
 
   if (isLoading) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50" dir="rtl">
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50" dir={dir}>
         <div className="glass-card p-8 rounded-3xl">
           <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-purple-600"></div>
         </div>
@@ -510,25 +873,29 @@ export default function StorePage() {
 
   if (error) {
     let emoji = '😕';
-    let title = 'אופס!';
-    let message = 'משהו השתבש';
+    let title = t('store.load.genericTitle');
+    let message = t('store.load.generic');
     
     if (error === 'STORE_NOT_FOUND') {
       emoji = '🏪';
-      title = 'חנות לא נמצאה';
-      message = 'החנות הזו לא קיימת או הוסרה. אנא בדוק את הקישור ונסה שוב.';
+      title = t('store.load.notFoundTitle');
+      message = t('store.load.notFound');
     } else if (error === 'STORE_NOT_ACCESSIBLE') {
       emoji = '🔒';
-      title = 'חנות לא נגישה';
-      message = 'החנות הזו כרגע לא נגישה. אנא צור קשר עם בעל החנות.';
+      title = t('store.load.forbiddenTitle');
+      message = t('store.load.forbidden');
+    } else if (error === 'STORE_OFFLINE') {
+      emoji = '📡';
+      title = t('store.load.offlineTitle');
+      message = t('store.load.offline');
     } else if (error === 'STORE_ERROR') {
       emoji = '😕';
-      title = 'לא ניתן לטעון את החנות';
-      message = 'יש לנו בעיה בטעינת החנות הזו. אנא נסה שוב מאוחר יותר.';
+      title = t('store.load.failedTitle');
+      message = t('store.load.failed');
     }
     
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 px-4" dir="rtl">
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 px-4" dir={dir}>
         <div className="glass-card p-12 rounded-3xl max-w-lg text-center">
           <div className="text-8xl mb-6">{emoji}</div>
           <h2 className="text-3xl font-bold text-gray-800 mb-4">{title}</h2>
@@ -537,7 +904,7 @@ export default function StorePage() {
             onClick={() => window.location.reload()}
             className="glass-button px-6 py-3 rounded-xl font-semibold text-gray-800"
           >
-            נסה שוב
+            {t('common.tryAgain')}
           </button>
         </div>
       </div>
@@ -545,23 +912,23 @@ export default function StorePage() {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 pb-24" dir="rtl">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 pb-24" dir={dir} style={themeStyle}>
       {/* Header */}
       <header className="sticky top-0 z-40 backdrop-blur-2xl bg-white/40 border-b-2 border-white/40 shadow-lg">
         <div className="w-full px-4 sm:px-6 lg:px-8 py-4">
           <div className="grid grid-cols-3 items-center w-full gap-2 min-w-0">
-            {/* Burger (mobile only) - stick to right edge in RTL */}
+            {/* Burger (mobile only) - stick to the start edge */}
             <div className="flex justify-start min-w-0 lg:hidden">
               <button
                 onClick={() => setIsSidebarOpen(true)}
                 className="glass-button w-12 h-12 min-w-12 min-h-12 flex items-center justify-center rounded-xl text-gray-800 relative shrink-0"
-                aria-label="מסננים"
+                aria-label={t('store.filters')}
               >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
                   <path strokeLinecap="round" strokeLinejoin="round" d="M4 6h16M4 12h16M4 18h16" />
                 </svg>
                 {(selectedCategories.length > 0 || selectedBrands.length > 0) && (
-                  <span className="absolute -top-1 -right-1 bg-purple-600 text-white text-xs font-bold rounded-full h-4 w-4 flex items-center justify-center">
+                  <span className="absolute -top-1 -end-1 store-primary-bg text-xs font-bold rounded-full h-4 w-4 flex items-center justify-center">
                     {selectedCategories.length + selectedBrands.length}
                   </span>
                 )}
@@ -580,16 +947,17 @@ export default function StorePage() {
                 <div className="text-3xl">🛍️</div>
               )}
             </div>
-            {/* Cart - stick to left edge in RTL */}
-            <div className="flex justify-end min-w-0">
+            {/* Cart and language - stick to the end edge */}
+            <div className="flex justify-end items-center gap-2 min-w-0">
+              <LanguagePicker className="hidden sm:block" />
               <button
                 onClick={() => setIsCartOpen(!isCartOpen)}
                 className="glass-button w-12 h-12 min-w-12 min-h-12 flex items-center justify-center rounded-xl text-gray-800 relative shrink-0"
-                aria-label="עגלה"
+                aria-label={t('store.cart')}
               >
                 <span className="text-xl leading-none">🛒</span>
                 {getTotalItems() > 0 && (
-                  <span className="absolute -top-2 -right-2 bg-purple-600 text-white text-xs font-bold rounded-full h-7 w-7 flex items-center justify-center shadow-lg">
+                  <span className="absolute -top-2 -end-2 store-primary-bg text-xs font-bold rounded-full h-7 w-7 flex items-center justify-center shadow-lg">
                     {getTotalItems()}
                   </span>
                 )}
@@ -600,32 +968,32 @@ export default function StorePage() {
       </header>
 
       {/* Desktop Sidebar - Hidden on mobile */}
-      <aside className="hidden lg:block w-64 flex-shrink-0 fixed right-0 top-[10rem] bottom-[80px] z-30">
-          <div className="h-full bg-purple-50/40 backdrop-blur-xl border-2 border-gray-300/60 border-t-0 border-r-0 pr-4 sm:pr-6 lg:pr-8 pl-6 overflow-y-auto pt-8 pb-6">
+      <aside className="hidden lg:block w-64 flex-shrink-0 fixed start-0 top-[10rem] bottom-[80px] z-30">
+          <div className="h-full bg-purple-50/40 backdrop-blur-xl border-2 border-gray-300/60 border-t-0 border-s-0 ps-4 sm:ps-6 lg:ps-8 pe-6 overflow-y-auto pt-8 pb-6">
             {/* Clear Filters Button */}
             {(selectedCategories.length > 0 || selectedBrands.length > 0) && (
               <button
                 onClick={clearAllFilters}
                 className="w-full mb-4 px-4 py-2 text-sm font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50/50 rounded-lg transition-colors"
               >
-                נקה כל המסננים
+                {t('store.clearFilters')}
               </button>
             )}
 
             {/* Sort and Show */}
             <div className="pt-4 mb-6 space-y-4">
               <div>
-                <span className="text-sm font-semibold text-gray-700 block mb-2">מיין:</span>
+                <span className="text-sm font-semibold text-gray-700 block mb-2">{t('store.sortBy')}</span>
                 <div className="flex flex-wrap gap-2">
                   <button
                     onClick={() => handleSortChange('name')}
                     className={`px-3 py-2 rounded-xl text-sm font-semibold transition-all flex items-center gap-1 ${
                       sortBy === 'name'
-                        ? 'bg-indigo-600 text-white shadow-md'
+                        ? 'store-accent-bg shadow-md'
                         : 'glass-button text-gray-800 hover:shadow-md'
                     }`}
                   >
-                    <span>שם</span>
+                    <span>{t('store.sort.name')}</span>
                     {sortBy === 'name' && (
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         {sortDirection === 'ASC' ? (
@@ -640,11 +1008,11 @@ export default function StorePage() {
                     onClick={() => handleSortChange('price')}
                     className={`px-3 py-2 rounded-xl text-sm font-semibold transition-all flex items-center gap-1 ${
                       sortBy === 'price'
-                        ? 'bg-indigo-600 text-white shadow-md'
+                        ? 'store-accent-bg shadow-md'
                         : 'glass-button text-gray-800 hover:shadow-md'
                     }`}
                   >
-                    <span>מחיר</span>
+                    <span>{t('store.sort.price')}</span>
                     {sortBy === 'price' && (
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         {sortDirection === 'ASC' ? (
@@ -663,7 +1031,7 @@ export default function StorePage() {
             <div className="mb-4 border-t border-gray-300/40"></div>
 
             {/* Filter Title */}
-            <h2 className="text-xl font-bold text-gray-800 mb-4">מסננים</h2>
+            <h2 className="text-xl font-bold text-gray-800 mb-4">{t('store.filters')}</h2>
 
             {/* Divider */}
             <div className="mb-4 border-t border-gray-300/40"></div>
@@ -674,7 +1042,7 @@ export default function StorePage() {
                 onClick={() => setIsCategoriesExpanded(!isCategoriesExpanded)}
                 className="w-full flex items-center justify-between mb-2 text-base font-semibold text-gray-800"
               >
-                <span>קטגוריות</span>
+                <span>{t('store.categories')}</span>
                 <svg
                   className={`w-5 h-5 transition-transform ${isCategoriesExpanded ? 'rotate-180' : ''}`}
                   fill="none"
@@ -707,7 +1075,7 @@ export default function StorePage() {
                       onClick={() => setShowAllCategories(!showAllCategories)}
                       className="w-full text-sm text-purple-600 hover:text-purple-700 font-medium mt-2 py-1"
                     >
-                      {showAllCategories ? 'הצג פחות' : `הצג הכל (${categories.length})`}
+                      {showAllCategories ? t('common.showLess') : t('common.showAll', { count: categories.length })}
                     </button>
                   )}
                 </div>
@@ -723,7 +1091,7 @@ export default function StorePage() {
                 onClick={() => setIsBrandsExpanded(!isBrandsExpanded)}
                 className="w-full flex items-center justify-between mb-2 text-base font-semibold text-gray-800"
               >
-                <span>מותגים</span>
+                <span>{t('store.brands')}</span>
                 <svg
                   className={`w-5 h-5 transition-transform ${isBrandsExpanded ? 'rotate-180' : ''}`}
                   fill="none"
@@ -756,7 +1124,7 @@ export default function StorePage() {
                       onClick={() => setShowAllBrands(!showAllBrands)}
                       className="w-full text-sm text-purple-600 hover:text-purple-700 font-medium mt-2 py-1"
                     >
-                      {showAllBrands ? 'הצג פחות' : `הצג הכל (${brands.length})`}
+                      {showAllBrands ? t('common.showLess') : t('common.showAll', { count: brands.length })}
                     </button>
                   )}
                 </div>
@@ -766,25 +1134,196 @@ export default function StorePage() {
         </aside>
 
       {/* Main Content */}
-      <div className="w-full py-8 pb-32 lg:pr-64">
+      <div className="w-full py-8 pb-32 lg:ps-64">
         {/* Main Content Area */}
-        <main className="w-full pr-4 sm:pr-6 lg:pr-8 pl-4 sm:pl-6 lg:pl-8">
+        <main className="w-full ps-4 sm:ps-6 lg:ps-8 pe-4 sm:pe-6 lg:pe-8">
+        <OfflineStoreBanner
+          isOnline={isOnline}
+          catalogCachedAt={catalogCachedAt}
+          pendingOrders={storePendingOrders}
+          onRetry={retryPendingOrder}
+          onDismiss={dismissPendingOrder}
+        />
+
+        {/* Order link countdown; the expired screen takes over when it runs out */}
+        {!isEditMode && order?.status === 'EMPTY' && order.linkExpiresAt && (
+          <OrderLinkCountdown
+            expiresAt={order.linkExpiresAt}
+            onExpired={() => setOrder((prev) => (prev ? { ...prev, status: 'EXPIRED' } : prev))}
+          />
+        )}
+
+        {isEditMode && droppedEditLines.length > 0 && (
+          <div className="bg-amber-50 rounded-xl p-4 mb-6 border border-amber-200 text-sm" role="alert">
+            <h2 className="font-semibold text-amber-800 mb-2">{t('store.edit.droppedLinesTitle')}</h2>
+            <p className="text-gray-700 mb-2">{t('store.edit.droppedLinesHint')}</p>
+            <ul className="list-disc ps-5 space-y-0.5 text-gray-800 mb-3">
+              {droppedEditLines.map((line, index) => (
+                <li key={index}>{line}</li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={() => setDroppedEditLines([])}
+              className="px-4 py-1.5 rounded-lg bg-amber-600 text-white font-semibold hover:bg-amber-700 transition-colors"
+            >
+              {t('common.understood')}
+            </button>
+          </div>
+        )}
+
+        {/* Scanner mode: staff editing an order scan items straight into the cart */}
+        {isEditMode && (
+          <section className="glass-card rounded-3xl p-4 mb-6 flex flex-wrap items-center gap-3" aria-label={t('store.scanner.title')}>
+            <div className="flex-1 min-w-[12rem]">
+              <h2 className="text-base font-bold text-gray-800">{t('store.scanner.title')}</h2>
+              <p className="text-xs text-gray-600">{t('store.scanner.hint')}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                setIsScannerOn((prev) => !prev);
+                setScanNotice(null);
+              }}
+              aria-pressed={isScannerOn}
+              className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all ${
+                isScannerOn ? 'store-primary-bg' : 'glass-button text-gray-800'
+              }`}
+            >
+              {isScannerOn ? t('store.scanner.disable') : t('store.scanner.enable')}
+            </button>
+            {isScannerOn && scanNotice && (
+              <p
+                className={`w-full text-sm font-semibold ${scanNotice.tone === 'error' ? 'text-red-700' : 'text-green-700'}`}
+              >
+                {scanNotice.message}
+              </p>
+            )}
+          </section>
+        )}
+
+        {/* Store banner and welcome text (business theme) */}
+        {(storeTheme?.bannerImageUrl || storeTheme?.welcomeText) && (
+          <section className="glass-card rounded-3xl overflow-hidden mb-6" aria-label={t('store.welcome')}>
+            {storeTheme.bannerImageUrl && (
+              <img
+                src={storeTheme.bannerImageUrl}
+                alt=""
+                className="w-full h-32 sm:h-48 object-cover"
+                onError={(e) => {
+                  (e.target as HTMLImageElement).style.display = 'none';
+                }}
+              />
+            )}
+            {storeTheme.welcomeText && (
+              <p className="px-5 py-4 text-base sm:text-lg font-medium text-gray-800 whitespace-pre-line">
+                {storeTheme.welcomeText}
+              </p>
+            )}
+          </section>
+        )}
+
+        {/* Search */}
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+          <div className="relative w-full sm:max-w-md">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder={t('store.search.placeholder')}
+              maxLength={100}
+              className="glass-input w-full ps-11 pe-10 py-2.5 rounded-xl text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500 border border-gray-300 bg-white/70"
+              aria-label={t('store.search.label')}
+            />
+            <div className="absolute start-3 top-1/2 -translate-y-1/2 text-gray-400">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+            </div>
+            {searchQuery && (
+              <button
+                type="button"
+                onClick={() => setSearchQuery('')}
+                className="absolute end-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label={t('store.search.clear')}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsQuickOrderOpen(true)}
+            className="px-3 py-2 rounded-xl text-sm font-semibold glass-button text-gray-800 flex items-center gap-1.5 self-start sm:self-auto shrink-0"
+          >
+            <span aria-hidden="true">📋</span>
+            {t('store.quickOrder.open')}
+          </button>
+          {isSearching && (
+            <span className="text-sm text-gray-600" role="status">
+              {t('store.search.results', { count: filteredProducts.length })}
+            </span>
+          )}
+          {(isSearching || selectedCategories.length > 0 || selectedBrands.length > 0) && (
+            <button
+              type="button"
+              onClick={handleCopyViewLink}
+              className="sm:ms-auto px-3 py-2 rounded-xl text-sm font-semibold glass-button text-gray-800 flex items-center gap-1.5 self-start sm:self-auto"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+              </svg>
+              <span aria-live="polite">{viewLinkCopied ? t('store.viewLink.copied') : t('store.viewLink.copy')}</span>
+            </button>
+          )}
+        </div>
+
+        {!isSearching && selectedCategories.length === 0 && selectedBrands.length === 0 && (
+          <StoreShelves
+            favorites={favoriteProducts}
+            favoriteLines={favoriteLines}
+            buyAgainLines={buyAgain.lines}
+            unavailableCount={buyAgain.unavailableCount}
+            isCustomerLinked={shelves.isCustomerLinked}
+            onAddLines={addLinesToCart}
+            onOpenProduct={setSelectedProduct}
+          />
+        )}
+
         {filteredProducts.length === 0 ? (
           <div className="glass-card p-12 rounded-3xl text-center">
             <div className="text-6xl mb-4">📦</div>
-            <h2 className="text-2xl font-bold text-gray-800 mb-2">לא נמצאו מוצרים</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">{t('store.empty.title')}</h2>
             <p className="text-gray-600">
-              {selectedCategories.length > 0 || selectedBrands.length > 0
-                ? 'נסה להתאים את המסננים שלך'
-                : 'בדוק מאוחר יותר למוצרים חדשים!'}
+              {isSearching
+                ? t('store.empty.noResults', { query: searchQuery.trim() })
+                : selectedCategories.length > 0 || selectedBrands.length > 0
+                ? t('store.empty.adjustFilters')
+                : t('store.empty.checkLater')}
             </p>
           </div>
         ) : (
-          <div className="grid grid-cols-2 sm:grid-cols-[repeat(auto-fill,minmax(220px,1fr))] gap-3 sm:gap-4 md:gap-6">
-            {filteredProducts.map((product) => {
-              const cartItem = cart.find(item => item.product.id === product.id);
-              const inCart = !!cartItem;
+          <div
+            ref={productGrid.gridRef}
+            style={productGrid.gridStyle}
+            className="grid grid-cols-2 sm:grid-cols-[repeat(auto-fill,minmax(220px,1fr))] gap-3 sm:gap-4 md:gap-6"
+          >
+            {filteredProducts.slice(productGrid.startIndex, productGrid.endIndex).map((product) => {
+              // All lines of the product (one per variant) count towards the "in cart" badge
+              const cartQuantity = cart
+                .filter(item => item.product.id === product.id)
+                .reduce((sum, item) => sum + item.quantity, 0);
+              const inCart = cartQuantity > 0;
               const showSuccess = justAdded.has(product.id);
+              const isVariantProduct = hasVariants(product);
+              const priceRange = getPriceRange(product);
+              const bestTier = getBestTier(product.priceTiers);
+              const ruleHint = describeProductRule(getProductRule(cartRules, product.id));
+              const isFavorite = shelves.favoriteIds.includes(product.id);
+              const available = getAvailableQuantity(product);
+              const isSoldOut = available != null && available <= 0;
 
               return (
                 <div
@@ -799,6 +1338,8 @@ export default function StorePage() {
                         <img
                           src={productImages[product.id][productImageIndices[product.id] || 0]}
                           alt={product.name}
+                          loading="lazy"
+                          decoding="async"
                           className="w-full h-full object-contain group-hover:scale-110 transition-transform duration-500"
                           onError={(e) => {
                             (e.target as HTMLImageElement).style.display = 'none';
@@ -820,7 +1361,7 @@ export default function StorePage() {
                                 setProductImageIndices(prev => ({ ...prev, [product.id]: newIndex }));
                               }}
                               className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/70 hover:bg-black/90 text-white opacity-100 md:opacity-0 md:group-hover/image:opacity-100 transition-opacity backdrop-blur-sm z-10"
-                              title="תמונה קודמת"
+                              title={t('store.product.previousImage')}
                             >
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -835,7 +1376,7 @@ export default function StorePage() {
                                 setProductImageIndices(prev => ({ ...prev, [product.id]: newIndex }));
                               }}
                               className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/70 hover:bg-black/90 text-white opacity-100 md:opacity-0 md:group-hover/image:opacity-100 transition-opacity backdrop-blur-sm z-10"
-                              title="תמונה הבאה"
+                              title={t('store.product.nextImage')}
                             >
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
@@ -859,11 +1400,29 @@ export default function StorePage() {
                       </div>
                     )}
                     
+                    {/* Favourite toggle */}
+                    {!isEditMode && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          shelves.toggleFavorite(product.id);
+                        }}
+                        className="absolute top-2 left-2 z-10 w-8 h-8 rounded-full bg-white/85 hover:bg-white shadow flex items-center justify-center text-lg leading-none"
+                        aria-label={isFavorite ? t('store.favorites.remove') : t('store.favorites.add')}
+                        aria-pressed={isFavorite}
+                      >
+                        <span className={isFavorite ? 'text-red-500' : 'text-gray-500'} aria-hidden="true">
+                          {isFavorite ? '♥' : '♡'}
+                        </span>
+                      </button>
+                    )}
+
                     {/* In Cart Badge */}
                     {inCart && (
                       <div className="absolute top-2 right-2 backdrop-blur-xl bg-green-600/90 px-2 py-0.5 rounded-full text-xs font-bold text-white shadow-lg flex items-center gap-1">
                         <span>✓</span>
-                        <span>{cartItem!.quantity}</span>
+                        <span>{cartQuantity}</span>
                       </div>
                     )}
                   </div>
@@ -872,76 +1431,114 @@ export default function StorePage() {
                   <div className="p-3 flex flex-col flex-1">
                     {/* Title */}
                     <h3 className="text-base font-bold text-gray-900 mb-1 line-clamp-1">
-                      {product.name}
+                      <HighlightedText text={product.name} query={searchQuery} />
                     </h3>
 
                     {/* Description */}
                     <p className="text-xs text-gray-600 mb-1 whitespace-pre-line line-clamp-2">
-                      {product.description || ''}
+                      <HighlightedText text={product.description || ''} query={searchQuery} />
                     </p>
 
                     {/* Price */}
                     <div className="pb-1">
                       <span className="text-xl font-bold text-purple-600">
-                        {formatPrice(product.price)}
+                        {priceRange.min !== priceRange.max && <span className="text-xs font-semibold">{t('store.product.priceFrom')}</span>}
+                        {formatPrice(priceRange.min)}
                       </span>
-                    </div>
-
-                    {/* Quantity and Add to Cart */}
-                    <div className="flex items-center gap-1.5 mt-auto" onClick={(e) => e.stopPropagation()}>
-                      {/* Quantity Selector */}
-                      <div className="flex items-center glass-button rounded-lg overflow-hidden border border-gray-300">
-                        <button
-                          onClick={() => updatePendingQuantity(product.id, -1)}
-                          className="px-2 py-1.5 hover:bg-white/80 transition-colors font-bold text-gray-700 text-sm"
-                        >
-                          −
-                        </button>
-                        <span className="px-2 py-1.5 font-bold text-gray-900 min-w-[2rem] text-center border-x border-gray-300 text-sm">
-                          {getPendingQuantity(product.id)}
+                      {bestTier && bestTier.price < product.price && (
+                        <span className="block text-[11px] font-semibold text-emerald-700">
+                          {t('store.product.tierPrice', { price: formatPrice(bestTier.price), quantity: bestTier.minQuantity })}
                         </span>
-                        <button
-                          onClick={() => updatePendingQuantity(product.id, 1)}
-                          className="px-2 py-1.5 hover:bg-white/80 transition-colors font-bold text-gray-700 text-sm"
-                        >
-                          +
-                        </button>
-                      </div>
+                      )}
+                      {ruleHint && <span className="block text-[11px] font-semibold text-amber-700">{ruleHint}</span>}
+                      {isSoldOut ? (
+                        <span className="block text-[11px] font-semibold text-red-700">{t('store.stock.outOfStock')}</span>
+                      ) : (
+                        available != null &&
+                        available <= FEW_LEFT_QUANTITY && (
+                          <span className="block text-[11px] font-semibold text-amber-700">
+                            {t('store.stock.fewLeft', { count: available })}
+                          </span>
+                        )
+                      )}
+                    </div>
 
-                      {/* Add/Success Button - min size; icon-only on mobile when space is tight */}
+                    {/* Products with variants are added from the detail modal, after choosing a variant */}
+                    {isVariantProduct ? (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSelectedProduct(product);
+                        }}
+                        className="mt-auto w-full min-h-[2.25rem] font-semibold py-1.5 px-2 rounded-lg store-primary-bg hover:shadow-xl transition-all duration-200 text-sm"
+                      >
+                        {t('store.product.chooseOptions')}
+                      </button>
+                    ) : blockUnavailable && isSoldOut ? (
                       <button
-                        onClick={() => !showSuccess && addToCart(product, getPendingQuantity(product.id))}
-                        disabled={showSuccess}
-                        className="flex-1 min-w-[2.75rem] min-h-[2.25rem] font-semibold py-1.5 px-2 sm:px-3 rounded-lg flex items-center justify-center relative overflow-hidden bg-purple-600 text-white hover:bg-purple-700 hover:shadow-xl transition-all duration-200 text-sm"
-                        aria-label="הוסף לעגלה"
+                        type="button"
+                        disabled
+                        onClick={(e) => e.stopPropagation()}
+                        className="mt-auto w-full min-h-[2.25rem] font-semibold py-1.5 px-2 rounded-lg bg-gray-200 text-gray-500 cursor-not-allowed text-sm"
                       >
-                        {/* Purple background (always there) */}
-                        <div className="absolute inset-0 bg-purple-600 transition-opacity duration-300 ease-in-out"></div>
+                        {t('store.stock.outOfStock')}
+                      </button>
+                    ) : (
+                      <div className="flex items-center gap-1.5 mt-auto" onClick={(e) => e.stopPropagation()}>
+                        {/* Quantity Selector */}
+                        <div className="flex items-center glass-button rounded-lg overflow-hidden border border-gray-300">
+                          <button
+                            onClick={() => updatePendingQuantity(product.id, -1)}
+                            className="px-2 py-1.5 hover:bg-white/80 transition-colors font-bold text-gray-700 text-sm"
+                          >
+                            −
+                          </button>
+                          <span className="px-2 py-1.5 font-bold text-gray-900 min-w-[2rem] text-center border-x border-gray-300 text-sm">
+                            {getPendingQuantity(product.id)}
+                          </span>
+                          <button
+                            onClick={() => updatePendingQuantity(product.id, 1)}
+                            className="px-2 py-1.5 hover:bg-white/80 transition-colors font-bold text-gray-700 text-sm"
+                          >
+                            +
+                          </button>
+                        </div>
+
+                        {/* Add/Success Button - min size; icon-only on mobile when space is tight */}
+                        <button
+                          onClick={() => !showSuccess && addToCart(product, getPendingQuantity(product.id))}
+                          disabled={showSuccess}
+                          className="flex-1 min-w-[2.75rem] min-h-[2.25rem] font-semibold py-1.5 px-2 sm:px-3 rounded-lg flex items-center justify-center relative overflow-hidden store-primary-bg hover:shadow-xl transition-all duration-200 text-sm"
+                          aria-label={t('store.product.addToCart')}
+                        >
+                          {/* Store color background (always there) */}
+                          <div className="absolute inset-0 store-primary-bg transition-opacity duration-300 ease-in-out"></div>
                         
-                        {/* Green success overlay - fades in over purple, then fades back out to reveal purple */}
-                        <div 
-                          className={`absolute inset-0 bg-green-600 transition-opacity duration-300 ease-in-out ${
-                            showSuccess ? 'opacity-100' : 'opacity-0'
-                          }`}
-                        ></div>
-
-                        {/* Content - text only */}
-                        <div className="relative z-10 flex items-center justify-center">
-                          <div className="relative inline-block min-w-[2.5rem] sm:min-w-[3rem]">
-                            <span className={`block transition-opacity duration-300 ease-in-out ${
-                              showSuccess ? 'opacity-0' : 'opacity-100'
-                            }`}>
-                              הוסף
-                            </span>
-                            <span className={`absolute top-0 left-0 right-0 transition-opacity duration-300 ease-in-out ${
+                          {/* Green success overlay - fades in over the store color, then fades back out to reveal it */}
+                          <div 
+                            className={`absolute inset-0 bg-green-600 transition-opacity duration-300 ease-in-out ${
                               showSuccess ? 'opacity-100' : 'opacity-0'
-                            }`}>
-                              נוסף!
-                            </span>
+                            }`}
+                          ></div>
+
+                          {/* Content - text only */}
+                          <div className="relative z-10 flex items-center justify-center">
+                            <div className="relative inline-block min-w-[2.5rem] sm:min-w-[3rem]">
+                              <span className={`block transition-opacity duration-300 ease-in-out ${
+                                showSuccess ? 'opacity-0' : 'opacity-100'
+                              }`}>
+                                {t('store.product.add')}
+                              </span>
+                              <span className={`absolute top-0 inset-x-0 transition-opacity duration-300 ease-in-out ${
+                                showSuccess ? 'opacity-100' : 'opacity-0'
+                              }`}>
+                                {t('store.product.added')}
+                              </span>
+                            </div>
                           </div>
-                        </div>
-                      </button>
-                    </div>
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               );
@@ -949,6 +1546,27 @@ export default function StorePage() {
           </div>
         )}
 
+        {/* Store footer with contact details (business theme) */}
+        {storeTheme && hasStoreFooter(storeTheme) && (
+          <footer className="glass-card rounded-3xl mt-10 px-6 py-5 text-sm text-gray-700 space-y-2">
+            <p className="font-semibold text-gray-800">{storeBusiness?.name}</p>
+            {storeTheme.footerText && <p className="whitespace-pre-line">{storeTheme.footerText}</p>}
+            <div className="flex flex-wrap gap-x-6 gap-y-1">
+              {storeTheme.contactPhone && (
+                <a href={`tel:${storeTheme.contactPhone}`} className="underline hover:text-gray-900" dir="ltr">
+                  📞 {storeTheme.contactPhone}
+                </a>
+              )}
+              {storeTheme.contactEmail && (
+                <a href={`mailto:${storeTheme.contactEmail}`} className="underline hover:text-gray-900" dir="ltr">
+                  ✉️ {storeTheme.contactEmail}
+                </a>
+              )}
+              {storeTheme.contactAddress && <span>📍 {storeTheme.contactAddress}</span>}
+            </div>
+          </footer>
+        )}
+
         </main>
       </div>
 
@@ -963,18 +1581,18 @@ export default function StorePage() {
           aria-hidden={!isSidebarOpen}
         />
 
-        {/* Drawer - slides in from the right */}
+        {/* Drawer - slides in from the start side */}
         <div
-          className={`fixed right-0 top-0 h-full w-full sm:w-96 backdrop-blur-xl bg-white/95 border-l-2 border-white/40 z-50 shadow-2xl transform transition-transform duration-300 ease-out flex flex-col lg:hidden ${
-            isSidebarOpen ? 'translate-x-0' : 'translate-x-full pointer-events-none'
+          className={`fixed start-0 top-0 h-full w-full sm:w-96 backdrop-blur-xl bg-white/95 border-e-2 border-white/40 z-50 shadow-2xl transform transition-transform duration-300 ease-out flex flex-col lg:hidden ${
+            isSidebarOpen ? 'translate-x-0' : 'rtl:translate-x-full ltr:-translate-x-full pointer-events-none'
           }`}
-          dir="rtl"
+          dir={dir}
         >
             <div className="flex flex-col h-full">
               {/* Header */}
               <div className="p-6 border-b border-gray-200/50 flex-shrink-0">
                 <div className="flex items-center justify-between">
-                  <h2 className="text-2xl font-bold text-gray-800">מסננים</h2>
+                  <h2 className="text-2xl font-bold text-gray-800">{t('store.filters')}</h2>
                   <button
                     onClick={() => setIsSidebarOpen(false)}
                     className="text-gray-600 hover:text-gray-800 text-3xl leading-none"
@@ -992,24 +1610,24 @@ export default function StorePage() {
                     onClick={clearAllFilters}
                     className="w-full mb-4 px-4 py-2 text-sm font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50/50 rounded-lg transition-colors"
                   >
-                    נקה כל המסננים
+                    {t('store.clearFilters')}
                   </button>
                 )}
 
                 {/* Sort and Show */}
                 <div className="pt-4 mb-6 space-y-4">
                   <div>
-                    <span className="text-sm font-semibold text-gray-700 block mb-2">מיין:</span>
+                    <span className="text-sm font-semibold text-gray-700 block mb-2">{t('store.sortBy')}</span>
                     <div className="flex flex-wrap gap-2">
                       <button
                         onClick={() => handleSortChange('name')}
                         className={`px-3 py-2 rounded-xl text-sm font-semibold transition-all flex items-center gap-1 ${
                           sortBy === 'name'
-                            ? 'bg-indigo-600 text-white shadow-md'
+                            ? 'store-accent-bg shadow-md'
                             : 'glass-button text-gray-800 hover:shadow-md'
                         }`}
                       >
-                        <span>שם</span>
+                        <span>{t('store.sort.name')}</span>
                         {sortBy === 'name' && (
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             {sortDirection === 'ASC' ? (
@@ -1024,11 +1642,11 @@ export default function StorePage() {
                         onClick={() => handleSortChange('price')}
                         className={`px-3 py-2 rounded-xl text-sm font-semibold transition-all flex items-center gap-1 ${
                           sortBy === 'price'
-                            ? 'bg-indigo-600 text-white shadow-md'
+                            ? 'store-accent-bg shadow-md'
                             : 'glass-button text-gray-800 hover:shadow-md'
                         }`}
                       >
-                        <span>מחיר</span>
+                        <span>{t('store.sort.price')}</span>
                         {sortBy === 'price' && (
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             {sortDirection === 'ASC' ? (
@@ -1052,7 +1670,7 @@ export default function StorePage() {
                     onClick={() => setIsCategoriesExpanded(!isCategoriesExpanded)}
                     className="w-full flex items-center justify-between mb-2 text-base font-semibold text-gray-800"
                   >
-                    <span>קטגוריות</span>
+                    <span>{t('store.categories')}</span>
                     <svg
                       className={`w-5 h-5 transition-transform ${isCategoriesExpanded ? 'rotate-180' : ''}`}
                       fill="none"
@@ -1085,7 +1703,7 @@ export default function StorePage() {
                           onClick={() => setShowAllCategories(!showAllCategories)}
                           className="w-full text-sm text-purple-600 hover:text-purple-700 font-medium mt-2 py-1"
                         >
-                          {showAllCategories ? 'הצג פחות' : `הצג הכל (${categories.length})`}
+                          {showAllCategories ? t('common.showLess') : t('common.showAll', { count: categories.length })}
                         </button>
                       )}
                     </div>
@@ -1098,7 +1716,7 @@ export default function StorePage() {
                     onClick={() => setIsBrandsExpanded(!isBrandsExpanded)}
                     className="w-full flex items-center justify-between mb-2 text-base font-semibold text-gray-800"
                   >
-                    <span>מותגים</span>
+                    <span>{t('store.brands')}</span>
                     <svg
                       className={`w-5 h-5 transition-transform ${isBrandsExpanded ? 'rotate-180' : ''}`}
                       fill="none"
@@ -1131,7 +1749,7 @@ export default function StorePage() {
                           onClick={() => setShowAllBrands(!showAllBrands)}
                           className="w-full text-sm text-purple-600 hover:text-purple-700 font-medium mt-2 py-1"
                         >
-                          {showAllBrands ? 'הצג פחות' : `הצג הכל (${brands.length})`}
+                          {showAllBrands ? t('common.showLess') : t('common.showAll', { count: brands.length })}
                         </button>
                       )}
                     </div>
@@ -1153,14 +1771,14 @@ export default function StorePage() {
         )}
 
         {/* Cart Sidebar */}
-        <div className={`fixed left-0 top-0 h-full w-full sm:w-[480px] md:w-[520px] backdrop-blur-xl bg-white/95 border-r-2 border-white/40 z-50 shadow-2xl transform transition-transform duration-300 ease-out flex flex-col ${
-          isCartOpen ? 'translate-x-0' : '-translate-x-full'
-        }`} dir="rtl">
+        <div className={`fixed end-0 top-0 h-full w-full sm:w-[480px] md:w-[520px] backdrop-blur-xl bg-white/95 border-s-2 border-white/40 z-50 shadow-2xl transform transition-transform duration-300 ease-out flex flex-col ${
+          isCartOpen ? 'translate-x-0' : 'rtl:-translate-x-full ltr:translate-x-full'
+        }`} dir={dir}>
             <div className="flex flex-col h-full">
               {/* Cart Header - Fixed */}
               <div className="p-6 border-b border-gray-200/50 flex-shrink-0">
                 <div className="flex items-center justify-between">
-                  <h2 className="text-2xl font-bold text-gray-800">העגלה שלך</h2>
+                  <h2 className="text-2xl font-bold text-gray-800">{t('store.cart.title')}</h2>
                   <button
                     onClick={() => setIsCartOpen(false)}
                     className="text-gray-600 hover:text-gray-800 text-3xl leading-none"
@@ -1175,82 +1793,107 @@ export default function StorePage() {
                 {cart.length === 0 ? (
                   <div className="text-center py-12">
                     <div className="text-6xl mb-4">🛒</div>
-                    <p className="text-gray-600">העגלה שלך ריקה</p>
+                    <p className="text-gray-600">{t('store.cart.empty')}</p>
                   </div>
                 ) : (
                   <div className="space-y-2.5 flex flex-col items-center">
-                    {cart.map((item) => (
-                      <div
-                        key={item.product.id}
-                        className="bg-white/90 backdrop-blur-md rounded-3xl p-4 border-2 border-gray-200 hover:border-purple-300 hover:shadow-2xl transition-all w-full sm:w-[440px]"
-                      >
-                        <div className="flex items-start justify-between gap-4 mb-2 px-3">
-                          <h4 className="font-semibold text-gray-900 text-base leading-snug flex-1 text-center truncate" title={item.product.name}>
-                            {item.product.name}
-                          </h4>
-                          <button
-                            onClick={() => removeFromCart(item.product.id)}
-                            className="w-8 h-8 rounded-full bg-red-500/90 hover:bg-red-600 text-white flex items-center justify-center flex-shrink-0 transition-all shadow"
-                            title="הסר פריט"
-                          >
-                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
-                            </svg>
-                          </button>
-                        </div>
-
-                        <div className="grid grid-cols-[110px,48px,1fr] gap-3 items-stretch">
-                          {/* Product Image */}
-                          <div className="rounded-2xl overflow-hidden bg-gradient-to-br from-gray-100 to-gray-200 border border-gray-200 flex items-center justify-center min-h-[90px]">
-                            {productImages[item.product.id] && productImages[item.product.id].length > 0 ? (
-                              <img
-                                src={productImages[item.product.id][0]}
-                                alt={item.product.name}
-                                className="w-full h-full object-contain"
-                                onError={(e) => {
-                                  (e.target as HTMLImageElement).style.display = 'none';
-                                  const placeholder = (e.target as HTMLImageElement).parentElement;
-                                  if (placeholder) {
-                                    placeholder.innerHTML = '<div class="w-full h-full flex items-center justify-center text-gray-400 text-3xl">📦</div>';
-                                  }
-                                }}
-                              />
-                            ) : (
-                              <span className="text-3xl text-gray-400">📦</span>
-                            )}
-                          </div>
-
-                          {/* Quantity Controls */}
-                          <div className="flex flex-col items-center justify-center gap-1.5 bg-gray-100/70 border border-gray-200 rounded-2xl px-2 py-2.5 min-h-[90px]">
-                            <button
-                              onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
-                              className="w-8 h-8 rounded-full border border-gray-300 bg-white hover:bg-gray-50 hover:border-purple-400 flex items-center justify-center font-semibold text-gray-600 hover:text-purple-600 transition-all text-sm"
-                            >
-                              +
-                            </button>
-                            <span className="font-semibold text-gray-900 text-sm w-10 text-center">{item.quantity}</span>
+                    {cart.map((item) => {
+                      const { unitPrice, tier } = getLinePrice(item.product, item.variant, item.quantity);
+                      // Tiers only apply to lines at the product price (see utils/priceTiers)
+                      const nextTier = item.variant?.price == null ? getNextTier(item.product.priceTiers, item.quantity) : null;
+                      return (
+                        <div
+                          key={getLineKey(item.product.id, item.variant?.id)}
+                          className="bg-white/90 backdrop-blur-md rounded-3xl p-4 border-2 border-gray-200 hover:border-purple-300 hover:shadow-2xl transition-all w-full sm:w-[440px]"
+                        >
+                          <div className="flex items-start justify-between gap-4 mb-2 px-3">
+                            <div className="flex-1 min-w-0 text-center">
+                              <h4 className="font-semibold text-gray-900 text-base leading-snug truncate" title={item.product.name}>
+                                {item.product.name}
+                              </h4>
+                              {item.variant && (
+                                <p className="text-xs font-medium text-purple-700 truncate">
+                                  {getVariantLabel(item.variant, item.product.variantAxes)}
+                                </p>
+                              )}
+                            </div>
                             <button
-                              onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
-                              className="w-8 h-8 rounded-full border border-gray-300 bg-white hover:bg-gray-50 hover:border-purple-400 flex items-center justify-center font-semibold text-gray-600 hover:text-purple-600 transition-all text-sm"
+                              onClick={() => removeFromCart(item.product.id, item.variant?.id ?? null)}
+                              className="w-8 h-8 rounded-full bg-red-500/90 hover:bg-red-600 text-white flex items-center justify-center flex-shrink-0 transition-all shadow"
+                              title={t('store.cart.removeItem')}
                             >
-                              −
+                              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+                              </svg>
                             </button>
                           </div>
 
-                          {/* Product Details */}
-                          <div className="flex flex-col gap-2 min-w-0">
-                            <div className="bg-gray-100/80 border border-gray-200 rounded-2xl px-3 py-2 text-center flex flex-col items-center justify-center min-h-[90px] h-full">
-                              <span className="text-sm text-gray-600 whitespace-nowrap">
-                                {formatPrice(item.product.price)} × {item.quantity}
-                              </span>
-                              <span className="text-lg font-bold text-purple-600 whitespace-nowrap">
-                                {formatPrice(item.product.price * item.quantity)}
-                              </span>
+                          <div className="grid grid-cols-[110px,48px,1fr] gap-3 items-stretch">
+                            {/* Product Image */}
+                            <div className="rounded-2xl overflow-hidden bg-gradient-to-br from-gray-100 to-gray-200 border border-gray-200 flex items-center justify-center min-h-[90px]">
+                              {productImages[item.product.id] && productImages[item.product.id].length > 0 ? (
+                                <img
+                                  src={productImages[item.product.id][0]}
+                                  alt={item.product.name}
+                                  className="w-full h-full object-contain"
+                                  onError={(e) => {
+                                    (e.target as HTMLImageElement).style.display = 'none';
+                                    const placeholder = (e.target as HTMLImageElement).parentElement;
+                                    if (placeholder) {
+                                      placeholder.innerHTML = '<div class="w-full h-full flex items-center justify-center text-gray-400 text-3xl">📦</div>';
+                                    }
+                                  }}
+                                />
+                              ) : (
+                                <span className="text-3xl text-gray-400">📦</span>
+                              )}
+                            </div>
+
+                            {/* Quantity Controls */}
+                            <div className="flex flex-col items-center justify-center gap-1.5 bg-gray-100/70 border border-gray-200 rounded-2xl px-2 py-2.5 min-h-[90px]">
+                              <button
+                                onClick={() => updateQuantity(item.product.id, stepQuantity(getProductRule(cartRules, item.product.id), item.quantity, 1), item.variant?.id ?? null)}
+                                className="w-8 h-8 rounded-full border border-gray-300 bg-white hover:bg-gray-50 hover:border-purple-400 flex items-center justify-center font-semibold text-gray-600 hover:text-purple-600 transition-all text-sm"
+                              >
+                                +
+                              </button>
+                              <span className="font-semibold text-gray-900 text-sm w-10 text-center">{item.quantity}</span>
+                              <button
+                                onClick={() => updateQuantity(item.product.id, stepQuantity(getProductRule(cartRules, item.product.id), item.quantity, -1), item.variant?.id ?? null)}
+                                className="w-8 h-8 rounded-full border border-gray-300 bg-white hover:bg-gray-50 hover:border-purple-400 flex items-center justify-center font-semibold text-gray-600 hover:text-purple-600 transition-all text-sm"
+                              >
+                                −
+                              </button>
+                            </div>
+
+                            {/* Product Details */}
+                            <div className="flex flex-col gap-2 min-w-0">
+                              <div className="bg-gray-100/80 border border-gray-200 rounded-2xl px-3 py-2 text-center flex flex-col items-center justify-center min-h-[90px] h-full">
+                                <span className="text-sm text-gray-600 whitespace-nowrap">
+                                  {formatPrice(unitPrice)} × {item.quantity}
+                                </span>
+                                <span className="text-lg font-bold text-purple-600 whitespace-nowrap">
+                                  {formatPrice(unitPrice * item.quantity)}
+                                </span>
+                                {tier && (
+                                  <span className="text-[11px] font-semibold text-emerald-700 whitespace-nowrap">
+                                    {t('store.cart.tierPrice', { quantity: tier.minQuantity })}
+                                  </span>
+                                )}
+                                {nextTier && nextTier.price < unitPrice && (
+                                  <span className="text-[11px] text-gray-500">
+                                    {t('store.cart.nextTier', {
+                                      count: nextTier.minQuantity - item.quantity,
+                                      price: formatPrice(nextTier.price),
+                                    })}
+                                  </span>
+                                )}
+                              </div>
                             </div>
                           </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -1262,31 +1905,48 @@ export default function StorePage() {
                   <div className="bg-white/90 backdrop-blur-sm rounded-xl px-4 py-2.5 mb-4 border-2 border-purple-400/60 shadow-md">
                     <div className="flex items-center">
                       <span className="text-base font-semibold text-gray-800">
-                        סה״כ: <span className="text-2xl font-bold text-purple-600">{formatPrice(getTotalPrice())}</span>
+                        {t('store.cart.total')} <span className="text-2xl font-bold text-purple-600">{formatPrice(getTotalPrice())}</span>
                       </span>
                       <div className="flex-1 flex justify-center">
                         <div className="w-px h-6 bg-purple-300/40"></div>
                       </div>
                       <span className="text-sm font-medium text-gray-700">
-                        פריטים: <span className="font-bold">{getTotalItems()}</span>
+                        {t('store.cart.items')} <span className="font-bold">{getTotalItems()}</span>
                       </span>
                     </div>
                   </div>
 
+                  {/* Prices changed since the cart was saved */}
+                  {cartChanges.length > 0 && liveCatalog && (
+                    <div className="mb-4">
+                      <CartChangesNotice changes={cartChanges} onAccept={() => acceptLivePrices(liveCatalog)} />
+                    </div>
+                  )}
+
+                  {/* Cart rules still broken */}
+                  {cartRuleViolations.length > 0 && (
+                    <ul className="mb-4 space-y-1 rounded-xl bg-amber-50 border border-amber-200 px-4 py-2.5 text-sm text-amber-800" role="alert">
+                      {cartRuleViolations.map((violation) => (
+                        <li key={violation.message}>{violation.message}</li>
+                      ))}
+                    </ul>
+                  )}
+
                   {/* Checkout Button */}
                   <button
+                    disabled={cartChanges.length > 0 || cartRuleViolations.length > 0}
                     onClick={() => {
                       // Allow checkout if we have managerId (public store) or orderId (order link)
                       if (!managerId && !orderId) {
-                        alert('לא ניתן להמשיך לתשלום');
+                        alert(t('store.cart.cannotCheckout'));
                         return;
                       }
                       setIsCheckoutOpen(true);
                       setIsCartOpen(false);
                     }}
-                    className="w-full bg-purple-600 text-white font-bold py-4 rounded-xl hover:bg-purple-700 hover:shadow-2xl hover:scale-105 transition-all duration-200 shadow-lg"
+                    className="w-full store-primary-bg font-bold py-4 rounded-xl hover:shadow-2xl hover:scale-105 transition-all duration-200 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
                   >
-                    המשך לתשלום
+                    {t('store.cart.checkout')}
                   </button>
                 </div>
               )}
@@ -1304,13 +1964,24 @@ export default function StorePage() {
           isOpen={!!selectedProduct}
           onClose={() => setSelectedProduct(null)}
           onAddToCart={addToCart}
-          currentQuantity={cart.find(item => item.product.id === selectedProduct.id)?.quantity || 0}
+          getCartQuantity={getCartQuantity}
           getPendingQuantity={getPendingQuantity}
           updateQuantity={updateQuantity}
-          inCart={!!cart.find(item => item.product.id === selectedProduct.id)}
+          quantityRule={getProductRule(cartRules, selectedProduct.id)}
+          blockUnavailable={blockUnavailable}
+          searchQuery={searchQuery}
         />
       )}
 
+      {/* Quick order: pasted or uploaded SKU/name + quantity lines */}
+      <QuickOrderModal
+        isOpen={isQuickOrderOpen}
+        onClose={() => setIsQuickOrderOpen(false)}
+        catalog={catalog}
+        cartRules={cartRules}
+        onAddLines={(lines) => addLinesToCart(lines, 'sum')}
+      />
+
       {/* Checkout Flow */}
       {isCheckoutOpen && managerId && (
         <CheckoutFlow
@@ -1318,16 +1989,24 @@ export default function StorePage() {
           userId={managerId!}
           cart={cart}
           order={order}
+          customerLink={customerLink}
           editOrder={editOrder}
           isEditMode={isEditMode}
+          deliverySettings={storeBusiness?.deliverySettings ?? null}
+          cartRules={cartRules}
+          inventorySettings={inventorySettings}
+          storeTheme={storeTheme}
+          storeBusiness={storeBusiness}
           onClose={() => setIsCheckoutOpen(false)}
+          onCartRefresh={acceptLivePrices}
           onSuccess={() => {
+            shelves.recordPurchase(
+              cart.map(item => ({ productId: item.product.id, variantId: item.variant?.id ?? null, quantity: item.quantity }))
+            );
             setCart([]);
             // Clear cart from localStorage
-            if (orderId) {
-              localStorage.removeItem(`cart_${orderId}`);
-            } else if (managerId) {
-              localStorage.removeItem(`cart_${managerId}`);
+            if (cartKey) {
+              localStorage.removeItem(cartKey);
             }
             // In edit mode, redirect to orders page after successful update
             if (isEditMode) {
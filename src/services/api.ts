@@ -196,10 +196,94 @@ export interface Business {
   mimeType: string | null;
   minimumInvoiceSequenceNumber: number;
   minimumCreditNoteSequenceNumber: number;
+  /** Null until the manager configures delivery (pickup only). */
+  deliverySettings?: DeliverySettings | null;
+  /** Null when the store takes any cart. */
+  cartRules?: CartRules | null;
+  /** Null until the manager brands the store (default store look). */
+  storeTheme?: StoreTheme | null;
+  /** Null when stock is not tracked. */
+  inventorySettings?: InventorySettings | null;
+  /** Null until the manager changes the link lifetime (links expire after a week). */
+  orderLinkSettings?: OrderLinkSettings | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface DeliverySettings {
+  enabled: boolean;
+  /** Flat fee per delivered order. */
+  fee: number;
+  /** Orders whose products total reaches this amount are delivered for free; null = always charge the fee. */
+  freeDeliveryThreshold: number | null;
+}
+
+/** Rules a cart must meet before it can be ordered. The server enforces them again on place/update. */
+export interface CartRules {
+  /** Products total (after volume pricing, before the order discount) an order must reach; null = no minimum. */
+  minimumOrderTotal: number | null;
+  productRules: CartProductRule[];
+}
+
+export interface CartProductRule {
+  productId: string;
+  /** Name when the rule was saved, for messages about a required product that is not in the cart. */
+  productName: string;
+  /** Most units of the product per order, all variants together; null = no limit. */
+  maxQuantity: number | null;
+  /** Quantity must be a multiple of this ("sold in packs of 6"); null = any quantity. */
+  quantityMultiple: number | null;
+  /** Every order must include the product. */
+  required: boolean;
+}
+
+/**
+ * Stock tracking. Quantities are kept per product (and variant) per location (see inventoryAPI); when an order is
+ * marked done the server takes its lines out of the pickup location, or out of `deliveryLocationId` for deliveries.
+ */
+export interface InventorySettings {
+  enabled: boolean;
+  /** Checkout refuses quantities above what is in stock; otherwise the store only shows stock badges. */
+  blockUnavailableQuantities: boolean;
+  /** Location delivery orders are fulfilled from; null = stock is not decremented for deliveries. */
+  deliveryLocationId: number | null;
+}
+
+/** Order links: how long a new link stays open when the order is created without its own lifetime. */
+export interface OrderLinkSettings {
+  defaultLifetimeHours: number;
+}
+
+/**
+ * Store branding set from the business profile. Colors are "#rrggbb"; the store adjusts them at runtime when
+ * they are too light or too dark for readable text (see utils/storeTheme). Null fields keep the default look.
+ */
+export interface StoreTheme {
+  primaryColor: string | null;
+  accentColor: string | null;
+  /** Set through setStoreBanner / removeStoreBanner, not through updateMyBusiness. */
+  bannerImageUrl: string | null;
+  welcomeText: string | null;
+  /** Store footer: free text (opening hours etc.) and the contact details shown to customers. */
+  footerText: string | null;
+  contactPhone: string | null;
+  contactEmail: string | null;
+  contactAddress: string | null;
+}
+
+/** Theme fields saved with the business details; the banner has its own upload endpoint. */
+export type StoreThemeSettings = Omit<StoreTheme, 'bannerImageUrl'>;
+
+/** Public store header: name, logo, theme and the delivery terms and cart rules shown at checkout. */
+export interface StoreBusinessInfo {
+  name: string;
+  imageUrl: string | null;
+  deliverySettings?: DeliverySettings | null;
+  cartRules?: CartRules | null;
+  storeTheme?: StoreTheme | null;
+  inventorySettings?: InventorySettings | null;
+}
+
 export interface ImageMetadata {
   fileName: string;
   contentType: string;
@@ -216,6 +300,12 @@ export interface UpdateBusinessDetailsRequest {
   city: string;
   minimumInvoiceSequenceNumber: number;
   minimumCreditNoteSequenceNumber: number;
+  deliverySettings?: DeliverySettings;
+  cartRules?: CartRules;
+  /** Null clears the theme fields; the banner stays until removeStoreBanner. */
+  storeTheme?: StoreThemeSettings | null;
+  inventorySettings?: InventorySettings;
+  orderLinkSettings?: OrderLinkSettings;
 }
 
 export interface UpdateBusinessDetailsResponse {
@@ -253,6 +343,16 @@ export const businessAPI = {
     return response.data;
   },
 
+  /** Store banner: same presigned-URL flow as setBusinessImage (upload the file to `preSignedUrl`). */
+  setStoreBanner: async (imageMetadata: ImageMetadata): Promise<SetBusinessImageResponse> => {
+    const response = await api.post<SetBusinessImageResponse>('/businesses/me/store-banner', imageMetadata);
+    return response.data;
+  },
+
+  removeStoreBanner: async (): Promise<void> => {
+    await api.delete('/businesses/me/store-banner');
+  },
+
   getBusinessesByManagerIds: async (managerIds: string[]): Promise<Record<string, Business>> => {
     const response = await api.post<Record<string, Business>>('/businesses/by-managers', managerIds);
     return response.data;
@@ -284,6 +384,22 @@ export const customerAPI = {
     const response = await api.delete<string>(`/manager/customers/${customerId}`);
     return response.data;
   },
+
+  // Personal store link of the customer; null when there is none (never created or revoked)
+  getStoreLink: async (customerId: string): Promise<CustomerStoreLink | null> => {
+    const response = await api.get<CustomerStoreLink | ''>(`/manager/customers/${customerId}/store-link`);
+    return response.data || null;
+  },
+
+  // Create the link, or rotate it: a new token replaces the old one, which stops working
+  createStoreLink: async (customerId: string): Promise<CustomerStoreLink> => {
+    const response = await api.post<CustomerStoreLink>(`/manager/customers/${customerId}/store-link`);
+    return response.data;
+  },
+
+  revokeStoreLink: async (customerId: string): Promise<void> => {
+    await api.delete(`/manager/customers/${customerId}/store-link`);
+  },
 };
 
 export const agentAPI = {
@@ -351,6 +467,21 @@ export const agentAPI = {
     await api.delete(`/agent/customers/${customerId}`);
   },
 
+  // Personal store links of the agent's customers (see customerAPI.getStoreLink)
+  getCustomerStoreLinkForAgent: async (customerId: string): Promise<CustomerStoreLink | null> => {
+    const response = await api.get<CustomerStoreLink | ''>(`/agent/customers/${customerId}/store-link`);
+    return response.data || null;
+  },
+
+  createCustomerStoreLinkForAgent: async (customerId: string): Promise<CustomerStoreLink> => {
+    const response = await api.post<CustomerStoreLink>(`/agent/customers/${customerId}/store-link`);
+    return response.data;
+  },
+
+  revokeCustomerStoreLinkForAgent: async (customerId: string): Promise<void> => {
+    await api.delete(`/agent/customers/${customerId}/store-link`);
+  },
+
   // Agent Orders API
   getAllOrders: async (
     pageNumber: number = 0,
@@ -358,11 +489,13 @@ export const agentAPI = {
     sortBy: string = 'createdAt',
     sortOrder: string = 'DESC',
     status?: string,
-    customerId?: string | null
+    customerId?: string | null,
+    dateRange?: OrderDateRange | null
   ): Promise<PageResponse<Order>> => {
     const params: Record<string, unknown> = { pageNumber, pageSize, sortBy, sortOrder };
     if (status) params.status = status;
     if (customerId != null) params.customerId = customerId;
+    if (dateRange) Object.assign(params, { dateField: dateRange.field, dateFrom: dateRange.from, dateTo: dateRange.to });
     const response = await api.get<PageResponse<Order>>('/agent/orders', { params });
     return response.data;
   },
@@ -377,11 +510,28 @@ export const agentAPI = {
     return response.data;
   },
 
+  getLinkExpiryOverview: async (withinHours: number): Promise<OrderLinkExpiryOverview> => {
+    const response = await api.get<OrderLinkExpiryOverview>('/agent/orders/link-expiry', { params: { withinHours } });
+    return response.data;
+  },
+
+  /** Expired links open again (status EMPTY); returns the updated orders. */
+  extendOrderLinks: async (data: ExtendOrderLinksRequest): Promise<Order[]> => {
+    const response = await api.put<Order[]>('/agent/orders/link-expiry', data);
+    return response.data;
+  },
+
   markOrderCancelled: async (orderId: string): Promise<Order> => {
     const response = await api.put<Order>(`/agent/orders/${orderId}/status/cancelled`);
     return response.data;
   },
 
+  /** Recorded changes of the order, oldest first. */
+  getOrderActivity: async (orderId: string): Promise<OrderActivityEvent[]> => {
+    const response = await api.get<OrderActivityEvent[]>(`/agent/orders/${orderId}/activity`);
+    return response.data;
+  },
+
   updateOrder: async (orderId: string, data: UpdateOrderRequest): Promise<Order> => {
     const response = await api.put<Order>(`/agent/orders/${orderId}`, data);
     return response.data;
@@ -400,6 +550,40 @@ export interface Location {
   streetAddress: string;
   city: string;
   phoneNumber: string;
+  /** Null when the location takes pickups at any time (no slot booking). */
+  pickupScheduling?: PickupScheduling | null;
+}
+
+/** Weekly pickup window of a location, split into slots of `slotMinutes`. */
+export interface PickupSlotTemplate {
+  /** 0 = Sunday ... 6 = Saturday */
+  dayOfWeek: number;
+  /** "HH:mm", location local time */
+  startTime: string;
+  endTime: string;
+  slotMinutes: number;
+  /** Orders that may be booked into one slot. */
+  capacity: number;
+}
+
+export interface PickupScheduling {
+  enabled: boolean;
+  templates: PickupSlotTemplate[];
+  /** Earliest bookable slot starts at least this many hours from now. */
+  leadTimeHours: number;
+  /** How many days ahead (today included) slots are offered. */
+  bookingWindowDays: number;
+  /** Closed dates ("YYYY-MM-DD"), e.g. holidays. */
+  blackoutDates: string[];
+}
+
+/** A booked pickup slot, stored on the order. */
+export interface PickupSlot {
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** "HH:mm" */
+  startTime: string;
+  endTime: string;
 }
 
 export interface LocationRequest {
@@ -424,6 +608,11 @@ export const locationAPI = {
     const response = await api.delete<string>(`/locations/${locationId}`);
     return response.data;
   },
+
+  updatePickupScheduling: async (locationId: number, data: PickupScheduling): Promise<Location> => {
+    const response = await api.put<Location>(`/locations/${locationId}/pickup-scheduling`, data);
+    return response.data;
+  },
 };
 
 export interface Category {
@@ -448,6 +637,38 @@ export interface ProductImageData {
   url: string;
 }
 
+/** A variant dimension of a product, e.g. { name: 'מידה', values: ['S', 'M', 'L'] }. */
+export interface ProductVariantAxis {
+  name: string;
+  values: string[];
+}
+
+/** One sellable combination of axis values. Order lines, overrides and credit notes refer to it by id. */
+export interface ProductVariant {
+  id: string;
+  /** Axis name -> value, one entry per axis (in axis order). */
+  options: Record<string, string>;
+  /** Null when the variant sells at the product price. */
+  price: number | null;
+  /** Public store only: units in stock over all locations; missing/null when stock is not tracked. */
+  availableQuantity?: number | null;
+  /** Public store only: units in stock per location id (JSON keys are strings); missing when not tracked. */
+  availableByLocation?: Record<string, number> | null;
+}
+
+/** Variant as sent on create/update: id is null for combinations the server has not seen yet. */
+export interface ProductVariantInfo {
+  id: string | null;
+  options: Record<string, string>;
+  price: number | null;
+}
+
+/** Volume price: from `minQuantity` units on a cart line, each unit costs `price` (see utils/priceTiers). */
+export interface PriceTier {
+  minQuantity: number;
+  price: number;
+}
+
 /** Public API product (store, order flow) – no minimum price. Includes images. */
 export interface ProductPublic {
   id: string;
@@ -459,7 +680,23 @@ export interface ProductPublic {
   categoryName: string | null;
   price: number;
   description: string;
+  /** Item code, unique per manager (case-insensitive); null when not set. */
+  sku?: string | null;
+  /** Scannable code (EAN/UPC...), unique per manager; null when not set. */
+  barcode?: string | null;
   images?: ProductImageData[];
+  /** Empty/missing for single-SKU products. */
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
+  /** Volume prices, ascending by minQuantity; empty/missing when the product has a single price. */
+  priceTiers?: PriceTier[];
+  /**
+   * Units in stock over all locations (single-SKU products; variants carry their own);
+   * missing/null when stock is not tracked.
+   */
+  availableQuantity?: number | null;
+  /** Units in stock per location id (single-SKU products; JSON keys are strings); missing when not tracked. */
+  availableByLocation?: Record<string, number> | null;
 }
 
 /** Internal API product (manager/agent) – includes minimum price and images. */
@@ -474,7 +711,18 @@ export interface Product {
   minimumPrice: number;
   price: number;
   description: string;
+  /** Item code, unique per manager (case-insensitive); null when not set. */
+  sku?: string | null;
+  /** Scannable code (EAN/UPC...), unique per manager; null when not set. */
+  barcode?: string | null;
   images?: ProductImageData[];
+  /** Empty/missing for single-SKU products. */
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
+  /** Volume prices, ascending by minQuantity; empty/missing when the product has a single price. */
+  priceTiers?: PriceTier[];
+  /** Products page flags the product once its total stock is at or below this; null = no alert. */
+  lowStockThreshold?: number | null;
 }
 
 export interface ProductInfo {
@@ -484,6 +732,11 @@ export interface ProductInfo {
   minimumPrice: number;
   price: number;
   description: string;
+  sku: string | null;
+  barcode: string | null;
+  variantAxes: ProductVariantAxis[];
+  variants: ProductVariantInfo[];
+  priceTiers: PriceTier[];
 }
 
 export interface CreateProductRequest {
@@ -501,6 +754,10 @@ export interface ProductDataForOrder {
   productName: string;
   quantity: number;
   pricePerUnit: number;
+  /** Set when the line is a specific variant of the product. */
+  variantId?: string | null;
+  /** Variant label at order time (e.g. "M / אדום"), kept so the line reads the same after the variant is edited. */
+  variantLabel?: string | null;
 }
 
 export interface PageResponse<T> {
@@ -536,6 +793,20 @@ export interface CustomerRequest {
   discountPercentage?: number;
 }
 
+/**
+ * Stable personal store link of a customer (`/store/customer/:token`). It always shows the customer's override
+ * prices and places a new order on each checkout, until it is rotated (new token) or revoked.
+ */
+export interface CustomerStoreLink {
+  token: string;
+  customerId: string;
+  createdAt: string;
+  /** Last time an order was placed through the link. */
+  lastUsedAt: string | null;
+  /** Orders placed through the current token. */
+  ordersPlaced: number;
+}
+
 export interface SelectedLocation {
   locationId: number | null;
   name: string | null;
@@ -544,6 +815,15 @@ export interface SelectedLocation {
   phoneNumber: string | null;
 }
 
+export type FulfillmentMethod = 'PICKUP' | 'DELIVERY';
+
+export interface DeliveryAddress {
+  streetAddress: string;
+  city: string;
+  /** Floor, apartment, gate code... */
+  instructions?: string | null;
+}
+
 export interface Order {
   id: string;
   referenceId: number;
@@ -552,6 +832,13 @@ export interface Order {
   agentId: string | null;
   customerId: string | null;
   selectedLocation: SelectedLocation | null;
+  /** Set when the pickup location books slots. */
+  pickupSlot?: PickupSlot | null;
+  /** Missing on orders placed before delivery existed – those are pickups. */
+  fulfillmentMethod?: FulfillmentMethod | null;
+  deliveryAddress?: DeliveryAddress | null;
+  /** Delivery fee charged on the order (already included in totalPrice). */
+  deliveryFee?: number;
   customerName: string | null;
   customerPhone: string | null;
   customerEmail: string | null;
@@ -561,6 +848,7 @@ export interface Order {
   status: 'EMPTY' | 'PLACED' | 'DONE' | 'EXPIRED' | 'CANCELLED';
   products: ProductDataForOrder[];
   creditedProducts?: ProductDataForOrder[];
+  /** Bumped on every change to the order's products; sent back on update to detect concurrent edits. */
   productsVersion: number;
   totalPrice: number;
   /** Sum of credit-note amounts already applied (from API when present). */
@@ -568,6 +856,8 @@ export interface Order {
   discount: number;
   vat: number;
   linkExpiresAt: string;
+  /** Set when the customer asked to extend the link; cleared when the link is extended. */
+  linkExtensionRequestedAt?: string | null;
   notes: string;
   placedAt: string | null;
   doneAt: string | null;
@@ -581,10 +871,119 @@ export interface OrderPublic {
   referenceId: number;
   status: 'EMPTY' | 'PLACED' | 'DONE' | 'EXPIRED' | 'CANCELLED';
   customerId: string | null;
+  /** Stored address of the linked customer, used to prefill the delivery address at checkout. */
+  customerStreetAddress?: string | null;
+  customerCity?: string | null;
+  productsVersion?: number;
+  /** Shown to the customer as a countdown while the order is open. */
+  linkExpiresAt?: string;
+  linkExtensionRequestedAt?: string | null;
+}
+
+/** Placed (or done) order as the customer may see it: the printable confirmation after checkout. */
+export interface OrderConfirmation {
+  orderId: string;
+  referenceId: number;
+  status: 'PLACED' | 'DONE';
+  placedAt: string | null;
+  customerName: string | null;
+  products: ProductDataForOrder[];
+  discount: number;
+  /** Delivery fee (already included in totalPrice). */
+  deliveryFee?: number;
+  /** VAT rate in percent; prices and totalPrice include it. */
+  vat: number;
+  totalPrice: number;
+  fulfillmentMethod?: FulfillmentMethod | null;
+  selectedLocation: SelectedLocation | null;
+  pickupSlot?: PickupSlot | null;
+  deliveryAddress?: DeliveryAddress | null;
+  notes: string;
+}
+
+/** What the store needs to open a customer's personal store link. */
+export interface CustomerStoreLinkPublic {
+  token: string;
+  managerId: string;
+  customerId: string;
+  /** Stored address of the customer, used to prefill the delivery address at checkout. */
+  customerStreetAddress?: string | null;
+  customerCity?: string | null;
 }
 
 export interface CreateOrderRequest {
   customerId?: string | null;
+  /** Hours until the link expires; omitted = the business default (see OrderLinkSettings). */
+  linkLifetimeHours?: number;
+}
+
+/** Links that need attention: open ones about to expire and expired ones, latest expiry first. */
+export interface OrderLinkExpiryOverview {
+  /** Open (EMPTY) orders whose link expires within the requested window. */
+  expiringSoon: Order[];
+  /** Expired orders of the last 30 days; the ones the customer asked to extend come first. */
+  expired: Order[];
+}
+
+/** Order timestamp the calendar places orders by. */
+export type OrderDateField = 'placedAt' | 'doneAt' | 'linkExpiresAt';
+
+/** Orders whose `field` falls in [from, to) (ISO instants); orders without that timestamp are left out. */
+export interface OrderDateRange {
+  field: OrderDateField;
+  from: string;
+  to: string;
+}
+
+/** Who made a change: the manager, one of their agents, or the customer through the order link. */
+export interface OrderActivityActor {
+  type: 'MANAGER' | 'AGENT' | 'PUBLIC';
+  /** Manager / agent id; null for the public customer. */
+  id: string | null;
+  name: string | null;
+}
+
+/**
+ * One recorded change of an order. Fields beyond the common ones are set per type: status changes carry
+ * from/to status, product changes the lines before and after (and the new productsVersion), discount changes
+ * the amounts before and after.
+ */
+export interface OrderActivityEvent {
+  id: string;
+  type: 'CREATED' | 'STATUS_CHANGED' | 'PRODUCTS_CHANGED' | 'DISCOUNT_CHANGED';
+  occurredAt: string;
+  actor: OrderActivityActor;
+  fromStatus?: Order['status'] | null;
+  toStatus?: Order['status'] | null;
+  productsVersion?: number | null;
+  previousProducts?: ProductDataForOrder[] | null;
+  products?: ProductDataForOrder[] | null;
+  previousDiscount?: number | null;
+  discount?: number | null;
+}
+
+export interface ExtendOrderLinksRequest {
+  orderIds: string[];
+  /** Added to the current expiry, or to now when the link has already expired. */
+  hours: number;
+}
+
+/** One product line the customer ordered before, aggregated over their past orders. */
+export interface PurchasedProduct {
+  productId: string;
+  variantId: string | null;
+  /** Quantity in the latest order that had this line. */
+  lastQuantity: number;
+  /** Number of past orders with this line. */
+  orderCount: number;
+  lastOrderedAt: string;
+}
+
+/** Order history and favourites of the customer an order link belongs to. */
+export interface CustomerStoreHistory {
+  /** Latest first; placed and done orders only. */
+  purchases: PurchasedProduct[];
+  favoriteProductIds: string[];
 }
 
 export interface AgentLinkInfo {
@@ -622,13 +1021,19 @@ export const orderAPI = {
     status?: string,
     orderSource?: 'MANAGER' | 'AGENT' | 'PUBLIC' | null,
     agentId?: string | null,
-    customerId?: string | null
+    customerId?: string | null,
+    pickupLocationId?: number | null,
+    pickupDate?: string | null,
+    dateRange?: OrderDateRange | null
   ): Promise<PageResponse<Order>> => {
     const params: Record<string, unknown> = { pageNumber, pageSize, sortBy, sortOrder };
     if (status) params.status = status;
     if (orderSource != null) params.orderSource = orderSource;
     if (agentId !== undefined && agentId !== null && agentId !== '') params.agentId = agentId;
     if (customerId != null) params.customerId = customerId;
+    if (pickupLocationId != null) params.pickupLocationId = pickupLocationId;
+    if (pickupDate) params.pickupDate = pickupDate;
+    if (dateRange) Object.assign(params, { dateField: dateRange.field, dateFrom: dateRange.from, dateTo: dateRange.to });
     const response = await api.get<PageResponse<Order>>('/orders', { params });
     return response.data;
   },
@@ -643,6 +1048,18 @@ export const orderAPI = {
     return response.data;
   },
 
+  getLinkExpiryOverview: async (withinHours: number): Promise<OrderLinkExpiryOverview> => {
+    const response = await api.get<OrderLinkExpiryOverview>('/orders/link-expiry', { params: { withinHours } });
+    return response.data;
+  },
+
+  /** Expired links open again (status EMPTY); returns the updated orders. */
+  extendOrderLinks: async (data: ExtendOrderLinksRequest): Promise<Order[]> => {
+    const response = await api.put<Order[]>('/orders/link-expiry', data);
+    return response.data;
+  },
+
+  /** When stock is tracked, the server also takes the order's lines out of stock (see InventorySettings). */
   markOrderDone: async (orderId: string): Promise<Order> => {
     await api.put(`/orders/${orderId}/status/done`);
     const response = await api.get<Order>(`/orders/${orderId}`);
@@ -654,6 +1071,12 @@ export const orderAPI = {
     return response.data;
   },
 
+  /** Recorded changes of the order, oldest first. */
+  getOrderActivity: async (orderId: string): Promise<OrderActivityEvent[]> => {
+    const response = await api.get<OrderActivityEvent[]>(`/orders/${orderId}/activity`);
+    return response.data;
+  },
+
   updateOrder: async (orderId: string, data: UpdateOrderRequest): Promise<Order> => {
     const response = await api.put<Order>(`/orders/${orderId}`, data);
     return response.data;
@@ -816,6 +1239,73 @@ export const productAPI = {
   },
 };
 
+/** Stock of one product (or variant) at one location. */
+export interface StockLevel {
+  productId: string;
+  variantId: string | null;
+  locationId: number;
+  /** Can go below 0 when an order is marked done without enough stock. */
+  quantity: number;
+}
+
+/** ORDER_DONE entries are written by the server when an order is marked done. */
+export type StockAdjustmentReason = 'RECEIVED' | 'COUNT' | 'DAMAGED' | 'RETURNED' | 'OTHER' | 'ORDER_DONE';
+
+export interface StockAdjustment {
+  id: number;
+  productId: string;
+  variantId: string | null;
+  locationId: number;
+  /** Units added (positive) or removed (negative). */
+  delta: number;
+  quantityAfter: number;
+  reason: StockAdjustmentReason;
+  note: string | null;
+  /** Set on ORDER_DONE entries. */
+  orderReferenceId: number | null;
+  createdAt: string;
+}
+
+export interface StockAdjustmentRequest {
+  productId: string;
+  variantId: string | null;
+  locationId: number;
+  /** Units added (positive) or removed (negative); every reason except COUNT. */
+  delta?: number;
+  /**
+   * COUNT only: the counted level. The server sets the stock to it and records the difference from the level at
+   * that moment, so orders done or adjustments made while counting are not lost.
+   */
+  countedQuantity?: number;
+  reason: Exclude<StockAdjustmentReason, 'ORDER_DONE'>;
+  note: string | null;
+}
+
+/** Manager stock API. Levels missing from getStockLevels are 0. */
+export const inventoryAPI = {
+  getStockLevels: async (): Promise<StockLevel[]> => {
+    const response = await api.get<StockLevel[]>('/inventory/stock');
+    return response.data;
+  },
+
+  /** Returns the level after the adjustment. */
+  adjustStock: async (data: StockAdjustmentRequest): Promise<StockLevel> => {
+    const response = await api.post<StockLevel>('/inventory/adjustments', data);
+    return response.data;
+  },
+
+  /** Adjustments of one product, latest first. */
+  getAdjustments: async (productId: string, limit: number = 20): Promise<StockAdjustment[]> => {
+    const response = await api.get<StockAdjustment[]>('/inventory/adjustments', { params: { productId, limit } });
+    return response.data;
+  },
+
+  setLowStockThreshold: async (productId: string, threshold: number | null): Promise<Product> => {
+    const response = await api.put<Product>(`/inventory/products/${productId}/low-stock-threshold`, { threshold });
+    return response.data;
+  },
+};
+
 // Public API (no authentication required) - for customers
 export const publicAPI = {
   products: {
@@ -858,8 +1348,8 @@ export const publicAPI = {
 
   business: {
     // Get store header info (name + imageUrl) for a manager
-    getByManagerId: async (managerId: string): Promise<{ name: string; imageUrl: string | null }> => {
-      const response = await axios.get<{ name: string; imageUrl: string | null }>(
+    getByManagerId: async (managerId: string): Promise<StoreBusinessInfo> => {
+      const response = await axios.get<StoreBusinessInfo>(
         `${API_BASE_URL}/public/business/manager/${managerId}`
       );
       return response.data;
@@ -873,15 +1363,88 @@ export const publicAPI = {
       return response.data;
     },
 
-    // Place an order (for existing orders)
-    placeOrder: async (orderId: string, request: PlaceOrderRequest): Promise<string> => {
-      const response = await axios.put<string>(`${API_BASE_URL}/public/orders/${orderId}/place`, request);
+    // Place an order (for existing orders).
+    // idempotencyKey: client-generated id of the submission. The server is not known to deduplicate on it, so
+    // callers must not rely on it alone (see utils/pendingOrders for how replays avoid double orders)
+    placeOrder: async (orderId: string, request: PlaceOrderRequest, idempotencyKey?: string): Promise<string> => {
+      const response = await axios.put<string>(`${API_BASE_URL}/public/orders/${orderId}/place`, request, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      });
+      return response.data;
+    },
+
+    // Create and place a public order (for public store - no existing order). Returns the new order id.
+    createAndPlacePublicOrder: async (
+      managerId: string,
+      request: PlaceOrderRequest,
+      idempotencyKey?: string
+    ): Promise<string> => {
+      const response = await axios.post<string>(`${API_BASE_URL}/public/orders/manager/${managerId}/create`, request, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      });
+      return response.data;
+    },
+
+    // Ask the seller to extend an expired link; the request shows up in the seller's expiring-links list
+    requestLinkExtension: async (orderId: string): Promise<void> => {
+      await axios.post(`${API_BASE_URL}/public/orders/${orderId}/link-extension-request`);
+    },
+
+    // Printable confirmation of a placed order; 404 until the order is placed
+    getConfirmation: async (orderId: string): Promise<OrderConfirmation> => {
+      const response = await axios.get<OrderConfirmation>(`${API_BASE_URL}/public/orders/${orderId}/confirmation`);
+      return response.data;
+    },
+
+    // Past purchases and favourites of the order's customer (customer-linked orders only)
+    getCustomerHistory: async (orderId: string): Promise<CustomerStoreHistory> => {
+      const response = await axios.get<CustomerStoreHistory>(`${API_BASE_URL}/public/orders/${orderId}/customer-history`);
+      return response.data;
+    },
+
+    // Replace the favourites of the order's customer
+    setCustomerFavorites: async (orderId: string, productIds: string[]): Promise<string[]> => {
+      const response = await axios.put<string[]>(`${API_BASE_URL}/public/orders/${orderId}/customer-favorites`, {
+        productIds,
+      });
+      return response.data;
+    },
+  },
+
+  customerLinks: {
+    // Resolve a personal store link; 404 when the token was rotated or revoked
+    getByToken: async (token: string): Promise<CustomerStoreLinkPublic> => {
+      const response = await axios.get<CustomerStoreLinkPublic>(`${API_BASE_URL}/public/customer-links/${token}`);
+      return response.data;
+    },
+
+    // Products with the customer's overrides applied
+    getProducts: async (token: string): Promise<ProductPublic[]> => {
+      const response = await axios.get<ProductPublic[]>(`${API_BASE_URL}/public/customer-links/${token}/products`);
       return response.data;
     },
 
-    // Create and place a public order (for public store - no existing order)
-    createAndPlacePublicOrder: async (managerId: string, request: PlaceOrderRequest): Promise<string> => {
-      const response = await axios.post<string>(`${API_BASE_URL}/public/orders/manager/${managerId}/create`, request);
+    // Create and place a new order for the link's customer. Returns the new order id.
+    createAndPlaceOrder: async (token: string, request: PlaceOrderRequest, idempotencyKey?: string): Promise<string> => {
+      const response = await axios.post<string>(`${API_BASE_URL}/public/customer-links/${token}/orders`, request, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      });
+      return response.data;
+    },
+
+    // Past purchases and favourites of the link's customer
+    getCustomerHistory: async (token: string): Promise<CustomerStoreHistory> => {
+      const response = await axios.get<CustomerStoreHistory>(
+        `${API_BASE_URL}/public/customer-links/${token}/customer-history`
+      );
+      return response.data;
+    },
+
+    // Replace the favourites of the link's customer
+    setCustomerFavorites: async (token: string, productIds: string[]): Promise<string[]> => {
+      const response = await axios.put<string[]>(`${API_BASE_URL}/public/customer-links/${token}/customer-favorites`, {
+        productIds,
+      });
       return response.data;
     },
   },
@@ -892,6 +1455,15 @@ export const publicAPI = {
       const response = await axios.get<Location[]>(`${API_BASE_URL}/public/locations/manager/${managerId}`);
       return response.data;
     },
+
+    // Orders already booked per pickup slot, keyed by "YYYY-MM-DDTHH:mm" (slot start); dates are inclusive
+    getPickupSlotBookings: async (locationId: number, from: string, to: string): Promise<Record<string, number>> => {
+      const response = await axios.get<Record<string, number>>(
+        `${API_BASE_URL}/public/locations/${locationId}/pickup-slot-bookings`,
+        { params: { from, to } }
+      );
+      return response.data;
+    },
   },
 };
 
@@ -902,15 +1474,29 @@ export interface PlaceOrderRequest {
   customerStreetAddress: string;
   customerCity: string;
   customerStateId?: string;
-  pickupLocationId: number;
+  /** Defaults to PICKUP when omitted. */
+  fulfillmentMethod?: FulfillmentMethod;
+  /** Required for PICKUP. */
+  pickupLocationId?: number;
+  /** Required for PICKUP when the location books slots; rejected with PICKUP_SLOT_FULL when it filled up meanwhile. */
+  pickupSlot?: PickupSlot;
+  /** Required for DELIVERY; the server recomputes the delivery fee from the business settings. */
+  deliveryAddress?: DeliveryAddress;
   products: ProductDataForOrder[];
   notes?: string;
+  /** Order links: OrderPublic.productsVersion when the store loaded; rejected with ORDER_VERSION_CONFLICT when stale. */
+  expectedProductsVersion?: number;
 }
 
 export interface UpdateOrderRequest {
-  pickupLocationId: number;
+  fulfillmentMethod?: FulfillmentMethod;
+  pickupLocationId?: number;
+  pickupSlot?: PickupSlot;
+  deliveryAddress?: DeliveryAddress;
   products: ProductDataForOrder[];
   notes?: string;
+  /** Order.productsVersion the edit started from; rejected with ORDER_VERSION_CONFLICT when stale. */
+  expectedProductsVersion?: number;
 }
 
 export const invoiceAPI = {
@@ -991,6 +1577,7 @@ export interface CreateCreditNoteByAmountRequest {
 
 export interface CreditNoteProductItemRequest {
   productId: string;
+  variantId?: string | null;
   quantity: number;
   pricePerUnit: number;
 }
@@ -1,6 +1,12 @@
+import { getLocale, t } from './i18n';
+import type { Locale } from './i18n';
+import { enApiErrors, enApiFallbacks } from '../locales/en';
+import { arApiErrors, arApiFallbacks } from '../locales/ar';
+import { ruApiErrors, ruApiFallbacks } from '../locales/ru';
+
 /**
  * Mirrors backend `ApiErrorCode` (Kotlin). Keep in sync when BE adds/removes codes.
- * Display: prefer mapped Hebrew; unknown codes fall back to `userMessage` then `fallback`.
+ * Display: prefer the mapped message in the UI language; unknown codes fall back to `userMessage` then `fallback`.
  */
 export type ApiErrorCode =
   | 'INVALID_EMAIL_FORMAT'
@@ -76,7 +82,17 @@ export type ApiErrorCode =
   | 'PRODUCT_OVERRIDE_NOT_FOUND'
   | 'PRODUCT_OVERRIDE_ALREADY_EXISTS'
   | 'ORDER_CREDIT_EXCEEDS_PRODUCTS_TOTAL'
-  | 'MINIMUM_SEQUENCE_NUMBER_INVALID';
+  | 'MINIMUM_SEQUENCE_NUMBER_INVALID'
+  | 'PICKUP_SLOT_REQUIRED'
+  | 'PICKUP_SLOT_UNAVAILABLE'
+  | 'PICKUP_SLOT_FULL'
+  | 'CART_MINIMUM_NOT_REACHED'
+  | 'CART_RULES_VIOLATED'
+  | 'PRODUCT_PRICES_CHANGED'
+  | 'ORDER_VERSION_CONFLICT'
+  | 'INSUFFICIENT_STOCK'
+  | 'PRODUCT_SKU_ALREADY_EXISTS'
+  | 'PRODUCT_BARCODE_ALREADY_EXISTS';
 
 export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
   INVALID_EMAIL_FORMAT: 'פורמט אימייל לא תקין',
@@ -153,6 +169,23 @@ export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
   PRODUCT_OVERRIDE_ALREADY_EXISTS: 'כבר קיימת התאמת מחיר למוצר ולקוח אלה',
   ORDER_CREDIT_EXCEEDS_PRODUCTS_TOTAL: 'סכום הזיכוי גדול מסכום המוצרים',
   MINIMUM_SEQUENCE_NUMBER_INVALID: 'מספר רץ מינימלי חייב להיות לפחות 1',
+  PICKUP_SLOT_REQUIRED: 'יש לבחור מועד איסוף',
+  PICKUP_SLOT_UNAVAILABLE: 'מועד האיסוף שנבחר אינו זמין',
+  PICKUP_SLOT_FULL: 'מועד האיסוף שנבחר התמלא בינתיים. אנא בחרו מועד אחר',
+  CART_MINIMUM_NOT_REACHED: 'סכום ההזמנה נמוך מהמינימום של העסק',
+  CART_RULES_VIOLATED: 'העגלה אינה עומדת בכללי ההזמנה של העסק. אנא עדכנו את העגלה ונסו שוב',
+  PRODUCT_PRICES_CHANGED: 'מחירי חלק מהמוצרים השתנו. אנא אשרו את המחירים המעודכנים ונסו שוב',
+  ORDER_VERSION_CONFLICT: 'ההזמנה עודכנה בינתיים. אנא בדקו את העגלה ונסו שוב',
+  INSUFFICIENT_STOCK: 'חלק מהמוצרים בעגלה אינם במלאי בכמות שהוזמנה. אנא עדכנו את העגלה ונסו שוב',
+  PRODUCT_SKU_ALREADY_EXISTS: 'המק״ט כבר משמש מוצר אחר',
+  PRODUCT_BARCODE_ALREADY_EXISTS: 'הברקוד כבר משמש מוצר אחר',
+};
+
+/** Translations of API_ERROR_MESSAGES / fallbackHe; Hebrew is the source and needs no entry. */
+const LOCALIZED_API_ERRORS: Record<Exclude<Locale, 'he'>, Record<ApiErrorCode, string>> = {
+  en: enApiErrors,
+  ar: arApiErrors,
+  ru: ruApiErrors,
 };
 
 export interface FailureResponseBody {
@@ -173,6 +206,11 @@ function parseFailureBody(error: unknown): FailureResponseBody | undefined {
   return data as FailureResponseBody;
 }
 
+/** `errorCode` of a failed API call, for flows that react to a specific error (not just show it). */
+export function getApiErrorCode(error: unknown): string | undefined {
+  return parseFailureBody(error)?.errorCode;
+}
+
 /** When no contextual Hebrew string is provided (e.g. empty fallback). */
 export const DEFAULT_API_ERROR_HEBREW = 'אירעה שגיאה. נסה שוב מאוחר יותר.';
 
@@ -226,6 +264,10 @@ export const fallbackHe = {
   productUpdate: 'נכשל בעדכון המוצר',
   productDelete: 'נכשל במחיקת המוצר',
 
+  stockLoad: 'נכשל בטעינת המלאי',
+  stockAdjust: 'נכשל בעדכון המלאי',
+  lowStockThresholdUpdate: 'נכשל בעדכון סף המלאי הנמוך',
+
   brandsLoad: 'נכשל בטעינת המותגים',
   brandCreate: 'נכשל ביצירת המותג',
   brandUpdate: 'נכשל בעדכון המותג',
@@ -250,6 +292,7 @@ export const fallbackHe = {
   locationCreate: 'נכשל ביצירת הסניף',
   locationUpdate: 'נכשל בעדכון הסניף',
   locationDelete: 'נכשל במחיקת הסניף',
+  locationPickupSchedulingUpdate: 'נכשל בעדכון מועדי האיסוף',
 
   orderCreate: 'נכשל ביצירת הזמנה',
   orderCancel: 'נכשל בביטול ההזמנה',
@@ -258,6 +301,13 @@ export const fallbackHe = {
   orderLoadDetails: 'נכשל בטעינת פרטי ההזמנה',
   orderLoadStore: 'נכשל בטעינת ההזמנה',
   orderLinkGenerate: 'שגיאה ביצירת קישור',
+  customerStoreLinkLoad: 'נכשל בטעינת קישור החנות האישי',
+  customerStoreLinkCreate: 'נכשל ביצירת קישור החנות האישי',
+  customerStoreLinkRevoke: 'נכשל בביטול קישור החנות האישי',
+  orderLinkExpiryLoad: 'נכשל בטעינת הקישורים שפג או עומד לפוג תוקפם',
+  orderLinkExtend: 'נכשל בהארכת תוקף הקישור',
+  ordersLoad: 'נכשל בטעינת ההזמנות',
+  orderActivityLoad: 'נכשל בטעינת היסטוריית ההזמנה',
   orderCheckoutCreate: 'נכשל ביצירת ההזמנה',
   orderCheckoutUpdate: 'נכשל בעדכון ההזמנה',
 
@@ -270,13 +320,29 @@ export const fallbackHe = {
 
 export type FallbackHeKey = keyof typeof fallbackHe;
 
+const LOCALIZED_FALLBACKS: Record<Exclude<Locale, 'he'>, Record<FallbackHeKey, string>> = {
+  en: enApiFallbacks,
+  ar: arApiFallbacks,
+  ru: ruApiFallbacks,
+};
+
+function mappedErrorMessage(code: ApiErrorCode): string | undefined {
+  const locale = getLocale();
+  return locale === 'he' ? API_ERROR_MESSAGES[code] : LOCALIZED_API_ERRORS[locale][code];
+}
+
+function fallbackMessage(key: FallbackHeKey): string {
+  const locale = getLocale();
+  return locale === 'he' ? fallbackHe[key] : LOCALIZED_FALLBACKS[locale][key];
+}
+
 /** Map `errorCode` / `userMessage` from a parsed API error JSON body (e.g. raw `fetch` response). */
 export function messageFromFailureBody(data: unknown, fallback: string): string {
-  const fb = fallback.trim() ? fallback : DEFAULT_API_ERROR_HEBREW;
+  const fb = fallback.trim() ? fallback : t('error.default');
   if (!data || typeof data !== 'object') return fb;
   const d = data as FailureResponseBody;
   if (d.errorCode && typeof d.errorCode === 'string') {
-    const mapped = API_ERROR_MESSAGES[d.errorCode as ApiErrorCode];
+    const mapped = mappedErrorMessage(d.errorCode as ApiErrorCode);
     if (mapped) return mapped;
   }
   const um = d.userMessage?.trim();
@@ -288,36 +354,59 @@ export function messageFromFailureBody(data: unknown, fallback: string): string
 
 /**
  * Prefer mapped message for `errorCode`, else backend `userMessage` / `message`, else contextual `fallback`.
- * Unparsable axios bodies (HTML, empty) and generic "Request failed with status code" use Hebrew, not English.
+ * Unparsable axios bodies (HTML, empty) and generic "Request failed with status code" use the UI language.
  */
 export function resolveApiErrorMessage(error: unknown, fallback: string): string {
-  const fb = fallback.trim() ? fallback : DEFAULT_API_ERROR_HEBREW;
+  const fb = fallback.trim() ? fallback : t('error.default');
   const data = parseFailureBody(error);
   if (data) return messageFromFailureBody(data, fb);
   const status = getAxiosResponseStatus(error);
   if (error instanceof Error && error.message.trim()) {
     const m = error.message;
     if (m.startsWith('Request failed')) {
-      return status !== undefined
-        ? `הבקשה נכשלה (קוד ${status}). נסה שוב.`
-        : 'הבקשה נכשלה. נסה שוב.';
+      return status !== undefined ? t('error.requestFailedWithStatus', { status }) : t('error.requestFailed');
     }
     return m;
   }
   return fb;
 }
 
-/** Shorthand: `resolveApiErrorMessage(err, fallbackHe[key])` — keeps fallback copy in one place. */
+/** Shorthand: `resolveApiErrorMessage(err, fallbackHe[key])` (translated) — keeps fallback copy in one place. */
 export function resolveApiErr(err: unknown, key: FallbackHeKey): string {
-  return resolveApiErrorMessage(err, fallbackHe[key]);
+  return resolveApiErrorMessage(err, fallbackMessage(key));
 }
 
-/** Shorthand for raw `fetch` JSON bodies: `messageFromFailureBody(data, fallbackHe[key])`. */
+/** Shorthand for raw `fetch` JSON bodies: `messageFromFailureBody(data, fallbackHe[key])` (translated). */
 export function msgFromBody(data: unknown, key: FallbackHeKey): string {
-  return messageFromFailureBody(data, fallbackHe[key]);
+  return messageFromFailureBody(data, fallbackMessage(key));
+}
+
+/**
+ * True when the request never got an HTTP response (offline, DNS, timeout). The request may still have reached the
+ * server (a timeout, or a connection dropped after sending) – see isOfflineFailure before re-sending a write.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const ax = error as { code?: string; response?: unknown; request?: unknown; message?: string };
+  if (ax.response) return false;
+  return (
+    ax.code === 'ERR_NETWORK' ||
+    ax.code === 'ECONNABORTED' ||
+    ax.code === 'ETIMEDOUT' ||
+    ax.message === 'Network Error' ||
+    ax.request !== undefined
+  );
+}
+
+/** Network failure while the browser reports no connection – taken as never sent, unlike a timeout or drop online. */
+export function isOfflineFailure(error: unknown): boolean {
+  if (!isNetworkError(error)) return false;
+  const { code } = error as { code?: string };
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') return false;
+  return typeof navigator !== 'undefined' && !navigator.onLine;
 }
 
-/** Use after `resolveApiErrorMessage` when UI should show Hebrew for axios/offline network failures. */
+/** Use after `resolveApiErrorMessage` when UI should show a translated message for axios/offline network failures. */
 export function preferHebrewNetworkMessage(error: unknown, message: string): string {
   const ax = error as { code?: string };
   if (
@@ -326,7 +415,7 @@ export function preferHebrewNetworkMessage(error: unknown, message: string): str
     ax.code === 'ERR_NETWORK' ||
     ax.code === 'ECONNABORTED'
   ) {
-    return 'שגיאת רשת';
+    return t('error.network');
   }
   return message;
 }
@@ -0,0 +1,76 @@
+import type { Order } from '../services/api';
+import { resolveApiErr, type FallbackHeKey } from './apiErrorMessage';
+import { t } from './i18n';
+
+/**
+ * Bulk actions on the orders list. Each action applies only to orders in a status the single-order action accepts
+ * (the rest are reported as skipped); orders are sent one by one so one failure does not stop the others, and each
+ * failure keeps the backend's reason.
+ */
+
+export type BulkOrderAction = 'markDone' | 'cancel' | 'discount' | 'copyLinks';
+
+export function getBulkActionLabel(action: BulkOrderAction): string {
+  return t(`bulkAction.${action}`);
+}
+
+/** Same rules as the buttons of a single order (order card / OrderViewModal). */
+export function canApplyBulkAction(action: BulkOrderAction, order: Order): boolean {
+  switch (action) {
+    case 'markDone':
+    case 'discount':
+      return order.status === 'PLACED';
+    case 'cancel':
+      return order.status === 'PLACED' || order.status === 'EMPTY';
+    case 'copyLinks':
+      return order.status === 'EMPTY';
+  }
+}
+
+export interface BulkOrderFailure {
+  order: Order;
+  message: string;
+}
+
+export interface BulkOrderResult {
+  action: BulkOrderAction;
+  succeeded: Order[];
+  /** Selected orders the action does not apply to (e.g. marking an EMPTY order done). */
+  skipped: Order[];
+  failures: BulkOrderFailure[];
+}
+
+/** Discount amount for an order when the same percentage is given to all of them, rounded like the single-order path. */
+export function discountAmountForPercentage(order: Order, percentage: number): number {
+  const productsTotal = order.products.reduce((sum, product) => sum + product.pricePerUnit * product.quantity, 0);
+  return Math.round(((percentage / 100) * productsTotal) * 100) / 100;
+}
+
+/**
+ * Runs `run` for every applicable order in turn. `onProgress` gets the number of orders handled so far;
+ * `formatError` lets an action reword a resolved message (e.g. discount validation texts).
+ */
+export async function runBulkOrderAction(
+  action: BulkOrderAction,
+  orders: Order[],
+  run: (order: Order) => Promise<Order>,
+  fallbackKey: FallbackHeKey,
+  options: { onProgress?: (done: number) => void; formatError?: (message: string) => string } = {}
+): Promise<BulkOrderResult> {
+  const result: BulkOrderResult = { action, succeeded: [], skipped: [], failures: [] };
+  const applicable = orders.filter((order) => {
+    if (canApplyBulkAction(action, order)) return true;
+    result.skipped.push(order);
+    return false;
+  });
+  for (const [i, order] of applicable.entries()) {
+    try {
+      result.succeeded.push(await run(order));
+    } catch (err: unknown) {
+      const message = resolveApiErr(err, fallbackKey);
+      result.failures.push({ order, message: options.formatError ? options.formatError(message) : message });
+    }
+    options.onProgress?.(i + 1);
+  }
+  return result;
+}
@@ -0,0 +1,71 @@
+import type { PriceTier, ProductPublic, ProductVariant, ProductVariantAxis } from '../services/api';
+import { findVariant, getLineKey, getVariantLabel, hasVariants } from './productVariants';
+import { getLinePrice } from './priceTiers';
+
+/**
+ * Saved carts keep the product as it was when added (localStorage, up to 7 days), so prices can be stale by
+ * checkout. The cart is compared with the live catalog before the review step; the customer sees what changed
+ * and accepts it, which swaps in the live products. The server still rejects an order whose prices or
+ * products version no longer match.
+ */
+
+interface CheckedLine {
+  product: {
+    id: string;
+    name: string;
+    price: number;
+    variantAxes?: ProductVariantAxis[];
+    variants?: ProductVariant[];
+    priceTiers?: PriceTier[];
+  };
+  variant?: ProductVariant | null;
+  quantity: number;
+}
+
+export type CartChange =
+  | { kind: 'PRICE'; lineKey: string; name: string; quantity: number; oldUnitPrice: number; newUnitPrice: number }
+  | { kind: 'REMOVED'; lineKey: string; name: string; quantity: number };
+
+/** Live product and variant of a cart line, or null when the line can no longer be ordered. */
+function findLiveLine(line: CheckedLine, liveProducts: ProductPublic[]) {
+  const product = liveProducts.find((p) => p.id === line.product.id);
+  if (!product) return null;
+  const variant = line.variant ? findVariant(product, line.variant.id) : null;
+  // Variant removed, or the product got variants and a plain line no longer says which one
+  if (line.variant ? !variant : hasVariants(product)) return null;
+  return { product, variant: variant ?? null };
+}
+
+function lineName(line: CheckedLine): string {
+  return line.variant ? `${line.product.name} (${getVariantLabel(line.variant, line.product.variantAxes)})` : line.product.name;
+}
+
+/** Lines whose unit price changed or that are gone from the live catalog, in cart order. */
+export function getCartChanges(cart: CheckedLine[], liveProducts: ProductPublic[]): CartChange[] {
+  const changes: CartChange[] = [];
+  cart.forEach((line) => {
+    const lineKey = getLineKey(line.product.id, line.variant?.id);
+    const live = findLiveLine(line, liveProducts);
+    if (!live) {
+      changes.push({ kind: 'REMOVED', lineKey, name: lineName(line), quantity: line.quantity });
+      return;
+    }
+    const oldUnitPrice = getLinePrice(line.product, line.variant, line.quantity).unitPrice;
+    const newUnitPrice = getLinePrice(live.product, live.variant, line.quantity).unitPrice;
+    if (Math.abs(oldUnitPrice - newUnitPrice) >= 0.005) {
+      changes.push({ kind: 'PRICE', lineKey, name: lineName(line), quantity: line.quantity, oldUnitPrice, newUnitPrice });
+    }
+  });
+  return changes;
+}
+
+/** The cart with live products swapped in and lines that can no longer be ordered dropped. */
+export function refreshCartLines<T extends { product: ProductPublic; variant?: ProductVariant | null; quantity: number }>(
+  cart: T[],
+  liveProducts: ProductPublic[]
+): T[] {
+  return cart.flatMap((line) => {
+    const live = findLiveLine(line, liveProducts);
+    return live ? [{ ...line, product: live.product, variant: live.variant }] : [];
+  });
+}
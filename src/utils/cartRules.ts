@@ -0,0 +1,188 @@
+import type { CartProductRule, CartRules } from '../services/api';
+import { formatPrice } from './formatPrice';
+import { t } from './i18n';
+
+/**
+ * Cart rules set by the business: a minimum products total and per-product rules (maximum quantity,
+ * required product, packs of N). Quantities are counted per product, all variants together. The minimum is
+ * compared to the products total after volume pricing and before the order discount, like the free-delivery
+ * threshold. The store blocks checkout while a rule is broken; the server checks the same rules again.
+ */
+
+export const MAX_CART_PRODUCT_RULES = 50;
+export const MAX_RULE_QUANTITY = 100000;
+
+/** A cart line as far as the rules are concerned. */
+interface CartRuleLine {
+  product: { id: string; name: string };
+  quantity: number;
+}
+
+export interface CartRuleViolation {
+  /** Product the message is about; null for the order minimum. */
+  productId: string | null;
+  message: string;
+}
+
+export function getProductRule(rules: CartRules | null | undefined, productId: string): CartProductRule | null {
+  return rules?.productRules.find((rule) => rule.productId === productId) ?? null;
+}
+
+/** Units added or removed by one +/- click: the pack size, or 1. */
+export function getQuantityStep(rule: CartProductRule | null | undefined): number {
+  return rule?.quantityMultiple && rule.quantityMultiple > 1 ? rule.quantityMultiple : 1;
+}
+
+/**
+ * Quantity after one +/- click under the product's rule: moves to the next/previous whole pack and never past
+ * the maximum. Going down from the first pack returns 0.
+ */
+export function stepQuantity(rule: CartProductRule | null | undefined, quantity: number, direction: 1 | -1): number {
+  const step = getQuantityStep(rule);
+  if (direction < 0) return Math.max((Math.ceil(quantity / step) - 1) * step, 0);
+  const next = (Math.floor(quantity / step) + 1) * step;
+  if (rule?.maxQuantity != null && next > rule.maxQuantity) return quantity;
+  return next;
+}
+
+/** Short hint under a product: "באריזות של 6 · עד 24 יח׳". Empty when the product has no quantity rule. */
+export function describeProductRule(rule: CartProductRule | null | undefined): string {
+  if (!rule) return '';
+  const parts: string[] = [];
+  if (getQuantityStep(rule) > 1) parts.push(t('cartRule.packsOf', { step: getQuantityStep(rule) }));
+  if (rule.maxQuantity != null) parts.push(t('cartRule.upTo', { max: rule.maxQuantity }));
+  return parts.join(' · ');
+}
+
+/** Every broken rule, minimum first and then in rule order. An empty cart breaks nothing. */
+export function getCartRuleViolations(
+  rules: CartRules | null | undefined,
+  lines: CartRuleLine[],
+  productsTotal: number
+): CartRuleViolation[] {
+  if (!rules || lines.length === 0) return [];
+  const violations: CartRuleViolation[] = [];
+
+  if (rules.minimumOrderTotal != null && productsTotal < rules.minimumOrderTotal) {
+    violations.push({
+      productId: null,
+      message: t('cartRule.minimumTotal', {
+        minimum: formatPrice(rules.minimumOrderTotal),
+        missing: formatPrice(rules.minimumOrderTotal - productsTotal),
+      }),
+    });
+  }
+
+  rules.productRules.forEach((rule) => {
+    const productLines = lines.filter((line) => line.product.id === rule.productId);
+    const quantity = productLines.reduce((sum, line) => sum + line.quantity, 0);
+    const name = productLines[0]?.product.name ?? rule.productName;
+    const step = getQuantityStep(rule);
+
+    if (rule.required && quantity === 0) {
+      violations.push({ productId: rule.productId, message: t('cartRule.required', { name }) });
+      return;
+    }
+    if (rule.maxQuantity != null && quantity > rule.maxQuantity) {
+      violations.push({
+        productId: rule.productId,
+        message: t('cartRule.overMax', { max: rule.maxQuantity, name, quantity }),
+      });
+    }
+    if (step > 1 && quantity % step !== 0) {
+      violations.push({
+        productId: rule.productId,
+        message: t('cartRule.notWholePacks', { name, step, example: Math.ceil(quantity / step) * step }),
+      });
+    }
+  });
+
+  return violations;
+}
+
+/** "מינימום ₪100.00 · 3 כללי מוצר", or "ללא" when the store takes any cart. */
+export function describeCartRules(rules: CartRules | null | undefined): string {
+  const parts: string[] = [];
+  if (rules?.minimumOrderTotal != null) parts.push(t('cartRule.summary.minimum', { amount: formatPrice(rules.minimumOrderTotal) }));
+  const productRuleCount = rules?.productRules.length ?? 0;
+  if (productRuleCount > 0) parts.push(t('cartRule.summary.productRules', { count: productRuleCount }));
+  return parts.length > 0 ? parts.join(' · ') : t('cartRule.summary.none');
+}
+
+/** Product rule rows as typed in the business form. */
+export interface CartProductRuleDraft {
+  productId: string;
+  productName: string;
+  maxQuantity: string;
+  quantityMultiple: string;
+  required: boolean;
+}
+
+export function productRuleDraftsFrom(rules: CartRules | null | undefined): CartProductRuleDraft[] {
+  return (rules?.productRules ?? []).map((rule) => ({
+    productId: rule.productId,
+    productName: rule.productName,
+    maxQuantity: rule.maxQuantity != null ? String(rule.maxQuantity) : '',
+    quantityMultiple: rule.quantityMultiple != null ? String(rule.quantityMultiple) : '',
+    required: rule.required,
+  }));
+}
+
+function parseOptionalQuantity(text: string): number | null {
+  return text.trim() ? Number(text.trim()) : null;
+}
+
+/** First problem in the product rule rows, or '' when they are valid. */
+export function validateProductRuleDrafts(drafts: CartProductRuleDraft[]): string {
+  if (drafts.length > MAX_CART_PRODUCT_RULES) return t('cartRule.error.tooMany', { max: MAX_CART_PRODUCT_RULES });
+  const seen = new Set<string>();
+  for (const draft of drafts) {
+    if (!draft.productId) return t('cartRule.error.noProduct');
+    if (seen.has(draft.productId)) return t('cartRule.error.duplicate', { name: draft.productName });
+    seen.add(draft.productId);
+
+    const maxQuantity = parseOptionalQuantity(draft.maxQuantity);
+    const multiple = parseOptionalQuantity(draft.quantityMultiple);
+    if (maxQuantity != null && (!Number.isInteger(maxQuantity) || maxQuantity < 1 || maxQuantity > MAX_RULE_QUANTITY)) {
+      return t('cartRule.error.maxQuantity', { name: draft.productName, max: MAX_RULE_QUANTITY });
+    }
+    if (multiple != null && (!Number.isInteger(multiple) || multiple < 2 || multiple > MAX_RULE_QUANTITY)) {
+      return t('cartRule.error.packSize', { name: draft.productName });
+    }
+    if (maxQuantity != null && multiple != null && maxQuantity < multiple) {
+      return t('cartRule.error.maxBelowPack', { name: draft.productName, step: multiple });
+    }
+    if (maxQuantity == null && multiple == null && !draft.required) {
+      return t('cartRule.error.empty', { name: draft.productName });
+    }
+  }
+  return '';
+}
+
+/** Assumes the minimum passed validateMoneyAmount and the drafts passed validateProductRuleDrafts. */
+export function cartRulesFromDraft(minimumOrderTotal: string, drafts: CartProductRuleDraft[]): CartRules {
+  return {
+    minimumOrderTotal: minimumOrderTotal.trim() ? Number(minimumOrderTotal.trim()) : null,
+    productRules: drafts.map((draft) => ({
+      productId: draft.productId,
+      productName: draft.productName,
+      maxQuantity: parseOptionalQuantity(draft.maxQuantity),
+      quantityMultiple: parseOptionalQuantity(draft.quantityMultiple),
+      required: draft.required,
+    })),
+  };
+}
+
+export function isSameCartRules(a: CartRules | null | undefined, b: CartRules | null | undefined): boolean {
+  const normalize = (rules: CartRules | null | undefined) =>
+    JSON.stringify({
+      minimumOrderTotal: rules?.minimumOrderTotal ?? null,
+      productRules: (rules?.productRules ?? []).map((rule) => [
+        rule.productId,
+        rule.maxQuantity,
+        rule.quantityMultiple,
+        rule.required,
+      ]),
+    });
+  return normalize(a) === normalize(b);
+}
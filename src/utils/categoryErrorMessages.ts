@@ -1,13 +1,16 @@
+import { t, type MessageKey } from './i18n';
+
 /**
- * Maps category API error messages (from backend) to Hebrew for display in the FE.
+ * Maps category API error messages (from backend) to catalog keys for display in the FE.
  */
-const CATEGORY_MESSAGE_MAP: Record<string, string> = {
-  'Category already exists': 'הקטגוריה כבר קיימת',
-  'Category not found': 'הקטגוריה לא נמצאה',
-  'Category limit exceeded': 'הוגדר מכסה מקסימלית של קטגוריות',
+const CATEGORY_MESSAGE_MAP: Record<string, MessageKey> = {
+  'Category already exists': 'category.error.exists',
+  'Category not found': 'category.error.notFound',
+  'Category limit exceeded': 'category.error.limit',
 };
 
 export function toHebrewCategoryMessage(apiMessage: string | undefined): string {
   if (!apiMessage) return apiMessage ?? '';
-  return CATEGORY_MESSAGE_MAP[apiMessage] ?? apiMessage;
+  const key = CATEGORY_MESSAGE_MAP[apiMessage];
+  return key ? t(key) : apiMessage;
 }
@@ -3,22 +3,35 @@
  * Returns true if copy succeeded, false otherwise.
  */
 
+import { buildStoreViewQuery } from './storeViewParams';
+import type { StoreViewState } from './storeViewParams';
+
 const STORE_ORDER_PATH = '/store/order/';
+const CUSTOMER_STORE_PATH = '/store/customer/';
 
-export function getOrderStoreLink(orderId: string): string {
-  const baseUrl = import.meta.env.VITE_FRONTEND_URL || (typeof window !== 'undefined' ? window.location.origin : '');
-  return `${baseUrl}${STORE_ORDER_PATH}${orderId}`;
+function getFrontendBaseUrl(): string {
+  return import.meta.env.VITE_FRONTEND_URL || (typeof window !== 'undefined' ? window.location.origin : '');
 }
 
-export async function copyOrderLink(orderId: string): Promise<boolean> {
-  const fullLink = getOrderStoreLink(orderId);
+/** Full store link for an order; `view` pre-applies search/filters/sort (e.g. "only brand X in category Y"). */
+export function getOrderStoreLink(orderId: string, view?: Partial<StoreViewState>): string {
+  return `${getFrontendBaseUrl()}${STORE_ORDER_PATH}${orderId}${view ? buildStoreViewQuery(view) : ''}`;
+}
+
+/** Full URL of a customer's personal store link (see CustomerStoreLink). */
+export function getCustomerStoreLink(token: string): string {
+  return `${getFrontendBaseUrl()}${CUSTOMER_STORE_PATH}${token}`;
+}
+
+/** Copy arbitrary text to the clipboard, falling back to execCommand where the Clipboard API is unavailable. */
+export async function copyTextToClipboard(text: string): Promise<boolean> {
   try {
-    await navigator.clipboard.writeText(fullLink);
+    await navigator.clipboard.writeText(text);
     return true;
   } catch {
     try {
       const textArea = document.createElement('textarea');
-      textArea.value = fullLink;
+      textArea.value = text;
       textArea.style.position = 'fixed';
       textArea.style.opacity = '0';
       document.body.appendChild(textArea);
@@ -31,3 +44,7 @@ export async function copyOrderLink(orderId: string): Promise<boolean> {
     }
   }
 }
+
+export async function copyOrderLink(orderId: string): Promise<boolean> {
+  return copyTextToClipboard(getOrderStoreLink(orderId));
+}
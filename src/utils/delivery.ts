@@ -0,0 +1,67 @@
+import type { DeliveryAddress, DeliverySettings, FulfillmentMethod, Order } from '../services/api';
+import { formatPrice } from './formatPrice';
+import { t } from './i18n';
+
+/**
+ * Pickup vs delivery. The delivery fee is flat per order and waived once the products total (after volume
+ * pricing, before the order discount) reaches the free-delivery threshold. The server recomputes the fee on
+ * place/update; the values here are what the customer is shown before submitting.
+ */
+
+export const MAX_DELIVERY_INSTRUCTIONS_LENGTH = 200;
+
+export function isDeliveryAvailable(settings: DeliverySettings | null | undefined): boolean {
+  return !!settings?.enabled;
+}
+
+export function getDeliveryFee(settings: DeliverySettings | null | undefined, productsTotal: number): number {
+  if (!settings?.enabled) return 0;
+  if (settings.freeDeliveryThreshold != null && productsTotal >= settings.freeDeliveryThreshold) return 0;
+  return settings.fee;
+}
+
+/** Amount still missing for free delivery, or null when there is no threshold or it is already reached. */
+export function getAmountToFreeDelivery(
+  settings: DeliverySettings | null | undefined,
+  productsTotal: number
+): number | null {
+  if (!settings?.enabled || settings.freeDeliveryThreshold == null || settings.fee <= 0) return null;
+  const missing = settings.freeDeliveryThreshold - productsTotal;
+  return missing > 0 ? missing : null;
+}
+
+/** Orders placed before delivery existed carry no method – they are pickups. */
+export function getOrderFulfillmentMethod(order: Pick<Order, 'fulfillmentMethod'>): FulfillmentMethod {
+  return order.fulfillmentMethod ?? 'PICKUP';
+}
+
+export function getFulfillmentLabel(method: FulfillmentMethod): string {
+  return t(`fulfillment.${method}`);
+}
+
+export function getFulfillmentIcon(method: FulfillmentMethod): string {
+  return method === 'DELIVERY' ? '🚚' : '🏬';
+}
+
+/** "הרצל 1, תל אביב" */
+export function formatDeliveryAddress(address: Pick<DeliveryAddress, 'streetAddress' | 'city'>): string {
+  return [address.streetAddress, address.city].filter((part) => part && part.trim() !== '').join(', ');
+}
+
+export function isSameDeliverySettings(
+  a: DeliverySettings | null | undefined,
+  b: DeliverySettings | null | undefined
+): boolean {
+  if (!a?.enabled || !b?.enabled) return !a?.enabled && !b?.enabled;
+  return a.fee === b.fee && a.freeDeliveryThreshold === b.freeDeliveryThreshold;
+}
+
+/** "דמי משלוח ₪25.00 · חינם מעל ₪300.00", or "לא פעיל" when the business only offers pickup. */
+export function describeDeliverySettings(settings: DeliverySettings | null | undefined): string {
+  if (!settings?.enabled) return t('delivery.summary.off');
+  const fee =
+    settings.fee > 0 ? t('delivery.summary.fee', { fee: formatPrice(settings.fee) }) : t('delivery.summary.free');
+  return settings.freeDeliveryThreshold != null && settings.fee > 0
+    ? t('delivery.summary.freeAbove', { fee, threshold: formatPrice(settings.freeDeliveryThreshold) })
+    : fee;
+}
@@ -1,20 +1,17 @@
+import { formatCurrency } from './i18n';
+
 /**
- * Formats a price number with thousand separators and currency symbol
+ * Formats a price in shekels for the current UI language (Intl currency format with two decimals)
  * @param price - The price number to format
- * @returns Formatted string with ₪ symbol and thousand separators (e.g., ₪1,000.00)
+ * @returns Formatted string, e.g. ₪1,000.00 in English or 1,000.00 ₪ in Hebrew
  */
-export const formatPrice = (price: number): string => {
-  // Format number with thousand separators and 2 decimal places
-  const formattedNumber = price.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-  return `₪${formattedNumber}`;
-};
+export const formatPrice = (price: number): string => formatCurrency(price);
 
 /**
- * Negative amount as ₪−1,234.56 (minus after the currency symbol; pair with dir="ltr" in RTL UI).
+ * Credit amount as a negative price in the same currency format as formatPrice (e.g. -₪1,234.56 in English),
+ * whatever the sign of `amount`; pair with dir="ltr" in RTL UI.
  */
 export function formatPriceNegative(amount: number): string {
-  const abs = Math.abs(amount);
-  const formattedNumber = abs.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-  return `₪−${formattedNumber}`;
+  // Zero stays unsigned (Intl would print -0)
+  return amount === 0 ? formatCurrency(0) : formatCurrency(-Math.abs(amount));
 }
-
@@ -0,0 +1,67 @@
+import type { ProductPublic } from '../services/api';
+
+/**
+ * Dev-only product grid benchmark (see README, "Product grid benchmark"): `/store/<managerId>?gridFixture=2000`
+ * serves a generated catalog instead of the API, and `&windowing=off` renders every card, for comparing the
+ * windowed grid against the full one on the same device. Each render of the grid is reported to the console.
+ */
+
+export interface GridBenchmarkParams {
+  productCount: number;
+  windowing: boolean;
+}
+
+const MAX_FIXTURE_PRODUCTS = 10_000;
+
+/** Benchmark settings from the URL; null outside `vite dev` or without `gridFixture`. */
+export function readGridBenchmarkParams(search: string): GridBenchmarkParams | null {
+  if (!import.meta.env.DEV) return null;
+  const params = new URLSearchParams(search);
+  const count = Number(params.get('gridFixture'));
+  if (!Number.isInteger(count) || count <= 0) return null;
+  return { productCount: Math.min(count, MAX_FIXTURE_PRODUCTS), windowing: params.get('windowing') !== 'off' };
+}
+
+/**
+ * `count` deterministic products over 20 categories and 10 brands. Every product has its own image URL (the same
+ * file with a distinct query), so the browser's network panel counts one request per image actually loaded.
+ */
+export function createProductFixture(count: number, managerId: string): ProductPublic[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `fixture-${i + 1}`,
+    managerId,
+    name: `מוצר לדוגמה ${i + 1}`,
+    brandId: (i % 10) + 1,
+    brandName: `מותג ${(i % 10) + 1}`,
+    categoryId: (i % 20) + 1,
+    categoryName: `קטגוריה ${(i % 20) + 1}`,
+    price: 5 + ((i * 37) % 500) / 4,
+    description: `תיאור של מוצר לדוגמה מספר ${i + 1}`,
+    sku: `FX-${String(i + 1).padStart(5, '0')}`,
+    barcode: null,
+    images: [{ id: i + 1, mimeType: 'image/png', url: `/products.png?fixture=${i + 1}` }],
+  }));
+}
+
+/**
+ * Logs, once the grid has painted, how long the render took since `startedAt` (performance.now()), how many
+ * cards and images are in the DOM and how many images the browser has fetched so far.
+ */
+export function reportGridRender(grid: HTMLElement, params: GridBenchmarkParams, startedAt: number): void {
+  // Two frames: the first runs before paint, the second after it
+  requestAnimationFrame(() =>
+    requestAnimationFrame(() => {
+      const images = Array.from(grid.querySelectorAll('img'));
+      console.table({
+        windowing: params.windowing ? 'on' : 'off',
+        products: params.productCount,
+        cardsInDom: grid.childElementCount,
+        imagesInDom: images.length,
+        imagesFetched: performance
+          .getEntriesByType('resource')
+          .filter((entry) => entry.name.includes('/products.png?fixture=')).length,
+        renderToPaintMs: Math.round(performance.now() - startedAt),
+      });
+    })
+  );
+}
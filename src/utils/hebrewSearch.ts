@@ -0,0 +1,217 @@
+/**
+ * Hebrew-aware text matching: niqqud stripping, final-letter folding, prefix handling and typo tolerance.
+ * Used by the store product search and anywhere free text is matched against catalog data.
+ */
+
+/** Niqqud, cantillation marks and other Hebrew combining points (U+0591–U+05C7, except punctuation). */
+const HEBREW_MARKS = /[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/;
+
+const FINAL_LETTERS: Record<string, string> = {
+  'ך': 'כ',
+  'ם': 'מ',
+  'ן': 'נ',
+  'ף': 'פ',
+  'ץ': 'צ',
+};
+
+/** Single-letter prefixes (ו, ה, ב, ל, מ, ש, כ) that may be glued to a Hebrew word. */
+const HEBREW_PREFIX_LETTERS = 'והבלמשכ';
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+export type MatchQuality = 'exact' | 'prefix' | 'substring' | 'fuzzy';
+
+export interface NormalizedText {
+  /** Folded text: lowercase, no niqqud, final letters replaced by their regular form. */
+  text: string;
+  /** For each character of `text`, the index of the source character it came from. */
+  sourceIndex: number[];
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+interface WordSpan {
+  word: string;
+  start: number;
+  end: number;
+}
+
+function foldChar(ch: string): string {
+  return FINAL_LETTERS[ch] ?? ch.toLowerCase();
+}
+
+/** Normalize text for matching while keeping a map back to the original string (for highlighting). */
+export function normalizeWithMap(source: string): NormalizedText {
+  let text = '';
+  const sourceIndex: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (HEBREW_MARKS.test(ch)) continue;
+    const folded = foldChar(ch);
+    for (let j = 0; j < folded.length; j++) {
+      text += folded[j];
+      sourceIndex.push(i);
+    }
+  }
+  return { text, sourceIndex };
+}
+
+/** Normalize text for matching: lowercase, strip niqqud, fold final letters (ך→כ, ם→מ, ן→נ, ף→פ, ץ→צ). */
+export function normalizeHebrew(source: string): string {
+  return normalizeWithMap(source).text;
+}
+
+function splitWords(text: string): WordSpan[] {
+  const spans: WordSpan[] = [];
+  let start = -1;
+  for (let i = 0; i <= text.length; i++) {
+    const isWordChar = i < text.length && WORD_CHAR.test(text[i]);
+    if (isWordChar && start === -1) {
+      start = i;
+    } else if (!isWordChar && start !== -1) {
+      spans.push({ word: text.slice(start, i), start, end: i });
+      start = -1;
+    }
+  }
+  return spans;
+}
+
+/** Split into normalized words (geresh/gershayim and other punctuation act as separators). */
+export function tokenize(source: string): string[] {
+  return splitWords(normalizeHebrew(source)).map((s) => s.word);
+}
+
+/** Typos tolerated for a query token of the given length. */
+function maxTypos(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/** Optimal string alignment distance (Levenshtein + adjacent transpositions), capped at `limit + 1`. */
+export function editDistance(a: string, b: string, limit: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  let prevPrev: number[] = [];
+  let prev: number[] = Array.from({ length: cols }, (_, j) => j);
+  for (let i = 1; i < rows; i++) {
+    const curr: number[] = [i];
+    let rowMin = i;
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      curr.push(value);
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > limit) return limit + 1;
+    prevPrev = prev;
+    prev = curr;
+  }
+  return prev[cols - 1];
+}
+
+/** The word itself plus variants with up to two leading Hebrew prefix letters removed (e.g. "והחולצה" → "חולצה"). */
+function wordVariants(word: string): string[] {
+  const variants = [word];
+  let rest = word;
+  for (let i = 0; i < 2; i++) {
+    if (rest.length > 2 && HEBREW_PREFIX_LETTERS.includes(rest[0])) {
+      rest = rest.slice(1);
+      variants.push(rest);
+    } else {
+      break;
+    }
+  }
+  return variants;
+}
+
+/** How well a single normalized query token matches a single normalized word, or null if it does not. */
+export function matchWord(token: string, word: string): MatchQuality | null {
+  const variants = wordVariants(word);
+  if (variants.includes(token)) return 'exact';
+  if (variants.some((v) => v.startsWith(token))) return 'prefix';
+  if (token.length >= 2 && word.includes(token)) return 'substring';
+  const typos = maxTypos(token.length);
+  if (typos === 0) return null;
+  for (const v of variants) {
+    if (editDistance(token, v, typos) <= typos) return 'fuzzy';
+    // Token may be a partially typed word: compare against a prefix of similar length
+    if (v.length > token.length && editDistance(token, v.slice(0, token.length), typos) <= typos) return 'fuzzy';
+  }
+  return null;
+}
+
+const QUALITY_RANK: Record<MatchQuality, number> = { exact: 4, prefix: 3, substring: 2, fuzzy: 1 };
+
+/** Best match quality of `token` against any of the (already normalized) words. */
+export function bestMatch(token: string, words: string[]): MatchQuality | null {
+  let best: MatchQuality | null = null;
+  for (const word of words) {
+    const quality = matchWord(token, word);
+    if (quality && (!best || QUALITY_RANK[quality] > QUALITY_RANK[best])) {
+      best = quality;
+      if (best === 'exact') break;
+    }
+  }
+  return best;
+}
+
+export function matchQualityRank(quality: MatchQuality): number {
+  return QUALITY_RANK[quality];
+}
+
+/**
+ * Ranges in the ORIGINAL `text` matched by any token of `query`, merged and sorted.
+ * Substring hits mark just the matched letters; fuzzy hits mark the whole word.
+ */
+export function getHighlightRanges(text: string, query: string): HighlightRange[] {
+  const tokens = tokenize(query);
+  if (!text || tokens.length === 0) return [];
+  const { text: normalized, sourceIndex } = normalizeWithMap(text);
+  const words = splitWords(normalized);
+  const ranges: HighlightRange[] = [];
+
+  const toSource = (start: number, end: number): HighlightRange => {
+    let sourceEnd = sourceIndex[end - 1] + 1;
+    // Keep niqqud attached to the last highlighted letter
+    while (sourceEnd < text.length && HEBREW_MARKS.test(text[sourceEnd])) sourceEnd++;
+    return { start: sourceIndex[start], end: sourceEnd };
+  };
+
+  for (const span of words) {
+    for (const token of tokens) {
+      const quality = matchWord(token, span.word);
+      if (!quality) continue;
+      if (quality === 'fuzzy') {
+        ranges.push(toSource(span.start, span.end));
+        continue;
+      }
+      // Same rules as matchWord: exact / prefix hits start at the word or after its prefix letters,
+      // only substring hits (two letters or more) may sit inside the word
+      const at =
+        quality === 'substring'
+          ? span.word.indexOf(token)
+          : span.word.length - (wordVariants(span.word).find((v) => v.startsWith(token)) ?? span.word).length;
+      ranges.push(toSource(span.start + at, span.start + at + token.length));
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: HighlightRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
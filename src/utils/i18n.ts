@@ -0,0 +1,154 @@
+import { he } from '../locales/he';
+import { en } from '../locales/en';
+import { ar } from '../locales/ar';
+import { ru } from '../locales/ru';
+
+/**
+ * UI language. Messages live in src/locales (Hebrew is the source catalog, every other locale must cover the
+ * same keys); `t()` reads the current locale, so components re-render through `useLocale()` when it changes.
+ * Numbers, prices, dates and lists go through Intl with the locale's tag.
+ */
+
+export type Locale = 'he' | 'en' | 'ar' | 'ru';
+
+/** A message with plural forms, chosen by Intl.PluralRules for `count`. `other` is always required. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof he;
+export type MessageCatalog = Record<MessageKey, Message>;
+
+interface LocaleInfo {
+  /** Name of the language in itself, for the picker. */
+  nativeName: string;
+  dir: 'rtl' | 'ltr';
+  /** BCP 47 tag for Intl; Arabic keeps Latin digits like the rest of the (Israeli) UI. */
+  intlTag: string;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  he: { nativeName: 'עברית', dir: 'rtl', intlTag: 'he-IL' },
+  en: { nativeName: 'English', dir: 'ltr', intlTag: 'en-IL' },
+  ar: { nativeName: 'العربية', dir: 'rtl', intlTag: 'ar-IL-u-nu-latn' },
+  ru: { nativeName: 'Русский', dir: 'ltr', intlTag: 'ru-RU' },
+};
+
+const CATALOGS: Record<Locale, MessageCatalog> = { he, en, ar, ru };
+const DEFAULT_LOCALE: Locale = 'he';
+const STORAGE_KEY = 'ui-locale';
+
+function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in LOCALES;
+}
+
+function readSavedLocale(): Locale | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isLocale(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+let currentLocale: Locale = readSavedLocale() ?? DEFAULT_LOCALE;
+const listeners = new Set<() => void>();
+
+function applyToDocument(locale: Locale) {
+  document.documentElement.lang = locale;
+  document.documentElement.dir = LOCALES[locale].dir;
+}
+applyToDocument(currentLocale);
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function getDir(): 'rtl' | 'ltr' {
+  return LOCALES[currentLocale].dir;
+}
+
+/** True once the user picked a language; until then the store follows the browser language. */
+export function hasSavedLocale(): boolean {
+  return readSavedLocale() !== null;
+}
+
+/**
+ * Switch the UI language. `persist: false` is for defaults that should not stick (the store's browser
+ * language); a language picked by the user is saved.
+ */
+export function setLocale(locale: Locale, { persist = true }: { persist?: boolean } = {}) {
+  if (persist) {
+    try {
+      localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+      // Private mode / storage full: the choice still applies to this page
+    }
+  }
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  applyToDocument(locale);
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** First supported language in the browser's preference list, else Hebrew. */
+export function detectBrowserLocale(): Locale {
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const base = language?.toLowerCase().split('-')[0];
+    // "iw" is the legacy code for Hebrew, still sent by some Android browsers
+    if (base === 'iw') return 'he';
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+const pluralRulesCache = new Map<Locale, Intl.PluralRules>();
+
+function selectPlural(message: PluralMessage, count: number): string {
+  let rules = pluralRulesCache.get(currentLocale);
+  if (!rules) {
+    rules = new Intl.PluralRules(LOCALES[currentLocale].intlTag);
+    pluralRulesCache.set(currentLocale, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+}
+
+/**
+ * Message in the current locale with `{name}` placeholders filled from `params`. Plural messages pick their
+ * form by `params.count`. Falls back to Hebrew, then to the key itself.
+ */
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const message = CATALOGS[currentLocale][key] ?? he[key];
+  if (message === undefined) return key;
+  const text = typeof message === 'string' ? message : selectPlural(message, Number(params?.count ?? 0));
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(LOCALES[currentLocale].intlTag, options).format(value);
+}
+
+/** Amount in shekels with two decimals, in the locale's currency format. */
+export function formatCurrency(amount: number): string {
+  return formatNumber(amount, { style: 'currency', currency: 'ILS', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** "א, ב או ג" / "a, b or c" (`type: 'disjunction'`). */
+export function formatList(items: string[], options?: Intl.ListFormatOptions): string {
+  return new Intl.ListFormat(LOCALES[currentLocale].intlTag, options).format(items);
+}
+
+export function formatDate(date: string | Date, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(date).toLocaleDateString(LOCALES[currentLocale].intlTag, options);
+}
+
+export function formatDateTime(date: string | Date, options?: Intl.DateTimeFormatOptions): string {
+  return new Date(date).toLocaleString(LOCALES[currentLocale].intlTag, options);
+}
@@ -0,0 +1,201 @@
+import type {
+  FulfillmentMethod,
+  InventorySettings,
+  Location,
+  Product,
+  ProductPublic,
+  ProductVariant,
+  StockAdjustmentReason,
+  StockLevel,
+} from '../services/api';
+import type { CartRuleViolation } from './cartRules';
+import { t } from './i18n';
+import { getVariantLabel, hasVariants } from './productVariants';
+
+/**
+ * Stock per product (and variant) per location. The manager adjusts levels by hand with a reason; marking an
+ * order done takes its lines out of stock on the server. The public store sees the total over all locations
+ * (`availableQuantity`, for badges and the cart) and the level per location (`availableByLocation`). When the
+ * business asks for it, checkout is blocked above the stock of the location the order will be taken from (the
+ * pickup location, or the delivery location); the server checks the same limit again on place/update.
+ */
+
+export const MAX_STOCK_QUANTITY = 1_000_000;
+export const MAX_STOCK_NOTE_LENGTH = 200;
+/** The store shows "only N left" from this many units down. */
+export const FEW_LEFT_QUANTITY = 5;
+
+/** Reasons the manager can pick; ORDER_DONE is written by the server only. */
+export const STOCK_ADJUSTMENT_REASONS: Exclude<StockAdjustmentReason, 'ORDER_DONE'>[] = [
+  'RECEIVED',
+  'COUNT',
+  'DAMAGED',
+  'RETURNED',
+  'OTHER',
+];
+
+export function getStockAdjustmentReasonLabel(reason: StockAdjustmentReason): string {
+  return t(`stockReason.${reason}`);
+}
+
+export function isInventoryEnabled(settings: InventorySettings | null | undefined): boolean {
+  return !!settings?.enabled;
+}
+
+/**
+ * Units of a product in stock. `variantId` undefined sums all variants; `locationId` undefined sums all locations.
+ */
+export function getStockQuantity(
+  levels: StockLevel[],
+  productId: string,
+  variantId?: string | null,
+  locationId?: number
+): number {
+  return levels.reduce((sum, level) => {
+    if (level.productId !== productId) return sum;
+    if (variantId !== undefined && level.variantId !== variantId) return sum;
+    if (locationId !== undefined && level.locationId !== locationId) return sum;
+    return sum + level.quantity;
+  }, 0);
+}
+
+export function isLowStock(product: Pick<Product, 'id' | 'lowStockThreshold'>, levels: StockLevel[]): boolean {
+  return product.lowStockThreshold != null && getStockQuantity(levels, product.id) <= product.lowStockThreshold;
+}
+
+/** The stock-keeping rows of a product: one per variant, or the product itself. */
+export function getStockRows(product: Product): { variantId: string | null; label: string }[] {
+  if (!hasVariants(product)) return [{ variantId: null, label: product.name }];
+  return product.variants!.map((variant) => ({
+    variantId: variant.id,
+    label: getVariantLabel(variant, product.variantAxes),
+  }));
+}
+
+export function getLocationName(locations: Location[], locationId: number): string {
+  return locations.find((location) => location.id === locationId)?.name ?? t('stock.locationFallback', { id: locationId });
+}
+
+type Stocked = Pick<ProductVariant, 'availableQuantity' | 'availableByLocation'>;
+
+/** Units of one product / variant: at `locationId` when given and known per location, else over all locations. */
+function stockedQuantity(item: Stocked, locationId?: number): number | null {
+  if (item.availableQuantity == null) return null;
+  if (locationId !== undefined && item.availableByLocation) {
+    return Math.max(item.availableByLocation[String(locationId)] ?? 0, 0);
+  }
+  return Math.max(item.availableQuantity, 0);
+}
+
+/**
+ * Units the store may sell of a product or one of its variants, or null when stock is not tracked. Without a
+ * variant, a variant product counts all its variants. `locationId` limits the count to one location.
+ */
+export function getAvailableQuantity(
+  product: Pick<ProductPublic, 'availableQuantity' | 'availableByLocation' | 'variants'>,
+  variant?: Stocked | null,
+  locationId?: number
+): number | null {
+  if (variant) return stockedQuantity(variant, locationId);
+  if (product.variants && product.variants.length > 0) {
+    let total = 0;
+    for (const v of product.variants) {
+      const quantity = stockedQuantity(v, locationId);
+      if (quantity == null) return null;
+      total += quantity;
+    }
+    return total;
+  }
+  return stockedQuantity(product, locationId);
+}
+
+/**
+ * Location an order's lines will be taken out of: the pickup location, or the business's delivery location.
+ * Undefined while no pickup location is chosen, or for deliveries that do not take stock.
+ */
+export function getStockLocationId(
+  settings: InventorySettings | null | undefined,
+  fulfillmentMethod: FulfillmentMethod,
+  pickupLocationId: number | null
+): number | undefined {
+  if (fulfillmentMethod === 'DELIVERY') return settings?.deliveryLocationId ?? undefined;
+  return pickupLocationId ?? undefined;
+}
+
+/**
+ * Cart lines the store can't fill when the business blocks checkout of unavailable quantities: against the stock
+ * at `locationId` (see getStockLocationId), or over all locations while it is not known yet.
+ */
+export function getStockViolations(
+  settings: InventorySettings | null | undefined,
+  lines: {
+    product: {
+      id: string;
+      name: string;
+      availableQuantity?: number | null;
+      availableByLocation?: Record<string, number> | null;
+      variants?: ProductVariant[];
+    };
+    variant?: ProductVariant | null;
+    quantity: number;
+  }[],
+  locationId?: number
+): CartRuleViolation[] {
+  if (!settings?.enabled || !settings.blockUnavailableQuantities) return [];
+  const violations: CartRuleViolation[] = [];
+  lines.forEach((line) => {
+    const available = getAvailableQuantity(line.product, line.variant, locationId);
+    if (available == null || line.quantity <= available) return;
+    const name = line.variant ? `${line.product.name} (${getVariantLabel(line.variant)})` : line.product.name;
+    violations.push({
+      productId: line.product.id,
+      message:
+        available <= 0
+          ? t('stock.soldOutInCart', { name })
+          : t('stock.onlyLeftInCart', { count: available, name, quantity: line.quantity }),
+    });
+  });
+  return violations;
+}
+
+/** First problem in the adjustment form, or '' when it is valid. `quantityText` is the counted total for COUNT. */
+export function validateStockAdjustment(
+  reason: StockAdjustmentReason,
+  quantityText: string,
+  note: string
+): string {
+  const value = Number(quantityText.trim());
+  if (!quantityText.trim() || !Number.isInteger(value)) return t('stock.error.wholeNumber');
+  if (reason === 'COUNT') {
+    if (value < 0 || value > MAX_STOCK_QUANTITY) return t('stock.error.countRange', { max: MAX_STOCK_QUANTITY });
+  } else if (value === 0 || Math.abs(value) > MAX_STOCK_QUANTITY) {
+    return t('stock.error.deltaRange', { max: MAX_STOCK_QUANTITY });
+  }
+  if (reason === 'OTHER' && !note.trim()) return t('stock.error.noteRequired');
+  if (note.trim().length > MAX_STOCK_NOTE_LENGTH) return t('stock.error.noteTooLong', { max: MAX_STOCK_NOTE_LENGTH });
+  return '';
+}
+
+/** First problem in the low-stock threshold field ('' = no alert), or '' when it is valid. */
+export function validateLowStockThreshold(text: string): string {
+  if (!text.trim()) return '';
+  const value = Number(text.trim());
+  if (!Number.isInteger(value) || value < 0 || value > MAX_STOCK_QUANTITY) {
+    return t('stock.error.thresholdRange', { max: MAX_STOCK_QUANTITY });
+  }
+  return '';
+}
+
+export function isSameInventorySettings(
+  a: InventorySettings | null | undefined,
+  b: InventorySettings | null | undefined
+): boolean {
+  if (!a?.enabled || !b?.enabled) return !a?.enabled && !b?.enabled;
+  return a.blockUnavailableQuantities === b.blockUnavailableQuantities && a.deliveryLocationId === b.deliveryLocationId;
+}
+
+/** "פעיל · חוסם הזמנת כמויות שאינן במלאי", or "לא פעיל" when stock is not tracked. */
+export function describeInventorySettings(settings: InventorySettings | null | undefined): string {
+  if (!settings?.enabled) return t('stock.settings.off');
+  return settings.blockUnavailableQuantities ? t('stock.settings.blocking') : t('stock.settings.badgesOnly');
+}
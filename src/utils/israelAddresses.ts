@@ -0,0 +1,153 @@
+import type { IsraelLocality } from '../data/israelAddresses';
+import { bestMatch, matchQualityRank, tokenize } from './hebrewSearch';
+
+/**
+ * Address autocomplete and normalisation against the bundled localities dataset (data/israelAddresses).
+ * "ת\"א", "תל אביב" and "תל-אביב-יפו" all resolve to "תל אביב-יפו"; text that matches nothing is kept as
+ * typed, so an address outside the dataset can always be entered.
+ */
+
+const MAX_SUGGESTIONS = 8;
+
+interface IndexedName {
+  name: string;
+  /** Normalized words of the name and its aliases, for suggestions. */
+  words: string[];
+}
+
+interface IndexedLocality extends IndexedName {
+  streets: Map<string, string>;
+  indexedStreets: IndexedName[];
+}
+
+export interface IsraelAddressIndex {
+  localities: IndexedLocality[];
+  /** Match key of every name and alias → locality. */
+  byKey: Map<string, IndexedLocality>;
+}
+
+/** Street prefixes people add or leave out ("רחוב הרצל", "רח' הרצל"); "שדרות"/"דרך" are part of the name. */
+const STREET_PREFIXES = new Set(['רחוב', 'רח']);
+
+/**
+ * Key two spellings of the same name share: normalized words (punctuation, hyphens and quotes dropped) with
+ * doubled י/ו folded, so "קרית"/"קריית" and "תקוה"/"תקווה" compare equal.
+ */
+export function addressKey(text: string): string {
+  return tokenize(text)
+    .map((word) => word.replace(/יי/g, 'י').replace(/וו/g, 'ו'))
+    .join(' ');
+}
+
+function streetKey(street: string): string {
+  const words = addressKey(street).split(' ');
+  return (STREET_PREFIXES.has(words[0]) && words.length > 1 ? words.slice(1) : words).join(' ');
+}
+
+export function buildIsraelAddressIndex(localities: IsraelLocality[]): IsraelAddressIndex {
+  const byKey = new Map<string, IndexedLocality>();
+  const indexed = localities.map((locality) => {
+    const names = [locality.name, ...(locality.aliases ?? [])];
+    const streets = new Map<string, string>();
+    (locality.streets ?? []).forEach((street) => streets.set(streetKey(street), street));
+    const entry: IndexedLocality = {
+      name: locality.name,
+      words: names.flatMap((name) => tokenize(name)),
+      streets,
+      indexedStreets: (locality.streets ?? []).map((street) => ({ name: street, words: tokenize(street) })),
+    };
+    names.forEach((name) => {
+      const key = addressKey(name);
+      if (!byKey.has(key)) byKey.set(key, entry);
+    });
+    return entry;
+  });
+  return { localities: indexed, byKey };
+}
+
+let indexPromise: Promise<IsraelAddressIndex> | null = null;
+
+/** Loads the dataset chunk once; later calls share the same promise. */
+export function loadIsraelAddressIndex(): Promise<IsraelAddressIndex> {
+  if (!indexPromise) {
+    indexPromise = import('../data/israelAddresses')
+      .then((module) => buildIsraelAddressIndex(module.ISRAEL_LOCALITIES))
+      .catch((err: unknown) => {
+        indexPromise = null;
+        throw err;
+      });
+  }
+  return indexPromise;
+}
+
+function suggest(entries: IndexedName[], query: string, limit: number): string[] {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+  const queryKey = addressKey(query);
+  const scored: { name: string; score: number; exact: boolean }[] = [];
+  entries.forEach((entry) => {
+    let score = 0;
+    for (const token of tokens) {
+      const quality = bestMatch(token, entry.words);
+      if (!quality) return;
+      score += matchQualityRank(quality);
+    }
+    scored.push({ name: entry.name, score, exact: addressKey(entry.name).startsWith(queryKey) });
+  });
+  scored.sort((a, b) => Number(b.exact) - Number(a.exact) || b.score - a.score || a.name.localeCompare(b.name, 'he'));
+  return scored.slice(0, limit).map((entry) => entry.name);
+}
+
+export function suggestCities(index: IsraelAddressIndex, query: string, limit: number = MAX_SUGGESTIONS): string[] {
+  return suggest(index.localities, query, limit);
+}
+
+export function findLocality(index: IsraelAddressIndex, city: string): IndexedLocality | undefined {
+  return index.byKey.get(addressKey(city));
+}
+
+/** "הרצל 12א" → street "הרצל", house number "12א"; the number is '' when there is none. */
+export function splitHouseNumber(streetAddress: string): { street: string; houseNumber: string } {
+  const match = streetAddress.trim().match(/^(.*\D)\s+(\d+\s*[א-ת]?(?:\s*\/\s*\d+)?)$/);
+  if (!match) return { street: streetAddress.trim(), houseNumber: '' };
+  return { street: match[1].trim(), houseNumber: match[2].replace(/\s+/g, '') };
+}
+
+export function joinHouseNumber(street: string, houseNumber: string): string {
+  return houseNumber ? `${street} ${houseNumber}` : street;
+}
+
+/** Street names of the city matching what was typed (the house number is ignored); empty when the city has no streets. */
+export function suggestStreets(
+  index: IsraelAddressIndex,
+  city: string,
+  query: string,
+  limit: number = MAX_SUGGESTIONS
+): string[] {
+  const locality = findLocality(index, city);
+  if (!locality) return [];
+  return suggest(locality.indexedStreets, splitHouseNumber(query).street, limit);
+}
+
+/** The locality's official name, or the trimmed text when it is not a known locality. */
+export function normalizeCity(index: IsraelAddressIndex, city: string): string {
+  return findLocality(index, city)?.name ?? city.trim();
+}
+
+/** Known streets of the city get their official name (house number kept); anything else is only trimmed. */
+export function normalizeStreetAddress(index: IsraelAddressIndex, city: string, streetAddress: string): string {
+  const { street, houseNumber } = splitHouseNumber(streetAddress);
+  const official = findLocality(index, city)?.streets.get(streetKey(street));
+  return official ? joinHouseNumber(official, houseNumber) : streetAddress.trim();
+}
+
+export interface AddressFields {
+  streetAddress: string;
+  city: string;
+}
+
+/** Both fields normalised; the street is looked up in the normalised city. */
+export function normalizeAddress(index: IsraelAddressIndex, address: AddressFields): AddressFields {
+  const city = normalizeCity(index, address.city);
+  return { city, streetAddress: normalizeStreetAddress(index, city, address.streetAddress) };
+}
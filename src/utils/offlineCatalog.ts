@@ -0,0 +1,96 @@
+import { isNetworkError } from './apiErrorMessage';
+
+/**
+ * Network-first cache (localStorage) for the public store catalog, so a store that was opened once
+ * can still be browsed when the connection drops. Only public, non-authenticated data is cached.
+ */
+
+const CACHE_PREFIX = 'store_offline_';
+/** Entries older than this are pruned when the storage quota is hit. */
+const MAX_CACHE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CacheEntry<T> {
+  data: T;
+  cachedAt: string;
+}
+
+export interface OfflineResult<T> {
+  data: T;
+  /** True when the network failed and `data` was served from the device cache. */
+  fromCache: boolean;
+  /** When `data` was last fetched from the server. */
+  cachedAt: string;
+}
+
+export const offlineCacheKey = {
+  order: (orderId: string) => `order_${orderId}`,
+  productsByManager: (managerId: string) => `products_manager_${managerId}`,
+  productsByOrder: (orderId: string) => `products_order_${orderId}`,
+  customerLink: (token: string) => `customer_link_${token}`,
+  productsByCustomerLink: (token: string) => `products_customer_link_${token}`,
+  categories: (managerId: string) => `categories_${managerId}`,
+  brands: (managerId: string) => `brands_${managerId}`,
+  business: (managerId: string) => `business_${managerId}`,
+  locations: (managerId: string) => `locations_${managerId}`,
+};
+
+function readEntry<T>(key: string): CacheEntry<T> | null {
+  try {
+    const raw = localStorage.getItem(CACHE_PREFIX + key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Drop expired entries, or the oldest half of them when none has expired. */
+function pruneCache(): void {
+  const entries: { key: string; cachedAt: number }[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(CACHE_PREFIX)) continue;
+    const entry = readEntry(key.slice(CACHE_PREFIX.length));
+    entries.push({ key, cachedAt: entry ? new Date(entry.cachedAt).getTime() : 0 });
+  }
+  const now = Date.now();
+  let toRemove = entries.filter((e) => now - e.cachedAt > MAX_CACHE_AGE_MS);
+  if (toRemove.length === 0) {
+    toRemove = [...entries].sort((a, b) => a.cachedAt - b.cachedAt).slice(0, Math.ceil(entries.length / 2));
+  }
+  toRemove.forEach((e) => localStorage.removeItem(e.key));
+}
+
+function writeEntry<T>(key: string, data: T): string {
+  const entry: CacheEntry<T> = { data, cachedAt: new Date().toISOString() };
+  const serialized = JSON.stringify(entry);
+  try {
+    localStorage.setItem(CACHE_PREFIX + key, serialized);
+  } catch {
+    // Quota exceeded – make room once and retry; caching is best effort
+    try {
+      pruneCache();
+      localStorage.setItem(CACHE_PREFIX + key, serialized);
+    } catch (err) {
+      console.warn('Failed to cache store data for offline use:', err);
+    }
+  }
+  return entry.cachedAt;
+}
+
+/**
+ * Fetch from the server and refresh the cache; if the request fails because the device is offline,
+ * fall back to the last cached copy. Server errors (404, 403...) are rethrown as-is.
+ */
+export async function fetchWithOfflineCache<T>(key: string, fetcher: () => Promise<T>): Promise<OfflineResult<T>> {
+  try {
+    const data = await fetcher();
+    const cachedAt = writeEntry(key, data);
+    return { data, fromCache: false, cachedAt };
+  } catch (err) {
+    if (isNetworkError(err)) {
+      const cached = readEntry<T>(key);
+      if (cached) return { data: cached.data, fromCache: true, cachedAt: cached.cachedAt };
+    }
+    throw err;
+  }
+}
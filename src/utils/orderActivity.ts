@@ -0,0 +1,156 @@
+import type { InvoiceDto, OrderActivityActor, OrderActivityEvent, ProductDataForOrder } from '../services/api';
+import { formatPrice, formatPriceNegative } from './formatPrice';
+import { t } from './i18n';
+import { getStatusLabel } from './orderUtils';
+import { formatLineName } from './productVariants';
+
+/**
+ * Order activity timeline (OrderViewModal): recorded order changes merged with the order's invoices and credit
+ * notes, oldest first. Product changes are shown as per-line diffs between the lines before and after.
+ */
+
+export type OrderTimelineTone = 'created' | 'status' | 'products' | 'discount' | 'invoice' | 'creditNote';
+
+export interface OrderLineChange {
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  fromQuantity: number | null;
+  toQuantity: number | null;
+  fromPrice: number | null;
+  toPrice: number | null;
+}
+
+export interface OrderTimelineEntry {
+  key: string;
+  at: string;
+  actor: OrderActivityActor;
+  tone: OrderTimelineTone;
+  title: string;
+  /** Short text under the title, e.g. the discount before and after. */
+  detail?: string;
+  lineChanges?: OrderLineChange[];
+  pdfUrl?: string;
+}
+
+/** Invoices and credit notes are issued from the manager's orders. */
+const INVOICE_ACTOR: OrderActivityActor = { type: 'MANAGER', id: null, name: null };
+
+export function getActorLabel(actor: OrderActivityActor): string {
+  const type = t(`orderActivity.actor.${actor.type}`);
+  return actor.type !== 'PUBLIC' && actor.name ? `${type} · ${actor.name}` : type;
+}
+
+const lineKey = (line: ProductDataForOrder) => `${line.productId}|${line.variantId ?? ''}`;
+
+/** Lines by product + variant; a product listed twice counts as one line with the summed quantity. */
+function indexLines(lines: ProductDataForOrder[]): Map<string, ProductDataForOrder> {
+  const byKey = new Map<string, ProductDataForOrder>();
+  lines.forEach((line) => {
+    const existing = byKey.get(lineKey(line));
+    byKey.set(lineKey(line), existing ? { ...existing, quantity: existing.quantity + line.quantity } : line);
+  });
+  return byKey;
+}
+
+/** Added, removed, and re-quantified or re-priced lines between two versions of an order's products. */
+export function diffOrderLines(previous: ProductDataForOrder[], next: ProductDataForOrder[]): OrderLineChange[] {
+  const before = indexLines(previous);
+  const after = indexLines(next);
+  const changes: OrderLineChange[] = [];
+  after.forEach((line, key) => {
+    const old = before.get(key);
+    if (!old) {
+      changes.push({
+        name: formatLineName(line),
+        change: 'added',
+        fromQuantity: null,
+        toQuantity: line.quantity,
+        fromPrice: null,
+        toPrice: line.pricePerUnit,
+      });
+    } else if (old.quantity !== line.quantity || old.pricePerUnit !== line.pricePerUnit) {
+      changes.push({
+        name: formatLineName(line),
+        change: 'changed',
+        fromQuantity: old.quantity,
+        toQuantity: line.quantity,
+        fromPrice: old.pricePerUnit,
+        toPrice: line.pricePerUnit,
+      });
+    }
+  });
+  before.forEach((line, key) => {
+    if (after.has(key)) return;
+    changes.push({
+      name: formatLineName(line),
+      change: 'removed',
+      fromQuantity: line.quantity,
+      toQuantity: null,
+      fromPrice: line.pricePerUnit,
+      toPrice: null,
+    });
+  });
+  return changes;
+}
+
+function eventEntry(event: OrderActivityEvent): OrderTimelineEntry {
+  const base = { key: `event-${event.id}`, at: event.occurredAt, actor: event.actor };
+  switch (event.type) {
+    case 'CREATED':
+      return { ...base, tone: 'created', title: t('orderActivity.created') };
+    case 'STATUS_CHANGED':
+      return {
+        ...base,
+        tone: 'status',
+        title: event.toStatus
+          ? t('orderActivity.status', { status: getStatusLabel(event.toStatus) })
+          : t('orderActivity.statusChanged'),
+        detail: event.fromStatus
+          ? t('orderActivity.previousStatus', { status: getStatusLabel(event.fromStatus) })
+          : undefined,
+      };
+    case 'PRODUCTS_CHANGED':
+      return {
+        ...base,
+        tone: 'products',
+        title:
+          event.productsVersion != null
+            ? t('orderActivity.productsVersion', { version: event.productsVersion })
+            : t('orderActivity.products'),
+        lineChanges: diffOrderLines(event.previousProducts ?? [], event.products ?? []),
+      };
+    case 'DISCOUNT_CHANGED':
+      return {
+        ...base,
+        tone: 'discount',
+        title: t('orderActivity.discount'),
+        detail: t('orderActivity.change', {
+          from: formatPrice(event.previousDiscount ?? 0),
+          to: formatPrice(event.discount ?? 0),
+        }),
+      };
+  }
+}
+
+function invoiceEntry(invoice: InvoiceDto): OrderTimelineEntry {
+  const isCredit = invoice.invoiceType === 'CREDIT_NOTE';
+  return {
+    key: `invoice-${invoice.id}`,
+    at: invoice.createdAt,
+    actor: INVOICE_ACTOR,
+    tone: isCredit ? 'creditNote' : 'invoice',
+    title: t(isCredit ? 'orderActivity.creditNote' : 'orderActivity.invoice', {
+      number: invoice.invoiceSequenceNumber,
+    }),
+    detail: isCredit ? formatPriceNegative(invoice.totalAmount) : formatPrice(invoice.totalAmount),
+    pdfUrl: invoice.pdfUrl || undefined,
+  };
+}
+
+/** Recorded changes and invoice documents in chronological order (stable for equal timestamps). */
+export function buildOrderTimeline(events: OrderActivityEvent[], invoices: InvoiceDto[]): OrderTimelineEntry[] {
+  return [...events.map(eventEntry), ...invoices.map(invoiceEntry)]
+    .map((entry, index) => ({ entry, index, time: new Date(entry.at).getTime() }))
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+    .map(({ entry }) => entry);
+}
@@ -0,0 +1,43 @@
+import type { Order } from '../services/api';
+import { formatList, t } from './i18n';
+import type { OrderStatus } from './orderUtils';
+import { getStatusLabel } from './orderUtils';
+
+/**
+ * Orders board (OrdersPage / AgentOrdersPage "board" view): one column per status. Dropping a card on another
+ * column runs the same transition as the order's buttons; only moves the backend allows are accepted.
+ */
+
+export const BOARD_COLUMNS: OrderStatus[] = ['EMPTY', 'PLACED', 'DONE', 'EXPIRED', 'CANCELLED'];
+
+/** Orders fetched per column page. */
+export const BOARD_PAGE_SIZE = 20;
+
+/** Transition endpoint per target column (manager or agent API); a column without one accepts no drops. */
+export type BoardTransitions = Partial<Record<OrderStatus, (orderId: string) => Promise<Order>>>;
+
+/** Target status → statuses an order may come from (markOrderDone / markOrderCancelled). */
+const ALLOWED_SOURCES: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  DONE: ['PLACED'],
+  CANCELLED: ['EMPTY', 'PLACED'],
+};
+
+export function canMoveOrder(order: Order, to: OrderStatus, transitions: BoardTransitions): boolean {
+  return !!transitions[to] && (ALLOWED_SOURCES[to]?.includes(order.status) ?? false);
+}
+
+/** Targets offered for an order (also used by the keyboard "move to" menu on the card). */
+export function getOrderMoveTargets(order: Order, transitions: BoardTransitions): OrderStatus[] {
+  return BOARD_COLUMNS.filter((status) => canMoveOrder(order, status, transitions));
+}
+
+/** Why a drop is refused, shown while the card is over the column. */
+export function describeRejectedMove(order: Order, to: OrderStatus, transitions: BoardTransitions): string {
+  if (order.status === to) return t('orderMove.sameColumn');
+  if (!transitions[to] || !ALLOWED_SOURCES[to]) return t('orderMove.notAllowed', { to: getStatusLabel(to) });
+  const from = formatList(
+    ALLOWED_SOURCES[to]!.map((status) => `"${getStatusLabel(status)}"`),
+    { type: 'disjunction' }
+  );
+  return t('orderMove.onlyFrom', { from, to: getStatusLabel(to) });
+}
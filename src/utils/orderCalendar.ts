@@ -0,0 +1,120 @@
+import type { Order, OrderDateField, OrderDateRange, PageResponse } from '../services/api';
+import { formatDate, t } from './i18n';
+import { toDateKey } from './pickupSlots';
+
+/**
+ * Orders calendar (OrdersPage / AgentOrdersPage "calendar" view): orders are placed on the local day of the chosen
+ * timestamp. Weeks start on Sunday, as in the pickup schedule.
+ */
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+export const CALENDAR_VIEWS: CalendarView[] = ['month', 'week', 'day'];
+
+export const CALENDAR_DATE_FIELDS: OrderDateField[] = ['placedAt', 'doneAt', 'linkExpiresAt'];
+
+export function getCalendarViewLabel(view: CalendarView): string {
+  return t(`calendarView.${view}`);
+}
+
+export function getCalendarDateFieldLabel(field: OrderDateField): string {
+  return t(`calendarDateField.${field}`);
+}
+
+/** Page size and page cap when loading a range; a busy month stays well under this. */
+const RANGE_PAGE_SIZE = 100;
+const MAX_RANGE_PAGES = 10;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date): Date {
+  return addDays(startOfDay(date), -date.getDay());
+}
+
+export interface CalendarRange {
+  /** Days shown, in order (a month view is padded to whole weeks). */
+  days: Date[];
+  start: Date;
+  /** Exclusive. */
+  end: Date;
+}
+
+export function getCalendarRange(view: CalendarView, anchor: Date): CalendarRange {
+  let start: Date;
+  let dayCount: number;
+  if (view === 'day') {
+    start = startOfDay(anchor);
+    dayCount = 1;
+  } else if (view === 'week') {
+    start = startOfWeek(anchor);
+    dayCount = 7;
+  } else {
+    const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+    const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+    start = startOfWeek(first);
+    dayCount = Math.round((addDays(startOfWeek(last), 7).getTime() - start.getTime()) / 86_400_000);
+  }
+  const days = Array.from({ length: dayCount }, (_, i) => addDays(start, i));
+  return { days, start, end: addDays(start, dayCount) };
+}
+
+/** Anchor moved one month / week / day back (-1) or forward (1). */
+export function shiftCalendarAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  if (view === 'month') return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+  return addDays(anchor, view === 'week' ? 7 * direction : direction);
+}
+
+export function formatCalendarTitle(view: CalendarView, anchor: Date, range: CalendarRange): string {
+  if (view === 'month') return formatDate(anchor, { month: 'long', year: 'numeric' });
+  if (view === 'day') return formatDate(anchor, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  const last = addDays(range.end, -1);
+  return `${formatDate(range.start, { day: 'numeric', month: 'short' })} – ${formatDate(last, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+}
+
+export function toOrderDateRange(field: OrderDateField, range: CalendarRange): OrderDateRange {
+  return { field, from: range.start.toISOString(), to: range.end.toISOString() };
+}
+
+/** Local "YYYY-MM-DD" the order falls on, or null when it has no such timestamp. */
+export function getOrderCalendarDayKey(order: Order, field: OrderDateField): string | null {
+  const value = order[field];
+  return value ? toDateKey(new Date(value)) : null;
+}
+
+/** Orders per day key, each day sorted by time. */
+export function groupOrdersByDay(orders: Order[], field: OrderDateField): Map<string, Order[]> {
+  const byDay = new Map<string, Order[]>();
+  orders.forEach((order) => {
+    const key = getOrderCalendarDayKey(order, field);
+    if (!key) return;
+    byDay.set(key, [...(byDay.get(key) ?? []), order]);
+  });
+  byDay.forEach((dayOrders) =>
+    dayOrders.sort((a, b) => new Date(a[field] ?? 0).getTime() - new Date(b[field] ?? 0).getTime())
+  );
+  return byDay;
+}
+
+/** Sum of a day's orders, cancelled ones excluded (they are shown but not prepared). */
+export function getDayTotal(orders: Order[]): number {
+  return orders.filter((order) => order.status !== 'CANCELLED').reduce((sum, order) => sum + order.totalPrice, 0);
+}
+
+/** All orders of a range, page by page; `truncated` when the page cap was hit. */
+export async function fetchOrdersInRange(
+  fetchPage: (page: number, pageSize: number) => Promise<PageResponse<Order>>
+): Promise<{ orders: Order[]; truncated: boolean }> {
+  const orders: Order[] = [];
+  for (let page = 0; page < MAX_RANGE_PAGES; page++) {
+    const response = await fetchPage(page, RANGE_PAGE_SIZE);
+    orders.push(...response.content);
+    if (response.last || response.content.length === 0) return { orders, truncated: false };
+  }
+  return { orders, truncated: true };
+}
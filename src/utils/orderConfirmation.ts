@@ -0,0 +1,174 @@
+import type { OrderConfirmation, StoreBusinessInfo } from '../services/api';
+import { formatCurrency, formatDateTime, formatNumber, getDir, getLocale, LOCALES, t } from './i18n';
+import { formatPickupSlot } from './pickupSlots';
+import { formatLineName } from './productVariants';
+
+/**
+ * Order confirmation the customer can print or keep: one self-contained HTML document, shown on screen in a
+ * frame, printed from that frame and downloaded as a file – so all three are the same document.
+ */
+
+export interface OrderConfirmationTotals {
+  productsTotal: number;
+  discount: number;
+  deliveryFee: number;
+  total: number;
+  /** VAT included in the total (prices include VAT). */
+  vatAmount: number;
+}
+
+const roundToAgorot = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getOrderConfirmationTotals(confirmation: OrderConfirmation): OrderConfirmationTotals {
+  const productsTotal = confirmation.products.reduce((sum, line) => sum + line.pricePerUnit * line.quantity, 0);
+  const total = confirmation.totalPrice;
+  const vatAmount = confirmation.vat > 0 ? total - total / (1 + confirmation.vat / 100) : 0;
+  return {
+    productsTotal: roundToAgorot(productsTotal),
+    discount: roundToAgorot(confirmation.discount),
+    deliveryFee: roundToAgorot(confirmation.deliveryFee ?? 0),
+    total: roundToAgorot(total),
+    vatAmount: roundToAgorot(vatAmount),
+  };
+}
+
+export function getOrderConfirmationFileName(confirmation: OrderConfirmation): string {
+  return `order-${confirmation.referenceId}.html`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const DOCUMENT_STYLE = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 24px; font-family: system-ui, -apple-system, "Segoe UI", Arial, sans-serif; color: #1f2937; background: #fff; font-size: 14px; line-height: 1.5; }
+  .doc { max-width: 720px; margin: 0 auto; }
+  header { display: flex; align-items: center; justify-content: space-between; gap: 16px; border-bottom: 2px solid #1f2937; padding-bottom: 12px; margin-bottom: 16px; }
+  header img { max-height: 64px; max-width: 160px; object-fit: contain; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 15px; margin: 20px 0 8px; }
+  .muted { color: #6b7280; }
+  .meta { display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 4px 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 4px; border-bottom: 1px solid #e5e7eb; text-align: start; vertical-align: top; }
+  th { font-size: 12px; color: #6b7280; font-weight: 600; }
+  .num { text-align: end; white-space: nowrap; font-variant-numeric: tabular-nums; }
+  .totals { margin-inline-start: auto; width: min(100%, 320px); margin-top: 12px; }
+  .totals td { border: none; padding: 2px 4px; }
+  .totals .grand td { border-top: 2px solid #1f2937; font-weight: 700; font-size: 16px; padding-top: 6px; }
+  .notes { white-space: pre-wrap; border: 1px solid #e5e7eb; border-radius: 8px; padding: 8px; }
+  footer { margin-top: 24px; font-size: 12px; color: #6b7280; text-align: center; }
+  @page { margin: 14mm; }
+  @media print { body { padding: 0; } tr { break-inside: avoid; } }
+`;
+
+function row(label: string, value: string): string {
+  return `<div><span class="muted">${escapeHtml(label)}:</span> ${escapeHtml(value)}</div>`;
+}
+
+function fulfillmentSection(confirmation: OrderConfirmation): string {
+  if (confirmation.fulfillmentMethod === 'DELIVERY' && confirmation.deliveryAddress) {
+    const address = confirmation.deliveryAddress;
+    return `<h2>${escapeHtml(t('store.confirmation.delivery'))}</h2>
+      <div>${escapeHtml(`${address.streetAddress}, ${address.city}`)}</div>
+      ${address.instructions ? `<div class="muted">${escapeHtml(address.instructions)}</div>` : ''}`;
+  }
+  const location = confirmation.selectedLocation;
+  if (!location?.name) return '';
+  const slot = confirmation.pickupSlot;
+  const address = [location.streetAddress, location.city].filter(Boolean).join(', ');
+  return `<h2>${escapeHtml(t('store.confirmation.pickup'))}</h2>
+    <div><strong>${escapeHtml(location.name)}</strong></div>
+    ${address ? `<div>${escapeHtml(address)}</div>` : ''}
+    ${location.phoneNumber ? `<div dir="ltr" style="text-align: start">${escapeHtml(location.phoneNumber)}</div>` : ''}
+    ${slot ? row(t('store.confirmation.pickupSlot'), formatPickupSlot(slot)) : ''}`;
+}
+
+/** Standalone HTML (inline styles, no scripts) in the store's current language and direction. */
+export function buildOrderConfirmationHtml(confirmation: OrderConfirmation, business: StoreBusinessInfo | null): string {
+  const totals = getOrderConfirmationTotals(confirmation);
+  const title = t('store.confirmation.title', { reference: confirmation.referenceId });
+  const lines = confirmation.products
+    .map(
+      (line) => `<tr>
+        <td>${escapeHtml(formatLineName(line))}</td>
+        <td class="num">${formatNumber(line.quantity)}</td>
+        <td class="num">${escapeHtml(formatCurrency(line.pricePerUnit))}</td>
+        <td class="num">${escapeHtml(formatCurrency(line.pricePerUnit * line.quantity))}</td>
+      </tr>`
+    )
+    .join('');
+  const totalRows = [
+    [t('store.confirmation.productsTotal'), formatCurrency(totals.productsTotal)],
+    ...(totals.discount > 0 ? [[t('store.confirmation.discount'), `-${formatCurrency(totals.discount)}`]] : []),
+    ...(totals.deliveryFee > 0 ? [[t('store.confirmation.deliveryFee'), formatCurrency(totals.deliveryFee)]] : []),
+    ...(totals.vatAmount > 0
+      ? [[t('store.confirmation.vatIncluded', { rate: formatNumber(confirmation.vat) }), formatCurrency(totals.vatAmount)]]
+      : []),
+  ]
+    .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="num">${escapeHtml(value)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${LOCALES[getLocale()].intlTag}" dir="${getDir()}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(business ? `${title} – ${business.name}` : title)}</title>
+<style>${DOCUMENT_STYLE}</style>
+</head>
+<body>
+<div class="doc">
+  <header>
+    <div>
+      <h1>${escapeHtml(business?.name ?? '')}</h1>
+      <div class="muted">${escapeHtml(title)}</div>
+    </div>
+    ${business?.imageUrl ? `<img src="${escapeHtml(business.imageUrl)}" alt="">` : ''}
+  </header>
+  <div class="meta">
+    ${row(t('store.confirmation.reference'), String(confirmation.referenceId))}
+    ${confirmation.placedAt ? row(t('store.confirmation.placedAt'), formatDateTime(confirmation.placedAt, { dateStyle: 'short', timeStyle: 'short' })) : ''}
+    ${confirmation.customerName ? row(t('store.confirmation.customer'), confirmation.customerName) : ''}
+  </div>
+  <h2>${escapeHtml(t('store.confirmation.lines'))}</h2>
+  <table>
+    <thead><tr>
+      <th>${escapeHtml(t('store.confirmation.product'))}</th>
+      <th class="num">${escapeHtml(t('store.confirmation.quantity'))}</th>
+      <th class="num">${escapeHtml(t('store.confirmation.unitPrice'))}</th>
+      <th class="num">${escapeHtml(t('store.confirmation.lineTotal'))}</th>
+    </tr></thead>
+    <tbody>${lines}</tbody>
+  </table>
+  <table class="totals">
+    <tbody>
+      ${totalRows}
+      <tr class="grand"><td>${escapeHtml(t('store.confirmation.total'))}</td><td class="num">${escapeHtml(formatCurrency(totals.total))}</td></tr>
+    </tbody>
+  </table>
+  ${fulfillmentSection(confirmation)}
+  ${confirmation.notes?.trim() ? `<h2>${escapeHtml(t('store.confirmation.notes'))}</h2><div class="notes">${escapeHtml(confirmation.notes.trim())}</div>` : ''}
+  <footer>${escapeHtml(t('store.confirmation.footer'))}</footer>
+</div>
+</body>
+</html>`;
+}
+
+/** Save the confirmation as an .html file the customer can open (and print) later. */
+export function downloadOrderConfirmation(html: string, fileName: string): void {
+  const url = window.URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+}
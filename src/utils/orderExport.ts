@@ -0,0 +1,231 @@
+import type { Order, PageResponse, ProductDataForOrder } from '../services/api';
+import { getFulfillmentLabel, getOrderFulfillmentMethod } from './delivery';
+import { t, type MessageKey } from './i18n';
+import { formatOrderDateShortWithTime, getStatusLabel } from './orderUtils';
+import { formatLineName } from './productVariants';
+import { buildCsv, buildXlsx, type SpreadsheetCell } from './spreadsheet';
+
+/**
+ * Orders export (OrdersPage): every page of the filtered orders as CSV or XLSX, one row per order or one row per
+ * order line (order columns repeated on each of its lines). Amounts are plain numbers so they sum in Excel.
+ */
+
+export type OrderExportFormat = 'csv' | 'xlsx';
+export type OrderExportGranularity = 'order' | 'line';
+
+export interface OrderExportContext {
+  /** Agent id → display name, for the agent column. */
+  agentNames: Map<string, string>;
+}
+
+export interface OrderExportColumn {
+  id: string;
+  labelKey: MessageKey;
+  /** Line columns exist only in the per-line export. */
+  scope: 'order' | 'line';
+  value: (order: Order, line: ProductDataForOrder | null, context: OrderExportContext) => SpreadsheetCell;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const productsTotal = (order: Order) =>
+  round2(order.products.reduce((sum, product) => sum + product.pricePerUnit * product.quantity, 0));
+
+const dateCell = (value: string | null | undefined) => (value ? formatOrderDateShortWithTime(value) : '');
+
+export const ORDER_EXPORT_COLUMNS: OrderExportColumn[] = [
+  {
+    id: 'referenceId',
+    labelKey: 'orderExport.column.referenceId',
+    scope: 'order',
+    value: (order) => order.referenceId,
+  },
+  {
+    id: 'status',
+    labelKey: 'orderExport.column.status',
+    scope: 'order',
+    value: (order) => getStatusLabel(order.status),
+  },
+  {
+    id: 'source',
+    labelKey: 'orderExport.column.source',
+    scope: 'order',
+    value: (order) => t(`orderSource.${order.orderSource}`),
+  },
+  {
+    id: 'agent',
+    labelKey: 'orderExport.column.agent',
+    scope: 'order',
+    value: (order, _line, context) => (order.agentId ? (context.agentNames.get(order.agentId) ?? '') : ''),
+  },
+  {
+    id: 'customerName',
+    labelKey: 'orderExport.column.customerName',
+    scope: 'order',
+    value: (order) => order.customerName ?? '',
+  },
+  {
+    id: 'customerPhone',
+    labelKey: 'orderExport.column.customerPhone',
+    scope: 'order',
+    value: (order) => order.customerPhone ?? '',
+  },
+  {
+    id: 'customerEmail',
+    labelKey: 'orderExport.column.customerEmail',
+    scope: 'order',
+    value: (order) => order.customerEmail ?? '',
+  },
+  {
+    id: 'customerStateId',
+    labelKey: 'orderExport.column.customerStateId',
+    scope: 'order',
+    value: (order) => order.customerStateId ?? '',
+  },
+  {
+    id: 'customerAddress',
+    labelKey: 'orderExport.column.customerAddress',
+    scope: 'order',
+    value: (order) => order.customerStreetAddress ?? '',
+  },
+  {
+    id: 'customerCity',
+    labelKey: 'orderExport.column.customerCity',
+    scope: 'order',
+    value: (order) => order.customerCity ?? '',
+  },
+  {
+    id: 'fulfillment',
+    labelKey: 'orderExport.column.fulfillment',
+    scope: 'order',
+    value: (order) => getFulfillmentLabel(getOrderFulfillmentMethod(order)),
+  },
+  {
+    id: 'createdAt',
+    labelKey: 'orderExport.column.createdAt',
+    scope: 'order',
+    value: (order) => dateCell(order.createdAt),
+  },
+  {
+    id: 'placedAt',
+    labelKey: 'orderExport.column.placedAt',
+    scope: 'order',
+    value: (order) => dateCell(order.placedAt),
+  },
+  { id: 'doneAt', labelKey: 'orderExport.column.doneAt', scope: 'order', value: (order) => dateCell(order.doneAt) },
+  {
+    id: 'productsTotal',
+    labelKey: 'orderExport.column.productsTotal',
+    scope: 'order',
+    value: (order) => productsTotal(order),
+  },
+  { id: 'discount', labelKey: 'orderExport.column.discount', scope: 'order', value: (order) => order.discount },
+  {
+    id: 'deliveryFee',
+    labelKey: 'orderExport.column.deliveryFee',
+    scope: 'order',
+    value: (order) => order.deliveryFee ?? 0,
+  },
+  {
+    id: 'credited',
+    labelKey: 'orderExport.column.credited',
+    scope: 'order',
+    value: (order) => order.totalCreditedAmount ?? 0,
+  },
+  { id: 'totalPrice', labelKey: 'orderExport.column.totalPrice', scope: 'order', value: (order) => order.totalPrice },
+  { id: 'notes', labelKey: 'orderExport.column.notes', scope: 'order', value: (order) => order.notes },
+  {
+    id: 'productName',
+    labelKey: 'orderExport.column.productName',
+    scope: 'line',
+    value: (_order, line) => (line ? formatLineName(line) : ''),
+  },
+  {
+    id: 'quantity',
+    labelKey: 'orderExport.column.quantity',
+    scope: 'line',
+    value: (_order, line) => line?.quantity ?? null,
+  },
+  {
+    id: 'pricePerUnit',
+    labelKey: 'orderExport.column.pricePerUnit',
+    scope: 'line',
+    value: (_order, line) => line?.pricePerUnit ?? null,
+  },
+  {
+    id: 'lineTotal',
+    labelKey: 'orderExport.column.lineTotal',
+    scope: 'line',
+    value: (_order, line) => (line ? round2(line.pricePerUnit * line.quantity) : null),
+  },
+];
+
+/** Columns checked when the export dialog opens. */
+export const DEFAULT_ORDER_EXPORT_COLUMN_IDS = [
+  'referenceId',
+  'status',
+  'agent',
+  'customerName',
+  'customerStateId',
+  'placedAt',
+  'doneAt',
+  'productsTotal',
+  'discount',
+  'totalPrice',
+  'productName',
+  'quantity',
+  'pricePerUnit',
+  'lineTotal',
+];
+
+export function getExportColumns(granularity: OrderExportGranularity): OrderExportColumn[] {
+  return ORDER_EXPORT_COLUMNS.filter((column) => granularity === 'line' || column.scope === 'order');
+}
+
+/** Header row plus data rows; an order without lines still gets one row in the per-line export. */
+export function buildOrderExportRows(
+  orders: Order[],
+  columnIds: string[],
+  granularity: OrderExportGranularity,
+  context: OrderExportContext
+): SpreadsheetCell[][] {
+  const selected = new Set(columnIds);
+  const columns = getExportColumns(granularity).filter((column) => selected.has(column.id));
+  const rows: SpreadsheetCell[][] = [columns.map((column) => t(column.labelKey))];
+  orders.forEach((order) => {
+    const lines = granularity === 'line' && order.products.length > 0 ? order.products : [null];
+    lines.forEach((line) => rows.push(columns.map((column) => column.value(order, line, context))));
+  });
+  return rows;
+}
+
+export function buildOrderExportFile(rows: SpreadsheetCell[][], format: OrderExportFormat): Blob {
+  return format === 'csv' ? buildCsv(rows) : buildXlsx(rows, t('orderExport.sheetName'));
+}
+
+export function getOrderExportFileName(format: OrderExportFormat, now: Date = new Date()): string {
+  const stamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  return `${t('orderExport.fileName')}_${stamp}.${format}`;
+}
+
+/** Orders fetched per request while exporting. */
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Every page of the filtered orders. `onProgress` gets the orders loaded so far and the total; returns null when
+ * `isCancelled` turns true between pages.
+ */
+export async function fetchAllOrdersForExport(
+  fetchPage: (page: number, pageSize: number) => Promise<PageResponse<Order>>,
+  onProgress: (loaded: number, total: number) => void,
+  isCancelled: () => boolean
+): Promise<Order[] | null> {
+  const orders: Order[] = [];
+  for (let page = 0; ; page++) {
+    if (isCancelled()) return null;
+    const response = await fetchPage(page, EXPORT_PAGE_SIZE);
+    orders.push(...response.content);
+    onProgress(orders.length, response.totalElements);
+    if (response.last || response.content.length === 0) return isCancelled() ? null : orders;
+  }
+}
@@ -0,0 +1,71 @@
+import type { Order, OrderLinkSettings } from '../services/api';
+import { t } from './i18n';
+
+/**
+ * Order link lifetime: new links expire after the business default (a week unless the manager changed it) or the
+ * lifetime chosen when the order was created. Links that are still open or already expired can be extended; an
+ * expired link opens again when it is extended.
+ */
+
+export const DEFAULT_ORDER_LINK_LIFETIME_HOURS = 168;
+/** Lifetimes offered for new links and for extensions, in hours. */
+export const ORDER_LINK_LIFETIME_OPTIONS = [24, 48, 72, 168, 336, 720];
+/** Window of the "links expiring soon" list and of the store's urgent countdown. */
+export const EXPIRING_SOON_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** "24 שעות", "3 ימים", "שבוע", "30 ימים". */
+export function formatLinkLifetime(hours: number): string {
+  if (hours % 168 === 0) return t('linkLifetime.weeks', { count: hours / 168 });
+  if (hours % 24 === 0) return t('linkLifetime.days', { count: hours / 24 });
+  return t('linkLifetime.hours', { count: hours });
+}
+
+export function getOrderLinkLifetimeHours(settings: OrderLinkSettings | null | undefined): number {
+  return settings?.defaultLifetimeHours ?? DEFAULT_ORDER_LINK_LIFETIME_HOURS;
+}
+
+export function isSameOrderLinkSettings(
+  a: OrderLinkSettings | null | undefined,
+  b: OrderLinkSettings | null | undefined
+): boolean {
+  return getOrderLinkLifetimeHours(a) === getOrderLinkLifetimeHours(b);
+}
+
+/** "תוקף ברירת מחדל: שבוע". */
+export function describeOrderLinkSettings(settings: OrderLinkSettings | null | undefined): string {
+  return t('linkLifetime.default', { lifetime: formatLinkLifetime(getOrderLinkLifetimeHours(settings)) });
+}
+
+/** Only links nobody ordered through yet can be extended: open ones and expired ones. */
+export function canExtendOrderLink(order: Pick<Order, 'status'>): boolean {
+  return order.status === 'EMPTY' || order.status === 'EXPIRED';
+}
+
+export function getLinkMsLeft(expiresAt: string, now: number = Date.now()): number {
+  return new Date(expiresAt).getTime() - now;
+}
+
+export function isOrderLinkExpiringSoon(expiresAt: string, now: number = Date.now()): boolean {
+  const msLeft = getLinkMsLeft(expiresAt, now);
+  return msLeft > 0 && msLeft <= EXPIRING_SOON_HOURS * HOUR_MS;
+}
+
+export type LinkTimeLeftUnit = 'days' | 'hours' | 'minutes';
+
+/**
+ * Time left in the largest unit that fits at least twice over ("3 days", then "30 hours", then "45 minutes"),
+ * rounded down; null once the link has expired.
+ */
+export function getLinkTimeLeft(
+  expiresAt: string,
+  now: number = Date.now()
+): { unit: LinkTimeLeftUnit; count: number } | null {
+  const msLeft = getLinkMsLeft(expiresAt, now);
+  if (msLeft <= 0) return null;
+  const hours = Math.floor(msLeft / HOUR_MS);
+  if (hours >= 48) return { unit: 'days', count: Math.floor(hours / 24) };
+  if (hours >= 2) return { unit: 'hours', count: hours };
+  return { unit: 'minutes', count: Math.max(1, Math.ceil(msLeft / 60000)) };
+}
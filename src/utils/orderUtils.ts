@@ -4,15 +4,19 @@
  * OrderViewModal, CustomerDetailPage, AgentCustomerDetailPage.
  */
 
+import { formatDate, t } from './i18n';
+import type { MessageKey } from './i18n';
+
 export type OrderStatus = 'EMPTY' | 'PLACED' | 'DONE' | 'EXPIRED' | 'CANCELLED';
 
 export function getStatusLabel(status: string): string {
   switch (status) {
-    case 'EMPTY': return 'ריק';
-    case 'PLACED': return 'הוזמן';
-    case 'DONE': return 'הושלם';
-    case 'EXPIRED': return 'פג תוקף';
-    case 'CANCELLED': return 'בוטל';
+    case 'EMPTY':
+    case 'PLACED':
+    case 'DONE':
+    case 'EXPIRED':
+    case 'CANCELLED':
+      return t(`orderStatus.${status}`);
     default: return status;
   }
 }
@@ -28,9 +32,9 @@ export function getStatusColor(status: string): string {
   }
 }
 
-/** Date for list/card (e.g. "15 בינו׳ 2025") */
+/** Date for list/card in the UI language (e.g. "15 בינו׳ 2025", "15 Jan 2025") */
 export function formatOrderDate(dateString: string): string {
-  return new Date(dateString).toLocaleDateString('he-IL', {
+  return formatDate(dateString, {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -71,20 +75,25 @@ export interface OrderForCardDate {
   linkExpiresAt?: string;
 }
 
+/** Label with a trailing no-break space so it stays glued to the date when the card wraps */
+function cardDateLabel(key: MessageKey): string {
+  return `${t(key)}\u00A0`;
+}
+
 export function getOrderCardDate(order: OrderForCardDate): OrderCardDateInfo | null {
   switch (order.status) {
     case 'EMPTY':
-      return { label: 'נוצר ב:\u00A0', date: order.createdAt };
+      return { label: cardDateLabel('orderDate.created'), date: order.createdAt };
     case 'PLACED':
-      return { label: 'הוזמן ב:\u00A0', date: order.placedAt || order.createdAt };
+      return { label: cardDateLabel('orderDate.placed'), date: order.placedAt || order.createdAt };
     case 'DONE':
-      return { label: 'הושלם ב:\u00A0', date: order.doneAt || order.placedAt || order.createdAt };
+      return { label: cardDateLabel('orderDate.done'), date: order.doneAt || order.placedAt || order.createdAt };
     case 'EXPIRED':
-      return order.linkExpiresAt ? { label: 'פג תוקף ב:\u00A0', date: order.linkExpiresAt } : null;
+      return order.linkExpiresAt ? { label: cardDateLabel('orderDate.expired'), date: order.linkExpiresAt } : null;
     case 'CANCELLED':
       return null;
     default:
-      return { label: 'נוצר ב:\u00A0', date: order.createdAt };
+      return { label: cardDateLabel('orderDate.created'), date: order.createdAt };
   }
 }
 
@@ -152,10 +161,10 @@ export function getOrderRowClass(status: string): string {
   }
 }
 
-/** Translate backend discount error messages to Hebrew (shared by OrdersPage, AgentOrdersPage, CustomerDetailPage, AgentCustomerDetailPage). */
+/** Translate backend discount error messages to the UI language (shared by OrdersPage, AgentOrdersPage, CustomerDetailPage, AgentCustomerDetailPage). */
 export function translateDiscountErrorMessage(errorMessage: string): string {
-  if (errorMessage.includes('can have at most 2 decimal places')) return 'הנחה יכולה לכלול עד 2 ספרות אחרי הנקודה';
-  if (errorMessage.includes('cannot exceed the total price')) return 'הנחה לא יכולה לעלות על סכום ההזמנה';
-  if (errorMessage.includes('must be greater than or equal to 0')) return 'הנחה חייבת להיות מספר חיובי';
+  if (errorMessage.includes('can have at most 2 decimal places')) return t('discountError.decimalPlaces');
+  if (errorMessage.includes('cannot exceed the total price')) return t('discountError.exceedsTotal');
+  if (errorMessage.includes('must be greater than or equal to 0')) return t('discountError.negative');
   return errorMessage;
 }
@@ -0,0 +1,206 @@
+import { publicAPI } from '../services/api';
+import type { PlaceOrderRequest } from '../services/api';
+import { isNetworkError, isOfflineFailure, resolveApiErr } from './apiErrorMessage';
+import { t } from './i18n';
+
+/**
+ * Durable queue (localStorage) of store orders placed while offline, replayed when connectivity returns.
+ *
+ * Double-placement guards:
+ * - every submission carries a client-generated id sent as `Idempotency-Key` (a hint only – the server is not
+ *   known to deduplicate on it);
+ * - order-link orders are re-checked with `publicAPI.orders.getById` before replay – if the order is no
+ *   longer EMPTY the earlier attempt already reached the server;
+ * - public-store and personal-link orders cannot be checked that way, so an attempt that never answered is not
+ *   re-sent automatically: unless it failed while the browser was offline (isOfflineFailure) it becomes
+ *   'unconfirmed' and the customer decides whether to send it again;
+ * - replay runs under a Web Lock (or an in-memory flag) so two tabs never send the same entry.
+ */
+
+export type PendingOrderStatus = 'pending' | 'sending' | 'synced' | 'failed' | 'unconfirmed';
+
+export interface PendingOrder {
+  /** Client-generated id, also used as the idempotency key. */
+  id: string;
+  managerId: string;
+  /** Set for order links (`/store/order/:orderId`); null for the public store. */
+  orderId: string | null;
+  /** Set for personal customer links (`/store/customer/:token`); each replay creates a new order. */
+  customerLinkToken?: string | null;
+  request: PlaceOrderRequest;
+  totalPrice: number;
+  createdAt: string;
+  status: PendingOrderStatus;
+  /**
+   * Last attempt time; a 'sending' entry older than SENDING_TIMEOUT_MS is considered abandoned – replayed for
+   * order links, marked 'unconfirmed' otherwise.
+   */
+  updatedAt: string;
+  error?: string;
+}
+
+const STORAGE_KEY = 'pending_orders';
+const CHANGE_EVENT = 'pending-orders-changed';
+const LOCK_NAME = 'pending-orders-replay';
+const SENDING_TIMEOUT_MS = 2 * 60 * 1000;
+/** Synced entries are kept for a day so the customer sees the confirmation, then dropped. */
+const SYNCED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export function createClientId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export function getPendingOrders(): PendingOrder[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as PendingOrder[]) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveOrders(orders: PendingOrder[]): void {
+  const now = Date.now();
+  const kept = orders.filter(
+    (o) => o.status !== 'synced' || now - new Date(o.updatedAt).getTime() < SYNCED_RETENTION_MS
+  );
+  if (kept.length > 0) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+function updateOrder(id: string, patch: Partial<PendingOrder>): void {
+  saveOrders(
+    getPendingOrders().map((o) => (o.id === id ? { ...o, ...patch, updatedAt: new Date().toISOString() } : o))
+  );
+}
+
+/** Queue a submission; 'unconfirmed' when a first attempt may already have reached the server (see module doc). */
+export function enqueuePendingOrder(
+  entry: Pick<PendingOrder, 'id' | 'managerId' | 'orderId' | 'customerLinkToken' | 'request' | 'totalPrice'>,
+  status: 'pending' | 'unconfirmed' = 'pending'
+): PendingOrder {
+  const now = new Date().toISOString();
+  const pending: PendingOrder = { ...entry, createdAt: now, updatedAt: now, status };
+  // Same id means the same submission (e.g. double click) – never queue it twice
+  saveOrders([...getPendingOrders().filter((o) => o.id !== entry.id), pending]);
+  return pending;
+}
+
+export function removePendingOrder(id: string): void {
+  saveOrders(getPendingOrders().filter((o) => o.id !== id));
+}
+
+/** Put a failed or unconfirmed entry back in the queue (customer pressed "try again" / "send again"). */
+export function retryPendingOrder(id: string): void {
+  updateOrder(id, { status: 'pending', error: undefined });
+}
+
+/** Subscribe to queue changes in this tab and in other tabs. Returns an unsubscribe function. */
+export function subscribePendingOrders(listener: () => void): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener(CHANGE_EVENT, listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+function isAbandonedSend(order: PendingOrder): boolean {
+  return order.status === 'sending' && Date.now() - new Date(order.updatedAt).getTime() > SENDING_TIMEOUT_MS;
+}
+
+/** Only order links can be re-checked on the server before an abandoned attempt is sent again. */
+function isReplayable(order: PendingOrder): boolean {
+  return order.status === 'pending' || (isAbandonedSend(order) && order.orderId !== null);
+}
+
+/** Abandoned public-store / personal-link attempts may have created an order – leave them to the customer. */
+function flagUnconfirmedOrders(): void {
+  const orders = getPendingOrders();
+  if (!orders.some((o) => isAbandonedSend(o) && o.orderId === null)) return;
+  const now = new Date().toISOString();
+  saveOrders(
+    orders.map((o) => (isAbandonedSend(o) && o.orderId === null ? { ...o, status: 'unconfirmed', updatedAt: now } : o))
+  );
+}
+
+/** Send one entry. Returns false when the network is still down (stop replaying for now). */
+async function replayOne(order: PendingOrder): Promise<boolean> {
+  updateOrder(order.id, { status: 'sending' });
+  try {
+    if (order.orderId) {
+      const current = await publicAPI.orders.getById(order.orderId);
+      if (current.status === 'PLACED' || current.status === 'DONE') {
+        // An earlier attempt reached the server even though we never saw the response
+        updateOrder(order.id, { status: 'synced' });
+        return true;
+      }
+      if (current.status !== 'EMPTY') {
+        updateOrder(order.id, {
+          status: 'failed',
+          error: current.status === 'EXPIRED' ? t('store.link.expiredTitle') : t('store.link.cancelledTitle'),
+        });
+        return true;
+      }
+      await publicAPI.orders.placeOrder(order.orderId, order.request, order.id);
+    } else if (order.customerLinkToken) {
+      await publicAPI.customerLinks.createAndPlaceOrder(order.customerLinkToken, order.request, order.id);
+    } else {
+      await publicAPI.orders.createAndPlacePublicOrder(order.managerId, order.request, order.id);
+    }
+    updateOrder(order.id, { status: 'synced' });
+    return true;
+  } catch (err: unknown) {
+    if (isNetworkError(err)) {
+      // Only order links are re-checked before the next attempt; otherwise a send that may have arrived waits
+      // for the customer
+      const resend = order.orderId !== null || isOfflineFailure(err);
+      updateOrder(order.id, { status: resend ? 'pending' : 'unconfirmed' });
+      return false;
+    }
+    console.error('Failed to replay pending order:', err);
+    updateOrder(order.id, { status: 'failed', error: resolveApiErr(err, 'orderCheckoutCreate') });
+    return true;
+  }
+}
+
+let isReplayingInThisTab = false;
+
+async function replayQueue(): Promise<void> {
+  for (const order of getPendingOrders().filter(isReplayable)) {
+    // Re-read: another tab may have handled the entry meanwhile
+    const fresh = getPendingOrders().find((o) => o.id === order.id);
+    if (!fresh || !isReplayable(fresh)) continue;
+    const online = await replayOne(fresh);
+    if (!online) break;
+  }
+}
+
+/** Replay queued orders, oldest first. Safe to call often (on load, on 'online', on retry). */
+export async function replayPendingOrders(): Promise<void> {
+  flagUnconfirmedOrders();
+  if (isReplayingInThisTab || !getPendingOrders().some(isReplayable)) return;
+  isReplayingInThisTab = true;
+  try {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, async (lock) => {
+        if (lock) await replayQueue();
+      });
+    } else {
+      await replayQueue();
+    }
+  } finally {
+    isReplayingInThisTab = false;
+  }
+}
@@ -0,0 +1,221 @@
+import type { Location, PickupScheduling, PickupSlot, PickupSlotTemplate } from '../services/api';
+import { formatDate, t } from './i18n';
+
+/**
+ * Pickup slot booking. A location with scheduling enabled defines weekly windows (templates) that are split
+ * into slots of `slotMinutes`, each taking up to `capacity` orders. Slots are generated here from the templates;
+ * the server only reports how many orders each slot already holds, and re-checks capacity when the order is
+ * placed. Dates and times are the location's local time, which is the device time of our users.
+ */
+
+export const SLOT_LENGTH_OPTIONS = [15, 30, 60, 120];
+export const MAX_SLOT_CAPACITY = 1000;
+export const MAX_LEAD_TIME_HOURS = 336;
+export const MAX_BOOKING_WINDOW_DAYS = 60;
+
+/** Full weekday name in the UI language for a template `dayOfWeek` (0 = Sunday). */
+export function getDayName(dayOfWeek: number): string {
+  return formatDate(new Date(2023, 0, 1 + dayOfWeek), { weekday: 'long' });
+}
+
+export interface AvailablePickupSlot extends PickupSlot {
+  capacity: number;
+  /** Places left; 0 means the slot is full. */
+  remaining: number;
+}
+
+/** "HH:mm" -> minutes since midnight. */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/** Local "YYYY-MM-DD" of a date. */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** Local midnight of a "YYYY-MM-DD" key. */
+function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Key of a slot in the bookings map returned by the server: "YYYY-MM-DDTHH:mm". */
+export function getPickupSlotKey(slot: Pick<PickupSlot, 'date' | 'startTime'>): string {
+  return `${slot.date}T${slot.startTime}`;
+}
+
+export function isSamePickupSlot(a: PickupSlot | null | undefined, b: PickupSlot | null | undefined): boolean {
+  return !!a && !!b && a.date === b.date && a.startTime === b.startTime;
+}
+
+export function isPickupSchedulingActive(location: Pick<Location, 'pickupScheduling'> | null | undefined): boolean {
+  return !!location?.pickupScheduling?.enabled && location.pickupScheduling.templates.length > 0;
+}
+
+/** Date range (inclusive) of the booking window, for fetching slot bookings. */
+export function getBookingWindowRange(scheduling: PickupScheduling, now: Date = new Date()): { from: string; to: string } {
+  const last = new Date(now.getFullYear(), now.getMonth(), now.getDate() + Math.max(scheduling.bookingWindowDays, 1) - 1);
+  return { from: toDateKey(now), to: toDateKey(last) };
+}
+
+/**
+ * Every slot of the booking window that starts after the lead time, with the places left according to
+ * `bookings`. Blackout dates and days without a template have no slots. Full slots are included (remaining 0)
+ * so the picker can show them as taken.
+ */
+export function buildPickupSlots(
+  scheduling: PickupScheduling,
+  bookings: Record<string, number> = {},
+  now: Date = new Date()
+): AvailablePickupSlot[] {
+  if (!scheduling.enabled) return [];
+  const earliestStart = now.getTime() + scheduling.leadTimeHours * 60 * 60 * 1000;
+  const blackout = new Set(scheduling.blackoutDates);
+  const slots: AvailablePickupSlot[] = [];
+
+  for (let offset = 0; offset < scheduling.bookingWindowDays; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const date = toDateKey(day);
+    if (blackout.has(date)) continue;
+
+    scheduling.templates
+      .filter((template) => template.dayOfWeek === day.getDay())
+      .forEach((template) => {
+        const end = timeToMinutes(template.endTime);
+        for (let start = timeToMinutes(template.startTime); start + template.slotMinutes <= end; start += template.slotMinutes) {
+          const slotStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, start);
+          if (slotStart.getTime() < earliestStart) continue;
+          const slot = { date, startTime: minutesToTime(start), endTime: minutesToTime(start + template.slotMinutes) };
+          const booked = bookings[getPickupSlotKey(slot)] ?? 0;
+          slots.push({ ...slot, capacity: template.capacity, remaining: Math.max(template.capacity - booked, 0) });
+        }
+      });
+  }
+
+  return slots.sort((a, b) => getPickupSlotKey(a).localeCompare(getPickupSlotKey(b)));
+}
+
+/** Slots grouped by date, in date order. */
+export function groupSlotsByDate<T extends PickupSlot>(slots: T[]): { date: string; slots: T[] }[] {
+  const groups: { date: string; slots: T[] }[] = [];
+  slots.forEach((slot) => {
+    const last = groups[groups.length - 1];
+    if (last?.date === slot.date) last.slots.push(slot);
+    else groups.push({ date: slot.date, slots: [slot] });
+  });
+  return groups;
+}
+
+/** "היום", "מחר" or "יום ג׳ 14/05" (weekday in the UI language). */
+export function formatPickupDate(date: string, now: Date = new Date()): string {
+  const today = toDateKey(now);
+  const tomorrow = toDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1));
+  if (date === today) return t('pickupDate.today');
+  if (date === tomorrow) return t('pickupDate.tomorrow');
+  const day = fromDateKey(date);
+  return `${formatDate(day, { weekday: 'short' })} ${String(day.getDate()).padStart(2, '0')}/${String(day.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** "יום ג׳ 14/05 · 10:00–10:30" */
+export function formatPickupSlot(slot: PickupSlot, now: Date = new Date()): string {
+  return `${formatPickupDate(slot.date, now)} · ${slot.startTime}–${slot.endTime}`;
+}
+
+/** Template rows as typed in the scheduling form. */
+export interface PickupTemplateDraft {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  slotMinutes: number;
+  capacity: string;
+}
+
+export interface PickupSchedulingDraft {
+  enabled: boolean;
+  templates: PickupTemplateDraft[];
+  leadTimeHours: string;
+  bookingWindowDays: string;
+  blackoutDates: string[];
+}
+
+export const NEW_PICKUP_TEMPLATE: PickupTemplateDraft = {
+  dayOfWeek: 0,
+  startTime: '09:00',
+  endTime: '13:00',
+  slotMinutes: 30,
+  capacity: '5',
+};
+
+export function pickupSchedulingDraftFrom(scheduling: PickupScheduling | null | undefined): PickupSchedulingDraft {
+  if (!scheduling) {
+    return { enabled: false, templates: [], leadTimeHours: '2', bookingWindowDays: '14', blackoutDates: [] };
+  }
+  return {
+    enabled: scheduling.enabled,
+    templates: scheduling.templates.map((template) => ({ ...template, capacity: String(template.capacity) })),
+    leadTimeHours: String(scheduling.leadTimeHours),
+    bookingWindowDays: String(scheduling.bookingWindowDays),
+    blackoutDates: [...scheduling.blackoutDates].sort(),
+  };
+}
+
+function isWholeNumberInRange(text: string, min: number, max: number): boolean {
+  const value = Number(text);
+  return /^\d+$/.test(text.trim()) && value >= min && value <= max;
+}
+
+/** First problem in the scheduling form, or '' when it is valid (a disabled form is always valid). */
+export function validatePickupSchedulingDraft(draft: PickupSchedulingDraft): string {
+  if (!draft.enabled) return '';
+  if (draft.templates.length === 0) return t('pickupScheduling.error.noTemplates');
+  for (const template of draft.templates) {
+    const day = getDayName(template.dayOfWeek);
+    if (!template.startTime || !template.endTime) return t('pickupScheduling.error.missingHours', { day });
+    const length = timeToMinutes(template.endTime) - timeToMinutes(template.startTime);
+    if (length <= 0) return t('pickupScheduling.error.endBeforeStart', { day });
+    if (length < template.slotMinutes) {
+      return t('pickupScheduling.error.windowTooShort', { day, minutes: template.slotMinutes });
+    }
+    if (!isWholeNumberInRange(template.capacity, 1, MAX_SLOT_CAPACITY)) {
+      return t('pickupScheduling.error.capacity', { day, max: MAX_SLOT_CAPACITY });
+    }
+  }
+  for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+    const windows = draft.templates
+      .filter((template) => template.dayOfWeek === dayOfWeek)
+      .map((template) => [timeToMinutes(template.startTime), timeToMinutes(template.endTime)])
+      .sort((a, b) => a[0] - b[0]);
+    for (let i = 1; i < windows.length; i++) {
+      if (windows[i][0] < windows[i - 1][1]) return t('pickupScheduling.error.overlap', { day: getDayName(dayOfWeek) });
+    }
+  }
+  if (!isWholeNumberInRange(draft.leadTimeHours, 0, MAX_LEAD_TIME_HOURS)) {
+    return t('pickupScheduling.error.leadTime', { max: MAX_LEAD_TIME_HOURS });
+  }
+  if (!isWholeNumberInRange(draft.bookingWindowDays, 1, MAX_BOOKING_WINDOW_DAYS)) {
+    return t('pickupScheduling.error.bookingWindow', { max: MAX_BOOKING_WINDOW_DAYS });
+  }
+  return '';
+}
+
+/** Assumes the draft passed validatePickupSchedulingDraft. */
+export function pickupSchedulingFromDraft(draft: PickupSchedulingDraft): PickupScheduling {
+  const templates: PickupSlotTemplate[] = draft.templates
+    .map((template) => ({ ...template, capacity: Number(template.capacity) }))
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+  return {
+    enabled: draft.enabled,
+    templates,
+    leadTimeHours: Number(draft.leadTimeHours) || 0,
+    bookingWindowDays: Number(draft.bookingWindowDays) || 1,
+    blackoutDates: [...new Set(draft.blackoutDates)].sort(),
+  };
+}
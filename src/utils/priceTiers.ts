@@ -0,0 +1,143 @@
+import type { PriceTier, ProductVariant } from '../services/api';
+import { formatNumber, t } from './i18n';
+import { getVariantPrice } from './productVariants';
+
+/**
+ * Volume pricing: "1–9 units ₪12, 10–49 ₪11, 50+ ₪10" is stored as the product price (12) plus
+ * tiers [{ minQuantity: 10, price: 11 }, { minQuantity: 50, price: 10 }].
+ *
+ * How a line is priced:
+ * - the quantity of the cart line picks the highest tier it reaches;
+ * - the customer pays the lower of their base price and the tier price. The base price is the
+ *   per-customer override when there is one (order-link catalogs already carry it in `price`), so an
+ *   override is never made more expensive by a tier, and tiers never beat a cheaper override;
+ * - Customer.discountPercentage is not applied here: the server applies it to the base and tier prices of
+ *   the order-link and personal-link catalogs (`publicAPI.products.getAllByOrderId`,
+ *   `publicAPI.customerLinks.getProducts`), so the prices this file compares are already discounted. A
+ *   percentage keeps the order of prices, so the tier picked is the same as before the discount;
+ * - variants with a price of their own are not tiered; variants at the product price are.
+ */
+
+export const MAX_PRICE_TIERS = 10;
+
+interface WithTiers {
+  price: number;
+  priceTiers?: PriceTier[];
+}
+
+export function hasPriceTiers(product: WithTiers): boolean {
+  return (product.priceTiers?.length ?? 0) > 0;
+}
+
+/** Tiers sorted by minQuantity (ascending). */
+function sortedTiers(tiers: PriceTier[] = []): PriceTier[] {
+  return [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+/** Highest tier reached by `quantity`, or null when it is below the first tier. */
+export function getTierForQuantity(tiers: PriceTier[] | undefined, quantity: number): PriceTier | null {
+  let reached: PriceTier | null = null;
+  for (const tier of sortedTiers(tiers)) {
+    if (quantity >= tier.minQuantity) reached = tier;
+  }
+  return reached;
+}
+
+/** First tier above `quantity`, for "add 3 more to pay ₪11" hints. */
+export function getNextTier(tiers: PriceTier[] | undefined, quantity: number): PriceTier | null {
+  return sortedTiers(tiers).find((tier) => tier.minQuantity > quantity) ?? null;
+}
+
+/** Lowest-priced (largest quantity) tier, for "from 50 units ₪10" teasers. */
+export function getBestTier(tiers: PriceTier[] | undefined): PriceTier | null {
+  const sorted = sortedTiers(tiers);
+  return sorted[sorted.length - 1] ?? null;
+}
+
+export interface LinePrice {
+  unitPrice: number;
+  /** Tier that set the unit price; null when the base price applies. */
+  tier: PriceTier | null;
+}
+
+/** Unit price of a cart line (product, optional variant, quantity) – see the rules above. */
+export function getLinePrice(
+  product: WithTiers,
+  variant: Pick<ProductVariant, 'price'> | null | undefined,
+  quantity: number
+): LinePrice {
+  const basePrice = getVariantPrice(product, variant);
+  if (variant?.price != null) return { unitPrice: basePrice, tier: null };
+  const tier = getTierForQuantity(product.priceTiers, quantity);
+  if (tier && tier.price < basePrice) return { unitPrice: tier.price, tier };
+  return { unitPrice: basePrice, tier: null };
+}
+
+/** Rows for a tier table: [{ label: '1–9', price: 12 }, { label: '10–49', price: 11 }, { label: '50+', price: 10 }]. */
+export function describeTiers(product: WithTiers): { label: string; minQuantity: number; price: number }[] {
+  const tiers = sortedTiers(product.priceTiers);
+  if (tiers.length === 0) return [];
+  const bands = [{ minQuantity: 1, price: product.price }, ...tiers];
+  return bands.map((band, index) => {
+    const next = bands[index + 1];
+    const label = next
+      ? next.minQuantity - 1 === band.minQuantity
+        ? `${band.minQuantity}`
+        : `${band.minQuantity}–${next.minQuantity - 1}`
+      : `${band.minQuantity}+`;
+    return { label, minQuantity: band.minQuantity, price: band.price };
+  });
+}
+
+/** Tier rows as typed in the product form. */
+export interface PriceTierDraft {
+  minQuantity: string;
+  price: string;
+}
+
+export function tierDraftsFromProduct(product: WithTiers): PriceTierDraft[] {
+  return sortedTiers(product.priceTiers).map((tier) => ({
+    minQuantity: tier.minQuantity.toString(),
+    price: tier.price.toString(),
+  }));
+}
+
+/**
+ * First problem in the tier rows, or '' when they are valid. Quantities must increase, prices must
+ * decrease from the product price, and no tier may go below the minimum price.
+ */
+export function validatePriceTierDrafts(
+  drafts: PriceTierDraft[],
+  price: number,
+  minimumPrice: number,
+  maxPrice: number
+): string {
+  if (drafts.length > MAX_PRICE_TIERS) return t('priceTier.error.tooMany', { max: MAX_PRICE_TIERS });
+  let previousQuantity = 1;
+  let previousPrice = price;
+  for (const draft of drafts) {
+    const quantity = Number(draft.minQuantity);
+    const tierPrice = Number(draft.price);
+    if (!draft.minQuantity.trim() || !Number.isInteger(quantity) || quantity < 2) {
+      return t('priceTier.error.quantity');
+    }
+    if (quantity <= previousQuantity) return t('priceTier.error.quantityOrder');
+    if (!draft.price.trim() || Number.isNaN(tierPrice) || tierPrice <= 0) {
+      return t('priceTier.error.price', { quantity });
+    }
+    if (tierPrice > maxPrice) return t('priceTier.error.priceMax', { quantity, max: formatNumber(maxPrice) });
+    if (tierPrice < minimumPrice) return t('priceTier.error.belowMinimum', { quantity });
+    if (tierPrice >= previousPrice) return t('priceTier.error.notLower', { quantity });
+    previousQuantity = quantity;
+    previousPrice = tierPrice;
+  }
+  return '';
+}
+
+/** Tier part of ProductInfo. Assumes the drafts passed validatePriceTierDrafts. */
+export function priceTiersFromDrafts(drafts: PriceTierDraft[]): PriceTier[] {
+  return drafts.map((draft) => ({
+    minQuantity: Number(draft.minQuantity),
+    price: Math.round(Number(draft.price) * 100) / 100,
+  }));
+}
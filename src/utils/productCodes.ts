@@ -0,0 +1,71 @@
+import type { ProductPublic } from '../services/api';
+import { t } from './i18n';
+
+/**
+ * SKU (the business's / supplier's item code) and barcode (EAN/UPC or any code a scanner reads). Both are
+ * optional and unique per manager, compared case-insensitively; the server enforces uniqueness again.
+ */
+
+export const MAX_SKU_LENGTH = 64;
+export const MAX_BARCODE_LENGTH = 64;
+
+const SKU_PATTERN = /^[A-Za-z0-9._\-/]+$/;
+const BARCODE_PATTERN = /^[A-Za-z0-9\-.]+$/;
+
+type WithCodes = Pick<ProductPublic, 'id' | 'name' | 'sku' | 'barcode'>;
+
+/** Comparison form of a code: trimmed, case-folded. */
+export function normalizeProductCode(code: string | null | undefined): string {
+  return (code ?? '').trim().toLowerCase();
+}
+
+/** Value sent to the API: trimmed, null when empty. */
+export function productCodeFromInput(text: string): string | null {
+  return text.trim() || null;
+}
+
+/** Problems with the SKU / barcode fields as field errors; an empty object when both are valid. */
+export function validateProductCodes(
+  sku: string,
+  barcode: string,
+  products: WithCodes[],
+  productId: string | null
+): { sku?: string; barcode?: string } {
+  const errors: { sku?: string; barcode?: string } = {};
+  if (sku.trim()) {
+    if (sku.trim().length > MAX_SKU_LENGTH) errors.sku = t('productCode.error.skuLength', { max: MAX_SKU_LENGTH });
+    else if (!SKU_PATTERN.test(sku.trim())) errors.sku = t('productCode.error.skuPattern');
+    else {
+      const other = findProductByCode(products, sku, productId);
+      if (other) errors.sku = t('productCode.error.inUse', { name: other.name });
+    }
+  }
+  if (barcode.trim()) {
+    if (barcode.trim().length > MAX_BARCODE_LENGTH) errors.barcode = t('productCode.error.barcodeLength', { max: MAX_BARCODE_LENGTH });
+    else if (!BARCODE_PATTERN.test(barcode.trim())) errors.barcode = t('productCode.error.barcodePattern');
+    else {
+      // The product's own SKU may equal its barcode; other products may not use either
+      const other = findProductByCode(products, barcode, productId);
+      if (other) errors.barcode = t('productCode.error.inUse', { name: other.name });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Product whose barcode or SKU is `code` (barcode first, as scanners read barcodes). `excludeId` skips the product
+ * being edited.
+ */
+export function findProductByCode<T extends WithCodes>(
+  products: T[],
+  code: string,
+  excludeId: string | null = null
+): T | undefined {
+  const normalized = normalizeProductCode(code);
+  if (!normalized) return undefined;
+  const candidates = excludeId ? products.filter((product) => product.id !== excludeId) : products;
+  return (
+    candidates.find((product) => normalizeProductCode(product.barcode) === normalized) ??
+    candidates.find((product) => normalizeProductCode(product.sku) === normalized)
+  );
+}
@@ -0,0 +1,83 @@
+import type { ProductPublic } from '../services/api';
+import { bestMatch, matchQualityRank, tokenize } from './hebrewSearch';
+import { normalizeProductCode } from './productCodes';
+
+/** Relative weight of each searchable product field. */
+const FIELD_WEIGHTS = {
+  name: 4,
+  brandName: 2,
+  categoryName: 2,
+  description: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+/** SKU/barcode hits rank above any word match: whole code first, then a code starting with the query. */
+const EXACT_CODE_SCORE = 10_000;
+const CODE_PREFIX_SCORE = 5_000;
+const MIN_CODE_PREFIX_LENGTH = 3;
+
+export interface ProductSearchEntry<T extends ProductPublic = ProductPublic> {
+  product: T;
+  words: Record<SearchField, string[]>;
+  /** Normalized SKU and barcode, matched as whole codes (never fuzzily – one digit off is another product). */
+  codes: string[];
+}
+
+/** Pre-tokenize products once per catalog load so each keystroke only scores. */
+export function buildProductSearchIndex<T extends ProductPublic>(products: T[]): ProductSearchEntry<T>[] {
+  return products.map((product) => ({
+    product,
+    words: {
+      name: tokenize(product.name),
+      brandName: tokenize(product.brandName ?? ''),
+      categoryName: tokenize(product.categoryName ?? ''),
+      description: tokenize(product.description ?? ''),
+    },
+    codes: [product.sku, product.barcode].map(normalizeProductCode).filter(Boolean),
+  }));
+}
+
+/** Score of an entry for the query tokens; 0 when any token matches no field. */
+function scoreEntry(entry: ProductSearchEntry, tokens: string[]): number {
+  let score = 0;
+  for (const token of tokens) {
+    let tokenScore = 0;
+    for (const field of SEARCH_FIELDS) {
+      const quality = bestMatch(token, entry.words[field]);
+      if (quality) {
+        tokenScore = Math.max(tokenScore, matchQualityRank(quality) * FIELD_WEIGHTS[field]);
+      }
+    }
+    if (tokenScore === 0) return 0;
+    score += tokenScore;
+  }
+  return score;
+}
+
+function scoreCode(entry: ProductSearchEntry, code: string): number {
+  if (!code || entry.codes.length === 0) return 0;
+  if (entry.codes.includes(code)) return EXACT_CODE_SCORE;
+  if (code.length >= MIN_CODE_PREFIX_LENGTH && entry.codes.some((c) => c.startsWith(code))) return CODE_PREFIX_SCORE;
+  return 0;
+}
+
+/**
+ * Products matching every word of `query` (name, description, brand, category) or its SKU/barcode, best matches first.
+ * The sort is stable, so equally scored products keep the order of `index` (i.e. the store's current sort).
+ */
+export function searchProducts<T extends ProductPublic>(index: ProductSearchEntry<T>[], query: string): T[] {
+  const tokens = tokenize(query);
+  const code = normalizeProductCode(query);
+  if (tokens.length === 0 && !code) return index.map((entry) => entry.product);
+  return index
+    .map((entry) => ({
+      product: entry.product,
+      score: Math.max(scoreCode(entry, code), tokens.length > 0 ? scoreEntry(entry, tokens) : 0),
+    }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map((result) => result.product);
+}
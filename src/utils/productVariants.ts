@@ -0,0 +1,187 @@
+import type { ProductVariant, ProductVariantAxis, ProductVariantInfo } from '../services/api';
+import { formatNumber, t } from './i18n';
+
+/**
+ * Product variants (size, colour, pack...): a product defines up to MAX_VARIANT_AXES axes and sells
+ * one variant per combination of axis values. Single-SKU products have no axes and no variants.
+ */
+
+export const MAX_VARIANT_AXES = 3;
+export const MAX_VARIANT_AXIS_VALUES = 20;
+export const MAX_VARIANTS_PER_PRODUCT = 100;
+export const MAX_VARIANT_AXIS_NAME_LENGTH = 30;
+export const MAX_VARIANT_VALUE_LENGTH = 30;
+
+interface WithVariants {
+  price: number;
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
+}
+
+export function hasVariants(product: WithVariants): boolean {
+  return (product.variants?.length ?? 0) > 0;
+}
+
+/** "M / אדום" – values in axis order when axes are given, otherwise in stored order. */
+export function getVariantLabel(
+  variant: Pick<ProductVariant, 'options'>,
+  axes?: ProductVariantAxis[]
+): string {
+  const values = axes?.length
+    ? axes.map((axis) => variant.options[axis.name]).filter((value): value is string => !!value)
+    : Object.values(variant.options);
+  return values.join(' / ');
+}
+
+export function getVariantPrice(product: WithVariants, variant?: Pick<ProductVariant, 'price'> | null): number {
+  return variant?.price ?? product.price;
+}
+
+/** Lowest and highest price a customer can pay for the product (equal for single-SKU products). */
+export function getPriceRange(product: WithVariants): { min: number; max: number } {
+  if (!hasVariants(product)) return { min: product.price, max: product.price };
+  const prices = product.variants!.map((v) => getVariantPrice(product, v));
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+}
+
+export function findVariant(product: WithVariants, variantId: string | null | undefined): ProductVariant | undefined {
+  if (!variantId) return undefined;
+  return product.variants?.find((v) => v.id === variantId);
+}
+
+/** The variant matching every selected option, if all axes are selected and the combination is sold. */
+export function findVariantByOptions(
+  product: WithVariants,
+  selected: Record<string, string>
+): ProductVariant | undefined {
+  const axes = product.variantAxes ?? [];
+  if (axes.some((axis) => !selected[axis.name])) return undefined;
+  return product.variants?.find((v) => axes.every((axis) => v.options[axis.name] === selected[axis.name]));
+}
+
+/** True when some sold variant has `value` on `axisName` and agrees with the other selected options. */
+export function isOptionAvailable(
+  product: WithVariants,
+  selected: Record<string, string>,
+  axisName: string,
+  value: string
+): boolean {
+  return (product.variants ?? []).some(
+    (v) =>
+      v.options[axisName] === value &&
+      Object.entries(selected).every(([name, selectedValue]) => name === axisName || v.options[name] === selectedValue)
+  );
+}
+
+/** Identity of a cart / order line: the same product in two variants is two lines. */
+export function getLineKey(productId: string, variantId?: string | null): string {
+  return variantId ? `${productId}::${variantId}` : productId;
+}
+
+/** "חולצה (M / אדום)" for order lines that carry a variant snapshot. */
+export function formatLineName(line: { productName: string; variantLabel?: string | null }): string {
+  return line.variantLabel ? `${line.productName} (${line.variantLabel})` : line.productName;
+}
+
+/** "S, M ,L," -> ['S', 'M', 'L'] (trimmed, empty and duplicate values dropped). */
+export function parseAxisValues(text: string): string[] {
+  const values = text
+    .split(',')
+    .map((value) => value.trim().slice(0, MAX_VARIANT_VALUE_LENGTH))
+    .filter((value) => value !== '');
+  return [...new Set(values)];
+}
+
+/**
+ * Every combination of the axis values, reusing id and price of existing variants with the same options
+ * (so editing axes never re-creates variants that existing orders and overrides point to).
+ */
+export function buildVariantCombinations(
+  axes: ProductVariantAxis[],
+  existing: ProductVariantInfo[] = []
+): ProductVariantInfo[] {
+  const usableAxes = axes.filter((axis) => axis.name.trim() !== '' && axis.values.length > 0);
+  if (usableAxes.length === 0) return [];
+
+  let combinations: Record<string, string>[] = [{}];
+  for (const axis of usableAxes) {
+    combinations = combinations.flatMap((options) => axis.values.map((value) => ({ ...options, [axis.name]: value })));
+  }
+
+  const sameOptions = (a: Record<string, string>, b: Record<string, string>) =>
+    Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([name, value]) => b[name] === value);
+
+  return combinations.map((options) => {
+    const match = existing.find((v) => sameOptions(v.options, options));
+    return { id: match?.id ?? null, options, price: match?.price ?? null };
+  });
+}
+
+/** Stable key of an options combination (axis order), used to key form state and cart lines. */
+export function getOptionsKey(options: Record<string, string>, axes: ProductVariantAxis[]): string {
+  return axes.map((axis) => options[axis.name] ?? '').join('|');
+}
+
+/** Variant section of the product form: axes as typed (values comma separated) and price text per combination. */
+export interface VariantsDraft {
+  axes: { name: string; valuesText: string }[];
+  /** Combination key (getOptionsKey) -> price text; empty means "product price". */
+  prices: Record<string, string>;
+}
+
+export const EMPTY_VARIANTS_DRAFT: VariantsDraft = { axes: [], prices: {} };
+
+export function getDraftAxes(draft: VariantsDraft): ProductVariantAxis[] {
+  return draft.axes.map((axis) => ({
+    name: axis.name.trim().slice(0, MAX_VARIANT_AXIS_NAME_LENGTH),
+    values: parseAxisValues(axis.valuesText),
+  }));
+}
+
+export function variantsDraftFromProduct(product: WithVariants): VariantsDraft {
+  const axes = product.variantAxes ?? [];
+  const prices: Record<string, string> = {};
+  (product.variants ?? []).forEach((variant) => {
+    if (variant.price != null) prices[getOptionsKey(variant.options, axes)] = variant.price.toString();
+  });
+  return { axes: axes.map((axis) => ({ name: axis.name, valuesText: axis.values.join(', ') })), prices };
+}
+
+/** First problem in the variant section, or '' when it is valid. Prices must respect the product minimum price. */
+export function validateVariantsDraft(draft: VariantsDraft, minimumPrice: number, maxPrice: number): string {
+  const axes = getDraftAxes(draft);
+  if (axes.length === 0) return '';
+  if (axes.some((axis) => axis.name === '')) return t('variant.error.axisName');
+  if (new Set(axes.map((axis) => axis.name)).size !== axes.length) return t('variant.error.axisNamesUnique');
+  if (axes.some((axis) => axis.values.length === 0)) return t('variant.error.axisValues');
+  if (axes.some((axis) => axis.values.length > MAX_VARIANT_AXIS_VALUES)) {
+    return t('variant.error.tooManyValues', { max: MAX_VARIANT_AXIS_VALUES });
+  }
+  const combinations = buildVariantCombinations(axes);
+  if (combinations.length > MAX_VARIANTS_PER_PRODUCT) {
+    return t('variant.error.tooManyVariants', { max: MAX_VARIANTS_PER_PRODUCT });
+  }
+  for (const combination of combinations) {
+    const priceText = draft.prices[getOptionsKey(combination.options, axes)]?.trim();
+    if (!priceText) continue;
+    const price = Number(priceText);
+    const label = getVariantLabel(combination, axes);
+    if (Number.isNaN(price) || price <= 0) return t('variant.error.price', { label });
+    if (price > maxPrice) return t('variant.error.priceMax', { label, max: formatNumber(maxPrice) });
+    if (price < minimumPrice) return t('variant.error.belowMinimum', { label });
+  }
+  return '';
+}
+
+/** Variant part of ProductInfo; existing variants keep their ids. Assumes the draft passed validateVariantsDraft. */
+export function variantInfoFromDraft(
+  draft: VariantsDraft,
+  existing: ProductVariant[] = []
+): { variantAxes: ProductVariantAxis[]; variants: ProductVariantInfo[] } {
+  const variantAxes = getDraftAxes(draft).filter((axis) => axis.name !== '' && axis.values.length > 0);
+  const variants = buildVariantCombinations(variantAxes, existing).map((variant) => {
+    const priceText = draft.prices[getOptionsKey(variant.options, variantAxes)]?.trim();
+    return { ...variant, price: priceText ? Math.round(Number(priceText) * 100) / 100 : null };
+  });
+  return { variantAxes, variants };
+}
@@ -0,0 +1,176 @@
+import type { ProductPublic } from '../services/api';
+import { tokenize } from './hebrewSearch';
+import { findProductByCode } from './productCodes';
+import { buildProductSearchIndex, searchProducts } from './productSearch';
+import type { ProductSearchEntry } from './productSearch';
+import { findVariant, hasVariants } from './productVariants';
+import type { ShelfLine } from './storeHistory';
+
+/**
+ * Quick order: a pasted spreadsheet snippet or an uploaded CSV, one line per product – the SKU/barcode or name
+ * first, the quantity last (comma, semicolon or tab separated, or "name 6"). Each line is matched to the catalog:
+ * codes exactly, names with the store search. Lines that match nothing or several products wait for the customer
+ * to pick; the rest go to the cart in one step, added to what is already there.
+ */
+
+export const MAX_QUICK_ORDER_LINES = 500;
+export const MAX_QUICK_ORDER_FILE_BYTES = 512 * 1024;
+export const MAX_QUICK_ORDER_QUANTITY = 100000;
+/** Products offered when a name matches several. */
+const MAX_CANDIDATES = 5;
+
+export interface QuickOrderRow {
+  /** 1-based line number in the pasted text / file. */
+  lineNumber: number;
+  source: string;
+  query: string;
+  quantityText: string;
+  productId: string | null;
+  variantId: string | null;
+  /** Products the query matched, best first; more than one means the customer has to choose. */
+  candidates: ProductPublic[];
+}
+
+export type QuickOrderRowStatus = 'ready' | 'chooseProduct' | 'chooseVariant' | 'notFound' | 'badQuantity';
+
+/** Fields of one CSV line; double quotes wrap fields that contain the delimiter ("" is a quote). */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && !field.trim()) {
+      quoted = true;
+      field = '';
+    } else if (ch === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function detectDelimiter(line: string): string | null {
+  if (line.includes('\t')) return '\t';
+  if (line.includes(';') && !line.includes(',')) return ';';
+  if (line.includes(',')) return ',';
+  return null;
+}
+
+/** Query and quantity text of a line; the quantity is '1' when the line has none. */
+function splitLine(line: string): { query: string; quantityText: string } {
+  const delimiter = detectDelimiter(line);
+  const fields = delimiter ? splitCsvLine(line, delimiter).filter(Boolean) : [line.trim()];
+  if (fields.length > 1) return { query: fields[0], quantityText: fields[fields.length - 1] };
+  // "Cola 6" / "7290000000012 x 6" – a trailing number is the quantity
+  const trailing = fields[0].match(/^(.*\S)\s+[x×*]?\s*(\d+)$/i);
+  if (trailing) return { query: trailing[1], quantityText: trailing[2] };
+  return { query: fields[0] ?? '', quantityText: '1' };
+}
+
+/** Whole number of units from 1 to the maximum, or null. */
+export function parseQuickOrderQuantity(text: string): number | null {
+  const value = Number(text.trim());
+  if (!text.trim() || !Number.isInteger(value) || value < 1 || value > MAX_QUICK_ORDER_QUANTITY) return null;
+  return value;
+}
+
+function matchQuery(query: string, catalog: ProductPublic[], index: ProductSearchEntry[]): ProductPublic[] {
+  const byCode = findProductByCode(catalog, query);
+  if (byCode) return [byCode];
+  const results = searchProducts(index, query);
+  if (results.length <= 1) return results;
+  // A name typed out in full wins over products that merely contain it
+  const wanted = tokenize(query).join(' ');
+  const sameName = results.filter((product) => tokenize(product.name).join(' ') === wanted);
+  return sameName.length === 1 ? sameName : results.slice(0, MAX_CANDIDATES);
+}
+
+/** Row with `query` (re)matched: a single candidate is selected, otherwise the selection is cleared. */
+export function matchQuickOrderRow(
+  row: QuickOrderRow,
+  catalog: ProductPublic[],
+  index: ProductSearchEntry[] = buildProductSearchIndex(catalog)
+): QuickOrderRow {
+  const candidates = row.query.trim() ? matchQuery(row.query, catalog, index) : [];
+  return {
+    ...row,
+    candidates,
+    productId: candidates.length === 1 ? candidates[0].id : null,
+    variantId: null,
+  };
+}
+
+/**
+ * Rows of pasted text or CSV content, matched to the catalog. A first line whose quantity column is not a number
+ * is taken for a header and skipped. Throws when there are more than MAX_QUICK_ORDER_LINES lines.
+ */
+export function parseQuickOrder(text: string, catalog: ProductPublic[]): QuickOrderRow[] {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((source, i) => ({ source: source.trim(), lineNumber: i + 1 }))
+    .filter((line) => line.source);
+  if (lines.length > MAX_QUICK_ORDER_LINES) {
+    throw new Error(`Quick order is limited to ${MAX_QUICK_ORDER_LINES} lines`);
+  }
+
+  const index = buildProductSearchIndex(catalog);
+  const rows: QuickOrderRow[] = [];
+  lines.forEach(({ source, lineNumber }, i) => {
+    const { query, quantityText } = splitLine(source);
+    const hasQuantityColumn = detectDelimiter(source) != null;
+    if (i === 0 && hasQuantityColumn && parseQuickOrderQuantity(quantityText) == null) return;
+    rows.push(
+      matchQuickOrderRow(
+        { lineNumber, source, query, quantityText, productId: null, variantId: null, candidates: [] },
+        catalog,
+        index
+      )
+    );
+  });
+  return rows;
+}
+
+export function getQuickOrderRowStatus(row: QuickOrderRow): QuickOrderRowStatus {
+  if (row.candidates.length === 0) return 'notFound';
+  const product = row.candidates.find((candidate) => candidate.id === row.productId);
+  if (!product) return 'chooseProduct';
+  if (hasVariants(product) && !findVariant(product, row.variantId)) return 'chooseVariant';
+  if (parseQuickOrderQuantity(row.quantityText) == null) return 'badQuantity';
+  return 'ready';
+}
+
+/**
+ * Cart lines of the ready rows; rows for the same product and variant are summed. Quantities are as typed –
+ * the store fits them to the product's pack size and maximum when it merges them into the cart.
+ */
+export function getQuickOrderLines(rows: QuickOrderRow[]): ShelfLine[] {
+  const lines: ShelfLine[] = [];
+  rows.forEach((row) => {
+    if (getQuickOrderRowStatus(row) !== 'ready') return;
+    const product = row.candidates.find((candidate) => candidate.id === row.productId)!;
+    const variant = findVariant(product, row.variantId) ?? null;
+    const quantity = parseQuickOrderQuantity(row.quantityText)!;
+    const existing = lines.find((line) => line.product.id === product.id && line.variant?.id === variant?.id);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      lines.push({ product, variant, quantity });
+    }
+  });
+  return lines;
+}
@@ -0,0 +1,167 @@
+import type { CartProductRule, CartRules, ProductPublic, ProductVariant, PurchasedProduct } from '../services/api';
+import { getProductRule, getQuantityStep } from './cartRules';
+import { getAvailableQuantity } from './inventory';
+import { findVariant, hasVariants } from './productVariants';
+
+/**
+ * Favourites and "buy again" for the public store. Customer-linked order links get both from the server
+ * (`publicAPI.orders.getCustomerHistory`); anonymous visitors from this device (localStorage, per store).
+ * Shelf lines are always resolved against the current catalog, so prices are live and products that were
+ * removed (or lost the ordered variant) drop out instead of reaching the cart.
+ */
+
+export const MAX_BUY_AGAIN_LINES = 20;
+const MAX_LOCAL_PURCHASES = 200;
+const MAX_LOCAL_FAVORITES = 200;
+const HISTORY_PREFIX = 'store_history_';
+const FAVORITES_PREFIX = 'store_favorites_';
+
+/** A product line ready for the cart: live product, its current variant and a rule-safe quantity. */
+export interface ShelfLine {
+  product: ProductPublic;
+  variant: ProductVariant | null;
+  quantity: number;
+}
+
+function readList<T>(key: string): T[] {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? (JSON.parse(raw) as T[]) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList<T>(key: string, list: T[]): void {
+  try {
+    if (list.length > 0) {
+      localStorage.setItem(key, JSON.stringify(list));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage full or unavailable: history is a convenience, the order itself is unaffected
+  }
+}
+
+export function getLocalPurchases(managerId: string): PurchasedProduct[] {
+  return readList<PurchasedProduct>(HISTORY_PREFIX + managerId);
+}
+
+/** Add an order placed on this device to the store's local history (latest first). */
+export function recordLocalPurchase(
+  managerId: string,
+  lines: { productId: string; variantId: string | null; quantity: number }[]
+): void {
+  const now = new Date().toISOString();
+  const previous = getLocalPurchases(managerId);
+  const ordered: PurchasedProduct[] = lines.map((line) => {
+    const earlier = previous.find((p) => p.productId === line.productId && p.variantId === line.variantId);
+    return {
+      productId: line.productId,
+      variantId: line.variantId,
+      lastQuantity: line.quantity,
+      orderCount: (earlier?.orderCount ?? 0) + 1,
+      lastOrderedAt: now,
+    };
+  });
+  const rest = previous.filter(
+    (p) => !lines.some((line) => line.productId === p.productId && line.variantId === p.variantId)
+  );
+  writeList(HISTORY_PREFIX + managerId, [...ordered, ...rest].slice(0, MAX_LOCAL_PURCHASES));
+}
+
+export function getLocalFavorites(managerId: string): string[] {
+  return readList<string>(FAVORITES_PREFIX + managerId);
+}
+
+export function saveLocalFavorites(managerId: string, productIds: string[]): void {
+  writeList(FAVORITES_PREFIX + managerId, productIds.slice(0, MAX_LOCAL_FAVORITES));
+}
+
+/** Favourites with `productId` added or removed; newest favourite first. */
+export function toggleFavoriteId(productIds: string[], productId: string): string[] {
+  return productIds.includes(productId) ? productIds.filter((id) => id !== productId) : [productId, ...productIds];
+}
+
+/**
+ * `quantity` moved onto the product's current pack size and capped at its maximum (rules may have changed
+ * since the order) and at `available` units when given. 0 when not even one pack is allowed.
+ */
+export function fitQuantityToRule(
+  rule: CartProductRule | null | undefined,
+  quantity: number,
+  available?: number | null
+): number {
+  const step = getQuantityStep(rule);
+  const fitted = Math.max(step, Math.ceil(quantity / step) * step);
+  const cap = Math.min(rule?.maxQuantity ?? Infinity, available ?? Infinity);
+  return fitted > cap ? Math.floor(cap / step) * step : fitted;
+}
+
+/**
+ * Past purchases that can be ordered now, most often ordered first (ties: most recent), with the last quantity.
+ * With `limitToStock` (the business blocks unavailable quantities) that quantity is capped at the stock.
+ * `unavailableCount` is how many past lines are no longer in the catalog or out of stock.
+ */
+export function getBuyAgainLines(
+  purchases: PurchasedProduct[],
+  catalog: ProductPublic[],
+  rules: CartRules | null | undefined,
+  limitToStock = false,
+  limit: number = MAX_BUY_AGAIN_LINES
+): { lines: ShelfLine[]; unavailableCount: number } {
+  const byId = new Map(catalog.map((product) => [product.id, product]));
+  const sorted = [...purchases].sort(
+    (a, b) => b.orderCount - a.orderCount || b.lastOrderedAt.localeCompare(a.lastOrderedAt)
+  );
+  const lines: ShelfLine[] = [];
+  let unavailableCount = 0;
+  for (const purchase of sorted) {
+    const product = byId.get(purchase.productId);
+    const variant = product ? findVariant(product, purchase.variantId) : undefined;
+    // Same rule as re-opening an order for edit: a variant product without its variant can't be re-ordered
+    if (!product || (hasVariants(product) && !variant)) {
+      unavailableCount++;
+      continue;
+    }
+    const quantity = fitQuantityToRule(
+      getProductRule(rules, product.id),
+      purchase.lastQuantity,
+      limitToStock ? getAvailableQuantity(product, variant) : null
+    );
+    if (quantity === 0) {
+      unavailableCount++;
+      continue;
+    }
+    if (lines.length < limit) lines.push({ product, variant: variant ?? null, quantity });
+  }
+  return { lines, unavailableCount };
+}
+
+/** Favourite products still in the catalog, in favourite order. */
+export function getFavoriteProducts(productIds: string[], catalog: ProductPublic[]): ProductPublic[] {
+  const byId = new Map(catalog.map((product) => [product.id, product]));
+  return productIds.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Cart lines for "add all favourites": one pack of every favourite that needs no variant choice (and, with
+ * `limitToStock`, is in stock).
+ */
+export function getFavoriteLines(
+  favorites: ProductPublic[],
+  rules: CartRules | null | undefined,
+  limitToStock = false
+): ShelfLine[] {
+  return favorites.flatMap((product) => {
+    if (hasVariants(product)) return [];
+    const quantity = fitQuantityToRule(
+      getProductRule(rules, product.id),
+      1,
+      limitToStock ? getAvailableQuantity(product) : null
+    );
+    return quantity > 0 ? [{ product, variant: null, quantity }] : [];
+  });
+}
@@ -0,0 +1,197 @@
+import type { CSSProperties } from 'react';
+import type { StoreTheme, StoreThemeSettings } from '../services/api';
+import { t } from './i18n';
+import { validateEmail } from './validation';
+
+/**
+ * Store branding. The manager picks any primary/accent color, so the colors are not used as-is: each one gets
+ * the text color (white or dark) that reads best on it, and is darkened/lightened until that pair reaches WCAG AA
+ * (4.5:1) – or 7:1 when the AccessibilityWidget's high-contrast mode is on. Both variants are set as CSS
+ * variables and the `.store-*` classes in index.css pick one by the `html.contrast-high` class.
+ */
+
+export const MAX_WELCOME_TEXT_LENGTH = 300;
+export const MAX_FOOTER_TEXT_LENGTH = 300;
+export const MAX_CONTACT_PHONE_LENGTH = 10;
+export const MAX_CONTACT_EMAIL_LENGTH = 100;
+export const MAX_CONTACT_ADDRESS_LENGTH = 120;
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const WHITE = '#ffffff';
+const DARK_TEXT = '#111827';
+/** Ratio for normal text (WCAG AA) and for high-contrast mode (WCAG AAA). */
+const MIN_CONTRAST = 4.5;
+const MIN_HIGH_CONTRAST = 7;
+
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR_PATTERN.test(value);
+}
+
+function toRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function toHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Blend `hex` towards `target`; amount 0..1. */
+function mix(hex: string, target: string, amount: number): string {
+  const from = toRgb(hex);
+  const to = toRgb(target);
+  return toHex([0, 1, 2].map((i) => from[i] + (to[i] - from[i]) * amount) as [number, number, number]);
+}
+
+function relativeLuminance(hex: string): number {
+  const [r, g, b] = toRgb(hex).map((c) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** WCAG contrast ratio, 1..21. */
+export function getContrastRatio(a: string, b: string): number {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+interface ReadablePair {
+  background: string;
+  text: string;
+  /** Slightly stronger background for hover; never less contrast than `background`. */
+  hover: string;
+}
+
+/** The color as a button background with readable text, adjusted only as far as needed to reach `minRatio`. */
+export function getReadablePair(color: string, minRatio: number = MIN_CONTRAST): ReadablePair {
+  const text = getContrastRatio(color, WHITE) >= getContrastRatio(color, DARK_TEXT) ? WHITE : DARK_TEXT;
+  // Moving away from the text color only increases contrast
+  const away = text === WHITE ? '#000000' : WHITE;
+  let background = color;
+  for (let step = 1; step <= 20 && getContrastRatio(background, text) < minRatio; step++) {
+    background = mix(color, away, step * 0.05);
+  }
+  return { background, text, hover: mix(background, away, 0.12) };
+}
+
+/** True when the color was too light or too dark and the store shows an adjusted shade. */
+export function isColorAdjusted(color: string): boolean {
+  return getReadablePair(color).background !== color.toLowerCase();
+}
+
+function colorVariables(name: 'primary' | 'accent', color: string | null): Record<string, string> {
+  if (!color || !isHexColor(color)) return {};
+  const normal = getReadablePair(color.toLowerCase(), MIN_CONTRAST);
+  const high = getReadablePair(color.toLowerCase(), MIN_HIGH_CONTRAST);
+  return {
+    [`--store-${name}`]: normal.background,
+    [`--store-on-${name}`]: normal.text,
+    [`--store-${name}-hover`]: normal.hover,
+    [`--store-${name}-hc`]: high.background,
+    [`--store-on-${name}-hc`]: high.text,
+  };
+}
+
+/** CSS variables for the `.store-*` classes; empty (default look) when the store has no theme colors. */
+export function getStoreThemeStyle(theme: StoreTheme | null | undefined): CSSProperties {
+  if (!theme) return {};
+  return {
+    ...colorVariables('primary', theme.primaryColor),
+    ...colorVariables('accent', theme.accentColor),
+  } as CSSProperties;
+}
+
+export function hasStoreFooter(theme: StoreTheme | null | undefined): boolean {
+  return !!(theme?.footerText || theme?.contactPhone || theme?.contactEmail || theme?.contactAddress);
+}
+
+/** "צבעים מותאמים · באנר · כותרת תחתונה", or "ברירת מחדל" when the store keeps the default look. */
+export function describeStoreTheme(theme: StoreTheme | null | undefined): string {
+  if (!theme) return t('storeTheme.summary.default');
+  const parts: string[] = [];
+  if (theme.primaryColor || theme.accentColor) parts.push(t('storeTheme.summary.colors'));
+  if (theme.bannerImageUrl) parts.push(t('storeTheme.summary.banner'));
+  if (theme.welcomeText) parts.push(t('storeTheme.summary.welcomeText'));
+  if (hasStoreFooter(theme)) parts.push(t('storeTheme.summary.footer'));
+  return parts.length > 0 ? parts.join(' · ') : t('storeTheme.summary.default');
+}
+
+/** Form state of the theme fields in the business form (the banner is handled as an image upload). */
+export interface StoreThemeDraft {
+  primaryColor: string;
+  accentColor: string;
+  welcomeText: string;
+  footerText: string;
+  contactPhone: string;
+  contactEmail: string;
+  contactAddress: string;
+}
+
+export function storeThemeDraftFrom(theme: StoreTheme | null | undefined): StoreThemeDraft {
+  return {
+    primaryColor: theme?.primaryColor ?? '',
+    accentColor: theme?.accentColor ?? '',
+    welcomeText: theme?.welcomeText ?? '',
+    footerText: theme?.footerText ?? '',
+    contactPhone: theme?.contactPhone ?? '',
+    contactEmail: theme?.contactEmail ?? '',
+    contactAddress: theme?.contactAddress ?? '',
+  };
+}
+
+/** First problem in the theme fields, or '' when they can be saved. Every field is optional. */
+export function validateStoreThemeDraft(draft: StoreThemeDraft): string {
+  if (draft.primaryColor && !isHexColor(draft.primaryColor)) return t('storeTheme.error.primaryColor');
+  if (draft.accentColor && !isHexColor(draft.accentColor)) return t('storeTheme.error.accentColor');
+  if (draft.welcomeText.trim().length > MAX_WELCOME_TEXT_LENGTH) {
+    return t('storeTheme.error.welcomeTextLength', { max: MAX_WELCOME_TEXT_LENGTH });
+  }
+  if (draft.footerText.trim().length > MAX_FOOTER_TEXT_LENGTH) {
+    return t('storeTheme.error.footerTextLength', { max: MAX_FOOTER_TEXT_LENGTH });
+  }
+  const phone = draft.contactPhone.trim();
+  if (phone && (!/^\d+$/.test(phone) || phone.length < 9 || phone.length > MAX_CONTACT_PHONE_LENGTH)) {
+    return t('storeTheme.error.contactPhone');
+  }
+  if (draft.contactEmail.trim()) {
+    const emailError = validateEmail(draft.contactEmail, MAX_CONTACT_EMAIL_LENGTH);
+    if (emailError) return emailError;
+  }
+  if (draft.contactAddress.trim().length > MAX_CONTACT_ADDRESS_LENGTH) {
+    return t('storeTheme.error.contactAddressLength', { max: MAX_CONTACT_ADDRESS_LENGTH });
+  }
+  return '';
+}
+
+/** Theme to save; null when every field is empty (default store look). Call after validateStoreThemeDraft. */
+export function storeThemeFromDraft(draft: StoreThemeDraft): StoreThemeSettings | null {
+  const value = (text: string) => text.trim() || null;
+  const settings: StoreThemeSettings = {
+    primaryColor: draft.primaryColor ? draft.primaryColor.toLowerCase() : null,
+    accentColor: draft.accentColor ? draft.accentColor.toLowerCase() : null,
+    welcomeText: value(draft.welcomeText),
+    footerText: value(draft.footerText),
+    contactPhone: value(draft.contactPhone),
+    contactEmail: value(draft.contactEmail),
+    contactAddress: value(draft.contactAddress),
+  };
+  return Object.values(settings).some((field) => field != null) ? settings : null;
+}
+
+export function isSameStoreTheme(
+  a: StoreThemeSettings | null | undefined,
+  b: StoreThemeSettings | null | undefined
+): boolean {
+  const fields: (keyof StoreThemeSettings)[] = [
+    'primaryColor',
+    'accentColor',
+    'welcomeText',
+    'footerText',
+    'contactPhone',
+    'contactEmail',
+    'contactAddress',
+  ];
+  return fields.every((field) => (a?.[field] ?? null) === (b?.[field] ?? null));
+}
@@ -0,0 +1,83 @@
+/**
+ * Store browsing state (search, category/brand filters, sort) encoded as URL query parameters,
+ * so a curated store view (e.g. "only brand X in category Y") can be shared as a link.
+ * Used by StorePage on /store/:managerId, /store/order/:orderId and /store/edit/:orderId.
+ */
+
+export type StoreSortBy = 'name' | 'price';
+export type StoreSortDirection = 'ASC' | 'DESC';
+
+export interface StoreViewState {
+  searchQuery: string;
+  categoryIds: number[];
+  brandIds: number[];
+  sortBy: StoreSortBy;
+  sortDirection: StoreSortDirection;
+}
+
+export const STORE_VIEW_PARAM = {
+  search: 'q',
+  categories: 'categories',
+  brands: 'brands',
+  sort: 'sort',
+  direction: 'dir',
+} as const;
+
+export const DEFAULT_STORE_VIEW: StoreViewState = {
+  searchQuery: '',
+  categoryIds: [],
+  brandIds: [],
+  sortBy: 'name',
+  sortDirection: 'ASC',
+};
+
+/** "3,5,8" -> [3, 5, 8]; invalid and duplicate ids are dropped. */
+export function parseIdList(raw: string | null): number[] {
+  if (!raw) return [];
+  const ids = raw
+    .split(',')
+    .map((part) => Number(part.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  return [...new Set(ids)];
+}
+
+export function parseStoreView(params: URLSearchParams): StoreViewState {
+  const sort = params.get(STORE_VIEW_PARAM.sort);
+  const direction = params.get(STORE_VIEW_PARAM.direction)?.toUpperCase();
+  return {
+    searchQuery: params.get(STORE_VIEW_PARAM.search) ?? '',
+    categoryIds: parseIdList(params.get(STORE_VIEW_PARAM.categories)),
+    brandIds: parseIdList(params.get(STORE_VIEW_PARAM.brands)),
+    sortBy: sort === 'price' ? 'price' : 'name',
+    sortDirection: direction === 'DESC' ? 'DESC' : 'ASC',
+  };
+}
+
+/**
+ * Write `view` into a copy of `params`. Defaults are omitted to keep links short;
+ * unrelated query parameters are preserved.
+ */
+export function applyStoreView(params: URLSearchParams, view: StoreViewState): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const setOrDelete = (key: string, value: string, isDefault: boolean) => {
+    if (isDefault) next.delete(key);
+    else next.set(key, value);
+  };
+  const query = view.searchQuery.trim() === '' ? '' : view.searchQuery;
+  setOrDelete(STORE_VIEW_PARAM.search, query, query === '');
+  setOrDelete(STORE_VIEW_PARAM.categories, view.categoryIds.join(','), view.categoryIds.length === 0);
+  setOrDelete(STORE_VIEW_PARAM.brands, view.brandIds.join(','), view.brandIds.length === 0);
+  setOrDelete(STORE_VIEW_PARAM.sort, view.sortBy, view.sortBy === DEFAULT_STORE_VIEW.sortBy);
+  setOrDelete(
+    STORE_VIEW_PARAM.direction,
+    view.sortDirection.toLowerCase(),
+    view.sortDirection === DEFAULT_STORE_VIEW.sortDirection
+  );
+  return next;
+}
+
+/** Query string (with leading "?", or empty) for a partial store view, for building shareable links. */
+export function buildStoreViewQuery(view: Partial<StoreViewState>): string {
+  const query = applyStoreView(new URLSearchParams(), { ...DEFAULT_STORE_VIEW, ...view }).toString();
+  return query ? `?${query}` : '';
+}
@@ -1,6 +1,8 @@
 // Shared types for pages that need simplified interfaces
 // Full interfaces are exported from api.ts, but pages sometimes need simplified versions
 
+import type { ProductVariant, ProductVariantAxis } from '../services/api';
+
 /**
  * Simplified Product interface for dropdowns and lists (e.g., in OverridesPage)
  */
@@ -9,6 +11,8 @@ export interface ProductListItem {
   name: string;
   price: number;
   minimumPrice: number;
+  variantAxes?: ProductVariantAxis[];
+  variants?: ProductVariant[];
 }
 
 /**
@@ -20,6 +24,8 @@ export interface ProductOverride {
   managerId: string;
   agentId: string | null;
   customerId: string;
+  /** Null/missing: the override applies to the whole product (every variant). */
+  variantId?: string | null;
   overridePrice: number;
 }
 
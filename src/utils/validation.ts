@@ -1,4 +1,5 @@
 // Shared validation utilities for forms
+import { formatNumber, t } from './i18n';
 
 export type ValidationErrors = Record<string, string>;
 
@@ -12,7 +13,7 @@ export interface ValidationResult {
  */
 export function validateRequired(value: string, fieldName: string): string | null {
   if (!value.trim()) {
-    return `${fieldName} נדרש`;
+    return t('validation.required', { field: fieldName });
   }
   return null;
 }
@@ -22,7 +23,7 @@ export function validateRequired(value: string, fieldName: string): string | nul
  */
 export function validateMaxLength(value: string, maxLength: number, fieldName: string): string | null {
   if (value.trim().length > maxLength) {
-    return `${fieldName} חייב להיות ${maxLength} תווים או פחות`;
+    return t('validation.maxLength', { field: fieldName, max: maxLength });
   }
   return null;
 }
@@ -45,17 +46,17 @@ export function validateRequiredWithMaxLength(
 /**
  * Validates State ID number: required, digits only, exactly 9 characters
  */
-export function validateStateIdNumber(value: string, fieldName: string = 'State ID number'): string | null {
+export function validateStateIdNumber(value: string, fieldName: string = t('field.stateId')): string | null {
   const trimmed = value.trim();
   const requiredError = validateRequired(value, fieldName);
   if (requiredError) {
     return requiredError;
   }
   if (!/^\d+$/.test(trimmed)) {
-    return `${fieldName} חייב להכיל ספרות בלבד`;
+    return t('validation.digitsOnly', { field: fieldName });
   }
   if (trimmed.length !== 9) {
-    return `${fieldName} חייב להכיל בדיוק 9 ספרות`;
+    return t('validation.exactDigits', { field: fieldName, count: 9 });
   }
   return null;
 }
@@ -66,7 +67,7 @@ export function validateStateIdNumber(value: string, fieldName: string = 'State
 export function validatePhoneNumberDigitsOnly(
   value: string,
   maxLength: number,
-  fieldName: string = 'Phone number'
+  fieldName: string = t('field.phone')
 ): string | null {
   const trimmed = value.trim();
   const requiredError = validateRequired(trimmed, fieldName);
@@ -75,7 +76,7 @@ export function validatePhoneNumberDigitsOnly(
   }
 
   if (!/^\d+$/.test(trimmed)) {
-    return `${fieldName} חייב להכיל ספרות בלבד`;
+    return t('validation.digitsOnly', { field: fieldName });
   }
 
   return validateMaxLength(trimmed, maxLength, fieldName);
@@ -87,14 +88,14 @@ export function validatePhoneNumberDigitsOnly(
 export function validateEmail(email: string, maxLength: number = 100): string | null {
   const trimmed = email.trim();
   if (!trimmed) {
-    return 'אימייל נדרש';
+    return t('validation.required', { field: t('field.email') });
   }
   if (trimmed.length > maxLength) {
-    return `אימייל חייב להיות ${maxLength} תווים או פחות`;
+    return t('validation.maxLength', { field: t('field.email'), max: maxLength });
   }
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   if (!emailRegex.test(trimmed)) {
-    return 'אנא הזן אימייל תקין';
+    return t('validation.emailInvalid');
   }
   return null;
 }
@@ -102,15 +103,15 @@ export function validateEmail(email: string, maxLength: number = 100): string |
 /**
  * Validates discount percentage (0-100)
  */
-export function validateDiscountPercentage(value: string | number, fieldName: string = 'אחוז הנחה'): string | null {
+export function validateDiscountPercentage(value: string | number, fieldName: string = t('field.discountPercentage')): string | null {
   const numValue = typeof value === 'string' ? parseFloat(value) : value;
   
   if (isNaN(numValue)) {
-    return `${fieldName} חייב להיות מספר תקין`;
+    return t('validation.number', { field: fieldName });
   }
   
   if (numValue < 0 || numValue > 100) {
-    return `${fieldName} חייב להיות בין 0 ל-100`;
+    return t('validation.percentRange', { field: fieldName });
   }
   
   return null;
@@ -121,10 +122,10 @@ export function validateDiscountPercentage(value: string | number, fieldName: st
  */
 export function validatePassword(password: string, minLength: number = 8): string | null {
   if (!password.trim()) {
-    return 'סיסמה נדרשת';
+    return t('validation.required', { field: t('field.password') });
   }
   if (password.length < minLength) {
-    return `סיסמה חייבת להיות לפחות ${minLength} תווים`;
+    return t('validation.passwordMinLength', { min: minLength });
   }
   return null;
 }
@@ -134,10 +135,10 @@ export function validatePassword(password: string, minLength: number = 8): strin
  */
 export function validatePasswordConfirmation(password: string, confirmation: string): string | null {
   if (!confirmation.trim()) {
-    return 'Please confirm your password';
+    return t('validation.confirmPassword');
   }
   if (password !== confirmation) {
-    return 'Passwords do not match';
+    return t('validation.passwordMismatch');
   }
   return null;
 }
@@ -145,9 +146,9 @@ export function validatePasswordConfirmation(password: string, confirmation: str
 /**
  * Validates that a date is provided
  */
-export function validateDate(date: string, fieldName: string = 'Date'): string | null {
+export function validateDate(date: string, fieldName: string = t('field.date')): string | null {
   if (!date) {
-    return `${fieldName} is required`;
+    return t('validation.required', { field: fieldName });
   }
   return null;
 }
@@ -196,14 +197,14 @@ export const AGENT_FIELD_LIMITS = {
 } as const;
 
 export const userFormValidations = {
-  firstName: (value: string) => validateRequiredWithMaxLength(value, 'שם פרטי', MAX_NAME_LENGTH),
-  lastName: (value: string) => validateRequiredWithMaxLength(value, 'שם משפחה', MAX_NAME_LENGTH),
+  firstName: (value: string) => validateRequiredWithMaxLength(value, t('field.firstName'), MAX_NAME_LENGTH),
+  lastName: (value: string) => validateRequiredWithMaxLength(value, t('field.lastName'), MAX_NAME_LENGTH),
   email: (value: string) => validateEmail(value, MAX_EMAIL_LENGTH),
   password: (value: string) => validatePassword(value),
-  phoneNumber: (value: string) => validatePhoneNumberDigitsOnly(value, MAX_PHONE_LENGTH, 'מספר טלפון'),
-  dateOfBirth: (value: string) => validateDate(value, 'Date of birth'),
-  streetAddress: (value: string) => validateRequiredWithMaxLength(value, 'כתובת', MAX_STREET_ADDRESS_LENGTH),
-  city: (value: string) => validateRequiredWithMaxLength(value, 'עיר', MAX_CITY_LENGTH),
+  phoneNumber: (value: string) => validatePhoneNumberDigitsOnly(value, MAX_PHONE_LENGTH, t('field.phone')),
+  dateOfBirth: (value: string) => validateDate(value, t('field.dateOfBirth')),
+  streetAddress: (value: string) => validateRequiredWithMaxLength(value, t('field.address'), MAX_STREET_ADDRESS_LENGTH),
+  city: (value: string) => validateRequiredWithMaxLength(value, t('field.city'), MAX_CITY_LENGTH),
 };
 
 /**
@@ -278,11 +279,30 @@ export function validateMinimumSequenceNumber(value: string, fieldName: string):
     return requiredError;
   }
   if (!/^\d+$/.test(trimmed)) {
-    return `${fieldName} חייב להכיל ספרות בלבד`;
+    return t('validation.digitsOnly', { field: fieldName });
   }
   const parsed = Number.parseInt(trimmed, 10);
   if (!Number.isFinite(parsed) || parsed < 1) {
-    return `${fieldName} חייב להיות לפחות 1`;
+    return t('validation.minOne', { field: fieldName });
+  }
+  return null;
+}
+
+const MAX_MONEY_AMOUNT = 1_000_000;
+
+/**
+ * Validates a non-negative shekel amount with up to 2 decimal places (delivery fee, free-delivery threshold)
+ */
+export function validateMoneyAmount(value: string, fieldName: string, required: boolean): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return required ? t('validation.required', { field: fieldName }) : null;
+  }
+  if (!/^\d+(\.\d{1,2})?$/.test(trimmed)) {
+    return t('validation.moneyAmount', { field: fieldName });
+  }
+  if (Number(trimmed) > MAX_MONEY_AMOUNT) {
+    return t('validation.moneyMax', { field: fieldName, max: formatNumber(MAX_MONEY_AMOUNT) });
   }
   return null;
 }
@@ -299,26 +319,45 @@ export function validateBusinessForm(formData: {
   city: string;
   minimumInvoiceSequenceNumber?: string;
   minimumCreditNoteSequenceNumber?: string;
+  /** Delivery amounts are validated only when passed (delivery enabled). */
+  deliveryFee?: string;
+  freeDeliveryThreshold?: string;
+  minimumOrderTotal?: string;
 }): ValidationResult {
   const fields: { field: string; error: string | null }[] = [
-    { field: 'name', error: validateRequiredWithMaxLength(formData.name, 'Business name', MAX_NAME_LENGTH) },
-    { field: 'stateIdNumber', error: validateStateIdNumber(formData.stateIdNumber, 'State ID number') },
+    { field: 'name', error: validateRequiredWithMaxLength(formData.name, t('field.businessName'), MAX_NAME_LENGTH) },
+    { field: 'stateIdNumber', error: validateStateIdNumber(formData.stateIdNumber) },
     { field: 'email', error: validateEmail(formData.email, MAX_EMAIL_LENGTH) },
-    { field: 'phoneNumber', error: validatePhoneNumberDigitsOnly(formData.phoneNumber, MAX_PHONE_LENGTH, 'Phone number') },
-    { field: 'streetAddress', error: validateRequiredWithMaxLength(formData.streetAddress, 'Street address', MAX_STREET_ADDRESS_LENGTH) },
-    { field: 'city', error: validateRequiredWithMaxLength(formData.city, 'City', MAX_CITY_LENGTH) },
+    { field: 'phoneNumber', error: validatePhoneNumberDigitsOnly(formData.phoneNumber, MAX_PHONE_LENGTH) },
+    { field: 'streetAddress', error: validateRequiredWithMaxLength(formData.streetAddress, t('field.address'), MAX_STREET_ADDRESS_LENGTH) },
+    { field: 'city', error: validateRequiredWithMaxLength(formData.city, t('field.city'), MAX_CITY_LENGTH) },
   ];
 
   if (formData.minimumInvoiceSequenceNumber !== undefined) {
     fields.push({
       field: 'minimumInvoiceSequenceNumber',
-      error: validateMinimumSequenceNumber(formData.minimumInvoiceSequenceNumber, 'מספר חשבונית מינימלי'),
+      error: validateMinimumSequenceNumber(formData.minimumInvoiceSequenceNumber, t('field.minInvoiceNumber')),
     });
   }
   if (formData.minimumCreditNoteSequenceNumber !== undefined) {
     fields.push({
       field: 'minimumCreditNoteSequenceNumber',
-      error: validateMinimumSequenceNumber(formData.minimumCreditNoteSequenceNumber, 'מספר זיכוי מינימלי'),
+      error: validateMinimumSequenceNumber(formData.minimumCreditNoteSequenceNumber, t('field.minCreditNoteNumber')),
+    });
+  }
+  if (formData.deliveryFee !== undefined) {
+    fields.push({ field: 'deliveryFee', error: validateMoneyAmount(formData.deliveryFee, t('field.deliveryFee'), true) });
+  }
+  if (formData.freeDeliveryThreshold !== undefined) {
+    fields.push({
+      field: 'freeDeliveryThreshold',
+      error: validateMoneyAmount(formData.freeDeliveryThreshold, t('field.freeDeliveryThreshold'), false),
+    });
+  }
+  if (formData.minimumOrderTotal !== undefined) {
+    fields.push({
+      field: 'minimumOrderTotal',
+      error: validateMoneyAmount(formData.minimumOrderTotal, t('field.minimumOrderTotal'), false),
     });
   }
 
@@ -359,7 +398,7 @@ export function validatePasswordChangeForm(formData: {
     : validatePasswordConfirmation(formData.newPassword, formData.newPasswordConfirmation);
 
   return validateFields([
-    { field: 'oldPassword', error: validateRequired(formData.oldPassword, 'Current password') },
+    { field: 'oldPassword', error: validateRequired(formData.oldPassword, t('field.currentPassword')) },
     { field: 'newPassword', error: newPasswordError },
     { field: 'newPasswordConfirmation', error: confirmationError },
   ]);
@@ -377,23 +416,23 @@ export function validateLocationForm(formData: {
   return validateFields([
     {
       field: 'name',
-      error: validateRequiredWithMaxLength(formData.name, 'שם הסניף', MAX_LOCATION_NAME_LENGTH),
+      error: validateRequiredWithMaxLength(formData.name, t('field.locationName'), MAX_LOCATION_NAME_LENGTH),
     },
     {
       field: 'streetAddress',
       error: validateRequiredWithMaxLength(
         formData.streetAddress,
-        'כתובת',
+        t('field.address'),
         MAX_LOCATION_STREET_LENGTH
       ),
     },
-    { field: 'city', error: validateRequiredWithMaxLength(formData.city, 'עיר', MAX_LOCATION_CITY_LENGTH) },
+    { field: 'city', error: validateRequiredWithMaxLength(formData.city, t('field.city'), MAX_LOCATION_CITY_LENGTH) },
     {
       field: 'phoneNumber',
       error: validatePhoneNumberDigitsOnly(
         formData.phoneNumber,
         MAX_LOCATION_PHONE_LENGTH,
-        'מספר טלפון'
+        t('field.phone')
       ),
     },
   ]);
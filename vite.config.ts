@@ -1,9 +1,33 @@
-import { defineConfig } from 'vite'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const PRECACHE_PLACEHOLDER = 'const PRECACHE_ASSETS = [];'
+
+/**
+ * Writes the built JS and CSS files into dist/sw.js, which caches them at install: the first visit loads its assets
+ * before the worker is registered, so without the list they would never reach the cache.
+ */
+function precacheBuildAssets(): Plugin {
+  return {
+    name: 'precache-build-assets',
+    apply: 'build',
+    writeBundle(options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((file) => /\.(js|css)$/.test(file))
+        .map((file) => `/${file}`)
+      const swPath = join(options.dir ?? 'dist', 'sw.js')
+      const source = readFileSync(swPath, 'utf8')
+      if (!source.includes(PRECACHE_PLACEHOLDER)) throw new Error(`${swPath}: "${PRECACHE_PLACEHOLDER}" not found`)
+      writeFileSync(swPath, source.replace(PRECACHE_PLACEHOLDER, `const PRECACHE_ASSETS = ${JSON.stringify(assets)};`))
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheBuildAssets()],
   // Expose environment variables to the client
   // Variables prefixed with VITE_ are available in the app via import.meta.env.VITE_*
   envPrefix: 'VITE_',